@@ -42,12 +42,16 @@ const Projects = React.lazy(() => import("./pages/Projects"));
 const Settings = React.lazy(() => import("./pages/Settings"));
 const Attendance = React.lazy(() => import("./pages/Attendance"));
 const LeaveRequests = React.lazy(() => import("./pages/LeaveRequests"));
+const LeavePolicies = React.lazy(() => import("./pages/LeavePolicies"));
+const ShiftRoster = React.lazy(() => import("./pages/ShiftRoster"));
 const Payroll = React.lazy(() => import("./pages/Payroll"));
 const Invoices = React.lazy(() => import("./pages/Invoices"));
 const Payments = React.lazy(() => import("./pages/Payments"));
 const Receipts = React.lazy(() => import("./pages/Receipts"));
 const MyProfile = React.lazy(() => import("./pages/MyProfile"));
 const MyAttendance = React.lazy(() => import("./pages/MyAttendance"));
+const Timesheets = React.lazy(() => import("./pages/Timesheets"));
+const PerformanceReviews = React.lazy(() => import("./pages/PerformanceReviews"));
 const MyLeave = React.lazy(() => import("./pages/MyLeave"));
 const Ledger = React.lazy(() => import("./pages/Ledger"));
 const CreateJournalEntry = React.lazy(() => import("./pages/CreateJournalEntry"));
@@ -70,6 +74,7 @@ const LeadDetail = React.lazy(() => import("./pages/LeadDetail"));
 const ActivityDetail = React.lazy(() => import("./pages/ActivityDetail"));
 const FinancialManagement = React.lazy(() => import("./pages/FinancialManagement"));
 const GstCompliance = React.lazy(() => import("./pages/GstCompliance"));
+const Budgets = React.lazy(() => import("./pages/Budgets"));
 const EmployeeProjects = React.lazy(() => import("./pages/EmployeeProjects"));
 const Reimbursements = React.lazy(() => import("./pages/Reimbursements").then(m => ({ default: m.Reimbursements })));
 const SystemDashboard = React.lazy(() => import("./pages/SystemDashboard"));
@@ -101,6 +106,7 @@ const WorkflowAutomation = React.lazy(() => import("./pages/WorkflowAutomation")
 const Integrations = React.lazy(() => import("./pages/Integrations"));
 const InventoryWarehouses = React.lazy(() => import("./pages/InventoryWarehouses"));
 const InventoryStockLevels = React.lazy(() => import("./pages/InventoryStockLevels"));
+const InventoryStockTakes = React.lazy(() => import("./pages/InventoryStockTakes"));
 const InventoryTransfers = React.lazy(() => import("./pages/InventoryTransfers"));
 const InventoryAdjustments = React.lazy(() => import("./pages/InventoryAdjustments"));
 const ProcurementManagement = React.lazy(() => import("./pages/ProcurementManagement"));
@@ -108,6 +114,7 @@ const ProcurementVendors = React.lazy(() => import("./pages/ProcurementVendors")
 const ProcurementPurchaseOrders = React.lazy(() => import("./pages/ProcurementPurchaseOrders"));
 const ProcurementRequisitions = React.lazy(() => import("./pages/ProcurementRequisitions"));
 const ProcurementGoodsReceipts = React.lazy(() => import("./pages/ProcurementGoodsReceipts"));
+const ProcurementSupplierInvoices = React.lazy(() => import("./pages/ProcurementSupplierInvoices"));
 const ProcurementRFQ = React.lazy(() => import("./pages/ProcurementRFQ"));
 const ProcurementVendorContracts = React.lazy(() => import("./pages/ProcurementVendorContracts"));
 const ProcurementVendorPerformance = React.lazy(() => import("./pages/ProcurementVendorPerformance"));
@@ -117,6 +124,8 @@ const Assets = React.lazy(() => import("./pages/Assets"));
 const AssetCategories = React.lazy(() => import("./pages/AssetCategories"));
 const AssetLocations = React.lazy(() => import("./pages/AssetLocations"));
 const AssetMaintenance = React.lazy(() => import("./pages/AssetMaintenance"));
+const AssetMaintenancePlans = React.lazy(() => import("./pages/AssetMaintenancePlans"));
+const AssetCustody = React.lazy(() => import("./pages/AssetCustody"));
 const AssetDepreciation = React.lazy(() => import("./pages/AssetDepreciation"));
 const AssetDisposals = React.lazy(() => import("./pages/AssetDisposals"));
 const AssetReports = React.lazy(() => import("./pages/AssetReports"));
@@ -331,6 +340,28 @@ const AppContent = () => {
                   </ProtectedRoute>
                 } 
               />
+
+              <Route 
+                path="/leave-policies" 
+                element={
+                  <ProtectedRoute requiredRole="hr">
+                    <DashboardLayout>
+                      <SuspenseRoute><LeavePolicies /></SuspenseRoute>
+                    </DashboardLayout>
+                  </ProtectedRoute>
+                } 
+              />
+
+              <Route 
+                path="/shift-roster" 
+                element={
+                  <ProtectedRoute requiredRole="hr">
+                    <DashboardLayout>
+                      <SuspenseRoute><ShiftRoster /></SuspenseRoute>
+                    </DashboardLayout>
+                  </ProtectedRoute>
+                } 
+              />
               
               <Route 
                 path="/payroll" 
@@ -397,6 +428,28 @@ const AppContent = () => {
                   </ProtectedRoute>
                 } 
               />
+
+              <Route 
+                path="/timesheets" 
+                element={
+                  <ProtectedRoute>
+                    <DashboardLayout>
+                      <SuspenseRoute><Timesheets /></SuspenseRoute>
+                    </DashboardLayout>
+                  </ProtectedRoute>
+                } 
+              />
+
+              <Route 
+                path="/performance-reviews" 
+                element={
+                  <ProtectedRoute>
+                    <DashboardLayout>
+                      <SuspenseRoute><PerformanceReviews /></SuspenseRoute>
+                    </DashboardLayout>
+                  </ProtectedRoute>
+                } 
+              />
               
               <Route 
                 path="/my-leave" 
@@ -692,6 +745,17 @@ const AppContent = () => {
                 }
               />
               
+              <Route 
+                path="/inventory/stock-takes"
+                element={
+                  <ProtectedRoute requiredRole={["admin", "super_admin"]}>
+                    <DashboardLayout>
+                      <SuspenseRoute><InventoryStockTakes /></SuspenseRoute>
+                    </DashboardLayout>
+                  </ProtectedRoute>
+                }
+              />
+              
               <Route 
                 path="/inventory/transfers"
                 element={
@@ -758,6 +822,17 @@ const AppContent = () => {
                 }
               />
               
+              <Route 
+                path="/procurement/supplier-invoices"
+                element={
+                  <ProtectedRoute requiredRole={["admin", "super_admin"]}>
+                    <DashboardLayout>
+                      <SuspenseRoute><ProcurementSupplierInvoices /></SuspenseRoute>
+                    </DashboardLayout>
+                  </ProtectedRoute>
+                }
+              />
+              
               <Route 
                 path="/procurement/rfq"
                 element={
@@ -853,6 +928,26 @@ const AppContent = () => {
                   </ProtectedRoute>
                 }
               />
+              <Route 
+                path="/assets/maintenance-plans"
+                element={
+                  <ProtectedRoute requiredRole={["admin", "super_admin"]}>
+                    <DashboardLayout>
+                      <SuspenseRoute><AssetMaintenancePlans /></SuspenseRoute>
+                    </DashboardLayout>
+                  </ProtectedRoute>
+                }
+              />
+              <Route 
+                path="/assets/custody"
+                element={
+                  <ProtectedRoute requiredRole={["admin", "super_admin"]}>
+                    <DashboardLayout>
+                      <SuspenseRoute><AssetCustody /></SuspenseRoute>
+                    </DashboardLayout>
+                  </ProtectedRoute>
+                }
+              />
               <Route 
                 path="/assets/depreciation"
                 element={
@@ -1082,6 +1177,17 @@ const AppContent = () => {
                 } 
               />
               
+              <Route 
+                path="/budgets" 
+                element={
+                  <ProtectedRoute requiredRole={["admin", "super_admin", "finance_manager", "cfo"]}>
+                    <DashboardLayout>
+                      <SuspenseRoute><Budgets /></SuspenseRoute>
+                    </DashboardLayout>
+                  </ProtectedRoute>
+                } 
+              />
+              
               <Route 
                 path="/my-projects" 
                 element={
@@ -8,9 +8,7 @@ import { useAuth } from '@/hooks/useAuth';
 import { db } from '@/lib/database';
 import { toast } from '@/hooks/use-toast';
 import { format } from 'date-fns';
-import { generateUUID } from '@/lib/uuid';
-import { getAgencyId } from '@/utils/agencyUtils';
-import { useAgencySettings } from '@/hooks/useAgencySettings';
+import { clockInToShift, clockOutOfShift, getCurrentShift, type CurrentShift } from '@/services/api/shift-service';
 
 interface AttendanceRecord {
   id: string;
@@ -24,6 +22,10 @@ interface AttendanceRecord {
   location: string | null;
   status: string;
   overtime_hours?: number | null;
+  scheduled_start?: string | null;
+  scheduled_end?: string | null;
+  late_minutes?: number | null;
+  early_out_minutes?: number | null;
   agency_id?: string;
   created_at?: string;
   updated_at?: string;
@@ -224,11 +226,11 @@ const getLocation = (): Promise<LocationData> => {
 };
 
 const ClockInOut = ({ compact = false }: ClockInOutProps) => {
-  const { user, profile } = useAuth();
-  const { settings: agencySettings } = useAgencySettings();
+  const { user } = useAuth();
   const [loading, setLoading] = useState(false);
   const [fetchingLocation, setFetchingLocation] = useState(false);
   const [todayAttendance, setTodayAttendance] = useState<AttendanceRecord | null>(null);
+  const [currentShift, setCurrentShift] = useState<CurrentShift | null>(null);
   const [currentTime, setCurrentTime] = useState(new Date());
   const [locationStatus, setLocationStatus] = useState<'checking' | 'available' | 'unavailable' | 'denied'>('checking');
   const [isOnline, setIsOnline] = useState(navigator.onLine);
@@ -293,11 +295,18 @@ const ClockInOut = ({ compact = false }: ClockInOutProps) => {
     checkLocationAvailability();
   }, []);
 
-  // Fetch today's attendance record
+  // Fetch the attendance record for the current shift (a night shift belongs to the day it started)
   const fetchTodayAttendance = useCallback(async () => {
     if (!user?.id) return;
 
-    const today = format(new Date(), 'yyyy-MM-dd');
+    let today = format(new Date(), 'yyyy-MM-dd');
+    try {
+      const shift = await getCurrentShift();
+      setCurrentShift(shift);
+      today = shift.shift_date;
+    } catch (err) {
+      console.warn('Failed to fetch current shift:', err);
+    }
     
     try {
       const { data, error } = await db
@@ -324,44 +333,6 @@ const ClockInOut = ({ compact = false }: ClockInOutProps) => {
     }
   }, [user?.id, fetchTodayAttendance]);
 
-  const calculateHours = (checkInTime: string, checkOutTime: string): number => {
-    const checkIn = new Date(checkInTime);
-    const checkOut = new Date(checkOutTime);
-    const diffInMs = checkOut.getTime() - checkIn.getTime();
-    return Math.round((diffInMs / (1000 * 60 * 60)) * 100) / 100;
-  };
-
-  // Check if clock-in is late based on agency working hours
-  const isLateClockIn = (checkInTime: string): boolean => {
-    if (!agencySettings?.working_hours_start) return false;
-    
-    const [hours, minutes] = agencySettings.working_hours_start.split(':').map(Number);
-    const workingStart = new Date();
-    workingStart.setHours(hours, minutes, 0, 0);
-    
-    const checkIn = new Date(checkInTime);
-    checkIn.setSeconds(0, 0);
-    
-    return checkIn > workingStart;
-  };
-
-  // Calculate overtime based on agency working hours
-  const calculateOvertime = (totalHours: number): number => {
-    if (!agencySettings?.working_hours_start || !agencySettings?.working_hours_end) {
-      // Default: 9 hours standard work day
-      return totalHours > 9 ? Math.round((totalHours - 9) * 100) / 100 : 0;
-    }
-    
-    const [startHours, startMinutes] = agencySettings.working_hours_start.split(':').map(Number);
-    const [endHours, endMinutes] = agencySettings.working_hours_end.split(':').map(Number);
-    
-    const startTime = startHours + startMinutes / 60;
-    const endTime = endHours + endMinutes / 60;
-    const standardHours = endTime - startTime;
-    
-    return totalHours > standardHours ? Math.round((totalHours - standardHours) * 100) / 100 : 0;
-  };
-
   const handleClockIn = async () => {
     if (!user?.id) {
       toast({
@@ -380,40 +351,12 @@ const ClockInOut = ({ compact = false }: ClockInOutProps) => {
       const locationData = await getLocation();
       setFetchingLocation(false);
       
-      const now = new Date().toISOString();
-      const today = format(new Date(), 'yyyy-MM-dd');
-      const agencyId = await getAgencyId(profile, user?.id);
-      
-      // Determine status based on clock-in time and agency working hours
-      let status = 'present';
-      if (isLateClockIn(now)) {
-        status = 'late';
-      }
-
-      const attendanceData = {
-        id: generateUUID(),
-        user_id: user.id, // Required field
-        employee_id: user.id, // Will be synced by trigger if null
-        date: today,
-        check_in_time: now,
-        location: locationData.address || null,
-        status: status,
-        agency_id: agencyId || null,
-        created_at: now
-      };
-
-      const { data, error } = await db
-        .from('attendance')
-        .insert(attendanceData)
-        .select()
-        .single();
-
-      if (error) throw error;
-
+      // Late arrival is judged on the server against the rostered shift and its grace period
+      const data = await clockInToShift({ location: locationData.address || null });
       setTodayAttendance(data);
       
-      const statusMessage = status === 'late' 
-        ? ' (Late arrival)' 
+      const statusMessage = data.late_minutes > 0
+        ? ` (${data.late_minutes} min late)`
         : '';
       
       toast({
@@ -450,39 +393,15 @@ const ClockInOut = ({ compact = false }: ClockInOutProps) => {
       const locationData = await getLocation();
       setFetchingLocation(false);
       
-      const now = new Date().toISOString();
-      
-      const totalHours = todayAttendance.check_in_time 
-        ? calculateHours(todayAttendance.check_in_time, now)
-        : 0;
-
-      const overtimeHours = calculateOvertime(totalHours);
-
-      // Create location string with both check-in and check-out locations
-      const locationString = todayAttendance.location 
-        ? `In: ${todayAttendance.location} | Out: ${locationData.address || 'Location unavailable'}`
-        : (locationData.address || null);
-
-      const { data, error } = await db
-        .from('attendance')
-        .update({
-          check_out_time: now,
-          hours_worked: totalHours, // Primary field
-          total_hours: totalHours, // For compatibility
-          overtime_hours: overtimeHours,
-          location: locationString
-          // updated_at is automatically set by the database service
-        })
-        .eq('id', todayAttendance.id)
-        .select()
-        .single();
-
-      if (error) throw error;
-
+      // Hours (less the shift break), early-out and overtime are computed on the server against the shift
+      const data = await clockOutOfShift({ location: locationData.address || 'Location unavailable' });
       setTodayAttendance(data);
+
+      const totalHours = Number(data.total_hours || 0);
+      const overtimeHours = Number(data.overtime_hours || 0);
       toast({
         title: "✅ Clocked Out Successfully",
-        description: `Total hours worked: ${totalHours.toFixed(2)} hours${overtimeHours > 0 ? ` (${overtimeHours.toFixed(2)} overtime)` : ''}`
+        description: `Total hours worked: ${totalHours.toFixed(2)} hours${overtimeHours > 0 ? ` (${overtimeHours.toFixed(2)} overtime)` : ''}${data.early_out_minutes > 0 ? ` • Left ${data.early_out_minutes} min early` : ''}`
       });
     } catch (error: any) {
       console.error('Clock out error:', error);
@@ -515,6 +434,13 @@ const ClockInOut = ({ compact = false }: ClockInOutProps) => {
     return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
   };
 
+  const getShiftLabel = () => {
+    if (!currentShift) return null;
+    if (currentShift.is_off_day) return 'Rostered day off';
+    if (!currentShift.shift) return 'No shift rostered';
+    return `${currentShift.shift.name} · ${currentShift.shift.start_time.slice(0, 5)}–${currentShift.shift.end_time.slice(0, 5)}`;
+  };
+
   const getLocationStatusBadge = () => {
     switch (locationStatus) {
       case 'available':
@@ -545,6 +471,9 @@ const ClockInOut = ({ compact = false }: ClockInOutProps) => {
                 <div className="text-xs text-muted-foreground">
                   {format(currentTime, 'EEEE, MMM dd, yyyy')}
                 </div>
+                {getShiftLabel() && (
+                  <div className="text-xs text-muted-foreground">{getShiftLabel()}</div>
+                )}
               </div>
             </div>
 
@@ -670,6 +599,11 @@ const ClockInOut = ({ compact = false }: ClockInOutProps) => {
           <div className="text-sm text-muted-foreground mt-1">
             {format(currentTime, 'EEEE, MMMM do, yyyy')}
           </div>
+          {getShiftLabel() && (
+            <Badge variant="outline" className="mt-2">
+              {getShiftLabel()}
+            </Badge>
+          )}
         </div>
 
         {/* Status Badges */}
@@ -725,6 +659,15 @@ const ClockInOut = ({ compact = false }: ClockInOutProps) => {
                   </Badge>
                 </div>
               )}
+
+              {Number(todayAttendance.late_minutes || 0) > 0 && (
+                <div className="flex justify-between items-center p-2 bg-yellow-50 rounded border border-yellow-200">
+                  <span className="text-sm text-yellow-700 font-medium">Late In</span>
+                  <Badge variant="secondary" className="bg-yellow-100 text-yellow-800 font-mono">
+                    {todayAttendance.late_minutes} min
+                  </Badge>
+                </div>
+              )}
               
               {todayAttendance.check_out_time && (
                 <>
@@ -745,6 +688,15 @@ const ClockInOut = ({ compact = false }: ClockInOutProps) => {
                     </Badge>
                   </div>
 
+                  {Number(todayAttendance.early_out_minutes || 0) > 0 && (
+                    <div className="flex justify-between items-center p-2 bg-yellow-50 rounded border border-yellow-200">
+                      <span className="text-sm text-yellow-700 font-medium">Early Out</span>
+                      <Badge variant="secondary" className="bg-yellow-100 text-yellow-800 font-mono">
+                        {todayAttendance.early_out_minutes} min
+                      </Badge>
+                    </div>
+                  )}
+
                   {Number(todayAttendance.overtime_hours || 0) > 0 && (
                     <div className="flex justify-between items-center p-2 bg-blue-50 rounded border border-blue-200">
                       <span className="text-sm text-blue-700 font-medium">Overtime</span>
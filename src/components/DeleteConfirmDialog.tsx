@@ -13,6 +13,7 @@ interface DeleteConfirmDialogProps {
   tableName: string;
   softDelete?: boolean; // If true, sets is_active to false instead of hard delete
   userId?: string; // Current user ID for audit logging
+  onConfirm?: () => Promise<void>; // Custom delete (e.g. a service call) instead of deleting the row directly
 }
 
 const DeleteConfirmDialog: React.FC<DeleteConfirmDialogProps> = ({
@@ -25,6 +26,7 @@ const DeleteConfirmDialog: React.FC<DeleteConfirmDialogProps> = ({
   tableName,
   softDelete = false,
   userId,
+  onConfirm,
 }) => {
   const { toast } = useToast();
 
@@ -33,7 +35,13 @@ const DeleteConfirmDialog: React.FC<DeleteConfirmDialogProps> = ({
       // Always use soft delete for users table to avoid foreign key constraint issues with audit_logs
       const shouldSoftDelete = softDelete || tableName === 'users';
       
-      if (shouldSoftDelete) {
+      if (onConfirm) {
+        await onConfirm();
+        toast({
+          title: 'Success',
+          description: `${itemType} deleted successfully`,
+        });
+      } else if (shouldSoftDelete) {
         // Use soft delete (set is_active to false)
         // Pass userId for proper audit logging
         await updateRecord(tableName, { is_active: false }, { id: itemId }, userId);
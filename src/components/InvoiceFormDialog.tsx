@@ -6,10 +6,25 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
-import { insertRecord, updateRecord, selectRecords } from '@/services/api/postgresql-service';
+import { selectRecords } from '@/services/api/postgresql-service';
+import { saveInvoice } from '@/services/api/financial-service';
 import { useAuth } from '@/hooks/useAuth';
 import { getClientsForSelectionAuto } from '@/services/api/client-selector-service';
 import { getProjectsForSelectionAuto } from '@/services/api/project-selector-service';
+import { GSTService, type GSTSettings } from '@/services/api/gst-service';
+import { generateUUID } from '@/lib/uuid';
+import { CurrencyRateFields } from '@/components/financial/CurrencyRateFields';
+import {
+  INDIAN_STATES,
+  GST_RATES,
+  getStateCodeFromGstin,
+  getStateName,
+  resolvePlaceOfSupply,
+  determineSupplyType,
+  calculateLineTax,
+  calculateInvoiceTax,
+} from '@/utils/gstCalculations';
+import { Plus, Trash2 } from 'lucide-react';
 
 interface Invoice {
   id?: string;
@@ -24,8 +39,36 @@ interface Invoice {
   tax_rate: number;
   discount?: number;
   notes?: string;
+  place_of_supply?: string | null;
+  supply_type?: 'intra_state' | 'inter_state';
+  currency?: string;
+  exchange_rate?: number;
 }
 
+interface InvoiceLineItem {
+  id: string;
+  item_type: 'product' | 'service';
+  item_name: string;
+  description?: string;
+  hsn_sac_code?: string;
+  quantity: number;
+  unit_price: number;
+  discount_percentage: number;
+  gst_rate: number;
+}
+
+const createEmptyLineItem = (): InvoiceLineItem => ({
+  id: generateUUID(),
+  item_type: 'service',
+  item_name: '',
+  description: '',
+  hsn_sac_code: '',
+  quantity: 1,
+  unit_price: 0,
+  discount_percentage: 0,
+  gst_rate: 18,
+});
+
 interface InvoiceFormDialogProps {
   isOpen: boolean;
   onClose: () => void;
@@ -41,6 +84,8 @@ const InvoiceFormDialog: React.FC<InvoiceFormDialogProps> = ({ isOpen, onClose,
   const [clientsLoading, setClientsLoading] = useState(true);
   const [projects, setProjects] = useState<any[]>([]);
   const [projectsLoading, setProjectsLoading] = useState(false);
+  const [gstSettings, setGstSettings] = useState<GSTSettings | null>(null);
+  const [lineItems, setLineItems] = useState<InvoiceLineItem[]>([createEmptyLineItem()]);
   const [formData, setFormData] = useState<Invoice>({
     client_id: invoice?.client_id || '',
     title: invoice?.title || '',
@@ -52,12 +97,16 @@ const InvoiceFormDialog: React.FC<InvoiceFormDialogProps> = ({ isOpen, onClose,
     tax_rate: invoice?.tax_rate || 18,
     discount: invoice?.discount || 0,
     notes: invoice?.notes || '',
+    place_of_supply: invoice?.place_of_supply || null,
+    currency: invoice?.currency || '',
+    exchange_rate: Number(invoice?.exchange_rate) || 1,
   });
 
   useEffect(() => {
     if (isOpen) {
       fetchClients();
       fetchProjects();
+      fetchGstSettings();
       if (invoice) {
         setFormData({
           client_id: invoice.client_id || '',
@@ -70,7 +119,11 @@ const InvoiceFormDialog: React.FC<InvoiceFormDialogProps> = ({ isOpen, onClose,
           tax_rate: invoice.tax_rate || 18,
           discount: invoice.discount || 0,
           notes: invoice.notes || '',
+          place_of_supply: invoice.place_of_supply || null,
+          currency: invoice.currency || '',
+          exchange_rate: Number(invoice.exchange_rate) || 1,
         });
+        fetchLineItems(invoice);
       } else {
         setFormData({
           client_id: '',
@@ -83,11 +136,55 @@ const InvoiceFormDialog: React.FC<InvoiceFormDialogProps> = ({ isOpen, onClose,
           tax_rate: 18,
           discount: 0,
           notes: '',
+          place_of_supply: null,
+          currency: '',
+          exchange_rate: 1,
         });
+        setLineItems([createEmptyLineItem()]);
       }
     }
   }, [isOpen, invoice]);
 
+  const fetchGstSettings = async () => {
+    const response = await GSTService.getSettings();
+    setGstSettings(response.success ? response.data : null);
+  };
+
+  const fetchLineItems = async (existingInvoice: Invoice) => {
+    if (!existingInvoice.id) return;
+    try {
+      const items = await selectRecords<InvoiceLineItem>('invoice_line_items', {
+        where: { invoice_id: existingInvoice.id },
+        orderBy: 'sort_order ASC',
+      });
+
+      if (items.length > 0) {
+        setLineItems(items.map((item) => ({
+          id: item.id,
+          item_type: item.item_type || 'service',
+          item_name: item.item_name || '',
+          description: item.description || '',
+          hsn_sac_code: item.hsn_sac_code || '',
+          quantity: Number(item.quantity) || 0,
+          unit_price: Number(item.unit_price) || 0,
+          discount_percentage: Number(item.discount_percentage) || 0,
+          gst_rate: Number(item.gst_rate) || 0,
+        })));
+      } else {
+        // Invoices created before line items existed carry a single subtotal and flat tax rate
+        setLineItems([{
+          ...createEmptyLineItem(),
+          item_name: existingInvoice.title || 'Invoice amount',
+          unit_price: Number(existingInvoice.subtotal) || 0,
+          gst_rate: Number(existingInvoice.tax_rate) || 0,
+        }]);
+      }
+    } catch (error) {
+      console.error('Error fetching invoice line items:', error);
+      setLineItems([createEmptyLineItem()]);
+    }
+  };
+
   const fetchClients = async () => {
     try {
       setClientsLoading(true);
@@ -103,7 +200,10 @@ const InvoiceFormDialog: React.FC<InvoiceFormDialogProps> = ({ isOpen, onClose,
         id: c.id,
         name: c.name,
         company_name: c.company_name,
-        email: c.email
+        email: c.email,
+        tax_id: c.tax_id,
+        state: c.state,
+        billing_state: c.billing_state
       })));
     } catch (error) {
       console.error('Error fetching clients:', error);
@@ -142,55 +242,89 @@ const InvoiceFormDialog: React.FC<InvoiceFormDialogProps> = ({ isOpen, onClose,
     }
   };
 
-  const calculateTotal = () => {
-    const subtotal = parseFloat(String(formData.subtotal || 0));
-    const discount = parseFloat(String(formData.discount || 0));
-    const taxRate = parseFloat(String(formData.tax_rate || 0));
-    const afterDiscount = Math.max(0, subtotal - discount);
-    const taxAmount = (afterDiscount * taxRate) / 100;
-    return afterDiscount + taxAmount;
+  const supplierStateCode = getStateCodeFromGstin(gstSettings?.gstin);
+  const supplyType = determineSupplyType(supplierStateCode, formData.place_of_supply || null);
+  const validLineItems = lineItems.filter(item => item.item_name && item.item_name.trim());
+  const { summary: taxSummary } = calculateInvoiceTax(validLineItems, supplyType, Number(formData.discount) || 0);
+  const exchangeRate = Number(formData.exchange_rate) || 1;
+  const currencyPrefix = !formData.currency || formData.currency === 'INR' ? '₹' : `${formData.currency} `;
+
+  const handleClientChange = (value: string) => {
+    const clientId = value === 'none' ? null : value;
+    const selectedClient = clients.find(c => c.id === clientId);
+    setFormData(prev => ({
+      ...prev,
+      client_id: clientId,
+      place_of_supply: resolvePlaceOfSupply(selectedClient) || prev.place_of_supply || null,
+    }));
   };
 
-  // Update total when form data changes
-  useEffect(() => {
-    if (isOpen) {
-      const total = calculateTotal();
-      // This will be saved when form is submitted
-    }
-  }, [formData.subtotal, formData.discount, formData.tax_rate, isOpen]);
+  const handleLineItemChange = (itemId: string, field: keyof InvoiceLineItem, value: string | number) => {
+    setLineItems(prev => prev.map(item => (item.id === itemId ? { ...item, [field]: value } : item)));
+  };
+
+  const addLineItem = () => {
+    setLineItems(prev => [...prev, createEmptyLineItem()]);
+  };
+
+  const removeLineItem = (itemId: string) => {
+    setLineItems(prev => (prev.length > 1 ? prev.filter(item => item.id !== itemId) : prev));
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
 
+    if (validLineItems.length === 0) {
+      toast({
+        title: 'Validation Error',
+        description: 'Please add at least one line item',
+        variant: 'destructive',
+      });
+      setLoading(false);
+      return;
+    }
+
+    if (!(exchangeRate > 0)) {
+      toast({
+        title: 'Validation Error',
+        description: `Please enter an exchange rate for ${formData.currency}`,
+        variant: 'destructive',
+      });
+      setLoading(false);
+      return;
+    }
+
     try {
-      const cleanedData: any = {
-        ...formData,
+      // Totals, the GST split and the GST register entries are worked out on the server
+      await saveInvoice(invoice?.id || null, {
         client_id: formData.client_id || null,
-        subtotal: parseFloat(String(formData.subtotal || 0)),
-        tax_rate: parseFloat(String(formData.tax_rate || 0)),
-        discount: parseFloat(String(formData.discount || 0)) || 0,
-      };
-
-      // Remove total_amount for updates - it's a generated column
-      if (invoice?.id) {
-        // Exclude total_amount from update - database will calculate it automatically
-        const { total_amount, ...updateData } = cleanedData;
-        await updateRecord('invoices', updateData, { id: invoice.id }, user?.id);
-        toast({
-          title: 'Success',
-          description: 'Invoice updated successfully',
-        });
-      } else {
-        // For inserts, we can include total_amount if needed, but database will calculate it anyway
-        const invoiceNumber = `INV-${new Date().getFullYear()}-${String(Date.now()).slice(-6)}`;
-        // Don't include total_amount - let database calculate it from the generated column formula
-        await insertRecord('invoices', { ...cleanedData, invoice_number: invoiceNumber }, user?.id);
-        toast({
-          title: 'Success',
-          description: 'Invoice created successfully',
-        });
-      }
+        title: formData.title,
+        description: formData.description || null,
+        status: formData.status,
+        issue_date: formData.issue_date,
+        due_date: formData.due_date || null,
+        notes: formData.notes || null,
+        place_of_supply: formData.place_of_supply || null,
+        currency: formData.currency || null,
+        exchange_rate: exchangeRate,
+        discount: Number(formData.discount) || 0,
+        lines: validLineItems.map((item) => ({
+          item_type: item.item_type,
+          item_name: item.item_name.trim(),
+          description: item.description || null,
+          hsn_sac_code: item.hsn_sac_code || null,
+          quantity: Number(item.quantity) || 0,
+          unit_price: Number(item.unit_price) || 0,
+          discount_percentage: Number(item.discount_percentage) || 0,
+          gst_rate: Number(item.gst_rate) || 0,
+        })),
+      });
+
+      toast({
+        title: 'Success',
+        description: invoice?.id ? 'Invoice updated successfully' : 'Invoice created successfully',
+      });
 
       onInvoiceSaved();
       onClose();
@@ -208,7 +342,7 @@ const InvoiceFormDialog: React.FC<InvoiceFormDialogProps> = ({ isOpen, onClose,
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
-      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto mx-4 sm:mx-auto">
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto mx-4 sm:mx-auto">
         <DialogHeader>
           <DialogTitle className="text-lg sm:text-xl">{invoice?.id ? 'Edit Invoice' : 'Create New Invoice'}</DialogTitle>
           <DialogDescription className="text-sm sm:text-base">
@@ -259,7 +393,7 @@ const InvoiceFormDialog: React.FC<InvoiceFormDialogProps> = ({ isOpen, onClose,
               <Label htmlFor="client_id">Client</Label>
               <Select 
                 value={formData.client_id || undefined} 
-                onValueChange={(value) => setFormData(prev => ({ ...prev, client_id: value === 'none' ? null : value }))}
+                onValueChange={handleClientChange}
               >
                 <SelectTrigger>
                   <SelectValue placeholder="Select client (optional)" />
@@ -299,45 +433,207 @@ const InvoiceFormDialog: React.FC<InvoiceFormDialogProps> = ({ isOpen, onClose,
             </div>
           </div>
 
-          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
             <div className="space-y-2">
-              <Label htmlFor="subtotal">Subtotal (₹) *</Label>
-              <Input
-                id="subtotal"
-                type="number"
-                step="0.01"
-                value={formData.subtotal}
-                onChange={(e) => setFormData(prev => ({ ...prev, subtotal: Number(e.target.value) || 0 }))}
-                required
-              />
+              <Label htmlFor="place_of_supply">Place of Supply</Label>
+              <Select
+                value={formData.place_of_supply || undefined}
+                onValueChange={(value) => setFormData(prev => ({ ...prev, place_of_supply: value }))}
+              >
+                <SelectTrigger id="place_of_supply">
+                  <SelectValue placeholder="Select state" />
+                </SelectTrigger>
+                <SelectContent>
+                  {INDIAN_STATES.map((state) => (
+                    <SelectItem key={state.code} value={state.code}>
+                      {state.code} - {state.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
             <div className="space-y-2">
-              <Label htmlFor="tax_rate">Tax Rate (%) *</Label>
-              <Input
-                id="tax_rate"
-                type="number"
-                step="0.01"
-                value={formData.tax_rate}
-                onChange={(e) => setFormData(prev => ({ ...prev, tax_rate: Number(e.target.value) || 0 }))}
-                required
-              />
+              <Label>Tax Type</Label>
+              <div className="h-10 px-3 flex items-center rounded-md border bg-muted text-sm">
+                {supplyType === 'inter_state' ? 'Inter-state (IGST)' : 'Intra-state (CGST + SGST)'}
+              </div>
+              {!supplierStateCode && (
+                <p className="text-xs text-muted-foreground">Configure your GSTIN in GST settings to determine IGST automatically.</p>
+              )}
+              {supplierStateCode && (
+                <p className="text-xs text-muted-foreground">Supplier state: {getStateName(supplierStateCode)}</p>
+              )}
             </div>
-            <div className="space-y-2">
-              <Label htmlFor="discount">Discount (₹)</Label>
+          </div>
+
+          <CurrencyRateFields
+            value={{ currency: formData.currency || '', exchange_rate: exchangeRate }}
+            onChange={(value) => setFormData(prev => ({ ...prev, ...value }))}
+            rateDate={formData.issue_date}
+            total={taxSummary.total_amount}
+          />
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Line Items *</Label>
+              <Button type="button" variant="outline" size="sm" onClick={addLineItem}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add Item
+              </Button>
+            </div>
+            <div className="space-y-3">
+              {lineItems.map((item) => {
+                const lineTax = calculateLineTax(item, supplyType);
+                return (
+                  <div key={item.id} className="rounded-lg border p-3 space-y-3">
+                    <div className="grid grid-cols-1 sm:grid-cols-6 gap-2">
+                      <div className="sm:col-span-2 space-y-1">
+                        <Label className="text-xs">Item *</Label>
+                        <Input
+                          value={item.item_name}
+                          onChange={(e) => handleLineItemChange(item.id, 'item_name', e.target.value)}
+                          placeholder="Product or service"
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label className="text-xs">Type</Label>
+                        <Select
+                          value={item.item_type}
+                          onValueChange={(value) => handleLineItemChange(item.id, 'item_type', value)}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="service">Service</SelectItem>
+                            <SelectItem value="product">Product</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-1">
+                        <Label className="text-xs">{item.item_type === 'product' ? 'HSN' : 'SAC'}</Label>
+                        <Input
+                          value={item.hsn_sac_code || ''}
+                          onChange={(e) => handleLineItemChange(item.id, 'hsn_sac_code', e.target.value)}
+                          placeholder="Code"
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label className="text-xs">GST %</Label>
+                        <Select
+                          value={String(item.gst_rate)}
+                          onValueChange={(value) => handleLineItemChange(item.id, 'gst_rate', Number(value))}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {GST_RATES.map((rate) => (
+                              <SelectItem key={rate} value={String(rate)}>{rate}%</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="flex items-end justify-end">
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => removeLineItem(item.id)}
+                          disabled={lineItems.length === 1}
+                          className="text-destructive hover:text-destructive"
+                          title="Remove item"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                    <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                      <div className="space-y-1">
+                        <Label className="text-xs">Qty</Label>
+                        <Input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={item.quantity}
+                          onChange={(e) => handleLineItemChange(item.id, 'quantity', Number(e.target.value) || 0)}
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label className="text-xs">Unit Price ({formData.currency || 'INR'})</Label>
+                        <Input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={item.unit_price}
+                          onChange={(e) => handleLineItemChange(item.id, 'unit_price', Number(e.target.value) || 0)}
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label className="text-xs">Disc. %</Label>
+                        <Input
+                          type="number"
+                          min="0"
+                          max="100"
+                          step="0.01"
+                          value={item.discount_percentage}
+                          onChange={(e) => handleLineItemChange(item.id, 'discount_percentage', Number(e.target.value) || 0)}
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label className="text-xs">Line Total ({formData.currency || 'INR'})</Label>
+                        <div className="h-10 px-3 flex items-center justify-end rounded-md bg-muted font-semibold">
+                          {lineTax.line_total.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                        </div>
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          <div className="p-4 bg-muted rounded-lg space-y-1 text-sm">
+            <div className="flex justify-between">
+              <span>Subtotal:</span>
+              <span>{currencyPrefix}{taxSummary.subtotal.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+            </div>
+            <div className="flex justify-between items-center">
+              <Label htmlFor="discount" className="font-normal">Discount:</Label>
               <Input
                 id="discount"
                 type="number"
+                min="0"
                 step="0.01"
-                value={formData.discount || 0}
+                className="h-8 w-32 text-right"
+                value={formData.discount}
                 onChange={(e) => setFormData(prev => ({ ...prev, discount: Number(e.target.value) || 0 }))}
               />
             </div>
-          </div>
-
-          <div className="p-4 bg-muted rounded-lg">
-            <div className="flex justify-between items-center">
+            <div className="flex justify-between">
+              <span>Taxable Value:</span>
+              <span>{currencyPrefix}{(taxSummary.subtotal - taxSummary.discount).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+            </div>
+            {supplyType === 'inter_state' ? (
+              <div className="flex justify-between">
+                <span>IGST:</span>
+                <span>{currencyPrefix}{taxSummary.igst_amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+              </div>
+            ) : (
+              <>
+                <div className="flex justify-between">
+                  <span>CGST:</span>
+                  <span>{currencyPrefix}{taxSummary.cgst_amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>SGST:</span>
+                  <span>{currencyPrefix}{taxSummary.sgst_amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                </div>
+              </>
+            )}
+            <div className="flex justify-between items-center pt-2 border-t">
               <span className="font-semibold">Total Amount:</span>
-              <span className="text-2xl font-bold">₹{calculateTotal().toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+              <span className="text-2xl font-bold">{currencyPrefix}{taxSummary.total_amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
             </div>
           </div>
 
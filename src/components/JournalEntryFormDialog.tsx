@@ -9,6 +9,7 @@ import { useToast } from '@/hooks/use-toast';
 import { selectRecords, selectOne, executeTransaction, insertRecord } from '@/services/api/postgresql-service';
 import { useAuth } from '@/hooks/useAuth';
 import { Plus, Trash2 } from 'lucide-react';
+import CostAllocationFields from '@/components/financial/CostAllocationFields';
 
 interface JournalEntryLine {
   id?: string;
@@ -17,6 +18,8 @@ interface JournalEntryLine {
   debit_amount: number;
   credit_amount: number;
   line_number: number;
+  department_id?: string | null;
+  project_id?: string | null;
 }
 
 interface JournalEntry {
@@ -26,6 +29,8 @@ interface JournalEntry {
   description: string;
   reference?: string | null;
   status: 'draft' | 'posted' | 'reversed';
+  department_id?: string | null;
+  project_id?: string | null;
   lines: JournalEntryLine[];
 }
 
@@ -66,6 +71,8 @@ const JournalEntryFormDialog: React.FC<JournalEntryFormDialogProps> = ({
           description: entry.description,
           reference: entry.reference || '',
           status: entry.status,
+          department_id: entry.lines?.[0]?.department_id || null,
+          project_id: entry.lines?.[0]?.project_id || null,
           lines: entry.lines || [],
         });
       } else {
@@ -74,6 +81,8 @@ const JournalEntryFormDialog: React.FC<JournalEntryFormDialogProps> = ({
           description: '',
           reference: '',
           status: 'draft',
+          department_id: null,
+          project_id: null,
           lines: [
             { account_id: '', description: '', debit_amount: 0, credit_amount: 0, line_number: 1 },
             { account_id: '', description: '', debit_amount: 0, credit_amount: 0, line_number: 2 },
@@ -278,15 +287,17 @@ const JournalEntryFormDialog: React.FC<JournalEntryFormDialogProps> = ({
           for (const line of formData.lines) {
             await client.query(
               `INSERT INTO journal_entry_lines 
-               (journal_entry_id, account_id, description, debit_amount, credit_amount, line_number, created_at, updated_at)
-               VALUES ($1, $2, $3, $4, $5, $6, NOW(), NOW())`,
+               (journal_entry_id, account_id, description, debit_amount, credit_amount, line_number, department_id, project_id, created_at, updated_at)
+               VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW(), NOW())`,
               [
                 entry.id,
                 line.account_id,
                 line.description.trim() || formData.description.trim(),
                 line.debit_amount || 0,
                 line.credit_amount || 0,
-                line.line_number
+                line.line_number,
+                formData.department_id || null,
+                formData.project_id || null
               ]
             );
           }
@@ -333,6 +344,8 @@ const JournalEntryFormDialog: React.FC<JournalEntryFormDialogProps> = ({
             debit_amount: line.debit_amount || 0,
             credit_amount: line.credit_amount || 0,
             line_number: line.line_number,
+            department_id: formData.department_id || null,
+            project_id: formData.project_id || null,
           }, user?.id);
         }
       }
@@ -421,6 +434,12 @@ const JournalEntryFormDialog: React.FC<JournalEntryFormDialogProps> = ({
             />
           </div>
 
+          <CostAllocationFields
+            departmentId={formData.department_id}
+            projectId={formData.project_id}
+            onChange={(allocation) => setFormData(prev => ({ ...prev, ...allocation }))}
+          />
+
           <div className="space-y-4">
             <div className="flex justify-between items-center">
               <Label>Journal Entry Lines *</Label>
@@ -5,7 +5,8 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 import { Separator } from '@/components/ui/separator';
-import { db } from '@/lib/database';
+import { getLeaveBalances } from '@/services/api/leave-service';
+import { useAuth } from '@/hooks/useAuth';
 import { useToast } from '@/hooks/use-toast';
 import { useAsyncOperation } from '@/hooks/useAsyncOperation';
 import { LoadingSpinner } from './LoadingSpinner';
@@ -33,6 +34,7 @@ export const LeaveBalanceWidget: React.FC<LeaveBalanceWidgetProps> = ({
 }) => {
   const [balances, setBalances] = useState<LeaveBalance[]>([]);
   const { toast } = useToast();
+  const { user } = useAuth();
 
   const { execute: loadBalances, loading } = useAsyncOperation({
     onError: (error) => toast({
@@ -44,20 +46,15 @@ export const LeaveBalanceWidget: React.FC<LeaveBalanceWidgetProps> = ({
 
   const fetchBalances = async () => {
     return loadBalances(async () => {
-      const { data, error } = await db.rpc('get_leave_balance_summary', {
-        p_employee_id: employeeId || undefined,
-        p_year: year
-      });
-
-      if (error) throw error;
-      setBalances((data || []) as LeaveBalance[]);
+      const data = await getLeaveBalances({ employee_id: employeeId || user?.id, year });
+      setBalances(data);
       return data;
     });
   };
 
   useEffect(() => {
     fetchBalances();
-  }, [employeeId, year]);
+  }, [employeeId, year, user?.id]);
 
   const getUsageColor = (percentage: number) => {
     if (percentage >= 90) return 'text-red-600';
@@ -5,11 +5,14 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Alert, AlertDescription } from '@/components/ui/alert';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/useAuth';
-import { insertRecord, updateRecord, selectRecords } from '@/services/api/postgresql-service';
+import { selectRecords } from '@/services/api/postgresql-service';
 import { LeaveRequest, LeaveType } from '@/integrations/postgresql/types';
 import { getEmployeesForAssignmentAuto } from '@/services/api/employee-selector-service';
+import { calculateLeaveDays, saveLeaveRequest, type LeaveDayCalculation } from '@/services/api/leave-service';
 
 interface LeaveRequestFormDialogProps {
   isOpen: boolean;
@@ -36,12 +39,16 @@ const LeaveRequestFormDialog: React.FC<LeaveRequestFormDialogProps> = ({
   const [leaveTypes, setLeaveTypes] = useState<LeaveType[]>([]);
   const [employees, setEmployees] = useState<any[]>([]);
   const [loadingData, setLoadingData] = useState(false);
+  const [calculation, setCalculation] = useState<LeaveDayCalculation | null>(null);
+  const [calculationError, setCalculationError] = useState<string | null>(null);
 
   const [formData, setFormData] = useState({
     employee_id: '',
     leave_type_id: '',
     start_date: '',
     end_date: '',
+    is_half_day: false,
+    half_day_session: 'first_half' as 'first_half' | 'second_half',
     reason: '',
     status: 'pending',
   });
@@ -60,21 +67,6 @@ const LeaveRequestFormDialog: React.FC<LeaveRequestFormDialogProps> = ({
     }
   };
 
-  // Calculate total days between start and end date
-  const calculateDays = (start: string, end: string): number => {
-    if (!start || !end) return 0;
-    try {
-      const startDate = new Date(start);
-      const endDate = new Date(end);
-      if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) return 0;
-      const diffTime = Math.abs(endDate.getTime() - startDate.getTime());
-      const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24)) + 1;
-      return diffDays > 0 ? diffDays : 0;
-    } catch {
-      return 0;
-    }
-  };
-
   // Fetch leave types and employees when dialog opens
   useEffect(() => {
     if (isOpen) {
@@ -92,6 +84,8 @@ const LeaveRequestFormDialog: React.FC<LeaveRequestFormDialogProps> = ({
           leave_type_id: leaveRequest.leave_type_id || '',
           start_date: formatDateForInput(leaveRequest.start_date),
           end_date: formatDateForInput(leaveRequest.end_date),
+          is_half_day: !!leaveRequest.is_half_day,
+          half_day_session: leaveRequest.half_day_session || 'first_half',
           reason: leaveRequest.reason || '',
           status: leaveRequest.status || 'pending',
         });
@@ -104,6 +98,8 @@ const LeaveRequestFormDialog: React.FC<LeaveRequestFormDialogProps> = ({
           leave_type_id: '',
           start_date: '',
           end_date: '',
+          is_half_day: false,
+          half_day_session: 'first_half',
           reason: '',
           status: 'pending', // Always pending for new requests from employees
         });
@@ -112,6 +108,39 @@ const LeaveRequestFormDialog: React.FC<LeaveRequestFormDialogProps> = ({
     }
   }, [leaveRequest, isOpen, user, isEmployeeView]);
 
+  // Working days, sandwich/half-day rules and balance checks come from the employee's leave policy
+  useEffect(() => {
+    const isSingleDay = !!formData.start_date && formData.start_date === formData.end_date;
+    if (!isOpen || !formData.employee_id || !formData.leave_type_id || !formData.start_date || !formData.end_date) {
+      setCalculation(null);
+      setCalculationError(null);
+      return;
+    }
+    let cancelled = false;
+    setCalculationError(null);
+    calculateLeaveDays({
+      employee_id: formData.employee_id,
+      leave_type_id: formData.leave_type_id,
+      start_date: formData.start_date,
+      end_date: formData.end_date,
+      is_half_day: formData.is_half_day && isSingleDay,
+      exclude_request_id: leaveRequest?.id,
+    })
+      .then((result) => {
+        if (!cancelled) setCalculation(result);
+      })
+      .catch((error) => {
+        console.error('Error calculating leave days:', error);
+        if (!cancelled) {
+          setCalculation(null);
+          setCalculationError(error instanceof Error ? error.message : 'Failed to calculate leave days');
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, formData.employee_id, formData.leave_type_id, formData.start_date, formData.end_date, formData.is_half_day, leaveRequest?.id]);
+
   const fetchData = async () => {
     try {
       setLoadingData(true);
@@ -193,6 +222,15 @@ const LeaveRequestFormDialog: React.FC<LeaveRequestFormDialogProps> = ({
       newErrors.reason = 'Reason is required';
     }
 
+    // Days are never guessed from the calendar: weekly offs, holidays and policy rules need the server
+    if (formData.employee_id && formData.leave_type_id && formData.start_date && formData.end_date) {
+      if (!calculation) {
+        newErrors.days = calculationError || 'Leave days are still being calculated';
+      } else if (!calculation.valid) {
+        newErrors.days = calculation.errors.join('. ');
+      }
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -216,76 +254,27 @@ const LeaveRequestFormDialog: React.FC<LeaveRequestFormDialogProps> = ({
     try {
       setLoading(true);
 
-      const totalDays = calculateDays(formData.start_date, formData.end_date);
+      const isHalfDay = formData.is_half_day && formData.start_date === formData.end_date;
+      // The server recalculates the days and enforces the leave policy and balance
+      await saveLeaveRequest(
+        {
+          employee_id: formData.employee_id,
+          leave_type_id: formData.leave_type_id,
+          start_date: formData.start_date,
+          end_date: formData.end_date,
+          is_half_day: isHalfDay,
+          half_day_session: isHalfDay ? formData.half_day_session : null,
+          reason: formData.reason.trim(),
+          // For employee view, always set status to 'pending'
+          status: isEmployeeView ? 'pending' : formData.status,
+        },
+        leaveRequest?.id
+      );
 
-      if (leaveRequest && leaveRequest.id) {
-        // Update existing leave request
-        await updateRecord<LeaveRequest>(
-          'leave_requests',
-          {
-            employee_id: formData.employee_id,
-            leave_type_id: formData.leave_type_id,
-            start_date: formData.start_date,
-            end_date: formData.end_date,
-            total_days: totalDays,
-            reason: formData.reason.trim(),
-            status: formData.status,
-          },
-          { id: leaveRequest.id },
-          user.id
-        );
-
-        toast({
-          title: 'Success',
-          description: 'Leave request updated successfully',
-        });
-      } else {
-        // Create new leave request
-        // For employee view, always set status to 'pending'
-        const requestStatus = isEmployeeView ? 'pending' : formData.status;
-        
-        // Get agency_id from user's profile or employee_details
-        let agencyId = '';
-        try {
-          const profile = await selectRecords('profiles', {
-            where: { user_id: user.id },
-            limit: 1
-          });
-          if (profile.length > 0 && profile[0].agency_id) {
-            agencyId = profile[0].agency_id;
-          } else {
-            const empDetail = await selectRecords('employee_details', {
-              where: { user_id: user.id },
-              limit: 1
-            });
-            if (empDetail.length > 0 && empDetail[0].agency_id) {
-              agencyId = empDetail[0].agency_id;
-            }
-          }
-        } catch (err) {
-          console.error('Error fetching agency_id:', err);
-        }
-
-        await insertRecord<LeaveRequest>(
-          'leave_requests',
-          {
-            employee_id: formData.employee_id,
-            leave_type_id: formData.leave_type_id,
-            start_date: formData.start_date,
-            end_date: formData.end_date,
-            total_days: totalDays,
-            reason: formData.reason.trim(),
-            status: requestStatus, // Always pending for employees
-            agency_id: agencyId || user.id, // Fallback to user.id if no agency_id found
-          },
-          user.id
-        );
-
-        toast({
-          title: 'Success',
-          description: 'Leave request created successfully',
-        });
-      }
+      toast({
+        title: 'Success',
+        description: leaveRequest?.id ? 'Leave request updated successfully' : 'Leave request created successfully',
+      });
 
       onLeaveRequestSaved();
       onClose();
@@ -301,7 +290,8 @@ const LeaveRequestFormDialog: React.FC<LeaveRequestFormDialogProps> = ({
     }
   };
 
-  const totalDays = calculateDays(formData.start_date, formData.end_date);
+  const isSingleDay = !!formData.start_date && formData.start_date === formData.end_date;
+  const totalDays = calculation ? calculation.days : 0;
 
   return (
     <Dialog open={isOpen} onOpenChange={(open) => {
@@ -421,12 +411,66 @@ const LeaveRequestFormDialog: React.FC<LeaveRequestFormDialogProps> = ({
             </div>
           </div>
 
-          {totalDays > 0 && (
-            <div className="text-sm text-muted-foreground">
-              Total Days: <span className="font-semibold">{totalDays}</span>
+          {isSingleDay && calculation?.policy?.allow_half_day !== false && (
+            <div className="flex items-center justify-between gap-4">
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="is_half_day"
+                  checked={formData.is_half_day}
+                  onCheckedChange={(checked) => setFormData({ ...formData, is_half_day: checked })}
+                  disabled={loading}
+                />
+                <Label htmlFor="is_half_day">Half day</Label>
+              </div>
+              {formData.is_half_day && (
+                <Select
+                  value={formData.half_day_session}
+                  onValueChange={(value) =>
+                    setFormData({ ...formData, half_day_session: value as 'first_half' | 'second_half' })
+                  }
+                  disabled={loading}
+                >
+                  <SelectTrigger className="w-[160px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="first_half">First half</SelectItem>
+                    <SelectItem value="second_half">Second half</SelectItem>
+                  </SelectContent>
+                </Select>
+              )}
             </div>
           )}
 
+          {(totalDays > 0 || calculation) && (
+            <div className="text-sm text-muted-foreground space-y-1">
+              <div>
+                Total Days: <span className="font-semibold">{totalDays}</span>
+                {calculation && calculation.available_days !== null && (
+                  <span>
+                    {' '}· Available: <span className="font-semibold">{calculation.available_days}</span>
+                    {calculation.pending_days > 0 && ` (${calculation.pending_days} pending)`}
+                  </span>
+                )}
+              </div>
+              {calculation?.warnings.map((warning) => (
+                <p key={warning} className="text-amber-600">{warning}</p>
+              ))}
+            </div>
+          )}
+
+          {calculation && !calculation.valid && (
+            <Alert variant="destructive">
+              <AlertDescription>{calculation.errors.join('. ')}</AlertDescription>
+            </Alert>
+          )}
+
+          {calculationError && (
+            <Alert variant="destructive">
+              <AlertDescription>Leave days could not be calculated: {calculationError}</AlertDescription>
+            </Alert>
+          )}
+
           {/* Status field - only show for admins/HR */}
           {canManageRequests && (
             <div className="space-y-2">
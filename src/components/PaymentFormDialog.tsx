@@ -6,7 +6,8 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
-import { insertRecord, updateRecord, selectRecords, selectOne, rawQuery, deleteRecord } from '@/services/api/postgresql-service';
+import { selectRecords, selectOne } from '@/services/api/postgresql-service';
+import { lookupExchangeRate, saveInvoicePayment } from '@/services/api/financial-service';
 import { useAuth } from '@/hooks/useAuth';
 import { Loader2 } from 'lucide-react';
 
@@ -19,6 +20,9 @@ interface Payment {
   reference_number?: string;
   notes?: string;
   status?: string;
+  /** Amount in the invoice currency when it differs from base */
+  foreign_amount?: number | null;
+  exchange_rate?: number | null;
 }
 
 interface PaymentFormDialogProps {
@@ -42,6 +46,9 @@ const PaymentFormDialog: React.FC<PaymentFormDialogProps> = ({
   const [invoices, setInvoices] = useState<any[]>([]);
   const [selectedInvoice, setSelectedInvoice] = useState<any>(null);
   const [invoicesLoading, setInvoicesLoading] = useState(true);
+  // Base currency per unit of the invoice currency on the payment date; null for base currency invoices
+  const [paymentRate, setPaymentRate] = useState<number | null>(null);
+  const [baseCurrency, setBaseCurrency] = useState('INR');
   const [formData, setFormData] = useState<Payment>({
     invoice_id: payment?.invoice_id || invoiceId || '',
     payment_date: payment?.payment_date || new Date().toISOString().split('T')[0],
@@ -59,7 +66,7 @@ const PaymentFormDialog: React.FC<PaymentFormDialogProps> = ({
         setFormData({
           invoice_id: payment.invoice_id || '',
           payment_date: payment.payment_date || new Date().toISOString().split('T')[0],
-          amount: payment.amount || 0,
+          amount: payment.foreign_amount ?? payment.amount ?? 0,
           payment_method: payment.payment_method || 'bank_transfer',
           reference_number: payment.reference_number || '',
           notes: payment.notes || '',
@@ -104,13 +111,41 @@ const PaymentFormDialog: React.FC<PaymentFormDialogProps> = ({
           setFormData(prev => ({
             ...prev,
             invoice_id: invoice.id,
-            amount: payment.amount || 0,
+            amount: payment.foreign_amount ?? payment.amount ?? 0,
           }));
         }
       }).catch(console.error);
     }
   }, [formData.invoice_id, invoices, payment]);
 
+  // Foreign currency invoices are settled at the rate on the payment date
+  useEffect(() => {
+    if (!selectedInvoice) {
+      setPaymentRate(null);
+      return;
+    }
+    lookupExchangeRate(selectedInvoice.currency || 'INR', formData.payment_date)
+      .then((rate) => {
+        setBaseCurrency(rate.base_currency);
+        if (rate.source === 'base') {
+          setPaymentRate(null);
+        } else if (payment?.exchange_rate && payment.payment_date === formData.payment_date) {
+          setPaymentRate(Number(payment.exchange_rate));
+        } else {
+          setPaymentRate(Number(rate.rate));
+        }
+      })
+      .catch(() => {
+        // No rate on file; the user has to enter one
+        setPaymentRate(selectedInvoice.currency && selectedInvoice.currency !== baseCurrency ? 0 : null);
+      });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedInvoice, formData.payment_date]);
+
+  const invoiceCurrency = selectedInvoice?.currency || baseCurrency;
+  const isForeignInvoice = paymentRate !== null;
+  const currencyPrefix = invoiceCurrency === 'INR' ? '₹' : `${invoiceCurrency} `;
+
   const fetchInvoices = async () => {
     try {
       setInvoicesLoading(true);
@@ -170,6 +205,15 @@ const PaymentFormDialog: React.FC<PaymentFormDialogProps> = ({
       return false;
     }
 
+    if (isForeignInvoice && !(Number(paymentRate) > 0)) {
+      toast({
+        title: 'Validation Error',
+        description: `Please enter the ${invoiceCurrency} exchange rate for the payment date`,
+        variant: 'destructive',
+      });
+      return false;
+    }
+
     if (!formData.payment_method) {
       toast({
         title: 'Validation Error',
@@ -231,188 +275,24 @@ const PaymentFormDialog: React.FC<PaymentFormDialogProps> = ({
         return;
       }
 
-      const invoice = selectedInvoice || (payment ? await selectOne('invoices', { id: payment.invoice_id }) : null);
-      if (!invoice) {
-        toast({
-          title: 'Error',
-          description: 'Invoice not found',
-          variant: 'destructive',
-        });
-        setLoading(false);
-        return;
-      }
-
-      // Get cash/bank account for payment
-      const cashAccounts = await selectRecords('chart_of_accounts', {
-        where: {
-          agency_id: profile.agency_id,
-          account_type: 'Asset',
-          account_name: { operator: 'ILIKE', value: '%cash%' }
-        },
-        limit: 1,
-      });
-
-      if (!cashAccounts || cashAccounts.length === 0) {
-        toast({
-          title: 'Error',
-          description: 'No cash account found. Please create a cash account in Chart of Accounts first.',
-          variant: 'destructive',
-        });
-        setLoading(false);
-        return;
-      }
-
-      const cashAccount = cashAccounts[0];
-
-      // Get accounts receivable account
-      const arAccounts = await selectRecords('chart_of_accounts', {
-        where: {
-          agency_id: profile.agency_id,
-          account_type: 'Asset',
-          account_name: { operator: 'ILIKE', value: '%receivable%' }
-        },
-        limit: 1,
-      });
-
-      const arAccount = arAccounts && arAccounts.length > 0 ? arAccounts[0] : cashAccount;
-
-      if (payment && payment.id) {
-        // Update existing payment (journal entry)
-        // Get existing journal entry
-        const existingEntry = await selectOne('journal_entries', { id: payment.id });
-        if (!existingEntry) {
-          throw new Error('Payment entry not found');
-        }
-
-        // Update journal entry
-        await updateRecord('journal_entries', {
-          entry_date: formData.payment_date,
-          description: `Payment for Invoice ${invoice.invoice_number}${formData.notes ? ` - ${formData.notes}` : ''}`,
-          reference: formData.reference_number || existingEntry.reference || `PAY-${invoice.invoice_number}`,
-          total_debit: formData.amount,
-          total_credit: formData.amount,
-        }, { id: payment.id }, user.id);
-
-        // Delete existing lines
-        const existingLines = await selectRecords('journal_entry_lines', {
-          where: { journal_entry_id: payment.id },
-        });
-        for (const line of existingLines || []) {
-          await deleteRecord('journal_entry_lines', line.id, user.id);
-        }
-
-        // Create new lines
-        await insertRecord('journal_entry_lines', {
-          journal_entry_id: payment.id,
-          account_id: cashAccount.id,
-          description: `Payment received for Invoice ${invoice.invoice_number}`,
-          debit_amount: formData.amount,
-          credit_amount: 0,
-          line_number: 1,
-        }, user.id);
-
-        await insertRecord('journal_entry_lines', {
-          journal_entry_id: payment.id,
-          account_id: arAccount.id,
-          description: `Payment for Invoice ${invoice.invoice_number}`,
-          debit_amount: 0,
-          credit_amount: formData.amount,
-          line_number: 2,
-        }, user.id);
-      } else {
-        // Create new payment
-        // Generate journal entry number
-        const year = new Date().getFullYear();
-        const timestamp = String(Date.now()).slice(-6);
-        const entryNumber = `PAY-${year}-${timestamp}`;
-        const reference = formData.reference_number || `PAY-${invoice.invoice_number}`;
-
-        // Create journal entry for payment
-        const journalEntry = await insertRecord('journal_entries', {
-          entry_number: entryNumber,
-          entry_date: formData.payment_date,
-          description: `Payment for Invoice ${invoice.invoice_number}${formData.notes ? ` - ${formData.notes}` : ''}`,
-          reference: reference,
-          status: 'posted',
-          total_debit: formData.amount,
-          total_credit: formData.amount,
-          created_by: user.id,
-          agency_id: profile.agency_id,
-        }, user.id);
-
-        // Create debit line (Cash/Bank account)
-        await insertRecord('journal_entry_lines', {
-          journal_entry_id: journalEntry.id,
-          account_id: cashAccount.id,
-          description: `Payment received for Invoice ${invoice.invoice_number}`,
-          debit_amount: formData.amount,
-          credit_amount: 0,
-          line_number: 1,
-        }, user.id);
-
-        // Create credit line (Accounts Receivable)
-        await insertRecord('journal_entry_lines', {
-          journal_entry_id: journalEntry.id,
-          account_id: arAccount.id,
-          description: `Payment for Invoice ${invoice.invoice_number}`,
-          debit_amount: 0,
-          credit_amount: formData.amount,
-          line_number: 2,
-        }, user.id);
-      }
-
-      // Update invoice status
-      const invoiceTotal = invoice.total_amount || 
-        (invoice.subtotal * (1 + (invoice.tax_rate || 0) / 100) - (invoice.discount || 0));
-      
-      // Get total payments for this invoice
-      const paymentsQuery = `
-        SELECT COALESCE(SUM(jel.debit_amount), 0) as total_paid
-        FROM journal_entries je
-        JOIN journal_entry_lines jel ON je.id = jel.journal_entry_id
-        WHERE je.reference LIKE $1
-        AND jel.account_id = $2
-        AND je.agency_id = $3
-        ${payment && payment.id ? `AND je.id != $4` : ''}
-      `;
-      
-      const queryParams: any[] = [
-        `%${invoice.invoice_number}%`,
-        cashAccount.id,
-        profile.agency_id
-      ];
-      if (payment && payment.id) {
-        queryParams.push(payment.id);
-      }
-      
-      const existingPayments = await rawQuery(paymentsQuery, queryParams);
-
-      // Calculate total paid including this payment
-      let totalPaid = Number(existingPayments[0]?.total_paid || 0);
-      if (payment && payment.id) {
-        // For updates, we need to subtract old amount and add new amount
-        // But for simplicity, we'll recalculate from all payments
-        totalPaid = totalPaid - (payment.amount || 0) + formData.amount;
-      } else {
-        totalPaid = totalPaid + formData.amount;
-      }
-      
-      let newStatus = invoice.status;
-      if (totalPaid >= invoiceTotal) {
-        newStatus = 'paid';
-      } else if (totalPaid > 0) {
-        newStatus = 'partial';
-      } else {
-        newStatus = 'sent';
-      }
-
-      await updateRecord('invoices', {
-        status: newStatus,
-      }, { id: invoice.id }, user.id);
-
+      // Posted server side so foreign currency payments clear AR at the booked rate and book the FX difference
+      const result = await saveInvoicePayment({
+        invoice_id: formData.invoice_id,
+        payment_date: formData.payment_date,
+        amount: formData.amount,
+        exchange_rate: isForeignInvoice ? paymentRate : null,
+        payment_method: formData.payment_method,
+        reference_number: formData.reference_number || undefined,
+        notes: formData.notes || undefined,
+      }, payment?.id);
+
+      const gainLoss = result.realized_gain_loss;
       toast({
         title: 'Success',
-        description: `Payment of ₹${formData.amount.toLocaleString()} ${payment ? 'updated' : 'recorded'} successfully`,
+        description: `Payment of ${currencyPrefix}${formData.amount.toLocaleString()} ${payment ? 'updated' : 'recorded'} successfully` +
+          (gainLoss !== 0
+            ? `. Realized exchange ${gainLoss > 0 ? 'gain' : 'loss'} of ${Math.abs(gainLoss).toLocaleString()} ${result.base_currency}`
+            : ''),
       });
 
       onPaymentSaved();
@@ -467,7 +347,7 @@ const PaymentFormDialog: React.FC<PaymentFormDialogProps> = ({
                       (inv.subtotal * (1 + (inv.tax_rate || 0) / 100) - (inv.discount || 0));
                     return (
                       <SelectItem key={inv.id} value={inv.id}>
-                        {inv.invoice_number} - {inv.title} (₹{Number(total).toLocaleString()})
+                        {inv.invoice_number} - {inv.title} ({inv.currency && inv.currency !== 'INR' ? `${inv.currency} ` : '₹'}{Number(total).toLocaleString()})
                       </SelectItem>
                     );
                   })}
@@ -475,7 +355,7 @@ const PaymentFormDialog: React.FC<PaymentFormDialogProps> = ({
               </Select>
               {selectedInvoice && (
                 <p className="text-xs text-muted-foreground">
-                  Total: ₹{Number(selectedInvoice.total_amount || 
+                  Total: {currencyPrefix}{Number(selectedInvoice.total_amount || 
                     (selectedInvoice.subtotal * (1 + (selectedInvoice.tax_rate || 0) / 100) - (selectedInvoice.discount || 0))
                   ).toLocaleString()}
                 </p>
@@ -496,7 +376,7 @@ const PaymentFormDialog: React.FC<PaymentFormDialogProps> = ({
 
           <div className="grid grid-cols-2 gap-4">
             <div className="space-y-2">
-              <Label htmlFor="amount">Amount (₹) *</Label>
+              <Label htmlFor="amount">Amount ({invoiceCurrency}) *</Label>
               <Input
                 id="amount"
                 type="number"
@@ -530,6 +410,34 @@ const PaymentFormDialog: React.FC<PaymentFormDialogProps> = ({
             </div>
           </div>
 
+          {isForeignInvoice && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="payment_rate">Exchange Rate (1 {invoiceCurrency} = ? {baseCurrency}) *</Label>
+                <Input
+                  id="payment_rate"
+                  type="number"
+                  step="0.000001"
+                  min="0"
+                  value={paymentRate || ''}
+                  onChange={(e) => setPaymentRate(Number(e.target.value) || 0)}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Invoice booked at {Number(selectedInvoice?.exchange_rate) || 1}
+                </p>
+              </div>
+              <div className="space-y-2">
+                <Label>Received in {baseCurrency}</Label>
+                <div className="h-10 px-3 flex items-center rounded-md border bg-muted text-sm">
+                  {(formData.amount * (paymentRate || 0)).toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Exchange difference: {(formData.amount * ((paymentRate || 0) - (Number(selectedInvoice?.exchange_rate) || 1))).toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                </p>
+              </div>
+            </div>
+          )}
+
           <div className="space-y-2">
             <Label htmlFor="reference_number">Reference Number</Label>
             <Input
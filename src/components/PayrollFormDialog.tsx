@@ -9,6 +9,8 @@ import { useToast } from '@/hooks/use-toast';
 import { insertRecord, updateRecord, selectRecords } from '@/services/api/postgresql-service';
 import { useAuth } from '@/hooks/useAuth';
 import { getEmployeesForAssignmentAuto } from '@/services/api/employee-selector-service';
+import { buildPayrollRun, PayrollRunLine } from '@/services/api/payroll-service';
+import { Calculator, Loader2 } from 'lucide-react';
 
 interface Payroll {
   id?: string;
@@ -47,6 +49,9 @@ const PayrollFormDialog: React.FC<PayrollFormDialogProps> = ({
   const [loading, setLoading] = useState(false);
   const [employees, setEmployees] = useState<any[]>([]);
   const [payrollPeriods, setPayrollPeriods] = useState<any[]>([]);
+  // Statutory breakdown from the salary structure; cleared once amounts are edited by hand
+  const [calculated, setCalculated] = useState<PayrollRunLine | null>(null);
+  const [calculating, setCalculating] = useState(false);
   const [formData, setFormData] = useState<Payroll>({
     employee_id: payroll?.employee_id || '',
     payroll_period_id: payroll?.payroll_period_id || payrollPeriodId || '',
@@ -65,6 +70,7 @@ const PayrollFormDialog: React.FC<PayrollFormDialogProps> = ({
 
   useEffect(() => {
     if (isOpen) {
+      setCalculated(null);
       fetchEmployees();
       fetchPayrollPeriods();
       if (payroll) {
@@ -158,12 +164,12 @@ const PayrollFormDialog: React.FC<PayrollFormDialogProps> = ({
     }
   };
 
-  const calculateTotals = () => {
-    const baseSalary = parseFloat(String(formData.base_salary || 0));
-    const overtimePay = parseFloat(String(formData.overtime_pay || 0));
-    const bonuses = parseFloat(String(formData.bonuses || 0)); // This maps to allowances in DB
-    const deductions = parseFloat(String(formData.deductions || 0));
-    const taxDeductions = parseFloat(String(formData.tax_deductions || 0)); // This maps to tax_amount in DB
+  const calculateTotals = (data: Payroll = formData) => {
+    const baseSalary = parseFloat(String(data.base_salary || 0));
+    const overtimePay = parseFloat(String(data.overtime_pay || 0));
+    const bonuses = parseFloat(String(data.bonuses || 0)); // This maps to allowances in DB
+    const deductions = parseFloat(String(data.deductions || 0));
+    const taxDeductions = parseFloat(String(data.tax_deductions || 0)); // This maps to tax_amount in DB
     
     const grossPay = baseSalary + overtimePay + bonuses;
     const netPay = grossPay - deductions - taxDeductions;
@@ -275,9 +281,12 @@ const PayrollFormDialog: React.FC<PayrollFormDialogProps> = ({
   };
 
   const handleFieldChange = (field: keyof Payroll, value: any) => {
+    if (['base_salary', 'overtime_pay', 'bonuses', 'deductions', 'tax_deductions'].includes(field)) {
+      setCalculated(null);
+    }
     setFormData(prev => {
       const updated = { ...prev, [field]: value };
-      const { grossPay, netPay } = calculateTotals();
+      const { grossPay, netPay } = calculateTotals(updated);
       return {
         ...updated,
         gross_pay: grossPay,
@@ -286,6 +295,48 @@ const PayrollFormDialog: React.FC<PayrollFormDialogProps> = ({
     });
   };
 
+  // Fill the amounts from the employee's salary structure, attendance and statutory settings
+  const handleCalculateFromStructure = async () => {
+    const period = payrollPeriods.find(p => p.id === formData.payroll_period_id);
+    if (!formData.employee_id || !period) {
+      toast({
+        title: 'Error',
+        description: 'Select an employee and payroll period first',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    try {
+      setCalculating(true);
+      const [line] = await buildPayrollRun(period, formData.employee_id);
+      if (!line || line.monthly_gross <= 0) {
+        throw new Error('No salary on file for this employee');
+      }
+      setFormData(prev => ({
+        ...prev,
+        base_salary: line.base_salary,
+        bonuses: line.allowances + line.arrears + line.bonus,
+        overtime_pay: line.overtime_pay,
+        deductions: line.deductions,
+        tax_deductions: line.tds,
+        gross_pay: line.gross_salary,
+        net_pay: line.net_salary,
+        hours_worked: line.days.hours_worked,
+        overtime_hours: line.days.overtime_hours,
+      }));
+      setCalculated(line);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to calculate payroll',
+        variant: 'destructive',
+      });
+    } finally {
+      setCalculating(false);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
@@ -315,6 +366,28 @@ const PayrollFormDialog: React.FC<PayrollFormDialogProps> = ({
         cleanedData.hours_worked = parseFloat(String(formData.hours_worked || 0));
       }
 
+      if (calculated) {
+        Object.assign(cleanedData, {
+          salary_detail_id: calculated.salary_detail_id,
+          salary_structure_id: calculated.salary_structure_id,
+          monthly_gross: calculated.monthly_gross,
+          earnings: JSON.stringify(calculated.earnings),
+          working_days: calculated.days.working_days,
+          paid_days: calculated.days.paid_days,
+          lop_days: calculated.days.lop_days,
+          lop_amount: calculated.lop_amount,
+          arrears: calculated.arrears,
+          bonus: calculated.bonus,
+          pf_employee: calculated.pf_employee,
+          pf_employer: calculated.pf_employer,
+          esi_employee: calculated.esi_employee,
+          esi_employer: calculated.esi_employer,
+          professional_tax: calculated.professional_tax,
+          tds: calculated.tds,
+          other_deductions: calculated.other_deductions,
+        });
+      }
+
       if (payroll?.id) {
         await updateRecord('payroll', cleanedData, { id: payroll.id }, user?.id);
         toast({
@@ -389,7 +462,7 @@ const PayrollFormDialog: React.FC<PayrollFormDialogProps> = ({
                 <SelectContent>
                   {payrollPeriods.map((period) => (
                     <SelectItem key={period.id} value={period.id}>
-                      {period.name} ({new Date(period.start_date).toLocaleDateString()} - {new Date(period.end_date).toLocaleDateString()})
+                      {period.name || period.period_name} ({new Date(period.start_date).toLocaleDateString()} - {new Date(period.end_date).toLocaleDateString()})
                     </SelectItem>
                   ))}
                 </SelectContent>
@@ -493,6 +566,23 @@ const PayrollFormDialog: React.FC<PayrollFormDialogProps> = ({
             </div>
           </div>
 
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <p className="text-sm text-muted-foreground">
+              {calculated
+                ? `PF ₹${calculated.pf_employee.toLocaleString()} · ESI ₹${calculated.esi_employee.toLocaleString()} · PT ₹${calculated.professional_tax.toLocaleString()} · TDS ₹${calculated.tds.toLocaleString()} · LOP ${calculated.days.lop_days} of ${calculated.days.working_days} days`
+                : 'Amounts can be entered by hand or calculated from the salary structure.'}
+            </p>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleCalculateFromStructure}
+              disabled={calculating || !formData.employee_id || !formData.payroll_period_id}
+            >
+              {calculating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Calculator className="mr-2 h-4 w-4" />}
+              Calculate from Salary Structure
+            </Button>
+          </div>
+
           <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 p-4 bg-muted rounded-lg">
             <div>
               <Label className="text-muted-foreground">Gross Pay</Label>
@@ -4,13 +4,16 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useToast } from '@/hooks/use-toast';
 import { insertRecord, updateRecord } from '@/services/api/postgresql-service';
 import { useAuth } from '@/hooks/useAuth';
+import { PayrollRunReview } from '@/components/payroll/PayrollRunReview';
 
 interface PayrollPeriod {
   id?: string;
   name: string;
+  period_name?: string | null;
   start_date: string;
   end_date: string;
   pay_date?: string | null;
@@ -22,17 +25,21 @@ interface PayrollPeriodFormDialogProps {
   onClose: () => void;
   period?: PayrollPeriod | null;
   onPeriodSaved: () => void;
+  /** Open an existing period straight on the payroll run */
+  initialView?: 'details' | 'run';
 }
 
 const PayrollPeriodFormDialog: React.FC<PayrollPeriodFormDialogProps> = ({ 
   isOpen, 
   onClose, 
   period, 
-  onPeriodSaved 
+  onPeriodSaved,
+  initialView = 'details',
 }) => {
   const { toast } = useToast();
   const { user } = useAuth();
   const [loading, setLoading] = useState(false);
+  const [view, setView] = useState<'details' | 'run'>('details');
   const [formData, setFormData] = useState<PayrollPeriod>({
     name: period?.name || '',
     start_date: period?.start_date || new Date().toISOString().split('T')[0],
@@ -43,9 +50,10 @@ const PayrollPeriodFormDialog: React.FC<PayrollPeriodFormDialogProps> = ({
 
   useEffect(() => {
     if (isOpen) {
+      setView(period?.id ? initialView : 'details');
       if (period) {
         setFormData({
-          name: period.name,
+          name: period.name || period.period_name || '',
           start_date: period.start_date,
           end_date: period.end_date,
           pay_date: period.pay_date || null,
@@ -65,7 +73,7 @@ const PayrollPeriodFormDialog: React.FC<PayrollPeriodFormDialogProps> = ({
         });
       }
     }
-  }, [isOpen, period]);
+  }, [isOpen, period, initialView]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -83,8 +91,10 @@ const PayrollPeriodFormDialog: React.FC<PayrollPeriodFormDialogProps> = ({
         return;
       }
 
-      const cleanedData: any = {
+      // period_name is the original column; keep it in step with name
+      const cleanedData = {
         name: formData.name.trim(),
+        period_name: formData.name.trim(),
         start_date: formData.start_date,
         end_date: formData.end_date,
         pay_date: formData.pay_date || null,
@@ -119,88 +129,113 @@ const PayrollPeriodFormDialog: React.FC<PayrollPeriodFormDialogProps> = ({
     }
   };
 
+  const detailsForm = (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="name">Period Name *</Label>
+          <Input
+            id="name"
+            value={formData.name}
+            onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+            placeholder="e.g., January 2024 Payroll"
+            required
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="status">Status *</Label>
+          <Select 
+            value={formData.status} 
+            onValueChange={(value: any) => setFormData(prev => ({ ...prev, status: value }))}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="draft">Draft</SelectItem>
+              <SelectItem value="processing">Processing</SelectItem>
+              <SelectItem value="approved">Approved</SelectItem>
+              <SelectItem value="paid">Paid</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="start_date">Start Date *</Label>
+          <Input
+            id="start_date"
+            type="date"
+            value={formData.start_date}
+            onChange={(e) => setFormData(prev => ({ ...prev, start_date: e.target.value }))}
+            required
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="end_date">End Date *</Label>
+          <Input
+            id="end_date"
+            type="date"
+            value={formData.end_date}
+            onChange={(e) => setFormData(prev => ({ ...prev, end_date: e.target.value }))}
+            required
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="pay_date">Pay Date</Label>
+          <Input
+            id="pay_date"
+            type="date"
+            value={formData.pay_date || ''}
+            onChange={(e) => setFormData(prev => ({ ...prev, pay_date: e.target.value || null }))}
+          />
+        </div>
+      </div>
+
+      <DialogFooter className="flex flex-col sm:flex-row gap-2 sm:gap-0">
+        <Button type="button" variant="outline" onClick={onClose} className="w-full sm:w-auto">
+          Cancel
+        </Button>
+        <Button type="submit" disabled={loading} className="w-full sm:w-auto">
+          {loading ? 'Saving...' : period?.id ? 'Update Period' : 'Create Period'}
+        </Button>
+      </DialogFooter>
+    </form>
+  );
+
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
-      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+      <DialogContent className={`${view === 'run' ? 'max-w-6xl' : 'max-w-2xl'} max-h-[90vh] overflow-y-auto`}>
         <DialogHeader>
           <DialogTitle>{period?.id ? 'Edit Payroll Period' : 'Create New Payroll Period'}</DialogTitle>
           <DialogDescription>
-            {period?.id ? 'Update payroll period details below.' : 'Fill in the details to create a new payroll period.'}
+            {view === 'run'
+              ? 'Calculate payroll for all active employees, review it and finalize.'
+              : period?.id ? 'Update payroll period details below.' : 'Fill in the details to create a new payroll period.'}
           </DialogDescription>
         </DialogHeader>
 
-        <form onSubmit={handleSubmit} className="space-y-4">
-          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-            <div className="space-y-2">
-              <Label htmlFor="name">Period Name *</Label>
-              <Input
-                id="name"
-                value={formData.name}
-                onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
-                placeholder="e.g., January 2024 Payroll"
-                required
-              />
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="status">Status *</Label>
-              <Select 
-                value={formData.status} 
-                onValueChange={(value: any) => setFormData(prev => ({ ...prev, status: value }))}
-              >
-                <SelectTrigger>
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="draft">Draft</SelectItem>
-                  <SelectItem value="processing">Processing</SelectItem>
-                  <SelectItem value="approved">Approved</SelectItem>
-                  <SelectItem value="paid">Paid</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
-          </div>
-
-          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
-            <div className="space-y-2">
-              <Label htmlFor="start_date">Start Date *</Label>
-              <Input
-                id="start_date"
-                type="date"
-                value={formData.start_date}
-                onChange={(e) => setFormData(prev => ({ ...prev, start_date: e.target.value }))}
-                required
-              />
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="end_date">End Date *</Label>
-              <Input
-                id="end_date"
-                type="date"
-                value={formData.end_date}
-                onChange={(e) => setFormData(prev => ({ ...prev, end_date: e.target.value }))}
-                required
-              />
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="pay_date">Pay Date</Label>
-              <Input
-                id="pay_date"
-                type="date"
-                value={formData.pay_date || ''}
-                onChange={(e) => setFormData(prev => ({ ...prev, pay_date: e.target.value || null }))}
+        {period?.id ? (
+          <Tabs value={view} onValueChange={(value) => setView(value as 'details' | 'run')}>
+            <TabsList>
+              <TabsTrigger value="details">Details</TabsTrigger>
+              <TabsTrigger value="run">Run Payroll</TabsTrigger>
+            </TabsList>
+            <TabsContent value="details">{detailsForm}</TabsContent>
+            <TabsContent value="run">
+              <PayrollRunReview
+                period={{ ...period, id: period.id }}
+                onFinalized={() => {
+                  onPeriodSaved();
+                  onClose();
+                }}
               />
-            </div>
-          </div>
-
-          <DialogFooter className="flex flex-col sm:flex-row gap-2 sm:gap-0">
-            <Button type="button" variant="outline" onClick={onClose} className="w-full sm:w-auto">
-              Cancel
-            </Button>
-            <Button type="submit" disabled={loading} className="w-full sm:w-auto">
-              {loading ? 'Saving...' : period?.id ? 'Update Period' : 'Create Period'}
-            </Button>
-          </DialogFooter>
-        </form>
+            </TabsContent>
+          </Tabs>
+        ) : (
+          detailsForm
+        )}
       </DialogContent>
     </Dialog>
   );
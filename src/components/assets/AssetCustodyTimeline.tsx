@@ -0,0 +1,127 @@
+/**
+ * Asset Custody Timeline
+ * Every check-out and check-in of an asset, newest first, with return photos
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { db } from '@/lib/database';
+import { Building2, FolderKanban, Loader2, MapPin, Paperclip, User } from 'lucide-react';
+import {
+  getAssetCustodyTimeline,
+  type AssetCustodyAttachment,
+  type AssetCustodyRecord,
+} from '@/services/api/asset-service';
+import { ASSET_CUSTODY_BUCKET } from './CheckInAssetDialog';
+
+interface AssetCustodyTimelineProps {
+  assetId: string;
+  // Bump to reload after a check-out or check-in made elsewhere on the page
+  refreshKey?: number;
+}
+
+const formatDate = (value?: string | null) => (value ? new Date(value).toLocaleDateString('en-IN') : '-');
+
+export const AssetCustodyTimeline: React.FC<AssetCustodyTimelineProps> = ({ assetId, refreshKey }) => {
+  const { toast } = useToast();
+  const [records, setRecords] = useState<AssetCustodyRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    setLoading(true);
+    getAssetCustodyTimeline(assetId)
+      .then(setRecords)
+      .catch((error) => console.error('Error loading custody timeline:', error))
+      .finally(() => setLoading(false));
+  }, [assetId, refreshKey]);
+
+  const openAttachment = async (attachment: AssetCustodyAttachment) => {
+    const { data, error } = await db.storage.from(ASSET_CUSTODY_BUCKET).download(attachment.file_path);
+    if (error || !data) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to open photo',
+        variant: 'destructive',
+      });
+      return;
+    }
+    window.open(URL.createObjectURL(new Blob([data], { type: attachment.file_type || 'application/octet-stream' })), '_blank');
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-4">
+        <Loader2 className="h-5 w-5 animate-spin" />
+      </div>
+    );
+  }
+
+  if (records.length === 0) {
+    return <p className="text-sm text-muted-foreground">This asset has never been checked out.</p>;
+  }
+
+  return (
+    <ol className="relative space-y-4 border-l pl-6">
+      {records.map((record) => {
+        const Icon = record.custodian_type === 'employee' ? User : record.custodian_type === 'project' ? FolderKanban : MapPin;
+        const holder = record.custodian_name || record.project_name || record.location_name || 'Unknown';
+        return (
+          <li key={record.id} className="relative">
+            <span className="absolute -left-[33px] flex h-6 w-6 items-center justify-center rounded-full border bg-background">
+              <Icon className="h-3 w-3" />
+            </span>
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="font-medium">{holder}</span>
+              <span className="font-mono text-xs text-muted-foreground">{record.custody_number}</span>
+              {record.status === 'checked_out' ? (
+                record.is_overdue ? (
+                  <Badge variant="destructive">Overdue</Badge>
+                ) : (
+                  <Badge>Checked Out</Badge>
+                )
+              ) : (
+                <Badge variant="secondary">Returned</Badge>
+              )}
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Out {formatDate(record.checked_out_at)}
+              {record.checked_out_by_name && ` by ${record.checked_out_by_name}`}
+              {record.checkout_condition && ` · ${record.checkout_condition}`}
+              {record.expected_return_date && ` · due ${formatDate(record.expected_return_date)}`}
+            </p>
+            {record.checkout_notes && <p className="text-sm">{record.checkout_notes}</p>}
+            {record.status === 'returned' && (
+              <>
+                <p className="text-sm text-muted-foreground">
+                  <Building2 className="mr-1 inline h-3 w-3" />
+                  Returned {formatDate(record.checked_in_at)}
+                  {record.checked_in_by_name && ` to ${record.checked_in_by_name}`}
+                  {record.return_condition && ` · ${record.return_condition}`}
+                </p>
+                {record.return_notes && <p className="text-sm">{record.return_notes}</p>}
+              </>
+            )}
+            {record.attachments.length > 0 && (
+              <div className="mt-1 flex flex-wrap gap-1">
+                {record.attachments.map((attachment) => (
+                  <Button
+                    key={attachment.file_path}
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 px-2"
+                    onClick={() => openAttachment(attachment)}
+                  >
+                    <Paperclip className="mr-1 h-3 w-3" />
+                    {attachment.file_name}
+                  </Button>
+                ))}
+              </div>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
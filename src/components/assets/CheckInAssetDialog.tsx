@@ -0,0 +1,177 @@
+/**
+ * Check In Asset Dialog
+ * Closes a custody record with the condition the asset came back in, notes and photos
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { db } from '@/lib/database';
+import { Loader2, Paperclip, X } from 'lucide-react';
+import {
+  checkInAsset,
+  type AssetCondition,
+  type AssetCustodyAttachment,
+  type AssetCustodyRecord,
+} from '@/services/api/asset-service';
+
+export const ASSET_CUSTODY_BUCKET = 'asset-custody';
+
+interface CheckInAssetDialogProps {
+  custody: AssetCustodyRecord | null;
+  onOpenChange: (open: boolean) => void;
+  onCheckedIn: (custody: AssetCustodyRecord) => void;
+}
+
+export const CheckInAssetDialog: React.FC<CheckInAssetDialogProps> = ({ custody, onOpenChange, onCheckedIn }) => {
+  const { toast } = useToast();
+  const [condition, setCondition] = useState<AssetCondition>('good');
+  const [notes, setNotes] = useState('');
+  const [attachments, setAttachments] = useState<AssetCustodyAttachment[]>([]);
+  const [uploading, setUploading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!custody) return;
+    setCondition(custody.checkout_condition || 'good');
+    setNotes('');
+    setAttachments([]);
+  }, [custody]);
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!custody || !files || files.length === 0) return;
+    try {
+      setUploading(true);
+      const uploaded: AssetCustodyAttachment[] = [];
+      for (const file of Array.from(files)) {
+        const filePath = `${custody.asset_id}/${custody.id}/${Date.now()}_${file.name.replace(/[^\w.-]+/g, '_')}`;
+        const { error } = await db.storage.from(ASSET_CUSTODY_BUCKET).upload(filePath, file);
+        if (error) throw error;
+        uploaded.push({ file_name: file.name, file_path: filePath, file_type: file.type, file_size: file.size });
+      }
+      setAttachments((prev) => [...prev, ...uploaded]);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to upload photo',
+        variant: 'destructive',
+      });
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleCheckIn = async () => {
+    if (!custody) return;
+    try {
+      setSaving(true);
+      const returned = await checkInAsset(custody.id, {
+        return_condition: condition,
+        return_notes: notes || undefined,
+        attachments,
+      });
+      toast({ title: 'Success', description: `${custody.asset_name || 'Asset'} checked in` });
+      onOpenChange(false);
+      onCheckedIn(returned);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to check in asset',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const holder = custody?.custodian_name || custody?.project_name || custody?.location_name;
+
+  return (
+    <Dialog open={!!custody} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Check In Asset</DialogTitle>
+          <DialogDescription>
+            {custody && `${custody.asset_number || ''} ${custody.asset_name || ''} from ${holder || 'custodian'}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          <div className="grid gap-2">
+            <Label>Return Condition</Label>
+            <Select value={condition} onValueChange={(value) => setCondition(value as AssetCondition)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="excellent">Excellent</SelectItem>
+                <SelectItem value="good">Good</SelectItem>
+                <SelectItem value="fair">Fair</SelectItem>
+                <SelectItem value="poor">Poor</SelectItem>
+              </SelectContent>
+            </Select>
+            {custody?.checkout_condition && (
+              <p className="text-xs text-muted-foreground">Checked out in {custody.checkout_condition} condition</p>
+            )}
+          </div>
+          <div className="grid gap-2">
+            <Label>Condition Notes</Label>
+            <Textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={3}
+              placeholder="Damage, missing accessories, etc."
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label>Photos</Label>
+            <div className="flex flex-wrap items-center gap-2">
+              {attachments.map((attachment) => (
+                <span
+                  key={attachment.file_path}
+                  className="inline-flex items-center gap-1 rounded-md border px-2 py-1 text-sm"
+                >
+                  <Paperclip className="h-3 w-3" />
+                  {attachment.file_name}
+                  <button
+                    type="button"
+                    onClick={() => setAttachments((prev) => prev.filter((a) => a.file_path !== attachment.file_path))}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </span>
+              ))}
+              <Input
+                type="file"
+                accept="image/*"
+                multiple
+                className="w-64"
+                disabled={uploading}
+                onChange={(e) => {
+                  handleFiles(e.target.files);
+                  e.target.value = '';
+                }}
+              />
+              {uploading && <Loader2 className="h-4 w-4 animate-spin" />}
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleCheckIn} disabled={saving || uploading}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Check In
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,214 @@
+/**
+ * Check Out Asset Dialog
+ * Hands an asset to an employee, a project or a location with an expected return date
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { Loader2 } from 'lucide-react';
+import {
+  checkOutAsset,
+  getAssetLocations,
+  type Asset,
+  type AssetCondition,
+  type AssetCustodyRecord,
+  type AssetLocation,
+  type CustodianType,
+} from '@/services/api/asset-service';
+import { getEmployeesForAssignmentAuto, type EmployeeOption } from '@/services/api/employee-selector-service';
+import { getProjectsForSelectionAuto, type ProjectOption } from '@/services/api/project-selector-service';
+
+interface CheckOutAssetDialogProps {
+  asset: Asset | null;
+  onOpenChange: (open: boolean) => void;
+  onCheckedOut: (custody: AssetCustodyRecord) => void;
+}
+
+export const CheckOutAssetDialog: React.FC<CheckOutAssetDialogProps> = ({ asset, onOpenChange, onCheckedOut }) => {
+  const { toast } = useToast();
+  const { user, profile } = useAuth();
+  const [employees, setEmployees] = useState<EmployeeOption[]>([]);
+  const [projects, setProjects] = useState<ProjectOption[]>([]);
+  const [locations, setLocations] = useState<AssetLocation[]>([]);
+  const [custodianType, setCustodianType] = useState<CustodianType>('employee');
+  const [custodianId, setCustodianId] = useState('');
+  const [expectedReturnDate, setExpectedReturnDate] = useState('');
+  const [condition, setCondition] = useState<AssetCondition>('good');
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!asset) return;
+    setCustodianType('employee');
+    setCustodianId('');
+    setExpectedReturnDate('');
+    setCondition(asset.condition_status || 'good');
+    setNotes('');
+    if (employees.length === 0) {
+      getEmployeesForAssignmentAuto(profile, user?.id)
+        .then(setEmployees)
+        .catch((error) => console.error('Error loading employees:', error));
+    }
+    if (projects.length === 0) {
+      getProjectsForSelectionAuto(profile, user?.id, { includeInactive: false })
+        .then(setProjects)
+        .catch((error) => console.error('Error loading projects:', error));
+    }
+    if (locations.length === 0) {
+      getAssetLocations()
+        .then((data) => setLocations(data.filter((location) => location.is_active)))
+        .catch((error) => console.error('Error loading locations:', error));
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [asset]);
+
+  const handleCheckOut = async () => {
+    if (!asset) return;
+    if (!custodianId) {
+      toast({
+        title: 'Validation Error',
+        description: `Choose the ${custodianType} taking the asset`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const custody = await checkOutAsset(asset.id, {
+        custodian_type: custodianType,
+        custodian_user_id: custodianType === 'employee' ? custodianId : undefined,
+        project_id: custodianType === 'project' ? custodianId : undefined,
+        location_id: custodianType === 'location' ? custodianId : undefined,
+        expected_return_date: expectedReturnDate || undefined,
+        checkout_condition: condition,
+        checkout_notes: notes || undefined,
+      });
+      toast({ title: 'Success', description: `${asset.name} checked out (${custody.custody_number})` });
+      onOpenChange(false);
+      onCheckedOut(custody);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to check out asset',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!asset} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Check Out Asset</DialogTitle>
+          <DialogDescription>{asset && `${asset.asset_number} ${asset.name}`}</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label>Check Out To</Label>
+              <Select
+                value={custodianType}
+                onValueChange={(value) => {
+                  setCustodianType(value as CustodianType);
+                  setCustodianId('');
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="employee">Employee</SelectItem>
+                  <SelectItem value="project">Project</SelectItem>
+                  <SelectItem value="location">Location</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-2">
+              <Label>{custodianType === 'employee' ? 'Employee' : custodianType === 'project' ? 'Project' : 'Location'} *</Label>
+              <Select value={custodianId} onValueChange={setCustodianId}>
+                <SelectTrigger>
+                  <SelectValue placeholder={`Select ${custodianType}`} />
+                </SelectTrigger>
+                <SelectContent>
+                  {custodianType === 'employee' &&
+                    employees.map((employee) => (
+                      <SelectItem key={employee.id} value={employee.id}>
+                        {employee.full_name}
+                      </SelectItem>
+                    ))}
+                  {custodianType === 'project' &&
+                    projects.map((project) => (
+                      <SelectItem key={project.id} value={project.id}>
+                        {project.project_code ? `${project.project_code} - ${project.name}` : project.name}
+                      </SelectItem>
+                    ))}
+                  {custodianType === 'location' &&
+                    locations.map((location) => (
+                      <SelectItem key={location.id} value={location.id}>
+                        {location.name}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label>Expected Return</Label>
+              <Input
+                type="date"
+                min={new Date().toISOString().split('T')[0]}
+                value={expectedReturnDate}
+                onChange={(e) => setExpectedReturnDate(e.target.value)}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label>Condition</Label>
+              <Select value={condition} onValueChange={(value) => setCondition(value as AssetCondition)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="excellent">Excellent</SelectItem>
+                  <SelectItem value="good">Good</SelectItem>
+                  <SelectItem value="fair">Fair</SelectItem>
+                  <SelectItem value="poor">Poor</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="grid gap-2">
+            <Label>Notes</Label>
+            <Textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={2}
+              placeholder="Accessories handed over, purpose, etc."
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleCheckOut} disabled={saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Check Out
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,281 @@
+/**
+ * Complete Work Order Dialog
+ * Records labour, the meter reading and the spare parts used on a maintenance job;
+ * parts are issued from the chosen warehouse stock when the order is completed
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+import {
+  completeWorkOrder,
+  getMaintenancePlan,
+  type MaintenanceRecord,
+} from '@/services/api/asset-service';
+import { getInventoryLevels, getProducts, type InventoryLevel, type Product } from '@/services/api/inventory-service';
+
+interface CompleteWorkOrderDialogProps {
+  order: MaintenanceRecord | null;
+  onOpenChange: (open: boolean) => void;
+  onCompleted: (order: MaintenanceRecord) => void;
+}
+
+interface PartRow {
+  product_id: string;
+  inventory_id: string;
+  quantity: string;
+}
+
+export const CompleteWorkOrderDialog: React.FC<CompleteWorkOrderDialogProps> = ({ order, onOpenChange, onCompleted }) => {
+  const { toast } = useToast();
+  const [products, setProducts] = useState<Product[]>([]);
+  const [levels, setLevels] = useState<Record<string, InventoryLevel[]>>({});
+  const [completedDate, setCompletedDate] = useState('');
+  const [laborHours, setLaborHours] = useState('');
+  const [laborCost, setLaborCost] = useState('');
+  const [usageReading, setUsageReading] = useState('');
+  const [notes, setNotes] = useState('');
+  const [parts, setParts] = useState<PartRow[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const loadLevels = async (productId: string) => {
+    if (!productId || levels[productId]) return;
+    try {
+      const data = await getInventoryLevels(productId);
+      setLevels((current) => ({
+        ...current,
+        [productId]: data.filter((level) => Number(level.available_quantity) > 0),
+      }));
+    } catch (error) {
+      console.error('Error loading stock levels:', error);
+    }
+  };
+
+  useEffect(() => {
+    if (!order) return;
+    setCompletedDate(new Date().toISOString().split('T')[0]);
+    setLaborHours(order.labor_hours?.toString() || '');
+    setLaborCost('');
+    setUsageReading('');
+    setNotes('');
+    setParts([]);
+    if (products.length === 0) {
+      getProducts({ is_active: true })
+        .then(setProducts)
+        .catch((error) => console.error('Error loading products:', error));
+    }
+    // Start from the parts the plan expects each job to use
+    if (order.plan_id) {
+      getMaintenancePlan(order.plan_id)
+        .then((plan) => {
+          setParts(
+            plan.parts.map((part) => ({ product_id: part.product_id, inventory_id: '', quantity: String(part.quantity) }))
+          );
+          plan.parts.forEach((part) => loadLevels(part.product_id));
+        })
+        .catch((error) => console.error('Error loading maintenance plan:', error));
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [order]);
+
+  const updatePart = (index: number, changes: Partial<PartRow>) =>
+    setParts((current) => current.map((part, i) => (i === index ? { ...part, ...changes } : part)));
+
+  const handleComplete = async () => {
+    if (!order) return;
+    const issued = parts.map((part) => ({
+      part,
+      level: (levels[part.product_id] || []).find((level) => level.id === part.inventory_id),
+    }));
+    const invalid = issued.find(({ part, level }) => !level || !(Number(part.quantity) > 0));
+    if (invalid) {
+      toast({
+        title: 'Validation Error',
+        description: 'Each part needs a product, a stock location and a quantity above zero',
+        variant: 'destructive',
+      });
+      return;
+    }
+    const short = issued.find(({ part, level }) => level && Number(part.quantity) > Number(level.available_quantity));
+    if (short && short.level) {
+      toast({
+        title: 'Validation Error',
+        description: `Only ${short.level.available_quantity} ${short.level.product_name} available in ${short.level.warehouse_name}`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const completed = await completeWorkOrder(order.id, {
+        completed_date: completedDate || undefined,
+        labor_hours: laborHours === '' ? null : Number(laborHours),
+        labor_cost: Number(laborCost) || 0,
+        usage_reading: usageReading === '' ? null : Number(usageReading),
+        notes: notes || undefined,
+        parts: issued.map(({ part, level }) => ({
+          product_id: part.product_id,
+          variant_id: level?.variant_id || null,
+          warehouse_id: level?.warehouse_id as string,
+          quantity: Number(part.quantity),
+        })),
+      });
+      toast({ title: 'Success', description: `${order.title} completed` });
+      onOpenChange(false);
+      onCompleted(completed);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to complete work order',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!order} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Complete Work Order</DialogTitle>
+          <DialogDescription>
+            {order && `${order.title} on ${order.asset_number || ''} ${order.asset_name || ''}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label>Completed On</Label>
+              <Input type="date" value={completedDate} onChange={(e) => setCompletedDate(e.target.value)} />
+            </div>
+            <div className="grid gap-2">
+              <Label>Meter Reading</Label>
+              <Input
+                type="number"
+                min="0"
+                value={usageReading}
+                onChange={(e) => setUsageReading(e.target.value)}
+                placeholder="Units used to date"
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label>Labour Hours</Label>
+              <Input
+                type="number"
+                min="0"
+                step="0.5"
+                value={laborHours}
+                onChange={(e) => setLaborHours(e.target.value)}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label>Labour / Service Cost</Label>
+              <Input
+                type="number"
+                min="0"
+                step="0.01"
+                value={laborCost}
+                onChange={(e) => setLaborCost(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">Parts are costed from stock and added to this</p>
+            </div>
+          </div>
+
+          <div className="grid gap-2">
+            <div className="flex items-center justify-between">
+              <Label>Parts Used</Label>
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                onClick={() => setParts([...parts, { product_id: '', inventory_id: '', quantity: '1' }])}
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Add Part
+              </Button>
+            </div>
+            {parts.map((part, index) => (
+              <div key={index} className="flex gap-2">
+                <Select
+                  value={part.product_id}
+                  onValueChange={(value) => {
+                    updatePart(index, { product_id: value, inventory_id: '' });
+                    loadLevels(value);
+                  }}
+                >
+                  <SelectTrigger className="flex-1">
+                    <SelectValue placeholder="Select product" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {products.map((product) => (
+                      <SelectItem key={product.id} value={product.id}>
+                        {product.sku} - {product.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={part.inventory_id}
+                  onValueChange={(value) => updatePart(index, { inventory_id: value })}
+                  disabled={!part.product_id}
+                >
+                  <SelectTrigger className="w-[200px]">
+                    <SelectValue placeholder="Take from" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(levels[part.product_id] || []).map((level) => (
+                      <SelectItem key={level.id} value={level.id}>
+                        {level.warehouse_name} ({Number(level.available_quantity)} available)
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  min="0"
+                  className="w-24"
+                  value={part.quantity}
+                  onChange={(e) => updatePart(index, { quantity: e.target.value })}
+                />
+                <Button
+                  type="button"
+                  size="icon"
+                  variant="ghost"
+                  onClick={() => setParts(parts.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid gap-2">
+            <Label>Notes</Label>
+            <Textarea value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleComplete} disabled={saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Complete
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,207 @@
+/**
+ * Depreciation Run Dialog
+ * Previews the month's depreciation for every asset and posts it as one run
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2 } from 'lucide-react';
+import {
+  previewDepreciationRun,
+  runDepreciation,
+  type DepreciationRun,
+  type DepreciationRunPreview,
+} from '@/services/api/asset-service';
+
+interface DepreciationRunDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onPosted: (run: DepreciationRun) => void;
+}
+
+const formatMoney = (value: number) =>
+  `₹${Number(value || 0).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const previousMonth = () => {
+  const date = new Date();
+  date.setDate(1);
+  date.setMonth(date.getMonth() - 1);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+};
+
+export const DepreciationRunDialog: React.FC<DepreciationRunDialogProps> = ({ open, onOpenChange, onPosted }) => {
+  const { toast } = useToast();
+  const [period, setPeriod] = useState(previousMonth());
+  const [notes, setNotes] = useState('');
+  const [preview, setPreview] = useState<DepreciationRunPreview | null>(null);
+  const [loadingPreview, setLoadingPreview] = useState(false);
+  const [posting, setPosting] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setPeriod(previousMonth());
+      setNotes('');
+    }
+  }, [open]);
+
+  useEffect(() => {
+    setPreview(null);
+    if (!open || !period) return;
+    setLoadingPreview(true);
+    previewDepreciationRun(period)
+      .then(setPreview)
+      .catch((error) =>
+        toast({
+          title: 'Error',
+          description: error instanceof Error ? error.message : 'Failed to preview depreciation',
+          variant: 'destructive',
+        })
+      )
+      .finally(() => setLoadingPreview(false));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, period]);
+
+  const handlePost = async () => {
+    try {
+      setPosting(true);
+      const run = await runDepreciation(period, notes || undefined);
+      toast({
+        title: 'Success',
+        description: `${run.run_number} posted ${formatMoney(run.total_amount)} for ${run.asset_count} asset(s)`,
+      });
+      onOpenChange(false);
+      onPosted(run);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to run depreciation',
+        variant: 'destructive',
+      });
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  const canPost = !!preview && preview.lines.length > 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Run Depreciation</DialogTitle>
+          <DialogDescription>
+            Charges every asset for the month, catching up any earlier months not yet charged, and posts one journal entry to the depreciation accounts
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="grid gap-2">
+            <Label>Period</Label>
+            <Input type="month" value={period} onChange={(e) => setPeriod(e.target.value)} />
+          </div>
+          <div className="grid gap-2">
+            <Label>Notes</Label>
+            <Input value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="Optional" />
+          </div>
+        </div>
+
+        {loadingPreview ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : preview ? (
+          <div className="space-y-4">
+            {preview.existing_run_number && (
+              <Alert>
+                <AlertDescription>
+                  Depreciation for this period was already posted in {preview.existing_run_number}. Posting now runs a
+                  supplementary batch for the assets it did not cover.
+                </AlertDescription>
+              </Alert>
+            )}
+            {preview.lines.length === 0 ? (
+              <Alert>
+                <AlertDescription>No assets have depreciation due for this period.</AlertDescription>
+              </Alert>
+            ) : (
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Asset</TableHead>
+                      <TableHead>Method</TableHead>
+                      <TableHead className="text-right">Charge</TableHead>
+                      <TableHead className="text-right">Accumulated</TableHead>
+                      <TableHead className="text-right">Book Value</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.lines.map((line) => (
+                      <TableRow key={`${line.asset_id}-${line.period_start}`}>
+                        <TableCell>
+                          <div className="font-mono text-sm">{line.asset_number}</div>
+                          <div className="text-sm text-muted-foreground">{line.name}</div>
+                          {line.period_start !== preview.period_start && (
+                            <div className="text-xs text-muted-foreground mt-1">
+                              Catch-up for {line.period_start.slice(0, 7)}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="outline">{line.method.replace(/_/g, ' ')}</Badge>
+                          {line.pro_rated && (
+                            <div className="text-xs text-muted-foreground mt-1">Pro-rata, {line.days} days</div>
+                          )}
+                          {line.units_consumed !== null && (
+                            <div className="text-xs text-muted-foreground mt-1">{line.units_consumed} units</div>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">{formatMoney(line.depreciation_amount)}</TableCell>
+                        <TableCell className="text-right">{formatMoney(line.accumulated_depreciation)}</TableCell>
+                        <TableCell className="text-right">{formatMoney(line.book_value)}</TableCell>
+                      </TableRow>
+                    ))}
+                    <TableRow>
+                      <TableCell colSpan={2} className="font-medium">
+                        Total ({preview.asset_count} assets)
+                      </TableCell>
+                      <TableCell className="text-right font-medium">{formatMoney(preview.total_amount)}</TableCell>
+                      <TableCell colSpan={2}></TableCell>
+                    </TableRow>
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+            {preview.skipped.length > 0 && (
+              <div className="space-y-1">
+                <Label>Skipped ({preview.skipped.length})</Label>
+                {preview.skipped.map((skip) => (
+                  <div key={skip.asset_id} className="text-sm text-muted-foreground">
+                    {skip.asset_number} {skip.name}: {skip.reason}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        ) : null}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handlePost} disabled={!canPost || posting}>
+            {posting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Post Depreciation
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,238 @@
+/**
+ * Depreciation Schedule Dialog
+ * Book value over time for an asset: recorded periods followed by the projected schedule
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ResponsiveContainer, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend } from 'recharts';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2 } from 'lucide-react';
+import {
+  getDepreciationSchedule,
+  type Asset,
+  type DepreciationSchedule,
+  type DepreciationSchedulePeriod,
+} from '@/services/api/asset-service';
+
+interface DepreciationScheduleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  assets: Asset[];
+  assetId?: string;
+}
+
+const formatMoney = (value: number) =>
+  `₹${Number(value || 0).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatMonth = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-IN', { month: 'short', year: 'numeric' });
+
+export const DepreciationScheduleDialog: React.FC<DepreciationScheduleDialogProps> = ({
+  open,
+  onOpenChange,
+  assets,
+  assetId,
+}) => {
+  const { toast } = useToast();
+  const [selectedAssetId, setSelectedAssetId] = useState('');
+  const [schedule, setSchedule] = useState<DepreciationSchedule | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (open) setSelectedAssetId(assetId || '');
+  }, [open, assetId]);
+
+  useEffect(() => {
+    setSchedule(null);
+    if (!open || !selectedAssetId) return;
+    setLoading(true);
+    getDepreciationSchedule(selectedAssetId)
+      .then(setSchedule)
+      .catch((error) =>
+        toast({
+          title: 'Error',
+          description: error instanceof Error ? error.message : 'Failed to load depreciation schedule',
+          variant: 'destructive',
+        })
+      )
+      .finally(() => setLoading(false));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, selectedAssetId]);
+
+  const getStatusBadge = (status: DepreciationSchedulePeriod['status']) => {
+    if (status === 'posted') return <Badge variant="default">Posted</Badge>;
+    if (status === 'recorded') return <Badge variant="secondary">Recorded</Badge>;
+    return <Badge variant="outline">Projected</Badge>;
+  };
+
+  const chartData = schedule
+    ? [
+        ...(schedule.asset.start_date
+          ? [
+              {
+                name: formatMonth(schedule.asset.start_date),
+                book_value: schedule.asset.purchase_cost as number | null,
+                projected: schedule.periods[0]?.status === 'projected' ? schedule.asset.purchase_cost : null,
+              },
+            ]
+          : []),
+        ...schedule.periods.map((period, index) => {
+          const nextProjected = schedule.periods[index + 1]?.status === 'projected';
+          return {
+            name: formatMonth(period.period_start),
+            book_value: period.status === 'projected' ? null : period.book_value,
+            // The projected line starts at the last recorded point so the two lines join
+            projected: period.status === 'projected' || nextProjected ? period.book_value : null,
+          };
+        }),
+      ]
+    : [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Depreciation Schedule</DialogTitle>
+          <DialogDescription>
+            Generated from purchase cost, salvage value and useful life; first and last months are pro-rated
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-2">
+          <Label>Asset</Label>
+          <Select value={selectedAssetId} onValueChange={setSelectedAssetId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select asset" />
+            </SelectTrigger>
+            <SelectContent>
+              {assets.map((asset) => (
+                <SelectItem key={asset.id} value={asset.id}>
+                  {asset.asset_number} - {asset.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : schedule ? (
+          <div className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-4 text-sm">
+              <div>
+                <Label>Cost / Salvage</Label>
+                <div className="mt-1">
+                  {formatMoney(schedule.asset.purchase_cost)} / {formatMoney(schedule.asset.residual_value)}
+                </div>
+              </div>
+              <div>
+                <Label>Method</Label>
+                <div className="mt-1">
+                  <Badge variant="outline">{schedule.asset.method.replace(/_/g, ' ')}</Badge>
+                </div>
+              </div>
+              <div>
+                <Label>Useful Life</Label>
+                <div className="mt-1">
+                  {schedule.asset.useful_life_years ? `${schedule.asset.useful_life_years} years` : '-'}
+                  {schedule.asset.life_end_date && (
+                    <div className="text-xs text-muted-foreground">
+                      Ends {new Date(`${schedule.asset.life_end_date}T00:00:00`).toLocaleDateString()}
+                    </div>
+                  )}
+                </div>
+              </div>
+              <div>
+                <Label>Book Value</Label>
+                <div className="mt-1 font-medium">{formatMoney(schedule.asset.book_value)}</div>
+                <div className="text-xs text-muted-foreground">
+                  {formatMoney(schedule.asset.accumulated_depreciation)} depreciated
+                </div>
+              </div>
+            </div>
+
+            {schedule.asset.disposal_date && (
+              <Alert>
+                <AlertDescription>
+                  Disposed on {new Date(`${schedule.asset.disposal_date}T00:00:00`).toLocaleDateString()}; depreciation
+                  stops at the disposal date.
+                </AlertDescription>
+              </Alert>
+            )}
+            {schedule.unschedulable_reason && (
+              <Alert variant="destructive">
+                <AlertDescription>
+                  No schedule can be generated: {schedule.unschedulable_reason}. Update the asset to continue.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {chartData.length > 1 && (
+              <ResponsiveContainer width="100%" height={240}>
+                <LineChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="name" />
+                  <YAxis />
+                  <Tooltip formatter={(value) => formatMoney(Number(value))} />
+                  <Legend />
+                  <Line type="monotone" dataKey="book_value" name="Book value" stroke="#8884d8" strokeWidth={2} dot={false} />
+                  <Line
+                    type="monotone"
+                    dataKey="projected"
+                    name="Projected"
+                    stroke="#8884d8"
+                    strokeDasharray="5 5"
+                    strokeWidth={2}
+                    dot={false}
+                  />
+                </LineChart>
+              </ResponsiveContainer>
+            )}
+
+            {schedule.periods.length > 0 && (
+              <div className="rounded-md border max-h-[320px] overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Period</TableHead>
+                      <TableHead className="text-right">Depreciation</TableHead>
+                      <TableHead className="text-right">Accumulated</TableHead>
+                      <TableHead className="text-right">Book Value</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {schedule.periods.map((period) => (
+                      <TableRow key={`${period.period_start}-${period.depreciation_id || 'projected'}`}>
+                        <TableCell>{formatMonth(period.period_start)}</TableCell>
+                        <TableCell className="text-right">{formatMoney(period.depreciation_amount)}</TableCell>
+                        <TableCell className="text-right">{formatMoney(period.accumulated_depreciation)}</TableCell>
+                        <TableCell className="text-right">{formatMoney(period.book_value)}</TableCell>
+                        <TableCell>{getStatusBadge(period.status)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </div>
+        ) : null}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,497 @@
+/**
+ * Maintenance Plan Form
+ * Creates or edits a preventive maintenance plan for an asset or a whole category,
+ * with its recurrence rule, technician and the parts each job is expected to use
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+import {
+  createMaintenancePlan,
+  updateMaintenancePlan,
+  type Asset,
+  type AssetCategory,
+  type MaintenanceCalendarFrequency,
+  type MaintenancePlan,
+  type MaintenancePlanInput,
+  type MaintenanceRecord,
+  type MaintenanceTriggerType,
+} from '@/services/api/asset-service';
+import type { Product } from '@/services/api/inventory-service';
+import { getEmployeesForAssignmentAuto, type EmployeeOption } from '@/services/api/employee-selector-service';
+
+interface MaintenancePlanFormProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  plan: MaintenancePlan | null;
+  assets: Asset[];
+  categories: AssetCategory[];
+  products: Product[];
+  onSaved: (plan: MaintenancePlan) => void;
+}
+
+const NONE = 'none';
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+interface PartRow {
+  product_id: string;
+  quantity: string;
+}
+
+const emptyForm = () => ({
+  title: '',
+  description: '',
+  scope: 'asset' as 'asset' | 'category',
+  asset_id: '',
+  category_id: '',
+  trigger_type: 'interval' as MaintenanceTriggerType,
+  interval_days: '90',
+  usage_interval: '',
+  calendar_frequency: 'quarterly' as MaintenanceCalendarFrequency,
+  calendar_day: '1',
+  calendar_month: '',
+  start_date: new Date().toISOString().split('T')[0],
+  lead_days: '',
+  priority: 'normal' as MaintenanceRecord['priority'],
+  estimated_hours: '',
+  assigned_to: NONE,
+  is_active: true,
+});
+
+const toNumber = (value: string) => (value === '' ? null : Number(value));
+
+export const MaintenancePlanForm: React.FC<MaintenancePlanFormProps> = ({
+  open,
+  onOpenChange,
+  plan,
+  assets,
+  categories,
+  products,
+  onSaved,
+}) => {
+  const { toast } = useToast();
+  const { user, profile } = useAuth();
+  const [form, setForm] = useState(emptyForm());
+  const [parts, setParts] = useState<PartRow[]>([]);
+  const [technicians, setTechnicians] = useState<EmployeeOption[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    if (plan) {
+      setForm({
+        title: plan.title,
+        description: plan.description || '',
+        scope: plan.asset_id ? 'asset' : 'category',
+        asset_id: plan.asset_id || '',
+        category_id: plan.category_id || '',
+        trigger_type: plan.trigger_type,
+        interval_days: plan.interval_days?.toString() || '',
+        usage_interval: plan.usage_interval?.toString() || '',
+        calendar_frequency: plan.calendar_frequency || 'quarterly',
+        calendar_day: plan.calendar_day?.toString() || '1',
+        calendar_month: plan.calendar_month?.toString() || '',
+        start_date: plan.start_date?.split('T')[0] || '',
+        lead_days: plan.lead_days?.toString() || '',
+        priority: plan.priority,
+        estimated_hours: plan.estimated_hours?.toString() || '',
+        assigned_to: plan.assigned_to || NONE,
+        is_active: plan.is_active,
+      });
+      setParts(plan.parts.map((part) => ({ product_id: part.product_id, quantity: String(part.quantity) })));
+    } else {
+      setForm(emptyForm());
+      setParts([]);
+    }
+    if (technicians.length === 0) {
+      getEmployeesForAssignmentAuto(profile, user?.id)
+        .then(setTechnicians)
+        .catch((error) => console.error('Error loading technicians:', error));
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, plan]);
+
+  const updatePart = (index: number, changes: Partial<PartRow>) =>
+    setParts(parts.map((part, i) => (i === index ? { ...part, ...changes } : part)));
+
+  const handleSave = async () => {
+    if (!form.title.trim()) {
+      toast({ title: 'Validation Error', description: 'Plan title is required', variant: 'destructive' });
+      return;
+    }
+    if (form.scope === 'asset' ? !form.asset_id : !form.category_id) {
+      toast({ title: 'Validation Error', description: `Select the ${form.scope} the plan covers`, variant: 'destructive' });
+      return;
+    }
+    if (parts.some((part) => !part.product_id || !(Number(part.quantity) > 0))) {
+      toast({
+        title: 'Validation Error',
+        description: 'Each part needs a product and a quantity above zero',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const payload: MaintenancePlanInput = {
+      title: form.title.trim(),
+      description: form.description || undefined,
+      asset_id: form.scope === 'asset' ? form.asset_id : null,
+      category_id: form.scope === 'category' ? form.category_id : null,
+      trigger_type: form.trigger_type,
+      interval_days: toNumber(form.interval_days),
+      usage_interval: toNumber(form.usage_interval),
+      calendar_frequency: form.calendar_frequency,
+      calendar_day: toNumber(form.calendar_day),
+      calendar_month: toNumber(form.calendar_month),
+      start_date: form.start_date || undefined,
+      lead_days: toNumber(form.lead_days),
+      priority: form.priority,
+      estimated_hours: toNumber(form.estimated_hours),
+      assigned_to: form.assigned_to === NONE ? null : form.assigned_to,
+      is_active: form.is_active,
+      parts: parts.map((part) => ({ product_id: part.product_id, quantity: Number(part.quantity) })),
+    };
+
+    try {
+      setSaving(true);
+      const saved = plan ? await updateMaintenancePlan(plan.id, payload) : await createMaintenancePlan(payload);
+      toast({ title: 'Success', description: `Maintenance plan ${plan ? 'updated' : 'created'}` });
+      onOpenChange(false);
+      onSaved(saved);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save maintenance plan',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{plan ? 'Edit Maintenance Plan' : 'New Maintenance Plan'}</DialogTitle>
+          <DialogDescription>
+            Work orders are raised ahead of each due date and assigned to the plan's technician
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          <div className="grid gap-2">
+            <Label>Title *</Label>
+            <Input
+              value={form.title}
+              onChange={(e) => setForm({ ...form, title: e.target.value })}
+              placeholder="e.g. Quarterly generator service"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label>Applies To</Label>
+              <Select
+                value={form.scope}
+                onValueChange={(value) => setForm({ ...form, scope: value as 'asset' | 'category' })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="asset">One asset</SelectItem>
+                  <SelectItem value="category">Every asset in a category</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {form.scope === 'asset' ? (
+              <div className="grid gap-2">
+                <Label>Asset *</Label>
+                <Select value={form.asset_id} onValueChange={(value) => setForm({ ...form, asset_id: value })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select asset" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {assets.map((asset) => (
+                      <SelectItem key={asset.id} value={asset.id}>
+                        {asset.asset_number} - {asset.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ) : (
+              <div className="grid gap-2">
+                <Label>Category *</Label>
+                <Select value={form.category_id} onValueChange={(value) => setForm({ ...form, category_id: value })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select category" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {categories.map((category) => (
+                      <SelectItem key={category.id} value={category.id}>
+                        {category.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label>Trigger</Label>
+              <Select
+                value={form.trigger_type}
+                onValueChange={(value) => setForm({ ...form, trigger_type: value as MaintenanceTriggerType })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="interval">Every N days</SelectItem>
+                  <SelectItem value="usage">Every N usage units</SelectItem>
+                  <SelectItem value="calendar">Calendar rule</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {form.trigger_type === 'interval' && (
+              <div className="grid gap-2">
+                <Label>Days Between Jobs *</Label>
+                <Input
+                  type="number"
+                  min="1"
+                  value={form.interval_days}
+                  onChange={(e) => setForm({ ...form, interval_days: e.target.value })}
+                />
+              </div>
+            )}
+            {form.trigger_type === 'usage' && (
+              <div className="grid gap-2">
+                <Label>Usage Units Between Jobs *</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  value={form.usage_interval}
+                  onChange={(e) => setForm({ ...form, usage_interval: e.target.value })}
+                />
+                <p className="text-xs text-muted-foreground">Measured against the asset's units used</p>
+              </div>
+            )}
+            {form.trigger_type === 'calendar' && (
+              <div className="grid gap-2">
+                <Label>Frequency</Label>
+                <Select
+                  value={form.calendar_frequency}
+                  onValueChange={(value) =>
+                    setForm({ ...form, calendar_frequency: value as MaintenanceCalendarFrequency })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="monthly">Monthly</SelectItem>
+                    <SelectItem value="quarterly">Quarterly</SelectItem>
+                    <SelectItem value="semi_annual">Every six months</SelectItem>
+                    <SelectItem value="yearly">Yearly</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+
+          {form.trigger_type === 'calendar' && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="grid gap-2">
+                <Label>Day of Month</Label>
+                <Input
+                  type="number"
+                  min="1"
+                  max="31"
+                  value={form.calendar_day}
+                  onChange={(e) => setForm({ ...form, calendar_day: e.target.value })}
+                />
+              </div>
+              {form.calendar_frequency !== 'monthly' && (
+                <div className="grid gap-2">
+                  <Label>First Month of Cycle</Label>
+                  <Select
+                    value={form.calendar_month || NONE}
+                    onValueChange={(value) => setForm({ ...form, calendar_month: value === NONE ? '' : value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NONE}>Month of start date</SelectItem>
+                      {MONTHS.map((month, index) => (
+                        <SelectItem key={month} value={String(index + 1)}>
+                          {month}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="grid gap-2">
+              <Label>Start Date</Label>
+              <Input
+                type="date"
+                value={form.start_date}
+                onChange={(e) => setForm({ ...form, start_date: e.target.value })}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label>Lead Time (days)</Label>
+              <Input
+                type="number"
+                min="0"
+                value={form.lead_days}
+                onChange={(e) => setForm({ ...form, lead_days: e.target.value })}
+                placeholder="Settings default"
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label>Priority</Label>
+              <Select
+                value={form.priority}
+                onValueChange={(value) => setForm({ ...form, priority: value as MaintenanceRecord['priority'] })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="low">Low</SelectItem>
+                  <SelectItem value="normal">Normal</SelectItem>
+                  <SelectItem value="high">High</SelectItem>
+                  <SelectItem value="urgent">Urgent</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label>Technician</Label>
+              <Select value={form.assigned_to} onValueChange={(value) => setForm({ ...form, assigned_to: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>Unassigned</SelectItem>
+                  {technicians.map((technician) => (
+                    <SelectItem key={technician.id} value={technician.id}>
+                      {technician.full_name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-2">
+              <Label>Estimated Hours</Label>
+              <Input
+                type="number"
+                min="0"
+                step="0.5"
+                value={form.estimated_hours}
+                onChange={(e) => setForm({ ...form, estimated_hours: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="grid gap-2">
+            <Label>Instructions</Label>
+            <Textarea
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+              rows={3}
+            />
+          </div>
+
+          <div className="grid gap-2">
+            <div className="flex items-center justify-between">
+              <Label>Planned Parts</Label>
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                onClick={() => setParts([...parts, { product_id: '', quantity: '1' }])}
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Add Part
+              </Button>
+            </div>
+            {parts.length === 0 && (
+              <p className="text-sm text-muted-foreground">No parts; the technician records what was used on completion.</p>
+            )}
+            {parts.map((part, index) => (
+              <div key={index} className="flex gap-2">
+                <Select value={part.product_id} onValueChange={(value) => updatePart(index, { product_id: value })}>
+                  <SelectTrigger className="flex-1">
+                    <SelectValue placeholder="Select product" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {products.map((product) => (
+                      <SelectItem key={product.id} value={product.id}>
+                        {product.sku} - {product.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  min="0"
+                  className="w-24"
+                  value={part.quantity}
+                  onChange={(e) => updatePart(index, { quantity: e.target.value })}
+                />
+                <Button
+                  type="button"
+                  size="icon"
+                  variant="ghost"
+                  onClick={() => setParts(parts.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label>Active</Label>
+              <p className="text-sm text-muted-foreground">Inactive plans raise no new work orders</p>
+            </div>
+            <Switch checked={form.is_active} onCheckedChange={(checked) => setForm({ ...form, is_active: checked })} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {plan ? 'Save Plan' : 'Create Plan'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,48 @@
+/**
+ * Unreturned Assets Alert
+ * Offboarding check listing the assets an employee still has checked out
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { AlertCircle } from 'lucide-react';
+import { getUnreturnedAssets, type AssetCustodyRecord } from '@/services/api/asset-service';
+
+interface UnreturnedAssetsAlertProps {
+  userId?: string | null;
+}
+
+export const UnreturnedAssetsAlert: React.FC<UnreturnedAssetsAlertProps> = ({ userId }) => {
+  const [records, setRecords] = useState<AssetCustodyRecord[]>([]);
+
+  useEffect(() => {
+    setRecords([]);
+    if (!userId) return;
+    getUnreturnedAssets(userId)
+      .then(setRecords)
+      .catch((error) => console.error('Error loading unreturned assets:', error));
+  }, [userId]);
+
+  if (records.length === 0) return null;
+
+  return (
+    <Alert variant="destructive">
+      <AlertCircle className="h-4 w-4" />
+      <AlertTitle>
+        {records.length} asset{records.length === 1 ? '' : 's'} not returned
+      </AlertTitle>
+      <AlertDescription>
+        <ul className="mt-1 list-disc pl-4 text-sm">
+          {records.map((record) => (
+            <li key={record.id}>
+              {record.asset_number} {record.asset_name}
+              {record.expected_return_date &&
+                ` (due ${new Date(record.expected_return_date).toLocaleDateString('en-IN')})`}
+            </li>
+          ))}
+        </ul>
+        <p className="mt-1 text-sm">Check these in from Asset Custody before the employee leaves.</p>
+      </AlertDescription>
+    </Alert>
+  );
+};
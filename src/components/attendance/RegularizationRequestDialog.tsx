@@ -0,0 +1,226 @@
+/**
+ * Regularization Request Dialog
+ * Lets an employee correct a day's attendance with a reason and supporting documents, for manager approval
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { db } from '@/lib/database';
+import { Loader2, Paperclip, X } from 'lucide-react';
+import {
+  ATTENDANCE_EVIDENCE_BUCKET,
+  REGULARIZATION_TYPE_LABELS,
+  createRegularization,
+  type RegularizationEvidence,
+  type RegularizationType,
+} from '@/services/api/attendance-regularization-service';
+
+interface RegularizationRequestDialogProps {
+  open: boolean;
+  employeeId: string;
+  defaultDate?: string;
+  onOpenChange: (open: boolean) => void;
+  onSubmitted: () => void;
+}
+
+const todayString = () => {
+  const now = new Date();
+  return new Date(now.getTime() - now.getTimezoneOffset() * 60000).toISOString().split('T')[0];
+};
+
+// A check-out earlier than the check-in is on the next day (night shift)
+const toTimestamp = (date: string, time: string, after?: string | null) => {
+  if (!time) return null;
+  const value = new Date(`${date}T${time}`);
+  if (after && value <= new Date(after)) {
+    value.setDate(value.getDate() + 1);
+  }
+  return value.toISOString();
+};
+
+export const RegularizationRequestDialog: React.FC<RegularizationRequestDialogProps> = ({
+  open,
+  employeeId,
+  defaultDate,
+  onOpenChange,
+  onSubmitted,
+}) => {
+  const { toast } = useToast();
+  const [requestType, setRequestType] = useState<RegularizationType>('missed_punch');
+  const [date, setDate] = useState(todayString());
+  const [checkIn, setCheckIn] = useState('');
+  const [checkOut, setCheckOut] = useState('');
+  const [reason, setReason] = useState('');
+  const [evidence, setEvidence] = useState<RegularizationEvidence[]>([]);
+  const [uploading, setUploading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setRequestType('missed_punch');
+    setDate(defaultDate || todayString());
+    setCheckIn('');
+    setCheckOut('');
+    setReason('');
+    setEvidence([]);
+  }, [open, defaultDate]);
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    try {
+      setUploading(true);
+      const uploaded: RegularizationEvidence[] = [];
+      for (const file of Array.from(files)) {
+        const filePath = `${employeeId}/${date}/${Date.now()}_${file.name.replace(/[^\w.-]+/g, '_')}`;
+        const { error } = await db.storage.from(ATTENDANCE_EVIDENCE_BUCKET).upload(filePath, file);
+        if (error) throw error;
+        uploaded.push({ file_name: file.name, file_path: filePath, file_type: file.type, file_size: file.size });
+      }
+      setEvidence((prev) => [...prev, ...uploaded]);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to upload document',
+        variant: 'destructive',
+      });
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const needsBothTimes = requestType !== 'missed_punch';
+  const canSubmit =
+    !!date && !!reason.trim() && (needsBothTimes ? !!checkIn && !!checkOut : !!checkIn || !!checkOut);
+
+  const handleSubmit = async () => {
+    try {
+      setSaving(true);
+      const requestedCheckIn = toTimestamp(date, checkIn);
+      await createRegularization({
+        attendance_date: date,
+        request_type: requestType,
+        requested_check_in: requestedCheckIn,
+        requested_check_out: toTimestamp(date, checkOut, requestedCheckIn),
+        reason: reason.trim(),
+        evidence,
+      });
+      toast({ title: 'Success', description: 'Regularization request sent for approval' });
+      onOpenChange(false);
+      onSubmitted();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to submit regularization request',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Request Regularization</DialogTitle>
+          <DialogDescription>
+            Your manager approves the correction before it is applied to your attendance
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label>Type</Label>
+              <Select value={requestType} onValueChange={(value) => setRequestType(value as RegularizationType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(REGULARIZATION_TYPE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-2">
+              <Label>Date</Label>
+              <Input type="date" value={date} max={todayString()} onChange={(e) => setDate(e.target.value)} />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label>Check-in{needsBothTimes && ' *'}</Label>
+              <Input type="time" value={checkIn} onChange={(e) => setCheckIn(e.target.value)} />
+            </div>
+            <div className="grid gap-2">
+              <Label>Check-out{needsBothTimes && ' *'}</Label>
+              <Input type="time" value={checkOut} onChange={(e) => setCheckOut(e.target.value)} />
+            </div>
+          </div>
+          {!needsBothTimes && (
+            <p className="text-xs text-muted-foreground">
+              Enter only the punch you missed; the one that was recorded is kept
+            </p>
+          )}
+          <div className="grid gap-2">
+            <Label>Reason *</Label>
+            <Textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={3}
+              placeholder="e.g. Forgot to clock out after the client meeting"
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label>Supporting Documents</Label>
+            <div className="flex flex-wrap items-center gap-2">
+              {evidence.map((file) => (
+                <span key={file.file_path} className="inline-flex items-center gap-1 rounded-md border px-2 py-1 text-sm">
+                  <Paperclip className="h-3 w-3" />
+                  {file.file_name}
+                  <button
+                    type="button"
+                    className="text-muted-foreground hover:text-foreground"
+                    onClick={() => setEvidence((prev) => prev.filter((item) => item.file_path !== file.file_path))}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </span>
+              ))}
+              <Input
+                type="file"
+                multiple
+                className="max-w-xs"
+                disabled={uploading}
+                onChange={(e) => {
+                  handleFiles(e.target.files);
+                  e.target.value = '';
+                }}
+              />
+              {uploading && <Loader2 className="h-4 w-4 animate-spin" />}
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={saving || uploading || !canSubmit}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Submit for Approval
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
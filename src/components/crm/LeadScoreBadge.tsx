@@ -0,0 +1,53 @@
+/**
+ * LeadScoreBadge Component
+ * Shows a lead's score with its rule-by-rule breakdown in a tooltip
+ */
+
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { Flame } from 'lucide-react';
+import { LeadScoreBreakdownItem } from '@/services/api/crm-service';
+import { getLeadScoreTier, leadScoreTierStyles } from './leadScoreTier';
+
+interface LeadScoreBadgeProps {
+  score: number | null | undefined;
+  breakdown?: LeadScoreBreakdownItem[] | null;
+}
+
+export const LeadScoreBadge: React.FC<LeadScoreBadgeProps> = ({ score, breakdown }) => {
+  if (score === null || score === undefined) return null;
+
+  const tier = getLeadScoreTier(score);
+
+  return (
+    <TooltipProvider>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <Badge variant="outline" className={`${leadScoreTierStyles[tier]} text-xs flex items-center gap-1`}>
+            <Flame className="h-3 w-3" />
+            {score}
+          </Badge>
+        </TooltipTrigger>
+        <TooltipContent className="w-64">
+          <p className="font-semibold mb-1">Lead score {score}/100</p>
+          {breakdown && breakdown.length > 0 ? (
+            <ul className="space-y-1">
+              {breakdown.map((item) => (
+                <li key={item.rule_id || item.factor} className="text-xs">
+                  <div className="flex justify-between gap-2">
+                    <span>{item.rule_name}</span>
+                    <span className="font-medium">{item.points}/{item.max_points}</span>
+                  </div>
+                  <p className="text-muted-foreground">{item.detail}</p>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-xs text-muted-foreground">No breakdown available</p>
+          )}
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  );
+};
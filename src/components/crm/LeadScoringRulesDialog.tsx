@@ -0,0 +1,421 @@
+/**
+ * LeadScoringRulesDialog Component
+ * Lets an agency configure the weighted rules used to score leads
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Edit, Loader2, Plus, RefreshCw, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { crmService, LeadScoringFactor, LeadScoringRule, LeadScoringRuleConfig } from '@/services/api/crm-service';
+
+const factorLabels: Record<LeadScoringFactor, string> = {
+  source: 'Lead source',
+  estimated_value: 'Estimated value',
+  activity_recency: 'Activity recency',
+  activity_frequency: 'Activity frequency',
+  stage_age: 'Time in stage',
+  email_engagement: 'Email engagement',
+};
+
+// Numeric settings per factor; source and estimated_value use mapping text instead
+const factorFields: Partial<Record<LeadScoringFactor, { key: string; label: string; defaultValue: number }[]>> = {
+  activity_recency: [
+    { key: 'full_score_days', label: 'Full score if last activity within (days)', defaultValue: 7 },
+    { key: 'zero_score_days', label: 'No score after (days)', defaultValue: 60 },
+  ],
+  activity_frequency: [
+    { key: 'window_days', label: 'Count activities in the last (days)', defaultValue: 30 },
+    { key: 'target_count', label: 'Activities for full score', defaultValue: 5 },
+  ],
+  stage_age: [
+    { key: 'fresh_days', label: 'Full score while in stage up to (days)', defaultValue: 14 },
+    { key: 'stale_days', label: 'No score after (days)', defaultValue: 60 },
+  ],
+  email_engagement: [
+    { key: 'window_days', label: 'Count emails sent in the last (days)', defaultValue: 90 },
+    { key: 'open_points', label: 'Points per open', defaultValue: 1 },
+    { key: 'click_points', label: 'Points per click', defaultValue: 3 },
+    { key: 'target_points', label: 'Points for full score', defaultValue: 10 },
+  ],
+};
+
+interface RuleForm {
+  id?: string;
+  rule_name: string;
+  factor: LeadScoringFactor;
+  weight: string;
+  is_active: boolean;
+  mapping: string;
+  default_score: string;
+  numbers: Record<string, string>;
+}
+
+const toForm = (rule?: LeadScoringRule): RuleForm => {
+  const factor = rule?.factor || 'source';
+  const config = rule?.config || {};
+  let mapping = '';
+  if (factor === 'source') {
+    mapping = Object.entries(config.scores || {}).map(([name, score]) => `${name}: ${score}`).join('\n');
+  } else if (factor === 'estimated_value') {
+    mapping = (config.bands || []).map((band) => `${band.min}: ${band.score}`).join('\n');
+  }
+  const numbers: Record<string, string> = {};
+  (factorFields[factor] || []).forEach((field) => {
+    numbers[field.key] = String(config[field.key] ?? field.defaultValue);
+  });
+  return {
+    id: rule?.id,
+    rule_name: rule?.rule_name || '',
+    factor,
+    weight: String(rule?.weight ?? 10),
+    is_active: rule?.is_active ?? true,
+    mapping,
+    default_score: String(config.default_score ?? 0),
+    numbers,
+  };
+};
+
+// Parses "key: score" lines, clamping scores to 0-100
+const parseMapping = (text: string): [string, number][] =>
+  text
+    .split('\n')
+    .map((line) => line.split(':'))
+    .filter((parts) => parts.length >= 2 && parts[0].trim())
+    .map((parts) => [parts[0].trim(), Math.max(0, Math.min(100, Number(parts.slice(1).join(':').trim()) || 0))]);
+
+const toConfig = (form: RuleForm): LeadScoringRuleConfig => {
+  if (form.factor === 'source') {
+    return {
+      scores: Object.fromEntries(parseMapping(form.mapping)),
+      default_score: Math.max(0, Math.min(100, Number(form.default_score) || 0)),
+    };
+  }
+  if (form.factor === 'estimated_value') {
+    return {
+      bands: parseMapping(form.mapping)
+        .map(([min, score]) => ({ min: Number(min) || 0, score }))
+        .sort((a, b) => a.min - b.min),
+    };
+  }
+  const config: Record<string, number> = {};
+  (factorFields[form.factor] || []).forEach((field) => {
+    config[field.key] = Number(form.numbers[field.key] ?? field.defaultValue) || 0;
+  });
+  return config;
+};
+
+interface LeadScoringRulesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRulesChanged?: () => void;
+}
+
+export const LeadScoringRulesDialog: React.FC<LeadScoringRulesDialogProps> = ({ open, onOpenChange, onRulesChanged }) => {
+  const { toast } = useToast();
+  const [rules, setRules] = useState<LeadScoringRule[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [form, setForm] = useState<RuleForm | null>(null);
+
+  const loadRules = useCallback(async () => {
+    try {
+      setLoading(true);
+      setRules(await crmService.getScoringRules());
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to load scoring rules',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    if (open) {
+      setForm(null);
+      loadRules();
+    }
+  }, [open, loadRules]);
+
+  const totalWeight = rules.filter((rule) => rule.is_active).reduce((sum, rule) => sum + Number(rule.weight), 0);
+
+  const handleFactorChange = (factor: LeadScoringFactor) => {
+    if (!form) return;
+    const reset = toForm({ factor, config: {} } as LeadScoringRule);
+    setForm({ ...form, factor, mapping: reset.mapping, default_score: reset.default_score, numbers: reset.numbers });
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+    if (!form.rule_name.trim()) {
+      toast({ title: 'Error', description: 'Rule name is required', variant: 'destructive' });
+      return;
+    }
+    try {
+      setSaving(true);
+      await crmService.saveScoringRule({
+        id: form.id,
+        rule_name: form.rule_name.trim(),
+        factor: form.factor,
+        weight: Math.max(0, parseInt(form.weight, 10) || 0),
+        is_active: form.is_active,
+        config: toConfig(form),
+      });
+      toast({ title: 'Success', description: 'Scoring rule saved' });
+      setForm(null);
+      await loadRules();
+      onRulesChanged?.();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save scoring rule',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = async (rule: LeadScoringRule, isActive: boolean) => {
+    try {
+      await crmService.saveScoringRule({ id: rule.id, is_active: isActive });
+      setRules((prev) => prev.map((r) => (r.id === rule.id ? { ...r, is_active: isActive } : r)));
+      onRulesChanged?.();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update scoring rule',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDelete = async (rule: LeadScoringRule) => {
+    if (!confirm(`Delete scoring rule "${rule.rule_name}"?`)) return;
+    try {
+      await crmService.deleteScoringRule(rule.id);
+      await loadRules();
+      onRulesChanged?.();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to delete scoring rule',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleRecalculate = async () => {
+    try {
+      setSaving(true);
+      await crmService.recalculateLeadScores();
+      toast({ title: 'Success', description: 'Lead scores recalculated' });
+      onRulesChanged?.();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to recalculate lead scores',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{form ? (form.id ? 'Edit Scoring Rule' : 'New Scoring Rule') : 'Lead Scoring Rules'}</DialogTitle>
+          <DialogDescription>
+            Each rule awards up to its weight in points. Scores are normalised to 0-100 and refresh automatically when
+            leads, activities or rules change.
+          </DialogDescription>
+        </DialogHeader>
+
+        {form ? (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="rule_name">Rule Name</Label>
+                <Input
+                  id="rule_name"
+                  value={form.rule_name}
+                  onChange={(e) => setForm({ ...form, rule_name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Factor</Label>
+                <Select value={form.factor} onValueChange={(value) => handleFactorChange(value as LeadScoringFactor)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(factorLabels) as LeadScoringFactor[]).map((factor) => (
+                      <SelectItem key={factor} value={factor}>{factorLabels[factor]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="weight">Weight (max points)</Label>
+                <Input
+                  id="weight"
+                  type="number"
+                  min="0"
+                  value={form.weight}
+                  onChange={(e) => setForm({ ...form, weight: e.target.value })}
+                />
+              </div>
+              <div className="flex items-center gap-2 pt-8">
+                <Switch
+                  id="is_active"
+                  checked={form.is_active}
+                  onCheckedChange={(checked) => setForm({ ...form, is_active: checked })}
+                />
+                <Label htmlFor="is_active">Active</Label>
+              </div>
+            </div>
+
+            {form.factor === 'source' && (
+              <div className="grid grid-cols-3 gap-4">
+                <div className="col-span-2 space-y-2">
+                  <Label htmlFor="mapping">Score per source (% of weight, one "Source: score" per line)</Label>
+                  <Textarea
+                    id="mapping"
+                    rows={6}
+                    value={form.mapping}
+                    onChange={(e) => setForm({ ...form, mapping: e.target.value })}
+                    placeholder={'Referral: 100\nWebsite: 70'}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="default_score">Other sources (%)</Label>
+                  <Input
+                    id="default_score"
+                    type="number"
+                    min="0"
+                    max="100"
+                    value={form.default_score}
+                    onChange={(e) => setForm({ ...form, default_score: e.target.value })}
+                  />
+                </div>
+              </div>
+            )}
+
+            {form.factor === 'estimated_value' && (
+              <div className="space-y-2">
+                <Label htmlFor="mapping">Value bands (one "minimum value: score %" per line)</Label>
+                <Textarea
+                  id="mapping"
+                  rows={5}
+                  value={form.mapping}
+                  onChange={(e) => setForm({ ...form, mapping: e.target.value })}
+                  placeholder={'0: 10\n100000: 70\n500000: 100'}
+                />
+              </div>
+            )}
+
+            {factorFields[form.factor] && (
+              <div className="grid grid-cols-2 gap-4">
+                {factorFields[form.factor]!.map((field) => (
+                  <div key={field.key} className="space-y-2">
+                    <Label htmlFor={field.key}>{field.label}</Label>
+                    <Input
+                      id={field.key}
+                      type="number"
+                      min="0"
+                      value={form.numbers[field.key] ?? ''}
+                      onChange={(e) => setForm({ ...form, numbers: { ...form.numbers, [field.key]: e.target.value } })}
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setForm(null)} disabled={saving}>Back</Button>
+              <Button onClick={handleSave} disabled={saving}>
+                {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Save Rule
+              </Button>
+            </DialogFooter>
+          </div>
+        ) : loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Rule</TableHead>
+                  <TableHead>Factor</TableHead>
+                  <TableHead className="text-right">Weight</TableHead>
+                  <TableHead className="text-right">Share</TableHead>
+                  <TableHead>Active</TableHead>
+                  <TableHead className="w-20" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rules.map((rule) => (
+                  <TableRow key={rule.id}>
+                    <TableCell className="font-medium">{rule.rule_name}</TableCell>
+                    <TableCell><Badge variant="outline">{factorLabels[rule.factor] || rule.factor}</Badge></TableCell>
+                    <TableCell className="text-right">{rule.weight}</TableCell>
+                    <TableCell className="text-right text-muted-foreground">
+                      {rule.is_active && totalWeight > 0 ? `${Math.round((Number(rule.weight) / totalWeight) * 100)}%` : '—'}
+                    </TableCell>
+                    <TableCell>
+                      <Switch checked={rule.is_active} onCheckedChange={(checked) => handleToggle(rule, checked)} />
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-1">
+                        <Button variant="ghost" size="sm" onClick={() => setForm(toForm(rule))}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => handleDelete(rule)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {rules.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-muted-foreground">
+                      No scoring rules configured
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+
+            <DialogFooter>
+              <Button variant="outline" onClick={handleRecalculate} disabled={saving}>
+                <RefreshCw className={`h-4 w-4 mr-2 ${saving ? 'animate-spin' : ''}`} />
+                Recalculate All
+              </Button>
+              <Button onClick={() => setForm(toForm())}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Rule
+              </Button>
+            </DialogFooter>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,260 @@
+/**
+ * OpportunitiesPanel Component
+ * Opportunity list with stage/owner filters, weighted values and the forecast
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Edit, Loader2, Plus, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { crmService, Opportunity, OpportunityStage } from '@/services/api/crm-service';
+import { selectRecords } from '@/services/api/postgresql-service';
+import { getEmployeesForAssignmentAuto } from '@/services/api/employee-selector-service';
+import { getAgencyId } from '@/utils/agencyUtils';
+import { OpportunityFormDialog, OpportunityOption } from './OpportunityFormDialog';
+import { OpportunityForecast } from './OpportunityForecast';
+import { opportunityStageLabels } from './opportunityStages';
+
+const stageStyles: Record<OpportunityStage, string> = {
+  prospecting: 'bg-gray-100 text-gray-800',
+  qualification: 'bg-blue-100 text-blue-800',
+  proposal: 'bg-purple-100 text-purple-800',
+  negotiation: 'bg-amber-100 text-amber-800',
+  closed_won: 'bg-green-100 text-green-800',
+  closed_lost: 'bg-red-100 text-red-800',
+};
+
+const ALL = 'all';
+
+export const OpportunitiesPanel: React.FC = () => {
+  const { toast } = useToast();
+  const { user, profile } = useAuth();
+  const [opportunities, setOpportunities] = useState<Opportunity[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [stageFilter, setStageFilter] = useState<string>(ALL);
+  const [ownerFilter, setOwnerFilter] = useState<string>(ALL);
+  const [clients, setClients] = useState<OpportunityOption[]>([]);
+  const [leads, setLeads] = useState<OpportunityOption[]>([]);
+  const [owners, setOwners] = useState<OpportunityOption[]>([]);
+  const [formOpen, setFormOpen] = useState(false);
+  const [selected, setSelected] = useState<Opportunity | null>(null);
+  const [forecastKey, setForecastKey] = useState(0);
+
+  const fetchOpportunities = useCallback(async () => {
+    try {
+      setLoading(true);
+      setOpportunities(
+        await crmService.getOpportunities({
+          stage: stageFilter === ALL ? undefined : stageFilter,
+          owner_id: ownerFilter === ALL ? undefined : ownerFilter,
+        })
+      );
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to fetch opportunities',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [stageFilter, ownerFilter, toast]);
+
+  useEffect(() => {
+    fetchOpportunities();
+  }, [fetchOpportunities]);
+
+  useEffect(() => {
+    const loadOptions = async () => {
+      try {
+        const agencyId = await getAgencyId(profile, user?.id || null);
+        if (!agencyId) return;
+        const [clientRows, leadRows, employees] = await Promise.all([
+          selectRecords<{ id: string; name: string }>('clients', {
+            select: 'id, name',
+            where: { agency_id: agencyId },
+            orderBy: 'name ASC',
+          }),
+          selectRecords<{ id: string; company_name: string }>('leads', {
+            select: 'id, company_name',
+            where: { agency_id: agencyId },
+            orderBy: 'company_name ASC',
+          }),
+          getEmployeesForAssignmentAuto(profile, user?.id),
+        ]);
+        setClients(clientRows.map((c) => ({ id: c.id, name: c.name })));
+        setLeads(leadRows.map((l) => ({ id: l.id, name: l.company_name })));
+        setOwners(employees.map((e) => ({ id: e.user_id, name: e.full_name })));
+      } catch (error) {
+        console.error('Error loading opportunity options:', error);
+      }
+    };
+    loadOptions();
+  }, [profile, user?.id]);
+
+  const handleSaved = () => {
+    fetchOpportunities();
+    setForecastKey((key) => key + 1);
+  };
+
+  const handleDelete = async (opportunity: Opportunity) => {
+    if (!confirm(`Delete opportunity "${opportunity.opportunity_name}"?`)) return;
+    try {
+      await crmService.deleteOpportunity(opportunity.id);
+      toast({ title: 'Success', description: 'Opportunity deleted' });
+      handleSaved();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to delete opportunity',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const formatCurrency = (amount: number | string | null, currency = 'INR') =>
+    new Intl.NumberFormat('en-IN', { style: 'currency', currency: currency || 'INR', maximumFractionDigits: 0 }).format(
+      Number(amount || 0)
+    );
+
+  const openOpportunities = opportunities.filter((o) => o.stage !== 'closed_won' && o.stage !== 'closed_lost');
+  const pipelineValue = openOpportunities.reduce((sum, o) => sum + Number(o.expected_value || 0), 0);
+  const weightedValue = openOpportunities.reduce((sum, o) => sum + Number(o.weighted_value || 0), 0);
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0 gap-4">
+          <div>
+            <CardTitle>Opportunities</CardTitle>
+            <p className="text-sm text-muted-foreground mt-1">
+              {openOpportunities.length} open · {formatCurrency(pipelineValue)} pipeline · {formatCurrency(weightedValue)} weighted
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select value={stageFilter} onValueChange={setStageFilter}>
+              <SelectTrigger className="w-40"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All stages</SelectItem>
+                {(Object.keys(opportunityStageLabels) as OpportunityStage[]).map((stage) => (
+                  <SelectItem key={stage} value={stage}>{opportunityStageLabels[stage]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={ownerFilter} onValueChange={setOwnerFilter}>
+              <SelectTrigger className="w-44"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All owners</SelectItem>
+                {owners.map((owner) => (
+                  <SelectItem key={owner.id} value={owner.id}>{owner.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              onClick={() => {
+                setSelected(null);
+                setFormOpen(true);
+              }}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              New Opportunity
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Opportunity</TableHead>
+                  <TableHead>Client / Lead</TableHead>
+                  <TableHead>Stage</TableHead>
+                  <TableHead className="text-right">Value</TableHead>
+                  <TableHead className="text-right">Probability</TableHead>
+                  <TableHead className="text-right">Weighted</TableHead>
+                  <TableHead>Close Date</TableHead>
+                  <TableHead>Owner</TableHead>
+                  <TableHead className="w-20" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {opportunities.map((opportunity) => (
+                  <TableRow key={opportunity.id}>
+                    <TableCell>
+                      <p className="font-medium">{opportunity.opportunity_name}</p>
+                      {Number(opportunity.line_item_count || 0) > 0 && (
+                        <p className="text-xs text-muted-foreground">{opportunity.line_item_count} item(s)</p>
+                      )}
+                    </TableCell>
+                    <TableCell>{opportunity.client_name || opportunity.lead_name || '—'}</TableCell>
+                    <TableCell>
+                      <Badge className={stageStyles[opportunity.stage]}>{opportunityStageLabels[opportunity.stage] || opportunity.stage}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right">{formatCurrency(opportunity.expected_value, opportunity.currency)}</TableCell>
+                    <TableCell className="text-right">{opportunity.probability}%</TableCell>
+                    <TableCell className="text-right font-medium">
+                      {formatCurrency(opportunity.weighted_value, opportunity.currency)}
+                    </TableCell>
+                    <TableCell>
+                      {opportunity.actual_close_date
+                        ? new Date(opportunity.actual_close_date).toLocaleDateString()
+                        : opportunity.expected_close_date
+                          ? new Date(opportunity.expected_close_date).toLocaleDateString()
+                          : '—'}
+                    </TableCell>
+                    <TableCell>{opportunity.owner_name || opportunity.owner_email || '—'}</TableCell>
+                    <TableCell>
+                      <div className="flex gap-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => {
+                            setSelected(opportunity);
+                            setFormOpen(true);
+                          }}
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => handleDelete(opportunity)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {opportunities.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={9} className="text-center text-muted-foreground">
+                      No opportunities found
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <OpportunityForecast refreshKey={forecastKey} />
+
+      <OpportunityFormDialog
+        open={formOpen}
+        onOpenChange={setFormOpen}
+        opportunity={selected}
+        clients={clients}
+        leads={leads}
+        owners={owners}
+        onSaved={handleSaved}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,172 @@
+/**
+ * OpportunityForecast Component
+ * Weighted pipeline forecast by expected close month and by owner
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Loader2 } from 'lucide-react';
+import { crmService, OpportunityForecast as Forecast } from '@/services/api/crm-service';
+
+interface OpportunityForecastProps {
+  refreshKey?: number;
+}
+
+const monthLabel = (month: string) => {
+  const [year, m] = month.split('-').map(Number);
+  return new Date(year, m - 1, 1).toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+};
+
+const currentMonth = () => new Date().toISOString().slice(0, 7);
+
+const addMonths = (month: string, count: number) => {
+  const [year, m] = month.split('-').map(Number);
+  const date = new Date(year, m - 1 + count, 1);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+};
+
+export const OpportunityForecast: React.FC<OpportunityForecastProps> = ({ refreshKey }) => {
+  const [forecast, setForecast] = useState<Forecast | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [fromMonth, setFromMonth] = useState(currentMonth());
+  const [toMonth, setToMonth] = useState(addMonths(currentMonth(), 5));
+
+  useEffect(() => {
+    const loadForecast = async () => {
+      try {
+        setLoading(true);
+        setForecast(await crmService.getOpportunityForecast({ from: `${fromMonth}-01`, to: `${toMonth}-01` }));
+      } catch (error) {
+        console.error('Error loading forecast:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+    if (fromMonth && toMonth && toMonth >= fromMonth) {
+      loadForecast();
+    }
+  }, [fromMonth, toMonth, refreshKey]);
+
+  const formatCurrency = (amount: number) =>
+    new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR', maximumFractionDigits: 0 }).format(amount);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-end justify-between space-y-0 gap-4">
+        <div>
+          <CardTitle>Forecast</CardTitle>
+          <CardDescription>
+            Open opportunities by expected close month, weighted by probability. Won deals count in the month they closed.
+          </CardDescription>
+        </div>
+        <div className="flex items-end gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="forecast_from" className="text-xs">From</Label>
+            <Input id="forecast_from" type="month" value={fromMonth} onChange={(e) => setFromMonth(e.target.value)} className="w-40" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="forecast_to" className="text-xs">To</Label>
+            <Input id="forecast_to" type="month" value={toMonth} onChange={(e) => setToMonth(e.target.value)} className="w-40" />
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading && !forecast ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : forecast ? (
+          <>
+            <div className="grid gap-4 grid-cols-2 md:grid-cols-4">
+              <div>
+                <p className="text-sm text-muted-foreground">Pipeline</p>
+                <p className="text-xl font-semibold">{formatCurrency(forecast.totals.pipeline_value)}</p>
+                <p className="text-xs text-muted-foreground">{forecast.totals.count} open</p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Weighted</p>
+                <p className="text-xl font-semibold">{formatCurrency(forecast.totals.weighted_value)}</p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Won</p>
+                <p className="text-xl font-semibold text-green-700">{formatCurrency(forecast.totals.won_value)}</p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">No close date</p>
+                <p className="text-xl font-semibold">{formatCurrency(forecast.unscheduled.pipeline_value)}</p>
+                <p className="text-xs text-muted-foreground">{forecast.unscheduled.count} open</p>
+              </div>
+            </div>
+
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Month</TableHead>
+                    <TableHead className="text-right">Open</TableHead>
+                    <TableHead className="text-right">Pipeline</TableHead>
+                    <TableHead className="text-right">Weighted</TableHead>
+                    <TableHead className="text-right">Won</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {forecast.by_month.map((row) => (
+                    <TableRow key={row.month}>
+                      <TableCell className="font-medium">{monthLabel(row.month)}</TableCell>
+                      <TableCell className="text-right">{row.count}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(row.pipeline_value)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(row.weighted_value)}</TableCell>
+                      <TableCell className="text-right text-green-700">{formatCurrency(row.won_value)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="overflow-x-auto">
+              <p className="text-sm font-medium mb-2">Weighted forecast by owner</p>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Owner</TableHead>
+                    {forecast.months.map((month) => (
+                      <TableHead key={month} className="text-right whitespace-nowrap">{monthLabel(month)}</TableHead>
+                    ))}
+                    <TableHead className="text-right">Weighted</TableHead>
+                    <TableHead className="text-right">Won</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {forecast.by_owner.map((owner) => (
+                    <TableRow key={owner.owner_id || 'unassigned'}>
+                      <TableCell className="font-medium whitespace-nowrap">{owner.owner_name}</TableCell>
+                      {forecast.months.map((month) => (
+                        <TableCell key={month} className="text-right">
+                          {owner.months[month]?.weighted_value ? formatCurrency(owner.months[month].weighted_value) : '—'}
+                        </TableCell>
+                      ))}
+                      <TableCell className="text-right font-semibold">{formatCurrency(owner.totals.weighted_value)}</TableCell>
+                      <TableCell className="text-right text-green-700">{formatCurrency(owner.totals.won_value)}</TableCell>
+                    </TableRow>
+                  ))}
+                  {forecast.by_owner.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={forecast.months.length + 3} className="text-center text-muted-foreground">
+                        No opportunities in this period
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </>
+        ) : (
+          <p className="text-sm text-muted-foreground">Forecast not available</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
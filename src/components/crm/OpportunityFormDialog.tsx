@@ -0,0 +1,396 @@
+/**
+ * OpportunityFormDialog Component
+ * Create/edit an opportunity with its product and service line items
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { crmService, Opportunity, OpportunityLineItem, OpportunityStage } from '@/services/api/crm-service';
+import { opportunityStageLabels, stageProbabilities } from './opportunityStages';
+
+export interface OpportunityOption {
+  id: string;
+  name: string;
+}
+
+interface OpportunityFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  opportunity?: Opportunity | null;
+  clients: OpportunityOption[];
+  leads: OpportunityOption[];
+  owners: OpportunityOption[];
+  onSaved: () => void;
+}
+
+interface OpportunityForm {
+  opportunity_name: string;
+  description: string;
+  client_id: string;
+  lead_id: string;
+  stage: OpportunityStage;
+  probability: string;
+  expected_value: string;
+  expected_close_date: string;
+  currency: string;
+  owner_id: string;
+  source: string;
+}
+
+const NONE = 'none';
+
+const emptyLineItem = (): OpportunityLineItem => ({
+  item_type: 'service',
+  description: '',
+  quantity: 1,
+  unit_price: 0,
+});
+
+export const OpportunityFormDialog: React.FC<OpportunityFormDialogProps> = ({
+  open,
+  onOpenChange,
+  opportunity,
+  clients,
+  leads,
+  owners,
+  onSaved,
+}) => {
+  const { toast } = useToast();
+  const [saving, setSaving] = useState(false);
+  const [lineItems, setLineItems] = useState<OpportunityLineItem[]>([]);
+  const [form, setForm] = useState<OpportunityForm>({
+    opportunity_name: '',
+    description: '',
+    client_id: NONE,
+    lead_id: NONE,
+    stage: 'prospecting',
+    probability: '10',
+    expected_value: '',
+    expected_close_date: '',
+    currency: 'INR',
+    owner_id: NONE,
+    source: '',
+  });
+
+  useEffect(() => {
+    if (!open) return;
+
+    setForm({
+      opportunity_name: opportunity?.opportunity_name || '',
+      description: opportunity?.description || '',
+      client_id: opportunity?.client_id || NONE,
+      lead_id: opportunity?.lead_id || NONE,
+      stage: opportunity?.stage || 'prospecting',
+      probability: String(opportunity?.probability ?? 10),
+      expected_value: opportunity?.expected_value != null ? String(opportunity.expected_value) : '',
+      expected_close_date: opportunity?.expected_close_date || '',
+      currency: opportunity?.currency || 'INR',
+      owner_id: opportunity?.owner_id || NONE,
+      source: opportunity?.source || '',
+    });
+    setLineItems([]);
+
+    if (opportunity?.id) {
+      crmService
+        .getOpportunity(opportunity.id)
+        .then((detail) =>
+          setLineItems(
+            (detail.line_items || []).map((item) => ({
+              ...item,
+              quantity: Number(item.quantity),
+              unit_price: Number(item.unit_price),
+            }))
+          )
+        )
+        .catch((error) => console.error('Error loading opportunity line items:', error));
+    }
+  }, [open, opportunity]);
+
+  const lineTotal = lineItems.reduce((sum, item) => sum + Number(item.quantity || 0) * Number(item.unit_price || 0), 0);
+  const expectedValue = form.expected_value !== '' ? Number(form.expected_value) : lineTotal;
+  const weightedValue = (expectedValue * Number(form.probability || 0)) / 100;
+
+  const formatCurrency = (amount: number) =>
+    new Intl.NumberFormat('en-IN', { style: 'currency', currency: form.currency || 'INR', maximumFractionDigits: 0 }).format(amount);
+
+  const updateLineItem = (index: number, changes: Partial<OpportunityLineItem>) => {
+    setLineItems((prev) => prev.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  const handleStageChange = (stage: OpportunityStage) => {
+    setForm({ ...form, stage, probability: String(stageProbabilities[stage]) });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.opportunity_name.trim()) {
+      toast({ title: 'Error', description: 'Opportunity name is required', variant: 'destructive' });
+      return;
+    }
+    const probability = Number(form.probability);
+    if (!Number.isFinite(probability) || probability < 0 || probability > 100) {
+      toast({ title: 'Error', description: 'Probability must be between 0 and 100', variant: 'destructive' });
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await crmService.saveOpportunity({
+        id: opportunity?.id,
+        opportunity_name: form.opportunity_name.trim(),
+        description: form.description || null,
+        client_id: form.client_id === NONE ? null : form.client_id,
+        lead_id: form.lead_id === NONE ? null : form.lead_id,
+        stage: form.stage,
+        probability,
+        // Blank value means "use the line item total"
+        expected_value: form.expected_value !== '' ? Number(form.expected_value) : (lineItems.length > 0 ? lineTotal : null),
+        expected_close_date: form.expected_close_date || null,
+        currency: form.currency || 'INR',
+        // New opportunities without an owner default to the current user server-side
+        owner_id: form.owner_id === NONE ? (opportunity?.id ? null : undefined) : form.owner_id,
+        source: form.source || null,
+        line_items: lineItems.filter((item) => item.description.trim()),
+      });
+      toast({ title: 'Success', description: opportunity?.id ? 'Opportunity updated' : 'Opportunity created' });
+      onSaved();
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save opportunity',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{opportunity?.id ? 'Edit Opportunity' : 'New Opportunity'}</DialogTitle>
+          <DialogDescription>Weighted value is the expected value multiplied by the win probability.</DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="col-span-2 space-y-2">
+              <Label htmlFor="opportunity_name">Opportunity Name *</Label>
+              <Input
+                id="opportunity_name"
+                value={form.opportunity_name}
+                onChange={(e) => setForm({ ...form, opportunity_name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Client</Label>
+              <Select value={form.client_id} onValueChange={(value) => setForm({ ...form, client_id: value })}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>No client</SelectItem>
+                  {clients.map((c) => (
+                    <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Lead</Label>
+              <Select value={form.lead_id} onValueChange={(value) => setForm({ ...form, lead_id: value })}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>No lead</SelectItem>
+                  {leads.map((l) => (
+                    <SelectItem key={l.id} value={l.id}>{l.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Stage</Label>
+              <Select value={form.stage} onValueChange={(value) => handleStageChange(value as OpportunityStage)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(opportunityStageLabels) as OpportunityStage[]).map((stage) => (
+                    <SelectItem key={stage} value={stage}>{opportunityStageLabels[stage]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="probability">Probability (%)</Label>
+              <Input
+                id="probability"
+                type="number"
+                min="0"
+                max="100"
+                value={form.probability}
+                onChange={(e) => setForm({ ...form, probability: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="expected_close_date">Expected Close Date</Label>
+              <Input
+                id="expected_close_date"
+                type="date"
+                value={form.expected_close_date}
+                onChange={(e) => setForm({ ...form, expected_close_date: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Owner</Label>
+              <Select value={form.owner_id} onValueChange={(value) => setForm({ ...form, owner_id: value })}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>{opportunity?.id ? 'Unassigned' : 'Me'}</SelectItem>
+                  {owners.map((o) => (
+                    <SelectItem key={o.id} value={o.id}>{o.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="currency">Currency</Label>
+              <Input
+                id="currency"
+                value={form.currency}
+                onChange={(e) => setForm({ ...form, currency: e.target.value.toUpperCase() })}
+                maxLength={10}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="source">Source</Label>
+              <Input id="source" value={form.source} onChange={(e) => setForm({ ...form, source: e.target.value })} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Products & Services</Label>
+              <Button type="button" variant="outline" size="sm" onClick={() => setLineItems([...lineItems, emptyLineItem()])}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add Item
+              </Button>
+            </div>
+            {lineItems.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-32">Type</TableHead>
+                    <TableHead>Description</TableHead>
+                    <TableHead className="w-24">Qty</TableHead>
+                    <TableHead className="w-32">Unit Price</TableHead>
+                    <TableHead className="w-32 text-right">Amount</TableHead>
+                    <TableHead className="w-10" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {lineItems.map((item, index) => (
+                    <TableRow key={index}>
+                      <TableCell>
+                        <Select
+                          value={item.item_type}
+                          onValueChange={(value) => updateLineItem(index, { item_type: value as OpportunityLineItem['item_type'] })}
+                        >
+                          <SelectTrigger><SelectValue /></SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="service">Service</SelectItem>
+                            <SelectItem value="product">Product</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell>
+                        <Input value={item.description} onChange={(e) => updateLineItem(index, { description: e.target.value })} />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min="0"
+                          value={item.quantity}
+                          onChange={(e) => updateLineItem(index, { quantity: Number(e.target.value) })}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min="0"
+                          value={item.unit_price}
+                          onChange={(e) => updateLineItem(index, { unit_price: Number(e.target.value) })}
+                        />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatCurrency(Number(item.quantity || 0) * Number(item.unit_price || 0))}
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setLineItems(lineItems.filter((_, i) => i !== index))}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+
+          <div className="grid grid-cols-3 gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="expected_value">Expected Value</Label>
+              <Input
+                id="expected_value"
+                type="number"
+                min="0"
+                value={form.expected_value}
+                placeholder={lineItems.length > 0 ? `Line total ${lineTotal.toFixed(2)}` : '0'}
+                onChange={(e) => setForm({ ...form, expected_value: e.target.value })}
+              />
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Expected</p>
+              <p className="text-lg font-semibold">{formatCurrency(expectedValue || 0)}</p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Weighted ({form.probability || 0}%)</p>
+              <p className="text-lg font-semibold">{formatCurrency(weightedValue || 0)}</p>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="description">Description</Label>
+            <Textarea
+              id="description"
+              rows={3}
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {opportunity?.id ? 'Update Opportunity' : 'Create Opportunity'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
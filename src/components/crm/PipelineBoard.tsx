@@ -8,13 +8,16 @@ import { PipelineStage } from './PipelineStage';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { Plus, Search, X } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Flame, Plus, Search, X } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/useAuth';
 import { crmService, Lead, PipelineStage as Stage } from '@/services/api/crm-service';
 import { useNavigate } from 'react-router-dom';
 import { insertRecord } from '@/services/api/postgresql-service';
 import { getAgencyId } from '@/utils/agencyUtils';
+import { LeadScoringRulesDialog } from './LeadScoringRulesDialog';
+import { getLeadScoreTier, LeadScoreTier } from './leadScoreTier';
 
 interface PipelineBoardProps {
   onLeadClick?: (lead: Lead) => void;
@@ -26,6 +29,8 @@ interface PipelineBoardProps {
 }
 
 type ViewMode = 'kanban' | 'list' | 'table' | 'funnel';
+type SortMode = 'default' | 'score_desc' | 'score_asc' | 'value_desc';
+type ScoreFilter = 'all' | LeadScoreTier;
 
 export const PipelineBoard: React.FC<PipelineBoardProps> = ({
   onLeadClick,
@@ -45,6 +50,10 @@ export const PipelineBoard: React.FC<PipelineBoardProps> = ({
   const [searchTerm, setSearchTerm] = useState('');
   const [draggedLeadId, setDraggedLeadId] = useState<string | null>(null);
   const [collapsedStages, setCollapsedStages] = useState<Set<string>>(new Set());
+  const [sortMode, setSortMode] = useState<SortMode>('default');
+  const [scoreFilter, setScoreFilter] = useState<ScoreFilter>('all');
+  const [showScoringRules, setShowScoringRules] = useState(false);
+  const [scoringRulesChanged, setScoringRulesChanged] = useState(false);
 
   // Fetch data
   const fetchData = useCallback(async () => {
@@ -60,7 +69,15 @@ export const PipelineBoard: React.FC<PipelineBoardProps> = ({
         crmService.getPipelineStages(profile, user?.id || null),
       ]);
 
-      setLeads(leadsData);
+      // Scores are best-effort; the board still works without them
+      let scoredLeads = leadsData;
+      try {
+        scoredLeads = await crmService.attachLeadScores(leadsData);
+      } catch (scoreError) {
+        console.warn('Error fetching lead scores:', scoreError);
+      }
+
+      setLeads(scoredLeads);
       setStages(stagesData);
     } catch (error: any) {
       console.error('Error fetching pipeline data:', error);
@@ -78,17 +95,30 @@ export const PipelineBoard: React.FC<PipelineBoardProps> = ({
     fetchData();
   }, [fetchData]);
 
-  // Group leads by stage
+  // Group leads by stage, applying score filter and sort
   const leadsByStage = React.useMemo(() => {
+    const visibleLeads = scoreFilter === 'all'
+      ? leads
+      : leads.filter(lead => lead.score != null && getLeadScoreTier(lead.score) === scoreFilter);
+
+    const sortedLeads = [...visibleLeads];
+    if (sortMode === 'score_desc') {
+      sortedLeads.sort((a, b) => (b.score ?? -1) - (a.score ?? -1));
+    } else if (sortMode === 'score_asc') {
+      sortedLeads.sort((a, b) => (a.score ?? 101) - (b.score ?? 101));
+    } else if (sortMode === 'value_desc') {
+      sortedLeads.sort((a, b) => (b.estimated_value || b.value || 0) - (a.estimated_value || a.value || 0));
+    }
+
     const grouped: Record<string, Lead[]> = {};
     stages.forEach(stage => {
-      grouped[stage.stage_name] = leads.filter(lead => {
+      grouped[stage.stage_name] = sortedLeads.filter(lead => {
         const leadStage = (lead.pipeline_stage || lead.stage || lead.status) || 'new';
         return leadStage === stage.stage_name;
       });
     });
     return grouped;
-  }, [leads, stages]);
+  }, [leads, stages, sortMode, scoreFilter]);
 
   // Calculate stage metrics (simplified)
   const getStageMetrics = (stageName: string) => {
@@ -188,6 +218,15 @@ export const PipelineBoard: React.FC<PipelineBoardProps> = ({
   };
 
 
+  // Refresh scores once the rules dialog closes (reloading unmounts the board)
+  const handleScoringRulesOpenChange = (open: boolean) => {
+    setShowScoringRules(open);
+    if (!open && scoringRulesChanged) {
+      setScoringRulesChanged(false);
+      fetchData();
+    }
+  };
+
   // Toggle stage collapse
   const handleToggleStage = (stageId: string) => {
     setCollapsedStages(prev => {
@@ -313,14 +352,48 @@ export const PipelineBoard: React.FC<PipelineBoardProps> = ({
             </button>
           )}
         </div>
-        {onAddLead && (
-          <Button onClick={onAddLead}>
-            <Plus className="h-4 w-4 mr-2" />
-            Add Lead
+        <div className="flex items-center gap-2">
+          <Select value={scoreFilter} onValueChange={(value) => setScoreFilter(value as ScoreFilter)}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All scores</SelectItem>
+              <SelectItem value="hot">Hot (70+)</SelectItem>
+              <SelectItem value="warm">Warm (40-69)</SelectItem>
+              <SelectItem value="cold">Cold (&lt;40)</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={sortMode} onValueChange={(value) => setSortMode(value as SortMode)}>
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="default">Default order</SelectItem>
+              <SelectItem value="score_desc">Score: high to low</SelectItem>
+              <SelectItem value="score_asc">Score: low to high</SelectItem>
+              <SelectItem value="value_desc">Value: high to low</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={() => setShowScoringRules(true)}>
+            <Flame className="h-4 w-4 mr-2" />
+            Scoring Rules
           </Button>
-        )}
+          {onAddLead && (
+            <Button onClick={onAddLead}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Lead
+            </Button>
+          )}
+        </div>
       </div>
 
+      <LeadScoringRulesDialog
+        open={showScoringRules}
+        onOpenChange={handleScoringRulesOpenChange}
+        onRulesChanged={() => setScoringRulesChanged(true)}
+      />
+
       {/* Kanban Board */}
       <div className="w-full overflow-x-auto">
         <div className="flex gap-4 pb-4 min-w-max">
@@ -31,6 +31,7 @@ import {
 } from '@/components/ui/dropdown-menu';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import { Lead } from '@/services/api/crm-service';
+import { LeadScoreBadge } from './LeadScoreBadge';
 import { formatDistanceToNow } from 'date-fns';
 
 interface PipelineCardProps {
@@ -219,15 +220,18 @@ export const PipelineCard: React.FC<PipelineCardProps> = ({
         <p className="text-xs text-muted-foreground mb-2">#{lead.lead_number}</p>
       )}
 
-      {/* Value Badge */}
-      {value > 0 && (
-        <div className="mb-2">
-          <Badge 
-            variant="outline" 
-            className={`${getValueColor(value)} border-current text-xs font-semibold`}
-          >
-            ₹{value.toLocaleString('en-IN', { maximumFractionDigits: 0 })}
-          </Badge>
+      {/* Value and Score Badges */}
+      {(value > 0 || lead.score != null) && (
+        <div className="mb-2 flex items-center justify-between gap-2">
+          {value > 0 ? (
+            <Badge 
+              variant="outline" 
+              className={`${getValueColor(value)} border-current text-xs font-semibold`}
+            >
+              ₹{value.toLocaleString('en-IN', { maximumFractionDigits: 0 })}
+            </Badge>
+          ) : <span />}
+          <LeadScoreBadge score={lead.score} breakdown={lead.score_breakdown} />
         </div>
       )}
 
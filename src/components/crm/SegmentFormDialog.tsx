@@ -0,0 +1,345 @@
+/**
+ * SegmentFormDialog Component
+ * Builds a dynamic lead/client segment from filter criteria with a live member preview
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Users } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { crmService, CustomerSegment, SegmentCriteria, SegmentEntityType } from '@/services/api/crm-service';
+
+const LEAD_STATUSES = ['new', 'contacted', 'qualified', 'proposal', 'negotiation', 'won', 'lost'];
+const LEAD_PRIORITIES = ['low', 'medium', 'high'];
+const CLIENT_STATUSES = ['active', 'inactive', 'prospect'];
+
+interface SegmentFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  segment?: CustomerSegment | null;
+  leadSources: { id: string; name: string }[];
+  onSaved: () => void;
+}
+
+const splitList = (value: string): string[] | undefined => {
+  const items = value.split(',').map((item) => item.trim()).filter(Boolean);
+  return items.length > 0 ? items : undefined;
+};
+
+const toNumber = (value: string): number | undefined => (value === '' ? undefined : Number(value));
+
+interface ToggleGroupProps {
+  options: { value: string; label: string }[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+}
+
+const ToggleGroup: React.FC<ToggleGroupProps> = ({ options, selected, onChange }) => (
+  <div className="flex flex-wrap gap-2">
+    {options.map((option) => {
+      const active = selected.includes(option.value);
+      return (
+        <Badge
+          key={option.value}
+          variant={active ? 'default' : 'outline'}
+          className="cursor-pointer capitalize"
+          onClick={() => onChange(active ? selected.filter((v) => v !== option.value) : [...selected, option.value])}
+        >
+          {option.label}
+        </Badge>
+      );
+    })}
+  </div>
+);
+
+export const SegmentFormDialog: React.FC<SegmentFormDialogProps> = ({ open, onOpenChange, segment, leadSources, onSaved }) => {
+  const { toast } = useToast();
+  const [saving, setSaving] = useState(false);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [entityType, setEntityType] = useState<SegmentEntityType>('lead');
+  const [statuses, setStatuses] = useState<string[]>([]);
+  const [priorities, setPriorities] = useState<string[]>([]);
+  const [sourceIds, setSourceIds] = useState<string[]>([]);
+  const [text, setText] = useState({ tags: '', industries: '', cities: '', states: '', countries: '' });
+  const [range, setRange] = useState({ min_value: '', max_value: '', min_score: '', max_score: '', created_after: '', created_before: '' });
+  const [preview, setPreview] = useState<{ count: number; names: string[] } | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    const c = segment?.criteria || {};
+    const type = segment?.entity_type || 'lead';
+    setName(segment?.segment_name || '');
+    setDescription(segment?.description || '');
+    setEntityType(type);
+    setStatuses(c.statuses || []);
+    setPriorities(c.priorities || []);
+    setSourceIds(c.source_ids || []);
+    setText({
+      tags: (c.tags || []).join(', '),
+      industries: (c.industries || []).join(', '),
+      cities: (c.cities || []).join(', '),
+      states: (c.states || []).join(', '),
+      countries: (c.countries || []).join(', '),
+    });
+    setRange({
+      min_value: String((type === 'lead' ? c.min_value : c.min_invoiced) ?? ''),
+      max_value: String((type === 'lead' ? c.max_value : c.max_invoiced) ?? ''),
+      min_score: String(c.min_score ?? ''),
+      max_score: String(c.max_score ?? ''),
+      created_after: c.created_after || '',
+      created_before: c.created_before || '',
+    });
+    setPreview(null);
+  }, [open, segment]);
+
+  const buildCriteria = (): SegmentCriteria => {
+    const common: SegmentCriteria = {
+      statuses: statuses.length ? statuses : undefined,
+      industries: splitList(text.industries),
+      created_after: range.created_after || undefined,
+      created_before: range.created_before || undefined,
+    };
+    const criteria: SegmentCriteria = entityType === 'lead'
+      ? {
+          ...common,
+          priorities: priorities.length ? priorities : undefined,
+          source_ids: sourceIds.length ? sourceIds : undefined,
+          tags: splitList(text.tags),
+          min_value: toNumber(range.min_value),
+          max_value: toNumber(range.max_value),
+          min_score: toNumber(range.min_score),
+          max_score: toNumber(range.max_score),
+        }
+      : {
+          ...common,
+          cities: splitList(text.cities),
+          states: splitList(text.states),
+          countries: splitList(text.countries),
+          min_invoiced: toNumber(range.min_value),
+          max_invoiced: toNumber(range.max_value),
+        };
+    // Drop unset keys so saved criteria stay readable
+    return Object.fromEntries(Object.entries(criteria).filter(([, value]) => value !== undefined)) as SegmentCriteria;
+  };
+
+  // Refresh the preview shortly after the criteria stop changing
+  useEffect(() => {
+    if (!open) return;
+    const timer = setTimeout(async () => {
+      try {
+        setPreviewing(true);
+        const result = await crmService.previewSegment(entityType, buildCriteria());
+        setPreview({ count: result.count, names: result.members.slice(0, 5).map((m) => m.name) });
+      } catch (error) {
+        console.error('Error previewing segment:', error);
+        setPreview(null);
+      } finally {
+        setPreviewing(false);
+      }
+    }, 400);
+    return () => clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, entityType, statuses, priorities, sourceIds, text, range]);
+
+  const handleEntityTypeChange = (value: SegmentEntityType) => {
+    setEntityType(value);
+    setStatuses([]);
+    setPriorities([]);
+    setSourceIds([]);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      toast({ title: 'Error', description: 'Segment name is required', variant: 'destructive' });
+      return;
+    }
+    try {
+      setSaving(true);
+      await crmService.saveSegment({
+        id: segment?.id,
+        segment_name: name.trim(),
+        description: description || null,
+        entity_type: entityType,
+        criteria: buildCriteria(),
+      });
+      toast({ title: 'Success', description: segment?.id ? 'Segment updated' : 'Segment created' });
+      onSaved();
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save segment',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{segment?.id ? 'Edit Segment' : 'New Segment'}</DialogTitle>
+          <DialogDescription>
+            Segments are dynamic: members are re-evaluated from these filters every time the segment is used.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="segment_name">Segment Name *</Label>
+              <Input id="segment_name" value={name} onChange={(e) => setName(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Segment Of</Label>
+              <Select
+                value={entityType}
+                onValueChange={(value) => handleEntityTypeChange(value as SegmentEntityType)}
+                disabled={!!segment?.id}
+              >
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="lead">Leads</SelectItem>
+                  <SelectItem value="client">Clients</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="segment_description">Description</Label>
+            <Textarea id="segment_description" rows={2} value={description} onChange={(e) => setDescription(e.target.value)} />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Status</Label>
+            <ToggleGroup
+              options={(entityType === 'lead' ? LEAD_STATUSES : CLIENT_STATUSES).map((s) => ({ value: s, label: s }))}
+              selected={statuses}
+              onChange={setStatuses}
+            />
+          </div>
+
+          {entityType === 'lead' && (
+            <>
+              <div className="space-y-2">
+                <Label>Priority</Label>
+                <ToggleGroup
+                  options={LEAD_PRIORITIES.map((p) => ({ value: p, label: p }))}
+                  selected={priorities}
+                  onChange={setPriorities}
+                />
+              </div>
+              {leadSources.length > 0 && (
+                <div className="space-y-2">
+                  <Label>Source</Label>
+                  <ToggleGroup
+                    options={leadSources.map((s) => ({ value: s.id, label: s.name }))}
+                    selected={sourceIds}
+                    onChange={setSourceIds}
+                  />
+                </div>
+              )}
+            </>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="industries">Industries (comma separated)</Label>
+              <Input id="industries" value={text.industries} onChange={(e) => setText({ ...text, industries: e.target.value })} />
+            </div>
+            {entityType === 'lead' ? (
+              <div className="space-y-2">
+                <Label htmlFor="tags">Has any tag (comma separated)</Label>
+                <Input id="tags" value={text.tags} onChange={(e) => setText({ ...text, tags: e.target.value })} />
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <Label htmlFor="cities">Cities (comma separated)</Label>
+                <Input id="cities" value={text.cities} onChange={(e) => setText({ ...text, cities: e.target.value })} />
+              </div>
+            )}
+            {entityType === 'client' && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="states">States (comma separated)</Label>
+                  <Input id="states" value={text.states} onChange={(e) => setText({ ...text, states: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="countries">Countries (comma separated)</Label>
+                  <Input id="countries" value={text.countries} onChange={(e) => setText({ ...text, countries: e.target.value })} />
+                </div>
+              </>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="min_value">{entityType === 'lead' ? 'Min estimated value' : 'Min invoiced'}</Label>
+              <Input id="min_value" type="number" value={range.min_value} onChange={(e) => setRange({ ...range, min_value: e.target.value })} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="max_value">{entityType === 'lead' ? 'Max estimated value' : 'Max invoiced'}</Label>
+              <Input id="max_value" type="number" value={range.max_value} onChange={(e) => setRange({ ...range, max_value: e.target.value })} />
+            </div>
+            {entityType === 'lead' && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="min_score">Min lead score</Label>
+                  <Input id="min_score" type="number" min="0" max="100" value={range.min_score} onChange={(e) => setRange({ ...range, min_score: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="max_score">Max lead score</Label>
+                  <Input id="max_score" type="number" min="0" max="100" value={range.max_score} onChange={(e) => setRange({ ...range, max_score: e.target.value })} />
+                </div>
+              </>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="created_after">Created on or after</Label>
+              <Input id="created_after" type="date" value={range.created_after} onChange={(e) => setRange({ ...range, created_after: e.target.value })} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="created_before">Created on or before</Label>
+              <Input id="created_before" type="date" value={range.created_before} onChange={(e) => setRange({ ...range, created_before: e.target.value })} />
+            </div>
+          </div>
+
+          <div className="rounded-md border p-3 text-sm flex items-start gap-2">
+            {previewing ? <Loader2 className="h-4 w-4 mt-0.5 animate-spin" /> : <Users className="h-4 w-4 mt-0.5" />}
+            {preview ? (
+              <div>
+                <p className="font-medium">{preview.count} matching {entityType === 'lead' ? 'lead(s)' : 'client(s)'}</p>
+                {preview.names.length > 0 && (
+                  <p className="text-muted-foreground">
+                    {preview.names.join(', ')}
+                    {preview.count > preview.names.length ? ', …' : ''}
+                  </p>
+                )}
+              </div>
+            ) : (
+              <p className="text-muted-foreground">Preview not available</p>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {segment?.id ? 'Update Segment' : 'Create Segment'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,504 @@
+/**
+ * SegmentsPanel Component
+ * Saved dynamic segments with their current members, bulk lead updates and email campaigns
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Edit, Loader2, Mail, Plus, RefreshCw, Trash2, Users, Wand2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  crmService,
+  CustomerSegment,
+  Lead,
+  SegmentCampaign,
+  SegmentMember,
+} from '@/services/api/crm-service';
+import { selectRecords } from '@/services/api/postgresql-service';
+import { getEmployeesForAssignmentAuto } from '@/services/api/employee-selector-service';
+import { getAgencyId } from '@/utils/agencyUtils';
+import { SegmentFormDialog } from './SegmentFormDialog';
+
+const KEEP = '__keep__';
+
+const campaignStatusStyles: Record<SegmentCampaign['status'], string> = {
+  sending: 'bg-blue-100 text-blue-800',
+  sent: 'bg-green-100 text-green-800',
+  partially_sent: 'bg-amber-100 text-amber-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+export const SegmentsPanel: React.FC = () => {
+  const { toast } = useToast();
+  const { user, profile } = useAuth();
+  const [segments, setSegments] = useState<CustomerSegment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedSegment, setSelectedSegment] = useState<CustomerSegment | null>(null);
+  const [members, setMembers] = useState<SegmentMember[]>([]);
+  const [campaigns, setCampaigns] = useState<SegmentCampaign[]>([]);
+  const [membersLoading, setMembersLoading] = useState(false);
+  const [formOpen, setFormOpen] = useState(false);
+  const [editing, setEditing] = useState<CustomerSegment | null>(null);
+  const [leadSources, setLeadSources] = useState<{ id: string; name: string }[]>([]);
+  const [owners, setOwners] = useState<{ id: string; name: string }[]>([]);
+
+  const [bulkOpen, setBulkOpen] = useState(false);
+  const [bulkUpdates, setBulkUpdates] = useState({ status: KEEP, priority: KEEP, assigned_to: KEEP });
+  const [campaignOpen, setCampaignOpen] = useState(false);
+  const [campaign, setCampaign] = useState({ subject: '', body: '' });
+  const [actionRunning, setActionRunning] = useState(false);
+
+  const fetchSegments = useCallback(async () => {
+    try {
+      setLoading(true);
+      setSegments(await crmService.getSegments());
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to fetch segments',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchSegments();
+  }, [fetchSegments]);
+
+  useEffect(() => {
+    const loadOptions = async () => {
+      try {
+        const agencyId = await getAgencyId(profile, user?.id || null);
+        if (!agencyId) return;
+        const [sources, employees] = await Promise.all([
+          selectRecords<{ id: string; name: string }>('lead_sources', {
+            select: 'id, name',
+            where: { is_active: true },
+            orderBy: 'name ASC',
+          }),
+          getEmployeesForAssignmentAuto(profile, user?.id),
+        ]);
+        setLeadSources(sources);
+        setOwners(employees.map((e) => ({ id: e.user_id, name: e.full_name })));
+      } catch (error) {
+        console.error('Error loading segment options:', error);
+      }
+    };
+    loadOptions();
+  }, [profile, user?.id]);
+
+  const loadMembers = async (segment: CustomerSegment) => {
+    try {
+      setSelectedSegment(segment);
+      setMembersLoading(true);
+      const [result, campaignList] = await Promise.all([
+        crmService.getSegmentMembers(segment.id),
+        crmService.getSegmentCampaigns(segment.id),
+      ]);
+      setMembers(result.members);
+      setCampaigns(campaignList);
+      setSelectedSegment(result.segment);
+      setSegments((prev) => prev.map((s) => (s.id === segment.id ? { ...s, client_count: result.segment.client_count } : s)));
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to load segment members',
+        variant: 'destructive',
+      });
+    } finally {
+      setMembersLoading(false);
+    }
+  };
+
+  const handleDelete = async (segment: CustomerSegment) => {
+    if (!confirm(`Delete segment "${segment.segment_name}"?`)) return;
+    try {
+      await crmService.deleteSegment(segment.id);
+      if (selectedSegment?.id === segment.id) {
+        setSelectedSegment(null);
+        setMembers([]);
+        setCampaigns([]);
+      }
+      fetchSegments();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to delete segment',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleBulkUpdate = async () => {
+    if (!selectedSegment) return;
+    const updates: Partial<Lead> = {};
+    if (bulkUpdates.status !== KEEP) {
+      updates.status = bulkUpdates.status;
+      updates.stage = bulkUpdates.status;
+    }
+    if (bulkUpdates.priority !== KEEP) updates.priority = bulkUpdates.priority;
+    if (bulkUpdates.assigned_to !== KEEP) updates.assigned_to = bulkUpdates.assigned_to;
+    if (Object.keys(updates).length === 0) {
+      toast({ title: 'Error', description: 'Choose at least one field to update', variant: 'destructive' });
+      return;
+    }
+
+    try {
+      setActionRunning(true);
+      const updated = await crmService.bulkUpdateSegmentLeads(selectedSegment.id, updates, profile, user?.id || null);
+      toast({ title: 'Success', description: `Updated ${updated.length} lead(s)` });
+      setBulkOpen(false);
+      setBulkUpdates({ status: KEEP, priority: KEEP, assigned_to: KEEP });
+      loadMembers(selectedSegment);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update leads',
+        variant: 'destructive',
+      });
+    } finally {
+      setActionRunning(false);
+    }
+  };
+
+  const handleSendCampaign = async () => {
+    if (!selectedSegment) return;
+    if (!campaign.subject.trim() || !campaign.body.trim()) {
+      toast({ title: 'Error', description: 'Subject and message are required', variant: 'destructive' });
+      return;
+    }
+    try {
+      setActionRunning(true);
+      const result = await crmService.sendSegmentCampaign(selectedSegment.id, campaign);
+      toast({
+        title: result.failed_count > 0 ? 'Campaign partially sent' : 'Campaign sent',
+        description: `Sent to ${result.sent_count} of ${result.recipient_count} recipient(s)`,
+        variant: result.sent_count === 0 ? 'destructive' : 'default',
+      });
+      setCampaignOpen(false);
+      setCampaign({ subject: '', body: '' });
+      loadMembers(selectedSegment);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to send campaign',
+        variant: 'destructive',
+      });
+    } finally {
+      setActionRunning(false);
+    }
+  };
+
+  const formatCurrency = (amount: number | string) =>
+    new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR', maximumFractionDigits: 0 }).format(Number(amount || 0));
+
+  const membersWithEmail = members.filter((m) => m.email).length;
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <div>
+            <CardTitle>Segments</CardTitle>
+            <CardDescription>Saved filters over leads or clients, used for bulk actions and email campaigns</CardDescription>
+          </div>
+          <Button
+            onClick={() => {
+              setEditing(null);
+              setFormOpen(true);
+            }}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            New Segment
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Segment</TableHead>
+                  <TableHead>Of</TableHead>
+                  <TableHead className="text-right">Members</TableHead>
+                  <TableHead>Last Evaluated</TableHead>
+                  <TableHead className="w-28" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {segments.map((segment) => (
+                  <TableRow
+                    key={segment.id}
+                    className={`cursor-pointer ${selectedSegment?.id === segment.id ? 'bg-muted' : ''}`}
+                    onClick={() => loadMembers(segment)}
+                  >
+                    <TableCell>
+                      <p className="font-medium">{segment.segment_name}</p>
+                      {segment.description && <p className="text-xs text-muted-foreground">{segment.description}</p>}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className="capitalize">{segment.entity_type}s</Badge>
+                    </TableCell>
+                    <TableCell className="text-right">{segment.client_count ?? 0}</TableCell>
+                    <TableCell>
+                      {segment.last_evaluated_at ? new Date(segment.last_evaluated_at).toLocaleString() : '—'}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-1" onClick={(e) => e.stopPropagation()}>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => {
+                            setEditing(segment);
+                            setFormOpen(true);
+                          }}
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => handleDelete(segment)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {segments.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-muted-foreground">
+                      No segments yet
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {selectedSegment && (
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Users className="h-5 w-5" />
+                {selectedSegment.segment_name}
+              </CardTitle>
+              <CardDescription>
+                {members.length} member(s), {membersWithEmail} with an email address
+              </CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => loadMembers(selectedSegment)} disabled={membersLoading}>
+                <RefreshCw className={`h-4 w-4 mr-2 ${membersLoading ? 'animate-spin' : ''}`} />
+                Re-evaluate
+              </Button>
+              {selectedSegment.entity_type === 'lead' && (
+                <Button variant="outline" onClick={() => setBulkOpen(true)} disabled={members.length === 0}>
+                  <Wand2 className="h-4 w-4 mr-2" />
+                  Bulk Update
+                </Button>
+              )}
+              <Button onClick={() => setCampaignOpen(true)} disabled={membersWithEmail === 0}>
+                <Mail className="h-4 w-4 mr-2" />
+                Send Campaign
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {membersLoading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Contact</TableHead>
+                    <TableHead>Email</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">{selectedSegment.entity_type === 'lead' ? 'Value' : 'Invoiced'}</TableHead>
+                    {selectedSegment.entity_type === 'lead' && <TableHead className="text-right">Score</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {members.map((member) => (
+                    <TableRow key={member.id}>
+                      <TableCell className="font-medium">{member.name}</TableCell>
+                      <TableCell>{member.contact_name || '—'}</TableCell>
+                      <TableCell>{member.email || '—'}</TableCell>
+                      <TableCell className="capitalize">{member.status || '—'}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(member.value)}</TableCell>
+                      {selectedSegment.entity_type === 'lead' && (
+                        <TableCell className="text-right">{member.score ?? '—'}</TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                  {members.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center text-muted-foreground">
+                        No members match this segment
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            )}
+
+            {campaigns.length > 0 && (
+              <div>
+                <p className="text-sm font-medium mb-2">Campaigns</p>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Subject</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead className="text-right">Sent</TableHead>
+                      <TableHead className="text-right">Failed</TableHead>
+                      <TableHead>Sent At</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {campaigns.map((c) => (
+                      <TableRow key={c.id}>
+                        <TableCell>{c.subject}</TableCell>
+                        <TableCell>
+                          <Badge className={campaignStatusStyles[c.status]}>{c.status.replace('_', ' ')}</Badge>
+                        </TableCell>
+                        <TableCell className="text-right">{c.sent_count}/{c.recipient_count}</TableCell>
+                        <TableCell className="text-right">{c.failed_count}</TableCell>
+                        <TableCell>{c.sent_at ? new Date(c.sent_at).toLocaleString() : '—'}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <SegmentFormDialog
+        open={formOpen}
+        onOpenChange={setFormOpen}
+        segment={editing}
+        leadSources={leadSources}
+        onSaved={() => {
+          fetchSegments();
+          if (editing && selectedSegment?.id === editing.id) {
+            loadMembers(editing);
+          }
+        }}
+      />
+
+      <Dialog open={bulkOpen} onOpenChange={setBulkOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Bulk Update Leads</DialogTitle>
+            <DialogDescription>
+              Applies to all {members.length} lead(s) currently in "{selectedSegment?.segment_name}".
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Status</Label>
+              <Select value={bulkUpdates.status} onValueChange={(value) => setBulkUpdates({ ...bulkUpdates, status: value })}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={KEEP}>Keep current</SelectItem>
+                  {['new', 'contacted', 'qualified', 'proposal', 'negotiation', 'won', 'lost'].map((status) => (
+                    <SelectItem key={status} value={status} className="capitalize">{status}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Priority</Label>
+              <Select value={bulkUpdates.priority} onValueChange={(value) => setBulkUpdates({ ...bulkUpdates, priority: value })}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={KEEP}>Keep current</SelectItem>
+                  <SelectItem value="low">Low</SelectItem>
+                  <SelectItem value="medium">Medium</SelectItem>
+                  <SelectItem value="high">High</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Assigned To</Label>
+              <Select value={bulkUpdates.assigned_to} onValueChange={(value) => setBulkUpdates({ ...bulkUpdates, assigned_to: value })}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={KEEP}>Keep current</SelectItem>
+                  {owners.map((owner) => (
+                    <SelectItem key={owner.id} value={owner.id}>{owner.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setBulkOpen(false)} disabled={actionRunning}>Cancel</Button>
+            <Button onClick={handleBulkUpdate} disabled={actionRunning}>
+              {actionRunning && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Update Leads
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={campaignOpen} onOpenChange={setCampaignOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Send Email Campaign</DialogTitle>
+            <DialogDescription>
+              Sends to {membersWithEmail} member(s) with an email address. Use {'{{name}}'} or {'{{contact_name}}'} to personalise.
+              Opens and clicks count toward lead scores.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="campaign_subject">Subject</Label>
+              <Input
+                id="campaign_subject"
+                value={campaign.subject}
+                onChange={(e) => setCampaign({ ...campaign, subject: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="campaign_body">Message</Label>
+              <Textarea
+                id="campaign_body"
+                rows={8}
+                value={campaign.body}
+                onChange={(e) => setCampaign({ ...campaign, body: e.target.value })}
+                placeholder={'Hi {{contact_name}},\n\n...'}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCampaignOpen(false)} disabled={actionRunning}>Cancel</Button>
+            <Button onClick={handleSendCampaign} disabled={actionRunning}>
+              {actionRunning && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Send
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
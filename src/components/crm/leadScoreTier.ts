@@ -0,0 +1,17 @@
+/**
+ * Lead score tiers shared by the pipeline board, cards and lead detail
+ */
+
+export type LeadScoreTier = 'hot' | 'warm' | 'cold';
+
+export const getLeadScoreTier = (score: number): LeadScoreTier => {
+  if (score >= 70) return 'hot';
+  if (score >= 40) return 'warm';
+  return 'cold';
+};
+
+export const leadScoreTierStyles: Record<LeadScoreTier, string> = {
+  hot: 'bg-red-100 text-red-800 border-red-300',
+  warm: 'bg-amber-100 text-amber-800 border-amber-300',
+  cold: 'bg-sky-100 text-sky-800 border-sky-300',
+};
@@ -0,0 +1,24 @@
+/**
+ * Opportunity stage labels and default probabilities
+ */
+
+import { OpportunityStage } from '@/services/api/crm-service';
+
+export const opportunityStageLabels: Record<OpportunityStage, string> = {
+  prospecting: 'Prospecting',
+  qualification: 'Qualification',
+  proposal: 'Proposal',
+  negotiation: 'Negotiation',
+  closed_won: 'Closed Won',
+  closed_lost: 'Closed Lost',
+};
+
+// Suggested probability when the stage changes; users can still override it
+export const stageProbabilities: Record<OpportunityStage, number> = {
+  prospecting: 10,
+  qualification: 25,
+  proposal: 50,
+  negotiation: 75,
+  closed_won: 100,
+  closed_lost: 0,
+};
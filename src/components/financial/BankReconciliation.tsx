@@ -0,0 +1,926 @@
+/**
+ * Bank Reconciliation Workspace
+ * Import bank statements, match them against the ledger and reconcile
+ */
+
+import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { Plus, Upload, Loader2, Link2, Unlink, CheckCircle, AlertTriangle, RefreshCw, Landmark } from 'lucide-react';
+import {
+  BankAccount,
+  BankReconciliation as BankReconciliationRecord,
+  BankReconciliationMatch,
+  MatchEntry,
+  MatchSuggestion,
+  MatchTransaction,
+  ReconciliationReport,
+  StatementFormat,
+  createBankAccount,
+  createReconciliationMatch,
+  deleteReconciliationMatch,
+  getBankAccounts,
+  getMatchSuggestions,
+  getReconciliationHistory,
+  getReconciliationMatches,
+  getReconciliationReport,
+  importBankStatement,
+  reconcileBankAccount,
+  updateBankAccount,
+} from '@/services/api/financial-service';
+
+interface LedgerAccount {
+  id: string;
+  account_code: string;
+  account_name: string;
+  account_type: string;
+}
+
+interface BankReconciliationProps {
+  chartOfAccounts: LedgerAccount[];
+}
+
+const MATCH_TYPE_LABELS: Record<string, string> = {
+  one_to_one: 'One to one',
+  split: 'Split',
+  many_to_one: 'Many to one',
+};
+
+const formatAmount = (value: number) =>
+  `₹${Number(value || 0).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDate = (value?: string | null) => (value ? new Date(value).toLocaleDateString() : '-');
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const firstOfMonth = () => {
+  const now = new Date();
+  return new Date(now.getFullYear(), now.getMonth(), 1).toISOString().split('T')[0];
+};
+
+const getConfidenceBadge = (confidence: number) => {
+  if (confidence >= 80) return <Badge className="bg-green-100 text-green-800">{confidence}%</Badge>;
+  if (confidence >= 60) return <Badge className="bg-yellow-100 text-yellow-800">{confidence}%</Badge>;
+  return <Badge variant="outline">{confidence}%</Badge>;
+};
+
+// Split selected entries by where they come from; supplier payments are posted on match
+const entryIdsBySource = (entries: MatchEntry[]) => ({
+  journal_entry_ids: entries.filter((e) => e.source !== 'vendor_payment').map((e) => e.id),
+  vendor_payment_ids: entries.filter((e) => e.source === 'vendor_payment').map((e) => e.id),
+});
+
+const emptyAccountForm = {
+  account_name: '',
+  bank_name: '',
+  account_number: '',
+  ifsc_code: '',
+  opening_balance: '0',
+  gl_account_id: '',
+};
+
+export const BankReconciliation: React.FC<BankReconciliationProps> = ({ chartOfAccounts }) => {
+  const { toast } = useToast();
+  const [accounts, setAccounts] = useState<BankAccount[]>([]);
+  const [selectedAccountId, setSelectedAccountId] = useState('');
+  const [startDate, setStartDate] = useState(firstOfMonth());
+  const [endDate, setEndDate] = useState(today());
+  const [statementBalance, setStatementBalance] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const [statementFile, setStatementFile] = useState<File | null>(null);
+  const [statementFormat, setStatementFormat] = useState<StatementFormat>('auto');
+  const [importing, setImporting] = useState(false);
+
+  const [suggestions, setSuggestions] = useState<MatchSuggestion[]>([]);
+  const [openTransactions, setOpenTransactions] = useState<MatchTransaction[]>([]);
+  const [openEntries, setOpenEntries] = useState<MatchEntry[]>([]);
+  const [matches, setMatches] = useState<BankReconciliationMatch[]>([]);
+  const [report, setReport] = useState<ReconciliationReport | null>(null);
+  const [history, setHistory] = useState<BankReconciliationRecord[]>([]);
+
+  const [selectedTransactionIds, setSelectedTransactionIds] = useState<string[]>([]);
+  const [selectedEntryIds, setSelectedEntryIds] = useState<string[]>([]);
+  const [matching, setMatching] = useState(false);
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const [accountDialogOpen, setAccountDialogOpen] = useState(false);
+  const [accountForm, setAccountForm] = useState(emptyAccountForm);
+
+  // Read on refresh so typing a balance does not reload the workspace on every keystroke
+  const statementBalanceRef = useRef(statementBalance);
+  statementBalanceRef.current = statementBalance;
+
+  const selectedAccount = accounts.find((account) => account.id === selectedAccountId);
+  const assetAccounts = chartOfAccounts.filter((account) => account.account_type?.toLowerCase() === 'asset');
+
+  const showError = useCallback((error: unknown, fallback: string) => {
+    toast({
+      title: 'Error',
+      description: error instanceof Error ? error.message : fallback,
+      variant: 'destructive',
+    });
+  }, [toast]);
+
+  const loadAccounts = useCallback(async () => {
+    try {
+      const data = await getBankAccounts();
+      setAccounts(data);
+      setSelectedAccountId((current) => current || data[0]?.id || '');
+    } catch (error) {
+      showError(error, 'Failed to load bank accounts');
+    }
+  }, [showError]);
+
+  const loadWorkspace = useCallback(async () => {
+    if (!selectedAccountId) return;
+    const balance = statementBalanceRef.current;
+    setLoading(true);
+    try {
+      const [suggestionData, matchData, reportData, historyData] = await Promise.all([
+        getMatchSuggestions(selectedAccountId, startDate, endDate),
+        getReconciliationMatches(selectedAccountId),
+        getReconciliationReport(
+          selectedAccountId,
+          endDate,
+          balance !== '' ? parseFloat(balance) : undefined,
+          startDate
+        ),
+        getReconciliationHistory(selectedAccountId),
+      ]);
+      setSuggestions(suggestionData.suggestions);
+      setOpenTransactions(suggestionData.open_transactions);
+      setOpenEntries(suggestionData.open_entries);
+      setMatches(matchData);
+      setReport(reportData);
+      setHistory(historyData);
+      setSelectedTransactionIds([]);
+      setSelectedEntryIds([]);
+    } catch (error) {
+      showError(error, 'Failed to load reconciliation data');
+    } finally {
+      setLoading(false);
+    }
+  }, [selectedAccountId, startDate, endDate, showError]);
+
+  useEffect(() => {
+    loadAccounts();
+  }, [loadAccounts]);
+
+  useEffect(() => {
+    if (selectedAccountId) {
+      loadWorkspace();
+    }
+  }, [selectedAccountId, loadWorkspace]);
+
+  const handleImport = async () => {
+    if (!selectedAccountId || !statementFile) {
+      toast({ title: 'Error', description: 'Select a bank account and a statement file', variant: 'destructive' });
+      return;
+    }
+    setImporting(true);
+    try {
+      const content = await statementFile.text();
+      const result = await importBankStatement(selectedAccountId, content, statementFormat);
+      toast({
+        title: 'Statement imported',
+        description: `${result.transactions.length} transactions imported from ${result.format.toUpperCase()}${
+          result.skipped_count ? `, ${result.skipped_count} duplicates skipped` : ''
+        }`,
+      });
+      setStatementFile(null);
+      await loadAccounts();
+      await loadWorkspace();
+    } catch (error) {
+      showError(error, 'Failed to import statement');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleAcceptSuggestion = async (suggestion: MatchSuggestion, silent = false) => {
+    await createReconciliationMatch({
+      bank_account_id: selectedAccountId,
+      bank_transaction_ids: suggestion.transactions.map((t) => t.id),
+      ...entryIdsBySource(suggestion.entries),
+      confidence: suggestion.confidence,
+    });
+    if (!silent) {
+      toast({ title: 'Matched', description: `${MATCH_TYPE_LABELS[suggestion.match_type]} match accepted` });
+    }
+  };
+
+  const acceptSuggestion = async (suggestion: MatchSuggestion) => {
+    setMatching(true);
+    try {
+      await handleAcceptSuggestion(suggestion);
+      await loadWorkspace();
+    } catch (error) {
+      showError(error, 'Failed to accept match');
+    } finally {
+      setMatching(false);
+    }
+  };
+
+  const acceptHighConfidence = async () => {
+    const confident = suggestions.filter((s) => s.confidence >= 80);
+    if (confident.length === 0) return;
+    setMatching(true);
+    let accepted = 0;
+    try {
+      for (const suggestion of confident) {
+        await handleAcceptSuggestion(suggestion, true);
+        accepted++;
+      }
+      toast({ title: 'Matched', description: `${accepted} high-confidence matches accepted` });
+    } catch (error) {
+      showError(error, 'Failed to accept matches');
+    } finally {
+      setMatching(false);
+      await loadWorkspace();
+    }
+  };
+
+  const selectedTransactionTotal = useMemo(
+    () => openTransactions
+      .filter((t) => selectedTransactionIds.includes(t.id))
+      .reduce((sum, t) => sum + (t.transaction_type === 'credit' ? t.open_amount : -t.open_amount), 0),
+    [openTransactions, selectedTransactionIds]
+  );
+  const selectedEntryTotal = useMemo(
+    () => openEntries
+      .filter((e) => selectedEntryIds.includes(e.id))
+      .reduce((sum, e) => sum + (e.amount >= 0 ? e.open_amount : -e.open_amount), 0),
+    [openEntries, selectedEntryIds]
+  );
+  const manualDifference = Math.round((selectedTransactionTotal - selectedEntryTotal) * 100) / 100;
+  const isManyToMany = selectedTransactionIds.length > 1 && selectedEntryIds.length > 1;
+  const canManualMatch = selectedTransactionIds.length > 0
+    && selectedEntryIds.length > 0
+    && !isManyToMany
+    && manualDifference === 0;
+
+  const toggleId = (ids: string[], id: string) => (ids.includes(id) ? ids.filter((i) => i !== id) : [...ids, id]);
+
+  const handleManualMatch = async () => {
+    setMatching(true);
+    try {
+      const result = await createReconciliationMatch({
+        bank_account_id: selectedAccountId,
+        bank_transaction_ids: selectedTransactionIds,
+        ...entryIdsBySource(openEntries.filter((e) => selectedEntryIds.includes(e.id))),
+      });
+      toast({ title: 'Matched', description: `${MATCH_TYPE_LABELS[result.match_type]} match created` });
+      await loadWorkspace();
+    } catch (error) {
+      showError(error, 'Failed to match transactions');
+    } finally {
+      setMatching(false);
+    }
+  };
+
+  const handleUnmatch = async (matchGroupId: string) => {
+    try {
+      await deleteReconciliationMatch(matchGroupId);
+      toast({ title: 'Match removed' });
+      await loadWorkspace();
+    } catch (error) {
+      showError(error, 'Failed to remove match');
+    }
+  };
+
+  const handleSaveReconciliation = async (status: 'pending' | 'reconciled') => {
+    if (!report) return;
+    setSaving(true);
+    try {
+      const result = await reconcileBankAccount({
+        bank_account_id: selectedAccountId,
+        reconciliation_date: report.statement_date,
+        period_start: startDate,
+        statement_balance: report.statement_balance,
+        status,
+        notes: notes || undefined,
+      });
+      toast({
+        title: status === 'reconciled' ? 'Reconciled' : 'Saved',
+        description: `${result.reconciled_transaction_count || 0} statement lines marked as reconciled`,
+      });
+      setNotes('');
+      await loadAccounts();
+      await loadWorkspace();
+    } catch (error) {
+      showError(error, 'Failed to save reconciliation');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCreateAccount = async () => {
+    if (!accountForm.account_name || !accountForm.bank_name) {
+      toast({ title: 'Error', description: 'Account name and bank name are required', variant: 'destructive' });
+      return;
+    }
+    try {
+      const account = await createBankAccount({
+        account_name: accountForm.account_name,
+        bank_name: accountForm.bank_name,
+        account_number: accountForm.account_number || undefined,
+        ifsc_code: accountForm.ifsc_code || undefined,
+        opening_balance: parseFloat(accountForm.opening_balance) || 0,
+        gl_account_id: accountForm.gl_account_id || null,
+      });
+      toast({ title: 'Bank account created' });
+      setAccountDialogOpen(false);
+      setAccountForm(emptyAccountForm);
+      await loadAccounts();
+      setSelectedAccountId(account.id);
+    } catch (error) {
+      showError(error, 'Failed to create bank account');
+    }
+  };
+
+  const handleLinkLedgerAccount = async (glAccountId: string) => {
+    if (!selectedAccount) return;
+    try {
+      await updateBankAccount(selectedAccount.id, { gl_account_id: glAccountId === 'none' ? null : glAccountId });
+      await loadAccounts();
+      await loadWorkspace();
+    } catch (error) {
+      showError(error, 'Failed to link ledger account');
+    }
+  };
+
+  // Group matched rows back into the match groups they were created as
+  const matchGroups = useMemo(() => {
+    const groups = new Map<string, BankReconciliationMatch[]>();
+    for (const match of matches) {
+      if (!groups.has(match.match_group_id)) groups.set(match.match_group_id, []);
+      groups.get(match.match_group_id)?.push(match);
+    }
+    return Array.from(groups.entries());
+  }, [matches]);
+
+  const hasDifference = report ? Math.abs(report.unexplained_difference) >= 0.01 : true;
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Landmark className="h-5 w-5" />
+                Bank Reconciliation
+              </CardTitle>
+              <CardDescription>Import statements, match them to the ledger and explain every difference</CardDescription>
+            </div>
+            <Button variant="outline" onClick={() => setAccountDialogOpen(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Bank Account
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-5">
+            <div className="md:col-span-2">
+              <Label>Bank Account</Label>
+              <Select value={selectedAccountId} onValueChange={setSelectedAccountId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select bank account" />
+                </SelectTrigger>
+                <SelectContent>
+                  {accounts.map((account) => (
+                    <SelectItem key={account.id} value={account.id}>
+                      {account.account_name} - {account.bank_name}
+                      {account.account_number ? ` (${account.account_number.slice(-4)})` : ''}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>From</Label>
+              <Input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+            </div>
+            <div>
+              <Label>Statement Date</Label>
+              <Input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+            </div>
+            <div>
+              <Label>Statement Closing Balance</Label>
+              <div className="flex gap-2">
+                <Input
+                  type="number"
+                  step="0.01"
+                  placeholder="From statement"
+                  value={statementBalance}
+                  onChange={(e) => setStatementBalance(e.target.value)}
+                />
+                <Button variant="outline" size="icon" onClick={loadWorkspace} disabled={loading || !selectedAccountId}>
+                  <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+                </Button>
+              </div>
+            </div>
+          </div>
+
+          {selectedAccount && (
+            <div className="grid gap-4 md:grid-cols-5 items-end">
+              <div className="md:col-span-2">
+                <Label>Ledger Account</Label>
+                <Select value={selectedAccount.gl_account_id || 'none'} onValueChange={handleLinkLedgerAccount}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Any cash / bank account</SelectItem>
+                    {assetAccounts.map((account) => (
+                      <SelectItem key={account.id} value={account.id}>
+                        {account.account_code} - {account.account_name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="md:col-span-2">
+                <Label>Import Statement (CSV, OFX, MT940)</Label>
+                <Input
+                  type="file"
+                  accept=".csv,.ofx,.qfx,.sta,.mt940,.940,.txt"
+                  onChange={(e) => setStatementFile(e.target.files?.[0] || null)}
+                />
+              </div>
+              <div className="flex gap-2">
+                <Select value={statementFormat} onValueChange={(value) => setStatementFormat(value as StatementFormat)}>
+                  <SelectTrigger className="w-28">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="auto">Detect</SelectItem>
+                    <SelectItem value="csv">CSV</SelectItem>
+                    <SelectItem value="ofx">OFX</SelectItem>
+                    <SelectItem value="mt940">MT940</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Button onClick={handleImport} disabled={importing || !statementFile}>
+                  {importing ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {!selectedAccountId ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            Add a bank account to start reconciling.
+          </CardContent>
+        </Card>
+      ) : (
+        <Tabs defaultValue="suggestions" className="space-y-4">
+          <TabsList>
+            <TabsTrigger value="suggestions">Suggested Matches ({suggestions.length})</TabsTrigger>
+            <TabsTrigger value="manual">Manual Match</TabsTrigger>
+            <TabsTrigger value="matched">Matched ({matchGroups.length})</TabsTrigger>
+            <TabsTrigger value="report">Reconciliation Report</TabsTrigger>
+            <TabsTrigger value="history">History</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="suggestions">
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between">
+                <div>
+                  <CardTitle className="text-base">Suggested Matches</CardTitle>
+                  <CardDescription>Scored on amount, date proximity and reference</CardDescription>
+                </div>
+                <Button
+                  variant="outline"
+                  onClick={acceptHighConfidence}
+                  disabled={matching || !suggestions.some((s) => s.confidence >= 80)}
+                >
+                  <CheckCircle className="h-4 w-4 mr-2" />
+                  Accept all 80%+
+                </Button>
+              </CardHeader>
+              <CardContent>
+                {suggestions.length === 0 ? (
+                  <p className="text-center text-muted-foreground py-8">No suggestions for this period</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Type</TableHead>
+                        <TableHead>Bank Statement</TableHead>
+                        <TableHead>Ledger</TableHead>
+                        <TableHead className="text-right">Amount</TableHead>
+                        <TableHead>Confidence</TableHead>
+                        <TableHead />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {suggestions.map((suggestion, index) => (
+                        <TableRow key={`${suggestion.transactions[0]?.id}-${index}`}>
+                          <TableCell>
+                            <Badge variant="secondary">{MATCH_TYPE_LABELS[suggestion.match_type]}</Badge>
+                          </TableCell>
+                          <TableCell className="text-sm">
+                            {suggestion.transactions.map((t) => (
+                              <div key={t.id}>
+                                {formatDate(t.transaction_date)} · {t.description || t.reference_number || '-'} ·{' '}
+                                {formatAmount(t.open_amount)}
+                              </div>
+                            ))}
+                          </TableCell>
+                          <TableCell className="text-sm">
+                            {suggestion.entries.map((e) => (
+                              <div key={e.id}>
+                                {formatDate(e.entry_date)} · {e.entry_number || e.reference || '-'} ·{' '}
+                                {formatAmount(e.open_amount)}
+                              </div>
+                            ))}
+                          </TableCell>
+                          <TableCell className="text-right font-medium">{formatAmount(suggestion.amount)}</TableCell>
+                          <TableCell>{getConfidenceBadge(suggestion.confidence)}</TableCell>
+                          <TableCell>
+                            <Button size="sm" onClick={() => acceptSuggestion(suggestion)} disabled={matching}>
+                              <Link2 className="h-4 w-4 mr-1" />
+                              Accept
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="manual" className="space-y-4">
+            <Card>
+              <CardContent className="pt-6 flex flex-wrap items-center justify-between gap-4">
+                <div className="text-sm space-x-4">
+                  <span>Bank: <strong>{formatAmount(selectedTransactionTotal)}</strong></span>
+                  <span>Ledger: <strong>{formatAmount(selectedEntryTotal)}</strong></span>
+                  <span className={manualDifference === 0 ? 'text-green-600' : 'text-red-600'}>
+                    Difference: <strong>{formatAmount(manualDifference)}</strong>
+                  </span>
+                  {isManyToMany && (
+                    <span className="text-red-600">Select a single bank line or a single ledger entry</span>
+                  )}
+                </div>
+                <Button onClick={handleManualMatch} disabled={!canManualMatch || matching}>
+                  <Link2 className="h-4 w-4 mr-2" />
+                  Match Selected
+                </Button>
+              </CardContent>
+            </Card>
+            <div className="grid gap-4 lg:grid-cols-2">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base">Unmatched Bank Lines ({openTransactions.length})</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead />
+                        <TableHead>Date</TableHead>
+                        <TableHead>Description</TableHead>
+                        <TableHead className="text-right">Amount</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {openTransactions.map((t) => (
+                        <TableRow key={t.id}>
+                          <TableCell>
+                            <Checkbox
+                              checked={selectedTransactionIds.includes(t.id)}
+                              onCheckedChange={() => setSelectedTransactionIds((ids) => toggleId(ids, t.id))}
+                            />
+                          </TableCell>
+                          <TableCell>{formatDate(t.transaction_date)}</TableCell>
+                          <TableCell className="text-sm">
+                            {t.description || '-'}
+                            {t.reference_number && <div className="text-xs text-muted-foreground">{t.reference_number}</div>}
+                          </TableCell>
+                          <TableCell className={`text-right ${t.transaction_type === 'credit' ? 'text-green-600' : 'text-red-600'}`}>
+                            {t.transaction_type === 'credit' ? '+' : '-'}{formatAmount(t.open_amount)}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base">Unmatched Ledger Entries ({openEntries.length})</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead />
+                        <TableHead>Date</TableHead>
+                        <TableHead>Entry</TableHead>
+                        <TableHead className="text-right">Amount</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {openEntries.map((e) => (
+                        <TableRow key={e.id}>
+                          <TableCell>
+                            <Checkbox
+                              checked={selectedEntryIds.includes(e.id)}
+                              onCheckedChange={() => setSelectedEntryIds((ids) => toggleId(ids, e.id))}
+                            />
+                          </TableCell>
+                          <TableCell>{formatDate(e.entry_date)}</TableCell>
+                          <TableCell className="text-sm">
+                            {e.source === 'vendor_payment' ? (
+                              <Badge variant="outline">Supplier payment</Badge>
+                            ) : (
+                              e.entry_number || '-'
+                            )}
+                            <div className="text-xs text-muted-foreground">{e.description || e.reference}</div>
+                          </TableCell>
+                          <TableCell className={`text-right ${e.amount >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                            {e.amount >= 0 ? '+' : '-'}{formatAmount(e.open_amount)}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="matched">
+            <Card>
+              <CardContent className="pt-6">
+                {matchGroups.length === 0 ? (
+                  <p className="text-center text-muted-foreground py-8">Nothing matched yet</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Type</TableHead>
+                        <TableHead>Bank Statement</TableHead>
+                        <TableHead>Ledger</TableHead>
+                        <TableHead className="text-right">Amount</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {matchGroups.map(([groupId, rows]) => {
+                        const transactions = Array.from(new Map(rows.map((r) => [r.bank_transaction_id, r])).values());
+                        const entries = Array.from(new Map(rows.map((r) => [r.journal_entry_id, r])).values());
+                        const reconciled = rows.some((r) => r.reconciliation_id);
+                        return (
+                          <TableRow key={groupId}>
+                            <TableCell>
+                              <Badge variant="secondary">{MATCH_TYPE_LABELS[rows[0].match_type]}</Badge>
+                            </TableCell>
+                            <TableCell className="text-sm">
+                              {transactions.map((r) => (
+                                <div key={r.bank_transaction_id}>
+                                  {formatDate(r.transaction_date)} · {r.transaction_description || r.reference_number || '-'}
+                                </div>
+                              ))}
+                            </TableCell>
+                            <TableCell className="text-sm">
+                              {entries.map((r) => (
+                                <div key={r.journal_entry_id}>
+                                  {formatDate(r.entry_date)} · {r.entry_number || r.entry_reference || '-'}
+                                </div>
+                              ))}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              {formatAmount(rows.reduce((sum, r) => sum + Number(r.matched_amount), 0))}
+                            </TableCell>
+                            <TableCell>
+                              {reconciled ? <Badge className="bg-green-100 text-green-800">Reconciled</Badge> : <Badge variant="outline">Matched</Badge>}
+                            </TableCell>
+                            <TableCell>
+                              {!reconciled && (
+                                <Button size="sm" variant="ghost" onClick={() => handleUnmatch(groupId)}>
+                                  <Unlink className="h-4 w-4" />
+                                </Button>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="report">
+            {report && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base">
+                    Reconciliation as at {formatDate(report.statement_date)}
+                  </CardTitle>
+                  <CardDescription>{report.match_count} matches totalling {formatAmount(report.matched_total)} awaiting reconciliation</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  <div className="grid gap-6 md:grid-cols-2">
+                    <div className="space-y-2 text-sm">
+                      <h4 className="font-semibold">Bank</h4>
+                      <div className="flex justify-between"><span>Statement balance</span><span>{formatAmount(report.statement_balance)}</span></div>
+                      <div className="flex justify-between"><span>Add: deposits in transit ({report.deposits_in_transit.length})</span><span>{formatAmount(report.total_deposits_in_transit)}</span></div>
+                      <div className="flex justify-between"><span>Less: outstanding payments ({report.outstanding_payments.length})</span><span>({formatAmount(report.total_outstanding_payments)})</span></div>
+                      <div className="flex justify-between font-semibold border-t pt-2"><span>Adjusted bank balance</span><span>{formatAmount(report.adjusted_bank_balance)}</span></div>
+                    </div>
+                    <div className="space-y-2 text-sm">
+                      <h4 className="font-semibold">Books</h4>
+                      <div className="flex justify-between"><span>Ledger balance</span><span>{formatAmount(report.book_balance)}</span></div>
+                      <div className="flex justify-between"><span>Add: receipts not in books ({report.unrecorded_receipts.length})</span><span>{formatAmount(report.total_unrecorded_receipts)}</span></div>
+                      <div className="flex justify-between"><span>Less: charges not in books ({report.unrecorded_charges.length})</span><span>({formatAmount(report.total_unrecorded_charges)})</span></div>
+                      <div className="flex justify-between font-semibold border-t pt-2"><span>Adjusted book balance</span><span>{formatAmount(report.adjusted_book_balance)}</span></div>
+                    </div>
+                  </div>
+
+                  <div className={`flex items-center justify-between rounded-md border p-4 ${hasDifference ? 'border-red-200 bg-red-50' : 'border-green-200 bg-green-50'}`}>
+                    <div className="flex items-center gap-2">
+                      {hasDifference ? <AlertTriangle className="h-5 w-5 text-red-600" /> : <CheckCircle className="h-5 w-5 text-green-600" />}
+                      <span className="font-medium">Unexplained difference</span>
+                    </div>
+                    <span className="text-lg font-bold">{formatAmount(report.unexplained_difference)}</span>
+                  </div>
+
+                  {[
+                    { title: 'Deposits in transit', items: report.deposits_in_transit },
+                    { title: 'Outstanding payments', items: report.outstanding_payments },
+                  ].filter((section) => section.items.length > 0).map((section) => (
+                    <div key={section.title}>
+                      <h4 className="font-semibold text-sm mb-2">{section.title}</h4>
+                      <Table>
+                        <TableBody>
+                          {section.items.map((e) => (
+                            <TableRow key={e.id}>
+                              <TableCell>{formatDate(e.entry_date)}</TableCell>
+                              <TableCell>{e.entry_number || '-'}</TableCell>
+                              <TableCell>{e.description || e.reference}</TableCell>
+                              <TableCell className="text-right">{formatAmount(e.open_amount)}</TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  ))}
+
+                  {[
+                    { title: 'Receipts not in books', items: report.unrecorded_receipts },
+                    { title: 'Charges not in books', items: report.unrecorded_charges },
+                  ].filter((section) => section.items.length > 0).map((section) => (
+                    <div key={section.title}>
+                      <h4 className="font-semibold text-sm mb-2">{section.title}</h4>
+                      <Table>
+                        <TableBody>
+                          {section.items.map((t) => (
+                            <TableRow key={t.id}>
+                              <TableCell>{formatDate(t.transaction_date)}</TableCell>
+                              <TableCell>{t.reference_number || '-'}</TableCell>
+                              <TableCell>{t.description}</TableCell>
+                              <TableCell className="text-right">{formatAmount(t.open_amount)}</TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  ))}
+
+                  <div>
+                    <Label>Notes</Label>
+                    <Textarea value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="Explain adjustments or open items" />
+                  </div>
+                  <div className="flex justify-end gap-2">
+                    <Button variant="outline" onClick={() => handleSaveReconciliation('pending')} disabled={saving}>
+                      Save Draft
+                    </Button>
+                    <Button onClick={() => handleSaveReconciliation('reconciled')} disabled={saving || hasDifference}>
+                      {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                      Mark Reconciled
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+          </TabsContent>
+
+          <TabsContent value="history">
+            <Card>
+              <CardContent className="pt-6">
+                {history.length === 0 ? (
+                  <p className="text-center text-muted-foreground py-8">No reconciliations yet</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Statement Date</TableHead>
+                        <TableHead className="text-right">Statement</TableHead>
+                        <TableHead className="text-right">Books</TableHead>
+                        <TableHead className="text-right">Unexplained</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead>Reconciled By</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {history.map((item) => (
+                        <TableRow key={item.id}>
+                          <TableCell>{formatDate(item.reconciliation_date)}</TableCell>
+                          <TableCell className="text-right">{formatAmount(item.statement_balance)}</TableCell>
+                          <TableCell className="text-right">{formatAmount(item.book_balance)}</TableCell>
+                          <TableCell className="text-right">{formatAmount(item.unexplained_difference ?? item.difference)}</TableCell>
+                          <TableCell>
+                            <Badge variant={item.status === 'reconciled' ? 'default' : 'outline'}>{item.status}</Badge>
+                          </TableCell>
+                          <TableCell>{item.reconciled_by_email || '-'}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
+      )}
+
+      <Dialog open={accountDialogOpen} onOpenChange={setAccountDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Bank Account</DialogTitle>
+            <DialogDescription>Link it to its ledger account so book balances can be compared</DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label>Account Name *</Label>
+                <Input value={accountForm.account_name} onChange={(e) => setAccountForm({ ...accountForm, account_name: e.target.value })} />
+              </div>
+              <div>
+                <Label>Bank Name *</Label>
+                <Input value={accountForm.bank_name} onChange={(e) => setAccountForm({ ...accountForm, bank_name: e.target.value })} />
+              </div>
+              <div>
+                <Label>Account Number</Label>
+                <Input value={accountForm.account_number} onChange={(e) => setAccountForm({ ...accountForm, account_number: e.target.value })} />
+              </div>
+              <div>
+                <Label>IFSC Code</Label>
+                <Input value={accountForm.ifsc_code} onChange={(e) => setAccountForm({ ...accountForm, ifsc_code: e.target.value })} />
+              </div>
+              <div>
+                <Label>Opening Balance</Label>
+                <Input type="number" step="0.01" value={accountForm.opening_balance} onChange={(e) => setAccountForm({ ...accountForm, opening_balance: e.target.value })} />
+              </div>
+              <div>
+                <Label>Ledger Account</Label>
+                <Select
+                  value={accountForm.gl_account_id || 'none'}
+                  onValueChange={(value) => setAccountForm({ ...accountForm, gl_account_id: value === 'none' ? '' : value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Not linked</SelectItem>
+                    {assetAccounts.map((account) => (
+                      <SelectItem key={account.id} value={account.id}>
+                        {account.account_code} - {account.account_name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setAccountDialogOpen(false)}>Cancel</Button>
+            <Button onClick={handleCreateAccount}>Create</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
@@ -0,0 +1,435 @@
+/**
+ * Budget Form Dialog
+ * Create or edit a budget and its account lines
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { Plus, Trash2, Loader2 } from 'lucide-react';
+import {
+  Budget,
+  BudgetInput,
+  BudgetItemInput,
+  createBudget,
+  updateBudget,
+} from '@/services/api/financial-service';
+
+export interface BudgetLookup {
+  id: string;
+  name: string;
+}
+
+export interface BudgetAccountLookup {
+  id: string;
+  account_code: string;
+  account_name: string;
+  account_type: string;
+}
+
+interface BudgetFormDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  budget?: Budget | null;
+  accounts: BudgetAccountLookup[];
+  departments: BudgetLookup[];
+  projects: BudgetLookup[];
+  onBudgetSaved: () => void;
+}
+
+const BUDGET_TYPES = [
+  { value: 'annual', label: 'Annual' },
+  { value: 'quarterly', label: 'Quarterly' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'department', label: 'Department' },
+  { value: 'project', label: 'Project' },
+];
+
+const getDefaultFiscalYear = () => {
+  // Indian fiscal year runs April to March
+  const now = new Date();
+  const startYear = now.getMonth() >= 3 ? now.getFullYear() : now.getFullYear() - 1;
+  return {
+    fiscal_year: `${startYear}-${String(startYear + 1).slice(-2)}`,
+    period_start: `${startYear}-04-01`,
+    period_end: `${startYear + 1}-03-31`,
+  };
+};
+
+const emptyLine = (): BudgetItemInput => ({
+  account_id: '',
+  category: '',
+  description: '',
+  period_start: '',
+  period_end: '',
+  budgeted_amount: 0,
+});
+
+const toDateInput = (value?: string | null) => (value ? String(value).split('T')[0] : '');
+
+const BudgetFormDialog: React.FC<BudgetFormDialogProps> = ({
+  isOpen,
+  onClose,
+  budget,
+  accounts,
+  departments,
+  projects,
+  onBudgetSaved,
+}) => {
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(false);
+  const [formData, setFormData] = useState<BudgetInput>({ budget_name: '', period_start: '', period_end: '' });
+  const [thresholds, setThresholds] = useState('80, 100');
+  const [lines, setLines] = useState<BudgetItemInput[]>([emptyLine()]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    if (budget) {
+      setFormData({
+        budget_name: budget.budget_name,
+        budget_type: budget.budget_type || 'annual',
+        fiscal_year: budget.fiscal_year || '',
+        period_start: toDateInput(budget.period_start),
+        period_end: toDateInput(budget.period_end),
+        department_id: budget.department_id || null,
+        project_id: budget.project_id || null,
+        notes: budget.notes || '',
+      });
+      setThresholds((budget.alert_thresholds || [80, 100]).join(', '));
+      setLines(
+        budget.items.length > 0
+          ? budget.items.map((item) => ({
+              account_id: item.account_id || '',
+              category: item.category || '',
+              description: item.description || '',
+              period_start: toDateInput(item.period_start),
+              period_end: toDateInput(item.period_end),
+              budgeted_amount: item.budgeted_amount,
+            }))
+          : [emptyLine()]
+      );
+    } else {
+      setFormData({ budget_name: '', budget_type: 'annual', ...getDefaultFiscalYear(), notes: '' });
+      setThresholds('80, 100');
+      setLines([emptyLine()]);
+    }
+  }, [isOpen, budget]);
+
+  const updateLine = (index: number, field: keyof BudgetItemInput, value: string | number) => {
+    setLines((prev) => prev.map((line, i) => (i === index ? { ...line, [field]: value } : line)));
+  };
+
+  const totalBudget = lines.reduce((sum, line) => sum + (Number(line.budgeted_amount) || 0), 0);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.budget_name.trim() || !formData.period_start || !formData.period_end) {
+      toast({ title: 'Validation Error', description: 'Name and budget period are required', variant: 'destructive' });
+      return;
+    }
+    if (formData.period_end < formData.period_start) {
+      toast({ title: 'Validation Error', description: 'Period end must be after period start', variant: 'destructive' });
+      return;
+    }
+
+    const items = lines
+      .filter((line) => line.account_id || line.category || Number(line.budgeted_amount) > 0)
+      .map((line) => ({
+        account_id: line.account_id || null,
+        category: line.category || null,
+        description: line.description || null,
+        period_start: line.period_start || null,
+        period_end: line.period_end || null,
+        budgeted_amount: Number(line.budgeted_amount) || 0,
+      }));
+
+    if (items.length === 0) {
+      toast({ title: 'Validation Error', description: 'Add at least one budget line', variant: 'destructive' });
+      return;
+    }
+    if (items.some((item) => !item.account_id && !item.category)) {
+      toast({ title: 'Validation Error', description: 'Each line needs an account or a category', variant: 'destructive' });
+      return;
+    }
+
+    const alertThresholds = thresholds
+      .split(',')
+      .map((value) => parseFloat(value.trim()))
+      .filter((value) => value > 0);
+
+    const payload: BudgetInput = {
+      ...formData,
+      budget_name: formData.budget_name.trim(),
+      department_id: formData.department_id || null,
+      project_id: formData.project_id || null,
+      alert_thresholds: alertThresholds,
+      items,
+    };
+
+    setLoading(true);
+    try {
+      if (budget?.id) {
+        await updateBudget(budget.id, payload);
+      } else {
+        await createBudget(payload);
+      }
+      toast({
+        title: 'Success',
+        description: budget?.id ? 'Budget updated successfully' : 'Budget created successfully',
+      });
+      onBudgetSaved();
+      onClose();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save budget',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{budget?.id ? 'Edit Budget' : 'Create Budget'}</DialogTitle>
+          <DialogDescription>
+            Budget lines against ledger accounts are tracked live from posted journal entries.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div className="space-y-2 sm:col-span-2">
+              <Label htmlFor="budget_name">Budget Name *</Label>
+              <Input
+                id="budget_name"
+                value={formData.budget_name}
+                onChange={(e) => setFormData((prev) => ({ ...prev, budget_name: e.target.value }))}
+                placeholder="e.g. Marketing FY 2025-26"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Budget Type</Label>
+              <Select
+                value={formData.budget_type || 'annual'}
+                onValueChange={(value) => setFormData((prev) => ({ ...prev, budget_type: value }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {BUDGET_TYPES.map((type) => (
+                    <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="fiscal_year">Fiscal Year</Label>
+              <Input
+                id="fiscal_year"
+                value={formData.fiscal_year || ''}
+                onChange={(e) => setFormData((prev) => ({ ...prev, fiscal_year: e.target.value }))}
+                placeholder="2025-26"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="period_start">Period Start *</Label>
+              <Input
+                id="period_start"
+                type="date"
+                value={formData.period_start}
+                onChange={(e) => setFormData((prev) => ({ ...prev, period_start: e.target.value }))}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="period_end">Period End *</Label>
+              <Input
+                id="period_end"
+                type="date"
+                value={formData.period_end}
+                onChange={(e) => setFormData((prev) => ({ ...prev, period_end: e.target.value }))}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Department</Label>
+              <Select
+                value={formData.department_id || 'none'}
+                onValueChange={(value) => setFormData((prev) => ({ ...prev, department_id: value === 'none' ? null : value }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">All departments</SelectItem>
+                  {departments.map((department) => (
+                    <SelectItem key={department.id} value={department.id}>{department.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Project</Label>
+              <Select
+                value={formData.project_id || 'none'}
+                onValueChange={(value) => setFormData((prev) => ({ ...prev, project_id: value === 'none' ? null : value }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">All projects</SelectItem>
+                  {projects.map((project) => (
+                    <SelectItem key={project.id} value={project.id}>{project.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="thresholds">Alert Thresholds (%)</Label>
+              <Input
+                id="thresholds"
+                value={thresholds}
+                onChange={(e) => setThresholds(e.target.value)}
+                placeholder="80, 100"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            <div className="flex justify-between items-center">
+              <Label>Budget Lines *</Label>
+              <Button type="button" variant="outline" size="sm" onClick={() => setLines((prev) => [...prev, emptyLine()])}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add Line
+              </Button>
+            </div>
+
+            <div className="border rounded-lg p-4 space-y-4">
+              <div className="grid grid-cols-12 gap-2 text-sm font-medium text-muted-foreground pb-2 border-b">
+                <div className="col-span-3">Account</div>
+                <div className="col-span-2">Category</div>
+                <div className="col-span-2">From</div>
+                <div className="col-span-2">To</div>
+                <div className="col-span-2">Amount</div>
+                <div className="col-span-1"></div>
+              </div>
+
+              {lines.map((line, index) => (
+                <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                  <div className="col-span-3">
+                    <Select
+                      value={line.account_id || 'none'}
+                      onValueChange={(value) => updateLine(index, 'account_id', value === 'none' ? '' : value)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select account" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">No account</SelectItem>
+                        {accounts.map((account) => (
+                          <SelectItem key={account.id} value={account.id}>
+                            {account.account_code} - {account.account_name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="col-span-2">
+                    <Input
+                      value={line.category || ''}
+                      onChange={(e) => updateLine(index, 'category', e.target.value)}
+                      placeholder="Category"
+                    />
+                  </div>
+                  <div className="col-span-2">
+                    <Input
+                      type="date"
+                      value={line.period_start || ''}
+                      onChange={(e) => updateLine(index, 'period_start', e.target.value)}
+                    />
+                  </div>
+                  <div className="col-span-2">
+                    <Input
+                      type="date"
+                      value={line.period_end || ''}
+                      onChange={(e) => updateLine(index, 'period_end', e.target.value)}
+                    />
+                  </div>
+                  <div className="col-span-2">
+                    <Input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={line.budgeted_amount || ''}
+                      onChange={(e) => updateLine(index, 'budgeted_amount', parseFloat(e.target.value) || 0)}
+                      placeholder="0.00"
+                    />
+                  </div>
+                  <div className="col-span-1">
+                    {lines.length > 1 && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setLines((prev) => prev.filter((_, i) => i !== index))}
+                      >
+                        <Trash2 className="h-4 w-4 text-red-500" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+
+              <p className="text-xs text-muted-foreground">
+                Leave the line dates empty to use the whole budget period. Lines without an account are tracked manually.
+              </p>
+
+              <div className="grid grid-cols-12 gap-2 pt-2 border-t font-semibold">
+                <div className="col-span-9 text-right">Total Budget:</div>
+                <div className="col-span-2">
+                  ₹{totalBudget.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                </div>
+                <div className="col-span-1"></div>
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="notes">Notes</Label>
+            <Textarea
+              id="notes"
+              value={formData.notes || ''}
+              onChange={(e) => setFormData((prev) => ({ ...prev, notes: e.target.value }))}
+              rows={2}
+            />
+          </div>
+
+          <DialogFooter className="flex flex-col sm:flex-row gap-2 sm:gap-0">
+            <Button type="button" variant="outline" onClick={onClose} className="w-full sm:w-auto">
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading} className="w-full sm:w-auto">
+              {loading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {budget?.id ? 'Update Budget' : 'Create Budget'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BudgetFormDialog;
@@ -0,0 +1,91 @@
+/**
+ * Cost Allocation Fields
+ * Department and project tags stamped onto journal entry lines so
+ * department and project budgets can pick up their actuals
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { selectRecords } from '@/services/api/postgresql-service';
+
+interface AllocationOption {
+  id: string;
+  name: string;
+}
+
+interface CostAllocationFieldsProps {
+  departmentId?: string | null;
+  projectId?: string | null;
+  onChange: (allocation: { department_id: string | null; project_id: string | null }) => void;
+}
+
+const CostAllocationFields: React.FC<CostAllocationFieldsProps> = ({ departmentId, projectId, onChange }) => {
+  const [departments, setDepartments] = useState<AllocationOption[]>([]);
+  const [projects, setProjects] = useState<AllocationOption[]>([]);
+
+  useEffect(() => {
+    const fetchOptions = async () => {
+      try {
+        // Isolated agency database: every department and project belongs to this agency
+        const [departmentData, projectData] = await Promise.all([
+          selectRecords<AllocationOption>('departments', {
+            select: 'id, name',
+            filters: [{ column: 'is_active', operator: 'eq', value: true }],
+            orderBy: 'name ASC',
+          }),
+          selectRecords<AllocationOption>('projects', {
+            select: 'id, name',
+            orderBy: 'name ASC',
+          }),
+        ]);
+        setDepartments(departmentData || []);
+        setProjects(projectData || []);
+      } catch (error) {
+        console.error('Error fetching cost allocation options:', error);
+      }
+    };
+    fetchOptions();
+  }, []);
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+      <div className="space-y-2">
+        <Label>Department</Label>
+        <Select
+          value={departmentId || 'none'}
+          onValueChange={(value) => onChange({ department_id: value === 'none' ? null : value, project_id: projectId || null })}
+        >
+          <SelectTrigger>
+            <SelectValue placeholder="Not allocated" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">Not allocated</SelectItem>
+            {departments.map((department) => (
+              <SelectItem key={department.id} value={department.id}>{department.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label>Project</Label>
+        <Select
+          value={projectId || 'none'}
+          onValueChange={(value) => onChange({ department_id: departmentId || null, project_id: value === 'none' ? null : value })}
+        >
+          <SelectTrigger>
+            <SelectValue placeholder="Not allocated" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">Not allocated</SelectItem>
+            {projects.map((project) => (
+              <SelectItem key={project.id} value={project.id}>{project.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+};
+
+export default CostAllocationFields;
@@ -0,0 +1,532 @@
+/**
+ * Currency Management
+ * Maintain dated exchange rates (manual or CSV) and post month-end FX revaluations
+ */
+
+import React, { useState, useEffect, useRef } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { Plus, Upload, Loader2, Trash2, AlertTriangle, Calculator, RotateCcw } from 'lucide-react';
+import {
+  Currency,
+  ExchangeRate,
+  FxRevaluation,
+  FxRevaluationLine,
+  FxRevaluationPreview,
+  cancelFxRevaluation,
+  deleteExchangeRate,
+  getCurrencies,
+  getExchangeRates,
+  getFxRevaluations,
+  importExchangeRates,
+  previewFxRevaluation,
+  runFxRevaluation,
+  saveExchangeRate,
+} from '@/services/api/financial-service';
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const lastDayOfPreviousMonth = () => {
+  const now = new Date();
+  const date = new Date(Date.UTC(now.getFullYear(), now.getMonth(), 0));
+  return date.toISOString().split('T')[0];
+};
+
+const formatAmount = (value: number, currency: string) =>
+  `${currency} ${Number(value || 0).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDate = (value?: string | null) => (value ? new Date(value).toLocaleDateString() : '-');
+
+const SOURCE_LABELS: Record<string, string> = {
+  manual: 'Manual',
+  csv: 'CSV',
+  api: 'Feed',
+};
+
+const gainLossClass = (value: number) => (value > 0 ? 'text-green-600' : value < 0 ? 'text-red-600' : '');
+
+export const CurrencyManagement: React.FC = () => {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [currencies, setCurrencies] = useState<Currency[]>([]);
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [ratesLoading, setRatesLoading] = useState(false);
+  const [currencyFilter, setCurrencyFilter] = useState('all');
+  const [rateForm, setRateForm] = useState({ currency_code: '', rate_date: today(), rate: '' });
+  const [savingRate, setSavingRate] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [importErrors, setImportErrors] = useState<{ line: number; error: string }[]>([]);
+
+  const [revaluationDate, setRevaluationDate] = useState(lastDayOfPreviousMonth());
+  const [rateOverrides, setRateOverrides] = useState<Record<string, string>>({});
+  const [preview, setPreview] = useState<FxRevaluationPreview | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [posting, setPosting] = useState(false);
+  const [revaluations, setRevaluations] = useState<FxRevaluation[]>([]);
+
+  const baseCurrency = currencies.find((c) => c.is_base)?.code || 'INR';
+  const foreignCurrencies = currencies.filter((c) => !c.is_base);
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: 'Error',
+      description: error instanceof Error ? error.message : fallback,
+      variant: 'destructive',
+    });
+  };
+
+  useEffect(() => {
+    loadCurrencies();
+    loadRevaluations();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  useEffect(() => {
+    loadRates();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currencyFilter]);
+
+  const loadCurrencies = async () => {
+    try {
+      setCurrencies(await getCurrencies());
+    } catch (error) {
+      showError(error, 'Failed to load currencies');
+    }
+  };
+
+  const loadRates = async () => {
+    try {
+      setRatesLoading(true);
+      setRates(await getExchangeRates(currencyFilter === 'all' ? undefined : { currency_code: currencyFilter }));
+    } catch (error) {
+      showError(error, 'Failed to load exchange rates');
+    } finally {
+      setRatesLoading(false);
+    }
+  };
+
+  const loadRevaluations = async () => {
+    try {
+      setRevaluations(await getFxRevaluations());
+    } catch (error) {
+      showError(error, 'Failed to load revaluations');
+    }
+  };
+
+  const handleSaveRate = async () => {
+    const rate = parseFloat(rateForm.rate);
+    if (!rateForm.currency_code || !rateForm.rate_date || !(rate > 0)) {
+      toast({ title: 'Validation Error', description: 'Currency, date and a positive rate are required', variant: 'destructive' });
+      return;
+    }
+    try {
+      setSavingRate(true);
+      await saveExchangeRate({ currency_code: rateForm.currency_code, rate_date: rateForm.rate_date, rate });
+      toast({ title: 'Success', description: `${rateForm.currency_code} rate saved for ${formatDate(rateForm.rate_date)}` });
+      setRateForm((prev) => ({ ...prev, rate: '' }));
+      loadRates();
+      loadCurrencies();
+    } catch (error) {
+      showError(error, 'Failed to save exchange rate');
+    } finally {
+      setSavingRate(false);
+    }
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      setImporting(true);
+      const result = await importExchangeRates(await file.text());
+      setImportErrors(result.errors);
+      toast({
+        title: result.errors.length > 0 ? 'Imported with errors' : 'Success',
+        description: `${result.imported.length} rate(s) imported${result.errors.length > 0 ? `, ${result.errors.length} line(s) skipped` : ''}`,
+        variant: result.imported.length === 0 && result.errors.length > 0 ? 'destructive' : 'default',
+      });
+      loadRates();
+      loadCurrencies();
+    } catch (error) {
+      showError(error, 'Failed to import exchange rates');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleDeleteRate = async (rate: ExchangeRate) => {
+    if (!window.confirm(`Delete the ${rate.currency_code} rate for ${formatDate(rate.rate_date)}?`)) return;
+    try {
+      await deleteExchangeRate(rate.id);
+      loadRates();
+    } catch (error) {
+      showError(error, 'Failed to delete exchange rate');
+    }
+  };
+
+  const buildOverrides = () => {
+    const overrides: Record<string, number> = {};
+    for (const [code, value] of Object.entries(rateOverrides)) {
+      const rate = parseFloat(value);
+      if (rate > 0) overrides[code] = rate;
+    }
+    return overrides;
+  };
+
+  const handlePreview = async () => {
+    try {
+      setPreviewing(true);
+      const result = await previewFxRevaluation({ revaluation_date: revaluationDate, rates: buildOverrides() });
+      setPreview(result);
+      setRateOverrides((prev) => {
+        const next = { ...prev };
+        for (const [code, rate] of Object.entries(result.rates)) {
+          if (!next[code]) next[code] = String(rate);
+        }
+        for (const code of result.missing_rates) {
+          if (!next[code]) next[code] = '';
+        }
+        return next;
+      });
+    } catch (error) {
+      showError(error, 'Failed to preview revaluation');
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const handlePost = async () => {
+    if (!preview) return;
+    try {
+      setPosting(true);
+      const result = await runFxRevaluation({ revaluation_date: revaluationDate, rates: buildOverrides() });
+      toast({
+        title: 'Revaluation posted',
+        description: `Unrealized ${result.total_gain_loss >= 0 ? 'gain' : 'loss'} of ${formatAmount(Math.abs(result.total_gain_loss), result.base_currency)} posted and reversed on the next day`,
+      });
+      setPreview(null);
+      setRateOverrides({});
+      loadRevaluations();
+    } catch (error) {
+      showError(error, 'Failed to post revaluation');
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  const handleCancelRevaluation = async (revaluation: FxRevaluation) => {
+    if (!window.confirm(`Cancel the revaluation of ${formatDate(revaluation.revaluation_date)}? Its journal entries will be removed.`)) return;
+    try {
+      await cancelFxRevaluation(revaluation.id);
+      toast({ title: 'Success', description: 'Revaluation cancelled' });
+      loadRevaluations();
+    } catch (error) {
+      showError(error, 'Failed to cancel revaluation');
+    }
+  };
+
+  const renderPreviewLines = (title: string, lines: FxRevaluationLine[], total: number) => (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium">{title}</h4>
+        <span className={`font-semibold ${gainLossClass(total)}`}>{formatAmount(total, preview?.base_currency || baseCurrency)}</span>
+      </div>
+      {lines.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No open foreign currency documents</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Document</TableHead>
+              <TableHead>Currency</TableHead>
+              <TableHead className="text-right">Outstanding</TableHead>
+              <TableHead className="text-right">Booked Rate</TableHead>
+              <TableHead className="text-right">Closing Rate</TableHead>
+              <TableHead className="text-right">Carrying</TableHead>
+              <TableHead className="text-right">Revalued</TableHead>
+              <TableHead className="text-right">Gain / Loss</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {lines.map((line) => (
+              <TableRow key={`${line.document_type}-${line.document_id}`}>
+                <TableCell>
+                  <div className="font-medium">{line.document_number}</div>
+                  <div className="text-xs text-muted-foreground">{formatDate(line.document_date)}</div>
+                </TableCell>
+                <TableCell>{line.currency}</TableCell>
+                <TableCell className="text-right">{Number(line.outstanding).toLocaleString('en-IN', { maximumFractionDigits: 2 })}</TableCell>
+                <TableCell className="text-right">{line.booked_rate}</TableCell>
+                <TableCell className="text-right">{line.closing_rate}</TableCell>
+                <TableCell className="text-right">{Number(line.carrying_amount).toLocaleString('en-IN', { maximumFractionDigits: 2 })}</TableCell>
+                <TableCell className="text-right">{Number(line.revalued_amount).toLocaleString('en-IN', { maximumFractionDigits: 2 })}</TableCell>
+                <TableCell className={`text-right font-medium ${gainLossClass(line.gain_loss)}`}>
+                  {Number(line.gain_loss).toLocaleString('en-IN', { maximumFractionDigits: 2 })}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+            <div>
+              <CardTitle>Exchange Rates</CardTitle>
+              <CardDescription>
+                Dated rates used for documents, payments and revaluation. Rates are {baseCurrency} per unit of the foreign currency.
+              </CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <input ref={fileInputRef} type="file" accept=".csv,text/csv" className="hidden" onChange={handleImport} />
+              <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={importing}>
+                {importing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+                Import CSV
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-4 items-end">
+            <div className="space-y-2">
+              <Label>Currency</Label>
+              <Select value={rateForm.currency_code || undefined} onValueChange={(value) => setRateForm((prev) => ({ ...prev, currency_code: value }))}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select currency" />
+                </SelectTrigger>
+                <SelectContent>
+                  {foreignCurrencies.map((currency) => (
+                    <SelectItem key={currency.code} value={currency.code}>
+                      {currency.code} - {currency.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Date</Label>
+              <Input type="date" value={rateForm.rate_date} onChange={(e) => setRateForm((prev) => ({ ...prev, rate_date: e.target.value }))} />
+            </div>
+            <div className="space-y-2">
+              <Label>Rate ({baseCurrency})</Label>
+              <Input
+                type="number"
+                min="0"
+                step="0.000001"
+                value={rateForm.rate}
+                onChange={(e) => setRateForm((prev) => ({ ...prev, rate: e.target.value }))}
+                placeholder="e.g. 83.25"
+              />
+            </div>
+            <Button onClick={handleSaveRate} disabled={savingRate}>
+              {savingRate ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+              Save Rate
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            CSV files can list one rate per line (currency,date,rate) or one date per line with a column per currency (date,USD,EUR,...).
+          </p>
+
+          {importErrors.length > 0 && (
+            <div className="rounded-md border border-yellow-300 bg-yellow-50 p-3 text-sm">
+              <div className="flex items-center gap-2 font-medium text-yellow-800">
+                <AlertTriangle className="h-4 w-4" />
+                {importErrors.length} line(s) were not imported
+              </div>
+              <ul className="mt-2 space-y-1 text-yellow-800">
+                {importErrors.slice(0, 10).map((error) => (
+                  <li key={`${error.line}-${error.error}`}>Line {error.line}: {error.error}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="flex items-center gap-2">
+            <Label className="text-sm">Show</Label>
+            <Select value={currencyFilter} onValueChange={setCurrencyFilter}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All currencies</SelectItem>
+                {foreignCurrencies.map((currency) => (
+                  <SelectItem key={currency.code} value={currency.code}>{currency.code}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {ratesLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : rates.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">No exchange rates recorded yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Currency</TableHead>
+                  <TableHead className="text-right">Rate</TableHead>
+                  <TableHead>Source</TableHead>
+                  <TableHead className="w-12"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rates.map((rate) => (
+                  <TableRow key={rate.id}>
+                    <TableCell>{formatDate(rate.rate_date)}</TableCell>
+                    <TableCell>{rate.currency_code}</TableCell>
+                    <TableCell className="text-right font-mono">{Number(rate.rate)}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{SOURCE_LABELS[rate.source] || rate.source}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      <Button variant="ghost" size="sm" onClick={() => handleDeleteRate(rate)} title="Delete rate">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>FX Revaluation</CardTitle>
+          <CardDescription>
+            Revalue open foreign currency receivables and payables at the closing rate. The unrealized gain or loss is posted on the
+            revaluation date and reversed on the following day.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-2">
+              <Label>Revaluation Date</Label>
+              <Input
+                type="date"
+                value={revaluationDate}
+                onChange={(e) => {
+                  setRevaluationDate(e.target.value);
+                  setPreview(null);
+                  setRateOverrides({});
+                }}
+              />
+            </div>
+            <Button variant="outline" onClick={handlePreview} disabled={previewing || !revaluationDate}>
+              {previewing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Calculator className="mr-2 h-4 w-4" />}
+              Preview
+            </Button>
+            <Button
+              onClick={handlePost}
+              disabled={posting || !preview || preview.missing_rates.length > 0 || (preview.receivables.length === 0 && preview.payables.length === 0)}
+            >
+              {posting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Post Revaluation
+            </Button>
+          </div>
+
+          {Object.keys(rateOverrides).length > 0 && (
+            <div className="space-y-2">
+              <Label className="text-sm">Closing rates (edit and preview again to override)</Label>
+              <div className="flex flex-wrap gap-3">
+                {Object.entries(rateOverrides).map(([code, value]) => (
+                  <div key={code} className="flex items-center gap-2">
+                    <span className="text-sm font-medium w-10">{code}</span>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.000001"
+                      className="w-32"
+                      value={value}
+                      onChange={(e) => setRateOverrides((prev) => ({ ...prev, [code]: e.target.value }))}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {preview && (
+            <div className="space-y-4">
+              {preview.missing_rates.length > 0 && (
+                <div className="flex items-center gap-2 rounded-md border border-red-300 bg-red-50 p-3 text-sm text-red-800">
+                  <AlertTriangle className="h-4 w-4" />
+                  No rate on or before {formatDate(preview.revaluation_date)} for {preview.missing_rates.join(', ')}. Enter a closing rate and preview again.
+                </div>
+              )}
+              {renderPreviewLines('Receivables', preview.receivables, preview.receivables_gain_loss)}
+              {renderPreviewLines('Payables', preview.payables, preview.payables_gain_loss)}
+              <div className="flex justify-between border-t pt-3 font-semibold">
+                <span>Total unrealized gain / loss</span>
+                <span className={gainLossClass(preview.total_gain_loss)}>{formatAmount(preview.total_gain_loss, preview.base_currency)}</span>
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <h4 className="font-medium">History</h4>
+            {revaluations.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No revaluations posted yet</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead className="text-right">Receivables</TableHead>
+                    <TableHead className="text-right">Payables</TableHead>
+                    <TableHead className="text-right">Total</TableHead>
+                    <TableHead>Entries</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="w-12"></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {revaluations.map((revaluation) => (
+                    <TableRow key={revaluation.id}>
+                      <TableCell>{formatDate(revaluation.revaluation_date)}</TableCell>
+                      <TableCell className="text-right">{Number(revaluation.receivables_gain_loss).toLocaleString('en-IN', { maximumFractionDigits: 2 })}</TableCell>
+                      <TableCell className="text-right">{Number(revaluation.payables_gain_loss).toLocaleString('en-IN', { maximumFractionDigits: 2 })}</TableCell>
+                      <TableCell className={`text-right font-medium ${gainLossClass(Number(revaluation.total_gain_loss))}`}>
+                        {formatAmount(Number(revaluation.total_gain_loss), revaluation.base_currency)}
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground">
+                        {[revaluation.journal_entry_number, revaluation.reversal_entry_number].filter(Boolean).join(' / ') || '-'}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={revaluation.status === 'posted' ? 'default' : 'secondary'}>{revaluation.status}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        {revaluation.status === 'posted' && (
+                          <Button variant="ghost" size="sm" onClick={() => handleCancelRevaluation(revaluation)} title="Cancel revaluation">
+                            <RotateCcw className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,130 @@
+/**
+ * Currency and exchange rate fields for documents (invoices, quotations, purchase orders)
+ * The rate is base currency units per unit of the document currency
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { RefreshCw } from 'lucide-react';
+import { Currency, getCurrencies, lookupExchangeRate } from '@/services/api/financial-service';
+
+export interface CurrencyRateValue {
+  currency: string;
+  exchange_rate: number;
+}
+
+interface CurrencyRateFieldsProps {
+  value: CurrencyRateValue;
+  onChange: (value: CurrencyRateValue) => void;
+  /** Date the rate should apply on, usually the document date */
+  rateDate: string;
+  /** Document total in its own currency, shown converted to base */
+  total?: number;
+  disabled?: boolean;
+}
+
+const formatMoney = (amount: number, currency: string) => {
+  try {
+    return new Intl.NumberFormat('en-IN', { style: 'currency', currency, maximumFractionDigits: 2 }).format(amount);
+  } catch {
+    return `${currency} ${amount.toLocaleString('en-IN', { maximumFractionDigits: 2 })}`;
+  }
+};
+
+export const CurrencyRateFields: React.FC<CurrencyRateFieldsProps> = ({ value, onChange, rateDate, total, disabled }) => {
+  const [currencies, setCurrencies] = useState<Currency[]>([]);
+  const [rateInfo, setRateInfo] = useState<string | null>(null);
+  const [lookingUp, setLookingUp] = useState(false);
+
+  const baseCurrency = currencies.find((c) => c.is_base)?.code || 'INR';
+  const isForeign = !!value.currency && value.currency !== baseCurrency;
+
+  useEffect(() => {
+    getCurrencies()
+      .then(setCurrencies)
+      .catch((error) => console.error('Error loading currencies:', error));
+  }, []);
+
+  // New documents start in the base currency
+  useEffect(() => {
+    if (currencies.length > 0 && !value.currency) {
+      onChange({ currency: baseCurrency, exchange_rate: 1 });
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currencies, value.currency]);
+
+  const fetchRate = async (currency: string) => {
+    if (currency === baseCurrency) {
+      setRateInfo(null);
+      onChange({ currency, exchange_rate: 1 });
+      return;
+    }
+    try {
+      setLookingUp(true);
+      const rate = await lookupExchangeRate(currency, rateDate || new Date().toISOString().split('T')[0]);
+      setRateInfo(`Rate from ${rate.rate_date} (${rate.source.replace('_', ' ')})`);
+      onChange({ currency, exchange_rate: Number(Number(rate.rate).toFixed(6)) });
+    } catch (error) {
+      setRateInfo(error instanceof Error ? `${error.message}. Enter the rate manually.` : 'No rate on file. Enter the rate manually.');
+      onChange({ currency, exchange_rate: value.currency === currency ? value.exchange_rate : 0 });
+    } finally {
+      setLookingUp(false);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+      <div className="space-y-2">
+        <Label>Currency</Label>
+        <Select value={value.currency || undefined} onValueChange={fetchRate} disabled={disabled}>
+          <SelectTrigger>
+            <SelectValue placeholder="Select currency" />
+          </SelectTrigger>
+          <SelectContent>
+            {currencies.map((currency) => (
+              <SelectItem key={currency.code} value={currency.code}>
+                {currency.code} - {currency.name}{currency.is_base ? ' (base)' : ''}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label>Exchange Rate {isForeign && <span className="text-muted-foreground font-normal">(1 {value.currency} = ? {baseCurrency})</span>}</Label>
+        <div className="flex gap-2">
+          <Input
+            type="number"
+            min="0"
+            step="0.000001"
+            value={isForeign ? value.exchange_rate || '' : 1}
+            onChange={(e) => onChange({ ...value, exchange_rate: Number(e.target.value) || 0 })}
+            disabled={disabled || !isForeign}
+          />
+          {isForeign && (
+            <Button
+              type="button"
+              variant="outline"
+              size="icon"
+              onClick={() => fetchRate(value.currency)}
+              disabled={disabled || lookingUp}
+              title="Use the rate on file for this date"
+            >
+              <RefreshCw className={`h-4 w-4 ${lookingUp ? 'animate-spin' : ''}`} />
+            </Button>
+          )}
+        </div>
+        {isForeign && (
+          <p className="text-xs text-muted-foreground">
+            {rateInfo && <span className="block">{rateInfo}</span>}
+            {total !== undefined && value.exchange_rate > 0 && (
+              <span>Base equivalent: {formatMoney(total * value.exchange_rate, baseCurrency)}</span>
+            )}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
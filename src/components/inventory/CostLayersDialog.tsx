@@ -0,0 +1,205 @@
+/**
+ * Cost Layers Dialog
+ * Drill-down from the stock value report into the receipt layers that make up a stock record's value
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2 } from 'lucide-react';
+import {
+  CostLayer,
+  StockValueReportItem,
+  ValuationMethod,
+  getCostLayers,
+  updateValuationMethod,
+} from '@/services/api/inventory-service';
+
+interface CostLayersDialogProps {
+  item: StockValueReportItem | null;
+  onClose: () => void;
+  onMethodChanged: () => void;
+}
+
+const METHOD_LABELS: Record<ValuationMethod, string> = {
+  FIFO: 'FIFO (First In, First Out)',
+  FEFO: 'FEFO (First Expiry, First Out)',
+  LIFO: 'LIFO (Last In, First Out)',
+  weighted_average: 'Weighted Average',
+};
+
+const LAYER_TYPE_LABELS: Record<CostLayer['layer_type'], string> = {
+  receipt: 'Receipt',
+  opening: 'Opening',
+  adjustment: 'Adjustment',
+  transfer: 'Transfer',
+  return: 'Return',
+};
+
+const toNumber = (value: unknown) => Number(value) || 0;
+
+const formatMoney = (value: unknown) =>
+  toNumber(value).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+export const CostLayersDialog: React.FC<CostLayersDialogProps> = ({ item, onClose, onMethodChanged }) => {
+  const { toast } = useToast();
+  const [layers, setLayers] = useState<CostLayer[]>([]);
+  const [includeClosed, setIncludeClosed] = useState(false);
+  const [method, setMethod] = useState<ValuationMethod>('weighted_average');
+  const [loading, setLoading] = useState(false);
+  const [savingMethod, setSavingMethod] = useState(false);
+
+  useEffect(() => {
+    if (item) setMethod(item.valuation_method || 'weighted_average');
+  }, [item]);
+
+  useEffect(() => {
+    if (!item) return;
+    const load = async () => {
+      try {
+        setLoading(true);
+        setLayers(await getCostLayers(item.inventory_id, includeClosed));
+      } catch (error) {
+        toast({
+          title: 'Error',
+          description: error instanceof Error ? error.message : 'Failed to load cost layers',
+          variant: 'destructive',
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [item, includeClosed]);
+
+  const handleMethodChange = async (value: string) => {
+    if (!item) return;
+    const next = value as ValuationMethod;
+    try {
+      setSavingMethod(true);
+      await updateValuationMethod(item.inventory_id, next);
+      setMethod(next);
+      toast({ title: 'Valuation method updated', description: 'Future issues will be costed by the new method.' });
+      onMethodChanged();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update valuation method',
+        variant: 'destructive',
+      });
+    } finally {
+      setSavingMethod(false);
+    }
+  };
+
+  const openQuantity = layers.reduce((sum, layer) => sum + toNumber(layer.remaining_quantity), 0);
+  const openValue = layers.reduce((sum, layer) => sum + toNumber(layer.remaining_value), 0);
+  const today = new Date().toISOString().split('T')[0];
+
+  return (
+    <Dialog open={!!item} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Cost Layers</DialogTitle>
+          <DialogDescription>
+            {item?.sku} - {item?.name} at {item?.warehouse_code}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div className="space-y-2 w-72">
+            <Label>Valuation Method</Label>
+            <Select value={method} onValueChange={handleMethodChange} disabled={savingMethod}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(METHOD_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch checked={includeClosed} onCheckedChange={setIncludeClosed} />
+            <Label>Show fully issued layers</Label>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Received</TableHead>
+                <TableHead>Source</TableHead>
+                <TableHead>Batch</TableHead>
+                <TableHead>Expiry</TableHead>
+                <TableHead className="text-right">Received Qty</TableHead>
+                <TableHead className="text-right">Issued</TableHead>
+                <TableHead className="text-right">On Hand</TableHead>
+                <TableHead className="text-right">Unit Cost</TableHead>
+                <TableHead className="text-right">Value</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {layers.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={9} className="text-center text-muted-foreground">
+                    No cost layers yet. Layers are created as stock is received.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                layers.map((layer) => (
+                  <TableRow key={layer.id} className={toNumber(layer.remaining_quantity) > 0 ? '' : 'opacity-60'}>
+                    <TableCell>{new Date(layer.received_at).toLocaleDateString()}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{LAYER_TYPE_LABELS[layer.layer_type] || layer.layer_type}</Badge>
+                      {layer.source_reference_type && (
+                        <div className="text-xs text-muted-foreground">{layer.source_reference_type}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="font-mono text-sm">{layer.batch_number || '-'}</TableCell>
+                    <TableCell>
+                      {layer.expiry_date ? (
+                        <span className={layer.expiry_date.slice(0, 10) < today ? 'text-red-600' : ''}>
+                          {new Date(layer.expiry_date).toLocaleDateString()}
+                        </span>
+                      ) : (
+                        '-'
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{toNumber(layer.original_quantity).toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{toNumber(layer.issued_quantity).toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{toNumber(layer.remaining_quantity).toLocaleString()}</TableCell>
+                    <TableCell className="text-right">${formatMoney(layer.unit_cost)}</TableCell>
+                    <TableCell className="text-right">${formatMoney(layer.remaining_value)}</TableCell>
+                  </TableRow>
+                ))
+              )}
+              {layers.length > 0 && (
+                <TableRow className="font-semibold">
+                  <TableCell colSpan={6}>Open layers</TableCell>
+                  <TableCell className="text-right">{openQuantity.toLocaleString()}</TableCell>
+                  <TableCell />
+                  <TableCell className="text-right">${formatMoney(openValue)}</TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,326 @@
+/**
+ * Replenishment Dialog
+ * Reviews proposed order quantities for low-stock items by supplier and raises
+ * them as draft requisitions or purchase orders in one step
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, RefreshCw, ShoppingCart } from 'lucide-react';
+import {
+  ReplenishmentLine,
+  ReplenishmentOutput,
+  ReplenishmentProposal,
+  ReplenishmentRun,
+  createReplenishmentOrders,
+  getReplenishmentProposal,
+  getReplenishmentRuns,
+} from '@/services/api/inventory-service';
+import { getSuppliers, type Supplier } from '@/services/api/procurement-service';
+
+interface ReplenishmentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreated?: () => void;
+}
+
+interface LineEdit {
+  selected: boolean;
+  quantity: number;
+  unit_price: number;
+  supplier_id: string | null;
+}
+
+const BASIS_LABELS: Record<ReplenishmentLine['basis'], string> = {
+  max_stock: 'Up to max stock',
+  reorder_quantity: 'Reorder quantity',
+  consumption: 'Lead-time demand',
+};
+
+const formatMoney = (value: number) =>
+  (Number(value) || 0).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+export const ReplenishmentDialog: React.FC<ReplenishmentDialogProps> = ({ open, onOpenChange, onCreated }) => {
+  const { toast } = useToast();
+  const [proposal, setProposal] = useState<ReplenishmentProposal | null>(null);
+  const [edits, setEdits] = useState<Record<string, LineEdit>>({});
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [runs, setRuns] = useState<ReplenishmentRun[]>([]);
+  const [outputType, setOutputType] = useState<ReplenishmentOutput>('requisition');
+  const [loading, setLoading] = useState(false);
+  const [creating, setCreating] = useState(false);
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: 'Error',
+      description: error instanceof Error ? error.message : fallback,
+      variant: 'destructive',
+    });
+  };
+
+  const loadProposal = async () => {
+    try {
+      setLoading(true);
+      const [data, recentRuns] = await Promise.all([getReplenishmentProposal(), getReplenishmentRuns(5)]);
+      setProposal(data);
+      setRuns(recentRuns);
+      const initial: Record<string, LineEdit> = {};
+      for (const group of data.groups) {
+        for (const line of group.lines) {
+          initial[line.inventory_id] = {
+            selected: true,
+            quantity: line.proposed_quantity,
+            unit_price: Number(line.unit_price) || 0,
+            supplier_id: line.supplier_id,
+          };
+        }
+      }
+      setEdits(initial);
+    } catch (error) {
+      showError(error, 'Failed to load replenishment proposal');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!open) return;
+    loadProposal();
+    getSuppliers({ is_active: true })
+      .then(setSuppliers)
+      .catch((error) => console.error('Error loading suppliers:', error));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open]);
+
+  const updateEdit = (inventoryId: string, changes: Partial<LineEdit>) =>
+    setEdits((prev) => ({ ...prev, [inventoryId]: { ...prev[inventoryId], ...changes } }));
+
+  const allLines = proposal?.groups.flatMap((group) => group.lines) || [];
+  const selectedLines = allLines.filter((line) => edits[line.inventory_id]?.selected && edits[line.inventory_id].quantity > 0);
+  const missingSupplier = selectedLines.filter((line) => !edits[line.inventory_id].supplier_id).length;
+  const selectedTotal = selectedLines.reduce(
+    (sum, line) => sum + edits[line.inventory_id].quantity * edits[line.inventory_id].unit_price,
+    0
+  );
+
+  const handleCreate = async () => {
+    try {
+      setCreating(true);
+      const result = await createReplenishmentOrders(
+        outputType,
+        selectedLines.map((line) => {
+          const edit = edits[line.inventory_id];
+          return {
+            product_id: line.product_id,
+            warehouse_id: line.warehouse_id,
+            supplier_id: edit.supplier_id,
+            quantity: edit.quantity,
+            unit_price: edit.unit_price,
+            description: `${line.sku} - ${line.product_name}`,
+            unit_of_measure: line.unit_of_measure,
+            available_quantity: line.available_quantity,
+          };
+        })
+      );
+      const numbers = [
+        ...result.requisitions.map((r) => r.requisition_number),
+        ...result.purchase_orders.map((po) => po.po_number),
+      ];
+      toast({
+        title: 'Replenishment drafted',
+        description: `Created ${numbers.join(', ')}${
+          result.skipped_lines.length > 0 ? `. ${result.skipped_lines.length} line(s) skipped for lack of a supplier.` : ''
+        }`,
+      });
+      onCreated?.();
+      loadProposal();
+    } catch (error) {
+      showError(error, 'Failed to create replenishment orders');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-6xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Replenishment</DialogTitle>
+          <DialogDescription>
+            Items at or below their reorder point, with quantities based on reorder settings and
+            {proposal ? ` the last ${proposal.consumption_days} days of consumption` : ' recent consumption'}. Open
+            purchase orders and requisitions are netted off.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : !proposal || proposal.groups.length === 0 ? (
+          <p className="text-center py-8 text-muted-foreground">
+            Nothing to reorder. All stock is above its reorder point or already on order.
+          </p>
+        ) : (
+          <div className="space-y-6">
+            {proposal.groups.map((group) => (
+              <div key={group.supplier_id || 'unassigned'} className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <h3 className="font-semibold">{group.supplier_name || 'No supplier assigned'}</h3>
+                  <span className="text-sm text-muted-foreground">
+                    {group.lines.length} item(s), ${formatMoney(group.total_amount)} proposed
+                  </span>
+                </div>
+                <div className="border rounded-lg overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-8" />
+                        <TableHead>Product</TableHead>
+                        <TableHead>Warehouse</TableHead>
+                        <TableHead className="text-right">Available</TableHead>
+                        <TableHead className="text-right">On Order</TableHead>
+                        <TableHead className="text-right">Daily Use</TableHead>
+                        <TableHead>Basis</TableHead>
+                        <TableHead>Supplier</TableHead>
+                        <TableHead className="text-right">Order Qty</TableHead>
+                        <TableHead className="text-right">Unit Price</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {group.lines.map((line) => {
+                        const edit = edits[line.inventory_id];
+                        if (!edit) return null;
+                        return (
+                          <TableRow key={line.inventory_id} className={edit.selected ? '' : 'opacity-50'}>
+                            <TableCell>
+                              <Checkbox
+                                checked={edit.selected}
+                                onCheckedChange={(checked) => updateEdit(line.inventory_id, { selected: checked === true })}
+                              />
+                            </TableCell>
+                            <TableCell>
+                              <div className="font-medium">{line.product_name}</div>
+                              <div className="text-xs text-muted-foreground font-mono">{line.sku}</div>
+                            </TableCell>
+                            <TableCell className="font-mono text-sm">{line.warehouse_code}</TableCell>
+                            <TableCell className="text-right">
+                              <span className={line.available_quantity <= 0 ? 'text-red-600 font-medium' : ''}>
+                                {line.available_quantity.toLocaleString()}
+                              </span>
+                              <div className="text-xs text-muted-foreground">ROP {line.reorder_point.toLocaleString()}</div>
+                            </TableCell>
+                            <TableCell className="text-right">{line.on_order_quantity.toLocaleString()}</TableCell>
+                            <TableCell className="text-right">
+                              {line.daily_usage.toLocaleString()}
+                              <div className="text-xs text-muted-foreground">{line.lead_time_days}d lead</div>
+                            </TableCell>
+                            <TableCell>
+                              <Badge variant="outline">{BASIS_LABELS[line.basis]}</Badge>
+                            </TableCell>
+                            <TableCell>
+                              <Select
+                                value={edit.supplier_id || undefined}
+                                onValueChange={(value) => updateEdit(line.inventory_id, { supplier_id: value })}
+                              >
+                                <SelectTrigger className="w-44">
+                                  <SelectValue placeholder="Select supplier" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {suppliers.map((supplier) => (
+                                    <SelectItem key={supplier.id} value={supplier.id}>
+                                      {supplier.name}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </TableCell>
+                            <TableCell className="text-right">
+                              <Input
+                                type="number"
+                                min="0"
+                                className="w-24 ml-auto text-right"
+                                value={edit.quantity || ''}
+                                onChange={(e) => updateEdit(line.inventory_id, { quantity: Number(e.target.value) || 0 })}
+                                disabled={!edit.selected}
+                              />
+                            </TableCell>
+                            <TableCell className="text-right">
+                              <Input
+                                type="number"
+                                min="0"
+                                step="0.01"
+                                className="w-24 ml-auto text-right"
+                                value={edit.unit_price || ''}
+                                onChange={(e) => updateEdit(line.inventory_id, { unit_price: Number(e.target.value) || 0 })}
+                                disabled={!edit.selected}
+                              />
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {runs.length > 0 && (
+          <div className="space-y-2">
+            <Label>Recent runs</Label>
+            <div className="space-y-1 text-sm">
+              {runs.map((run) => (
+                <div key={run.id} className="flex flex-wrap items-center gap-2 text-muted-foreground">
+                  <Badge variant={run.trigger_type === 'scheduled' ? 'secondary' : 'outline'}>{run.trigger_type}</Badge>
+                  <span>{new Date(run.created_at).toLocaleString()}</span>
+                  <span>
+                    {[...(run.requisition_numbers || []), ...(run.po_numbers || [])].join(', ') || 'No documents'}
+                  </span>
+                  <span>${formatMoney(run.total_amount)}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter className="flex-col sm:flex-row sm:items-center gap-2">
+          <div className="flex items-center gap-2 mr-auto text-sm">
+            <span>
+              {selectedLines.length} line(s), ${formatMoney(selectedTotal)}
+            </span>
+            {outputType === 'purchase_order' && missingSupplier > 0 && (
+              <span className="text-amber-600">{missingSupplier} without a supplier will be skipped</span>
+            )}
+          </div>
+          <Button variant="outline" onClick={loadProposal} disabled={loading}>
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Refresh
+          </Button>
+          <Select value={outputType} onValueChange={(value) => setOutputType(value as ReplenishmentOutput)}>
+            <SelectTrigger className="w-52">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="requisition">Draft requisitions</SelectItem>
+              <SelectItem value="purchase_order">Draft purchase orders</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button onClick={handleCreate} disabled={creating || selectedLines.length === 0}>
+            {creating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ShoppingCart className="mr-2 h-4 w-4" />}
+            Create Drafts
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
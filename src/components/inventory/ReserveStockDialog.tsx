@@ -0,0 +1,273 @@
+/**
+ * Reserve Stock Dialog
+ * Holds available stock of one product/warehouse for a project, task or accepted quotation
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2 } from 'lucide-react';
+import {
+  ReservationReferenceType,
+  ReservationTargets,
+  createStockReservation,
+  getReservationTargets,
+} from '@/services/api/inventory-service';
+
+interface ReserveStockDialogProps {
+  level: {
+    id: string;
+    product_name: string;
+    product_sku: string;
+    warehouse_name: string;
+    available_quantity: number;
+  } | null;
+  onOpenChange: (open: boolean) => void;
+  onReserved?: () => void;
+}
+
+const NONE = 'none';
+
+export const ReserveStockDialog: React.FC<ReserveStockDialogProps> = ({ level, onOpenChange, onReserved }) => {
+  const { toast } = useToast();
+  const [targets, setTargets] = useState<ReservationTargets | null>(null);
+  const [referenceType, setReferenceType] = useState<ReservationReferenceType>('project');
+  const [projectId, setProjectId] = useState('');
+  const [taskId, setTaskId] = useState('');
+  const [quotationId, setQuotationId] = useState('');
+  const [jobId, setJobId] = useState(NONE);
+  const [quantity, setQuantity] = useState('');
+  const [expiresAt, setExpiresAt] = useState('');
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!level) return;
+    setReferenceType('project');
+    setProjectId('');
+    setTaskId('');
+    setQuotationId('');
+    setJobId(NONE);
+    setQuantity('');
+    setExpiresAt('');
+    setNotes('');
+    if (!targets) {
+      getReservationTargets()
+        .then(setTargets)
+        .catch((error) =>
+          toast({
+            title: 'Error',
+            description: error instanceof Error ? error.message : 'Failed to load projects and quotations',
+            variant: 'destructive',
+          })
+        );
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [level]);
+
+  const available = Number(level?.available_quantity || 0);
+  const projectTasks = targets?.tasks.filter((task) => task.project_id === projectId) || [];
+
+  const handleSave = async () => {
+    if (!level) return;
+    const qty = parseFloat(quantity);
+    if (!(qty > 0) || qty > available) {
+      toast({
+        title: 'Validation Error',
+        description: `Enter a quantity between 0 and ${available}`,
+        variant: 'destructive',
+      });
+      return;
+    }
+    const missingReference =
+      (referenceType === 'project' && !projectId) ||
+      (referenceType === 'task' && !taskId) ||
+      (referenceType === 'quotation' && !quotationId);
+    if (missingReference) {
+      toast({ title: 'Validation Error', description: `Select the ${referenceType} to reserve for`, variant: 'destructive' });
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const reservation = await createStockReservation({
+        inventory_id: level.id,
+        reference_type: referenceType,
+        project_id: referenceType === 'quotation' ? undefined : projectId,
+        task_id: referenceType === 'task' ? taskId : undefined,
+        quotation_id: referenceType === 'quotation' ? quotationId : undefined,
+        job_id: jobId === NONE ? undefined : jobId,
+        quantity: qty,
+        expires_at: expiresAt || undefined,
+        notes,
+      });
+      toast({
+        title: 'Success',
+        description: `${reservation.reservation_number}: ${qty} ${level.product_name} reserved`,
+      });
+      onReserved?.();
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to reserve stock',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!level} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Reserve Stock</DialogTitle>
+          <DialogDescription>
+            {level && `${level.product_name} (${level.product_sku}) in ${level.warehouse_name}: ${available.toLocaleString()} available`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!targets ? (
+          <div className="flex items-center justify-center p-6">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <div className="grid gap-4 py-2">
+            <div className="grid gap-2">
+              <Label>Reserve For</Label>
+              <Select value={referenceType} onValueChange={(value) => setReferenceType(value as ReservationReferenceType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="project">Project</SelectItem>
+                  <SelectItem value="task">Project task</SelectItem>
+                  <SelectItem value="quotation">Accepted quotation</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {referenceType !== 'quotation' && (
+              <div className="grid gap-2">
+                <Label>Project *</Label>
+                <Select
+                  value={projectId}
+                  onValueChange={(value) => {
+                    setProjectId(value);
+                    setTaskId('');
+                  }}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select project" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {targets.projects.map((project) => (
+                      <SelectItem key={project.id} value={project.id}>
+                        {project.project_code ? `${project.project_code} - ` : ''}
+                        {project.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {referenceType === 'task' && (
+              <div className="grid gap-2">
+                <Label>Task *</Label>
+                <Select value={taskId} onValueChange={setTaskId} disabled={!projectId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder={projectId ? 'Select task' : 'Select a project first'} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {projectTasks.map((task) => (
+                      <SelectItem key={task.id} value={task.id}>
+                        {task.title}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {referenceType === 'quotation' && (
+              <div className="grid gap-2">
+                <Label>Quotation *</Label>
+                <Select value={quotationId} onValueChange={setQuotationId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select accepted quotation" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {targets.quotations.map((quotation) => (
+                      <SelectItem key={quotation.id} value={quotation.id}>
+                        {quotation.quotation_number ? `${quotation.quotation_number} - ` : ''}
+                        {quotation.title}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div className="grid gap-2">
+              <Label>Job (for job costing)</Label>
+              <Select value={jobId} onValueChange={setJobId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>No job</SelectItem>
+                  {targets.jobs.map((job) => (
+                    <SelectItem key={job.id} value={job.id}>
+                      {job.job_number ? `${job.job_number} - ` : ''}
+                      {job.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="grid gap-2">
+                <Label>Quantity *</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  max={available}
+                  value={quantity}
+                  onChange={(e) => setQuantity(e.target.value)}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label>Expires On</Label>
+                <Input type="date" value={expiresAt} onChange={(e) => setExpiresAt(e.target.value)} />
+                <p className="text-xs text-muted-foreground">Blank uses the inventory settings default</p>
+              </div>
+            </div>
+
+            <div className="grid gap-2">
+              <Label>Notes</Label>
+              <Textarea value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || !targets}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Reserve
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
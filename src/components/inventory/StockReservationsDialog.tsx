@@ -0,0 +1,323 @@
+/**
+ * Stock Reservations Dialog
+ * Lists reservations and issues reserved stock to its project or releases the hold
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, PackageCheck, Undo2 } from 'lucide-react';
+import {
+  ReservationStatus,
+  ReservationTargets,
+  StockReservation,
+  getReservationTargets,
+  getStockReservations,
+  issueStockReservation,
+  releaseStockReservation,
+} from '@/services/api/inventory-service';
+
+interface StockReservationsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  inventoryId?: string;
+  title?: string;
+  onChanged?: () => void;
+}
+
+type StatusFilter = ReservationStatus | 'all';
+
+const statusVariant = (status: ReservationStatus): 'default' | 'secondary' | 'outline' | 'destructive' => {
+  switch (status) {
+    case 'active':
+      return 'default';
+    case 'issued':
+      return 'secondary';
+    case 'expired':
+    case 'cancelled':
+      return 'destructive';
+    default:
+      return 'outline';
+  }
+};
+
+const openQuantity = (reservation: StockReservation) =>
+  Number(reservation.quantity) - Number(reservation.issued_quantity) - Number(reservation.released_quantity);
+
+export const StockReservationsDialog: React.FC<StockReservationsDialogProps> = ({
+  open,
+  onOpenChange,
+  inventoryId,
+  title,
+  onChanged,
+}) => {
+  const { toast } = useToast();
+  const [reservations, setReservations] = useState<StockReservation[]>([]);
+  const [targets, setTargets] = useState<ReservationTargets | null>(null);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('active');
+  const [loading, setLoading] = useState(false);
+  const [selected, setSelected] = useState<StockReservation | null>(null);
+  const [mode, setMode] = useState<'issue' | 'release'>('issue');
+  const [quantity, setQuantity] = useState('');
+  const [projectId, setProjectId] = useState('');
+  const [reason, setReason] = useState('');
+  const [acting, setActing] = useState(false);
+
+  const showError = (error: unknown, fallback: string) =>
+    toast({
+      title: 'Error',
+      description: error instanceof Error ? error.message : fallback,
+      variant: 'destructive',
+    });
+
+  const fetchReservations = async () => {
+    try {
+      setLoading(true);
+      const data = await getStockReservations({
+        status: statusFilter === 'all' ? undefined : statusFilter,
+        inventory_id: inventoryId,
+      });
+      setReservations(data);
+    } catch (error) {
+      showError(error, 'Failed to fetch reservations');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (open) {
+      fetchReservations();
+    } else {
+      setSelected(null);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, statusFilter, inventoryId]);
+
+  const startAction = async (reservation: StockReservation, action: 'issue' | 'release') => {
+    setSelected(reservation);
+    setMode(action);
+    setQuantity(String(openQuantity(reservation)));
+    setProjectId(reservation.project_id || '');
+    setReason('');
+    if (action === 'issue' && !reservation.project_id && !targets) {
+      try {
+        setTargets(await getReservationTargets());
+      } catch (error) {
+        showError(error, 'Failed to load projects');
+      }
+    }
+  };
+
+  const handleConfirm = async () => {
+    if (!selected) return;
+    try {
+      setActing(true);
+      if (mode === 'issue') {
+        const qty = parseFloat(quantity);
+        if (!(qty > 0) || qty > openQuantity(selected)) {
+          toast({
+            title: 'Validation Error',
+            description: `Enter a quantity between 0 and ${openQuantity(selected)}`,
+            variant: 'destructive',
+          });
+          return;
+        }
+        if (!selected.project_id && !projectId) {
+          toast({
+            title: 'Validation Error',
+            description: 'Select the project this quotation was converted into',
+            variant: 'destructive',
+          });
+          return;
+        }
+        const { reservation } = await issueStockReservation(selected.id, {
+          quantity: qty,
+          project_id: selected.project_id ? undefined : projectId,
+        });
+        toast({ title: 'Success', description: `${qty} issued from ${reservation.reservation_number}` });
+      } else {
+        const reservation = await releaseStockReservation(selected.id, reason.trim() || undefined);
+        toast({ title: 'Success', description: `${reservation.reservation_number} released` });
+      }
+      setSelected(null);
+      fetchReservations();
+      onChanged?.();
+    } catch (error) {
+      showError(error, `Failed to ${mode} reservation`);
+    } finally {
+      setActing(false);
+    }
+  };
+
+  const describeReference = (reservation: StockReservation) => {
+    if (reservation.reference_type === 'quotation') {
+      return `Quotation ${reservation.quotation_number || reservation.quotation_title || ''}`;
+    }
+    if (reservation.reference_type === 'task') {
+      return `${reservation.project_name || 'Project'} / ${reservation.task_title || 'Task'}`;
+    }
+    return reservation.project_name || 'Project';
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{title || 'Stock Reservations'}</DialogTitle>
+          <DialogDescription>
+            Reserved stock is excluded from available quantity until it is issued, released or expires
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex justify-end">
+          <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as StatusFilter)}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Statuses</SelectItem>
+              <SelectItem value="active">Active</SelectItem>
+              <SelectItem value="issued">Issued</SelectItem>
+              <SelectItem value="released">Released</SelectItem>
+              <SelectItem value="expired">Expired</SelectItem>
+              <SelectItem value="cancelled">Cancelled</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center p-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : reservations.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">No reservations found</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Reservation</TableHead>
+                <TableHead>Product</TableHead>
+                <TableHead>Reserved For</TableHead>
+                <TableHead className="text-right">Reserved</TableHead>
+                <TableHead className="text-right">Issued</TableHead>
+                <TableHead className="text-right">Open</TableHead>
+                <TableHead>Expires</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {reservations.map((reservation) => (
+                <TableRow key={reservation.id}>
+                  <TableCell className="font-medium">
+                    {reservation.reservation_number}
+                    {reservation.job_number && (
+                      <div className="text-xs text-muted-foreground">Job {reservation.job_number}</div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <div>{reservation.product_name}</div>
+                    <div className="text-xs text-muted-foreground">{reservation.warehouse_name}</div>
+                  </TableCell>
+                  <TableCell>{describeReference(reservation)}</TableCell>
+                  <TableCell className="text-right">{Number(reservation.quantity).toLocaleString()}</TableCell>
+                  <TableCell className="text-right">{Number(reservation.issued_quantity).toLocaleString()}</TableCell>
+                  <TableCell className="text-right">
+                    {reservation.status === 'active' ? openQuantity(reservation).toLocaleString() : '-'}
+                  </TableCell>
+                  <TableCell>
+                    {reservation.expires_at ? new Date(reservation.expires_at).toLocaleDateString() : '-'}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={statusVariant(reservation.status)}>{reservation.status}</Badge>
+                    {reservation.release_reason && (
+                      <div className="text-xs text-muted-foreground">{reservation.release_reason}</div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {reservation.status === 'active' && (
+                      <div className="flex gap-1">
+                        <Button size="sm" variant="outline" onClick={() => startAction(reservation, 'issue')}>
+                          <PackageCheck className="h-4 w-4" />
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => startAction(reservation, 'release')}>
+                          <Undo2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {selected && (
+          <div className="grid gap-4 rounded-md border p-4">
+            <div className="font-medium">
+              {mode === 'issue' ? 'Issue' : 'Release'} {selected.reservation_number}
+            </div>
+            {mode === 'issue' ? (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="grid gap-2">
+                  <Label>Quantity to Issue</Label>
+                  <Input
+                    type="number"
+                    min="0"
+                    max={openQuantity(selected)}
+                    value={quantity}
+                    onChange={(e) => setQuantity(e.target.value)}
+                  />
+                </div>
+                {!selected.project_id && (
+                  <div className="grid gap-2">
+                    <Label>Project *</Label>
+                    <Select value={projectId} onValueChange={setProjectId}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select project" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(targets?.projects || []).map((project) => (
+                          <SelectItem key={project.id} value={project.id}>
+                            {project.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+              </div>
+            ) : (
+              <div className="grid gap-2">
+                <Label>Reason</Label>
+                <Input value={reason} onChange={(e) => setReason(e.target.value)} />
+              </div>
+            )}
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setSelected(null)}>
+                Cancel
+              </Button>
+              <Button onClick={handleConfirm} disabled={acting}>
+                {acting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {mode === 'issue' ? 'Issue to Project' : 'Release Reservation'}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,219 @@
+/**
+ * Stock Take Form
+ * Starts a full or ABC cycle count for a warehouse or one of its zones
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2 } from 'lucide-react';
+import {
+  AbcClass,
+  StockTake,
+  StockTakeCountType,
+  StockTakeScope,
+  createStockTake,
+  getStockTakeScope,
+  type Warehouse,
+} from '@/services/api/inventory-service';
+
+interface StockTakeFormProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  warehouses: Warehouse[];
+  onCreated: (stockTake: StockTake) => void;
+}
+
+const ALL_ZONES = 'all';
+const ABC_OPTIONS: AbcClass[] = ['A', 'B', 'C'];
+
+export const StockTakeForm: React.FC<StockTakeFormProps> = ({ open, onOpenChange, warehouses, onCreated }) => {
+  const { toast } = useToast();
+  const [warehouseId, setWarehouseId] = useState('');
+  const [zone, setZone] = useState(ALL_ZONES);
+  const [countType, setCountType] = useState<StockTakeCountType>('full');
+  const [abcClasses, setAbcClasses] = useState<AbcClass[]>(['A']);
+  const [blindCount, setBlindCount] = useState(true);
+  const [notes, setNotes] = useState('');
+  const [scope, setScope] = useState<StockTakeScope | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setWarehouseId(warehouses.find((warehouse) => warehouse.is_primary)?.id || '');
+      setZone(ALL_ZONES);
+      setCountType('full');
+      setAbcClasses(['A']);
+      setBlindCount(true);
+      setNotes('');
+    }
+  }, [open, warehouses]);
+
+  useEffect(() => {
+    setScope(null);
+    setZone(ALL_ZONES);
+    if (!warehouseId) return;
+    getStockTakeScope(warehouseId)
+      .then(setScope)
+      .catch((error) =>
+        toast({
+          title: 'Error',
+          description: error instanceof Error ? error.message : 'Failed to load warehouse zones',
+          variant: 'destructive',
+        })
+      );
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [warehouseId]);
+
+  const toggleClass = (abcClass: AbcClass, checked: boolean) => {
+    setAbcClasses((prev) => (checked ? [...prev, abcClass] : prev.filter((value) => value !== abcClass)));
+  };
+
+  const handleSave = async () => {
+    if (!warehouseId) {
+      toast({ title: 'Validation Error', description: 'Select a warehouse', variant: 'destructive' });
+      return;
+    }
+    if (countType === 'cycle' && abcClasses.length === 0) {
+      toast({ title: 'Validation Error', description: 'Select at least one ABC class', variant: 'destructive' });
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const stockTake = await createStockTake({
+        warehouse_id: warehouseId,
+        zone: zone === ALL_ZONES ? undefined : zone,
+        count_type: countType,
+        abc_classes: countType === 'cycle' ? abcClasses : undefined,
+        blind_count: blindCount,
+        notes,
+      });
+      toast({
+        title: 'Success',
+        description: `${stockTake.session_number} started with ${stockTake.total_lines} line(s)`,
+      });
+      onOpenChange(false);
+      onCreated(stockTake);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to start stock take',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>New Stock Take</DialogTitle>
+          <DialogDescription>
+            Expected quantities are frozen on the count sheet when the stock take starts
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          <div className="grid gap-2">
+            <Label>Warehouse *</Label>
+            <Select value={warehouseId} onValueChange={setWarehouseId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select warehouse" />
+              </SelectTrigger>
+              <SelectContent>
+                {warehouses.map((warehouse) => (
+                  <SelectItem key={warehouse.id} value={warehouse.id}>
+                    {warehouse.name} ({warehouse.code})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid gap-2">
+            <Label>Zone</Label>
+            <Select value={zone} onValueChange={setZone} disabled={!scope}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_ZONES}>Whole warehouse</SelectItem>
+                {(scope?.zones || []).map((entry) => (
+                  <SelectItem key={entry.zone} value={entry.zone}>
+                    {entry.zone} ({entry.records} items)
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid gap-2">
+            <Label>Count Type</Label>
+            <Select value={countType} onValueChange={(value) => setCountType(value as StockTakeCountType)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="full">Full physical count</SelectItem>
+                <SelectItem value="cycle">ABC cycle count</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {countType === 'cycle' && (
+            <div className="grid gap-2">
+              <Label>ABC Classes</Label>
+              <div className="flex gap-6">
+                {ABC_OPTIONS.map((abcClass) => (
+                  <label key={abcClass} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={abcClasses.includes(abcClass)}
+                      onCheckedChange={(checked) => toggleClass(abcClass, checked === true)}
+                    />
+                    Class {abcClass}
+                    {scope && <span className="text-muted-foreground">({scope.abc_counts[abcClass]})</span>}
+                  </label>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Classes rank items by the value issued over the last year
+              </p>
+            </div>
+          )}
+
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label>Blind Count</Label>
+              <p className="text-xs text-muted-foreground">Hide expected quantities from counters</p>
+            </div>
+            <Switch checked={blindCount} onCheckedChange={setBlindCount} />
+          </div>
+
+          <div className="grid gap-2">
+            <Label>Notes</Label>
+            <Textarea value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Start Count
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
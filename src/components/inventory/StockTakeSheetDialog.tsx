@@ -0,0 +1,443 @@
+/**
+ * Stock Take Sheet Dialog
+ * Count sheet for one stock take: blind entry and barcode scanning while counting,
+ * then variance review, approval, posting and the variance valuation report
+ */
+
+import React, { useState, useEffect, useRef } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, ScanLine } from 'lucide-react';
+import {
+  StockTake,
+  StockTakeLine,
+  StockTakeVarianceReport,
+  approveStockTake,
+  cancelStockTake,
+  getStockTakeById,
+  getStockTakeVarianceReport,
+  postStockTake,
+  recordStockTakeCounts,
+  reviewStockTakeLines,
+  scanStockTakeCode,
+  submitStockTake,
+} from '@/services/api/inventory-service';
+
+interface StockTakeSheetDialogProps {
+  sessionId: string | null;
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+type ReviewStatus = StockTakeLine['review_status'];
+
+const formatMoney = (value: number | null | undefined) =>
+  `₹${Number(value || 0).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatQuantity = (value: number | null | undefined) =>
+  value === null || value === undefined ? '-' : Number(value).toLocaleString();
+
+export const StockTakeSheetDialog: React.FC<StockTakeSheetDialogProps> = ({ sessionId, onClose, onChanged }) => {
+  const { toast } = useToast();
+  const [stockTake, setStockTake] = useState<StockTake | null>(null);
+  const [report, setReport] = useState<StockTakeVarianceReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [acting, setActing] = useState<string | null>(null);
+  const [counts, setCounts] = useState<Record<string, string>>({});
+  const [reviews, setReviews] = useState<Record<string, ReviewStatus>>({});
+  const [scanCode, setScanCode] = useState('');
+  const [scanQuantity, setScanQuantity] = useState('1');
+  const [lastScan, setLastScan] = useState<string | null>(null);
+  const [zeroUncounted, setZeroUncounted] = useState(false);
+  const scanInputRef = useRef<HTMLInputElement>(null);
+
+  const showError = (error: unknown, fallback: string) =>
+    toast({
+      title: 'Error',
+      description: error instanceof Error ? error.message : fallback,
+      variant: 'destructive',
+    });
+
+  const applyStockTake = async (data: StockTake) => {
+    setStockTake(data);
+    setCounts({});
+    setReviews({});
+    if (data.status === 'counting' || data.status === 'cancelled') {
+      setReport(null);
+    } else {
+      try {
+        setReport(await getStockTakeVarianceReport(data.id));
+      } catch (error) {
+        showError(error, 'Failed to fetch variance report');
+      }
+    }
+  };
+
+  useEffect(() => {
+    if (!sessionId) {
+      setStockTake(null);
+      setReport(null);
+      return;
+    }
+    const load = async () => {
+      try {
+        setLoading(true);
+        setLastScan(null);
+        setZeroUncounted(false);
+        await applyStockTake(await getStockTakeById(sessionId));
+      } catch (error) {
+        showError(error, 'Failed to fetch stock take');
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [sessionId]);
+
+  const runAction = async (action: string, request: () => Promise<StockTake>, successMessage: string) => {
+    try {
+      setActing(action);
+      const updated = await request();
+      await applyStockTake(updated);
+      toast({ title: 'Success', description: successMessage });
+      onChanged();
+    } catch (error) {
+      showError(error, `Failed to ${action} stock take`);
+    } finally {
+      setActing(null);
+    }
+  };
+
+  const handleScan = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!stockTake || !scanCode.trim()) return;
+    const code = scanCode.trim();
+    try {
+      setActing('scan');
+      const { line, matched } = await scanStockTakeCode(stockTake.id, code, parseFloat(scanQuantity) || 1);
+      setStockTake((prev) =>
+        prev ? { ...prev, lines: (prev.lines || []).map((existing) => (existing.id === line.id ? line : existing)) } : prev
+      );
+      setLastScan(
+        `${matched === 'serial' ? 'Serial' : 'Barcode'} ${code}: ${line.product_name} now ${formatQuantity(line.counted_quantity)}`
+      );
+    } catch (error) {
+      setLastScan(null);
+      showError(error, 'Failed to record scan');
+    } finally {
+      setScanCode('');
+      setActing(null);
+      scanInputRef.current?.focus();
+    }
+  };
+
+  const handleSaveCounts = () => {
+    if (!stockTake) return;
+    const entries = Object.entries(counts).map(([lineId, value]) => ({
+      line_id: lineId,
+      counted_quantity: value === '' ? null : parseFloat(value),
+    }));
+    if (entries.length === 0) {
+      toast({ title: 'No changes', description: 'Enter counted quantities first' });
+      return;
+    }
+    runAction('save', () => recordStockTakeCounts(stockTake.id, entries), 'Counts saved');
+  };
+
+  const handleSubmit = () => {
+    if (!stockTake) return;
+    if (Object.keys(counts).length > 0) {
+      toast({
+        title: 'Unsaved counts',
+        description: 'Save the entered counts before submitting',
+        variant: 'destructive',
+      });
+      return;
+    }
+    runAction('submit', () => submitStockTake(stockTake.id, zeroUncounted), 'Counts submitted for variance review');
+  };
+
+  const handleSaveReview = () => {
+    if (!stockTake) return;
+    const entries = Object.entries(reviews).map(([lineId, status]) => ({ line_id: lineId, review_status: status }));
+    if (entries.length === 0) return;
+    runAction('review', () => reviewStockTakeLines(stockTake.id, entries), 'Review saved');
+  };
+
+  const status = stockTake?.status;
+  const isCounting = status === 'counting';
+  const isReview = status === 'review';
+  const blind = isCounting && stockTake?.blind_count;
+  const lines = stockTake?.lines || [];
+  const visibleLines = isCounting
+    ? lines
+    : lines.filter(
+        (line) =>
+          Number(line.variance_quantity || 0) !== 0 ||
+          (line.missing_serials?.length || 0) > 0 ||
+          (line.unexpected_serials?.length || 0) > 0
+      );
+
+  return (
+    <Dialog open={!!sessionId} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-6xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {stockTake ? `${stockTake.session_number} - ${stockTake.warehouse_name}` : 'Stock Take'}
+          </DialogTitle>
+          <DialogDescription>
+            {stockTake &&
+              `${stockTake.count_type === 'cycle' ? `Cycle count (class ${(stockTake.abc_classes || []).join(', ')})` : 'Full count'}` +
+                `${stockTake.zone ? ` of zone ${stockTake.zone}` : ''}: ${stockTake.counted_lines} of ${stockTake.total_lines} lines counted`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading || !stockTake ? (
+          <div className="flex items-center justify-center p-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <div className="grid gap-4">
+            <div className="flex items-center gap-2">
+              <Badge variant="outline">{stockTake.status}</Badge>
+              {stockTake.blind_count && <Badge variant="secondary">Blind count</Badge>}
+            </div>
+
+            {isCounting && (
+              <form onSubmit={handleScan} className="flex items-end gap-2">
+                <div className="grid gap-2 flex-1">
+                  <Label>Scan barcode, SKU or serial number</Label>
+                  <Input
+                    ref={scanInputRef}
+                    autoFocus
+                    value={scanCode}
+                    onChange={(e) => setScanCode(e.target.value)}
+                    placeholder="Scan or type and press Enter"
+                  />
+                </div>
+                <div className="grid gap-2 w-24">
+                  <Label>Qty</Label>
+                  <Input
+                    type="number"
+                    min="0"
+                    value={scanQuantity}
+                    onChange={(e) => setScanQuantity(e.target.value)}
+                  />
+                </div>
+                <Button type="submit" disabled={acting === 'scan'}>
+                  {acting === 'scan' ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <ScanLine className="mr-2 h-4 w-4" />
+                  )}
+                  Count
+                </Button>
+              </form>
+            )}
+            {isCounting && lastScan && <div className="text-sm text-muted-foreground">{lastScan}</div>}
+
+            {report && (
+              <div className="grid gap-4 md:grid-cols-4 text-sm">
+                <div className="rounded-md border p-3">
+                  <div className="text-muted-foreground">Variance Lines</div>
+                  <div className="text-lg font-semibold">
+                    {report.totals.variance_lines} of {report.totals.counted_lines}
+                  </div>
+                </div>
+                <div className="rounded-md border p-3">
+                  <div className="text-muted-foreground">Gains</div>
+                  <div className="text-lg font-semibold text-green-600">{formatMoney(report.totals.gain_value)}</div>
+                  <div className="text-xs text-muted-foreground">{formatQuantity(report.totals.gain_quantity)} units</div>
+                </div>
+                <div className="rounded-md border p-3">
+                  <div className="text-muted-foreground">Losses</div>
+                  <div className="text-lg font-semibold text-red-600">{formatMoney(report.totals.loss_value)}</div>
+                  <div className="text-xs text-muted-foreground">{formatQuantity(report.totals.loss_quantity)} units</div>
+                </div>
+                <div className="rounded-md border p-3">
+                  <div className="text-muted-foreground">{status === 'posted' ? 'Net Posted' : 'Net Variance'}</div>
+                  <div className="text-lg font-semibold">{formatMoney(report.totals.net_value)}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {report.by_class.map((entry) => `${entry.abc_class}: ${formatMoney(entry.net_value)}`).join(' / ') || '-'}
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {!isCounting && visibleLines.length === 0 ? (
+              <Alert>
+                <AlertDescription>Every counted line matched the expected quantity.</AlertDescription>
+              </Alert>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product</TableHead>
+                    <TableHead>Zone</TableHead>
+                    <TableHead>Class</TableHead>
+                    {!blind && <TableHead className="text-right">Expected</TableHead>}
+                    <TableHead className="text-right">Counted</TableHead>
+                    {!isCounting && <TableHead className="text-right">Variance</TableHead>}
+                    {!isCounting && <TableHead className="text-right">Value</TableHead>}
+                    {!isCounting && <TableHead>Review</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleLines.map((line) => (
+                    <TableRow key={line.id}>
+                      <TableCell>
+                        <div className="font-medium">{line.product_name}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {line.product_sku}
+                          {line.track_by === 'serial' && ` / ${(line.scanned_serials || []).length} serial(s) scanned`}
+                        </div>
+                        {(line.missing_serials || []).length > 0 && (
+                          <div className="text-xs text-destructive">Missing: {line.missing_serials?.join(', ')}</div>
+                        )}
+                        {(line.unexpected_serials || []).length > 0 && (
+                          <div className="text-xs text-yellow-700">Found: {line.unexpected_serials?.join(', ')}</div>
+                        )}
+                      </TableCell>
+                      <TableCell>{line.zone || '-'}</TableCell>
+                      <TableCell>{line.abc_class}</TableCell>
+                      {!blind && <TableCell className="text-right">{formatQuantity(line.expected_quantity)}</TableCell>}
+                      <TableCell className="text-right">
+                        {isCounting ? (
+                          <Input
+                            type="number"
+                            min="0"
+                            className="w-28 ml-auto text-right"
+                            value={counts[line.id] ?? (line.counted_quantity === null ? '' : String(line.counted_quantity))}
+                            onChange={(e) => setCounts((prev) => ({ ...prev, [line.id]: e.target.value }))}
+                          />
+                        ) : (
+                          formatQuantity(line.counted_quantity)
+                        )}
+                      </TableCell>
+                      {!isCounting && (
+                        <TableCell
+                          className={`text-right ${Number(line.variance_quantity) < 0 ? 'text-red-600' : 'text-green-600'}`}
+                        >
+                          {formatQuantity(line.variance_quantity)}
+                        </TableCell>
+                      )}
+                      {!isCounting && (
+                        <TableCell className="text-right">
+                          {formatMoney(
+                            status === 'posted' && line.posted_variance_value !== null && line.posted_variance_value !== undefined
+                              ? line.posted_variance_value
+                              : line.variance_value
+                          )}
+                        </TableCell>
+                      )}
+                      {!isCounting && (
+                        <TableCell>
+                          {isReview ? (
+                            <Select
+                              value={reviews[line.id] || line.review_status}
+                              onValueChange={(value) =>
+                                setReviews((prev) => ({ ...prev, [line.id]: value as ReviewStatus }))
+                              }
+                            >
+                              <SelectTrigger className="w-[130px]">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="pending">Pending</SelectItem>
+                                <SelectItem value="accepted">Accept</SelectItem>
+                                <SelectItem value="rejected">Reject</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          ) : (
+                            <Badge variant={line.review_status === 'rejected' ? 'destructive' : 'outline'}>
+                              {line.review_status}
+                            </Badge>
+                          )}
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            {isCounting && (
+              <label className="flex items-center gap-2 text-sm">
+                <Checkbox checked={zeroUncounted} onCheckedChange={(checked) => setZeroUncounted(checked === true)} />
+                Count lines left blank as zero when submitting
+              </label>
+            )}
+            {isReview && (
+              <div className="text-sm text-muted-foreground">
+                Rejected lines keep their current stock. Approving accepts every line still pending.
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+          {stockTake && ['counting', 'review', 'approved'].includes(stockTake.status) && (
+            <Button
+              variant="destructive"
+              onClick={() => runAction('cancel', () => cancelStockTake(stockTake.id), `${stockTake.session_number} cancelled`)}
+              disabled={!!acting}
+            >
+              {acting === 'cancel' && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Cancel Count
+            </Button>
+          )}
+          {isCounting && (
+            <>
+              <Button variant="outline" onClick={handleSaveCounts} disabled={!!acting}>
+                {acting === 'save' && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save Counts
+              </Button>
+              <Button onClick={handleSubmit} disabled={!!acting}>
+                {acting === 'submit' && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Submit for Review
+              </Button>
+            </>
+          )}
+          {isReview && stockTake && (
+            <>
+              <Button variant="outline" onClick={handleSaveReview} disabled={!!acting || Object.keys(reviews).length === 0}>
+                {acting === 'review' && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save Review
+              </Button>
+              <Button
+                onClick={() => runAction('approve', () => approveStockTake(stockTake.id), `${stockTake.session_number} approved`)}
+                disabled={!!acting || Object.keys(reviews).length > 0}
+              >
+                {acting === 'approve' && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Approve
+              </Button>
+            </>
+          )}
+          {status === 'approved' && stockTake && (
+            <Button
+              onClick={() =>
+                runAction('post', () => postStockTake(stockTake.id), `${stockTake.session_number} posted to stock`)
+              }
+              disabled={!!acting}
+            >
+              {acting === 'post' && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Post Adjustments
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
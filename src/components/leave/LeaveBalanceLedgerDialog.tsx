@@ -0,0 +1,179 @@
+/**
+ * Leave Balance Ledger Dialog
+ * Every change to an employee's leave balance for the year, with manual credit/debit adjustments
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2 } from 'lucide-react';
+import {
+  adjustLeaveBalance,
+  getLeaveBalanceTransactions,
+  type LeaveBalance,
+  type LeaveBalanceTransaction,
+} from '@/services/api/leave-service';
+
+interface LeaveBalanceLedgerDialogProps {
+  balance: LeaveBalance | null;
+  onOpenChange: (open: boolean) => void;
+  onAdjusted: () => void;
+}
+
+const TRANSACTION_LABELS: Record<LeaveBalanceTransaction['transaction_type'], string> = {
+  accrual: 'Accrual',
+  leave_taken: 'Leave taken',
+  leave_reversed: 'Leave reversed',
+  carry_forward: 'Carry-forward',
+  lapse: 'Lapsed',
+  encashment: 'Encashed',
+  adjustment: 'Adjustment',
+};
+
+export const LeaveBalanceLedgerDialog: React.FC<LeaveBalanceLedgerDialogProps> = ({
+  balance,
+  onOpenChange,
+  onAdjusted,
+}) => {
+  const { toast } = useToast();
+  const [transactions, setTransactions] = useState<LeaveBalanceTransaction[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [days, setDays] = useState('');
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const fetchTransactions = async () => {
+    if (!balance) return;
+    try {
+      setLoading(true);
+      const data = await getLeaveBalanceTransactions({
+        employee_id: balance.employee_id,
+        leave_type_id: balance.leave_type_id,
+        year: balance.year,
+      });
+      setTransactions(data);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to fetch balance history',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setDays('');
+    setNotes('');
+    fetchTransactions();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [balance]);
+
+  const handleAdjust = async () => {
+    if (!balance) return;
+    try {
+      setSaving(true);
+      await adjustLeaveBalance({
+        employee_id: balance.employee_id,
+        leave_type_id: balance.leave_type_id,
+        year: balance.year,
+        days: parseFloat(days),
+        notes,
+      });
+      toast({ title: 'Success', description: 'Leave balance adjusted' });
+      setDays('');
+      setNotes('');
+      fetchTransactions();
+      onAdjusted();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to adjust leave balance',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!balance} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Balance History</DialogTitle>
+          <DialogDescription>
+            {balance && `${balance.employee_name || 'Employee'} · ${balance.leave_type_name} · ${balance.year}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {balance && !balance.closed_at && (
+          <div className="grid grid-cols-[120px_1fr_auto] items-end gap-2">
+            <div className="grid gap-2">
+              <Label>Days (+/-)</Label>
+              <Input type="number" step="0.5" value={days} onChange={(e) => setDays(e.target.value)} />
+            </div>
+            <div className="grid gap-2">
+              <Label>Reason</Label>
+              <Input value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="Why the balance is being corrected" />
+            </div>
+            <Button onClick={handleAdjust} disabled={saving || !parseFloat(days) || !notes.trim()}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Adjust
+            </Button>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : transactions.length === 0 ? (
+          <p className="py-6 text-center text-muted-foreground">No balance changes recorded yet</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Details</TableHead>
+                <TableHead className="text-right">Days</TableHead>
+                <TableHead className="text-right">Balance</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {transactions.map((transaction) => {
+                const value = Number(transaction.days);
+                return (
+                  <TableRow key={transaction.id}>
+                    <TableCell>{new Date(transaction.created_at).toLocaleDateString()}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{TRANSACTION_LABELS[transaction.transaction_type]}</Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {transaction.notes || '-'}
+                      {transaction.created_by_name && (
+                        <div className="text-xs text-muted-foreground">by {transaction.created_by_name}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className={`text-right font-medium ${value < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                      {value > 0 ? `+${value}` : value}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {transaction.balance_after !== null ? Number(transaction.balance_after) : '-'}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
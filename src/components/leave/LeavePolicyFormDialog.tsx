@@ -0,0 +1,320 @@
+/**
+ * Leave Policy Form Dialog
+ * Accrual, probation, carry-forward, encashment and day-counting rules for a leave type and employee group
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Separator } from '@/components/ui/separator';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2 } from 'lucide-react';
+import {
+  EMPLOYMENT_TYPE_LABELS,
+  saveLeavePolicy,
+  type LeavePolicy,
+  type LeavePolicyInput,
+} from '@/services/api/leave-service';
+import type { LeaveType } from '@/integrations/postgresql/types';
+
+interface LeavePolicyFormDialogProps {
+  open: boolean;
+  policy: LeavePolicy | null;
+  leaveTypes: LeaveType[];
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+const ALL_EMPLOYEES = 'all';
+
+const defaultPolicy = (): LeavePolicyInput => ({
+  leave_type_id: '',
+  name: '',
+  employment_type: null,
+  annual_entitlement: 12,
+  accrual_frequency: 'monthly',
+  prorate_joiners: true,
+  probation_months: 0,
+  accrue_during_probation: true,
+  allow_during_probation: false,
+  carry_forward_max: 0,
+  encashment_enabled: false,
+  encashment_max_days: null,
+  allow_negative_balance: false,
+  sandwich_rule: false,
+  allow_half_day: true,
+  is_active: true,
+});
+
+export const LeavePolicyFormDialog: React.FC<LeavePolicyFormDialogProps> = ({
+  open,
+  policy,
+  leaveTypes,
+  onOpenChange,
+  onSaved,
+}) => {
+  const { toast } = useToast();
+  const [form, setForm] = useState<LeavePolicyInput>(defaultPolicy());
+  const [unlimitedCarry, setUnlimitedCarry] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    if (policy) {
+      const { id: _id, leave_type_name: _name, created_at: _created, updated_at: _updated, ...rest } = policy;
+      setForm({
+        ...rest,
+        annual_entitlement: Number(rest.annual_entitlement),
+        carry_forward_max: rest.carry_forward_max === null ? null : Number(rest.carry_forward_max),
+        encashment_max_days: rest.encashment_max_days === null ? null : Number(rest.encashment_max_days),
+      });
+      setUnlimitedCarry(policy.carry_forward_max === null);
+    } else {
+      setForm(defaultPolicy());
+      setUnlimitedCarry(false);
+    }
+  }, [open, policy]);
+
+  const update = (changes: Partial<LeavePolicyInput>) => setForm((prev) => ({ ...prev, ...changes }));
+
+  const handleSave = async () => {
+    if (!form.leave_type_id || !form.name.trim()) {
+      toast({ title: 'Error', description: 'Leave type and policy name are required', variant: 'destructive' });
+      return;
+    }
+    try {
+      setSaving(true);
+      await saveLeavePolicy(
+        { ...form, carry_forward_max: unlimitedCarry ? null : form.carry_forward_max ?? 0 },
+        policy?.id
+      );
+      toast({ title: 'Success', description: policy ? 'Leave policy updated' : 'Leave policy created' });
+      onOpenChange(false);
+      onSaved();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save leave policy',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const perPeriod =
+    form.accrual_frequency === 'monthly'
+      ? Number(form.annual_entitlement) / 12
+      : form.accrual_frequency === 'quarterly'
+        ? Number(form.annual_entitlement) / 4
+        : Number(form.annual_entitlement);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{policy ? 'Edit Leave Policy' : 'New Leave Policy'}</DialogTitle>
+          <DialogDescription>
+            A policy for a specific employment type takes precedence over the policy for all employees
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label>Leave Type *</Label>
+              <Select value={form.leave_type_id} onValueChange={(value) => update({ leave_type_id: value })}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select leave type" />
+                </SelectTrigger>
+                <SelectContent>
+                  {leaveTypes.map((type) => (
+                    <SelectItem key={type.id} value={type.id}>
+                      {type.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-2">
+              <Label>Applies To</Label>
+              <Select
+                value={form.employment_type || ALL_EMPLOYEES}
+                onValueChange={(value) => update({ employment_type: value === ALL_EMPLOYEES ? null : value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_EMPLOYEES}>All employees</SelectItem>
+                  {Object.entries(EMPLOYMENT_TYPE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="grid gap-2">
+            <Label>Policy Name *</Label>
+            <Input value={form.name} onChange={(e) => update({ name: e.target.value })} placeholder="e.g. Annual leave - full time" />
+          </div>
+
+          <Separator />
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label>Annual Entitlement (days)</Label>
+              <Input
+                type="number"
+                min="0"
+                step="0.5"
+                value={form.annual_entitlement}
+                onChange={(e) => update({ annual_entitlement: parseFloat(e.target.value) || 0 })}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label>Accrual</Label>
+              <Select
+                value={form.accrual_frequency}
+                onValueChange={(value) => update({ accrual_frequency: value as LeavePolicyInput['accrual_frequency'] })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="monthly">Monthly</SelectItem>
+                  <SelectItem value="quarterly">Quarterly</SelectItem>
+                  <SelectItem value="yearly">Yearly (up front)</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                {Math.round(perPeriod * 100) / 100} day(s) credited at the start of each period
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center justify-between">
+            <div>
+              <Label>Pro-rate joiners</Label>
+              <p className="text-xs text-muted-foreground">Credit part of the period an employee joins in</p>
+            </div>
+            <Switch checked={form.prorate_joiners} onCheckedChange={(checked) => update({ prorate_joiners: checked })} />
+          </div>
+
+          <Separator />
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label>Probation (months)</Label>
+              <Input
+                type="number"
+                min="0"
+                value={form.probation_months}
+                onChange={(e) => update({ probation_months: parseInt(e.target.value, 10) || 0 })}
+              />
+            </div>
+            <div className="space-y-3 pt-1">
+              <div className="flex items-center justify-between">
+                <Label>Accrue during probation</Label>
+                <Switch
+                  checked={form.accrue_during_probation}
+                  onCheckedChange={(checked) => update({ accrue_during_probation: checked })}
+                  disabled={!form.probation_months}
+                />
+              </div>
+              <div className="flex items-center justify-between">
+                <Label>Can be taken during probation</Label>
+                <Switch
+                  checked={form.allow_during_probation}
+                  onCheckedChange={(checked) => update({ allow_during_probation: checked })}
+                  disabled={!form.probation_months}
+                />
+              </div>
+            </div>
+          </div>
+
+          <Separator />
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <div className="flex items-center justify-between">
+                <Label>Carry-forward Cap (days)</Label>
+                <div className="flex items-center gap-2">
+                  <span className="text-xs text-muted-foreground">Unlimited</span>
+                  <Switch checked={unlimitedCarry} onCheckedChange={setUnlimitedCarry} />
+                </div>
+              </div>
+              <Input
+                type="number"
+                min="0"
+                step="0.5"
+                value={unlimitedCarry ? '' : form.carry_forward_max ?? 0}
+                disabled={unlimitedCarry}
+                onChange={(e) => update({ carry_forward_max: parseFloat(e.target.value) || 0 })}
+              />
+              <p className="text-xs text-muted-foreground">Unused days above the cap lapse at year end unless encashed</p>
+            </div>
+            <div className="grid gap-2">
+              <div className="flex items-center justify-between">
+                <Label>Encash excess days</Label>
+                <Switch
+                  checked={form.encashment_enabled}
+                  onCheckedChange={(checked) => update({ encashment_enabled: checked })}
+                  disabled={unlimitedCarry}
+                />
+              </div>
+              <Input
+                type="number"
+                min="0"
+                step="0.5"
+                placeholder="No limit"
+                value={form.encashment_max_days ?? ''}
+                disabled={!form.encashment_enabled || unlimitedCarry}
+                onChange={(e) => update({ encashment_max_days: e.target.value === '' ? null : parseFloat(e.target.value) || 0 })}
+              />
+              <p className="text-xs text-muted-foreground">Paid through the next payroll run at one day of monthly salary</p>
+            </div>
+          </div>
+
+          <Separator />
+          <div className="grid grid-cols-2 gap-x-8 gap-y-3">
+            <div className="flex items-center justify-between">
+              <div>
+                <Label>Sandwich rule</Label>
+                <p className="text-xs text-muted-foreground">Count weekly offs and holidays inside the leave</p>
+              </div>
+              <Switch checked={form.sandwich_rule} onCheckedChange={(checked) => update({ sandwich_rule: checked })} />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label>Allow half days</Label>
+              <Switch checked={form.allow_half_day} onCheckedChange={(checked) => update({ allow_half_day: checked })} />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label>Allow negative balance</Label>
+              <Switch
+                checked={form.allow_negative_balance}
+                onCheckedChange={(checked) => update({ allow_negative_balance: checked })}
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label>Active</Label>
+              <Switch checked={form.is_active} onCheckedChange={(checked) => update({ is_active: checked })} />
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {policy ? 'Save Changes' : 'Create Policy'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
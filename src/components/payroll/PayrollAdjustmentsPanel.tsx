@@ -0,0 +1,308 @@
+/**
+ * Payroll Adjustments
+ * One-off bonuses, arrears and deductions picked up by the next payroll run
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { getAgencyId } from '@/utils/agencyUtils';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+import {
+  PayrollAdjustment,
+  PayrollEmployee,
+  PayrollPeriod,
+  createPayrollAdjustment,
+  deletePayrollAdjustment,
+  getPayrollAdjustments,
+  getPayrollEmployees,
+  getPeriodName,
+} from '@/services/api/payroll-service';
+
+interface PayrollAdjustmentsPanelProps {
+  periods: PayrollPeriod[];
+}
+
+const TYPE_LABELS: Record<PayrollAdjustment['adjustment_type'], string> = {
+  bonus: 'Bonus',
+  arrear: 'Arrear',
+  deduction: 'Deduction',
+};
+
+const emptyForm = {
+  employee_id: '',
+  payroll_period_id: 'next',
+  adjustment_type: 'bonus' as PayrollAdjustment['adjustment_type'],
+  description: '',
+  amount: 0,
+  is_taxable: true,
+};
+
+export const PayrollAdjustmentsPanel: React.FC<PayrollAdjustmentsPanelProps> = ({ periods }) => {
+  const { toast } = useToast();
+  const { user, profile } = useAuth();
+  const [adjustments, setAdjustments] = useState<PayrollAdjustment[]>([]);
+  const [employees, setEmployees] = useState<PayrollEmployee[]>([]);
+  const [statusFilter, setStatusFilter] = useState<'pending' | 'applied' | 'all'>('pending');
+  const [loading, setLoading] = useState(false);
+  const [formOpen, setFormOpen] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+
+  const openPeriods = periods.filter((p) => p.status !== 'approved' && p.status !== 'paid');
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: 'Error',
+      description: error instanceof Error ? error.message : fallback,
+      variant: 'destructive',
+    });
+  };
+
+  useEffect(() => {
+    getPayrollEmployees()
+      .then(setEmployees)
+      .catch((error) => console.error('Error loading employees:', error));
+  }, []);
+
+  useEffect(() => {
+    loadAdjustments();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [statusFilter]);
+
+  const loadAdjustments = async () => {
+    try {
+      setLoading(true);
+      setAdjustments(await getPayrollAdjustments(statusFilter === 'all' ? undefined : statusFilter));
+    } catch (error) {
+      showError(error, 'Failed to load adjustments');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!form.employee_id) {
+      toast({ title: 'Error', description: 'Select an employee', variant: 'destructive' });
+      return;
+    }
+    try {
+      setSaving(true);
+      const agencyId = await getAgencyId(profile, user?.id);
+      await createPayrollAdjustment(
+        {
+          employee_id: form.employee_id,
+          payroll_period_id: form.payroll_period_id === 'next' ? null : form.payroll_period_id,
+          adjustment_type: form.adjustment_type,
+          description: form.description || null,
+          amount: form.amount,
+          // Deductions are taken from net pay and never reduce taxable income here
+          is_taxable: form.adjustment_type === 'deduction' ? false : form.is_taxable,
+        },
+        agencyId,
+        user?.id
+      );
+      toast({ title: 'Success', description: 'Adjustment added' });
+      setFormOpen(false);
+      setForm(emptyForm);
+      loadAdjustments();
+    } catch (error) {
+      showError(error, 'Failed to add adjustment');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (adjustment: PayrollAdjustment) => {
+    try {
+      await deletePayrollAdjustment(adjustment.id);
+      loadAdjustments();
+    } catch (error) {
+      showError(error, 'Failed to delete adjustment');
+    }
+  };
+
+  const periodName = (id: string | null) => {
+    const period = id ? periods.find((p) => p.id === id) : undefined;
+    return period ? getPeriodName(period) : 'Next run';
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap justify-between items-center gap-2">
+          <div>
+            <CardTitle>Bonuses, Arrears &amp; Deductions</CardTitle>
+            <CardDescription>Pending items are added to the employee's next payroll run for the chosen period</CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as typeof statusFilter)}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="pending">Pending</SelectItem>
+                <SelectItem value="applied">Applied</SelectItem>
+                <SelectItem value="all">All</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button onClick={() => setFormOpen(true)}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Adjustment
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : adjustments.length === 0 ? (
+          <p className="text-center py-8 text-muted-foreground">No adjustments found.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Employee</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Description</TableHead>
+                <TableHead>Period</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {adjustments.map((adjustment) => (
+                <TableRow key={adjustment.id}>
+                  <TableCell>{adjustment.employee_name}</TableCell>
+                  <TableCell>
+                    {TYPE_LABELS[adjustment.adjustment_type]}
+                    {!adjustment.is_taxable && adjustment.adjustment_type !== 'deduction' && (
+                      <span className="text-xs text-muted-foreground"> (non-taxable)</span>
+                    )}
+                  </TableCell>
+                  <TableCell>{adjustment.description || '-'}</TableCell>
+                  <TableCell>{periodName(adjustment.payroll_period_id)}</TableCell>
+                  <TableCell className={`text-right ${adjustment.adjustment_type === 'deduction' ? 'text-red-600' : ''}`}>
+                    ₹{Number(adjustment.amount).toLocaleString('en-IN', { minimumFractionDigits: 2 })}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={adjustment.status === 'applied' ? 'default' : 'secondary'}>{adjustment.status}</Badge>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {adjustment.status === 'pending' && (
+                      <Button size="sm" variant="outline" onClick={() => handleDelete(adjustment)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={formOpen} onOpenChange={setFormOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Payroll Adjustment</DialogTitle>
+            <DialogDescription>Applied when the period's payroll is finalized</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Employee *</Label>
+              <Select value={form.employee_id || undefined} onValueChange={(value) => setForm({ ...form, employee_id: value })}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select employee" />
+                </SelectTrigger>
+                <SelectContent>
+                  {employees.map((employee) => (
+                    <SelectItem key={employee.id} value={employee.id}>
+                      {employee.full_name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Type *</Label>
+                <Select
+                  value={form.adjustment_type}
+                  onValueChange={(value) => setForm({ ...form, adjustment_type: value as PayrollAdjustment['adjustment_type'] })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(TYPE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Amount *</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={form.amount || ''}
+                  onChange={(e) => setForm({ ...form, amount: Number(e.target.value) || 0 })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Period</Label>
+              <Select value={form.payroll_period_id} onValueChange={(value) => setForm({ ...form, payroll_period_id: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="next">Next payroll run</SelectItem>
+                  {openPeriods.map((period) => (
+                    <SelectItem key={period.id} value={period.id}>
+                      {getPeriodName(period)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Description</Label>
+              <Input value={form.description} onChange={(e) => setForm({ ...form, description: e.target.value })} />
+            </div>
+            {form.adjustment_type !== 'deduction' && (
+              <div className="flex items-center gap-2">
+                <Switch checked={form.is_taxable} onCheckedChange={(checked) => setForm({ ...form, is_taxable: checked })} />
+                <Label>Taxable</Label>
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setFormOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? 'Saving...' : 'Add Adjustment'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
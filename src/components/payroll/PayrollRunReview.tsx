@@ -0,0 +1,272 @@
+/**
+ * Payroll Run Review
+ * Calculates every employee's payroll for a period, lets the reviewer adjust and exclude lines,
+ * saves the run as drafts and finalizes it
+ */
+
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { getAgencyId } from '@/utils/agencyUtils';
+import { AlertTriangle, Calculator, CheckCircle, Loader2, Save } from 'lucide-react';
+import {
+  PayrollPeriod,
+  PayrollRunLine,
+  SalaryStructure,
+  buildPayrollRun,
+  finalizePayrollRun,
+  getSalaryStructures,
+  getStatutorySettings,
+  recalculateRunLine,
+  savePayrollRun,
+  summarizeRun,
+} from '@/services/api/payroll-service';
+import { StatutorySettings } from '@/utils/payrollCalculations';
+
+interface PayrollRunReviewProps {
+  period: PayrollPeriod;
+  onFinalized: () => void;
+}
+
+const formatMoney = (value: number) =>
+  `₹${Number(value || 0).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+export const PayrollRunReview: React.FC<PayrollRunReviewProps> = ({ period, onFinalized }) => {
+  const { toast } = useToast();
+  const { user, profile } = useAuth();
+  const [lines, setLines] = useState<PayrollRunLine[]>([]);
+  const [settings, setSettings] = useState<StatutorySettings | null>(null);
+  const [structures, setStructures] = useState<SalaryStructure[]>([]);
+  const [calculating, setCalculating] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [finalizing, setFinalizing] = useState(false);
+  // Finalizing is only allowed once the reviewed lines have been saved unchanged
+  const [savedUnchanged, setSavedUnchanged] = useState(false);
+
+  const locked = period.status === 'approved' || period.status === 'paid';
+  const summary = summarizeRun(lines);
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: 'Error',
+      description: error instanceof Error ? error.message : fallback,
+      variant: 'destructive',
+    });
+  };
+
+  const handleCalculate = async () => {
+    try {
+      setCalculating(true);
+      const [run, loadedSettings, loadedStructures] = await Promise.all([
+        buildPayrollRun(period),
+        getStatutorySettings(),
+        getSalaryStructures(),
+      ]);
+      setLines(run);
+      setSettings(loadedSettings);
+      setStructures(loadedStructures);
+      setSavedUnchanged(false);
+      if (run.length === 0) {
+        toast({ title: 'Nothing to run', description: 'All active employees already have approved payroll for this period.' });
+      }
+    } catch (error) {
+      showError(error, 'Failed to calculate payroll');
+    } finally {
+      setCalculating(false);
+    }
+  };
+
+  const updateLine = (employeeId: string, changes: { included?: boolean; bonus?: number; other_deductions?: number }) => {
+    setSavedUnchanged(false);
+    setLines((prev) =>
+      prev.map((line) => {
+        if (line.employee_id !== employeeId) return line;
+        if (changes.included !== undefined) return { ...line, included: changes.included };
+        if (!settings) return line;
+        const components = structures.find((s) => s.id === line.salary_structure_id)?.components || [];
+        return recalculateRunLine(line, changes, settings, components);
+      })
+    );
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      const agencyId = await getAgencyId(profile, user?.id);
+      const count = await savePayrollRun(period, lines, agencyId, user?.id);
+      setSavedUnchanged(true);
+      toast({ title: 'Draft saved', description: `${count} payroll records saved for review.` });
+    } catch (error) {
+      showError(error, 'Failed to save payroll run');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleFinalize = async () => {
+    try {
+      setFinalizing(true);
+      const count = await finalizePayrollRun(period, lines);
+      toast({ title: 'Payroll finalized', description: `${count} payroll records approved.` });
+      onFinalized();
+    } catch (error) {
+      showError(error, 'Failed to finalize payroll');
+    } finally {
+      setFinalizing(false);
+    }
+  };
+
+  if (locked) {
+    return (
+      <p className="text-sm text-muted-foreground py-6 text-center">
+        This period is {period.status}. Its payroll can no longer be recalculated.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm text-muted-foreground">
+          Salaries are prorated for loss of pay from attendance and approved unpaid leave. Pending bonuses, arrears
+          and deductions are included.
+        </p>
+        <Button type="button" variant="outline" onClick={handleCalculate} disabled={calculating}>
+          {calculating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Calculator className="mr-2 h-4 w-4" />}
+          {lines.length > 0 ? 'Recalculate' : 'Calculate Payroll'}
+        </Button>
+      </div>
+
+      {lines.length > 0 && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-2 text-sm">
+            <div className="border rounded p-2">
+              <p className="text-muted-foreground">Employees</p>
+              <p className="font-semibold">{summary.employees}</p>
+            </div>
+            <div className="border rounded p-2">
+              <p className="text-muted-foreground">Gross</p>
+              <p className="font-semibold">{formatMoney(summary.gross)}</p>
+            </div>
+            <div className="border rounded p-2">
+              <p className="text-muted-foreground">Deductions + TDS</p>
+              <p className="font-semibold">{formatMoney(summary.deductions + summary.tds)}</p>
+            </div>
+            <div className="border rounded p-2">
+              <p className="text-muted-foreground">Net Pay</p>
+              <p className="font-semibold">{formatMoney(summary.net)}</p>
+            </div>
+            <div className="border rounded p-2">
+              <p className="text-muted-foreground">Employer Cost</p>
+              <p className="font-semibold">{formatMoney(summary.employerCost)}</p>
+            </div>
+          </div>
+
+          <div className="border rounded-lg overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-8" />
+                  <TableHead>Employee</TableHead>
+                  <TableHead className="text-right">Paid / Working</TableHead>
+                  <TableHead className="text-right">LOP</TableHead>
+                  <TableHead className="text-right">Earned</TableHead>
+                  <TableHead className="text-right">Overtime</TableHead>
+                  <TableHead className="text-right">Arrears</TableHead>
+                  <TableHead className="text-right">Bonus</TableHead>
+                  <TableHead className="text-right">PF</TableHead>
+                  <TableHead className="text-right">ESI</TableHead>
+                  <TableHead className="text-right">PT</TableHead>
+                  <TableHead className="text-right">TDS</TableHead>
+                  <TableHead className="text-right">Other Ded.</TableHead>
+                  <TableHead className="text-right">Net Pay</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {lines.map((line) => (
+                  <TableRow key={line.employee_id} className={line.included ? '' : 'opacity-50'}>
+                    <TableCell>
+                      <Checkbox
+                        checked={line.included}
+                        onCheckedChange={(checked) => updateLine(line.employee_id, { included: checked === true })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <div className="font-medium">{line.employee_name}</div>
+                      {line.employee_code && <div className="text-xs text-muted-foreground">{line.employee_code}</div>}
+                      {line.warnings.map((warning) => (
+                        <div key={warning} className="flex items-center gap-1 text-xs text-amber-600">
+                          <AlertTriangle className="h-3 w-3" />
+                          {warning}
+                        </div>
+                      ))}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {line.days.paid_days} / {line.days.working_days}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {line.days.lop_days > 0 ? (
+                        <span className="text-red-600">
+                          {line.days.lop_days}d ({formatMoney(line.lop_amount)})
+                        </span>
+                      ) : (
+                        '-'
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{formatMoney(line.base_salary + line.allowances)}</TableCell>
+                    <TableCell className="text-right">{line.overtime_pay > 0 ? formatMoney(line.overtime_pay) : '-'}</TableCell>
+                    <TableCell className="text-right">{line.arrears > 0 ? formatMoney(line.arrears) : '-'}</TableCell>
+                    <TableCell className="text-right">
+                      <Input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        className="w-24 ml-auto text-right"
+                        value={line.bonus || ''}
+                        onChange={(e) => updateLine(line.employee_id, { bonus: Number(e.target.value) || 0 })}
+                        disabled={!line.included}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">{formatMoney(line.pf_employee)}</TableCell>
+                    <TableCell className="text-right">{formatMoney(line.esi_employee)}</TableCell>
+                    <TableCell className="text-right">{formatMoney(line.professional_tax)}</TableCell>
+                    <TableCell className="text-right">{formatMoney(line.tds)}</TableCell>
+                    <TableCell className="text-right">
+                      <Input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        className="w-24 ml-auto text-right"
+                        value={line.other_deductions || ''}
+                        onChange={(e) => updateLine(line.employee_id, { other_deductions: Number(e.target.value) || 0 })}
+                        disabled={!line.included}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right font-semibold">{formatMoney(line.net_salary)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+
+          <div className="flex flex-wrap items-center justify-end gap-2">
+            {savedUnchanged && <Badge variant="secondary">Draft saved</Badge>}
+            <Button type="button" variant="outline" onClick={handleSave} disabled={saving || summary.employees === 0}>
+              {saving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+              Save Draft
+            </Button>
+            <Button type="button" onClick={handleFinalize} disabled={!savedUnchanged || finalizing}>
+              {finalizing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <CheckCircle className="mr-2 h-4 w-4" />}
+              Finalize Payroll
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
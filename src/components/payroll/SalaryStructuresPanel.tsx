@@ -0,0 +1,495 @@
+/**
+ * Salary Structures
+ * Maintain component templates (basic, HRA, allowances) and assign revised salaries to employees
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { getAgencyId } from '@/utils/agencyUtils';
+import { Edit, Loader2, Plus, Trash2, TrendingUp } from 'lucide-react';
+import {
+  EmployeeSalarySummary,
+  SalaryStructure,
+  deleteSalaryStructure,
+  getEmployeeSalaries,
+  getSalaryStructures,
+  reviseEmployeeSalary,
+  saveSalaryStructure,
+} from '@/services/api/payroll-service';
+import {
+  ComponentCalculation,
+  DEFAULT_SALARY_COMPONENTS,
+  SalaryComponent,
+  splitSalaryComponents,
+} from '@/utils/payrollCalculations';
+
+const CALCULATION_LABELS: Record<ComponentCalculation, string> = {
+  fixed: 'Fixed amount',
+  percent_of_gross: '% of gross',
+  percent_of_basic: '% of basic',
+  balance: 'Balance of gross',
+};
+
+const PREVIEW_GROSS = 50000;
+
+const formatMoney = (value: number) => `₹${Number(value || 0).toLocaleString('en-IN', { maximumFractionDigits: 2 })}`;
+
+const today = () => new Date().toISOString().split('T')[0];
+
+interface StructureForm {
+  id?: string;
+  name: string;
+  description: string;
+  components: SalaryComponent[];
+  is_active: boolean;
+}
+
+const emptyStructure = (): StructureForm => ({
+  name: '',
+  description: '',
+  components: DEFAULT_SALARY_COMPONENTS.map((c) => ({ ...c })),
+  is_active: true,
+});
+
+export const SalaryStructuresPanel: React.FC = () => {
+  const { toast } = useToast();
+  const { user, profile } = useAuth();
+  const [structures, setStructures] = useState<SalaryStructure[]>([]);
+  const [employees, setEmployees] = useState<EmployeeSalarySummary[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [structureForm, setStructureForm] = useState<StructureForm | null>(null);
+  const [revision, setRevision] = useState<{
+    employee: EmployeeSalarySummary;
+    monthly_gross: number;
+    salary_structure_id: string;
+    effective_date: string;
+  } | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: 'Error',
+      description: error instanceof Error ? error.message : fallback,
+      variant: 'destructive',
+    });
+  };
+
+  useEffect(() => {
+    loadData();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const loadData = async () => {
+    try {
+      setLoading(true);
+      const [loadedStructures, loadedEmployees] = await Promise.all([getSalaryStructures(), getEmployeeSalaries()]);
+      setStructures(loadedStructures);
+      setEmployees(loadedEmployees);
+    } catch (error) {
+      showError(error, 'Failed to load salary structures');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateComponent = (index: number, changes: Partial<SalaryComponent>) => {
+    setStructureForm((prev) =>
+      prev ? { ...prev, components: prev.components.map((c, i) => (i === index ? { ...c, ...changes } : c)) } : prev
+    );
+  };
+
+  const handleSaveStructure = async () => {
+    if (!structureForm) return;
+    try {
+      setSaving(true);
+      const agencyId = await getAgencyId(profile, user?.id);
+      await saveSalaryStructure(
+        {
+          ...structureForm,
+          components: structureForm.components.map((c) => ({ ...c, code: c.code.trim().toUpperCase(), value: Number(c.value) || 0 })),
+        },
+        agencyId,
+        user?.id
+      );
+      toast({ title: 'Success', description: 'Salary structure saved' });
+      setStructureForm(null);
+      loadData();
+    } catch (error) {
+      showError(error, 'Failed to save salary structure');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteStructure = async (structure: SalaryStructure) => {
+    try {
+      await deleteSalaryStructure(structure.id);
+      toast({ title: 'Success', description: `${structure.name} deleted` });
+      loadData();
+    } catch (error) {
+      showError(error, 'Failed to delete salary structure');
+    }
+  };
+
+  const handleSaveRevision = async () => {
+    if (!revision) return;
+    try {
+      setSaving(true);
+      const agencyId = await getAgencyId(profile, user?.id);
+      await reviseEmployeeSalary({
+        employee_id: revision.employee.id,
+        agency_id: agencyId,
+        monthly_gross: revision.monthly_gross,
+        salary_structure_id: revision.salary_structure_id === 'none' ? null : revision.salary_structure_id,
+        effective_date: revision.effective_date,
+      });
+      const backdated = revision.effective_date < today();
+      toast({
+        title: 'Salary updated',
+        description: backdated
+          ? 'Arrears for periods already paid at the old salary will be added to the next payroll run.'
+          : `${revision.employee.full_name}'s salary has been updated.`,
+      });
+      setRevision(null);
+      loadData();
+    } catch (error) {
+      showError(error, 'Failed to update salary');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const structureName = (id: string | null) => structures.find((s) => s.id === id)?.name;
+  const preview = structureForm ? splitSalaryComponents(PREVIEW_GROSS, structureForm.components) : [];
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-center">
+            <div>
+              <CardTitle>Salary Structures</CardTitle>
+              <CardDescription>How each employee's monthly gross is split into basic, HRA and allowances</CardDescription>
+            </div>
+            <Button onClick={() => setStructureForm(emptyStructure())}>
+              <Plus className="mr-2 h-4 w-4" />
+              New Structure
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : structures.length === 0 ? (
+            <p className="text-center py-8 text-muted-foreground">
+              No salary structures yet. Employees without one are split 50% basic, 40% of basic as HRA and the rest as
+              special allowance.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Components</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {structures.map((structure) => (
+                  <TableRow key={structure.id}>
+                    <TableCell>
+                      <div className="font-medium">{structure.name}</div>
+                      {structure.description && <div className="text-xs text-muted-foreground">{structure.description}</div>}
+                    </TableCell>
+                    <TableCell className="text-sm">{structure.components.map((c) => c.name).join(', ')}</TableCell>
+                    <TableCell>
+                      <Badge variant={structure.is_active ? 'default' : 'outline'}>{structure.is_active ? 'Active' : 'Inactive'}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right space-x-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() =>
+                          setStructureForm({
+                            id: structure.id,
+                            name: structure.name,
+                            description: structure.description || '',
+                            components: structure.components.map((c) => ({ ...c })),
+                            is_active: structure.is_active,
+                          })
+                        }
+                      >
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => handleDeleteStructure(structure)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Employee Salaries</CardTitle>
+          <CardDescription>
+            Revisions take effect from the chosen date. Back-dated revisions create arrears for periods already paid.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Employee</TableHead>
+                <TableHead className="text-right">Monthly Gross</TableHead>
+                <TableHead>Structure</TableHead>
+                <TableHead>Effective From</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {employees.map((employee) => (
+                <TableRow key={employee.id}>
+                  <TableCell>
+                    <div className="font-medium">{employee.full_name}</div>
+                    {employee.employee_code && <div className="text-xs text-muted-foreground">{employee.employee_code}</div>}
+                  </TableCell>
+                  <TableCell className="text-right">{employee.monthly_gross > 0 ? formatMoney(employee.monthly_gross) : '-'}</TableCell>
+                  <TableCell>{structureName(employee.salary_structure_id) || <span className="text-muted-foreground">Default</span>}</TableCell>
+                  <TableCell>{employee.effective_date ? new Date(employee.effective_date).toLocaleDateString() : '-'}</TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() =>
+                        setRevision({
+                          employee,
+                          monthly_gross: employee.monthly_gross,
+                          salary_structure_id: employee.salary_structure_id || 'none',
+                          effective_date: today(),
+                        })
+                      }
+                    >
+                      <TrendingUp className="mr-2 h-4 w-4" />
+                      Revise
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!structureForm} onOpenChange={(open) => !open && setStructureForm(null)}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{structureForm?.id ? 'Edit Salary Structure' : 'New Salary Structure'}</DialogTitle>
+            <DialogDescription>Components are applied in order. One component may take whatever is left of the gross.</DialogDescription>
+          </DialogHeader>
+          {structureForm && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Name *</Label>
+                  <Input value={structureForm.name} onChange={(e) => setStructureForm({ ...structureForm, name: e.target.value })} />
+                </div>
+                <div className="flex items-center gap-2 pt-6">
+                  <Switch
+                    checked={structureForm.is_active}
+                    onCheckedChange={(checked) => setStructureForm({ ...structureForm, is_active: checked })}
+                  />
+                  <Label>Active</Label>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Description</Label>
+                <Textarea
+                  rows={2}
+                  value={structureForm.description}
+                  onChange={(e) => setStructureForm({ ...structureForm, description: e.target.value })}
+                />
+              </div>
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Code</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Calculation</TableHead>
+                    <TableHead>Value</TableHead>
+                    <TableHead>PF</TableHead>
+                    <TableHead className="text-right">On {formatMoney(PREVIEW_GROSS)}</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {structureForm.components.map((component, index) => (
+                    <TableRow key={index}>
+                      <TableCell>
+                        <Input className="w-24" value={component.code} onChange={(e) => updateComponent(index, { code: e.target.value })} />
+                      </TableCell>
+                      <TableCell>
+                        <Input value={component.name} onChange={(e) => updateComponent(index, { name: e.target.value })} />
+                      </TableCell>
+                      <TableCell>
+                        <Select
+                          value={component.calculation}
+                          onValueChange={(value) => updateComponent(index, { calculation: value as ComponentCalculation })}
+                        >
+                          <SelectTrigger className="w-40">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {Object.entries(CALCULATION_LABELS).map(([value, label]) => (
+                              <SelectItem key={value} value={value}>
+                                {label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          className="w-28"
+                          value={component.value}
+                          disabled={component.calculation === 'balance'}
+                          onChange={(e) => updateComponent(index, { value: Number(e.target.value) || 0 })}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Checkbox
+                          checked={component.pf_applicable}
+                          onCheckedChange={(checked) => updateComponent(index, { pf_applicable: checked === true })}
+                        />
+                      </TableCell>
+                      <TableCell className="text-right">{formatMoney(preview[index]?.monthly || 0)}</TableCell>
+                      <TableCell>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() =>
+                            setStructureForm({ ...structureForm, components: structureForm.components.filter((_, i) => i !== index) })
+                          }
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  setStructureForm({
+                    ...structureForm,
+                    components: [
+                      ...structureForm.components,
+                      { code: '', name: '', calculation: 'fixed', value: 0, pf_applicable: false },
+                    ],
+                  })
+                }
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Add Component
+              </Button>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setStructureForm(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveStructure} disabled={saving}>
+              {saving ? 'Saving...' : 'Save Structure'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!revision} onOpenChange={(open) => !open && setRevision(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Revise Salary</DialogTitle>
+            <DialogDescription>{revision?.employee.full_name}</DialogDescription>
+          </DialogHeader>
+          {revision && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label>Monthly Gross *</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={revision.monthly_gross || ''}
+                  onChange={(e) => setRevision({ ...revision, monthly_gross: Number(e.target.value) || 0 })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Salary Structure</Label>
+                <Select
+                  value={revision.salary_structure_id}
+                  onValueChange={(value) => setRevision({ ...revision, salary_structure_id: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Default split</SelectItem>
+                    {structures
+                      .filter((s) => s.is_active || s.id === revision.salary_structure_id)
+                      .map((structure) => (
+                        <SelectItem key={structure.id} value={structure.id}>
+                          {structure.name}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Effective From *</Label>
+                <Input
+                  type="date"
+                  value={revision.effective_date}
+                  onChange={(e) => setRevision({ ...revision, effective_date: e.target.value })}
+                />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRevision(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveRevision} disabled={saving || !revision?.effective_date}>
+              {saving ? 'Saving...' : 'Save Revision'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
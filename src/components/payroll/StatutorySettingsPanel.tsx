@@ -0,0 +1,273 @@
+/**
+ * Statutory Settings
+ * PF, ESI, professional tax and TDS rates and slabs used by the payroll run
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { getAgencyId } from '@/utils/agencyUtils';
+import { Loader2, Plus, Save, Trash2 } from 'lucide-react';
+import { getStatutorySettings, saveStatutorySettings } from '@/services/api/payroll-service';
+import { DEFAULT_STATUTORY_SETTINGS, StatutorySettings, TaxSlab } from '@/utils/payrollCalculations';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+type NumericKey = {
+  [K in keyof StatutorySettings]: StatutorySettings[K] extends number ? K : never;
+}[keyof StatutorySettings];
+
+interface SlabEditorProps {
+  title: string;
+  rateLabel: string;
+  slabs: TaxSlab[];
+  onChange: (slabs: TaxSlab[]) => void;
+}
+
+const SlabEditor: React.FC<SlabEditorProps> = ({ title, rateLabel, slabs, onChange }) => {
+  const update = (index: number, changes: Partial<TaxSlab>) =>
+    onChange(slabs.map((slab, i) => (i === index ? { ...slab, ...changes } : slab)));
+
+  return (
+    <div className="space-y-2">
+      <Label>{title}</Label>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>From</TableHead>
+            <TableHead>To (blank for no limit)</TableHead>
+            <TableHead>{rateLabel}</TableHead>
+            <TableHead />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {slabs.map((slab, index) => (
+            <TableRow key={index}>
+              <TableCell>
+                <Input type="number" min="0" value={slab.from} onChange={(e) => update(index, { from: Number(e.target.value) || 0 })} />
+              </TableCell>
+              <TableCell>
+                <Input
+                  type="number"
+                  min="0"
+                  value={slab.to ?? ''}
+                  onChange={(e) => update(index, { to: e.target.value === '' ? null : Number(e.target.value) })}
+                />
+              </TableCell>
+              <TableCell>
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={slab.rate}
+                  onChange={(e) => update(index, { rate: Number(e.target.value) || 0 })}
+                />
+              </TableCell>
+              <TableCell>
+                <Button size="sm" variant="ghost" onClick={() => onChange(slabs.filter((_, i) => i !== index))}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+      <Button
+        type="button"
+        size="sm"
+        variant="outline"
+        onClick={() => {
+          const last = slabs[slabs.length - 1];
+          onChange([...slabs, { from: last?.to ?? 0, to: null, rate: 0 }]);
+        }}
+      >
+        <Plus className="mr-2 h-4 w-4" />
+        Add Slab
+      </Button>
+    </div>
+  );
+};
+
+export const StatutorySettingsPanel: React.FC = () => {
+  const { toast } = useToast();
+  const { user, profile } = useAuth();
+  const [settings, setSettings] = useState<StatutorySettings>(DEFAULT_STATUTORY_SETTINGS);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        setLoading(true);
+        setSettings(await getStatutorySettings());
+      } catch (error) {
+        toast({
+          title: 'Error',
+          description: error instanceof Error ? error.message : 'Failed to load statutory settings',
+          variant: 'destructive',
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      const agencyId = await getAgencyId(profile, user?.id);
+      await saveStatutorySettings(settings, agencyId);
+      toast({ title: 'Success', description: 'Statutory settings saved' });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save statutory settings',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const numberField = (key: NumericKey, label: string, step = '0.01') => (
+    <div className="space-y-2">
+      <Label>{label}</Label>
+      <Input
+        type="number"
+        min="0"
+        step={step}
+        value={settings[key]}
+        onChange={(e) => setSettings({ ...settings, [key]: Number(e.target.value) || 0 })}
+      />
+    </div>
+  );
+
+  const toggleField = (key: 'pf_enabled' | 'esi_enabled' | 'pt_enabled' | 'tds_enabled', label: string) => (
+    <div className="flex items-center gap-2">
+      <Switch checked={settings[key]} onCheckedChange={(checked) => setSettings({ ...settings, [key]: checked })} />
+      <Label>{label}</Label>
+    </div>
+  );
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>Provident Fund &amp; ESI</CardTitle>
+          <CardDescription>PF is charged on PF-applicable earnings; ESI applies when the monthly gross is within the wage limit</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {toggleField('pf_enabled', 'Deduct Provident Fund')}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {numberField('pf_employee_rate', 'Employee rate (%)')}
+            {numberField('pf_employer_rate', 'Employer rate (%)')}
+            {numberField('pf_wage_ceiling', 'Wage ceiling', '1')}
+          </div>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              checked={settings.pf_restrict_to_ceiling}
+              onCheckedChange={(checked) => setSettings({ ...settings, pf_restrict_to_ceiling: checked === true })}
+            />
+            <Label>Restrict PF wages to the ceiling</Label>
+          </div>
+          {toggleField('esi_enabled', 'Deduct ESI')}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {numberField('esi_employee_rate', 'Employee rate (%)')}
+            {numberField('esi_employer_rate', 'Employer rate (%)')}
+            {numberField('esi_wage_limit', 'Wage limit', '1')}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Professional Tax</CardTitle>
+          <CardDescription>Flat monthly amount by gross salary slab, as notified by your state</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {toggleField('pt_enabled', 'Deduct professional tax')}
+          <SlabEditor
+            title="Monthly slabs"
+            rateLabel="Tax per month"
+            slabs={settings.pt_slabs}
+            onChange={(pt_slabs) => setSettings({ ...settings, pt_slabs })}
+          />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>TDS on Salary</CardTitle>
+          <CardDescription>Annual income tax slabs; the yearly tax is spread evenly and one-off payments are taxed at the margin</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {toggleField('tds_enabled', 'Deduct TDS')}
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            {numberField('tds_standard_deduction', 'Standard deduction', '1')}
+            {numberField('tds_rebate_limit', 'Rebate income limit', '1')}
+            {numberField('tds_rebate_max', 'Maximum rebate', '1')}
+            {numberField('tds_cess_rate', 'Cess (%)')}
+          </div>
+          <SlabEditor
+            title="Annual slabs"
+            rateLabel="Rate (%)"
+            slabs={settings.tds_slabs}
+            onChange={(tds_slabs) => setSettings({ ...settings, tds_slabs })}
+          />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Working Days &amp; Overtime</CardTitle>
+          <CardDescription>Weekly offs and holidays are excluded when prorating salary for loss of pay</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap gap-4">
+            {WEEKDAYS.map((day, index) => (
+              <div key={day} className="flex items-center gap-2">
+                <Checkbox
+                  checked={settings.weekly_offs.includes(index)}
+                  onCheckedChange={(checked) =>
+                    setSettings({
+                      ...settings,
+                      weekly_offs: checked === true
+                        ? [...settings.weekly_offs, index].sort()
+                        : settings.weekly_offs.filter((d) => d !== index),
+                    })
+                  }
+                />
+                <Label>{day}</Label>
+              </div>
+            ))}
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">{numberField('overtime_multiplier', 'Overtime multiplier')}</div>
+        </CardContent>
+      </Card>
+
+      <div className="flex justify-end">
+        <Button onClick={handleSave} disabled={saving}>
+          {saving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+          Save Settings
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,288 @@
+/**
+ * Calibration Panel
+ * Department heads and HR compare self, manager and peer ratings with each employee's computed
+ * metrics, adjust ratings with a note and check the spread across the rating scale
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { Eye, Loader2, Scale } from 'lucide-react';
+import { ReviewDetailDialog } from './ReviewDetailDialog';
+import {
+  calibrateReview,
+  getCalibration,
+  type Calibration,
+  type CalibrationRow,
+  type ReviewCycle,
+} from '@/services/api/performance-review-service';
+
+interface CalibrationPanelProps {
+  cycles: ReviewCycle[];
+}
+
+const MANAGER_RATING = 'manager';
+
+const formatRating = (value: number | null) =>
+  value === null ? '—' : Number(value).toFixed(1).replace(/\.0$/, '');
+
+export const CalibrationPanel: React.FC<CalibrationPanelProps> = ({ cycles }) => {
+  const { toast } = useToast();
+  const launched = cycles.filter((cycle) => cycle.status !== 'draft');
+  const [cycleId, setCycleId] = useState('');
+  const [calibration, setCalibration] = useState<Calibration | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [editing, setEditing] = useState<CalibrationRow | null>(null);
+  const [rating, setRating] = useState(MANAGER_RATING);
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [viewingId, setViewingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (cycleId || launched.length === 0) return;
+    setCycleId((launched.find((cycle) => cycle.status === 'calibration') || launched[0]).id);
+  }, [launched, cycleId]);
+
+  const fetchCalibration = async () => {
+    if (!cycleId) return;
+    try {
+      setLoading(true);
+      setCalibration(await getCalibration(cycleId));
+    } catch (error) {
+      setCalibration(null);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to fetch calibration',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchCalibration();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [cycleId]);
+
+  const openCalibrate = (row: CalibrationRow) => {
+    setEditing(row);
+    setRating(row.calibrated_rating === null ? MANAGER_RATING : String(row.calibrated_rating));
+    setNotes(row.calibration_notes || '');
+  };
+
+  const handleCalibrate = async () => {
+    if (!editing) return;
+    if (rating !== MANAGER_RATING && !notes.trim()) {
+      toast({ title: 'Error', description: 'Note why the rating was calibrated', variant: 'destructive' });
+      return;
+    }
+    try {
+      setSaving(true);
+      await calibrateReview(editing.id, {
+        calibrated_rating: rating === MANAGER_RATING ? null : parseFloat(rating),
+        calibration_notes: notes.trim() || undefined,
+      });
+      toast({ title: 'Success', description: 'Rating calibrated' });
+      setEditing(null);
+      fetchCalibration();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to calibrate rating',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inCalibration = calibration?.cycle.status === 'calibration';
+  const total = calibration?.reviews.length || 0;
+
+  if (launched.length === 0) {
+    return (
+      <Card>
+        <CardContent className="py-8 text-center text-muted-foreground">No review cycles have been launched yet</CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <Select value={cycleId} onValueChange={setCycleId}>
+          <SelectTrigger className="w-72">
+            <SelectValue placeholder="Select cycle" />
+          </SelectTrigger>
+          <SelectContent>
+            {launched.map((cycle) => (
+              <SelectItem key={cycle.id} value={cycle.id}>
+                {cycle.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {calibration && (
+          <Badge variant={inCalibration ? 'default' : 'secondary'}>{calibration.cycle.status}</Badge>
+        )}
+        {calibration && !inCalibration && calibration.cycle.status !== 'closed' && (
+          <span className="text-sm text-muted-foreground">Ratings can be adjusted once HR starts calibration</span>
+        )}
+      </div>
+
+      {loading || !calibration ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin" />
+        </div>
+      ) : (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle>Rating distribution</CardTitle>
+              <CardDescription>Manager ratings against ratings after calibration, across {total} review(s)</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {calibration.distribution.map((point) => (
+                <div key={point.value} className="grid grid-cols-[200px_1fr_1fr] gap-4 items-center text-sm">
+                  <span>
+                    {point.value} · {point.label}
+                  </span>
+                  <div className="flex items-center gap-2">
+                    <Progress value={total ? (point.manager / total) * 100 : 0} />
+                    <span className="w-20 text-muted-foreground">{point.manager} manager</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Progress value={total ? (point.calibrated / total) * 100 : 0} />
+                    <span className="w-20">{point.calibrated} final</span>
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardContent className="pt-6">
+              {calibration.reviews.length === 0 ? (
+                <p className="text-center text-muted-foreground py-4">No reviews to calibrate</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Employee</TableHead>
+                      <TableHead>Department</TableHead>
+                      <TableHead className="text-center">Self</TableHead>
+                      <TableHead className="text-center">Manager</TableHead>
+                      <TableHead className="text-center">Peers</TableHead>
+                      <TableHead className="text-center">Calibrated</TableHead>
+                      <TableHead className="text-right">Completion</TableHead>
+                      <TableHead className="text-right">On time</TableHead>
+                      <TableHead className="text-right">Attendance</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {calibration.reviews.map((row) => (
+                      <TableRow key={row.id}>
+                        <TableCell>
+                          <div className="font-medium">{row.employee_name || 'Unknown'}</div>
+                          {row.manager_name && (
+                            <div className="text-xs text-muted-foreground">Manager: {row.manager_name}</div>
+                          )}
+                        </TableCell>
+                        <TableCell>{row.department_name || '—'}</TableCell>
+                        <TableCell className="text-center">{formatRating(row.self_rating)}</TableCell>
+                        <TableCell className="text-center">{formatRating(row.manager_rating)}</TableCell>
+                        <TableCell className="text-center">
+                          {formatRating(row.peer_rating)}
+                          {row.peer_count > 0 && <span className="text-xs text-muted-foreground"> ({row.peer_count})</span>}
+                        </TableCell>
+                        <TableCell className="text-center font-medium" title={row.calibration_notes || undefined}>
+                          {row.status === 'finalized' ? formatRating(row.final_rating) : formatRating(row.calibrated_rating)}
+                        </TableCell>
+                        <TableCell className="text-right">{row.performance_summary.completionRate}%</TableCell>
+                        <TableCell className="text-right">{row.performance_summary.onTimeCompletionRate}%</TableCell>
+                        <TableCell className="text-right">{row.performance_summary.attendanceRate}%</TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end gap-1">
+                            <Button variant="ghost" size="sm" title="View review" onClick={() => setViewingId(row.id)}>
+                              <Eye className="h-4 w-4" />
+                            </Button>
+                            {inCalibration && row.status !== 'finalized' && (
+                              <Button variant="ghost" size="sm" title="Calibrate" onClick={() => openCalibrate(row)}>
+                                <Scale className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Calibrate {editing?.employee_name || 'rating'}</DialogTitle>
+            <DialogDescription>
+              Manager rated {formatRating(editing?.manager_rating ?? null)}
+              {editing?.self_rating !== null && `, self ${formatRating(editing?.self_rating ?? null)}`}
+              {editing?.peer_rating !== null && `, peers ${formatRating(editing?.peer_rating ?? null)}`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid gap-2">
+              <Label>Calibrated rating</Label>
+              <Select value={rating} onValueChange={setRating}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={MANAGER_RATING}>Keep manager rating</SelectItem>
+                  {calibration?.cycle.rating_scale.map((point) => (
+                    <SelectItem key={point.value} value={String(point.value)}>
+                      {point.value} · {point.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-2">
+              <Label>Notes</Label>
+              <Textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                rows={3}
+                placeholder="Why the rating moved, e.g. compared with peers in the department"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleCalibrate} disabled={saving}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ReviewDetailDialog reviewId={viewingId} onOpenChange={(open) => !open && setViewingId(null)} />
+    </div>
+  );
+};
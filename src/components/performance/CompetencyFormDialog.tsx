@@ -0,0 +1,118 @@
+/**
+ * Competency Form Dialog
+ * A competency in the library that review cycles rate employees on
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2 } from 'lucide-react';
+import { saveCompetency, type Competency } from '@/services/api/performance-review-service';
+
+interface CompetencyFormDialogProps {
+  open: boolean;
+  competency: Competency | null;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+export const CompetencyFormDialog: React.FC<CompetencyFormDialogProps> = ({ open, competency, onOpenChange, onSaved }) => {
+  const { toast } = useToast();
+  const [name, setName] = useState('');
+  const [category, setCategory] = useState('');
+  const [description, setDescription] = useState('');
+  const [sortOrder, setSortOrder] = useState(0);
+  const [isActive, setIsActive] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(competency?.name || '');
+    setCategory(competency?.category || '');
+    setDescription(competency?.description || '');
+    setSortOrder(competency?.sort_order || 0);
+    setIsActive(competency?.is_active !== false);
+  }, [open, competency]);
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      toast({ title: 'Error', description: 'Competency name is required', variant: 'destructive' });
+      return;
+    }
+    try {
+      setSaving(true);
+      await saveCompetency({
+        id: competency?.id,
+        name: name.trim(),
+        category: category.trim() || null,
+        description: description.trim() || null,
+        sort_order: sortOrder,
+        is_active: isActive,
+      });
+      toast({ title: 'Success', description: competency ? 'Competency updated' : 'Competency created' });
+      onOpenChange(false);
+      onSaved();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save competency',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{competency ? 'Edit Competency' : 'New Competency'}</DialogTitle>
+          <DialogDescription>
+            Changes apply to cycles saved from now on; cycles already created keep the wording they were given
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid gap-2">
+            <Label>Name</Label>
+            <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Communication" />
+          </div>
+          <div className="grid grid-cols-[1fr_120px] gap-4">
+            <div className="grid gap-2">
+              <Label>Category</Label>
+              <Input value={category} onChange={(e) => setCategory(e.target.value)} placeholder="e.g. Core, Leadership" />
+            </div>
+            <div className="grid gap-2">
+              <Label>Order</Label>
+              <Input type="number" value={sortOrder} onChange={(e) => setSortOrder(parseInt(e.target.value, 10) || 0)} />
+            </div>
+          </div>
+          <div className="grid gap-2">
+            <Label>What good looks like</Label>
+            <Textarea value={description} onChange={(e) => setDescription(e.target.value)} rows={3} />
+          </div>
+          <div className="flex items-center justify-between">
+            <Label>Active</Label>
+            <Switch checked={isActive} onCheckedChange={setIsActive} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {competency ? 'Save Changes' : 'Create Competency'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
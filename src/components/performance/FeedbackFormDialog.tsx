@@ -0,0 +1,232 @@
+/**
+ * Feedback Form Dialog
+ * The self-assessment, manager review or peer feedback form: a rating per competency, an overall
+ * rating and written feedback
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Separator } from '@/components/ui/separator';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2 } from 'lucide-react';
+import {
+  GOAL_STATUS_LABELS,
+  RELATIONSHIP_LABELS,
+  getFeedbackForm,
+  submitFeedback,
+  type FeedbackForm,
+  type FeedbackRequest,
+  type RatingScalePoint,
+} from '@/services/api/performance-review-service';
+
+interface FeedbackFormDialogProps {
+  request: FeedbackRequest | null;
+  onOpenChange: (open: boolean) => void;
+  onSubmitted: () => void;
+}
+
+interface RatingPickerProps {
+  scale: RatingScalePoint[];
+  value: number | undefined;
+  disabled?: boolean;
+  onChange: (value: number) => void;
+}
+
+const RatingPicker: React.FC<RatingPickerProps> = ({ scale, value, disabled, onChange }) => (
+  <div className="flex flex-wrap gap-1">
+    {scale.map((point) => (
+      <Button
+        key={point.value}
+        type="button"
+        size="sm"
+        variant={value === point.value ? 'default' : 'outline'}
+        title={point.label}
+        disabled={disabled}
+        onClick={() => onChange(point.value)}
+      >
+        {point.value}
+      </Button>
+    ))}
+  </div>
+);
+
+export const FeedbackFormDialog: React.FC<FeedbackFormDialogProps> = ({ request, onOpenChange, onSubmitted }) => {
+  const { toast } = useToast();
+  const [form, setForm] = useState<FeedbackForm | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [ratings, setRatings] = useState<Record<string, number>>({});
+  const [overall, setOverall] = useState<number | undefined>(undefined);
+  const [strengths, setStrengths] = useState('');
+  const [improvements, setImprovements] = useState('');
+  const [comments, setComments] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!request) return;
+    setForm(null);
+    setLoading(true);
+    getFeedbackForm(request.id)
+      .then((data) => {
+        setForm(data);
+        setRatings(data.feedback.ratings || {});
+        setOverall(data.feedback.overall_rating === null ? undefined : Number(data.feedback.overall_rating));
+        setStrengths(data.feedback.strengths || '');
+        setImprovements(data.feedback.improvements || '');
+        setComments(data.feedback.comments || '');
+      })
+      .catch((error) =>
+        toast({
+          title: 'Error',
+          description: error instanceof Error ? error.message : 'Failed to fetch feedback form',
+          variant: 'destructive',
+        })
+      )
+      .finally(() => setLoading(false));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [request]);
+
+  const editable = form?.cycle.status === 'active' && form.feedback.status !== 'declined';
+  const isSelf = request?.relationship === 'self';
+
+  const handleSubmit = async () => {
+    if (!request || !form) return;
+    const missing = form.cycle.competencies.filter((competency) => ratings[competency.id] === undefined);
+    if (missing.length > 0 || overall === undefined) {
+      toast({
+        title: 'Error',
+        description: missing.length > 0 ? `Rate ${missing[0].name}` : 'Choose an overall rating',
+        variant: 'destructive',
+      });
+      return;
+    }
+    try {
+      setSubmitting(true);
+      await submitFeedback(request.id, {
+        ratings,
+        overall_rating: overall,
+        strengths: strengths.trim() || undefined,
+        improvements: improvements.trim() || undefined,
+        comments: comments.trim() || undefined,
+      });
+      toast({ title: 'Success', description: 'Feedback submitted' });
+      onOpenChange(false);
+      onSubmitted();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to submit feedback',
+        variant: 'destructive',
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!request} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {request && RELATIONSHIP_LABELS[request.relationship]}
+            {request && !isSelf && ` · ${request.employee_name || 'Employee'}`}
+          </DialogTitle>
+          <DialogDescription>
+            {request?.cycle_name}
+            {request?.due_date && ` · due ${request.due_date}`}
+            {request?.relationship === 'peer' && ' · your name is not shown to the employee'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading || !form ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <div className="space-y-5">
+            <div className="flex flex-wrap gap-2 text-xs text-muted-foreground">
+              {form.cycle.rating_scale.map((point) => (
+                <Badge key={point.value} variant="outline">
+                  {point.value} · {point.label}
+                </Badge>
+              ))}
+            </div>
+
+            {form.goals.length > 0 && (
+              <div className="space-y-2">
+                <Label>Goals this cycle</Label>
+                {form.goals.map((goal) => (
+                  <div key={goal.id} className="flex items-center gap-3 text-sm">
+                    <span className="flex-1">{goal.title}</span>
+                    <Badge variant="outline">{GOAL_STATUS_LABELS[goal.status]}</Badge>
+                    <Progress value={Number(goal.progress)} className="w-24" />
+                    <span className="w-10 text-right">{Math.round(Number(goal.progress))}%</span>
+                  </div>
+                ))}
+                <Separator />
+              </div>
+            )}
+
+            {form.cycle.competencies.map((competency) => (
+              <div key={competency.id} className="grid grid-cols-1 md:grid-cols-[1fr_auto] gap-2 items-center">
+                <div>
+                  <p className="font-medium text-sm">{competency.name}</p>
+                  {competency.description && <p className="text-xs text-muted-foreground">{competency.description}</p>}
+                </div>
+                <RatingPicker
+                  scale={form.cycle.rating_scale}
+                  value={ratings[competency.id]}
+                  disabled={!editable}
+                  onChange={(value) => setRatings((prev) => ({ ...prev, [competency.id]: value }))}
+                />
+              </div>
+            ))}
+
+            <Separator />
+            <div className="grid grid-cols-1 md:grid-cols-[1fr_auto] gap-2 items-center">
+              <p className="font-medium text-sm">Overall rating</p>
+              <RatingPicker scale={form.cycle.rating_scale} value={overall} disabled={!editable} onChange={setOverall} />
+            </div>
+
+            <div className="grid gap-2">
+              <Label>{isSelf ? 'What went well' : 'Strengths'}</Label>
+              <Textarea value={strengths} onChange={(e) => setStrengths(e.target.value)} rows={3} disabled={!editable} />
+            </div>
+            <div className="grid gap-2">
+              <Label>{isSelf ? 'Where I want to grow' : 'Areas to improve'}</Label>
+              <Textarea
+                value={improvements}
+                onChange={(e) => setImprovements(e.target.value)}
+                rows={3}
+                disabled={!editable}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label>Other comments</Label>
+              <Textarea value={comments} onChange={(e) => setComments(e.target.value)} rows={2} disabled={!editable} />
+            </div>
+            {!editable && (
+              <p className="text-sm text-muted-foreground">Feedback for this cycle is closed</p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          {editable && (
+            <Button onClick={handleSubmit} disabled={submitting}>
+              {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {form?.feedback.status === 'submitted' ? 'Update Feedback' : 'Submit Feedback'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
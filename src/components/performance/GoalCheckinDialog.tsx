@@ -0,0 +1,187 @@
+/**
+ * Goal Check-in Dialog
+ * Records progress on a goal or its key results, with the goal's earlier check-ins
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Slider } from '@/components/ui/slider';
+import { Separator } from '@/components/ui/separator';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+import {
+  GOAL_STATUS_LABELS,
+  addGoalCheckin,
+  getGoalCheckins,
+  type Goal,
+  type GoalCheckin,
+  type GoalStatus,
+} from '@/services/api/performance-review-service';
+
+interface GoalCheckinDialogProps {
+  goal: Goal | null;
+  // Viewers who are not the goal's owner or manager only see the history
+  readOnly?: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+export const GoalCheckinDialog: React.FC<GoalCheckinDialogProps> = ({ goal, readOnly, onOpenChange, onSaved }) => {
+  const { toast } = useToast();
+  const [progress, setProgress] = useState(0);
+  const [status, setStatus] = useState<GoalStatus>('on_track');
+  const [note, setNote] = useState('');
+  const [currentValues, setCurrentValues] = useState<number[]>([]);
+  const [history, setHistory] = useState<GoalCheckin[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!goal) return;
+    setProgress(Math.round(Number(goal.progress)));
+    setStatus(goal.status === 'not_started' ? 'on_track' : goal.status);
+    setNote('');
+    setCurrentValues(goal.key_results.map((keyResult) => Number(keyResult.current) || 0));
+    setHistory([]);
+    getGoalCheckins(goal.id)
+      .then(setHistory)
+      .catch((error) => console.error('Error fetching check-ins:', error));
+  }, [goal]);
+
+  const isOkr = goal?.goal_type === 'okr' && goal.key_results.length > 0;
+
+  const handleSave = async () => {
+    if (!goal) return;
+    try {
+      setSaving(true);
+      await addGoalCheckin(goal.id, {
+        progress,
+        status,
+        note: note.trim() || undefined,
+        key_results: isOkr ? currentValues.map((current) => ({ current })) : undefined,
+      });
+      toast({ title: 'Success', description: 'Check-in recorded' });
+      onOpenChange(false);
+      onSaved();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to record check-in',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!goal} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{goal?.title}</DialogTitle>
+          <DialogDescription>
+            {goal?.cycle_name || 'No review cycle'}
+            {goal?.due_date && ` · due ${goal.due_date}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {goal && !readOnly && (
+          <div className="space-y-4">
+            {isOkr ? (
+              <div className="space-y-2">
+                <Label>Key results</Label>
+                {goal.key_results.map((keyResult, index) => (
+                  <div key={index} className="grid grid-cols-[1fr_100px_auto] gap-2 items-center text-sm">
+                    <span>{keyResult.title}</span>
+                    <Input
+                      type="number"
+                      value={currentValues[index] ?? 0}
+                      onChange={(e) =>
+                        setCurrentValues((prev) =>
+                          prev.map((value, i) => (i === index ? parseFloat(e.target.value) || 0 : value))
+                        )
+                      }
+                    />
+                    <span className="text-muted-foreground w-24">
+                      / {keyResult.target ?? '—'} {keyResult.unit || ''}
+                    </span>
+                  </div>
+                ))}
+                <p className="text-xs text-muted-foreground">Progress is worked out from the key results</p>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <div className="flex justify-between">
+                  <Label>Progress</Label>
+                  <span className="text-sm font-medium">{progress}%</span>
+                </div>
+                <Slider value={[progress]} min={0} max={100} step={5} onValueChange={([value]) => setProgress(value)} />
+              </div>
+            )}
+            <div className="grid gap-2">
+              <Label>Status</Label>
+              <Select value={status} onValueChange={(value: GoalStatus) => setStatus(value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(GOAL_STATUS_LABELS)
+                    .filter(([value]) => value !== 'not_started')
+                    .map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-2">
+              <Label>Note</Label>
+              <Textarea value={note} onChange={(e) => setNote(e.target.value)} rows={2} placeholder="What changed, blockers" />
+            </div>
+          </div>
+        )}
+
+        <Separator />
+        <div className="space-y-2">
+          <Label>Check-ins</Label>
+          {history.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No check-ins yet</p>
+          ) : (
+            history.map((checkin) => (
+              <div key={checkin.id} className="text-sm border-l-2 pl-3">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{Math.round(Number(checkin.progress))}%</span>
+                  <Badge variant="outline">{GOAL_STATUS_LABELS[checkin.status]}</Badge>
+                  <span className="text-muted-foreground">
+                    {format(new Date(checkin.created_at), 'MMM dd, yyyy')}
+                    {checkin.created_by_name && ` · ${checkin.created_by_name}`}
+                  </span>
+                </div>
+                {checkin.note && <p className="text-muted-foreground">{checkin.note}</p>}
+              </div>
+            ))
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          {!readOnly && (
+            <Button onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Record Check-in
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
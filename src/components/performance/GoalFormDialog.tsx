@@ -0,0 +1,243 @@
+/**
+ * Goal Form Dialog
+ * A goal, or an OKR whose progress follows its key results, optionally tied to a review cycle
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, Plus, X } from 'lucide-react';
+import {
+  saveGoal,
+  type Goal,
+  type GoalInput,
+  type KeyResult,
+  type ReviewCycle,
+} from '@/services/api/performance-review-service';
+
+interface GoalFormDialogProps {
+  open: boolean;
+  goal: Goal | null;
+  // Set when a manager adds a goal for a team member
+  employeeId?: string;
+  cycles: ReviewCycle[];
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+const NO_CYCLE = 'none';
+
+const emptyKeyResult = (): KeyResult => ({ title: '', target: null, current: 0, unit: '' });
+
+export const GoalFormDialog: React.FC<GoalFormDialogProps> = ({ open, goal, employeeId, cycles, onOpenChange, onSaved }) => {
+  const { toast } = useToast();
+  const [form, setForm] = useState<GoalInput>({ title: '', goal_type: 'goal' });
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setForm(
+      goal
+        ? {
+            title: goal.title,
+            description: goal.description || '',
+            goal_type: goal.goal_type,
+            key_results: goal.key_results,
+            weight: Number(goal.weight) || 0,
+            due_date: goal.due_date,
+            cycle_id: goal.cycle_id,
+          }
+        : {
+            title: '',
+            description: '',
+            goal_type: 'goal',
+            key_results: [emptyKeyResult()],
+            weight: 0,
+            due_date: null,
+            cycle_id: cycles.find((cycle) => cycle.status === 'active')?.id || null,
+          }
+    );
+  }, [open, goal, cycles]);
+
+  const update = (changes: Partial<GoalInput>) => setForm((prev) => ({ ...prev, ...changes }));
+  const keyResults = form.key_results || [];
+
+  const updateKeyResult = (index: number, changes: Partial<KeyResult>) =>
+    update({ key_results: keyResults.map((keyResult, i) => (i === index ? { ...keyResult, ...changes } : keyResult)) });
+
+  const handleSave = async () => {
+    if (!form.title.trim()) {
+      toast({ title: 'Error', description: 'Goal title is required', variant: 'destructive' });
+      return;
+    }
+    const filledKeyResults = keyResults.filter((keyResult) => keyResult.title.trim());
+    if (form.goal_type === 'okr' && filledKeyResults.length === 0) {
+      toast({ title: 'Error', description: 'An OKR needs at least one key result', variant: 'destructive' });
+      return;
+    }
+    try {
+      setSaving(true);
+      await saveGoal(
+        {
+          ...form,
+          title: form.title.trim(),
+          employee_id: goal ? undefined : employeeId,
+          key_results: form.goal_type === 'okr' ? filledKeyResults : [],
+        },
+        goal?.id
+      );
+      toast({ title: 'Success', description: goal ? 'Goal updated' : 'Goal created' });
+      onOpenChange(false);
+      onSaved();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save goal',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{goal ? 'Edit Goal' : 'New Goal'}</DialogTitle>
+          <DialogDescription>Goals are shown to managers and in the self-assessment for their cycle</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-[1fr_160px] gap-4">
+            <div className="grid gap-2">
+              <Label>{form.goal_type === 'okr' ? 'Objective' : 'Goal'}</Label>
+              <Input value={form.title} onChange={(e) => update({ title: e.target.value })} />
+            </div>
+            <div className="grid gap-2">
+              <Label>Type</Label>
+              <Select value={form.goal_type} onValueChange={(value: 'goal' | 'okr') => update({ goal_type: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="goal">Goal</SelectItem>
+                  <SelectItem value="okr">OKR</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="grid gap-2">
+            <Label>Description</Label>
+            <Textarea value={form.description || ''} onChange={(e) => update({ description: e.target.value })} rows={2} />
+          </div>
+          <div className="grid grid-cols-3 gap-4">
+            <div className="grid gap-2">
+              <Label>Review cycle</Label>
+              <Select
+                value={form.cycle_id || NO_CYCLE}
+                onValueChange={(value) => update({ cycle_id: value === NO_CYCLE ? null : value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_CYCLE}>No cycle</SelectItem>
+                  {cycles
+                    .filter((cycle) => cycle.status !== 'closed' || cycle.id === form.cycle_id)
+                    .map((cycle) => (
+                      <SelectItem key={cycle.id} value={cycle.id}>
+                        {cycle.name}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-2">
+              <Label>Due date</Label>
+              <Input
+                type="date"
+                value={form.due_date || ''}
+                onChange={(e) => update({ due_date: e.target.value || null })}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label>Weight (%)</Label>
+              <Input
+                type="number"
+                min="0"
+                max="100"
+                value={form.weight || 0}
+                onChange={(e) => update({ weight: parseFloat(e.target.value) || 0 })}
+              />
+            </div>
+          </div>
+
+          {form.goal_type === 'okr' && (
+            <div className="space-y-2">
+              <Label>Key results</Label>
+              {keyResults.map((keyResult, index) => (
+                <div key={index} className="grid grid-cols-[1fr_90px_90px_80px_auto] gap-2">
+                  <Input
+                    value={keyResult.title}
+                    onChange={(e) => updateKeyResult(index, { title: e.target.value })}
+                    placeholder="Key result"
+                  />
+                  <Input
+                    type="number"
+                    value={keyResult.current}
+                    onChange={(e) => updateKeyResult(index, { current: parseFloat(e.target.value) || 0 })}
+                    placeholder="Current"
+                    title="Current"
+                  />
+                  <Input
+                    type="number"
+                    value={keyResult.target ?? ''}
+                    onChange={(e) => updateKeyResult(index, { target: e.target.value === '' ? null : parseFloat(e.target.value) })}
+                    placeholder="Target"
+                    title="Target"
+                  />
+                  <Input
+                    value={keyResult.unit || ''}
+                    onChange={(e) => updateKeyResult(index, { unit: e.target.value })}
+                    placeholder="Unit"
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title="Remove"
+                    onClick={() => update({ key_results: keyResults.filter((_, i) => i !== index) })}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button variant="outline" size="sm" onClick={() => update({ key_results: [...keyResults, emptyKeyResult()] })}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Key Result
+              </Button>
+              <p className="text-xs text-muted-foreground">
+                Progress is the average of each key result's current value against its target
+              </p>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {goal ? 'Save Changes' : 'Create Goal'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
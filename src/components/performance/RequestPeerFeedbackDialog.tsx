@@ -0,0 +1,117 @@
+/**
+ * Request Peer Feedback Dialog
+ * Picks the colleagues asked for 360 feedback on a review
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, Send } from 'lucide-react';
+import { selectRecords } from '@/services/api/postgresql-service';
+import { requestPeerFeedback, type PerformanceReview } from '@/services/api/performance-review-service';
+
+interface ColleagueOption {
+  user_id: string;
+  full_name: string | null;
+}
+
+interface RequestPeerFeedbackDialogProps {
+  review: PerformanceReview | null;
+  onOpenChange: (open: boolean) => void;
+  onRequested: () => void;
+}
+
+export const RequestPeerFeedbackDialog: React.FC<RequestPeerFeedbackDialogProps> = ({
+  review,
+  onOpenChange,
+  onRequested,
+}) => {
+  const { toast } = useToast();
+  const [colleagues, setColleagues] = useState<ColleagueOption[]>([]);
+  const [search, setSearch] = useState('');
+  const [selected, setSelected] = useState<string[]>([]);
+  const [sending, setSending] = useState(false);
+
+  useEffect(() => {
+    if (!review) return;
+    setSearch('');
+    setSelected([]);
+    selectRecords<ColleagueOption>('profiles', {
+      select: 'user_id, full_name',
+      filters: [{ column: 'is_active', operator: 'eq', value: true }],
+      orderBy: 'full_name ASC',
+    })
+      .then((data) => setColleagues(data.filter((colleague) => colleague.user_id !== review.employee_id)))
+      .catch((error) => console.error('Error fetching colleagues:', error));
+  }, [review]);
+
+  const visible = colleagues.filter((colleague) =>
+    (colleague.full_name || '').toLowerCase().includes(search.trim().toLowerCase())
+  );
+
+  const handleRequest = async () => {
+    if (!review || selected.length === 0) return;
+    try {
+      setSending(true);
+      const result = await requestPeerFeedback(review.id, selected);
+      toast({
+        title: 'Success',
+        description: result.requested ? `Feedback requested from ${result.requested} colleague(s)` : 'Already requested',
+      });
+      onOpenChange(false);
+      onRequested();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to request peer feedback',
+        variant: 'destructive',
+      });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!review} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Request Peer Feedback</DialogTitle>
+          <DialogDescription>
+            {review && `Colleagues who work closely with ${review.employee_name || 'the employee'}. Peer feedback is shown without names.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Input value={search} onChange={(e) => setSearch(e.target.value)} placeholder="Search colleagues..." />
+        <ScrollArea className="h-64 rounded-md border p-2">
+          {visible.map((colleague) => (
+            <label key={colleague.user_id} className="flex items-center gap-2 py-1 text-sm">
+              <Checkbox
+                checked={selected.includes(colleague.user_id)}
+                onCheckedChange={(checked) =>
+                  setSelected((prev) =>
+                    checked === true ? [...prev, colleague.user_id] : prev.filter((id) => id !== colleague.user_id)
+                  )
+                }
+              />
+              {colleague.full_name || 'Unnamed'}
+            </label>
+          ))}
+        </ScrollArea>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleRequest} disabled={sending || selected.length === 0}>
+            {sending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+            Request ({selected.length})
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
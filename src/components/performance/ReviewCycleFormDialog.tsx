@@ -0,0 +1,301 @@
+/**
+ * Review Cycle Form Dialog
+ * A draft review cycle: its period and deadlines, the competencies rated and the rating scale
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Separator } from '@/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, Plus, X } from 'lucide-react';
+import {
+  CYCLE_TYPE_LABELS,
+  DEFAULT_RATING_SCALE,
+  saveReviewCycle,
+  type Competency,
+  type ReviewCycle,
+  type ReviewCycleInput,
+  type ReviewCycleType,
+} from '@/services/api/performance-review-service';
+
+interface DepartmentOption {
+  id: string;
+  name: string;
+}
+
+interface ReviewCycleFormDialogProps {
+  open: boolean;
+  cycle: ReviewCycle | null;
+  competencies: Competency[];
+  departments: DepartmentOption[];
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+const ALL_DEPARTMENTS = 'all';
+
+const defaultCycle = (competencies: Competency[]): ReviewCycleInput => ({
+  name: '',
+  cycle_type: 'quarterly',
+  period_start: '',
+  period_end: '',
+  self_review_due: '',
+  manager_review_due: '',
+  competency_ids: competencies.map((competency) => competency.id),
+  rating_scale: DEFAULT_RATING_SCALE,
+  include_peer_feedback: true,
+  department_id: null,
+});
+
+export const ReviewCycleFormDialog: React.FC<ReviewCycleFormDialogProps> = ({
+  open,
+  cycle,
+  competencies,
+  departments,
+  onOpenChange,
+  onSaved,
+}) => {
+  const { toast } = useToast();
+  const [form, setForm] = useState<ReviewCycleInput>(defaultCycle(competencies));
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    if (cycle) {
+      setForm({
+        name: cycle.name,
+        cycle_type: cycle.cycle_type,
+        period_start: cycle.period_start,
+        period_end: cycle.period_end,
+        self_review_due: cycle.self_review_due || '',
+        manager_review_due: cycle.manager_review_due || '',
+        competency_ids: cycle.competencies.map((competency) => competency.id),
+        rating_scale: cycle.rating_scale,
+        include_peer_feedback: cycle.include_peer_feedback,
+        department_id: cycle.department_id,
+      });
+    } else {
+      setForm(defaultCycle(competencies));
+    }
+  }, [open, cycle, competencies]);
+
+  const update = (changes: Partial<ReviewCycleInput>) => setForm((prev) => ({ ...prev, ...changes }));
+
+  const toggleCompetency = (competencyId: string, checked: boolean) =>
+    update({
+      competency_ids: checked
+        ? [...form.competency_ids, competencyId]
+        : form.competency_ids.filter((id) => id !== competencyId),
+    });
+
+  const updateScalePoint = (index: number, changes: Partial<{ value: number; label: string }>) =>
+    update({ rating_scale: form.rating_scale.map((point, i) => (i === index ? { ...point, ...changes } : point)) });
+
+  const addScalePoint = () => {
+    const highest = form.rating_scale.reduce((max, point) => Math.max(max, point.value), 0);
+    update({ rating_scale: [...form.rating_scale, { value: highest + 1, label: '' }] });
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim() || !form.period_start || !form.period_end) {
+      toast({ title: 'Error', description: 'Name and review period are required', variant: 'destructive' });
+      return;
+    }
+    if (form.competency_ids.length === 0) {
+      toast({ title: 'Error', description: 'Choose at least one competency to review', variant: 'destructive' });
+      return;
+    }
+    try {
+      setSaving(true);
+      await saveReviewCycle(
+        {
+          ...form,
+          name: form.name.trim(),
+          self_review_due: form.self_review_due || null,
+          manager_review_due: form.manager_review_due || null,
+        },
+        cycle?.id
+      );
+      toast({ title: 'Success', description: cycle ? 'Review cycle updated' : 'Review cycle created' });
+      onOpenChange(false);
+      onSaved();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save review cycle',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Competencies removed from the library since the cycle was saved are still listed
+  const competencyOptions = [
+    ...competencies,
+    ...(cycle?.competencies || []).filter((saved) => !competencies.some((competency) => competency.id === saved.id)),
+  ];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{cycle ? 'Edit Review Cycle' : 'New Review Cycle'}</DialogTitle>
+          <DialogDescription>Reviews are created for every active employee when the cycle is launched</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-[1fr_180px] gap-4">
+            <div className="grid gap-2">
+              <Label>Name</Label>
+              <Input value={form.name} onChange={(e) => update({ name: e.target.value })} placeholder="e.g. Q3 2026 Review" />
+            </div>
+            <div className="grid gap-2">
+              <Label>Cycle</Label>
+              <Select value={form.cycle_type} onValueChange={(value: ReviewCycleType) => update({ cycle_type: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(CYCLE_TYPE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label>Period start</Label>
+              <Input type="date" value={form.period_start} onChange={(e) => update({ period_start: e.target.value })} />
+            </div>
+            <div className="grid gap-2">
+              <Label>Period end</Label>
+              <Input type="date" value={form.period_end} onChange={(e) => update({ period_end: e.target.value })} />
+            </div>
+            <div className="grid gap-2">
+              <Label>Self-assessments due</Label>
+              <Input
+                type="date"
+                value={form.self_review_due || ''}
+                onChange={(e) => update({ self_review_due: e.target.value })}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label>Manager and peer reviews due</Label>
+              <Input
+                type="date"
+                value={form.manager_review_due || ''}
+                onChange={(e) => update({ manager_review_due: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="grid gap-2">
+            <Label>Employees</Label>
+            <Select
+              value={form.department_id || ALL_DEPARTMENTS}
+              onValueChange={(value) => update({ department_id: value === ALL_DEPARTMENTS ? null : value })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_DEPARTMENTS}>All departments</SelectItem>
+                {departments.map((department) => (
+                  <SelectItem key={department.id} value={department.id}>
+                    {department.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center justify-between">
+            <div>
+              <Label>Peer feedback</Label>
+              <p className="text-xs text-muted-foreground">Employees and managers can ask colleagues for 360 feedback</p>
+            </div>
+            <Switch
+              checked={form.include_peer_feedback}
+              onCheckedChange={(checked) => update({ include_peer_feedback: checked })}
+            />
+          </div>
+
+          <Separator />
+          <div className="space-y-2">
+            <Label>Competencies</Label>
+            {competencyOptions.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Add competencies to the library first</p>
+            ) : (
+              <div className="grid grid-cols-2 gap-2">
+                {competencyOptions.map((competency) => (
+                  <label key={competency.id} className="flex items-start gap-2 text-sm">
+                    <Checkbox
+                      checked={form.competency_ids.includes(competency.id)}
+                      onCheckedChange={(checked) => toggleCompetency(competency.id, checked === true)}
+                    />
+                    <span>
+                      {competency.name}
+                      {competency.category && <span className="text-muted-foreground"> · {competency.category}</span>}
+                    </span>
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <Separator />
+          <div className="space-y-2">
+            <Label>Rating scale</Label>
+            {form.rating_scale.map((point, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  step="0.5"
+                  className="w-20"
+                  value={point.value}
+                  onChange={(e) => updateScalePoint(index, { value: parseFloat(e.target.value) || 0 })}
+                />
+                <Input
+                  value={point.label}
+                  onChange={(e) => updateScalePoint(index, { label: e.target.value })}
+                  placeholder="Label"
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  title="Remove"
+                  disabled={form.rating_scale.length <= 2}
+                  onClick={() => update({ rating_scale: form.rating_scale.filter((_, i) => i !== index) })}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button variant="outline" size="sm" onClick={addScalePoint} disabled={form.rating_scale.length >= 10}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Point
+            </Button>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {cycle ? 'Save Changes' : 'Create Cycle'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
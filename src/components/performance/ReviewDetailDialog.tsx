@@ -0,0 +1,216 @@
+/**
+ * Review Detail Dialog
+ * A review's ratings by competency from each reviewer, written feedback, goals, calibration and
+ * final rating, with the task and attendance metrics for the cycle period
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Separator } from '@/components/ui/separator';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2 } from 'lucide-react';
+import { PerformanceSummaryCards } from './PerformanceSummaryCards';
+import {
+  GOAL_STATUS_LABELS,
+  getReviewDetail,
+  type Feedback,
+  type ReviewDetail,
+} from '@/services/api/performance-review-service';
+
+interface ReviewDetailDialogProps {
+  reviewId: string | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const reviewerLabel = (item: Feedback, peerIndex: number) => {
+  if (item.relationship === 'self') return 'Self';
+  if (item.relationship === 'manager') return 'Manager';
+  // Peer names are hidden from the employee
+  return item.reviewer_name || `Peer ${peerIndex}`;
+};
+
+const formatRating = (value: number | null | undefined) =>
+  value === null || value === undefined ? '—' : Number(value).toFixed(1).replace(/\.0$/, '');
+
+export const ReviewDetailDialog: React.FC<ReviewDetailDialogProps> = ({ reviewId, onOpenChange }) => {
+  const { toast } = useToast();
+  const [detail, setDetail] = useState<ReviewDetail | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!reviewId) return;
+    setDetail(null);
+    setLoading(true);
+    getReviewDetail(reviewId)
+      .then(setDetail)
+      .catch((error) =>
+        toast({
+          title: 'Error',
+          description: error instanceof Error ? error.message : 'Failed to fetch review',
+          variant: 'destructive',
+        })
+      )
+      .finally(() => setLoading(false));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [reviewId]);
+
+  const submitted = detail?.feedback.filter((item) => item.status === 'submitted') || [];
+  let peerCount = 0;
+  const columns = submitted.map((item) => ({
+    item,
+    label: reviewerLabel(item, item.relationship === 'peer' ? ++peerCount : 0),
+  }));
+  const ratingLabel = (value: number | null) =>
+    detail?.cycle.rating_scale.find((point) => Number(point.value) === Number(value))?.label;
+
+  return (
+    <Dialog open={!!reviewId} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{detail ? `${detail.review.employee_name || 'Employee'} · ${detail.cycle.name}` : 'Review'}</DialogTitle>
+          <DialogDescription>
+            {detail &&
+              `${detail.cycle.period_start} to ${detail.cycle.period_end}` +
+                (detail.review.manager_name ? ` · Manager: ${detail.review.manager_name}` : '')}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading || !detail ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="rounded-md border p-4">
+                <p className="text-sm text-muted-foreground">Final rating</p>
+                <p className="text-2xl font-bold">{formatRating(detail.review.final_rating)}</p>
+                <p className="text-sm">{detail.review.final_rating_label || 'Not finalized yet'}</p>
+              </div>
+              <div className="rounded-md border p-4">
+                <p className="text-sm text-muted-foreground">Calibrated rating</p>
+                <p className="text-2xl font-bold">{formatRating(detail.review.calibrated_rating)}</p>
+                {detail.review.calibrated_by_name && (
+                  <p className="text-sm text-muted-foreground">by {detail.review.calibrated_by_name}</p>
+                )}
+              </div>
+              <div className="rounded-md border p-4">
+                <p className="text-sm text-muted-foreground">Status</p>
+                <Badge variant={detail.review.status === 'finalized' ? 'default' : 'secondary'} className="mt-2">
+                  {detail.review.status.replace('_', ' ')}
+                </Badge>
+              </div>
+            </div>
+            {detail.review.calibration_notes && (
+              <p className="text-sm">
+                <span className="font-medium">Calibration notes: </span>
+                {detail.review.calibration_notes}
+              </p>
+            )}
+
+            <div>
+              <h3 className="font-semibold mb-2">Ratings</h3>
+              {columns.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No feedback submitted yet</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Competency</TableHead>
+                      {columns.map(({ item, label }) => (
+                        <TableHead key={item.id} className="text-center">
+                          {label}
+                        </TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {detail.cycle.competencies.map((competency) => (
+                      <TableRow key={competency.id}>
+                        <TableCell>{competency.name}</TableCell>
+                        {columns.map(({ item }) => (
+                          <TableCell key={item.id} className="text-center">
+                            {formatRating(item.ratings?.[competency.id])}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                    <TableRow className="font-medium">
+                      <TableCell>Overall</TableCell>
+                      {columns.map(({ item }) => (
+                        <TableCell key={item.id} className="text-center" title={ratingLabel(item.overall_rating)}>
+                          {formatRating(item.overall_rating)}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+
+            {columns.some(({ item }) => item.strengths || item.improvements || item.comments) && (
+              <div className="space-y-3">
+                <h3 className="font-semibold">Written feedback</h3>
+                {columns
+                  .filter(({ item }) => item.strengths || item.improvements || item.comments)
+                  .map(({ item, label }) => (
+                    <div key={item.id} className="rounded-md border p-3 text-sm space-y-1">
+                      <p className="font-medium">{label}</p>
+                      {item.strengths && (
+                        <p>
+                          <span className="text-muted-foreground">Strengths: </span>
+                          {item.strengths}
+                        </p>
+                      )}
+                      {item.improvements && (
+                        <p>
+                          <span className="text-muted-foreground">To improve: </span>
+                          {item.improvements}
+                        </p>
+                      )}
+                      {item.comments && <p className="text-muted-foreground">{item.comments}</p>}
+                    </div>
+                  ))}
+              </div>
+            )}
+
+            {detail.goals.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="font-semibold">Goals</h3>
+                {detail.goals.map((goal) => (
+                  <div key={goal.id} className="flex items-center gap-3 text-sm">
+                    <span className="flex-1">
+                      {goal.title}
+                      {goal.goal_type === 'okr' && <Badge variant="outline" className="ml-2">OKR</Badge>}
+                    </span>
+                    <Badge variant="outline">{GOAL_STATUS_LABELS[goal.status]}</Badge>
+                    <Progress value={Number(goal.progress)} className="w-24" />
+                    <span className="w-10 text-right">{Math.round(Number(goal.progress))}%</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <Separator />
+            {detail.review.performance_summary && (
+              <div className="space-y-2">
+                <h3 className="font-semibold">Performance summary for the period</h3>
+                <PerformanceSummaryCards summary={detail.review.performance_summary} />
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,91 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Eye } from "lucide-react";
+import { ReviewDetailDialog } from "./ReviewDetailDialog";
+import { CYCLE_TYPE_LABELS, PerformanceReview } from "@/services/api/performance-review-service";
+
+interface ReviewHistoryProps {
+  reviews: PerformanceReview[];
+  loading?: boolean;
+}
+
+export function ReviewHistory({ reviews, loading }: ReviewHistoryProps) {
+  const [viewingId, setViewingId] = useState<string | null>(null);
+
+  if (loading) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Review History</CardTitle>
+          <CardDescription>Loading...</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="h-[200px] bg-muted rounded" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Review History</CardTitle>
+        <CardDescription>
+          Final ratings from closed review cycles, stored with the task and attendance metrics for each period
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {reviews.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">No finalized reviews yet</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Cycle</TableHead>
+                <TableHead>Period</TableHead>
+                <TableHead>Final Rating</TableHead>
+                <TableHead className="text-right">Completion</TableHead>
+                <TableHead className="text-right">On Time</TableHead>
+                <TableHead className="text-right">Attendance</TableHead>
+                <TableHead className="text-right">Work Hours</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {reviews.map((review) => (
+                <TableRow key={review.id}>
+                  <TableCell>
+                    <div className="font-medium">{review.cycle_name}</div>
+                    {review.cycle_type && (
+                      <div className="text-xs text-muted-foreground">{CYCLE_TYPE_LABELS[review.cycle_type]}</div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {review.period_start} to {review.period_end}
+                  </TableCell>
+                  <TableCell>
+                    <span className="font-semibold mr-2">{review.final_rating ?? "—"}</span>
+                    {review.final_rating_label && <Badge variant="outline">{review.final_rating_label}</Badge>}
+                  </TableCell>
+                  <TableCell className="text-right">{review.performance_summary?.completionRate ?? "—"}%</TableCell>
+                  <TableCell className="text-right">{review.performance_summary?.onTimeCompletionRate ?? "—"}%</TableCell>
+                  <TableCell className="text-right">{review.performance_summary?.attendanceRate ?? "—"}%</TableCell>
+                  <TableCell className="text-right">{review.performance_summary?.totalWorkHours ?? "—"}</TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="sm" title="View review" onClick={() => setViewingId(review.id)}>
+                      <Eye className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+      <ReviewDetailDialog reviewId={viewingId} onOpenChange={(open) => !open && setViewingId(null)} />
+    </Card>
+  );
+}
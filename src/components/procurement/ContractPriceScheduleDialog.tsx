@@ -0,0 +1,220 @@
+/**
+ * Contract Price Schedule Dialog
+ * Agreed unit prices, with optional quantity tiers, that purchase orders for the supplier are held to
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+import {
+  getVendorContractPrices,
+  saveVendorContractPrices,
+  type VendorContract,
+  type VendorContractPrice,
+} from '@/services/api/procurement-service';
+import { getProducts, type Product } from '@/services/api/inventory-service';
+
+interface ContractPriceScheduleDialogProps {
+  contract: VendorContract | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const NO_PRODUCT = 'none';
+
+const emptyLine = (): VendorContractPrice => ({
+  product_id: null,
+  description: '',
+  unit_price: 0,
+  unit_of_measure: 'pcs',
+  min_quantity: 0,
+});
+
+export const ContractPriceScheduleDialog: React.FC<ContractPriceScheduleDialogProps> = ({ contract, onOpenChange }) => {
+  const { toast } = useToast();
+  const [lines, setLines] = useState<VendorContractPrice[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!contract) return;
+    setLoading(true);
+    Promise.all([getVendorContractPrices(contract.id), getProducts({ is_active: true }).catch(() => [])])
+      .then(([prices, productList]) => {
+        setLines(prices.map((line) => ({ ...line, unit_price: Number(line.unit_price), min_quantity: Number(line.min_quantity) })));
+        setProducts(productList);
+      })
+      .catch((error) =>
+        toast({
+          title: 'Error',
+          description: error instanceof Error ? error.message : 'Failed to load price schedule',
+          variant: 'destructive',
+        })
+      )
+      .finally(() => setLoading(false));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [contract]);
+
+  const updateLine = (index: number, changes: Partial<VendorContractPrice>) => {
+    setLines((prev) => prev.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  const handleProductChange = (index: number, productId: string) => {
+    if (productId === NO_PRODUCT) {
+      updateLine(index, { product_id: null });
+      return;
+    }
+    const product = products.find((p) => p.id === productId);
+    updateLine(index, {
+      product_id: productId,
+      description: lines[index].description || product?.name || '',
+      unit_of_measure: product?.unit_of_measure || lines[index].unit_of_measure,
+    });
+  };
+
+  const handleSave = async () => {
+    if (!contract) return;
+    if (lines.some((line) => !line.description.trim())) {
+      toast({ title: 'Error', description: 'Every price line needs a description', variant: 'destructive' });
+      return;
+    }
+    try {
+      setSaving(true);
+      await saveVendorContractPrices(contract.id, lines);
+      toast({ title: 'Success', description: 'Price schedule saved' });
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save price schedule',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!contract} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Price Schedule</DialogTitle>
+          <DialogDescription>
+            {contract && `${contract.contract_number} ${contract.title}${contract.supplier_name ? ` · ${contract.supplier_name}` : ''}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <Alert>
+              <AlertDescription>
+                Lines match PO items by product, or by description when no product is set. Add a line per quantity
+                tier; the tier with the highest minimum quantity an order reaches applies.
+              </AlertDescription>
+            </Alert>
+            {lines.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[200px]">Product</TableHead>
+                    <TableHead>Description</TableHead>
+                    <TableHead className="w-[110px]">Min Qty</TableHead>
+                    <TableHead className="w-[130px]">Unit Price</TableHead>
+                    <TableHead className="w-[90px]">Unit</TableHead>
+                    <TableHead className="w-[50px]"></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {lines.map((line, index) => (
+                    <TableRow key={line.id || index}>
+                      <TableCell>
+                        <Select
+                          value={line.product_id || NO_PRODUCT}
+                          onValueChange={(value) => handleProductChange(index, value)}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={NO_PRODUCT}>No product</SelectItem>
+                            {products.map((product) => (
+                              <SelectItem key={product.id} value={product.id}>
+                                {product.sku} {product.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          value={line.description}
+                          onChange={(e) => updateLine(index, { description: e.target.value })}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min="0"
+                          value={line.min_quantity}
+                          onChange={(e) => updateLine(index, { min_quantity: parseFloat(e.target.value) || 0 })}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={line.unit_price}
+                          onChange={(e) => updateLine(index, { unit_price: parseFloat(e.target.value) || 0 })}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          value={line.unit_of_measure || ''}
+                          onChange={(e) => updateLine(index, { unit_of_measure: e.target.value })}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setLines((prev) => prev.filter((_, i) => i !== index))}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+            <Button variant="outline" size="sm" onClick={() => setLines((prev) => [...prev, emptyLine()])}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Price Line
+            </Button>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || loading}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Schedule
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,122 @@
+/**
+ * Expiring Contracts Card
+ * Procurement overview of active vendor contracts nearing their end date
+ */
+
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { FileSignature, Loader2 } from 'lucide-react';
+import { getExpiringVendorContracts, type VendorContract } from '@/services/api/procurement-service';
+
+const formatAmount = (value: number | string | null | undefined, currency: string) =>
+  value === undefined || value === null
+    ? '-'
+    : new Intl.NumberFormat('en-US', { style: 'currency', currency: currency || 'INR' }).format(Number(value));
+
+export const ExpiringContractsCard: React.FC = () => {
+  const navigate = useNavigate();
+  const [days, setDays] = useState('90');
+  const [contracts, setContracts] = useState<VendorContract[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    setLoading(true);
+    getExpiringVendorContracts(parseInt(days, 10))
+      .then(setContracts)
+      .catch((error) => console.error('Error loading expiring contracts:', error))
+      .finally(() => setLoading(false));
+  }, [days]);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <FileSignature className="h-5 w-5" />
+            Expiring Contracts
+          </CardTitle>
+          <CardDescription>Active vendor contracts ending soon, with the value drawn down so far</CardDescription>
+        </div>
+        <Select value={days} onValueChange={setDays}>
+          <SelectTrigger className="w-[140px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="30">Next 30 days</SelectItem>
+            <SelectItem value="60">Next 60 days</SelectItem>
+            <SelectItem value="90">Next 90 days</SelectItem>
+            <SelectItem value="180">Next 180 days</SelectItem>
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : contracts.length === 0 ? (
+          <p className="py-6 text-center text-muted-foreground">No active contracts end in this window</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Contract</TableHead>
+                <TableHead>Supplier</TableHead>
+                <TableHead>Ends</TableHead>
+                <TableHead>Renewal</TableHead>
+                <TableHead className="text-right">Consumed / Value</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {contracts.map((contract) => {
+                const daysRemaining = Number(contract.days_remaining);
+                return (
+                  <TableRow key={contract.id}>
+                    <TableCell>
+                      <div className="font-medium">{contract.title}</div>
+                      <div className="font-mono text-xs text-muted-foreground">{contract.contract_number}</div>
+                    </TableCell>
+                    <TableCell>{contract.supplier_name || '-'}</TableCell>
+                    <TableCell>
+                      <div>{contract.end_date ? new Date(contract.end_date).toLocaleDateString() : '-'}</div>
+                      <div className={`text-xs ${daysRemaining <= 7 ? 'text-red-600' : 'text-muted-foreground'}`}>
+                        {daysRemaining < 0
+                          ? `${Math.abs(daysRemaining)} day(s) overdue`
+                          : daysRemaining === 0
+                            ? 'Today'
+                            : `${daysRemaining} day(s) left`}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      {contract.renewal_type === 'auto' ? (
+                        <Badge variant="secondary">Auto-renews</Badge>
+                      ) : (
+                        <Badge variant="outline">Manual</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatAmount(contract.consumed_value, contract.currency)}
+                      <div className="text-xs text-muted-foreground">
+                        of {formatAmount(contract.value, contract.currency)}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+        <div className="mt-4 flex justify-end">
+          <Button variant="outline" size="sm" onClick={() => navigate('/procurement/vendor-contracts')}>
+            Manage Contracts
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,126 @@
+/**
+ * Renew Contract Dialog
+ * Manual renewal of a vendor contract to a new end date, optionally with a new contract value
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2 } from 'lucide-react';
+import { renewVendorContract, type VendorContract } from '@/services/api/procurement-service';
+
+interface RenewContractDialogProps {
+  contract: VendorContract | null;
+  onOpenChange: (open: boolean) => void;
+  onRenewed: (contract: VendorContract) => void;
+}
+
+export const RenewContractDialog: React.FC<RenewContractDialogProps> = ({ contract, onOpenChange, onRenewed }) => {
+  const { toast } = useToast();
+  const [termMonths, setTermMonths] = useState('');
+  const [newEndDate, setNewEndDate] = useState('');
+  const [newValue, setNewValue] = useState('');
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!contract) return;
+    setTermMonths(contract.renewal_term_months ? String(contract.renewal_term_months) : '12');
+    setNewEndDate('');
+    setNewValue(contract.value !== undefined && contract.value !== null ? String(contract.value) : '');
+    setNotes('');
+  }, [contract]);
+
+  const handleRenew = async () => {
+    if (!contract) return;
+    try {
+      setSaving(true);
+      const renewed = await renewVendorContract(contract.id, {
+        new_end_date: newEndDate || undefined,
+        term_months: newEndDate ? undefined : parseInt(termMonths, 10) || undefined,
+        new_value: newValue ? parseFloat(newValue) : undefined,
+        notes: notes || undefined,
+      });
+      toast({
+        title: 'Success',
+        description: `${contract.contract_number} renewed until ${new Date(renewed.end_date || '').toLocaleDateString()}`,
+      });
+      onOpenChange(false);
+      onRenewed(renewed);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to renew contract',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!contract} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Renew Contract</DialogTitle>
+          <DialogDescription>
+            {contract &&
+              `${contract.contract_number} ${contract.title} currently ends ${
+                contract.end_date ? new Date(contract.end_date).toLocaleDateString() : 'with no end date'
+              }`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label>Extend By (months)</Label>
+              <Input
+                type="number"
+                min="1"
+                value={termMonths}
+                disabled={!!newEndDate}
+                onChange={(e) => setTermMonths(e.target.value)}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label>Or New End Date</Label>
+              <Input type="date" value={newEndDate} onChange={(e) => setNewEndDate(e.target.value)} />
+            </div>
+          </div>
+          <div className="grid gap-2">
+            <Label>Contract Value</Label>
+            <Input
+              type="number"
+              step="0.01"
+              value={newValue}
+              onChange={(e) => setNewValue(e.target.value)}
+              placeholder="Leave unchanged"
+            />
+            <p className="text-xs text-muted-foreground">
+              Value already consumed by purchase orders carries over to the renewed term
+            </p>
+          </div>
+          <div className="grid gap-2">
+            <Label>Notes</Label>
+            <Textarea value={notes} onChange={(e) => setNotes(e.target.value)} rows={3} placeholder="Renegotiated terms, approvals, etc." />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleRenew} disabled={saving || (!newEndDate && !termMonths)}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Renew
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
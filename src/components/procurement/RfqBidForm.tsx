@@ -0,0 +1,341 @@
+/**
+ * RFQ Bid Form
+ * Captures one supplier's quote against the RFQ lines: prices, lead time, terms and attachments
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { db } from '@/lib/database';
+import { Loader2, Paperclip, X } from 'lucide-react';
+import {
+  RfqBidAttachment,
+  RfqDetail,
+  Supplier,
+  saveRfqBid,
+} from '@/services/api/procurement-service';
+
+export const RFQ_BID_BUCKET = 'rfq-bids';
+
+interface RfqBidFormProps {
+  rfq: RfqDetail;
+  suppliers: Supplier[];
+  supplierId: string | null;
+  open: boolean;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+interface BidLine {
+  rfq_item_id: string;
+  unit_price: string;
+  delivery_days: string;
+  notes: string;
+}
+
+const emptyTerms = {
+  validity_days: '',
+  lead_time_days: '',
+  payment_terms: '',
+  delivery_terms: '',
+  notes: '',
+};
+
+const toOptionalInt = (value: string) => (value === '' ? null : parseInt(value));
+
+export const RfqBidForm: React.FC<RfqBidFormProps> = ({ rfq, suppliers, supplierId, open, onClose, onSaved }) => {
+  const { toast } = useToast();
+  const [selectedSupplierId, setSelectedSupplierId] = useState('');
+  const [terms, setTerms] = useState(emptyTerms);
+  const [lines, setLines] = useState<BidLine[]>([]);
+  const [attachments, setAttachments] = useState<RfqBidAttachment[]>([]);
+  const [uploading, setUploading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  // Prefill from the supplier's existing bid when editing
+  useEffect(() => {
+    if (!open) return;
+    const existing = rfq.responses.find((response) => response.supplier_id === supplierId);
+    setSelectedSupplierId(supplierId || '');
+    setTerms(
+      existing
+        ? {
+            validity_days: existing.validity_days?.toString() || '',
+            lead_time_days: existing.lead_time_days?.toString() || '',
+            payment_terms: existing.payment_terms || '',
+            delivery_terms: existing.delivery_terms || '',
+            notes: existing.notes || '',
+          }
+        : emptyTerms
+    );
+    setAttachments(existing?.attachments || []);
+    setLines(
+      rfq.items.map((item) => {
+        const quoted = existing?.items.find((line) => line.rfq_item_id === item.id);
+        return {
+          rfq_item_id: item.id,
+          unit_price: quoted ? String(quoted.unit_price) : '',
+          delivery_days: quoted?.delivery_days?.toString() || '',
+          notes: quoted?.notes || '',
+        };
+      })
+    );
+  }, [open, rfq, supplierId]);
+
+  const updateLine = (index: number, field: keyof BidLine, value: string) => {
+    setLines((prev) => prev.map((line, i) => (i === index ? { ...line, [field]: value } : line)));
+  };
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    try {
+      setUploading(true);
+      const uploaded: RfqBidAttachment[] = [];
+      for (const file of Array.from(files)) {
+        const filePath = `${rfq.id}/${Date.now()}_${file.name.replace(/[^\w.-]+/g, '_')}`;
+        const { error } = await db.storage.from(RFQ_BID_BUCKET).upload(filePath, file);
+        if (error) throw error;
+        uploaded.push({ file_name: file.name, file_path: filePath, file_type: file.type, file_size: file.size });
+      }
+      setAttachments((prev) => [...prev, ...uploaded]);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to upload attachment',
+        variant: 'destructive',
+      });
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!selectedSupplierId) {
+      toast({ title: 'Validation Error', description: 'Select the supplier this bid is from', variant: 'destructive' });
+      return;
+    }
+    const quotedLines = lines.filter((line) => line.unit_price !== '');
+    if (quotedLines.length === 0) {
+      toast({ title: 'Validation Error', description: 'Enter a price for at least one line', variant: 'destructive' });
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await saveRfqBid(rfq.id, {
+        supplier_id: selectedSupplierId,
+        validity_days: toOptionalInt(terms.validity_days),
+        lead_time_days: toOptionalInt(terms.lead_time_days),
+        payment_terms: terms.payment_terms,
+        delivery_terms: terms.delivery_terms,
+        notes: terms.notes,
+        attachments,
+        items: quotedLines.map((line) => ({
+          rfq_item_id: line.rfq_item_id,
+          unit_price: parseFloat(line.unit_price),
+          delivery_days: toOptionalInt(line.delivery_days),
+          notes: line.notes,
+        })),
+      });
+      toast({ title: 'Success', description: 'Bid saved successfully' });
+      onSaved();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save bid',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const bidTotal = lines.reduce((sum, line, index) => {
+    const price = parseFloat(line.unit_price);
+    return Number.isFinite(price) ? sum + price * Number(rfq.items[index]?.quantity || 0) : sum;
+  }, 0);
+
+  // Invited suppliers first, then the rest of the active supplier list
+  const invitedIds = new Set(rfq.invited_suppliers.map((invite) => invite.supplier_id));
+  const supplierOptions = [
+    ...suppliers.filter((supplier) => invitedIds.has(supplier.id)),
+    ...suppliers.filter((supplier) => !invitedIds.has(supplier.id)),
+  ];
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{supplierId ? 'Edit Bid' : 'Record Bid'}</DialogTitle>
+          <DialogDescription>
+            {rfq.rfq_number} - {rfq.title}. Prices are in {rfq.currency}; leave a line blank if it was not quoted.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="grid gap-2 md:col-span-3">
+              <Label>Supplier *</Label>
+              <Select value={selectedSupplierId} onValueChange={setSelectedSupplierId} disabled={!!supplierId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select supplier" />
+                </SelectTrigger>
+                <SelectContent>
+                  {supplierOptions.map((supplier) => (
+                    <SelectItem key={supplier.id} value={supplier.id}>
+                      {supplier.name}
+                      {invitedIds.has(supplier.id) ? ' (invited)' : ''}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-2">
+              <Label>Lead Time (days)</Label>
+              <Input
+                type="number"
+                min="0"
+                value={terms.lead_time_days}
+                onChange={(e) => setTerms({ ...terms, lead_time_days: e.target.value })}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label>Validity (days)</Label>
+              <Input
+                type="number"
+                min="0"
+                value={terms.validity_days}
+                onChange={(e) => setTerms({ ...terms, validity_days: e.target.value })}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label>Payment Terms</Label>
+              <Input
+                value={terms.payment_terms}
+                onChange={(e) => setTerms({ ...terms, payment_terms: e.target.value })}
+                placeholder="e.g. Net 30"
+              />
+            </div>
+            <div className="grid gap-2 md:col-span-3">
+              <Label>Delivery Terms</Label>
+              <Input
+                value={terms.delivery_terms}
+                onChange={(e) => setTerms({ ...terms, delivery_terms: e.target.value })}
+                placeholder="e.g. Delivered to site, freight included"
+              />
+            </div>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Item</TableHead>
+                <TableHead className="text-right">Qty</TableHead>
+                <TableHead className="w-36">Unit Price</TableHead>
+                <TableHead className="w-28">Delivery Days</TableHead>
+                <TableHead>Notes</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rfq.items.map((item, index) => (
+                <TableRow key={item.id}>
+                  <TableCell>
+                    <div className="font-medium">{item.description}</div>
+                    {item.specifications && (
+                      <div className="text-xs text-muted-foreground">{item.specifications}</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {Number(item.quantity).toLocaleString()} {item.unit_of_measure}
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={lines[index]?.unit_price || ''}
+                      onChange={(e) => updateLine(index, 'unit_price', e.target.value)}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min="0"
+                      value={lines[index]?.delivery_days || ''}
+                      onChange={(e) => updateLine(index, 'delivery_days', e.target.value)}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      value={lines[index]?.notes || ''}
+                      onChange={(e) => updateLine(index, 'notes', e.target.value)}
+                    />
+                  </TableCell>
+                </TableRow>
+              ))}
+              <TableRow className="font-semibold">
+                <TableCell colSpan={2}>Bid Total</TableCell>
+                <TableCell colSpan={3}>
+                  {rfq.currency} {bidTotal.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                </TableCell>
+              </TableRow>
+            </TableBody>
+          </Table>
+
+          <div className="grid gap-2">
+            <Label>Attachments</Label>
+            <div className="flex flex-wrap items-center gap-2">
+              {attachments.map((attachment) => (
+                <span
+                  key={attachment.file_path}
+                  className="inline-flex items-center gap-1 rounded-md border px-2 py-1 text-sm"
+                >
+                  <Paperclip className="h-3 w-3" />
+                  {attachment.file_name}
+                  <button
+                    type="button"
+                    onClick={() => setAttachments((prev) => prev.filter((a) => a.file_path !== attachment.file_path))}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </span>
+              ))}
+              <Input
+                type="file"
+                multiple
+                className="w-64"
+                disabled={uploading}
+                onChange={(e) => {
+                  handleFiles(e.target.files);
+                  e.target.value = '';
+                }}
+              />
+              {uploading && <Loader2 className="h-4 w-4 animate-spin" />}
+            </div>
+          </div>
+
+          <div className="grid gap-2">
+            <Label>Notes</Label>
+            <Textarea value={terms.notes} onChange={(e) => setTerms({ ...terms, notes: e.target.value })} rows={2} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || uploading}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Bid
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,550 @@
+/**
+ * RFQ Bids Dialog
+ * Supplier invitations, bid capture, weighted bid comparison and award to purchase orders
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { db } from '@/lib/database';
+import { Award, Edit, Loader2, Paperclip, Plus, Send, Trophy } from 'lucide-react';
+import {
+  RfqBidAttachment,
+  RfqComparison,
+  RfqDetail,
+  RfqScoringWeights,
+  Supplier,
+  awardRfq,
+  getRfqById,
+  getRfqComparison,
+  getSuppliers,
+  inviteRfqSuppliers,
+} from '@/services/api/procurement-service';
+import { RfqBidForm, RFQ_BID_BUCKET } from './RfqBidForm';
+
+interface RfqBidsDialogProps {
+  rfqId: string | null;
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+const INVITE_STATUS_VARIANTS: Record<string, 'default' | 'secondary' | 'outline' | 'destructive'> = {
+  invited: 'secondary',
+  responded: 'default',
+  declined: 'destructive',
+};
+
+const formatMoney = (value: number) =>
+  value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+export const RfqBidsDialog: React.FC<RfqBidsDialogProps> = ({ rfqId, onClose, onChanged }) => {
+  const { toast } = useToast();
+  const [rfq, setRfq] = useState<RfqDetail | null>(null);
+  const [comparison, setComparison] = useState<RfqComparison | null>(null);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [weights, setWeights] = useState<RfqScoringWeights>({ price: 50, lead_time: 20, performance: 30 });
+  const [inviteIds, setInviteIds] = useState<string[]>([]);
+  const [selection, setSelection] = useState<Record<string, string>>({});
+  const [bidSupplierId, setBidSupplierId] = useState<string | null>(null);
+  const [showBidForm, setShowBidForm] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [inviting, setInviting] = useState(false);
+  const [scoring, setScoring] = useState(false);
+  const [awarding, setAwarding] = useState(false);
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: 'Error',
+      description: error instanceof Error ? error.message : fallback,
+      variant: 'destructive',
+    });
+  };
+
+  // Default award: each line goes to the best-ranked supplier that quoted it
+  const bestScoreSelection = (data: RfqComparison) => {
+    const next: Record<string, string> = {};
+    for (const item of data.items) {
+      const awarded = item.bids.find((bid) => bid.is_awarded);
+      const best = data.suppliers.find((supplier) => item.bids.some((bid) => bid.response_id === supplier.response_id));
+      const pick = awarded?.response_id || best?.response_id;
+      if (pick) next[item.rfq_item_id] = pick;
+    }
+    return next;
+  };
+
+  const lowestPriceSelection = (data: RfqComparison) => {
+    const next: Record<string, string> = {};
+    for (const item of data.items) {
+      const lowest = item.bids.find((bid) => bid.is_lowest);
+      if (lowest) next[item.rfq_item_id] = lowest.response_id;
+    }
+    return next;
+  };
+
+  const loadComparison = async (id: string, useWeights?: RfqScoringWeights) => {
+    const data = await getRfqComparison(id, useWeights);
+    setComparison(data);
+    setWeights(data.weights);
+    setSelection(bestScoreSelection(data));
+  };
+
+  const load = async (id: string) => {
+    try {
+      setLoading(true);
+      const [detail, supplierList] = await Promise.all([getRfqById(id), getSuppliers({ is_active: true })]);
+      setRfq(detail);
+      setSuppliers(supplierList);
+      await loadComparison(id);
+    } catch (error) {
+      showError(error, 'Failed to load RFQ bids');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!rfqId) {
+      setRfq(null);
+      setComparison(null);
+      setInviteIds([]);
+      return;
+    }
+    load(rfqId);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [rfqId]);
+
+  const isClosedForBids = rfq ? ['awarded', 'cancelled'].includes(rfq.status) : true;
+
+  const handleInvite = async () => {
+    if (!rfq || inviteIds.length === 0) return;
+    try {
+      setInviting(true);
+      setRfq(await inviteRfqSuppliers(rfq.id, inviteIds));
+      setInviteIds([]);
+      toast({ title: 'Success', description: 'Suppliers invited successfully' });
+      onChanged();
+    } catch (error) {
+      showError(error, 'Failed to invite suppliers');
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const handleRescore = async () => {
+    if (!rfq) return;
+    try {
+      setScoring(true);
+      await loadComparison(rfq.id, weights);
+    } catch (error) {
+      showError(error, 'Failed to score bids');
+    } finally {
+      setScoring(false);
+    }
+  };
+
+  const handleAward = async () => {
+    if (!rfq) return;
+    const awards = Object.entries(selection).map(([rfq_item_id, response_id]) => ({ rfq_item_id, response_id }));
+    if (awards.length === 0) {
+      toast({ title: 'Validation Error', description: 'Select a winning bid for at least one line', variant: 'destructive' });
+      return;
+    }
+    try {
+      setAwarding(true);
+      const result = await awardRfq(rfq.id, { awards, weights });
+      toast({
+        title: 'RFQ awarded',
+        description: `Created ${result.purchase_orders.map((po) => `${po.po_number} (${po.supplier_name})`).join(', ')}`,
+      });
+      onChanged();
+      await load(rfq.id);
+    } catch (error) {
+      showError(error, 'Failed to award RFQ');
+    } finally {
+      setAwarding(false);
+    }
+  };
+
+  const openAttachment = async (attachment: RfqBidAttachment) => {
+    const { data, error } = await db.storage.from(RFQ_BID_BUCKET).download(attachment.file_path);
+    if (error || !data) {
+      showError(error, 'Failed to open attachment');
+      return;
+    }
+    window.open(URL.createObjectURL(new Blob([data], { type: attachment.file_type || 'application/octet-stream' })), '_blank');
+  };
+
+  const openBidForm = (supplierId: string | null) => {
+    setBidSupplierId(supplierId);
+    setShowBidForm(true);
+  };
+
+  const invitedIds = new Set(rfq?.invited_suppliers.map((invite) => invite.supplier_id) || []);
+  const uninvitedSuppliers = suppliers.filter((supplier) => !invitedIds.has(supplier.id));
+  const rankedSuppliers = comparison?.suppliers || [];
+  const awardTotal = comparison
+    ? comparison.items.reduce((sum, item) => {
+        const bid = item.bids.find((b) => b.response_id === selection[item.rfq_item_id]);
+        return bid ? sum + bid.line_total : sum;
+      }, 0)
+    : 0;
+  const awardSupplierCount = new Set(Object.values(selection)).size;
+
+  return (
+    <Dialog open={!!rfqId} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-6xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Bids & Award</DialogTitle>
+          <DialogDescription>
+            {rfq ? `${rfq.rfq_number} - ${rfq.title}` : 'Loading RFQ...'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading || !rfq ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : rfq.items.length === 0 ? (
+          <Alert>
+            <AlertDescription>This RFQ has no line items, so there is nothing for suppliers to quote on.</AlertDescription>
+          </Alert>
+        ) : (
+          <Tabs defaultValue="bids">
+            <TabsList>
+              <TabsTrigger value="bids">Suppliers & Bids ({rfq.responses.length})</TabsTrigger>
+              <TabsTrigger value="comparison">Comparison & Award</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="bids" className="space-y-4">
+              {!isClosedForBids && uninvitedSuppliers.length > 0 && (
+                <div className="rounded-md border p-4 space-y-3">
+                  <Label>Invite Suppliers</Label>
+                  <div className="grid gap-2 md:grid-cols-3 max-h-40 overflow-y-auto">
+                    {uninvitedSuppliers.map((supplier) => (
+                      <label key={supplier.id} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={inviteIds.includes(supplier.id)}
+                          onCheckedChange={(checked) =>
+                            setInviteIds((prev) =>
+                              checked ? [...prev, supplier.id] : prev.filter((id) => id !== supplier.id)
+                            )
+                          }
+                        />
+                        {supplier.name}
+                        {supplier.is_preferred && <Badge variant="outline">Preferred</Badge>}
+                      </label>
+                    ))}
+                  </div>
+                  <Button size="sm" onClick={handleInvite} disabled={inviting || inviteIds.length === 0}>
+                    {inviting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+                    Invite {inviteIds.length > 0 ? `(${inviteIds.length})` : ''}
+                  </Button>
+                </div>
+              )}
+
+              <div className="flex justify-end">
+                {!isClosedForBids && (
+                  <Button size="sm" variant="outline" onClick={() => openBidForm(null)}>
+                    <Plus className="mr-2 h-4 w-4" />
+                    Record Bid
+                  </Button>
+                )}
+              </div>
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Supplier</TableHead>
+                    <TableHead>Invitation</TableHead>
+                    <TableHead className="text-right">Bid Total</TableHead>
+                    <TableHead className="text-right">Lead Time</TableHead>
+                    <TableHead>Payment Terms</TableHead>
+                    <TableHead>Attachments</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rfq.invited_suppliers.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={7} className="text-center text-muted-foreground">
+                        No suppliers invited yet.
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    rfq.invited_suppliers.map((invite) => {
+                      const bid = rfq.responses.find((response) => response.supplier_id === invite.supplier_id);
+                      return (
+                        <TableRow key={invite.id}>
+                          <TableCell>
+                            <div className="font-medium">{invite.supplier_name}</div>
+                            {invite.supplier_email && (
+                              <div className="text-xs text-muted-foreground">{invite.supplier_email}</div>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant={INVITE_STATUS_VARIANTS[invite.status] || 'secondary'}>{invite.status}</Badge>
+                            {bid && bid.status !== 'submitted' && (
+                              <Badge variant={bid.status === 'accepted' ? 'default' : 'outline'} className="ml-1">
+                                {bid.status}
+                              </Badge>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {bid ? `${rfq.currency} ${formatMoney(Number(bid.total_amount))}` : '-'}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {bid?.lead_time_days !== null && bid?.lead_time_days !== undefined
+                              ? `${bid.lead_time_days} days`
+                              : '-'}
+                          </TableCell>
+                          <TableCell>{bid?.payment_terms || '-'}</TableCell>
+                          <TableCell>
+                            <div className="flex flex-wrap gap-1">
+                              {(bid?.attachments || []).map((attachment) => (
+                                <Button
+                                  key={attachment.file_path}
+                                  variant="ghost"
+                                  size="sm"
+                                  className="h-7 px-2"
+                                  onClick={() => openAttachment(attachment)}
+                                >
+                                  <Paperclip className="mr-1 h-3 w-3" />
+                                  {attachment.file_name}
+                                </Button>
+                              ))}
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {!isClosedForBids && (
+                              <Button variant="ghost" size="sm" onClick={() => openBidForm(invite.supplier_id)}>
+                                <Edit className="mr-1 h-4 w-4" />
+                                {bid ? 'Edit Bid' : 'Enter Bid'}
+                              </Button>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })
+                  )}
+                </TableBody>
+              </Table>
+            </TabsContent>
+
+            <TabsContent value="comparison" className="space-y-4">
+              {!comparison || comparison.suppliers.length === 0 ? (
+                <Alert>
+                  <AlertDescription>No bids recorded yet. Record supplier bids to compare them here.</AlertDescription>
+                </Alert>
+              ) : (
+                <>
+                  <div className="flex flex-wrap items-end gap-4">
+                    <div className="space-y-2 w-28">
+                      <Label>Price weight</Label>
+                      <Input
+                        type="number"
+                        min="0"
+                        value={weights.price}
+                        onChange={(e) => setWeights({ ...weights, price: Number(e.target.value) })}
+                      />
+                    </div>
+                    <div className="space-y-2 w-28">
+                      <Label>Lead time weight</Label>
+                      <Input
+                        type="number"
+                        min="0"
+                        value={weights.lead_time}
+                        onChange={(e) => setWeights({ ...weights, lead_time: Number(e.target.value) })}
+                      />
+                    </div>
+                    <div className="space-y-2 w-28">
+                      <Label>Vendor rating weight</Label>
+                      <Input
+                        type="number"
+                        min="0"
+                        value={weights.performance}
+                        onChange={(e) => setWeights({ ...weights, performance: Number(e.target.value) })}
+                      />
+                    </div>
+                    <Button variant="outline" onClick={handleRescore} disabled={scoring}>
+                      {scoring && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                      Rescore
+                    </Button>
+                    <p className="text-xs text-muted-foreground max-w-sm">
+                      Scores are out of 100 against the best bid. Suppliers without a vendor performance review score 50
+                      on rating.
+                    </p>
+                  </div>
+
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Rank</TableHead>
+                        <TableHead>Supplier</TableHead>
+                        <TableHead className="text-right">Quoted Total</TableHead>
+                        <TableHead className="text-right">Lines</TableHead>
+                        <TableHead className="text-right">Lead Time</TableHead>
+                        <TableHead className="text-right">Rating</TableHead>
+                        <TableHead className="text-right">Price</TableHead>
+                        <TableHead className="text-right">Lead Time</TableHead>
+                        <TableHead className="text-right">Rating</TableHead>
+                        <TableHead className="text-right">Score</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {rankedSuppliers.map((supplier) => (
+                        <TableRow key={supplier.response_id}>
+                          <TableCell>
+                            {supplier.rank === 1 ? <Trophy className="h-4 w-4 text-yellow-500" /> : supplier.rank}
+                          </TableCell>
+                          <TableCell className="font-medium">{supplier.supplier_name}</TableCell>
+                          <TableCell className="text-right">{formatMoney(supplier.quoted_total)}</TableCell>
+                          <TableCell className="text-right">
+                            {supplier.lines_quoted}/{comparison.items.length}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {supplier.lead_time_days !== null ? `${supplier.lead_time_days}d` : '-'}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {supplier.performance_rating !== null ? `${supplier.performance_rating.toFixed(1)}/5` : '-'}
+                          </TableCell>
+                          <TableCell className="text-right">{supplier.price_score.toFixed(0)}</TableCell>
+                          <TableCell className="text-right">{supplier.lead_time_score.toFixed(0)}</TableCell>
+                          <TableCell className="text-right">{supplier.performance_score.toFixed(0)}</TableCell>
+                          <TableCell className="text-right font-semibold">{supplier.total_score.toFixed(1)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+
+                  <div className="flex items-center justify-between">
+                    <Label>Bid Matrix ({comparison.currency} unit prices)</Label>
+                    {comparison.status !== 'awarded' && (
+                      <div className="flex gap-2">
+                        <Button variant="ghost" size="sm" onClick={() => setSelection(bestScoreSelection(comparison))}>
+                          Best score per line
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => setSelection(lowestPriceSelection(comparison))}>
+                          Lowest price per line
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                  <div className="overflow-x-auto rounded-md border">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Item</TableHead>
+                          <TableHead className="text-right">Qty</TableHead>
+                          {rankedSuppliers.map((supplier) => (
+                            <TableHead key={supplier.response_id} className="text-center">
+                              {supplier.supplier_name}
+                            </TableHead>
+                          ))}
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {comparison.items.map((item) => (
+                          <TableRow key={item.rfq_item_id}>
+                            <TableCell className="font-medium">{item.description}</TableCell>
+                            <TableCell className="text-right">
+                              {item.quantity.toLocaleString()} {item.unit_of_measure}
+                            </TableCell>
+                            {rankedSuppliers.map((supplier) => {
+                              const bid = item.bids.find((b) => b.response_id === supplier.response_id);
+                              if (!bid) {
+                                return (
+                                  <TableCell key={supplier.response_id} className="text-center text-muted-foreground">
+                                    -
+                                  </TableCell>
+                                );
+                              }
+                              const selected = selection[item.rfq_item_id] === bid.response_id;
+                              return (
+                                <TableCell key={supplier.response_id} className="text-center p-1">
+                                  <button
+                                    type="button"
+                                    disabled={comparison.status === 'awarded'}
+                                    onClick={() => setSelection({ ...selection, [item.rfq_item_id]: bid.response_id })}
+                                    className={`w-full rounded-md border px-2 py-1 text-sm ${
+                                      selected || bid.is_awarded ? 'border-primary bg-primary/10' : 'border-transparent'
+                                    }`}
+                                  >
+                                    <div className={bid.is_lowest ? 'font-semibold text-green-600' : ''}>
+                                      {formatMoney(bid.unit_price)}
+                                    </div>
+                                    <div className="text-xs text-muted-foreground">
+                                      {formatMoney(bid.line_total)}
+                                      {bid.delivery_days !== null && bid.delivery_days !== undefined
+                                        ? ` · ${bid.delivery_days}d`
+                                        : ''}
+                                    </div>
+                                    {bid.is_awarded && <Badge className="mt-1">Awarded</Badge>}
+                                  </button>
+                                </TableCell>
+                              );
+                            })}
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+
+                  {comparison.status === 'awarded' ? (
+                    <Alert>
+                      <AlertDescription>
+                        This RFQ has been awarded. The purchase orders are available under Purchase Orders as drafts.
+                      </AlertDescription>
+                    </Alert>
+                  ) : (
+                    <div className="flex items-center justify-between rounded-md border p-3">
+                      <div className="text-sm">
+                        {Object.keys(selection).length}/{comparison.items.length} lines selected across{' '}
+                        {awardSupplierCount} supplier(s) · {comparison.currency} {formatMoney(awardTotal)}
+                        {awardSupplierCount > 1 && (
+                          <span className="text-muted-foreground"> · one purchase order per supplier</span>
+                        )}
+                      </div>
+                      <Button onClick={handleAward} disabled={awarding || Object.keys(selection).length === 0}>
+                        {awarding ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Award className="mr-2 h-4 w-4" />}
+                        Award & Create PO{awardSupplierCount > 1 ? 's' : ''}
+                      </Button>
+                    </div>
+                  )}
+                </>
+              )}
+            </TabsContent>
+          </Tabs>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+        </DialogFooter>
+
+        {rfq && (
+          <RfqBidForm
+            rfq={rfq}
+            suppliers={suppliers}
+            supplierId={bidSupplierId}
+            open={showBidForm}
+            onClose={() => setShowBidForm(false)}
+            onSaved={() => {
+              setShowBidForm(false);
+              onChanged();
+              load(rfq.id);
+            }}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
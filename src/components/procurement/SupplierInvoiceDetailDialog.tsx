@@ -0,0 +1,285 @@
+/**
+ * Supplier Invoice Detail Dialog
+ * Shows a bill's three-way match per line and approves, rematches or disputes it
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { AlertTriangle, CheckCircle2, Loader2, RefreshCw, XCircle } from 'lucide-react';
+import {
+  SupplierInvoice,
+  approveSupplierInvoice,
+  disputeSupplierInvoice,
+  getSupplierInvoiceById,
+  rematchSupplierInvoice,
+} from '@/services/api/procurement-service';
+
+interface SupplierInvoiceDetailDialogProps {
+  invoiceId: string | null;
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+export const SupplierInvoiceDetailDialog: React.FC<SupplierInvoiceDetailDialogProps> = ({
+  invoiceId,
+  onClose,
+  onChanged,
+}) => {
+  const { toast } = useToast();
+  const [invoice, setInvoice] = useState<SupplierInvoice | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [acting, setActing] = useState<string | null>(null);
+  const [reason, setReason] = useState('');
+
+  useEffect(() => {
+    if (!invoiceId) {
+      setInvoice(null);
+      return;
+    }
+    const load = async () => {
+      try {
+        setLoading(true);
+        setReason('');
+        setInvoice(await getSupplierInvoiceById(invoiceId));
+      } catch (error) {
+        toast({
+          title: 'Error',
+          description: error instanceof Error ? error.message : 'Failed to fetch supplier invoice',
+          variant: 'destructive',
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [invoiceId]);
+
+  const runAction = async (action: 'approve' | 'rematch' | 'dispute') => {
+    if (!invoice) return;
+    const isException = invoice.match_status !== 'matched';
+    if (action === 'approve' && isException && !reason.trim()) {
+      toast({
+        title: 'Override reason required',
+        description: 'Explain why this invoice is approved despite the match exceptions',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    try {
+      setActing(action);
+      let updated: SupplierInvoice;
+      if (action === 'approve') {
+        updated = await approveSupplierInvoice(invoice.id, isException ? reason.trim() : undefined);
+        toast({ title: 'Success', description: `${updated.invoice_number} approved and posted to payables` });
+      } else if (action === 'rematch') {
+        updated = await rematchSupplierInvoice(invoice.id);
+        toast({ title: 'Success', description: `Invoice ${updated.match_status}` });
+      } else {
+        updated = await disputeSupplierInvoice(invoice.id, reason.trim() || undefined);
+        toast({ title: 'Success', description: `${updated.invoice_number} marked as disputed` });
+      }
+      setInvoice(updated);
+      setReason('');
+      onChanged();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : `Failed to ${action} supplier invoice`,
+        variant: 'destructive',
+      });
+    } finally {
+      setActing(null);
+    }
+  };
+
+  const formatAmount = (value: number | null | undefined) =>
+    `${invoice?.currency || 'INR'} ${Number(value || 0).toLocaleString('en-US', {
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    })}`;
+
+  const formatQuantity = (value: number | null | undefined) =>
+    value === null || value === undefined ? '-' : Number(value).toLocaleString();
+
+  const isPending = invoice?.status === 'pending';
+  const exceptionLines = invoice?.items?.filter((item) => item.match_status === 'exception').length || 0;
+
+  return (
+    <Dialog open={!!invoiceId} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {invoice ? `${invoice.invoice_number} - ${invoice.supplier_name}` : 'Supplier Invoice'}
+          </DialogTitle>
+          <DialogDescription>
+            {invoice &&
+              `Supplier invoice ${invoice.supplier_invoice_number || '-'} dated ${new Date(
+                invoice.invoice_date
+              ).toLocaleDateString()}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading || !invoice ? (
+          <div className="flex items-center justify-center p-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <div className="grid gap-4">
+            <div className="grid gap-4 md:grid-cols-4 text-sm">
+              <div>
+                <div className="text-muted-foreground">Purchase Order</div>
+                <div className="font-medium">{invoice.po_number || '-'}</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Goods Receipt</div>
+                <div className="font-medium">{invoice.grn_number || 'All receipts'}</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Status</div>
+                <div className="flex gap-1">
+                  <Badge variant="outline">{invoice.status}</Badge>
+                  <Badge variant={invoice.match_status === 'matched' ? 'default' : 'destructive'}>
+                    {invoice.match_status}
+                  </Badge>
+                </div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Tolerances</div>
+                <div className="font-medium">
+                  Price {invoice.match_summary?.price_tolerance_percent ?? '-'}% / Qty{' '}
+                  {invoice.match_summary?.quantity_tolerance_percent ?? '-'}%
+                </div>
+              </div>
+            </div>
+
+            {invoice.match_status === 'exception' && isPending && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>
+                  {exceptionLines > 0
+                    ? `${exceptionLines} line(s) do not match the purchase order or goods receipt.`
+                    : 'This invoice could not be matched.'}{' '}
+                  Correct the receipt and match again, dispute it with the supplier, or approve with an override reason.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Item</TableHead>
+                  <TableHead className="text-right">Billed Qty</TableHead>
+                  <TableHead className="text-right">Received</TableHead>
+                  <TableHead className="text-right">Billed Before</TableHead>
+                  <TableHead className="text-right">Unit Price</TableHead>
+                  <TableHead className="text-right">PO Price</TableHead>
+                  <TableHead className="text-right">GST</TableHead>
+                  <TableHead>Match</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {(invoice.items || []).map((item) => (
+                  <TableRow key={item.id}>
+                    <TableCell>
+                      <div className="font-medium">{item.description}</div>
+                      {item.match_notes?.map((note) => (
+                        <div key={note} className="text-xs text-destructive">
+                          {note}
+                        </div>
+                      ))}
+                    </TableCell>
+                    <TableCell className="text-right">{formatQuantity(item.quantity)}</TableCell>
+                    <TableCell className="text-right">{formatQuantity(item.received_quantity)}</TableCell>
+                    <TableCell className="text-right">{formatQuantity(item.previously_billed_quantity)}</TableCell>
+                    <TableCell className="text-right">{formatAmount(item.unit_price)}</TableCell>
+                    <TableCell className="text-right">
+                      {item.po_unit_price === null || item.po_unit_price === undefined ? '-' : formatAmount(item.po_unit_price)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatAmount(item.tax_amount)}
+                      <div className="text-xs text-muted-foreground">{Number(item.gst_rate)}%</div>
+                    </TableCell>
+                    <TableCell>
+                      {item.match_status === 'matched' ? (
+                        <CheckCircle2 className="h-4 w-4 text-green-500" />
+                      ) : (
+                        <XCircle className="h-4 w-4 text-destructive" />
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+                <TableRow>
+                  <TableCell colSpan={6} className="text-right">Subtotal</TableCell>
+                  <TableCell className="text-right" colSpan={2}>{formatAmount(invoice.subtotal)}</TableCell>
+                </TableRow>
+                <TableRow>
+                  <TableCell colSpan={6} className="text-right">
+                    {invoice.supply_type === 'inter_state' ? 'IGST' : 'CGST + SGST'}
+                  </TableCell>
+                  <TableCell className="text-right" colSpan={2}>{formatAmount(invoice.tax_amount)}</TableCell>
+                </TableRow>
+                <TableRow className="font-semibold">
+                  <TableCell colSpan={6} className="text-right">Total</TableCell>
+                  <TableCell className="text-right" colSpan={2}>{formatAmount(invoice.total_amount)}</TableCell>
+                </TableRow>
+              </TableBody>
+            </Table>
+
+            {invoice.status === 'approved' && (
+              <div className="text-sm text-muted-foreground">
+                Posted as journal entry {invoice.journal_entry_number || '-'}
+                {invoice.gst_posted_at ? '; input GST recorded as purchase transactions' : ''}
+                {invoice.override_reason ? `. Approved with override: ${invoice.override_reason}` : ''}
+              </div>
+            )}
+            {invoice.notes && <div className="text-sm whitespace-pre-line">{invoice.notes}</div>}
+
+            {isPending && (
+              <div className="grid gap-2">
+                <Label>
+                  {invoice.match_status === 'matched' ? 'Dispute reason' : 'Override or dispute reason'}
+                </Label>
+                <Textarea value={reason} onChange={(e) => setReason(e.target.value)} rows={2} />
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+          {isPending && (
+            <>
+              <Button variant="outline" onClick={() => runAction('rematch')} disabled={!!acting}>
+                {acting === 'rematch' ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <RefreshCw className="mr-2 h-4 w-4" />
+                )}
+                Match Again
+              </Button>
+              <Button variant="destructive" onClick={() => runAction('dispute')} disabled={!!acting}>
+                {acting === 'dispute' && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Dispute
+              </Button>
+              <Button onClick={() => runAction('approve')} disabled={!!acting}>
+                {acting === 'approve' && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {invoice?.match_status === 'matched' ? 'Approve' : 'Approve with Override'}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
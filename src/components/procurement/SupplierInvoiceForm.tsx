@@ -0,0 +1,436 @@
+/**
+ * Supplier Invoice Form
+ * Records a supplier bill against a purchase order and goods receipt, prefilled
+ * with the received quantities that have not been billed yet
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+import {
+  GoodsReceipt,
+  PurchaseOrder,
+  Supplier,
+  SupplierInvoice,
+  createSupplierInvoice,
+  getPurchaseOrderBillingLines,
+} from '@/services/api/procurement-service';
+
+interface SupplierInvoiceFormProps {
+  open: boolean;
+  suppliers: Supplier[];
+  purchaseOrders: PurchaseOrder[];
+  goodsReceipts: GoodsReceipt[];
+  onClose: () => void;
+  onSaved: (invoice: SupplierInvoice) => void;
+}
+
+interface BillLine {
+  po_item_id: string | null;
+  product_id: string | null;
+  description: string;
+  hsn_sac_code: string;
+  quantity: string;
+  unit_price: string;
+  gst_rate: string;
+}
+
+const NONE = 'none';
+
+const emptyHeader = {
+  supplier_id: '',
+  supplier_invoice_number: '',
+  po_id: NONE,
+  grn_id: NONE,
+  invoice_date: new Date().toISOString().split('T')[0],
+  due_date: '',
+  supply_type: 'auto',
+  notes: '',
+};
+
+const emptyLine = (): BillLine => ({
+  po_item_id: null,
+  product_id: null,
+  description: '',
+  hsn_sac_code: '',
+  quantity: '',
+  unit_price: '',
+  gst_rate: '18',
+});
+
+export const SupplierInvoiceForm: React.FC<SupplierInvoiceFormProps> = ({
+  open,
+  suppliers,
+  purchaseOrders,
+  goodsReceipts,
+  onClose,
+  onSaved,
+}) => {
+  const { toast } = useToast();
+  const [header, setHeader] = useState(emptyHeader);
+  const [lines, setLines] = useState<BillLine[]>([]);
+  const [loadingLines, setLoadingLines] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setHeader({ ...emptyHeader, invoice_date: new Date().toISOString().split('T')[0] });
+    setLines([emptyLine()]);
+  }, [open]);
+
+  const supplierOrders = purchaseOrders.filter(
+    (po) => po.supplier_id === header.supplier_id && po.status !== 'draft' && po.status !== 'cancelled'
+  );
+  const orderReceipts = goodsReceipts.filter((grn) => grn.po_id === header.po_id && grn.status !== 'rejected');
+  const selectedOrder = purchaseOrders.find((po) => po.id === header.po_id);
+
+  // Prefill lines with what has been received and not yet billed
+  const loadOrderLines = async (poId: string, grnId: string) => {
+    if (poId === NONE) {
+      setLines([emptyLine()]);
+      return;
+    }
+    try {
+      setLoadingLines(true);
+      const billingLines = await getPurchaseOrderBillingLines(poId, grnId === NONE ? undefined : grnId);
+      const unbilled = billingLines
+        .map((line) => ({
+          line,
+          remaining: Math.max(Number(line.received_quantity) - Number(line.billed_quantity), 0),
+        }))
+        .filter(({ remaining }) => remaining > 0);
+      setLines(
+        unbilled.length > 0
+          ? unbilled.map(({ line, remaining }) => ({
+              po_item_id: line.po_item_id,
+              product_id: line.product_id || null,
+              description: line.description,
+              hsn_sac_code: '',
+              quantity: String(remaining),
+              unit_price: String(line.unit_price),
+              gst_rate: '18',
+            }))
+          : [emptyLine()]
+      );
+      if (unbilled.length === 0) {
+        toast({ title: 'Nothing to bill', description: 'Everything received on this order has already been billed' });
+      }
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to load purchase order lines',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoadingLines(false);
+    }
+  };
+
+  const updateLine = (index: number, field: keyof BillLine, value: string) => {
+    setLines((prev) => prev.map((line, i) => (i === index ? { ...line, [field]: value } : line)));
+  };
+
+  const lineTaxable = (line: BillLine) => (parseFloat(line.quantity) || 0) * (parseFloat(line.unit_price) || 0);
+  const subtotal = lines.reduce((sum, line) => sum + lineTaxable(line), 0);
+  const taxTotal = lines.reduce((sum, line) => sum + (lineTaxable(line) * (parseFloat(line.gst_rate) || 0)) / 100, 0);
+  const currency = selectedOrder?.currency || 'INR';
+  const formatAmount = (value: number) =>
+    `${currency} ${value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+  const handleSave = async () => {
+    if (!header.supplier_id || !header.supplier_invoice_number || !header.invoice_date) {
+      toast({
+        title: 'Validation Error',
+        description: 'Supplier, invoice number and invoice date are required',
+        variant: 'destructive',
+      });
+      return;
+    }
+    const billLines = lines.filter((line) => line.description && parseFloat(line.quantity) > 0);
+    if (billLines.length === 0) {
+      toast({ title: 'Validation Error', description: 'Add at least one invoice line', variant: 'destructive' });
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const invoice = await createSupplierInvoice({
+        supplier_id: header.supplier_id,
+        supplier_invoice_number: header.supplier_invoice_number.trim(),
+        po_id: header.po_id === NONE ? null : header.po_id,
+        grn_id: header.grn_id === NONE ? null : header.grn_id,
+        invoice_date: header.invoice_date,
+        due_date: header.due_date || null,
+        currency,
+        supply_type: header.supply_type === 'auto' ? undefined : (header.supply_type as 'intra_state' | 'inter_state'),
+        notes: header.notes,
+        items: billLines.map((line) => ({
+          po_item_id: line.po_item_id,
+          product_id: line.product_id,
+          description: line.description,
+          hsn_sac_code: line.hsn_sac_code,
+          quantity: parseFloat(line.quantity),
+          unit_price: parseFloat(line.unit_price) || 0,
+          gst_rate: parseFloat(line.gst_rate) || 0,
+        })),
+      });
+      toast({
+        title: invoice.match_status === 'matched' ? 'Invoice matched' : 'Invoice recorded with exceptions',
+        description:
+          invoice.status === 'approved'
+            ? `${invoice.invoice_number} matched and was approved automatically`
+            : `${invoice.invoice_number} is ${invoice.match_status}`,
+        variant: invoice.match_status === 'matched' ? 'default' : 'destructive',
+      });
+      onSaved(invoice);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to record supplier invoice',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Record Supplier Invoice</DialogTitle>
+          <DialogDescription>
+            The bill is matched against the purchase order price and the accepted goods receipt quantity when saved.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="grid gap-2">
+              <Label>Supplier *</Label>
+              <Select
+                value={header.supplier_id}
+                onValueChange={(value) => {
+                  setHeader({ ...header, supplier_id: value, po_id: NONE, grn_id: NONE });
+                  setLines([emptyLine()]);
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select supplier" />
+                </SelectTrigger>
+                <SelectContent>
+                  {suppliers.map((supplier) => (
+                    <SelectItem key={supplier.id} value={supplier.id}>
+                      {supplier.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-2">
+              <Label>Purchase Order</Label>
+              <Select
+                value={header.po_id}
+                disabled={!header.supplier_id}
+                onValueChange={(value) => {
+                  setHeader({ ...header, po_id: value, grn_id: NONE });
+                  loadOrderLines(value, NONE);
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select purchase order" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>No purchase order</SelectItem>
+                  {supplierOrders.map((po) => (
+                    <SelectItem key={po.id} value={po.id}>
+                      {po.po_number}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-2">
+              <Label>Goods Receipt</Label>
+              <Select
+                value={header.grn_id}
+                disabled={header.po_id === NONE}
+                onValueChange={(value) => {
+                  setHeader({ ...header, grn_id: value });
+                  loadOrderLines(header.po_id, value);
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="All receipts" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>All receipts on the order</SelectItem>
+                  {orderReceipts.map((grn) => (
+                    <SelectItem key={grn.id} value={grn.id}>
+                      {grn.grn_number}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-2">
+              <Label>Supplier Invoice No. *</Label>
+              <Input
+                value={header.supplier_invoice_number}
+                onChange={(e) => setHeader({ ...header, supplier_invoice_number: e.target.value })}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label>Invoice Date *</Label>
+              <Input
+                type="date"
+                value={header.invoice_date}
+                onChange={(e) => setHeader({ ...header, invoice_date: e.target.value })}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label>Due Date</Label>
+              <Input
+                type="date"
+                value={header.due_date}
+                onChange={(e) => setHeader({ ...header, due_date: e.target.value })}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label>Supply Type</Label>
+              <Select value={header.supply_type} onValueChange={(value) => setHeader({ ...header, supply_type: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="auto">From GSTINs</SelectItem>
+                  <SelectItem value="intra_state">Intra-state (CGST + SGST)</SelectItem>
+                  <SelectItem value="inter_state">Inter-state (IGST)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Description</TableHead>
+                <TableHead className="w-28">HSN/SAC</TableHead>
+                <TableHead className="w-24">Qty</TableHead>
+                <TableHead className="w-32">Unit Price</TableHead>
+                <TableHead className="w-20">GST %</TableHead>
+                <TableHead className="text-right">Taxable</TableHead>
+                <TableHead className="w-10" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loadingLines ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center">
+                    <Loader2 className="h-4 w-4 animate-spin inline" />
+                  </TableCell>
+                </TableRow>
+              ) : (
+                lines.map((line, index) => (
+                  <TableRow key={index}>
+                    <TableCell>
+                      <Input
+                        value={line.description}
+                        onChange={(e) => updateLine(index, 'description', e.target.value)}
+                      />
+                      {!line.po_item_id && header.po_id !== NONE && (
+                        <div className="text-xs text-muted-foreground mt-1">Not on the purchase order</div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Input value={line.hsn_sac_code} onChange={(e) => updateLine(index, 'hsn_sac_code', e.target.value)} />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min="0"
+                        value={line.quantity}
+                        onChange={(e) => updateLine(index, 'quantity', e.target.value)}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={line.unit_price}
+                        onChange={(e) => updateLine(index, 'unit_price', e.target.value)}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min="0"
+                        value={line.gst_rate}
+                        onChange={(e) => updateLine(index, 'gst_rate', e.target.value)}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">{formatAmount(lineTaxable(line))}</TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setLines((prev) => prev.filter((_, i) => i !== index))}
+                        disabled={lines.length === 1}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+              <TableRow>
+                <TableCell colSpan={5} className="text-right">Subtotal</TableCell>
+                <TableCell className="text-right">{formatAmount(subtotal)}</TableCell>
+                <TableCell />
+              </TableRow>
+              <TableRow>
+                <TableCell colSpan={5} className="text-right">GST</TableCell>
+                <TableCell className="text-right">{formatAmount(taxTotal)}</TableCell>
+                <TableCell />
+              </TableRow>
+              <TableRow className="font-semibold">
+                <TableCell colSpan={5} className="text-right">Total</TableCell>
+                <TableCell className="text-right">{formatAmount(subtotal + taxTotal)}</TableCell>
+                <TableCell />
+              </TableRow>
+            </TableBody>
+          </Table>
+          <div>
+            <Button variant="outline" size="sm" onClick={() => setLines((prev) => [...prev, emptyLine()])}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Line
+            </Button>
+          </div>
+
+          <div className="grid gap-2">
+            <Label>Notes</Label>
+            <Textarea value={header.notes} onChange={(e) => setHeader({ ...header, notes: e.target.value })} rows={2} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || loadingLines}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save & Match
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
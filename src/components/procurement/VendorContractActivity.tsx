@@ -0,0 +1,147 @@
+/**
+ * Vendor Contract Activity
+ * Value consumed by purchase orders issued under a contract, and its renewal history
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Loader2 } from 'lucide-react';
+import {
+  getVendorContractPurchaseOrders,
+  getVendorContractRenewals,
+  type PurchaseOrder,
+  type VendorContract,
+  type VendorContractRenewal,
+} from '@/services/api/procurement-service';
+
+interface VendorContractActivityProps {
+  contract: VendorContract;
+}
+
+const formatDate = (value?: string | null) => (value ? new Date(value).toLocaleDateString() : '-');
+
+const formatAmount = (value: number | string | null | undefined, currency: string) =>
+  value === undefined || value === null
+    ? '-'
+    : new Intl.NumberFormat('en-US', { style: 'currency', currency: currency || 'INR' }).format(Number(value));
+
+export const VendorContractActivity: React.FC<VendorContractActivityProps> = ({ contract }) => {
+  const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+  const [renewals, setRenewals] = useState<VendorContractRenewal[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    setLoading(true);
+    Promise.all([getVendorContractPurchaseOrders(contract.id), getVendorContractRenewals(contract.id)])
+      .then(([orderList, renewalList]) => {
+        setOrders(orderList);
+        setRenewals(renewalList);
+      })
+      .catch((error) => console.error('Error loading contract activity:', error))
+      .finally(() => setLoading(false));
+  }, [contract.id]);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center p-4">
+        <Loader2 className="h-5 w-5 animate-spin" />
+      </div>
+    );
+  }
+
+  const consumed = Number(contract.consumed_value || 0);
+  const value = contract.value !== undefined && contract.value !== null ? Number(contract.value) : null;
+  const percent = value ? Math.min(100, Math.round((consumed / value) * 100)) : 0;
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <Label className="text-muted-foreground">Consumed Value</Label>
+        <p className="font-medium">
+          {formatAmount(consumed, contract.currency)}
+          {value !== null && ` of ${formatAmount(value, contract.currency)}`}
+        </p>
+        {value !== null && (
+          <>
+            <Progress value={percent} className="mt-2 h-2" />
+            <p className={`text-xs mt-1 ${consumed > value ? 'text-red-600' : 'text-muted-foreground'}`}>
+              {consumed > value
+                ? `Over contract value by ${formatAmount(consumed - value, contract.currency)}`
+                : `${formatAmount(value - consumed, contract.currency)} remaining`}
+            </p>
+          </>
+        )}
+      </div>
+
+      <div>
+        <Label className="text-muted-foreground">Purchase Orders ({orders.length})</Label>
+        {orders.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No purchase orders issued under this contract yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>PO Number</TableHead>
+                <TableHead>Date</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {orders.map((order) => (
+                <TableRow key={order.id} className={order.status === 'cancelled' ? 'text-muted-foreground' : undefined}>
+                  <TableCell className="font-mono text-sm">{order.po_number}</TableCell>
+                  <TableCell>{formatDate(order.order_date)}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className="capitalize">
+                      {order.status}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right">{formatAmount(order.total_amount, order.currency)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+
+      <div>
+        <Label className="text-muted-foreground">Renewal History</Label>
+        {renewals.length === 0 ? (
+          <p className="text-sm text-muted-foreground">This contract has not been renewed.</p>
+        ) : (
+          <ul className="mt-1 space-y-2 text-sm">
+            {renewals.map((renewal) => (
+              <li key={renewal.id} className="rounded-md border p-2">
+                <div className="flex items-center gap-2">
+                  <Badge variant={renewal.renewal_type === 'auto' ? 'secondary' : 'default'}>
+                    {renewal.renewal_type === 'auto' ? 'Auto-renewed' : 'Renewed'}
+                  </Badge>
+                  <span>
+                    {formatDate(renewal.previous_end_date)} → {formatDate(renewal.new_end_date)}
+                  </span>
+                  <span className="text-muted-foreground">
+                    on {formatDate(renewal.created_at)}
+                    {renewal.renewed_by_name && ` by ${renewal.renewed_by_name}`}
+                  </span>
+                </div>
+                {renewal.new_value !== null &&
+                  renewal.new_value !== undefined &&
+                  Number(renewal.new_value) !== Number(renewal.previous_value) && (
+                    <p className="text-muted-foreground">
+                      Value {formatAmount(renewal.previous_value, contract.currency)} →{' '}
+                      {formatAmount(renewal.new_value, contract.currency)}
+                    </p>
+                  )}
+                {renewal.notes && <p>{renewal.notes}</p>}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
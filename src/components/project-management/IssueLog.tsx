@@ -0,0 +1,441 @@
+/**
+ * Issue Log
+ * Project issues with severity, assignee, due dates and resolution tracking
+ */
+
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { CheckCircle, Edit, Loader2, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  getProjectIssues,
+  createProjectIssue,
+  updateProjectIssue,
+  deleteProjectIssue,
+  ProjectIssue,
+  IssueSeverity,
+  IssueStatus,
+} from "@/services/api/project-enhancements-service";
+import type { RegisterPerson } from "./RiskRegister";
+
+const SEVERITIES: IssueSeverity[] = ['low', 'medium', 'high', 'critical'];
+const STATUSES: IssueStatus[] = ['open', 'in_progress', 'resolved', 'closed'];
+const ISSUE_TYPES = ['bug', 'blocker', 'change_request', 'question'];
+
+const severityColors: Record<IssueSeverity, string> = {
+  low: 'bg-gray-100 text-gray-800',
+  medium: 'bg-blue-100 text-blue-800',
+  high: 'bg-orange-100 text-orange-800',
+  critical: 'bg-red-100 text-red-800',
+};
+
+const issueStatusColors: Record<IssueStatus, string> = {
+  open: 'bg-red-100 text-red-800',
+  in_progress: 'bg-yellow-100 text-yellow-800',
+  resolved: 'bg-green-100 text-green-800',
+  closed: 'bg-gray-100 text-gray-800',
+};
+
+const emptyForm = {
+  issue_title: '',
+  description: '',
+  severity: 'medium' as IssueSeverity,
+  priority: 'medium' as IssueSeverity,
+  status: 'open' as IssueStatus,
+  issue_type: 'bug',
+  assigned_to: '',
+  due_date: '',
+  resolution_notes: '',
+};
+
+const isClosed = (issue: ProjectIssue) => issue.status === 'resolved' || issue.status === 'closed';
+
+interface IssueLogProps {
+  projectId: string;
+  people: RegisterPerson[];
+  onChange?: () => void;
+}
+
+export function IssueLog({ projectId, people, onChange }: IssueLogProps) {
+  const { toast } = useToast();
+  const [issues, setIssues] = useState<ProjectIssue[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [statusFilter, setStatusFilter] = useState<'active' | 'all' | IssueStatus>('active');
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingIssue, setEditingIssue] = useState<ProjectIssue | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [resolvingIssue, setResolvingIssue] = useState<ProjectIssue | null>(null);
+  const [resolutionNotes, setResolutionNotes] = useState('');
+
+  const loadIssues = useCallback(async () => {
+    try {
+      setLoading(true);
+      setIssues(await getProjectIssues(projectId));
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to load issues',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId, toast]);
+
+  useEffect(() => {
+    loadIssues();
+  }, [loadIssues]);
+
+  const today = new Date().toISOString().split('T')[0];
+  const openIssues = issues.filter((issue) => !isClosed(issue));
+  const visibleIssues = issues
+    .filter((issue) => statusFilter === 'all' || (statusFilter === 'active' ? !isClosed(issue) : issue.status === statusFilter))
+    .sort((a, b) => SEVERITIES.indexOf(b.severity || 'medium') - SEVERITIES.indexOf(a.severity || 'medium'));
+
+  const openDialog = (issue?: ProjectIssue) => {
+    setEditingIssue(issue || null);
+    setFormData(issue ? {
+      issue_title: issue.issue_title,
+      description: issue.description || '',
+      severity: issue.severity || 'medium',
+      priority: issue.priority || 'medium',
+      status: issue.status,
+      issue_type: issue.issue_type || 'bug',
+      assigned_to: issue.assigned_to || '',
+      due_date: issue.due_date ? issue.due_date.split('T')[0] : '',
+      resolution_notes: issue.resolution_notes || '',
+    } : emptyForm);
+    setDialogOpen(true);
+  };
+
+  const saveIssue = async (issue: ProjectIssue | null, payload: Parameters<typeof updateProjectIssue>[2], message: string) => {
+    try {
+      setSaving(true);
+      if (issue) {
+        await updateProjectIssue(projectId, issue.id, payload);
+      } else {
+        await createProjectIssue(projectId, payload);
+      }
+      toast({ title: 'Success', description: message });
+      await loadIssues();
+      onChange?.();
+      return true;
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save issue',
+        variant: 'destructive',
+      });
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!formData.issue_title.trim()) {
+      toast({ title: 'Error', description: 'Issue title is required', variant: 'destructive' });
+      return;
+    }
+    const saved = await saveIssue(editingIssue, {
+      ...formData,
+      issue_title: formData.issue_title.trim(),
+      description: formData.description || null,
+      assigned_to: formData.assigned_to || null,
+      due_date: formData.due_date || null,
+      resolution_notes: formData.resolution_notes || null,
+    }, editingIssue ? 'Issue updated' : 'Issue logged');
+    if (saved) setDialogOpen(false);
+  };
+
+  const handleResolve = async () => {
+    if (!resolvingIssue) return;
+    if (!resolutionNotes.trim()) {
+      toast({ title: 'Error', description: 'Describe how the issue was resolved', variant: 'destructive' });
+      return;
+    }
+    const saved = await saveIssue(resolvingIssue, { status: 'resolved', resolution_notes: resolutionNotes.trim() }, 'Issue resolved');
+    if (saved) setResolvingIssue(null);
+  };
+
+  const handleDelete = async (issue: ProjectIssue) => {
+    if (!confirm(`Delete issue "${issue.issue_title}"?`)) return;
+    try {
+      await deleteProjectIssue(projectId, issue.id);
+      toast({ title: 'Success', description: 'Issue deleted' });
+      await loadIssues();
+      onChange?.();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to delete issue',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const assigneeName = (issue: ProjectIssue) =>
+    issue.assignee_name || people.find((person) => person.id === issue.assigned_to)?.name || 'Unassigned';
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>Issue Log</CardTitle>
+          <CardDescription>
+            {openIssues.length} open ·{' '}
+            {openIssues.filter((issue) => issue.severity === 'high' || issue.severity === 'critical').length} high/critical ·{' '}
+            {openIssues.filter((issue) => issue.due_date && issue.due_date.split('T')[0] < today).length} overdue
+          </CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as typeof statusFilter)}>
+            <SelectTrigger className="w-36"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="active">Active</SelectItem>
+              <SelectItem value="all">All</SelectItem>
+              {STATUSES.map((status) => (
+                <SelectItem key={status} value={status}>{status.replace('_', ' ')}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button size="sm" onClick={() => openDialog()}>
+            <Plus className="h-4 w-4 mr-2" />
+            Log Issue
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-8"><Loader2 className="h-6 w-6 animate-spin text-muted-foreground" /></div>
+        ) : visibleIssues.length === 0 ? (
+          <p className="text-center py-8 text-muted-foreground">No issues</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Issue</TableHead>
+                <TableHead>Severity</TableHead>
+                <TableHead>Assignee</TableHead>
+                <TableHead>Due</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Resolution</TableHead>
+                <TableHead className="w-28" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleIssues.map((issue) => {
+                const overdue = !isClosed(issue) && !!issue.due_date && issue.due_date.split('T')[0] < today;
+                return (
+                  <TableRow key={issue.id}>
+                    <TableCell>
+                      <div className="font-medium">{issue.issue_title}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {(issue.issue_type || 'issue').replace('_', ' ')}
+                        {issue.reporter_name && ` · reported by ${issue.reporter_name}`}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge className={severityColors[issue.severity || 'medium']}>{issue.severity || 'medium'}</Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">{assigneeName(issue)}</TableCell>
+                    <TableCell className={`text-sm ${overdue ? 'text-red-600 font-medium' : ''}`}>
+                      {issue.due_date ? new Date(issue.due_date).toLocaleDateString() : '—'}
+                    </TableCell>
+                    <TableCell>
+                      <Badge className={issueStatusColors[issue.status]}>{issue.status.replace('_', ' ')}</Badge>
+                    </TableCell>
+                    <TableCell className="text-sm max-w-xs">
+                      {issue.resolved_date ? (
+                        <div>
+                          <span className="line-clamp-2">{issue.resolution_notes || 'Resolved'}</span>
+                          <span className="text-xs text-muted-foreground">{new Date(issue.resolved_date).toLocaleDateString()}</span>
+                        </div>
+                      ) : (
+                        <span className="text-muted-foreground">—</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-1">
+                        {!isClosed(issue) && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Resolve"
+                            onClick={() => {
+                              setResolvingIssue(issue);
+                              setResolutionNotes(issue.resolution_notes || '');
+                            }}
+                          >
+                            <CheckCircle className="h-4 w-4" />
+                          </Button>
+                        )}
+                        <Button variant="ghost" size="sm" onClick={() => openDialog(issue)}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => handleDelete(issue)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingIssue ? 'Edit Issue' : 'Log Issue'}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="issue_title">Title *</Label>
+              <Input
+                id="issue_title"
+                value={formData.issue_title}
+                onChange={(e) => setFormData({ ...formData, issue_title: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="issue_description">Description</Label>
+              <Textarea
+                id="issue_description"
+                rows={2}
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+              />
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <Select value={formData.issue_type} onValueChange={(value) => setFormData({ ...formData, issue_type: value })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {ISSUE_TYPES.map((type) => (
+                      <SelectItem key={type} value={type}>{type.replace('_', ' ')}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Severity</Label>
+                <Select value={formData.severity} onValueChange={(value) => setFormData({ ...formData, severity: value as IssueSeverity })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {SEVERITIES.map((severity) => (
+                      <SelectItem key={severity} value={severity} className="capitalize">{severity}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Priority</Label>
+                <Select value={formData.priority} onValueChange={(value) => setFormData({ ...formData, priority: value as IssueSeverity })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {SEVERITIES.map((priority) => (
+                      <SelectItem key={priority} value={priority} className="capitalize">{priority}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>Assignee</Label>
+                <Select
+                  value={formData.assigned_to || 'none'}
+                  onValueChange={(value) => setFormData({ ...formData, assigned_to: value === 'none' ? '' : value })}
+                >
+                  <SelectTrigger><SelectValue placeholder="Unassigned" /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Unassigned</SelectItem>
+                    {people.map((person) => (
+                      <SelectItem key={person.id} value={person.id}>{person.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="issue_due_date">Due Date</Label>
+                <Input
+                  id="issue_due_date"
+                  type="date"
+                  value={formData.due_date}
+                  onChange={(e) => setFormData({ ...formData, due_date: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Status</Label>
+                <Select value={formData.status} onValueChange={(value) => setFormData({ ...formData, status: value as IssueStatus })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {STATUSES.map((status) => (
+                      <SelectItem key={status} value={status}>{status.replace('_', ' ')}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            {(formData.status === 'resolved' || formData.status === 'closed') && (
+              <div className="space-y-2">
+                <Label htmlFor="issue_resolution">Resolution Notes</Label>
+                <Textarea
+                  id="issue_resolution"
+                  rows={2}
+                  value={formData.resolution_notes}
+                  onChange={(e) => setFormData({ ...formData, resolution_notes: e.target.value })}
+                />
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>Cancel</Button>
+            <Button onClick={handleSubmit} disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {editingIssue ? 'Save Changes' : 'Log Issue'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!resolvingIssue} onOpenChange={(open) => !open && setResolvingIssue(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Resolve Issue</DialogTitle>
+            <DialogDescription>{resolvingIssue?.issue_title}</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="resolution_notes">Resolution Notes *</Label>
+            <Textarea
+              id="resolution_notes"
+              rows={4}
+              value={resolutionNotes}
+              onChange={(e) => setResolutionNotes(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setResolvingIssue(null)}>Cancel</Button>
+            <Button onClick={handleResolve} disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Mark Resolved
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,447 @@
+/**
+ * Milestone Register
+ * Project milestones with optional invoicing triggers: completing a billable
+ * milestone raises a draft invoice for the project's client
+ */
+
+import { useState, useEffect, useCallback } from "react";
+import { useNavigate } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Edit, FileText, Loader2, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  getProjectMilestones,
+  createProjectMilestone,
+  updateProjectMilestone,
+  invoiceProjectMilestone,
+  deleteProjectMilestone,
+  ProjectMilestone,
+  ProjectMilestoneInput,
+  MilestoneStatus,
+  MilestoneInvoiceTrigger,
+} from "@/services/api/project-enhancements-service";
+
+const STATUSES: MilestoneStatus[] = ['pending', 'in_progress', 'completed', 'delayed'];
+
+const milestoneStatusColors: Record<MilestoneStatus, string> = {
+  pending: 'bg-gray-100 text-gray-800',
+  in_progress: 'bg-blue-100 text-blue-800',
+  completed: 'bg-green-100 text-green-800',
+  delayed: 'bg-red-100 text-red-800',
+};
+
+type BillingBasis = 'amount' | 'percentage';
+
+const emptyForm = {
+  name: '',
+  description: '',
+  target_date: '',
+  status: 'pending' as MilestoneStatus,
+  is_critical: false,
+  invoice_trigger: 'none' as MilestoneInvoiceTrigger,
+  billing_basis: 'amount' as BillingBasis,
+  billing_value: '',
+};
+
+interface MilestoneRegisterProps {
+  projectId: string;
+  projectBudget?: number | null;
+  hasClient: boolean;
+  currency?: string | null;
+  onChange?: () => void;
+}
+
+export function MilestoneRegister({ projectId, projectBudget, hasClient, currency, onChange }: MilestoneRegisterProps) {
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const [milestones, setMilestones] = useState<ProjectMilestone[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingMilestone, setEditingMilestone] = useState<ProjectMilestone | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  const formatCurrency = (amount: number) =>
+    new Intl.NumberFormat('en-US', { style: 'currency', currency: currency || 'USD' }).format(amount);
+
+  const loadMilestones = useCallback(async () => {
+    try {
+      setLoading(true);
+      setMilestones(await getProjectMilestones(projectId));
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to load milestones',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId, toast]);
+
+  useEffect(() => {
+    loadMilestones();
+  }, [loadMilestones]);
+
+  const billableValue = (milestone: ProjectMilestone) => {
+    if (milestone.billing_amount !== null && milestone.billing_amount !== undefined) {
+      return Number(milestone.billing_amount) || 0;
+    }
+    return ((Number(projectBudget) || 0) * (Number(milestone.billing_percentage) || 0)) / 100;
+  };
+
+  const today = new Date().toISOString().split('T')[0];
+  const billable = milestones.filter((m) => m.invoice_trigger === 'on_completion');
+  const invoicedTotal = billable.filter((m) => m.invoice_id).reduce((sum, m) => sum + (Number(m.invoice_amount) || 0), 0);
+  const pendingTotal = billable.filter((m) => !m.invoice_id).reduce((sum, m) => sum + billableValue(m), 0);
+
+  const openDialog = (milestone?: ProjectMilestone) => {
+    setEditingMilestone(milestone || null);
+    setFormData(milestone ? {
+      name: milestone.name,
+      description: milestone.description || '',
+      target_date: milestone.target_date,
+      status: milestone.status,
+      is_critical: milestone.is_critical,
+      invoice_trigger: milestone.invoice_trigger || 'none',
+      billing_basis: milestone.billing_amount === null && milestone.billing_percentage !== null ? 'percentage' : 'amount',
+      billing_value: String(milestone.billing_amount ?? milestone.billing_percentage ?? ''),
+    } : emptyForm);
+    setDialogOpen(true);
+  };
+
+  const reportInvoice = (invoice: { invoice_number: string } | null | undefined) => {
+    if (!invoice) return;
+    toast({
+      title: 'Draft invoice raised',
+      description: `${invoice.invoice_number} is ready for review in Invoices`,
+    });
+  };
+
+  const handleSubmit = async () => {
+    if (!formData.name.trim() || !formData.target_date) {
+      toast({ title: 'Error', description: 'Name and target date are required', variant: 'destructive' });
+      return;
+    }
+    const value = formData.billing_value === '' ? null : Number(formData.billing_value);
+    if (formData.invoice_trigger === 'on_completion' && !(value && value > 0)) {
+      toast({ title: 'Error', description: 'Enter a billing amount or percentage for invoiced milestones', variant: 'destructive' });
+      return;
+    }
+
+    const payload: ProjectMilestoneInput = {
+      name: formData.name.trim(),
+      description: formData.description || null,
+      target_date: formData.target_date,
+      status: formData.status,
+      is_critical: formData.is_critical,
+      invoice_trigger: formData.invoice_trigger,
+      billing_amount: formData.invoice_trigger === 'on_completion' && formData.billing_basis === 'amount' ? value : null,
+      billing_percentage: formData.invoice_trigger === 'on_completion' && formData.billing_basis === 'percentage' ? value : null,
+    };
+
+    try {
+      setSaving(true);
+      if (editingMilestone) {
+        const updated = await updateProjectMilestone(projectId, editingMilestone.id, payload);
+        reportInvoice(updated.invoice);
+      } else {
+        await createProjectMilestone(projectId, payload);
+      }
+      toast({ title: 'Success', description: editingMilestone ? 'Milestone updated' : 'Milestone added' });
+      setDialogOpen(false);
+      await loadMilestones();
+      onChange?.();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save milestone',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleStatusChange = async (milestone: ProjectMilestone, status: MilestoneStatus) => {
+    try {
+      const updated = await updateProjectMilestone(projectId, milestone.id, { status });
+      reportInvoice(updated.invoice);
+      await loadMilestones();
+      onChange?.();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update milestone',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleInvoice = async (milestone: ProjectMilestone) => {
+    try {
+      const result = await invoiceProjectMilestone(projectId, milestone.id);
+      reportInvoice(result.invoice);
+      await loadMilestones();
+      onChange?.();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to raise invoice',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDelete = async (milestone: ProjectMilestone) => {
+    if (!confirm(`Delete milestone "${milestone.name}"?`)) return;
+    try {
+      await deleteProjectMilestone(projectId, milestone.id);
+      toast({ title: 'Success', description: 'Milestone deleted' });
+      await loadMilestones();
+      onChange?.();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to delete milestone',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>Milestones</CardTitle>
+          <CardDescription>
+            {milestones.filter((m) => m.status === 'completed').length} of {milestones.length} completed
+            {billable.length > 0 && ` · Invoiced ${formatCurrency(invoicedTotal)} · Still to bill ${formatCurrency(pendingTotal)}`}
+          </CardDescription>
+        </div>
+        <Button size="sm" onClick={() => openDialog()}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Milestone
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {!hasClient && billable.length > 0 && (
+          <p className="text-sm text-amber-700 bg-amber-50 rounded p-2 mb-4">
+            This project has no client, so billable milestones cannot raise invoices until one is set.
+          </p>
+        )}
+        {loading ? (
+          <div className="flex justify-center py-8"><Loader2 className="h-6 w-6 animate-spin text-muted-foreground" /></div>
+        ) : milestones.length === 0 ? (
+          <p className="text-center py-8 text-muted-foreground">No milestones yet</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Milestone</TableHead>
+                <TableHead>Target</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Billing</TableHead>
+                <TableHead>Invoice</TableHead>
+                <TableHead className="w-28" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {milestones.map((milestone) => {
+                const overdue = milestone.status !== 'completed' && milestone.target_date < today;
+                const isBillable = milestone.invoice_trigger === 'on_completion';
+                return (
+                  <TableRow key={milestone.id}>
+                    <TableCell>
+                      <div className="font-medium flex items-center gap-2">
+                        {milestone.name}
+                        {milestone.is_critical && <Badge variant="destructive">Critical</Badge>}
+                      </div>
+                      {milestone.description && (
+                        <div className="text-xs text-muted-foreground line-clamp-1">{milestone.description}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className={`text-sm ${overdue ? 'text-red-600 font-medium' : ''}`}>
+                      {new Date(milestone.target_date).toLocaleDateString()}
+                      {milestone.completion_date && (
+                        <div className="text-xs text-muted-foreground">Done {new Date(milestone.completion_date).toLocaleDateString()}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Select value={milestone.status} onValueChange={(value) => handleStatusChange(milestone, value as MilestoneStatus)}>
+                        <SelectTrigger className="h-8 w-36">
+                          <Badge className={milestoneStatusColors[milestone.status]}>{milestone.status.replace('_', ' ')}</Badge>
+                        </SelectTrigger>
+                        <SelectContent>
+                          {STATUSES.map((status) => (
+                            <SelectItem key={status} value={status}>{status.replace('_', ' ')}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {isBillable ? (
+                        <div>
+                          {formatCurrency(billableValue(milestone))}
+                          {milestone.billing_amount === null && milestone.billing_percentage !== null && (
+                            <div className="text-xs text-muted-foreground">{Number(milestone.billing_percentage)}% of budget</div>
+                          )}
+                        </div>
+                      ) : (
+                        <span className="text-muted-foreground">Not billable</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {milestone.invoice_id ? (
+                        <Button variant="link" size="sm" className="p-0 h-auto" onClick={() => navigate('/invoices')}>
+                          {milestone.invoice_number}
+                          {milestone.invoice_status && <Badge variant="outline" className="ml-2">{milestone.invoice_status}</Badge>}
+                        </Button>
+                      ) : isBillable ? (
+                        <span className="text-muted-foreground">On completion</span>
+                      ) : (
+                        <span className="text-muted-foreground">—</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-1">
+                        {isBillable && !milestone.invoice_id && milestone.status === 'completed' && hasClient && (
+                          <Button variant="ghost" size="sm" title="Raise invoice now" onClick={() => handleInvoice(milestone)}>
+                            <FileText className="h-4 w-4" />
+                          </Button>
+                        )}
+                        <Button variant="ghost" size="sm" onClick={() => openDialog(milestone)}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => handleDelete(milestone)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingMilestone ? 'Edit Milestone' : 'Add Milestone'}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="milestone_name">Name *</Label>
+              <Input
+                id="milestone_name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="milestone_description">Description</Label>
+              <Textarea
+                id="milestone_description"
+                rows={2}
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="milestone_target">Target Date *</Label>
+                <Input
+                  id="milestone_target"
+                  type="date"
+                  value={formData.target_date}
+                  onChange={(e) => setFormData({ ...formData, target_date: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Status</Label>
+                <Select value={formData.status} onValueChange={(value) => setFormData({ ...formData, status: value as MilestoneStatus })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {STATUSES.map((status) => (
+                      <SelectItem key={status} value={status}>{status.replace('_', ' ')}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="milestone_critical"
+                checked={formData.is_critical}
+                onCheckedChange={(checked) => setFormData({ ...formData, is_critical: checked })}
+              />
+              <Label htmlFor="milestone_critical">Critical milestone</Label>
+            </div>
+            <div className="rounded-lg border p-3 space-y-3">
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="milestone_billable"
+                  checked={formData.invoice_trigger === 'on_completion'}
+                  disabled={!!editingMilestone?.invoice_id}
+                  onCheckedChange={(checked) => setFormData({ ...formData, invoice_trigger: checked ? 'on_completion' : 'none' })}
+                />
+                <Label htmlFor="milestone_billable">Raise a draft invoice when completed</Label>
+              </div>
+              {formData.invoice_trigger === 'on_completion' && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Bill as</Label>
+                    <Select
+                      value={formData.billing_basis}
+                      onValueChange={(value) => setFormData({ ...formData, billing_basis: value as BillingBasis })}
+                      disabled={!!editingMilestone?.invoice_id}
+                    >
+                      <SelectTrigger><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="amount">Fixed amount</SelectItem>
+                        <SelectItem value="percentage" disabled={!projectBudget}>% of project budget</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="milestone_billing">{formData.billing_basis === 'amount' ? 'Amount' : 'Percentage'}</Label>
+                    <Input
+                      id="milestone_billing"
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={formData.billing_value}
+                      disabled={!!editingMilestone?.invoice_id}
+                      onChange={(e) => setFormData({ ...formData, billing_value: e.target.value })}
+                    />
+                  </div>
+                </div>
+              )}
+              {editingMilestone?.invoice_id && (
+                <p className="text-xs text-muted-foreground">Already invoiced as {editingMilestone.invoice_number}.</p>
+              )}
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>Cancel</Button>
+            <Button onClick={handleSubmit} disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {editingMilestone ? 'Save Changes' : 'Add Milestone'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
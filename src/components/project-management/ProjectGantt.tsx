@@ -0,0 +1,698 @@
+/**
+ * Project Gantt
+ * Task-level schedule for a single project: bars, milestones, dependency links,
+ * drag-to-reschedule and critical path / slack highlighting
+ */
+
+import { useState, useEffect, useRef, useCallback } from "react";
+import type { PointerEvent as ReactPointerEvent } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Link2, Loader2, RefreshCw, Trash2, ZoomIn, ZoomOut } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  getProjectGantt,
+  createTaskDependency,
+  deleteTaskDependency,
+  rescheduleGanttTask,
+  GanttData,
+  GanttTask,
+  TaskDependency,
+  DependencyType,
+} from "@/services/api/project-enhancements-service";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ROW_HEIGHT = 36;
+const BAR_HEIGHT = 20;
+const NAME_COLUMN_WIDTH = 224;
+const ZOOM_LEVELS = [14, 24, 40];
+
+const dependencyLabels: Record<DependencyType, string> = {
+  finish_to_start: 'Finish → Start',
+  start_to_start: 'Start → Start',
+  finish_to_finish: 'Finish → Finish',
+  start_to_finish: 'Start → Finish',
+};
+
+const statusColors: Record<string, string> = {
+  todo: '#94a3b8',
+  in_progress: '#3b82f6',
+  in_review: '#8b5cf6',
+  blocked: '#f97316',
+  completed: '#10b981',
+  cancelled: '#cbd5e1',
+};
+
+const toDay = (date: string) => {
+  const [year, month, day] = date.split('T')[0].split('-').map(Number);
+  return Math.round(Date.UTC(year, month - 1, day) / DAY_MS);
+};
+
+const fromDay = (day: number) => new Date(day * DAY_MS).toISOString().split('T')[0];
+
+const formatDay = (day: number) =>
+  new Date(day * DAY_MS).toLocaleDateString(undefined, { day: 'numeric', month: 'short', timeZone: 'UTC' });
+
+interface BarDrag {
+  kind: 'move' | 'resize-start' | 'resize-end';
+  taskId: string;
+  originX: number;
+  deltaDays: number;
+}
+
+interface LinkDrag {
+  kind: 'link';
+  taskId: string;
+  anchor: 'start' | 'finish';
+  x: number;
+  y: number;
+}
+
+type DragState = BarDrag | LinkDrag;
+
+interface ProjectGanttProps {
+  projectId: string;
+  onScheduleChange?: () => void;
+}
+
+export function ProjectGantt({ projectId, onScheduleChange }: ProjectGanttProps) {
+  const { toast } = useToast();
+  const [data, setData] = useState<GanttData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [zoom, setZoom] = useState(1);
+  const [highlightCritical, setHighlightCritical] = useState(true);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [dependencyDialogOpen, setDependencyDialogOpen] = useState(false);
+  const [dependencyForm, setDependencyForm] = useState({
+    predecessor_task_id: '',
+    successor_task_id: '',
+    dependency_type: 'finish_to_start' as DependencyType,
+    lag_days: '0',
+  });
+  const chartRef = useRef<HTMLDivElement>(null);
+
+  const dayWidth = ZOOM_LEVELS[zoom];
+
+  const loadGantt = useCallback(async () => {
+    try {
+      setLoading(true);
+      setData(await getProjectGantt(projectId));
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to load Gantt chart',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId, toast]);
+
+  useEffect(() => {
+    loadGantt();
+  }, [loadGantt]);
+
+  const tasks = data?.tasks || [];
+  const milestones = data?.milestones || [];
+  const dependencies = data?.dependencies || [];
+  const scheduledTasks = tasks.filter((task) => task.schedule);
+  const unscheduledTasks = tasks.filter((task) => !task.schedule);
+  const criticalIds = new Set(data?.critical_path || []);
+
+  // Visible range: a few days either side of the work, never empty
+  const today = toDay(new Date().toISOString());
+  const anchorDays = [
+    ...scheduledTasks.flatMap((task) => [toDay(task.schedule!.start_date), toDay(task.schedule!.late_finish)]),
+    ...milestones.filter((m) => m.target_date).map((m) => toDay(m.target_date!)),
+  ];
+  const rangeStart = (anchorDays.length > 0 ? Math.min(...anchorDays) : today) - 3;
+  const rangeEnd = Math.max(anchorDays.length > 0 ? Math.max(...anchorDays) : today, rangeStart + 30) + 7;
+  const totalDays = rangeEnd - rangeStart + 1;
+  const chartWidth = totalDays * dayWidth;
+
+  const rowIndex = new Map(scheduledTasks.map((task, index) => [task.id, index]));
+  const chartHeight = (scheduledTasks.length + milestones.length) * ROW_HEIGHT;
+
+  // Apply an in-progress drag to a bar without touching the loaded data
+  const getBarSpan = (task: GanttTask) => {
+    let start = toDay(task.schedule!.start_date);
+    let finish = toDay(task.schedule!.finish_date);
+    if (drag && drag.kind !== 'link' && drag.taskId === task.id) {
+      if (drag.kind === 'move') {
+        start += drag.deltaDays;
+        finish += drag.deltaDays;
+      } else if (drag.kind === 'resize-start') {
+        start = Math.min(start + drag.deltaDays, finish);
+      } else {
+        finish = Math.max(finish + drag.deltaDays, start);
+      }
+    }
+    return { start, finish };
+  };
+
+  const barGeometry = (task: GanttTask) => {
+    const { start, finish } = getBarSpan(task);
+    const top = rowIndex.get(task.id)! * ROW_HEIGHT + (ROW_HEIGHT - BAR_HEIGHT) / 2;
+    return {
+      left: (start - rangeStart) * dayWidth,
+      right: (finish - rangeStart + 1) * dayWidth,
+      middle: top + BAR_HEIGHT / 2,
+      top,
+    };
+  };
+
+  const startBarDrag = (event: ReactPointerEvent, task: GanttTask, kind: BarDrag['kind']) => {
+    if (saving) return;
+    event.preventDefault();
+    event.stopPropagation();
+    setDrag({ kind, taskId: task.id, originX: event.clientX, deltaDays: 0 });
+  };
+
+  const startLinkDrag = (event: ReactPointerEvent, task: GanttTask, anchor: LinkDrag['anchor']) => {
+    if (saving || !chartRef.current) return;
+    event.preventDefault();
+    event.stopPropagation();
+    const rect = chartRef.current.getBoundingClientRect();
+    setDrag({ kind: 'link', taskId: task.id, anchor, x: event.clientX - rect.left, y: event.clientY - rect.top });
+  };
+
+  const saveSchedule = async (taskId: string, startDate: string, dueDate: string) => {
+    try {
+      setSaving(true);
+      const result = await rescheduleGanttTask(projectId, taskId, { start_date: startDate, due_date: dueDate });
+      toast({
+        title: 'Task rescheduled',
+        description: result.shifted_tasks.length > 0
+          ? `${result.shifted_tasks.length} dependent task(s) shifted to keep the schedule valid`
+          : `${formatDay(toDay(startDate))} – ${formatDay(toDay(dueDate))}`,
+      });
+      await loadGantt();
+      onScheduleChange?.();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to reschedule task',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const saveDependency = async (
+    predecessorId: string,
+    successorId: string,
+    dependencyType: DependencyType,
+    lagDays = 0
+  ) => {
+    try {
+      setSaving(true);
+      const result = await createTaskDependency(projectId, {
+        predecessor_task_id: predecessorId,
+        successor_task_id: successorId,
+        dependency_type: dependencyType,
+        lag_days: lagDays,
+      });
+      toast({
+        title: 'Dependency added',
+        description: result.shifted_tasks.length > 0
+          ? `${result.shifted_tasks.length} task(s) shifted to respect the new link`
+          : dependencyLabels[dependencyType],
+      });
+      await loadGantt();
+      if (result.shifted_tasks.length > 0) onScheduleChange?.();
+      return true;
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to add dependency',
+        variant: 'destructive',
+      });
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const removeDependency = async (dependency: TaskDependency) => {
+    const predecessor = tasks.find((task) => task.id === dependency.predecessor_task_id);
+    const successor = tasks.find((task) => task.id === dependency.successor_task_id);
+    if (!confirm(`Remove the link from "${predecessor?.name}" to "${successor?.name}"?`)) return;
+    try {
+      await deleteTaskDependency(projectId, dependency.id);
+      toast({ title: 'Dependency removed' });
+      await loadGantt();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to remove dependency',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  // Track the pointer on the window so drags keep working outside the bar
+  useEffect(() => {
+    if (!drag) return;
+
+    const handleMove = (event: PointerEvent) => {
+      if (drag.kind === 'link') {
+        const rect = chartRef.current?.getBoundingClientRect();
+        if (!rect) return;
+        setDrag({ ...drag, x: event.clientX - rect.left, y: event.clientY - rect.top });
+      } else {
+        const deltaDays = Math.round((event.clientX - drag.originX) / dayWidth);
+        if (deltaDays !== drag.deltaDays) setDrag({ ...drag, deltaDays });
+      }
+    };
+
+    const handleUp = (event: PointerEvent) => {
+      setDrag(null);
+      const task = tasks.find((t) => t.id === drag.taskId);
+      if (!task) return;
+
+      if (drag.kind === 'link') {
+        const target = document.elementFromPoint(event.clientX, event.clientY)?.closest('[data-task-id]');
+        const targetId = target?.getAttribute('data-task-id');
+        if (targetId && targetId !== task.id) {
+          saveDependency(task.id, targetId, drag.anchor === 'finish' ? 'finish_to_start' : 'start_to_start');
+        }
+        return;
+      }
+
+      if (drag.deltaDays === 0) return;
+      const { start, finish } = getBarSpan(task);
+      saveSchedule(task.id, fromDay(start), fromDay(finish));
+    };
+
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+    return () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+    };
+  });
+
+  const handleDependencySubmit = async () => {
+    const { predecessor_task_id, successor_task_id, dependency_type, lag_days } = dependencyForm;
+    if (!predecessor_task_id || !successor_task_id) {
+      toast({ title: 'Error', description: 'Select both tasks', variant: 'destructive' });
+      return;
+    }
+    const saved = await saveDependency(predecessor_task_id, successor_task_id, dependency_type, parseInt(lag_days, 10) || 0);
+    if (saved) {
+      setDependencyDialogOpen(false);
+      setDependencyForm({ predecessor_task_id: '', successor_task_id: '', dependency_type: 'finish_to_start', lag_days: '0' });
+    }
+  };
+
+  const isCritical = (taskId: string) => highlightCritical && criticalIds.has(taskId);
+
+  const dependencyPath = (dependency: TaskDependency) => {
+    const predecessor = scheduledTasks.find((task) => task.id === dependency.predecessor_task_id);
+    const successor = scheduledTasks.find((task) => task.id === dependency.successor_task_id);
+    if (!predecessor || !successor) return null;
+
+    const from = barGeometry(predecessor);
+    const to = barGeometry(successor);
+    const fromStart = dependency.dependency_type === 'start_to_start' || dependency.dependency_type === 'start_to_finish';
+    const toFinish = dependency.dependency_type === 'finish_to_finish' || dependency.dependency_type === 'start_to_finish';
+    const x1 = fromStart ? from.left : from.right;
+    const x2 = toFinish ? to.right : to.left;
+    const exitX = fromStart ? x1 - 8 : x1 + 8;
+    const entryX = toFinish ? x2 + 8 : x2 - 8;
+    const midY = from.middle < to.middle ? to.top - 4 : to.top + BAR_HEIGHT + 4;
+
+    return `M ${x1} ${from.middle} H ${exitX} V ${midY} H ${entryX} V ${to.middle} H ${x2}`;
+  };
+
+  // Week headers for the timeline
+  const weekHeaders: { day: number; span: number }[] = [];
+  for (let day = rangeStart; day <= rangeEnd; ) {
+    const weekday = new Date(day * DAY_MS).getUTCDay();
+    const span = Math.min(weekday === 1 ? 7 : ((8 - weekday) % 7) || 7, rangeEnd - day + 1);
+    weekHeaders.push({ day, span });
+    day += span;
+  }
+
+  const taskName = (taskId: string) => tasks.find((task) => task.id === taskId)?.name || 'Unknown task';
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0 gap-4">
+        <div>
+          <CardTitle>Task Schedule</CardTitle>
+          <CardDescription>
+            Drag bars to move tasks, drag their edges to resize, and drag the dots to link tasks
+            (end dot: finish → start, start dot: start → start).
+            {data?.project_finish && ` Projected finish: ${formatDay(toDay(data.project_finish))}.`}
+          </CardDescription>
+        </div>
+        <div className="flex items-center gap-2 flex-wrap justify-end">
+          <div className="flex items-center gap-2 mr-2">
+            <Switch id="critical-path" checked={highlightCritical} onCheckedChange={setHighlightCritical} />
+            <Label htmlFor="critical-path" className="text-sm">Critical path</Label>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => setZoom(Math.max(0, zoom - 1))} disabled={zoom === 0}>
+            <ZoomOut className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setZoom(Math.min(ZOOM_LEVELS.length - 1, zoom + 1))} disabled={zoom === ZOOM_LEVELS.length - 1}>
+            <ZoomIn className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={loadGantt} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          </Button>
+          <Button size="sm" onClick={() => setDependencyDialogOpen(true)} disabled={tasks.length < 2}>
+            <Link2 className="h-4 w-4 mr-2" />
+            Add Dependency
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading && !data ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : scheduledTasks.length === 0 && milestones.length === 0 ? (
+          <div className="text-center py-12 text-muted-foreground">
+            No scheduled tasks yet. Give tasks a start or due date to see them here.
+          </div>
+        ) : (
+          <div className="border rounded-lg overflow-hidden">
+            <div className="flex">
+              {/* Task names */}
+              <div className="shrink-0 border-r bg-muted/30" style={{ width: NAME_COLUMN_WIDTH }}>
+                <div className="h-12 border-b px-3 flex items-end pb-1 text-xs font-medium text-muted-foreground">Task</div>
+                {scheduledTasks.map((task) => (
+                  <div key={task.id} className="px-3 flex items-center gap-2 border-b text-sm" style={{ height: ROW_HEIGHT }}>
+                    <span className={`truncate ${isCritical(task.id) ? 'text-red-600 font-medium' : ''}`} title={task.name}>
+                      {task.name}
+                    </span>
+                    {task.schedule && task.schedule.total_slack > 0 && (
+                      <span className="ml-auto text-xs text-muted-foreground shrink-0">{task.schedule.total_slack}d slack</span>
+                    )}
+                  </div>
+                ))}
+                {milestones.map((milestone) => (
+                  <div key={milestone.id} className="px-3 flex items-center gap-2 border-b text-sm italic" style={{ height: ROW_HEIGHT }}>
+                    <span className="truncate" title={milestone.name}>◆ {milestone.name}</span>
+                  </div>
+                ))}
+              </div>
+
+              {/* Timeline */}
+              <div className="overflow-x-auto flex-1">
+                <div style={{ width: chartWidth }}>
+                  <div className="h-12 border-b">
+                    <div className="flex h-6">
+                      {weekHeaders.map(({ day, span }) => (
+                        <div key={day} className="border-r text-xs px-1 truncate text-muted-foreground" style={{ width: span * dayWidth }}>
+                          {formatDay(day)}
+                        </div>
+                      ))}
+                    </div>
+                    <div className="flex h-6">
+                      {Array.from({ length: totalDays }, (_, i) => rangeStart + i).map((day) => {
+                        const weekday = new Date(day * DAY_MS).getUTCDay();
+                        return (
+                          <div
+                            key={day}
+                            className={`border-r text-[10px] text-center leading-6 ${weekday === 0 || weekday === 6 ? 'bg-muted/50' : ''} ${day === today ? 'text-primary font-semibold' : 'text-muted-foreground'}`}
+                            style={{ width: dayWidth }}
+                          >
+                            {dayWidth >= 24 ? new Date(day * DAY_MS).getUTCDate() : ''}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </div>
+
+                  <div ref={chartRef} className="relative select-none" style={{ height: chartHeight }}>
+                    {/* Row stripes and today marker */}
+                    {Array.from({ length: scheduledTasks.length + milestones.length }, (_, i) => (
+                      <div key={i} className="absolute left-0 right-0 border-b" style={{ top: i * ROW_HEIGHT, height: ROW_HEIGHT }} />
+                    ))}
+                    {today >= rangeStart && today <= rangeEnd && (
+                      <div
+                        className="absolute top-0 bottom-0 w-px bg-primary/60"
+                        style={{ left: (today - rangeStart) * dayWidth + dayWidth / 2 }}
+                      />
+                    )}
+
+                    {/* Task bars */}
+                    {scheduledTasks.map((task) => {
+                      const schedule = task.schedule!;
+                      const geometry = barGeometry(task);
+                      const critical = isCritical(task.id);
+                      const progress = Math.min(100, Math.max(0, task.progress_percentage || 0));
+                      const isDragging = drag?.kind !== 'link' && drag?.taskId === task.id;
+                      return (
+                        <div key={task.id}>
+                          {schedule.total_slack > 0 && !isDragging && (
+                            <div
+                              className="absolute rounded-r border border-dashed border-muted-foreground/40"
+                              style={{
+                                left: geometry.right,
+                                top: geometry.top + 4,
+                                width: schedule.total_slack * dayWidth,
+                                height: BAR_HEIGHT - 8,
+                                backgroundImage: 'repeating-linear-gradient(45deg, transparent, transparent 3px, rgba(148,163,184,0.35) 3px, rgba(148,163,184,0.35) 5px)',
+                              }}
+                              title={`${schedule.total_slack} day(s) of slack — latest finish ${formatDay(toDay(schedule.late_finish))}`}
+                            />
+                          )}
+                          <div
+                            data-task-id={task.id}
+                            className={`group absolute rounded cursor-grab ${isDragging ? 'opacity-80 cursor-grabbing' : ''} ${critical ? 'ring-2 ring-red-500' : ''}`}
+                            style={{
+                              left: geometry.left,
+                              top: geometry.top,
+                              width: Math.max(geometry.right - geometry.left, 4),
+                              height: BAR_HEIGHT,
+                              backgroundColor: critical ? '#fecaca' : `${statusColors[task.status] || '#94a3b8'}55`,
+                            }}
+                            title={`${task.name}\n${formatDay(toDay(schedule.start_date))} – ${formatDay(toDay(schedule.finish_date))} (${schedule.duration_days}d)\nSlack: ${schedule.total_slack}d`}
+                            onPointerDown={(event) => startBarDrag(event, task, 'move')}
+                          >
+                            <div
+                              className="h-full rounded"
+                              style={{ width: `${progress}%`, backgroundColor: critical ? '#ef4444' : statusColors[task.status] || '#94a3b8' }}
+                            />
+                            <div
+                              className="absolute left-0 top-0 h-full w-1.5 cursor-ew-resize"
+                              onPointerDown={(event) => startBarDrag(event, task, 'resize-start')}
+                            />
+                            <div
+                              className="absolute right-0 top-0 h-full w-1.5 cursor-ew-resize"
+                              onPointerDown={(event) => startBarDrag(event, task, 'resize-end')}
+                            />
+                            <div
+                              className="absolute -left-3 top-1/2 -translate-y-1/2 h-2.5 w-2.5 rounded-full border-2 border-primary bg-background opacity-0 group-hover:opacity-100 cursor-crosshair"
+                              title="Drag to another task to link start → start"
+                              onPointerDown={(event) => startLinkDrag(event, task, 'start')}
+                            />
+                            <div
+                              className="absolute -right-3 top-1/2 -translate-y-1/2 h-2.5 w-2.5 rounded-full border-2 border-primary bg-background opacity-0 group-hover:opacity-100 cursor-crosshair"
+                              title="Drag to another task to link finish → start"
+                              onPointerDown={(event) => startLinkDrag(event, task, 'finish')}
+                            />
+                          </div>
+                        </div>
+                      );
+                    })}
+
+                    {/* Milestones */}
+                    {milestones.map((milestone, index) => {
+                      if (!milestone.target_date) return null;
+                      const day = toDay(milestone.target_date);
+                      const top = (scheduledTasks.length + index) * ROW_HEIGHT + ROW_HEIGHT / 2;
+                      const color = milestone.status === 'completed'
+                        ? '#10b981'
+                        : milestone.status === 'delayed' || (highlightCritical && milestone.is_critical) ? '#ef4444' : '#f59e0b';
+                      return (
+                        <div
+                          key={milestone.id}
+                          className="absolute h-3.5 w-3.5 rotate-45 -translate-x-1/2 -translate-y-1/2 border border-background"
+                          style={{ left: (day - rangeStart) * dayWidth + dayWidth / 2, top, backgroundColor: color }}
+                          title={`${milestone.name} — ${formatDay(day)} (${milestone.status})`}
+                        />
+                      );
+                    })}
+
+                    {/* Dependency links */}
+                    <svg className="absolute inset-0 pointer-events-none overflow-visible" width={chartWidth} height={chartHeight}>
+                      <defs>
+                        <marker id="gantt-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto">
+                          <path d="M 0 0 L 10 5 L 0 10 z" fill="#64748b" />
+                        </marker>
+                        <marker id="gantt-arrow-critical" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto">
+                          <path d="M 0 0 L 10 5 L 0 10 z" fill="#ef4444" />
+                        </marker>
+                      </defs>
+                      {dependencies.map((dependency) => {
+                        const path = dependencyPath(dependency);
+                        if (!path) return null;
+                        const critical = isCritical(dependency.predecessor_task_id) && isCritical(dependency.successor_task_id);
+                        return (
+                          <g key={dependency.id} className="pointer-events-auto cursor-pointer" onClick={() => removeDependency(dependency)}>
+                            <title>{`${taskName(dependency.predecessor_task_id)} → ${taskName(dependency.successor_task_id)} (${dependencyLabels[dependency.dependency_type]}${dependency.lag_days ? `, ${dependency.lag_days}d lag` : ''}) — click to remove`}</title>
+                            <path d={path} fill="none" stroke="transparent" strokeWidth={8} />
+                            <path
+                              d={path}
+                              fill="none"
+                              stroke={critical ? '#ef4444' : '#64748b'}
+                              strokeWidth={critical ? 2 : 1.25}
+                              markerEnd={`url(#${critical ? 'gantt-arrow-critical' : 'gantt-arrow'})`}
+                            />
+                          </g>
+                        );
+                      })}
+                      {drag?.kind === 'link' && (() => {
+                        const task = scheduledTasks.find((t) => t.id === drag.taskId);
+                        if (!task) return null;
+                        const geometry = barGeometry(task);
+                        const x = drag.anchor === 'finish' ? geometry.right : geometry.left;
+                        return (
+                          <line x1={x} y1={geometry.middle} x2={drag.x} y2={drag.y} stroke="#3b82f6" strokeWidth={1.5} strokeDasharray="4 3" />
+                        );
+                      })()}
+                    </svg>
+                  </div>
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-4 text-xs text-muted-foreground">
+          <span className="flex items-center gap-1"><span className="inline-block h-3 w-6 rounded bg-red-200 ring-2 ring-red-500" /> Critical task</span>
+          <span className="flex items-center gap-1">
+            <span
+              className="inline-block h-2 w-6 rounded border border-dashed border-muted-foreground/40"
+              style={{ backgroundImage: 'repeating-linear-gradient(45deg, transparent, transparent 3px, rgba(148,163,184,0.35) 3px, rgba(148,163,184,0.35) 5px)' }}
+            />
+            Slack
+          </span>
+          <span className="flex items-center gap-1"><span className="inline-block h-2.5 w-2.5 rotate-45 bg-amber-500" /> Milestone</span>
+          {saving && <span className="flex items-center gap-1"><Loader2 className="h-3 w-3 animate-spin" /> Saving…</span>}
+        </div>
+
+        {unscheduledTasks.length > 0 && (
+          <div className="text-sm text-muted-foreground">
+            <span className="font-medium">Not scheduled:</span>{' '}
+            {unscheduledTasks.map((task) => task.name).join(', ')}
+          </div>
+        )}
+
+        {dependencies.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Predecessor</TableHead>
+                <TableHead>Successor</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Lag</TableHead>
+                <TableHead className="w-12" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {dependencies.map((dependency) => (
+                <TableRow key={dependency.id}>
+                  <TableCell>{taskName(dependency.predecessor_task_id)}</TableCell>
+                  <TableCell>{taskName(dependency.successor_task_id)}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{dependencyLabels[dependency.dependency_type]}</Badge>
+                  </TableCell>
+                  <TableCell>{dependency.lag_days || 0}d</TableCell>
+                  <TableCell>
+                    <Button variant="ghost" size="sm" onClick={() => removeDependency(dependency)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={dependencyDialogOpen} onOpenChange={setDependencyDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Dependency</DialogTitle>
+            <DialogDescription>The successor is moved later if the link requires it.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Predecessor</Label>
+              <Select
+                value={dependencyForm.predecessor_task_id}
+                onValueChange={(value) => setDependencyForm({ ...dependencyForm, predecessor_task_id: value })}
+              >
+                <SelectTrigger><SelectValue placeholder="Select task" /></SelectTrigger>
+                <SelectContent>
+                  {tasks.map((task) => (
+                    <SelectItem key={task.id} value={task.id}>{task.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Successor</Label>
+              <Select
+                value={dependencyForm.successor_task_id}
+                onValueChange={(value) => setDependencyForm({ ...dependencyForm, successor_task_id: value })}
+              >
+                <SelectTrigger><SelectValue placeholder="Select task" /></SelectTrigger>
+                <SelectContent>
+                  {tasks.filter((task) => task.id !== dependencyForm.predecessor_task_id).map((task) => (
+                    <SelectItem key={task.id} value={task.id}>{task.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <Select
+                  value={dependencyForm.dependency_type}
+                  onValueChange={(value) => setDependencyForm({ ...dependencyForm, dependency_type: value as DependencyType })}
+                >
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(dependencyLabels) as DependencyType[]).map((type) => (
+                      <SelectItem key={type} value={type}>{dependencyLabels[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Lag (days)</Label>
+                <Input
+                  type="number"
+                  value={dependencyForm.lag_days}
+                  onChange={(e) => setDependencyForm({ ...dependencyForm, lag_days: e.target.value })}
+                />
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDependencyDialogOpen(false)}>Cancel</Button>
+            <Button onClick={handleDependencySubmit} disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Add Dependency
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,131 @@
+/**
+ * Project Health Summary
+ * Rolls risks, issues, milestones, schedule and budget up into a single status
+ */
+
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle, CheckCircle, Flag, Loader2, ShieldAlert, XCircle } from "lucide-react";
+import {
+  getProjectHealth,
+  ProjectHealth,
+  ProjectHealthStatus,
+} from "@/services/api/project-enhancements-service";
+
+const healthStyles: Record<ProjectHealthStatus, { label: string; className: string; icon: typeof CheckCircle }> = {
+  on_track: { label: 'On Track', className: 'bg-green-100 text-green-800', icon: CheckCircle },
+  at_risk: { label: 'At Risk', className: 'bg-amber-100 text-amber-800', icon: AlertTriangle },
+  off_track: { label: 'Off Track', className: 'bg-red-100 text-red-800', icon: XCircle },
+};
+
+interface ProjectHealthSummaryProps {
+  projectId: string;
+  currency?: string | null;
+  refreshKey?: number;
+}
+
+export function ProjectHealthSummary({ projectId, currency, refreshKey }: ProjectHealthSummaryProps) {
+  const [health, setHealth] = useState<ProjectHealth | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadHealth = async () => {
+      try {
+        setLoading(true);
+        setHealth(await getProjectHealth(projectId));
+      } catch (error) {
+        console.error('Error loading project health:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadHealth();
+  }, [projectId, refreshKey]);
+
+  const formatCurrency = (amount: number) =>
+    new Intl.NumberFormat('en-US', { style: 'currency', currency: currency || 'USD' }).format(amount);
+
+  if (loading && !health) {
+    return (
+      <Card>
+        <CardContent className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!health) return null;
+
+  const style = healthStyles[health.status];
+  const StatusIcon = style.icon;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>Project Health</CardTitle>
+          <CardDescription>Risks, issues, milestones, schedule and budget at a glance</CardDescription>
+        </div>
+        <Badge className={style.className}>
+          <StatusIcon className="h-3.5 w-3.5 mr-1" />
+          {style.label}
+        </Badge>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 grid-cols-2 md:grid-cols-5">
+          <div>
+            <p className="text-sm text-muted-foreground flex items-center gap-1"><ShieldAlert className="h-3.5 w-3.5" /> Risks</p>
+            <p className="text-xl font-semibold mt-1">{health.risks.open}</p>
+            <p className="text-xs text-muted-foreground">{health.risks.high} high exposure</p>
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground flex items-center gap-1"><AlertTriangle className="h-3.5 w-3.5" /> Issues</p>
+            <p className="text-xl font-semibold mt-1">{health.issues.open}</p>
+            <p className="text-xs text-muted-foreground">
+              {health.issues.severe} severe · {health.issues.overdue} overdue
+            </p>
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground flex items-center gap-1"><Flag className="h-3.5 w-3.5" /> Milestones</p>
+            <p className="text-xl font-semibold mt-1">{health.milestones.completed}/{health.milestones.total}</p>
+            <p className="text-xs text-muted-foreground">
+              {health.milestones.next
+                ? `Next: ${health.milestones.next.name} (${new Date(health.milestones.next.target_date).toLocaleDateString()})`
+                : 'No upcoming milestone'}
+            </p>
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">Tasks</p>
+            <p className="text-xl font-semibold mt-1">{health.tasks.completed}/{health.tasks.total}</p>
+            <p className="text-xs text-muted-foreground">
+              {health.tasks.overdue} overdue · {health.tasks.blocked} blocked
+            </p>
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">Milestone Billing</p>
+            <p className="text-xl font-semibold mt-1">{formatCurrency(health.milestones.invoiced_amount)}</p>
+            <p className="text-xs text-muted-foreground">{formatCurrency(health.milestones.uninvoiced_amount)} still to bill</p>
+          </div>
+        </div>
+
+        {health.flags.length > 0 ? (
+          <ul className="space-y-1">
+            {health.flags.map((flag) => (
+              <li
+                key={flag.message}
+                className={`text-sm flex items-center gap-2 ${flag.level === 'red' ? 'text-red-700' : 'text-amber-700'}`}
+              >
+                <span className={`h-2 w-2 rounded-full ${flag.level === 'red' ? 'bg-red-500' : 'bg-amber-500'}`} />
+                {flag.message}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-green-700">No open concerns.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,430 @@
+/**
+ * Risk Register
+ * Probability × impact heat map plus the risk list with owners and mitigation plans
+ */
+
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Edit, Loader2, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  getProjectRisks,
+  createProjectRisk,
+  updateProjectRisk,
+  deleteProjectRisk,
+  ProjectRisk,
+  RiskLevel,
+  RiskStatus,
+} from "@/services/api/project-enhancements-service";
+
+export interface RegisterPerson {
+  id: string;
+  name: string;
+}
+
+const LEVELS: RiskLevel[] = ['low', 'medium', 'high'];
+const CATEGORIES = ['technical', 'financial', 'schedule', 'resource', 'external'];
+const STATUSES: RiskStatus[] = ['open', 'mitigated', 'accepted', 'closed'];
+
+const riskStatusColors: Record<RiskStatus, string> = {
+  open: 'bg-red-100 text-red-800',
+  mitigated: 'bg-blue-100 text-blue-800',
+  accepted: 'bg-yellow-100 text-yellow-800',
+  closed: 'bg-green-100 text-green-800',
+};
+
+const scoreClass = (score: number) => {
+  if (score >= 6) return 'bg-red-500 text-white';
+  if (score >= 3) return 'bg-amber-400 text-amber-950';
+  return 'bg-green-400 text-green-950';
+};
+
+const levelScore: Record<RiskLevel, number> = { low: 1, medium: 2, high: 3 };
+
+const emptyForm = {
+  risk_title: '',
+  description: '',
+  category: 'technical',
+  probability: 'medium' as RiskLevel,
+  impact: 'medium' as RiskLevel,
+  status: 'open' as RiskStatus,
+  mitigation_plan: '',
+  owner_id: '',
+};
+
+interface RiskRegisterProps {
+  projectId: string;
+  people: RegisterPerson[];
+  onChange?: () => void;
+}
+
+export function RiskRegister({ projectId, people, onChange }: RiskRegisterProps) {
+  const { toast } = useToast();
+  const [risks, setRisks] = useState<ProjectRisk[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingRisk, setEditingRisk] = useState<ProjectRisk | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [cellFilter, setCellFilter] = useState<{ probability: RiskLevel; impact: RiskLevel } | null>(null);
+  const [showClosed, setShowClosed] = useState(false);
+
+  const loadRisks = useCallback(async () => {
+    try {
+      setLoading(true);
+      setRisks(await getProjectRisks(projectId));
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to load risks',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId, toast]);
+
+  useEffect(() => {
+    loadRisks();
+  }, [loadRisks]);
+
+  const activeRisks = risks.filter((risk) => risk.status !== 'closed' && risk.status !== 'mitigated');
+  const visibleRisks = (showClosed ? risks : activeRisks).filter((risk) =>
+    !cellFilter || (risk.probability === cellFilter.probability && risk.impact === cellFilter.impact)
+  );
+
+  const openDialog = (risk?: ProjectRisk) => {
+    setEditingRisk(risk || null);
+    setFormData(risk ? {
+      risk_title: risk.risk_title,
+      description: risk.description || '',
+      category: risk.category || 'technical',
+      probability: risk.probability,
+      impact: risk.impact,
+      status: risk.status,
+      mitigation_plan: risk.mitigation_plan || '',
+      owner_id: risk.owner_id || '',
+    } : emptyForm);
+    setDialogOpen(true);
+  };
+
+  const handleSubmit = async () => {
+    if (!formData.risk_title.trim()) {
+      toast({ title: 'Error', description: 'Risk title is required', variant: 'destructive' });
+      return;
+    }
+    const payload = {
+      ...formData,
+      risk_title: formData.risk_title.trim(),
+      description: formData.description || null,
+      mitigation_plan: formData.mitigation_plan || null,
+      owner_id: formData.owner_id || null,
+    };
+    try {
+      setSaving(true);
+      if (editingRisk) {
+        await updateProjectRisk(projectId, editingRisk.id, payload);
+      } else {
+        await createProjectRisk(projectId, payload);
+      }
+      toast({ title: 'Success', description: editingRisk ? 'Risk updated' : 'Risk added to the register' });
+      setDialogOpen(false);
+      await loadRisks();
+      onChange?.();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save risk',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleStatusChange = async (risk: ProjectRisk, status: RiskStatus) => {
+    try {
+      await updateProjectRisk(projectId, risk.id, { status });
+      await loadRisks();
+      onChange?.();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update risk',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDelete = async (risk: ProjectRisk) => {
+    if (!confirm(`Delete risk "${risk.risk_title}"?`)) return;
+    try {
+      await deleteProjectRisk(projectId, risk.id);
+      toast({ title: 'Success', description: 'Risk deleted' });
+      await loadRisks();
+      onChange?.();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to delete risk',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const ownerName = (risk: ProjectRisk) =>
+    risk.owner_name || people.find((person) => person.id === risk.owner_id)?.name || risk.owner_email || 'Unassigned';
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 lg:grid-cols-3">
+        <Card>
+          <CardHeader>
+            <CardTitle>Heat Map</CardTitle>
+            <CardDescription>Open risks by probability and impact. Click a cell to filter.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex gap-2">
+              <div className="flex flex-col justify-around text-xs text-muted-foreground w-16 text-right pr-1">
+                {[...LEVELS].reverse().map((probability) => (
+                  <span key={probability} className="capitalize">{probability}</span>
+                ))}
+              </div>
+              <div className="flex-1">
+                <div className="grid grid-cols-3 gap-1">
+                  {[...LEVELS].reverse().map((probability) =>
+                    LEVELS.map((impact) => {
+                      const count = activeRisks.filter((r) => r.probability === probability && r.impact === impact).length;
+                      const selected = cellFilter?.probability === probability && cellFilter?.impact === impact;
+                      return (
+                        <button
+                          key={`${probability}-${impact}`}
+                          type="button"
+                          className={`h-14 rounded text-lg font-semibold transition ${scoreClass(levelScore[probability] * levelScore[impact])} ${count === 0 ? 'opacity-40' : ''} ${selected ? 'ring-2 ring-offset-2 ring-primary' : ''}`}
+                          onClick={() => setCellFilter(selected ? null : { probability, impact })}
+                          title={`${count} risk(s): ${probability} probability, ${impact} impact`}
+                        >
+                          {count || ''}
+                        </button>
+                      );
+                    })
+                  )}
+                </div>
+                <div className="grid grid-cols-3 gap-1 mt-1 text-xs text-muted-foreground text-center">
+                  {LEVELS.map((impact) => (
+                    <span key={impact} className="capitalize">{impact}</span>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground text-center mt-1">Impact →</p>
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground mt-2">↑ Probability</p>
+          </CardContent>
+        </Card>
+
+        <Card className="lg:col-span-2">
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div>
+              <CardTitle>Risk Register</CardTitle>
+              <CardDescription>
+                {activeRisks.length} open risk(s)
+                {cellFilter && (
+                  <>
+                    {' '}· showing {cellFilter.probability} probability / {cellFilter.impact} impact{' '}
+                    <Button variant="link" size="sm" className="p-0 h-auto" onClick={() => setCellFilter(null)}>clear</Button>
+                  </>
+                )}
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" onClick={() => setShowClosed(!showClosed)}>
+                {showClosed ? 'Hide closed' : 'Show closed'}
+              </Button>
+              <Button size="sm" onClick={() => openDialog()}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Risk
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="flex justify-center py-8"><Loader2 className="h-6 w-6 animate-spin text-muted-foreground" /></div>
+            ) : visibleRisks.length === 0 ? (
+              <p className="text-center py-8 text-muted-foreground">No risks recorded</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Risk</TableHead>
+                    <TableHead>Score</TableHead>
+                    <TableHead>Owner</TableHead>
+                    <TableHead>Mitigation</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="w-20" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleRisks.map((risk) => (
+                    <TableRow key={risk.id}>
+                      <TableCell>
+                        <div className="font-medium">{risk.risk_title}</div>
+                        <div className="text-xs text-muted-foreground capitalize">
+                          {risk.category || 'uncategorised'} · P: {risk.probability} · I: {risk.impact}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <span className={`inline-flex h-7 w-7 items-center justify-center rounded text-sm font-semibold ${scoreClass(risk.risk_score)}`}>
+                          {risk.risk_score}
+                        </span>
+                      </TableCell>
+                      <TableCell className="text-sm">{ownerName(risk)}</TableCell>
+                      <TableCell className="text-sm max-w-xs">
+                        <span className="line-clamp-2">{risk.mitigation_plan || <span className="text-muted-foreground">No plan yet</span>}</span>
+                      </TableCell>
+                      <TableCell>
+                        <Select value={risk.status} onValueChange={(value) => handleStatusChange(risk, value as RiskStatus)}>
+                          <SelectTrigger className="h-8 w-32">
+                            <Badge className={riskStatusColors[risk.status]}>{risk.status}</Badge>
+                          </SelectTrigger>
+                          <SelectContent>
+                            {STATUSES.map((status) => (
+                              <SelectItem key={status} value={status} className="capitalize">{status}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-1">
+                          <Button variant="ghost" size="sm" onClick={() => openDialog(risk)}>
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => handleDelete(risk)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingRisk ? 'Edit Risk' : 'Add Risk'}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="risk_title">Title *</Label>
+              <Input
+                id="risk_title"
+                value={formData.risk_title}
+                onChange={(e) => setFormData({ ...formData, risk_title: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="risk_description">Description</Label>
+              <Textarea
+                id="risk_description"
+                rows={2}
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+              />
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>Category</Label>
+                <Select value={formData.category} onValueChange={(value) => setFormData({ ...formData, category: value })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {CATEGORIES.map((category) => (
+                      <SelectItem key={category} value={category} className="capitalize">{category}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Probability</Label>
+                <Select value={formData.probability} onValueChange={(value) => setFormData({ ...formData, probability: value as RiskLevel })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {LEVELS.map((level) => (
+                      <SelectItem key={level} value={level} className="capitalize">{level}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Impact</Label>
+                <Select value={formData.impact} onValueChange={(value) => setFormData({ ...formData, impact: value as RiskLevel })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {LEVELS.map((level) => (
+                      <SelectItem key={level} value={level} className="capitalize">{level}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Owner</Label>
+                <Select
+                  value={formData.owner_id || 'none'}
+                  onValueChange={(value) => setFormData({ ...formData, owner_id: value === 'none' ? '' : value })}
+                >
+                  <SelectTrigger><SelectValue placeholder="Unassigned" /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Unassigned</SelectItem>
+                    {people.map((person) => (
+                      <SelectItem key={person.id} value={person.id}>{person.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Status</Label>
+                <Select value={formData.status} onValueChange={(value) => setFormData({ ...formData, status: value as RiskStatus })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {STATUSES.map((status) => (
+                      <SelectItem key={status} value={status} className="capitalize">{status}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="mitigation_plan">Mitigation Plan</Label>
+              <Textarea
+                id="mitigation_plan"
+                rows={3}
+                value={formData.mitigation_plan}
+                onChange={(e) => setFormData({ ...formData, mitigation_plan: e.target.value })}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>Cancel</Button>
+            <Button onClick={handleSubmit} disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {editingRisk ? 'Save Changes' : 'Add Risk'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+/**
+ * Apply Rotation Dialog
+ * Roster selected employees onto a rotation for a date range, optionally staggered
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2 } from 'lucide-react';
+import { applyShiftRotation, type RosterEmployee, type ShiftRotation } from '@/services/api/shift-service';
+
+interface ApplyRotationDialogProps {
+  rotation: ShiftRotation | null;
+  employees: RosterEmployee[];
+  startDate: string;
+  departmentId?: string | null;
+  onOpenChange: (open: boolean) => void;
+  onApplied: () => void;
+}
+
+const addDays = (date: string, days: number) => {
+  const value = new Date(`${date}T00:00:00`);
+  value.setDate(value.getDate() + days);
+  return `${value.getFullYear()}-${String(value.getMonth() + 1).padStart(2, '0')}-${String(value.getDate()).padStart(2, '0')}`;
+};
+
+export const ApplyRotationDialog: React.FC<ApplyRotationDialogProps> = ({
+  rotation,
+  employees,
+  startDate,
+  departmentId,
+  onOpenChange,
+  onApplied,
+}) => {
+  const { toast } = useToast();
+  const [from, setFrom] = useState(startDate);
+  const [to, setTo] = useState(addDays(startDate, 27));
+  const [offset, setOffset] = useState(0);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!rotation) return;
+    setFrom(startDate);
+    setTo(addDays(startDate, 27));
+    setOffset(0);
+    setSelected(employees.map((employee) => employee.user_id));
+  }, [rotation, startDate, employees]);
+
+  const toggle = (employeeId: string, checked: boolean) =>
+    setSelected((prev) => (checked ? [...prev, employeeId] : prev.filter((id) => id !== employeeId)));
+
+  const handleApply = async () => {
+    if (!rotation) return;
+    try {
+      setSaving(true);
+      const result = await applyShiftRotation(rotation.id, {
+        employee_ids: selected,
+        start_date: from,
+        end_date: to,
+        offset,
+        department_id: departmentId || null,
+      });
+      toast({ title: 'Success', description: `${result.saved} roster day(s) assigned` });
+      onOpenChange(false);
+      onApplied();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to apply shift rotation',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!rotation} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Apply Rotation</DialogTitle>
+          <DialogDescription>
+            {rotation && `${rotation.name} · ${rotation.pattern.length}-day cycle. Existing roster entries in the range are replaced.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          <div className="grid grid-cols-3 gap-4">
+            <div className="grid gap-2">
+              <Label>From</Label>
+              <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+            </div>
+            <div className="grid gap-2">
+              <Label>To</Label>
+              <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+            </div>
+            <div className="grid gap-2">
+              <Label>Start at day</Label>
+              <Input
+                type="number"
+                min="1"
+                max={rotation?.pattern.length || 1}
+                value={offset + 1}
+                onChange={(e) => setOffset(Math.max(0, (parseInt(e.target.value, 10) || 1) - 1))}
+              />
+            </div>
+          </div>
+
+          <div className="grid gap-2">
+            <div className="flex items-center justify-between">
+              <Label>Employees ({selected.length})</Label>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() =>
+                  setSelected(selected.length === employees.length ? [] : employees.map((employee) => employee.user_id))
+                }
+              >
+                {selected.length === employees.length ? 'Clear' : 'Select all'}
+              </Button>
+            </div>
+            <div className="max-h-60 space-y-2 overflow-y-auto rounded-md border p-3">
+              {employees.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No employees in this department</p>
+              ) : (
+                employees.map((employee) => (
+                  <label key={employee.user_id} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={selected.includes(employee.user_id)}
+                      onCheckedChange={(checked) => toggle(employee.user_id, checked === true)}
+                    />
+                    {employee.full_name}
+                  </label>
+                ))
+              )}
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleApply} disabled={saving || selected.length === 0 || !from || !to}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Apply
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
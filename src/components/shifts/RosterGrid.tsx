@@ -0,0 +1,207 @@
+/**
+ * Roster Grid
+ * Weekly employee-by-day roster; drag a shift from the palette onto a day, or drag a rostered day
+ * to another cell to move it (hold Ctrl/Cmd to copy). Recorded attendance is shown against each day.
+ */
+
+import React, { useState } from 'react';
+import { Moon, X } from 'lucide-react';
+import type {
+  RosterAttendance,
+  RosterChange,
+  RosterEmployee,
+  Shift,
+  ShiftAssignment,
+} from '@/services/api/shift-service';
+
+interface RosterGridProps {
+  employees: RosterEmployee[];
+  assignments: ShiftAssignment[];
+  attendance: RosterAttendance[];
+  shifts: Shift[];
+  dates: string[];
+  disabled?: boolean;
+  onChange: (changes: RosterChange[]) => void;
+}
+
+type DragPayload =
+  | { kind: 'shift'; shift_id: string | null }
+  | { kind: 'cell'; employee_id: string; shift_date: string };
+
+const cellKey = (employeeId: string, date: string) => `${employeeId}|${date}`;
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short' });
+
+export const RosterGrid: React.FC<RosterGridProps> = ({
+  employees,
+  assignments,
+  attendance,
+  shifts,
+  dates,
+  disabled = false,
+  onChange,
+}) => {
+  const [dragOver, setDragOver] = useState<string | null>(null);
+
+  const assignmentMap = new Map(assignments.map((assignment) => [cellKey(assignment.employee_id, assignment.shift_date), assignment]));
+  const attendanceMap = new Map(attendance.map((record) => [cellKey(record.employee_id, record.date), record]));
+  const activeShifts = shifts.filter((shift) => shift.is_active);
+
+  const onDragStart = (e: React.DragEvent, payload: DragPayload) => {
+    e.dataTransfer.setData('text/plain', JSON.stringify(payload));
+  };
+
+  const onDragOver = (e: React.DragEvent, key: string) => {
+    if (disabled) return;
+    e.preventDefault();
+    if (dragOver !== key) setDragOver(key);
+  };
+
+  const onDrop = (e: React.DragEvent, employee: RosterEmployee, date: string) => {
+    e.preventDefault();
+    setDragOver(null);
+    if (disabled) return;
+
+    let payload: DragPayload;
+    try {
+      payload = JSON.parse(e.dataTransfer.getData('text/plain'));
+    } catch {
+      return;
+    }
+
+    const target = { employee_id: employee.user_id, shift_date: date, department_id: employee.department_id };
+    if (payload.kind === 'shift') {
+      onChange([{ ...target, shift_id: payload.shift_id }]);
+      return;
+    }
+
+    if (payload.employee_id === employee.user_id && payload.shift_date === date) return;
+    const source = assignmentMap.get(cellKey(payload.employee_id, payload.shift_date));
+    if (!source) return;
+
+    const changes: RosterChange[] = [{ ...target, shift_id: source.shift_id, notes: source.notes }];
+    if (!e.ctrlKey && !e.metaKey) {
+      changes.push({ employee_id: payload.employee_id, shift_date: payload.shift_date, clear: true });
+    }
+    onChange(changes);
+  };
+
+  const renderAttendance = (record: RosterAttendance | undefined) => {
+    if (!record) return null;
+    const notes: string[] = [];
+    if (Number(record.late_minutes) > 0) notes.push(`Late ${record.late_minutes}m`);
+    if (Number(record.early_out_minutes) > 0) notes.push(`Early ${record.early_out_minutes}m`);
+    if (Number(record.overtime_hours) > 0) notes.push(`OT ${Number(record.overtime_hours)}h`);
+    return (
+      <div className="mt-1 text-[10px] leading-tight text-muted-foreground">
+        <span className="capitalize">{record.status.replace('_', ' ')}</span>
+        {notes.length > 0 && <span className="text-orange-600"> · {notes.join(' · ')}</span>}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Shift palette */}
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm text-muted-foreground">Drag onto the roster:</span>
+        {activeShifts.map((shift) => (
+          <div
+            key={shift.id}
+            draggable={!disabled}
+            onDragStart={(e) => onDragStart(e, { kind: 'shift', shift_id: shift.id })}
+            className="flex cursor-grab items-center gap-1 rounded-md px-2 py-1 text-xs font-medium text-white"
+            style={{ backgroundColor: shift.color }}
+          >
+            {shift.is_night_shift && <Moon className="h-3 w-3" />}
+            {shift.name} {shift.start_time.slice(0, 5)}–{shift.end_time.slice(0, 5)}
+          </div>
+        ))}
+        <div
+          draggable={!disabled}
+          onDragStart={(e) => onDragStart(e, { kind: 'shift', shift_id: null })}
+          className="cursor-grab rounded-md border border-dashed px-2 py-1 text-xs font-medium text-muted-foreground"
+        >
+          Day off
+        </div>
+      </div>
+
+      <div className="overflow-x-auto rounded-md border">
+        <table className="w-full border-collapse text-sm">
+          <thead>
+            <tr className="bg-muted/50">
+              <th className="min-w-[180px] p-2 text-left font-medium">Employee</th>
+              {dates.map((date) => (
+                <th key={date} className="min-w-[120px] p-2 text-left font-medium">
+                  {formatDay(date)}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {employees.map((employee) => (
+              <tr key={employee.user_id} className="border-t">
+                <td className="p-2">
+                  <div className="font-medium">{employee.full_name}</div>
+                  {employee.department_name && (
+                    <div className="text-xs text-muted-foreground">{employee.department_name}</div>
+                  )}
+                </td>
+                {dates.map((date) => {
+                  const key = cellKey(employee.user_id, date);
+                  const assignment = assignmentMap.get(key);
+                  return (
+                    <td
+                      key={date}
+                      onDragOver={(e) => onDragOver(e, key)}
+                      onDragLeave={() => setDragOver(null)}
+                      onDrop={(e) => onDrop(e, employee, date)}
+                      className={`h-16 border-l p-1 align-top ${dragOver === key ? 'bg-primary/10' : ''}`}
+                    >
+                      {assignment && (
+                        <div
+                          draggable={!disabled}
+                          onDragStart={(e) =>
+                            onDragStart(e, { kind: 'cell', employee_id: employee.user_id, shift_date: date })
+                          }
+                          className={`group relative cursor-grab rounded px-2 py-1 text-xs ${
+                            assignment.shift_id ? 'text-white' : 'border border-dashed text-muted-foreground'
+                          }`}
+                          style={assignment.shift_id ? { backgroundColor: assignment.shift_color || '#3b82f6' } : undefined}
+                          title={assignment.rotation_name ? `From rotation: ${assignment.rotation_name}` : undefined}
+                        >
+                          <div className="flex items-center gap-1 font-medium">
+                            {assignment.is_night_shift && <Moon className="h-3 w-3" />}
+                            {assignment.shift_id ? assignment.shift_code || assignment.shift_name : 'Off'}
+                          </div>
+                          {assignment.shift_id && assignment.start_time && assignment.end_time && (
+                            <div className="opacity-90">
+                              {assignment.start_time.slice(0, 5)}–{assignment.end_time.slice(0, 5)}
+                            </div>
+                          )}
+                          {!disabled && (
+                            <button
+                              type="button"
+                              className="absolute right-1 top-1 hidden group-hover:block"
+                              onClick={() => onChange([{ employee_id: employee.user_id, shift_date: date, clear: true }])}
+                            >
+                              <X className="h-3 w-3" />
+                            </button>
+                          )}
+                        </div>
+                      )}
+                      {renderAttendance(attendanceMap.get(key))}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <p className="text-xs text-muted-foreground">Days left empty fall back to the default shift at clock-in</p>
+    </div>
+  );
+};
@@ -0,0 +1,188 @@
+/**
+ * Shift Form Dialog
+ * Shift timings, break, grace periods for late-in and early-out, and the overtime threshold
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Separator } from '@/components/ui/separator';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, Moon } from 'lucide-react';
+import { saveShift, type Shift, type ShiftInput } from '@/services/api/shift-service';
+
+interface ShiftFormDialogProps {
+  open: boolean;
+  shift: Shift | null;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+const defaultShift = (): ShiftInput => ({
+  name: '',
+  code: '',
+  start_time: '09:00',
+  end_time: '18:00',
+  break_minutes: 60,
+  grace_minutes: 10,
+  early_exit_grace_minutes: 10,
+  overtime_threshold_minutes: 30,
+  color: '#3b82f6',
+  is_default: false,
+  is_active: true,
+});
+
+export const ShiftFormDialog: React.FC<ShiftFormDialogProps> = ({ open, shift, onOpenChange, onSaved }) => {
+  const { toast } = useToast();
+  const [form, setForm] = useState<ShiftInput>(defaultShift());
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    if (shift) {
+      const { id: _id, is_night_shift: _night, created_at: _created, updated_at: _updated, ...rest } = shift;
+      setForm({ ...rest, start_time: rest.start_time.slice(0, 5), end_time: rest.end_time.slice(0, 5) });
+    } else {
+      setForm(defaultShift());
+    }
+  }, [open, shift]);
+
+  const update = (changes: Partial<ShiftInput>) => setForm((prev) => ({ ...prev, ...changes }));
+
+  const isNightShift = !!form.start_time && !!form.end_time && form.end_time <= form.start_time;
+
+  const handleSave = async () => {
+    if (!form.name.trim() || !form.start_time || !form.end_time) {
+      toast({ title: 'Error', description: 'Name, start time and end time are required', variant: 'destructive' });
+      return;
+    }
+    try {
+      setSaving(true);
+      await saveShift(form, shift?.id);
+      toast({ title: 'Success', description: shift ? 'Shift updated' : 'Shift created' });
+      onOpenChange(false);
+      onSaved();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save shift',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{shift ? 'Edit Shift' : 'New Shift'}</DialogTitle>
+          <DialogDescription>Times are in the agency timezone</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          <div className="grid grid-cols-[1fr_100px_60px] gap-4">
+            <div className="grid gap-2">
+              <Label>Name *</Label>
+              <Input value={form.name} onChange={(e) => update({ name: e.target.value })} placeholder="e.g. Morning" />
+            </div>
+            <div className="grid gap-2">
+              <Label>Code</Label>
+              <Input value={form.code || ''} onChange={(e) => update({ code: e.target.value })} placeholder="M" maxLength={4} />
+            </div>
+            <div className="grid gap-2">
+              <Label>Color</Label>
+              <Input type="color" className="p-1" value={form.color} onChange={(e) => update({ color: e.target.value })} />
+            </div>
+          </div>
+          <div className="grid grid-cols-3 gap-4">
+            <div className="grid gap-2">
+              <Label>Start *</Label>
+              <Input type="time" value={form.start_time} onChange={(e) => update({ start_time: e.target.value })} />
+            </div>
+            <div className="grid gap-2">
+              <Label>End *</Label>
+              <Input type="time" value={form.end_time} onChange={(e) => update({ end_time: e.target.value })} />
+            </div>
+            <div className="grid gap-2">
+              <Label>Break (min)</Label>
+              <Input
+                type="number"
+                min="0"
+                value={form.break_minutes}
+                onChange={(e) => update({ break_minutes: parseInt(e.target.value, 10) || 0 })}
+              />
+            </div>
+          </div>
+          {isNightShift && (
+            <p className="flex items-center gap-1 text-xs text-muted-foreground">
+              <Moon className="h-3 w-3" />
+              Night shift: ends the next day, and attendance counts towards the day it started
+            </p>
+          )}
+
+          <Separator />
+          <div className="grid grid-cols-3 gap-4">
+            <div className="grid gap-2">
+              <Label>Late grace (min)</Label>
+              <Input
+                type="number"
+                min="0"
+                value={form.grace_minutes}
+                onChange={(e) => update({ grace_minutes: parseInt(e.target.value, 10) || 0 })}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label>Early-out grace (min)</Label>
+              <Input
+                type="number"
+                min="0"
+                value={form.early_exit_grace_minutes}
+                onChange={(e) => update({ early_exit_grace_minutes: parseInt(e.target.value, 10) || 0 })}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label>Overtime after (min)</Label>
+              <Input
+                type="number"
+                min="0"
+                value={form.overtime_threshold_minutes}
+                onChange={(e) => update({ overtime_threshold_minutes: parseInt(e.target.value, 10) || 0 })}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Overtime is time worked past the shift end, counted once it reaches the threshold
+          </p>
+
+          <Separator />
+          <div className="flex items-center justify-between">
+            <div>
+              <Label>Default shift</Label>
+              <p className="text-xs text-muted-foreground">Used for employees with no roster entry for the day</p>
+            </div>
+            <Switch checked={form.is_default} onCheckedChange={(checked) => update({ is_default: checked })} />
+          </div>
+          <div className="flex items-center justify-between">
+            <Label>Active</Label>
+            <Switch checked={form.is_active} onCheckedChange={(checked) => update({ is_active: checked })} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {shift ? 'Save Changes' : 'Create Shift'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
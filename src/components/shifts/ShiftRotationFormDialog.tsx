@@ -0,0 +1,181 @@
+/**
+ * Shift Rotation Form Dialog
+ * A repeating cycle of shifts and days off, e.g. four mornings, two nights and a rest day
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+import {
+  saveShiftRotation,
+  type Shift,
+  type ShiftRotation,
+  type ShiftRotationInput,
+} from '@/services/api/shift-service';
+
+interface ShiftRotationFormDialogProps {
+  open: boolean;
+  rotation: ShiftRotation | null;
+  shifts: Shift[];
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+const DAY_OFF = 'off';
+
+const defaultRotation = (): ShiftRotationInput => ({
+  name: '',
+  description: '',
+  pattern: [null, null, null, null, null, null, null],
+  is_active: true,
+});
+
+export const ShiftRotationFormDialog: React.FC<ShiftRotationFormDialogProps> = ({
+  open,
+  rotation,
+  shifts,
+  onOpenChange,
+  onSaved,
+}) => {
+  const { toast } = useToast();
+  const [form, setForm] = useState<ShiftRotationInput>(defaultRotation());
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    if (rotation) {
+      setForm({
+        name: rotation.name,
+        description: rotation.description,
+        pattern: rotation.pattern,
+        is_active: rotation.is_active,
+      });
+    } else {
+      setForm(defaultRotation());
+    }
+  }, [open, rotation]);
+
+  const setDay = (index: number, shiftId: string | null) =>
+    setForm((prev) => ({ ...prev, pattern: prev.pattern.map((day, i) => (i === index ? shiftId : day)) }));
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      toast({ title: 'Error', description: 'Rotation name is required', variant: 'destructive' });
+      return;
+    }
+    try {
+      setSaving(true);
+      await saveShiftRotation(form, rotation?.id);
+      toast({ title: 'Success', description: rotation ? 'Rotation updated' : 'Rotation created' });
+      onOpenChange(false);
+      onSaved();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save shift rotation',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const activeShifts = shifts.filter((shift) => shift.is_active);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{rotation ? 'Edit Rotation' : 'New Rotation'}</DialogTitle>
+          <DialogDescription>The pattern repeats from the first day once the cycle ends</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          <div className="grid gap-2">
+            <Label>Name *</Label>
+            <Input
+              value={form.name}
+              onChange={(e) => setForm((prev) => ({ ...prev, name: e.target.value }))}
+              placeholder="e.g. 4 on, 2 nights, 1 off"
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label>Description</Label>
+            <Textarea
+              rows={2}
+              value={form.description || ''}
+              onChange={(e) => setForm((prev) => ({ ...prev, description: e.target.value }))}
+            />
+          </div>
+
+          <div className="grid gap-2">
+            <Label>Cycle ({form.pattern.length} days)</Label>
+            {form.pattern.map((shiftId, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <span className="w-14 text-sm text-muted-foreground">Day {index + 1}</span>
+                <Select
+                  value={shiftId || DAY_OFF}
+                  onValueChange={(value) => setDay(index, value === DAY_OFF ? null : value)}
+                >
+                  <SelectTrigger className="flex-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={DAY_OFF}>Day off</SelectItem>
+                    {activeShifts.map((shift) => (
+                      <SelectItem key={shift.id} value={shift.id}>
+                        {shift.name} ({shift.start_time.slice(0, 5)}–{shift.end_time.slice(0, 5)})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  disabled={form.pattern.length <= 1}
+                  onClick={() => setForm((prev) => ({ ...prev, pattern: prev.pattern.filter((_, i) => i !== index) }))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              className="w-fit"
+              onClick={() => setForm((prev) => ({ ...prev, pattern: [...prev.pattern, null] }))}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Add Day
+            </Button>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label>Active</Label>
+            <Switch
+              checked={form.is_active}
+              onCheckedChange={(checked) => setForm((prev) => ({ ...prev, is_active: checked }))}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {rotation ? 'Save Changes' : 'Create Rotation'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
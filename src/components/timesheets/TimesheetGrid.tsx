@@ -0,0 +1,199 @@
+/**
+ * Timesheet Grid
+ * Task-by-day hours for one week with row and day totals; rows are added from the employee's open tasks
+ */
+
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Plus, X } from 'lucide-react';
+import type { TimesheetRow, TimesheetTaskOption } from '@/services/api/timesheet-service';
+
+interface TimesheetGridProps {
+  dates: string[];
+  rows: TimesheetRow[];
+  tasks?: TimesheetTaskOption[];
+  editable?: boolean;
+  onChange?: (rows: TimesheetRow[]) => void;
+}
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { weekday: 'short', day: 'numeric' });
+
+const rowKey = (row: Pick<TimesheetRow, 'task_id' | 'billable'>) => `${row.task_id}|${row.billable}`;
+
+const rowTotal = (row: TimesheetRow) => Object.values(row.hours).reduce((sum, hours) => sum + (Number(hours) || 0), 0);
+
+const formatHours = (hours: number) => (Math.round(hours * 100) / 100).toString();
+
+export const TimesheetGrid: React.FC<TimesheetGridProps> = ({ dates, rows, tasks = [], editable = false, onChange }) => {
+  const [newTaskId, setNewTaskId] = useState('');
+
+  const update = (next: TimesheetRow[]) => onChange?.(next);
+
+  const setHours = (index: number, date: string, value: string) => {
+    const hours = value === '' ? 0 : Math.max(0, parseFloat(value) || 0);
+    update(rows.map((row, i) => (i === index ? { ...row, hours: { ...row.hours, [date]: hours } } : row)));
+  };
+
+  const setBillable = (index: number, billable: boolean) => {
+    const changed = { ...rows[index], billable };
+    // Merge into an existing row for the same task and billable flag
+    const duplicate = rows.findIndex((row, i) => i !== index && rowKey(row) === rowKey(changed));
+    if (duplicate === -1) {
+      update(rows.map((row, i) => (i === index ? changed : row)));
+      return;
+    }
+    const merged = { ...rows[duplicate], hours: { ...rows[duplicate].hours } };
+    for (const [date, hours] of Object.entries(changed.hours)) {
+      merged.hours[date] = (Number(merged.hours[date]) || 0) + (Number(hours) || 0);
+    }
+    update(rows.map((row, i) => (i === duplicate ? merged : row)).filter((_, i) => i !== index));
+  };
+
+  const addRow = () => {
+    const task = tasks.find((option) => option.task_id === newTaskId);
+    if (!task || rows.some((row) => rowKey(row) === rowKey({ task_id: task.task_id, billable: true }))) return;
+    update([...rows, { ...task, billable: true, hours: {} }]);
+    setNewTaskId('');
+  };
+
+  const dayTotal = (date: string) => rows.reduce((sum, row) => sum + (Number(row.hours[date]) || 0), 0);
+  const weekTotal = rows.reduce((sum, row) => sum + rowTotal(row), 0);
+  const availableTasks = tasks.filter((task) => !rows.some((row) => row.task_id === task.task_id && row.billable));
+
+  return (
+    <div className="space-y-3">
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="min-w-[220px]">Project / Task</TableHead>
+              <TableHead className="text-center">Billable</TableHead>
+              {dates.map((date) => (
+                <TableHead key={date} className="text-center min-w-[72px]">
+                  {formatDay(date)}
+                </TableHead>
+              ))}
+              <TableHead className="text-right">Total</TableHead>
+              {editable && <TableHead />}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={dates.length + (editable ? 4 : 3)} className="text-center py-6 text-muted-foreground">
+                  No time logged this week
+                </TableCell>
+              </TableRow>
+            ) : (
+              rows.map((row, index) => {
+                const rowEditable = editable && !row.invoiced;
+                return (
+                  <TableRow key={rowKey(row)}>
+                    <TableCell>
+                      <div className="font-medium">{row.task_title}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {row.project_name || 'No project'}
+                        {row.invoiced && (
+                          <Badge variant="outline" className="ml-2 text-xs">
+                            Invoiced
+                          </Badge>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-center">
+                      <Checkbox
+                        checked={row.billable}
+                        disabled={!rowEditable}
+                        onCheckedChange={(checked) => setBillable(index, checked === true)}
+                      />
+                    </TableCell>
+                    {dates.map((date) => (
+                      <TableCell key={date} className="p-1 text-center">
+                        {rowEditable ? (
+                          <Input
+                            type="number"
+                            min="0"
+                            max="24"
+                            step="0.25"
+                            className="h-8 w-16 text-center mx-auto"
+                            value={row.hours[date] ? row.hours[date] : ''}
+                            onChange={(e) => setHours(index, date, e.target.value)}
+                          />
+                        ) : (
+                          <span className={row.hours[date] ? '' : 'text-muted-foreground'}>
+                            {row.hours[date] ? formatHours(Number(row.hours[date])) : '-'}
+                          </span>
+                        )}
+                      </TableCell>
+                    ))}
+                    <TableCell className="text-right font-medium">{formatHours(rowTotal(row))}</TableCell>
+                    {editable && (
+                      <TableCell>
+                        {rowEditable && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            title="Remove row"
+                            onClick={() => update(rows.filter((_, i) => i !== index))}
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    )}
+                  </TableRow>
+                );
+              })
+            )}
+          </TableBody>
+          <TableFooter>
+            <TableRow>
+              <TableCell colSpan={2} className="font-medium">
+                Daily total
+              </TableCell>
+              {dates.map((date) => {
+                const total = dayTotal(date);
+                return (
+                  <TableCell key={date} className={`text-center font-medium ${total > 24 ? 'text-red-600' : ''}`}>
+                    {formatHours(total)}
+                  </TableCell>
+                );
+              })}
+              <TableCell className="text-right font-bold">{formatHours(weekTotal)}</TableCell>
+              {editable && <TableCell />}
+            </TableRow>
+          </TableFooter>
+        </Table>
+      </div>
+
+      {editable && (
+        <div className="flex items-center gap-2">
+          <Select value={newTaskId} onValueChange={setNewTaskId}>
+            <SelectTrigger className="w-[360px]">
+              <SelectValue placeholder={availableTasks.length ? 'Add a task...' : 'No more open tasks assigned to you'} />
+            </SelectTrigger>
+            <SelectContent>
+              {availableTasks.map((task) => (
+                <SelectItem key={task.task_id} value={task.task_id}>
+                  {task.project_name ? `${task.project_name} · ` : ''}
+                  {task.task_title}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={addRow} disabled={!newTaskId}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Row
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
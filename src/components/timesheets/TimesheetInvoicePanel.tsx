@@ -0,0 +1,198 @@
+/**
+ * Timesheet Invoice Panel
+ * Previews a project's approved billable hours for a period and raises them as a draft client invoice
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { AlertTriangle, FileText, Loader2, Search } from 'lucide-react';
+import { getProjectsForSelectionAuto, type ProjectOption } from '@/services/api/project-selector-service';
+import {
+  createTimesheetInvoiceDraft,
+  getBillableSummary,
+  type BillableSummary,
+} from '@/services/api/timesheet-service';
+
+const toDateString = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const TimesheetInvoicePanel: React.FC = () => {
+  const { toast } = useToast();
+  const { user, profile } = useAuth();
+  const [projects, setProjects] = useState<ProjectOption[]>([]);
+  const [projectId, setProjectId] = useState('');
+  const [startDate, setStartDate] = useState(() => {
+    const now = new Date();
+    return toDateString(new Date(now.getFullYear(), now.getMonth() - 1, 1));
+  });
+  const [endDate, setEndDate] = useState(() => {
+    const now = new Date();
+    return toDateString(new Date(now.getFullYear(), now.getMonth(), 0));
+  });
+  const [summary, setSummary] = useState<BillableSummary | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [creating, setCreating] = useState(false);
+
+  useEffect(() => {
+    getProjectsForSelectionAuto(profile, user?.id, { includeInactive: true })
+      .then((data) => setProjects(data.filter((project) => project.client_id)))
+      .catch((error) => console.error('Error fetching projects:', error));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user?.id]);
+
+  useEffect(() => {
+    setSummary(null);
+  }, [projectId, startDate, endDate]);
+
+  const project = projects.find((option) => option.id === projectId);
+  const formatAmount = (amount: number) =>
+    new Intl.NumberFormat('en-US', { style: 'currency', currency: project?.currency || 'USD' }).format(amount);
+
+  const handlePreview = async () => {
+    try {
+      setLoading(true);
+      setSummary(await getBillableSummary({ project_id: projectId, start_date: startDate, end_date: endDate }));
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to fetch billable hours',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    try {
+      setCreating(true);
+      const result = await createTimesheetInvoiceDraft({ project_id: projectId, start_date: startDate, end_date: endDate });
+      toast({
+        title: 'Draft invoice created',
+        description: `${result.invoice.invoice_number} for ${result.hours}h · ${formatAmount(result.invoice.total_amount)}`,
+      });
+      await handlePreview();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to create invoice draft',
+        variant: 'destructive',
+      });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-[1fr_160px_160px_auto] items-end gap-3">
+        <div className="grid gap-2">
+          <Label>Project</Label>
+          <Select value={projectId} onValueChange={setProjectId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select a client project" />
+            </SelectTrigger>
+            <SelectContent>
+              {projects.map((option) => (
+                <SelectItem key={option.id} value={option.id}>
+                  {option.name}
+                  {option.client_company_name || option.client_name ? ` · ${option.client_company_name || option.client_name}` : ''}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="grid gap-2">
+          <Label>From</Label>
+          <Input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+        </div>
+        <div className="grid gap-2">
+          <Label>To</Label>
+          <Input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+        </div>
+        <Button variant="outline" onClick={handlePreview} disabled={!projectId || loading}>
+          {loading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Search className="h-4 w-4 mr-2" />}
+          Preview
+        </Button>
+      </div>
+
+      {summary && (
+        <>
+          {summary.unapproved_hours > 0 && (
+            <Alert>
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                {summary.unapproved_hours}h of billable time in this period is on timesheets that are not approved yet and
+                will not be invoiced
+              </AlertDescription>
+            </Alert>
+          )}
+          {summary.missing_rates.length > 0 && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                No hourly rate for {summary.missing_rates.join(', ')}. Set it on the project team before invoicing.
+              </AlertDescription>
+            </Alert>
+          )}
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Employee</TableHead>
+                <TableHead className="text-right">Hours</TableHead>
+                <TableHead className="text-right">Rate</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {summary.lines.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center py-6 text-muted-foreground">
+                    No approved billable hours left to invoice in this period
+                  </TableCell>
+                </TableRow>
+              ) : (
+                summary.lines.map((line) => (
+                  <TableRow key={`${line.employee_id}|${line.hourly_rate}`}>
+                    <TableCell>{line.employee_name}</TableCell>
+                    <TableCell className="text-right">{line.hours}</TableCell>
+                    <TableCell className="text-right">
+                      {line.hourly_rate === null ? '-' : formatAmount(line.hourly_rate)}
+                    </TableCell>
+                    <TableCell className="text-right">{line.hourly_rate === null ? '-' : formatAmount(line.amount)}</TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+            {summary.lines.length > 0 && (
+              <TableFooter>
+                <TableRow>
+                  <TableCell className="font-medium">Total</TableCell>
+                  <TableCell className="text-right font-medium">{summary.total_hours}</TableCell>
+                  <TableCell />
+                  <TableCell className="text-right font-bold">{formatAmount(summary.total_amount)}</TableCell>
+                </TableRow>
+              </TableFooter>
+            )}
+          </Table>
+          <div className="flex justify-end">
+            <Button
+              onClick={handleCreate}
+              disabled={creating || summary.lines.length === 0 || summary.missing_rates.length > 0}
+            >
+              {creating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileText className="h-4 w-4 mr-2" />}
+              Create Draft Invoice
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,121 @@
+/**
+ * Timesheet Review Dialog
+ * Shows a submitted week to its approver, who approves it or sends it back with comments
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { CheckCircle, Loader2, XCircle } from 'lucide-react';
+import { updateWorkflowApproval } from '@/services/api/workflow-service';
+import { getTimesheetDetail, type Timesheet, type TimesheetWeek } from '@/services/api/timesheet-service';
+import { TimesheetGrid } from './TimesheetGrid';
+
+interface TimesheetReviewDialogProps {
+  timesheet: Timesheet | null;
+  onOpenChange: (open: boolean) => void;
+  onDecided: () => void;
+}
+
+export const TimesheetReviewDialog: React.FC<TimesheetReviewDialogProps> = ({ timesheet, onOpenChange, onDecided }) => {
+  const { toast } = useToast();
+  const [week, setWeek] = useState<TimesheetWeek | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [comments, setComments] = useState('');
+  const [deciding, setDeciding] = useState<'approved' | 'rejected' | null>(null);
+
+  useEffect(() => {
+    if (!timesheet) return;
+    setWeek(null);
+    setComments('');
+    setLoading(true);
+    getTimesheetDetail(timesheet.id)
+      .then(setWeek)
+      .catch((error) =>
+        toast({
+          title: 'Error',
+          description: error instanceof Error ? error.message : 'Failed to fetch timesheet',
+          variant: 'destructive',
+        })
+      )
+      .finally(() => setLoading(false));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [timesheet]);
+
+  const handleDecision = async (status: 'approved' | 'rejected') => {
+    if (!timesheet?.my_approval_id) return;
+    if (status === 'rejected' && !comments.trim()) {
+      toast({ title: 'Error', description: 'Say what needs correcting when sending a timesheet back', variant: 'destructive' });
+      return;
+    }
+    try {
+      setDeciding(status);
+      await updateWorkflowApproval(timesheet.my_approval_id, { status, comments: comments.trim() || undefined });
+      toast({ title: 'Success', description: status === 'approved' ? 'Timesheet approved' : 'Timesheet sent back' });
+      onOpenChange(false);
+      onDecided();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update approval',
+        variant: 'destructive',
+      });
+    } finally {
+      setDeciding(null);
+    }
+  };
+
+  return (
+    <Dialog open={!!timesheet} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Review Timesheet</DialogTitle>
+          <DialogDescription>
+            {timesheet &&
+              `${timesheet.employee_name || 'Employee'} · week of ${timesheet.week_start} · ${Number(timesheet.total_hours)}h (${Number(timesheet.billable_hours)}h billable)`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading || !week ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <TimesheetGrid dates={week.dates} rows={week.rows} />
+        )}
+
+        {timesheet?.notes && (
+          <p className="text-sm">
+            <span className="font-medium">Employee notes:</span> {timesheet.notes}
+          </p>
+        )}
+        <div className="grid gap-2">
+          <Label>Comments</Label>
+          <Textarea
+            value={comments}
+            onChange={(e) => setComments(e.target.value)}
+            rows={2}
+            placeholder="Required when sending the timesheet back"
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          <Button variant="destructive" onClick={() => handleDecision('rejected')} disabled={!!deciding}>
+            {deciding === 'rejected' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <XCircle className="mr-2 h-4 w-4" />}
+            Reject
+          </Button>
+          <Button onClick={() => handleDecision('approved')} disabled={!!deciding}>
+            {deciding === 'approved' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <CheckCircle className="mr-2 h-4 w-4" />}
+            Approve
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -35,7 +35,9 @@ INSERT INTO public.page_catalog (path, title, description, icon, category, base_
 
 -- HR Management
 ('/attendance', 'Attendance', 'Attendance management (HR)', 'Clock', 'hr', 0, true, false),
+('/shift-roster', 'Shift Roster', 'Shifts, rotations and weekly rosters', 'Clock', 'hr', 0, true, false),
 ('/leave-requests', 'Leave Requests', 'Leave request management (HR)', 'ClipboardList', 'hr', 0, true, false),
+('/leave-policies', 'Leave Policies', 'Leave accrual policies, balances and year-end rollover', 'CalendarDays', 'hr', 0, true, false),
 ('/holiday-management', 'Holiday Management', 'Holiday calendar management', 'CalendarDays', 'hr', 0, true, false),
 ('/role-requests', 'Role Requests', 'Role change requests', 'UserCog', 'hr', 0, true, false),
 ('/calendar', 'Calendar', 'Calendar view', 'Calendar', 'hr', 0, true, false),
@@ -49,6 +51,7 @@ INSERT INTO public.page_catalog (path, title, description, icon, category, base_
 ('/ledger/create-entry', 'Create Journal Entry', 'Create journal entry', 'Plus', 'finance', 0, true, false),
 ('/financial-management', 'Financial Management', 'Financial management dashboard', 'Calculator', 'finance', 0, true, false),
 ('/gst-compliance', 'GST Compliance', 'GST compliance management', 'FileBarChart', 'finance', 0, true, false),
+('/budgets', 'Budgets', 'Budgets and budget-vs-actual variance', 'Target', 'finance', 0, true, false),
 ('/quotations', 'Quotations', 'Quotation management', 'FileCheck', 'finance', 0, true, false),
 ('/reimbursements', 'Reimbursements', 'Reimbursement requests', 'DollarSign', 'finance', 0, true, false),
 ('/jobs', 'Job Costing', 'Job costing', 'Target', 'projects', 0, true, false),
@@ -56,6 +59,8 @@ INSERT INTO public.page_catalog (path, title, description, icon, category, base_
 -- Personal Pages
 ('/my-profile', 'My Profile', 'User profile', 'User', 'personal', 0, true, false),
 ('/my-attendance', 'My Attendance', 'Personal attendance view', 'Clock', 'personal', 0, true, false),
+('/timesheets', 'Timesheets', 'Weekly timesheets and approvals', 'Clock', 'personal', 0, true, false),
+('/performance-reviews', 'Performance Reviews', 'Review cycles, goals, 360 feedback and calibration', 'TrendingUp', 'personal', 0, true, false),
 ('/my-leave', 'My Leave', 'Personal leave management', 'Calendar', 'personal', 0, true, false),
 
 -- Clients & CRM
@@ -99,6 +104,7 @@ INSERT INTO public.page_catalog (path, title, description, icon, category, base_
 ('/inventory/serial-batch', 'Serial & Batch Tracking', 'Serial numbers and batch tracking', 'Hash', 'inventory', 0, true, false),
 ('/inventory/warehouses', 'Warehouses', 'Warehouse management', 'Warehouse', 'inventory', 0, true, false),
 ('/inventory/stock-levels', 'Stock Levels', 'Stock levels and inventory tracking', 'TrendingUp', 'inventory', 0, true, false),
+('/inventory/stock-takes', 'Stock Takes', 'Physical stock-takes and cycle counts', 'ClipboardList', 'inventory', 0, true, false),
 ('/inventory/transfers', 'Transfers', 'Inter-warehouse inventory transfers', 'ArrowRightLeft', 'inventory', 0, true, false),
 ('/inventory/adjustments', 'Adjustments', 'Inventory adjustments and corrections', 'Edit', 'inventory', 0, true, false),
 ('/inventory/reports', 'Inventory Reports', 'Inventory reports and analytics', 'BarChart3', 'reports', 0, true, false),
@@ -109,6 +115,7 @@ INSERT INTO public.page_catalog (path, title, description, icon, category, base_
 ('/procurement/purchase-orders', 'Purchase Orders', 'Purchase order management', 'ShoppingBag', 'procurement', 0, true, false),
 ('/procurement/requisitions', 'Requisitions', 'Purchase requisition management', 'FileText', 'procurement', 0, true, false),
 ('/procurement/goods-receipts', 'Goods Receipts', 'Goods receipt note (GRN) management', 'PackageCheck', 'procurement', 0, true, false),
+('/procurement/supplier-invoices', 'Supplier Invoices', 'Supplier invoices with three-way matching', 'Receipt', 'procurement', 0, true, false),
 ('/procurement/rfq', 'RFQ/RFP', 'RFQ/RFP management', 'FileSearch', 'procurement', 0, true, false),
 ('/procurement/vendor-contracts', 'Vendor Contracts', 'Vendor contracts management', 'FileText', 'procurement', 0, true, false),
 ('/procurement/vendor-performance', 'Vendor Performance', 'Vendor performance tracking', 'TrendingUp', 'procurement', 0, true, false),
@@ -120,6 +127,8 @@ INSERT INTO public.page_catalog (path, title, description, icon, category, base_
 ('/assets/categories', 'Asset Categories', 'Asset category management', 'FolderTree', 'assets', 0, true, false),
 ('/assets/locations', 'Asset Locations', 'Asset location management', 'MapPin', 'assets', 0, true, false),
 ('/assets/maintenance', 'Asset Maintenance', 'Asset maintenance tracking', 'Wrench', 'assets', 0, true, false),
+('/assets/maintenance-plans', 'Maintenance Plans', 'Preventive maintenance plans and recurring work orders', 'CalendarDays', 'assets', 0, true, false),
+('/assets/custody', 'Asset Custody', 'Asset check-out, check-in and overdue returns', 'ClipboardList', 'assets', 0, true, false),
 ('/assets/depreciation', 'Asset Depreciation', 'Asset depreciation tracking', 'TrendingDown', 'assets', 0, true, false),
 ('/assets/disposals', 'Asset Disposals', 'Asset disposal management', 'Trash2', 'assets', 0, true, false),
 ('/assets/reports', 'Asset Reports', 'Asset reports and analytics', 'BarChart3', 'reports', 0, true, false),
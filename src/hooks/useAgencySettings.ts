@@ -28,7 +28,7 @@ const DEFAULT_SETTINGS: Omit<AgencySettings, 'id' | 'agency_id' | 'created_at' |
   agency_name: '',
   logo_url: null,
   domain: null,
-  default_currency: 'IN',
+  default_currency: 'INR',
   primary_color: '#3b82f6',
   secondary_color: '#1e40af',
   timezone: 'Asia/Kolkata',
@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react';
 import { useAgencySettings } from './useAgencySettings';
+import { getCurrencies } from '@/services/api/financial-service';
 
 interface CurrencyInfo {
   code: string;
@@ -8,66 +9,98 @@ interface CurrencyInfo {
   rate: number; // Conversion rate from USD
 }
 
-const currencies: Record<string, CurrencyInfo> = {
-  IN: { code: 'INR', symbol: '₹', name: 'Indian Rupee', rate: 83 },
-  US: { code: 'USD', symbol: '$', name: 'US Dollar', rate: 1 },
-  GB: { code: 'GBP', symbol: '£', name: 'British Pound', rate: 0.79 },
-  EU: { code: 'EUR', symbol: '€', name: 'Euro', rate: 0.92 },
-  CA: { code: 'CAD', symbol: 'C$', name: 'Canadian Dollar', rate: 1.35 },
-  AU: { code: 'AUD', symbol: 'A$', name: 'Australian Dollar', rate: 1.52 },
-  SG: { code: 'SGD', symbol: 'S$', name: 'Singapore Dollar', rate: 1.34 },
-  AE: { code: 'AED', symbol: 'د.إ', name: 'UAE Dirham', rate: 3.67 },
-  default: { code: 'INR', symbol: '₹', name: 'Indian Rupee', rate: 83 } // Default to INR
+// Used until the agency's own rates load, and on public pages without a session
+const fallbackCurrencies: Record<string, CurrencyInfo> = {
+  INR: { code: 'INR', symbol: '₹', name: 'Indian Rupee', rate: 83 },
+  USD: { code: 'USD', symbol: '$', name: 'US Dollar', rate: 1 },
+  GBP: { code: 'GBP', symbol: '£', name: 'British Pound', rate: 0.79 },
+  EUR: { code: 'EUR', symbol: '€', name: 'Euro', rate: 0.92 },
+  CAD: { code: 'CAD', symbol: 'C$', name: 'Canadian Dollar', rate: 1.35 },
+  AUD: { code: 'AUD', symbol: 'A$', name: 'Australian Dollar', rate: 1.52 },
+  SGD: { code: 'SGD', symbol: 'S$', name: 'Singapore Dollar', rate: 1.34 },
+  AED: { code: 'AED', symbol: 'د.إ', name: 'UAE Dirham', rate: 3.67 },
+};
+
+const DEFAULT_CURRENCY = 'INR';
+
+// Country keys were stored as the default currency before settings used ISO codes
+const COUNTRY_CURRENCIES: Record<string, string> = {
+  IN: 'INR', US: 'USD', GB: 'GBP', EU: 'EUR', CA: 'CAD', AU: 'AUD', SG: 'SGD', AE: 'AED',
+};
+
+const EURO_COUNTRIES = ['DE', 'FR', 'IT', 'ES', 'NL', 'BE', 'AT', 'PT', 'IE', 'FI', 'EE', 'LV', 'LT', 'SK', 'SI', 'MT', 'CY', 'LU'];
+
+export const resolveCurrencyCode = (value?: string | null): string | null => {
+  if (!value) return null;
+  const code = value.trim().toUpperCase();
+  return COUNTRY_CURRENCIES[code] || code;
+};
+
+/**
+ * Guess a visitor's currency from the browser locale region (en-IN, de-DE, ...)
+ */
+const detectLocaleCurrency = (): string | null => {
+  if (typeof navigator === 'undefined') return null;
+  const locales = navigator.languages?.length ? navigator.languages : [navigator.language];
+  for (const locale of locales) {
+    const region = locale?.split('-')[1]?.toUpperCase();
+    if (!region) continue;
+    if (EURO_COUNTRIES.includes(region)) return 'EUR';
+    if (COUNTRY_CURRENCIES[region]) return COUNTRY_CURRENCIES[region];
+  }
+  return null;
 };
 
 export const useCurrency = () => {
   const { settings: agencySettings } = useAgencySettings();
-  const [currency, setCurrency] = useState<CurrencyInfo>(currencies.default);
+  const [availableCurrencies, setAvailableCurrencies] = useState<Record<string, CurrencyInfo>>(fallbackCurrencies);
+  const [currency, setCurrency] = useState<CurrencyInfo>(fallbackCurrencies[DEFAULT_CURRENCY]);
   const [loading, setLoading] = useState(true);
 
+  // Agency rates are relative to the base currency; re-anchor them on USD for pricing
   useEffect(() => {
-    const detectCurrency = async () => {
+    if (!localStorage.getItem('auth_token')) return;
+
+    const loadAgencyRates = async () => {
       try {
-        // First, try to get admin-configured currency from agency settings
-        if (agencySettings?.default_currency || agencySettings?.currency) {
-          const currencyCode = agencySettings.default_currency || agencySettings.currency;
-          if (currencyCode && currencies[currencyCode]) {
-            setCurrency(currencies[currencyCode]);
-            setLoading(false);
-            return;
-          }
-        }
-
-        // Fallback to IP geolocation detection
-        try {
-          const response = await fetch('https://ipapi.co/json/');
-          if (response.ok) {
-            const data = await response.json();
-            const countryCode = data.country_code;
-            
-            // Map some common European countries to EU
-            const europeanCountries = ['DE', 'FR', 'IT', 'ES', 'NL', 'BE', 'AT', 'PT', 'IE', 'FI', 'EE', 'LV', 'LT', 'SK', 'SI', 'MT', 'CY', 'LU'];
-            const mappedCode = europeanCountries.includes(countryCode) ? 'EU' : countryCode;
-            
-            const detectedCurrency = currencies[mappedCode] || currencies.default;
-            setCurrency(detectedCurrency);
-          } else {
-            // Final fallback to default currency (INR)
-            setCurrency(currencies.default);
+        const rows = await getCurrencies();
+        const unitsPerBase = (row: (typeof rows)[number]) =>
+          Number(row.latest_rate) > 0 ? 1 / Number(row.latest_rate) : Number(row.exchange_rate) || 0;
+        const usd = rows.find((row) => row.code === 'USD');
+        const usdPerBase = usd ? unitsPerBase(usd) : 0;
+
+        setAvailableCurrencies((prev) => {
+          const merged = { ...prev };
+          for (const row of rows) {
+            const perBase = unitsPerBase(row);
+            const known = prev[row.code];
+            merged[row.code] = {
+              code: row.code,
+              symbol: row.symbol || known?.symbol || row.code,
+              name: known?.name || row.name || row.code,
+              rate: usdPerBase > 0 && perBase > 0 ? perBase / usdPerBase : known?.rate || 0,
+            };
           }
-        } catch {
-          // Final fallback to default currency (INR)
-          setCurrency(currencies.default);
-        }
+          // Drop currencies we have no usable rate for
+          return Object.fromEntries(Object.entries(merged).filter(([, info]) => info.rate > 0));
+        });
       } catch (error) {
-        setCurrency(currencies.default);
-      } finally {
-        setLoading(false);
+        console.warn('Could not load agency exchange rates, using defaults:', error);
       }
     };
 
-    detectCurrency();
-  }, [agencySettings?.default_currency, agencySettings?.currency]);
+    loadAgencyRates();
+  }, []);
+
+  useEffect(() => {
+    // Admin-configured currency first, then the browser locale
+    const configured = resolveCurrencyCode(agencySettings?.default_currency || agencySettings?.currency);
+    const code = configured && availableCurrencies[configured]
+      ? configured
+      : detectLocaleCurrency() || DEFAULT_CURRENCY;
+    setCurrency(availableCurrencies[code] || availableCurrencies[DEFAULT_CURRENCY] || fallbackCurrencies[DEFAULT_CURRENCY]);
+    setLoading(false);
+  }, [agencySettings?.default_currency, agencySettings?.currency, availableCurrencies]);
 
   const convertPrice = (usdPrice: number): number => {
     return Math.round(usdPrice * currency.rate);
@@ -75,7 +108,7 @@ export const useCurrency = () => {
 
   const formatPrice = (usdPrice: number): string => {
     const convertedPrice = convertPrice(usdPrice);
-    
+
     // Format based on currency
     if (currency.code === 'INR') {
       // Indian number formatting (lakhs/crores)
@@ -85,9 +118,9 @@ export const useCurrency = () => {
     }
   };
 
-  const changeCurrency = (countryCode: string) => {
-    const newCurrency = currencies[countryCode] || currencies.default;
-    setCurrency(newCurrency);
+  const changeCurrency = (currencyCode: string) => {
+    const code = resolveCurrencyCode(currencyCode) || DEFAULT_CURRENCY;
+    setCurrency(availableCurrencies[code] || fallbackCurrencies[DEFAULT_CURRENCY]);
   };
 
   return {
@@ -96,6 +129,6 @@ export const useCurrency = () => {
     convertPrice,
     formatPrice,
     changeCurrency,
-    availableCurrencies: currencies
+    availableCurrencies
   };
-};
\ No newline at end of file
+};
@@ -339,6 +339,8 @@ export interface LeaveRequest {
   start_date: string;
   end_date: string;
   total_days: number;
+  is_half_day?: boolean;
+  half_day_session?: 'first_half' | 'second_half' | null;
   reason: string;
   status: string;
   approved_by: string | null;
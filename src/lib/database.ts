@@ -441,9 +441,9 @@ async function handleRpcCall(functionName: string, params: Record<string, any>):
       }
       case 'get_leave_balance_summary': {
         // Get leave balance summary for user
-        const userId = params.p_user_id;
+        const userId = params.p_employee_id || params.p_user_id;
         const leaveBalances = await selectRecords('leave_balances', {
-          where: { user_id: userId }
+          where: { employee_id: userId, ...(params.p_year ? { year: params.p_year } : {}) }
         });
         return { data: leaveBalances, error: null };
       }
@@ -0,0 +1,234 @@
+/**
+ * Asset Custody Page
+ * Ledger of assets checked out to employees, projects and locations, with overdue returns
+ */
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { AlertCircle, ClipboardList, Loader2, LogIn, Search, User } from 'lucide-react';
+import { getCustodyRecords, type AssetCustodyRecord } from '@/services/api/asset-service';
+import { CheckInAssetDialog } from '@/components/assets/CheckInAssetDialog';
+
+const CUSTODIAN_LABELS: Record<AssetCustodyRecord['custodian_type'], string> = {
+  employee: 'Employee',
+  project: 'Project',
+  location: 'Location',
+};
+
+const formatDate = (date: string | null | undefined) =>
+  date ? new Date(`${date.split('T')[0]}T00:00:00`).toLocaleDateString() : '-';
+
+export default function AssetCustody() {
+  const { toast } = useToast();
+  const [initialLoad, setInitialLoad] = useState(true);
+  const [records, setRecords] = useState<AssetCustodyRecord[]>([]);
+  const [statusFilter, setStatusFilter] = useState<string>('checked_out');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [checkingIn, setCheckingIn] = useState<AssetCustodyRecord | null>(null);
+
+  const fetchRecords = async () => {
+    try {
+      const data = await getCustodyRecords({
+        status: statusFilter === 'all' || statusFilter === 'overdue' ? undefined : (statusFilter as AssetCustodyRecord['status']),
+        overdue: statusFilter === 'overdue',
+      });
+      setRecords(data || []);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to fetch custody records',
+        variant: 'destructive',
+      });
+    } finally {
+      setInitialLoad(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchRecords();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [statusFilter]);
+
+  const filteredRecords = records.filter((record) => {
+    if (!searchTerm) return true;
+    const term = searchTerm.toLowerCase();
+    return [record.asset_number, record.asset_name, record.custody_number, record.custodian_name, record.project_name, record.location_name]
+      .some((value) => value?.toLowerCase().includes(term));
+  });
+
+  const checkedOut = records.filter((record) => record.status === 'checked_out');
+  const overdue = checkedOut.filter((record) => record.is_overdue);
+  const withEmployees = checkedOut.filter((record) => record.custodian_type === 'employee').length;
+
+  if (initialLoad) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold">Asset Custody</h1>
+        <p className="text-muted-foreground mt-1">
+          Who holds each asset, when it is due back and the condition it was returned in
+        </p>
+      </div>
+
+      {/* Stats Cards */}
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Checked Out</CardTitle>
+            <ClipboardList className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{checkedOut.length}</div>
+            <p className="text-xs text-muted-foreground">In the current view</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Overdue Returns</CardTitle>
+            <AlertCircle className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-red-600">{overdue.length}</div>
+            <p className="text-xs text-muted-foreground">Past their expected return date</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">With Employees</CardTitle>
+            <User className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{withEmployees}</div>
+            <p className="text-xs text-muted-foreground">Listed in their offboarding check</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Custody Table */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Custody Records ({filteredRecords.length})</CardTitle>
+          <CardDescription>Check assets out from the Assets page; custodians are reminded when returns are overdue</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-col gap-4 md:flex-row">
+            <div className="relative flex-1">
+              <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search by asset, custody number or custodian..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-8"
+              />
+            </div>
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-[180px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="checked_out">Checked Out</SelectItem>
+                <SelectItem value="overdue">Overdue</SelectItem>
+                <SelectItem value="returned">Returned</SelectItem>
+                <SelectItem value="all">All</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {filteredRecords.length === 0 ? (
+            <Alert>
+              <AlertDescription>No custody records match this view.</AlertDescription>
+            </Alert>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Custody #</TableHead>
+                    <TableHead>Asset</TableHead>
+                    <TableHead>Custodian</TableHead>
+                    <TableHead>Checked Out</TableHead>
+                    <TableHead>Due Back</TableHead>
+                    <TableHead>Returned</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredRecords.map((record) => (
+                    <TableRow key={record.id}>
+                      <TableCell className="font-mono text-sm">{record.custody_number}</TableCell>
+                      <TableCell>
+                        <div className="font-mono text-sm">{record.asset_number}</div>
+                        <div className="text-sm text-muted-foreground">{record.asset_name}</div>
+                      </TableCell>
+                      <TableCell>
+                        <div>{record.custodian_name || record.project_name || record.location_name || '-'}</div>
+                        <div className="text-xs text-muted-foreground">{CUSTODIAN_LABELS[record.custodian_type]}</div>
+                      </TableCell>
+                      <TableCell>
+                        {formatDate(record.checked_out_at)}
+                        {record.checked_out_by_name && (
+                          <div className="text-xs text-muted-foreground">by {record.checked_out_by_name}</div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {formatDate(record.expected_return_date)}
+                        {record.reminder_count > 0 && record.status === 'checked_out' && (
+                          <div className="text-xs text-muted-foreground">{record.reminder_count} reminder(s) sent</div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {formatDate(record.checked_in_at)}
+                        {record.return_condition && (
+                          <div className="text-xs text-muted-foreground capitalize">{record.return_condition}</div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {record.status === 'returned' ? (
+                          <Badge variant="secondary">Returned</Badge>
+                        ) : record.is_overdue ? (
+                          <Badge variant="destructive">Overdue</Badge>
+                        ) : (
+                          <Badge>Checked Out</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {record.status === 'checked_out' && (
+                          <Button size="sm" variant="ghost" onClick={() => setCheckingIn(record)}>
+                            <LogIn className="mr-1 h-4 w-4" />
+                            Check In
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <CheckInAssetDialog
+        custody={checkingIn}
+        onOpenChange={(open) => !open && setCheckingIn(null)}
+        onCheckedIn={() => fetchRecords()}
+      />
+    </div>
+  );
+}
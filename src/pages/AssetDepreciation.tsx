@@ -22,6 +22,8 @@ import {
   CheckCircle2,
   XCircle,
   Calculator,
+  Play,
+  LineChart,
 } from 'lucide-react';
 import {
   getAllDepreciation,
@@ -29,7 +31,9 @@ import {
   updateDepreciation,
   deleteDepreciation,
   getAssets,
+  getDepreciationRuns,
   type DepreciationRecord,
+  type DepreciationRun,
   type Asset,
 } from '@/services/api/asset-service';
 import {
@@ -57,6 +61,8 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
+import { DepreciationRunDialog } from '@/components/assets/DepreciationRunDialog';
+import { DepreciationScheduleDialog } from '@/components/assets/DepreciationScheduleDialog';
 
 export default function AssetDepreciation() {
   const { toast } = useToast();
@@ -74,6 +80,9 @@ export default function AssetDepreciation() {
   const [isViewDialogOpen, setIsViewDialogOpen] = useState(false);
   const [selectedDepreciation, setSelectedDepreciation] = useState<DepreciationRecord | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [runs, setRuns] = useState<DepreciationRun[]>([]);
+  const [isRunDialogOpen, setIsRunDialogOpen] = useState(false);
+  const [scheduleAssetId, setScheduleAssetId] = useState<string | null>(null);
 
   // Form state
   const [formData, setFormData] = useState<Partial<DepreciationRecord>>({
@@ -95,6 +104,19 @@ export default function AssetDepreciation() {
     loadData();
   }, [filterAsset, filterPosted, filterMethod, dateFrom, dateTo]);
 
+  useEffect(() => {
+    loadRuns();
+  }, []);
+
+  const loadRuns = async () => {
+    try {
+      const data = await getDepreciationRuns();
+      setRuns(data);
+    } catch (error) {
+      console.error('Failed to load depreciation runs:', error);
+    }
+  };
+
   const loadAssets = async () => {
     try {
       setAssetsLoading(true);
@@ -244,10 +266,23 @@ export default function AssetDepreciation() {
           <h1 className="text-3xl font-bold">Asset Depreciation</h1>
           <p className="text-muted-foreground">Track and manage asset depreciation records</p>
         </div>
-        <Button onClick={handleCreate}>
-          <Plus className="mr-2 h-4 w-4" />
-          Create Depreciation
-        </Button>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={() => setScheduleAssetId(filterAsset !== 'all' ? filterAsset : '')}
+          >
+            <LineChart className="mr-2 h-4 w-4" />
+            Schedules
+          </Button>
+          <Button variant="outline" onClick={handleCreate}>
+            <Plus className="mr-2 h-4 w-4" />
+            Create Depreciation
+          </Button>
+          <Button onClick={() => setIsRunDialogOpen(true)}>
+            <Play className="mr-2 h-4 w-4" />
+            Run Depreciation
+          </Button>
+        </div>
       </div>
 
       {/* Statistics */}
@@ -292,6 +327,56 @@ export default function AssetDepreciation() {
         </Card>
       </div>
 
+      {/* Depreciation Runs */}
+      {runs.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Depreciation Runs</CardTitle>
+            <CardDescription>Monthly batches posted to the ledger</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Run</TableHead>
+                  <TableHead>Period</TableHead>
+                  <TableHead>Assets</TableHead>
+                  <TableHead>Total</TableHead>
+                  <TableHead>Journal Entry</TableHead>
+                  <TableHead>Posted</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {runs.slice(0, 6).map((run) => (
+                  <TableRow key={run.id}>
+                    <TableCell className="font-mono text-sm">{run.run_number}</TableCell>
+                    <TableCell>
+                      {new Date(run.period_start).toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}
+                    </TableCell>
+                    <TableCell>
+                      {run.asset_count}
+                      {run.skipped_count > 0 && (
+                        <span className="text-muted-foreground"> ({run.skipped_count} skipped)</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {Number(run.total_amount || 0).toLocaleString('en-IN', { style: 'currency', currency: 'INR' })}
+                    </TableCell>
+                    <TableCell className="font-mono text-sm">{run.journal_entry_number || '-'}</TableCell>
+                    <TableCell>
+                      <div>{new Date(run.created_at).toLocaleDateString()}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {run.trigger_type === 'scheduled' ? 'Scheduled' : run.run_by_email || 'Manual'}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Filters */}
       <Card>
         <CardHeader>
@@ -466,6 +551,13 @@ export default function AssetDepreciation() {
                         >
                           <Eye className="h-4 w-4" />
                         </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setScheduleAssetId(record.asset_id)}
+                        >
+                          <LineChart className="h-4 w-4" />
+                        </Button>
                         {!record.is_posted && (
                           <>
                             <Button
@@ -820,6 +912,21 @@ export default function AssetDepreciation() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <DepreciationRunDialog
+        open={isRunDialogOpen}
+        onOpenChange={setIsRunDialogOpen}
+        onPosted={() => {
+          loadRuns();
+          loadData();
+        }}
+      />
+      <DepreciationScheduleDialog
+        open={scheduleAssetId !== null}
+        onOpenChange={(open) => !open && setScheduleAssetId(null)}
+        assets={assets}
+        assetId={scheduleAssetId || undefined}
+      />
     </div>
   );
 }
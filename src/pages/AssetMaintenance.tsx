@@ -58,6 +58,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
+import { CompleteWorkOrderDialog } from '@/components/assets/CompleteWorkOrderDialog';
 
 export default function AssetMaintenance() {
   const { toast } = useToast();
@@ -73,6 +74,7 @@ export default function AssetMaintenance() {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [isViewDialogOpen, setIsViewDialogOpen] = useState(false);
   const [selectedMaintenance, setSelectedMaintenance] = useState<MaintenanceRecord | null>(null);
+  const [completingOrder, setCompletingOrder] = useState<MaintenanceRecord | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   // Form state
@@ -466,7 +468,12 @@ export default function AssetMaintenance() {
               <TableBody>
                 {maintenance.map((record) => (
                   <TableRow key={record.id}>
-                    <TableCell className="font-medium">{record.title}</TableCell>
+                    <TableCell>
+                      <div className="font-medium">{record.title}</div>
+                      {record.plan_title && (
+                        <div className="text-xs text-muted-foreground">Plan: {record.plan_title}</div>
+                      )}
+                    </TableCell>
                     <TableCell>
                       {record.asset_name ? (
                         <div>
@@ -493,9 +500,9 @@ export default function AssetMaintenance() {
                         : '-'}
                     </TableCell>
                     <TableCell>
-                      {record.technician ? (
+                      {record.assigned_to_name || record.technician ? (
                         <div className="text-sm">
-                          <div>{record.technician}</div>
+                          <div>{record.assigned_to_name || record.technician}</div>
                           {record.technician_contact && (
                             <div className="text-muted-foreground">{record.technician_contact}</div>
                           )}
@@ -506,6 +513,16 @@ export default function AssetMaintenance() {
                     </TableCell>
                     <TableCell className="text-right">
                       <div className="flex justify-end gap-2">
+                        {!['completed', 'cancelled'].includes(record.status) && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setCompletingOrder(record)}
+                            title="Complete work order"
+                          >
+                            <CheckCircle2 className="h-4 w-4" />
+                          </Button>
+                        )}
                         <Button
                           variant="ghost"
                           size="sm"
@@ -866,6 +883,43 @@ export default function AssetMaintenance() {
                     </div>
                   </div>
                 )}
+                {selectedMaintenance.plan_title && (
+                  <div>
+                    <Label>Maintenance Plan</Label>
+                    <div className="mt-1">{selectedMaintenance.plan_title}</div>
+                  </div>
+                )}
+                {selectedMaintenance.assigned_to_name && (
+                  <div>
+                    <Label>Assigned To</Label>
+                    <div className="mt-1">
+                      {selectedMaintenance.assigned_to_name}
+                      {!!selectedMaintenance.escalation_level && (
+                        <Badge variant="destructive" className="ml-2">
+                          {selectedMaintenance.escalation_level > 1 ? 'Escalated' : 'Overdue notice sent'}
+                        </Badge>
+                      )}
+                    </div>
+                  </div>
+                )}
+                {Number(selectedMaintenance.parts_cost) > 0 && (
+                  <div>
+                    <Label>Parts Cost (from stock)</Label>
+                    <div className="mt-1">
+                      $
+                      {Number(selectedMaintenance.parts_cost).toLocaleString('en-US', {
+                        minimumFractionDigits: 2,
+                        maximumFractionDigits: 2,
+                      })}
+                    </div>
+                  </div>
+                )}
+                {selectedMaintenance.usage_reading !== null && selectedMaintenance.usage_reading !== undefined && (
+                  <div>
+                    <Label>Meter Reading</Label>
+                    <div className="mt-1">{selectedMaintenance.usage_reading}</div>
+                  </div>
+                )}
                 {selectedMaintenance.labor_hours && (
                   <div>
                     <Label>Labor Hours</Label>
@@ -925,6 +979,12 @@ export default function AssetMaintenance() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <CompleteWorkOrderDialog
+        order={completingOrder}
+        onOpenChange={(open) => !open && setCompletingOrder(null)}
+        onCompleted={() => loadData()}
+      />
     </div>
   );
 }
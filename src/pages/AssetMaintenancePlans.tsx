@@ -0,0 +1,399 @@
+/**
+ * Asset Maintenance Plans Page
+ * Preventive maintenance plans that raise recurring work orders ahead of their due dates
+ */
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { CalendarDays, ClipboardList, Edit, Eye, Loader2, Plus, RefreshCw, Trash2, Wrench } from 'lucide-react';
+import {
+  deleteMaintenancePlan,
+  generateMaintenanceWorkOrders,
+  getAssetCategories,
+  getAssets,
+  getMaintenancePlan,
+  getMaintenancePlans,
+  type Asset,
+  type AssetCategory,
+  type MaintenancePlan,
+} from '@/services/api/asset-service';
+import { getProducts, type Product } from '@/services/api/inventory-service';
+import { MaintenancePlanForm } from '@/components/assets/MaintenancePlanForm';
+
+const FREQUENCY_LABELS: Record<string, string> = {
+  monthly: 'Monthly',
+  quarterly: 'Quarterly',
+  semi_annual: 'Every six months',
+  yearly: 'Yearly',
+};
+
+const describeTrigger = (plan: MaintenancePlan) => {
+  if (plan.trigger_type === 'usage') return `Every ${Number(plan.usage_interval)} usage units`;
+  if (plan.trigger_type === 'calendar') {
+    return `${FREQUENCY_LABELS[plan.calendar_frequency || 'monthly']} on day ${plan.calendar_day || 1}`;
+  }
+  return `Every ${plan.interval_days} days`;
+};
+
+const formatDate = (date: string | null | undefined) =>
+  date ? new Date(`${date.split('T')[0]}T00:00:00`).toLocaleDateString() : '-';
+
+export default function AssetMaintenancePlans() {
+  const { toast } = useToast();
+  const [initialLoad, setInitialLoad] = useState(true);
+  const [plans, setPlans] = useState<MaintenancePlan[]>([]);
+  const [assets, setAssets] = useState<Asset[]>([]);
+  const [categories, setCategories] = useState<AssetCategory[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [editingPlan, setEditingPlan] = useState<MaintenancePlan | null>(null);
+  const [viewingPlan, setViewingPlan] = useState<MaintenancePlan | null>(null);
+  const [generating, setGenerating] = useState(false);
+
+  const fetchPlans = async () => {
+    try {
+      const data = await getMaintenancePlans();
+      setPlans(data || []);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to fetch maintenance plans',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  useEffect(() => {
+    const loadData = async () => {
+      try {
+        setInitialLoad(true);
+        const [assetData, categoryData, productData] = await Promise.all([
+          getAssets(),
+          getAssetCategories(),
+          getProducts({ is_active: true }),
+          fetchPlans(),
+        ]);
+        setAssets((assetData || []).filter((asset) => !['disposed', 'written_off'].includes(asset.status)));
+        setCategories(categoryData || []);
+        setProducts(productData || []);
+      } catch (error) {
+        console.error('Error loading maintenance plan data:', error);
+        toast({
+          title: 'Error',
+          description: error instanceof Error ? error.message : 'Failed to load maintenance plans',
+          variant: 'destructive',
+        });
+      } finally {
+        setInitialLoad(false);
+      }
+    };
+    loadData();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const handleGenerate = async (planId?: string) => {
+    try {
+      setGenerating(true);
+      const result = await generateMaintenanceWorkOrders(planId);
+      toast({
+        title: 'Success',
+        description:
+          result.created > 0 ? `${result.created} work order(s) created` : 'No plans are due within their lead time',
+      });
+      fetchPlans();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to generate work orders',
+        variant: 'destructive',
+      });
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const handleView = async (plan: MaintenancePlan) => {
+    try {
+      setViewingPlan(await getMaintenancePlan(plan.id));
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to load maintenance plan',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDelete = async (plan: MaintenancePlan) => {
+    if (!confirm(`Are you sure you want to delete maintenance plan "${plan.title}"? Work orders not yet started are removed with it.`)) {
+      return;
+    }
+    try {
+      await deleteMaintenancePlan(plan.id);
+      toast({ title: 'Success', description: 'Maintenance plan deleted successfully' });
+      fetchPlans();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to delete maintenance plan',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const activePlans = plans.filter((plan) => plan.is_active);
+  const openOrders = plans.reduce((sum, plan) => sum + Number(plan.open_orders || 0), 0);
+  const categoryPlans = activePlans.filter((plan) => plan.category_id).length;
+
+  if (initialLoad) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Maintenance Plans</h1>
+          <p className="text-muted-foreground mt-1">
+            Recurring preventive maintenance by asset or category, raised as work orders before they fall due
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => handleGenerate()} disabled={generating}>
+            {generating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+            Generate Due Work Orders
+          </Button>
+          <Button
+            onClick={() => {
+              setEditingPlan(null);
+              setShowForm(true);
+            }}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            New Plan
+          </Button>
+        </div>
+      </div>
+
+      {/* Stats Cards */}
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Active Plans</CardTitle>
+            <CalendarDays className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{activePlans.length}</div>
+            <p className="text-xs text-muted-foreground">{plans.length - activePlans.length} inactive</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Open Work Orders</CardTitle>
+            <Wrench className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{openOrders}</div>
+            <p className="text-xs text-muted-foreground">Raised by plans and not yet completed</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Category Plans</CardTitle>
+            <ClipboardList className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{categoryPlans}</div>
+            <p className="text-xs text-muted-foreground">Cover every asset in a category</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Plans Table */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Plans ({plans.length})</CardTitle>
+          <CardDescription>Work orders are created daily when auto-scheduling is on in asset settings</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {plans.length === 0 ? (
+            <Alert>
+              <AlertDescription>No maintenance plans yet. Create one to schedule recurring preventive work.</AlertDescription>
+            </Alert>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Plan</TableHead>
+                    <TableHead>Applies To</TableHead>
+                    <TableHead>Schedule</TableHead>
+                    <TableHead>Technician</TableHead>
+                    <TableHead>Last Completed</TableHead>
+                    <TableHead className="text-right">Open Orders</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {plans.map((plan) => (
+                    <TableRow key={plan.id}>
+                      <TableCell>
+                        <div className="font-medium">{plan.title}</div>
+                        {plan.parts.length > 0 && (
+                          <div className="text-xs text-muted-foreground">{plan.parts.length} planned part(s)</div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {plan.asset_id ? (
+                          <>
+                            <div className="font-mono text-sm">{plan.asset_number}</div>
+                            <div className="text-sm text-muted-foreground">{plan.asset_name}</div>
+                          </>
+                        ) : (
+                          <>
+                            <div>{plan.category_name}</div>
+                            <div className="text-xs text-muted-foreground">Whole category</div>
+                          </>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {describeTrigger(plan)}
+                        <div className="text-xs text-muted-foreground">
+                          {plan.lead_days !== null ? `${plan.lead_days} days lead` : 'Default lead time'}
+                        </div>
+                      </TableCell>
+                      <TableCell>{plan.assigned_to_name || '-'}</TableCell>
+                      <TableCell>{formatDate(plan.last_completed_date)}</TableCell>
+                      <TableCell className="text-right">{plan.open_orders}</TableCell>
+                      <TableCell>
+                        <Badge variant={plan.is_active ? 'default' : 'secondary'}>
+                          {plan.is_active ? 'Active' : 'Inactive'}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-1">
+                          <Button size="sm" variant="ghost" onClick={() => handleView(plan)}>
+                            <Eye className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => handleGenerate(plan.id)}
+                            disabled={generating || !plan.is_active}
+                            title="Generate due work orders for this plan"
+                          >
+                            <RefreshCw className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => {
+                              setEditingPlan(plan);
+                              setShowForm(true);
+                            }}
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button size="sm" variant="ghost" onClick={() => handleDelete(plan)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <MaintenancePlanForm
+        open={showForm}
+        onOpenChange={setShowForm}
+        plan={editingPlan}
+        assets={assets}
+        categories={categories}
+        products={products}
+        onSaved={() => fetchPlans()}
+      />
+
+      <Dialog open={!!viewingPlan} onOpenChange={(open) => !open && setViewingPlan(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{viewingPlan?.title}</DialogTitle>
+            <DialogDescription>{viewingPlan && describeTrigger(viewingPlan)}</DialogDescription>
+          </DialogHeader>
+          {viewingPlan && (
+            <div className="space-y-4">
+              {viewingPlan.description && <p className="text-sm">{viewingPlan.description}</p>}
+              {viewingPlan.parts.length > 0 && (
+                <div className="text-sm">
+                  <span className="font-medium">Planned parts: </span>
+                  {viewingPlan.parts.map((part) => `${part.product_name} x ${Number(part.quantity)}`).join(', ')}
+                </div>
+              )}
+              {(viewingPlan.assets || []).length === 0 ? (
+                <Alert>
+                  <AlertDescription>No active assets are covered by this plan.</AlertDescription>
+                </Alert>
+              ) : (
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Asset</TableHead>
+                        <TableHead>Last Completed</TableHead>
+                        <TableHead>Next Due</TableHead>
+                        <TableHead>Work Order</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {(viewingPlan.assets || []).map((asset) => (
+                        <TableRow key={asset.asset_id}>
+                          <TableCell>
+                            <div className="font-mono text-sm">{asset.asset_number}</div>
+                            <div className="text-sm text-muted-foreground">{asset.name}</div>
+                          </TableCell>
+                          <TableCell>{formatDate(asset.last_completed_date)}</TableCell>
+                          <TableCell>
+                            {asset.next_due_date
+                              ? formatDate(asset.next_due_date)
+                              : asset.due_usage !== null
+                                ? `At ${asset.due_usage} units (now ${asset.current_usage})`
+                                : '-'}
+                          </TableCell>
+                          <TableCell>
+                            {asset.open_order_status ? (
+                              <Badge variant={asset.open_order_status === 'overdue' ? 'destructive' : 'secondary'}>
+                                {asset.open_order_status.replace('_', ' ')}
+                              </Badge>
+                            ) : (
+                              <span className="text-muted-foreground">Not raised</span>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -122,6 +122,7 @@ export default function AssetReports() {
   const assetsByCategory = reports?.assets_by_category || [];
   const depreciationTrend = reports?.depreciation_trend || [];
   const maintenanceSummary = reports?.maintenance_summary || [];
+  const maintenanceReliability = reports?.maintenance_reliability || [];
   const topAssets = reports?.top_assets || [];
 
   return (
@@ -430,11 +431,13 @@ export default function AssetReports() {
           </Card>
         </TabsContent>
 
-        <TabsContent value="maintenance">
+        <TabsContent value="maintenance" className="space-y-4">
           <Card>
             <CardHeader>
               <CardTitle>Maintenance Summary</CardTitle>
-              <CardDescription>Maintenance activities by type</CardDescription>
+              <CardDescription>
+                Maintenance activities by type; {formatCurrency(summary.total_maintenance_cost)} spent on completed work
+              </CardDescription>
             </CardHeader>
             <CardContent>
               {maintenanceSummary.length === 0 ? (
@@ -445,6 +448,8 @@ export default function AssetReports() {
                     <TableRow>
                       <TableHead>Maintenance Type</TableHead>
                       <TableHead>Count</TableHead>
+                      <TableHead className="text-right">Labour Hours</TableHead>
+                      <TableHead className="text-right">Parts Cost</TableHead>
                       <TableHead className="text-right">Total Cost</TableHead>
                     </TableRow>
                   </TableHeader>
@@ -453,6 +458,8 @@ export default function AssetReports() {
                       <TableRow key={item.maintenance_type}>
                         <TableCell className="font-medium">{item.maintenance_type}</TableCell>
                         <TableCell>{formatNumber(item.count)}</TableCell>
+                        <TableCell className="text-right">{formatNumber(item.labor_hours)}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(item.parts_cost)}</TableCell>
                         <TableCell className="text-right">
                           {formatCurrency(item.total_cost)}
                         </TableCell>
@@ -463,6 +470,56 @@ export default function AssetReports() {
               )}
             </CardContent>
           </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Reliability</CardTitle>
+              <CardDescription>
+                Corrective and emergency jobs count as failures; MTBF is days in service per failure
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {maintenanceReliability.length === 0 ? (
+                <p className="text-muted-foreground text-center py-8">No completed maintenance in this period</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Asset</TableHead>
+                      <TableHead className="text-right">Failures</TableHead>
+                      <TableHead className="text-right">Planned Jobs</TableHead>
+                      <TableHead className="text-right">MTBF (days)</TableHead>
+                      <TableHead className="text-right">MTTR (hours)</TableHead>
+                      <TableHead className="text-right">Preventive Cost</TableHead>
+                      <TableHead className="text-right">Corrective Cost</TableHead>
+                      <TableHead className="text-right">Total Cost</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {maintenanceReliability.map((item) => (
+                      <TableRow key={item.id}>
+                        <TableCell>
+                          <div className="font-medium">{item.name}</div>
+                          <div className="text-sm text-muted-foreground">{item.asset_number}</div>
+                        </TableCell>
+                        <TableCell className="text-right">{formatNumber(item.failures)}</TableCell>
+                        <TableCell className="text-right">{formatNumber(item.planned_jobs)}</TableCell>
+                        <TableCell className="text-right">
+                          {item.mtbf_days !== null ? formatNumber(item.mtbf_days) : '-'}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {item.mttr_hours !== null ? formatNumber(item.mttr_hours) : '-'}
+                        </TableCell>
+                        <TableCell className="text-right">{formatCurrency(item.preventive_cost)}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(item.corrective_cost)}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(item.total_cost)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
         </TabsContent>
 
         <TabsContent value="top-assets">
@@ -51,10 +51,13 @@ export default function AssetSettings() {
     auto_post_depreciation: false,
     depreciation_rounding: 2,
     allow_manual_depreciation: true,
+    depreciation_expense_account_code: '',
+    accumulated_depreciation_account_code: '',
     
     // Maintenance Settings
     auto_schedule_maintenance: false,
     maintenance_reminder_days: 30,
+    maintenance_escalation_days: 3,
     require_maintenance_approval: false,
     track_maintenance_costs: true,
     
@@ -74,6 +77,7 @@ export default function AssetSettings() {
     notify_upcoming_maintenance: true,
     notify_disposal_requests: true,
     notify_depreciation_posted: false,
+    notify_overdue_returns: true,
     
     // Integration Settings
     sync_with_accounting: false,
@@ -306,7 +310,7 @@ export default function AssetSettings() {
                 <div className="space-y-0.5">
                   <Label>Auto-post Depreciation</Label>
                   <p className="text-sm text-muted-foreground">
-                    Automatically post depreciation entries
+                    Post the previous month's depreciation run on the 1st of each month
                   </p>
                 </div>
                 <Switch
@@ -345,6 +349,29 @@ export default function AssetSettings() {
                   }
                 />
               </div>
+              <div>
+                <Label>Depreciation Expense Account Code</Label>
+                <Input
+                  value={settings.depreciation_expense_account_code || ''}
+                  onChange={(e) =>
+                    setSettings({ ...settings, depreciation_expense_account_code: e.target.value })
+                  }
+                  placeholder="Leave blank to use Depreciation Expense"
+                />
+              </div>
+              <div>
+                <Label>Accumulated Depreciation Account Code</Label>
+                <Input
+                  value={settings.accumulated_depreciation_account_code || ''}
+                  onChange={(e) =>
+                    setSettings({ ...settings, accumulated_depreciation_account_code: e.target.value })
+                  }
+                  placeholder="Leave blank to use Accumulated Depreciation"
+                />
+                <p className="text-sm text-muted-foreground mt-1">
+                  Monthly depreciation runs debit the expense account and credit this account
+                </p>
+              </div>
             </CardContent>
           </Card>
         </TabsContent>
@@ -361,7 +388,7 @@ export default function AssetSettings() {
                 <div className="space-y-0.5">
                   <Label>Auto-schedule Maintenance</Label>
                   <p className="text-sm text-muted-foreground">
-                    Automatically schedule recurring maintenance
+                    Create work orders from maintenance plans as they fall due
                   </p>
                 </div>
                 <Switch
@@ -383,6 +410,25 @@ export default function AssetSettings() {
                     })
                   }
                 />
+                <p className="text-sm text-muted-foreground mt-1">
+                  Lead time for plan work orders unless the plan sets its own
+                </p>
+              </div>
+              <div>
+                <Label>Escalate Overdue Maintenance After (Days)</Label>
+                <Input
+                  type="number"
+                  value={settings.maintenance_escalation_days}
+                  onChange={(e) =>
+                    setSettings({
+                      ...settings,
+                      maintenance_escalation_days: parseInt(e.target.value) || 0,
+                    })
+                  }
+                />
+                <p className="text-sm text-muted-foreground mt-1">
+                  Overdue work orders are raised to urgent and the plan owner is notified
+                </p>
               </div>
               <div className="flex items-center justify-between">
                 <div className="space-y-0.5">
@@ -610,6 +656,20 @@ export default function AssetSettings() {
                   }
                 />
               </div>
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label>Notify Overdue Returns</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Remind custodians when checked-out assets are past their return date
+                  </p>
+                </div>
+                <Switch
+                  checked={settings.notify_overdue_returns}
+                  onCheckedChange={(checked) =>
+                    setSettings({ ...settings, notify_overdue_returns: checked })
+                  }
+                />
+              </div>
             </CardContent>
           </Card>
         </TabsContent>
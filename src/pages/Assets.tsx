@@ -25,6 +25,8 @@ import {
   User,
   Package,
   AlertCircle,
+  LogIn,
+  LogOut,
 } from 'lucide-react';
 import {
   getAssets,
@@ -32,10 +34,15 @@ import {
   updateAsset,
   getAssetCategories,
   getAssetLocations,
+  getCustodyRecords,
   type Asset,
   type AssetCategory,
+  type AssetCustodyRecord,
   type AssetLocation,
 } from '@/services/api/asset-service';
+import { CheckOutAssetDialog } from '@/components/assets/CheckOutAssetDialog';
+import { CheckInAssetDialog } from '@/components/assets/CheckInAssetDialog';
+import { AssetCustodyTimeline } from '@/components/assets/AssetCustodyTimeline';
 import {
   Table,
   TableBody,
@@ -83,6 +90,11 @@ export default function Assets() {
   const [showViewDialog, setShowViewDialog] = useState(false);
   const [isEditing, setIsEditing] = useState(false);
 
+  // Custody
+  const [checkingOutAsset, setCheckingOutAsset] = useState<Asset | null>(null);
+  const [checkingInCustody, setCheckingInCustody] = useState<AssetCustodyRecord | null>(null);
+  const [custodyRefreshKey, setCustodyRefreshKey] = useState(0);
+
   // Related data
   const [categories, setCategories] = useState<AssetCategory[]>([]);
   const [locations, setLocations] = useState<AssetLocation[]>([]);
@@ -111,6 +123,12 @@ export default function Assets() {
     warranty_start_date: '',
     warranty_end_date: '',
     notes: '',
+    residual_value: '',
+    useful_life_years: '',
+    depreciation_method: '',
+    depreciation_start_date: '',
+    total_units: '',
+    units_used: '',
   });
 
   // Fetch data
@@ -223,6 +241,13 @@ export default function Assets() {
         purchase_date: assetForm.purchase_date || undefined,
         warranty_start_date: assetForm.warranty_start_date || undefined,
         warranty_end_date: assetForm.warranty_end_date || undefined,
+        // Blank depreciation fields fall back to the category and asset settings defaults
+        residual_value: assetForm.residual_value ? parseFloat(assetForm.residual_value) : 0,
+        useful_life_years: assetForm.useful_life_years ? parseFloat(assetForm.useful_life_years) : null,
+        depreciation_method: assetForm.depreciation_method || null,
+        depreciation_start_date: assetForm.depreciation_start_date || null,
+        total_units: assetForm.total_units ? parseFloat(assetForm.total_units) : null,
+        units_used: assetForm.units_used ? parseFloat(assetForm.units_used) : 0,
       };
 
       if (isEditing && selectedAsset) {
@@ -272,6 +297,12 @@ export default function Assets() {
       warranty_start_date: asset.warranty_start_date ? asset.warranty_start_date.split('T')[0] : '',
       warranty_end_date: asset.warranty_end_date ? asset.warranty_end_date.split('T')[0] : '',
       notes: asset.notes || '',
+      residual_value: asset.residual_value != null ? String(asset.residual_value) : '',
+      useful_life_years: asset.useful_life_years != null ? String(asset.useful_life_years) : '',
+      depreciation_method: asset.depreciation_method || '',
+      depreciation_start_date: asset.depreciation_start_date ? asset.depreciation_start_date.split('T')[0] : '',
+      total_units: asset.total_units != null ? String(asset.total_units) : '',
+      units_used: asset.units_used != null ? String(asset.units_used) : '',
     });
     setIsEditing(true);
     setShowAssetDialog(true);
@@ -282,6 +313,29 @@ export default function Assets() {
     setShowViewDialog(true);
   };
 
+  const handleCheckIn = async (asset: Asset) => {
+    try {
+      const [custody] = await getCustodyRecords({ asset_id: asset.id, status: 'checked_out' });
+      if (!custody) {
+        toast({ title: 'Error', description: 'This asset is not checked out', variant: 'destructive' });
+        fetchAssets();
+        return;
+      }
+      setCheckingInCustody(custody);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to load custody record',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleCustodyChanged = () => {
+    setCustodyRefreshKey((key) => key + 1);
+    fetchAssets();
+  };
+
   const resetForm = () => {
     setAssetForm({
       asset_number: '',
@@ -300,6 +354,12 @@ export default function Assets() {
       warranty_start_date: '',
       warranty_end_date: '',
       notes: '',
+      residual_value: '',
+      useful_life_years: '',
+      depreciation_method: '',
+      depreciation_start_date: '',
+      total_units: '',
+      units_used: '',
     });
     setSelectedAsset(null);
     setIsEditing(false);
@@ -527,7 +587,19 @@ export default function Assets() {
                   {filteredAssets.map((asset) => (
                     <TableRow key={asset.id}>
                       <TableCell className="font-mono font-medium">{asset.asset_number}</TableCell>
-                      <TableCell className="font-medium">{asset.name}</TableCell>
+                      <TableCell className="font-medium">
+                        {asset.name}
+                        {asset.custodian_label && (
+                          <div className="flex items-center text-xs font-normal text-muted-foreground">
+                            <User className="h-3 w-3 mr-1" />
+                            {asset.custodian_label}
+                            {asset.custody_expected_return_date &&
+                              new Date(asset.custody_expected_return_date) < new Date(new Date().toDateString()) && (
+                                <Badge variant="destructive" className="ml-2 px-1 py-0 text-[10px]">Overdue</Badge>
+                              )}
+                          </div>
+                        )}
+                      </TableCell>
                       <TableCell>{asset.category_name || '-'}</TableCell>
                       <TableCell>
                         {asset.location_name ? (
@@ -569,6 +641,21 @@ export default function Assets() {
                               <Edit className="mr-2 h-4 w-4" />
                               Edit
                             </DropdownMenuItem>
+                            <DropdownMenuSeparator />
+                            {asset.custody_id ? (
+                              <DropdownMenuItem onClick={() => handleCheckIn(asset)}>
+                                <LogIn className="mr-2 h-4 w-4" />
+                                Check In
+                              </DropdownMenuItem>
+                            ) : (
+                              <DropdownMenuItem
+                                onClick={() => setCheckingOutAsset(asset)}
+                                disabled={asset.status === 'disposed' || asset.status === 'written_off'}
+                              >
+                                <LogOut className="mr-2 h-4 w-4" />
+                                Check Out
+                              </DropdownMenuItem>
+                            )}
                           </DropdownMenuContent>
                         </DropdownMenu>
                       </TableCell>
@@ -702,6 +789,86 @@ export default function Assets() {
                 />
               </div>
             </div>
+            <div className="grid gap-4 md:grid-cols-3">
+              <div className="grid gap-2">
+                <Label htmlFor="depreciation_method">Depreciation Method</Label>
+                <Select
+                  value={assetForm.depreciation_method || 'default'}
+                  onValueChange={(value) =>
+                    setAssetForm({ ...assetForm, depreciation_method: value === 'default' ? '' : value })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="default">Category default</SelectItem>
+                    <SelectItem value="straight_line">Straight Line</SelectItem>
+                    <SelectItem value="declining_balance">Declining Balance</SelectItem>
+                    <SelectItem value="units_of_production">Units of Production</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="useful_life_years">Useful Life (Years)</Label>
+                <Input
+                  id="useful_life_years"
+                  type="number"
+                  step="0.5"
+                  min="0"
+                  value={assetForm.useful_life_years}
+                  onChange={(e) => setAssetForm({ ...assetForm, useful_life_years: e.target.value })}
+                  placeholder="Category default"
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="residual_value">Salvage Value</Label>
+                <Input
+                  id="residual_value"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={assetForm.residual_value}
+                  onChange={(e) => setAssetForm({ ...assetForm, residual_value: e.target.value })}
+                  placeholder="0.00"
+                />
+              </div>
+            </div>
+            <div className="grid gap-4 md:grid-cols-3">
+              <div className="grid gap-2">
+                <Label htmlFor="depreciation_start_date">Depreciation Start</Label>
+                <Input
+                  id="depreciation_start_date"
+                  type="date"
+                  value={assetForm.depreciation_start_date}
+                  onChange={(e) => setAssetForm({ ...assetForm, depreciation_start_date: e.target.value })}
+                />
+              </div>
+              {assetForm.depreciation_method === 'units_of_production' && (
+                <>
+                  <div className="grid gap-2">
+                    <Label htmlFor="total_units">Total Units (Lifetime)</Label>
+                    <Input
+                      id="total_units"
+                      type="number"
+                      min="0"
+                      value={assetForm.total_units}
+                      onChange={(e) => setAssetForm({ ...assetForm, total_units: e.target.value })}
+                    />
+                  </div>
+                  <div className="grid gap-2">
+                    <Label htmlFor="units_used">Units Used To Date</Label>
+                    <Input
+                      id="units_used"
+                      type="number"
+                      min="0"
+                      value={assetForm.units_used}
+                      onChange={(e) => setAssetForm({ ...assetForm, units_used: e.target.value })}
+                    />
+                  </div>
+                </>
+              )}
+            </div>
             <div className="grid gap-4 md:grid-cols-3">
               <div className="grid gap-2">
                 <Label htmlFor="serial_number">Serial Number</Label>
@@ -915,6 +1082,10 @@ export default function Assets() {
                   <p className="text-sm text-muted-foreground">{selectedAsset.notes}</p>
                 </div>
               )}
+              <div className="grid gap-2">
+                <Label className="text-sm font-medium">Custody History</Label>
+                <AssetCustodyTimeline assetId={selectedAsset.id} refreshKey={custodyRefreshKey} />
+              </div>
             </div>
           )}
           <DialogFooter>
@@ -933,6 +1104,17 @@ export default function Assets() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <CheckOutAssetDialog
+        asset={checkingOutAsset}
+        onOpenChange={(open) => !open && setCheckingOutAsset(null)}
+        onCheckedOut={handleCustodyChanged}
+      />
+      <CheckInAssetDialog
+        custody={checkingInCustody}
+        onOpenChange={(open) => !open && setCheckingInCustody(null)}
+        onCheckedIn={handleCustodyChanged}
+      />
     </div>
   );
 }
@@ -0,0 +1,663 @@
+/**
+ * Budgets Page
+ * Budget planning per account, department and project with live budget-vs-actual variance
+ */
+
+import { useState, useEffect, useMemo } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { getAgencyId } from '@/utils/agencyUtils';
+import { selectRecords } from '@/services/api/postgresql-service';
+import {
+  Plus,
+  Loader2,
+  Target,
+  TrendingUp,
+  TrendingDown,
+  AlertTriangle,
+  MoreVertical,
+  Edit,
+  Eye,
+  Trash2,
+  CheckCircle,
+  CalendarClock,
+  Bell,
+} from 'lucide-react';
+import {
+  getBudgets,
+  getBudgetAlerts,
+  acknowledgeBudgetAlert,
+  updateBudget,
+  deleteBudget,
+  rollForwardBudgets,
+  type Budget,
+  type BudgetAlert,
+  type BudgetStatus,
+  type BudgetStatusIndicator,
+  type BudgetRollForwardBasis,
+} from '@/services/api/financial-service';
+import BudgetFormDialog, { BudgetAccountLookup, BudgetLookup } from '@/components/financial/BudgetFormDialog';
+
+const formatCurrency = (value: number) =>
+  `₹${Number(value || 0).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDate = (value?: string | null) => (value ? new Date(value).toLocaleDateString() : '-');
+
+const getIndicatorBadge = (indicator: BudgetStatusIndicator) => {
+  switch (indicator) {
+    case 'over_budget':
+      return <Badge className="bg-red-100 text-red-800">Over budget</Badge>;
+    case 'near_limit':
+      return <Badge className="bg-yellow-100 text-yellow-800">Near limit</Badge>;
+    default:
+      return <Badge className="bg-green-100 text-green-800">Within budget</Badge>;
+  }
+};
+
+const getStatusBadge = (status: BudgetStatus) => {
+  const variants: Record<BudgetStatus, 'default' | 'secondary' | 'outline' | 'destructive'> = {
+    draft: 'outline',
+    approved: 'secondary',
+    active: 'default',
+    closed: 'secondary',
+  };
+  return <Badge variant={variants[status] || 'outline'} className="capitalize">{status}</Badge>;
+};
+
+const getNextFiscalYear = (fiscalYear: string) =>
+  fiscalYear.replace(/\d+/g, (part) => String(parseInt(part, 10) + 1).padStart(part.length, '0').slice(-part.length));
+
+export default function Budgets() {
+  const { toast } = useToast();
+  const { user, profile } = useAuth();
+  const [budgets, setBudgets] = useState<Budget[]>([]);
+  const [alerts, setAlerts] = useState<BudgetAlert[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [fiscalYearFilter, setFiscalYearFilter] = useState('all');
+  const [statusFilter, setStatusFilter] = useState('all');
+
+  const [accounts, setAccounts] = useState<BudgetAccountLookup[]>([]);
+  const [departments, setDepartments] = useState<BudgetLookup[]>([]);
+  const [projects, setProjects] = useState<BudgetLookup[]>([]);
+
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingBudget, setEditingBudget] = useState<Budget | null>(null);
+  const [viewingBudget, setViewingBudget] = useState<Budget | null>(null);
+
+  const [rollForwardOpen, setRollForwardOpen] = useState(false);
+  const [rollForwardForm, setRollForwardForm] = useState({
+    from_fiscal_year: '',
+    to_fiscal_year: '',
+    basis: 'budget' as BudgetRollForwardBasis,
+    adjustment_percentage: '0',
+  });
+  const [rollingForward, setRollingForward] = useState(false);
+
+  useEffect(() => {
+    loadLookups();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [profile?.agency_id]);
+
+  useEffect(() => {
+    loadBudgets();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [fiscalYearFilter, statusFilter]);
+
+  const loadLookups = async () => {
+    const agencyId = await getAgencyId(profile, user?.id);
+    if (!agencyId) return;
+    try {
+      const [accountData, departmentData, projectData] = await Promise.all([
+        selectRecords<BudgetAccountLookup>('chart_of_accounts', {
+          where: { agency_id: agencyId, is_active: true },
+          orderBy: 'account_code ASC',
+        }),
+        selectRecords<BudgetLookup>('departments', {
+          select: 'id, name',
+          filters: [{ column: 'is_active', operator: 'eq', value: true }],
+          orderBy: 'name ASC',
+        }),
+        selectRecords<BudgetLookup>('projects', {
+          select: 'id, name',
+          where: { agency_id: agencyId },
+          orderBy: 'name ASC',
+        }),
+      ]);
+      setAccounts(accountData || []);
+      setDepartments(departmentData || []);
+      setProjects(projectData || []);
+    } catch (error) {
+      console.error('Error loading budget lookups:', error);
+    }
+  };
+
+  const loadBudgets = async () => {
+    try {
+      setLoading(true);
+      const [budgetData, alertData] = await Promise.all([
+        getBudgets({
+          fiscal_year: fiscalYearFilter !== 'all' ? fiscalYearFilter : undefined,
+          status: statusFilter !== 'all' ? (statusFilter as BudgetStatus) : undefined,
+        }),
+        getBudgetAlerts(),
+      ]);
+      setBudgets(budgetData);
+      setAlerts(alertData);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to load budgets',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fiscalYears = useMemo(
+    () => Array.from(new Set(budgets.map((b) => b.fiscal_year).filter((year): year is string => !!year))).sort().reverse(),
+    [budgets]
+  );
+
+  const totals = useMemo(() => {
+    const tracked = budgets.filter((b) => b.status !== 'draft');
+    return {
+      budgeted: tracked.reduce((sum, b) => sum + b.total_budget, 0),
+      actual: tracked.reduce((sum, b) => sum + b.actual_amount, 0),
+      overBudget: tracked.filter((b) => b.status_indicator === 'over_budget').length,
+      nearLimit: tracked.filter((b) => b.status_indicator === 'near_limit').length,
+    };
+  }, [budgets]);
+
+  const handleStatusChange = async (budget: Budget, status: BudgetStatus) => {
+    try {
+      await updateBudget(budget.id, { status });
+      toast({ title: 'Success', description: `Budget marked as ${status}` });
+      loadBudgets();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update budget',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDelete = async (budget: Budget) => {
+    if (!confirm(`Delete draft budget "${budget.budget_name}"?`)) return;
+    try {
+      await deleteBudget(budget.id);
+      toast({ title: 'Success', description: 'Budget deleted' });
+      loadBudgets();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to delete budget',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleAcknowledge = async (alertId: string) => {
+    try {
+      await acknowledgeBudgetAlert(alertId);
+      setAlerts((prev) => prev.filter((a) => a.id !== alertId));
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to acknowledge alert',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const openRollForward = () => {
+    const fromYear = fiscalYearFilter !== 'all' ? fiscalYearFilter : fiscalYears[0] || '';
+    setRollForwardForm({
+      from_fiscal_year: fromYear,
+      to_fiscal_year: fromYear ? getNextFiscalYear(fromYear) : '',
+      basis: 'budget',
+      adjustment_percentage: '0',
+    });
+    setRollForwardOpen(true);
+  };
+
+  const handleRollForward = async () => {
+    if (!rollForwardForm.from_fiscal_year) {
+      toast({ title: 'Error', description: 'Select the fiscal year to roll forward', variant: 'destructive' });
+      return;
+    }
+    setRollingForward(true);
+    try {
+      const result = await rollForwardBudgets({
+        from_fiscal_year: rollForwardForm.from_fiscal_year,
+        to_fiscal_year: rollForwardForm.to_fiscal_year || undefined,
+        basis: rollForwardForm.basis,
+        adjustment_percentage: parseFloat(rollForwardForm.adjustment_percentage) || 0,
+      });
+      toast({
+        title: 'Budgets rolled forward',
+        description: `${result.created.length} draft budgets created${
+          result.skipped.length ? `, ${result.skipped.length} already rolled forward` : ''
+        }`,
+      });
+      setRollForwardOpen(false);
+      if (rollForwardForm.to_fiscal_year) {
+        setFiscalYearFilter(rollForwardForm.to_fiscal_year);
+      } else {
+        loadBudgets();
+      }
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to roll forward budgets',
+        variant: 'destructive',
+      });
+    } finally {
+      setRollingForward(false);
+    }
+  };
+
+  const totalVariance = totals.budgeted - totals.actual;
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Budgets</h1>
+          <p className="text-muted-foreground mt-1">
+            Plan spend by account, department and project and track it against posted actuals
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={openRollForward} disabled={budgets.length === 0}>
+            <CalendarClock className="mr-2 h-4 w-4" />
+            Roll Forward
+          </Button>
+          <Button onClick={() => { setEditingBudget(null); setFormOpen(true); }}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Budget
+          </Button>
+        </div>
+      </div>
+
+      {/* Threshold Alerts */}
+      {alerts.length > 0 && (
+        <Alert variant="destructive">
+          <Bell className="h-4 w-4" />
+          <AlertTitle>Budget alerts ({alerts.length})</AlertTitle>
+          <AlertDescription>
+            <div className="mt-2 space-y-2">
+              {alerts.slice(0, 5).map((alert) => (
+                <div key={alert.id} className="flex items-center justify-between gap-4">
+                  <span className="text-sm">
+                    {alert.message || `${alert.budget_name} crossed ${alert.threshold}%`}
+                    <span className="text-muted-foreground"> · {formatDate(alert.created_at)}</span>
+                  </span>
+                  <Button size="sm" variant="outline" onClick={() => handleAcknowledge(alert.id)}>
+                    Dismiss
+                  </Button>
+                </div>
+              ))}
+              {alerts.length > 5 && (
+                <p className="text-xs">and {alerts.length - 5} more</p>
+              )}
+            </div>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {/* Stats Cards */}
+      <div className="grid gap-4 md:grid-cols-4">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Total Budgeted</CardTitle>
+            <Target className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatCurrency(totals.budgeted)}</div>
+            <p className="text-xs text-muted-foreground">Approved, active and closed budgets</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Actual</CardTitle>
+            <TrendingUp className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatCurrency(totals.actual)}</div>
+            <p className="text-xs text-muted-foreground">From posted journal entries</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Variance</CardTitle>
+            <TrendingDown className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className={`text-2xl font-bold ${totalVariance < 0 ? 'text-red-600' : 'text-green-600'}`}>
+              {formatCurrency(totalVariance)}
+            </div>
+            <p className="text-xs text-muted-foreground">Budget remaining</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Needs Attention</CardTitle>
+            <AlertTriangle className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{totals.overBudget + totals.nearLimit}</div>
+            <p className="text-xs text-muted-foreground">
+              {totals.overBudget} over budget, {totals.nearLimit} near limit
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Budgets Table */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Budgets</CardTitle>
+              <CardDescription>Budget vs actual for each budget period</CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Select value={fiscalYearFilter} onValueChange={setFiscalYearFilter}>
+                <SelectTrigger className="w-40">
+                  <SelectValue placeholder="Fiscal year" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All years</SelectItem>
+                  {fiscalYears.map((year) => (
+                    <SelectItem key={year} value={year}>{year}</SelectItem>
+                  ))}
+                  {fiscalYearFilter !== 'all' && !fiscalYears.includes(fiscalYearFilter) && (
+                    <SelectItem value={fiscalYearFilter}>{fiscalYearFilter}</SelectItem>
+                  )}
+                </SelectContent>
+              </Select>
+              <Select value={statusFilter} onValueChange={setStatusFilter}>
+                <SelectTrigger className="w-36">
+                  <SelectValue placeholder="Status" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All statuses</SelectItem>
+                  <SelectItem value="draft">Draft</SelectItem>
+                  <SelectItem value="approved">Approved</SelectItem>
+                  <SelectItem value="active">Active</SelectItem>
+                  <SelectItem value="closed">Closed</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex items-center justify-center p-8">
+              <Loader2 className="h-8 w-8 animate-spin" />
+            </div>
+          ) : budgets.length === 0 ? (
+            <div className="text-center py-12 text-muted-foreground">
+              <Target className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>No budgets found. Create one to start tracking spend.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Budget</TableHead>
+                  <TableHead>Scope</TableHead>
+                  <TableHead>Period</TableHead>
+                  <TableHead className="text-right">Budget</TableHead>
+                  <TableHead className="text-right">Actual</TableHead>
+                  <TableHead className="text-right">Variance</TableHead>
+                  <TableHead className="w-40">Utilisation</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {budgets.map((budget) => (
+                  <TableRow key={budget.id}>
+                    <TableCell>
+                      <div className="font-medium">{budget.budget_name}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {budget.fiscal_year || '-'} · <span className="capitalize">{budget.budget_type || 'annual'}</span>
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {budget.department_name && <div>Dept: {budget.department_name}</div>}
+                      {budget.project_name && <div>Project: {budget.project_name}</div>}
+                      {!budget.department_name && !budget.project_name && <span className="text-muted-foreground">Company-wide</span>}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {formatDate(budget.period_start)} - {formatDate(budget.period_end)}
+                    </TableCell>
+                    <TableCell className="text-right">{formatCurrency(budget.total_budget)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(budget.actual_amount)}</TableCell>
+                    <TableCell className={`text-right ${budget.variance < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                      {formatCurrency(budget.variance)}
+                    </TableCell>
+                    <TableCell>
+                      <div className="space-y-1">
+                        <Progress value={Math.min(budget.utilization_percentage, 100)} />
+                        <div className="flex items-center justify-between text-xs">
+                          <span>{budget.utilization_percentage.toFixed(1)}%</span>
+                          {getIndicatorBadge(budget.status_indicator)}
+                        </div>
+                      </div>
+                    </TableCell>
+                    <TableCell>{getStatusBadge(budget.status)}</TableCell>
+                    <TableCell>
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" size="sm">
+                            <MoreVertical className="h-4 w-4" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          <DropdownMenuItem onClick={() => setViewingBudget(budget)}>
+                            <Eye className="mr-2 h-4 w-4" />
+                            View Lines
+                          </DropdownMenuItem>
+                          {budget.status !== 'closed' && (
+                            <DropdownMenuItem onClick={() => { setEditingBudget(budget); setFormOpen(true); }}>
+                              <Edit className="mr-2 h-4 w-4" />
+                              Edit
+                            </DropdownMenuItem>
+                          )}
+                          {budget.status === 'draft' && (
+                            <DropdownMenuItem onClick={() => handleStatusChange(budget, 'approved')}>
+                              <CheckCircle className="mr-2 h-4 w-4" />
+                              Approve
+                            </DropdownMenuItem>
+                          )}
+                          {budget.status === 'approved' && (
+                            <DropdownMenuItem onClick={() => handleStatusChange(budget, 'active')}>
+                              <CheckCircle className="mr-2 h-4 w-4" />
+                              Activate
+                            </DropdownMenuItem>
+                          )}
+                          {(budget.status === 'approved' || budget.status === 'active') && (
+                            <DropdownMenuItem onClick={() => handleStatusChange(budget, 'closed')}>
+                              <CalendarClock className="mr-2 h-4 w-4" />
+                              Close
+                            </DropdownMenuItem>
+                          )}
+                          {budget.status === 'draft' && (
+                            <DropdownMenuItem className="text-red-600" onClick={() => handleDelete(budget)}>
+                              <Trash2 className="mr-2 h-4 w-4" />
+                              Delete
+                            </DropdownMenuItem>
+                          )}
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <BudgetFormDialog
+        isOpen={formOpen}
+        onClose={() => { setFormOpen(false); setEditingBudget(null); }}
+        budget={editingBudget}
+        accounts={accounts}
+        departments={departments}
+        projects={projects}
+        onBudgetSaved={loadBudgets}
+      />
+
+      {/* Budget Lines Dialog */}
+      <Dialog open={!!viewingBudget} onOpenChange={(open) => !open && setViewingBudget(null)}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{viewingBudget?.budget_name}</DialogTitle>
+            <DialogDescription>
+              {formatDate(viewingBudget?.period_start)} - {formatDate(viewingBudget?.period_end)} · alerts at{' '}
+              {viewingBudget?.alert_thresholds.join('%, ')}%
+            </DialogDescription>
+          </DialogHeader>
+          {viewingBudget && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Line</TableHead>
+                  <TableHead>Period</TableHead>
+                  <TableHead className="text-right">Budget</TableHead>
+                  <TableHead className="text-right">Actual</TableHead>
+                  <TableHead className="text-right">Variance</TableHead>
+                  <TableHead>Utilisation</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {viewingBudget.items.map((item) => (
+                  <TableRow key={item.id}>
+                    <TableCell>
+                      <div className="font-medium">
+                        {item.account_code ? `${item.account_code} - ${item.account_name}` : item.category}
+                      </div>
+                      {item.account_code && item.category && (
+                        <div className="text-xs text-muted-foreground">{item.category}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {item.period_start ? `${formatDate(item.period_start)} - ${formatDate(item.period_end)}` : 'Full period'}
+                    </TableCell>
+                    <TableCell className="text-right">{formatCurrency(item.budgeted_amount)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(item.actual_amount)}</TableCell>
+                    <TableCell className={`text-right ${item.variance < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                      {formatCurrency(item.variance)}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm">{item.utilization_percentage.toFixed(1)}%</span>
+                        {getIndicatorBadge(item.status_indicator)}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Roll Forward Dialog */}
+      <Dialog open={rollForwardOpen} onOpenChange={setRollForwardOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Roll Forward Budgets</DialogTitle>
+            <DialogDescription>
+              Copy a fiscal year's budgets into the next year as drafts, shifting every period by one year.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>From Fiscal Year</Label>
+                <Select
+                  value={rollForwardForm.from_fiscal_year}
+                  onValueChange={(value) => setRollForwardForm((prev) => ({
+                    ...prev,
+                    from_fiscal_year: value,
+                    to_fiscal_year: getNextFiscalYear(value),
+                  }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select year" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {fiscalYears.map((year) => (
+                      <SelectItem key={year} value={year}>{year}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>To Fiscal Year</Label>
+                <Input
+                  value={rollForwardForm.to_fiscal_year}
+                  onChange={(e) => setRollForwardForm((prev) => ({ ...prev, to_fiscal_year: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Based On</Label>
+                <Select
+                  value={rollForwardForm.basis}
+                  onValueChange={(value) => setRollForwardForm((prev) => ({ ...prev, basis: value as BudgetRollForwardBasis }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="budget">This year's budget</SelectItem>
+                    <SelectItem value="actual">This year's actuals</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Adjustment (%)</Label>
+                <Input
+                  type="number"
+                  step="0.1"
+                  value={rollForwardForm.adjustment_percentage}
+                  onChange={(e) => setRollForwardForm((prev) => ({ ...prev, adjustment_percentage: e.target.value }))}
+                />
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRollForwardOpen(false)}>Cancel</Button>
+            <Button onClick={handleRollForward} disabled={rollingForward}>
+              {rollingForward && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Roll Forward
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -14,6 +14,8 @@ import ActivityFormDialog from '@/components/ActivityFormDialog';
 import DeleteConfirmDialog from '@/components/DeleteConfirmDialog';
 import ConvertLeadToClientDialog from '@/components/ConvertLeadToClientDialog';
 import { PipelineBoard } from '@/components/crm/PipelineBoard';
+import { OpportunitiesPanel } from '@/components/crm/OpportunitiesPanel';
+import { SegmentsPanel } from '@/components/crm/SegmentsPanel';
 import { useNavigate } from 'react-router-dom';
 
 const CRM = () => {
@@ -532,6 +534,8 @@ const CRM = () => {
           <TabsTrigger value="leads">Leads</TabsTrigger>
           <TabsTrigger value="activities">Activities</TabsTrigger>
           <TabsTrigger value="pipeline">Pipeline</TabsTrigger>
+          <TabsTrigger value="opportunities">Opportunities</TabsTrigger>
+          <TabsTrigger value="segments">Segments</TabsTrigger>
           <TabsTrigger value="reports">Reports</TabsTrigger>
         </TabsList>
         
@@ -718,6 +722,14 @@ const CRM = () => {
           />
         </TabsContent>
 
+        <TabsContent value="opportunities" className="space-y-4">
+          <OpportunitiesPanel />
+        </TabsContent>
+
+        <TabsContent value="segments" className="space-y-4">
+          <SegmentsPanel />
+        </TabsContent>
+
         <TabsContent value="reports" className="space-y-4">
           <Card>
             <CardHeader>
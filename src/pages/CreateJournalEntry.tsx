@@ -12,6 +12,7 @@ import { useAuth } from '@/hooks/useAuth';
 import { getAgencyId } from '@/utils/agencyUtils';
 import { Plus, Trash2, ArrowLeft, Loader2 } from 'lucide-react';
 import { logError } from '@/utils/consoleLogger';
+import CostAllocationFields from '@/components/financial/CostAllocationFields';
 
 interface JournalEntryLine {
   id?: string;
@@ -35,6 +36,8 @@ const CreateJournalEntry = () => {
     description: '',
     reference: '',
     status: 'draft' as 'draft' | 'posted' | 'reversed',
+    department_id: null as string | null,
+    project_id: null as string | null,
     lines: [
       { account_id: '', description: '', debit_amount: 0, credit_amount: 0, line_number: 1 },
       { account_id: '', description: '', debit_amount: 0, credit_amount: 0, line_number: 2 },
@@ -334,6 +337,8 @@ const CreateJournalEntry = () => {
           debit_amount: debitAmount,
           credit_amount: creditAmount,
           line_number: line.line_number,
+          department_id: formData.department_id,
+          project_id: formData.project_id,
         }, user?.id);
       }
 
@@ -457,6 +462,12 @@ const CreateJournalEntry = () => {
               />
             </div>
 
+            <CostAllocationFields
+              departmentId={formData.department_id}
+              projectId={formData.project_id}
+              onChange={(allocation) => setFormData(prev => ({ ...prev, ...allocation }))}
+            />
+
             <div className="space-y-4">
               <div className="flex justify-between items-center">
                 <div className="flex items-center gap-2">
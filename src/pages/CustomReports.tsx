@@ -38,6 +38,12 @@ import {
 } from '@/components/ui/select';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Badge } from '@/components/ui/badge';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 
 type ModuleType = 'inventory' | 'procurement' | 'assets' | 'financial';
 
@@ -97,6 +103,7 @@ export default function CustomReports() {
   const [dateTo, setDateTo] = useState('');
   const [reportData, setReportData] = useState<any[]>([]);
   const [loading, setLoading] = useState(false);
+  const [exporting, setExporting] = useState(false);
   const [orderBy, setOrderBy] = useState('');
 
   const handleColumnToggle = (columnValue: string) => {
@@ -195,6 +202,54 @@ export default function CustomReports() {
     });
   };
 
+  const handleFileExport = async (format: 'pdf' | 'excel') => {
+    if (reportData.length === 0) {
+      toast({
+        title: 'Error',
+        description: 'No data to export',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    try {
+      setExporting(true);
+      const reportFilters: Record<string, unknown> = { ...filters };
+      if (dateFrom) reportFilters.date_from = dateFrom;
+      if (dateTo) reportFilters.date_to = dateTo;
+
+      const { blob, fileName } = await ReportService.exportCustomReport(selectedModule, format, {
+        columns: selectedColumns,
+        columnLabels: selectedColumns.map((col) => ({
+          key: col.split('.')[1] || col,
+          label: MODULE_COLUMNS[selectedModule].find((c) => c.value === col)?.label || col,
+        })),
+        filters: reportFilters,
+        orderBy: orderBy || undefined,
+      });
+
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = fileName;
+      a.click();
+      window.URL.revokeObjectURL(url);
+
+      toast({
+        title: 'Success',
+        description: `Report exported as ${format === 'pdf' ? 'PDF' : 'Excel'}`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to export report',
+        variant: 'destructive',
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
   const formatValue = (value: any): string => {
     if (value === null || value === undefined) return '-';
     if (typeof value === 'number') {
@@ -217,10 +272,23 @@ export default function CustomReports() {
           <p className="text-muted-foreground">Build and generate custom reports from various modules</p>
         </div>
         {reportData.length > 0 && (
-          <Button onClick={handleExport}>
-            <Download className="w-4 h-4 mr-2" />
-            Export CSV
-          </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button disabled={exporting}>
+                {exporting ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <Download className="w-4 h-4 mr-2" />
+                )}
+                Export
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={handleExport}>CSV</DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleFileExport('pdf')}>PDF</DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleFileExport('excel')}>Excel (.xlsx)</DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
         )}
       </div>
 
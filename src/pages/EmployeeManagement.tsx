@@ -34,6 +34,7 @@ import { RoleGuard } from "@/components/RoleGuard";
 import { getProjectsForSelectionAuto } from "@/services/api/project-selector-service";
 import { projectService } from "@/services/api/project-service";
 import { Progress } from "@/components/ui/progress";
+import { UnreturnedAssetsAlert } from "@/components/assets/UnreturnedAssetsAlert";
 
 interface UnifiedEmployee {
   id: string;
@@ -1797,6 +1798,9 @@ const EmployeeManagement = () => {
                 </Select>
               </div>
             </div>
+            {selectedEmployee?.is_active && !editForm.is_active && (
+              <UnreturnedAssetsAlert userId={selectedEmployee.user_id} />
+            )}
             <div className="space-y-2">
               <label className="text-sm font-medium">Work Location</label>
               <Input
@@ -1832,6 +1836,7 @@ const EmployeeManagement = () => {
               Are you sure you want to delete "{selectedEmployee?.full_name || 'this employee'}"? This will deactivate the employee account and all related records.
             </AlertDialogDescription>
           </AlertDialogHeader>
+          <UnreturnedAssetsAlert userId={selectedEmployee?.user_id} />
           <AlertDialogFooter>
             <AlertDialogCancel onClick={() => {
               setShowDeleteDialog(false);
@@ -1872,6 +1877,7 @@ const EmployeeManagement = () => {
               Are you sure you want to delete "{selectedUserForDelete?.full_name || 'this user'}"? This will deactivate the user account.
             </AlertDialogDescription>
           </AlertDialogHeader>
+          <UnreturnedAssetsAlert userId={selectedUserForDelete?.user_id} />
           <AlertDialogFooter>
             <AlertDialogCancel onClick={() => {
               setShowUserDeleteDialog(false);
@@ -19,6 +19,7 @@ import { TaskPerformanceList } from "@/components/performance/TaskPerformanceLis
 import { WorkHoursChart } from "@/components/performance/WorkHoursChart";
 import { DailyActivityCalendar } from "@/components/performance/DailyActivityCalendar";
 import { PerformanceTrendsChart } from "@/components/performance/PerformanceTrendsChart";
+import { ReviewHistory } from "@/components/performance/ReviewHistory";
 import {
   getEmployeePerformance,
   getTaskPerformance,
@@ -35,6 +36,7 @@ import {
   type DailyActivity,
   type PerformanceTrend,
 } from "@/services/api/performance-service";
+import { getReviews, type PerformanceReview } from "@/services/api/performance-review-service";
 import { getAgencyId } from "@/utils/agencyUtils";
 
 type PeriodType = 'daily' | 'weekly' | 'monthly' | 'yearly' | 'custom';
@@ -199,6 +201,18 @@ export default function EmployeePerformance() {
     refetchOnWindowFocus: false,
   });
 
+  // Finalized review cycles are not tied to the selected period
+  const { data: reviews, isLoading: reviewsLoading } = useQuery<PerformanceReview[]>({
+    queryKey: ['employee-performance-reviews', selectedEmployeeId],
+    queryFn: async () => {
+      if (!selectedEmployeeId) throw new Error('No employee selected');
+      return getReviews({ employee_id: selectedEmployeeId, status: 'finalized' });
+    },
+    enabled: !!selectedEmployeeId,
+    staleTime: 5 * 60 * 1000, // Cache for 5 minutes
+    refetchOnWindowFocus: false,
+  });
+
   // Daily activity state
   const [selectedActivityDate, setSelectedActivityDate] = useState<string | null>(
     format(new Date(), 'yyyy-MM-dd')
@@ -665,6 +679,7 @@ export default function EmployeePerformance() {
           <TabsTrigger value="hours">Work Hours</TabsTrigger>
           <TabsTrigger value="activity">Daily Activity</TabsTrigger>
           <TabsTrigger value="trends">Trends</TabsTrigger>
+          <TabsTrigger value="reviews">Reviews</TabsTrigger>
         </TabsList>
 
         <TabsContent value="tasks" className="space-y-4">
@@ -695,6 +710,10 @@ export default function EmployeePerformance() {
         <TabsContent value="trends" className="space-y-4">
           <PerformanceTrendsChart trends={trends || []} loading={trendsLoading} />
         </TabsContent>
+
+        <TabsContent value="reviews" className="space-y-4">
+          <ReviewHistory reviews={reviews || []} loading={reviewsLoading} />
+        </TabsContent>
       </Tabs>
     </div>
   );
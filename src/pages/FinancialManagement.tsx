@@ -22,6 +22,8 @@ import { logDebug, logWarn, logError } from '@/utils/consoleLogger';
 import { projectService } from '@/services/api/project-service';
 import { Progress } from '@/components/ui/progress';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { BankReconciliation } from '@/components/financial/BankReconciliation';
+import { CurrencyManagement } from '@/components/financial/CurrencyManagement';
 const FinancialManagement = () => {
   const { toast } = useToast();
   const { user, profile } = useAuth();
@@ -1478,10 +1480,12 @@ const FinancialManagement = () => {
 
       {/* Financial Management Tabs */}
       <Tabs defaultValue="accounting" className="space-y-4">
-        <TabsList className="grid w-full grid-cols-4">
+        <TabsList className="grid w-full grid-cols-6">
           <TabsTrigger value="accounting">Accounting</TabsTrigger>
           <TabsTrigger value="job-costing">Job Costing</TabsTrigger>
           <TabsTrigger value="ledger">General Ledger</TabsTrigger>
+          <TabsTrigger value="bank-reconciliation">Bank Reconciliation</TabsTrigger>
+          <TabsTrigger value="currencies">Currencies</TabsTrigger>
           <TabsTrigger value="reports">Financial Reports</TabsTrigger>
         </TabsList>
         
@@ -1855,10 +1859,12 @@ const FinancialManagement = () => {
               ) : (
                 <div className="space-y-4">
                   {projects.map((project: any) => {
-                    const budgetVariance = project.budget && project.actual_cost
-                      ? ((project.actual_cost - project.budget) / project.budget) * 100
+                    const materialCost = project.financials?.materialCost || 0;
+                    const totalCost = project.financials?.totalCost ?? (project.actual_cost || 0);
+                    const budgetVariance = project.budget && totalCost
+                      ? ((totalCost - project.budget) / project.budget) * 100
                       : 0;
-                    const profit = project.financials?.totalPaid - (project.actual_cost || 0);
+                    const profit = (project.financials?.totalPaid || 0) - totalCost;
                     const profitMargin = project.budget && project.budget > 0
                       ? ((profit / project.budget) * 100)
                       : 0;
@@ -1913,8 +1919,16 @@ const FinancialManagement = () => {
                                 {new Intl.NumberFormat('en-US', {
                                   style: 'currency',
                                   currency: project.currency || 'USD'
-                                }).format(project.actual_cost || 0)}
+                                }).format(totalCost)}
                               </p>
+                              {materialCost > 0 && (
+                                <p className="text-xs text-muted-foreground">
+                                  incl. {new Intl.NumberFormat('en-US', {
+                                    style: 'currency',
+                                    currency: project.currency || 'USD'
+                                  }).format(materialCost)} materials
+                                </p>
+                              )}
                               {budgetVariance !== 0 && (
                                 <p className={`text-xs ${budgetVariance > 0 ? 'text-red-600' : 'text-green-600'}`}>
                                   {budgetVariance > 0 ? '+' : ''}{budgetVariance.toFixed(1)}% variance
@@ -1950,13 +1964,13 @@ const FinancialManagement = () => {
                               )}
                             </div>
                           </div>
-                          {project.budget && project.actual_cost && (
+                          {project.budget && totalCost > 0 && (
                             <div className="mt-4">
                               <div className="flex justify-between text-sm mb-2">
                                 <span className="text-muted-foreground">Budget Utilization</span>
-                                <span>{Math.min((project.actual_cost / project.budget) * 100, 100).toFixed(1)}%</span>
+                                <span>{Math.min((totalCost / project.budget) * 100, 100).toFixed(1)}%</span>
                               </div>
-                              <Progress value={Math.min((project.actual_cost / project.budget) * 100, 100)} className="h-2" />
+                              <Progress value={Math.min((totalCost / project.budget) * 100, 100)} className="h-2" />
                             </div>
                           )}
                         </CardContent>
@@ -2219,6 +2233,16 @@ const FinancialManagement = () => {
           </Tabs>
         </TabsContent>
         
+        {/* Bank Reconciliation Tab */}
+        <TabsContent value="bank-reconciliation" className="space-y-4">
+          <BankReconciliation chartOfAccounts={chartOfAccounts} />
+        </TabsContent>
+
+        {/* Currencies Tab */}
+        <TabsContent value="currencies" className="space-y-4">
+          <CurrencyManagement />
+        </TabsContent>
+
         {/* Financial Reports Tab */}
         <TabsContent value="reports">
           <Card>
@@ -35,6 +35,7 @@ import {
   generateProductCode,
   type Product,
 } from '@/services/api/inventory-service';
+import { getSuppliers, type Supplier } from '@/services/api/procurement-service';
 import {
   Table,
   TableBody,
@@ -86,6 +87,7 @@ export default function InventoryProducts() {
 
   // Categories
   const [categories, setCategories] = useState<Array<{ id: string; name: string; description?: string }>>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
 
   // Filters
   const [searchTerm, setSearchTerm] = useState('');
@@ -105,6 +107,8 @@ export default function InventoryProducts() {
     dimensions: '',
     is_trackable: false,
     track_by: 'none' as 'serial' | 'batch' | 'none',
+    preferred_supplier_id: '',
+    lead_time_days: '',
   });
 
   // Fetch data
@@ -115,6 +119,7 @@ export default function InventoryProducts() {
         await Promise.all([
           fetchProducts(),
           fetchCategories(),
+          fetchSuppliers(),
         ]);
       } catch (error: any) {
         console.error('Error loading products data:', error);
@@ -183,6 +188,15 @@ export default function InventoryProducts() {
     }
   };
 
+  const fetchSuppliers = async () => {
+    try {
+      const data = await getSuppliers({ is_active: true });
+      setSuppliers(data || []);
+    } catch (error) {
+      console.error('Error fetching suppliers:', error);
+    }
+  };
+
   const handleCreateProduct = async () => {
     try {
       setLoading(true);
@@ -191,6 +205,8 @@ export default function InventoryProducts() {
         const productData: Partial<ProductType> = {
           ...productForm,
           weight: productForm.weight ? parseFloat(productForm.weight) || undefined : undefined,
+          preferred_supplier_id: productForm.preferred_supplier_id || null,
+          lead_time_days: productForm.lead_time_days ? parseInt(productForm.lead_time_days) : null,
         };
         await updateProduct(selectedProduct.id, productData);
         toast({
@@ -202,6 +218,8 @@ export default function InventoryProducts() {
         const productData: Partial<ProductType> = {
           ...productForm,
           weight: productForm.weight ? parseFloat(productForm.weight) || undefined : undefined,
+          preferred_supplier_id: productForm.preferred_supplier_id || null,
+          lead_time_days: productForm.lead_time_days ? parseInt(productForm.lead_time_days) : null,
         };
         await createProduct(productData);
         toast({
@@ -238,6 +256,8 @@ export default function InventoryProducts() {
       dimensions: product.dimensions || '',
       is_trackable: product.is_trackable,
       track_by: product.track_by || 'none',
+      preferred_supplier_id: product.preferred_supplier_id || '',
+      lead_time_days: product.lead_time_days?.toString() || '',
     });
     setShowProductDialog(true);
   };
@@ -313,6 +333,8 @@ export default function InventoryProducts() {
       dimensions: '',
       is_trackable: false,
       track_by: 'none',
+      preferred_supplier_id: '',
+      lead_time_days: '',
     });
     setSelectedProduct(null);
     setIsEditing(false);
@@ -679,6 +701,40 @@ export default function InventoryProducts() {
                 placeholder="Barcode number"
               />
             </div>
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="grid gap-2">
+                <Label htmlFor="preferred_supplier">Preferred Supplier</Label>
+                <Select
+                  value={productForm.preferred_supplier_id || 'none'}
+                  onValueChange={(value) =>
+                    setProductForm({ ...productForm, preferred_supplier_id: value === 'none' ? '' : value })
+                  }
+                >
+                  <SelectTrigger id="preferred_supplier">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Last supplier ordered from</SelectItem>
+                    {suppliers.map((supplier) => (
+                      <SelectItem key={supplier.id} value={supplier.id}>
+                        {supplier.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="lead_time_days">Lead Time (days)</Label>
+                <Input
+                  id="lead_time_days"
+                  type="number"
+                  min="0"
+                  value={productForm.lead_time_days}
+                  onChange={(e) => setProductForm({ ...productForm, lead_time_days: e.target.value })}
+                  placeholder="Inventory default"
+                />
+              </div>
+            </div>
             <div className="grid gap-4 md:grid-cols-2">
               <div className="flex items-center space-x-2">
                 <Switch
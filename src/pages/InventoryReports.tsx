@@ -21,6 +21,7 @@ import {
   Download,
   Calendar,
   Filter,
+  Layers,
 } from 'lucide-react';
 import {
   getInventoryReports,
@@ -51,6 +52,14 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { CostLayersDialog } from '@/components/inventory/CostLayersDialog';
+
+const VALUATION_METHOD_LABELS: Record<string, string> = {
+  FIFO: 'FIFO',
+  FEFO: 'FEFO',
+  LIFO: 'LIFO',
+  weighted_average: 'Weighted Avg',
+};
 
 export default function InventoryReports() {
   const { toast } = useToast();
@@ -70,6 +79,7 @@ export default function InventoryReports() {
   const [filterWarehouse, setFilterWarehouse] = useState<string>('all');
   const [filterCategory, setFilterCategory] = useState<string>('all');
   const [lowStockOnly, setLowStockOnly] = useState(false);
+  const [layersItem, setLayersItem] = useState<StockValueReportItem | null>(null);
 
   useEffect(() => {
     loadWarehouses();
@@ -467,15 +477,17 @@ export default function InventoryReports() {
                     <TableHead>Warehouse</TableHead>
                     <TableHead>Quantity</TableHead>
                     <TableHead>Available</TableHead>
+                    <TableHead>Method</TableHead>
                     <TableHead>Avg Cost</TableHead>
                     <TableHead>Stock Value</TableHead>
                     <TableHead>Status</TableHead>
+                    <TableHead></TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
                   {stockValueReport.length === 0 ? (
                     <TableRow>
-                      <TableCell colSpan={8} className="text-center text-muted-foreground">
+                      <TableCell colSpan={10} className="text-center text-muted-foreground">
                         No data available
                       </TableCell>
                     </TableRow>
@@ -502,6 +514,16 @@ export default function InventoryReports() {
                             : parseFloat(String(item.available_quantity || 0))
                           ).toLocaleString()}
                         </TableCell>
+                        <TableCell>
+                          <Badge variant="outline">
+                            {VALUATION_METHOD_LABELS[item.valuation_method] || item.valuation_method}
+                          </Badge>
+                          {item.earliest_expiry && (
+                            <div className="text-xs text-muted-foreground">
+                              Exp. {new Date(item.earliest_expiry).toLocaleDateString()}
+                            </div>
+                          )}
+                        </TableCell>
                         <TableCell>
                           $
                           {(typeof item.average_cost === 'number'
@@ -532,11 +554,22 @@ export default function InventoryReports() {
                             <Badge variant="default">OK</Badge>
                           )}
                         </TableCell>
+                        <TableCell>
+                          <Button variant="ghost" size="sm" onClick={() => setLayersItem(item)}>
+                            <Layers className="mr-1 h-4 w-4" />
+                            Layers
+                          </Button>
+                        </TableCell>
                       </TableRow>
                     ))
                   )}
                 </TableBody>
               </Table>
+              <CostLayersDialog
+                item={layersItem}
+                onClose={() => setLayersItem(null)}
+                onMethodChanged={loadStockValueReport}
+              />
             </CardContent>
           </Card>
         </TabsContent>
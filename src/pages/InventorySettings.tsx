@@ -32,16 +32,24 @@ import { getWarehouses, type Warehouse as WarehouseType } from '@/services/api/i
 
 interface InventorySettings {
   // Valuation
-  default_valuation_method: 'FIFO' | 'LIFO' | 'weighted_average';
+  default_valuation_method: 'FIFO' | 'FEFO' | 'LIFO' | 'weighted_average';
   
   // Reorder Settings
   auto_reorder_enabled: boolean;
+  replenishment_frequency: 'daily' | 'weekly';
+  replenishment_day_of_week: number;
+  replenishment_output: 'requisition' | 'purchase_order';
+  replenishment_consumption_days: number;
+  default_lead_time_days: number;
   low_stock_alert_enabled: boolean;
   low_stock_threshold_percentage: number;
   
   // Defaults
   default_unit_of_measure: string;
   default_warehouse_id?: string;
+  reservation_expiry_days: number;
+  abc_class_a_percent: number;
+  abc_class_b_percent: number;
   
   // Tracking
   enable_serial_tracking: boolean;
@@ -66,9 +74,17 @@ export default function InventorySettings() {
   const [settings, setSettings] = useState<InventorySettings>({
     default_valuation_method: 'weighted_average',
     auto_reorder_enabled: false,
+    replenishment_frequency: 'daily',
+    replenishment_day_of_week: 1,
+    replenishment_output: 'requisition',
+    replenishment_consumption_days: 30,
+    default_lead_time_days: 7,
     low_stock_alert_enabled: true,
     low_stock_threshold_percentage: 20,
     default_unit_of_measure: 'pcs',
+    reservation_expiry_days: 30,
+    abc_class_a_percent: 80,
+    abc_class_b_percent: 95,
     enable_serial_tracking: false,
     enable_batch_tracking: false,
     require_serial_on_sale: false,
@@ -89,7 +105,8 @@ export default function InventorySettings() {
       setLoading(true);
       const { getInventorySettings } = await import('@/services/api/settings-service');
       const data = await getInventorySettings();
-      setSettings(data);
+      // Keep defaults for keys saved before they were introduced
+      setSettings((prev) => ({ ...prev, ...data }));
     } catch (error: any) {
       toast({
         title: 'Error',
@@ -185,6 +202,7 @@ export default function InventorySettings() {
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="FIFO">FIFO (First In, First Out)</SelectItem>
+                  <SelectItem value="FEFO">FEFO (First Expiry, First Out)</SelectItem>
                   <SelectItem value="LIFO">LIFO (Last In, First Out)</SelectItem>
                   <SelectItem value="weighted_average">Weighted Average</SelectItem>
                 </SelectContent>
@@ -235,7 +253,7 @@ export default function InventorySettings() {
               <div className="space-y-0.5">
                 <Label>Auto Reorder Enabled</Label>
                 <p className="text-sm text-muted-foreground">
-                  Automatically create purchase orders when stock is low
+                  Automatically draft requisitions or purchase orders when stock is low
                 </p>
               </div>
               <Switch
@@ -245,6 +263,104 @@ export default function InventorySettings() {
                 }
               />
             </div>
+            {settings.auto_reorder_enabled && (
+              <div className="grid gap-4 md:grid-cols-3">
+                <div>
+                  <Label>Run</Label>
+                  <Select
+                    value={settings.replenishment_frequency}
+                    onValueChange={(value) =>
+                      setSettings({ ...settings, replenishment_frequency: value as 'daily' | 'weekly' })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="daily">Daily</SelectItem>
+                      <SelectItem value="weekly">Weekly</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {settings.replenishment_frequency === 'weekly' && (
+                  <div>
+                    <Label>On</Label>
+                    <Select
+                      value={String(settings.replenishment_day_of_week)}
+                      onValueChange={(value) =>
+                        setSettings({ ...settings, replenishment_day_of_week: parseInt(value) })
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'].map(
+                          (day, index) => (
+                            <SelectItem key={day} value={String(index)}>
+                              {day}
+                            </SelectItem>
+                          )
+                        )}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                <div>
+                  <Label>Create</Label>
+                  <Select
+                    value={settings.replenishment_output}
+                    onValueChange={(value) =>
+                      setSettings({
+                        ...settings,
+                        replenishment_output: value as 'requisition' | 'purchase_order',
+                      })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="requisition">Draft requisitions</SelectItem>
+                      <SelectItem value="purchase_order">Draft purchase orders</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            )}
+            <div className="grid gap-4 md:grid-cols-2">
+              <div>
+                <Label>Consumption Window (days)</Label>
+                <Input
+                  type="number"
+                  min="1"
+                  value={settings.replenishment_consumption_days}
+                  onChange={(e) =>
+                    setSettings({
+                      ...settings,
+                      replenishment_consumption_days: parseInt(e.target.value) || 30,
+                    })
+                  }
+                />
+                <p className="text-sm text-muted-foreground mt-1">
+                  Recent issues used to estimate daily usage
+                </p>
+              </div>
+              <div>
+                <Label>Default Lead Time (days)</Label>
+                <Input
+                  type="number"
+                  min="1"
+                  value={settings.default_lead_time_days}
+                  onChange={(e) =>
+                    setSettings({ ...settings, default_lead_time_days: parseInt(e.target.value) || 7 })
+                  }
+                />
+                <p className="text-sm text-muted-foreground mt-1">
+                  Used for products without their own lead time
+                </p>
+              </div>
+            </div>
             <div className="flex items-center justify-between">
               <div className="space-y-0.5">
                 <Label>Low Stock Alerts</Label>
@@ -335,6 +451,49 @@ export default function InventorySettings() {
                 </SelectContent>
               </Select>
             </div>
+            <div>
+              <Label>Reservation Expiry (days)</Label>
+              <Input
+                type="number"
+                min="0"
+                value={settings.reservation_expiry_days}
+                onChange={(e) =>
+                  setSettings({ ...settings, reservation_expiry_days: parseInt(e.target.value) || 0 })
+                }
+              />
+              <p className="text-sm text-muted-foreground mt-1">
+                Stock reservations are released after this many days unless issued; 0 keeps them until released
+              </p>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label>ABC Class A (% of issue value)</Label>
+                <Input
+                  type="number"
+                  min="1"
+                  max="99"
+                  value={settings.abc_class_a_percent}
+                  onChange={(e) =>
+                    setSettings({ ...settings, abc_class_a_percent: parseFloat(e.target.value) || 0 })
+                  }
+                />
+              </div>
+              <div>
+                <Label>ABC Classes A + B (% of issue value)</Label>
+                <Input
+                  type="number"
+                  min="1"
+                  max="100"
+                  value={settings.abc_class_b_percent}
+                  onChange={(e) =>
+                    setSettings({ ...settings, abc_class_b_percent: parseFloat(e.target.value) || 0 })
+                  }
+                />
+              </div>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Cycle counts classify stock by the last year's issue value; the rest is class C
+            </p>
           </CardContent>
         </Card>
 
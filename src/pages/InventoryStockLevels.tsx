@@ -22,12 +22,15 @@ import {
   Download,
   RefreshCw,
   Eye,
+  ShoppingCart,
+  Lock,
 } from 'lucide-react';
 import {
   getProducts,
   getWarehouses,
   getInventoryLevels,
   getLowStockAlerts,
+  updateInventoryZone,
   type Product,
   type Warehouse as WarehouseType,
 } from '@/services/api/inventory-service';
@@ -49,6 +52,9 @@ import {
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ReplenishmentDialog } from '@/components/inventory/ReplenishmentDialog';
+import { ReserveStockDialog } from '@/components/inventory/ReserveStockDialog';
+import { StockReservationsDialog } from '@/components/inventory/StockReservationsDialog';
 
 interface InventoryLevel {
   id: string;
@@ -64,6 +70,7 @@ interface InventoryLevel {
   product_sku: string;
   warehouse_name: string;
   warehouse_code: string;
+  zone?: string | null;
 }
 
 interface LowStockAlert {
@@ -75,6 +82,7 @@ interface LowStockAlert {
   warehouse_name: string;
   available_quantity: number;
   reorder_point: number;
+  reorder_quantity: number;
   shortage: number;
 }
 
@@ -90,6 +98,12 @@ export default function InventoryStockLevels() {
   const [lowStockAlerts, setLowStockAlerts] = useState<LowStockAlert[]>([]);
   const [products, setProducts] = useState<Product[]>([]);
   const [warehouses, setWarehouses] = useState<WarehouseType[]>([]);
+  const [replenishmentOpen, setReplenishmentOpen] = useState(false);
+  const [reserveLevel, setReserveLevel] = useState<InventoryLevel | null>(null);
+  const [reservationsOpen, setReservationsOpen] = useState(false);
+  const [reservationsLevel, setReservationsLevel] = useState<InventoryLevel | null>(null);
+  const [zoneEditId, setZoneEditId] = useState<string | null>(null);
+  const [zoneValue, setZoneValue] = useState('');
 
   // Filters
   const [productFilter, setProductFilter] = useState<string>(
@@ -253,6 +267,42 @@ export default function InventoryStockLevels() {
     level => level.available_quantity <= 0
   ).length;
 
+  const totalReserved = inventoryLevels.reduce((sum, level) => {
+    const qty = parseFloat(String(level.reserved_quantity || 0));
+    return sum + (isNaN(qty) ? 0 : qty);
+  }, 0);
+
+  const handleReservationsChanged = () => {
+    fetchInventoryLevels();
+    fetchLowStockAlerts();
+  };
+
+  const startZoneEdit = (level: InventoryLevel) => {
+    setZoneEditId(level.id);
+    setZoneValue(level.zone || '');
+  };
+
+  const saveZone = async (level: InventoryLevel) => {
+    setZoneEditId(null);
+    const zone = zoneValue.trim();
+    if (zone === (level.zone || '')) return;
+    try {
+      await updateInventoryZone(level.id, zone || null);
+      setInventoryLevels((prev) => prev.map((item) => (item.id === level.id ? { ...item, zone: zone || null } : item)));
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update zone',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const openReservations = (level: InventoryLevel | null) => {
+    setReservationsLevel(level);
+    setReservationsOpen(true);
+  };
+
   const totalProducts = new Set(inventoryLevels.map(level => level.product_id)).size;
 
   if (initialLoad) {
@@ -273,12 +323,40 @@ export default function InventoryStockLevels() {
             Real-time inventory tracking and stock visibility
           </p>
         </div>
-        <Button onClick={handleRefresh} variant="outline">
-          <RefreshCw className="mr-2 h-4 w-4" />
-          Refresh
-        </Button>
+        <div className="flex gap-2">
+          <Button onClick={() => setReplenishmentOpen(true)}>
+            <ShoppingCart className="mr-2 h-4 w-4" />
+            Replenish
+          </Button>
+          <Button onClick={() => openReservations(null)} variant="outline">
+            <Lock className="mr-2 h-4 w-4" />
+            Reservations
+          </Button>
+          <Button onClick={handleRefresh} variant="outline">
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Refresh
+          </Button>
+        </div>
       </div>
 
+      <ReplenishmentDialog open={replenishmentOpen} onOpenChange={setReplenishmentOpen} />
+      <ReserveStockDialog
+        level={reserveLevel}
+        onOpenChange={(open) => !open && setReserveLevel(null)}
+        onReserved={handleReservationsChanged}
+      />
+      <StockReservationsDialog
+        open={reservationsOpen}
+        onOpenChange={setReservationsOpen}
+        inventoryId={reservationsLevel?.id}
+        title={
+          reservationsLevel
+            ? `Reservations: ${reservationsLevel.product_name} in ${reservationsLevel.warehouse_name}`
+            : undefined
+        }
+        onChanged={handleReservationsChanged}
+      />
+
       {/* Stats Cards */}
       <div className="grid gap-4 md:grid-cols-4">
         <Card>
@@ -330,7 +408,7 @@ export default function InventoryStockLevels() {
               }, 0).toLocaleString()}
             </div>
             <p className="text-xs text-muted-foreground">
-              Units across all warehouses
+              Units across all warehouses, {totalReserved.toLocaleString()} reserved
             </p>
           </CardContent>
         </Card>
@@ -448,6 +526,7 @@ export default function InventoryStockLevels() {
                     <TableHead className="text-right">Total</TableHead>
                     <TableHead className="text-right">Reorder Point</TableHead>
                     <TableHead>Status</TableHead>
+                    <TableHead>Actions</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
@@ -465,6 +544,28 @@ export default function InventoryStockLevels() {
                             <Warehouse className="h-4 w-4 mr-2 text-muted-foreground" />
                             {level.warehouse_name}
                           </div>
+                          {zoneEditId === level.id ? (
+                            <Input
+                              autoFocus
+                              className="h-7 mt-1 w-32"
+                              placeholder="Zone"
+                              value={zoneValue}
+                              onChange={(e) => setZoneValue(e.target.value)}
+                              onBlur={() => saveZone(level)}
+                              onKeyDown={(e) => {
+                                if (e.key === 'Enter') saveZone(level);
+                                if (e.key === 'Escape') setZoneEditId(null);
+                              }}
+                            />
+                          ) : (
+                            <button
+                              type="button"
+                              className="ml-6 text-xs text-muted-foreground hover:underline"
+                              onClick={() => startZoneEdit(level)}
+                            >
+                              {level.zone ? `Zone ${level.zone}` : 'Set zone'}
+                            </button>
+                          )}
                         </TableCell>
                         <TableCell className="text-right font-medium">
                           {(typeof level.available_quantity === 'number' ? level.available_quantity : parseFloat(String(level.available_quantity || 0))).toLocaleString()}
@@ -494,6 +595,22 @@ export default function InventoryStockLevels() {
                             <Badge variant="default">In Stock</Badge>
                           )}
                         </TableCell>
+                        <TableCell>
+                          <div className="flex gap-1">
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={isOutOfStock}
+                              onClick={() => setReserveLevel(level)}
+                            >
+                              <Lock className="mr-1 h-3 w-3" />
+                              Reserve
+                            </Button>
+                            <Button size="sm" variant="ghost" onClick={() => openReservations(level)}>
+                              <Eye className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
                       </TableRow>
                     );
                   })}
@@ -546,8 +663,7 @@ export default function InventoryStockLevels() {
                         {(typeof alert.shortage === 'number' ? alert.shortage : parseFloat(String(alert.shortage || 0))).toLocaleString()}
                       </TableCell>
                       <TableCell className="text-right">
-                        {/* This would come from inventory level */}
-                        -
+                        {(typeof alert.reorder_quantity === 'number' ? alert.reorder_quantity : parseFloat(String(alert.reorder_quantity || 0))).toLocaleString()}
                       </TableCell>
                     </TableRow>
                   ))}
@@ -0,0 +1,281 @@
+/**
+ * Inventory Stock Takes Page
+ * Physical stock-takes and ABC cycle counts with variance review and posting
+ */
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { useToast } from '@/hooks/use-toast';
+import { ClipboardList, Clock, Eye, Loader2, Plus, Scale, ScanLine } from 'lucide-react';
+import {
+  getStockTakes,
+  getWarehouses,
+  type StockTake,
+  type StockTakeStatus,
+  type Warehouse,
+} from '@/services/api/inventory-service';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { StockTakeForm } from '@/components/inventory/StockTakeForm';
+import { StockTakeSheetDialog } from '@/components/inventory/StockTakeSheetDialog';
+
+const formatMoney = (value: number) =>
+  `₹${Number(value || 0).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+export default function InventoryStockTakes() {
+  const { toast } = useToast();
+  const [initialLoad, setInitialLoad] = useState(true);
+  const [stockTakes, setStockTakes] = useState<StockTake[]>([]);
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [statusFilter, setStatusFilter] = useState<StockTakeStatus | 'all'>('all');
+  const [warehouseFilter, setWarehouseFilter] = useState('all');
+  const [showCreateDialog, setShowCreateDialog] = useState(false);
+  const [openSessionId, setOpenSessionId] = useState<string | null>(null);
+
+  const fetchStockTakes = async () => {
+    try {
+      const data = await getStockTakes();
+      setStockTakes(data || []);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to fetch stock takes',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  useEffect(() => {
+    const loadData = async () => {
+      try {
+        setInitialLoad(true);
+        const [warehouseData] = await Promise.all([getWarehouses(), fetchStockTakes()]);
+        setWarehouses((warehouseData || []).filter((warehouse) => warehouse.is_active));
+      } catch (error) {
+        console.error('Error loading stock take data:', error);
+        toast({
+          title: 'Error',
+          description: error instanceof Error ? error.message : 'Failed to load stock takes',
+          variant: 'destructive',
+        });
+      } finally {
+        setInitialLoad(false);
+      }
+    };
+    loadData();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const filteredStockTakes = stockTakes.filter(
+    (stockTake) =>
+      (statusFilter === 'all' || stockTake.status === statusFilter) &&
+      (warehouseFilter === 'all' || stockTake.warehouse_id === warehouseFilter)
+  );
+
+  const countingCount = stockTakes.filter((stockTake) => stockTake.status === 'counting').length;
+  const awaitingCount = stockTakes.filter((stockTake) => ['review', 'approved'].includes(stockTake.status)).length;
+  const postedThisYear = stockTakes.filter(
+    (stockTake) =>
+      stockTake.status === 'posted' &&
+      stockTake.posted_at &&
+      new Date(stockTake.posted_at).getFullYear() === new Date().getFullYear()
+  );
+  const postedVariance = postedThisYear.reduce((sum, stockTake) => sum + Number(stockTake.variance_value || 0), 0);
+
+  const getStatusBadge = (status: StockTakeStatus) => {
+    const statusConfig: Record<StockTakeStatus, { variant: 'default' | 'secondary' | 'outline' | 'destructive'; label: string }> = {
+      counting: { variant: 'secondary', label: 'Counting' },
+      review: { variant: 'outline', label: 'In Review' },
+      approved: { variant: 'default', label: 'Approved' },
+      posted: { variant: 'default', label: 'Posted' },
+      cancelled: { variant: 'destructive', label: 'Cancelled' },
+    };
+    const config = statusConfig[status] || { variant: 'secondary', label: status };
+    return <Badge variant={config.variant}>{config.label}</Badge>;
+  };
+
+  if (initialLoad) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Stock Takes</h1>
+          <p className="text-muted-foreground mt-1">
+            Count warehouses and zones, review variances and post the adjustments in one step
+          </p>
+        </div>
+        <Button onClick={() => setShowCreateDialog(true)}>
+          <Plus className="mr-2 h-4 w-4" />
+          New Stock Take
+        </Button>
+      </div>
+
+      {/* Stats Cards */}
+      <div className="grid gap-4 md:grid-cols-4">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Stock Takes</CardTitle>
+            <ClipboardList className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{stockTakes.length}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Counting</CardTitle>
+            <ScanLine className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{countingCount}</div>
+            <p className="text-xs text-muted-foreground">Count sheets open</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Awaiting Posting</CardTitle>
+            <Clock className="h-4 w-4 text-yellow-500" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{awaitingCount}</div>
+            <p className="text-xs text-muted-foreground">In review or approved</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Posted Variance (YTD)</CardTitle>
+            <Scale className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className={`text-2xl font-bold ${postedVariance < 0 ? 'text-red-600' : ''}`}>
+              {formatMoney(postedVariance)}
+            </div>
+            <p className="text-xs text-muted-foreground">{postedThisYear.length} posted count(s)</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Stock Takes Table */}
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle>Count Sessions ({filteredStockTakes.length})</CardTitle>
+            <CardDescription>Open a session to count, review or post it</CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Select value={warehouseFilter} onValueChange={setWarehouseFilter}>
+              <SelectTrigger className="w-[180px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Warehouses</SelectItem>
+                {warehouses.map((warehouse) => (
+                  <SelectItem key={warehouse.id} value={warehouse.id}>
+                    {warehouse.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as StockTakeStatus | 'all')}>
+              <SelectTrigger className="w-[150px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Statuses</SelectItem>
+                <SelectItem value="counting">Counting</SelectItem>
+                <SelectItem value="review">In Review</SelectItem>
+                <SelectItem value="approved">Approved</SelectItem>
+                <SelectItem value="posted">Posted</SelectItem>
+                <SelectItem value="cancelled">Cancelled</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {filteredStockTakes.length === 0 ? (
+            <Alert>
+              <AlertDescription>No stock takes found. Start one to freeze a count sheet for a warehouse.</AlertDescription>
+            </Alert>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Session</TableHead>
+                    <TableHead>Warehouse</TableHead>
+                    <TableHead>Scope</TableHead>
+                    <TableHead className="text-right">Counted</TableHead>
+                    <TableHead className="text-right">Variance Lines</TableHead>
+                    <TableHead className="text-right">Variance Value</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Started</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredStockTakes.map((stockTake) => (
+                    <TableRow key={stockTake.id}>
+                      <TableCell className="font-medium">{stockTake.session_number}</TableCell>
+                      <TableCell>
+                        {stockTake.warehouse_name}
+                        {stockTake.zone && <div className="text-xs text-muted-foreground">Zone {stockTake.zone}</div>}
+                      </TableCell>
+                      <TableCell>
+                        {stockTake.count_type === 'cycle'
+                          ? `Cycle: class ${(stockTake.abc_classes || []).join(', ')}`
+                          : 'Full count'}
+                        {stockTake.blind_count && <div className="text-xs text-muted-foreground">Blind</div>}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {stockTake.counted_lines} / {stockTake.total_lines}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {stockTake.status === 'counting' ? '-' : stockTake.variance_lines}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {stockTake.status === 'counting' ? '-' : formatMoney(stockTake.variance_value)}
+                      </TableCell>
+                      <TableCell>{getStatusBadge(stockTake.status)}</TableCell>
+                      <TableCell>{new Date(stockTake.created_at).toLocaleDateString()}</TableCell>
+                      <TableCell>
+                        <Button size="sm" variant="ghost" onClick={() => setOpenSessionId(stockTake.id)}>
+                          <Eye className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <StockTakeForm
+        open={showCreateDialog}
+        onOpenChange={setShowCreateDialog}
+        warehouses={warehouses}
+        onCreated={(stockTake) => {
+          fetchStockTakes();
+          setOpenSessionId(stockTake.id);
+        }}
+      />
+      <StockTakeSheetDialog
+        sessionId={openSessionId}
+        onClose={() => setOpenSessionId(null)}
+        onChanged={fetchStockTakes}
+      />
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { ArrowLeft, Edit, Trash2, UserCheck, FileText, Calendar, Phone, Mail, MapPin, Globe, Briefcase, Building2, Tag, Plus, CheckCircle2, XCircle, Clock } from 'lucide-react';
+import { ArrowLeft, Edit, Trash2, UserCheck, FileText, Calendar, Phone, Mail, MapPin, Globe, Briefcase, Building2, Tag, Plus, CheckCircle2, XCircle, Clock, RefreshCw } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -12,6 +12,8 @@ import ConvertLeadToClientDialog from '@/components/ConvertLeadToClientDialog';
 import DeleteConfirmDialog from '@/components/DeleteConfirmDialog';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Progress } from '@/components/ui/progress';
+import { crmService, LeadScore } from '@/services/api/crm-service';
+import { getLeadScoreTier, leadScoreTierStyles } from '@/components/crm/leadScoreTier';
 
 const LeadDetail = () => {
   const { leadId } = useParams<{ leadId: string }>();
@@ -27,12 +29,15 @@ const LeadDetail = () => {
   const [activityFormOpen, setActivityFormOpen] = useState(false);
   const [convertDialogOpen, setConvertDialogOpen] = useState(false);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [leadScore, setLeadScore] = useState<LeadScore | null>(null);
+  const [scoreLoading, setScoreLoading] = useState(false);
 
   useEffect(() => {
     if (leadId) {
       fetchLeadDetails();
       fetchActivities();
       fetchRelatedRecords();
+      fetchLeadScore();
     }
   }, [leadId]);
 
@@ -59,6 +64,19 @@ const LeadDetail = () => {
     }
   };
 
+  // The server recalculates the score when the lead or its activities changed
+  const fetchLeadScore = async (recalculate = false) => {
+    if (!leadId) return;
+    try {
+      setScoreLoading(true);
+      setLeadScore(recalculate ? await crmService.calculateLeadScore(leadId) : await crmService.getLeadScore(leadId));
+    } catch (error) {
+      console.error('Error fetching lead score:', error);
+    } finally {
+      setScoreLoading(false);
+    }
+  };
+
   const fetchActivities = async () => {
     try {
       const { data, error } = await db
@@ -126,11 +144,13 @@ const LeadDetail = () => {
 
   const handleLeadSaved = () => {
     fetchLeadDetails();
+    fetchLeadScore();
     setLeadFormOpen(false);
   };
 
   const handleActivitySaved = () => {
     fetchActivities();
+    fetchLeadScore();
     setActivityFormOpen(false);
   };
 
@@ -444,6 +464,52 @@ const LeadDetail = () => {
 
             {/* Sidebar */}
             <div className="space-y-4">
+              <Card>
+                <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                  <CardTitle>Lead Score</CardTitle>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => fetchLeadScore(true)}
+                    disabled={scoreLoading}
+                    title="Recalculate score"
+                  >
+                    <RefreshCw className={`h-4 w-4 ${scoreLoading ? 'animate-spin' : ''}`} />
+                  </Button>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {leadScore ? (
+                    <>
+                      <div className="flex items-center gap-3">
+                        <span className="text-3xl font-bold">{leadScore.score}</span>
+                        <Badge variant="outline" className={`${leadScoreTierStyles[getLeadScoreTier(leadScore.score)]} capitalize`}>
+                          {getLeadScoreTier(leadScore.score)}
+                        </Badge>
+                      </div>
+                      <Progress value={leadScore.score} className="h-2" />
+                      <div className="space-y-2">
+                        {(leadScore.score_breakdown || []).map((item) => (
+                          <div key={item.rule_id || item.factor}>
+                            <div className="flex justify-between text-sm">
+                              <span>{item.rule_name}</span>
+                              <span className="font-medium">{item.points}/{item.max_points}</span>
+                            </div>
+                            <p className="text-xs text-muted-foreground">{item.detail}</p>
+                          </div>
+                        ))}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        Calculated {new Date(leadScore.last_calculated_at).toLocaleString()}
+                      </p>
+                    </>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">
+                      {scoreLoading ? 'Calculating score...' : 'Score not available'}
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+
               <Card>
                 <CardHeader>
                   <CardTitle>Quick Actions</CardTitle>
@@ -0,0 +1,596 @@
+/**
+ * Leave Policies Page
+ * Accrual policies per leave type and employee group, employee leave balances and the year-end rollover
+ */
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { CalendarDays, Edit, History, Loader2, Plus, RefreshCw, Search, Trash2, Users } from 'lucide-react';
+import { selectRecords } from '@/services/api/postgresql-service';
+import type { LeaveType } from '@/integrations/postgresql/types';
+import {
+  EMPLOYMENT_TYPE_LABELS,
+  deleteLeavePolicy,
+  getLeaveBalances,
+  getLeavePolicies,
+  getLeaveRollovers,
+  runLeaveAccruals,
+  runYearEndRollover,
+  type LeaveBalance,
+  type LeavePolicy,
+  type LeaveRollover,
+} from '@/services/api/leave-service';
+import { LeavePolicyFormDialog } from '@/components/leave/LeavePolicyFormDialog';
+import { LeaveBalanceLedgerDialog } from '@/components/leave/LeaveBalanceLedgerDialog';
+
+const FREQUENCY_LABELS: Record<LeavePolicy['accrual_frequency'], string> = {
+  monthly: 'Monthly',
+  quarterly: 'Quarterly',
+  yearly: 'Yearly',
+};
+
+const currentYear = new Date().getFullYear();
+
+export default function LeavePolicies() {
+  const { toast } = useToast();
+  const [initialLoad, setInitialLoad] = useState(true);
+  const [policies, setPolicies] = useState<LeavePolicy[]>([]);
+  const [leaveTypes, setLeaveTypes] = useState<LeaveType[]>([]);
+  const [balances, setBalances] = useState<LeaveBalance[]>([]);
+  const [rollovers, setRollovers] = useState<LeaveRollover[]>([]);
+  const [year, setYear] = useState(String(currentYear));
+  const [searchTerm, setSearchTerm] = useState('');
+  const [policyDialogOpen, setPolicyDialogOpen] = useState(false);
+  const [editingPolicy, setEditingPolicy] = useState<LeavePolicy | null>(null);
+  const [deletingPolicy, setDeletingPolicy] = useState<LeavePolicy | null>(null);
+  const [ledgerBalance, setLedgerBalance] = useState<LeaveBalance | null>(null);
+  const [rolloverYear, setRolloverYear] = useState(String(currentYear - 1));
+  const [confirmRollover, setConfirmRollover] = useState(false);
+  const [running, setRunning] = useState(false);
+
+  const fetchPolicies = async () => {
+    try {
+      const [policyList, typeList] = await Promise.all([
+        getLeavePolicies(),
+        selectRecords<LeaveType>('leave_types', {
+          filters: [{ column: 'is_active', operator: 'eq', value: true }],
+          orderBy: 'name ASC',
+        }),
+      ]);
+      setPolicies(policyList);
+      setLeaveTypes(typeList);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to fetch leave policies',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const fetchBalances = async () => {
+    try {
+      setBalances(await getLeaveBalances({ year: parseInt(year, 10) }));
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to fetch leave balances',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const fetchRollovers = async () => {
+    try {
+      setRollovers(await getLeaveRollovers());
+    } catch (error) {
+      console.error('Error fetching leave rollovers:', error);
+    }
+  };
+
+  useEffect(() => {
+    Promise.all([fetchPolicies(), fetchRollovers()]).finally(() => setInitialLoad(false));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  useEffect(() => {
+    fetchBalances();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [year]);
+
+  const handleDeletePolicy = async () => {
+    if (!deletingPolicy) return;
+    try {
+      await deleteLeavePolicy(deletingPolicy.id);
+      toast({ title: 'Success', description: 'Leave policy deleted' });
+      fetchPolicies();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to delete leave policy',
+        variant: 'destructive',
+      });
+    } finally {
+      setDeletingPolicy(null);
+    }
+  };
+
+  const handleRunAccruals = async () => {
+    try {
+      setRunning(true);
+      const result = await runLeaveAccruals();
+      toast({ title: 'Success', description: `${result.credited} accrual(s) credited across ${result.employees} employee(s)` });
+      fetchBalances();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to run leave accruals',
+        variant: 'destructive',
+      });
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handleRollover = async () => {
+    try {
+      setRunning(true);
+      const result = await runYearEndRollover(parseInt(rolloverYear, 10));
+      toast({
+        title: 'Success',
+        description: `${result.year} closed: ${Number(result.days_carried_forward)} day(s) carried forward, ${Number(
+          result.days_encashed
+        )} encashed, ${Number(result.days_lapsed)} lapsed`,
+      });
+      fetchRollovers();
+      fetchBalances();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to run year-end rollover',
+        variant: 'destructive',
+      });
+    } finally {
+      setRunning(false);
+      setConfirmRollover(false);
+    }
+  };
+
+  const filteredBalances = balances.filter((balance) => {
+    if (!searchTerm) return true;
+    const term = searchTerm.toLowerCase();
+    return [balance.employee_name, balance.leave_type_name].some((value) => value?.toLowerCase().includes(term));
+  });
+
+  const employeeCount = new Set(balances.map((balance) => balance.employee_id)).size;
+  const typesWithoutPolicy = leaveTypes.filter((type) => !policies.some((policy) => policy.leave_type_id === type.id));
+  const closedYears = new Set(rollovers.map((rollover) => rollover.year));
+
+  if (initialLoad) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Leave Policies</h1>
+          <p className="text-muted-foreground mt-1">
+            How leave accrues, what carries into next year and what is encashed or lapses
+          </p>
+        </div>
+        <Button variant="outline" onClick={handleRunAccruals} disabled={running}>
+          {running ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+          Run Accruals
+        </Button>
+      </div>
+
+      {/* Stats Cards */}
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Active Policies</CardTitle>
+            <CalendarDays className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{policies.filter((policy) => policy.is_active).length}</div>
+            <p className="text-xs text-muted-foreground">
+              {typesWithoutPolicy.length > 0
+                ? `${typesWithoutPolicy.length} leave type(s) use their static allowance`
+                : 'Every leave type has a policy'}
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Employees with Balances</CardTitle>
+            <Users className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{employeeCount}</div>
+            <p className="text-xs text-muted-foreground">For {year}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Last Year-End Rollover</CardTitle>
+            <History className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{rollovers[0]?.year ?? '-'}</div>
+            <p className="text-xs text-muted-foreground">
+              {rollovers[0] ? `Closed ${new Date(rollovers[0].created_at).toLocaleDateString()}` : 'No year closed yet'}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Tabs defaultValue="policies">
+        <TabsList>
+          <TabsTrigger value="policies">Policies</TabsTrigger>
+          <TabsTrigger value="balances">Balances</TabsTrigger>
+          <TabsTrigger value="year-end">Year-End</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="policies">
+          <Card>
+            <CardHeader className="flex flex-row items-start justify-between space-y-0">
+              <div>
+                <CardTitle>Policies ({policies.length})</CardTitle>
+                <CardDescription>
+                  Leave types without a policy credit their maximum days at the start of each year and lapse at year end
+                </CardDescription>
+              </div>
+              <Button
+                onClick={() => {
+                  setEditingPolicy(null);
+                  setPolicyDialogOpen(true);
+                }}
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                New Policy
+              </Button>
+            </CardHeader>
+            <CardContent>
+              {policies.length === 0 ? (
+                <Alert>
+                  <AlertDescription>No leave policies yet.</AlertDescription>
+                </Alert>
+              ) : (
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Policy</TableHead>
+                        <TableHead>Applies To</TableHead>
+                        <TableHead>Entitlement</TableHead>
+                        <TableHead>Probation</TableHead>
+                        <TableHead>Year End</TableHead>
+                        <TableHead>Rules</TableHead>
+                        <TableHead></TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {policies.map((policy) => (
+                        <TableRow key={policy.id} className={policy.is_active ? undefined : 'text-muted-foreground'}>
+                          <TableCell>
+                            <div className="font-medium">{policy.name}</div>
+                            <div className="text-xs text-muted-foreground">{policy.leave_type_name}</div>
+                          </TableCell>
+                          <TableCell>
+                            {policy.employment_type
+                              ? EMPLOYMENT_TYPE_LABELS[policy.employment_type] || policy.employment_type
+                              : 'All employees'}
+                          </TableCell>
+                          <TableCell>
+                            {Number(policy.annual_entitlement)} days/yr
+                            <div className="text-xs text-muted-foreground">
+                              {FREQUENCY_LABELS[policy.accrual_frequency]}
+                              {policy.prorate_joiners && ', pro-rated'}
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            {policy.probation_months > 0 ? (
+                              <>
+                                {policy.probation_months} month(s)
+                                <div className="text-xs text-muted-foreground">
+                                  {policy.accrue_during_probation ? 'Accrues' : 'No accrual'},{' '}
+                                  {policy.allow_during_probation ? 'can be taken' : 'cannot be taken'}
+                                </div>
+                              </>
+                            ) : (
+                              '-'
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            {policy.carry_forward_max === null
+                              ? 'Carry all'
+                              : `Carry up to ${Number(policy.carry_forward_max)}`}
+                            {policy.encashment_enabled && (
+                              <div className="text-xs text-muted-foreground">
+                                Encash{' '}
+                                {policy.encashment_max_days !== null ? `up to ${Number(policy.encashment_max_days)}` : 'excess'}
+                              </div>
+                            )}
+                          </TableCell>
+                          <TableCell className="space-x-1">
+                            {policy.sandwich_rule && <Badge variant="outline">Sandwich</Badge>}
+                            {policy.allow_half_day && <Badge variant="outline">Half day</Badge>}
+                            {policy.allow_negative_balance && <Badge variant="outline">Negative</Badge>}
+                            {!policy.is_active && <Badge variant="secondary">Inactive</Badge>}
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex gap-1">
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={() => {
+                                  setEditingPolicy(policy);
+                                  setPolicyDialogOpen(true);
+                                }}
+                              >
+                                <Edit className="h-4 w-4" />
+                              </Button>
+                              <Button size="sm" variant="ghost" onClick={() => setDeletingPolicy(policy)}>
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="balances">
+          <Card>
+            <CardHeader>
+              <CardTitle>Balances ({filteredBalances.length})</CardTitle>
+              <CardDescription>Open a balance to see every accrual, leave and adjustment behind it</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex flex-col gap-4 md:flex-row">
+                <div className="relative flex-1">
+                  <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    placeholder="Search by employee or leave type..."
+                    value={searchTerm}
+                    onChange={(e) => setSearchTerm(e.target.value)}
+                    className="pl-8"
+                  />
+                </div>
+                <Select value={year} onValueChange={setYear}>
+                  <SelectTrigger className="w-[140px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {[currentYear + 1, currentYear, currentYear - 1, currentYear - 2].map((option) => (
+                      <SelectItem key={option} value={String(option)}>
+                        {option}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {filteredBalances.length === 0 ? (
+                <Alert>
+                  <AlertDescription>No leave balances for {year}. Run accruals to credit them.</AlertDescription>
+                </Alert>
+              ) : (
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Employee</TableHead>
+                        <TableHead>Leave Type</TableHead>
+                        <TableHead className="text-right">Opening</TableHead>
+                        <TableHead className="text-right">Accrued</TableHead>
+                        <TableHead className="text-right">Adjusted</TableHead>
+                        <TableHead className="text-right">Used</TableHead>
+                        <TableHead className="text-right">Pending</TableHead>
+                        <TableHead className="text-right">Available</TableHead>
+                        <TableHead></TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {filteredBalances.map((balance) => (
+                        <TableRow key={balance.id}>
+                          <TableCell className="font-medium">{balance.employee_name || '-'}</TableCell>
+                          <TableCell>
+                            {balance.leave_type_name}
+                            {balance.closed_at && (
+                              <Badge variant="secondary" className="ml-2">
+                                Closed
+                              </Badge>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">{Number(balance.opening_balance)}</TableCell>
+                          <TableCell className="text-right">{Number(balance.accrued)}</TableCell>
+                          <TableCell className="text-right">{Number(balance.adjusted)}</TableCell>
+                          <TableCell className="text-right">{Number(balance.used)}</TableCell>
+                          <TableCell className="text-right">{Number(balance.pending_days)}</TableCell>
+                          <TableCell
+                            className={`text-right font-semibold ${balance.available_days < 0 ? 'text-red-600' : ''}`}
+                          >
+                            {balance.available_days}
+                          </TableCell>
+                          <TableCell>
+                            <Button size="sm" variant="ghost" onClick={() => setLedgerBalance(balance)}>
+                              <History className="mr-1 h-4 w-4" />
+                              History
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="year-end">
+          <Card>
+            <CardHeader>
+              <CardTitle>Year-End Rollover</CardTitle>
+              <CardDescription>
+                Runs automatically in January. Unused days carry forward up to each policy's cap, the excess is encashed
+                through payroll where the policy allows it, and the rest lapses.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex items-end gap-2">
+                <Select value={rolloverYear} onValueChange={setRolloverYear}>
+                  <SelectTrigger className="w-[140px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {[currentYear, currentYear - 1, currentYear - 2].map((option) => (
+                      <SelectItem key={option} value={String(option)} disabled={closedYears.has(option)}>
+                        {option}
+                        {closedYears.has(option) && ' (closed)'}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  onClick={() => setConfirmRollover(true)}
+                  disabled={running || closedYears.has(parseInt(rolloverYear, 10))}
+                >
+                  Close {rolloverYear}
+                </Button>
+              </div>
+
+              {rollovers.length === 0 ? (
+                <Alert>
+                  <AlertDescription>No leave year has been closed yet.</AlertDescription>
+                </Alert>
+              ) : (
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Year</TableHead>
+                        <TableHead>Closed</TableHead>
+                        <TableHead className="text-right">Balances</TableHead>
+                        <TableHead className="text-right">Carried Forward</TableHead>
+                        <TableHead className="text-right">Encashed</TableHead>
+                        <TableHead className="text-right">Lapsed</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {rollovers.map((rollover) => (
+                        <TableRow key={rollover.id}>
+                          <TableCell className="font-medium">{rollover.year}</TableCell>
+                          <TableCell>
+                            {new Date(rollover.created_at).toLocaleDateString()}
+                            <div className="text-xs text-muted-foreground">
+                              {rollover.run_by_name ? `by ${rollover.run_by_name}` : 'Scheduled'}
+                            </div>
+                            {rollover.warnings?.map((warning) => (
+                              <div key={warning} className="text-xs text-amber-600">
+                                {warning}
+                              </div>
+                            ))}
+                          </TableCell>
+                          <TableCell className="text-right">{rollover.balances_closed}</TableCell>
+                          <TableCell className="text-right">{Number(rollover.days_carried_forward)} days</TableCell>
+                          <TableCell className="text-right">
+                            {Number(rollover.days_encashed)} days
+                            {Number(rollover.encashment_amount) > 0 && (
+                              <div className="text-xs text-muted-foreground">
+                                {Number(rollover.encashment_amount).toLocaleString()} to payroll
+                              </div>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">{Number(rollover.days_lapsed)} days</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      <LeavePolicyFormDialog
+        open={policyDialogOpen}
+        policy={editingPolicy}
+        leaveTypes={leaveTypes}
+        onOpenChange={setPolicyDialogOpen}
+        onSaved={() => fetchPolicies()}
+      />
+
+      <LeaveBalanceLedgerDialog
+        balance={ledgerBalance}
+        onOpenChange={(open) => !open && setLedgerBalance(null)}
+        onAdjusted={() => fetchBalances()}
+      />
+
+      <AlertDialog open={!!deletingPolicy} onOpenChange={(open) => !open && setDeletingPolicy(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete leave policy?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deletingPolicy?.name} will stop accruing. Balances already credited and their history are kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDeletePolicy}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={confirmRollover} onOpenChange={setConfirmRollover}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Close leave year {rolloverYear}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Final accruals are credited, then unused days are carried forward, encashed or lapsed and {rolloverYear}{' '}
+              balances are locked. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={running}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRollover} disabled={running}>
+              {running && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Close Year
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -11,7 +11,8 @@ import {
 import { useState, useEffect } from "react";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
-import { selectRecords, updateRecord, deleteRecord } from '@/services/api/postgresql-service';
+import { selectRecords, deleteRecord } from '@/services/api/postgresql-service';
+import { decideLeaveRequest } from '@/services/api/leave-service';
 import LeaveRequestFormDialog from "@/components/LeaveRequestFormDialog";
 import LeaveTypeFormDialog from "@/components/LeaveTypeFormDialog";
 import DeleteConfirmDialog from "@/components/DeleteConfirmDialog";
@@ -178,11 +179,8 @@ const LeaveRequests = () => {
         return;
       }
 
-      await updateRecord('leave_requests', { 
-        status: 'approved',
-        approved_at: new Date().toISOString(),
-        approved_by: user.id
-      }, { id: requestId }, user.id);
+      // Approval re-checks the leave policy and balance on the server
+      await decideLeaveRequest(requestId, 'approve');
 
       toast({
         title: "Success",
@@ -211,10 +209,7 @@ const LeaveRequests = () => {
         return;
       }
 
-      await updateRecord('leave_requests', { 
-        status: 'rejected',
-        rejection_reason: 'Rejected by administrator'
-      }, { id: requestId }, user.id);
+      await decideLeaveRequest(requestId, 'reject', 'Rejected by administrator');
 
       toast({
         title: "Success",
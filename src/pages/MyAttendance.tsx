@@ -3,13 +3,20 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Calendar } from "@/components/ui/calendar";
 import { useState, useEffect } from "react";
-import { Clock, Calendar as CalendarIcon, Play, Square, TrendingUp, Award, Loader2 } from "lucide-react";
+import { Clock, Calendar as CalendarIcon, Play, Square, TrendingUp, Award, Loader2, FilePenLine } from "lucide-react";
 import ClockInOut from '@/components/ClockInOut';
+import { RegularizationRequestDialog } from '@/components/attendance/RegularizationRequestDialog';
 import { useAuth } from '@/hooks/useAuth';
 import { useAgencySettings } from '@/hooks/useAgencySettings';
 import { db } from '@/lib/database';
 import { useToast } from "@/hooks/use-toast";
 import { formatTime, isWorkingDay } from "@/utils/dateFormat";
+import {
+  REGULARIZATION_TYPE_LABELS,
+  cancelRegularization,
+  getMyRegularizations,
+  type AttendanceRegularization,
+} from "@/services/api/attendance-regularization-service";
 
 interface AttendanceRecord {
   date: string;
@@ -54,13 +61,51 @@ const MyAttendance = () => {
     status: "not_checked_in"
   });
   const [recentAttendance, setRecentAttendance] = useState<AttendanceRecord[]>([]);
+  const [regularizations, setRegularizations] = useState<AttendanceRegularization[]>([]);
+  const [regularizationOpen, setRegularizationOpen] = useState(false);
+  const [regularizationDate, setRegularizationDate] = useState<string | undefined>();
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
 
   useEffect(() => {
     if (user?.id) {
       fetchMyAttendance();
+      fetchRegularizations();
     }
   }, [user?.id]);
 
+  const fetchRegularizations = async () => {
+    try {
+      setRegularizations(await getMyRegularizations());
+    } catch (error) {
+      console.error('Error fetching regularization requests:', error);
+    }
+  };
+
+  const openRegularization = (forDate?: string) => {
+    setRegularizationDate(forDate);
+    setRegularizationOpen(true);
+  };
+
+  const handleCancelRegularization = async (regularization: AttendanceRegularization) => {
+    try {
+      setCancellingId(regularization.id);
+      await cancelRegularization(regularization.id);
+      toast({ title: "Success", description: "Regularization request withdrawn" });
+      fetchRegularizations();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to cancel regularization request",
+        variant: "destructive",
+      });
+    } finally {
+      setCancellingId(null);
+    }
+  };
+
+  const formatRequestedTime = (value: string | null) =>
+    value ? formatTime(value, agencySettings?.timezone) : '-';
+
   const fetchMyAttendance = async () => {
     if (!user?.id) return;
 
@@ -247,6 +292,15 @@ const MyAttendance = () => {
     }
   };
 
+  const getRegularizationColor = (status: AttendanceRegularization['status']) => {
+    switch (status) {
+      case 'approved': return 'default';
+      case 'rejected': return 'destructive';
+      case 'cancelled': return 'outline';
+      default: return 'secondary';
+    }
+  };
+
   if (loading) {
     return (
       <div className="p-6">
@@ -265,6 +319,10 @@ const MyAttendance = () => {
           <h1 className="text-3xl font-bold">My Attendance</h1>
           <p className="text-muted-foreground">View your attendance history and records</p>
         </div>
+        <Button variant="outline" onClick={() => openRegularization()}>
+          <FilePenLine className="h-4 w-4 mr-2" />
+          Request Regularization
+        </Button>
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-6">
@@ -373,11 +431,21 @@ const MyAttendance = () => {
                       <p className="text-sm text-muted-foreground">In: {record.checkIn}</p>
                       <p className="text-sm text-muted-foreground">Out: {record.checkOut}</p>
                     </div>
-                    <div className="text-right">
-                      <p className="font-medium">{record.hours}h</p>
-                      <Badge variant={getStatusColor(record.status)} className="text-xs">
-                        {record.status}
-                      </Badge>
+                    <div className="flex items-center gap-3">
+                      <div className="text-right">
+                        <p className="font-medium">{record.hours}h</p>
+                        <Badge variant={getStatusColor(record.status)} className="text-xs">
+                          {record.status}
+                        </Badge>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Request regularization"
+                        onClick={() => openRegularization(record.date)}
+                      >
+                        <FilePenLine className="h-4 w-4" />
+                      </Button>
                     </div>
                   </div>
                   ))
@@ -402,8 +470,70 @@ const MyAttendance = () => {
               />
             </CardContent>
           </Card>
+
+          <Card className="mt-6">
+            <CardHeader>
+              <CardTitle>Regularization Requests</CardTitle>
+              <CardDescription>Corrections you have asked your manager to approve</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {regularizations.length === 0 ? (
+                <p className="text-sm text-center text-muted-foreground py-4">No regularization requests</p>
+              ) : (
+                <div className="space-y-3">
+                  {regularizations.map((regularization) => (
+                    <div key={regularization.id} className="p-3 border rounded-lg space-y-1">
+                      <div className="flex items-center justify-between">
+                        <p className="font-medium text-sm">
+                          {regularization.attendance_date} · {REGULARIZATION_TYPE_LABELS[regularization.request_type]}
+                        </p>
+                        <Badge variant={getRegularizationColor(regularization.status)} className="text-xs">
+                          {regularization.status}
+                        </Badge>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        In: {formatRequestedTime(regularization.requested_check_in)} · Out:{' '}
+                        {formatRequestedTime(regularization.requested_check_out)}
+                      </p>
+                      <p className="text-xs text-muted-foreground">{regularization.reason}</p>
+                      {regularization.status === 'pending' && regularization.pending_with && (
+                        <p className="text-xs text-muted-foreground">Waiting on {regularization.pending_with}</p>
+                      )}
+                      {regularization.decision_comments && (
+                        <p className="text-xs text-muted-foreground">
+                          {regularization.decided_by_name || 'Approver'}: {regularization.decision_comments}
+                        </p>
+                      )}
+                      {regularization.status === 'pending' && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 px-2"
+                          disabled={cancellingId === regularization.id}
+                          onClick={() => handleCancelRegularization(regularization)}
+                        >
+                          {cancellingId === regularization.id && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+                          Withdraw
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
         </div>
       </div>
+
+      {user?.id && (
+        <RegularizationRequestDialog
+          open={regularizationOpen}
+          employeeId={user.id}
+          defaultDate={regularizationDate}
+          onOpenChange={setRegularizationOpen}
+          onSubmitted={fetchRegularizations}
+        />
+      )}
     </div>
   );
 };
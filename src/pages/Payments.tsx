@@ -5,7 +5,8 @@ import { Input } from "@/components/ui/input";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Plus, Search, Filter, Download, CreditCard, DollarSign, TrendingUp, Calendar, Loader2, Edit, Trash2, Eye } from "lucide-react";
 import { useState, useEffect } from "react";
-import { selectRecords, rawQuery, deleteRecord, updateRecord } from '@/services/api/postgresql-service';
+import { selectRecords, rawQuery } from '@/services/api/postgresql-service';
+import { deleteInvoicePayment } from '@/services/api/financial-service';
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from '@/hooks/useAuth';
 import { getAgencyId } from '@/utils/agencyUtils';
@@ -25,6 +26,10 @@ interface Payment {
   reference: string;
   status: string;
   notes?: string;
+  /** Set when the invoice is in a foreign currency; amount stays in base currency */
+  currency?: string | null;
+  foreign_amount?: number | null;
+  exchange_rate?: number | null;
 }
 
 interface PaymentStats {
@@ -96,6 +101,9 @@ const Payments = () => {
           je.description,
           je.entry_number,
           jel.debit_amount as amount,
+          jel.currency,
+          jel.foreign_amount,
+          jel.exchange_rate,
           inv.id as invoice_id,
           inv.invoice_number,
           inv.issue_date,
@@ -120,11 +128,18 @@ const Payments = () => {
         FROM journal_entries je
         JOIN journal_entry_lines jel ON je.id = jel.journal_entry_id
         JOIN chart_of_accounts coa ON jel.account_id = coa.id
-        LEFT JOIN invoices inv ON je.reference LIKE '%' || inv.invoice_number || '%'
+        LEFT JOIN invoices inv ON (
+          (je.source_type = 'invoice_payment' AND je.source_id = inv.id)
+          OR (je.source_type IS NULL AND (
+            je.reference = 'PAY-' || inv.invoice_number
+            OR je.description = 'Payment for Invoice ' || inv.invoice_number
+            OR je.description LIKE 'Payment for Invoice ' || inv.invoice_number || ' - %'
+          ))
+        )
         LEFT JOIN clients c ON inv.client_id = c.id
         WHERE je.agency_id = $1
         AND je.status = 'posted'
-        AND coa.account_type = 'Asset'
+        AND LOWER(coa.account_type) = 'asset'
         AND (coa.account_name ILIKE '%cash%' OR coa.account_name ILIKE '%bank%')
         AND jel.debit_amount > 0
         AND inv.id IS NOT NULL
@@ -146,6 +161,9 @@ const Payments = () => {
         reference: p.reference || p.entry_number || '',
         status: p.status || 'completed',
         notes: p.description || '',
+        currency: p.currency || null,
+        foreign_amount: p.foreign_amount != null ? Number(p.foreign_amount) : null,
+        exchange_rate: p.exchange_rate != null ? Number(p.exchange_rate) : null,
       }));
 
       setPayments(transformedPayments);
@@ -165,7 +183,8 @@ const Payments = () => {
       const pendingPayments = pendingInvoices.reduce((sum: number, inv: any) => {
         const total = inv.total_amount || 
           (inv.subtotal * (1 + (inv.tax_rate || 0) / 100) - (inv.discount || 0));
-        return sum + Number(total);
+        // Foreign currency invoices are counted at their booked rate
+        return sum + Number(inv.base_total_amount || Number(total) * (Number(inv.exchange_rate) || 1));
       }, 0);
 
       const now = new Date();
@@ -213,91 +232,30 @@ const Payments = () => {
     }
   };
 
+  const formatPaymentAmount = (payment: Payment | null) => {
+    if (!payment) return '';
+    if (payment.currency && payment.foreign_amount != null) {
+      return `${payment.currency} ${payment.foreign_amount.toLocaleString()}`;
+    }
+    return `₹${payment.amount.toLocaleString()}`;
+  };
+
   const handlePaymentSaved = () => {
     fetchPayments();
   };
 
   const handleDeletePayment = async () => {
-    if (!paymentToDelete || !user?.id) {
+    if (!paymentToDelete) {
       return;
     }
+    // The server removes the entry and recalculates the invoice status from the remaining payments
+    await deleteInvoicePayment(paymentToDelete.journal_entry_id);
+  };
 
-    try {
-      // Delete journal entry (which will cascade delete lines)
-      await deleteRecord('journal_entries', { id: paymentToDelete.journal_entry_id });
-
-      // Update invoice status back to unpaid/partial
-      const invoice = await selectRecords('invoices', {
-        where: { id: paymentToDelete.invoice_id },
-        limit: 1,
-      });
-
-      if (invoice && invoice[0]) {
-        const inv = invoice[0];
-        // Recalculate payment status
-        const paymentsQuery = `
-          SELECT COALESCE(SUM(jel.debit_amount), 0) as total_paid
-          FROM journal_entries je
-          JOIN journal_entry_lines jel ON je.id = jel.journal_entry_id
-          JOIN chart_of_accounts coa ON jel.account_id = coa.id
-          WHERE je.reference LIKE $1
-          AND coa.account_type = 'Asset'
-          AND (coa.account_name ILIKE '%cash%' OR coa.account_name ILIKE '%bank%')
-          AND je.agency_id = $2
-          AND je.id != $3
-        `;
-
-        const cashAccounts = await selectRecords('chart_of_accounts', {
-          where: {
-            agency_id: agencyId,
-            account_type: 'Asset',
-            account_name: { operator: 'ILIKE', value: '%cash%' }
-          },
-          limit: 1,
-        });
-
-        if (cashAccounts && cashAccounts.length > 0) {
-          const existingPayments = await rawQuery(paymentsQuery, [
-            `%${inv.invoice_number}%`,
-            agencyId,
-            paymentToDelete.journal_entry_id
-          ]);
-
-          const totalPaid = Number(existingPayments[0]?.total_paid || 0);
-          const invoiceTotal = inv.total_amount || 
-            (inv.subtotal * (1 + (inv.tax_rate || 0) / 100) - (inv.discount || 0));
-
-          let newStatus = inv.status;
-          if (totalPaid >= invoiceTotal) {
-            newStatus = 'paid';
-          } else if (totalPaid > 0) {
-            newStatus = 'partial';
-          } else {
-            newStatus = 'sent';
-          }
-
-          await updateRecord('invoices', inv.id, {
-            status: newStatus,
-          }, user.id);
-        }
-      }
-
-      toast({
-        title: "Success",
-        description: "Payment deleted successfully",
-      });
-
-      await fetchPayments(agencyId);
-      setDeleteDialogOpen(false);
-      setPaymentToDelete(null);
-    } catch (error: any) {
-      logError('Error deleting payment:', error);
-      toast({
-        title: "Error",
-        description: error?.message || "Failed to delete payment. Please try again.",
-        variant: "destructive",
-      });
-    }
+  const handlePaymentDeleted = () => {
+    fetchPayments(agencyId);
+    setDeleteDialogOpen(false);
+    setPaymentToDelete(null);
   };
 
   const filteredPayments = payments.filter(payment =>
@@ -507,6 +465,11 @@ const Payments = () => {
                     </div>
                     <div className="text-right mr-4">
                       <p className="font-bold text-lg">₹{payment.amount.toLocaleString()}</p>
+                      {payment.currency && payment.foreign_amount != null && (
+                        <p className="text-xs text-muted-foreground">
+                          {payment.currency} {payment.foreign_amount.toLocaleString()} @ {payment.exchange_rate}
+                        </p>
+                      )}
                       <p className="text-sm text-muted-foreground">
                         {new Date(payment.payment_date).toLocaleDateString()}
                       </p>
@@ -577,9 +540,10 @@ const Payments = () => {
           setDeleteDialogOpen(false);
           setPaymentToDelete(null);
         }}
-        onDeleted={handleDeletePayment}
+        onDeleted={handlePaymentDeleted}
+        onConfirm={handleDeletePayment}
         itemType="Payment"
-        itemName={`Payment of ₹${paymentToDelete?.amount.toLocaleString()}`}
+        itemName={`Payment of ${formatPaymentAmount(paymentToDelete)}`}
         itemId={paymentToDelete?.journal_entry_id || ''}
         tableName="journal_entries"
       />
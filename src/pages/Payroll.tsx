@@ -2,7 +2,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { DollarSign, Download, Calculator, Users, Calendar, Loader2, Plus, Edit, Trash2, Search, Building2, CheckSquare, Square } from "lucide-react";
+import { DollarSign, Download, Calculator, Users, Calendar, Loader2, Plus, Edit, Trash2, Search, Building2, CheckSquare, Square, Play } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Checkbox } from "@/components/ui/checkbox";
@@ -15,6 +15,10 @@ import { db } from '@/lib/database';
 import PayrollFormDialog from "@/components/PayrollFormDialog";
 import PayrollPeriodFormDialog from "@/components/PayrollPeriodFormDialog";
 import DeleteConfirmDialog from "@/components/DeleteConfirmDialog";
+import { SalaryStructuresPanel } from "@/components/payroll/SalaryStructuresPanel";
+import { StatutorySettingsPanel } from "@/components/payroll/StatutorySettingsPanel";
+import { PayrollAdjustmentsPanel } from "@/components/payroll/PayrollAdjustmentsPanel";
+import { getPeriodName, PayrollPeriod } from "@/services/api/payroll-service";
 
 interface PayrollRecord {
   id: string;
@@ -60,6 +64,7 @@ const Payroll = () => {
   const [selectedPayroll, setSelectedPayroll] = useState<any>(null);
   const [periodFormOpen, setPeriodFormOpen] = useState(false);
   const [selectedPeriodObj, setSelectedPeriodObj] = useState<any>(null);
+  const [periodFormView, setPeriodFormView] = useState<'details' | 'run'>('details');
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [itemToDelete, setItemToDelete] = useState<{ type: string; item: any } | null>(null);
   const [selectedRecords, setSelectedRecords] = useState<Set<string>>(new Set());
@@ -304,11 +309,19 @@ const Payroll = () => {
 
   const handleNewPeriod = () => {
     setSelectedPeriodObj(null);
+    setPeriodFormView('details');
     setPeriodFormOpen(true);
   };
 
   const handleEditPeriod = (period: any) => {
     setSelectedPeriodObj(period);
+    setPeriodFormView('details');
+    setPeriodFormOpen(true);
+  };
+
+  const handleRunPeriod = (period: PayrollPeriod) => {
+    setSelectedPeriodObj(period);
+    setPeriodFormView('run');
     setPeriodFormOpen(true);
   };
 
@@ -481,7 +494,7 @@ const Payroll = () => {
 <body>
   <div class="header">
     <h1>PAY SLIP</h1>
-    <p>${period?.name || 'Payroll Period'}</p>
+    <p>${period ? getPeriodName(period) : 'Payroll Period'}</p>
   </div>
   
   <div class="details">
@@ -529,7 +542,7 @@ const Payroll = () => {
       const link = document.createElement('a');
       const url = URL.createObjectURL(blob);
       link.setAttribute('href', url);
-      link.setAttribute('download', `payslip-${employeeName.replace(/\s+/g, '-')}-${period?.name?.replace(/\s+/g, '-') || 'period'}.html`);
+      link.setAttribute('download', `payslip-${employeeName.replace(/\s+/g, '-')}-${period ? getPeriodName(period).replace(/\s+/g, '-') : 'period'}.html`);
       link.style.visibility = 'hidden';
       document.body.appendChild(link);
       link.click();
@@ -739,6 +752,9 @@ const Payroll = () => {
         <TabsList>
           <TabsTrigger value="payroll">Payroll Records</TabsTrigger>
           <TabsTrigger value="periods">Payroll Periods</TabsTrigger>
+          <TabsTrigger value="structures">Salary Structures</TabsTrigger>
+          <TabsTrigger value="adjustments">Adjustments</TabsTrigger>
+          <TabsTrigger value="statutory">Statutory Settings</TabsTrigger>
         </TabsList>
 
         <TabsContent value="payroll" className="space-y-4">
@@ -749,7 +765,7 @@ const Payroll = () => {
                   <CardTitle>Payroll Records</CardTitle>
                   <CardDescription>
                     {selectedPeriod && payrollPeriods.find(p => p.id === selectedPeriod) 
-                      ? `Payroll for ${payrollPeriods.find(p => p.id === selectedPeriod)?.name}`
+                      ? `Payroll for ${getPeriodName(payrollPeriods.find(p => p.id === selectedPeriod) || {})}`
                       : 'Select a payroll period'}
                     {selectedRecords.size > 0 && (
                       <span className="ml-2 text-primary font-medium">
@@ -786,7 +802,7 @@ const Payroll = () => {
                     <SelectContent>
                       {payrollPeriods.map((period) => (
                         <SelectItem key={period.id} value={period.id}>
-                          {period.name}
+                          {getPeriodName(period)}
                         </SelectItem>
                       ))}
                     </SelectContent>
@@ -929,7 +945,7 @@ const Payroll = () => {
                     <div key={period.id} className="border rounded-lg p-4">
                       <div className="flex items-center justify-between">
                         <div>
-                          <h3 className="font-semibold">{period.name}</h3>
+                          <h3 className="font-semibold">{getPeriodName(period)}</h3>
                           <p className="text-sm text-muted-foreground">
                             {new Date(period.start_date).toLocaleDateString()} - {new Date(period.end_date).toLocaleDateString()}
                           </p>
@@ -948,6 +964,12 @@ const Payroll = () => {
                           }>
                             {period.status}
                           </Badge>
+                          {period.status !== 'approved' && period.status !== 'paid' && (
+                            <Button size="sm" onClick={() => handleRunPeriod(period)}>
+                              <Play className="mr-2 h-4 w-4" />
+                              Run Payroll
+                            </Button>
+                          )}
                           <Button size="sm" variant="outline" onClick={() => handleEditPeriod(period)}>
                             <Edit className="h-4 w-4" />
                           </Button>
@@ -963,6 +985,18 @@ const Payroll = () => {
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="structures" className="space-y-4">
+          <SalaryStructuresPanel />
+        </TabsContent>
+
+        <TabsContent value="adjustments" className="space-y-4">
+          <PayrollAdjustmentsPanel periods={payrollPeriods} />
+        </TabsContent>
+
+        <TabsContent value="statutory" className="space-y-4">
+          <StatutorySettingsPanel />
+        </TabsContent>
       </Tabs>
 
       <PayrollFormDialog
@@ -978,6 +1012,7 @@ const Payroll = () => {
         onClose={() => setPeriodFormOpen(false)}
         period={selectedPeriodObj}
         onPeriodSaved={handlePeriodSaved}
+        initialView={periodFormView}
       />
 
       <DeleteConfirmDialog
@@ -988,7 +1023,7 @@ const Payroll = () => {
         }}
         onDeleted={handleDeleted}
         itemType={itemToDelete?.type === 'payroll' ? 'Payroll Record' : 'Payroll Period'}
-        itemName={itemToDelete?.item?.employee || itemToDelete?.item?.name || ''}
+        itemName={itemToDelete?.item?.employee || itemToDelete?.item?.name || itemToDelete?.item?.period_name || ''}
         itemId={itemToDelete?.item?.id || ''}
         tableName={itemToDelete?.type === 'payroll' ? 'payroll' : 'payroll_periods'}
       />
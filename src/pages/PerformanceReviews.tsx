@@ -0,0 +1,914 @@
+/**
+ * Performance Reviews Page
+ * Review cycles with self, manager and peer feedback, goals and OKR check-ins, calibration and the
+ * cycle and competency setup
+ */
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { hasRoleOrHigher } from '@/utils/roleUtils';
+import {
+  ClipboardCheck,
+  Edit,
+  Eye,
+  Flag,
+  Loader2,
+  Lock,
+  Play,
+  Plus,
+  Scale,
+  Target,
+  Trash2,
+  UserPlus,
+  Users,
+  X,
+} from 'lucide-react';
+import { selectRecords } from '@/services/api/postgresql-service';
+import {
+  CYCLE_TYPE_LABELS,
+  GOAL_STATUS_LABELS,
+  RELATIONSHIP_LABELS,
+  closeReviewCycle,
+  declineFeedback,
+  deleteGoal,
+  deleteReviewCycle,
+  getCompetencies,
+  getGoals,
+  getMyFeedbackRequests,
+  getReviewCycles,
+  getReviews,
+  launchReviewCycle,
+  startCycleCalibration,
+  type Competency,
+  type FeedbackRequest,
+  type FeedbackStatus,
+  type Goal,
+  type PerformanceReview,
+  type ReviewCycle,
+  type ReviewCycleStatus,
+} from '@/services/api/performance-review-service';
+import { CompetencyFormDialog } from '@/components/performance/CompetencyFormDialog';
+import { ReviewCycleFormDialog } from '@/components/performance/ReviewCycleFormDialog';
+import { FeedbackFormDialog } from '@/components/performance/FeedbackFormDialog';
+import { RequestPeerFeedbackDialog } from '@/components/performance/RequestPeerFeedbackDialog';
+import { ReviewDetailDialog } from '@/components/performance/ReviewDetailDialog';
+import { GoalFormDialog } from '@/components/performance/GoalFormDialog';
+import { GoalCheckinDialog } from '@/components/performance/GoalCheckinDialog';
+import { CalibrationPanel } from '@/components/performance/CalibrationPanel';
+
+interface DepartmentOption {
+  id: string;
+  name: string;
+}
+
+type CycleAction = 'launch' | 'calibration' | 'close' | 'delete';
+
+const CYCLE_STATUS_VARIANTS: Record<ReviewCycleStatus, 'default' | 'secondary' | 'outline'> = {
+  draft: 'outline',
+  active: 'default',
+  calibration: 'secondary',
+  closed: 'outline',
+};
+
+const CYCLE_ACTION_COPY: Record<CycleAction, { title: string; description: string; confirm: string }> = {
+  launch: {
+    title: 'Launch review cycle?',
+    description:
+      'A review is created for every active employee in scope, with a self-assessment for them and a review form for their manager. The cycle can no longer be edited.',
+    confirm: 'Launch',
+  },
+  calibration: {
+    title: 'Start calibration?',
+    description:
+      'Self, manager and peer forms close and department heads can calibrate ratings. Forms not submitted by now will not count.',
+    confirm: 'Start Calibration',
+  },
+  close: {
+    title: 'Close review cycle?',
+    description:
+      'Every review is finalized with its calibrated rating, or the manager rating where it was not calibrated, and the performance summary for the period is stored with it. Employees can then see their reviews.',
+    confirm: 'Close Cycle',
+  },
+  delete: {
+    title: 'Delete review cycle?',
+    description: 'The draft cycle is removed. Goals linked to it are kept without a cycle.',
+    confirm: 'Delete',
+  },
+};
+
+const feedbackStatusBadge = (status: FeedbackStatus | null | undefined) => {
+  if (!status) return <span className="text-muted-foreground">—</span>;
+  const variant = status === 'submitted' ? 'default' : status === 'declined' ? 'outline' : 'secondary';
+  return <Badge variant={variant}>{status}</Badge>;
+};
+
+export default function PerformanceReviews() {
+  const { toast } = useToast();
+  const { userRole } = useAuth();
+  const canManage = userRole ? hasRoleOrHigher(userRole, 'hr') : false;
+
+  const [initialLoad, setInitialLoad] = useState(true);
+  const [requests, setRequests] = useState<FeedbackRequest[]>([]);
+  const [myReviews, setMyReviews] = useState<PerformanceReview[]>([]);
+  const [teamReviews, setTeamReviews] = useState<PerformanceReview[]>([]);
+  const [goals, setGoals] = useState<Goal[]>([]);
+  const [cycles, setCycles] = useState<ReviewCycle[]>([]);
+  const [competencies, setCompetencies] = useState<Competency[]>([]);
+  const [departments, setDepartments] = useState<DepartmentOption[]>([]);
+
+  const [fillingRequest, setFillingRequest] = useState<FeedbackRequest | null>(null);
+  const [decliningRequest, setDecliningRequest] = useState<FeedbackRequest | null>(null);
+  const [peerReview, setPeerReview] = useState<PerformanceReview | null>(null);
+  const [viewingReviewId, setViewingReviewId] = useState<string | null>(null);
+  const [goalDialogOpen, setGoalDialogOpen] = useState(false);
+  const [editingGoal, setEditingGoal] = useState<Goal | null>(null);
+  const [goalEmployeeId, setGoalEmployeeId] = useState<string | undefined>(undefined);
+  const [checkinGoal, setCheckinGoal] = useState<Goal | null>(null);
+  const [deletingGoal, setDeletingGoal] = useState<Goal | null>(null);
+  const [cycleDialogOpen, setCycleDialogOpen] = useState(false);
+  const [editingCycle, setEditingCycle] = useState<ReviewCycle | null>(null);
+  const [pendingAction, setPendingAction] = useState<{ cycle: ReviewCycle; action: CycleAction } | null>(null);
+  const [competencyDialogOpen, setCompetencyDialogOpen] = useState(false);
+  const [editingCompetency, setEditingCompetency] = useState<Competency | null>(null);
+  const [running, setRunning] = useState(false);
+
+  const fetchFeedback = async () => {
+    try {
+      const [requestList, mine, team] = await Promise.all([
+        getMyFeedbackRequests(),
+        getReviews({ scope: 'mine' }),
+        getReviews({ scope: 'team' }),
+      ]);
+      setRequests(requestList);
+      setMyReviews(mine);
+      setTeamReviews(team);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to fetch reviews',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const fetchGoals = async () => {
+    try {
+      setGoals(await getGoals());
+    } catch (error) {
+      console.error('Error fetching goals:', error);
+    }
+  };
+
+  const fetchCycles = async () => {
+    try {
+      setCycles(await getReviewCycles());
+    } catch (error) {
+      console.error('Error fetching review cycles:', error);
+    }
+  };
+
+  const fetchSetup = async () => {
+    if (!canManage) return;
+    try {
+      const [competencyList, departmentList] = await Promise.all([
+        getCompetencies(true),
+        selectRecords<DepartmentOption>('departments', {
+          select: 'id, name',
+          filters: [{ column: 'is_active', operator: 'eq', value: true }],
+          orderBy: 'name ASC',
+        }),
+      ]);
+      setCompetencies(competencyList);
+      setDepartments(departmentList);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to fetch competencies',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  useEffect(() => {
+    Promise.all([fetchFeedback(), fetchGoals(), fetchCycles(), fetchSetup()]).finally(() => setInitialLoad(false));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [canManage]);
+
+  const handleDecline = async () => {
+    if (!decliningRequest) return;
+    try {
+      await declineFeedback(decliningRequest.id);
+      toast({ title: 'Success', description: 'Feedback request declined' });
+      fetchFeedback();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to decline feedback request',
+        variant: 'destructive',
+      });
+    } finally {
+      setDecliningRequest(null);
+    }
+  };
+
+  const handleDeleteGoal = async () => {
+    if (!deletingGoal) return;
+    try {
+      await deleteGoal(deletingGoal.id);
+      toast({ title: 'Success', description: 'Goal deleted' });
+      fetchGoals();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to delete goal',
+        variant: 'destructive',
+      });
+    } finally {
+      setDeletingGoal(null);
+    }
+  };
+
+  const handleCycleAction = async () => {
+    if (!pendingAction) return;
+    const { cycle, action } = pendingAction;
+    try {
+      setRunning(true);
+      if (action === 'launch') {
+        const launched = await launchReviewCycle(cycle.id);
+        toast({ title: 'Success', description: `${launched.review_count ?? 0} review(s) started` });
+      } else if (action === 'calibration') {
+        await startCycleCalibration(cycle.id);
+        toast({ title: 'Success', description: 'Calibration started' });
+      } else if (action === 'close') {
+        const result = await closeReviewCycle(cycle.id);
+        toast({ title: 'Success', description: `${result.finalized} review(s) finalized` });
+      } else {
+        await deleteReviewCycle(cycle.id);
+        toast({ title: 'Success', description: 'Review cycle deleted' });
+      }
+      fetchCycles();
+      fetchFeedback();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update review cycle',
+        variant: 'destructive',
+      });
+    } finally {
+      setRunning(false);
+      setPendingAction(null);
+    }
+  };
+
+  const openGoalDialog = (goal: Goal | null, employeeId?: string) => {
+    setEditingGoal(goal);
+    setGoalEmployeeId(employeeId);
+    setGoalDialogOpen(true);
+  };
+
+  const cycleById = (cycleId: string) => cycles.find((cycle) => cycle.id === cycleId);
+  const canRequestPeers = (review: PerformanceReview) =>
+    review.cycle_status === 'active' && !!cycleById(review.cycle_id)?.include_peer_feedback;
+
+  const pendingRequests = requests.filter((request) => request.status === 'pending');
+  const activeGoals = goals.filter((goal) => goal.status !== 'completed' && goal.status !== 'cancelled');
+  const averageProgress = activeGoals.length
+    ? Math.round(activeGoals.reduce((sum, goal) => sum + Number(goal.progress), 0) / activeGoals.length)
+    : 0;
+  const latestFinal = myReviews.find((review) => review.status === 'finalized');
+
+  if (initialLoad) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold">Performance Reviews</h1>
+        <p className="text-muted-foreground mt-1">
+          Review cycles, goals and feedback from yourself, your manager and your peers
+        </p>
+      </div>
+
+      {/* Stats Cards */}
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Feedback to Give</CardTitle>
+            <ClipboardCheck className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{pendingRequests.length}</div>
+            <p className="text-xs text-muted-foreground">Pending self, manager and peer forms</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Active Goals</CardTitle>
+            <Target className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{activeGoals.length}</div>
+            <p className="text-xs text-muted-foreground">{averageProgress}% average progress</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Latest Rating</CardTitle>
+            <Flag className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{latestFinal?.final_rating ?? '-'}</div>
+            <p className="text-xs text-muted-foreground">
+              {latestFinal ? `${latestFinal.final_rating_label || ''} · ${latestFinal.cycle_name}` : 'No finalized review yet'}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Tabs defaultValue="reviews">
+        <TabsList>
+          <TabsTrigger value="reviews">My Reviews</TabsTrigger>
+          <TabsTrigger value="goals">Goals</TabsTrigger>
+          {teamReviews.length > 0 && <TabsTrigger value="team">Team</TabsTrigger>}
+          {canManage && <TabsTrigger value="calibration">Calibration</TabsTrigger>}
+          {canManage && <TabsTrigger value="cycles">Cycles</TabsTrigger>}
+          {canManage && <TabsTrigger value="competencies">Competencies</TabsTrigger>}
+        </TabsList>
+
+        <TabsContent value="reviews" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>Feedback Requests</CardTitle>
+              <CardDescription>Self-assessments, reviews of your team and peer feedback you have been asked for</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {requests.length === 0 ? (
+                <p className="text-center text-muted-foreground py-4">No feedback requested from you</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Form</TableHead>
+                      <TableHead>Employee</TableHead>
+                      <TableHead>Cycle</TableHead>
+                      <TableHead>Due</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {requests.map((request) => (
+                      <TableRow key={request.id}>
+                        <TableCell>{RELATIONSHIP_LABELS[request.relationship]}</TableCell>
+                        <TableCell>{request.relationship === 'self' ? 'You' : request.employee_name || 'Unknown'}</TableCell>
+                        <TableCell>{request.cycle_name}</TableCell>
+                        <TableCell>{request.due_date || '—'}</TableCell>
+                        <TableCell>{feedbackStatusBadge(request.status)}</TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end gap-1">
+                            {request.status !== 'declined' && (
+                              <Button variant="ghost" size="sm" onClick={() => setFillingRequest(request)}>
+                                {request.status === 'pending' && request.cycle_status === 'active' ? 'Fill In' : 'View'}
+                              </Button>
+                            )}
+                            {request.relationship === 'peer' && request.status === 'pending' && (
+                              <Button variant="ghost" size="sm" title="Decline" onClick={() => setDecliningRequest(request)}>
+                                <X className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>My Reviews</CardTitle>
+              <CardDescription>Your reviews open once the cycle closes and your rating is final</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {myReviews.length === 0 ? (
+                <p className="text-center text-muted-foreground py-4">You have not been part of a review cycle yet</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Cycle</TableHead>
+                      <TableHead>Period</TableHead>
+                      <TableHead>Self-assessment</TableHead>
+                      <TableHead>Manager</TableHead>
+                      <TableHead>Peers</TableHead>
+                      <TableHead>Final Rating</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {myReviews.map((review) => (
+                      <TableRow key={review.id}>
+                        <TableCell className="font-medium">{review.cycle_name}</TableCell>
+                        <TableCell>
+                          {review.period_start} to {review.period_end}
+                        </TableCell>
+                        <TableCell>{feedbackStatusBadge(review.self_status)}</TableCell>
+                        <TableCell>{feedbackStatusBadge(review.manager_status)}</TableCell>
+                        <TableCell>
+                          {review.peer_submitted ?? 0}/{review.peer_requested ?? 0}
+                        </TableCell>
+                        <TableCell>
+                          {review.status === 'finalized' ? (
+                            <>
+                              <span className="font-semibold mr-2">{review.final_rating}</span>
+                              {review.final_rating_label && <Badge variant="outline">{review.final_rating_label}</Badge>}
+                            </>
+                          ) : (
+                            <span className="text-muted-foreground">In progress</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end gap-1">
+                            {canRequestPeers(review) && (
+                              <Button variant="ghost" size="sm" title="Request peer feedback" onClick={() => setPeerReview(review)}>
+                                <UserPlus className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {review.status === 'finalized' && (
+                              <Button variant="ghost" size="sm" title="View review" onClick={() => setViewingReviewId(review.id)}>
+                                <Eye className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="goals">
+          <Card>
+            <CardHeader className="flex flex-row items-start justify-between space-y-0">
+              <div>
+                <CardTitle>Goals</CardTitle>
+                <CardDescription>Goals and OKRs with their latest check-in</CardDescription>
+              </div>
+              <Button onClick={() => openGoalDialog(null)}>
+                <Plus className="mr-2 h-4 w-4" />
+                New Goal
+              </Button>
+            </CardHeader>
+            <CardContent>
+              {goals.length === 0 ? (
+                <p className="text-center text-muted-foreground py-4">No goals yet</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Goal</TableHead>
+                      <TableHead>Cycle</TableHead>
+                      <TableHead>Due</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead className="w-48">Progress</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {goals.map((goal) => (
+                      <TableRow key={goal.id}>
+                        <TableCell>
+                          <div className="font-medium">
+                            {goal.title}
+                            {goal.goal_type === 'okr' && <Badge variant="outline" className="ml-2">OKR</Badge>}
+                          </div>
+                          {goal.goal_type === 'okr' && (
+                            <div className="text-xs text-muted-foreground">{goal.key_results.length} key result(s)</div>
+                          )}
+                        </TableCell>
+                        <TableCell>{goal.cycle_name || '—'}</TableCell>
+                        <TableCell>{goal.due_date || '—'}</TableCell>
+                        <TableCell>
+                          <Badge variant={goal.status === 'at_risk' || goal.status === 'off_track' ? 'destructive' : 'outline'}>
+                            {GOAL_STATUS_LABELS[goal.status]}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            <Progress value={Number(goal.progress)} />
+                            <span className="text-sm w-10 text-right">{Math.round(Number(goal.progress))}%</span>
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end gap-1">
+                            <Button variant="ghost" size="sm" title="Check in" onClick={() => setCheckinGoal(goal)}>
+                              <ClipboardCheck className="h-4 w-4" />
+                            </Button>
+                            <Button variant="ghost" size="sm" title="Edit" onClick={() => openGoalDialog(goal)}>
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                            <Button variant="ghost" size="sm" title="Delete" onClick={() => setDeletingGoal(goal)}>
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        {teamReviews.length > 0 && (
+          <TabsContent value="team">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Users className="h-5 w-5" />
+                  Team Reviews
+                </CardTitle>
+                <CardDescription>Reviews of the people who report to you. Fill in your review from Feedback Requests.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Employee</TableHead>
+                      <TableHead>Cycle</TableHead>
+                      <TableHead>Self-assessment</TableHead>
+                      <TableHead>Your Review</TableHead>
+                      <TableHead>Peers</TableHead>
+                      <TableHead>Rating</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {teamReviews.map((review) => (
+                      <TableRow key={review.id}>
+                        <TableCell className="font-medium">{review.employee_name || 'Unknown'}</TableCell>
+                        <TableCell>{review.cycle_name}</TableCell>
+                        <TableCell>{feedbackStatusBadge(review.self_status)}</TableCell>
+                        <TableCell>{feedbackStatusBadge(review.manager_status)}</TableCell>
+                        <TableCell>
+                          {review.peer_submitted ?? 0}/{review.peer_requested ?? 0}
+                        </TableCell>
+                        <TableCell>
+                          {review.final_rating ?? review.calibrated_rating ?? <span className="text-muted-foreground">—</span>}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end gap-1">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title="Set a goal"
+                              onClick={() => openGoalDialog(null, review.employee_id)}
+                            >
+                              <Target className="h-4 w-4" />
+                            </Button>
+                            {canRequestPeers(review) && (
+                              <Button variant="ghost" size="sm" title="Request peer feedback" onClick={() => setPeerReview(review)}>
+                                <UserPlus className="h-4 w-4" />
+                              </Button>
+                            )}
+                            <Button variant="ghost" size="sm" title="View review" onClick={() => setViewingReviewId(review.id)}>
+                              <Eye className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </TabsContent>
+        )}
+
+        {canManage && (
+          <TabsContent value="calibration">
+            <CalibrationPanel cycles={cycles} />
+          </TabsContent>
+        )}
+
+        {canManage && (
+          <TabsContent value="cycles">
+            <Card>
+              <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                <div>
+                  <CardTitle>Review Cycles</CardTitle>
+                  <CardDescription>Draft, launch, calibrate and close quarterly, half-yearly and annual reviews</CardDescription>
+                </div>
+                <Button
+                  onClick={() => {
+                    setEditingCycle(null);
+                    setCycleDialogOpen(true);
+                  }}
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  New Cycle
+                </Button>
+              </CardHeader>
+              <CardContent>
+                {cycles.length === 0 ? (
+                  <p className="text-center text-muted-foreground py-4">No review cycles yet</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Name</TableHead>
+                        <TableHead>Type</TableHead>
+                        <TableHead>Period</TableHead>
+                        <TableHead>Employees</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead className="w-40">Feedback In</TableHead>
+                        <TableHead className="text-right">Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {cycles.map((cycle) => {
+                        const feedbackTotal = cycle.feedback_count || 0;
+                        const feedbackIn = feedbackTotal ? ((cycle.feedback_submitted || 0) / feedbackTotal) * 100 : 0;
+                        return (
+                          <TableRow key={cycle.id}>
+                            <TableCell className="font-medium">{cycle.name}</TableCell>
+                            <TableCell>{CYCLE_TYPE_LABELS[cycle.cycle_type]}</TableCell>
+                            <TableCell>
+                              {cycle.period_start} to {cycle.period_end}
+                            </TableCell>
+                            <TableCell>
+                              {cycle.department_name || 'All departments'}
+                              {cycle.status !== 'draft' && (
+                                <div className="text-xs text-muted-foreground">{cycle.review_count ?? 0} review(s)</div>
+                              )}
+                            </TableCell>
+                            <TableCell>
+                              <Badge variant={CYCLE_STATUS_VARIANTS[cycle.status]}>{cycle.status}</Badge>
+                            </TableCell>
+                            <TableCell>
+                              {cycle.status === 'draft' ? (
+                                <span className="text-muted-foreground">—</span>
+                              ) : (
+                                <div className="flex items-center gap-2">
+                                  <Progress value={feedbackIn} />
+                                  <span className="text-xs w-12 text-right">
+                                    {cycle.feedback_submitted ?? 0}/{feedbackTotal}
+                                  </span>
+                                </div>
+                              )}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              <div className="flex justify-end gap-1">
+                                {cycle.status === 'draft' && (
+                                  <>
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      title="Edit"
+                                      onClick={() => {
+                                        setEditingCycle(cycle);
+                                        setCycleDialogOpen(true);
+                                      }}
+                                    >
+                                      <Edit className="h-4 w-4" />
+                                    </Button>
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      title="Launch"
+                                      onClick={() => setPendingAction({ cycle, action: 'launch' })}
+                                    >
+                                      <Play className="h-4 w-4" />
+                                    </Button>
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      title="Delete"
+                                      onClick={() => setPendingAction({ cycle, action: 'delete' })}
+                                    >
+                                      <Trash2 className="h-4 w-4" />
+                                    </Button>
+                                  </>
+                                )}
+                                {cycle.status === 'active' && (
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    title="Start calibration"
+                                    onClick={() => setPendingAction({ cycle, action: 'calibration' })}
+                                  >
+                                    <Scale className="h-4 w-4" />
+                                  </Button>
+                                )}
+                                {cycle.status === 'calibration' && (
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    title="Close and finalize"
+                                    onClick={() => setPendingAction({ cycle, action: 'close' })}
+                                  >
+                                    <Lock className="h-4 w-4" />
+                                  </Button>
+                                )}
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+        )}
+
+        {canManage && (
+          <TabsContent value="competencies">
+            <Card>
+              <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                <div>
+                  <CardTitle>Competencies</CardTitle>
+                  <CardDescription>The library review cycles pick the competencies they rate from</CardDescription>
+                </div>
+                <Button
+                  onClick={() => {
+                    setEditingCompetency(null);
+                    setCompetencyDialogOpen(true);
+                  }}
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  New Competency
+                </Button>
+              </CardHeader>
+              <CardContent>
+                {competencies.length === 0 ? (
+                  <p className="text-center text-muted-foreground py-4">No competencies yet</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Name</TableHead>
+                        <TableHead>Category</TableHead>
+                        <TableHead>Description</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead className="text-right">Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {competencies.map((competency) => (
+                        <TableRow key={competency.id}>
+                          <TableCell className="font-medium">{competency.name}</TableCell>
+                          <TableCell>{competency.category || '—'}</TableCell>
+                          <TableCell className="max-w-md truncate">{competency.description || '—'}</TableCell>
+                          <TableCell>
+                            <Badge variant={competency.is_active ? 'default' : 'outline'}>
+                              {competency.is_active ? 'Active' : 'Inactive'}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title="Edit"
+                              onClick={() => {
+                                setEditingCompetency(competency);
+                                setCompetencyDialogOpen(true);
+                              }}
+                            >
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+        )}
+      </Tabs>
+
+      <FeedbackFormDialog
+        request={fillingRequest}
+        onOpenChange={(open) => !open && setFillingRequest(null)}
+        onSubmitted={fetchFeedback}
+      />
+      <RequestPeerFeedbackDialog
+        review={peerReview}
+        onOpenChange={(open) => !open && setPeerReview(null)}
+        onRequested={fetchFeedback}
+      />
+      <ReviewDetailDialog reviewId={viewingReviewId} onOpenChange={(open) => !open && setViewingReviewId(null)} />
+      <GoalFormDialog
+        open={goalDialogOpen}
+        goal={editingGoal}
+        employeeId={goalEmployeeId}
+        cycles={cycles}
+        onOpenChange={setGoalDialogOpen}
+        onSaved={fetchGoals}
+      />
+      <GoalCheckinDialog
+        goal={checkinGoal}
+        readOnly={checkinGoal?.status === 'cancelled'}
+        onOpenChange={(open) => !open && setCheckinGoal(null)}
+        onSaved={fetchGoals}
+      />
+      {canManage && (
+        <>
+          <ReviewCycleFormDialog
+            open={cycleDialogOpen}
+            cycle={editingCycle}
+            competencies={competencies.filter((competency) => competency.is_active)}
+            departments={departments}
+            onOpenChange={setCycleDialogOpen}
+            onSaved={fetchCycles}
+          />
+          <CompetencyFormDialog
+            open={competencyDialogOpen}
+            competency={editingCompetency}
+            onOpenChange={setCompetencyDialogOpen}
+            onSaved={fetchSetup}
+          />
+        </>
+      )}
+
+      <AlertDialog open={!!decliningRequest} onOpenChange={(open) => !open && setDecliningRequest(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Decline feedback request?</AlertDialogTitle>
+            <AlertDialogDescription>
+              You will not give peer feedback on {decliningRequest?.employee_name || 'this colleague'} for{' '}
+              {decliningRequest?.cycle_name}.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDecline}>Decline</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={!!deletingGoal} onOpenChange={(open) => !open && setDeletingGoal(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete goal?</AlertDialogTitle>
+            <AlertDialogDescription>{deletingGoal?.title} and its check-ins will be removed.</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDeleteGoal}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={!!pendingAction} onOpenChange={(open) => !open && !running && setPendingAction(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{pendingAction && CYCLE_ACTION_COPY[pendingAction.action].title}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingAction && `${pendingAction.cycle.name}: ${CYCLE_ACTION_COPY[pendingAction.action].description}`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={running}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleCycleAction} disabled={running}>
+              {running && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {pendingAction && CYCLE_ACTION_COPY[pendingAction.action].confirm}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -163,10 +163,10 @@ export default function Pricing() {
                   </Button>
                 </DropdownMenuTrigger>
                 <DropdownMenuContent align="end">
-                  {Object.entries(availableCurrencies).map(([countryCode, currencyInfo]) => (
+                  {Object.entries(availableCurrencies).map(([code, currencyInfo]) => (
                     <DropdownMenuItem 
-                      key={countryCode}
-                      onClick={() => changeCurrency(countryCode)}
+                      key={code}
+                      onClick={() => changeCurrency(code)}
                       className="cursor-pointer"
                     >
                       {currencyInfo.symbol} {currencyInfo.code} - {currencyInfo.name}
@@ -57,6 +57,7 @@ import {
 } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
 import { Textarea } from '@/components/ui/textarea';
+import { ExpiringContractsCard } from '@/components/procurement/ExpiringContractsCard';
 
 export default function ProcurementManagement() {
   const [activeTab, setActiveTab] = useState('overview');
@@ -209,7 +210,7 @@ export default function ProcurementManagement() {
   const handleCreatePO = async () => {
     try {
       setLoading(true);
-      await createPurchaseOrder({
+      const po = await createPurchaseOrder({
         ...poForm,
         tax_amount: poForm.tax_amount ? parseFloat(poForm.tax_amount) : 0,
         shipping_cost: poForm.shipping_cost ? parseFloat(poForm.shipping_cost) : 0,
@@ -219,6 +220,9 @@ export default function ProcurementManagement() {
         title: 'Success',
         description: 'Purchase order created successfully',
       });
+      if (po.contract_warnings?.length) {
+        toast({ title: 'Contract warning', description: po.contract_warnings.join(' ') });
+      }
       setShowPODialog(false);
       setPoForm({
         requisition_id: '',
@@ -365,6 +369,8 @@ export default function ProcurementManagement() {
               </CardContent>
             </Card>
           </div>
+
+          <ExpiringContractsCard />
         </TabsContent>
 
         {/* Requisitions Tab */}
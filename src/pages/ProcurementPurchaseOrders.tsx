@@ -66,6 +66,7 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { CurrencyRateFields } from '@/components/financial/CurrencyRateFields';
 
 interface PurchaseOrderItem {
   id?: string;
@@ -223,18 +224,16 @@ export default function ProcurementPurchaseOrders() {
         })),
       };
 
-      if (isEditing && selectedOrder) {
-        await updatePurchaseOrder(selectedOrder.id, orderData);
-        toast({
-          title: 'Success',
-          description: 'Purchase order updated successfully',
-        });
-      } else {
-        await createPurchaseOrder(orderData);
-        toast({
-          title: 'Success',
-          description: 'Purchase order created successfully',
-        });
+      const saved = isEditing && selectedOrder
+        ? await updatePurchaseOrder(selectedOrder.id, orderData)
+        : await createPurchaseOrder(orderData);
+      toast({
+        title: 'Success',
+        description: isEditing ? 'Purchase order updated successfully' : 'Purchase order created successfully',
+      });
+      // Saved, but over the contract value or above contract prices when enforcement only warns
+      if (saved.contract_warnings?.length) {
+        toast({ title: 'Contract warning', description: saved.contract_warnings.join(' ') });
       }
       setShowOrderDialog(false);
       resetForm();
@@ -556,6 +555,9 @@ export default function ProcurementPurchaseOrders() {
                       <TableCell className="font-mono font-medium">{order.po_number}</TableCell>
                       <TableCell>
                         {order.supplier_name || order.supplier_code || 'N/A'}
+                        {order.contract_number && (
+                          <div className="text-xs text-muted-foreground">Contract {order.contract_number}</div>
+                        )}
                       </TableCell>
                       <TableCell>
                         {new Date(order.order_date).toLocaleDateString()}
@@ -653,42 +655,19 @@ export default function ProcurementPurchaseOrders() {
                 rows={2}
               />
             </div>
-            <div className="grid gap-4 md:grid-cols-3">
-              <div className="grid gap-2">
-                <Label htmlFor="currency">Currency</Label>
-                <Select
-                  value={poForm.currency}
-                  onValueChange={(value) => setPoForm({ ...poForm, currency: value })}
-                >
-                  <SelectTrigger>
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="INR">INR</SelectItem>
-                    <SelectItem value="USD">USD</SelectItem>
-                    <SelectItem value="EUR">EUR</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-              <div className="grid gap-2">
-                <Label htmlFor="payment_terms">Payment Terms</Label>
-                <Input
-                  id="payment_terms"
-                  value={poForm.payment_terms}
-                  onChange={(e) => setPoForm({ ...poForm, payment_terms: e.target.value })}
-                  placeholder="e.g., Net 30"
-                />
-              </div>
-              <div className="grid gap-2">
-                <Label htmlFor="exchange_rate">Exchange Rate</Label>
-                <Input
-                  id="exchange_rate"
-                  type="number"
-                  step="0.0001"
-                  value={poForm.exchange_rate}
-                  onChange={(e) => setPoForm({ ...poForm, exchange_rate: e.target.value })}
-                />
-              </div>
+            <CurrencyRateFields
+              value={{ currency: poForm.currency, exchange_rate: parseFloat(poForm.exchange_rate) || 0 }}
+              onChange={(value) => setPoForm((prev) => ({ ...prev, currency: value.currency, exchange_rate: String(value.exchange_rate) }))}
+              rateDate={selectedOrder?.order_date || new Date().toISOString().split('T')[0]}
+            />
+            <div className="grid gap-2">
+              <Label htmlFor="payment_terms">Payment Terms</Label>
+              <Input
+                id="payment_terms"
+                value={poForm.payment_terms}
+                onChange={(e) => setPoForm({ ...poForm, payment_terms: e.target.value })}
+                placeholder="e.g., Net 30"
+              />
             </div>
 
             {/* Items Section */}
@@ -911,6 +890,9 @@ export default function ProcurementPurchaseOrders() {
                 <div className="grid gap-2">
                   <Label className="text-sm font-medium">Supplier</Label>
                   <p>{selectedOrder.supplier_name || selectedOrder.supplier_code || 'N/A'}</p>
+                  {selectedOrder.contract_number && (
+                    <p className="text-xs text-muted-foreground">Under contract {selectedOrder.contract_number}</p>
+                  )}
                 </div>
                 <div className="grid gap-2">
                   <Label className="text-sm font-medium">Order Date</Label>
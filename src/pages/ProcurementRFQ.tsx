@@ -23,6 +23,7 @@ import {
   Calendar,
   DollarSign,
   AlertCircle,
+  Award,
 } from 'lucide-react';
 import {
   getRfqRfp,
@@ -65,6 +66,7 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { RfqBidsDialog } from '@/components/procurement/RfqBidsDialog';
 
 interface RfqItem {
   product_id?: string;
@@ -85,6 +87,7 @@ export default function ProcurementRFQ() {
   const [selectedRfq, setSelectedRfq] = useState<RfqRfp | null>(null);
   const [showRfqDialog, setShowRfqDialog] = useState(false);
   const [showViewDialog, setShowViewDialog] = useState(false);
+  const [bidsRfqId, setBidsRfqId] = useState<string | null>(null);
   const [isEditing, setIsEditing] = useState(false);
 
   // Products
@@ -292,6 +295,7 @@ export default function ProcurementRFQ() {
       draft: { variant: 'secondary', icon: FileSearch, label: 'Draft' },
       published: { variant: 'default', icon: CheckCircle2, label: 'Published' },
       closed: { variant: 'outline', icon: XCircle, label: 'Closed' },
+      awarded: { variant: 'default', icon: Award, label: 'Awarded' },
       cancelled: { variant: 'destructive', icon: XCircle, label: 'Cancelled' },
     };
 
@@ -430,6 +434,7 @@ export default function ProcurementRFQ() {
                   <SelectItem value="draft">Draft</SelectItem>
                   <SelectItem value="published">Published</SelectItem>
                   <SelectItem value="closed">Closed</SelectItem>
+                  <SelectItem value="awarded">Awarded</SelectItem>
                   <SelectItem value="cancelled">Cancelled</SelectItem>
                 </SelectContent>
               </Select>
@@ -506,6 +511,12 @@ export default function ProcurementRFQ() {
                               <Eye className="mr-2 h-4 w-4" />
                               View
                             </DropdownMenuItem>
+                            {rfq.status !== 'cancelled' && (
+                              <DropdownMenuItem onClick={() => setBidsRfqId(rfq.id)}>
+                                <Award className="mr-2 h-4 w-4" />
+                                {rfq.status === 'awarded' ? 'View Award' : 'Bids & Award'}
+                              </DropdownMenuItem>
+                            )}
                             {rfq.status === 'draft' && (
                               <DropdownMenuItem>
                                 <Edit className="mr-2 h-4 w-4" />
@@ -825,6 +836,12 @@ export default function ProcurementRFQ() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <RfqBidsDialog
+        rfqId={bidsRfqId}
+        onClose={() => setBidsRfqId(null)}
+        onChanged={fetchRfqs}
+      />
     </div>
   );
 }
@@ -54,6 +54,16 @@ interface ProcurementSettings {
   enable_rfq: boolean;
   rfq_validity_days: number;
   require_multiple_quotes: boolean;
+
+  // Invoice Matching
+  match_price_tolerance_percent: number;
+  match_quantity_tolerance_percent: number;
+  auto_approve_matched_invoices: boolean;
+
+  // Vendor Contracts
+  contract_reminder_days: string;
+  contract_price_enforcement: 'block' | 'warn' | 'off';
+  contract_price_tolerance_percent: number;
 }
 
 export default function ProcurementSettings() {
@@ -77,6 +87,12 @@ export default function ProcurementSettings() {
     enable_rfq: true,
     rfq_validity_days: 30,
     require_multiple_quotes: false,
+    match_price_tolerance_percent: 2,
+    match_quantity_tolerance_percent: 0,
+    auto_approve_matched_invoices: false,
+    contract_reminder_days: '90,30,7',
+    contract_price_enforcement: 'block',
+    contract_price_tolerance_percent: 0,
   });
 
   useEffect(() => {
@@ -88,7 +104,7 @@ export default function ProcurementSettings() {
       setLoading(true);
       const { getProcurementSettings } = await import('@/services/api/settings-service');
       const data = await getProcurementSettings();
-      setSettings(data);
+      setSettings((prev) => ({ ...prev, ...data }));
     } catch (error: any) {
       toast({
         title: 'Error',
@@ -376,6 +392,136 @@ export default function ProcurementSettings() {
           </CardContent>
         </Card>
 
+        {/* Invoice Matching */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <AlertTriangle className="w-5 h-5" />
+              Invoice Matching
+            </CardTitle>
+            <CardDescription>
+              Tolerances for matching supplier invoices to purchase orders and goods receipts
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div>
+              <Label>Price Tolerance (%)</Label>
+              <Input
+                type="number"
+                min="0"
+                step="0.1"
+                value={settings.match_price_tolerance_percent}
+                onChange={(e) =>
+                  setSettings({
+                    ...settings,
+                    match_price_tolerance_percent: parseFloat(e.target.value) || 0,
+                  })
+                }
+              />
+              <p className="text-sm text-muted-foreground mt-1">
+                Invoice prices above the PO price by more than this are exceptions
+              </p>
+            </div>
+            <div>
+              <Label>Quantity Tolerance (%)</Label>
+              <Input
+                type="number"
+                min="0"
+                step="0.1"
+                value={settings.match_quantity_tolerance_percent}
+                onChange={(e) =>
+                  setSettings({
+                    ...settings,
+                    match_quantity_tolerance_percent: parseFloat(e.target.value) || 0,
+                  })
+                }
+              />
+              <p className="text-sm text-muted-foreground mt-1">
+                Billed quantities above the accepted, unbilled receipt quantity by more than this are exceptions
+              </p>
+            </div>
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label>Auto-approve Matched Invoices</Label>
+                <p className="text-sm text-muted-foreground">
+                  Post invoices to payables as soon as they match
+                </p>
+              </div>
+              <Switch
+                checked={settings.auto_approve_matched_invoices}
+                onCheckedChange={(checked) =>
+                  setSettings({ ...settings, auto_approve_matched_invoices: checked })
+                }
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Vendor Contracts */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <FileText className="w-5 h-5" />
+              Vendor Contracts
+            </CardTitle>
+            <CardDescription>
+              Renewal reminders and contract price checks on purchase orders
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div>
+              <Label>Renewal Reminders (days before end)</Label>
+              <Input
+                value={settings.contract_reminder_days}
+                onChange={(e) => setSettings({ ...settings, contract_reminder_days: e.target.value })}
+                placeholder="90,30,7"
+              />
+              <p className="text-sm text-muted-foreground mt-1">
+                Comma-separated lead times; a contract can override these
+              </p>
+            </div>
+            <div>
+              <Label>Contract Price Enforcement</Label>
+              <Select
+                value={settings.contract_price_enforcement}
+                onValueChange={(value) =>
+                  setSettings({
+                    ...settings,
+                    contract_price_enforcement: value as ProcurementSettings['contract_price_enforcement'],
+                  })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="block">Block POs above contract price</SelectItem>
+                  <SelectItem value="warn">Warn only</SelectItem>
+                  <SelectItem value="off">Off</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Contract Price Tolerance (%)</Label>
+              <Input
+                type="number"
+                min="0"
+                step="0.1"
+                value={settings.contract_price_tolerance_percent}
+                onChange={(e) =>
+                  setSettings({
+                    ...settings,
+                    contract_price_tolerance_percent: parseFloat(e.target.value) || 0,
+                  })
+                }
+              />
+              <p className="text-sm text-muted-foreground mt-1">
+                PO prices above the contract price by more than this are enforced
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+
         {/* Notification Settings */}
         <Card className="md:col-span-2">
           <CardHeader>
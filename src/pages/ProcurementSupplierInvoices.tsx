@@ -0,0 +1,322 @@
+/**
+ * Procurement Supplier Invoices Page
+ * Supplier bills with three-way matching and the mismatch exception queue
+ */
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useToast } from '@/hooks/use-toast';
+import { AlertTriangle, CheckCircle2, Clock, Eye, FileText, Loader2, Plus, Search } from 'lucide-react';
+import {
+  getGoodsReceipts,
+  getPurchaseOrders,
+  getSupplierInvoices,
+  getSuppliers,
+  type GoodsReceipt,
+  type PurchaseOrder,
+  type Supplier,
+  type SupplierInvoice,
+} from '@/services/api/procurement-service';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { SupplierInvoiceForm } from '@/components/procurement/SupplierInvoiceForm';
+import { SupplierInvoiceDetailDialog } from '@/components/procurement/SupplierInvoiceDetailDialog';
+
+export default function ProcurementSupplierInvoices() {
+  const { toast } = useToast();
+  const [initialLoad, setInitialLoad] = useState(true);
+  const [invoices, setInvoices] = useState<SupplierInvoice[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [purchaseOrders, setPurchaseOrders] = useState<PurchaseOrder[]>([]);
+  const [goodsReceipts, setGoodsReceipts] = useState<GoodsReceipt[]>([]);
+
+  const [view, setView] = useState<'all' | 'exceptions'>('all');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [statusFilter, setStatusFilter] = useState('all');
+  const [showCreateDialog, setShowCreateDialog] = useState(false);
+  const [detailInvoiceId, setDetailInvoiceId] = useState<string | null>(null);
+
+  const fetchInvoices = async () => {
+    try {
+      const data = await getSupplierInvoices();
+      setInvoices(data || []);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to fetch supplier invoices',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  useEffect(() => {
+    const loadData = async () => {
+      try {
+        setInitialLoad(true);
+        const [supplierData, orderData, receiptData] = await Promise.all([
+          getSuppliers({ is_active: true }),
+          getPurchaseOrders(),
+          getGoodsReceipts(),
+          fetchInvoices(),
+        ]);
+        setSuppliers(supplierData || []);
+        setPurchaseOrders(orderData || []);
+        setGoodsReceipts(receiptData || []);
+      } catch (error) {
+        console.error('Error loading supplier invoice data:', error);
+        toast({
+          title: 'Error',
+          description: error instanceof Error ? error.message : 'Failed to load supplier invoices',
+          variant: 'destructive',
+        });
+      } finally {
+        setInitialLoad(false);
+      }
+    };
+    loadData();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // The exception queue holds pending bills that failed the match
+  const exceptionQueue = invoices.filter((invoice) => invoice.status === 'pending' && invoice.match_status !== 'matched');
+
+  const filteredInvoices = (view === 'exceptions' ? exceptionQueue : invoices).filter((invoice) => {
+    const term = searchTerm.toLowerCase();
+    const matchesSearch =
+      !term ||
+      invoice.invoice_number.toLowerCase().includes(term) ||
+      invoice.supplier_invoice_number?.toLowerCase().includes(term) ||
+      invoice.supplier_name?.toLowerCase().includes(term) ||
+      invoice.po_number?.toLowerCase().includes(term);
+    const matchesStatus = statusFilter === 'all' || invoice.status === statusFilter;
+    return matchesSearch && matchesStatus;
+  });
+
+  const pendingCount = invoices.filter((invoice) => invoice.status === 'pending').length;
+  const approvedCount = invoices.filter((invoice) => invoice.status === 'approved').length;
+  const payableTotal = invoices
+    .filter((invoice) => invoice.status === 'approved' && invoice.payment_status !== 'paid')
+    .reduce((sum, invoice) => sum + Number(invoice.base_total_amount ?? invoice.total_amount ?? 0), 0);
+
+  const formatAmount = (value: number, currency = 'INR') =>
+    `${currency} ${Number(value || 0).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+  const getStatusBadge = (status: SupplierInvoice['status']) => {
+    const statusConfig: Record<string, { variant: 'default' | 'secondary' | 'outline' | 'destructive'; label: string }> = {
+      pending: { variant: 'secondary', label: 'Pending' },
+      approved: { variant: 'default', label: 'Approved' },
+      paid: { variant: 'default', label: 'Paid' },
+      disputed: { variant: 'destructive', label: 'Disputed' },
+      cancelled: { variant: 'outline', label: 'Cancelled' },
+    };
+    const config = statusConfig[status] || { variant: 'secondary', label: status };
+    return <Badge variant={config.variant}>{config.label}</Badge>;
+  };
+
+  const getMatchBadge = (matchStatus: SupplierInvoice['match_status']) => {
+    if (matchStatus === 'matched') {
+      return (
+        <Badge variant="outline" className="text-green-600 border-green-600">
+          <CheckCircle2 className="h-3 w-3 mr-1" />
+          Matched
+        </Badge>
+      );
+    }
+    return (
+      <Badge variant="destructive">
+        <AlertTriangle className="h-3 w-3 mr-1" />
+        {matchStatus === 'exception' ? 'Exception' : 'Unmatched'}
+      </Badge>
+    );
+  };
+
+  if (initialLoad) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Supplier Invoices</h1>
+          <p className="text-muted-foreground mt-1">
+            Match supplier bills to purchase orders and goods receipts before they reach accounts payable
+          </p>
+        </div>
+        <Button onClick={() => setShowCreateDialog(true)}>
+          <Plus className="mr-2 h-4 w-4" />
+          Record Invoice
+        </Button>
+      </div>
+
+      {/* Stats Cards */}
+      <div className="grid gap-4 md:grid-cols-4">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Total Bills</CardTitle>
+            <FileText className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{invoices.length}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Pending</CardTitle>
+            <Clock className="h-4 w-4 text-yellow-500" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{pendingCount}</div>
+            <p className="text-xs text-muted-foreground">Awaiting approval</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Exceptions</CardTitle>
+            <AlertTriangle className="h-4 w-4 text-red-500" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{exceptionQueue.length}</div>
+            <p className="text-xs text-muted-foreground">Failed the three-way match</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Approved Payables</CardTitle>
+            <CheckCircle2 className="h-4 w-4 text-green-500" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatAmount(payableTotal)}</div>
+            <p className="text-xs text-muted-foreground">{approvedCount} approved bill(s)</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+            <div>
+              <CardTitle>Bills</CardTitle>
+              <CardDescription>
+                {view === 'exceptions'
+                  ? 'Pending bills whose quantities or prices do not match the order and receipt'
+                  : 'All supplier invoices'}
+              </CardDescription>
+            </div>
+            <Tabs value={view} onValueChange={(value) => setView(value as 'all' | 'exceptions')}>
+              <TabsList>
+                <TabsTrigger value="all">All Bills</TabsTrigger>
+                <TabsTrigger value="exceptions">Exception Queue ({exceptionQueue.length})</TabsTrigger>
+              </TabsList>
+            </Tabs>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="relative md:col-span-2">
+              <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search bill, invoice, supplier or PO numbers..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-8"
+              />
+            </div>
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Statuses</SelectItem>
+                <SelectItem value="pending">Pending</SelectItem>
+                <SelectItem value="approved">Approved</SelectItem>
+                <SelectItem value="paid">Paid</SelectItem>
+                <SelectItem value="disputed">Disputed</SelectItem>
+                <SelectItem value="cancelled">Cancelled</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Bill #</TableHead>
+                <TableHead>Supplier</TableHead>
+                <TableHead>Supplier Invoice</TableHead>
+                <TableHead>PO / GRN</TableHead>
+                <TableHead>Date</TableHead>
+                <TableHead className="text-right">Total</TableHead>
+                <TableHead>Match</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filteredInvoices.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={9} className="text-center text-muted-foreground">
+                    {view === 'exceptions' ? 'No bills waiting on exceptions' : 'No supplier invoices found'}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                filteredInvoices.map((invoice) => (
+                  <TableRow key={invoice.id}>
+                    <TableCell className="font-medium">{invoice.invoice_number}</TableCell>
+                    <TableCell>{invoice.supplier_name || '-'}</TableCell>
+                    <TableCell>{invoice.supplier_invoice_number || '-'}</TableCell>
+                    <TableCell>
+                      {invoice.po_number || '-'}
+                      {invoice.grn_number && (
+                        <div className="text-xs text-muted-foreground">{invoice.grn_number}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>{new Date(invoice.invoice_date).toLocaleDateString()}</TableCell>
+                    <TableCell className="text-right">{formatAmount(invoice.total_amount, invoice.currency)}</TableCell>
+                    <TableCell>{getMatchBadge(invoice.match_status)}</TableCell>
+                    <TableCell>{getStatusBadge(invoice.status)}</TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="sm" onClick={() => setDetailInvoiceId(invoice.id)}>
+                        <Eye className="h-4 w-4 mr-1" />
+                        {invoice.status === 'pending' ? 'Review' : 'View'}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <SupplierInvoiceForm
+        open={showCreateDialog}
+        suppliers={suppliers}
+        purchaseOrders={purchaseOrders}
+        goodsReceipts={goodsReceipts}
+        onClose={() => setShowCreateDialog(false)}
+        onSaved={(invoice) => {
+          setShowCreateDialog(false);
+          fetchInvoices();
+          if (invoice.match_status !== 'matched') {
+            setDetailInvoiceId(invoice.id);
+          }
+        }}
+      />
+
+      <SupplierInvoiceDetailDialog
+        invoiceId={detailInvoiceId}
+        onClose={() => setDetailInvoiceId(null)}
+        onChanged={fetchInvoices}
+      />
+    </div>
+  );
+}
@@ -24,6 +24,8 @@ import {
   Clock,
   AlertTriangle,
   FileSignature,
+  ListChecks,
+  RefreshCw,
 } from 'lucide-react';
 import {
   getVendorContracts,
@@ -60,6 +62,9 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
+import { ContractPriceScheduleDialog } from '@/components/procurement/ContractPriceScheduleDialog';
+import { RenewContractDialog } from '@/components/procurement/RenewContractDialog';
+import { VendorContractActivity } from '@/components/procurement/VendorContractActivity';
 
 export default function ProcurementVendorContracts() {
   const { toast } = useToast();
@@ -73,6 +78,10 @@ export default function ProcurementVendorContracts() {
   const [isViewDialogOpen, setIsViewDialogOpen] = useState(false);
   const [selectedContract, setSelectedContract] = useState<VendorContract | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [pricingContract, setPricingContract] = useState<VendorContract | null>(null);
+  const [renewingContract, setRenewingContract] = useState<VendorContract | null>(null);
+  // Comma-separated reminder lead times; empty uses the procurement settings
+  const [reminderDaysInput, setReminderDaysInput] = useState('');
 
   // Form state
   const [formData, setFormData] = useState<Partial<VendorContract>>({
@@ -89,6 +98,8 @@ export default function ProcurementVendorContracts() {
     signed_date: '',
     document_url: '',
     notes: '',
+    renewal_type: 'manual',
+    renewal_term_months: null,
   });
 
   useEffect(() => {
@@ -151,7 +162,10 @@ export default function ProcurementVendorContracts() {
       signed_date: '',
       document_url: '',
       notes: '',
+      renewal_type: 'manual',
+      renewal_term_months: null,
     });
+    setReminderDaysInput('');
     setSelectedContract(null);
     setIsDialogOpen(true);
   };
@@ -160,6 +174,7 @@ export default function ProcurementVendorContracts() {
     setFormData({
       ...contract,
     });
+    setReminderDaysInput((contract.reminder_days || []).join(', '));
     setSelectedContract(contract);
     setIsDialogOpen(true);
   };
@@ -181,14 +196,21 @@ export default function ProcurementVendorContracts() {
   const handleSubmit = async () => {
     try {
       setIsSubmitting(true);
+      const contractData: Partial<VendorContract> = {
+        ...formData,
+        reminder_days: reminderDaysInput
+          .split(',')
+          .map((day) => parseInt(day, 10))
+          .filter((day) => !isNaN(day) && day >= 0),
+      };
       if (selectedContract) {
-        await updateVendorContract(selectedContract.id, formData);
+        await updateVendorContract(selectedContract.id, contractData);
         toast({
           title: 'Success',
           description: 'Contract updated successfully',
         });
       } else {
-        await createVendorContract(formData);
+        await createVendorContract(contractData);
         toast({
           title: 'Success',
           description: 'Contract created successfully',
@@ -388,6 +410,7 @@ export default function ProcurementVendorContracts() {
                   <TableHead>Supplier</TableHead>
                   <TableHead>Type</TableHead>
                   <TableHead>Value</TableHead>
+                  <TableHead>Consumed</TableHead>
                   <TableHead>Start Date</TableHead>
                   <TableHead>End Date</TableHead>
                   <TableHead>Status</TableHead>
@@ -402,6 +425,21 @@ export default function ProcurementVendorContracts() {
                     <TableCell>{contract.supplier_name || '-'}</TableCell>
                     <TableCell>{contract.contract_type || '-'}</TableCell>
                     <TableCell>{formatCurrency(contract.value)}</TableCell>
+                    <TableCell>
+                      {formatCurrency(Number(contract.consumed_value || 0))}
+                      {contract.value ? (
+                        <div
+                          className={`text-xs ${
+                            Number(contract.consumed_value || 0) > Number(contract.value)
+                              ? 'text-red-600'
+                              : 'text-muted-foreground'
+                          }`}
+                        >
+                          {Math.round((Number(contract.consumed_value || 0) / Number(contract.value)) * 100)}% ·{' '}
+                          {Number(contract.po_count || 0)} PO(s)
+                        </div>
+                      ) : null}
+                    </TableCell>
                     <TableCell>
                       {contract.start_date
                         ? new Date(contract.start_date).toLocaleDateString()
@@ -411,6 +449,11 @@ export default function ProcurementVendorContracts() {
                       {contract.end_date
                         ? new Date(contract.end_date).toLocaleDateString()
                         : '-'}
+                      {contract.renewal_type === 'auto' && (
+                        <div className="text-xs text-muted-foreground">
+                          Auto-renews{contract.renewal_term_months ? ` for ${contract.renewal_term_months} mo` : ''}
+                        </div>
+                      )}
                     </TableCell>
                     <TableCell>{getStatusBadge(contract.status)}</TableCell>
                     <TableCell className="text-right">
@@ -429,6 +472,24 @@ export default function ProcurementVendorContracts() {
                         >
                           <Edit className="w-4 h-4" />
                         </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title="Price schedule"
+                          onClick={() => setPricingContract(contract)}
+                        >
+                          <ListChecks className="w-4 h-4" />
+                        </Button>
+                        {(contract.status === 'active' || contract.status === 'expired') && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Renew"
+                            onClick={() => setRenewingContract(contract)}
+                          >
+                            <RefreshCw className="w-4 h-4" />
+                          </Button>
+                        )}
                         <Button
                           variant="ghost"
                           size="sm"
@@ -606,6 +667,53 @@ export default function ProcurementVendorContracts() {
                 rows={3}
               />
             </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <Label>Renewal</Label>
+                <Select
+                  value={formData.renewal_type || 'manual'}
+                  onValueChange={(value) =>
+                    setFormData({ ...formData, renewal_type: value as VendorContract['renewal_type'] })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="manual">Manual renewal</SelectItem>
+                    <SelectItem value="auto">Auto-renew</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Renewal Term (months)</Label>
+                <Input
+                  type="number"
+                  min="1"
+                  value={formData.renewal_term_months ?? ''}
+                  onChange={(e) =>
+                    setFormData({
+                      ...formData,
+                      renewal_term_months: e.target.value ? parseInt(e.target.value, 10) : null,
+                    })
+                  }
+                  placeholder="12"
+                />
+              </div>
+              <div>
+                <Label>Reminder Days</Label>
+                <Input
+                  value={reminderDaysInput}
+                  onChange={(e) => setReminderDaysInput(e.target.value)}
+                  placeholder="Default, e.g. 90, 30, 7"
+                />
+              </div>
+            </div>
+            {formData.renewal_type === 'auto' && !formData.renewal_term_months && (
+              <p className="text-sm text-muted-foreground">
+                Set a renewal term so the contract can extend itself when it ends; without one it expires.
+              </p>
+            )}
             <div>
               <Label>Signed Date</Label>
               <Input
@@ -697,10 +805,22 @@ export default function ProcurementVendorContracts() {
                   </p>
                 </div>
               </div>
-              <div>
-                <Label className="text-muted-foreground">Value</Label>
-                <p className="font-medium">{formatCurrency(selectedContract.value)}</p>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label className="text-muted-foreground">Renewal</Label>
+                  <p>
+                    {selectedContract.renewal_type === 'auto'
+                      ? `Auto-renews${selectedContract.renewal_term_months ? ` for ${selectedContract.renewal_term_months} months` : ''}`
+                      : 'Manual'}
+                    {selectedContract.renewal_count ? ` · renewed ${selectedContract.renewal_count} time(s)` : ''}
+                  </p>
+                </div>
+                <div>
+                  <Label className="text-muted-foreground">Owner</Label>
+                  <p>{selectedContract.owner_name || selectedContract.signed_by_email || '-'}</p>
+                </div>
               </div>
+              <VendorContractActivity contract={selectedContract} />
               {selectedContract.terms_conditions && (
                 <div>
                   <Label className="text-muted-foreground">Terms & Conditions</Label>
@@ -728,6 +848,16 @@ export default function ProcurementVendorContracts() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <ContractPriceScheduleDialog
+        contract={pricingContract}
+        onOpenChange={(open) => !open && setPricingContract(null)}
+      />
+      <RenewContractDialog
+        contract={renewingContract}
+        onOpenChange={(open) => !open && setRenewingContract(null)}
+        onRenewed={() => loadData()}
+      />
     </div>
   );
 }
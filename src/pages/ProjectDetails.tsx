@@ -35,7 +35,11 @@ import { LoadingSpinner } from "@/components/LoadingSpinner";
 import { projectService, Project, Task } from "@/services/api/project-service";
 import ProjectFormDialog from "@/components/ProjectFormDialog";
 import { TaskKanbanBoard } from "@/components/TaskKanbanBoard";
-import { GanttChart } from "@/components/project-management/GanttChart";
+import { ProjectGantt } from "@/components/project-management/ProjectGantt";
+import { RiskRegister, RegisterPerson } from "@/components/project-management/RiskRegister";
+import { IssueLog } from "@/components/project-management/IssueLog";
+import { MilestoneRegister } from "@/components/project-management/MilestoneRegister";
+import { ProjectHealthSummary } from "@/components/project-management/ProjectHealthSummary";
 import { selectRecords, selectOne } from "@/services/api/postgresql-service";
 import { getAgencyId } from "@/utils/agencyUtils";
 import { getEmployeesForAssignmentAuto } from "@/services/api/employee-selector-service";
@@ -79,10 +83,15 @@ export default function ProjectDetails() {
   const [loadingIntegration, setLoadingIntegration] = useState(false);
   const [revenue, setRevenue] = useState<number>(0);
 
+  // Register owners/assignees and health refresh
+  const [people, setPeople] = useState<RegisterPerson[]>([]);
+  const [healthRefreshKey, setHealthRefreshKey] = useState(0);
+
   useEffect(() => {
     if (id) {
       loadProject();
       loadTasks();
+      loadPeople();
     }
   }, [id]);
 
@@ -122,6 +131,17 @@ export default function ProjectDetails() {
     }
   };
 
+  const loadPeople = async () => {
+    try {
+      const employees = await getEmployeesForAssignmentAuto(profile, user?.id);
+      setPeople(employees.map(emp => ({ id: emp.user_id, name: emp.full_name })));
+    } catch (error) {
+      console.error('Error loading employees:', error);
+    }
+  };
+
+  const refreshHealth = () => setHealthRefreshKey(key => key + 1);
+
   const loadIntegrationData = async () => {
     if (!project) return;
     
@@ -340,10 +360,15 @@ export default function ProjectDetails() {
           <TabsTrigger value="tasks">Tasks</TabsTrigger>
           <TabsTrigger value="team">Team</TabsTrigger>
           <TabsTrigger value="timeline">Timeline</TabsTrigger>
+          <TabsTrigger value="milestones">Milestones</TabsTrigger>
+          <TabsTrigger value="risks">Risks</TabsTrigger>
+          <TabsTrigger value="issues">Issues</TabsTrigger>
           <TabsTrigger value="budget">Budget</TabsTrigger>
         </TabsList>
 
         <TabsContent value="overview" className="space-y-4">
+          <ProjectHealthSummary projectId={project.id} currency={project.currency} refreshKey={healthRefreshKey} />
+
           <div className="grid gap-4 md:grid-cols-2">
             <Card>
               <CardHeader>
@@ -645,22 +670,31 @@ export default function ProjectDetails() {
         </TabsContent>
 
         <TabsContent value="timeline" className="space-y-4">
-          <Card>
-            <CardHeader>
-              <CardTitle>Project Timeline</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <GanttChart projects={[{
-                id: project.id,
-                title: project.name,
-                start_date: project.start_date || new Date().toISOString(),
-                end_date: project.end_date || new Date().toISOString(),
-                status: project.status,
-                progress: project.progress,
-                clients: project.client ? { name: project.client.name } : undefined
-              }]} />
-            </CardContent>
-          </Card>
+          <ProjectGantt
+            projectId={project.id}
+            onScheduleChange={() => {
+              loadTasks();
+              refreshHealth();
+            }}
+          />
+        </TabsContent>
+
+        <TabsContent value="milestones" className="space-y-4">
+          <MilestoneRegister
+            projectId={project.id}
+            projectBudget={project.budget}
+            hasClient={!!project.client_id}
+            currency={project.currency}
+            onChange={refreshHealth}
+          />
+        </TabsContent>
+
+        <TabsContent value="risks" className="space-y-4">
+          <RiskRegister projectId={project.id} people={people} onChange={refreshHealth} />
+        </TabsContent>
+
+        <TabsContent value="issues" className="space-y-4">
+          <IssueLog projectId={project.id} people={people} onChange={refreshHealth} />
         </TabsContent>
 
         <TabsContent value="budget" className="space-y-4">
@@ -12,6 +12,7 @@ import { useAuth } from '@/hooks/useAuth';
 import { getAgencyId } from '@/utils/agencyUtils';
 import { Plus, Trash2, ArrowLeft, Save, Copy, Calculator } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { CurrencyRateFields } from '@/components/financial/CurrencyRateFields';
 
 interface QuotationLineItem {
   id: string;
@@ -42,6 +43,8 @@ interface Quotation {
   tax_amount: number;
   discount?: number;
   total_amount: number;
+  currency?: string;
+  exchange_rate?: number;
   terms_conditions?: string;
   terms_and_conditions?: string;
   notes?: string;
@@ -87,6 +90,8 @@ const QuotationForm: React.FC = () => {
     tax_amount: 0,
     discount: 0,
     total_amount: 0,
+    currency: '',
+    exchange_rate: 1,
     terms_conditions: '',
     notes: '',
     template_id: null,
@@ -157,6 +162,8 @@ const QuotationForm: React.FC = () => {
           tax_amount: Number(quotation.tax_amount) || 0,
           discount: Number(quotation.discount) || 0,
           total_amount: Number(quotation.total_amount) || 0,
+          currency: quotation.currency || '',
+          exchange_rate: Number(quotation.exchange_rate) || 1,
           terms_conditions: quotation.terms_conditions || quotation.terms_and_conditions || '',
           notes: quotation.notes || '',
           template_id: quotation.template_id || null,
@@ -543,6 +550,8 @@ const QuotationForm: React.FC = () => {
     }
   };
 
+  const currencyPrefix = !formData.currency || formData.currency === 'INR' ? '₹' : `${formData.currency} `;
+
   const formatCurrency = (amount: number): string => {
     return new Intl.NumberFormat('en-IN', {
       minimumFractionDigits: 2,
@@ -647,6 +656,9 @@ const QuotationForm: React.FC = () => {
       const expiryDate = formData.expiry_date ? new Date(formData.expiry_date).toISOString().split('T')[0] : null;
       const validUntil = formData.valid_until ? new Date(formData.valid_until).toISOString().split('T')[0] : null;
 
+      const exchangeRate = Number(formData.exchange_rate) || 1;
+      const baseTotalAmount = Math.round((Number(formData.total_amount) || 0) * exchangeRate * 100) / 100;
+
       if (id) {
         // Update existing quotation
         const { tax_amount, total_amount, ...updateData } = formData;
@@ -658,6 +670,9 @@ const QuotationForm: React.FC = () => {
             expiry_date: expiryDate,
             valid_until: validUntil,
             discount: formData.discount || 0,
+            currency: formData.currency || null,
+            exchange_rate: exchangeRate,
+            base_total_amount: baseTotalAmount,
           })
           .eq('id', id)
           .eq('agency_id', agencyId);
@@ -732,6 +747,9 @@ const QuotationForm: React.FC = () => {
           expiry_date: expiryDate,
           valid_until: validUntil,
           discount: formData.discount || 0,
+          currency: formData.currency || null,
+          exchange_rate: exchangeRate,
+          base_total_amount: baseTotalAmount,
           created_by: userId,
           agency_id: agencyId,
           created_at: new Date().toISOString(),
@@ -1021,9 +1039,9 @@ const QuotationForm: React.FC = () => {
                     <th className="text-left p-4 font-semibold text-sm w-[25%]">Item Name *</th>
                     <th className="text-left p-4 font-semibold text-sm w-[20%]">Description</th>
                     <th className="text-center p-4 font-semibold text-sm w-[10%]">Qty</th>
-                    <th className="text-right p-4 font-semibold text-sm w-[12%]">Unit Price (₹)</th>
+                    <th className="text-right p-4 font-semibold text-sm w-[12%]">Unit Price ({formData.currency || 'INR'})</th>
                     <th className="text-center p-4 font-semibold text-sm w-[10%]">Disc. %</th>
-                    <th className="text-right p-4 font-semibold text-sm w-[13%]">Line Total (₹)</th>
+                    <th className="text-right p-4 font-semibold text-sm w-[13%]">Line Total ({formData.currency || 'INR'})</th>
                     <th className="text-center p-4 font-semibold text-sm w-[10%]">Actions</th>
                   </tr>
                 </thead>
@@ -1072,7 +1090,7 @@ const QuotationForm: React.FC = () => {
                       </td>
                       <td className="p-3">
                         <div className="flex items-center justify-end gap-1">
-                          <span className="text-muted-foreground text-sm">₹</span>
+                          <span className="text-muted-foreground text-sm">{currencyPrefix}</span>
                           <Input
                             type="number"
                             min="0"
@@ -1106,7 +1124,7 @@ const QuotationForm: React.FC = () => {
                       </td>
                       <td className="p-3">
                         <div className="flex items-center justify-end gap-1">
-                          <span className="text-muted-foreground text-sm">₹</span>
+                          <span className="text-muted-foreground text-sm">{currencyPrefix}</span>
                           <div className="text-right bg-muted px-3 py-2 rounded-md font-semibold min-w-[100px] text-foreground">
                             {formatCurrency(calculateLineTotal(item))}
                           </div>
@@ -1209,7 +1227,7 @@ const QuotationForm: React.FC = () => {
                         />
                       </div>
                       <div>
-                        <Label className="text-xs text-muted-foreground mb-1 block">Unit Price (₹)</Label>
+                        <Label className="text-xs text-muted-foreground mb-1 block">Unit Price ({formData.currency || 'INR'})</Label>
                         <Input
                           type="number"
                           min="0"
@@ -1244,7 +1262,7 @@ const QuotationForm: React.FC = () => {
                         />
                       </div>
                       <div>
-                        <Label className="text-xs text-muted-foreground mb-1 block">Line Total (₹)</Label>
+                        <Label className="text-xs text-muted-foreground mb-1 block">Line Total ({formData.currency || 'INR'})</Label>
                         <div className="bg-muted px-3 py-2 rounded-md font-semibold text-center">
                           {formatCurrency(calculateLineTotal(item))}
                         </div>
@@ -1270,7 +1288,7 @@ const QuotationForm: React.FC = () => {
                   <div className="flex items-center gap-3">
                     <div className="text-right">
                       <span className="text-xs text-muted-foreground block">Subtotal</span>
-                      <span className="font-bold text-xl">₹{formatCurrency(Number(formData.subtotal) || 0)}</span>
+                      <span className="font-bold text-xl">{currencyPrefix}{formatCurrency(Number(formData.subtotal) || 0)}</span>
                     </div>
                   </div>
                 </div>
@@ -1300,6 +1318,12 @@ const QuotationForm: React.FC = () => {
             <CardTitle>Pricing & Totals</CardTitle>
           </CardHeader>
           <CardContent className="space-y-4">
+            <CurrencyRateFields
+              value={{ currency: formData.currency || '', exchange_rate: Number(formData.exchange_rate) || 0 }}
+              onChange={(value) => setFormData(prev => ({ ...prev, ...value }))}
+              rateDate={formData.issue_date || new Date().toISOString().split('T')[0]}
+              total={Number(formData.total_amount) || 0}
+            />
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div className="space-y-2">
                 <Label htmlFor="tax_rate">Tax Rate (%)</Label>
@@ -1320,7 +1344,7 @@ const QuotationForm: React.FC = () => {
                 <p className="text-xs text-muted-foreground">Tax percentage to apply</p>
               </div>
               <div className="space-y-2">
-                <Label htmlFor="discount">Overall Discount (₹)</Label>
+                <Label htmlFor="discount">Overall Discount ({formData.currency || 'INR'})</Label>
                 <Input
                   id="discount"
                   type="number"
@@ -1345,19 +1369,19 @@ const QuotationForm: React.FC = () => {
             <div className="grid grid-cols-2 md:grid-cols-4 gap-4 p-4 bg-muted rounded-lg">
               <div>
                 <Label className="text-sm text-muted-foreground">Subtotal</Label>
-                <p className="text-lg font-semibold">₹{(Number(formData.subtotal) || 0).toFixed(2)}</p>
+                <p className="text-lg font-semibold">{currencyPrefix}{(Number(formData.subtotal) || 0).toFixed(2)}</p>
               </div>
               <div>
                 <Label className="text-sm text-muted-foreground">Discount</Label>
-                <p className="text-lg font-semibold text-red-600">-₹{(Number(formData.discount) || 0).toFixed(2)}</p>
+                <p className="text-lg font-semibold text-red-600">-{currencyPrefix}{(Number(formData.discount) || 0).toFixed(2)}</p>
               </div>
               <div>
                 <Label className="text-sm text-muted-foreground">Tax ({Number(formData.tax_rate) || 0}%)</Label>
-                <p className="text-lg font-semibold">₹{(Number(formData.tax_amount) || 0).toFixed(2)}</p>
+                <p className="text-lg font-semibold">{currencyPrefix}{(Number(formData.tax_amount) || 0).toFixed(2)}</p>
               </div>
               <div>
                 <Label className="text-sm text-muted-foreground">Total Amount</Label>
-                <p className="text-2xl font-bold">₹{(Number(formData.total_amount) || 0).toFixed(2)}</p>
+                <p className="text-2xl font-bold">{currencyPrefix}{(Number(formData.total_amount) || 0).toFixed(2)}</p>
               </div>
             </div>
           </CardContent>
@@ -117,8 +117,14 @@ export default function ReportExports() {
     }
 
     try {
-      // TODO: Download file
-      // await downloadReportExport(exportItem.id);
+      const { ReportService } = await import('@/services/api/reports');
+      const { blob, fileName } = await ReportService.downloadReportExport(exportItem.id);
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = exportItem.file_name || fileName;
+      a.click();
+      window.URL.revokeObjectURL(url);
       toast({
         title: 'Success',
         description: 'Report download started',
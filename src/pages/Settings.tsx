@@ -11,7 +11,7 @@ import { useToast } from "@/components/ui/use-toast";
 import { db } from '@/lib/database';
 import { useAuth } from "@/hooks/useAuth";
 import { selectOne, updateRecord, insertRecord } from '@/services/api/postgresql-service';
-import { useCurrency } from "@/hooks/useCurrency";
+import { useCurrency, resolveCurrencyCode } from "@/hooks/useCurrency";
 import { useAgencySettings } from "@/hooks/useAgencySettings";
 import { getAgencyId } from '@/utils/agencyUtils';
 import { compressImage } from "@/utils/imageCompression";
@@ -172,7 +172,7 @@ const Settings = () => {
     agency_name: '',
     logo_url: '',
     domain: '',
-    default_currency: 'IN',
+    default_currency: 'INR',
     primary_color: '#3b82f6',
     secondary_color: '#1e40af',
     timezone: 'Asia/Kolkata',
@@ -281,7 +281,7 @@ const Settings = () => {
         agency_name: agencySettingsData.agency_name || '',
         logo_url: agencySettingsData.logo_url || '',
         domain: agencySettingsData.domain || '',
-        default_currency: agencySettingsData.default_currency || 'IN',
+        default_currency: resolveCurrencyCode(agencySettingsData.default_currency) || 'INR',
         primary_color: agencySettingsData.primary_color || '#3b82f6',
         secondary_color: agencySettingsData.secondary_color || '#1e40af',
         timezone: agencySettingsData.timezone || 'Asia/Kolkata',
@@ -1160,9 +1160,8 @@ const Settings = () => {
                       </SelectTrigger>
                       <SelectContent>
                         {Object.entries(availableCurrencies)
-                          .filter(([key]) => key !== 'default')
-                          .map(([countryCode, currency]) => (
-                            <SelectItem key={countryCode} value={countryCode}>
+                          .map(([code, currency]) => (
+                            <SelectItem key={code} value={code}>
                               <div className="flex items-center gap-2">
                                 <span>{currency.symbol}</span>
                                 <span>{currency.code}</span>
@@ -0,0 +1,608 @@
+/**
+ * Shift Roster Page
+ * Shift definitions, rotation patterns and the weekly roster per department
+ */
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import {
+  AlertTriangle,
+  CalendarDays,
+  ChevronLeft,
+  ChevronRight,
+  Clock,
+  Copy,
+  Edit,
+  Loader2,
+  Moon,
+  Play,
+  Plus,
+  Trash2,
+  Users,
+} from 'lucide-react';
+import { selectRecords } from '@/services/api/postgresql-service';
+import {
+  copyRosterWeek,
+  deleteShift,
+  deleteShiftRotation,
+  getRoster,
+  getShiftRotations,
+  getShifts,
+  saveRoster,
+  type Roster,
+  type RosterChange,
+  type Shift,
+  type ShiftRotation,
+} from '@/services/api/shift-service';
+import { RosterGrid } from '@/components/shifts/RosterGrid';
+import { ShiftFormDialog } from '@/components/shifts/ShiftFormDialog';
+import { ShiftRotationFormDialog } from '@/components/shifts/ShiftRotationFormDialog';
+import { ApplyRotationDialog } from '@/components/shifts/ApplyRotationDialog';
+
+interface DepartmentOption {
+  id: string;
+  name: string;
+}
+
+const ALL_DEPARTMENTS = 'all';
+
+const toDateString = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const addDays = (date: string, days: number) => {
+  const value = new Date(`${date}T00:00:00`);
+  value.setDate(value.getDate() + days);
+  return toDateString(value);
+};
+
+// Rosters run Monday to Sunday
+const startOfWeek = (date: Date) => {
+  const value = new Date(date);
+  value.setDate(value.getDate() - ((value.getDay() + 6) % 7));
+  return toDateString(value);
+};
+
+export default function ShiftRoster() {
+  const { toast } = useToast();
+  const [initialLoad, setInitialLoad] = useState(true);
+  const [weekStart, setWeekStart] = useState(startOfWeek(new Date()));
+  const [departmentId, setDepartmentId] = useState(ALL_DEPARTMENTS);
+  const [departments, setDepartments] = useState<DepartmentOption[]>([]);
+  const [shifts, setShifts] = useState<Shift[]>([]);
+  const [rotations, setRotations] = useState<ShiftRotation[]>([]);
+  const [roster, setRoster] = useState<Roster | null>(null);
+  const [loadingRoster, setLoadingRoster] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [shiftDialogOpen, setShiftDialogOpen] = useState(false);
+  const [editingShift, setEditingShift] = useState<Shift | null>(null);
+  const [deletingShift, setDeletingShift] = useState<Shift | null>(null);
+  const [rotationDialogOpen, setRotationDialogOpen] = useState(false);
+  const [editingRotation, setEditingRotation] = useState<ShiftRotation | null>(null);
+  const [deletingRotation, setDeletingRotation] = useState<ShiftRotation | null>(null);
+  const [applyingRotation, setApplyingRotation] = useState<ShiftRotation | null>(null);
+
+  const dates = Array.from({ length: 7 }, (_, index) => addDays(weekStart, index));
+  const selectedDepartment = departmentId === ALL_DEPARTMENTS ? undefined : departmentId;
+
+  const fetchSetup = async () => {
+    try {
+      const [shiftList, rotationList, departmentList] = await Promise.all([
+        getShifts(),
+        getShiftRotations(),
+        selectRecords<DepartmentOption>('departments', {
+          select: 'id, name',
+          filters: [{ column: 'is_active', operator: 'eq', value: true }],
+          orderBy: 'name ASC',
+        }),
+      ]);
+      setShifts(shiftList);
+      setRotations(rotationList);
+      setDepartments(departmentList);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to fetch shifts',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const fetchRoster = async () => {
+    try {
+      setLoadingRoster(true);
+      setRoster(await getRoster({ start_date: weekStart, department_id: selectedDepartment }));
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to fetch roster',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoadingRoster(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchSetup().finally(() => setInitialLoad(false));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  useEffect(() => {
+    fetchRoster();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [weekStart, departmentId]);
+
+  const handleRosterChange = async (changes: RosterChange[]) => {
+    try {
+      setSaving(true);
+      await saveRoster(changes);
+      await fetchRoster();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save roster',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCopyPreviousWeek = async () => {
+    try {
+      setSaving(true);
+      const result = await copyRosterWeek({
+        from_start_date: addDays(weekStart, -7),
+        to_start_date: weekStart,
+        department_id: selectedDepartment,
+      });
+      toast({ title: 'Success', description: `${result.copied} roster day(s) copied from the previous week` });
+      fetchRoster();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to copy roster',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteShift = async () => {
+    if (!deletingShift) return;
+    try {
+      const result = await deleteShift(deletingShift.id);
+      toast({
+        title: 'Success',
+        description: result.deactivated ? 'Shift is rostered, so it was deactivated instead' : 'Shift deleted',
+      });
+      fetchSetup();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to delete shift',
+        variant: 'destructive',
+      });
+    } finally {
+      setDeletingShift(null);
+    }
+  };
+
+  const handleDeleteRotation = async () => {
+    if (!deletingRotation) return;
+    try {
+      await deleteShiftRotation(deletingRotation.id);
+      toast({ title: 'Success', description: 'Rotation deleted' });
+      fetchSetup();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to delete shift rotation',
+        variant: 'destructive',
+      });
+    } finally {
+      setDeletingRotation(null);
+    }
+  };
+
+  const shiftName = (shiftId: string | null) =>
+    shiftId ? shifts.find((shift) => shift.id === shiftId)?.name || 'Unknown shift' : 'Off';
+
+  const rosteredEmployees = new Set(
+    (roster?.assignments || []).filter((assignment) => assignment.shift_id).map((assignment) => assignment.employee_id)
+  ).size;
+  const lateArrivals = (roster?.attendance || []).filter((record) => Number(record.late_minutes) > 0).length;
+  const overtimeHours = (roster?.attendance || []).reduce((sum, record) => sum + Number(record.overtime_hours || 0), 0);
+
+  if (initialLoad) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Shift Roster</h1>
+          <p className="text-muted-foreground mt-1">
+            Who works which shift; late-in, early-out and overtime are measured against it
+          </p>
+        </div>
+      </div>
+
+      {/* Stats Cards */}
+      <div className="grid gap-4 md:grid-cols-4">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Active Shifts</CardTitle>
+            <Clock className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{shifts.filter((shift) => shift.is_active).length}</div>
+            <p className="text-xs text-muted-foreground">
+              {shifts.find((shift) => shift.is_default && shift.is_active)?.name || 'No default shift'}
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Rostered This Week</CardTitle>
+            <Users className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {rosteredEmployees} / {roster?.employees.length ?? 0}
+            </div>
+            <p className="text-xs text-muted-foreground">Employees with at least one shift</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Late Arrivals</CardTitle>
+            <AlertTriangle className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{lateArrivals}</div>
+            <p className="text-xs text-muted-foreground">This week, beyond shift grace</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Overtime</CardTitle>
+            <CalendarDays className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{Math.round(overtimeHours * 100) / 100}h</div>
+            <p className="text-xs text-muted-foreground">This week, past shift end</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Tabs defaultValue="roster">
+        <TabsList>
+          <TabsTrigger value="roster">Roster</TabsTrigger>
+          <TabsTrigger value="shifts">Shifts</TabsTrigger>
+          <TabsTrigger value="rotations">Rotations</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="roster">
+          <Card>
+            <CardHeader className="flex flex-col gap-4 space-y-0 md:flex-row md:items-start md:justify-between">
+              <div>
+                <CardTitle>
+                  Week of {new Date(`${weekStart}T00:00:00`).toLocaleDateString(undefined, { day: 'numeric', month: 'long', year: 'numeric' })}
+                </CardTitle>
+                <CardDescription>Changes are saved as soon as a shift is dropped</CardDescription>
+              </div>
+              <div className="flex flex-wrap items-center gap-2">
+                <Select value={departmentId} onValueChange={setDepartmentId}>
+                  <SelectTrigger className="w-[180px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_DEPARTMENTS}>All departments</SelectItem>
+                    {departments.map((department) => (
+                      <SelectItem key={department.id} value={department.id}>
+                        {department.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button variant="outline" size="icon" onClick={() => setWeekStart(addDays(weekStart, -7))}>
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <Button variant="outline" onClick={() => setWeekStart(startOfWeek(new Date()))}>
+                  This Week
+                </Button>
+                <Button variant="outline" size="icon" onClick={() => setWeekStart(addDays(weekStart, 7))}>
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+                <Button variant="outline" onClick={handleCopyPreviousWeek} disabled={saving}>
+                  <Copy className="mr-2 h-4 w-4" />
+                  Copy Last Week
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {loadingRoster && !roster ? (
+                <div className="flex justify-center py-6">
+                  <Loader2 className="h-6 w-6 animate-spin" />
+                </div>
+              ) : !roster || roster.employees.length === 0 ? (
+                <Alert>
+                  <AlertDescription>No active employees in this department.</AlertDescription>
+                </Alert>
+              ) : shifts.filter((shift) => shift.is_active).length === 0 ? (
+                <Alert>
+                  <AlertDescription>Create a shift on the Shifts tab before building the roster.</AlertDescription>
+                </Alert>
+              ) : (
+                <RosterGrid
+                  employees={roster.employees}
+                  assignments={roster.assignments}
+                  attendance={roster.attendance}
+                  shifts={shifts}
+                  dates={dates}
+                  disabled={saving}
+                  onChange={handleRosterChange}
+                />
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="shifts">
+          <Card>
+            <CardHeader className="flex flex-row items-start justify-between space-y-0">
+              <div>
+                <CardTitle>Shifts ({shifts.length})</CardTitle>
+                <CardDescription>A shift ending at or before its start time runs overnight</CardDescription>
+              </div>
+              <Button
+                onClick={() => {
+                  setEditingShift(null);
+                  setShiftDialogOpen(true);
+                }}
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                New Shift
+              </Button>
+            </CardHeader>
+            <CardContent>
+              {shifts.length === 0 ? (
+                <Alert>
+                  <AlertDescription>No shifts yet. Without a roster, attendance uses a standard 9 hour day.</AlertDescription>
+                </Alert>
+              ) : (
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Shift</TableHead>
+                        <TableHead>Timing</TableHead>
+                        <TableHead>Break</TableHead>
+                        <TableHead>Late Grace</TableHead>
+                        <TableHead>Early-out Grace</TableHead>
+                        <TableHead>Overtime After</TableHead>
+                        <TableHead></TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {shifts.map((shift) => (
+                        <TableRow key={shift.id} className={shift.is_active ? undefined : 'text-muted-foreground'}>
+                          <TableCell>
+                            <div className="flex items-center gap-2">
+                              <span className="h-3 w-3 rounded-full" style={{ backgroundColor: shift.color }} />
+                              <span className="font-medium">{shift.name}</span>
+                              {shift.code && <span className="text-xs text-muted-foreground">{shift.code}</span>}
+                              {shift.is_default && <Badge variant="outline">Default</Badge>}
+                              {!shift.is_active && <Badge variant="secondary">Inactive</Badge>}
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex items-center gap-1">
+                              {shift.is_night_shift && <Moon className="h-3 w-3" />}
+                              {shift.start_time.slice(0, 5)}–{shift.end_time.slice(0, 5)}
+                            </div>
+                          </TableCell>
+                          <TableCell>{shift.break_minutes} min</TableCell>
+                          <TableCell>{shift.grace_minutes} min</TableCell>
+                          <TableCell>{shift.early_exit_grace_minutes} min</TableCell>
+                          <TableCell>{shift.overtime_threshold_minutes} min</TableCell>
+                          <TableCell>
+                            <div className="flex gap-1">
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={() => {
+                                  setEditingShift(shift);
+                                  setShiftDialogOpen(true);
+                                }}
+                              >
+                                <Edit className="h-4 w-4" />
+                              </Button>
+                              <Button size="sm" variant="ghost" onClick={() => setDeletingShift(shift)}>
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="rotations">
+          <Card>
+            <CardHeader className="flex flex-row items-start justify-between space-y-0">
+              <div>
+                <CardTitle>Rotations ({rotations.length})</CardTitle>
+                <CardDescription>Repeating shift patterns applied to employees over a date range</CardDescription>
+              </div>
+              <Button
+                onClick={() => {
+                  setEditingRotation(null);
+                  setRotationDialogOpen(true);
+                }}
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                New Rotation
+              </Button>
+            </CardHeader>
+            <CardContent>
+              {rotations.length === 0 ? (
+                <Alert>
+                  <AlertDescription>No rotations yet.</AlertDescription>
+                </Alert>
+              ) : (
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Rotation</TableHead>
+                        <TableHead>Pattern</TableHead>
+                        <TableHead></TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {rotations.map((rotation) => (
+                        <TableRow key={rotation.id} className={rotation.is_active ? undefined : 'text-muted-foreground'}>
+                          <TableCell>
+                            <div className="font-medium">{rotation.name}</div>
+                            {rotation.description && (
+                              <div className="text-xs text-muted-foreground">{rotation.description}</div>
+                            )}
+                            {!rotation.is_active && <Badge variant="secondary">Inactive</Badge>}
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex flex-wrap gap-1">
+                              {rotation.pattern.map((shiftId, index) => (
+                                <Badge key={index} variant={shiftId ? 'outline' : 'secondary'}>
+                                  {index + 1}: {shiftName(shiftId)}
+                                </Badge>
+                              ))}
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex gap-1">
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                disabled={!rotation.is_active || !roster}
+                                onClick={() => setApplyingRotation(rotation)}
+                              >
+                                <Play className="mr-1 h-4 w-4" />
+                                Apply
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={() => {
+                                  setEditingRotation(rotation);
+                                  setRotationDialogOpen(true);
+                                }}
+                              >
+                                <Edit className="h-4 w-4" />
+                              </Button>
+                              <Button size="sm" variant="ghost" onClick={() => setDeletingRotation(rotation)}>
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      <ShiftFormDialog
+        open={shiftDialogOpen}
+        shift={editingShift}
+        onOpenChange={setShiftDialogOpen}
+        onSaved={() => {
+          fetchSetup();
+          fetchRoster();
+        }}
+      />
+
+      <ShiftRotationFormDialog
+        open={rotationDialogOpen}
+        rotation={editingRotation}
+        shifts={shifts}
+        onOpenChange={setRotationDialogOpen}
+        onSaved={fetchSetup}
+      />
+
+      <ApplyRotationDialog
+        rotation={applyingRotation}
+        employees={roster?.employees || []}
+        startDate={weekStart}
+        departmentId={selectedDepartment}
+        onOpenChange={(open) => !open && setApplyingRotation(null)}
+        onApplied={fetchRoster}
+      />
+
+      <AlertDialog open={!!deletingShift} onOpenChange={(open) => !open && setDeletingShift(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete shift?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deletingShift?.name} will be deleted. If it has already been rostered it is deactivated instead, so
+              past attendance keeps its shift.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDeleteShift}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={!!deletingRotation} onOpenChange={(open) => !open && setDeletingRotation(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete rotation?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deletingRotation?.name} will be deleted. Roster days it already assigned are kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDeleteRotation}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
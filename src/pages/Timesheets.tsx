@@ -0,0 +1,437 @@
+/**
+ * Timesheets Page
+ * Weekly timesheet entry and submission, team approvals and invoicing approved billable hours
+ */
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { hasRoleOrHigher } from '@/utils/roleUtils';
+import { ChevronLeft, ChevronRight, Eye, Loader2, Lock, Save, Send, Undo2 } from 'lucide-react';
+import {
+  getMyTimesheets,
+  getTimesheetWeek,
+  getTimesheetsAwaitingApproval,
+  recallTimesheet,
+  saveTimesheetWeek,
+  submitTimesheet,
+  type Timesheet,
+  type TimesheetRow,
+  type TimesheetStatus,
+  type TimesheetWeek,
+} from '@/services/api/timesheet-service';
+import { TimesheetGrid } from '@/components/timesheets/TimesheetGrid';
+import { TimesheetReviewDialog } from '@/components/timesheets/TimesheetReviewDialog';
+import { TimesheetInvoicePanel } from '@/components/timesheets/TimesheetInvoicePanel';
+
+const toDateString = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const addDays = (date: string, days: number) => {
+  const value = new Date(`${date}T00:00:00`);
+  value.setDate(value.getDate() + days);
+  return toDateString(value);
+};
+
+// Timesheet weeks run Monday to Sunday
+const startOfWeek = (date: Date) => {
+  const value = new Date(date);
+  value.setDate(value.getDate() - ((value.getDay() + 6) % 7));
+  return toDateString(value);
+};
+
+const formatWeek = (weekStart: string, weekEnd: string) => {
+  const options: Intl.DateTimeFormatOptions = { month: 'short', day: 'numeric' };
+  return `${new Date(`${weekStart}T00:00:00`).toLocaleDateString(undefined, options)} - ${new Date(
+    `${weekEnd}T00:00:00`
+  ).toLocaleDateString(undefined, { ...options, year: 'numeric' })}`;
+};
+
+const getStatusBadge = (status: TimesheetStatus | 'not_started') => {
+  switch (status) {
+    case 'approved':
+      return <Badge className="bg-green-100 text-green-800">Approved</Badge>;
+    case 'submitted':
+      return <Badge className="bg-blue-100 text-blue-800">Submitted</Badge>;
+    case 'rejected':
+      return <Badge className="bg-red-100 text-red-800">Sent Back</Badge>;
+    case 'draft':
+      return <Badge variant="secondary">Draft</Badge>;
+    default:
+      return <Badge variant="outline">Not Started</Badge>;
+  }
+};
+
+export default function Timesheets() {
+  const { toast } = useToast();
+  const { userRole } = useAuth();
+  const [weekStart, setWeekStart] = useState(startOfWeek(new Date()));
+  const [week, setWeek] = useState<TimesheetWeek | null>(null);
+  const [rows, setRows] = useState<TimesheetRow[]>([]);
+  const [notes, setNotes] = useState('');
+  const [dirty, setDirty] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<'save' | 'submit' | 'recall' | null>(null);
+  const [history, setHistory] = useState<Timesheet[]>([]);
+  const [approvals, setApprovals] = useState<Timesheet[]>([]);
+  const [reviewing, setReviewing] = useState<Timesheet | null>(null);
+
+  const canBill = hasRoleOrHigher(userRole, 'finance_manager') || hasRoleOrHigher(userRole, 'project_manager');
+  const status = week?.timesheet?.status || 'not_started';
+
+  const applyWeek = (data: TimesheetWeek) => {
+    setWeek(data);
+    setRows(data.rows);
+    setNotes(data.timesheet?.notes || '');
+    setDirty(false);
+  };
+
+  const fetchWeek = async () => {
+    try {
+      setLoading(true);
+      applyWeek(await getTimesheetWeek(weekStart));
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to fetch timesheet',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchHistory = async () => {
+    try {
+      setHistory(await getMyTimesheets());
+    } catch (error) {
+      console.error('Error fetching timesheets:', error);
+    }
+  };
+
+  const fetchApprovals = async () => {
+    try {
+      setApprovals(await getTimesheetsAwaitingApproval());
+    } catch (error) {
+      console.error('Error fetching timesheet approvals:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchHistory();
+    fetchApprovals();
+  }, []);
+
+  useEffect(() => {
+    fetchWeek();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [weekStart]);
+
+  const handleRowsChange = (next: TimesheetRow[]) => {
+    setRows(next);
+    setDirty(true);
+  };
+
+  const handleSave = async () => {
+    try {
+      setBusy('save');
+      applyWeek(await saveTimesheetWeek(weekStart, rows));
+      fetchHistory();
+      toast({ title: 'Success', description: 'Timesheet saved' });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save timesheet',
+        variant: 'destructive',
+      });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleSubmit = async () => {
+    try {
+      setBusy('submit');
+      if (dirty) {
+        await saveTimesheetWeek(weekStart, rows);
+      }
+      applyWeek(await submitTimesheet(weekStart, notes.trim() || undefined));
+      fetchHistory();
+      toast({ title: 'Success', description: 'Timesheet submitted for approval' });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to submit timesheet',
+        variant: 'destructive',
+      });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleRecall = async () => {
+    if (!week?.timesheet) return;
+    try {
+      setBusy('recall');
+      applyWeek(await recallTimesheet(week.timesheet.id));
+      fetchHistory();
+      toast({ title: 'Success', description: 'Timesheet recalled' });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to recall timesheet',
+        variant: 'destructive',
+      });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Timesheets</h1>
+        <p className="text-muted-foreground">Log your week against tasks and submit it for approval</p>
+      </div>
+
+      <Tabs defaultValue="my-timesheet">
+        <TabsList>
+          <TabsTrigger value="my-timesheet">My Timesheet</TabsTrigger>
+          <TabsTrigger value="approvals">
+            Approvals
+            {approvals.length > 0 && (
+              <Badge variant="secondary" className="ml-2">
+                {approvals.length}
+              </Badge>
+            )}
+          </TabsTrigger>
+          {canBill && <TabsTrigger value="billing">Billing</TabsTrigger>}
+        </TabsList>
+
+        <TabsContent value="my-timesheet" className="space-y-6">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <div className="space-y-1">
+                <CardTitle className="flex items-center gap-2">
+                  {week ? formatWeek(week.week_start, week.week_end) : 'Week'}
+                  {getStatusBadge(status)}
+                </CardTitle>
+                <CardDescription>
+                  {week?.locked
+                    ? 'This week is locked. Recall it to make changes while it is still awaiting approval.'
+                    : 'Enter hours per task and day, then submit the week to your manager'}
+                </CardDescription>
+              </div>
+              <div className="flex items-center gap-2">
+                <Button variant="outline" size="icon" onClick={() => setWeekStart(addDays(weekStart, -7))}>
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <Button variant="outline" onClick={() => setWeekStart(startOfWeek(new Date()))}>
+                  This Week
+                </Button>
+                <Button variant="outline" size="icon" onClick={() => setWeekStart(addDays(weekStart, 7))}>
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {week?.timesheet?.status === 'rejected' && week.timesheet.decision_comments && (
+                <Alert variant="destructive">
+                  <AlertDescription>
+                    Sent back{week.timesheet.decided_by_name ? ` by ${week.timesheet.decided_by_name}` : ''}:{' '}
+                    {week.timesheet.decision_comments}
+                  </AlertDescription>
+                </Alert>
+              )}
+              {week?.timesheet?.status === 'approved' && week.timesheet.decision_comments && (
+                <Alert>
+                  <AlertDescription>{week.timesheet.decision_comments}</AlertDescription>
+                </Alert>
+              )}
+              {week?.timesheet?.status === 'submitted' && week.timesheet.pending_with && (
+                <p className="text-sm text-muted-foreground">Awaiting approval from {week.timesheet.pending_with}</p>
+              )}
+
+              {loading || !week ? (
+                <div className="flex justify-center py-8">
+                  <Loader2 className="h-6 w-6 animate-spin" />
+                </div>
+              ) : (
+                <TimesheetGrid
+                  dates={week.dates}
+                  rows={rows}
+                  tasks={week.tasks}
+                  editable={!week.locked}
+                  onChange={handleRowsChange}
+                />
+              )}
+
+              {week && !week.locked && (
+                <div className="grid gap-2">
+                  <Label>Notes for your approver</Label>
+                  <Textarea value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} />
+                </div>
+              )}
+
+              {week && (
+                <div className="flex justify-end gap-2">
+                  {week.locked ? (
+                    week.timesheet?.status === 'submitted' ? (
+                      <Button variant="outline" onClick={handleRecall} disabled={!!busy}>
+                        {busy === 'recall' ? (
+                          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                        ) : (
+                          <Undo2 className="h-4 w-4 mr-2" />
+                        )}
+                        Recall
+                      </Button>
+                    ) : (
+                      <span className="flex items-center text-sm text-muted-foreground">
+                        <Lock className="h-4 w-4 mr-2" />
+                        Approved weeks cannot be changed
+                      </span>
+                    )
+                  ) : (
+                    <>
+                      <Button variant="outline" onClick={handleSave} disabled={!!busy || !dirty}>
+                        {busy === 'save' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                        Save
+                      </Button>
+                      <Button onClick={handleSubmit} disabled={!!busy || rows.length === 0}>
+                        {busy === 'submit' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
+                        Submit Week
+                      </Button>
+                    </>
+                  )}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Recent Weeks</CardTitle>
+              <CardDescription>Your timesheets and where they stand</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Week</TableHead>
+                    <TableHead className="text-right">Hours</TableHead>
+                    <TableHead className="text-right">Billable</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {history.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center py-6 text-muted-foreground">
+                        No timesheets yet
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    history.slice(0, 12).map((timesheet) => (
+                      <TableRow key={timesheet.id}>
+                        <TableCell>{formatWeek(timesheet.week_start, timesheet.week_end)}</TableCell>
+                        <TableCell className="text-right">{Number(timesheet.total_hours)}</TableCell>
+                        <TableCell className="text-right">{Number(timesheet.billable_hours)}</TableCell>
+                        <TableCell>{getStatusBadge(timesheet.status)}</TableCell>
+                        <TableCell className="text-right">
+                          <Button variant="ghost" size="sm" onClick={() => setWeekStart(timesheet.week_start)}>
+                            Open
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="approvals">
+          <Card>
+            <CardHeader>
+              <CardTitle>Awaiting Your Approval</CardTitle>
+              <CardDescription>Submitted weeks from your team</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Employee</TableHead>
+                    <TableHead>Week</TableHead>
+                    <TableHead className="text-right">Hours</TableHead>
+                    <TableHead className="text-right">Billable</TableHead>
+                    <TableHead>Submitted</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {approvals.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center py-6 text-muted-foreground">
+                        No timesheets waiting on you
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    approvals.map((timesheet) => (
+                      <TableRow key={timesheet.id}>
+                        <TableCell className="font-medium">{timesheet.employee_name || 'Employee'}</TableCell>
+                        <TableCell>{formatWeek(timesheet.week_start, timesheet.week_end)}</TableCell>
+                        <TableCell className="text-right">{Number(timesheet.total_hours)}</TableCell>
+                        <TableCell className="text-right">{Number(timesheet.billable_hours)}</TableCell>
+                        <TableCell>
+                          {timesheet.submitted_at ? new Date(timesheet.submitted_at).toLocaleDateString() : '-'}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Button variant="outline" size="sm" onClick={() => setReviewing(timesheet)}>
+                            <Eye className="h-4 w-4 mr-2" />
+                            Review
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        {canBill && (
+          <TabsContent value="billing">
+            <Card>
+              <CardHeader>
+                <CardTitle>Invoice Billable Hours</CardTitle>
+                <CardDescription>
+                  Raise a draft client invoice from approved billable time that has not been invoiced yet
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <TimesheetInvoicePanel />
+              </CardContent>
+            </Card>
+          </TabsContent>
+        )}
+      </Tabs>
+
+      <TimesheetReviewDialog
+        timesheet={reviewing}
+        onOpenChange={(open) => !open && setReviewing(null)}
+        onDecided={fetchApprovals}
+      />
+    </div>
+  );
+}
@@ -197,6 +197,8 @@ export default function WorkflowApprovals() {
       invoice: 'bg-purple-100 text-purple-800',
       expense: 'bg-yellow-100 text-yellow-800',
       asset_disposal: 'bg-red-100 text-red-800',
+      attendance_regularization: 'bg-teal-100 text-teal-800',
+      timesheet: 'bg-sky-100 text-sky-800',
     };
     return (
       <Badge className={colors[entityType] || 'bg-gray-100 text-gray-800'}>
@@ -100,6 +100,8 @@ const backupRoutes = require('./routes/backups');
 const inventoryRoutes = require('./routes/inventory');
 const procurementRoutes = require('./routes/procurement');
 const assetsRoutes = require('./routes/assets');
+const hrRoutes = require('./routes/hr');
+const timesheetsRoutes = require('./routes/timesheets');
 const currencyRoutes = require('./routes/currency');
 const financialRoutes = require('./routes/financial');
 const advancedReportsRoutes = require('./routes/advancedReports');
@@ -157,6 +159,8 @@ app.use('/api/backups', backupRoutes);
 app.use('/api/inventory', inventoryRoutes);
 app.use('/api/procurement', procurementRoutes);
 app.use('/api/assets', assetsRoutes);
+app.use('/api/hr', hrRoutes);
+app.use('/api/timesheets', timesheetsRoutes);
 app.use('/api/currency', currencyRoutes);
 app.use('/api/financial', financialRoutes);
 app.use('/api/advanced-reports', advancedReportsRoutes);
@@ -729,6 +733,46 @@ server.listen(PORT, '0.0.0.0', async () => {
   // Initialize scheduled reports
   const { initializeScheduledReports } = require('./services/scheduledReportService');
   initializeScheduledReports();
+
+  // Initialize scheduled replenishment
+  const { initializeReplenishmentScheduler } = require('./services/replenishmentService');
+  initializeReplenishmentScheduler();
+
+  // Initialize stock reservation release sweep
+  const { initializeReservationScheduler } = require('./services/stockReservationService');
+  initializeReservationScheduler();
+
+  // Initialize monthly asset depreciation
+  const { initializeDepreciationScheduler } = require('./services/assetDepreciationService');
+  initializeDepreciationScheduler();
+
+  // Initialize preventive maintenance work order generation and overdue escalation
+  const { initializeMaintenanceScheduler } = require('./services/assetMaintenancePlanService');
+  initializeMaintenanceScheduler();
+
+  // Initialize overdue asset return reminders
+  const { initializeCustodyScheduler } = require('./services/assetCustodyService');
+  initializeCustodyScheduler();
+
+  // Initialize vendor contract renewal reminders and auto-renewals
+  const { initializeContractScheduler } = require('./services/vendorContractService');
+  initializeContractScheduler();
+
+  // Initialize hourly budget actuals sync and threshold alerts
+  const { initializeBudgetScheduler } = require('./services/budgetService');
+  initializeBudgetScheduler();
+
+  // Initialize hourly refresh of stale lead scores
+  const { initializeLeadScoringScheduler } = require('./services/leadScoringService');
+  initializeLeadScoringScheduler();
+
+  // Initialize leave accruals and year-end rollover
+  const { initializeLeaveScheduler } = require('./services/leaveService');
+  initializeLeaveScheduler();
+
+  // Initialize missing timesheet reminders
+  const { initializeTimesheetScheduler } = require('./services/timesheetService');
+  initializeTimesheetScheduler();
   
   logger.info('WebSocket server initialized');
 });
@@ -24,6 +24,26 @@ async function getAgencyConnection(agencyDatabase) {
   return await agencyPool.connect();
 }
 
+/**
+ * Check the shape of a report configuration before it is built.
+ * Returns an error message, or null when the configuration can be built.
+ */
+function validateReportConfig(reportConfig) {
+  if (!reportConfig || typeof reportConfig !== 'object') {
+    return 'reportConfig is required';
+  }
+  if (!Array.isArray(reportConfig.tables) || reportConfig.tables.length === 0) {
+    return 'reportConfig.tables must list at least one table';
+  }
+  if (!Array.isArray(reportConfig.columns) || reportConfig.columns.length === 0) {
+    return 'reportConfig.columns must list at least one column';
+  }
+  if (reportConfig.columns.some((col) => !col || typeof col.column !== 'string' || !col.column)) {
+    return 'Every entry in reportConfig.columns needs a column name';
+  }
+  return null;
+}
+
 /**
  * POST /api/advanced-reports/build
  * Build custom report from configuration
@@ -32,6 +52,11 @@ router.post('/build', authenticate, requireAgencyContext, asyncHandler(async (re
   const agencyDatabase = req.user.agencyDatabase;
   const { reportConfig } = req.body;
 
+  const configError = validateReportConfig(reportConfig);
+  if (configError) {
+    return res.status(400).json({ success: false, error: configError });
+  }
+
   const reportData = await reportBuilderService.buildReport(agencyDatabase, reportConfig);
 
   res.json({
@@ -46,16 +71,43 @@ router.post('/build', authenticate, requireAgencyContext, asyncHandler(async (re
  */
 router.post('/generate', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
   const agencyDatabase = req.user.agencyDatabase;
-  const { reportConfig, format } = req.body;
+  const { reportConfig, format, title, sheetBy } = req.body;
+
+  const configError = validateReportConfig(reportConfig);
+  if (configError) {
+    return res.status(400).json({ success: false, error: configError });
+  }
 
   const reportData = await reportBuilderService.buildReport(agencyDatabase, reportConfig);
-  const file = await reportBuilderService.generateReportFile(agencyDatabase, reportData, format || 'json');
+  const file = await reportBuilderService.generateReportFile(agencyDatabase, reportData, format || 'json', {
+    title: title || 'Custom Report',
+    columns: reportConfig.columns.map((col) => ({ key: col.alias || col.column, label: col.label })),
+    sheetBy,
+  });
+
+  // Binary formats are kept as exports so they can be downloaded again later
+  let exportRecord = null;
+  if (Buffer.isBuffer(file.data)) {
+    exportRecord = await scheduledReportService.recordReportExport(agencyDatabase, {
+      agency_id: req.user.agencyId,
+      name: title || 'Custom Report',
+      report_type: 'custom',
+      format: format === 'xlsx' ? 'excel' : format,
+      parameters: { reportConfig },
+      file,
+      generated_by: req.user.id,
+    });
+  }
 
   res.json({
     success: true,
     data: {
       format: file.format,
-      data: file.data,
+      data: Buffer.isBuffer(file.data) ? file.data.toString('base64') : file.data,
+      encoding: Buffer.isBuffer(file.data) ? 'base64' : 'utf8',
+      fileName: file.fileName,
+      mimeType: file.mimeType,
+      exportId: exportRecord?.id || null,
       rowCount: reportData.length,
     },
   });
@@ -8,6 +8,9 @@ const router = express.Router();
 const { authenticate, requireAgencyContext } = require('../middleware/authMiddleware');
 const { asyncHandler } = require('../middleware/errorHandler');
 const assetManagementService = require('../services/assetManagementService');
+const assetDepreciationService = require('../services/assetDepreciationService');
+const assetMaintenancePlanService = require('../services/assetMaintenancePlanService');
+const assetCustodyService = require('../services/assetCustodyService');
 const { cacheMiddleware } = require('../services/cacheService');
 
 /**
@@ -245,6 +248,78 @@ router.get('/depreciation', authenticate, requireAgencyContext, cacheMiddleware(
   });
 }));
 
+/**
+ * GET /api/assets/depreciation/runs
+ * List monthly depreciation runs
+ */
+router.get('/depreciation/runs', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+
+  const runs = await assetDepreciationService.getDepreciationRuns(agencyDatabase, agencyId);
+
+  res.json({
+    success: true,
+    data: runs,
+  });
+}));
+
+/**
+ * GET /api/assets/depreciation/runs/preview
+ * Preview the charges a run would post for a period (?period=YYYY-MM)
+ */
+router.get('/depreciation/runs/preview', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+
+  const preview = await assetDepreciationService.previewDepreciationRun(agencyDatabase, agencyId, req.query.period);
+
+  res.json({
+    success: true,
+    data: preview,
+  });
+}));
+
+/**
+ * POST /api/assets/depreciation/runs
+ * Run and post depreciation for all assets for a period
+ */
+router.post('/depreciation/runs', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const userId = req.user.id;
+
+  const run = await assetDepreciationService.runDepreciation(
+    agencyDatabase,
+    agencyId,
+    { period: req.body.period, notes: req.body.notes, trigger_type: 'manual' },
+    userId
+  );
+
+  res.json({
+    success: true,
+    data: run,
+    message: `Depreciation posted for ${run.asset_count} asset(s)`,
+  });
+}));
+
+/**
+ * GET /api/assets/:assetId/depreciation-schedule
+ * Get the full depreciation schedule and book value over time for an asset
+ */
+router.get('/:assetId/depreciation-schedule', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const { assetId } = req.params;
+
+  const schedule = await assetDepreciationService.getDepreciationSchedule(agencyDatabase, agencyId, assetId);
+
+  res.json({
+    success: true,
+    data: schedule,
+  });
+}));
+
 /**
  * GET /api/assets/:assetId/depreciation
  * Get depreciation records for an asset
@@ -326,6 +401,168 @@ router.delete('/depreciation/:depreciationId', authenticate, requireAgencyContex
   });
 }));
 
+/**
+ * GET /api/assets/maintenance-plans
+ * List preventive maintenance plans (?asset_id=&is_active=)
+ */
+router.get('/maintenance-plans', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const filters = {
+    asset_id: req.query.asset_id,
+    is_active: req.query.is_active,
+  };
+
+  const plans = await assetMaintenancePlanService.getMaintenancePlans(agencyDatabase, agencyId, filters);
+
+  res.json({
+    success: true,
+    data: plans,
+  });
+}));
+
+/**
+ * POST /api/assets/maintenance-plans/generate
+ * Raise work orders for plans that are due within their lead time (optionally for one plan)
+ */
+router.post('/maintenance-plans/generate', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const userId = req.user.id;
+
+  const result = await assetMaintenancePlanService.generateDueWorkOrders(
+    agencyDatabase,
+    agencyId,
+    userId,
+    req.body.plan_id || null
+  );
+
+  res.json({
+    success: true,
+    data: result,
+    message: `${result.created} work order(s) created`,
+  });
+}));
+
+/**
+ * GET /api/assets/maintenance-plans/:planId
+ * Get a maintenance plan with the next due date of each asset it covers
+ */
+router.get('/maintenance-plans/:planId', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const { planId } = req.params;
+
+  const plan = await assetMaintenancePlanService.getMaintenancePlanById(agencyDatabase, agencyId, planId);
+
+  if (!plan) {
+    return res.status(404).json({
+      success: false,
+      error: 'Maintenance plan not found',
+    });
+  }
+
+  res.json({
+    success: true,
+    data: plan,
+  });
+}));
+
+/**
+ * POST /api/assets/maintenance-plans
+ * Create a maintenance plan
+ */
+router.post('/maintenance-plans', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const userId = req.user.id;
+
+  const plan = await assetMaintenancePlanService.createMaintenancePlan(agencyDatabase, agencyId, req.body, userId);
+
+  res.json({
+    success: true,
+    data: plan,
+    message: 'Maintenance plan created successfully',
+  });
+}));
+
+/**
+ * PUT /api/assets/maintenance-plans/:planId
+ * Update a maintenance plan
+ */
+router.put('/maintenance-plans/:planId', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const { planId } = req.params;
+
+  const plan = await assetMaintenancePlanService.updateMaintenancePlan(agencyDatabase, agencyId, planId, req.body);
+
+  res.json({
+    success: true,
+    data: plan,
+    message: 'Maintenance plan updated successfully',
+  });
+}));
+
+/**
+ * DELETE /api/assets/maintenance-plans/:planId
+ * Delete a maintenance plan and the work orders it raised that have not started
+ */
+router.delete('/maintenance-plans/:planId', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const { planId } = req.params;
+
+  await assetMaintenancePlanService.deleteMaintenancePlan(agencyDatabase, agencyId, planId);
+
+  res.json({
+    success: true,
+    message: 'Maintenance plan deleted successfully',
+  });
+}));
+
+/**
+ * GET /api/assets/maintenance/:maintenanceId/parts
+ * Parts issued from inventory to a work order
+ */
+router.get('/maintenance/:maintenanceId/parts', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const { maintenanceId } = req.params;
+
+  const parts = await assetMaintenancePlanService.getWorkOrderParts(agencyDatabase, agencyId, maintenanceId);
+
+  res.json({
+    success: true,
+    data: parts,
+  });
+}));
+
+/**
+ * POST /api/assets/maintenance/:maintenanceId/complete
+ * Complete a work order, issuing the parts used from stock
+ */
+router.post('/maintenance/:maintenanceId/complete', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const { maintenanceId } = req.params;
+  const userId = req.user.id;
+
+  const maintenance = await assetMaintenancePlanService.completeWorkOrder(
+    agencyDatabase,
+    agencyId,
+    maintenanceId,
+    req.body,
+    userId
+  );
+
+  res.json({
+    success: true,
+    data: maintenance,
+    message: 'Work order completed',
+  });
+}));
+
 /**
  * GET /api/assets/maintenance
  * Get all maintenance records (with optional filters)
@@ -338,6 +575,7 @@ router.get('/maintenance', authenticate, requireAgencyContext, cacheMiddleware(3
     status: req.query.status,
     maintenance_type: req.query.maintenance_type,
     priority: req.query.priority,
+    plan_id: req.query.plan_id,
     search: req.query.search,
   };
 
@@ -560,6 +798,100 @@ router.post('/disposals/:disposalId/approve', authenticate, requireAgencyContext
   });
 }));
 
+/**
+ * GET /api/assets/custody
+ * Get custody records (?asset_id=&status=&custodian_user_id=&overdue=true)
+ */
+router.get('/custody', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const filters = {
+    asset_id: req.query.asset_id,
+    status: req.query.status,
+    custodian_user_id: req.query.custodian_user_id,
+    overdue: req.query.overdue,
+  };
+
+  const records = await assetCustodyService.getCustodyRecords(agencyDatabase, agencyId, filters);
+
+  res.json({
+    success: true,
+    data: records,
+  });
+}));
+
+/**
+ * GET /api/assets/custody/employees/:userId/unreturned
+ * Assets an employee still holds, checked before offboarding
+ */
+router.get('/custody/employees/:userId/unreturned', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const { userId } = req.params;
+
+  const records = await assetCustodyService.getUnreturnedAssets(agencyDatabase, agencyId, userId);
+
+  res.json({
+    success: true,
+    data: records,
+  });
+}));
+
+/**
+ * POST /api/assets/custody/:custodyId/check-in
+ * Check an asset back in with its return condition, notes and photos
+ */
+router.post('/custody/:custodyId/check-in', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const { custodyId } = req.params;
+  const userId = req.user.id;
+
+  const custody = await assetCustodyService.checkInAsset(agencyDatabase, agencyId, custodyId, req.body, userId);
+
+  res.json({
+    success: true,
+    data: custody,
+    message: 'Asset checked in',
+  });
+}));
+
+/**
+ * GET /api/assets/:assetId/custody
+ * Custody timeline of an asset
+ */
+router.get('/:assetId/custody', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const { assetId } = req.params;
+
+  const timeline = await assetCustodyService.getAssetCustodyTimeline(agencyDatabase, agencyId, assetId);
+
+  res.json({
+    success: true,
+    data: timeline,
+  });
+}));
+
+/**
+ * POST /api/assets/:assetId/check-out
+ * Check an asset out to an employee, project or location
+ */
+router.post('/:assetId/check-out', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const { assetId } = req.params;
+  const userId = req.user.id;
+
+  const custody = await assetCustodyService.checkOutAsset(agencyDatabase, agencyId, assetId, req.body, userId);
+
+  res.json({
+    success: true,
+    data: custody,
+    message: 'Asset checked out',
+  });
+}));
+
 /**
  * GET /api/assets/reports
  * Get asset reports and analytics
@@ -1,6 +1,6 @@
 /**
  * Advanced CRM Routes
- * Handles lead scoring, opportunities, email tracking, segmentation
+ * Handles lead scoring, opportunities and forecast, segmentation and segment campaigns
  */
 
 const express = require('express');
@@ -8,23 +8,8 @@ const router = express.Router();
 const { authenticate, requireAgencyContext } = require('../middleware/authMiddleware');
 const { asyncHandler } = require('../middleware/errorHandler');
 const leadScoringService = require('../services/leadScoringService');
-const { parseDatabaseUrl } = require('../utils/poolManager');
-const { Pool } = require('pg');
-const crypto = require('crypto');
-
-function generateUUID() {
-  return crypto.randomUUID();
-}
-
-async function getAgencyConnection(agencyDatabase) {
-  const { host, port, user, password } = parseDatabaseUrl();
-  const agencyDbUrl = `postgresql://${user}:${password}@${host}:${port}/${agencyDatabase}`;
-  const agencyPool = new Pool({ connectionString: agencyDbUrl, max: 1 });
-  const client = await agencyPool.connect();
-  // Attach pool to client for cleanup
-  client.pool = agencyPool;
-  return client;
-}
+const opportunityService = require('../services/opportunityService');
+const segmentService = require('../services/segmentService');
 
 /**
  * POST /api/crm/leads/:leadId/score
@@ -60,6 +45,144 @@ router.get('/leads/high-scoring', authenticate, requireAgencyContext, asyncHandl
   });
 }));
 
+/**
+ * GET /api/crm/leads/scores
+ * Get scores for all leads; stale scores are recalculated for the response only
+ */
+router.get('/leads/scores', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyDatabase = req.user.agencyDatabase;
+  const agencyId = req.user.agencyId;
+
+  const scores = await leadScoringService.getLeadScores(agencyDatabase, agencyId);
+
+  res.json({
+    success: true,
+    data: scores,
+  });
+}));
+
+/**
+ * POST /api/crm/leads/scores/recalculate
+ * Recalculate scores for all leads
+ */
+router.post('/leads/scores/recalculate', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyDatabase = req.user.agencyDatabase;
+  const agencyId = req.user.agencyId;
+
+  const result = await leadScoringService.recalculateLeadScores(agencyDatabase, agencyId);
+
+  res.json({
+    success: true,
+    data: result.scores,
+    message: `Recalculated ${result.recalculated} lead score(s)`,
+  });
+}));
+
+/**
+ * GET /api/crm/leads/:leadId/score
+ * Get lead score and breakdown
+ */
+router.get('/leads/:leadId/score', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyDatabase = req.user.agencyDatabase;
+  const agencyId = req.user.agencyId;
+  const { leadId } = req.params;
+
+  const score = await leadScoringService.getLeadScore(agencyDatabase, agencyId, leadId);
+
+  res.json({
+    success: true,
+    data: score,
+  });
+}));
+
+/**
+ * GET /api/crm/scoring-rules
+ * Get lead scoring rules
+ */
+router.get('/scoring-rules', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyDatabase = req.user.agencyDatabase;
+  const agencyId = req.user.agencyId;
+
+  const rules = await leadScoringService.getScoringRules(agencyDatabase, agencyId);
+
+  res.json({
+    success: true,
+    data: rules,
+  });
+}));
+
+/**
+ * POST /api/crm/scoring-rules
+ * Create lead scoring rule
+ */
+router.post('/scoring-rules', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyDatabase = req.user.agencyDatabase;
+  const agencyId = req.user.agencyId;
+  const userId = req.user.id;
+
+  const rule = await leadScoringService.createScoringRule(agencyDatabase, agencyId, userId, req.body);
+
+  res.json({
+    success: true,
+    data: rule,
+    message: 'Scoring rule created',
+  });
+}));
+
+/**
+ * PUT /api/crm/scoring-rules/:ruleId
+ * Update lead scoring rule
+ */
+router.put('/scoring-rules/:ruleId', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyDatabase = req.user.agencyDatabase;
+  const agencyId = req.user.agencyId;
+  const { ruleId } = req.params;
+
+  const rule = await leadScoringService.updateScoringRule(agencyDatabase, agencyId, ruleId, req.body);
+
+  res.json({
+    success: true,
+    data: rule,
+    message: 'Scoring rule updated',
+  });
+}));
+
+/**
+ * DELETE /api/crm/scoring-rules/:ruleId
+ * Delete lead scoring rule
+ */
+router.delete('/scoring-rules/:ruleId', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyDatabase = req.user.agencyDatabase;
+  const agencyId = req.user.agencyId;
+  const { ruleId } = req.params;
+
+  await leadScoringService.deleteScoringRule(agencyDatabase, agencyId, ruleId);
+
+  res.json({
+    success: true,
+    message: 'Scoring rule deleted',
+  });
+}));
+
+/**
+ * GET /api/crm/opportunities/forecast
+ * Get weighted forecast by month and owner
+ */
+router.get('/opportunities/forecast', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyDatabase = req.user.agencyDatabase;
+  const agencyId = req.user.agencyId;
+  const forecast = await opportunityService.getForecast(agencyDatabase, agencyId, {
+    from: req.query.from,
+    to: req.query.to,
+    owner_id: req.query.owner_id,
+  });
+
+  res.json({
+    success: true,
+    data: forecast,
+  });
+}));
+
 /**
  * POST /api/crm/opportunities
  * Create opportunity
@@ -69,44 +192,13 @@ router.post('/opportunities', authenticate, requireAgencyContext, asyncHandler(a
   const agencyId = req.user.agencyId;
   const userId = req.user.id;
 
-  const client = await getAgencyConnection(agencyDatabase);
-  try {
-    const result = await client.query(
-      `INSERT INTO public.opportunities (
-        id, agency_id, lead_id, client_id, opportunity_name, description,
-        stage, probability, expected_value, expected_close_date, currency,
-        source, owner_id, created_by, created_at, updated_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, NOW(), NOW())
-      RETURNING *`,
-      [
-        generateUUID(),
-        agencyId,
-        req.body.lead_id || null,
-        req.body.client_id || null,
-        req.body.opportunity_name,
-        req.body.description || null,
-        req.body.stage || 'prospecting',
-        req.body.probability || 0,
-        req.body.expected_value || null,
-        req.body.expected_close_date || null,
-        req.body.currency || 'INR',
-        req.body.source || null,
-        req.body.owner_id || userId,
-        userId,
-      ]
-    );
-
-    res.json({
-      success: true,
-      data: result.rows[0],
-      message: 'Opportunity created',
-    });
-  } finally {
-    client.release();
-    if (client.pool) {
-      await client.pool.end();
-    }
-  }
+  const opportunity = await opportunityService.createOpportunity(agencyDatabase, agencyId, userId, req.body);
+
+  res.json({
+    success: true,
+    data: opportunity,
+    message: 'Opportunity created',
+  });
 }));
 
 /**
@@ -116,45 +208,106 @@ router.post('/opportunities', authenticate, requireAgencyContext, asyncHandler(a
 router.get('/opportunities', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
   const agencyDatabase = req.user.agencyDatabase;
   const agencyId = req.user.agencyId;
+  const opportunities = await opportunityService.getOpportunities(agencyDatabase, agencyId, {
+    stage: req.query.stage,
+    owner_id: req.query.owner_id,
+    client_id: req.query.client_id,
+    lead_id: req.query.lead_id,
+  });
 
-  const client = await getAgencyConnection(agencyDatabase);
-  try {
-    let query = `
-      SELECT 
-        o.*,
-        l.name as lead_name,
-        c.name as client_name,
-        owner.email as owner_email,
-        owner_profile.full_name as owner_name
-      FROM public.opportunities o
-      LEFT JOIN public.leads l ON o.lead_id = l.id
-      LEFT JOIN public.clients c ON o.client_id = c.id
-      LEFT JOIN public.users owner ON o.owner_id = owner.id
-      LEFT JOIN public.profiles owner_profile ON o.owner_id = owner_profile.user_id
-      WHERE o.agency_id = $1
-    `;
-    const params = [agencyId];
-    let paramIndex = 2;
-
-    if (req.query.stage) {
-      query += ` AND o.stage = $${paramIndex}`;
-      params.push(req.query.stage);
-      paramIndex++;
-    }
-
-    query += ' ORDER BY o.expected_close_date ASC, o.created_at DESC';
-
-    const result = await client.query(query, params);
-    res.json({
-      success: true,
-      data: result.rows,
-    });
-  } finally {
-    client.release();
-    if (client.pool) {
-      await client.pool.end();
-    }
-  }
+  res.json({
+    success: true,
+    data: opportunities,
+  });
+}));
+
+/**
+ * GET /api/crm/opportunities/:opportunityId
+ * Get opportunity with line items
+ */
+router.get('/opportunities/:opportunityId', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyDatabase = req.user.agencyDatabase;
+  const agencyId = req.user.agencyId;
+  const { opportunityId } = req.params;
+
+  const opportunity = await opportunityService.getOpportunity(agencyDatabase, agencyId, opportunityId);
+
+  res.json({
+    success: true,
+    data: opportunity,
+  });
+}));
+
+/**
+ * PUT /api/crm/opportunities/:opportunityId
+ * Update opportunity
+ */
+router.put('/opportunities/:opportunityId', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyDatabase = req.user.agencyDatabase;
+  const agencyId = req.user.agencyId;
+  const { opportunityId } = req.params;
+
+  const opportunity = await opportunityService.updateOpportunity(agencyDatabase, agencyId, opportunityId, req.body);
+
+  res.json({
+    success: true,
+    data: opportunity,
+    message: 'Opportunity updated',
+  });
+}));
+
+/**
+ * DELETE /api/crm/opportunities/:opportunityId
+ * Delete opportunity
+ */
+router.delete('/opportunities/:opportunityId', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyDatabase = req.user.agencyDatabase;
+  const agencyId = req.user.agencyId;
+  const { opportunityId } = req.params;
+
+  await opportunityService.deleteOpportunity(agencyDatabase, agencyId, opportunityId);
+
+  res.json({
+    success: true,
+    message: 'Opportunity deleted',
+  });
+}));
+
+/**
+ * GET /api/crm/segments
+ * Get customer segments
+ */
+router.get('/segments', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyDatabase = req.user.agencyDatabase;
+  const agencyId = req.user.agencyId;
+  const segments = await segmentService.getSegments(agencyDatabase, agencyId, {
+    entity_type: req.query.entity_type,
+  });
+
+  res.json({
+    success: true,
+    data: segments,
+  });
+}));
+
+/**
+ * POST /api/crm/segments/preview
+ * Preview members matching unsaved segment criteria
+ */
+router.post('/segments/preview', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyDatabase = req.user.agencyDatabase;
+  const agencyId = req.user.agencyId;
+  const preview = await segmentService.previewSegment(
+    agencyDatabase,
+    agencyId,
+    req.body.entity_type || 'client',
+    req.body.criteria || {}
+  );
+
+  res.json({
+    success: true,
+    data: preview,
+  });
 }));
 
 /**
@@ -166,34 +319,101 @@ router.post('/segments', authenticate, requireAgencyContext, asyncHandler(async
   const agencyId = req.user.agencyId;
   const userId = req.user.id;
 
-  const client = await getAgencyConnection(agencyDatabase);
-  try {
-    const result = await client.query(
-      `INSERT INTO public.customer_segments (
-        id, agency_id, segment_name, description, criteria, created_by, created_at, updated_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, NOW(), NOW())
-      RETURNING *`,
-      [
-        generateUUID(),
-        agencyId,
-        req.body.segment_name,
-        req.body.description || null,
-        JSON.stringify(req.body.criteria || {}),
-        userId,
-      ]
-    );
-
-    res.json({
-      success: true,
-      data: result.rows[0],
-      message: 'Customer segment created',
-    });
-  } finally {
-    client.release();
-    if (client.pool) {
-      await client.pool.end();
-    }
-  }
+  const segment = await segmentService.createSegment(agencyDatabase, agencyId, userId, req.body);
+
+  res.json({
+    success: true,
+    data: segment,
+    message: 'Customer segment created',
+  });
+}));
+
+/**
+ * PUT /api/crm/segments/:segmentId
+ * Update customer segment
+ */
+router.put('/segments/:segmentId', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyDatabase = req.user.agencyDatabase;
+  const agencyId = req.user.agencyId;
+  const { segmentId } = req.params;
+
+  const segment = await segmentService.updateSegment(agencyDatabase, agencyId, segmentId, req.body);
+
+  res.json({
+    success: true,
+    data: segment,
+    message: 'Customer segment updated',
+  });
+}));
+
+/**
+ * DELETE /api/crm/segments/:segmentId
+ * Delete customer segment
+ */
+router.delete('/segments/:segmentId', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyDatabase = req.user.agencyDatabase;
+  const agencyId = req.user.agencyId;
+  const { segmentId } = req.params;
+
+  await segmentService.deleteSegment(agencyDatabase, agencyId, segmentId);
+
+  res.json({
+    success: true,
+    message: 'Customer segment deleted',
+  });
+}));
+
+/**
+ * GET /api/crm/segments/:segmentId/members
+ * Get current segment members
+ */
+router.get('/segments/:segmentId/members', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyDatabase = req.user.agencyDatabase;
+  const agencyId = req.user.agencyId;
+  const { segmentId } = req.params;
+
+  const result = await segmentService.getSegmentMembers(agencyDatabase, agencyId, segmentId);
+
+  res.json({
+    success: true,
+    data: result,
+  });
+}));
+
+/**
+ * GET /api/crm/segments/:segmentId/campaigns
+ * Get email campaigns sent to a segment
+ */
+router.get('/segments/:segmentId/campaigns', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyDatabase = req.user.agencyDatabase;
+  const agencyId = req.user.agencyId;
+  const { segmentId } = req.params;
+
+  const campaigns = await segmentService.getCampaigns(agencyDatabase, agencyId, segmentId);
+
+  res.json({
+    success: true,
+    data: campaigns,
+  });
+}));
+
+/**
+ * POST /api/crm/segments/:segmentId/campaigns
+ * Send an email campaign to segment members
+ */
+router.post('/segments/:segmentId/campaigns', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyDatabase = req.user.agencyDatabase;
+  const agencyId = req.user.agencyId;
+  const userId = req.user.id;
+  const { segmentId } = req.params;
+
+  const campaign = await segmentService.sendSegmentCampaign(agencyDatabase, agencyId, userId, segmentId, req.body);
+
+  res.json({
+    success: true,
+    data: campaign,
+    message: `Campaign sent to ${campaign.sent_count} of ${campaign.recipient_count} recipient(s)`,
+  });
 }));
 
 module.exports = router;
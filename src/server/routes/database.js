@@ -273,7 +273,7 @@ router.post('/query', asyncHandler(async (req, res) => {
               console.log(`[API] ✅ Projects schema repair completed for ${missingTable}, retrying query...`);
             }
             // Invoices and clients - repair clients financial schema
-            else if (['invoices', 'clients', 'quotations', 'quotation_templates', 'quotation_line_items'].includes(missingTable)) {
+            else if (['invoices', 'invoice_line_items', 'clients', 'quotations', 'quotation_templates', 'quotation_line_items'].includes(missingTable)) {
               const { ensureClientsFinancialSchema } = require('../utils/schema/clientsFinancialSchema');
               await ensureClientsFinancialSchema(agencyClient);
               console.log(`[API] ✅ Clients/Financial schema repair completed for ${missingTable}, retrying query...`);
@@ -1,6 +1,7 @@
 /**
  * Financial Management Routes
- * Handles financial enhancements: currencies, bank reconciliation, budgets
+ * Handles financial enhancements: currencies and exchange rates, invoices with GST posting,
+ * FX accounting, bank reconciliation, budgets
  */
 
 const express = require('express');
@@ -10,6 +11,8 @@ const { asyncHandler } = require('../middleware/errorHandler');
 const currencyService = require('../services/currencyService');
 const bankReconciliationService = require('../services/bankReconciliationService');
 const budgetService = require('../services/budgetService');
+const fxAccountingService = require('../services/fxAccountingService');
+const invoiceService = require('../services/invoiceService');
 
 /**
  * Currency Routes
@@ -29,8 +32,8 @@ router.post('/currencies/update-rates', authenticate, requireAgencyContext, asyn
 
 router.post('/currencies/convert', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
   const agencyDatabase = req.user.agencyDatabase;
-  const { amount, from_currency, to_currency } = req.body;
-  const converted = await currencyService.convertCurrency(agencyDatabase, amount, from_currency, to_currency);
+  const { amount, from_currency, to_currency, date } = req.body;
+  const converted = await currencyService.convertCurrency(agencyDatabase, amount, from_currency, to_currency, date);
   res.json({
     success: true,
     data: {
@@ -42,18 +45,162 @@ router.post('/currencies/convert', authenticate, requireAgencyContext, asyncHand
   });
 }));
 
+/**
+ * Exchange Rate Routes
+ */
+router.get('/exchange-rates', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyDatabase = req.user.agencyDatabase;
+  const { currency_code, from, to } = req.query;
+  const rates = await currencyService.getExchangeRates(agencyDatabase, { currency_code, from, to });
+  res.json({ success: true, data: rates });
+}));
+
+router.get('/exchange-rates/lookup', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyDatabase = req.user.agencyDatabase;
+  const rate = await currencyService.lookupExchangeRate(agencyDatabase, req.query.currency_code, req.query.date);
+  res.json({ success: true, data: rate });
+}));
+
+router.post('/exchange-rates', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyDatabase = req.user.agencyDatabase;
+  const rate = await currencyService.saveExchangeRate(agencyDatabase, req.body, req.user.id);
+  res.json({ success: true, data: rate, message: 'Exchange rate saved' });
+}));
+
+router.post('/exchange-rates/import', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyDatabase = req.user.agencyDatabase;
+  const result = await currencyService.importExchangeRates(agencyDatabase, req.body.content, req.user.id);
+  res.json({
+    success: true,
+    data: result,
+    message: `Imported ${result.imported.length} rates${result.errors.length ? `, ${result.errors.length} rows skipped` : ''}`,
+  });
+}));
+
+router.delete('/exchange-rates/:rateId', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyDatabase = req.user.agencyDatabase;
+  await currencyService.deleteExchangeRate(agencyDatabase, req.params.rateId);
+  res.json({ success: true, message: 'Exchange rate deleted' });
+}));
+
+/**
+ * Invoice Routes
+ */
+router.post('/invoices', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyDatabase = req.user.agencyDatabase;
+  const result = await invoiceService.saveInvoice(agencyDatabase, req.user.agencyId, null, req.body, req.user.id);
+  res.json({ success: true, data: result, message: 'Invoice created' });
+}));
+
+router.put('/invoices/:invoiceId', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyDatabase = req.user.agencyDatabase;
+  const result = await invoiceService.saveInvoice(
+    agencyDatabase,
+    req.user.agencyId,
+    req.params.invoiceId,
+    req.body,
+    req.user.id
+  );
+  if (!result) {
+    return res.status(404).json({ success: false, error: 'Invoice not found' });
+  }
+  res.json({ success: true, data: result, message: 'Invoice saved' });
+}));
+
+/**
+ * Foreign Exchange Accounting Routes
+ */
+router.post('/invoice-payments', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyDatabase = req.user.agencyDatabase;
+  const payment = await fxAccountingService.recordInvoicePayment(agencyDatabase, req.user.agencyId, req.body, req.user.id);
+  res.json({ success: true, data: payment, message: 'Payment recorded' });
+}));
+
+router.put('/invoice-payments/:journalEntryId', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyDatabase = req.user.agencyDatabase;
+  const payment = await fxAccountingService.recordInvoicePayment(
+    agencyDatabase,
+    req.user.agencyId,
+    { ...req.body, journal_entry_id: req.params.journalEntryId },
+    req.user.id
+  );
+  res.json({ success: true, data: payment, message: 'Payment updated' });
+}));
+
+router.delete('/invoice-payments/:journalEntryId', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyDatabase = req.user.agencyDatabase;
+  const result = await fxAccountingService.deleteInvoicePayment(agencyDatabase, req.user.agencyId, req.params.journalEntryId);
+  res.json({ success: true, data: result, message: 'Payment deleted' });
+}));
+
+router.get('/fx-revaluations', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyDatabase = req.user.agencyDatabase;
+  const revaluations = await fxAccountingService.getRevaluations(agencyDatabase, req.user.agencyId);
+  res.json({ success: true, data: revaluations });
+}));
+
+router.post('/fx-revaluations/preview', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyDatabase = req.user.agencyDatabase;
+  const preview = await fxAccountingService.previewRevaluation(agencyDatabase, req.user.agencyId, req.body);
+  res.json({ success: true, data: preview });
+}));
+
+router.post('/fx-revaluations', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyDatabase = req.user.agencyDatabase;
+  const revaluation = await fxAccountingService.runRevaluation(agencyDatabase, req.user.agencyId, req.body, req.user.id);
+  res.json({ success: true, data: revaluation, message: 'Revaluation posted' });
+}));
+
+router.delete('/fx-revaluations/:revaluationId', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyDatabase = req.user.agencyDatabase;
+  const result = await fxAccountingService.cancelRevaluation(agencyDatabase, req.user.agencyId, req.params.revaluationId);
+  res.json({ success: true, data: result, message: 'Revaluation cancelled' });
+}));
+
+/**
+ * Bank Account Routes
+ */
+router.get('/bank-accounts', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyDatabase = req.user.agencyDatabase;
+  const accounts = await bankReconciliationService.getBankAccounts(agencyDatabase, req.user.agencyId);
+  res.json({ success: true, data: accounts });
+}));
+
+router.post('/bank-accounts', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyDatabase = req.user.agencyDatabase;
+  const account = await bankReconciliationService.createBankAccount(agencyDatabase, req.user.agencyId, req.body);
+  res.json({ success: true, data: account, message: 'Bank account created' });
+}));
+
+router.put('/bank-accounts/:bankAccountId', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyDatabase = req.user.agencyDatabase;
+  const account = await bankReconciliationService.updateBankAccount(
+    agencyDatabase,
+    req.user.agencyId,
+    req.params.bankAccountId,
+    req.body
+  );
+  res.json({ success: true, data: account, message: 'Bank account updated' });
+}));
+
 /**
  * Bank Reconciliation Routes
  */
 router.post('/bank-reconciliation/import', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
   const agencyDatabase = req.user.agencyDatabase;
-  const { bank_account_id, statement_data } = req.body;
-  const transactions = await bankReconciliationService.importBankStatement(
+  const { bank_account_id, statement_data, content, format } = req.body;
+  const result = await bankReconciliationService.importBankStatement(
     agencyDatabase,
+    req.user.agencyId,
     bank_account_id,
-    statement_data
+    content || statement_data,
+    format
   );
-  res.json({ success: true, data: transactions, message: 'Bank statement imported' });
+  res.json({
+    success: true,
+    data: result,
+    message: `Imported ${result.transactions.length} transactions${result.skipped_count ? `, skipped ${result.skipped_count}` : ''}`,
+  });
 }));
 
 router.post('/bank-reconciliation/reconcile', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
@@ -79,6 +226,70 @@ router.get('/bank-reconciliation/unreconciled', authenticate, requireAgencyConte
   res.json({ success: true, data: transactions });
 }));
 
+router.get('/bank-reconciliation/suggestions', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyDatabase = req.user.agencyDatabase;
+  const { bank_account_id, start_date, end_date } = req.query;
+  const suggestions = await bankReconciliationService.suggestMatches(
+    agencyDatabase,
+    req.user.agencyId,
+    bank_account_id,
+    start_date,
+    end_date
+  );
+  res.json({ success: true, data: suggestions });
+}));
+
+router.get('/bank-reconciliation/matches', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyDatabase = req.user.agencyDatabase;
+  const matches = await bankReconciliationService.getMatches(
+    agencyDatabase,
+    req.user.agencyId,
+    req.query.bank_account_id
+  );
+  res.json({ success: true, data: matches });
+}));
+
+router.post('/bank-reconciliation/matches', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyDatabase = req.user.agencyDatabase;
+  const match = await bankReconciliationService.createMatch(
+    agencyDatabase,
+    req.user.agencyId,
+    req.body,
+    req.user.id
+  );
+  res.json({ success: true, data: match, message: 'Transactions matched' });
+}));
+
+router.delete('/bank-reconciliation/matches/:matchGroupId', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyDatabase = req.user.agencyDatabase;
+  await bankReconciliationService.deleteMatch(agencyDatabase, req.user.agencyId, req.params.matchGroupId);
+  res.json({ success: true, message: 'Match removed' });
+}));
+
+router.get('/bank-reconciliation/report', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyDatabase = req.user.agencyDatabase;
+  const { bank_account_id, statement_date, statement_balance, start_date } = req.query;
+  const report = await bankReconciliationService.getReconciliationReport(
+    agencyDatabase,
+    req.user.agencyId,
+    bank_account_id,
+    statement_date,
+    statement_balance,
+    start_date
+  );
+  res.json({ success: true, data: report });
+}));
+
+router.get('/bank-reconciliation/history', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyDatabase = req.user.agencyDatabase;
+  const reconciliations = await bankReconciliationService.getReconciliations(
+    agencyDatabase,
+    req.user.agencyId,
+    req.query.bank_account_id
+  );
+  res.json({ success: true, data: reconciliations });
+}));
+
 /**
  * Budget Routes
  */
@@ -99,9 +310,70 @@ router.get('/budgets', authenticate, requireAgencyContext, asyncHandler(async (r
   const filters = {
     fiscal_year: req.query.fiscal_year,
     status: req.query.status,
+    department_id: req.query.department_id,
+    project_id: req.query.project_id,
   };
   const budgets = await budgetService.getBudgetsWithVariance(agencyDatabase, agencyId, filters);
   res.json({ success: true, data: budgets });
 }));
 
+router.get('/budgets/alerts', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyDatabase = req.user.agencyDatabase;
+  const alerts = await budgetService.getBudgetAlerts(agencyDatabase, req.user.agencyId, {
+    budget_id: req.query.budget_id,
+    include_acknowledged: req.query.include_acknowledged === 'true',
+  });
+  res.json({ success: true, data: alerts });
+}));
+
+router.post('/budgets/alerts/:alertId/acknowledge', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyDatabase = req.user.agencyDatabase;
+  const alert = await budgetService.acknowledgeBudgetAlert(
+    agencyDatabase,
+    req.user.agencyId,
+    req.params.alertId,
+    req.user.id
+  );
+  res.json({ success: true, data: alert, message: 'Alert acknowledged' });
+}));
+
+router.post('/budgets/roll-forward', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyDatabase = req.user.agencyDatabase;
+  const result = await budgetService.rollForwardBudgets(
+    agencyDatabase,
+    req.user.agencyId,
+    req.body,
+    req.user.id
+  );
+  res.json({
+    success: true,
+    data: result,
+    message: `Rolled forward ${result.created.length} budgets${result.skipped.length ? `, skipped ${result.skipped.length}` : ''}`,
+  });
+}));
+
+router.get('/budgets/:budgetId', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyDatabase = req.user.agencyDatabase;
+  const budget = await budgetService.getBudgetById(agencyDatabase, req.user.agencyId, req.params.budgetId);
+  res.json({ success: true, data: budget });
+}));
+
+router.put('/budgets/:budgetId', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyDatabase = req.user.agencyDatabase;
+  const budget = await budgetService.updateBudget(
+    agencyDatabase,
+    req.user.agencyId,
+    req.params.budgetId,
+    req.body,
+    req.user.id
+  );
+  res.json({ success: true, data: budget, message: 'Budget updated' });
+}));
+
+router.delete('/budgets/:budgetId', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyDatabase = req.user.agencyDatabase;
+  await budgetService.deleteBudget(agencyDatabase, req.user.agencyId, req.params.budgetId);
+  res.json({ success: true, message: 'Budget deleted' });
+}));
+
 module.exports = router;
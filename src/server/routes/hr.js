@@ -0,0 +1,1156 @@
+/**
+ * HR Routes
+ * Handles leave policies, accruals, balances and year-end rollover,
+ * shifts, rotations, rosters and shift-aware clock-in/clock-out,
+ * attendance regularization requests, performance review cycles,
+ * 360 feedback, calibration and goals, and payroll run finalization
+ */
+
+const express = require('express');
+const router = express.Router();
+const { authenticate, requireAgencyContext, requireRole } = require('../middleware/authMiddleware');
+const { asyncHandler } = require('../middleware/errorHandler');
+const leaveService = require('../services/leaveService');
+const shiftService = require('../services/shiftService');
+const attendanceRegularizationService = require('../services/attendanceRegularizationService');
+const performanceReviewService = require('../services/performanceReviewService');
+const payrollService = require('../services/payrollService');
+
+/**
+ * GET /api/hr/leave/policies
+ * Get leave policies
+ */
+router.get('/leave/policies', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+
+  const policies = await leaveService.getLeavePolicies(agencyDatabase, agencyId);
+
+  res.json({
+    success: true,
+    data: policies,
+  });
+}));
+
+/**
+ * POST /api/hr/leave/policies
+ * Create a leave policy
+ */
+router.post('/leave/policies', authenticate, requireRole(['hr']), requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const userId = req.user.id;
+
+  const policy = await leaveService.saveLeavePolicy(agencyDatabase, agencyId, req.body, userId);
+
+  res.json({
+    success: true,
+    data: policy,
+    message: 'Leave policy created successfully',
+  });
+}));
+
+/**
+ * PUT /api/hr/leave/policies/:id
+ * Update a leave policy
+ */
+router.put('/leave/policies/:id', authenticate, requireRole(['hr']), requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const userId = req.user.id;
+
+  const policy = await leaveService.saveLeavePolicy(agencyDatabase, agencyId, req.body, userId, req.params.id);
+
+  res.json({
+    success: true,
+    data: policy,
+    message: 'Leave policy updated successfully',
+  });
+}));
+
+/**
+ * DELETE /api/hr/leave/policies/:id
+ * Delete a leave policy
+ */
+router.delete('/leave/policies/:id', authenticate, requireRole(['hr']), requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+
+  await leaveService.deleteLeavePolicy(agencyDatabase, agencyId, req.params.id);
+
+  res.json({
+    success: true,
+    message: 'Leave policy deleted successfully',
+  });
+}));
+
+/**
+ * GET /api/hr/leave/balances
+ * Get leave balances for a year (optionally one employee). Employees see their own
+ * and their team's balances; HR and admins see everyone's
+ */
+router.get('/leave/balances', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+
+  const balances = await leaveService.getLeaveBalances(agencyDatabase, agencyId, {
+    employee_id: req.query.employee_id,
+    year: req.query.year,
+    viewer_id: req.user.id,
+  });
+
+  if (!balances) {
+    return res.status(403).json({
+      success: false,
+      error: 'You can only view your own leave balances or those of your team',
+    });
+  }
+
+  res.json({
+    success: true,
+    data: balances,
+  });
+}));
+
+/**
+ * GET /api/hr/leave/balances/transactions
+ * Get the audit trail of leave balance changes
+ */
+router.get('/leave/balances/transactions', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+
+  const transactions = await leaveService.getBalanceTransactions(agencyDatabase, agencyId, {
+    employee_id: req.query.employee_id,
+    leave_type_id: req.query.leave_type_id,
+    year: req.query.year,
+    viewer_id: req.user.id,
+  });
+
+  if (!transactions) {
+    return res.status(403).json({
+      success: false,
+      error: 'You can only view your own leave history or that of your team',
+    });
+  }
+
+  res.json({
+    success: true,
+    data: transactions,
+  });
+}));
+
+/**
+ * POST /api/hr/leave/balances/adjust
+ * Manually credit or debit a leave balance
+ */
+router.post('/leave/balances/adjust', authenticate, requireRole(['hr']), requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const userId = req.user.id;
+
+  const balance = await leaveService.adjustLeaveBalance(agencyDatabase, agencyId, req.body, userId);
+
+  res.json({
+    success: true,
+    data: balance,
+    message: 'Leave balance adjusted successfully',
+  });
+}));
+
+/**
+ * POST /api/hr/leave/calculate
+ * Calculate the days a leave request consumes and validate it against policy and balance
+ */
+router.post('/leave/calculate', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+
+  const calculation = await leaveService.calculateLeaveDays(agencyDatabase, agencyId, {
+    ...req.body,
+    employee_id: req.body.employee_id || req.user.id,
+  });
+
+  res.json({
+    success: true,
+    data: calculation,
+  });
+}));
+
+/**
+ * POST /api/hr/leave/requests
+ * Create a leave request; days and policy rules are checked on the server
+ */
+router.post('/leave/requests', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const userId = req.user.id;
+
+  const request = await leaveService.saveLeaveRequest(agencyDatabase, agencyId, req.body, userId);
+
+  res.json({
+    success: true,
+    data: request,
+    message: 'Leave request created successfully',
+  });
+}));
+
+/**
+ * PUT /api/hr/leave/requests/:id
+ * Update a leave request
+ */
+router.put('/leave/requests/:id', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const userId = req.user.id;
+
+  const request = await leaveService.saveLeaveRequest(agencyDatabase, agencyId, req.body, userId, req.params.id);
+
+  res.json({
+    success: true,
+    data: request,
+    message: 'Leave request updated successfully',
+  });
+}));
+
+/**
+ * POST /api/hr/leave/requests/:id/approve
+ * Approve a leave request after re-checking it against policy and balance
+ */
+router.post('/leave/requests/:id/approve', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const userId = req.user.id;
+
+  const request = await leaveService.decideLeaveRequest(agencyDatabase, agencyId, req.params.id, 'approved', userId);
+
+  res.json({
+    success: true,
+    data: request,
+    message: 'Leave request approved',
+  });
+}));
+
+/**
+ * POST /api/hr/leave/requests/:id/reject
+ * Reject a leave request
+ */
+router.post('/leave/requests/:id/reject', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const userId = req.user.id;
+
+  const request = await leaveService.decideLeaveRequest(
+    agencyDatabase,
+    agencyId,
+    req.params.id,
+    'rejected',
+    userId,
+    req.body.rejection_reason || null
+  );
+
+  res.json({
+    success: true,
+    data: request,
+    message: 'Leave request rejected',
+  });
+}));
+
+/**
+ * POST /api/hr/leave/accruals/run
+ * Credit leave accruals up to a date (defaults to today)
+ */
+router.post('/leave/accruals/run', authenticate, requireRole(['hr']), requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const userId = req.user.id;
+
+  const result = await leaveService.runLeaveAccruals(agencyDatabase, agencyId, req.body.as_of_date, userId);
+
+  res.json({
+    success: true,
+    data: result,
+    message: `${result.credited} accrual(s) credited`,
+  });
+}));
+
+/**
+ * GET /api/hr/leave/rollovers
+ * Get year-end rollover history
+ */
+router.get('/leave/rollovers', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+
+  const rollovers = await leaveService.getLeaveRollovers(agencyDatabase, agencyId);
+
+  res.json({
+    success: true,
+    data: rollovers,
+  });
+}));
+
+/**
+ * POST /api/hr/leave/rollovers
+ * Close a leave year: carry forward, encash and lapse unused days
+ */
+router.post('/leave/rollovers', authenticate, requireRole(['hr']), requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const userId = req.user.id;
+
+  const rollover = await leaveService.runYearEndRollover(agencyDatabase, agencyId, req.body.year, userId);
+
+  res.json({
+    success: true,
+    data: rollover,
+    message: `Leave year ${rollover.year} rolled over successfully`,
+  });
+}));
+
+/**
+ * GET /api/hr/shifts
+ * Get shift definitions
+ */
+router.get('/shifts', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+
+  const shifts = await shiftService.getShifts(agencyDatabase, agencyId, req.query);
+
+  res.json({
+    success: true,
+    data: shifts,
+  });
+}));
+
+/**
+ * POST /api/hr/shifts
+ * Create a shift
+ */
+router.post('/shifts', authenticate, requireRole(['hr']), requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const userId = req.user.id;
+
+  const shift = await shiftService.saveShift(agencyDatabase, agencyId, req.body, userId);
+
+  res.json({
+    success: true,
+    data: shift,
+    message: 'Shift created successfully',
+  });
+}));
+
+/**
+ * GET /api/hr/shifts/rotations
+ * Get shift rotation patterns
+ */
+router.get('/shifts/rotations', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+
+  const rotations = await shiftService.getRotations(agencyDatabase, agencyId);
+
+  res.json({
+    success: true,
+    data: rotations,
+  });
+}));
+
+/**
+ * POST /api/hr/shifts/rotations
+ * Create a shift rotation pattern
+ */
+router.post('/shifts/rotations', authenticate, requireRole(['hr']), requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const userId = req.user.id;
+
+  const rotation = await shiftService.saveRotation(agencyDatabase, agencyId, req.body, userId);
+
+  res.json({
+    success: true,
+    data: rotation,
+    message: 'Shift rotation created successfully',
+  });
+}));
+
+/**
+ * PUT /api/hr/shifts/rotations/:id
+ * Update a shift rotation pattern
+ */
+router.put('/shifts/rotations/:id', authenticate, requireRole(['hr']), requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const userId = req.user.id;
+
+  const rotation = await shiftService.saveRotation(agencyDatabase, agencyId, req.body, userId, req.params.id);
+
+  res.json({
+    success: true,
+    data: rotation,
+    message: 'Shift rotation updated successfully',
+  });
+}));
+
+/**
+ * DELETE /api/hr/shifts/rotations/:id
+ * Delete a shift rotation pattern
+ */
+router.delete('/shifts/rotations/:id', authenticate, requireRole(['hr']), requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+
+  await shiftService.deleteRotation(agencyDatabase, agencyId, req.params.id);
+
+  res.json({
+    success: true,
+    message: 'Shift rotation deleted successfully',
+  });
+}));
+
+/**
+ * POST /api/hr/shifts/rotations/:id/apply
+ * Roster employees onto a rotation for a date range
+ */
+router.post('/shifts/rotations/:id/apply', authenticate, requireRole(['hr']), requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const userId = req.user.id;
+
+  const result = await shiftService.applyRotation(
+    agencyDatabase,
+    agencyId,
+    { ...req.body, rotation_id: req.params.id },
+    userId
+  );
+
+  res.json({
+    success: true,
+    data: result,
+    message: `${result.saved} roster day(s) assigned`,
+  });
+}));
+
+/**
+ * GET /api/hr/shifts/roster
+ * Get the roster for a week, optionally for one department
+ */
+router.get('/shifts/roster', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+
+  const roster = await shiftService.getRoster(agencyDatabase, agencyId, req.query);
+
+  res.json({
+    success: true,
+    data: roster,
+  });
+}));
+
+/**
+ * PUT /api/hr/shifts/roster
+ * Save roster changes
+ */
+router.put('/shifts/roster', authenticate, requireRole(['hr']), requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const userId = req.user.id;
+
+  const result = await shiftService.saveRosterAssignments(agencyDatabase, agencyId, req.body.assignments, userId);
+
+  res.json({
+    success: true,
+    data: result,
+    message: 'Roster saved successfully',
+  });
+}));
+
+/**
+ * POST /api/hr/shifts/roster/copy
+ * Copy one week's roster onto another week
+ */
+router.post('/shifts/roster/copy', authenticate, requireRole(['hr']), requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const userId = req.user.id;
+
+  const result = await shiftService.copyRosterWeek(agencyDatabase, agencyId, req.body, userId);
+
+  res.json({
+    success: true,
+    data: result,
+    message: `${result.copied} roster day(s) copied`,
+  });
+}));
+
+/**
+ * PUT /api/hr/shifts/:id
+ * Update a shift
+ */
+router.put('/shifts/:id', authenticate, requireRole(['hr']), requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const userId = req.user.id;
+
+  const shift = await shiftService.saveShift(agencyDatabase, agencyId, req.body, userId, req.params.id);
+
+  res.json({
+    success: true,
+    data: shift,
+    message: 'Shift updated successfully',
+  });
+}));
+
+/**
+ * DELETE /api/hr/shifts/:id
+ * Delete a shift, or deactivate it if it has been rostered
+ */
+router.delete('/shifts/:id', authenticate, requireRole(['hr']), requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+
+  const result = await shiftService.deleteShift(agencyDatabase, agencyId, req.params.id);
+
+  res.json({
+    success: true,
+    data: result,
+    message: result.deactivated ? 'Shift is in use and was deactivated' : 'Shift deleted successfully',
+  });
+}));
+
+/**
+ * GET /api/hr/attendance/current-shift
+ * Get the shift the current user is working now
+ */
+router.get('/attendance/current-shift', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const userId = req.user.id;
+
+  const shift = await shiftService.getCurrentShift(agencyDatabase, agencyId, userId);
+
+  res.json({
+    success: true,
+    data: shift,
+  });
+}));
+
+/**
+ * POST /api/hr/attendance/clock-in
+ * Clock the current user in against their rostered shift
+ */
+router.post('/attendance/clock-in', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const userId = req.user.id;
+
+  const record = await shiftService.clockIn(agencyDatabase, agencyId, userId, req.body);
+
+  res.json({
+    success: true,
+    data: record,
+    message: record.late_minutes > 0 ? `Clocked in ${record.late_minutes} minute(s) late` : 'Clocked in successfully',
+  });
+}));
+
+/**
+ * POST /api/hr/attendance/clock-out
+ * Clock the current user out, computing hours, early-out and overtime against the shift
+ */
+router.post('/attendance/clock-out', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const userId = req.user.id;
+
+  const record = await shiftService.clockOut(agencyDatabase, agencyId, userId, req.body);
+
+  res.json({
+    success: true,
+    data: record,
+    message: 'Clocked out successfully',
+  });
+}));
+
+/**
+ * GET /api/hr/attendance/regularizations
+ * Get the current user's attendance regularization requests
+ */
+router.get('/attendance/regularizations', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const userId = req.user.id;
+
+  const regularizations = await attendanceRegularizationService.getRegularizations(agencyDatabase, agencyId, {
+    employee_id: userId,
+    status: req.query.status,
+  });
+
+  res.json({
+    success: true,
+    data: regularizations,
+  });
+}));
+
+/**
+ * POST /api/hr/attendance/regularizations
+ * Raise a regularization request and send it to the employee's manager for approval
+ */
+router.post('/attendance/regularizations', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const userId = req.user.id;
+
+  const regularization = await attendanceRegularizationService.createRegularization(
+    agencyDatabase,
+    agencyId,
+    req.body,
+    userId
+  );
+
+  res.json({
+    success: true,
+    data: regularization,
+    message: 'Regularization request submitted for approval',
+  });
+}));
+
+/**
+ * POST /api/hr/attendance/regularizations/:id/cancel
+ * Withdraw a pending regularization request
+ */
+router.post('/attendance/regularizations/:id/cancel', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const userId = req.user.id;
+
+  const regularization = await attendanceRegularizationService.cancelRegularization(
+    agencyDatabase,
+    agencyId,
+    req.params.id,
+    userId
+  );
+
+  res.json({
+    success: true,
+    data: regularization,
+    message: 'Regularization request cancelled',
+  });
+}));
+
+/**
+ * GET /api/hr/performance/competencies
+ * Get the competency library
+ */
+router.get('/performance/competencies', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+
+  const competencies = await performanceReviewService.getCompetencies(agencyDatabase, agencyId, req.query.include_inactive === 'true');
+
+  res.json({
+    success: true,
+    data: competencies,
+  });
+}));
+
+/**
+ * POST /api/hr/performance/competencies
+ * Create a competency
+ */
+router.post(
+  '/performance/competencies',
+  authenticate,
+  requireRole(['hr']),
+  requireAgencyContext,
+  asyncHandler(async (req, res) => {
+    const agencyId = req.user.agencyId;
+    const agencyDatabase = req.user.agencyDatabase;
+    const userId = req.user.id;
+
+    const competency = await performanceReviewService.saveCompetency(agencyDatabase, agencyId, req.body, userId);
+
+    res.json({
+      success: true,
+      data: competency,
+      message: 'Competency created successfully',
+    });
+  })
+);
+
+/**
+ * PUT /api/hr/performance/competencies/:id
+ * Update a competency
+ */
+router.put(
+  '/performance/competencies/:id',
+  authenticate,
+  requireRole(['hr']),
+  requireAgencyContext,
+  asyncHandler(async (req, res) => {
+    const agencyId = req.user.agencyId;
+    const agencyDatabase = req.user.agencyDatabase;
+    const userId = req.user.id;
+
+    const competency = await performanceReviewService.saveCompetency(agencyDatabase, agencyId, req.body, userId, req.params.id);
+
+    res.json({
+      success: true,
+      data: competency,
+      message: 'Competency updated successfully',
+    });
+  })
+);
+
+/**
+ * GET /api/hr/performance/cycles
+ * Get review cycles with their progress
+ */
+router.get('/performance/cycles', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+
+  const cycles = await performanceReviewService.getCycles(agencyDatabase, agencyId);
+
+  res.json({
+    success: true,
+    data: cycles,
+  });
+}));
+
+/**
+ * POST /api/hr/performance/cycles
+ * Create a draft review cycle
+ */
+router.post(
+  '/performance/cycles',
+  authenticate,
+  requireRole(['hr']),
+  requireAgencyContext,
+  asyncHandler(async (req, res) => {
+    const agencyId = req.user.agencyId;
+    const agencyDatabase = req.user.agencyDatabase;
+    const userId = req.user.id;
+
+    const cycle = await performanceReviewService.saveCycle(agencyDatabase, agencyId, req.body, userId);
+
+    res.json({
+      success: true,
+      data: cycle,
+      message: 'Review cycle created successfully',
+    });
+  })
+);
+
+/**
+ * PUT /api/hr/performance/cycles/:id
+ * Update a draft review cycle
+ */
+router.put(
+  '/performance/cycles/:id',
+  authenticate,
+  requireRole(['hr']),
+  requireAgencyContext,
+  asyncHandler(async (req, res) => {
+    const agencyId = req.user.agencyId;
+    const agencyDatabase = req.user.agencyDatabase;
+    const userId = req.user.id;
+
+    const cycle = await performanceReviewService.saveCycle(agencyDatabase, agencyId, req.body, userId, req.params.id);
+
+    res.json({
+      success: true,
+      data: cycle,
+      message: 'Review cycle updated successfully',
+    });
+  })
+);
+
+/**
+ * DELETE /api/hr/performance/cycles/:id
+ * Delete a draft review cycle
+ */
+router.delete(
+  '/performance/cycles/:id',
+  authenticate,
+  requireRole(['hr']),
+  requireAgencyContext,
+  asyncHandler(async (req, res) => {
+    const agencyId = req.user.agencyId;
+    const agencyDatabase = req.user.agencyDatabase;
+
+    const result = await performanceReviewService.deleteCycle(agencyDatabase, agencyId, req.params.id);
+
+    res.json({
+      success: true,
+      data: result,
+      message: 'Review cycle deleted successfully',
+    });
+  })
+);
+
+/**
+ * POST /api/hr/performance/cycles/:id/launch
+ * Launch a cycle, opening self-assessments and manager reviews
+ */
+router.post(
+  '/performance/cycles/:id/launch',
+  authenticate,
+  requireRole(['hr']),
+  requireAgencyContext,
+  asyncHandler(async (req, res) => {
+    const agencyId = req.user.agencyId;
+    const agencyDatabase = req.user.agencyDatabase;
+    const userId = req.user.id;
+
+    const cycle = await performanceReviewService.launchCycle(agencyDatabase, agencyId, req.params.id, userId);
+
+    res.json({
+      success: true,
+      data: cycle,
+      message: 'Review cycle launched',
+    });
+  })
+);
+
+/**
+ * POST /api/hr/performance/cycles/:id/calibration
+ * Close feedback collection and open the cycle for calibration
+ */
+router.post(
+  '/performance/cycles/:id/calibration',
+  authenticate,
+  requireRole(['hr']),
+  requireAgencyContext,
+  asyncHandler(async (req, res) => {
+    const agencyId = req.user.agencyId;
+    const agencyDatabase = req.user.agencyDatabase;
+
+    const cycle = await performanceReviewService.startCalibration(agencyDatabase, agencyId, req.params.id);
+
+    res.json({
+      success: true,
+      data: cycle,
+      message: 'Review cycle moved to calibration',
+    });
+  })
+);
+
+/**
+ * POST /api/hr/performance/cycles/:id/close
+ * Close a cycle, finalizing every review with its rating and performance summary
+ */
+router.post(
+  '/performance/cycles/:id/close',
+  authenticate,
+  requireRole(['hr']),
+  requireAgencyContext,
+  asyncHandler(async (req, res) => {
+    const agencyId = req.user.agencyId;
+    const agencyDatabase = req.user.agencyDatabase;
+
+    const result = await performanceReviewService.closeCycle(agencyDatabase, agencyId, req.params.id);
+
+    res.json({
+      success: true,
+      data: result,
+      message: `Review cycle closed; ${result.finalized} review(s) finalized`,
+    });
+  })
+);
+
+/**
+ * GET /api/hr/performance/cycles/:id/calibration
+ * Get the calibration view for a cycle (department heads see their departments)
+ */
+router.get(
+  '/performance/cycles/:id/calibration',
+  authenticate,
+  requireRole(['department_head', 'hr']),
+  requireAgencyContext,
+  asyncHandler(async (req, res) => {
+    const agencyId = req.user.agencyId;
+    const agencyDatabase = req.user.agencyDatabase;
+    const userId = req.user.id;
+
+    const calibration = await performanceReviewService.getCalibration(agencyDatabase, agencyId, req.params.id, userId, req.query);
+
+    res.json({
+      success: true,
+      data: calibration,
+    });
+  })
+);
+
+/**
+ * GET /api/hr/performance/feedback
+ * Get the feedback forms the current user has been asked to fill in
+ */
+router.get('/performance/feedback', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const userId = req.user.id;
+
+  const requests = await performanceReviewService.getMyFeedbackRequests(agencyDatabase, agencyId, userId);
+
+  res.json({
+    success: true,
+    data: requests,
+  });
+}));
+
+/**
+ * GET /api/hr/performance/feedback/:id
+ * Get a feedback form for its reviewer
+ */
+router.get('/performance/feedback/:id', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const userId = req.user.id;
+
+  const form = await performanceReviewService.getFeedbackForm(agencyDatabase, agencyId, req.params.id, userId);
+
+  res.json({
+    success: true,
+    data: form,
+  });
+}));
+
+/**
+ * POST /api/hr/performance/feedback/:id/submit
+ * Submit a self, manager or peer feedback form
+ */
+router.post('/performance/feedback/:id/submit', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const userId = req.user.id;
+
+  const feedback = await performanceReviewService.submitFeedback(agencyDatabase, agencyId, req.params.id, req.body, userId);
+
+  res.json({
+    success: true,
+    data: feedback,
+    message: 'Feedback submitted',
+  });
+}));
+
+/**
+ * POST /api/hr/performance/feedback/:id/decline
+ * Decline a peer feedback request
+ */
+router.post('/performance/feedback/:id/decline', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const userId = req.user.id;
+
+  const feedback = await performanceReviewService.declineFeedback(agencyDatabase, agencyId, req.params.id, req.body.reason, userId);
+
+  res.json({
+    success: true,
+    data: feedback,
+    message: 'Feedback request declined',
+  });
+}));
+
+/**
+ * GET /api/hr/performance/reviews
+ * Get the current user's reviews, their team's (scope=team) or an employee's
+ */
+router.get('/performance/reviews', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const userId = req.user.id;
+
+  const reviews = await performanceReviewService.getReviews(agencyDatabase, agencyId, userId, req.query);
+
+  res.json({
+    success: true,
+    data: reviews,
+  });
+}));
+
+/**
+ * GET /api/hr/performance/reviews/:id
+ * Get a review with its feedback, goals and performance summary
+ */
+router.get('/performance/reviews/:id', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const userId = req.user.id;
+
+  const review = await performanceReviewService.getReviewDetail(agencyDatabase, agencyId, req.params.id, userId);
+
+  res.json({
+    success: true,
+    data: review,
+  });
+}));
+
+/**
+ * POST /api/hr/performance/reviews/:id/peers
+ * Ask colleagues for peer feedback on a review
+ */
+router.post('/performance/reviews/:id/peers', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const userId = req.user.id;
+
+  const result = await performanceReviewService.requestPeerFeedback(agencyDatabase, agencyId, req.params.id, req.body.reviewer_ids, userId);
+
+  res.json({
+    success: true,
+    data: result,
+    message: 'Peer feedback requested',
+  });
+}));
+
+/**
+ * POST /api/hr/performance/reviews/:id/calibrate
+ * Set or clear a review's calibrated rating
+ */
+router.post(
+  '/performance/reviews/:id/calibrate',
+  authenticate,
+  requireRole(['department_head', 'hr']),
+  requireAgencyContext,
+  asyncHandler(async (req, res) => {
+    const agencyId = req.user.agencyId;
+    const agencyDatabase = req.user.agencyDatabase;
+    const userId = req.user.id;
+
+    const review = await performanceReviewService.calibrateReview(agencyDatabase, agencyId, req.params.id, req.body, userId);
+
+    res.json({
+      success: true,
+      data: review,
+      message: 'Review calibrated',
+    });
+  })
+);
+
+/**
+ * GET /api/hr/performance/goals
+ * Get the current user's goals, or a team member's
+ */
+router.get('/performance/goals', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const userId = req.user.id;
+
+  const goals = await performanceReviewService.getGoals(agencyDatabase, agencyId, userId, req.query);
+
+  res.json({
+    success: true,
+    data: goals,
+  });
+}));
+
+/**
+ * POST /api/hr/performance/goals
+ * Create a goal or OKR
+ */
+router.post('/performance/goals', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const userId = req.user.id;
+
+  const goal = await performanceReviewService.saveGoal(agencyDatabase, agencyId, req.body, userId);
+
+  res.json({
+    success: true,
+    data: goal,
+    message: 'Goal created successfully',
+  });
+}));
+
+/**
+ * PUT /api/hr/performance/goals/:id
+ * Update a goal or OKR
+ */
+router.put('/performance/goals/:id', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const userId = req.user.id;
+
+  const goal = await performanceReviewService.saveGoal(agencyDatabase, agencyId, req.body, userId, req.params.id);
+
+  res.json({
+    success: true,
+    data: goal,
+    message: 'Goal updated successfully',
+  });
+}));
+
+/**
+ * DELETE /api/hr/performance/goals/:id
+ * Delete a goal
+ */
+router.delete('/performance/goals/:id', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const userId = req.user.id;
+
+  const result = await performanceReviewService.deleteGoal(agencyDatabase, agencyId, req.params.id, userId);
+
+  res.json({
+    success: true,
+    data: result,
+    message: 'Goal deleted successfully',
+  });
+}));
+
+/**
+ * GET /api/hr/performance/goals/:id/checkins
+ * Get a goal's progress check-ins
+ */
+router.get('/performance/goals/:id/checkins', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const userId = req.user.id;
+
+  const checkins = await performanceReviewService.getGoalCheckins(agencyDatabase, agencyId, req.params.id, userId);
+
+  res.json({
+    success: true,
+    data: checkins,
+  });
+}));
+
+/**
+ * POST /api/hr/performance/goals/:id/checkins
+ * Record a progress check-in on a goal
+ */
+router.post('/performance/goals/:id/checkins', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const userId = req.user.id;
+
+  const checkin = await performanceReviewService.addGoalCheckin(agencyDatabase, agencyId, req.params.id, req.body, userId);
+
+  res.json({
+    success: true,
+    data: checkin,
+    message: 'Check-in recorded',
+  });
+}));
+
+/**
+ * POST /api/hr/payroll/periods/:id/finalize
+ * Approve a saved payroll run and settle its adjustments and arrears
+ */
+router.post('/payroll/periods/:id/finalize', authenticate, requireRole(['finance_manager']), requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const userId = req.user.id;
+
+  const result = await payrollService.finalizePayrollRun(agencyDatabase, agencyId, req.params.id, req.body.lines, userId);
+
+  res.json({
+    success: true,
+    data: result,
+    message: `${result.approved_count} payroll records approved`,
+  });
+}));
+
+module.exports = router;
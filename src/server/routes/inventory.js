@@ -8,6 +8,9 @@ const router = express.Router();
 const { authenticate, requireAgencyContext } = require('../middleware/authMiddleware');
 const { asyncHandler } = require('../middleware/errorHandler');
 const inventoryService = require('../services/inventoryService');
+const replenishmentService = require('../services/replenishmentService');
+const stockReservationService = require('../services/stockReservationService');
+const stockTakeService = require('../services/stockTakeService');
 const { cacheMiddleware } = require('../services/cacheService');
 
 /**
@@ -120,9 +123,10 @@ router.post('/transactions', authenticate, requireAgencyContext, asyncHandler(as
   const agencyDatabase = req.user.agencyDatabase;
   const userId = req.user.id;
 
+  // Cost layers are only carried internally by transfers
   const transaction = await inventoryService.createInventoryTransaction(
     agencyDatabase,
-    { ...req.body, agency_id: agencyId },
+    { ...req.body, cost_layers: undefined, agency_id: agencyId },
     userId
   );
 
@@ -149,6 +153,393 @@ router.get('/alerts/low-stock', authenticate, requireAgencyContext, asyncHandler
   });
 }));
 
+/**
+ * GET /api/inventory/replenishment/proposal
+ * Proposed order quantities for low-stock items, grouped by supplier
+ */
+router.get('/replenishment/proposal', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+
+  const proposal = await replenishmentService.getReplenishmentProposal(agencyDatabase, agencyId, {
+    warehouse_id: req.query.warehouse_id,
+    consumption_days: req.query.consumption_days,
+    lead_time_days: req.query.lead_time_days,
+  });
+
+  res.json({
+    success: true,
+    data: proposal,
+  });
+}));
+
+/**
+ * POST /api/inventory/replenishment/orders
+ * Convert proposal lines into draft requisitions or purchase orders
+ */
+router.post('/replenishment/orders', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const userId = req.user.id;
+
+  const result = await replenishmentService.createReplenishmentDocuments(
+    agencyDatabase,
+    agencyId,
+    { output_type: req.body.output_type, lines: req.body.lines, trigger_type: 'manual' },
+    userId
+  );
+
+  res.json({
+    success: true,
+    data: result,
+    message: 'Replenishment documents created successfully',
+  });
+}));
+
+/**
+ * GET /api/inventory/replenishment/runs
+ * Recent replenishment runs
+ */
+router.get('/replenishment/runs', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+
+  const runs = await replenishmentService.getReplenishmentRuns(agencyDatabase, agencyId, {
+    limit: req.query.limit,
+  });
+
+  res.json({
+    success: true,
+    data: runs,
+  });
+}));
+
+/**
+ * GET /api/inventory/reservations
+ * Get stock reservations
+ * Filters: status, inventory_id, product_id, warehouse_id, project_id, quotation_id, job_id, reference_type
+ */
+router.get('/reservations', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const filters = {
+    status: req.query.status,
+    inventory_id: req.query.inventory_id,
+    product_id: req.query.product_id,
+    warehouse_id: req.query.warehouse_id,
+    project_id: req.query.project_id,
+    quotation_id: req.query.quotation_id,
+    job_id: req.query.job_id,
+    reference_type: req.query.reference_type,
+  };
+
+  const reservations = await stockReservationService.getReservations(agencyDatabase, agencyId, filters);
+
+  res.json({
+    success: true,
+    data: reservations,
+  });
+}));
+
+/**
+ * GET /api/inventory/reservations/targets
+ * Projects, tasks, accepted quotations and jobs stock can be reserved against
+ */
+router.get('/reservations/targets', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+
+  const targets = await stockReservationService.getReservationTargets(agencyDatabase, agencyId);
+
+  res.json({
+    success: true,
+    data: targets,
+  });
+}));
+
+/**
+ * POST /api/inventory/reservations
+ * Reserve stock against a project, task or accepted quotation
+ */
+router.post('/reservations', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const userId = req.user.id;
+
+  const reservation = await stockReservationService.createReservation(agencyDatabase, agencyId, req.body, userId);
+
+  res.json({
+    success: true,
+    data: reservation,
+    message: 'Stock reserved successfully',
+  });
+}));
+
+/**
+ * POST /api/inventory/reservations/:reservationId/issue
+ * Issue reserved stock to the project
+ * Body: quantity (defaults to all still reserved), project_id (quotation reservations), notes
+ */
+router.post('/reservations/:reservationId/issue', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const userId = req.user.id;
+  const { reservationId } = req.params;
+
+  const result = await stockReservationService.issueReservation(
+    agencyDatabase,
+    agencyId,
+    reservationId,
+    req.body || {},
+    userId
+  );
+
+  res.json({
+    success: true,
+    data: result,
+    message: 'Reserved stock issued to project',
+  });
+}));
+
+/**
+ * POST /api/inventory/reservations/:reservationId/release
+ * Release what is still reserved
+ */
+router.post('/reservations/:reservationId/release', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const { reservationId } = req.params;
+
+  const reservation = await stockReservationService.releaseReservation(
+    agencyDatabase,
+    agencyId,
+    reservationId,
+    req.body?.reason
+  );
+
+  res.json({
+    success: true,
+    data: reservation,
+    message: 'Reservation released',
+  });
+}));
+
+/**
+ * GET /api/inventory/stock-takes
+ * Get stock take sessions
+ * Filters: status, warehouse_id, count_type
+ */
+router.get('/stock-takes', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const filters = {
+    status: req.query.status,
+    warehouse_id: req.query.warehouse_id,
+    count_type: req.query.count_type,
+  };
+
+  const stockTakes = await stockTakeService.getStockTakes(agencyDatabase, agencyId, filters);
+
+  res.json({
+    success: true,
+    data: stockTakes,
+  });
+}));
+
+/**
+ * GET /api/inventory/stock-takes/scope/:warehouseId
+ * Zones and ABC class counts available for a new stock take
+ */
+router.get('/stock-takes/scope/:warehouseId', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+
+  const scope = await stockTakeService.getStockTakeScope(agencyDatabase, agencyId, req.params.warehouseId);
+
+  res.json({
+    success: true,
+    data: scope,
+  });
+}));
+
+/**
+ * GET /api/inventory/stock-takes/:sessionId
+ * Get a stock take with its count sheet (expected quantities hidden while blind counting)
+ */
+router.get('/stock-takes/:sessionId', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+
+  const stockTake = await stockTakeService.getStockTakeById(agencyDatabase, agencyId, req.params.sessionId);
+
+  res.json({
+    success: true,
+    data: stockTake,
+  });
+}));
+
+/**
+ * GET /api/inventory/stock-takes/:sessionId/variance-report
+ * Variance valuation report for a submitted stock take
+ */
+router.get('/stock-takes/:sessionId/variance-report', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+
+  const report = await stockTakeService.getVarianceReport(agencyDatabase, agencyId, req.params.sessionId);
+
+  res.json({
+    success: true,
+    data: report,
+  });
+}));
+
+/**
+ * POST /api/inventory/stock-takes
+ * Start a full or ABC cycle count and freeze its count sheet
+ * Body: warehouse_id, zone, count_type (full/cycle), abc_classes, blind_count, notes
+ */
+router.post('/stock-takes', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const userId = req.user.id;
+
+  const stockTake = await stockTakeService.createStockTake(agencyDatabase, agencyId, req.body, userId);
+
+  res.json({
+    success: true,
+    data: stockTake,
+    message: 'Stock take started',
+  });
+}));
+
+/**
+ * PUT /api/inventory/stock-takes/:sessionId/counts
+ * Enter counted quantities
+ * Body: counts [{ line_id, counted_quantity, notes }]
+ */
+router.put('/stock-takes/:sessionId/counts', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const userId = req.user.id;
+
+  const stockTake = await stockTakeService.recordCounts(agencyDatabase, agencyId, req.params.sessionId, req.body.counts, userId);
+
+  res.json({
+    success: true,
+    data: stockTake,
+    message: 'Counts saved',
+  });
+}));
+
+/**
+ * POST /api/inventory/stock-takes/:sessionId/scan
+ * Count a scanned product barcode/SKU or serial number
+ * Body: code, quantity (barcodes only, default 1)
+ */
+router.post('/stock-takes/:sessionId/scan', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const userId = req.user.id;
+
+  const result = await stockTakeService.scanCode(agencyDatabase, agencyId, req.params.sessionId, req.body, userId);
+
+  res.json({
+    success: true,
+    data: result,
+  });
+}));
+
+/**
+ * POST /api/inventory/stock-takes/:sessionId/submit
+ * Close counting and compute variances for review
+ * Body: zero_uncounted (count untouched lines as zero)
+ */
+router.post('/stock-takes/:sessionId/submit', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const userId = req.user.id;
+
+  const stockTake = await stockTakeService.submitStockTake(agencyDatabase, agencyId, req.params.sessionId, req.body || {}, userId);
+
+  res.json({
+    success: true,
+    data: stockTake,
+    message: 'Stock take submitted for review',
+  });
+}));
+
+/**
+ * PUT /api/inventory/stock-takes/:sessionId/review
+ * Accept or reject variance lines
+ * Body: reviews [{ line_id, review_status, notes }]
+ */
+router.put('/stock-takes/:sessionId/review', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+
+  const stockTake = await stockTakeService.reviewLines(agencyDatabase, agencyId, req.params.sessionId, req.body.reviews);
+
+  res.json({
+    success: true,
+    data: stockTake,
+    message: 'Review saved',
+  });
+}));
+
+/**
+ * POST /api/inventory/stock-takes/:sessionId/approve
+ * Approve the reviewed stock take
+ */
+router.post('/stock-takes/:sessionId/approve', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const userId = req.user.id;
+
+  const stockTake = await stockTakeService.approveStockTake(agencyDatabase, agencyId, req.params.sessionId, userId);
+
+  res.json({
+    success: true,
+    data: stockTake,
+    message: 'Stock take approved',
+  });
+}));
+
+/**
+ * POST /api/inventory/stock-takes/:sessionId/post
+ * Post approved variances as inventory adjustments
+ */
+router.post('/stock-takes/:sessionId/post', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const userId = req.user.id;
+
+  const stockTake = await stockTakeService.postStockTake(agencyDatabase, agencyId, req.params.sessionId, userId);
+
+  res.json({
+    success: true,
+    data: stockTake,
+    message: 'Stock take posted',
+  });
+}));
+
+/**
+ * POST /api/inventory/stock-takes/:sessionId/cancel
+ * Cancel a stock take that has not been posted
+ */
+router.post('/stock-takes/:sessionId/cancel', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+
+  const stockTake = await stockTakeService.cancelStockTake(agencyDatabase, agencyId, req.params.sessionId, req.body?.reason);
+
+  res.json({
+    success: true,
+    data: stockTake,
+    message: 'Stock take cancelled',
+  });
+}));
+
 /**
  * GET /api/inventory/products/:productId
  * Get a single product by ID
@@ -703,6 +1094,68 @@ router.get('/reports/stock-value', authenticate, requireAgencyContext, cacheMidd
   });
 }));
 
+/**
+ * GET /api/inventory/reports/stock-value/:inventoryId/layers
+ * Cost layers behind a stock record
+ */
+router.get('/reports/stock-value/:inventoryId/layers', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+
+  const layers = await inventoryService.getCostLayers(agencyDatabase, agencyId, req.params.inventoryId, {
+    include_closed: req.query.include_closed === 'true',
+  });
+
+  res.json({
+    success: true,
+    data: layers,
+  });
+}));
+
+/**
+ * PUT /api/inventory/levels/:inventoryId/valuation-method
+ * Change the valuation method of a stock record
+ */
+router.put('/levels/:inventoryId/valuation-method', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+
+  const inventory = await inventoryService.updateValuationMethod(
+    agencyDatabase,
+    agencyId,
+    req.params.inventoryId,
+    req.body.valuation_method
+  );
+
+  res.json({
+    success: true,
+    data: inventory,
+    message: 'Valuation method updated successfully',
+  });
+}));
+
+/**
+ * PUT /api/inventory/levels/:inventoryId/zone
+ * Set the storage zone of a stock record
+ */
+router.put('/levels/:inventoryId/zone', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+
+  const inventory = await inventoryService.updateInventoryZone(
+    agencyDatabase,
+    agencyId,
+    req.params.inventoryId,
+    req.body.zone
+  );
+
+  res.json({
+    success: true,
+    data: inventory,
+    message: 'Zone updated successfully',
+  });
+}));
+
 /**
  * GET /api/inventory/reports/movement
  * Get movement report
@@ -8,6 +8,8 @@ const router = express.Router();
 const { authenticate, requireAgencyContext } = require('../middleware/authMiddleware');
 const { asyncHandler } = require('../middleware/errorHandler');
 const procurementService = require('../services/procurementService');
+const supplierInvoiceService = require('../services/supplierInvoiceService');
+const vendorContractService = require('../services/vendorContractService');
 const { cacheMiddleware } = require('../services/cacheService');
 
 /**
@@ -95,6 +97,23 @@ router.post('/purchase-orders', authenticate, requireAgencyContext, asyncHandler
   });
 }));
 
+/**
+ * POST /api/procurement/purchase-orders/contract-check
+ * Check draft purchase order lines against the supplier's contract without saving
+ * Body: supplier_id, contract_id (optional), order_date, currency, exchange_rate, items, total_amount, po_id (when editing)
+ */
+router.post('/purchase-orders/contract-check', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+
+  const result = await vendorContractService.checkPurchaseOrderAgainstContract(agencyDatabase, agencyId, req.body);
+
+  res.json({
+    success: true,
+    data: result,
+  });
+}));
+
 /**
  * GET /api/procurement/goods-receipts
  * Get all goods receipts
@@ -323,6 +342,297 @@ router.post('/rfq', authenticate, requireAgencyContext, asyncHandler(async (req,
   });
 }));
 
+/**
+ * GET /api/procurement/rfq/:rfqId
+ * Get a single RFQ/RFP with line items, invited suppliers and bids
+ */
+router.get('/rfq/:rfqId', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const { rfqId } = req.params;
+
+  const rfq = await procurementService.getRfqById(agencyDatabase, agencyId, rfqId);
+
+  if (!rfq) {
+    return res.status(404).json({
+      success: false,
+      error: 'RFQ not found',
+      message: 'RFQ not found',
+    });
+  }
+
+  res.json({
+    success: true,
+    data: rfq,
+  });
+}));
+
+/**
+ * POST /api/procurement/rfq/:rfqId/suppliers
+ * Invite suppliers to bid
+ */
+router.post('/rfq/:rfqId/suppliers', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const userId = req.user.id;
+  const { rfqId } = req.params;
+
+  const rfq = await procurementService.inviteRfqSuppliers(
+    agencyDatabase,
+    agencyId,
+    rfqId,
+    req.body.supplier_ids,
+    userId
+  );
+
+  res.json({
+    success: true,
+    data: rfq,
+    message: 'Suppliers invited successfully',
+  });
+}));
+
+/**
+ * POST /api/procurement/rfq/:rfqId/responses
+ * Record or replace a supplier's bid
+ */
+router.post('/rfq/:rfqId/responses', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const userId = req.user.id;
+  const { rfqId } = req.params;
+
+  const response = await procurementService.saveRfqResponse(
+    agencyDatabase,
+    agencyId,
+    rfqId,
+    req.body,
+    userId
+  );
+
+  res.json({
+    success: true,
+    data: response,
+    message: 'Bid saved successfully',
+  });
+}));
+
+/**
+ * GET /api/procurement/rfq/:rfqId/comparison
+ * Side-by-side bid comparison with weighted scores
+ * Optional query weights: price, lead_time, performance
+ */
+router.get('/rfq/:rfqId/comparison', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const { rfqId } = req.params;
+
+  const hasWeights = ['price', 'lead_time', 'performance'].some((key) => req.query[key] !== undefined);
+  const weights = hasWeights
+    ? { price: req.query.price, lead_time: req.query.lead_time, performance: req.query.performance }
+    : null;
+
+  const comparison = await procurementService.getRfqComparison(agencyDatabase, agencyId, rfqId, weights);
+
+  res.json({
+    success: true,
+    data: comparison,
+  });
+}));
+
+/**
+ * POST /api/procurement/rfq/:rfqId/award
+ * Award lines to winning bids and raise purchase orders per supplier
+ */
+router.post('/rfq/:rfqId/award', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const userId = req.user.id;
+  const { rfqId } = req.params;
+
+  const result = await procurementService.awardRfq(agencyDatabase, agencyId, rfqId, req.body, userId);
+
+  res.json({
+    success: true,
+    data: result,
+    message: `RFQ awarded; ${result.purchase_orders.length} purchase order(s) created`,
+  });
+}));
+
+/**
+ * GET /api/procurement/supplier-invoices
+ * Get supplier invoices (bills)
+ * Filters: status, match_status (exception for the exception queue), supplier_id
+ */
+router.get('/supplier-invoices', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const filters = {
+    status: req.query.status,
+    match_status: req.query.match_status,
+    supplier_id: req.query.supplier_id,
+  };
+
+  const invoices = await supplierInvoiceService.getSupplierInvoices(agencyDatabase, agencyId, filters);
+
+  res.json({
+    success: true,
+    data: invoices,
+  });
+}));
+
+/**
+ * GET /api/procurement/supplier-invoices/po-lines/:poId
+ * Ordered, received and already billed quantities per PO line, optionally for one GRN
+ */
+router.get('/supplier-invoices/po-lines/:poId', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const { poId } = req.params;
+
+  const lines = await supplierInvoiceService.getPurchaseOrderBillingLines(
+    agencyDatabase,
+    agencyId,
+    poId,
+    req.query.grn_id || null
+  );
+
+  res.json({
+    success: true,
+    data: lines,
+  });
+}));
+
+/**
+ * GET /api/procurement/supplier-invoices/:invoiceId
+ * Get a supplier invoice with its lines and match results
+ */
+router.get('/supplier-invoices/:invoiceId', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const { invoiceId } = req.params;
+
+  const invoice = await supplierInvoiceService.getSupplierInvoiceById(agencyDatabase, agencyId, invoiceId);
+
+  if (!invoice) {
+    return res.status(404).json({
+      success: false,
+      error: 'Supplier invoice not found',
+      message: 'Supplier invoice not found',
+    });
+  }
+
+  res.json({
+    success: true,
+    data: invoice,
+  });
+}));
+
+/**
+ * POST /api/procurement/supplier-invoices
+ * Record a supplier invoice and run the three-way match
+ */
+router.post('/supplier-invoices', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const userId = req.user.id;
+
+  const invoice = await supplierInvoiceService.createSupplierInvoice(agencyDatabase, agencyId, req.body, userId);
+
+  res.json({
+    success: true,
+    data: invoice,
+    message: invoice.status === 'approved'
+      ? 'Supplier invoice matched and approved'
+      : `Supplier invoice recorded (${invoice.match_status})`,
+  });
+}));
+
+/**
+ * PUT /api/procurement/supplier-invoices/:invoiceId
+ * Update a pending supplier invoice and match it again
+ */
+router.put('/supplier-invoices/:invoiceId', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const { invoiceId } = req.params;
+
+  const invoice = await supplierInvoiceService.updateSupplierInvoice(agencyDatabase, agencyId, invoiceId, req.body);
+
+  res.json({
+    success: true,
+    data: invoice,
+    message: 'Supplier invoice updated successfully',
+  });
+}));
+
+/**
+ * POST /api/procurement/supplier-invoices/:invoiceId/rematch
+ * Re-run the three-way match
+ */
+router.post('/supplier-invoices/:invoiceId/rematch', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const { invoiceId } = req.params;
+
+  const invoice = await supplierInvoiceService.rematchSupplierInvoice(agencyDatabase, agencyId, invoiceId);
+
+  res.json({
+    success: true,
+    data: invoice,
+    message: `Invoice ${invoice.match_status}`,
+  });
+}));
+
+/**
+ * POST /api/procurement/supplier-invoices/:invoiceId/approve
+ * Approve a bill, posting the payable journal entry and purchase GST
+ * Body: override_reason (required when the match has exceptions)
+ */
+router.post('/supplier-invoices/:invoiceId/approve', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const userId = req.user.id;
+  const { invoiceId } = req.params;
+
+  const invoice = await supplierInvoiceService.approveSupplierInvoice(
+    agencyDatabase,
+    agencyId,
+    invoiceId,
+    req.body || {},
+    userId
+  );
+
+  res.json({
+    success: true,
+    data: invoice,
+    message: 'Supplier invoice approved and posted',
+  });
+}));
+
+/**
+ * POST /api/procurement/supplier-invoices/:invoiceId/dispute
+ * Dispute a pending supplier invoice
+ */
+router.post('/supplier-invoices/:invoiceId/dispute', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const { invoiceId } = req.params;
+
+  const invoice = await supplierInvoiceService.disputeSupplierInvoice(
+    agencyDatabase,
+    agencyId,
+    invoiceId,
+    req.body?.reason
+  );
+
+  res.json({
+    success: true,
+    data: invoice,
+    message: 'Supplier invoice disputed',
+  });
+}));
+
 /**
  * GET /api/procurement/vendor-contracts
  * Get all vendor contracts
@@ -344,6 +654,22 @@ router.get('/vendor-contracts', authenticate, requireAgencyContext, cacheMiddlew
   });
 }));
 
+/**
+ * GET /api/procurement/vendor-contracts/expiring
+ * Active contracts ending within the given number of days (default 90)
+ */
+router.get('/vendor-contracts/expiring', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+
+  const contracts = await vendorContractService.getExpiringContracts(agencyDatabase, agencyId, req.query.days);
+
+  res.json({
+    success: true,
+    data: contracts,
+  });
+}));
+
 /**
  * GET /api/procurement/vendor-contracts/:contractId
  * Get vendor contract by ID
@@ -361,6 +687,101 @@ router.get('/vendor-contracts/:contractId', authenticate, requireAgencyContext,
   });
 }));
 
+/**
+ * GET /api/procurement/vendor-contracts/:contractId/prices
+ * Get the contract price schedule
+ */
+router.get('/vendor-contracts/:contractId/prices', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const { contractId } = req.params;
+
+  const prices = await vendorContractService.getContractPrices(agencyDatabase, agencyId, contractId);
+
+  res.json({
+    success: true,
+    data: prices,
+  });
+}));
+
+/**
+ * PUT /api/procurement/vendor-contracts/:contractId/prices
+ * Replace the contract price schedule
+ * Body: lines [{ product_id, description, unit_price, unit_of_measure, min_quantity, notes }]
+ */
+router.put('/vendor-contracts/:contractId/prices', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const { contractId } = req.params;
+
+  const prices = await vendorContractService.saveContractPrices(
+    agencyDatabase,
+    agencyId,
+    contractId,
+    Array.isArray(req.body.lines) ? req.body.lines : []
+  );
+
+  res.json({
+    success: true,
+    data: prices,
+    message: 'Price schedule saved',
+  });
+}));
+
+/**
+ * GET /api/procurement/vendor-contracts/:contractId/purchase-orders
+ * Purchase orders issued under the contract
+ */
+router.get('/vendor-contracts/:contractId/purchase-orders', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const { contractId } = req.params;
+
+  const orders = await vendorContractService.getContractPurchaseOrders(agencyDatabase, agencyId, contractId);
+
+  res.json({
+    success: true,
+    data: orders,
+  });
+}));
+
+/**
+ * GET /api/procurement/vendor-contracts/:contractId/renewals
+ * Renewal history of the contract
+ */
+router.get('/vendor-contracts/:contractId/renewals', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const { contractId } = req.params;
+
+  const renewals = await vendorContractService.getContractRenewals(agencyDatabase, agencyId, contractId);
+
+  res.json({
+    success: true,
+    data: renewals,
+  });
+}));
+
+/**
+ * POST /api/procurement/vendor-contracts/:contractId/renew
+ * Renew a contract by hand
+ * Body: new_end_date or term_months, new_value (optional), notes
+ */
+router.post('/vendor-contracts/:contractId/renew', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const userId = req.user.id;
+  const { contractId } = req.params;
+
+  const contract = await vendorContractService.renewContract(agencyDatabase, agencyId, contractId, req.body, userId);
+
+  res.json({
+    success: true,
+    data: contract,
+    message: `Contract renewed until ${new Date(contract.end_date).toLocaleDateString('en-IN')}`,
+  });
+}));
+
 /**
  * POST /api/procurement/vendor-contracts
  * Create new vendor contract
@@ -47,6 +47,41 @@ router.post('/:projectId/dependencies', authenticate, requireAgencyContext, asyn
   });
 }));
 
+/**
+ * DELETE /api/projects/:projectId/dependencies/:dependencyId
+ * Remove task dependency
+ */
+router.delete('/:projectId/dependencies/:dependencyId', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyDatabase = req.user.agencyDatabase;
+  const { projectId, dependencyId } = req.params;
+
+  await ganttService.deleteDependency(agencyDatabase, projectId, dependencyId);
+
+  res.json({
+    success: true,
+    message: 'Task dependency removed',
+  });
+}));
+
+/**
+ * PUT /api/projects/:projectId/gantt/tasks/:taskId/schedule
+ * Move or resize a task on the Gantt chart; dependent tasks shift with it
+ */
+router.put('/:projectId/gantt/tasks/:taskId/schedule', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyDatabase = req.user.agencyDatabase;
+  const { projectId, taskId } = req.params;
+
+  const result = await ganttService.rescheduleTask(agencyDatabase, projectId, taskId, req.body);
+
+  res.json({
+    success: true,
+    data: result,
+    message: result.shifted_tasks.length > 0
+      ? `Task rescheduled; ${result.shifted_tasks.length} dependent task(s) shifted`
+      : 'Task rescheduled',
+  });
+}));
+
 /**
  * POST /api/projects/:projectId/risks
  * Create project risk
@@ -90,6 +125,39 @@ router.get('/:projectId/risks', authenticate, requireAgencyContext, asyncHandler
   });
 }));
 
+/**
+ * PUT /api/projects/:projectId/risks/:riskId
+ * Update project risk (status, owner, mitigation, probability/impact)
+ */
+router.put('/:projectId/risks/:riskId', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyDatabase = req.user.agencyDatabase;
+  const { projectId, riskId } = req.params;
+
+  const risk = await riskManagementService.updateRisk(agencyDatabase, projectId, riskId, req.body);
+
+  res.json({
+    success: true,
+    data: risk,
+    message: 'Risk updated',
+  });
+}));
+
+/**
+ * DELETE /api/projects/:projectId/risks/:riskId
+ * Delete project risk
+ */
+router.delete('/:projectId/risks/:riskId', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyDatabase = req.user.agencyDatabase;
+  const { projectId, riskId } = req.params;
+
+  await riskManagementService.deleteRisk(agencyDatabase, projectId, riskId);
+
+  res.json({
+    success: true,
+    message: 'Risk deleted',
+  });
+}));
+
 /**
  * POST /api/projects/:projectId/issues
  * Create project issue
@@ -123,6 +191,7 @@ router.get('/:projectId/issues', authenticate, requireAgencyContext, asyncHandle
   const filters = {
     status: req.query.status,
     priority: req.query.priority,
+    severity: req.query.severity,
   };
 
   const issues = await riskManagementService.getIssues(agencyDatabase, projectId, filters);
@@ -133,6 +202,40 @@ router.get('/:projectId/issues', authenticate, requireAgencyContext, asyncHandle
   });
 }));
 
+/**
+ * PUT /api/projects/:projectId/issues/:issueId
+ * Update project issue, including resolution
+ */
+router.put('/:projectId/issues/:issueId', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyDatabase = req.user.agencyDatabase;
+  const userId = req.user.id;
+  const { projectId, issueId } = req.params;
+
+  const issue = await riskManagementService.updateIssue(agencyDatabase, projectId, issueId, req.body, userId);
+
+  res.json({
+    success: true,
+    data: issue,
+    message: 'Issue updated',
+  });
+}));
+
+/**
+ * DELETE /api/projects/:projectId/issues/:issueId
+ * Delete project issue
+ */
+router.delete('/:projectId/issues/:issueId', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyDatabase = req.user.agencyDatabase;
+  const { projectId, issueId } = req.params;
+
+  await riskManagementService.deleteIssue(agencyDatabase, projectId, issueId);
+
+  res.json({
+    success: true,
+    message: 'Issue deleted',
+  });
+}));
+
 /**
  * POST /api/projects/:projectId/milestones
  * Create project milestone
@@ -156,4 +259,90 @@ router.post('/:projectId/milestones', authenticate, requireAgencyContext, asyncH
   });
 }));
 
+/**
+ * GET /api/projects/:projectId/milestones
+ * Get project milestones with invoice status
+ */
+router.get('/:projectId/milestones', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyDatabase = req.user.agencyDatabase;
+  const { projectId } = req.params;
+
+  const milestones = await riskManagementService.getMilestones(agencyDatabase, projectId);
+
+  res.json({
+    success: true,
+    data: milestones,
+  });
+}));
+
+/**
+ * PUT /api/projects/:projectId/milestones/:milestoneId
+ * Update project milestone; completing a billable milestone raises its draft invoice
+ */
+router.put('/:projectId/milestones/:milestoneId', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyDatabase = req.user.agencyDatabase;
+  const userId = req.user.id;
+  const { projectId, milestoneId } = req.params;
+
+  const milestone = await riskManagementService.updateMilestone(agencyDatabase, projectId, milestoneId, req.body, userId);
+
+  res.json({
+    success: true,
+    data: milestone,
+    message: milestone.invoice
+      ? `Milestone updated; draft invoice ${milestone.invoice.invoice_number} raised`
+      : 'Milestone updated',
+  });
+}));
+
+/**
+ * POST /api/projects/:projectId/milestones/:milestoneId/invoice
+ * Raise the draft invoice for a billable milestone
+ */
+router.post('/:projectId/milestones/:milestoneId/invoice', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyDatabase = req.user.agencyDatabase;
+  const userId = req.user.id;
+  const { projectId, milestoneId } = req.params;
+
+  const result = await riskManagementService.invoiceMilestone(agencyDatabase, projectId, milestoneId, userId);
+
+  res.json({
+    success: true,
+    data: result,
+    message: `Draft invoice ${result.invoice.invoice_number} raised`,
+  });
+}));
+
+/**
+ * DELETE /api/projects/:projectId/milestones/:milestoneId
+ * Delete project milestone
+ */
+router.delete('/:projectId/milestones/:milestoneId', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyDatabase = req.user.agencyDatabase;
+  const { projectId, milestoneId } = req.params;
+
+  await riskManagementService.deleteMilestone(agencyDatabase, projectId, milestoneId);
+
+  res.json({
+    success: true,
+    message: 'Milestone deleted',
+  });
+}));
+
+/**
+ * GET /api/projects/:projectId/health
+ * Project health summary across risks, issues, milestones, schedule and budget
+ */
+router.get('/:projectId/health', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyDatabase = req.user.agencyDatabase;
+  const { projectId } = req.params;
+
+  const health = await riskManagementService.getProjectHealth(agencyDatabase, projectId);
+
+  res.json({
+    success: true,
+    data: health,
+  });
+}));
+
 module.exports = router;
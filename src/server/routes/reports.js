@@ -10,6 +10,7 @@ const { authenticate, requireRole, requireAgencyContext } = require('../middlewa
 const { parseDatabaseUrl } = require('../utils/poolManager');
 const { Pool } = require('pg');
 const reportingDashboardService = require('../services/reportingDashboardService');
+const reportBuilderService = require('../services/reportBuilderService');
 const { cacheMiddleware } = require('../services/cacheService');
 
 // Helper to get agency database connection
@@ -233,7 +234,7 @@ router.get('/dashboard', authenticate, requireAgencyContext, asyncHandler(async
 router.post('/custom', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
   const agencyDatabase = req.user.agencyDatabase;
   const agencyId = req.user.agencyId;
-  const { module, filters, columns, groupBy, orderBy } = req.body;
+  const { module, filters, columns, groupBy, orderBy, format, title, columnLabels, sheetBy } = req.body;
 
   const pool = await getAgencyDb(agencyDatabase);
   const client = await pool.connect();
@@ -326,6 +327,30 @@ router.post('/custom', authenticate, requireAgencyContext, asyncHandler(async (r
 
     const result = await client.query(query, params);
 
+    // Render as a downloadable file when a format is requested
+    if (format && ['pdf', 'excel', 'csv'].includes(format)) {
+      const reportTitle = title || `${module.charAt(0).toUpperCase()}${module.slice(1)} Report`;
+      const file = await reportBuilderService.generateReportFile(agencyDatabase, result.rows, format, {
+        title: reportTitle,
+        columns: Array.isArray(columnLabels) && columnLabels.length > 0 ? columnLabels : undefined,
+        sheetBy,
+      });
+
+      await scheduledReportService.recordReportExport(agencyDatabase, {
+        agency_id: agencyId,
+        name: reportTitle,
+        report_type: module,
+        format,
+        parameters: { module, filters, columns, groupBy, orderBy },
+        file,
+        generated_by: req.user.id,
+      });
+
+      res.setHeader('Content-Type', file.mimeType);
+      res.setHeader('Content-Disposition', `attachment; filename="${file.fileName}"`);
+      return res.send(file.data);
+    }
+
     res.json({
       success: true,
       data: result.rows,
@@ -469,6 +494,25 @@ router.get('/exports', authenticate, requireAgencyContext, cacheMiddleware(300),
   });
 }));
 
+/**
+ * GET /api/reports/exports/:exportId/download
+ * Download the stored file of a report export
+ */
+router.get('/exports/:exportId/download', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const { exportId } = req.params;
+
+  const file = await scheduledReportService.getReportExportFile(agencyDatabase, agencyId, exportId);
+  if (!file) {
+    return res.status(404).json({ success: false, error: 'Report export not found' });
+  }
+
+  res.setHeader('Content-Type', file.mimeType);
+  res.setHeader('Content-Disposition', `attachment; filename="${file.fileName}"`);
+  res.send(file.data);
+}));
+
 /**
  * DELETE /api/reports/exports/:exportId
  * Delete report export
@@ -0,0 +1,196 @@
+/**
+ * Timesheet Routes
+ * Handles the weekly timesheet grid, submission and recall, team approvals
+ * and draft invoices from approved billable hours
+ */
+
+const express = require('express');
+const router = express.Router();
+const { authenticate, requireAgencyContext, requireRole } = require('../middleware/authMiddleware');
+const { asyncHandler } = require('../middleware/errorHandler');
+const timesheetService = require('../services/timesheetService');
+
+/**
+ * GET /api/timesheets/week
+ * Get the current user's timesheet grid for the week containing week_of (defaults to this week)
+ */
+router.get('/week', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const userId = req.user.id;
+
+  const week = await timesheetService.getTimesheetWeek(agencyDatabase, agencyId, userId, req.query.week_of);
+
+  res.json({
+    success: true,
+    data: week,
+  });
+}));
+
+/**
+ * PUT /api/timesheets/week
+ * Save the current user's timesheet grid for a week
+ */
+router.put('/week', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const userId = req.user.id;
+
+  const week = await timesheetService.saveTimesheetWeek(
+    agencyDatabase,
+    agencyId,
+    userId,
+    req.body.week_of,
+    req.body.rows
+  );
+
+  res.json({
+    success: true,
+    data: week,
+    message: 'Timesheet saved',
+  });
+}));
+
+/**
+ * POST /api/timesheets/week/submit
+ * Submit the current user's week for manager approval, locking its time entries
+ */
+router.post('/week/submit', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const userId = req.user.id;
+
+  const week = await timesheetService.submitTimesheet(
+    agencyDatabase,
+    agencyId,
+    userId,
+    req.body.week_of,
+    req.body.notes
+  );
+
+  res.json({
+    success: true,
+    data: week,
+    message: 'Timesheet submitted for approval',
+  });
+}));
+
+/**
+ * GET /api/timesheets/approvals
+ * Get timesheets waiting on the current user's approval
+ */
+router.get('/approvals', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const userId = req.user.id;
+
+  const timesheets = await timesheetService.getTimesheets(agencyDatabase, agencyId, userId, { awaiting_me: true });
+
+  res.json({
+    success: true,
+    data: timesheets,
+  });
+}));
+
+/**
+ * GET /api/timesheets/billing/summary
+ * Preview approved billable hours for a project and period
+ */
+router.get(
+  '/billing/summary',
+  authenticate,
+  requireRole(['finance_manager', 'project_manager']),
+  requireAgencyContext,
+  asyncHandler(async (req, res) => {
+    const agencyId = req.user.agencyId;
+    const agencyDatabase = req.user.agencyDatabase;
+
+    const summary = await timesheetService.getBillableSummary(agencyDatabase, agencyId, req.query);
+
+    res.json({
+      success: true,
+      data: summary,
+    });
+  })
+);
+
+/**
+ * POST /api/timesheets/billing/invoice-drafts
+ * Raise a draft client invoice from a project's approved billable hours in a period
+ */
+router.post(
+  '/billing/invoice-drafts',
+  authenticate,
+  requireRole(['finance_manager', 'project_manager']),
+  requireAgencyContext,
+  asyncHandler(async (req, res) => {
+    const agencyId = req.user.agencyId;
+    const agencyDatabase = req.user.agencyDatabase;
+    const userId = req.user.id;
+
+    const result = await timesheetService.createInvoiceDraft(agencyDatabase, agencyId, req.body, userId);
+
+    res.json({
+      success: true,
+      data: result,
+      message: `Draft invoice ${result.invoice.invoice_number} created`,
+    });
+  })
+);
+
+/**
+ * GET /api/timesheets
+ * Get the current user's timesheets
+ */
+router.get('/', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const userId = req.user.id;
+
+  const timesheets = await timesheetService.getTimesheets(agencyDatabase, agencyId, userId, {
+    employee_id: userId,
+    status: req.query.status,
+  });
+
+  res.json({
+    success: true,
+    data: timesheets,
+  });
+}));
+
+/**
+ * GET /api/timesheets/:id
+ * Get a timesheet's grid (for its employee and approvers)
+ */
+router.get('/:id', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const userId = req.user.id;
+
+  const week = await timesheetService.getTimesheetDetail(agencyDatabase, agencyId, req.params.id, userId);
+
+  res.json({
+    success: true,
+    data: week,
+  });
+}));
+
+/**
+ * POST /api/timesheets/:id/recall
+ * Recall a submitted timesheet before it is decided
+ */
+router.post('/:id/recall', authenticate, requireAgencyContext, asyncHandler(async (req, res) => {
+  const agencyId = req.user.agencyId;
+  const agencyDatabase = req.user.agencyDatabase;
+  const userId = req.user.id;
+
+  const week = await timesheetService.recallTimesheet(agencyDatabase, agencyId, req.params.id, userId);
+
+  res.json({
+    success: true,
+    data: week,
+    message: 'Timesheet recalled',
+  });
+}));
+
+module.exports = router;
@@ -0,0 +1,406 @@
+/**
+ * Asset Custody Service
+ * Check-out/check-in ledger recording who held each asset, where and when, with
+ * overdue return reminders and the list of assets an employee still has to return
+ */
+
+const { parseDatabaseUrl } = require('../utils/poolManager');
+const { Pool } = require('pg');
+const { createNotification } = require('../utils/notificationHelper');
+const cron = require('node-cron');
+const { pool: mainPool } = require('../config/database');
+
+// Overdue returns are checked daily at 08:00
+const CUSTODY_REMINDER_SCHEDULE = process.env.CUSTODY_REMINDER_SCHEDULE || '0 8 * * *';
+// An overdue custodian is reminded again after this many days
+const REMINDER_INTERVAL_DAYS = 3;
+
+const CUSTODIAN_TYPES = ['employee', 'project', 'location'];
+const CONDITIONS = ['excellent', 'good', 'fair', 'poor'];
+// Assets in these statuses cannot be checked out
+const UNAVAILABLE_STATUSES = ['disposed', 'written_off'];
+
+/**
+ * Get agency database connection
+ */
+async function getAgencyConnection(agencyDatabase) {
+  const { host, port, user, password } = parseDatabaseUrl();
+  const agencyDbUrl = `postgresql://${user}:${password}@${host}:${port}/${agencyDatabase}`;
+  const agencyPool = new Pool({ connectionString: agencyDbUrl, max: 1 });
+  const client = await agencyPool.connect();
+  // Attach pool to client for cleanup
+  client.pool = agencyPool;
+  return client;
+}
+
+async function generateCustodyNumber(client, agencyId) {
+  const year = new Date().getFullYear();
+  const result = await client.query(
+    `SELECT COUNT(*) as count
+     FROM public.asset_custody
+     WHERE agency_id = $1 AND custody_number LIKE $2`,
+    [agencyId, `CUS-${year}-%`]
+  );
+  const count = parseInt(result.rows[0].count, 10) + 1;
+  return `CUS-${year}-${String(count).padStart(5, '0')}`;
+}
+
+const CUSTODY_SELECT = `
+  SELECT c.*,
+    a.asset_number,
+    a.name as asset_name,
+    COALESCE(NULLIF(cp.full_name, ''), cu.email) as custodian_name,
+    cu.email as custodian_email,
+    pr.name as project_name,
+    l.name as location_name,
+    COALESCE(NULLIF(op.full_name, ''), ou.email) as checked_out_by_name,
+    COALESCE(NULLIF(ip.full_name, ''), iu.email) as checked_in_by_name,
+    (c.status = 'checked_out' AND c.expected_return_date < CURRENT_DATE) as is_overdue
+  FROM public.asset_custody c
+  JOIN public.assets a ON c.asset_id = a.id
+  LEFT JOIN public.users cu ON c.custodian_user_id = cu.id
+  LEFT JOIN public.profiles cp ON c.custodian_user_id = cp.user_id
+  LEFT JOIN public.projects pr ON c.project_id = pr.id
+  LEFT JOIN public.asset_locations l ON c.location_id = l.id
+  LEFT JOIN public.users ou ON c.checked_out_by = ou.id
+  LEFT JOIN public.profiles op ON c.checked_out_by = op.user_id
+  LEFT JOIN public.users iu ON c.checked_in_by = iu.id
+  LEFT JOIN public.profiles ip ON c.checked_in_by = ip.user_id
+`;
+
+async function loadCustody(client, agencyId, custodyId) {
+  const result = await client.query(
+    `${CUSTODY_SELECT} WHERE c.id = $1 AND c.agency_id = $2`,
+    [custodyId, agencyId]
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * Get custody records (?asset_id=&status=&custodian_user_id=&overdue=)
+ */
+async function getCustodyRecords(agencyDatabase, agencyId, filters = {}) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    let query = `${CUSTODY_SELECT} WHERE c.agency_id = $1`;
+    const params = [agencyId];
+    let paramIndex = 2;
+
+    if (filters.asset_id) {
+      query += ` AND c.asset_id = $${paramIndex}`;
+      params.push(filters.asset_id);
+      paramIndex++;
+    }
+
+    if (filters.status) {
+      query += ` AND c.status = $${paramIndex}`;
+      params.push(filters.status);
+      paramIndex++;
+    }
+
+    if (filters.custodian_user_id) {
+      query += ` AND c.custodian_user_id = $${paramIndex}`;
+      params.push(filters.custodian_user_id);
+      paramIndex++;
+    }
+
+    if (filters.overdue === true || filters.overdue === 'true') {
+      query += ` AND c.status = 'checked_out' AND c.expected_return_date < CURRENT_DATE`;
+    }
+
+    query += ' ORDER BY c.checked_out_at DESC';
+
+    const result = await client.query(query, params);
+    return result.rows;
+  } catch (error) {
+    if (error.code === '42P01') {
+      return [];
+    }
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Full custody timeline of an asset, newest first
+ */
+async function getAssetCustodyTimeline(agencyDatabase, agencyId, assetId) {
+  return getCustodyRecords(agencyDatabase, agencyId, { asset_id: assetId });
+}
+
+/**
+ * Assets an employee has checked out and not returned, for offboarding
+ */
+async function getUnreturnedAssets(agencyDatabase, agencyId, userId) {
+  return getCustodyRecords(agencyDatabase, agencyId, { custodian_user_id: userId, status: 'checked_out' });
+}
+
+/**
+ * Check an asset out to an employee, a project or a location
+ */
+async function checkOutAsset(agencyDatabase, agencyId, assetId, checkoutData, userId) {
+  const custodianType = checkoutData.custodian_type;
+  if (!CUSTODIAN_TYPES.includes(custodianType)) {
+    throw new Error(`Custodian type must be one of: ${CUSTODIAN_TYPES.join(', ')}`);
+  }
+  if (custodianType === 'employee' && !checkoutData.custodian_user_id) {
+    throw new Error('Choose the employee taking the asset');
+  }
+  if (custodianType === 'project' && !checkoutData.project_id) {
+    throw new Error('Choose the project the asset is checked out to');
+  }
+  if (custodianType === 'location' && !checkoutData.location_id) {
+    throw new Error('Choose the location the asset is checked out to');
+  }
+  if (checkoutData.checkout_condition && !CONDITIONS.includes(checkoutData.checkout_condition)) {
+    throw new Error(`Condition must be one of: ${CONDITIONS.join(', ')}`);
+  }
+
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    await client.query('BEGIN');
+
+    const assetResult = await client.query(
+      'SELECT * FROM public.assets WHERE id = $1 AND agency_id = $2 FOR UPDATE',
+      [assetId, agencyId]
+    );
+    const asset = assetResult.rows[0];
+    if (!asset) {
+      throw new Error('Asset not found');
+    }
+    if (UNAVAILABLE_STATUSES.includes(asset.status)) {
+      throw new Error(`Asset is ${asset.status.replace('_', ' ')} and cannot be checked out`);
+    }
+
+    const open = await client.query(
+      `SELECT custody_number FROM public.asset_custody
+       WHERE asset_id = $1 AND status = 'checked_out'`,
+      [assetId]
+    );
+    if (open.rows.length > 0) {
+      throw new Error(`Asset is already checked out under ${open.rows[0].custody_number}; check it in first`);
+    }
+
+    const today = new Date().toISOString().split('T')[0];
+    if (checkoutData.expected_return_date && checkoutData.expected_return_date < today) {
+      throw new Error('Expected return date cannot be in the past');
+    }
+
+    const custodyNumber = await generateCustodyNumber(client, agencyId);
+    const result = await client.query(
+      `INSERT INTO public.asset_custody (
+        agency_id, asset_id, custody_number, custodian_type, custodian_user_id, project_id,
+        location_id, checked_out_by, expected_return_date, checkout_condition, checkout_notes
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+      RETURNING id`,
+      [
+        agencyId,
+        assetId,
+        custodyNumber,
+        custodianType,
+        custodianType === 'employee' ? checkoutData.custodian_user_id : null,
+        custodianType === 'project' ? checkoutData.project_id : null,
+        custodianType === 'location' ? checkoutData.location_id : null,
+        userId,
+        checkoutData.expected_return_date || null,
+        checkoutData.checkout_condition || asset.condition_status || null,
+        checkoutData.checkout_notes || null,
+      ]
+    );
+
+    // The asset record mirrors the current holder
+    await client.query(
+      `UPDATE public.assets SET
+        assigned_to = $2,
+        location_id = COALESCE($3, location_id),
+        updated_at = NOW()
+      WHERE id = $1`,
+      [
+        assetId,
+        custodianType === 'employee' ? checkoutData.custodian_user_id : null,
+        custodianType === 'location' ? checkoutData.location_id : null,
+      ]
+    );
+
+    await client.query('COMMIT');
+    return await loadCustody(client, agencyId, result.rows[0].id);
+  } catch (error) {
+    await client.query('ROLLBACK');
+    if (error.code === '23505') {
+      throw new Error('Asset is already checked out; check it in first');
+    }
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Check an asset back in, recording its condition, notes and photos
+ */
+async function checkInAsset(agencyDatabase, agencyId, custodyId, checkinData, userId) {
+  if (checkinData.return_condition && !CONDITIONS.includes(checkinData.return_condition)) {
+    throw new Error(`Condition must be one of: ${CONDITIONS.join(', ')}`);
+  }
+
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    await client.query('BEGIN');
+
+    const locked = await client.query(
+      'SELECT * FROM public.asset_custody WHERE id = $1 AND agency_id = $2 FOR UPDATE',
+      [custodyId, agencyId]
+    );
+    const custody = locked.rows[0];
+    if (!custody) {
+      throw new Error('Custody record not found');
+    }
+    if (custody.status !== 'checked_out') {
+      throw new Error('Asset has already been checked in');
+    }
+
+    await client.query(
+      `UPDATE public.asset_custody SET
+        status = 'returned', checked_in_at = NOW(), checked_in_by = $2,
+        return_condition = $3, return_notes = $4, attachments = $5
+      WHERE id = $1`,
+      [
+        custodyId,
+        userId,
+        checkinData.return_condition || null,
+        checkinData.return_notes || null,
+        JSON.stringify(checkinData.attachments || []),
+      ]
+    );
+
+    await client.query(
+      `UPDATE public.assets SET
+        assigned_to = CASE WHEN assigned_to IS NOT DISTINCT FROM $2 THEN NULL ELSE assigned_to END,
+        condition_status = COALESCE($3, condition_status),
+        updated_at = NOW()
+      WHERE id = $1`,
+      [custody.asset_id, custody.custodian_user_id, checkinData.return_condition || null]
+    );
+
+    await client.query('COMMIT');
+    return await loadCustody(client, agencyId, custodyId);
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Remind custodians of assets past their expected return date. Employee custodians
+ * are reminded directly; the person who checked the asset out is always told.
+ */
+async function sendOverdueReturnReminders(agencyDatabase, agencyId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const settings = await client.query(
+      `SELECT settings->>'notify_overdue_returns' AS notify FROM public.module_settings
+       WHERE agency_id = $1 AND module = 'assets'`,
+      [agencyId]
+    );
+    if (settings.rows[0]?.notify === 'false') {
+      return { reminded: 0 };
+    }
+
+    const overdue = await client.query(
+      `${CUSTODY_SELECT}
+       WHERE c.agency_id = $1 AND c.status = 'checked_out'
+         AND c.expected_return_date < CURRENT_DATE
+         AND (c.last_reminded_at IS NULL OR c.last_reminded_at < NOW() - ($2 || ' days')::interval)`,
+      [agencyId, String(REMINDER_INTERVAL_DAYS)]
+    );
+
+    let reminded = 0;
+    for (const custody of overdue.rows) {
+      const dueDate = new Date(custody.expected_return_date).toLocaleDateString('en-IN');
+      const holder = custody.custodian_name || custody.project_name || custody.location_name || 'custodian';
+      const recipients = new Set([custody.custodian_user_id, custody.checked_out_by].filter(Boolean));
+      for (const recipient of recipients) {
+        const isHolder = recipient === custody.custodian_user_id;
+        await createNotification(client, {
+          agency_id: agencyId,
+          user_id: recipient,
+          category: 'assets',
+          title: 'Asset return overdue',
+          message: isHolder
+            ? `Please return ${custody.asset_number} ${custody.asset_name}; it was due back on ${dueDate}`
+            : `${custody.asset_number} ${custody.asset_name} checked out to ${holder} was due back on ${dueDate}`,
+          metadata: { custody_id: custody.id, asset_id: custody.asset_id },
+          priority: custody.reminder_count >= 2 ? 'high' : 'normal',
+          action_url: '/assets/custody',
+        });
+      }
+      await client.query(
+        `UPDATE public.asset_custody
+         SET reminder_count = reminder_count + 1, last_reminded_at = NOW()
+         WHERE id = $1`,
+        [custody.id]
+      );
+      reminded++;
+    }
+
+    return { reminded };
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Initialize the overdue return reminders across all active agencies
+ */
+function initializeCustodyScheduler() {
+  cron.schedule(CUSTODY_REMINDER_SCHEDULE, async () => {
+    try {
+      const agencies = await mainPool.query(
+        `SELECT id, database_name FROM public.agencies
+         WHERE is_active = true AND database_name IS NOT NULL`
+      );
+
+      for (const agency of agencies.rows) {
+        try {
+          const result = await sendOverdueReturnReminders(agency.database_name, agency.id);
+          if (result.reminded > 0) {
+            console.log(`[Asset Custody] Agency ${agency.id}: ${result.reminded} overdue return reminder(s) sent`);
+          }
+        } catch (error) {
+          // Agencies without the asset module have no custody table
+          if (error.code === '42P01') continue;
+          console.error(`[Asset Custody] Reminder run failed for agency ${agency.id}:`, error.message);
+        }
+      }
+    } catch (error) {
+      console.error('[Asset Custody] Error running overdue return reminders:', error);
+    }
+  });
+
+  console.log('[Asset Custody] ✅ Scheduler initialized');
+}
+
+module.exports = {
+  getCustodyRecords,
+  getAssetCustodyTimeline,
+  getUnreturnedAssets,
+  checkOutAsset,
+  checkInAsset,
+  sendOverdueReturnReminders,
+  initializeCustodyScheduler,
+};
@@ -0,0 +1,701 @@
+/**
+ * Asset Depreciation Service
+ * Generates depreciation schedules from cost, salvage value and useful life, and
+ * runs the monthly batch that records each asset's charge and posts it to the ledger
+ */
+
+const { parseDatabaseUrl } = require('../utils/poolManager');
+const { Pool } = require('pg');
+const { round2 } = require('../utils/numberHelper');
+const { findOrCreateAccount } = require('../utils/accountingHelper');
+const crypto = require('crypto');
+const cron = require('node-cron');
+const { pool: mainPool } = require('../config/database');
+const { generateEntryNumber, insertJournalEntry } = require('./fxAccountingService');
+
+// Previous month is depreciated at 02:30 on the first of each month
+const DEPRECIATION_SCHEDULE = process.env.DEPRECIATION_SCHEDULE || '30 2 1 * *';
+
+const METHODS = ['straight_line', 'declining_balance', 'units_of_production'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Accounts created on first use when the settings name no account and the chart has no match
+const DEPRECIATION_ACCOUNTS = {
+  expense: { account_code: '6400', account_name: 'Depreciation Expense', account_type: 'expense', pattern: '%depreciation expense%' },
+  accumulated: { account_code: '1590', account_name: 'Accumulated Depreciation', account_type: 'asset', pattern: '%accumulated depreciation%' },
+};
+
+/**
+ * Get agency database connection
+ */
+async function getAgencyConnection(agencyDatabase) {
+  const { host, port, user, password } = parseDatabaseUrl();
+  const agencyDbUrl = `postgresql://${user}:${password}@${host}:${port}/${agencyDatabase}`;
+  const agencyPool = new Pool({ connectionString: agencyDbUrl, max: 1 });
+  const client = await agencyPool.connect();
+  // Attach pool to client for cleanup
+  client.pool = agencyPool;
+  return client;
+}
+
+const pad = (value) => String(value).padStart(2, '0');
+
+// Dates are handled as YYYY-MM-DD strings and compared as UTC day numbers
+function toDateString(value) {
+  if (!value) return null;
+  if (value instanceof Date) {
+    return `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
+  }
+  return String(value).slice(0, 10);
+}
+
+function toDay(dateString) {
+  const [year, month, day] = dateString.split('-').map(Number);
+  return Date.UTC(year, month - 1, day) / DAY_MS;
+}
+
+function fromDay(dayNumber) {
+  const date = new Date(dayNumber * DAY_MS);
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+}
+
+function monthBounds(year, monthIndex) {
+  const start = Date.UTC(year, monthIndex, 1) / DAY_MS;
+  const end = Date.UTC(year, monthIndex + 1, 1) / DAY_MS - 1;
+  return { period_start: fromDay(start), period_end: fromDay(end) };
+}
+
+function addMonths(dateString, months) {
+  const [year, month, day] = dateString.split('-').map(Number);
+  const target = new Date(Date.UTC(year, month - 1 + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  return `${target.getUTCFullYear()}-${pad(target.getUTCMonth() + 1)}-${pad(Math.min(day, lastDay))}`;
+}
+
+/**
+ * Resolve a YYYY-MM period into its first and last day
+ */
+function parsePeriod(period) {
+  const match = /^(\d{4})-(\d{2})$/.exec(period || '');
+  if (!match || Number(match[2]) < 1 || Number(match[2]) > 12) {
+    throw new Error('Period must be in YYYY-MM format');
+  }
+  return monthBounds(Number(match[1]), Number(match[2]) - 1);
+}
+
+/**
+ * Read the depreciation keys from the agency's asset settings
+ */
+async function getDepreciationSettings(client, agencyId) {
+  const result = await client.query(
+    `SELECT settings FROM public.module_settings
+     WHERE agency_id = $1 AND module = 'assets'`,
+    [agencyId]
+  );
+  const settings = result.rows[0]?.settings || {};
+  const rounding = parseInt(settings.depreciation_rounding, 10);
+  const usefulLife = parseFloat(settings.default_useful_life_years);
+  return {
+    default_method: METHODS.includes(settings.default_depreciation_method) ? settings.default_depreciation_method : 'straight_line',
+    default_useful_life_years: Number.isFinite(usefulLife) && usefulLife > 0 ? usefulLife : 5,
+    // Amounts are stored with two decimals, so finer rounding has no effect
+    rounding: Number.isFinite(rounding) ? Math.min(Math.max(rounding, 0), 2) : 2,
+    auto_post: settings.auto_post_depreciation === true,
+    expense_account_code: settings.depreciation_expense_account_code || '',
+    accumulated_account_code: settings.accumulated_depreciation_account_code || '',
+  };
+}
+
+/**
+ * Asset rows with category defaults, approved disposal date and depreciation to date
+ */
+async function loadDepreciableAssets(client, agencyId, assetId = null) {
+  const result = await client.query(
+    `SELECT a.*,
+            ac.depreciation_method AS category_depreciation_method,
+            ac.default_useful_life_years AS category_useful_life_years,
+            ac.default_depreciation_rate AS category_depreciation_rate,
+            disposal.disposal_date,
+            COALESCE(dep.accumulated, 0) AS accumulated_to_date,
+            COALESCE(dep.units_depreciated, 0) AS units_depreciated,
+            dep.last_period_end
+     FROM public.assets a
+     LEFT JOIN public.asset_categories ac ON a.category_id = ac.id
+     LEFT JOIN LATERAL (
+       SELECT MIN(d.disposal_date) AS disposal_date
+       FROM public.asset_disposals d
+       WHERE d.asset_id = a.id AND d.approval_status = 'approved'
+     ) disposal ON true
+     LEFT JOIN LATERAL (
+       SELECT SUM(ad.depreciation_amount) AS accumulated,
+              SUM(COALESCE(ad.units_consumed, 0)) AS units_depreciated,
+              MAX(ad.period_end) AS last_period_end
+       FROM public.asset_depreciation ad
+       WHERE ad.asset_id = a.id
+     ) dep ON true
+     WHERE a.agency_id = $1 AND ($2::uuid IS NULL OR a.id = $2::uuid)
+     ORDER BY a.asset_number`,
+    [agencyId, assetId]
+  );
+  return result.rows;
+}
+
+/**
+ * Resolve the depreciation basis for an asset, falling back to its category and the
+ * agency defaults. Returns a reason instead when the asset cannot be depreciated.
+ */
+function buildBasis(row, settings) {
+  const cost = round2(row.purchase_cost);
+  const salvage = Math.min(round2(row.residual_value), cost);
+  const method = row.depreciation_method || row.category_depreciation_method || settings.default_method;
+  const usefulLifeYears = parseFloat(row.useful_life_years || row.category_useful_life_years) || settings.default_useful_life_years;
+  const startDate = toDateString(row.depreciation_start_date || row.purchase_date);
+  const ratePercent = parseFloat(row.depreciation_rate || row.category_depreciation_rate) || 0;
+
+  if (cost <= 0) return { reason: 'No purchase cost' };
+  if (!startDate) return { reason: 'No purchase or depreciation start date' };
+  if (method === 'units_of_production' && !(parseFloat(row.total_units) > 0)) {
+    return { reason: 'Total units not set for units-of-production' };
+  }
+
+  const lifeMonths = Math.max(1, Math.round(usefulLifeYears * 12));
+  return {
+    cost,
+    salvage,
+    method,
+    useful_life_years: usefulLifeYears,
+    life_months: lifeMonths,
+    // Declining balance defaults to double the straight-line rate
+    annual_rate: ratePercent > 0 ? ratePercent / 100 : 2 / usefulLifeYears,
+    total_units: parseFloat(row.total_units) || 0,
+    start_date: startDate,
+    // First day after the useful life has run out
+    life_end_date: addMonths(startDate, lifeMonths),
+    disposal_date: toDateString(row.disposal_date),
+  };
+}
+
+/**
+ * Depreciation for one period. The first and last periods, and the period in which
+ * the asset is disposed, are charged for the days the asset was held.
+ */
+function calculatePeriodCharge(basis, periodStart, periodEnd, accumulated, periodUnits, rounding) {
+  const remaining = round2(basis.cost - basis.salvage - accumulated);
+  const none = { amount: 0, units: 0, days: 0 };
+  if (remaining <= 0) return none;
+
+  const from = Math.max(toDay(periodStart), toDay(basis.start_date));
+  let to = Math.min(toDay(periodEnd), toDay(basis.life_end_date) - 1);
+  if (basis.disposal_date) to = Math.min(to, toDay(basis.disposal_date));
+  if (to < from) return none;
+
+  const days = to - from + 1;
+  const fraction = days / (toDay(periodEnd) - toDay(periodStart) + 1);
+  const endsLife = toDay(basis.life_end_date) - 1 <= toDay(periodEnd);
+  const factor = Math.pow(10, rounding);
+
+  let amount;
+  let units = 0;
+  if (basis.method === 'units_of_production') {
+    units = Math.max(0, periodUnits);
+    amount = ((basis.cost - basis.salvage) * units) / basis.total_units;
+  } else if (basis.method === 'declining_balance') {
+    amount = ((basis.cost - accumulated) * basis.annual_rate * fraction) / 12;
+    // Whatever is left above salvage is charged in the final period of the life
+    if (endsLife) amount = remaining;
+  } else {
+    amount = ((basis.cost - basis.salvage) / basis.life_months) * fraction;
+    if (endsLife) amount = remaining;
+  }
+
+  return {
+    amount: Math.min(Math.round(amount * factor) / factor, remaining),
+    units: round2(units),
+    days,
+  };
+}
+
+/**
+ * Full depreciation schedule for an asset: recorded periods as booked, then the
+ * remaining periods projected month by month until the end of its useful life
+ */
+async function getDepreciationSchedule(agencyDatabase, agencyId, assetId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const settings = await getDepreciationSettings(client, agencyId);
+    const rows = await loadDepreciableAssets(client, agencyId, assetId);
+    if (rows.length === 0) {
+      throw new Error('Asset not found');
+    }
+    const row = rows[0];
+    const basis = buildBasis(row, settings);
+
+    const recorded = await client.query(
+      `SELECT id, period_start, period_end, depreciation_amount, is_posted, run_id, units_consumed
+       FROM public.asset_depreciation
+       WHERE agency_id = $1 AND asset_id = $2
+       ORDER BY period_start, created_at`,
+      [agencyId, assetId]
+    );
+
+    const cost = round2(row.purchase_cost);
+    const periods = [];
+    let accumulated = 0;
+    let unitsDepreciated = 0;
+    for (const record of recorded.rows) {
+      accumulated = round2(accumulated + parseFloat(record.depreciation_amount));
+      unitsDepreciated += parseFloat(record.units_consumed) || 0;
+      periods.push({
+        period_start: toDateString(record.period_start),
+        period_end: toDateString(record.period_end),
+        depreciation_amount: round2(record.depreciation_amount),
+        accumulated_depreciation: accumulated,
+        book_value: round2(cost - accumulated),
+        status: record.is_posted ? 'posted' : 'recorded',
+        depreciation_id: record.id,
+        run_id: record.run_id,
+      });
+    }
+
+    if (!basis.reason) {
+      // Project from the month after the last recorded period, or from the start date
+      const lastEnd = toDateString(row.last_period_end);
+      const firstDay = lastEnd ? fromDay(toDay(lastEnd) + 1) : basis.start_date;
+      let [year, month] = firstDay.split('-').map(Number);
+      let monthIndex = month - 1;
+      const lastDay = basis.disposal_date
+        ? Math.min(toDay(basis.life_end_date) - 1, toDay(basis.disposal_date))
+        : toDay(basis.life_end_date) - 1;
+
+      while (Date.UTC(year, monthIndex, 1) / DAY_MS <= lastDay && accumulated < basis.cost - basis.salvage) {
+        const { period_start, period_end } = monthBounds(year, monthIndex);
+        const monthsLeft =
+          (Number(basis.life_end_date.slice(0, 4)) - year) * 12 + Number(basis.life_end_date.slice(5, 7)) - 1 - monthIndex + 1;
+        // Remaining units are assumed to be used evenly over the rest of the life
+        const periodUnits = Math.max(0, basis.total_units - unitsDepreciated) / Math.max(monthsLeft, 1);
+        const charge = calculatePeriodCharge(basis, period_start, period_end, accumulated, periodUnits, settings.rounding);
+        if (charge.amount > 0) {
+          accumulated = round2(accumulated + charge.amount);
+          unitsDepreciated += charge.units;
+          periods.push({
+            period_start,
+            period_end,
+            depreciation_amount: charge.amount,
+            accumulated_depreciation: accumulated,
+            book_value: round2(basis.cost - accumulated),
+            status: 'projected',
+            depreciation_id: null,
+            run_id: null,
+          });
+        }
+        monthIndex += 1;
+        if (monthIndex > 11) {
+          monthIndex = 0;
+          year += 1;
+        }
+      }
+    }
+
+    return {
+      asset: {
+        id: row.id,
+        asset_number: row.asset_number,
+        name: row.name,
+        status: row.status,
+        purchase_cost: cost,
+        residual_value: round2(row.residual_value),
+        current_value: round2(row.current_value),
+        method: basis.method || row.depreciation_method || settings.default_method,
+        useful_life_years: basis.useful_life_years || null,
+        start_date: basis.start_date || null,
+        life_end_date: basis.life_end_date || null,
+        disposal_date: basis.disposal_date || null,
+        total_units: parseFloat(row.total_units) || null,
+        units_used: parseFloat(row.units_used) || 0,
+        accumulated_depreciation: round2(row.accumulated_to_date),
+        book_value: round2(cost - parseFloat(row.accumulated_to_date)),
+      },
+      unschedulable_reason: basis.reason || null,
+      periods,
+    };
+  } catch (error) {
+    console.error('[Asset Depreciation] Error building schedule:', error);
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) await client.pool.end();
+  }
+}
+
+/**
+ * Charges due for every asset up to and including a period. Months since the asset's
+ * last recorded period (or its start date) that were never charged are caught up in
+ * order before the period itself, each as its own line. Assets that already have a record
+ * overlapping the period (from an earlier run or a manual entry), or a later one, are skipped.
+ */
+async function calculateBatch(client, agencyId, periodStart, periodEnd, settings) {
+  const rows = await loadDepreciableAssets(client, agencyId);
+  const existing = await client.query(
+    `SELECT DISTINCT asset_id FROM public.asset_depreciation
+     WHERE agency_id = $1 AND period_start <= $3 AND period_end >= $2`,
+    [agencyId, periodStart, periodEnd]
+  );
+  const alreadyRecorded = new Set(existing.rows.map((record) => record.asset_id));
+
+  const lines = [];
+  const skipped = [];
+  for (const row of rows) {
+    const disposalDate = toDateString(row.disposal_date);
+    const held = ['active', 'maintenance'].includes(row.status) || (disposalDate && disposalDate >= periodStart);
+    if (!held) continue;
+
+    const summary = { asset_id: row.id, asset_number: row.asset_number, name: row.name };
+    if (alreadyRecorded.has(row.id)) {
+      skipped.push({ ...summary, reason: 'Already recorded for this period' });
+      continue;
+    }
+    const lastEnd = toDateString(row.last_period_end);
+    if (lastEnd && lastEnd > periodEnd) {
+      skipped.push({ ...summary, reason: `Depreciation is already recorded up to ${lastEnd}` });
+      continue;
+    }
+    const basis = buildBasis(row, settings);
+    if (basis.reason) {
+      skipped.push({ ...summary, reason: basis.reason });
+      continue;
+    }
+
+    let accumulated = round2(row.accumulated_to_date);
+    // Units used since the last charge all fall in the period being run
+    const pendingUnits = Math.max(0, (parseFloat(row.units_used) || 0) - parseFloat(row.units_depreciated));
+    const firstDay = lastEnd ? fromDay(toDay(lastEnd) + 1) : basis.start_date;
+    let [year, month] = firstDay.split('-').map(Number);
+    let monthIndex = month - 1;
+
+    while (Date.UTC(year, monthIndex, 1) / DAY_MS <= toDay(periodStart)) {
+      const bounds = monthBounds(year, monthIndex);
+      const periodUnits = bounds.period_start === periodStart ? pendingUnits : 0;
+      const charge = calculatePeriodCharge(basis, bounds.period_start, bounds.period_end, accumulated, periodUnits, settings.rounding);
+      if (charge.amount > 0) {
+        accumulated = round2(accumulated + charge.amount);
+        lines.push({
+          ...summary,
+          period_start: bounds.period_start,
+          period_end: bounds.period_end,
+          method: basis.method,
+          depreciation_amount: charge.amount,
+          units_consumed: basis.method === 'units_of_production' ? charge.units : null,
+          days: charge.days,
+          pro_rated: charge.days < toDay(bounds.period_end) - toDay(bounds.period_start) + 1,
+          accumulated_depreciation: accumulated,
+          book_value: round2(basis.cost - accumulated),
+        });
+      }
+      monthIndex += 1;
+      if (monthIndex > 11) {
+        monthIndex = 0;
+        year += 1;
+      }
+    }
+  }
+
+  return {
+    lines,
+    skipped,
+    asset_count: new Set(lines.map((line) => line.asset_id)).size,
+    total_amount: round2(lines.reduce((sum, line) => sum + line.depreciation_amount, 0)),
+  };
+}
+
+/**
+ * Preview the charges a run would post for a YYYY-MM period
+ */
+async function previewDepreciationRun(agencyDatabase, agencyId, period) {
+  const { period_start, period_end } = parsePeriod(period);
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const settings = await getDepreciationSettings(client, agencyId);
+    const existingRun = await client.query(
+      `SELECT run_number FROM public.asset_depreciation_runs
+       WHERE agency_id = $1 AND period_start = $2
+       ORDER BY created_at`,
+      [agencyId, period_start]
+    );
+    const batch = await calculateBatch(client, agencyId, period_start, period_end, settings);
+    return {
+      period_start,
+      period_end,
+      existing_run_number: existingRun.rows[0]?.run_number || null,
+      ...batch,
+    };
+  } catch (error) {
+    console.error('[Asset Depreciation] Error previewing run:', error);
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) await client.pool.end();
+  }
+}
+
+function getDepreciationAccount(client, agencyId, key) {
+  return findOrCreateAccount(client, agencyId, DEPRECIATION_ACCOUNTS[key], 'Created automatically for depreciation postings');
+}
+
+/**
+ * Account configured in asset settings, or the default depreciation account
+ */
+async function resolveAccount(client, agencyId, key, accountCode) {
+  if (!accountCode) return getDepreciationAccount(client, agencyId, key);
+  const result = await client.query(
+    `SELECT id FROM public.chart_of_accounts
+     WHERE agency_id = $1 AND account_code = $2`,
+    [agencyId, accountCode]
+  );
+  if (result.rows.length === 0) {
+    throw new Error(`Account ${accountCode} set for ${DEPRECIATION_ACCOUNTS[key].account_name.toLowerCase()} was not found in the chart of accounts`);
+  }
+  return result.rows[0].id;
+}
+
+function formatPeriodLabel(periodStart) {
+  return new Date(`${periodStart}T00:00:00Z`).toLocaleDateString('en-US', {
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+function lineNote(runNumber, line, runPeriodStart) {
+  const details = [];
+  if (line.period_start !== runPeriodStart) details.push(`catch-up for ${line.period_start.slice(0, 7)}`);
+  if (line.pro_rated) details.push(`pro-rata ${line.days} days`);
+  return details.length > 0 ? `${runNumber} (${details.join(', ')})` : runNumber;
+}
+
+/**
+ * Run the depreciation batch for a YYYY-MM period: records each asset's charge, with
+ * any missed earlier months caught up, updates its book value and posts one journal
+ * entry for the run
+ */
+async function runDepreciation(agencyDatabase, agencyId, options, userId) {
+  const { period_start, period_end } = parsePeriod(options.period);
+  if (period_start > toDateString(new Date())) {
+    throw new Error('Depreciation cannot be run for a future period');
+  }
+
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    await client.query('BEGIN');
+    const settings = await getDepreciationSettings(client, agencyId);
+
+    // One run at a time per agency, so two runs cannot charge the same asset twice
+    await client.query('SELECT pg_advisory_xact_lock(hashtext($1)::bigint)', [`asset_depreciation:${agencyId}`]);
+
+    // A period that already has a run gets a supplementary one covering only the
+    // assets without an entry for it (e.g. assets added afterwards)
+    const existingRun = await client.query(
+      `SELECT run_number FROM public.asset_depreciation_runs
+       WHERE agency_id = $1 AND period_start = $2
+       ORDER BY created_at`,
+      [agencyId, period_start]
+    );
+    const supplementaryTo = existingRun.rows[0]?.run_number || null;
+
+    const batch = await calculateBatch(client, agencyId, period_start, period_end, settings);
+    if (batch.lines.length === 0) {
+      throw new Error(supplementaryTo
+        ? `Depreciation for this period was already posted in ${supplementaryTo} and no further assets are due`
+        : 'No assets have depreciation due for this period');
+    }
+
+    const year = period_start.slice(0, 4);
+    const countResult = await client.query(
+      `SELECT COUNT(*) AS count FROM public.asset_depreciation_runs
+       WHERE agency_id = $1 AND run_number LIKE $2`,
+      [agencyId, `DEP-${year}-%`]
+    );
+    const runNumber = `DEP-${year}-${String(parseInt(countResult.rows[0].count, 10) + 1).padStart(5, '0')}`;
+    const runId = crypto.randomUUID();
+    const periodLabel = formatPeriodLabel(period_start);
+
+    const expenseAccountId = await resolveAccount(client, agencyId, 'expense', settings.expense_account_code);
+    const accumulatedAccountId = await resolveAccount(client, agencyId, 'accumulated', settings.accumulated_account_code);
+    const journalLines = batch.lines.map((line) => ({
+      account_id: expenseAccountId,
+      description: `Depreciation ${formatPeriodLabel(line.period_start)} - ${line.asset_number} ${line.name}`,
+      debit: line.depreciation_amount,
+      credit: 0,
+    }));
+    journalLines.push({
+      account_id: accumulatedAccountId,
+      description: `Accumulated depreciation ${periodLabel}`,
+      debit: 0,
+      credit: batch.total_amount,
+    });
+
+    const journalEntry = await insertJournalEntry(
+      client,
+      agencyId,
+      {
+        entry_number: generateEntryNumber('DEP'),
+        entry_date: period_end,
+        description: `Depreciation for ${periodLabel}`,
+        reference: runNumber,
+        source_type: 'asset_depreciation_run',
+        source_id: runId,
+      },
+      journalLines,
+      userId
+    );
+
+    const runResult = await client.query(
+      `INSERT INTO public.asset_depreciation_runs (
+        id, agency_id, run_number, period_start, period_end, status, trigger_type,
+        asset_count, skipped_count, total_amount, journal_entry_id, notes, run_by
+      ) VALUES ($1, $2, $3, $4, $5, 'posted', $6, $7, $8, $9, $10, $11, $12)
+      RETURNING *`,
+      [
+        runId,
+        agencyId,
+        runNumber,
+        period_start,
+        period_end,
+        options.trigger_type === 'scheduled' ? 'scheduled' : 'manual',
+        batch.asset_count,
+        batch.skipped.length,
+        batch.total_amount,
+        journalEntry.id,
+        options.notes || (supplementaryTo ? `Supplementary to ${supplementaryTo}` : null),
+        userId || null,
+      ]
+    );
+
+    for (const line of batch.lines) {
+      await client.query(
+        `INSERT INTO public.asset_depreciation (
+          agency_id, asset_id, depreciation_date, period_start, period_end,
+          depreciation_amount, accumulated_depreciation, book_value, depreciation_method,
+          is_posted, journal_entry_id, posted_at, posted_by, notes, run_id, units_consumed
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, true, $10, NOW(), $11, $12, $13, $14)`,
+        [
+          agencyId,
+          line.asset_id,
+          line.period_end,
+          line.period_start,
+          line.period_end,
+          line.depreciation_amount,
+          line.accumulated_depreciation,
+          line.book_value,
+          line.method,
+          journalEntry.id,
+          userId || null,
+          lineNote(runNumber, line, period_start),
+          runId,
+          line.units_consumed,
+        ]
+      );
+      await client.query(
+        `UPDATE public.assets SET current_value = $1, updated_at = NOW()
+         WHERE id = $2 AND agency_id = $3`,
+        [line.book_value, line.asset_id, agencyId]
+      );
+    }
+
+    await client.query('COMMIT');
+    return {
+      ...runResult.rows[0],
+      journal_entry_number: journalEntry.entry_number,
+      lines: batch.lines,
+      skipped: batch.skipped,
+    };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('[Asset Depreciation] Error running depreciation:', error);
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) await client.pool.end();
+  }
+}
+
+/**
+ * List depreciation runs, newest period first
+ */
+async function getDepreciationRuns(agencyDatabase, agencyId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const result = await client.query(
+      `SELECT r.*, je.entry_number AS journal_entry_number, u.email AS run_by_email
+       FROM public.asset_depreciation_runs r
+       LEFT JOIN public.journal_entries je ON r.journal_entry_id = je.id
+       LEFT JOIN public.users u ON r.run_by = u.id
+       WHERE r.agency_id = $1
+       ORDER BY r.period_start DESC`,
+      [agencyId]
+    );
+    return result.rows;
+  } catch (error) {
+    console.error('[Asset Depreciation] Error fetching runs:', error);
+    if (error.code === '42P01') {
+      return [];
+    }
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) await client.pool.end();
+  }
+}
+
+/**
+ * Post the previous month's depreciation for agencies with auto-posting enabled
+ */
+function initializeDepreciationScheduler() {
+  cron.schedule(DEPRECIATION_SCHEDULE, async () => {
+    const lastMonth = new Date();
+    lastMonth.setDate(1);
+    lastMonth.setMonth(lastMonth.getMonth() - 1);
+    const period = `${lastMonth.getFullYear()}-${pad(lastMonth.getMonth() + 1)}`;
+
+    try {
+      const agencies = await mainPool.query(
+        `SELECT id, database_name FROM public.agencies
+         WHERE is_active = true AND database_name IS NOT NULL`
+      );
+
+      for (const agency of agencies.rows) {
+        let client;
+        try {
+          client = await getAgencyConnection(agency.database_name);
+          const settings = await getDepreciationSettings(client, agency.id);
+          client.release();
+          await client.pool.end();
+          client = null;
+          if (!settings.auto_post) continue;
+
+          const run = await runDepreciation(agency.database_name, agency.id, { period, trigger_type: 'scheduled' }, null);
+          console.log(`[Depreciation] Agency ${agency.id}: ${run.run_number} posted ${run.total_amount} for ${period}`);
+        } catch (error) {
+          if (client) {
+            client.release();
+            await client.pool.end();
+          }
+          // Agencies without the asset module have no settings or asset tables
+          if (error.code === '42P01') continue;
+          console.error(`[Depreciation] Scheduled run failed for agency ${agency.id}:`, error.message);
+        }
+      }
+    } catch (error) {
+      console.error('[Depreciation] Error running scheduled depreciation:', error);
+    }
+  });
+
+  console.log('[Depreciation] ✅ Scheduler initialized');
+}
+
+module.exports = {
+  getDepreciationSchedule,
+  previewDepreciationRun,
+  runDepreciation,
+  getDepreciationRuns,
+  initializeDepreciationScheduler,
+};
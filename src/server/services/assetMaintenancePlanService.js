@@ -0,0 +1,972 @@
+/**
+ * Asset Maintenance Plan Service
+ * Preventive maintenance plans per asset or category that raise work orders ahead of
+ * their due dates, escalate overdue orders, and consume spare parts from inventory
+ */
+
+const { parseDatabaseUrl } = require('../utils/poolManager');
+const { Pool } = require('pg');
+const { round2 } = require('../utils/numberHelper');
+const { createNotification } = require('../utils/notificationHelper');
+const cron = require('node-cron');
+const { pool: mainPool } = require('../config/database');
+const { recordInventoryTransaction } = require('./inventoryService');
+
+// Work orders are generated and escalated daily at 06:00
+const MAINTENANCE_SCHEDULE = process.env.MAINTENANCE_SCHEDULE || '0 6 * * *';
+
+const TRIGGER_TYPES = ['interval', 'usage', 'calendar'];
+const CALENDAR_FREQUENCIES = { monthly: 1, quarterly: 3, semi_annual: 6, yearly: 12 };
+const OPEN_STATUSES = ['scheduled', 'in_progress', 'overdue'];
+// Assets in these statuses no longer receive planned work orders
+const INACTIVE_ASSET_STATUSES = ['disposed', 'written_off'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Get agency database connection
+ */
+async function getAgencyConnection(agencyDatabase) {
+  const { host, port, user, password } = parseDatabaseUrl();
+  const agencyDbUrl = `postgresql://${user}:${password}@${host}:${port}/${agencyDatabase}`;
+  const agencyPool = new Pool({ connectionString: agencyDbUrl, max: 1 });
+  const client = await agencyPool.connect();
+  // Attach pool to client for cleanup
+  client.pool = agencyPool;
+  return client;
+}
+
+const pad = (value) => String(value).padStart(2, '0');
+
+// Dates are handled as YYYY-MM-DD strings and compared as UTC day numbers
+function toDateString(value) {
+  if (!value) return null;
+  if (value instanceof Date) {
+    return `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
+  }
+  return String(value).slice(0, 10);
+}
+
+function toDay(dateString) {
+  const [year, month, day] = dateString.split('-').map(Number);
+  return Date.UTC(year, month - 1, day) / DAY_MS;
+}
+
+function fromDay(dayNumber) {
+  const date = new Date(dayNumber * DAY_MS);
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+}
+
+const today = () => toDateString(new Date());
+
+/**
+ * Read the maintenance keys from the agency's asset settings
+ */
+async function getMaintenanceSettings(client, agencyId) {
+  const result = await client.query(
+    `SELECT settings FROM public.module_settings
+     WHERE agency_id = $1 AND module = 'assets'`,
+    [agencyId]
+  );
+  const settings = result.rows[0]?.settings || {};
+  const reminderDays = parseInt(settings.maintenance_reminder_days, 10);
+  const escalationDays = parseInt(settings.maintenance_escalation_days, 10);
+  return {
+    auto_schedule: settings.auto_schedule_maintenance === true,
+    reminder_days: Number.isFinite(reminderDays) && reminderDays >= 0 ? reminderDays : 30,
+    escalation_days: Number.isFinite(escalationDays) && escalationDays >= 0 ? escalationDays : 3,
+    notify_upcoming: settings.notify_upcoming_maintenance !== false,
+  };
+}
+
+function notify(client, agencyId, userId, title, message, metadata, priority) {
+  return createNotification(client, {
+    agency_id: agencyId,
+    user_id: userId,
+    category: 'assets',
+    title,
+    message,
+    metadata,
+    priority,
+    action_url: '/assets/maintenance',
+  });
+}
+
+/**
+ * Next calendar occurrence on or after `fromDate`. Cycles are anchored on the plan's
+ * calendar month, so a quarterly plan starting in February falls in Feb, May, Aug and Nov.
+ */
+function nextCalendarDate(plan, fromDate) {
+  const months = CALENDAR_FREQUENCIES[plan.calendar_frequency] || 1;
+  const startDate = toDateString(plan.start_date);
+  const anchorMonth = (parseInt(plan.calendar_month, 10) || Number(startDate.slice(5, 7))) - 1;
+  const dayOfMonth = parseInt(plan.calendar_day, 10) || 1;
+  const from = fromDate > startDate ? fromDate : startDate;
+  let year = Number(from.slice(0, 4));
+  let month = Number(from.slice(5, 7)) - 1;
+
+  for (let i = 0; i < 24; i++) {
+    if ((((month - anchorMonth) % months) + months) % months === 0) {
+      const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+      const candidate = `${year}-${pad(month + 1)}-${pad(Math.min(dayOfMonth, lastDay))}`;
+      if (candidate >= from) return candidate;
+    }
+    month++;
+    if (month > 11) {
+      month = 0;
+      year++;
+    }
+  }
+  return null;
+}
+
+/**
+ * Work out when an asset is next due under a plan.
+ * Interval plans count from the last completion, calendar plans follow the rule after
+ * the last order's due date, and usage plans compare the asset's meter with the reading
+ * taken when the last order was completed, or when the asset came under the plan.
+ */
+function computeNextDue(plan, asset, lastOrder) {
+  const startDate = toDateString(plan.start_date);
+
+  if (plan.trigger_type === 'usage') {
+    const interval = parseFloat(plan.usage_interval) || 0;
+    if (!(interval > 0)) return null;
+    const current = parseFloat(asset.units_used) || 0;
+    // Assets without a recorded baseline get one at the next generation run, at today's reading
+    const startReading = asset.usage_baseline !== null && asset.usage_baseline !== undefined
+      ? parseFloat(asset.usage_baseline)
+      : current;
+    const baseline = lastOrder ? parseFloat(lastOrder.usage_reading) || 0 : startReading;
+    const dueAt = round2(baseline + interval);
+    return {
+      due_date: current >= dueAt ? today() : null,
+      due_usage: dueAt,
+      current_usage: current,
+    };
+  }
+
+  if (plan.trigger_type === 'calendar') {
+    const lastDue = lastOrder ? toDateString(lastOrder.due_date || lastOrder.completed_date) : null;
+    const from = lastDue ? fromDay(toDay(lastDue) + 1) : startDate;
+    return { due_date: nextCalendarDate(plan, from) };
+  }
+
+  const interval = parseInt(plan.interval_days, 10) || 0;
+  if (!(interval > 0)) return null;
+  const lastDone = lastOrder ? toDateString(lastOrder.completed_date || lastOrder.due_date) : null;
+  return { due_date: lastDone ? fromDay(toDay(lastDone) + interval) : startDate };
+}
+
+const PLAN_SELECT = `
+  SELECT mp.*,
+    a.asset_number,
+    a.name as asset_name,
+    ac.name as category_name,
+    COALESCE(NULLIF(p.full_name, ''), u.email) as assigned_to_name,
+    s.name as vendor_name,
+    (SELECT COUNT(*) FROM public.asset_maintenance m
+      WHERE m.plan_id = mp.id AND m.status = ANY($2::text[]))::int as open_orders,
+    (SELECT MAX(m.completed_date) FROM public.asset_maintenance m
+      WHERE m.plan_id = mp.id AND m.status = 'completed') as last_completed_date,
+    COALESCE((
+      SELECT json_agg(json_build_object(
+        'id', pp.id, 'product_id', pp.product_id, 'variant_id', pp.variant_id,
+        'quantity', pp.quantity, 'product_name', pr.name, 'sku', pr.sku
+      ) ORDER BY pr.name)
+      FROM public.asset_maintenance_plan_parts pp
+      JOIN public.products pr ON pp.product_id = pr.id
+      WHERE pp.plan_id = mp.id
+    ), '[]'::json) as parts
+  FROM public.asset_maintenance_plans mp
+  LEFT JOIN public.assets a ON mp.asset_id = a.id
+  LEFT JOIN public.asset_categories ac ON mp.category_id = ac.id
+  LEFT JOIN public.users u ON mp.assigned_to = u.id
+  LEFT JOIN public.profiles p ON mp.assigned_to = p.user_id
+  LEFT JOIN public.suppliers s ON mp.vendor_id = s.id
+`;
+
+async function loadPlan(client, agencyId, planId) {
+  const result = await client.query(
+    `${PLAN_SELECT} WHERE mp.id = $3 AND mp.agency_id = $1`,
+    [agencyId, OPEN_STATUSES, planId]
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * Get maintenance plans
+ */
+async function getMaintenancePlans(agencyDatabase, agencyId, filters = {}) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    let query = `${PLAN_SELECT} WHERE mp.agency_id = $1`;
+    const params = [agencyId, OPEN_STATUSES];
+    let paramIndex = 3;
+
+    if (filters.asset_id) {
+      // Plans for the asset itself and for its category
+      query += ` AND (mp.asset_id = $${paramIndex}
+        OR mp.category_id = (SELECT category_id FROM public.assets WHERE id = $${paramIndex}))`;
+      params.push(filters.asset_id);
+      paramIndex++;
+    }
+
+    if (filters.is_active !== undefined && filters.is_active !== '') {
+      query += ` AND mp.is_active = $${paramIndex}`;
+      params.push(filters.is_active === true || filters.is_active === 'true');
+      paramIndex++;
+    }
+
+    query += ' ORDER BY mp.is_active DESC, mp.title';
+
+    const result = await client.query(query, params);
+    return result.rows;
+  } catch (error) {
+    if (error.code === '42P01') {
+      return [];
+    }
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Get a maintenance plan with the next due date of each asset it covers
+ */
+async function getMaintenancePlanById(agencyDatabase, agencyId, planId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const plan = await loadPlan(client, agencyId, planId);
+    if (!plan) {
+      return null;
+    }
+    const assets = await loadPlanAssets(client, agencyId, plan);
+    plan.assets = [];
+    for (const asset of assets) {
+      const lastOrder = await loadLastOrder(client, plan.id, asset.id);
+      const openOrder = await loadOpenOrder(client, plan.id, asset.id);
+      const due = computeNextDue(plan, asset, lastOrder);
+      plan.assets.push({
+        asset_id: asset.id,
+        asset_number: asset.asset_number,
+        name: asset.name,
+        last_completed_date: lastOrder ? toDateString(lastOrder.completed_date) : null,
+        next_due_date: openOrder ? toDateString(openOrder.due_date) : due?.due_date || null,
+        due_usage: due?.due_usage ?? null,
+        current_usage: due?.current_usage ?? null,
+        open_order_id: openOrder?.id || null,
+        open_order_status: openOrder?.status || null,
+      });
+    }
+    return plan;
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+function validatePlan(data) {
+  if (!data.title || !String(data.title).trim()) {
+    throw new Error('Plan title is required');
+  }
+  if (!data.asset_id && !data.category_id) {
+    throw new Error('Choose an asset or an asset category for the plan');
+  }
+  const triggerType = data.trigger_type || 'interval';
+  if (!TRIGGER_TYPES.includes(triggerType)) {
+    throw new Error(`Trigger type must be one of: ${TRIGGER_TYPES.join(', ')}`);
+  }
+  if (triggerType === 'interval' && !(parseInt(data.interval_days, 10) > 0)) {
+    throw new Error('Interval plans need the number of days between jobs');
+  }
+  if (triggerType === 'usage' && !(parseFloat(data.usage_interval) > 0)) {
+    throw new Error('Usage plans need the number of usage units between jobs');
+  }
+  if (triggerType === 'calendar') {
+    if (!CALENDAR_FREQUENCIES[data.calendar_frequency]) {
+      throw new Error(`Calendar frequency must be one of: ${Object.keys(CALENDAR_FREQUENCIES).join(', ')}`);
+    }
+    const day = parseInt(data.calendar_day, 10);
+    if (data.calendar_day && !(day >= 1 && day <= 31)) {
+      throw new Error('Calendar day must be between 1 and 31');
+    }
+    const month = parseInt(data.calendar_month, 10);
+    if (data.calendar_month && !(month >= 1 && month <= 12)) {
+      throw new Error('Calendar month must be between 1 and 12');
+    }
+  }
+  for (const part of data.parts || []) {
+    if (!part.product_id || !(parseFloat(part.quantity) > 0)) {
+      throw new Error('Each planned part needs a product and a quantity above zero');
+    }
+  }
+}
+
+async function replacePlanParts(client, agencyId, planId, parts) {
+  await client.query('DELETE FROM public.asset_maintenance_plan_parts WHERE plan_id = $1', [planId]);
+  for (const part of parts) {
+    await client.query(
+      `INSERT INTO public.asset_maintenance_plan_parts (agency_id, plan_id, product_id, variant_id, quantity)
+       VALUES ($1, $2, $3, $4, $5)`,
+      [agencyId, planId, part.product_id, part.variant_id || null, parseFloat(part.quantity)]
+    );
+  }
+}
+
+const nullableInt = (value) => (value === undefined || value === null || value === '' ? null : parseInt(value, 10));
+const nullableNumber = (value) => (value === undefined || value === null || value === '' ? null : parseFloat(value));
+
+/**
+ * Create a maintenance plan
+ */
+async function createMaintenancePlan(agencyDatabase, agencyId, planData, userId) {
+  validatePlan(planData);
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    await client.query('BEGIN');
+    const triggerType = planData.trigger_type || 'interval';
+    const result = await client.query(
+      `INSERT INTO public.asset_maintenance_plans (
+        agency_id, asset_id, category_id, title, description, trigger_type,
+        interval_days, usage_interval, calendar_frequency, calendar_day, calendar_month,
+        start_date, lead_days, priority, estimated_hours, assigned_to, vendor_id, is_active, created_by
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, COALESCE($12::date, CURRENT_DATE), $13, $14, $15, $16, $17, $18, $19)
+      RETURNING id`,
+      [
+        agencyId,
+        planData.asset_id || null,
+        planData.asset_id ? null : planData.category_id,
+        String(planData.title).trim(),
+        planData.description || null,
+        triggerType,
+        triggerType === 'interval' ? nullableInt(planData.interval_days) : null,
+        triggerType === 'usage' ? nullableNumber(planData.usage_interval) : null,
+        triggerType === 'calendar' ? planData.calendar_frequency : null,
+        triggerType === 'calendar' ? nullableInt(planData.calendar_day) : null,
+        triggerType === 'calendar' ? nullableInt(planData.calendar_month) : null,
+        planData.start_date || null,
+        nullableInt(planData.lead_days),
+        planData.priority || 'normal',
+        nullableNumber(planData.estimated_hours),
+        planData.assigned_to || null,
+        planData.vendor_id || null,
+        planData.is_active !== false,
+        userId,
+      ]
+    );
+    const planId = result.rows[0].id;
+    await replacePlanParts(client, agencyId, planId, planData.parts || []);
+    await recordUsageBaselines(client, agencyId, planId);
+    await client.query('COMMIT');
+    return await loadPlan(client, agencyId, planId);
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Update a maintenance plan. Open work orders keep their dates; the change applies
+ * from the next order generated.
+ */
+async function updateMaintenancePlan(agencyDatabase, agencyId, planId, planData) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    await client.query('BEGIN');
+    const existing = await client.query(
+      'SELECT * FROM public.asset_maintenance_plans WHERE id = $1 AND agency_id = $2 FOR UPDATE',
+      [planId, agencyId]
+    );
+    if (existing.rows.length === 0) {
+      throw new Error('Maintenance plan not found');
+    }
+    const merged = {
+      ...existing.rows[0],
+      ...planData,
+      start_date: planData.start_date || toDateString(existing.rows[0].start_date),
+    };
+    if (planData.asset_id) merged.category_id = null;
+    if (planData.category_id && !planData.asset_id) merged.asset_id = null;
+    validatePlan(merged);
+
+    const triggerType = merged.trigger_type;
+    await client.query(
+      `UPDATE public.asset_maintenance_plans SET
+        asset_id = $3, category_id = $4, title = $5, description = $6, trigger_type = $7,
+        interval_days = $8, usage_interval = $9, calendar_frequency = $10, calendar_day = $11,
+        calendar_month = $12, start_date = $13, lead_days = $14, priority = $15,
+        estimated_hours = $16, assigned_to = $17, vendor_id = $18, is_active = $19
+      WHERE id = $1 AND agency_id = $2`,
+      [
+        planId,
+        agencyId,
+        merged.asset_id || null,
+        merged.asset_id ? null : merged.category_id,
+        String(merged.title).trim(),
+        merged.description || null,
+        triggerType,
+        triggerType === 'interval' ? nullableInt(merged.interval_days) : null,
+        triggerType === 'usage' ? nullableNumber(merged.usage_interval) : null,
+        triggerType === 'calendar' ? merged.calendar_frequency : null,
+        triggerType === 'calendar' ? nullableInt(merged.calendar_day) : null,
+        triggerType === 'calendar' ? nullableInt(merged.calendar_month) : null,
+        merged.start_date,
+        nullableInt(merged.lead_days),
+        merged.priority || 'normal',
+        nullableNumber(merged.estimated_hours),
+        merged.assigned_to || null,
+        merged.vendor_id || null,
+        merged.is_active !== false,
+      ]
+    );
+    if (planData.parts) {
+      await replacePlanParts(client, agencyId, planId, planData.parts);
+    }
+    await recordUsageBaselines(client, agencyId, planId);
+    await client.query('COMMIT');
+    return await loadPlan(client, agencyId, planId);
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Delete a maintenance plan. Work orders it raised stay in the maintenance history.
+ */
+async function deleteMaintenancePlan(agencyDatabase, agencyId, planId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    await client.query('BEGIN');
+    await client.query(
+      `UPDATE public.asset_maintenance SET plan_id = NULL
+       WHERE plan_id = $1 AND agency_id = $2 AND status NOT IN ('scheduled', 'overdue')`,
+      [planId, agencyId]
+    );
+    // Orders that nobody has started yet go with the plan
+    await client.query(
+      `DELETE FROM public.asset_maintenance
+       WHERE plan_id = $1 AND agency_id = $2 AND status IN ('scheduled', 'overdue')`,
+      [planId, agencyId]
+    );
+    const result = await client.query(
+      'DELETE FROM public.asset_maintenance_plans WHERE id = $1 AND agency_id = $2 RETURNING id',
+      [planId, agencyId]
+    );
+    await client.query('COMMIT');
+    return result.rows.length > 0;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+async function loadPlanAssets(client, agencyId, plan) {
+  const result = await client.query(
+    `SELECT a.id, a.asset_number, a.name, a.units_used, a.assigned_to, b.usage_reading as usage_baseline
+     FROM public.assets a
+     LEFT JOIN public.asset_maintenance_plan_baselines b ON b.plan_id = $5 AND b.asset_id = a.id
+     WHERE a.agency_id = $1 AND a.status <> ALL($2::text[])
+       AND (a.id = $3 OR ($3::uuid IS NULL AND a.category_id = $4))
+     ORDER BY a.asset_number`,
+    [agencyId, INACTIVE_ASSET_STATUSES, plan.asset_id, plan.category_id, plan.id]
+  );
+  return result.rows;
+}
+
+/**
+ * Record the current meter reading of a usage plan's assets that have no baseline yet,
+ * so their first order counts from when they came under the plan
+ */
+async function recordUsageBaselines(client, agencyId, planId) {
+  await client.query(
+    `INSERT INTO public.asset_maintenance_plan_baselines (plan_id, asset_id, usage_reading)
+     SELECT mp.id, a.id, COALESCE(a.units_used, 0)
+     FROM public.asset_maintenance_plans mp
+     JOIN public.assets a ON a.agency_id = mp.agency_id
+       AND (a.id = mp.asset_id OR (mp.asset_id IS NULL AND a.category_id = mp.category_id))
+     WHERE mp.id = $1 AND mp.agency_id = $2 AND mp.trigger_type = 'usage'
+       AND a.status <> ALL($3::text[])
+     ON CONFLICT (plan_id, asset_id) DO NOTHING`,
+    [planId, agencyId, INACTIVE_ASSET_STATUSES]
+  );
+}
+
+async function loadLastOrder(client, planId, assetId) {
+  const result = await client.query(
+    `SELECT id, due_date, completed_date, usage_reading
+     FROM public.asset_maintenance
+     WHERE plan_id = $1 AND asset_id = $2 AND status = 'completed'
+     ORDER BY completed_date DESC NULLS LAST, created_at DESC
+     LIMIT 1`,
+    [planId, assetId]
+  );
+  return result.rows[0] || null;
+}
+
+async function loadOpenOrder(client, planId, assetId) {
+  const result = await client.query(
+    `SELECT id, due_date, status
+     FROM public.asset_maintenance
+     WHERE plan_id = $1 AND asset_id = $2 AND status = ANY($3::text[])
+     ORDER BY due_date
+     LIMIT 1`,
+    [planId, assetId, OPEN_STATUSES]
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * Raise the due work orders of one plan. Runs inside the caller's transaction with the
+ * plan row locked.
+ */
+async function generatePlanWorkOrders(client, agencyId, plan, settings, todayDay, userId) {
+  const leadDays = plan.lead_days !== null ? parseInt(plan.lead_days, 10) : settings.reminder_days;
+  await recordUsageBaselines(client, agencyId, plan.id);
+  const assets = await loadPlanAssets(client, agencyId, plan);
+  const created = [];
+
+  for (const asset of assets) {
+    if (await loadOpenOrder(client, plan.id, asset.id)) continue;
+    const lastOrder = await loadLastOrder(client, plan.id, asset.id);
+    const due = computeNextDue(plan, asset, lastOrder);
+    if (!due || !due.due_date || toDay(due.due_date) - leadDays > todayDay) continue;
+
+    const partsList = (plan.parts || []).map((part) => `${part.product_name} x ${parseFloat(part.quantity)}`).join(', ');
+    const result = await client.query(
+      `INSERT INTO public.asset_maintenance (
+        agency_id, asset_id, maintenance_type, title, description, scheduled_date, due_date,
+        status, priority, vendor_id, technician, parts_used, labor_hours, plan_id, assigned_to,
+        usage_reading, created_by
+      ) VALUES ($1, $2, 'preventive', $3, $4, $5, $5, 'scheduled', $6, $7, $8, $9, $10, $11, $12, $13, $14)
+      RETURNING id, due_date`,
+      [
+        agencyId,
+        asset.id,
+        plan.title,
+        plan.description,
+        due.due_date,
+        plan.priority || 'normal',
+        plan.vendor_id,
+        plan.assigned_to_name || null,
+        partsList || null,
+        plan.estimated_hours,
+        plan.id,
+        plan.assigned_to,
+        plan.trigger_type === 'usage' ? due.current_usage : null,
+        userId || plan.created_by,
+      ]
+    );
+    const order = result.rows[0];
+    created.push({ id: order.id, plan_id: plan.id, asset_id: asset.id, due_date: due.due_date });
+
+    if (settings.notify_upcoming) {
+      await notify(
+        client,
+        agencyId,
+        plan.assigned_to,
+        'Preventive maintenance scheduled',
+        `${plan.title} for ${asset.asset_number} ${asset.name} is due on ${due.due_date}`,
+        { maintenance_id: order.id, plan_id: plan.id, asset_id: asset.id },
+        'normal'
+      );
+    }
+  }
+
+  await client.query(
+    'UPDATE public.asset_maintenance_plans SET last_generated_at = NOW() WHERE id = $1',
+    [plan.id]
+  );
+  return created;
+}
+
+/**
+ * Raise work orders for every plan whose next job falls within its lead time.
+ * Each plan keeps at most one open order per asset; plans are processed one transaction
+ * at a time with the plan row locked, so overlapping runs cannot raise the same order twice.
+ */
+async function generateDueWorkOrders(agencyDatabase, agencyId, userId = null, planId = null) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const settings = await getMaintenanceSettings(client, agencyId);
+    const plans = await client.query(
+      `${PLAN_SELECT} WHERE mp.agency_id = $1 AND mp.is_active = true
+         AND ($3::uuid IS NULL OR mp.id = $3)`,
+      [agencyId, OPEN_STATUSES, planId]
+    );
+    const todayDay = toDay(today());
+    const created = [];
+
+    for (const plan of plans.rows) {
+      await client.query('BEGIN');
+      try {
+        const locked = await client.query(
+          'SELECT id FROM public.asset_maintenance_plans WHERE id = $1 AND is_active = true FOR UPDATE',
+          [plan.id]
+        );
+        if (locked.rows.length === 0) {
+          await client.query('ROLLBACK');
+          continue;
+        }
+        created.push(...await generatePlanWorkOrders(client, agencyId, plan, settings, todayDay, userId));
+        await client.query('COMMIT');
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+      }
+    }
+
+    return { created: created.length, work_orders: created };
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Escalate open work orders past their due date. The first step marks the order
+ * overdue and reminds the technician; once it has been overdue for the escalation
+ * period it is raised to urgent and the plan owner is told.
+ */
+async function escalateOverdueWorkOrders(agencyDatabase, agencyId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const settings = await getMaintenanceSettings(client, agencyId);
+    const overdue = await client.query(
+      `SELECT m.id, m.title, m.status, m.due_date, m.assigned_to, m.performed_by, m.created_by,
+              COALESCE(m.escalation_level, 0) as escalation_level,
+              (CURRENT_DATE - m.due_date) as days_overdue,
+              a.asset_number, a.name as asset_name,
+              mp.created_by as plan_owner
+       FROM public.asset_maintenance m
+       JOIN public.assets a ON m.asset_id = a.id
+       LEFT JOIN public.asset_maintenance_plans mp ON m.plan_id = mp.id
+       WHERE m.agency_id = $1 AND m.status = ANY($2::text[])
+         AND m.due_date < CURRENT_DATE AND COALESCE(m.escalation_level, 0) < 2`,
+      [agencyId, OPEN_STATUSES]
+    );
+
+    let markedOverdue = 0;
+    let escalated = 0;
+    for (const order of overdue.rows) {
+      const label = `${order.title} for ${order.asset_number} ${order.asset_name}`;
+      const dueDate = toDateString(order.due_date);
+      const metadata = { maintenance_id: order.id, days_overdue: order.days_overdue };
+
+      if (order.escalation_level === 0) {
+        await client.query(
+          `UPDATE public.asset_maintenance
+           SET escalation_level = 1, escalated_at = NOW(),
+               status = CASE WHEN status = 'scheduled' THEN 'overdue' ELSE status END
+           WHERE id = $1`,
+          [order.id]
+        );
+        await notify(
+          client,
+          agencyId,
+          order.assigned_to || order.created_by,
+          'Maintenance overdue',
+          `${label} was due on ${dueDate}`,
+          metadata,
+          'high'
+        );
+        markedOverdue++;
+      } else if (order.days_overdue >= settings.escalation_days) {
+        await client.query(
+          `UPDATE public.asset_maintenance
+           SET escalation_level = 2, escalated_at = NOW(), priority = 'urgent'
+           WHERE id = $1`,
+          [order.id]
+        );
+        const recipients = new Set([order.plan_owner || order.created_by, order.assigned_to].filter(Boolean));
+        for (const recipient of recipients) {
+          await notify(
+            client,
+            agencyId,
+            recipient,
+            'Maintenance escalated',
+            `${label} is ${order.days_overdue} days overdue and has been raised to urgent`,
+            metadata,
+            'urgent'
+          );
+        }
+        escalated++;
+      }
+    }
+
+    return { overdue: markedOverdue, escalated };
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Parts issued to a work order
+ */
+async function getWorkOrderParts(agencyDatabase, agencyId, maintenanceId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const result = await client.query(
+      `SELECT mpt.*, pr.name as product_name, pr.sku, w.name as warehouse_name
+       FROM public.asset_maintenance_parts mpt
+       JOIN public.products pr ON mpt.product_id = pr.id
+       LEFT JOIN public.warehouses w ON mpt.warehouse_id = w.id
+       WHERE mpt.maintenance_id = $1 AND mpt.agency_id = $2
+       ORDER BY mpt.created_at`,
+      [maintenanceId, agencyId]
+    );
+    return result.rows;
+  } catch (error) {
+    if (error.code === '42P01') {
+      return [];
+    }
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Complete a work order: issue the parts used from stock, cost the job, record the
+ * meter reading and work out when the plan is next due
+ */
+async function completeWorkOrder(agencyDatabase, agencyId, maintenanceId, completionData, userId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    await client.query('BEGIN');
+
+    const locked = await client.query(
+      'SELECT * FROM public.asset_maintenance WHERE id = $1 AND agency_id = $2 FOR UPDATE',
+      [maintenanceId, agencyId]
+    );
+    const order = locked.rows[0];
+    if (!order) {
+      throw new Error('Maintenance record not found');
+    }
+    if (['completed', 'cancelled'].includes(order.status)) {
+      throw new Error(`Work order is already ${order.status}`);
+    }
+
+    const completedDate = completionData.completed_date || today();
+    if (completedDate > today()) {
+      throw new Error('Completion date cannot be in the future');
+    }
+
+    let partsCost = 0;
+    const partNames = [];
+    for (const part of completionData.parts || []) {
+      const quantity = parseFloat(part.quantity);
+      if (!part.product_id || !part.warehouse_id || !(quantity > 0)) {
+        throw new Error('Each part needs a product, a warehouse and a quantity above zero');
+      }
+      const transaction = await recordInventoryTransaction(
+        client,
+        {
+          agency_id: agencyId,
+          product_id: part.product_id,
+          variant_id: part.variant_id || null,
+          warehouse_id: part.warehouse_id,
+          transaction_type: 'OUT',
+          quantity,
+          reference_type: 'ASSET_MAINTENANCE',
+          reference_id: maintenanceId,
+          notes: `Used on maintenance: ${order.title}`,
+        },
+        userId
+      );
+      const totalCost = round2(transaction.cost_of_goods);
+      partsCost = round2(partsCost + totalCost);
+      await client.query(
+        `INSERT INTO public.asset_maintenance_parts (
+          agency_id, maintenance_id, product_id, variant_id, warehouse_id, quantity,
+          unit_cost, total_cost, transaction_id, created_by
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+        [
+          agencyId,
+          maintenanceId,
+          part.product_id,
+          part.variant_id || null,
+          part.warehouse_id,
+          quantity,
+          totalCost / quantity,
+          totalCost,
+          transaction.id,
+          userId,
+        ]
+      );
+      const product = await client.query('SELECT name FROM public.products WHERE id = $1', [part.product_id]);
+      partNames.push(`${product.rows[0]?.name || 'Part'} x ${quantity}`);
+    }
+
+    // Meter readings only move forward; the asset's meter also drives units-of-production depreciation
+    const asset = await client.query(
+      'SELECT id, units_used FROM public.assets WHERE id = $1 FOR UPDATE',
+      [order.asset_id]
+    );
+    let usageReading = nullableNumber(completionData.usage_reading);
+    const currentUsage = parseFloat(asset.rows[0]?.units_used) || 0;
+    if (usageReading !== null && usageReading > currentUsage) {
+      await client.query('UPDATE public.assets SET units_used = $2 WHERE id = $1', [order.asset_id, usageReading]);
+    } else if (usageReading === null) {
+      usageReading = currentUsage;
+    }
+
+    const laborCost = round2(completionData.labor_cost);
+    const previousPartsCost = round2(order.parts_cost);
+    const totalPartsCost = round2(previousPartsCost + partsCost);
+    const partsUsed = [order.parts_used && partNames.length === 0 ? order.parts_used : null, ...partNames]
+      .filter(Boolean)
+      .join(', ');
+
+    let nextMaintenanceDate = null;
+    if (order.plan_id) {
+      const plan = await client.query('SELECT * FROM public.asset_maintenance_plans WHERE id = $1', [order.plan_id]);
+      if (plan.rows[0]) {
+        const due = computeNextDue(
+          plan.rows[0],
+          { units_used: Math.max(usageReading, currentUsage) },
+          { due_date: order.due_date, completed_date: completedDate, usage_reading: usageReading }
+        );
+        nextMaintenanceDate = plan.rows[0].trigger_type === 'usage' ? null : due?.due_date || null;
+      }
+    }
+
+    await client.query(
+      `UPDATE public.asset_maintenance SET
+        status = 'completed', completed_date = $3, labor_hours = COALESCE($4, labor_hours),
+        parts_cost = $5, cost = $6, parts_used = $7, usage_reading = $8,
+        notes = COALESCE($9, notes), next_maintenance_date = COALESCE($10, next_maintenance_date),
+        performed_by = $11, updated_at = NOW()
+      WHERE id = $1 AND agency_id = $2`,
+      [
+        maintenanceId,
+        agencyId,
+        completedDate,
+        nullableNumber(completionData.labor_hours),
+        totalPartsCost,
+        round2(laborCost + totalPartsCost),
+        partsUsed || null,
+        usageReading,
+        completionData.notes || null,
+        nextMaintenanceDate,
+        userId,
+      ]
+    );
+
+    // An asset taken out of service for the job goes back into use
+    await client.query(
+      `UPDATE public.assets SET status = 'active', updated_at = NOW()
+       WHERE id = $1 AND status = 'maintenance'
+         AND NOT EXISTS (
+           SELECT 1 FROM public.asset_maintenance
+           WHERE asset_id = $1 AND id <> $2 AND status = 'in_progress'
+         )`,
+      [order.asset_id, maintenanceId]
+    );
+
+    await client.query('COMMIT');
+
+    const result = await client.query('SELECT * FROM public.asset_maintenance WHERE id = $1', [maintenanceId]);
+    return result.rows[0];
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Initialize the daily work order generation and overdue escalation across all active agencies
+ */
+function initializeMaintenanceScheduler() {
+  cron.schedule(MAINTENANCE_SCHEDULE, async () => {
+    try {
+      const agencies = await mainPool.query(
+        `SELECT id, database_name FROM public.agencies
+         WHERE is_active = true AND database_name IS NOT NULL`
+      );
+
+      for (const agency of agencies.rows) {
+        try {
+          const client = await getAgencyConnection(agency.database_name);
+          let settings;
+          try {
+            settings = await getMaintenanceSettings(client, agency.id);
+          } finally {
+            client.release();
+            if (client.pool) {
+              await client.pool.end();
+            }
+          }
+
+          if (settings.auto_schedule) {
+            const generated = await generateDueWorkOrders(agency.database_name, agency.id);
+            if (generated.created > 0) {
+              console.log(`[Maintenance Plans] Agency ${agency.id}: ${generated.created} work order(s) created`);
+            }
+          }
+          const escalation = await escalateOverdueWorkOrders(agency.database_name, agency.id);
+          if (escalation.overdue + escalation.escalated > 0) {
+            console.log(
+              `[Maintenance Plans] Agency ${agency.id}: ${escalation.overdue} overdue, ${escalation.escalated} escalated`
+            );
+          }
+        } catch (error) {
+          // Agencies without the asset module have no maintenance tables
+          if (error.code === '42P01') continue;
+          console.error(`[Maintenance Plans] Daily run failed for agency ${agency.id}:`, error.message);
+        }
+      }
+    } catch (error) {
+      console.error('[Maintenance Plans] Error running maintenance scheduler:', error);
+    }
+  });
+
+  console.log('[Maintenance Plans] ✅ Scheduler initialized');
+}
+
+module.exports = {
+  getMaintenancePlans,
+  getMaintenancePlanById,
+  createMaintenancePlan,
+  updateMaintenancePlan,
+  deleteMaintenancePlan,
+  generateDueWorkOrders,
+  escalateOverdueWorkOrders,
+  getWorkOrderParts,
+  completeWorkOrder,
+  initializeMaintenanceScheduler,
+};
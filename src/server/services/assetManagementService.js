@@ -38,11 +38,27 @@ async function getAssets(agencyDatabase, agencyId, filters = {}) {
         ac.code as category_code,
         al.name as location_name,
         al.code as location_code,
-        u.email as assigned_to_email
+        u.email as assigned_to_email,
+        custody.id as custody_id,
+        custody.custody_number,
+        custody.custodian_type,
+        custody.custodian_label,
+        custody.expected_return_date as custody_expected_return_date
       FROM public.assets a
       LEFT JOIN public.asset_categories ac ON a.category_id = ac.id
       LEFT JOIN public.asset_locations al ON a.location_id = al.id
       LEFT JOIN public.users u ON a.assigned_to = u.id
+      LEFT JOIN LATERAL (
+        SELECT c.id, c.custody_number, c.custodian_type, c.expected_return_date,
+          COALESCE(NULLIF(cp.full_name, ''), cu.email, pr.name, cl.name) as custodian_label
+        FROM public.asset_custody c
+        LEFT JOIN public.users cu ON c.custodian_user_id = cu.id
+        LEFT JOIN public.profiles cp ON c.custodian_user_id = cp.user_id
+        LEFT JOIN public.projects pr ON c.project_id = pr.id
+        LEFT JOIN public.asset_locations cl ON c.location_id = cl.id
+        WHERE c.asset_id = a.id AND c.status = 'checked_out'
+        LIMIT 1
+      ) custody ON true
       WHERE a.agency_id = $1
     `;
     const params = [agencyId];
@@ -118,11 +134,27 @@ async function getAssetById(agencyDatabase, agencyId, assetId) {
         ac.code as category_code,
         al.name as location_name,
         al.code as location_code,
-        u.email as assigned_to_email
+        u.email as assigned_to_email,
+        custody.id as custody_id,
+        custody.custody_number,
+        custody.custodian_type,
+        custody.custodian_label,
+        custody.expected_return_date as custody_expected_return_date
       FROM public.assets a
       LEFT JOIN public.asset_categories ac ON a.category_id = ac.id
       LEFT JOIN public.asset_locations al ON a.location_id = al.id
       LEFT JOIN public.users u ON a.assigned_to = u.id
+      LEFT JOIN LATERAL (
+        SELECT c.id, c.custody_number, c.custodian_type, c.expected_return_date,
+          COALESCE(NULLIF(cp.full_name, ''), cu.email, pr.name, cl.name) as custodian_label
+        FROM public.asset_custody c
+        LEFT JOIN public.users cu ON c.custodian_user_id = cu.id
+        LEFT JOIN public.profiles cp ON c.custodian_user_id = cp.user_id
+        LEFT JOIN public.projects pr ON c.project_id = pr.id
+        LEFT JOIN public.asset_locations cl ON c.location_id = cl.id
+        WHERE c.asset_id = a.id AND c.status = 'checked_out'
+        LIMIT 1
+      ) custody ON true
       WHERE a.id = $1 AND a.agency_id = $2`,
       [assetId, agencyId]
     );
@@ -159,8 +191,10 @@ async function createAsset(agencyDatabase, assetData, userId) {
         id, agency_id, asset_number, name, description, category_id, purchase_date,
         purchase_cost, current_value, serial_number, location_id, status,
         assigned_to, warranty_end_date, condition_status, model_number, manufacturer,
+        residual_value, useful_life_years, depreciation_method, depreciation_rate,
+        depreciation_start_date, total_units, units_used,
         created_at, updated_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, NOW(), NOW())
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24, NOW(), NOW())
       RETURNING *`,
       [
         generateUUID(),
@@ -180,6 +214,13 @@ async function createAsset(agencyDatabase, assetData, userId) {
         assetData.condition_status || 'good',
         assetData.model_number || null,
         assetData.manufacturer || null,
+        assetData.residual_value || 0,
+        assetData.useful_life_years || null,
+        assetData.depreciation_method || null,
+        assetData.depreciation_rate || null,
+        assetData.depreciation_start_date || null,
+        assetData.total_units || null,
+        assetData.units_used || 0,
       ]
     );
     return result.rows[0];
@@ -212,7 +253,9 @@ async function updateAsset(agencyDatabase, agencyId, assetId, assetData, userId)
 
     const allowedFields = ['name', 'description', 'category_id', 'purchase_date', 'purchase_cost',
                           'current_value', 'serial_number', 'location_id', 'status', 'assigned_to',
-                          'warranty_end_date', 'condition_status', 'model_number', 'manufacturer'];
+                          'warranty_end_date', 'condition_status', 'model_number', 'manufacturer',
+                          'residual_value', 'useful_life_years', 'depreciation_method', 'depreciation_rate',
+                          'depreciation_start_date', 'total_units', 'units_used'];
     
     for (const field of allowedFields) {
       if (assetData[field] !== undefined) {
@@ -969,11 +1012,16 @@ async function getAllMaintenance(agencyDatabase, agencyId, filters = {}) {
         a.name as asset_name,
         a.asset_number,
         u.email as performed_by_email,
-        s.name as vendor_name
+        s.name as vendor_name,
+        mp.title as plan_title,
+        COALESCE(NULLIF(ap.full_name, ''), au.email) as assigned_to_name
       FROM public.asset_maintenance m
       LEFT JOIN public.assets a ON m.asset_id = a.id
       LEFT JOIN public.users u ON m.performed_by = u.id
       LEFT JOIN public.suppliers s ON m.vendor_id = s.id
+      LEFT JOIN public.asset_maintenance_plans mp ON m.plan_id = mp.id
+      LEFT JOIN public.users au ON m.assigned_to = au.id
+      LEFT JOIN public.profiles ap ON m.assigned_to = ap.user_id
       WHERE m.agency_id = $1
     `;
     const params = [agencyId];
@@ -1003,6 +1051,12 @@ async function getAllMaintenance(agencyDatabase, agencyId, filters = {}) {
       paramIndex++;
     }
 
+    if (filters.plan_id) {
+      query += ` AND m.plan_id = $${paramIndex}`;
+      params.push(filters.plan_id);
+      paramIndex++;
+    }
+
     if (filters.search) {
       query += ` AND (m.title ILIKE $${paramIndex} OR m.description ILIKE $${paramIndex} OR a.name ILIKE $${paramIndex})`;
       params.push(`%${filters.search}%`);
@@ -1092,8 +1146,8 @@ async function createMaintenance(agencyDatabase, maintenanceData, userId) {
         scheduled_date, completed_date, due_date, status, priority,
         cost, vendor_id, technician, technician_contact, parts_used,
         labor_hours, notes, next_maintenance_date, performed_by, created_by,
-        created_at, updated_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, NOW(), NOW())
+        assigned_to, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, NOW(), NOW())
       RETURNING *`,
       [
         generateUUID(),
@@ -1117,6 +1171,7 @@ async function createMaintenance(agencyDatabase, maintenanceData, userId) {
         maintenanceData.next_maintenance_date || null,
         maintenanceData.performed_by || userId,
         userId,
+        maintenanceData.assigned_to || null,
       ]
     );
     return result.rows[0];
@@ -1155,7 +1210,7 @@ async function updateMaintenance(agencyDatabase, agencyId, maintenanceId, mainte
       'maintenance_type', 'title', 'description', 'scheduled_date', 'completed_date',
       'due_date', 'status', 'priority', 'cost', 'vendor_id', 'technician',
       'technician_contact', 'parts_used', 'labor_hours', 'notes', 'next_maintenance_date',
-      'performed_by'
+      'performed_by', 'assigned_to'
     ];
     
     for (const field of allowedFields) {
@@ -1691,14 +1746,25 @@ async function getAssetReports(agencyDatabase, agencyId, filters = {}) {
         COUNT(DISTINCT al.id) as total_locations,
         COALESCE(SUM(a.purchase_cost), 0) as total_purchase_cost,
         COALESCE(SUM(a.current_value), 0) as total_current_value,
-        COALESCE(SUM(ad.depreciation_amount), 0) as total_depreciation
+        (
+          SELECT COALESCE(SUM(ad.depreciation_amount), 0)
+          FROM public.asset_depreciation ad
+          WHERE ad.agency_id = $1
+            AND ad.is_posted = true
+            AND ad.depreciation_date >= $2::date
+            AND ad.depreciation_date <= $3::date
+        ) as total_depreciation,
+        (
+          SELECT COALESCE(SUM(m.cost), 0)
+          FROM public.asset_maintenance m
+          WHERE m.agency_id = $1
+            AND m.status = 'completed'
+            AND m.completed_date >= $2::date
+            AND m.completed_date <= $3::date
+        ) as total_maintenance_cost
       FROM public.assets a
       LEFT JOIN public.asset_categories ac ON a.category_id = ac.id
       LEFT JOIN public.asset_locations al ON a.location_id = al.id
-      LEFT JOIN public.asset_depreciation ad ON a.id = ad.asset_id
-        AND ad.posted = true
-        AND ad.depreciation_date >= $2::date
-        AND ad.depreciation_date <= $3::date
       WHERE a.agency_id = $1
     `;
     const statsResult = await client.query(statsQuery, [agencyId, dateFrom, dateTo]).catch(() => ({ rows: [{}] }));
@@ -1744,7 +1810,7 @@ async function getAssetReports(agencyDatabase, agencyId, filters = {}) {
       WHERE agency_id = $1
         AND depreciation_date >= $2::date
         AND depreciation_date <= $3::date
-        AND posted = true
+        AND is_posted = true
       GROUP BY DATE_TRUNC('month', depreciation_date)
       ORDER BY month DESC
       LIMIT 12
@@ -1756,15 +1822,60 @@ async function getAssetReports(agencyDatabase, agencyId, filters = {}) {
       SELECT 
         maintenance_type,
         COUNT(*) as count,
-        COALESCE(SUM(cost), 0) as total_cost
+        COALESCE(SUM(cost), 0) as total_cost,
+        COALESCE(SUM(parts_cost), 0) as parts_cost,
+        COALESCE(SUM(labor_hours), 0) as labor_hours
       FROM public.asset_maintenance
       WHERE agency_id = $1
-        AND maintenance_date >= $2::date
-        AND maintenance_date <= $3::date
+        AND COALESCE(completed_date, scheduled_date) >= $2::date
+        AND COALESCE(completed_date, scheduled_date) <= $3::date
       GROUP BY maintenance_type
     `;
     const maintenanceResult = await client.query(maintenanceQuery, [agencyId, dateFrom, dateTo]).catch(() => ({ rows: [] }));
 
+    // Reliability per asset: corrective and emergency jobs count as failures. MTBF is the
+    // asset's days in service within the range divided by its failures, and MTTR the
+    // average labour hours of those repairs.
+    const reliabilityQuery = `
+      SELECT
+        a.id,
+        a.asset_number,
+        a.name,
+        COUNT(m.id) FILTER (WHERE m.maintenance_type IN ('corrective', 'emergency')) as failures,
+        COUNT(m.id) FILTER (WHERE m.maintenance_type NOT IN ('corrective', 'emergency')) as planned_jobs,
+        GREATEST(
+          $3::date - GREATEST($2::date, COALESCE(a.purchase_date, a.created_at::date)) + 1,
+          0
+        ) as days_in_service,
+        COALESCE(SUM(m.cost) FILTER (WHERE m.maintenance_type NOT IN ('corrective', 'emergency')), 0) as preventive_cost,
+        COALESCE(SUM(m.cost) FILTER (WHERE m.maintenance_type IN ('corrective', 'emergency')), 0) as corrective_cost,
+        COALESCE(SUM(m.parts_cost), 0) as parts_cost,
+        COALESCE(SUM(m.cost), 0) as total_cost,
+        AVG(m.labor_hours) FILTER (WHERE m.maintenance_type IN ('corrective', 'emergency')) as mttr_hours
+      FROM public.assets a
+      JOIN public.asset_maintenance m ON m.asset_id = a.id
+        AND m.status = 'completed'
+        AND m.completed_date >= $2::date
+        AND m.completed_date <= $3::date
+      WHERE a.agency_id = $1
+      GROUP BY a.id, a.asset_number, a.name, a.purchase_date, a.created_at
+      ORDER BY total_cost DESC
+      LIMIT 20
+    `;
+    const reliabilityResult = await client.query(reliabilityQuery, [agencyId, dateFrom, dateTo]).catch(() => ({ rows: [] }));
+    const maintenanceReliability = reliabilityResult.rows.map((row) => {
+      const failures = parseInt(row.failures, 10) || 0;
+      const daysInService = parseInt(row.days_in_service, 10) || 0;
+      return {
+        ...row,
+        failures,
+        planned_jobs: parseInt(row.planned_jobs, 10) || 0,
+        days_in_service: daysInService,
+        mtbf_days: failures > 0 ? Math.round((daysInService / failures) * 10) / 10 : null,
+        mttr_hours: row.mttr_hours !== null ? Math.round(parseFloat(row.mttr_hours) * 10) / 10 : null,
+      };
+    });
+
     // Top assets by value
     const topAssetsQuery = `
       SELECT 
@@ -1789,6 +1900,7 @@ async function getAssetReports(agencyDatabase, agencyId, filters = {}) {
       assets_by_category: assetsByCategoryResult.rows,
       depreciation_trend: depreciationResult.rows,
       maintenance_summary: maintenanceResult.rows,
+      maintenance_reliability: maintenanceReliability,
       top_assets: topAssetsResult.rows,
       date_range: { from: dateFrom, to: dateTo },
     };
@@ -1801,6 +1913,7 @@ async function getAssetReports(agencyDatabase, agencyId, filters = {}) {
         assets_by_category: [],
         depreciation_trend: [],
         maintenance_summary: [],
+        maintenance_reliability: [],
         top_assets: [],
         date_range: { from: null, to: null },
       };
@@ -0,0 +1,396 @@
+/**
+ * Attendance Regularization Service
+ * Employee requests to correct a day's attendance (missed punch, on-duty, work from home).
+ * Requests are routed to the employee's manager through the approval workflow and only
+ * touch the attendance record once approved; the punch they replace is kept on the request.
+ */
+
+const { parseDatabaseUrl } = require('../utils/poolManager');
+const { Pool } = require('pg');
+const workflowService = require('./workflowService');
+const shiftService = require('./shiftService');
+
+const ENTITY_TYPE = 'attendance_regularization';
+
+const REQUEST_TYPE_LABELS = {
+  missed_punch: 'Missed punch',
+  on_duty: 'On duty',
+  work_from_home: 'Work from home',
+};
+
+/**
+ * Get agency database connection
+ */
+async function getAgencyConnection(agencyDatabase) {
+  const { host, port, user, password } = parseDatabaseUrl();
+  const agencyDbUrl = `postgresql://${user}:${password}@${host}:${port}/${agencyDatabase}`;
+  const agencyPool = new Pool({ connectionString: agencyDbUrl, max: 1 });
+  const client = await agencyPool.connect();
+  // Attach pool to client for cleanup
+  client.pool = agencyPool;
+  return client;
+}
+
+const toDateString = (value) => {
+  if (!value) return null;
+  if (value instanceof Date) {
+    const local = new Date(value.getTime() - value.getTimezoneOffset() * 60000);
+    return local.toISOString().split('T')[0];
+  }
+  return String(value).split('T')[0];
+};
+
+const parseTimestamp = (value, label) => {
+  if (!value) return null;
+  const parsed = new Date(value);
+  if (Number.isNaN(parsed.getTime())) {
+    throw new Error(`${label} is not a valid time`);
+  }
+  return parsed;
+};
+
+/**
+ * Get regularization requests, newest first
+ */
+async function getRegularizations(agencyDatabase, agencyId, filters = {}) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const conditions = ['(r.agency_id = $1 OR r.agency_id IS NULL)'];
+    const params = [agencyId];
+
+    if (filters.employee_id) {
+      params.push(filters.employee_id);
+      conditions.push(`r.employee_id = $${params.length}`);
+    }
+    if (filters.status) {
+      params.push(filters.status);
+      conditions.push(`r.status = $${params.length}`);
+    }
+
+    const result = await client.query(
+      `SELECT r.*, p.full_name AS employee_name, d.full_name AS decided_by_name,
+              a.check_in_time AS current_check_in, a.check_out_time AS current_check_out,
+              (SELECT string_agg(ap.full_name, ', ')
+               FROM public.workflow_approvals wa
+               JOIN public.profiles ap ON ap.user_id = wa.approver_id
+               WHERE wa.instance_id = r.workflow_instance_id AND wa.status = 'pending') AS pending_with
+       FROM public.attendance_regularizations r
+       LEFT JOIN public.profiles p ON p.user_id = r.employee_id
+       LEFT JOIN public.profiles d ON d.user_id = r.decided_by
+       LEFT JOIN public.attendance a ON COALESCE(a.employee_id, a.user_id) = r.employee_id AND a.date = r.attendance_date
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY r.created_at DESC`,
+      params
+    );
+    return result.rows.map((row) => ({ ...row, attendance_date: toDateString(row.attendance_date) }));
+  } catch (error) {
+    if (error.code === '42P01') {
+      return [];
+    }
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) await client.pool.end();
+  }
+}
+
+/**
+ * Raise a regularization request for the employee's own attendance and send it for approval
+ */
+async function createRegularization(agencyDatabase, agencyId, requestData, employeeId) {
+  const requestType = requestData.request_type;
+  if (!REQUEST_TYPE_LABELS[requestType]) {
+    throw new Error('Invalid regularization type');
+  }
+  const attendanceDate = toDateString(requestData.attendance_date);
+  if (!attendanceDate || Number.isNaN(new Date(`${attendanceDate}T00:00:00Z`).getTime())) {
+    throw new Error('Attendance date is required');
+  }
+  if (!requestData.reason || !String(requestData.reason).trim()) {
+    throw new Error('A reason is required');
+  }
+  const checkIn = parseTimestamp(requestData.requested_check_in, 'Check-in');
+  const checkOut = parseTimestamp(requestData.requested_check_out, 'Check-out');
+  if (requestType === 'missed_punch' && !checkIn && !checkOut) {
+    throw new Error('Enter the check-in or check-out time that was missed');
+  }
+  if (requestType !== 'missed_punch' && (!checkIn || !checkOut)) {
+    throw new Error('Check-in and check-out times are required');
+  }
+
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const timezone = await shiftService.getAgencyTimezone(client);
+    const todayResult = await client.query(`SELECT (NOW() AT TIME ZONE $1)::date AS today`, [timezone]);
+    if (attendanceDate > toDateString(todayResult.rows[0].today)) {
+      throw new Error('Attendance cannot be regularized for a future date');
+    }
+
+    const existing = await client.query(
+      `SELECT check_in_time, check_out_time FROM public.attendance
+       WHERE COALESCE(employee_id, user_id) = $1 AND date = $2`,
+      [employeeId, attendanceDate]
+    );
+    const current = existing.rows[0] || {};
+    // A missed punch keeps whichever punch was actually recorded
+    const effectiveIn = checkIn || current.check_in_time;
+    const effectiveOut = checkOut || current.check_out_time;
+    if (!effectiveIn) {
+      throw new Error('There is no check-in for this date; enter the check-in time');
+    }
+    if (effectiveOut && new Date(effectiveOut) <= new Date(effectiveIn)) {
+      throw new Error('Check-out must be after check-in');
+    }
+    if (effectiveOut && new Date(effectiveOut) - new Date(effectiveIn) > 24 * 3600000) {
+      throw new Error('A working day cannot be longer than 24 hours');
+    }
+
+    const pending = await client.query(
+      `SELECT id FROM public.attendance_regularizations
+       WHERE employee_id = $1 AND attendance_date = $2 AND status = 'pending'`,
+      [employeeId, attendanceDate]
+    );
+    if (pending.rows.length > 0) {
+      throw new Error('A regularization request for this date is already awaiting approval');
+    }
+
+    await client.query('BEGIN');
+
+    const inserted = await client.query(
+      `INSERT INTO public.attendance_regularizations (
+        agency_id, employee_id, attendance_date, request_type, requested_check_in, requested_check_out, reason, evidence
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      RETURNING *`,
+      [
+        agencyId,
+        employeeId,
+        attendanceDate,
+        requestType,
+        checkIn,
+        checkOut,
+        String(requestData.reason).trim(),
+        JSON.stringify(Array.isArray(requestData.evidence) ? requestData.evidence : []),
+      ]
+    );
+    const regularization = inserted.rows[0];
+
+    const profile = await client.query('SELECT full_name FROM public.profiles WHERE user_id = $1', [employeeId]);
+    const workflowId = await workflowService.ensureSystemApprovalWorkflow(
+      client,
+      agencyId,
+      { entity_type: ENTITY_TYPE, name: 'Attendance Regularization', description: 'Manager approval for attendance corrections' },
+      employeeId
+    );
+    const instance = await workflowService.startApprovalWorkflow(
+      client,
+      {
+        agency_id: agencyId,
+        workflow_id: workflowId,
+        entity_type: ENTITY_TYPE,
+        entity_id: regularization.id,
+        // Shown to approvers alongside the request
+        metadata: {
+          employee_id: employeeId,
+          employee_name: profile.rows[0] ? profile.rows[0].full_name : null,
+          attendance_date: attendanceDate,
+          request_type: REQUEST_TYPE_LABELS[requestType],
+          requested_check_in: checkIn,
+          requested_check_out: checkOut,
+          recorded_check_in: current.check_in_time || null,
+          recorded_check_out: current.check_out_time || null,
+          reason: regularization.reason,
+          evidence_files: Array.isArray(requestData.evidence) ? requestData.evidence.length : 0,
+        },
+      },
+      employeeId
+    );
+
+    const updated = await client.query(
+      `UPDATE public.attendance_regularizations SET workflow_instance_id = $2, updated_at = NOW()
+       WHERE id = $1
+       RETURNING *`,
+      [regularization.id, instance.id]
+    );
+
+    await client.query('COMMIT');
+    return { ...updated.rows[0], attendance_date: attendanceDate };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) await client.pool.end();
+  }
+}
+
+/**
+ * Withdraw a pending request. Only the employee who raised it can cancel it.
+ */
+async function cancelRegularization(agencyDatabase, agencyId, regularizationId, userId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  let regularization;
+  try {
+    const result = await client.query(
+      `SELECT * FROM public.attendance_regularizations WHERE id = $1 AND (agency_id = $2 OR agency_id IS NULL)`,
+      [regularizationId, agencyId]
+    );
+    regularization = result.rows[0];
+  } finally {
+    client.release();
+    if (client.pool) await client.pool.end();
+  }
+
+  if (!regularization) {
+    throw new Error('Regularization request not found');
+  }
+  if (regularization.employee_id !== userId) {
+    throw new Error('Only the employee who raised the request can cancel it');
+  }
+  if (regularization.status !== 'pending') {
+    throw new Error(`Request is already ${regularization.status}`);
+  }
+
+  // Cancelling the workflow instance marks the request cancelled through the completion handler
+  await workflowService.cancelWorkflowInstance(
+    agencyDatabase,
+    agencyId,
+    regularization.workflow_instance_id,
+    userId,
+    'Withdrawn by employee'
+  );
+  return { ...regularization, status: 'cancelled', attendance_date: toDateString(regularization.attendance_date) };
+}
+
+/**
+ * Write an approved request onto the attendance record. The requested punches replace the
+ * recorded ones (a missed punch keeps the one that was recorded) and the day is re-measured
+ * against the employee's shift.
+ */
+async function applyRegularization(client, regularization) {
+  const employeeId = regularization.employee_id;
+  const attendanceDate = toDateString(regularization.attendance_date);
+
+  const existingResult = await client.query(
+    `SELECT * FROM public.attendance WHERE COALESCE(employee_id, user_id) = $1 AND date = $2 FOR UPDATE`,
+    [employeeId, attendanceDate]
+  );
+  const existing = existingResult.rows[0] || null;
+
+  const checkIn = regularization.requested_check_in || (existing && existing.check_in_time);
+  const checkOut = regularization.requested_check_out || (existing && existing.check_out_time) || null;
+
+  const timezone = await shiftService.getAgencyTimezone(client);
+  const resolved = await shiftService.resolveShiftForDate(client, employeeId, timezone, attendanceDate);
+  const metrics = checkOut ? shiftService.computeAttendanceMetrics(checkIn, checkOut, resolved) : null;
+
+  let lateMinutes = metrics ? metrics.late_minutes : 0;
+  if (!metrics && resolved.shift) {
+    const minutesLate = Math.round((new Date(checkIn).getTime() - new Date(resolved.scheduled_start).getTime()) / 60000);
+    lateMinutes = minutesLate > resolved.shift.grace_minutes ? minutesLate : 0;
+  }
+  const status = metrics && metrics.is_half_day ? 'half_day' : lateMinutes > 0 ? 'late' : 'present';
+  const location =
+    regularization.request_type === 'missed_punch'
+      ? (existing && existing.location) || null
+      : REQUEST_TYPE_LABELS[regularization.request_type];
+  const note = `Regularized (${REQUEST_TYPE_LABELS[regularization.request_type].toLowerCase()}): ${regularization.reason}`;
+
+  const result = await client.query(
+    `INSERT INTO public.attendance (
+      user_id, employee_id, date, check_in_time, check_out_time, hours_worked, total_hours, overtime_hours,
+      status, location, agency_id, notes, shift_assignment_id, shift_id, scheduled_start, scheduled_end,
+      late_minutes, early_out_minutes, regularization_id
+    ) VALUES ($1, $1, $2, $3, $4, $5, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17)
+    ON CONFLICT (user_id, date) DO UPDATE
+    SET check_in_time = EXCLUDED.check_in_time,
+        check_out_time = EXCLUDED.check_out_time,
+        hours_worked = EXCLUDED.hours_worked,
+        total_hours = EXCLUDED.total_hours,
+        overtime_hours = EXCLUDED.overtime_hours,
+        status = EXCLUDED.status,
+        location = EXCLUDED.location,
+        notes = CASE WHEN attendance.notes IS NULL OR attendance.notes = '' THEN EXCLUDED.notes
+                     ELSE attendance.notes || E'\\n' || EXCLUDED.notes END,
+        shift_assignment_id = EXCLUDED.shift_assignment_id,
+        shift_id = EXCLUDED.shift_id,
+        scheduled_start = EXCLUDED.scheduled_start,
+        scheduled_end = EXCLUDED.scheduled_end,
+        late_minutes = EXCLUDED.late_minutes,
+        early_out_minutes = EXCLUDED.early_out_minutes,
+        regularization_id = EXCLUDED.regularization_id,
+        updated_at = NOW()
+    RETURNING *`,
+    [
+      employeeId,
+      attendanceDate,
+      checkIn,
+      checkOut,
+      metrics ? metrics.total_hours : null,
+      metrics ? metrics.overtime_hours : null,
+      status,
+      location,
+      regularization.agency_id,
+      note,
+      resolved.assignment_id,
+      resolved.shift ? resolved.shift.id : null,
+      resolved.scheduled_start,
+      resolved.scheduled_end,
+      lateMinutes,
+      metrics ? metrics.early_out_minutes : 0,
+      regularization.id,
+    ]
+  );
+
+  return { attendance: result.rows[0], original: existing };
+}
+
+/**
+ * Completion handler for the regularization approval workflow
+ */
+async function handleWorkflowCompletion(client, { instance, outcome, userId, comments }) {
+  const result = await client.query(
+    `SELECT * FROM public.attendance_regularizations WHERE id = $1 AND status = 'pending' FOR UPDATE`,
+    [instance.entity_id]
+  );
+  const regularization = result.rows[0];
+  if (!regularization) {
+    return;
+  }
+
+  if (outcome !== 'approved') {
+    await client.query(
+      `UPDATE public.attendance_regularizations
+       SET status = $2, decided_by = $3, decided_at = NOW(), decision_comments = $4, updated_at = NOW()
+       WHERE id = $1`,
+      [regularization.id, outcome, userId, comments]
+    );
+    return;
+  }
+
+  const { attendance, original } = await applyRegularization(client, regularization);
+  await client.query(
+    `UPDATE public.attendance_regularizations
+     SET status = 'approved', attendance_id = $2,
+         original_check_in = $3, original_check_out = $4, original_status = $5, original_total_hours = $6,
+         decided_by = $7, decided_at = NOW(), decision_comments = $8, updated_at = NOW()
+     WHERE id = $1`,
+    [
+      regularization.id,
+      attendance.id,
+      original ? original.check_in_time : null,
+      original ? original.check_out_time : null,
+      original ? original.status : null,
+      original ? original.total_hours : null,
+      userId,
+      comments,
+    ]
+  );
+}
+
+workflowService.registerCompletionHandler(ENTITY_TYPE, handleWorkflowCompletion);
+
+module.exports = {
+  getRegularizations,
+  createRegularization,
+  cancelRegularization,
+};
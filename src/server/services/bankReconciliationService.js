@@ -1,11 +1,14 @@
 /**
  * Bank Reconciliation Service
- * Handles bank account reconciliation
+ * Handles bank account reconciliation against journal entries and supplier payments
  */
 
 const { parseDatabaseUrl } = require('../utils/poolManager');
 const { Pool } = require('pg');
+const { round2 } = require('../utils/numberHelper');
 const crypto = require('crypto');
+const { findOrCreateAccount } = require('../utils/accountingHelper');
+const { generateEntryNumber, insertJournalEntry } = require('./fxAccountingService');
 
 function generateUUID() {
   return crypto.randomUUID();
@@ -15,38 +18,480 @@ async function getAgencyConnection(agencyDatabase) {
   const { host, port, user, password } = parseDatabaseUrl();
   const agencyDbUrl = `postgresql://${user}:${password}@${host}:${port}/${agencyDatabase}`;
   const agencyPool = new Pool({ connectionString: agencyDbUrl, max: 1 });
-  return await agencyPool.connect();
+  const client = await agencyPool.connect();
+  // Attach pool to client for cleanup
+  client.pool = agencyPool;
+  return client;
+}
+
+// Days either side of a statement line within which ledger entries are considered
+const MATCH_WINDOW_DAYS = 7;
+// Suggestions below this confidence are not returned
+const MIN_SUGGESTION_CONFIDENCE = 40;
+// Largest number of entries combined into a split or many-to-one suggestion
+const MAX_COMBINATION_SIZE = 4;
+
+// Supplier payments are posted against accounts payable when matched to the statement
+const PAYABLE_ACCOUNT = {
+  account_code: '2100',
+  account_name: 'Accounts Payable',
+  account_type: 'liability',
+  pattern: '%accounts payable%',
+};
+
+const MONTHS = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6,
+  jul: 7, aug: 8, sep: 9, oct: 10, nov: 11, dec: 12,
+};
+
+const toCents = (value) => Math.round(parseFloat(value || 0) * 100);
+
+function pad2(value) {
+  return String(value).padStart(2, '0');
+}
+
+/**
+ * Normalise the date formats banks use in statements to YYYY-MM-DD
+ */
+function parseStatementDate(value) {
+  if (!value) return null;
+  const str = String(value).trim();
+
+  let match = str.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (match) return `${match[1]}-${pad2(match[2])}-${pad2(match[3])}`;
+
+  match = str.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (match) return `${match[1]}-${match[2]}-${match[3]}`;
+
+  // Indian banks use day-first dates: 31/03/2024, 31-03-24, 31.03.2024
+  match = str.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})$/);
+  if (match) {
+    const year = match[3].length === 2 ? `20${match[3]}` : match[3];
+    return `${year}-${pad2(match[2])}-${pad2(match[1])}`;
+  }
+
+  // 31-Mar-2024, 31 Mar 24
+  match = str.match(/^(\d{1,2})[\s/-]([A-Za-z]{3})[A-Za-z]*[\s/-](\d{2,4})$/);
+  if (match && MONTHS[match[2].toLowerCase()]) {
+    const year = match[3].length === 2 ? `20${match[3]}` : match[3];
+    return `${year}-${pad2(MONTHS[match[2].toLowerCase()])}-${pad2(match[1])}`;
+  }
+
+  return null;
+}
+
+/**
+ * Parse an amount such as "1,234.50", "(250.00)", "500 Dr" or "₹ 1,000"
+ */
+function parseStatementAmount(value) {
+  if (value === null || value === undefined) return 0;
+  let str = String(value).trim();
+  if (!str) return 0;
+
+  let sign = 1;
+  if (/^\(.*\)$/.test(str)) {
+    sign = -1;
+    str = str.slice(1, -1);
+  }
+  if (/\bdr\.?$/i.test(str)) {
+    sign = -1;
+  }
+  str = str.replace(/\b(dr|cr)\.?$/i, '').replace(/[^0-9.-]/g, '');
+  const amount = parseFloat(str);
+  return isNaN(amount) ? 0 : sign * amount;
+}
+
+function splitCsvLine(line, delimiter) {
+  const cells = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+}
+
+/**
+ * Parse a CSV statement. Column headers are matched loosely so exports
+ * from most banks work without mapping.
+ */
+function parseCsvStatement(content) {
+  const lines = content.split(/\r?\n/).filter((line) => line.trim());
+  if (lines.length < 2) return [];
+
+  const delimiter = (lines[0].match(/;/g) || []).length > (lines[0].match(/,/g) || []).length ? ';' : ',';
+
+  // Some banks put account details above the table, so find the header row
+  const headerIndex = lines.findIndex((line) => /date/i.test(line) && /(amount|debit|credit|withdrawal|deposit)/i.test(line));
+  if (headerIndex === -1) {
+    throw new Error('Could not find a header row with date and amount columns in the CSV statement');
+  }
+
+  const headers = splitCsvLine(lines[headerIndex], delimiter).map((h) => h.toLowerCase());
+  const findColumn = (pattern, exclude) => headers.findIndex((h) => pattern.test(h) && !(exclude && exclude.test(h)));
+
+  const columns = {
+    date: findColumn(/date/, /value date/) !== -1 ? findColumn(/date/, /value date/) : findColumn(/date/),
+    description: findColumn(/description|narration|particulars|details|memo|remarks/),
+    debit: findColumn(/debit|withdrawal|paid out|\bdr\b/),
+    credit: findColumn(/credit|deposit|paid in|\bcr\b/),
+    amount: findColumn(/^amount|transaction amount/),
+    balance: findColumn(/balance/),
+    reference: findColumn(/ref|cheque|chq|utr/),
+  };
+
+  const rows = [];
+  for (const line of lines.slice(headerIndex + 1)) {
+    const cells = splitCsvLine(line, delimiter);
+    const transactionDate = parseStatementDate(cells[columns.date]);
+    if (!transactionDate) continue; // Skip totals and footer lines
+
+    let debit = columns.debit !== -1 ? Math.abs(parseStatementAmount(cells[columns.debit])) : 0;
+    let credit = columns.credit !== -1 ? Math.abs(parseStatementAmount(cells[columns.credit])) : 0;
+    if (!debit && !credit && columns.amount !== -1) {
+      const amount = parseStatementAmount(cells[columns.amount]);
+      if (amount < 0) debit = Math.abs(amount);
+      else credit = amount;
+    }
+    if (!debit && !credit) continue;
+
+    rows.push({
+      transaction_date: transactionDate,
+      description: columns.description !== -1 ? cells[columns.description] : '',
+      debit,
+      credit,
+      balance: columns.balance !== -1 && cells[columns.balance] ? parseStatementAmount(cells[columns.balance]) : null,
+      reference_number: columns.reference !== -1 ? cells[columns.reference] || null : null,
+    });
+  }
+  return rows;
+}
+
+/**
+ * Parse an OFX/QFX statement (SGML or XML flavour)
+ */
+function parseOfxStatement(content) {
+  const getTag = (block, tag) => {
+    const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+    return match ? match[1].trim() : '';
+  };
+
+  const rows = [];
+  const blocks = content.split(/<STMTTRN>/i).slice(1);
+  for (const rawBlock of blocks) {
+    const block = rawBlock.split(/<\/STMTTRN>/i)[0];
+    const amount = parseStatementAmount(getTag(block, 'TRNAMT'));
+    const transactionDate = parseStatementDate(getTag(block, 'DTPOSTED'));
+    if (!transactionDate || !amount) continue;
+
+    rows.push({
+      transaction_date: transactionDate,
+      description: [getTag(block, 'NAME'), getTag(block, 'MEMO')].filter(Boolean).join(' - '),
+      debit: amount < 0 ? Math.abs(amount) : 0,
+      credit: amount > 0 ? amount : 0,
+      balance: null,
+      reference_number: getTag(block, 'CHECKNUM') || getTag(block, 'REFNUM') || null,
+      external_id: getTag(block, 'FITID') || null,
+    });
+  }
+  return rows;
+}
+
+/**
+ * Parse an MT940 (SWIFT) statement: :61: statement lines with :86: details
+ */
+function parseMt940Statement(content) {
+  const rows = [];
+  const lines = content.split(/\r?\n/);
+  let current = null;
+  let collectingDetails = false;
+
+  for (const line of lines) {
+    if (line.startsWith(':61:')) {
+      const match = line.match(/^:61:(\d{2})(\d{2})(\d{2})(\d{4})?(R?[CD])[A-Z]?(\d+,\d{0,2})([A-Z][A-Z0-9]{3})?([^/]*)(?:\/\/(.*))?/);
+      collectingDetails = false;
+      if (!match) {
+        current = null;
+        continue;
+      }
+      const amount = parseFloat(match[6].replace(',', '.'));
+      // RC is a reversed credit (money out), RD a reversed debit (money in)
+      const isDebit = match[5] === 'D' || match[5] === 'RC';
+      const customerRef = (match[8] || '').trim();
+      current = {
+        transaction_date: `20${match[1]}-${match[2]}-${match[3]}`,
+        description: '',
+        debit: isDebit ? amount : 0,
+        credit: isDebit ? 0 : amount,
+        balance: null,
+        reference_number: customerRef && customerRef !== 'NONREF' ? customerRef : null,
+        external_id: match[9] ? match[9].trim() : null,
+      };
+      rows.push(current);
+    } else if (line.startsWith(':86:') && current) {
+      current.description = line.substring(4).trim();
+      collectingDetails = true;
+    } else if (line.startsWith(':')) {
+      collectingDetails = false;
+    } else if (collectingDetails && current && line.trim() && line.trim() !== '-}') {
+      current.description = `${current.description} ${line.trim()}`.trim();
+    }
+  }
+  return rows;
+}
+
+/**
+ * Parse raw statement content into rows of
+ * { transaction_date, description, debit, credit, balance, reference_number, external_id }
+ */
+function parseStatement(content, format = 'auto') {
+  let resolvedFormat = format;
+  if (!format || format === 'auto') {
+    if (/<OFX>|OFXHEADER/i.test(content)) resolvedFormat = 'ofx';
+    else if (/^:61:/m.test(content)) resolvedFormat = 'mt940';
+    else resolvedFormat = 'csv';
+  }
+
+  switch (resolvedFormat) {
+    case 'ofx':
+      return { format: 'ofx', rows: parseOfxStatement(content) };
+    case 'mt940':
+      return { format: 'mt940', rows: parseMt940Statement(content) };
+    case 'csv':
+      return { format: 'csv', rows: parseCsvStatement(content) };
+    default:
+      throw new Error(`Unsupported statement format: ${format}`);
+  }
+}
+
+/**
+ * Build a stable id for statement lines that have none, so re-importing
+ * the same file does not create duplicates
+ */
+function buildExternalId(row, occurrence) {
+  return crypto
+    .createHash('sha1')
+    .update([row.transaction_date, row.debit, row.credit, row.description, row.reference_number, row.balance, occurrence].join('|'))
+    .digest('hex');
+}
+
+async function getBankAccount(client, agencyId, bankAccountId) {
+  const result = await client.query(
+    'SELECT * FROM public.bank_accounts WHERE id = $1 AND agency_id = $2',
+    [bankAccountId, agencyId]
+  );
+  if (result.rows.length === 0) {
+    throw new Error('Bank account not found');
+  }
+  return result.rows[0];
+}
+
+/**
+ * Get bank accounts
+ */
+async function getBankAccounts(agencyDatabase, agencyId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const result = await client.query(
+      `SELECT ba.*, coa.account_code AS gl_account_code, coa.account_name AS gl_account_name,
+        (SELECT COUNT(*) FROM public.bank_transactions bt
+         WHERE bt.bank_account_id = ba.id AND bt.reconciled = false) AS unreconciled_count,
+        (SELECT MAX(br.reconciliation_date) FROM public.bank_reconciliations br
+         WHERE br.bank_account_id = ba.id AND br.status = 'reconciled') AS last_reconciled_date
+       FROM public.bank_accounts ba
+       LEFT JOIN public.chart_of_accounts coa ON coa.id = ba.gl_account_id
+       WHERE ba.agency_id = $1
+       ORDER BY ba.is_primary DESC, ba.account_name ASC`,
+      [agencyId]
+    );
+    return result.rows;
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
 }
 
 /**
- * Import bank statement (CSV format)
+ * Create bank account
  */
-async function importBankStatement(agencyDatabase, bankAccountId, statementData) {
+async function createBankAccount(agencyDatabase, agencyId, accountData) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const result = await client.query(
+      `INSERT INTO public.bank_accounts (
+        id, agency_id, account_name, account_number, bank_name, branch_name,
+        ifsc_code, swift_code, account_type, currency, opening_balance, current_balance,
+        is_primary, gl_account_id, notes, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $11, $12, $13, $14, NOW(), NOW())
+      RETURNING *`,
+      [
+        generateUUID(),
+        agencyId,
+        accountData.account_name,
+        accountData.account_number || null,
+        accountData.bank_name,
+        accountData.branch_name || null,
+        accountData.ifsc_code || null,
+        accountData.swift_code || null,
+        accountData.account_type || 'current',
+        accountData.currency || 'INR',
+        parseFloat(accountData.opening_balance || 0),
+        accountData.is_primary || false,
+        accountData.gl_account_id || null,
+        accountData.notes || null,
+      ]
+    );
+    return result.rows[0];
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Update bank account
+ */
+async function updateBankAccount(agencyDatabase, agencyId, bankAccountId, accountData) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const allowedFields = [
+      'account_name', 'account_number', 'bank_name', 'branch_name', 'ifsc_code',
+      'swift_code', 'account_type', 'currency', 'is_active', 'is_primary', 'gl_account_id', 'notes',
+    ];
+    const updates = [];
+    const params = [];
+    let paramIndex = 1;
+
+    for (const field of allowedFields) {
+      if (accountData[field] !== undefined) {
+        updates.push(`${field} = $${paramIndex}`);
+        params.push(accountData[field] === '' ? null : accountData[field]);
+        paramIndex++;
+      }
+    }
+
+    if (updates.length === 0) {
+      return await getBankAccount(client, agencyId, bankAccountId);
+    }
+
+    params.push(bankAccountId, agencyId);
+    const result = await client.query(
+      `UPDATE public.bank_accounts SET ${updates.join(', ')}, updated_at = NOW()
+       WHERE id = $${paramIndex} AND agency_id = $${paramIndex + 1}
+       RETURNING *`,
+      params
+    );
+
+    if (result.rows.length === 0) {
+      throw new Error('Bank account not found');
+    }
+    return result.rows[0];
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Import bank statement
+ * statementData is either parsed rows or raw CSV/OFX/MT940 content
+ */
+async function importBankStatement(agencyDatabase, agencyId, bankAccountId, statementData, format = 'auto') {
+  let statementFormat = 'rows';
+  let rows = statementData;
+  if (typeof statementData === 'string') {
+    const parsed = parseStatement(statementData, format);
+    statementFormat = parsed.format;
+    rows = parsed.rows;
+  }
+  if (!Array.isArray(rows) || rows.length === 0) {
+    throw new Error('No transactions found in the bank statement');
+  }
+
   const client = await getAgencyConnection(agencyDatabase);
   try {
     await client.query('BEGIN');
 
+    const bankAccount = await getBankAccount(client, agencyId, bankAccountId);
+    const importBatchId = generateUUID();
     const transactions = [];
+    const occurrences = new Map();
+    let skippedCount = 0;
 
-    for (const row of statementData) {
+    for (const row of rows) {
       // Parse statement row (date, description, debit, credit, balance)
+      const debit = Math.abs(parseFloat(row.debit || 0));
+      const credit = Math.abs(parseFloat(row.credit || 0));
+      const transactionDate = parseStatementDate(row.transaction_date);
+      if (!transactionDate || (!debit && !credit)) {
+        skippedCount++;
+        continue;
+      }
+
+      const normalized = { ...row, transaction_date: transactionDate, debit, credit };
+      let externalId = row.external_id;
+      if (!externalId) {
+        const key = buildExternalId(normalized, 0);
+        const occurrence = occurrences.get(key) || 0;
+        occurrences.set(key, occurrence + 1);
+        externalId = buildExternalId(normalized, occurrence);
+      }
+
+      const existing = await client.query(
+        'SELECT id FROM public.bank_transactions WHERE bank_account_id = $1 AND external_id = $2',
+        [bankAccountId, externalId]
+      );
+      if (existing.rows.length > 0) {
+        skippedCount++;
+        continue;
+      }
+
       const transaction = await client.query(
         `INSERT INTO public.bank_transactions (
           id, agency_id, bank_account_id, transaction_date, transaction_type,
-          amount, balance_after, description, reference_number, category, reconciled, created_at
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, false, NOW())
+          amount, balance_after, description, reference_number, category, reconciled,
+          external_id, import_batch_id, statement_format, created_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, false, $11, $12, $13, NOW())
         RETURNING *`,
         [
           generateUUID(),
-          row.agency_id,
+          agencyId,
           bankAccountId,
-          row.transaction_date,
-          parseFloat(row.debit || 0) > 0 ? 'debit' : 'credit',
-          parseFloat(row.debit || row.credit || 0),
-          row.balance || null,
+          transactionDate,
+          debit > 0 ? 'debit' : 'credit',
+          debit > 0 ? debit : credit,
+          row.balance ?? null,
           row.description || '',
           row.reference_number || null,
           row.category || null,
+          externalId,
+          importBatchId,
+          statementFormat,
         ]
       );
       transactions.push(transaction.rows[0]);
@@ -54,73 +499,753 @@ async function importBankStatement(agencyDatabase, bankAccountId, statementData)
 
     // Update bank account balance
     const balanceResult = await client.query(
-      `SELECT 
+      `SELECT
         SUM(CASE WHEN transaction_type = 'credit' THEN amount ELSE -amount END) as balance
        FROM public.bank_transactions
        WHERE bank_account_id = $1`,
       [bankAccountId]
     );
 
-    const newBalance = parseFloat(balanceResult.rows[0].balance || 0);
+    const newBalance = parseFloat(bankAccount.opening_balance || 0) + parseFloat(balanceResult.rows[0].balance || 0);
     await client.query(
       'UPDATE public.bank_accounts SET current_balance = $1, updated_at = NOW() WHERE id = $2',
       [newBalance, bankAccountId]
     );
 
     await client.query('COMMIT');
-    return transactions;
+    return { transactions, skipped_count: skippedCount, format: statementFormat };
   } catch (error) {
     await client.query('ROLLBACK');
     throw error;
   } finally {
     client.release();
-    await client.client.pool.end();
+    if (client.pool) {
+      await client.pool.end();
+    }
   }
 }
 
 /**
- * Reconcile bank account
+ * Statement lines that are not yet fully matched, with the amount still open
+ */
+async function getOpenBankTransactions(client, bankAccountId, startDate, endDate) {
+  const params = [bankAccountId];
+  let query = `
+    SELECT bt.*,
+      COALESCE((SELECT SUM(m.matched_amount) FROM public.bank_reconciliation_matches m
+                WHERE m.bank_transaction_id = bt.id), 0) AS matched_amount
+    FROM public.bank_transactions bt
+    WHERE bt.bank_account_id = $1 AND bt.reconciled = false
+  `;
+  if (startDate) {
+    params.push(startDate);
+    query += ` AND bt.transaction_date >= $${params.length}`;
+  }
+  if (endDate) {
+    params.push(endDate);
+    query += ` AND bt.transaction_date <= $${params.length}`;
+  }
+  query += ' ORDER BY bt.transaction_date ASC, bt.created_at ASC';
+
+  const result = await client.query(query, params);
+  return result.rows
+    .map((row) => {
+      const signed = row.transaction_type === 'credit' ? toCents(row.amount) : -toCents(row.amount);
+      const openCents = toCents(row.amount) - toCents(row.matched_amount);
+      return { ...row, signed_cents: signed, open_cents: openCents };
+    })
+    .filter((row) => row.open_cents > 0);
+}
+
+/**
+ * Posted journal entries touching the bank's ledger account that are not yet fully matched.
+ * Without a linked ledger account, cash and bank asset accounts are used.
+ */
+async function getOpenLedgerEntries(client, agencyId, bankAccount, startDate, endDate) {
+  const params = [agencyId];
+  let accountFilter;
+  if (bankAccount.gl_account_id) {
+    params.push(bankAccount.gl_account_id);
+    accountFilter = `jel.account_id = $${params.length}`;
+  } else {
+    accountFilter = `LOWER(coa.account_type) = 'asset' AND (coa.account_name ILIKE '%cash%' OR coa.account_name ILIKE '%bank%')`;
+  }
+
+  let dateFilter = '';
+  if (startDate) {
+    params.push(startDate);
+    dateFilter += ` AND je.entry_date >= $${params.length}`;
+  }
+  if (endDate) {
+    params.push(endDate);
+    dateFilter += ` AND je.entry_date <= $${params.length}`;
+  }
+
+  const result = await client.query(
+    `SELECT je.id, je.entry_number, je.entry_date, je.description, je.reference,
+       SUM(COALESCE(jel.debit_amount, 0) - COALESCE(jel.credit_amount, 0)) AS net_amount,
+       COALESCE((SELECT SUM(m.matched_amount) FROM public.bank_reconciliation_matches m
+                 WHERE m.journal_entry_id = je.id), 0) AS matched_amount
+     FROM public.journal_entries je
+     JOIN public.journal_entry_lines jel ON jel.journal_entry_id = je.id
+     JOIN public.chart_of_accounts coa ON coa.id = jel.account_id
+     WHERE je.agency_id = $1 AND je.status = 'posted' AND ${accountFilter} ${dateFilter}
+     GROUP BY je.id
+     ORDER BY je.entry_date ASC`,
+    params
+  );
+
+  return result.rows
+    .map((row) => {
+      const signed = toCents(row.net_amount);
+      const openCents = Math.abs(signed) - toCents(row.matched_amount);
+      return { ...row, source: 'journal_entry', signed_cents: signed, open_cents: openCents };
+    })
+    .filter((row) => row.signed_cents !== 0 && row.open_cents > 0);
+}
+
+/**
+ * Supplier payments recorded on vendor bills that have not been posted to the ledger yet.
+ * They are matched like ledger entries and posted when the match is made.
+ */
+async function getOpenVendorPayments(client, agencyId, startDate, endDate) {
+  const params = [agencyId];
+  let dateFilter = '';
+  if (startDate) {
+    params.push(startDate);
+    dateFilter += ` AND vi.paid_date >= $${params.length}`;
+  }
+  if (endDate) {
+    params.push(endDate);
+    dateFilter += ` AND vi.paid_date <= $${params.length}`;
+  }
+
+  try {
+    const result = await client.query(
+      `SELECT vi.id, vi.invoice_number, vi.paid_date, vi.paid_amount, vi.exchange_rate, vi.payment_method,
+         COALESCE(s.company_name, s.name) AS supplier_name
+       FROM public.vendor_invoices vi
+       LEFT JOIN public.suppliers s ON s.id = vi.supplier_id
+       WHERE vi.agency_id = $1 AND vi.paid_date IS NOT NULL AND COALESCE(vi.paid_amount, 0) > 0
+         AND NOT EXISTS (
+           SELECT 1 FROM public.journal_entries je
+           WHERE je.source_type = 'vendor_payment' AND je.source_id = vi.id
+         ) ${dateFilter}
+       ORDER BY vi.paid_date ASC`,
+      params
+    );
+    return result.rows.map((row) => {
+      const cents = toCents(parseFloat(row.paid_amount) * (parseFloat(row.exchange_rate) || 1));
+      return {
+        id: row.id,
+        source: 'vendor_payment',
+        entry_number: null,
+        entry_date: row.paid_date,
+        description: `Payment to ${row.supplier_name || 'supplier'} for bill ${row.invoice_number}`,
+        reference: row.invoice_number,
+        signed_cents: -cents,
+        open_cents: cents,
+      };
+    });
+  } catch (error) {
+    if (error.code === '42P01') return [];
+    throw error;
+  }
+}
+
+/**
+ * Post a matched supplier payment: debit accounts payable, credit the bank's ledger account
+ */
+async function postVendorPayment(client, agencyId, bankAccount, payment, userId) {
+  if (!bankAccount.gl_account_id) {
+    throw new Error('Link this bank account to a ledger account before matching supplier payments');
+  }
+  const payableAccountId = await findOrCreateAccount(
+    client,
+    agencyId,
+    PAYABLE_ACCOUNT,
+    'Created automatically for supplier payments matched in bank reconciliation'
+  );
+  const amount = payment.open_cents / 100;
+  const entry = await insertJournalEntry(client, agencyId, {
+    entry_number: generateEntryNumber('VPAY'),
+    entry_date: payment.entry_date,
+    description: payment.description,
+    reference: payment.reference,
+    source_type: 'vendor_payment',
+    source_id: payment.id,
+  }, [
+    { account_id: payableAccountId, description: payment.description, debit: amount, credit: 0 },
+    { account_id: bankAccount.gl_account_id, description: payment.description, debit: 0, credit: amount },
+  ], userId);
+  return { ...payment, id: entry.id, source: 'journal_entry', entry_number: entry.entry_number };
+}
+
+function daysBetween(a, b) {
+  return Math.abs(new Date(a).getTime() - new Date(b).getTime()) / 86400000;
+}
+
+function normalizeReference(value) {
+  return String(value || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function dateScore(bankTransaction, entry) {
+  return 25 * Math.max(0, 1 - daysBetween(bankTransaction.transaction_date, entry.entry_date) / MATCH_WINDOW_DAYS);
+}
+
+/**
+ * Reference evidence: the same reference on both sides scores 25,
+ * shared description words up to 10
+ */
+function referenceScore(bankTransaction, entry) {
+  const bankText = normalizeReference(`${bankTransaction.reference_number || ''}${bankTransaction.description || ''}`);
+  const entryRefs = [entry.reference, entry.entry_number].map(normalizeReference).filter((ref) => ref.length >= 4);
+  const bankRef = normalizeReference(bankTransaction.reference_number);
+
+  if (entryRefs.some((ref) => bankText.includes(ref) || (bankRef.length >= 4 && ref.includes(bankRef)))) {
+    return 25;
+  }
+
+  const words = (text) => new Set(String(text || '').toLowerCase().split(/[^a-z0-9]+/).filter((w) => w.length >= 4));
+  const bankWords = words(bankTransaction.description);
+  const entryWords = words(entry.description);
+  let shared = 0;
+  for (const word of entryWords) {
+    if (bankWords.has(word)) shared++;
+  }
+  return Math.min(10, shared * 5);
+}
+
+/**
+ * Confidence (0-100) that a statement line and a ledger entry are the same movement:
+ * amount up to 50, date proximity up to 25, reference up to 25
+ */
+function scoreMatch(bankTransaction, entry) {
+  if (Math.sign(bankTransaction.signed_cents) !== Math.sign(entry.signed_cents)) return 0;
+
+  const difference = Math.abs(bankTransaction.open_cents - entry.open_cents);
+  let amountScore = 0;
+  if (difference === 0) amountScore = 50;
+  else if (difference <= bankTransaction.open_cents * 0.01) amountScore = 30;
+  else return 0;
+
+  return Math.round(amountScore + dateScore(bankTransaction, entry) + referenceScore(bankTransaction, entry));
+}
+
+/**
+ * Find up to MAX_COMBINATION_SIZE items whose open amounts add up exactly to the target
+ */
+function findCombination(items, targetCents) {
+  const sorted = [...items].sort((a, b) => b.open_cents - a.open_cents);
+  const chosen = [];
+
+  const search = (startIndex, remaining) => {
+    if (remaining === 0) return chosen.length >= 2;
+    if (chosen.length >= MAX_COMBINATION_SIZE) return false;
+    for (let i = startIndex; i < sorted.length; i++) {
+      if (sorted[i].open_cents > remaining) continue;
+      chosen.push(sorted[i]);
+      if (search(i + 1, remaining - sorted[i].open_cents)) return true;
+      chosen.pop();
+    }
+    return false;
+  };
+
+  return search(0, targetCents) ? [...chosen] : null;
+}
+
+function describeTransaction(transaction) {
+  return {
+    id: transaction.id,
+    transaction_date: transaction.transaction_date,
+    transaction_type: transaction.transaction_type,
+    amount: parseFloat(transaction.amount),
+    open_amount: transaction.open_cents / 100,
+    description: transaction.description,
+    reference_number: transaction.reference_number,
+  };
+}
+
+function describeEntry(entry) {
+  return {
+    id: entry.id,
+    source: entry.source,
+    entry_number: entry.entry_number,
+    entry_date: entry.entry_date,
+    description: entry.description,
+    reference: entry.reference,
+    amount: entry.signed_cents / 100,
+    open_amount: entry.open_cents / 100,
+  };
+}
+
+/**
+ * Suggest matches between open statement lines and ledger entries or unposted supplier payments.
+ * One-to-one suggestions are assigned greedily by confidence, then remaining
+ * lines are tried as splits (one line, several entries) and remaining
+ * entries as many-to-one (several lines, one entry).
+ */
+async function suggestMatches(agencyDatabase, agencyId, bankAccountId, startDate, endDate) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const bankAccount = await getBankAccount(client, agencyId, bankAccountId);
+    const transactions = await getOpenBankTransactions(client, bankAccountId, startDate, endDate);
+
+    const windowStart = startDate ? new Date(new Date(startDate).getTime() - MATCH_WINDOW_DAYS * 86400000) : null;
+    const windowEnd = endDate ? new Date(new Date(endDate).getTime() + MATCH_WINDOW_DAYS * 86400000) : null;
+    const windowStartDate = windowStart ? windowStart.toISOString().split('T')[0] : null;
+    const windowEndDate = windowEnd ? windowEnd.toISOString().split('T')[0] : null;
+    const entries = [
+      ...(await getOpenLedgerEntries(client, agencyId, bankAccount, windowStartDate, windowEndDate)),
+      ...(await getOpenVendorPayments(client, agencyId, windowStartDate, windowEndDate)),
+    ];
+
+    const suggestions = [];
+    const usedTransactions = new Set();
+    const usedEntries = new Set();
+
+    const pairs = [];
+    for (const transaction of transactions) {
+      for (const entry of entries) {
+        if (daysBetween(transaction.transaction_date, entry.entry_date) > MATCH_WINDOW_DAYS) continue;
+        const confidence = scoreMatch(transaction, entry);
+        if (confidence >= MIN_SUGGESTION_CONFIDENCE) {
+          pairs.push({ transaction, entry, confidence });
+        }
+      }
+    }
+    pairs.sort((a, b) => b.confidence - a.confidence);
+
+    for (const pair of pairs) {
+      if (usedTransactions.has(pair.transaction.id) || usedEntries.has(pair.entry.id)) continue;
+      usedTransactions.add(pair.transaction.id);
+      usedEntries.add(pair.entry.id);
+      suggestions.push({
+        match_type: 'one_to_one',
+        confidence: pair.confidence,
+        amount: Math.min(pair.transaction.open_cents, pair.entry.open_cents) / 100,
+        transactions: [describeTransaction(pair.transaction)],
+        entries: [describeEntry(pair.entry)],
+      });
+    }
+
+    const nearby = (date, items, dateKey) => items.filter(
+      (item) => daysBetween(date, item[dateKey]) <= MATCH_WINDOW_DAYS
+    );
+
+    for (const transaction of transactions) {
+      if (usedTransactions.has(transaction.id)) continue;
+      const candidates = nearby(transaction.transaction_date, entries, 'entry_date').filter(
+        (entry) => !usedEntries.has(entry.id) && Math.sign(entry.signed_cents) === Math.sign(transaction.signed_cents)
+      );
+      const combination = findCombination(candidates, transaction.open_cents);
+      if (!combination) continue;
+
+      usedTransactions.add(transaction.id);
+      combination.forEach((entry) => usedEntries.add(entry.id));
+      const avgDateScore = combination.reduce((sum, entry) => sum + dateScore(transaction, entry), 0) / combination.length;
+      suggestions.push({
+        match_type: 'split',
+        confidence: Math.round(45 + avgDateScore * 0.8),
+        amount: transaction.open_cents / 100,
+        transactions: [describeTransaction(transaction)],
+        entries: combination.map(describeEntry),
+      });
+    }
+
+    for (const entry of entries) {
+      if (usedEntries.has(entry.id)) continue;
+      const candidates = nearby(entry.entry_date, transactions, 'transaction_date').filter(
+        (transaction) => !usedTransactions.has(transaction.id) && Math.sign(entry.signed_cents) === Math.sign(transaction.signed_cents)
+      );
+      const combination = findCombination(candidates, entry.open_cents);
+      if (!combination) continue;
+
+      usedEntries.add(entry.id);
+      combination.forEach((transaction) => usedTransactions.add(transaction.id));
+      const avgDateScore = combination.reduce((sum, transaction) => sum + dateScore(transaction, entry), 0) / combination.length;
+      suggestions.push({
+        match_type: 'many_to_one',
+        confidence: Math.round(45 + avgDateScore * 0.8),
+        amount: entry.open_cents / 100,
+        transactions: combination.map(describeTransaction),
+        entries: [describeEntry(entry)],
+      });
+    }
+
+    return {
+      suggestions: suggestions.sort((a, b) => b.confidence - a.confidence),
+      open_transactions: transactions.map(describeTransaction),
+      open_entries: entries.map(describeEntry),
+    };
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Match statement lines to journal entries or supplier payments.
+ * Either side may have several items, but not both: one line split across
+ * entries, or several lines settling one entry. Supplier payments are posted
+ * to the ledger as part of the match.
+ */
+async function createMatch(agencyDatabase, agencyId, matchData, userId) {
+  const transactionIds = matchData.bank_transaction_ids || [];
+  const journalEntryIds = matchData.journal_entry_ids || [];
+  const vendorPaymentIds = matchData.vendor_payment_ids || [];
+  const entryIds = [...journalEntryIds, ...vendorPaymentIds];
+
+  if (transactionIds.length === 0 || entryIds.length === 0) {
+    throw new Error('Select at least one bank transaction and one journal entry or supplier payment');
+  }
+  if (transactionIds.length > 1 && entryIds.length > 1) {
+    throw new Error('A match must involve a single bank transaction or a single journal entry');
+  }
+
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    await client.query('BEGIN');
+
+    const bankAccount = await getBankAccount(client, agencyId, matchData.bank_account_id);
+    if (vendorPaymentIds.length > 0) {
+      // Lock the bills so a payment cannot be posted twice by concurrent matches
+      await client.query(
+        'SELECT id FROM public.vendor_invoices WHERE id = ANY($1) AND agency_id = $2 FOR UPDATE',
+        [vendorPaymentIds, agencyId]
+      );
+    }
+    const transactions = (await getOpenBankTransactions(client, bankAccount.id))
+      .filter((transaction) => transactionIds.includes(transaction.id));
+    const entries = [
+      ...(await getOpenLedgerEntries(client, agencyId, bankAccount))
+        .filter((entry) => journalEntryIds.includes(entry.id)),
+      ...(await getOpenVendorPayments(client, agencyId))
+        .filter((payment) => vendorPaymentIds.includes(payment.id)),
+    ];
+
+    if (transactions.length !== transactionIds.length) {
+      throw new Error('Some bank transactions are already matched or reconciled');
+    }
+    if (entries.length !== entryIds.length) {
+      throw new Error('Some journal entries or supplier payments are already matched or do not affect this bank account');
+    }
+
+    const direction = Math.sign(transactions[0].signed_cents);
+    if ([...transactions, ...entries].some((item) => Math.sign(item.signed_cents) !== direction)) {
+      throw new Error('Receipts can only be matched to receipts and payments to payments');
+    }
+
+    const transactionTotal = transactions.reduce((sum, t) => sum + t.open_cents, 0);
+    const entryTotal = entries.reduce((sum, e) => sum + e.open_cents, 0);
+    if (transactionTotal !== entryTotal) {
+      throw new Error(
+        `Matched amounts do not agree: bank ${(transactionTotal / 100).toFixed(2)} vs ledger ${(entryTotal / 100).toFixed(2)}`
+      );
+    }
+
+    for (const [index, entry] of entries.entries()) {
+      if (entry.source === 'vendor_payment') {
+        entries[index] = await postVendorPayment(client, agencyId, bankAccount, entry, userId);
+      }
+    }
+
+    let matchType = 'one_to_one';
+    if (entries.length > 1) matchType = 'split';
+    else if (transactions.length > 1) matchType = 'many_to_one';
+
+    const matchGroupId = generateUUID();
+    const pairs = matchType === 'many_to_one'
+      ? transactions.map((transaction) => ({ transaction, entry: entries[0], cents: transaction.open_cents }))
+      : entries.map((entry) => ({ transaction: transactions[0], entry, cents: entry.open_cents }));
+
+    const matches = [];
+    for (const pair of pairs) {
+      const result = await client.query(
+        `INSERT INTO public.bank_reconciliation_matches (
+          id, agency_id, bank_account_id, match_group_id, bank_transaction_id,
+          journal_entry_id, matched_amount, match_type, confidence, matched_by, created_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, NOW())
+        RETURNING *`,
+        [
+          generateUUID(),
+          agencyId,
+          bankAccount.id,
+          matchGroupId,
+          pair.transaction.id,
+          pair.entry.id,
+          pair.cents / 100,
+          matchType,
+          matchData.confidence ?? null,
+          userId,
+        ]
+      );
+      matches.push(result.rows[0]);
+    }
+
+    await client.query('COMMIT');
+    return { match_group_id: matchGroupId, match_type: matchType, matches };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Get matched statement lines for a bank account
+ */
+async function getMatches(agencyDatabase, agencyId, bankAccountId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const result = await client.query(
+      `SELECT m.*, bt.transaction_date, bt.transaction_type, bt.amount AS transaction_amount,
+         bt.description AS transaction_description, bt.reference_number, bt.reconciled,
+         je.entry_number, je.entry_date, je.description AS entry_description, je.reference AS entry_reference
+       FROM public.bank_reconciliation_matches m
+       JOIN public.bank_transactions bt ON bt.id = m.bank_transaction_id
+       JOIN public.journal_entries je ON je.id = m.journal_entry_id
+       WHERE m.agency_id = $1 AND m.bank_account_id = $2
+       ORDER BY bt.transaction_date DESC, m.created_at DESC`,
+      [agencyId, bankAccountId]
+    );
+    return result.rows;
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Remove a match group that has not been reconciled yet
+ */
+async function deleteMatch(agencyDatabase, agencyId, matchGroupId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const result = await client.query(
+      `DELETE FROM public.bank_reconciliation_matches
+       WHERE match_group_id = $1 AND agency_id = $2 AND reconciliation_id IS NULL
+       RETURNING *`,
+      [matchGroupId, agencyId]
+    );
+    if (result.rows.length === 0) {
+      throw new Error('Match not found or already reconciled');
+    }
+    return result.rows;
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Reconciliation report as at a statement date:
+ *   adjusted bank = statement balance + deposits in transit - outstanding payments
+ *   adjusted book = book balance + receipts not in books - charges not in books
+ * Anything left between the two is the unexplained difference.
+ */
+async function buildReconciliationReport(client, agencyId, bankAccountId, statementDate, statementBalance, startDate) {
+  const bankAccount = await getBankAccount(client, agencyId, bankAccountId);
+  const asOf = statementDate || new Date().toISOString().split('T')[0];
+
+  let resolvedStatementBalance = statementBalance !== undefined && statementBalance !== null && statementBalance !== ''
+    ? parseFloat(statementBalance)
+    : null;
+  if (resolvedStatementBalance === null) {
+    const lastBalance = await client.query(
+      `SELECT balance_after FROM public.bank_transactions
+       WHERE bank_account_id = $1 AND transaction_date <= $2 AND balance_after IS NOT NULL
+       ORDER BY transaction_date DESC, created_at DESC LIMIT 1`,
+      [bankAccountId, asOf]
+    );
+    if (lastBalance.rows.length > 0) {
+      resolvedStatementBalance = parseFloat(lastBalance.rows[0].balance_after);
+    } else {
+      const movement = await client.query(
+        `SELECT COALESCE(SUM(CASE WHEN transaction_type = 'credit' THEN amount ELSE -amount END), 0) AS total
+         FROM public.bank_transactions WHERE bank_account_id = $1 AND transaction_date <= $2`,
+        [bankAccountId, asOf]
+      );
+      resolvedStatementBalance = parseFloat(bankAccount.opening_balance || 0) + parseFloat(movement.rows[0].total);
+    }
+  }
+
+  const bookParams = [agencyId, asOf];
+  let bookAccountFilter;
+  if (bankAccount.gl_account_id) {
+    bookParams.push(bankAccount.gl_account_id);
+    bookAccountFilter = 'jel.account_id = $3';
+  } else {
+    bookAccountFilter = `LOWER(coa.account_type) = 'asset' AND (coa.account_name ILIKE '%cash%' OR coa.account_name ILIKE '%bank%')`;
+  }
+  const bookResult = await client.query(
+    `SELECT COALESCE(SUM(COALESCE(jel.debit_amount, 0) - COALESCE(jel.credit_amount, 0)), 0) AS balance
+     FROM public.journal_entries je
+     JOIN public.journal_entry_lines jel ON jel.journal_entry_id = je.id
+     JOIN public.chart_of_accounts coa ON coa.id = jel.account_id
+     WHERE je.agency_id = $1 AND je.status = 'posted' AND je.entry_date <= $2 AND ${bookAccountFilter}`,
+    bookParams
+  );
+  const bookBalance = parseFloat(bookResult.rows[0].balance);
+
+  const openTransactions = await getOpenBankTransactions(client, bankAccountId, startDate, asOf);
+  const openEntries = await getOpenLedgerEntries(client, agencyId, bankAccount, startDate, asOf);
+
+  const depositsInTransit = openEntries.filter((entry) => entry.signed_cents > 0);
+  const outstandingPayments = openEntries.filter((entry) => entry.signed_cents < 0);
+  const unrecordedReceipts = openTransactions.filter((transaction) => transaction.signed_cents > 0);
+  const unrecordedCharges = openTransactions.filter((transaction) => transaction.signed_cents < 0);
+  const sumOpen = (items) => items.reduce((sum, item) => sum + item.open_cents, 0) / 100;
+
+  const adjustedBankBalance = round2(resolvedStatementBalance + sumOpen(depositsInTransit) - sumOpen(outstandingPayments));
+  const adjustedBookBalance = round2(bookBalance + sumOpen(unrecordedReceipts) - sumOpen(unrecordedCharges));
+
+  const matchedResult = await client.query(
+    `SELECT COUNT(DISTINCT m.match_group_id) AS match_count, COALESCE(SUM(m.matched_amount), 0) AS matched_total
+     FROM public.bank_reconciliation_matches m
+     JOIN public.bank_transactions bt ON bt.id = m.bank_transaction_id
+     WHERE m.bank_account_id = $1 AND bt.reconciled = false AND bt.transaction_date <= $2`,
+    [bankAccountId, asOf]
+  );
+
+  return {
+    bank_account: bankAccount,
+    statement_date: asOf,
+    period_start: startDate || null,
+    statement_balance: round2(resolvedStatementBalance),
+    book_balance: round2(bookBalance),
+    deposits_in_transit: depositsInTransit.map(describeEntry),
+    outstanding_payments: outstandingPayments.map(describeEntry),
+    unrecorded_receipts: unrecordedReceipts.map(describeTransaction),
+    unrecorded_charges: unrecordedCharges.map(describeTransaction),
+    total_deposits_in_transit: sumOpen(depositsInTransit),
+    total_outstanding_payments: sumOpen(outstandingPayments),
+    total_unrecorded_receipts: sumOpen(unrecordedReceipts),
+    total_unrecorded_charges: sumOpen(unrecordedCharges),
+    adjusted_bank_balance: adjustedBankBalance,
+    adjusted_book_balance: adjustedBookBalance,
+    unexplained_difference: round2(adjustedBankBalance - adjustedBookBalance),
+    match_count: parseInt(matchedResult.rows[0].match_count, 10),
+    matched_total: parseFloat(matchedResult.rows[0].matched_total),
+  };
+}
+
+/**
+ * Get the reconciliation report for a bank account
+ */
+async function getReconciliationReport(agencyDatabase, agencyId, bankAccountId, statementDate, statementBalance, startDate) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    return await buildReconciliationReport(client, agencyId, bankAccountId, statementDate, statementBalance, startDate);
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Reconcile bank account.
+ * Balances and the unexplained difference are recomputed from the ledger; the
+ * figures sent by the client are not trusted.
  */
 async function reconcileBankAccount(agencyDatabase, reconciliationData, userId) {
   const client = await getAgencyConnection(agencyDatabase);
   try {
     await client.query('BEGIN');
 
+    const report = await buildReconciliationReport(
+      client,
+      reconciliationData.agency_id,
+      reconciliationData.bank_account_id,
+      reconciliationData.reconciliation_date,
+      reconciliationData.statement_balance,
+      reconciliationData.period_start
+    );
+    if (reconciliationData.status === 'reconciled' && Math.abs(report.unexplained_difference) >= 0.01) {
+      throw new Error('Cannot mark as reconciled while an unexplained difference remains');
+    }
+
     // Create reconciliation record
     const reconResult = await client.query(
       `INSERT INTO public.bank_reconciliations (
         id, agency_id, bank_account_id, reconciliation_date,
-        statement_balance, book_balance, status, notes, created_at, updated_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW(), NOW())
+        statement_balance, book_balance, status, notes, period_start, period_end,
+        adjusted_bank_balance, adjusted_book_balance, unexplained_difference, report_data,
+        created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, NOW(), NOW())
       RETURNING *`,
       [
         generateUUID(),
         reconciliationData.agency_id,
-        reconciliationData.bank_account_id,
-        reconciliationData.reconciliation_date,
-        reconciliationData.statement_balance,
-        reconciliationData.book_balance,
+        report.bank_account.id,
+        report.statement_date,
+        report.statement_balance,
+        report.book_balance,
         reconciliationData.status || 'pending',
         reconciliationData.notes || null,
+        report.period_start,
+        report.statement_date,
+        report.adjusted_bank_balance,
+        report.adjusted_book_balance,
+        report.unexplained_difference,
+        JSON.stringify(report),
       ]
     );
 
     const reconciliation = reconResult.rows[0];
 
-    // Mark transactions as reconciled
-    if (reconciliationData.transaction_ids && reconciliationData.transaction_ids.length > 0) {
+    // Without an explicit list, every fully matched statement line up to the date is reconciled
+    let transactionIds = reconciliationData.transaction_ids;
+    if (!transactionIds || transactionIds.length === 0) {
+      const matchedResult = await client.query(
+        `SELECT bt.id
+         FROM public.bank_transactions bt
+         JOIN public.bank_reconciliation_matches m ON m.bank_transaction_id = bt.id
+         WHERE bt.bank_account_id = $1 AND bt.reconciled = false AND bt.transaction_date <= $2
+         GROUP BY bt.id, bt.amount
+         HAVING SUM(m.matched_amount) >= bt.amount`,
+        [report.bank_account.id, report.statement_date]
+      );
+      transactionIds = matchedResult.rows.map((row) => row.id);
+    }
+
+    // Mark transactions as reconciled, limited to open lines of this account within the period
+    if (transactionIds.length > 0) {
+      const updated = await client.query(
+        `UPDATE public.bank_transactions
+         SET reconciled = true, reconciliation_id = $1
+         WHERE id = ANY($2) AND bank_account_id = $3 AND reconciled = false
+           AND transaction_date <= $4 AND ($5::date IS NULL OR transaction_date >= $5::date)
+         RETURNING id`,
+        [reconciliation.id, transactionIds, report.bank_account.id, report.statement_date, report.period_start]
+      );
+      transactionIds = updated.rows.map((row) => row.id);
+    }
+    if (transactionIds.length > 0) {
       await client.query(
-        `UPDATE public.bank_transactions 
-         SET reconciled = true, reconciliation_id = $1 
-         WHERE id = ANY($2)`,
-        [reconciliation.id, reconciliationData.transaction_ids]
+        `UPDATE public.bank_reconciliation_matches
+         SET reconciliation_id = $1
+         WHERE bank_transaction_id = ANY($2)`,
+        [reconciliation.id, transactionIds]
       );
     }
 
     // Update reconciliation status
     if (reconciliationData.status === 'reconciled') {
       await client.query(
-        `UPDATE public.bank_reconciliations 
+        `UPDATE public.bank_reconciliations
          SET reconciled_by = $1, reconciled_at = NOW(), status = 'reconciled'
          WHERE id = $2`,
         [userId, reconciliation.id]
@@ -131,13 +1256,38 @@ async function reconcileBankAccount(agencyDatabase, reconciliationData, userId)
     }
 
     await client.query('COMMIT');
-    return reconciliation;
+    return { ...reconciliation, reconciled_transaction_count: transactionIds.length };
   } catch (error) {
     await client.query('ROLLBACK');
     throw error;
   } finally {
     client.release();
-    await client.client.pool.end();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Get past reconciliations for a bank account
+ */
+async function getReconciliations(agencyDatabase, agencyId, bankAccountId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const result = await client.query(
+      `SELECT br.*, u.email AS reconciled_by_email
+       FROM public.bank_reconciliations br
+       LEFT JOIN public.users u ON u.id = br.reconciled_by
+       WHERE br.agency_id = $1 AND br.bank_account_id = $2
+       ORDER BY br.reconciliation_date DESC, br.created_at DESC`,
+      [agencyId, bankAccountId]
+    );
+    return result.rows;
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
   }
 }
 
@@ -159,12 +1309,26 @@ async function getUnreconciledTransactions(agencyDatabase, bankAccountId, startD
     return result.rows;
   } finally {
     client.release();
-    await client.client.pool.end();
+    if (client.pool) {
+      await client.pool.end();
+    }
   }
 }
 
 module.exports = {
+  parseStatement,
+  parseStatementDate,
+  splitCsvLine,
+  getBankAccounts,
+  createBankAccount,
+  updateBankAccount,
   importBankStatement,
+  suggestMatches,
+  createMatch,
+  getMatches,
+  deleteMatch,
+  getReconciliationReport,
   reconcileBankAccount,
+  getReconciliations,
   getUnreconciledTransactions,
 };
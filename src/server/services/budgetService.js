@@ -5,7 +5,10 @@
 
 const { parseDatabaseUrl } = require('../utils/poolManager');
 const { Pool } = require('pg');
+const { createNotification } = require('../utils/notificationHelper');
 const crypto = require('crypto');
+const cron = require('node-cron');
+const { pool: mainPool } = require('../config/database');
 
 function generateUUID() {
   return crypto.randomUUID();
@@ -21,59 +24,351 @@ async function getAgencyConnection(agencyDatabase) {
   return client;
 }
 
+const DEFAULT_ALERT_THRESHOLDS = [80, 100];
+const BUDGET_SYNC_SCHEDULE = process.env.BUDGET_SYNC_SCHEDULE || '0 * * * *';
+
+function roundAmount(value) {
+  return Math.round((Number(value) || 0) * 100) / 100;
+}
+
 /**
- * Create budget
+ * Thresholds are percentages of the budgeted amount, e.g. [80, 100]
  */
-async function createBudget(agencyDatabase, budgetData, userId) {
-  const client = await getAgencyConnection(agencyDatabase);
-  try {
-    await client.query('BEGIN');
+function normalizeThresholds(thresholds) {
+  let values = thresholds;
+  if (typeof values === 'string') {
+    try {
+      values = JSON.parse(values);
+    } catch (e) {
+      values = values.split(',');
+    }
+  }
+  if (!Array.isArray(values)) {
+    return DEFAULT_ALERT_THRESHOLDS;
+  }
+  const cleaned = [...new Set(values.map((v) => parseFloat(v)).filter((v) => v > 0 && v <= 1000))];
+  return cleaned.length > 0 ? cleaned.sort((a, b) => a - b) : DEFAULT_ALERT_THRESHOLDS;
+}
 
-    // Create budget
-    const budgetResult = await client.query(
-      `INSERT INTO public.budgets (
-        id, agency_id, budget_name, budget_type, fiscal_year,
-        period_start, period_end, department_id, project_id,
-        total_budget, status, created_by, created_at, updated_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, NOW(), NOW())
-      RETURNING *`,
+/**
+ * "2025" -> "2026", "2025-26" -> "2026-27", "FY2025-2026" -> "FY2026-2027"
+ */
+function getNextFiscalYear(fiscalYear) {
+  if (!fiscalYear) return null;
+  return String(fiscalYear).replace(/\d+/g, (part) => String(parseInt(part, 10) + 1).padStart(part.length, '0').slice(-part.length));
+}
+
+function shiftYear(date) {
+  const [year, month, day] = date instanceof Date
+    ? [date.getFullYear(), date.getMonth(), date.getDate()]
+    : String(date).split('T')[0].split('-').map((part, index) => parseInt(part, 10) - (index === 1 ? 1 : 0));
+  const shifted = new Date(Date.UTC(year + 1, month, day));
+  // 29 Feb rolls into 1 Mar; keep it on the last day of February instead
+  if (shifted.getUTCMonth() !== month) {
+    shifted.setUTCDate(0);
+  }
+  return shifted.toISOString().split('T')[0];
+}
+
+async function insertBudget(client, budgetData, userId) {
+  const result = await client.query(
+    `INSERT INTO public.budgets (
+      id, agency_id, budget_name, budget_type, fiscal_year,
+      period_start, period_end, department_id, project_id,
+      total_budget, status, alert_thresholds, notes, rolled_from_budget_id,
+      created_by, created_at, updated_at
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, NOW(), NOW())
+    RETURNING *`,
+    [
+      generateUUID(),
+      budgetData.agency_id,
+      budgetData.budget_name,
+      budgetData.budget_type || null,
+      budgetData.fiscal_year || null,
+      budgetData.period_start,
+      budgetData.period_end,
+      budgetData.department_id || null,
+      budgetData.project_id || null,
+      budgetData.total_budget,
+      budgetData.status || 'draft',
+      JSON.stringify(budgetData.alert_thresholds || DEFAULT_ALERT_THRESHOLDS),
+      budgetData.notes || null,
+      budgetData.rolled_from_budget_id || null,
+      userId,
+    ]
+  );
+  return result.rows[0];
+}
+
+async function insertBudgetItems(client, budgetId, items) {
+  for (const item of items) {
+    await client.query(
+      `INSERT INTO public.budget_items (
+        id, budget_id, account_id, category, description,
+        budgeted_amount, period_start, period_end, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW(), NOW())`,
       [
         generateUUID(),
-        budgetData.agency_id,
-        budgetData.budget_name,
-        budgetData.budget_type,
-        budgetData.fiscal_year,
-        budgetData.period_start,
-        budgetData.period_end,
-        budgetData.department_id || null,
-        budgetData.project_id || null,
-        budgetData.total_budget,
-        budgetData.status || 'draft',
-        userId,
+        budgetId,
+        item.account_id || null,
+        item.category || null,
+        item.description || null,
+        parseFloat(item.budgeted_amount) || 0,
+        item.period_start || null,
+        item.period_end || null,
       ]
     );
+  }
+}
+
+/**
+ * Actuals come from posted journal lines in the line (or budget) period.
+ * Expense and asset accounts accumulate debits, the others credits.
+ * Department/project budgets only count lines tagged with that dimension.
+ */
+const ACTUAL_AMOUNT_SQL = `
+  COALESCE((
+    SELECT SUM(
+      CASE WHEN LOWER(coa.account_type) IN ('expense', 'asset')
+        THEN COALESCE(jel.debit_amount, 0) - COALESCE(jel.credit_amount, 0)
+        ELSE COALESCE(jel.credit_amount, 0) - COALESCE(jel.debit_amount, 0)
+      END
+    )
+    FROM public.journal_entry_lines jel
+    JOIN public.journal_entries je ON je.id = jel.journal_entry_id
+    WHERE jel.account_id = bi.account_id
+      AND je.status = 'posted'
+      AND je.agency_id = b.agency_id
+      AND je.entry_date BETWEEN COALESCE(bi.period_start, b.period_start) AND COALESCE(bi.period_end, b.period_end)
+      AND (b.department_id IS NULL OR jel.department_id = b.department_id)
+      AND (b.project_id IS NULL OR jel.project_id = b.project_id)
+  ), 0)
+`;
+
+function getStatusIndicator(utilization, thresholds) {
+  if (utilization > 100) return 'over_budget';
+  if (utilization >= thresholds[0]) return 'near_limit';
+  return 'within_budget';
+}
+
+/**
+ * Attach actuals, variance and line detail to budget rows. Read-only; stored
+ * spent amounts and alerts are updated by syncBudgetActuals.
+ */
+async function calculateVariance(client, agencyId, budgets) {
+  if (budgets.length === 0) return [];
+  const budgetIds = budgets.map((b) => b.id);
+
+  const itemsResult = await client.query(
+    `SELECT bi.*, coa.account_code, coa.account_name, coa.account_type,
+      ${ACTUAL_AMOUNT_SQL} AS actual_amount
+     FROM public.budget_items bi
+     JOIN public.budgets b ON b.id = bi.budget_id
+     LEFT JOIN public.chart_of_accounts coa ON coa.id = bi.account_id
+     WHERE bi.budget_id = ANY($1)
+     ORDER BY coa.account_code NULLS LAST, bi.created_at`,
+    [budgetIds]
+  );
+
+  // Dimension budgets without account lines fall back to all expense postings for that dimension
+  const dimensionOnly = budgets.filter((b) =>
+    (b.department_id || b.project_id) &&
+    !itemsResult.rows.some((item) => item.budget_id === b.id && item.account_id)
+  );
+  const dimensionActuals = {};
+  for (const budget of dimensionOnly) {
+    const result = await client.query(
+      `SELECT COALESCE(SUM(COALESCE(jel.debit_amount, 0) - COALESCE(jel.credit_amount, 0)), 0) AS actual
+       FROM public.journal_entry_lines jel
+       JOIN public.journal_entries je ON je.id = jel.journal_entry_id
+       JOIN public.chart_of_accounts coa ON coa.id = jel.account_id
+       WHERE LOWER(coa.account_type) = 'expense'
+         AND je.status = 'posted'
+         AND je.agency_id = $1
+         AND je.entry_date BETWEEN $2 AND $3
+         AND ($4::uuid IS NULL OR jel.department_id = $4)
+         AND ($5::uuid IS NULL OR jel.project_id = $5)`,
+      [agencyId, budget.period_start, budget.period_end, budget.department_id, budget.project_id]
+    );
+    dimensionActuals[budget.id] = parseFloat(result.rows[0].actual) || 0;
+  }
+
+  const enriched = [];
+  for (const budget of budgets) {
+    const thresholds = normalizeThresholds(budget.alert_thresholds);
+    const items = itemsResult.rows
+      .filter((item) => item.budget_id === budget.id)
+      .map((item) => {
+        const budgeted = parseFloat(item.budgeted_amount) || 0;
+        const actual = roundAmount(item.account_id ? parseFloat(item.actual_amount) : parseFloat(item.spent_amount));
+        const utilization = budgeted > 0 ? roundAmount((actual / budgeted) * 100) : 0;
+        return {
+          ...item,
+          budgeted_amount: budgeted,
+          actual_amount: actual,
+          variance: roundAmount(budgeted - actual),
+          utilization_percentage: utilization,
+          status_indicator: getStatusIndicator(utilization, thresholds),
+        };
+      });
+
+    const totalBudget = parseFloat(budget.total_budget) || 0;
+    const actual = dimensionActuals[budget.id] !== undefined
+      ? roundAmount(dimensionActuals[budget.id])
+      : roundAmount(items.reduce((sum, item) => sum + item.actual_amount, 0));
+    const utilization = totalBudget > 0 ? roundAmount((actual / totalBudget) * 100) : 0;
+
+    enriched.push({
+      ...budget,
+      alert_thresholds: thresholds,
+      total_budget: totalBudget,
+      actual_amount: actual,
+      spent_amount: actual,
+      remaining: roundAmount(totalBudget - actual),
+      variance: roundAmount(totalBudget - actual),
+      utilization_percentage: utilization,
+      status_indicator: getStatusIndicator(utilization, thresholds),
+      items,
+    });
+  }
+
+  return enriched;
+}
+
+/**
+ * Store the actuals of every budget of an agency as spent amounts and raise alerts
+ * for newly crossed thresholds. Run by the scheduler, not on read.
+ */
+async function syncBudgetActuals(agencyDatabase, agencyId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    await client.query('BEGIN');
+
+    const result = await client.query(
+      'SELECT * FROM public.budgets WHERE agency_id = $1 ORDER BY period_start',
+      [agencyId]
+    );
+    const budgets = await calculateVariance(client, agencyId, result.rows);
+    await storeSpentAmounts(client, budgets);
+    const alertsRaised = await raiseThresholdAlerts(client, agencyId, budgets);
+
+    await client.query('COMMIT');
+    return { budgets_synced: budgets.length, alerts_raised: alertsRaised };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Persist calculated actuals as the stored spent amounts
+ */
+async function storeSpentAmounts(client, budgets) {
+  for (const budget of budgets) {
+    await client.query(
+      'UPDATE public.budgets SET spent_amount = $1 WHERE id = $2 AND spent_amount IS DISTINCT FROM $1',
+      [budget.actual_amount, budget.id]
+    );
+    for (const item of budget.items) {
+      if (item.account_id) {
+        await client.query(
+          'UPDATE public.budget_items SET spent_amount = $1 WHERE id = $2 AND spent_amount IS DISTINCT FROM $1',
+          [item.actual_amount, item.id]
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Record one alert per threshold crossed by an approved/active budget or its lines
+ * and notify the budget owner in-app. Returns the number of alerts raised.
+ */
+async function raiseThresholdAlerts(client, agencyId, budgets) {
+  let raised = 0;
+  for (const budget of budgets) {
+    if (!['approved', 'active'].includes(budget.status)) continue;
 
-    const budget = budgetResult.rows[0];
+    const targets = [
+      { itemId: null, label: budget.budget_name, budgeted: budget.total_budget, actual: budget.actual_amount, utilization: budget.utilization_percentage },
+      ...budget.items.filter((item) => item.account_id).map((item) => ({
+        itemId: item.id,
+        label: `${budget.budget_name} / ${item.account_name || item.category || 'line'}`,
+        budgeted: item.budgeted_amount,
+        actual: item.actual_amount,
+        utilization: item.utilization_percentage,
+      })),
+    ];
 
-    // Create budget items
-    if (budgetData.items && budgetData.items.length > 0) {
-      for (const item of budgetData.items) {
+    for (const target of targets) {
+      if (target.budgeted <= 0) continue;
+      for (const threshold of budget.alert_thresholds) {
+        if (target.utilization < threshold) continue;
+
+        const existing = await client.query(
+          `SELECT id FROM public.budget_alerts
+           WHERE budget_id = $1 AND budget_item_id IS NOT DISTINCT FROM $2 AND threshold = $3`,
+          [budget.id, target.itemId, threshold]
+        );
+        if (existing.rows.length > 0) continue;
+
+        const message = `${target.label} has used ${target.utilization}% of its budget (threshold ${threshold}%)`;
         await client.query(
-          `INSERT INTO public.budget_items (
-            id, budget_id, account_id, category, description,
-            budgeted_amount, created_at, updated_at
-          ) VALUES ($1, $2, $3, $4, $5, $6, NOW(), NOW())`,
-          [
-            generateUUID(),
-            budget.id,
-            item.account_id || null,
-            item.category || null,
-            item.description || null,
-            item.budgeted_amount,
-          ]
+          `INSERT INTO public.budget_alerts (
+            id, agency_id, budget_id, budget_item_id, threshold, utilization_percentage,
+            budgeted_amount, actual_amount, message, created_at
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, NOW())`,
+          [generateUUID(), agencyId, budget.id, target.itemId, threshold, target.utilization, target.budgeted, target.actual, message]
         );
+        raised++;
+
+        await createNotification(client, {
+          agency_id: agencyId,
+          user_id: budget.created_by,
+          category: 'finance',
+          title: threshold >= 100 ? 'Budget exceeded' : 'Budget threshold reached',
+          message,
+          metadata: { budget_id: budget.id, budget_item_id: target.itemId, threshold },
+          priority: threshold >= 100 ? 'high' : 'normal',
+          action_url: '/budgets',
+        });
       }
     }
+  }
+  return raised;
+}
+
+/**
+ * Create budget
+ */
+async function createBudget(agencyDatabase, budgetData, userId) {
+  if (!budgetData.budget_name || !budgetData.period_start || !budgetData.period_end) {
+    throw new Error('Budget name, period start and period end are required');
+  }
+  if (budgetData.period_end < budgetData.period_start) {
+    throw new Error('Budget period end must be after period start');
+  }
+
+  const items = budgetData.items || [];
+  const totalBudget = budgetData.total_budget !== undefined && budgetData.total_budget !== null && budgetData.total_budget !== ''
+    ? parseFloat(budgetData.total_budget)
+    : items.reduce((sum, item) => sum + (parseFloat(item.budgeted_amount) || 0), 0);
+
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    await client.query('BEGIN');
+
+    const budget = await insertBudget(client, {
+      ...budgetData,
+      total_budget: totalBudget,
+      alert_thresholds: normalizeThresholds(budgetData.alert_thresholds),
+    }, userId);
+    await insertBudgetItems(client, budget.id, items);
 
     await client.query('COMMIT');
     return budget;
@@ -124,25 +419,16 @@ async function updateBudgetSpent(agencyDatabase, budgetId, accountId, amount) {
 }
 
 /**
- * Get budgets with variance analysis
+ * Get budgets with live variance from posted journal lines
  */
 async function getBudgetsWithVariance(agencyDatabase, agencyId, filters = {}) {
   const client = await getAgencyConnection(agencyDatabase);
   try {
     let query = `
-      SELECT 
-        b.*,
-        (b.total_budget - b.spent_amount) as remaining,
-        CASE 
-          WHEN b.total_budget > 0 THEN ((b.spent_amount / b.total_budget) * 100)
-          ELSE 0
-        END as utilization_percentage,
-        CASE
-          WHEN b.spent_amount > b.total_budget THEN 'over_budget'
-          WHEN b.spent_amount > (b.total_budget * 0.9) THEN 'near_limit'
-          ELSE 'within_budget'
-        END as status_indicator
+      SELECT b.*, d.name AS department_name, p.name AS project_name
       FROM public.budgets b
+      LEFT JOIN public.departments d ON d.id = b.department_id
+      LEFT JOIN public.projects p ON p.id = b.project_id
       WHERE b.agency_id = $1
     `;
     const params = [agencyId];
@@ -160,7 +446,181 @@ async function getBudgetsWithVariance(agencyDatabase, agencyId, filters = {}) {
       paramIndex++;
     }
 
-    query += ' ORDER BY b.created_at DESC';
+    if (filters.department_id) {
+      query += ` AND b.department_id = $${paramIndex}`;
+      params.push(filters.department_id);
+      paramIndex++;
+    }
+
+    if (filters.project_id) {
+      query += ` AND b.project_id = $${paramIndex}`;
+      params.push(filters.project_id);
+      paramIndex++;
+    }
+
+    if (filters.budget_id) {
+      query += ` AND b.id = $${paramIndex}`;
+      params.push(filters.budget_id);
+      paramIndex++;
+    }
+
+    query += ' ORDER BY b.period_start DESC, b.created_at DESC';
+
+    const result = await client.query(query, params);
+    return await calculateVariance(client, agencyId, result.rows);
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Get a single budget with its lines and variance
+ */
+async function getBudgetById(agencyDatabase, agencyId, budgetId) {
+  const budgets = await getBudgetsWithVariance(agencyDatabase, agencyId, { budget_id: budgetId });
+  if (budgets.length === 0) {
+    throw new Error('Budget not found');
+  }
+  return budgets[0];
+}
+
+/**
+ * Update budget header, status and (optionally) replace its lines
+ */
+async function updateBudget(agencyDatabase, agencyId, budgetId, budgetData, userId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    await client.query('BEGIN');
+
+    const existing = await client.query(
+      'SELECT * FROM public.budgets WHERE id = $1 AND agency_id = $2 FOR UPDATE',
+      [budgetId, agencyId]
+    );
+    if (existing.rows.length === 0) {
+      throw new Error('Budget not found');
+    }
+    const current = existing.rows[0];
+    if (current.status === 'closed' && budgetData.status !== 'active') {
+      throw new Error('Closed budgets cannot be edited');
+    }
+
+    let totalBudget = budgetData.total_budget !== undefined ? parseFloat(budgetData.total_budget) : parseFloat(current.total_budget);
+    if (Array.isArray(budgetData.items)) {
+      await client.query('DELETE FROM public.budget_items WHERE budget_id = $1', [budgetId]);
+      await insertBudgetItems(client, budgetId, budgetData.items);
+      // Changing lines invalidates alerts raised against the old lines
+      await client.query('DELETE FROM public.budget_alerts WHERE budget_id = $1 AND acknowledged = false', [budgetId]);
+      if (budgetData.total_budget === undefined) {
+        totalBudget = budgetData.items.reduce((sum, item) => sum + (parseFloat(item.budgeted_amount) || 0), 0);
+      }
+    }
+
+    const isApproving = budgetData.status === 'approved' && current.status !== 'approved';
+    const result = await client.query(
+      `UPDATE public.budgets SET
+        budget_name = COALESCE($1, budget_name),
+        budget_type = COALESCE($2, budget_type),
+        fiscal_year = COALESCE($3, fiscal_year),
+        period_start = COALESCE($4, period_start),
+        period_end = COALESCE($5, period_end),
+        department_id = $6,
+        project_id = $7,
+        total_budget = $8,
+        status = COALESCE($9, status),
+        alert_thresholds = COALESCE($10, alert_thresholds),
+        notes = COALESCE($11, notes),
+        approved_by = CASE WHEN $12 THEN $13 ELSE approved_by END,
+        approved_at = CASE WHEN $12 THEN NOW() ELSE approved_at END,
+        updated_at = NOW()
+      WHERE id = $14
+      RETURNING *`,
+      [
+        budgetData.budget_name || null,
+        budgetData.budget_type || null,
+        budgetData.fiscal_year || null,
+        budgetData.period_start || null,
+        budgetData.period_end || null,
+        budgetData.department_id !== undefined ? budgetData.department_id || null : current.department_id,
+        budgetData.project_id !== undefined ? budgetData.project_id || null : current.project_id,
+        totalBudget,
+        budgetData.status || null,
+        budgetData.alert_thresholds !== undefined
+          ? JSON.stringify(normalizeThresholds(budgetData.alert_thresholds))
+          : null,
+        budgetData.notes !== undefined ? budgetData.notes : null,
+        isApproving,
+        userId,
+        budgetId,
+      ]
+    );
+
+    await client.query('COMMIT');
+    return result.rows[0];
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Delete a draft budget
+ */
+async function deleteBudget(agencyDatabase, agencyId, budgetId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const result = await client.query(
+      `DELETE FROM public.budgets WHERE id = $1 AND agency_id = $2 AND status = 'draft' RETURNING id`,
+      [budgetId, agencyId]
+    );
+    if (result.rows.length === 0) {
+      throw new Error('Only draft budgets can be deleted');
+    }
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Get budget threshold alerts
+ */
+async function getBudgetAlerts(agencyDatabase, agencyId, filters = {}) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    let query = `
+      SELECT ba.*, b.budget_name, b.fiscal_year,
+        bi.category AS item_category, bi.description AS item_description,
+        coa.account_code, coa.account_name
+      FROM public.budget_alerts ba
+      JOIN public.budgets b ON b.id = ba.budget_id
+      LEFT JOIN public.budget_items bi ON bi.id = ba.budget_item_id
+      LEFT JOIN public.chart_of_accounts coa ON coa.id = bi.account_id
+      WHERE ba.agency_id = $1
+    `;
+    const params = [agencyId];
+    let paramIndex = 2;
+
+    if (filters.budget_id) {
+      query += ` AND ba.budget_id = $${paramIndex}`;
+      params.push(filters.budget_id);
+      paramIndex++;
+    }
+
+    if (!filters.include_acknowledged) {
+      query += ' AND ba.acknowledged = false';
+    }
+
+    query += ' ORDER BY ba.created_at DESC';
 
     const result = await client.query(query, params);
     return result.rows;
@@ -172,8 +632,174 @@ async function getBudgetsWithVariance(agencyDatabase, agencyId, filters = {}) {
   }
 }
 
+/**
+ * Acknowledge a budget alert
+ */
+async function acknowledgeBudgetAlert(agencyDatabase, agencyId, alertId, userId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const result = await client.query(
+      `UPDATE public.budget_alerts
+       SET acknowledged = true, acknowledged_by = $1, acknowledged_at = NOW()
+       WHERE id = $2 AND agency_id = $3
+       RETURNING *`,
+      [userId, alertId, agencyId]
+    );
+    if (result.rows.length === 0) {
+      throw new Error('Budget alert not found');
+    }
+    return result.rows[0];
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Roll budgets forward into the next fiscal year.
+ * Periods shift by one year; amounts are copied from the budget (or from its
+ * actuals when basis = 'actual') and adjusted by adjustment_percentage.
+ */
+async function rollForwardBudgets(agencyDatabase, agencyId, options, userId) {
+  const { from_fiscal_year, budget_ids, basis = 'budget' } = options;
+  const adjustment = 1 + (parseFloat(options.adjustment_percentage) || 0) / 100;
+  if (!from_fiscal_year && (!budget_ids || budget_ids.length === 0)) {
+    throw new Error('Select a fiscal year or budgets to roll forward');
+  }
+
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    await client.query('BEGIN');
+
+    let query = 'SELECT * FROM public.budgets b WHERE b.agency_id = $1';
+    const params = [agencyId];
+    if (budget_ids && budget_ids.length > 0) {
+      query += ' AND b.id = ANY($2)';
+      params.push(budget_ids);
+    } else {
+      query += ' AND b.fiscal_year = $2';
+      params.push(from_fiscal_year);
+    }
+    const sources = await client.query(query, params);
+    if (sources.rows.length === 0) {
+      throw new Error('No budgets found to roll forward');
+    }
+
+    const withActuals = basis === 'actual' ? await calculateVariance(client, agencyId, sources.rows) : null;
+
+    const created = [];
+    const skipped = [];
+    for (const source of sources.rows) {
+      const targetYear = options.to_fiscal_year || getNextFiscalYear(source.fiscal_year);
+
+      const alreadyRolled = await client.query(
+        'SELECT id FROM public.budgets WHERE rolled_from_budget_id = $1 AND fiscal_year IS NOT DISTINCT FROM $2',
+        [source.id, targetYear]
+      );
+      if (alreadyRolled.rows.length > 0) {
+        skipped.push({ id: source.id, budget_name: source.budget_name, reason: `Already rolled into ${targetYear}` });
+        continue;
+      }
+
+      const sourceActuals = withActuals ? withActuals.find((b) => b.id === source.id) : null;
+      const sourceItems = sourceActuals
+        ? sourceActuals.items
+        : (await client.query('SELECT * FROM public.budget_items WHERE budget_id = $1', [source.id])).rows;
+
+      const items = sourceItems.map((item) => {
+        const baseAmount = basis === 'actual' ? Math.max(item.actual_amount, 0) : parseFloat(item.budgeted_amount);
+        return {
+          account_id: item.account_id,
+          category: item.category,
+          description: item.description,
+          budgeted_amount: roundAmount(baseAmount * adjustment),
+          period_start: item.period_start ? shiftYear(item.period_start) : null,
+          period_end: item.period_end ? shiftYear(item.period_end) : null,
+        };
+      });
+
+      let baseTotal = roundAmount(parseFloat(source.total_budget) * adjustment);
+      if (sourceActuals) {
+        baseTotal = items.length > 0
+          ? roundAmount(items.reduce((sum, item) => sum + item.budgeted_amount, 0))
+          : roundAmount(Math.max(sourceActuals.actual_amount, 0) * adjustment);
+      }
+
+      const budget = await insertBudget(client, {
+        agency_id: agencyId,
+        budget_name: source.budget_name,
+        budget_type: source.budget_type,
+        fiscal_year: targetYear,
+        period_start: shiftYear(source.period_start),
+        period_end: shiftYear(source.period_end),
+        department_id: source.department_id,
+        project_id: source.project_id,
+        total_budget: baseTotal,
+        status: 'draft',
+        alert_thresholds: normalizeThresholds(source.alert_thresholds),
+        notes: source.notes,
+        rolled_from_budget_id: source.id,
+      }, userId);
+      await insertBudgetItems(client, budget.id, items);
+      created.push(budget);
+    }
+
+    await client.query('COMMIT');
+    return { created, skipped };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Initialize the hourly job that stores budget actuals and raises threshold alerts
+ */
+function initializeBudgetScheduler() {
+  cron.schedule(BUDGET_SYNC_SCHEDULE, async () => {
+    try {
+      const agencies = await mainPool.query(
+        `SELECT id, database_name FROM public.agencies
+         WHERE is_active = true AND database_name IS NOT NULL`
+      );
+
+      for (const agency of agencies.rows) {
+        try {
+          const result = await syncBudgetActuals(agency.database_name, agency.id);
+          if (result.alerts_raised > 0) {
+            console.log(`[Budget] Agency ${agency.id}: ${result.alerts_raised} alert(s) raised`);
+          }
+        } catch (error) {
+          // Agencies without the finance module have no budget tables
+          if (error.code === '42P01') continue;
+          console.error(`[Budget] Actuals sync failed for agency ${agency.id}:`, error.message);
+        }
+      }
+    } catch (error) {
+      console.error('[Budget] Error syncing budget actuals:', error);
+    }
+  });
+
+  console.log('[Budget] ✅ Scheduler initialized');
+}
+
 module.exports = {
   createBudget,
+  updateBudget,
+  deleteBudget,
   updateBudgetSpent,
   getBudgetsWithVariance,
+  getBudgetById,
+  getBudgetAlerts,
+  acknowledgeBudgetAlert,
+  rollForwardBudgets,
+  syncBudgetActuals,
+  initializeBudgetScheduler,
 };
@@ -1,11 +1,13 @@
 /**
  * Currency & Exchange Rate Service
- * Handles multi-currency support with real-time exchange rates
+ * Handles multi-currency support with dated exchange rates that can be
+ * entered manually, imported from CSV or refreshed from a public API
  */
 
 const { parseDatabaseUrl } = require('../utils/poolManager');
 const { Pool } = require('pg');
 const crypto = require('crypto');
+const { parseStatementDate, splitCsvLine } = require('./bankReconciliationService');
 
 // Generate UUID v4
 function generateUUID() {
@@ -25,6 +27,169 @@ async function getAgencyConnection(agencyDatabase) {
   return client;
 }
 
+// Older agency settings stored the country key the settings page used to offer
+const LEGACY_CURRENCY_KEYS = {
+  IN: 'INR', US: 'USD', GB: 'GBP', EU: 'EUR', CA: 'CAD', AU: 'AUD', SG: 'SGD', AE: 'AED',
+};
+
+function resolveCurrencyCode(value) {
+  if (!value) return null;
+  const code = String(value).trim().toUpperCase();
+  return LEGACY_CURRENCY_KEYS[code] || code;
+}
+
+/**
+ * Base currency of the agency ledger
+ */
+async function getBaseCurrency(client) {
+  try {
+    const settingsResult = await client.query(
+      'SELECT default_currency, currency FROM public.agency_settings LIMIT 1'
+    );
+    const configured = resolveCurrencyCode(settingsResult.rows[0]?.default_currency || settingsResult.rows[0]?.currency);
+    if (configured) return configured;
+  } catch (error) {
+    console.warn('[Currency] Could not read agency currency settings:', error.message);
+  }
+
+  const baseResult = await client.query('SELECT code FROM public.currencies WHERE is_base = true LIMIT 1');
+  return baseResult.rows[0]?.code || 'INR';
+}
+
+/**
+ * Rate to convert one unit of currencyCode into base currency on a date.
+ * Uses the latest dated rate on or before the date, then the currencies table.
+ */
+async function getRateForDate(client, currencyCode, date, baseCurrency) {
+  const code = resolveCurrencyCode(currencyCode);
+  const base = baseCurrency || await getBaseCurrency(client);
+  const onDate = date || new Date().toISOString().split('T')[0];
+
+  if (!code || code === base) {
+    return { currency_code: base, rate: 1, rate_date: onDate, source: 'base', base_currency: base };
+  }
+
+  const datedResult = await client.query(
+    `SELECT rate, TO_CHAR(rate_date, 'YYYY-MM-DD') AS rate_date, source
+     FROM public.exchange_rates
+     WHERE currency_code = $1 AND rate_date <= $2
+     ORDER BY rate_date DESC
+     LIMIT 1`,
+    [code, onDate]
+  );
+  if (datedResult.rows.length > 0) {
+    const row = datedResult.rows[0];
+    return { currency_code: code, rate: parseFloat(row.rate), rate_date: row.rate_date, source: row.source, base_currency: base };
+  }
+
+  // currencies.exchange_rate is units of the currency per unit of base
+  const currencyResult = await client.query(
+    'SELECT exchange_rate, TO_CHAR(updated_at, \'YYYY-MM-DD\') AS rate_date FROM public.currencies WHERE code = $1',
+    [code]
+  );
+  const perBase = parseFloat(currencyResult.rows[0]?.exchange_rate || 0);
+  if (perBase > 0) {
+    return { currency_code: code, rate: 1 / perBase, rate_date: currencyResult.rows[0].rate_date, source: 'currency_table', base_currency: base };
+  }
+
+  throw new Error(`No exchange rate for ${code} on or before ${onDate}`);
+}
+
+/**
+ * Store a dated rate and keep the currencies table pointing at the latest one
+ */
+async function upsertExchangeRate(client, { currency_code, rate_date, rate, source }, userId) {
+  const result = await client.query(
+    `INSERT INTO public.exchange_rates (currency_code, rate_date, rate, source, created_by)
+     VALUES ($1, $2, $3, $4, $5)
+     ON CONFLICT (currency_code, rate_date)
+     DO UPDATE SET rate = EXCLUDED.rate, source = EXCLUDED.source, updated_at = NOW()
+     RETURNING id, currency_code, TO_CHAR(rate_date, 'YYYY-MM-DD') AS rate_date, rate, source, created_at, updated_at`,
+    [currency_code, rate_date, rate, source, userId || null]
+  );
+
+  await client.query(
+    `INSERT INTO public.currencies (id, code, name, exchange_rate, updated_at)
+     SELECT $1, $2, $2, 1 / $3::numeric, NOW()
+     WHERE NOT EXISTS (
+       SELECT 1 FROM public.exchange_rates WHERE currency_code = $2 AND rate_date > $4
+     )
+     ON CONFLICT (code) DO UPDATE SET exchange_rate = EXCLUDED.exchange_rate, updated_at = NOW()`,
+    [generateUUID(), currency_code, rate, rate_date]
+  );
+
+  return result.rows[0];
+}
+
+function validateRate(rateData) {
+  const code = resolveCurrencyCode(rateData.currency_code);
+  const rateDate = parseStatementDate(rateData.rate_date);
+  const rate = parseFloat(rateData.rate);
+
+  if (!code || !/^[A-Z]{3}$/.test(code)) {
+    throw new Error('A three-letter currency code is required');
+  }
+  if (!rateDate) {
+    throw new Error('A valid rate date is required');
+  }
+  if (!(rate > 0)) {
+    throw new Error('Exchange rate must be greater than zero');
+  }
+  return { currency_code: code, rate_date: rateDate, rate };
+}
+
+/**
+ * Parse a rate CSV. Accepts a long layout (currency, date, rate) or a wide
+ * layout with a date column and one column per currency code.
+ */
+function parseRatesCsv(content) {
+  const lines = String(content || '').split(/\r?\n/).filter((line) => line.trim());
+  if (lines.length < 2) {
+    throw new Error('The CSV needs a header row and at least one rate');
+  }
+
+  const delimiter = (lines[0].match(/;/g) || []).length > (lines[0].match(/,/g) || []).length ? ';' : ',';
+  const headers = splitCsvLine(lines[0], delimiter).map((h) => h.trim());
+  const lower = headers.map((h) => h.toLowerCase());
+  const dateColumn = lower.findIndex((h) => /date/.test(h));
+  if (dateColumn === -1) {
+    throw new Error('The CSV needs a date column');
+  }
+
+  const currencyColumn = lower.findIndex((h) => /^(currency|currency_code|code)$/.test(h));
+  const rateColumn = lower.findIndex((h) => /rate/.test(h));
+  const rows = [];
+  const errors = [];
+
+  lines.slice(1).forEach((line, index) => {
+    const cells = splitCsvLine(line, delimiter);
+    if (!parseStatementDate(cells[dateColumn])) {
+      errors.push({ line: index + 2, error: 'A valid rate date is required' });
+      return;
+    }
+    const entries = currencyColumn !== -1 && rateColumn !== -1
+      ? [{ currency_code: cells[currencyColumn], rate: cells[rateColumn] }]
+      : headers
+        .map((header, column) => ({ header, column }))
+        .filter(({ header, column }) => column !== dateColumn && /^[A-Za-z]{3}$/.test(header))
+        .map(({ header, column }) => ({ currency_code: header, rate: cells[column] }))
+        .filter((entry) => entry.rate !== undefined && String(entry.rate).trim() !== '');
+
+    for (const entry of entries) {
+      try {
+        rows.push(validateRate({ ...entry, rate_date: cells[dateColumn] }));
+      } catch (error) {
+        errors.push({ line: index + 2, error: error.message });
+      }
+    }
+  });
+
+  if (rows.length === 0 && errors.length === 0) {
+    throw new Error('No rates found. Use columns currency, date, rate or a date column followed by currency codes.');
+  }
+  return { rows, errors };
+}
+
 /**
  * Fetch exchange rates from external API
  * Uses exchangerate-api.com (free tier) or fixer.io
@@ -103,12 +268,7 @@ function getFallbackRates(baseCurrency) {
 async function updateExchangeRates(agencyDatabase, agencyId) {
   const client = await getAgencyConnection(agencyDatabase);
   try {
-    // Get base currency from agency settings (agency_settings is in agency database, no agency_id needed)
-    const settingsResult = await client.query(
-      'SELECT default_currency, currency FROM public.agency_settings LIMIT 1'
-    );
-
-    const baseCurrency = settingsResult.rows[0]?.default_currency || settingsResult.rows[0]?.currency || 'INR';
+    const baseCurrency = await getBaseCurrency(client);
 
     // Fetch latest rates (with fallback to hardcoded rates on error)
     // In test environment or on network errors, use fallback rates
@@ -125,16 +285,17 @@ async function updateExchangeRates(agencyDatabase, agencyId) {
       rates = getFallbackRates(baseCurrency);
     }
 
-    // Update or insert rates
+    // API rates are units per base; dated rates are stored as base per unit
+    const today = new Date().toISOString().split('T')[0];
     for (const [code, rate] of Object.entries(rates)) {
+      if (code === baseCurrency || !(parseFloat(rate) > 0)) continue;
       try {
-        await client.query(
-          `INSERT INTO public.currencies (id, code, name, exchange_rate, updated_at)
-           VALUES ($1, $2, $3, $4, NOW())
-           ON CONFLICT (code) 
-           DO UPDATE SET exchange_rate = $4, updated_at = NOW()`,
-          [generateUUID(), code, code, parseFloat(rate)]
-        );
+        await upsertExchangeRate(client, {
+          currency_code: code,
+          rate_date: today,
+          rate: 1 / parseFloat(rate),
+          source: 'api',
+        }, null);
       } catch (error) {
         console.error(`[Currency] Error inserting rate for ${code}:`, error.message);
         throw error;
@@ -167,29 +328,19 @@ async function updateExchangeRates(agencyDatabase, agencyId) {
 /**
  * Convert amount between currencies
  */
-async function convertCurrency(agencyDatabase, amount, fromCurrency, toCurrency) {
+async function convertCurrency(agencyDatabase, amount, fromCurrency, toCurrency, date = null) {
   if (fromCurrency === toCurrency) {
     return amount;
   }
 
   const client = await getAgencyConnection(agencyDatabase);
   try {
-    // Get exchange rates
-    const fromRate = await client.query(
-      'SELECT exchange_rate FROM public.currencies WHERE code = $1',
-      [fromCurrency]
-    );
-    const toRate = await client.query(
-      'SELECT exchange_rate FROM public.currencies WHERE code = $1',
-      [toCurrency]
-    );
-
-    if (fromRate.rows.length === 0 || toRate.rows.length === 0) {
-      throw new Error(`Exchange rate not found for ${fromCurrency} or ${toCurrency}`);
-    }
+    const baseCurrency = await getBaseCurrency(client);
+    const fromRate = await getRateForDate(client, fromCurrency, date, baseCurrency);
+    const toRate = await getRateForDate(client, toCurrency, date, baseCurrency);
 
-    // Convert: amount * (toRate / fromRate)
-    const converted = parseFloat(amount) * (parseFloat(toRate.rows[0].exchange_rate) / parseFloat(fromRate.rows[0].exchange_rate));
+    // Convert through base: amount * (from -> base) / (to -> base)
+    const converted = parseFloat(amount) * (fromRate.rate / toRate.rate);
     return converted;
   } finally {
     client.release();
@@ -205,8 +356,61 @@ async function convertCurrency(agencyDatabase, amount, fromCurrency, toCurrency)
 async function getCurrencies(agencyDatabase) {
   const client = await getAgencyConnection(agencyDatabase);
   try {
+    const baseCurrency = await getBaseCurrency(client);
+    const result = await client.query(
+      `SELECT c.id, c.code, c.name, c.symbol, c.exchange_rate, c.updated_at, c.created_at,
+              (c.code = $1) AS is_base,
+              latest.rate AS latest_rate,
+              TO_CHAR(latest.rate_date, 'YYYY-MM-DD') AS latest_rate_date,
+              latest.source AS latest_rate_source
+       FROM public.currencies c
+       LEFT JOIN LATERAL (
+         SELECT er.rate, er.rate_date, er.source
+         FROM public.exchange_rates er
+         WHERE er.currency_code = c.code
+         ORDER BY er.rate_date DESC
+         LIMIT 1
+       ) latest ON true
+       ORDER BY (c.code = $1) DESC, c.code ASC`,
+      [baseCurrency]
+    );
+    return result.rows;
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Get dated exchange rates
+ */
+async function getExchangeRates(agencyDatabase, filters = {}) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const conditions = [];
+    const params = [];
+    if (filters.currency_code) {
+      params.push(resolveCurrencyCode(filters.currency_code));
+      conditions.push(`currency_code = $${params.length}`);
+    }
+    if (filters.from) {
+      params.push(filters.from);
+      conditions.push(`rate_date >= $${params.length}`);
+    }
+    if (filters.to) {
+      params.push(filters.to);
+      conditions.push(`rate_date <= $${params.length}`);
+    }
+
     const result = await client.query(
-      'SELECT * FROM public.currencies ORDER BY is_base DESC, code ASC'
+      `SELECT id, currency_code, TO_CHAR(rate_date, 'YYYY-MM-DD') AS rate_date, rate, source, created_at, updated_at
+       FROM public.exchange_rates
+       ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+       ORDER BY rate_date DESC, currency_code ASC
+       LIMIT 500`,
+      params
     );
     return result.rows;
   } finally {
@@ -217,9 +421,100 @@ async function getCurrencies(agencyDatabase) {
   }
 }
 
+/**
+ * Enter or correct a rate manually
+ */
+async function saveExchangeRate(agencyDatabase, rateData, userId) {
+  const rate = validateRate(rateData);
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const baseCurrency = await getBaseCurrency(client);
+    if (rate.currency_code === baseCurrency) {
+      throw new Error(`${baseCurrency} is the base currency and always has a rate of 1`);
+    }
+    return await upsertExchangeRate(client, { ...rate, source: 'manual' }, userId);
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Import rates from CSV content. Rows for the same currency and date are overwritten.
+ */
+async function importExchangeRates(agencyDatabase, content, userId) {
+  const { rows, errors } = parseRatesCsv(content);
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const baseCurrency = await getBaseCurrency(client);
+    const imported = [];
+
+    await client.query('BEGIN');
+    for (const row of rows) {
+      if (row.currency_code === baseCurrency) continue;
+      imported.push(await upsertExchangeRate(client, { ...row, source: 'csv' }, userId));
+    }
+    await client.query('COMMIT');
+
+    return { imported, errors };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Delete a dated rate
+ */
+async function deleteExchangeRate(agencyDatabase, rateId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const result = await client.query('DELETE FROM public.exchange_rates WHERE id = $1 RETURNING id', [rateId]);
+    if (result.rows.length === 0) {
+      throw new Error('Exchange rate not found');
+    }
+    return { id: rateId };
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Look up the rate that applies to a currency on a date
+ */
+async function lookupExchangeRate(agencyDatabase, currencyCode, date) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    return await getRateForDate(client, currencyCode, date);
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
 module.exports = {
+  resolveCurrencyCode,
+  getBaseCurrency,
+  getRateForDate,
   fetchExchangeRates,
   updateExchangeRates,
   convertCurrency,
   getCurrencies,
+  getExchangeRates,
+  saveExchangeRate,
+  importExchangeRates,
+  deleteExchangeRate,
+  lookupExchangeRate,
 };
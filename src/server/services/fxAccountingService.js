@@ -0,0 +1,728 @@
+/**
+ * Foreign Exchange Accounting Service
+ * Posts invoice payments in base currency with realized FX gain/loss and
+ * revalues open foreign currency receivables and payables at period end
+ */
+
+const { parseDatabaseUrl } = require('../utils/poolManager');
+const { Pool } = require('pg');
+const { round2 } = require('../utils/numberHelper');
+const { getBaseCurrency, getRateForDate, resolveCurrencyCode } = require('./currencyService');
+const { findOrCreateAccount } = require('../utils/accountingHelper');
+
+/**
+ * Get agency database connection
+ */
+async function getAgencyConnection(agencyDatabase) {
+  const { host, port, user, password } = parseDatabaseUrl();
+  const agencyDbUrl = `postgresql://${user}:${password}@${host}:${port}/${agencyDatabase}`;
+  const agencyPool = new Pool({ connectionString: agencyDbUrl, max: 1 });
+  const client = await agencyPool.connect();
+  client.pool = agencyPool;
+  return client;
+}
+
+// Accounts created on first use when the chart of accounts has no match
+const FX_ACCOUNTS = {
+  realized: {
+    account_code: '4910',
+    account_name: 'Realized Foreign Exchange Gain/Loss',
+    account_type: 'revenue',
+    pattern: '%realized%exchange%',
+    exclude_pattern: '%unrealized%',
+  },
+  unrealized: {
+    account_code: '4920',
+    account_name: 'Unrealized Foreign Exchange Gain/Loss',
+    account_type: 'revenue',
+    pattern: '%unrealized%exchange%',
+  },
+  receivable: { account_code: '1200', account_name: 'Accounts Receivable', account_type: 'asset', pattern: '%receivable%' },
+  payable: { account_code: '2100', account_name: 'Accounts Payable', account_type: 'liability', pattern: '%payable%' },
+};
+
+// Invoices saved before the total was stored carry 0; fall back to the legacy
+// subtotal - discount + tax on the discounted amount
+const INVOICE_TOTAL_SQL = `COALESCE(NULLIF(total_amount, 0),
+  (subtotal - COALESCE(discount, 0)) + COALESCE(NULLIF(tax_amount, 0), (subtotal - COALESCE(discount, 0)) * COALESCE(tax_rate, 0) / 100))`;
+
+// Payments recorded before multi-currency support carry no source link; they are
+// matched on the exact reference and description the old payment form wrote
+const LEGACY_PAYMENT_MATCH_SQL = (invoiceNumber) => `(
+  je.reference = 'PAY-' || ${invoiceNumber}
+  OR je.description = 'Payment for Invoice ' || ${invoiceNumber}
+  OR je.description LIKE 'Payment for Invoice ' || ${invoiceNumber} || ' - %')`;
+
+function getFxAccount(client, agencyId, key) {
+  return findOrCreateAccount(client, agencyId, FX_ACCOUNTS[key], 'Created automatically for foreign exchange postings');
+}
+
+async function findCashAccount(client, agencyId, accountId) {
+  if (accountId) {
+    const selected = await client.query(
+      'SELECT id FROM public.chart_of_accounts WHERE id = $1 AND agency_id = $2',
+      [accountId, agencyId]
+    );
+    if (selected.rows.length === 0) {
+      throw new Error('Selected cash or bank account not found');
+    }
+    return selected.rows[0].id;
+  }
+
+  const result = await client.query(
+    `SELECT id FROM public.chart_of_accounts
+     WHERE agency_id = $1 AND LOWER(account_type) = 'asset'
+       AND (account_name ILIKE '%cash%' OR account_name ILIKE '%bank%')
+     ORDER BY (account_name ILIKE '%cash%') DESC, account_code
+     LIMIT 1`,
+    [agencyId]
+  );
+  if (result.rows.length === 0) {
+    throw new Error('No cash account found. Please create a cash account in Chart of Accounts first.');
+  }
+  return result.rows[0].id;
+}
+
+function generateEntryNumber(prefix) {
+  return `${prefix}-${new Date().getFullYear()}-${String(Date.now()).slice(-6)}${Math.floor(Math.random() * 90 + 10)}`;
+}
+
+/**
+ * Insert journal lines. Amounts are in base currency; currency fields record the
+ * transaction currency amount the line was converted from.
+ */
+async function insertJournalLines(client, journalEntryId, lines) {
+  let lineNumber = 1;
+  for (const line of lines) {
+    if (round2(line.debit) === 0 && round2(line.credit) === 0) continue;
+    await client.query(
+      `INSERT INTO public.journal_entry_lines (
+        journal_entry_id, account_id, description, debit_amount, credit_amount, line_number,
+        currency, exchange_rate, foreign_amount
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+      [
+        journalEntryId,
+        line.account_id,
+        line.description,
+        round2(line.debit),
+        round2(line.credit),
+        lineNumber++,
+        line.currency || null,
+        line.exchange_rate || null,
+        line.foreign_amount !== undefined ? round2(line.foreign_amount) : null,
+      ]
+    );
+  }
+}
+
+async function insertJournalEntry(client, agencyId, entry, lines, userId) {
+  const total = round2(lines.reduce((sum, line) => sum + round2(line.debit), 0));
+  const result = await client.query(
+    `INSERT INTO public.journal_entries (
+      entry_number, entry_date, description, reference, status, total_debit, total_credit,
+      created_by, agency_id, source_type, source_id
+    ) VALUES ($1, $2, $3, $4, 'posted', $5, $5, $6, $7, $8, $9)
+    RETURNING id, entry_number`,
+    [
+      entry.entry_number,
+      entry.entry_date,
+      entry.description,
+      entry.reference,
+      total,
+      userId || null,
+      agencyId,
+      entry.source_type,
+      entry.source_id,
+    ]
+  );
+  await insertJournalLines(client, result.rows[0].id, lines);
+  return result.rows[0];
+}
+
+/**
+ * Amount paid against an invoice in its own currency. Payments recorded before
+ * multi-currency support are matched by reference and were posted at the invoice rate.
+ */
+async function getInvoicePaidAmount(client, invoice, excludeEntryId = null) {
+  const invoiceRate = parseFloat(invoice.exchange_rate) || 1;
+  const linked = await client.query(
+    `SELECT COALESCE(SUM(COALESCE(jel.foreign_amount, jel.credit_amount / $3)), 0) AS paid
+     FROM public.journal_entries je
+     JOIN public.journal_entry_lines jel ON jel.journal_entry_id = je.id
+     WHERE je.agency_id = $1 AND je.source_type = 'invoice_payment' AND je.source_id = $2
+       AND jel.line_number = 2
+       AND ($4::uuid IS NULL OR je.id <> $4::uuid)`,
+    [invoice.agency_id, invoice.id, invoiceRate, excludeEntryId]
+  );
+
+  const legacy = await client.query(
+    `SELECT COALESCE(SUM(jel.debit_amount), 0) AS paid
+     FROM public.journal_entries je
+     JOIN public.journal_entry_lines jel ON jel.journal_entry_id = je.id
+     JOIN public.chart_of_accounts coa ON coa.id = jel.account_id
+     WHERE je.agency_id = $1 AND je.source_type IS NULL AND je.status = 'posted'
+       AND ${LEGACY_PAYMENT_MATCH_SQL('$2')}
+       AND LOWER(coa.account_type) = 'asset'
+       AND (coa.account_name ILIKE '%cash%' OR coa.account_name ILIKE '%bank%')
+       AND jel.debit_amount > 0
+       AND ($3::uuid IS NULL OR je.id <> $3::uuid)`,
+    [invoice.agency_id, invoice.invoice_number, excludeEntryId]
+  );
+
+  return round2(parseFloat(linked.rows[0].paid) + parseFloat(legacy.rows[0].paid) / invoiceRate);
+}
+
+async function refreshInvoiceStatus(client, invoice) {
+  const paid = await getInvoicePaidAmount(client, invoice);
+  const total = round2(invoice.total_amount);
+  // Without a total there is nothing to compare payments against
+  if (!(total > 0)) {
+    return { status: invoice.status, amount_paid: paid, balance_due: 0 };
+  }
+  let status;
+  if (paid > 0 && paid >= total - 0.005) {
+    status = 'paid';
+  } else if (paid > 0) {
+    status = 'partial';
+  } else {
+    status = invoice.status === 'draft' ? 'draft' : 'sent';
+  }
+
+  await client.query('UPDATE public.invoices SET status = $1, updated_at = NOW() WHERE id = $2', [status, invoice.id]);
+  return { status, amount_paid: paid, balance_due: round2(Math.max(0, total - paid)) };
+}
+
+async function getInvoice(client, agencyId, invoiceId) {
+  const result = await client.query(
+    `SELECT id, agency_id, invoice_number, status, ${INVOICE_TOTAL_SQL} AS total_amount, currency, exchange_rate
+     FROM public.invoices WHERE id = $1 AND agency_id = $2 FOR UPDATE`,
+    [invoiceId, agencyId]
+  );
+  if (result.rows.length === 0) {
+    throw new Error('Invoice not found');
+  }
+  return result.rows[0];
+}
+
+/**
+ * Record (or re-record) a payment against an invoice.
+ * The amount is in the invoice currency. Cash is debited at the payment date rate,
+ * receivables are cleared at the invoice rate and the difference is realized FX gain/loss.
+ */
+async function recordInvoicePayment(agencyDatabase, agencyId, paymentData, userId) {
+  const amount = round2(paymentData.amount);
+  if (!paymentData.invoice_id) {
+    throw new Error('Please select an invoice');
+  }
+  if (!paymentData.payment_date) {
+    throw new Error('Please select a payment date');
+  }
+  if (!(amount > 0)) {
+    throw new Error('Please enter a valid payment amount');
+  }
+
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    await client.query('BEGIN');
+
+    const invoice = await getInvoice(client, agencyId, paymentData.invoice_id);
+    if (!(round2(invoice.total_amount) > 0)) {
+      throw new Error(`Invoice ${invoice.invoice_number} has no total amount; save the invoice with its line items first`);
+    }
+    const baseCurrency = await getBaseCurrency(client);
+    const currency = resolveCurrencyCode(invoice.currency) || baseCurrency;
+    const isForeign = currency !== baseCurrency;
+    const invoiceRate = isForeign ? parseFloat(invoice.exchange_rate) || 1 : 1;
+    let paymentRate = 1;
+    if (isForeign) {
+      paymentRate = parseFloat(paymentData.exchange_rate) > 0
+        ? parseFloat(paymentData.exchange_rate)
+        : (await getRateForDate(client, currency, paymentData.payment_date, baseCurrency)).rate;
+    }
+
+    const baseReceived = round2(amount * paymentRate);
+    const baseCleared = round2(amount * invoiceRate);
+    const gainLoss = round2(baseReceived - baseCleared);
+
+    const [cashAccountId, receivableAccountId] = await Promise.all([
+      findCashAccount(client, agencyId, paymentData.account_id),
+      getFxAccount(client, agencyId, 'receivable'),
+    ]);
+    const fxAccountId = gainLoss !== 0 ? await getFxAccount(client, agencyId, 'realized') : null;
+
+    const currencyFields = (rate) => (isForeign ? { currency, exchange_rate: rate, foreign_amount: amount } : {});
+    // Line order matters: line 2 is the receivable line getInvoicePaidAmount sums
+    const lines = [
+      {
+        account_id: cashAccountId,
+        description: `Payment received for Invoice ${invoice.invoice_number}`,
+        debit: baseReceived,
+        credit: 0,
+        ...currencyFields(paymentRate),
+      },
+      {
+        account_id: receivableAccountId,
+        description: `Payment for Invoice ${invoice.invoice_number}`,
+        debit: 0,
+        credit: baseCleared,
+        ...currencyFields(invoiceRate),
+      },
+    ];
+    if (gainLoss !== 0) {
+      lines.push({
+        account_id: fxAccountId,
+        description: `Realized exchange ${gainLoss > 0 ? 'gain' : 'loss'} on Invoice ${invoice.invoice_number}`,
+        debit: gainLoss < 0 ? -gainLoss : 0,
+        credit: gainLoss > 0 ? gainLoss : 0,
+      });
+    }
+
+    const description = `Payment for Invoice ${invoice.invoice_number}${paymentData.notes ? ` - ${paymentData.notes}` : ''}`;
+    const reference = paymentData.reference_number || `PAY-${invoice.invoice_number}`;
+    let entry;
+
+    if (paymentData.journal_entry_id) {
+      const existing = await client.query(
+        'SELECT id, entry_number FROM public.journal_entries WHERE id = $1 AND agency_id = $2',
+        [paymentData.journal_entry_id, agencyId]
+      );
+      if (existing.rows.length === 0) {
+        throw new Error('Payment entry not found');
+      }
+      await client.query(
+        `UPDATE public.journal_entries
+         SET entry_date = $1, description = $2, reference = $3, total_debit = $4, total_credit = $4,
+             source_type = 'invoice_payment', source_id = $5, updated_at = NOW()
+         WHERE id = $6`,
+        [paymentData.payment_date, description, reference, round2(Math.max(baseReceived, baseCleared)), invoice.id, paymentData.journal_entry_id]
+      );
+      await client.query('DELETE FROM public.journal_entry_lines WHERE journal_entry_id = $1', [paymentData.journal_entry_id]);
+      await insertJournalLines(client, paymentData.journal_entry_id, lines);
+      entry = existing.rows[0];
+    } else {
+      entry = await insertJournalEntry(client, agencyId, {
+        entry_number: generateEntryNumber('PAY'),
+        entry_date: paymentData.payment_date,
+        description,
+        reference,
+        source_type: 'invoice_payment',
+        source_id: invoice.id,
+      }, lines, userId);
+    }
+
+    const invoiceStatus = await refreshInvoiceStatus(client, invoice);
+    await client.query('COMMIT');
+
+    return {
+      journal_entry_id: entry.id,
+      entry_number: entry.entry_number,
+      currency,
+      base_currency: baseCurrency,
+      amount,
+      exchange_rate: paymentRate,
+      invoice_exchange_rate: invoiceRate,
+      base_amount: baseReceived,
+      realized_gain_loss: gainLoss,
+      invoice_status: invoiceStatus.status,
+      amount_paid: invoiceStatus.amount_paid,
+      balance_due: invoiceStatus.balance_due,
+    };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Delete a payment entry and recalculate the invoice status
+ */
+async function deleteInvoicePayment(agencyDatabase, agencyId, journalEntryId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    await client.query('BEGIN');
+
+    const entryResult = await client.query(
+      `SELECT je.id, je.source_type, je.source_id, je.reference
+       FROM public.journal_entries je
+       WHERE je.id = $1 AND je.agency_id = $2`,
+      [journalEntryId, agencyId]
+    );
+    if (entryResult.rows.length === 0) {
+      throw new Error('Payment entry not found');
+    }
+    const entry = entryResult.rows[0];
+
+    let invoiceId = entry.source_type === 'invoice_payment' ? entry.source_id : null;
+    if (!invoiceId && !entry.source_type) {
+      const legacyInvoice = await client.query(
+        `SELECT inv.id FROM public.invoices inv
+         JOIN public.journal_entries je ON je.id = $2
+         WHERE inv.agency_id = $1 AND inv.invoice_number IS NOT NULL
+           AND ${LEGACY_PAYMENT_MATCH_SQL('inv.invoice_number')}
+         LIMIT 1`,
+        [agencyId, journalEntryId]
+      );
+      invoiceId = legacyInvoice.rows[0]?.id || null;
+    }
+
+    await client.query('DELETE FROM public.journal_entries WHERE id = $1', [journalEntryId]);
+
+    let invoiceStatus = null;
+    if (invoiceId) {
+      const invoice = await getInvoice(client, agencyId, invoiceId);
+      invoiceStatus = await refreshInvoiceStatus(client, invoice);
+    }
+
+    await client.query('COMMIT');
+    return { journal_entry_id: journalEntryId, invoice_id: invoiceId, invoice_status: invoiceStatus?.status || null };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Work out unrealized gain/loss on open foreign currency documents at a date.
+ * Each revaluation is reversed the next day, so balances are always compared
+ * against the rate the document was booked at.
+ */
+async function calculateRevaluation(client, agencyId, revaluationDate, rateOverrides = {}) {
+  const baseCurrency = await getBaseCurrency(client);
+  const rates = {};
+  const missingRates = [];
+
+  const closingRate = async (currency) => {
+    if (rates[currency] !== undefined || missingRates.includes(currency)) return rates[currency];
+    const override = parseFloat(rateOverrides[currency]);
+    if (override > 0) {
+      rates[currency] = override;
+      return override;
+    }
+    try {
+      rates[currency] = (await getRateForDate(client, currency, revaluationDate, baseCurrency)).rate;
+    } catch {
+      missingRates.push(currency);
+    }
+    return rates[currency];
+  };
+
+  const invoices = await client.query(
+    `SELECT id, agency_id, invoice_number, status, ${INVOICE_TOTAL_SQL} AS total_amount, currency, exchange_rate,
+            TO_CHAR(issue_date, 'YYYY-MM-DD') AS document_date
+     FROM public.invoices
+     WHERE agency_id = $1 AND currency IS NOT NULL AND UPPER(currency) <> $2
+       AND issue_date <= $3 AND COALESCE(status, 'draft') NOT IN ('draft', 'paid', 'cancelled')`,
+    [agencyId, baseCurrency, revaluationDate]
+  );
+
+  const receivables = [];
+  for (const invoice of invoices.rows) {
+    const currency = resolveCurrencyCode(invoice.currency);
+    const outstanding = round2(parseFloat(invoice.total_amount) - await getInvoicePaidAmount(client, invoice));
+    if (outstanding <= 0) continue;
+    const rate = await closingRate(currency);
+    if (rate === undefined) continue;
+
+    const bookedRate = parseFloat(invoice.exchange_rate) || 1;
+    const carrying = round2(outstanding * bookedRate);
+    const revalued = round2(outstanding * rate);
+    receivables.push({
+      document_type: 'invoice',
+      document_id: invoice.id,
+      document_number: invoice.invoice_number,
+      document_date: invoice.document_date,
+      currency,
+      outstanding,
+      booked_rate: bookedRate,
+      closing_rate: rate,
+      carrying_amount: carrying,
+      revalued_amount: revalued,
+      gain_loss: round2(revalued - carrying),
+    });
+  }
+
+  const vendorInvoices = await client.query(
+    `SELECT id, invoice_number, total_amount, paid_amount, currency, exchange_rate,
+            TO_CHAR(invoice_date, 'YYYY-MM-DD') AS document_date
+     FROM public.vendor_invoices
+     WHERE agency_id = $1 AND currency IS NOT NULL AND UPPER(currency) <> $2
+       AND invoice_date <= $3 AND COALESCE(payment_status, 'unpaid') <> 'paid'
+       AND COALESCE(status, 'pending') NOT IN ('cancelled', 'disputed')`,
+    [agencyId, baseCurrency, revaluationDate]
+  );
+
+  const payables = [];
+  for (const bill of vendorInvoices.rows) {
+    const currency = resolveCurrencyCode(bill.currency);
+    const outstanding = round2(parseFloat(bill.total_amount) - parseFloat(bill.paid_amount || 0));
+    if (outstanding <= 0) continue;
+    const rate = await closingRate(currency);
+    if (rate === undefined) continue;
+
+    const bookedRate = parseFloat(bill.exchange_rate) || 1;
+    const carrying = round2(outstanding * bookedRate);
+    const revalued = round2(outstanding * rate);
+    payables.push({
+      document_type: 'vendor_invoice',
+      document_id: bill.id,
+      document_number: bill.invoice_number,
+      document_date: bill.document_date,
+      currency,
+      outstanding,
+      booked_rate: bookedRate,
+      closing_rate: rate,
+      carrying_amount: carrying,
+      revalued_amount: revalued,
+      // A larger payable in base currency is a loss
+      gain_loss: round2(carrying - revalued),
+    });
+  }
+
+  const receivablesGainLoss = round2(receivables.reduce((sum, row) => sum + row.gain_loss, 0));
+  const payablesGainLoss = round2(payables.reduce((sum, row) => sum + row.gain_loss, 0));
+
+  return {
+    revaluation_date: revaluationDate,
+    base_currency: baseCurrency,
+    rates,
+    missing_rates: missingRates,
+    receivables,
+    payables,
+    receivables_gain_loss: receivablesGainLoss,
+    payables_gain_loss: payablesGainLoss,
+    total_gain_loss: round2(receivablesGainLoss + payablesGainLoss),
+  };
+}
+
+/**
+ * Preview a revaluation without posting it
+ */
+async function previewRevaluation(agencyDatabase, agencyId, options = {}) {
+  if (!options.revaluation_date) {
+    throw new Error('Revaluation date is required');
+  }
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    return await calculateRevaluation(client, agencyId, options.revaluation_date, options.rates || {});
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Post a period-end revaluation and its reversal on the following day
+ */
+async function runRevaluation(agencyDatabase, agencyId, options = {}, userId) {
+  if (!options.revaluation_date) {
+    throw new Error('Revaluation date is required');
+  }
+
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    await client.query('BEGIN');
+
+    const existing = await client.query(
+      `SELECT id FROM public.fx_revaluations
+       WHERE agency_id = $1 AND revaluation_date = $2 AND status = 'posted'`,
+      [agencyId, options.revaluation_date]
+    );
+    if (existing.rows.length > 0) {
+      throw new Error(`A revaluation is already posted for ${options.revaluation_date}. Cancel it before running again.`);
+    }
+
+    const result = await calculateRevaluation(client, agencyId, options.revaluation_date, options.rates || {});
+    if (result.receivables.length === 0 && result.payables.length === 0) {
+      throw new Error('There are no open foreign currency balances to revalue');
+    }
+
+    let journalEntry = null;
+    let reversalEntry = null;
+    if (result.total_gain_loss !== 0 || result.receivables_gain_loss !== 0 || result.payables_gain_loss !== 0) {
+      const fxAccountId = await getFxAccount(client, agencyId, 'unrealized');
+      const lines = [];
+      if (result.receivables_gain_loss !== 0) {
+        const receivableAccountId = await getFxAccount(client, agencyId, 'receivable');
+        lines.push({
+          account_id: receivableAccountId,
+          description: 'Revaluation of foreign currency receivables',
+          debit: Math.max(result.receivables_gain_loss, 0),
+          credit: Math.max(-result.receivables_gain_loss, 0),
+        });
+      }
+      if (result.payables_gain_loss !== 0) {
+        const payableAccountId = await getFxAccount(client, agencyId, 'payable');
+        lines.push({
+          account_id: payableAccountId,
+          description: 'Revaluation of foreign currency payables',
+          debit: Math.max(result.payables_gain_loss, 0),
+          credit: Math.max(-result.payables_gain_loss, 0),
+        });
+      }
+      if (result.total_gain_loss !== 0) {
+        lines.push({
+          account_id: fxAccountId,
+          description: `Unrealized exchange ${result.total_gain_loss > 0 ? 'gain' : 'loss'}`,
+          debit: Math.max(-result.total_gain_loss, 0),
+          credit: Math.max(result.total_gain_loss, 0),
+        });
+      }
+
+      journalEntry = await insertJournalEntry(client, agencyId, {
+        entry_number: generateEntryNumber('FXR'),
+        entry_date: options.revaluation_date,
+        description: `Foreign currency revaluation as at ${options.revaluation_date}`,
+        reference: `FXR-${options.revaluation_date}`,
+        source_type: 'fx_revaluation',
+        source_id: null,
+      }, lines, userId);
+
+      const reversalDate = await client.query(`SELECT TO_CHAR($1::date + 1, 'YYYY-MM-DD') AS date`, [options.revaluation_date]);
+      reversalEntry = await insertJournalEntry(client, agencyId, {
+        entry_number: generateEntryNumber('FXRV'),
+        entry_date: reversalDate.rows[0].date,
+        description: `Reversal of foreign currency revaluation as at ${options.revaluation_date}`,
+        reference: `FXR-${options.revaluation_date}`,
+        source_type: 'fx_revaluation_reversal',
+        source_id: null,
+      }, lines.map((line) => ({ ...line, debit: line.credit, credit: line.debit, description: `Reversal: ${line.description}` })), userId);
+    }
+
+    const revaluation = await client.query(
+      `INSERT INTO public.fx_revaluations (
+        agency_id, revaluation_date, base_currency, rates, receivables_gain_loss, payables_gain_loss,
+        total_gain_loss, details, journal_entry_id, reversal_entry_id, created_by
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+      RETURNING id`,
+      [
+        agencyId,
+        options.revaluation_date,
+        result.base_currency,
+        JSON.stringify(result.rates),
+        result.receivables_gain_loss,
+        result.payables_gain_loss,
+        result.total_gain_loss,
+        JSON.stringify([...result.receivables, ...result.payables]),
+        journalEntry?.id || null,
+        reversalEntry?.id || null,
+        userId || null,
+      ]
+    );
+
+    // Point the entries back at the revaluation they belong to
+    const entryIds = [journalEntry?.id, reversalEntry?.id].filter(Boolean);
+    if (entryIds.length > 0) {
+      await client.query(
+        'UPDATE public.journal_entries SET source_id = $1 WHERE id = ANY($2::uuid[])',
+        [revaluation.rows[0].id, entryIds]
+      );
+    }
+
+    await client.query('COMMIT');
+    return {
+      ...result,
+      id: revaluation.rows[0].id,
+      journal_entry_id: journalEntry?.id || null,
+      journal_entry_number: journalEntry?.entry_number || null,
+      reversal_entry_id: reversalEntry?.id || null,
+      reversal_entry_number: reversalEntry?.entry_number || null,
+    };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * List revaluation runs
+ */
+async function getRevaluations(agencyDatabase, agencyId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const result = await client.query(
+      `SELECT r.id, TO_CHAR(r.revaluation_date, 'YYYY-MM-DD') AS revaluation_date, r.base_currency, r.rates,
+              r.receivables_gain_loss, r.payables_gain_loss, r.total_gain_loss, r.details, r.status,
+              r.journal_entry_id, r.reversal_entry_id, je.entry_number AS journal_entry_number,
+              rje.entry_number AS reversal_entry_number, r.created_at, u.email AS created_by_email
+       FROM public.fx_revaluations r
+       LEFT JOIN public.journal_entries je ON je.id = r.journal_entry_id
+       LEFT JOIN public.journal_entries rje ON rje.id = r.reversal_entry_id
+       LEFT JOIN public.users u ON u.id = r.created_by
+       WHERE r.agency_id = $1
+       ORDER BY r.revaluation_date DESC, r.created_at DESC`,
+      [agencyId]
+    );
+    return result.rows;
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Cancel a revaluation, removing its entry and reversal so the date can be run again
+ */
+async function cancelRevaluation(agencyDatabase, agencyId, revaluationId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    await client.query('BEGIN');
+    const result = await client.query(
+      `SELECT id, journal_entry_id, reversal_entry_id FROM public.fx_revaluations
+       WHERE id = $1 AND agency_id = $2 AND status = 'posted' FOR UPDATE`,
+      [revaluationId, agencyId]
+    );
+    if (result.rows.length === 0) {
+      throw new Error('Posted revaluation not found');
+    }
+
+    const entryIds = [result.rows[0].journal_entry_id, result.rows[0].reversal_entry_id].filter(Boolean);
+    await client.query(
+      `UPDATE public.fx_revaluations SET status = 'cancelled', journal_entry_id = NULL, reversal_entry_id = NULL WHERE id = $1`,
+      [revaluationId]
+    );
+    if (entryIds.length > 0) {
+      await client.query('DELETE FROM public.journal_entries WHERE id = ANY($1::uuid[])', [entryIds]);
+    }
+
+    await client.query('COMMIT');
+    return { id: revaluationId, status: 'cancelled' };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+module.exports = {
+  generateEntryNumber,
+  insertJournalEntry,
+  recordInvoicePayment,
+  deleteInvoicePayment,
+  previewRevaluation,
+  runRevaluation,
+  getRevaluations,
+  cancelRevaluation,
+};
@@ -5,6 +5,11 @@
 
 const { parseDatabaseUrl } = require('../utils/poolManager');
 const { Pool } = require('pg');
+const crypto = require('crypto');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOURS_PER_DAY = 8;
+const DEPENDENCY_TYPES = ['finish_to_start', 'start_to_start', 'finish_to_finish', 'start_to_finish'];
 
 async function getAgencyConnection(agencyDatabase) {
   const { host, port, user, password } = parseDatabaseUrl();
@@ -17,54 +22,259 @@ async function getAgencyConnection(agencyDatabase) {
 }
 
 /**
- * Get Gantt chart data for a project
+ * Dates are handled as whole days ("YYYY-MM-DD" <-> day number) to avoid timezone drift
+ */
+function toDayNumber(date) {
+  if (!date) return null;
+  const [year, month, day] = String(date).split('T')[0].split('-').map((part) => parseInt(part, 10));
+  return Math.round(Date.UTC(year, month - 1, day) / DAY_MS);
+}
+
+function fromDayNumber(dayNumber) {
+  return new Date(dayNumber * DAY_MS).toISOString().split('T')[0];
+}
+
+/**
+ * Resolve the bar a task occupies; task dates are inclusive.
+ * A task with only one date gets its estimate (or one day) as duration.
+ */
+function resolveTaskSpan(task) {
+  let start = toDayNumber(task.start_date);
+  let finish = toDayNumber(task.due_date);
+  const estimatedDays = Math.max(1, Math.ceil((parseFloat(task.estimated_hours) || 0) / HOURS_PER_DAY));
+
+  if (start === null && finish === null) return null;
+  if (start === null) start = finish - estimatedDays + 1;
+  if (finish === null) finish = start + estimatedDays - 1;
+  if (finish < start) finish = start;
+  return { start, finish, duration: finish - start + 1 };
+}
+
+/**
+ * Earliest start/finish a successor may have, given its predecessor span and link
+ */
+function requiredSuccessorBounds(predecessor, dependency, successorDuration) {
+  const lag = parseInt(dependency.lag_days, 10) || 0;
+  switch (dependency.dependency_type) {
+    case 'start_to_start':
+      return { minStart: predecessor.start + lag };
+    case 'finish_to_finish':
+      return { minStart: predecessor.finish + lag - successorDuration + 1 };
+    case 'start_to_finish':
+      return { minStart: predecessor.start + lag - successorDuration + 1 };
+    case 'finish_to_start':
+    default:
+      return { minStart: predecessor.finish + 1 + lag };
+  }
+}
+
+/**
+ * Latest finish a predecessor may have without delaying its successor
+ */
+function latestPredecessorFinish(successorLate, dependency, predecessorDuration) {
+  const lag = parseInt(dependency.lag_days, 10) || 0;
+  switch (dependency.dependency_type) {
+    case 'start_to_start':
+      return successorLate.start - lag + predecessorDuration - 1;
+    case 'finish_to_finish':
+      return successorLate.finish - lag;
+    case 'start_to_finish':
+      return successorLate.finish - lag + predecessorDuration - 1;
+    case 'finish_to_start':
+    default:
+      return successorLate.start - 1 - lag;
+  }
+}
+
+/**
+ * Order task ids so every predecessor comes before its successors.
+ * Returns null when the dependencies contain a cycle.
+ */
+function topologicalOrder(taskIds, dependencies) {
+  const incoming = new Map(taskIds.map((id) => [id, 0]));
+  const outgoing = new Map(taskIds.map((id) => [id, []]));
+  for (const dependency of dependencies) {
+    if (!incoming.has(dependency.predecessor_task_id) || !incoming.has(dependency.successor_task_id)) continue;
+    incoming.set(dependency.successor_task_id, incoming.get(dependency.successor_task_id) + 1);
+    outgoing.get(dependency.predecessor_task_id).push(dependency.successor_task_id);
+  }
+
+  const queue = taskIds.filter((id) => incoming.get(id) === 0);
+  const order = [];
+  while (queue.length > 0) {
+    const id = queue.shift();
+    order.push(id);
+    for (const next of outgoing.get(id)) {
+      incoming.set(next, incoming.get(next) - 1);
+      if (incoming.get(next) === 0) queue.push(next);
+    }
+  }
+  return order.length === taskIds.length ? order : null;
+}
+
+/**
+ * Critical path analysis on the scheduled dates.
+ * A backward pass from the project finish gives each task its latest finish;
+ * total slack is how far the task can slip without moving the project end.
+ */
+function calculateSchedule(tasks, dependencies) {
+  const spans = new Map();
+  for (const task of tasks) {
+    const span = resolveTaskSpan(task);
+    if (span) spans.set(task.id, span);
+  }
+
+  const scheduledIds = Array.from(spans.keys());
+  const links = dependencies.filter((d) => spans.has(d.predecessor_task_id) && spans.has(d.successor_task_id));
+  const order = topologicalOrder(scheduledIds, links);
+  if (scheduledIds.length === 0 || !order) {
+    return { schedule: {}, critical_path: [], project_start: null, project_finish: null };
+  }
+
+  const projectStart = Math.min(...scheduledIds.map((id) => spans.get(id).start));
+  const projectFinish = Math.max(...scheduledIds.map((id) => spans.get(id).finish));
+
+  const late = new Map();
+  for (const id of [...order].reverse()) {
+    const span = spans.get(id);
+    let lateFinish = projectFinish;
+    for (const link of links.filter((d) => d.predecessor_task_id === id)) {
+      lateFinish = Math.min(lateFinish, latestPredecessorFinish(late.get(link.successor_task_id), link, span.duration));
+    }
+    late.set(id, { start: lateFinish - span.duration + 1, finish: lateFinish });
+  }
+
+  const schedule = {};
+  for (const id of order) {
+    const span = spans.get(id);
+    const lateSpan = late.get(id);
+    const totalSlack = lateSpan.finish - span.finish;
+    schedule[id] = {
+      start_date: fromDayNumber(span.start),
+      finish_date: fromDayNumber(span.finish),
+      duration_days: span.duration,
+      late_start: fromDayNumber(lateSpan.start),
+      late_finish: fromDayNumber(lateSpan.finish),
+      total_slack: totalSlack,
+      is_critical: totalSlack <= 0,
+    };
+  }
+
+  const criticalPath = order
+    .filter((id) => schedule[id].is_critical)
+    .sort((a, b) => spans.get(a).start - spans.get(b).start);
+
+  return {
+    schedule,
+    critical_path: criticalPath,
+    project_start: fromDayNumber(projectStart),
+    project_finish: fromDayNumber(projectFinish),
+  };
+}
+
+async function fetchProjectTasks(client, projectId) {
+  const result = await client.query(
+    `SELECT 
+      t.id,
+      t.title AS name,
+      t.description,
+      t.status,
+      t.priority,
+      TO_CHAR(t.start_date, 'YYYY-MM-DD') AS start_date,
+      TO_CHAR(t.due_date, 'YYYY-MM-DD') AS due_date,
+      t.estimated_hours,
+      t.actual_hours,
+      t.progress AS progress_percentage,
+      t.assignee_id,
+      t.project_id
+    FROM public.tasks t
+    WHERE t.project_id = $1
+    ORDER BY t.start_date ASC NULLS LAST, t.created_at ASC`,
+    [projectId]
+  );
+  return result.rows;
+}
+
+async function fetchProjectDependencies(client, projectId) {
+  const result = await client.query(
+    `SELECT 
+      d.id,
+      d.predecessor_task_id,
+      d.successor_task_id,
+      d.dependency_type,
+      d.lag_days
+    FROM public.project_dependencies d
+    WHERE d.project_id = $1`,
+    [projectId]
+  );
+  return result.rows;
+}
+
+/**
+ * Push successors later until every dependency is satisfied.
+ * Durations are preserved; tasks are never pulled earlier.
+ */
+async function propagateSchedule(client, projectId, changedTaskIds) {
+  const tasks = await fetchProjectTasks(client, projectId);
+  const dependencies = await fetchProjectDependencies(client, projectId);
+  const spans = new Map();
+  for (const task of tasks) {
+    const span = resolveTaskSpan(task);
+    if (span) spans.set(task.id, span);
+  }
+
+  const order = topologicalOrder(Array.from(spans.keys()), dependencies.filter(
+    (d) => spans.has(d.predecessor_task_id) && spans.has(d.successor_task_id)
+  ));
+  if (!order) {
+    throw new Error('Task dependencies contain a cycle');
+  }
+
+  const dirty = new Set(changedTaskIds);
+  const shifted = [];
+  for (const id of order) {
+    const incoming = dependencies.filter((d) => d.successor_task_id === id && spans.has(d.predecessor_task_id));
+    if (!incoming.some((d) => dirty.has(d.predecessor_task_id))) continue;
+
+    const span = spans.get(id);
+    const minStart = Math.max(...incoming.map((d) => requiredSuccessorBounds(spans.get(d.predecessor_task_id), d, span.duration).minStart));
+    if (minStart > span.start) {
+      const delta = minStart - span.start;
+      const moved = { start: span.start + delta, finish: span.finish + delta, duration: span.duration };
+      spans.set(id, moved);
+      dirty.add(id);
+      await client.query(
+        'UPDATE public.tasks SET start_date = $1, due_date = $2, updated_at = NOW() WHERE id = $3',
+        [fromDayNumber(moved.start), fromDayNumber(moved.finish), id]
+      );
+      shifted.push({ id, start_date: fromDayNumber(moved.start), due_date: fromDayNumber(moved.finish), shifted_days: delta });
+    }
+  }
+  return shifted;
+}
+
+/**
+ * Get Gantt chart data for a project, including critical path and slack
  */
 async function getGanttData(agencyDatabase, projectId) {
   const client = await getAgencyConnection(agencyDatabase);
   try {
     // Get all tasks with dependencies (return empty array if no tasks)
-    let tasksResult;
+    let tasks;
     try {
-      tasksResult = await client.query(
-        `SELECT 
-          t.id,
-          t.name,
-          t.description,
-          t.status,
-          t.priority,
-          t.start_date,
-          t.due_date,
-          t.estimated_hours,
-          t.actual_hours,
-          t.progress_percentage,
-          t.project_id
-        FROM public.tasks t
-        WHERE t.project_id = $1
-        ORDER BY t.start_date ASC NULLS LAST, t.created_at ASC`,
-        [projectId]
-      );
+      tasks = await fetchProjectTasks(client, projectId);
     } catch (error) {
       console.warn('[Gantt] Error fetching tasks:', error.message);
-      tasksResult = { rows: [] };
+      tasks = [];
     }
 
     // Get dependencies (return empty array if no dependencies)
-    let dependenciesResult;
+    let dependencies;
     try {
-      dependenciesResult = await client.query(
-        `SELECT 
-          d.id,
-          d.predecessor_task_id,
-          d.successor_task_id,
-          d.dependency_type,
-          d.lag_days
-        FROM public.project_dependencies d
-        WHERE d.project_id = $1`,
-        [projectId]
-      );
+      dependencies = await fetchProjectDependencies(client, projectId);
     } catch (error) {
       console.warn('[Gantt] Error fetching dependencies:', error.message);
-      dependenciesResult = { rows: [] };
+      dependencies = [];
     }
 
     // Get milestones (return empty array if no milestones)
@@ -74,7 +284,7 @@ async function getGanttData(agencyDatabase, projectId) {
         `SELECT 
           m.id,
           m.name,
-          m.target_date,
+          TO_CHAR(m.target_date, 'YYYY-MM-DD') AS target_date,
           m.status,
           m.is_critical
         FROM public.project_milestones m
@@ -87,10 +297,15 @@ async function getGanttData(agencyDatabase, projectId) {
       milestonesResult = { rows: [] };
     }
 
+    const { schedule, critical_path, project_start, project_finish } = calculateSchedule(tasks, dependencies);
+
     return {
-      tasks: tasksResult.rows || [],
-      dependencies: dependenciesResult.rows || [],
+      tasks: tasks.map((task) => ({ ...task, ...(schedule[task.id] ? { schedule: schedule[task.id] } : {}) })),
+      dependencies,
       milestones: milestonesResult.rows || [],
+      critical_path,
+      project_start,
+      project_finish,
     };
   } catch (error) {
     console.error('[Gantt] Error in getGanttData:', error);
@@ -99,6 +314,9 @@ async function getGanttData(agencyDatabase, projectId) {
       tasks: [],
       dependencies: [],
       milestones: [],
+      critical_path: [],
+      project_start: null,
+      project_finish: null,
     };
   } finally {
     client.release();
@@ -109,12 +327,47 @@ async function getGanttData(agencyDatabase, projectId) {
 }
 
 /**
- * Create task dependency
+ * Create task dependency and shift the successor if the link requires it
  */
 async function createDependency(agencyDatabase, dependencyData) {
+  const { project_id, predecessor_task_id, successor_task_id } = dependencyData;
+  const dependencyType = dependencyData.dependency_type || 'finish_to_start';
+  if (!predecessor_task_id || !successor_task_id) {
+    throw new Error('Predecessor and successor tasks are required');
+  }
+  if (predecessor_task_id === successor_task_id) {
+    throw new Error('A task cannot depend on itself');
+  }
+  if (!DEPENDENCY_TYPES.includes(dependencyType)) {
+    throw new Error(`Unsupported dependency type: ${dependencyType}`);
+  }
+
   const client = await getAgencyConnection(agencyDatabase);
   try {
-    const crypto = require('crypto');
+    await client.query('BEGIN');
+
+    const tasksResult = await client.query(
+      'SELECT id FROM public.tasks WHERE project_id = $1 AND id = ANY($2)',
+      [project_id, [predecessor_task_id, successor_task_id]]
+    );
+    if (tasksResult.rows.length !== 2) {
+      throw new Error('Both tasks must belong to this project');
+    }
+
+    const dependencies = await fetchProjectDependencies(client, project_id);
+    if (dependencies.some((d) =>
+      (d.predecessor_task_id === predecessor_task_id && d.successor_task_id === successor_task_id) ||
+      (d.predecessor_task_id === successor_task_id && d.successor_task_id === predecessor_task_id)
+    )) {
+      throw new Error('These tasks are already linked');
+    }
+
+    const taskIds = Array.from(new Set(dependencies.flatMap((d) => [d.predecessor_task_id, d.successor_task_id])
+      .concat([predecessor_task_id, successor_task_id])));
+    if (!topologicalOrder(taskIds, [...dependencies, { predecessor_task_id, successor_task_id }])) {
+      throw new Error('This dependency would create a circular chain of tasks');
+    }
+
     const result = await client.query(
       `INSERT INTO public.project_dependencies (
         id, project_id, agency_id, predecessor_task_id,
@@ -123,15 +376,84 @@ async function createDependency(agencyDatabase, dependencyData) {
       RETURNING *`,
       [
         crypto.randomUUID(),
-        dependencyData.project_id,
+        project_id,
         dependencyData.agency_id,
-        dependencyData.predecessor_task_id,
-        dependencyData.successor_task_id,
-        dependencyData.dependency_type || 'finish_to_start',
-        dependencyData.lag_days || 0,
+        predecessor_task_id,
+        successor_task_id,
+        dependencyType,
+        parseInt(dependencyData.lag_days, 10) || 0,
       ]
     );
-    return result.rows[0];
+
+    const shiftedTasks = await propagateSchedule(client, project_id, [predecessor_task_id]);
+
+    await client.query('COMMIT');
+    return { ...result.rows[0], shifted_tasks: shiftedTasks };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Delete task dependency
+ */
+async function deleteDependency(agencyDatabase, projectId, dependencyId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const result = await client.query(
+      'DELETE FROM public.project_dependencies WHERE id = $1 AND project_id = $2 RETURNING id',
+      [dependencyId, projectId]
+    );
+    if (result.rows.length === 0) {
+      throw new Error('Dependency not found');
+    }
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Move or resize a task and shift its dependent tasks
+ */
+async function rescheduleTask(agencyDatabase, projectId, taskId, scheduleData) {
+  const { start_date, due_date } = scheduleData;
+  if (!start_date || !due_date) {
+    throw new Error('Start date and due date are required');
+  }
+  if (toDayNumber(due_date) < toDayNumber(start_date)) {
+    throw new Error('Due date cannot be before start date');
+  }
+
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    await client.query('BEGIN');
+
+    const result = await client.query(
+      `UPDATE public.tasks SET start_date = $1, due_date = $2, updated_at = NOW()
+       WHERE id = $3 AND project_id = $4
+       RETURNING id, TO_CHAR(start_date, 'YYYY-MM-DD') AS start_date, TO_CHAR(due_date, 'YYYY-MM-DD') AS due_date`,
+      [start_date, due_date, taskId, projectId]
+    );
+    if (result.rows.length === 0) {
+      throw new Error('Task not found');
+    }
+
+    const shiftedTasks = await propagateSchedule(client, projectId, [taskId]);
+
+    await client.query('COMMIT');
+    return { task: result.rows[0], shifted_tasks: shiftedTasks };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
   } finally {
     client.release();
     if (client.pool) {
@@ -143,4 +465,7 @@ async function createDependency(agencyDatabase, dependencyData) {
 module.exports = {
   getGanttData,
   createDependency,
+  deleteDependency,
+  rescheduleTask,
+  calculateSchedule,
 };
@@ -93,8 +93,8 @@ async function createProduct(agencyDatabase, productData, userId) {
       `INSERT INTO public.products (
         id, agency_id, sku, name, description, category_id, brand, unit_of_measure,
         barcode, qr_code, weight, dimensions, image_url, is_active, is_trackable,
-        track_by, created_at, updated_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, NOW(), NOW())
+        track_by, preferred_supplier_id, lead_time_days, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, NOW(), NOW())
       RETURNING *`,
       [
         generateUUID(),
@@ -113,6 +113,8 @@ async function createProduct(agencyDatabase, productData, userId) {
         productData.is_active !== false,
         productData.is_trackable || false,
         productData.track_by || 'none',
+        productData.preferred_supplier_id || null,
+        productData.lead_time_days ?? null,
       ]
     );
     return result.rows[0];
@@ -207,119 +209,364 @@ async function getInventoryLevels(agencyDatabase, agencyId, productId, variantId
   }
 }
 
+const LAYERED_METHODS = ['FIFO', 'FEFO', 'LIFO'];
+
 /**
- * Create inventory transaction (stock movement)
+ * Normalize a stored valuation method; anything unrecognised is weighted average
  */
-async function createInventoryTransaction(agencyDatabase, transactionData, userId) {
-  const client = await getAgencyConnection(agencyDatabase);
-  try {
-    await client.query('BEGIN');
+function normalizeValuationMethod(method) {
+  const value = String(method || '').trim().toUpperCase();
+  return LAYERED_METHODS.includes(value) ? value : 'weighted_average';
+}
 
-    // Get or create inventory record
-    let inventoryResult = await client.query(
-      `SELECT * FROM public.inventory 
-       WHERE product_id = $1 
-       AND COALESCE(variant_id, '00000000-0000-0000-0000-000000000000'::uuid) = COALESCE($2, '00000000-0000-0000-0000-000000000000'::uuid)
-       AND warehouse_id = $3`,
-      [transactionData.product_id, transactionData.variant_id || null, transactionData.warehouse_id]
-    );
+/**
+ * Order in which open layers are drawn down for a valuation method.
+ * Weighted average items still keep layers (oldest first) so the drill-down stays meaningful.
+ */
+function layerConsumptionOrder(method) {
+  switch (method) {
+    case 'FEFO':
+      return 'expiry_date ASC NULLS LAST, received_at ASC, created_at ASC';
+    case 'LIFO':
+      return 'received_at DESC, created_at DESC';
+    default:
+      return 'received_at ASC, created_at ASC';
+  }
+}
 
-    let inventoryId;
-    if (inventoryResult.rows.length === 0) {
-      // Create inventory record
-      const newInventory = await client.query(
-        `INSERT INTO public.inventory (
-          id, agency_id, product_id, variant_id, warehouse_id, quantity, 
-          reserved_quantity, reorder_point, reorder_quantity, valuation_method,
-          average_cost, last_cost, created_at, updated_at
-        ) VALUES ($1, $2, $3, $4, $5, 0, 0, $6, $7, $8, 0, 0, NOW(), NOW())
-        RETURNING id`,
-        [
-          generateUUID(),
-          transactionData.agency_id,
-          transactionData.product_id,
-          transactionData.variant_id || null,
-          transactionData.warehouse_id,
-          transactionData.reorder_point || 0,
-          transactionData.reorder_quantity || 0,
-          transactionData.valuation_method || 'weighted_average',
-        ]
-      );
-      inventoryId = newInventory.rows[0].id;
-    } else {
-      inventoryId = inventoryResult.rows[0].id;
-    }
+/**
+ * Stock that predates cost layers gets an opening layer at the current average cost,
+ * so layered quantity always matches the inventory quantity
+ */
+async function ensureOpeningLayer(client, inventory) {
+  const quantity = parseFloat(inventory.quantity) || 0;
+  if (quantity <= 0) return;
+
+  const layered = await client.query(
+    'SELECT COALESCE(SUM(remaining_quantity), 0) AS qty FROM public.inventory_cost_layers WHERE inventory_id = $1',
+    [inventory.id]
+  );
+  const gap = quantity - (parseFloat(layered.rows[0].qty) || 0);
+  if (gap <= 0.0001) return;
+
+  await client.query(
+    `INSERT INTO public.inventory_cost_layers (
+      id, agency_id, inventory_id, layer_type, received_at, original_quantity, remaining_quantity, unit_cost
+    ) VALUES ($1, $2, $3, 'opening', $4, $5, $5, $6)`,
+    [
+      generateUUID(),
+      inventory.agency_id,
+      inventory.id,
+      inventory.created_at || new Date(),
+      gap,
+      parseFloat(inventory.average_cost) || 0,
+    ]
+  );
+}
 
-    // Calculate new quantity based on transaction type
-    const currentInventory = inventoryResult.rows[0] || { quantity: 0, reserved_quantity: 0 };
-    let newQuantity = parseFloat(currentInventory.quantity) || 0;
-    
-    if (transactionData.transaction_type === 'IN' || transactionData.transaction_type === 'RETURN') {
-      newQuantity += parseFloat(transactionData.quantity);
-    } else if (transactionData.transaction_type === 'OUT') {
-      newQuantity -= parseFloat(transactionData.quantity);
-      if (newQuantity < 0) {
-        throw new Error('Insufficient stock');
-      }
-    } else if (transactionData.transaction_type === 'ADJUSTMENT') {
-      newQuantity = parseFloat(transactionData.quantity);
-    }
+/**
+ * Draw down open layers for an outbound quantity. A batch number, when given, is issued first.
+ * Returns the cost of goods and the layers touched; any quantity not covered by layers is
+ * costed at the fallback unit cost.
+ */
+async function consumeCostLayers(client, inventoryId, quantity, method, fallbackUnitCost, batchNumber) {
+  const batchFirst = batchNumber ? 'CASE WHEN batch_number = $2 THEN 0 ELSE 1 END, ' : '';
+  const layers = await client.query(
+    `SELECT * FROM public.inventory_cost_layers
+     WHERE inventory_id = $1 AND remaining_quantity > 0
+     ORDER BY ${batchFirst}${layerConsumptionOrder(method)}
+     FOR UPDATE`,
+    batchNumber ? [inventoryId, batchNumber] : [inventoryId]
+  );
+
+  let remaining = quantity;
+  let layerCost = 0;
+  const consumed = [];
+
+  for (const layer of layers.rows) {
+    if (remaining <= 0.0001) break;
+    const available = parseFloat(layer.remaining_quantity) || 0;
+    const take = Math.min(available, remaining);
+    const unitCost = parseFloat(layer.unit_cost) || 0;
 
-    // Update inventory quantity
     await client.query(
-      `UPDATE public.inventory 
-       SET quantity = $1, 
-           last_movement_date = NOW(),
-           updated_at = NOW()
-       WHERE id = $2`,
-      [newQuantity, inventoryId]
+      'UPDATE public.inventory_cost_layers SET remaining_quantity = remaining_quantity - $1 WHERE id = $2',
+      [take, layer.id]
     );
 
-    // Update average cost for weighted average method
-    if (transactionData.unit_cost && transactionData.transaction_type === 'IN') {
-      const currentCost = parseFloat(currentInventory.average_cost) || 0;
-      const currentQty = parseFloat(currentInventory.quantity) || 0;
-      const newCost = parseFloat(transactionData.unit_cost);
-      const newQty = parseFloat(transactionData.quantity);
+    consumed.push({
+      layer_id: layer.id,
+      quantity: take,
+      unit_cost: unitCost,
+      total_cost: Math.round(take * unitCost * 100) / 100,
+      batch_id: layer.batch_id,
+      batch_number: layer.batch_number,
+      expiry_date: layer.expiry_date,
+      received_at: layer.received_at,
+    });
+    layerCost += take * unitCost;
+    remaining -= take;
+  }
 
-      if (currentQty + newQty > 0) {
-        const weightedAverage = ((currentCost * currentQty) + (newCost * newQty)) / (currentQty + newQty);
-        await client.query(
-          'UPDATE public.inventory SET average_cost = $1, last_cost = $2 WHERE id = $3',
-          [weightedAverage, newCost, inventoryId]
-        );
-      }
+  const uncovered = Math.max(0, remaining);
+  const weightedCost = quantity * fallbackUnitCost;
+  const cost = method === 'weighted_average' ? weightedCost : layerCost + uncovered * fallbackUnitCost;
+
+  return { cost: Math.round(cost * 100) / 100, consumed };
+}
+
+/**
+ * Average cost of the stock still on hand, from open layers
+ */
+async function refreshLayerAverageCost(client, inventoryId) {
+  await client.query(
+    `UPDATE public.inventory i
+     SET average_cost = l.value / l.qty
+     FROM (
+       SELECT SUM(remaining_quantity) AS qty, SUM(remaining_quantity * unit_cost) AS value
+       FROM public.inventory_cost_layers
+       WHERE inventory_id = $1 AND remaining_quantity > 0
+     ) l
+     WHERE i.id = $1 AND l.qty > 0`,
+    [inventoryId]
+  );
+}
+
+/**
+ * Record an inventory transaction (stock movement) on an open database transaction
+ *
+ * Inbound movements open cost layers (one per entry in transactionData.cost_layers when a
+ * transfer carries its source layers, otherwise one for the whole quantity). Outbound
+ * movements draw layers down by the inventory's valuation method and record the cost of
+ * goods issued on the transaction.
+ */
+async function recordInventoryTransaction(client, transactionData, userId) {
+  // Get or create inventory record
+  let inventoryResult = await client.query(
+    `SELECT * FROM public.inventory 
+     WHERE product_id = $1 
+     AND COALESCE(variant_id, '00000000-0000-0000-0000-000000000000'::uuid) = COALESCE($2, '00000000-0000-0000-0000-000000000000'::uuid)
+     AND warehouse_id = $3
+     FOR UPDATE`,
+    [transactionData.product_id, transactionData.variant_id || null, transactionData.warehouse_id]
+  );
+
+  let inventoryId;
+  let valuationMethod = inventoryResult.rows[0]?.valuation_method || transactionData.valuation_method;
+  if (inventoryResult.rows.length === 0) {
+    // New stock records take the agency's default valuation method unless one is given
+    if (!valuationMethod) {
+      const settingsResult = await client.query(
+        `SELECT settings->>'default_valuation_method' AS method FROM public.module_settings
+         WHERE agency_id = $1 AND module = 'inventory'`,
+        [transactionData.agency_id]
+      );
+      valuationMethod = settingsResult.rows[0]?.method;
     }
 
-    // Create transaction record
-    const transactionResult = await client.query(
-      `INSERT INTO public.inventory_transactions (
-        id, agency_id, inventory_id, transaction_type, quantity, unit_cost,
-        reference_type, reference_id, from_warehouse_id, to_warehouse_id,
-        serial_numbers, batch_number, expiry_date, notes, created_by, created_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, NOW())
-      RETURNING *`,
+    // Create inventory record
+    const newInventory = await client.query(
+      `INSERT INTO public.inventory (
+        id, agency_id, product_id, variant_id, warehouse_id, quantity, 
+        reserved_quantity, reorder_point, reorder_quantity, valuation_method,
+        average_cost, last_cost, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, 0, 0, $6, $7, $8, 0, 0, NOW(), NOW())
+      RETURNING id`,
       [
         generateUUID(),
         transactionData.agency_id,
-        inventoryId,
-        transactionData.transaction_type,
-        transactionData.quantity,
-        transactionData.unit_cost || null,
-        transactionData.reference_type || null,
-        transactionData.reference_id || null,
-        transactionData.from_warehouse_id || null,
-        transactionData.to_warehouse_id || null,
-        transactionData.serial_numbers || null,
-        transactionData.batch_number || null,
-        transactionData.expiry_date || null,
-        transactionData.notes || null,
-        userId,
+        transactionData.product_id,
+        transactionData.variant_id || null,
+        transactionData.warehouse_id,
+        transactionData.reorder_point || 0,
+        transactionData.reorder_quantity || 0,
+        normalizeValuationMethod(valuationMethod),
       ]
     );
+    inventoryId = newInventory.rows[0].id;
+  } else {
+    inventoryId = inventoryResult.rows[0].id;
+    await ensureOpeningLayer(client, inventoryResult.rows[0]);
+  }
+
+  // Calculate new quantity based on transaction type
+  const currentInventory = inventoryResult.rows[0] || { quantity: 0, reserved_quantity: 0, average_cost: 0 };
+  const method = normalizeValuationMethod(valuationMethod);
+  const currentQty = parseFloat(currentInventory.quantity) || 0;
+  const currentCost = parseFloat(currentInventory.average_cost) || 0;
+  const quantity = Math.abs(parseFloat(transactionData.quantity) || 0);
+  let newQuantity = currentQty;
+  
+  if (transactionData.transaction_type === 'IN' || transactionData.transaction_type === 'RETURN') {
+    newQuantity += quantity;
+  } else if (transactionData.transaction_type === 'OUT') {
+    newQuantity -= quantity;
+    if (newQuantity < 0) {
+      throw new Error('Insufficient stock');
+    }
+    // Reserved stock only leaves through its reservation, which releases the hold first
+    const reservedQty = parseFloat(currentInventory.reserved_quantity) || 0;
+    if (newQuantity < reservedQty) {
+      throw new Error(`Insufficient available stock: ${reservedQty} of ${currentQty} is reserved`);
+    }
+  } else if (transactionData.transaction_type === 'ADJUSTMENT') {
+    newQuantity = parseFloat(transactionData.quantity);
+    if (!(newQuantity >= 0)) {
+      throw new Error('Adjusted quantity cannot be negative');
+    }
+  }
+
+  // Update inventory quantity
+  await client.query(
+    `UPDATE public.inventory 
+     SET quantity = $1, 
+         last_movement_date = NOW(),
+         updated_at = NOW()
+     WHERE id = $2`,
+    [newQuantity, inventoryId]
+  );
+
+  const transactionId = generateUUID();
+  const delta = newQuantity - currentQty;
+  const inboundUnitCost = transactionData.unit_cost !== undefined && transactionData.unit_cost !== null && transactionData.unit_cost !== ''
+    ? parseFloat(transactionData.unit_cost)
+    : null;
+  let unitCost = inboundUnitCost;
+  let costOfGoods = null;
+  let consumed = [];
+
+  if (delta < 0) {
+    const issue = await consumeCostLayers(
+      client, inventoryId, -delta, method, currentCost, transactionData.batch_number || null
+    );
+    consumed = issue.consumed;
+    costOfGoods = issue.cost;
+    unitCost = Math.round((issue.cost / -delta) * 10000) / 10000;
+  } else if (delta > 0) {
+    // Returns and transfers without a cost come back in at the current average
+    const layerCost = inboundUnitCost !== null ? inboundUnitCost : currentCost;
+    unitCost = layerCost;
+
+    if (method === 'weighted_average' && currentQty + delta > 0) {
+      const weightedAverage = ((currentCost * currentQty) + (layerCost * delta)) / (currentQty + delta);
+      await client.query(
+        'UPDATE public.inventory SET average_cost = $1, last_cost = $2 WHERE id = $3',
+        [weightedAverage, layerCost, inventoryId]
+      );
+    } else {
+      await client.query('UPDATE public.inventory SET last_cost = $1 WHERE id = $2', [layerCost, inventoryId]);
+    }
+  }
+
+  // Create transaction record
+  const transactionResult = await client.query(
+    `INSERT INTO public.inventory_transactions (
+      id, agency_id, inventory_id, transaction_type, quantity, unit_cost,
+      reference_type, reference_id, from_warehouse_id, to_warehouse_id,
+      serial_numbers, batch_number, expiry_date, notes, created_by,
+      cost_of_goods, valuation_method, created_at
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, NOW())
+    RETURNING *`,
+    [
+      transactionId,
+      transactionData.agency_id,
+      inventoryId,
+      transactionData.transaction_type,
+      transactionData.transaction_type === 'ADJUSTMENT' ? transactionData.quantity : quantity,
+      unitCost,
+      transactionData.reference_type || null,
+      transactionData.reference_id || null,
+      transactionData.from_warehouse_id || null,
+      transactionData.to_warehouse_id || null,
+      transactionData.serial_numbers || null,
+      transactionData.batch_number || null,
+      transactionData.expiry_date || null,
+      transactionData.notes || null,
+      userId,
+      costOfGoods,
+      method,
+    ]
+  );
+
+  for (const entry of consumed) {
+    await client.query(
+      `INSERT INTO public.inventory_cost_layer_consumptions (
+        id, agency_id, transaction_id, layer_id, quantity, unit_cost, total_cost
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [generateUUID(), transactionData.agency_id, transactionId, entry.layer_id, entry.quantity, entry.unit_cost, entry.total_cost]
+    );
+  }
+
+  if (delta > 0) {
+    const layerType = transactionData.transaction_type === 'RETURN'
+      ? 'return'
+      : transactionData.transaction_type === 'ADJUSTMENT'
+        ? 'adjustment'
+        : transactionData.reference_type === 'TRANSFER' ? 'transfer' : 'receipt';
+
+    // Transfers carry the source layers so age and expiry survive the move
+    const incoming = Array.isArray(transactionData.cost_layers) ? [...transactionData.cost_layers] : [];
+    const carried = incoming.reduce((sum, layer) => sum + (parseFloat(layer.quantity) || 0), 0);
+    if (delta - carried > 0.0001) {
+      incoming.push({
+        quantity: delta - carried,
+        unit_cost: unitCost,
+        batch_number: transactionData.batch_number,
+        expiry_date: transactionData.expiry_date,
+      });
+    }
+
+    for (const layer of incoming) {
+      let batchId = layer.batch_id || null;
+      let expiryDate = layer.expiry_date || null;
+      if (!batchId && layer.batch_number) {
+        const batch = await client.query(
+          'SELECT id, expiry_date FROM public.batches WHERE agency_id = $1 AND product_id = $2 AND batch_number = $3',
+          [transactionData.agency_id, transactionData.product_id, layer.batch_number]
+        );
+        batchId = batch.rows[0]?.id || null;
+        expiryDate = expiryDate || batch.rows[0]?.expiry_date || null;
+      }
+
+      await client.query(
+        `INSERT INTO public.inventory_cost_layers (
+          id, agency_id, inventory_id, source_transaction_id, layer_type, batch_id, batch_number,
+          expiry_date, received_at, original_quantity, remaining_quantity, unit_cost
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, COALESCE($9, NOW()), $10, $10, $11)`,
+        [
+          generateUUID(),
+          transactionData.agency_id,
+          inventoryId,
+          transactionId,
+          layerType,
+          batchId,
+          layer.batch_number || null,
+          expiryDate,
+          layer.received_at || null,
+          parseFloat(layer.quantity),
+          parseFloat(layer.unit_cost) || 0,
+        ]
+      );
+    }
+  }
+
+  if (method !== 'weighted_average') {
+    await refreshLayerAverageCost(client, inventoryId);
+  }
 
+  return { ...transactionResult.rows[0], cost_layers: consumed };
+}
+
+/**
+ * Create inventory transaction in its own database transaction
+ */
+async function createInventoryTransaction(agencyDatabase, transactionData, userId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    await client.query('BEGIN');
+    const transaction = await recordInventoryTransaction(client, transactionData, userId);
     await client.query('COMMIT');
-    return transactionResult.rows[0];
+    return transaction;
   } catch (error) {
     await client.query('ROLLBACK');
     throw error;
@@ -446,7 +693,7 @@ async function updateProduct(agencyDatabase, agencyId, productId, productData, u
 
     const allowedFields = ['name', 'description', 'category_id', 'brand', 'unit_of_measure', 
                           'barcode', 'qr_code', 'weight', 'dimensions', 'image_url', 
-                          'is_active', 'is_trackable', 'track_by'];
+                          'is_active', 'is_trackable', 'track_by', 'preferred_supplier_id', 'lead_time_days'];
     
     for (const field of allowedFields) {
       if (productData[field] !== undefined) {
@@ -654,9 +901,10 @@ async function createTransfer(agencyDatabase, transferData, userId) {
         variant_id: transferData.variant_id,
         warehouse_id: transferData.from_warehouse_id,
         transaction_type: 'OUT',
-        quantity: -Math.abs(transferData.quantity),
+        quantity: Math.abs(transferData.quantity),
         reference_type: 'TRANSFER',
         to_warehouse_id: transferData.to_warehouse_id,
+        batch_number: transferData.batch_number,
         notes: transferData.notes,
       },
       userId
@@ -672,6 +920,8 @@ async function createTransfer(agencyDatabase, transferData, userId) {
         warehouse_id: transferData.to_warehouse_id,
         transaction_type: 'IN',
         quantity: Math.abs(transferData.quantity),
+        unit_cost: outTransaction.unit_cost,
+        cost_layers: outTransaction.cost_layers,
         reference_type: 'TRANSFER',
         reference_id: outTransaction.id,
         from_warehouse_id: transferData.from_warehouse_id,
@@ -1906,11 +2156,21 @@ async function getStockValueReport(agencyDatabase, agencyId, filters = {}) {
         w.id as warehouse_id,
         w.code as warehouse_code,
         w.name as warehouse_name,
+        i.id as inventory_id,
+        i.valuation_method,
         i.quantity,
         i.available_quantity,
         i.average_cost,
         i.last_cost,
-        (i.quantity * i.average_cost) as stock_value,
+        COALESCE(l.layer_count, 0) as layer_count,
+        COALESCE(l.layer_quantity, 0) as layer_quantity,
+        l.earliest_expiry,
+        -- Layered methods value the open layers; stock not yet layered falls back to the average
+        CASE
+          WHEN UPPER(COALESCE(i.valuation_method, '')) IN ('FIFO', 'FEFO', 'LIFO')
+            THEN COALESCE(l.layer_value, 0) + GREATEST(i.quantity - COALESCE(l.layer_quantity, 0), 0) * i.average_cost
+          ELSE i.quantity * i.average_cost
+        END as stock_value,
         i.reorder_point,
         CASE 
           WHEN i.available_quantity <= i.reorder_point THEN true 
@@ -1920,6 +2180,15 @@ async function getStockValueReport(agencyDatabase, agencyId, filters = {}) {
       JOIN public.products p ON i.product_id = p.id
       LEFT JOIN public.product_categories pc ON p.category_id = pc.id
       JOIN public.warehouses w ON i.warehouse_id = w.id
+      LEFT JOIN LATERAL (
+        SELECT
+          COUNT(*) as layer_count,
+          SUM(cl.remaining_quantity) as layer_quantity,
+          SUM(cl.remaining_quantity * cl.unit_cost) as layer_value,
+          MIN(cl.expiry_date) as earliest_expiry
+        FROM public.inventory_cost_layers cl
+        WHERE cl.inventory_id = i.id AND cl.remaining_quantity > 0
+      ) l ON true
       WHERE p.agency_id = $1 AND w.agency_id = $1
     `;
     const params = [agencyId];
@@ -1969,6 +2238,106 @@ async function getStockValueReport(agencyDatabase, agencyId, filters = {}) {
   }
 }
 
+/**
+ * Cost layers behind one stock record, for the stock value drill-down
+ */
+async function getCostLayers(agencyDatabase, agencyId, inventoryId, filters = {}) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    let query = `
+      SELECT
+        cl.*,
+        (cl.remaining_quantity * cl.unit_cost) as remaining_value,
+        (cl.original_quantity - cl.remaining_quantity) as issued_quantity,
+        it.reference_type as source_reference_type,
+        it.reference_id as source_reference_id
+      FROM public.inventory_cost_layers cl
+      LEFT JOIN public.inventory_transactions it ON cl.source_transaction_id = it.id
+      WHERE cl.agency_id = $1 AND cl.inventory_id = $2
+    `;
+    if (!filters.include_closed) {
+      query += ' AND cl.remaining_quantity > 0';
+    }
+    query += ' ORDER BY cl.received_at ASC, cl.created_at ASC';
+
+    const result = await client.query(query, [agencyId, inventoryId]);
+    return result.rows;
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Change how a stock record is valued. Layers are kept for every method,
+ * so switching only changes how future issues are costed.
+ */
+async function updateValuationMethod(agencyDatabase, agencyId, inventoryId, valuationMethod) {
+  const method = normalizeValuationMethod(valuationMethod);
+  if (String(valuationMethod || '').toUpperCase() !== method.toUpperCase()) {
+    throw new Error('Valuation method must be FIFO, FEFO, LIFO or weighted_average');
+  }
+
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    await client.query('BEGIN');
+    const inventory = await client.query(
+      'SELECT * FROM public.inventory WHERE id = $1 AND agency_id = $2 FOR UPDATE',
+      [inventoryId, agencyId]
+    );
+    if (inventory.rows.length === 0) {
+      throw new Error('Inventory record not found');
+    }
+
+    await ensureOpeningLayer(client, inventory.rows[0]);
+    await client.query(
+      'UPDATE public.inventory SET valuation_method = $1, updated_at = NOW() WHERE id = $2',
+      [method, inventoryId]
+    );
+    if (method !== 'weighted_average') {
+      await refreshLayerAverageCost(client, inventoryId);
+    }
+
+    const result = await client.query('SELECT * FROM public.inventory WHERE id = $1', [inventoryId]);
+    await client.query('COMMIT');
+    return result.rows[0];
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Set the storage zone of a stock record
+ */
+async function updateInventoryZone(agencyDatabase, agencyId, inventoryId, zone) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const result = await client.query(
+      `UPDATE public.inventory SET zone = $1, updated_at = NOW()
+       WHERE id = $2 AND agency_id = $3
+       RETURNING *`,
+      [zone ? String(zone).trim() : null, inventoryId, agencyId]
+    );
+    if (result.rows.length === 0) {
+      throw new Error('Inventory record not found');
+    }
+    return result.rows[0];
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
 /**
  * Get movement report (transactions over time)
  */
@@ -2108,6 +2477,7 @@ module.exports = {
   updateProduct,
   deleteProduct,
   getInventoryLevels,
+  recordInventoryTransaction,
   createInventoryTransaction,
   getInventoryTransactions,
   getLowStockAlerts,
@@ -2135,6 +2505,9 @@ module.exports = {
   deleteBatch,
   getInventoryReports,
   getStockValueReport,
+  getCostLayers,
+  updateValuationMethod,
+  updateInventoryZone,
   getMovementReport,
   getWarehouseUtilizationReport,
 };
@@ -0,0 +1,257 @@
+/**
+ * Invoice Service
+ * Saves an invoice with its line items and GST postings in one transaction, with the
+ * GST split worked out on the server
+ */
+
+const { parseDatabaseUrl } = require('../utils/poolManager');
+const { Pool } = require('pg');
+const { round2 } = require('../utils/numberHelper');
+const { getStateCodeFromGstin, determineSupplyType, calculateInvoiceTax } = require('../utils/gstHelper');
+
+/**
+ * Get agency database connection
+ */
+async function getAgencyConnection(agencyDatabase) {
+  const { host, port, user, password } = parseDatabaseUrl();
+  const agencyDbUrl = `postgresql://${user}:${password}@${host}:${port}/${agencyDatabase}`;
+  const agencyPool = new Pool({ connectionString: agencyDbUrl, max: 1 });
+  const client = await agencyPool.connect();
+  client.pool = agencyPool;
+  return client;
+}
+
+const toNumber = (value) => parseFloat(value) || 0;
+
+// Invoices in these statuses have been issued to the client and count towards GST liability
+const ISSUED_STATUSES = ['sent', 'paid', 'overdue'];
+
+function validateInvoice(invoiceData) {
+  if (!String(invoiceData.title || '').trim()) {
+    throw new Error('Invoice title is required');
+  }
+  if (!invoiceData.issue_date) {
+    throw new Error('Issue date is required');
+  }
+  const lines = invoiceData.lines;
+  if (!Array.isArray(lines) || lines.length === 0) {
+    throw new Error('Add at least one line item');
+  }
+  if (lines.some((line) => !line || !String(line.item_name || '').trim())) {
+    throw new Error('Every line item needs an item name');
+  }
+  if (invoiceData.exchange_rate !== undefined && !(toNumber(invoiceData.exchange_rate) > 0)) {
+    throw new Error('Exchange rate must be greater than zero');
+  }
+}
+
+async function resolveSupplyType(client, agencyId, placeOfSupply) {
+  const settings = await client.query(
+    `SELECT gstin FROM public.gst_settings WHERE agency_id = $1 AND COALESCE(is_active, true) = true LIMIT 1`,
+    [agencyId]
+  );
+  return determineSupplyType(getStateCodeFromGstin(settings.rows[0]?.gstin), placeOfSupply || null);
+}
+
+/**
+ * Replace the invoice's sale transactions in the GST register. Only issued invoices
+ * are posted; any other status removes what was posted before.
+ */
+async function syncGstTransactions(client, agencyId, invoice, lines, lineTaxes) {
+  await client.query(
+    'DELETE FROM public.gst_transactions WHERE agency_id = $1 AND invoice_id = $2',
+    [agencyId, invoice.id]
+  );
+  if (!ISSUED_STATUSES.includes(invoice.status)) {
+    await client.query('UPDATE public.invoices SET gst_posted_at = NULL WHERE id = $1', [invoice.id]);
+    return [];
+  }
+
+  const customer = invoice.client_id
+    ? (await client.query('SELECT name, company_name, tax_id FROM public.clients WHERE id = $1', [invoice.client_id])).rows[0]
+    : null;
+  // GST returns are kept in the base currency
+  const rate = toNumber(invoice.exchange_rate) || 1;
+  const toBase = (amount) => round2(amount * rate);
+
+  const posted = [];
+  for (const [index, line] of lines.entries()) {
+    const tax = lineTaxes[index];
+    const gstRate = toNumber(line.gst_rate);
+    const result = await client.query(
+      `INSERT INTO public.gst_transactions (
+        agency_id, invoice_id, transaction_type, invoice_number, invoice_date,
+        customer_gstin, customer_name, place_of_supply, hsn_sac_code, description,
+        quantity, unit_price, taxable_value, cgst_rate, sgst_rate, igst_rate,
+        cgst_amount, sgst_amount, igst_amount, total_amount
+      ) VALUES ($1, $2, 'sale', $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19)
+      RETURNING *`,
+      [
+        agencyId,
+        invoice.id,
+        invoice.invoice_number,
+        invoice.issue_date,
+        customer?.tax_id || null,
+        customer?.company_name || customer?.name || invoice.title,
+        invoice.place_of_supply || null,
+        line.hsn_sac_code || null,
+        line.description || String(line.item_name).trim(),
+        toNumber(line.quantity),
+        toBase(toNumber(line.unit_price)),
+        toBase(tax.taxable_value),
+        invoice.supply_type === 'intra_state' ? gstRate / 2 : 0,
+        invoice.supply_type === 'intra_state' ? gstRate / 2 : 0,
+        invoice.supply_type === 'inter_state' ? gstRate : 0,
+        toBase(tax.cgst_amount),
+        toBase(tax.sgst_amount),
+        toBase(tax.igst_amount),
+        toBase(tax.line_total),
+      ]
+    );
+    posted.push(result.rows[0]);
+  }
+
+  await client.query('UPDATE public.invoices SET gst_posted_at = NOW() WHERE id = $1', [invoice.id]);
+  return posted;
+}
+
+/**
+ * Create or update an invoice in one transaction: the header with totals recomputed from
+ * the lines, the line items (replaced as a whole) and the invoice's GST transactions.
+ * Returns null when invoiceId does not match one of the agency's invoices.
+ */
+async function saveInvoice(agencyDatabase, agencyId, invoiceId, invoiceData, userId) {
+  validateInvoice(invoiceData);
+
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    await client.query('BEGIN');
+
+    let existing = null;
+    if (invoiceId) {
+      const existingResult = await client.query(
+        `SELECT id, invoice_number FROM public.invoices
+         WHERE id = $1 AND (agency_id = $2 OR agency_id IS NULL)
+         FOR UPDATE`,
+        [invoiceId, agencyId]
+      );
+      if (existingResult.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return null;
+      }
+      existing = existingResult.rows[0];
+    }
+
+    const lines = invoiceData.lines;
+    const supplyType = await resolveSupplyType(client, agencyId, invoiceData.place_of_supply);
+    const { lines: lineTaxes, summary } = calculateInvoiceTax(lines, supplyType, invoiceData.discount);
+    const exchangeRate = toNumber(invoiceData.exchange_rate) || 1;
+    // The flat tax_rate is kept as the effective rate on the discounted value for older readers
+    const taxableValue = summary.subtotal - summary.discount;
+    const effectiveTaxRate = taxableValue > 0 ? round2((summary.tax_amount / taxableValue) * 100) : 0;
+
+    const header = [
+      invoiceData.client_id || null,
+      String(invoiceData.title).trim(),
+      invoiceData.description || null,
+      invoiceData.status || 'draft',
+      invoiceData.issue_date,
+      invoiceData.due_date || null,
+      invoiceData.notes || null,
+      invoiceData.place_of_supply || null,
+      supplyType,
+      invoiceData.currency || null,
+      exchangeRate,
+      summary.subtotal,
+      effectiveTaxRate,
+      summary.discount,
+      summary.tax_amount,
+      summary.cgst_amount,
+      summary.sgst_amount,
+      summary.igst_amount,
+      summary.total_amount,
+      round2(summary.total_amount * exchangeRate),
+    ];
+
+    let invoiceResult;
+    if (existing) {
+      invoiceResult = await client.query(
+        `UPDATE public.invoices
+         SET client_id = $2, title = $3, description = $4, status = $5, issue_date = $6, due_date = $7,
+             notes = $8, place_of_supply = $9, supply_type = $10, currency = $11, exchange_rate = $12,
+             subtotal = $13, tax_rate = $14, discount = $15, tax_amount = $16, cgst_amount = $17,
+             sgst_amount = $18, igst_amount = $19, total_amount = $20, base_total_amount = $21,
+             updated_at = NOW()
+         WHERE id = $1
+         RETURNING *`,
+        [existing.id, ...header]
+      );
+    } else {
+      const invoiceNumber = invoiceData.invoice_number
+        || `INV-${new Date().getFullYear()}-${String(Date.now()).slice(-6)}`;
+      invoiceResult = await client.query(
+        `INSERT INTO public.invoices (
+          client_id, title, description, status, issue_date, due_date,
+          notes, place_of_supply, supply_type, currency, exchange_rate,
+          subtotal, tax_rate, discount, tax_amount, cgst_amount,
+          sgst_amount, igst_amount, total_amount, base_total_amount,
+          invoice_number, agency_id, created_by
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23)
+        RETURNING *`,
+        [...header, invoiceNumber, agencyId, userId || null]
+      );
+    }
+    const invoice = invoiceResult.rows[0];
+
+    await client.query('DELETE FROM public.invoice_line_items WHERE invoice_id = $1', [invoice.id]);
+
+    const lineItems = [];
+    for (const [index, line] of lines.entries()) {
+      const tax = lineTaxes[index];
+      const result = await client.query(
+        `INSERT INTO public.invoice_line_items (
+          invoice_id, item_type, product_id, item_name, description, hsn_sac_code,
+          quantity, unit_price, discount_percentage, taxable_value, gst_rate,
+          cgst_amount, sgst_amount, igst_amount, line_total, sort_order
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)
+        RETURNING *`,
+        [
+          invoice.id,
+          line.item_type || 'service',
+          line.product_id || null,
+          String(line.item_name).trim(),
+          line.description || null,
+          line.hsn_sac_code || null,
+          toNumber(line.quantity),
+          toNumber(line.unit_price),
+          toNumber(line.discount_percentage),
+          tax.taxable_value,
+          toNumber(line.gst_rate),
+          tax.cgst_amount,
+          tax.sgst_amount,
+          tax.igst_amount,
+          tax.line_total,
+          index,
+        ]
+      );
+      lineItems.push(result.rows[0]);
+    }
+
+    const gstTransactions = await syncGstTransactions(client, agencyId, invoice, lines, lineTaxes);
+
+    await client.query('COMMIT');
+    return { invoice, line_items: lineItems, gst_transactions: gstTransactions };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+module.exports = {
+  saveInvoice,
+};
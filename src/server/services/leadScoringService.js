@@ -1,10 +1,14 @@
 /**
  * Lead Scoring Service
- * Automatically scores leads based on various factors
+ * Scores leads against agency-defined, weighted scoring rules
  */
 
 const { parseDatabaseUrl } = require('../utils/poolManager');
 const { Pool } = require('pg');
+const crypto = require('crypto');
+const cron = require('node-cron');
+const { pool: mainPool } = require('../config/database');
+const { withSavepoint } = require('../utils/transactionHelper');
 
 async function getAgencyConnection(agencyDatabase) {
   const { host, port, user, password } = parseDatabaseUrl();
@@ -16,15 +20,391 @@ async function getAgencyConnection(agencyDatabase) {
   return client;
 }
 
+const SCORING_FACTORS = [
+  'source',
+  'estimated_value',
+  'activity_recency',
+  'activity_frequency',
+  'stage_age',
+  'email_engagement',
+];
+
+/**
+ * Rules used, and seeded on the first rule change, for agencies that have not configured their own
+ */
+const DEFAULT_SCORING_RULES = [
+  {
+    rule_name: 'Lead source',
+    factor: 'source',
+    weight: 25,
+    config: {
+      scores: { referral: 100, trade_show: 80, website: 70, email_campaign: 60, social_media: 50, cold_call: 30 },
+      default_score: 40,
+    },
+  },
+  {
+    rule_name: 'Estimated value',
+    factor: 'estimated_value',
+    weight: 25,
+    config: {
+      bands: [
+        { min: 0, score: 10 },
+        { min: 50000, score: 40 },
+        { min: 100000, score: 70 },
+        { min: 500000, score: 100 },
+      ],
+    },
+  },
+  {
+    rule_name: 'Recent activity',
+    factor: 'activity_recency',
+    weight: 20,
+    config: { full_score_days: 7, zero_score_days: 60 },
+  },
+  {
+    rule_name: 'Activity frequency',
+    factor: 'activity_frequency',
+    weight: 10,
+    config: { window_days: 30, target_count: 5 },
+  },
+  {
+    rule_name: 'Time in stage',
+    factor: 'stage_age',
+    weight: 10,
+    config: { fresh_days: 14, stale_days: 60 },
+  },
+  {
+    rule_name: 'Email engagement',
+    factor: 'email_engagement',
+    weight: 10,
+    config: { window_days: 90, open_points: 1, click_points: 3, target_points: 10 },
+  },
+];
+
+// Scores older than this are refreshed even without changes, so time-based factors decay
+const SCORE_MAX_AGE_HOURS = 24;
+const LEAD_SCORE_SCHEDULE = process.env.LEAD_SCORE_SCHEDULE || '30 * * * *';
+
+function normaliseKey(value) {
+  return String(value || '').trim().toLowerCase().replace(/[\s-]+/g, '_');
+}
+
+function daysSince(value, now) {
+  if (!value) return null;
+  return Math.max(0, (now.getTime() - new Date(value).getTime()) / 86400000);
+}
+
+// 1 up to fullDays, falling linearly to 0 at zeroDays
+function linearDecay(days, fullDays, zeroDays) {
+  if (days === null) return 0;
+  if (days <= fullDays) return 1;
+  if (days >= zeroDays || zeroDays <= fullDays) return 0;
+  return 1 - (days - fullDays) / (zeroDays - fullDays);
+}
+
+/**
+ * Evaluate a single rule against the lead facts.
+ * Returns the fraction (0-1) of the rule weight earned and a readable detail.
+ */
+function evaluateRule(rule, facts, now) {
+  const config = rule.config || {};
+
+  switch (rule.factor) {
+    case 'source': {
+      const scores = {};
+      Object.entries(config.scores || {}).forEach(([key, value]) => {
+        scores[normaliseKey(key)] = Number(value);
+      });
+      const key = normaliseKey(facts.source_name);
+      const pct = key && scores[key] !== undefined ? scores[key] : Number(config.default_score || 0);
+      return { ratio: pct / 100, detail: facts.source_name ? `Source: ${facts.source_name}` : 'No source recorded' };
+    }
+    case 'estimated_value': {
+      const value = Number(facts.value || 0);
+      const bands = [...(config.bands || [])].sort((a, b) => Number(a.min) - Number(b.min));
+      let pct = 0;
+      bands.forEach((band) => {
+        if (value >= Number(band.min)) pct = Number(band.score);
+      });
+      return { ratio: pct / 100, detail: value > 0 ? `Estimated value ${value.toLocaleString()}` : 'No value estimated' };
+    }
+    case 'activity_recency': {
+      const days = daysSince(facts.last_activity_at, now);
+      const ratio = linearDecay(days, Number(config.full_score_days ?? 7), Number(config.zero_score_days ?? 60));
+      return { ratio, detail: days === null ? 'No activities yet' : `Last activity ${Math.floor(days)} day(s) ago` };
+    }
+    case 'activity_frequency': {
+      const target = Math.max(1, Number(config.target_count || 1));
+      const count = Number(facts.recent_activity_count || 0);
+      return {
+        ratio: Math.min(count / target, 1),
+        detail: `${count} activit${count === 1 ? 'y' : 'ies'} in the last ${config.window_days || 30} days`,
+      };
+    }
+    case 'stage_age': {
+      const days = daysSince(facts.stage_changed_at, now);
+      const ratio = linearDecay(days, Number(config.fresh_days ?? 14), Number(config.stale_days ?? 60));
+      return { ratio, detail: days === null ? 'Stage age unknown' : `${Math.floor(days)} day(s) in current stage` };
+    }
+    case 'email_engagement': {
+      const target = Math.max(1, Number(config.target_points || 1));
+      const opens = Number(facts.email_opens || 0);
+      const clicks = Number(facts.email_clicks || 0);
+      const points = opens * Number(config.open_points ?? 1) + clicks * Number(config.click_points ?? 3);
+      return { ratio: Math.min(points / target, 1), detail: `${opens} open(s), ${clicks} click(s)` };
+    }
+    default:
+      return { ratio: 0, detail: `Unknown factor ${rule.factor}` };
+  }
+}
+
+/**
+ * Score a lead against the active rules.
+ * The total is normalised to 0-100 so agencies can use any weights.
+ */
+function scoreLead(rules, facts, now = new Date()) {
+  const activeRules = rules.filter((rule) => rule.is_active !== false && Number(rule.weight) > 0);
+  const totalWeight = activeRules.reduce((sum, rule) => sum + Number(rule.weight), 0);
+
+  const breakdown = activeRules.map((rule) => {
+    const weight = Number(rule.weight);
+    const { ratio, detail } = evaluateRule(rule, facts, now);
+    const clamped = Math.max(0, Math.min(ratio, 1));
+    return {
+      rule_id: rule.id || null,
+      rule_name: rule.rule_name,
+      factor: rule.factor,
+      weight,
+      points: Math.round(clamped * weight * 10) / 10,
+      max_points: weight,
+      detail,
+    };
+  });
+
+  const earned = breakdown.reduce((sum, item) => sum + item.points, 0);
+  const score = totalWeight > 0 ? Math.round((earned / totalWeight) * 100) : 0;
+
+  return { score, breakdown };
+}
+
+/**
+ * Stable id for a default rule, so a default shown before seeding can be edited by id
+ */
+function defaultRuleId(agencyId, factor) {
+  const hex = crypto.createHash('sha1').update(`lead-scoring:${agencyId}:${factor}`).digest('hex');
+  const variant = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-5${hex.slice(13, 16)}-${variant}${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+}
+
+function defaultScoringRules(agencyId) {
+  return DEFAULT_SCORING_RULES.map((rule) => ({
+    ...rule,
+    id: defaultRuleId(agencyId, rule.factor),
+    agency_id: agencyId,
+    is_active: true,
+  }));
+}
+
+/**
+ * Load the agency's scoring rules, falling back to the defaults (not stored) when none exist
+ */
+async function loadScoringRules(client, agencyId) {
+  const result = await client.query(
+    `SELECT * FROM public.lead_scoring_rules WHERE agency_id = $1 ORDER BY weight DESC, created_at`,
+    [agencyId]
+  );
+  return result.rows.length > 0 ? result.rows : defaultScoringRules(agencyId);
+}
+
+/**
+ * Store the default rules before the first rule change, so the change applies on top of them
+ */
+async function seedDefaultRules(client, agencyId) {
+  const existing = await client.query(
+    'SELECT 1 FROM public.lead_scoring_rules WHERE agency_id = $1 LIMIT 1',
+    [agencyId]
+  );
+  if (existing.rows.length > 0) return;
+
+  for (const rule of defaultScoringRules(agencyId)) {
+    await client.query(
+      `INSERT INTO public.lead_scoring_rules (id, agency_id, rule_name, factor, weight, config, is_active)
+       VALUES ($1, $2, $3, $4, $5, $6, true)
+       ON CONFLICT (id) DO NOTHING`,
+      [rule.id, agencyId, rule.rule_name, rule.factor, rule.weight, JSON.stringify(rule.config)]
+    );
+  }
+}
+
+function ruleWindowDays(rules, factor, fallback) {
+  const rule = rules.find((r) => r.factor === factor && r.is_active !== false);
+  return Math.max(1, parseInt(rule?.config?.window_days || fallback, 10));
+}
+
+/**
+ * Gather the facts every factor needs for a batch of leads
+ */
+async function fetchLeadFacts(client, leadIds, rules) {
+  const leadsResult = await client.query(
+    `SELECT l.id, l.agency_id, COALESCE(l.estimated_value, l.value) AS value,
+            COALESCE(l.stage_changed_at, l.created_at) AS stage_changed_at, src.name AS source_name
+     FROM public.leads l
+     LEFT JOIN public.lead_sources src ON src.id = COALESCE(l.lead_source_id, l.source_id)
+     WHERE l.id = ANY($1::uuid[])`,
+    [leadIds]
+  );
+
+  const facts = new Map();
+  leadsResult.rows.forEach((row) => facts.set(row.id, { ...row }));
+
+  try {
+    const activityResult = await withSavepoint(client, (c) => c.query(
+      `SELECT lead_id,
+              MAX(activity_date) AS last_activity_at,
+              COUNT(*) FILTER (WHERE activity_date >= NOW() - make_interval(days => $2)) AS recent_activity_count
+       FROM public.crm_activities
+       WHERE lead_id = ANY($1::uuid[]) AND activity_date <= NOW()
+       GROUP BY lead_id`,
+      [leadIds, ruleWindowDays(rules, 'activity_frequency', 30)]
+    ));
+    activityResult.rows.forEach((row) => {
+      const lead = facts.get(row.lead_id);
+      if (lead) {
+        lead.last_activity_at = row.last_activity_at;
+        lead.recent_activity_count = parseInt(row.recent_activity_count || 0, 10);
+      }
+    });
+  } catch (error) {
+    // Table might not exist yet, activity factors score 0
+    console.warn('[LeadScoring] Error fetching activities:', error.message);
+  }
+
+  try {
+    const emailResult = await withSavepoint(client, (c) => c.query(
+      `SELECT related_id AS lead_id,
+              COALESCE(SUM(open_count), 0) AS email_opens,
+              COALESCE(SUM(click_count), 0) AS email_clicks
+       FROM public.email_tracking
+       WHERE related_type = 'lead' AND related_id = ANY($1::uuid[])
+         AND sent_at >= NOW() - make_interval(days => $2)
+       GROUP BY related_id`,
+      [leadIds, ruleWindowDays(rules, 'email_engagement', 90)]
+    ));
+    emailResult.rows.forEach((row) => {
+      const lead = facts.get(row.lead_id);
+      if (lead) {
+        lead.email_opens = parseInt(row.email_opens || 0, 10);
+        lead.email_clicks = parseInt(row.email_clicks || 0, 10);
+      }
+    });
+  } catch (error) {
+    console.warn('[LeadScoring] Error fetching email engagement:', error.message);
+  }
+
+  return facts;
+}
+
+async function saveLeadScore(client, leadId, agencyId, result) {
+  const existingScore = await client.query('SELECT id FROM public.lead_scores WHERE lead_id = $1', [leadId]);
+
+  if (existingScore.rows.length > 0) {
+    await client.query(
+      `UPDATE public.lead_scores
+       SET score = $1, score_breakdown = $2, last_calculated_at = NOW(), updated_at = NOW()
+       WHERE lead_id = $3`,
+      [result.score, JSON.stringify(result.breakdown), leadId]
+    );
+  } else {
+    await client.query(
+      `INSERT INTO public.lead_scores (
+        id, lead_id, agency_id, score, score_breakdown, last_calculated_at, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, NOW(), NOW(), NOW())`,
+      [crypto.randomUUID(), leadId, agencyId, result.score, JSON.stringify(result.breakdown)]
+    );
+  }
+}
+
+/**
+ * Score a batch of leads without storing the results
+ */
+async function computeLeadScores(client, agencyId, leadIds) {
+  if (leadIds.length === 0) return new Map();
+
+  const rules = await loadScoringRules(client, agencyId);
+  const facts = await fetchLeadFacts(client, leadIds, rules);
+  const now = new Date();
+  const results = new Map();
+
+  for (const [leadId, leadFacts] of facts) {
+    const result = scoreLead(rules, leadFacts, now);
+    results.set(leadId, { ...result, agency_id: leadFacts.agency_id || agencyId, last_calculated_at: now.toISOString() });
+  }
+  return results;
+}
+
 /**
- * Calculate lead score based on various factors
+ * Score a batch of leads and persist the results
+ */
+async function scoreLeadsWithClient(client, agencyId, leadIds) {
+  const results = await computeLeadScores(client, agencyId, leadIds);
+  for (const [leadId, result] of results) {
+    await saveLeadScore(client, leadId, result.agency_id, result);
+  }
+  return results;
+}
+
+function toScoreRow(leadId, result) {
+  return {
+    lead_id: leadId,
+    score: result.score,
+    score_breakdown: result.breakdown,
+    last_calculated_at: result.last_calculated_at,
+  };
+}
+
+/**
+ * Find leads whose score is missing or out of date: the lead or one of its
+ * activities changed since the last run, the rules changed, or the score is
+ * older than SCORE_MAX_AGE_HOURS.
+ */
+async function findStaleLeadIds(client, agencyId, leadIds = null) {
+  const params = [agencyId, SCORE_MAX_AGE_HOURS];
+  let leadFilter = '';
+  if (leadIds) {
+    params.push(leadIds);
+    leadFilter = `AND l.id = ANY($${params.length}::uuid[])`;
+  }
+
+  const result = await client.query(
+    `SELECT l.id
+     FROM public.leads l
+     LEFT JOIN public.lead_scores ls ON ls.lead_id = l.id
+     WHERE l.agency_id = $1 ${leadFilter}
+       AND (
+         ls.id IS NULL
+         OR ls.last_calculated_at < COALESCE(l.updated_at, l.created_at)
+         OR ls.last_calculated_at < NOW() - make_interval(hours => $2)
+         OR ls.last_calculated_at < (
+           SELECT MAX(updated_at) FROM public.lead_scoring_rules WHERE agency_id = $1
+         )
+         OR EXISTS (
+           SELECT 1 FROM public.crm_activities a
+           WHERE a.lead_id = l.id AND COALESCE(a.updated_at, a.created_at) > ls.last_calculated_at
+         )
+       )`,
+    params
+  );
+  return result.rows.map((row) => row.id);
+}
+
+/**
+ * Calculate lead score from the agency's scoring rules
  */
 async function calculateLeadScore(agencyDatabase, leadId) {
   const client = await getAgencyConnection(agencyDatabase);
   try {
-    // Get lead data
     const leadResult = await client.query(
-      `SELECT * FROM public.leads WHERE id = $1`,
+      `SELECT id, agency_id FROM public.leads WHERE id = $1`,
       [leadId]
     );
 
@@ -33,115 +413,234 @@ async function calculateLeadScore(agencyDatabase, leadId) {
     }
 
     const lead = leadResult.rows[0];
-    
+
     // Ensure agency_id is set
     if (!lead.agency_id) {
       throw new Error(`Lead ${leadId} does not have agency_id set`);
     }
-    const breakdown = {};
-    let totalScore = 0;
-
-    // Source scoring (10-30 points)
-    const sourceScores = {
-      'website': 20,
-      'referral': 25,
-      'social_media': 15,
-      'cold_call': 10,
-      'email_campaign': 18,
-      'trade_show': 22,
-    };
-    const sourceScore = (lead.source && sourceScores[lead.source]) ? sourceScores[lead.source] : 10;
-    breakdown.source = sourceScore;
-    totalScore += sourceScore;
 
-    // Engagement scoring (0-30 points)
-    let activityCount = 0;
-    try {
-      const activitiesResult = await client.query(
-        `SELECT COUNT(*) as count, MAX(created_at) as last_activity
-         FROM public.crm_activities
-         WHERE lead_id = $1`,
-        [leadId]
-      );
-      activityCount = parseInt(activitiesResult.rows[0]?.count || 0);
-    } catch (error) {
-      // Table might not exist or have no data, default to 0
-      console.warn('[LeadScoring] Error fetching activities:', error.message);
-      activityCount = 0;
-    }
-    const engagementScore = Math.min(activityCount * 5, 30);
-    breakdown.engagement = engagementScore;
-    totalScore += engagementScore;
-
-    // Company size scoring (0-20 points)
-    if (lead.company_size) {
-      const sizeScores = {
-        'startup': 5,
-        'small': 10,
-        'medium': 15,
-        'large': 20,
-        'enterprise': 25,
-      };
-      const sizeScore = sizeScores[lead.company_size.toLowerCase()] || 0;
-      breakdown.company_size = sizeScore;
-      totalScore += sizeScore;
-    }
-
-    // Budget scoring (0-20 points)
-    if (lead.budget) {
-      const budget = parseFloat(lead.budget);
-      if (budget > 1000000) breakdown.budget = 20;
-      else if (budget > 500000) breakdown.budget = 15;
-      else if (budget > 100000) breakdown.budget = 10;
-      else breakdown.budget = 5;
-      totalScore += breakdown.budget;
-    }
-
-    // Timeline scoring (0-10 points)
-    if (lead.timeline) {
-      const timelineScores = {
-        'immediate': 10,
-        'within_month': 8,
-        'within_quarter': 5,
-        'within_year': 3,
-        'exploring': 1,
-      };
-      const timelineScore = timelineScores[lead.timeline.toLowerCase()] || 0;
-      breakdown.timeline = timelineScore;
-      totalScore += timelineScore;
-    }
-
-    // Use lead.agency_id (already verified above)
-    const agencyId = lead.agency_id;
-    
-    // Check if score already exists
-    const existingScore = await client.query('SELECT id FROM public.lead_scores WHERE lead_id = $1', [leadId]);
-    
-    if (existingScore.rows.length > 0) {
-      // Update existing score
-      await client.query(
-        `UPDATE public.lead_scores 
-         SET score = $1, score_breakdown = $2, last_calculated_at = NOW(), updated_at = NOW()
-         WHERE lead_id = $3`,
-        [totalScore, JSON.stringify(breakdown), leadId]
-      );
-    } else {
-      // Insert new score
-      await client.query(
-        `INSERT INTO public.lead_scores (
-          id, lead_id, agency_id, score, score_breakdown, last_calculated_at, created_at, updated_at
-        ) VALUES ($1, $2, $3, $4, $5, NOW(), NOW(), NOW())`,
-        [
-          require('crypto').randomUUID(),
-          leadId,
-          agencyId,
-          totalScore,
-          JSON.stringify(breakdown),
-        ]
-      );
+    const results = await scoreLeadsWithClient(client, lead.agency_id, [leadId]);
+    return { lead_id: leadId, ...results.get(leadId) };
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Get the score for one lead. A stale score is recalculated for the response but not
+ * stored; the scheduler and the recalculate endpoints store scores.
+ */
+async function getLeadScore(agencyDatabase, agencyId, leadId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const stale = await findStaleLeadIds(client, agencyId, [leadId]);
+    if (stale.length > 0) {
+      const results = await computeLeadScores(client, agencyId, stale);
+      return toScoreRow(leadId, results.get(leadId));
+    }
+
+    const result = await client.query(
+      `SELECT lead_id, score, score_breakdown, last_calculated_at
+       FROM public.lead_scores WHERE lead_id = $1 AND agency_id = $2`,
+      [leadId, agencyId]
+    );
+    if (result.rows.length === 0) {
+      throw new Error(`Lead not found: ${leadId}`);
+    }
+    return result.rows[0];
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+async function fetchStoredScores(client, agencyId) {
+  const result = await client.query(
+    `SELECT ls.lead_id, ls.score, ls.score_breakdown, ls.last_calculated_at
+     FROM public.lead_scores ls
+     INNER JOIN public.leads l ON l.id = ls.lead_id
+     WHERE ls.agency_id = $1
+     ORDER BY ls.score DESC`,
+    [agencyId]
+  );
+  return result.rows;
+}
+
+/**
+ * Get scores for all of the agency's leads. Stale scores are recalculated for the
+ * response without being stored.
+ */
+async function getLeadScores(agencyDatabase, agencyId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const stale = await findStaleLeadIds(client, agencyId);
+    const fresh = await computeLeadScores(client, agencyId, stale);
+    const scores = (await fetchStoredScores(client, agencyId)).filter((row) => !fresh.has(row.lead_id));
+    for (const [leadId, result] of fresh) {
+      scores.push(toScoreRow(leadId, result));
+    }
+    return scores.sort((a, b) => b.score - a.score);
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Recalculate and store scores for the agency's leads; all of them, or only stale ones
+ */
+async function recalculateLeadScores(agencyDatabase, agencyId, options = {}) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const toScore = options.staleOnly
+      ? await findStaleLeadIds(client, agencyId)
+      : (await client.query(`SELECT id FROM public.leads WHERE agency_id = $1`, [agencyId])).rows.map((r) => r.id);
+
+    await client.query('BEGIN');
+    await scoreLeadsWithClient(client, agencyId, toScore);
+    await client.query('COMMIT');
+
+    return { scores: await fetchStoredScores(client, agencyId), recalculated: toScore.length };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+function validateRule(data) {
+  if (data.factor !== undefined && !SCORING_FACTORS.includes(data.factor)) {
+    throw new Error(`Invalid scoring factor: ${data.factor}`);
+  }
+  if (data.weight !== undefined && (!Number.isFinite(Number(data.weight)) || Number(data.weight) < 0)) {
+    throw new Error('Rule weight must be a non-negative number');
+  }
+}
+
+/**
+ * Get scoring rules
+ */
+async function getScoringRules(agencyDatabase, agencyId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    return await loadScoringRules(client, agencyId);
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
     }
+  }
+}
+
+/**
+ * Create scoring rule
+ */
+async function createScoringRule(agencyDatabase, agencyId, userId, data) {
+  if (!data.rule_name || !data.factor) {
+    throw new Error('rule_name and factor are required');
+  }
+  validateRule(data);
 
-    return { score: totalScore, breakdown };
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    await seedDefaultRules(client, agencyId);
+    const result = await client.query(
+      `INSERT INTO public.lead_scoring_rules (
+        id, agency_id, rule_name, factor, weight, config, is_active, created_by, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW(), NOW())
+      RETURNING *`,
+      [
+        crypto.randomUUID(),
+        agencyId,
+        data.rule_name,
+        data.factor,
+        parseInt(data.weight ?? 10, 10),
+        JSON.stringify(data.config || {}),
+        data.is_active !== false,
+        userId,
+      ]
+    );
+    return result.rows[0];
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Update scoring rule
+ */
+async function updateScoringRule(agencyDatabase, agencyId, ruleId, data) {
+  validateRule(data);
+
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    await seedDefaultRules(client, agencyId);
+    const result = await client.query(
+      `UPDATE public.lead_scoring_rules SET
+        rule_name = COALESCE($3, rule_name),
+        factor = COALESCE($4, factor),
+        weight = COALESCE($5, weight),
+        config = COALESCE($6, config),
+        is_active = COALESCE($7, is_active),
+        updated_at = NOW()
+      WHERE id = $1 AND agency_id = $2
+      RETURNING *`,
+      [
+        ruleId,
+        agencyId,
+        data.rule_name ?? null,
+        data.factor ?? null,
+        data.weight !== undefined ? parseInt(data.weight, 10) : null,
+        data.config !== undefined ? JSON.stringify(data.config) : null,
+        data.is_active ?? null,
+      ]
+    );
+    if (result.rows.length === 0) {
+      throw new Error('Scoring rule not found');
+    }
+    return result.rows[0];
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Delete scoring rule
+ */
+async function deleteScoringRule(agencyDatabase, agencyId, ruleId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    await seedDefaultRules(client, agencyId);
+    const result = await client.query(
+      `DELETE FROM public.lead_scoring_rules WHERE id = $1 AND agency_id = $2 RETURNING id`,
+      [ruleId, agencyId]
+    );
+    if (result.rows.length === 0) {
+      throw new Error('Scoring rule not found');
+    }
+    // Touch the remaining rules so existing scores are treated as stale
+    await client.query(
+      `UPDATE public.lead_scoring_rules SET updated_at = NOW() WHERE agency_id = $1`,
+      [agencyId]
+    );
+    return { id: ruleId };
   } finally {
     client.release();
     if (client.pool) {
@@ -165,10 +664,11 @@ async function getHighScoringLeads(agencyDatabase, agencyId, minScore = 50) {
         l.email,
         l.company_name,
         l.phone,
-        l.source,
+        src.name as source,
         l.status
       FROM public.lead_scores ls
       INNER JOIN public.leads l ON ls.lead_id = l.id
+      LEFT JOIN public.lead_sources src ON src.id = COALESCE(l.lead_source_id, l.source_id)
       WHERE ls.agency_id = $1 AND ls.score >= $2
       ORDER BY ls.score DESC, ls.last_calculated_at DESC`,
       [agencyId, minScore]
@@ -186,7 +686,48 @@ async function getHighScoringLeads(agencyDatabase, agencyId, minScore = 50) {
   }
 }
 
+/**
+ * Initialize the hourly job that stores refreshed scores for stale leads
+ */
+function initializeLeadScoringScheduler() {
+  cron.schedule(LEAD_SCORE_SCHEDULE, async () => {
+    try {
+      const agencies = await mainPool.query(
+        `SELECT id, database_name FROM public.agencies
+         WHERE is_active = true AND database_name IS NOT NULL`
+      );
+
+      for (const agency of agencies.rows) {
+        try {
+          const result = await recalculateLeadScores(agency.database_name, agency.id, { staleOnly: true });
+          if (result.recalculated > 0) {
+            console.log(`[LeadScoring] Agency ${agency.id}: ${result.recalculated} score(s) refreshed`);
+          }
+        } catch (error) {
+          // Agencies without the CRM module have no lead tables
+          if (error.code === '42P01') continue;
+          console.error(`[LeadScoring] Score refresh failed for agency ${agency.id}:`, error.message);
+        }
+      }
+    } catch (error) {
+      console.error('[LeadScoring] Error refreshing lead scores:', error);
+    }
+  });
+
+  console.log('[LeadScoring] ✅ Scheduler initialized');
+}
+
 module.exports = {
+  SCORING_FACTORS,
+  scoreLead,
   calculateLeadScore,
+  getLeadScore,
+  getLeadScores,
+  recalculateLeadScores,
+  initializeLeadScoringScheduler,
   getHighScoringLeads,
+  getScoringRules,
+  createScoringRule,
+  updateScoringRule,
+  deleteScoringRule,
 };
@@ -0,0 +1,1244 @@
+/**
+ * Leave Service
+ * Leave policies per leave type and employee group, periodic accruals with joiner pro-rating
+ * and probation rules, leave day calculation (sandwich and half-day rules), and the year-end
+ * rollover that carries forward, encashes into payroll or lapses unused days.
+ * Every balance change is written to leave_balance_transactions.
+ */
+
+const { parseDatabaseUrl } = require('../utils/poolManager');
+const { Pool } = require('pg');
+const { round2 } = require('../utils/numberHelper');
+const cron = require('node-cron');
+const { pool: mainPool } = require('../config/database');
+
+// Accruals (and the January rollover of the previous year) run daily at 01:30
+const LEAVE_SCHEDULE = process.env.LEAVE_ACCRUAL_SCHEDULE || '30 1 * * *';
+
+const ACCRUAL_FREQUENCIES = ['monthly', 'quarterly', 'yearly'];
+
+// Balance columns a ledger transaction may move, besides `used` which the leave_requests trigger owns
+const BALANCE_FIELDS = ['opening_balance', 'accrued', 'adjusted', 'encashed', 'lapsed', 'carried_forward'];
+
+// Encashment is paid at one day of monthly gross salary per day
+const ENCASHMENT_DAYS_PER_MONTH = 30;
+
+// Roles that see every employee's balances and ledger
+const LEAVE_ADMIN_ROLES = ['super_admin', 'ceo', 'cto', 'cfo', 'coo', 'admin', 'operations_manager', 'hr'];
+
+/**
+ * Get agency database connection
+ */
+async function getAgencyConnection(agencyDatabase) {
+  const { host, port, user, password } = parseDatabaseUrl();
+  const agencyDbUrl = `postgresql://${user}:${password}@${host}:${port}/${agencyDatabase}`;
+  const agencyPool = new Pool({ connectionString: agencyDbUrl, max: 1 });
+  const client = await agencyPool.connect();
+  // Attach pool to client for cleanup
+  client.pool = agencyPool;
+  return client;
+}
+
+const toDateString = (value) => {
+  if (!value) return null;
+  if (value instanceof Date) {
+    const local = new Date(value.getTime() - value.getTimezoneOffset() * 60000);
+    return local.toISOString().split('T')[0];
+  }
+  return String(value).split('T')[0];
+};
+
+// Date-only arithmetic in UTC so DST never shifts a day
+const parseDate = (value) => new Date(`${toDateString(value)}T00:00:00Z`);
+const formatDate = (date) => date.toISOString().split('T')[0];
+const addDays = (value, days) => {
+  const date = parseDate(value);
+  date.setUTCDate(date.getUTCDate() + days);
+  return formatDate(date);
+};
+const addMonths = (value, months) => {
+  const date = parseDate(value);
+  date.setUTCMonth(date.getUTCMonth() + months);
+  return formatDate(date);
+};
+const daysBetween = (from, to) => Math.round((parseDate(to) - parseDate(from)) / 86400000) + 1;
+
+const availableOf = (balance) =>
+  round2(
+    parseFloat(balance.opening_balance || 0) +
+      parseFloat(balance.accrued || 0) +
+      parseFloat(balance.adjusted || 0) -
+      parseFloat(balance.used || 0) -
+      parseFloat(balance.encashed || 0) -
+      parseFloat(balance.lapsed || 0) -
+      parseFloat(balance.carried_forward || 0)
+  );
+
+/**
+ * Employees whose leave a user may see: null for HR and admins (everyone),
+ * otherwise the user and the employees they supervise or manage as department head
+ */
+async function getViewableEmployeeIds(client, viewerId) {
+  const roles = await client.query(`SELECT role::text AS role FROM public.user_roles WHERE user_id = $1`, [viewerId]);
+  if (roles.rows.some((row) => LEAVE_ADMIN_ROLES.includes(row.role))) return null;
+
+  const reports = await client.query(
+    `SELECT ed.user_id
+     FROM public.employee_details ed
+     JOIN public.employee_details sup ON sup.id = ed.supervisor_id
+     WHERE sup.user_id = $1 AND ed.user_id IS NOT NULL
+     UNION
+     SELECT ta.user_id
+     FROM public.team_assignments ta
+     JOIN public.departments d ON d.id = ta.department_id
+     WHERE d.manager_id = $1 AND COALESCE(ta.is_active, true) = true`,
+    [viewerId]
+  );
+  return [viewerId, ...reports.rows.map((row) => row.user_id)];
+}
+
+/**
+ * Accrual periods of a year, each credited on its first day
+ */
+function accrualPeriods(frequency, year) {
+  const months = frequency === 'yearly' ? 12 : frequency === 'quarterly' ? 3 : 1;
+  const periods = [];
+  for (let month = 0; month < 12; month += months) {
+    const start = formatDate(new Date(Date.UTC(year, month, 1)));
+    periods.push({ start, end: addDays(addMonths(start, months), -1) });
+  }
+  return periods;
+}
+
+/**
+ * Pick the policy for an employee: one matching their employment type wins over the catch-all.
+ * Leave types without a policy fall back to crediting their static max_days at the start of the year.
+ */
+function resolvePolicy(policies, leaveType, employmentType) {
+  const candidates = policies.filter((p) => p.leave_type_id === leaveType.id && p.is_active);
+  const policy =
+    candidates.find((p) => p.employment_type && employmentType && p.employment_type === employmentType) ||
+    candidates.find((p) => !p.employment_type);
+  if (policy) return policy;
+
+  if (parseFloat(leaveType.max_days) > 0) {
+    return {
+      id: null,
+      name: `${leaveType.name} (default allowance)`,
+      annual_entitlement: leaveType.max_days,
+      accrual_frequency: 'yearly',
+      prorate_joiners: false,
+      probation_months: 0,
+      accrue_during_probation: true,
+      allow_during_probation: true,
+      carry_forward_max: 0,
+      encashment_enabled: false,
+      encashment_max_days: null,
+      allow_negative_balance: false,
+      sandwich_rule: false,
+      allow_half_day: true,
+    };
+  }
+  return null;
+}
+
+const probationEndOf = (employee, policy) =>
+  employee.hire_date && parseInt(policy.probation_months, 10) > 0
+    ? addMonths(employee.hire_date, parseInt(policy.probation_months, 10))
+    : null;
+
+async function loadPolicies(client) {
+  const result = await client.query(`SELECT * FROM public.leave_policies`);
+  return result.rows;
+}
+
+async function loadLeaveTypes(client) {
+  const result = await client.query(
+    `SELECT id, name, max_days, is_paid FROM public.leave_types WHERE is_active = true ORDER BY name`
+  );
+  return result.rows;
+}
+
+async function loadEmployees(client, employeeId = null) {
+  const result = await client.query(
+    `SELECT ed.user_id, ed.id AS employee_details_id, ed.employment_type,
+            COALESCE(p.full_name, TRIM(CONCAT(ed.first_name, ' ', ed.last_name))) AS full_name,
+            p.hire_date
+     FROM public.employee_details ed
+     LEFT JOIN public.profiles p ON p.user_id = ed.user_id
+     WHERE ed.user_id IS NOT NULL
+       AND COALESCE(ed.is_active, true) = true
+       ${employeeId ? 'AND ed.user_id = $1' : ''}`,
+    employeeId ? [employeeId] : []
+  );
+  return result.rows.map((row) => ({ ...row, hire_date: toDateString(row.hire_date) }));
+}
+
+/**
+ * Get (creating if needed) and lock the balance row of an employee for a leave type and year
+ */
+async function getOrCreateBalance(client, agencyId, employeeId, leaveTypeId, year) {
+  await client.query(
+    `INSERT INTO public.leave_balances (agency_id, employee_id, leave_type_id, year)
+     VALUES ($1, $2, $3, $4)
+     ON CONFLICT (employee_id, leave_type_id, year) DO NOTHING`,
+    [agencyId, employeeId, leaveTypeId, year]
+  );
+  const result = await client.query(
+    `SELECT * FROM public.leave_balances
+     WHERE employee_id = $1 AND leave_type_id = $2 AND year = $3
+     FOR UPDATE`,
+    [employeeId, leaveTypeId, year]
+  );
+  return result.rows[0];
+}
+
+/**
+ * Move one balance column and record the change in the ledger.
+ * `days` is the signed effect on the available balance.
+ */
+async function postBalanceTransaction(client, balance, transactionType, field, days, details = {}) {
+  if (!BALANCE_FIELDS.includes(field)) {
+    throw new Error(`Invalid leave balance field: ${field}`);
+  }
+  // Deductions (encashed, lapsed, carried_forward) grow as the available balance shrinks
+  const fieldDelta = ['encashed', 'lapsed', 'carried_forward'].includes(field) ? -days : days;
+
+  const updated = await client.query(
+    `UPDATE public.leave_balances
+     SET ${field} = ${field} + $2,
+         accrued_through = COALESCE($3, accrued_through),
+         updated_at = NOW()
+     WHERE id = $1
+     RETURNING *`,
+    [balance.id, round2(fieldDelta), details.accruedThrough || null]
+  );
+  const after = updated.rows[0];
+
+  await client.query(
+    `INSERT INTO public.leave_balance_transactions (
+      agency_id, balance_id, employee_id, leave_type_id, year, transaction_type, days,
+      balance_after, reference_type, reference_id, notes, created_by
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)`,
+    [
+      after.agency_id,
+      after.id,
+      after.employee_id,
+      after.leave_type_id,
+      after.year,
+      transactionType,
+      round2(days),
+      availableOf(after),
+      details.referenceType || null,
+      details.referenceId || null,
+      details.notes || null,
+      details.userId || null,
+    ]
+  );
+
+  return after;
+}
+
+/**
+ * Credit every accrual period of `year` that has started by `asOfDate` and not yet been credited
+ */
+async function accrueEmployeeLeave(client, agencyId, employee, leaveType, policy, year, asOfDate, userId) {
+  const balance = await getOrCreateBalance(client, agencyId, employee.user_id, leaveType.id, year);
+  if (balance.closed_at) return 0;
+
+  const accruedThrough = toDateString(balance.accrued_through);
+  const probationEnd = probationEndOf(employee, policy);
+  // Nothing accrues before joining, or before probation ends when the policy says so
+  let eligibleFrom = employee.hire_date;
+  if (!policy.accrue_during_probation && probationEnd && (!eligibleFrom || probationEnd > eligibleFrom)) {
+    eligibleFrom = probationEnd;
+  }
+
+  const annual = parseFloat(policy.annual_entitlement) || 0;
+  const periods = accrualPeriods(policy.accrual_frequency, year);
+  const perPeriod = annual / periods.length;
+  let current = balance;
+  let credited = 0;
+
+  for (const period of periods) {
+    if (period.start > asOfDate) break;
+    if (accruedThrough && period.end <= accruedThrough) continue;
+    if (eligibleFrom && period.end < eligibleFrom) continue;
+
+    let days = perPeriod;
+    let notes = `${policy.name}: ${period.start} to ${period.end}`;
+    if (eligibleFrom && eligibleFrom > period.start) {
+      if (!policy.prorate_joiners) continue;
+      const eligibleDays = daysBetween(eligibleFrom, period.end);
+      days = (perPeriod * eligibleDays) / daysBetween(period.start, period.end);
+      notes += ` (pro-rated from ${eligibleFrom})`;
+    }
+
+    days = round2(days);
+    current = await postBalanceTransaction(client, current, 'accrual', 'accrued', days, {
+      accruedThrough: period.end,
+      referenceType: policy.id ? 'leave_policy' : null,
+      referenceId: policy.id,
+      notes,
+      userId,
+    });
+    credited += 1;
+  }
+
+  return credited;
+}
+
+async function runAccrualsWithClient(client, agencyId, asOfDate, userId, employeeId = null) {
+  const year = parseInt(asOfDate.slice(0, 4), 10);
+  const [policies, leaveTypes, employees] = await Promise.all([
+    loadPolicies(client),
+    loadLeaveTypes(client),
+    loadEmployees(client, employeeId),
+  ]);
+
+  let credited = 0;
+  for (const employee of employees) {
+    // Employees who join later in the year accrue nothing until then
+    if (employee.hire_date && employee.hire_date > asOfDate) continue;
+    for (const leaveType of leaveTypes) {
+      const policy = resolvePolicy(policies, leaveType, employee.employment_type);
+      if (!policy) continue;
+      credited += await accrueEmployeeLeave(client, agencyId, employee, leaveType, policy, year, asOfDate, userId);
+    }
+  }
+
+  return { employees: employees.length, credited };
+}
+
+/**
+ * Run leave accruals for all active employees up to a date (defaults to today)
+ */
+async function runLeaveAccruals(agencyDatabase, agencyId, asOfDate = null, userId = null) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    await client.query('BEGIN');
+    const result = await runAccrualsWithClient(client, agencyId, toDateString(asOfDate) || toDateString(new Date()), userId);
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) await client.pool.end();
+  }
+}
+
+/**
+ * Get leave policies
+ */
+async function getLeavePolicies(agencyDatabase, agencyId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const result = await client.query(
+      `SELECT lp.*, lt.name AS leave_type_name
+       FROM public.leave_policies lp
+       JOIN public.leave_types lt ON lt.id = lp.leave_type_id
+       ORDER BY lt.name, lp.employment_type NULLS FIRST`
+    );
+    return result.rows;
+  } catch (error) {
+    if (error.code === '42P01') return [];
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) await client.pool.end();
+  }
+}
+
+/**
+ * Create or update a leave policy
+ */
+async function saveLeavePolicy(agencyDatabase, agencyId, policyData, userId, policyId = null) {
+  if (!policyData.leave_type_id) {
+    throw new Error('Leave type is required');
+  }
+  if (!policyData.name || !String(policyData.name).trim()) {
+    throw new Error('Policy name is required');
+  }
+  const frequency = policyData.accrual_frequency || 'monthly';
+  if (!ACCRUAL_FREQUENCIES.includes(frequency)) {
+    throw new Error(`Accrual frequency must be one of: ${ACCRUAL_FREQUENCIES.join(', ')}`);
+  }
+  if (parseFloat(policyData.annual_entitlement) < 0) {
+    throw new Error('Annual entitlement cannot be negative');
+  }
+
+  const employmentType = policyData.employment_type || null;
+  const isActive = policyData.is_active !== false;
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    if (isActive) {
+      const duplicate = await client.query(
+        `SELECT id FROM public.leave_policies
+         WHERE leave_type_id = $1 AND employment_type IS NOT DISTINCT FROM $2
+           AND is_active = true AND ($3::uuid IS NULL OR id <> $3)`,
+        [policyData.leave_type_id, employmentType, policyId]
+      );
+      if (duplicate.rows.length > 0) {
+        throw new Error(
+          employmentType
+            ? `An active policy for ${employmentType} employees already exists for this leave type`
+            : 'An active policy for all employees already exists for this leave type'
+        );
+      }
+    }
+
+    const values = [
+      policyData.leave_type_id,
+      String(policyData.name).trim(),
+      employmentType,
+      round2(policyData.annual_entitlement),
+      frequency,
+      policyData.prorate_joiners !== false,
+      parseInt(policyData.probation_months, 10) || 0,
+      policyData.accrue_during_probation !== false,
+      !!policyData.allow_during_probation,
+      policyData.carry_forward_max === null || policyData.carry_forward_max === ''
+        ? null
+        : round2(policyData.carry_forward_max),
+      !!policyData.encashment_enabled,
+      policyData.encashment_max_days === null || policyData.encashment_max_days === undefined || policyData.encashment_max_days === ''
+        ? null
+        : round2(policyData.encashment_max_days),
+      !!policyData.allow_negative_balance,
+      !!policyData.sandwich_rule,
+      policyData.allow_half_day !== false,
+      isActive,
+    ];
+
+    let result;
+    if (policyId) {
+      result = await client.query(
+        `UPDATE public.leave_policies
+         SET leave_type_id = $1, name = $2, employment_type = $3, annual_entitlement = $4,
+             accrual_frequency = $5, prorate_joiners = $6, probation_months = $7,
+             accrue_during_probation = $8, allow_during_probation = $9, carry_forward_max = $10,
+             encashment_enabled = $11, encashment_max_days = $12, allow_negative_balance = $13,
+             sandwich_rule = $14, allow_half_day = $15, is_active = $16, updated_at = NOW()
+         WHERE id = $17
+         RETURNING *`,
+        [...values, policyId]
+      );
+      if (result.rows.length === 0) {
+        throw new Error('Leave policy not found');
+      }
+    } else {
+      result = await client.query(
+        `INSERT INTO public.leave_policies (
+          leave_type_id, name, employment_type, annual_entitlement, accrual_frequency,
+          prorate_joiners, probation_months, accrue_during_probation, allow_during_probation,
+          carry_forward_max, encashment_enabled, encashment_max_days, allow_negative_balance,
+          sandwich_rule, allow_half_day, is_active, agency_id, created_by
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18)
+        RETURNING *`,
+        [...values, agencyId, userId]
+      );
+    }
+
+    return result.rows[0];
+  } finally {
+    client.release();
+    if (client.pool) await client.pool.end();
+  }
+}
+
+/**
+ * Delete a leave policy. Balances and their history are kept.
+ */
+async function deleteLeavePolicy(agencyDatabase, agencyId, policyId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const result = await client.query(`DELETE FROM public.leave_policies WHERE id = $1 RETURNING id`, [policyId]);
+    if (result.rows.length === 0) {
+      throw new Error('Leave policy not found');
+    }
+    return { id: policyId };
+  } finally {
+    client.release();
+    if (client.pool) await client.pool.end();
+  }
+}
+
+/**
+ * Get leave balances for a year, optionally for one employee.
+ * Includes days in pending requests so callers can show what is still requestable.
+ */
+async function getLeaveBalances(agencyDatabase, agencyId, filters = {}) {
+  const year = parseInt(filters.year, 10) || new Date().getFullYear();
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const viewable = filters.viewer_id ? await getViewableEmployeeIds(client, filters.viewer_id) : null;
+    if (viewable && filters.employee_id && !viewable.includes(filters.employee_id)) {
+      return null;
+    }
+
+    const params = [year];
+    let employeeFilter = '';
+    if (filters.employee_id) {
+      params.push(filters.employee_id);
+      employeeFilter = `AND lb.employee_id = $${params.length}`;
+    } else if (viewable) {
+      params.push(viewable);
+      employeeFilter = `AND lb.employee_id = ANY($${params.length}::uuid[])`;
+    }
+
+    const result = await client.query(
+      `SELECT lb.*, lt.name AS leave_type_name, lt.is_paid,
+              COALESCE(p.full_name, u.email) AS employee_name,
+              COALESCE(pending.days, 0) AS pending_days
+       FROM public.leave_balances lb
+       JOIN public.leave_types lt ON lt.id = lb.leave_type_id
+       LEFT JOIN public.users u ON u.id = lb.employee_id
+       LEFT JOIN public.profiles p ON p.user_id = lb.employee_id
+       LEFT JOIN LATERAL (
+         SELECT SUM(COALESCE(lr.total_days, lr.days_requested, lr.end_date - lr.start_date + 1)) AS days
+         FROM public.leave_requests lr
+         WHERE COALESCE(lr.employee_id, lr.user_id) = lb.employee_id
+           AND lr.leave_type_id = lb.leave_type_id
+           AND lr.status = 'pending'
+           AND EXTRACT(YEAR FROM lr.start_date) = lb.year
+       ) pending ON true
+       WHERE lb.year = $1 ${employeeFilter}
+       ORDER BY employee_name, lt.name`,
+      params
+    );
+
+    return result.rows.map((row) => {
+      const available = availableOf(row);
+      const allocated = round2(
+        parseFloat(row.opening_balance) + parseFloat(row.accrued) + parseFloat(row.adjusted)
+      );
+      return {
+        ...row,
+        available_days: available,
+        // Shape used by the leave balance widget
+        allocated_days: allocated,
+        used_days: round2(row.used),
+        pending_days: round2(row.pending_days),
+        remaining_days: round2(available - parseFloat(row.pending_days || 0)),
+      };
+    });
+  } catch (error) {
+    if (error.code === '42P01') return [];
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) await client.pool.end();
+  }
+}
+
+/**
+ * Get the ledger of balance changes for an employee
+ */
+async function getBalanceTransactions(agencyDatabase, agencyId, filters = {}) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const viewable = filters.viewer_id ? await getViewableEmployeeIds(client, filters.viewer_id) : null;
+    if (viewable && filters.employee_id && !viewable.includes(filters.employee_id)) {
+      return null;
+    }
+
+    const params = [];
+    const conditions = [];
+    if (filters.employee_id) {
+      params.push(filters.employee_id);
+      conditions.push(`t.employee_id = $${params.length}`);
+    } else if (viewable) {
+      params.push(viewable);
+      conditions.push(`t.employee_id = ANY($${params.length}::uuid[])`);
+    }
+    if (filters.leave_type_id) {
+      params.push(filters.leave_type_id);
+      conditions.push(`t.leave_type_id = $${params.length}`);
+    }
+    if (filters.year) {
+      params.push(parseInt(filters.year, 10));
+      conditions.push(`t.year = $${params.length}`);
+    }
+
+    const result = await client.query(
+      `SELECT t.*, lt.name AS leave_type_name, COALESCE(p.full_name, u.email) AS created_by_name
+       FROM public.leave_balance_transactions t
+       JOIN public.leave_types lt ON lt.id = t.leave_type_id
+       LEFT JOIN public.users u ON u.id = t.created_by
+       LEFT JOIN public.profiles p ON p.user_id = t.created_by
+       ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+       ORDER BY t.created_at DESC
+       LIMIT 500`,
+      params
+    );
+    return result.rows;
+  } catch (error) {
+    if (error.code === '42P01') return [];
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) await client.pool.end();
+  }
+}
+
+/**
+ * Manually adjust a leave balance (positive credits days, negative debits them)
+ */
+async function adjustLeaveBalance(agencyDatabase, agencyId, adjustmentData, userId) {
+  const days = round2(adjustmentData.days);
+  if (!adjustmentData.employee_id || !adjustmentData.leave_type_id) {
+    throw new Error('Employee and leave type are required');
+  }
+  if (!days) {
+    throw new Error('Adjustment days must be a non-zero number');
+  }
+  if (!adjustmentData.notes || !String(adjustmentData.notes).trim()) {
+    throw new Error('A reason is required for balance adjustments');
+  }
+  const year = parseInt(adjustmentData.year, 10) || new Date().getFullYear();
+
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    await client.query('BEGIN');
+    const balance = await getOrCreateBalance(
+      client,
+      agencyId,
+      adjustmentData.employee_id,
+      adjustmentData.leave_type_id,
+      year
+    );
+    if (balance.closed_at) {
+      throw new Error(`Leave year ${year} has been closed`);
+    }
+    const updated = await postBalanceTransaction(client, balance, 'adjustment', 'adjusted', days, {
+      notes: String(adjustmentData.notes).trim(),
+      userId,
+    });
+    await client.query('COMMIT');
+    return { ...updated, available_days: availableOf(updated) };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) await client.pool.end();
+  }
+}
+
+async function loadNonWorkingDays(client, startDate, endDate) {
+  let weeklyOffs = [0, 6];
+  try {
+    const settings = await client.query(`SELECT weekly_offs FROM public.payroll_statutory_settings LIMIT 1`);
+    if (settings.rows[0] && Array.isArray(settings.rows[0].weekly_offs)) {
+      weeklyOffs = settings.rows[0].weekly_offs.map((day) => parseInt(day, 10));
+    }
+  } catch (error) {
+    if (error.code !== '42P01') throw error;
+  }
+
+  const holidays = new Set();
+  try {
+    const result = await client.query(
+      `SELECT COALESCE(holiday_date, date) AS day FROM public.holidays
+       WHERE COALESCE(holiday_date, date) BETWEEN $1 AND $2`,
+      [startDate, endDate]
+    );
+    result.rows.forEach((row) => holidays.add(toDateString(row.day)));
+  } catch (error) {
+    if (error.code !== '42P01') throw error;
+  }
+
+  return (day) => weeklyOffs.includes(parseDate(day).getUTCDay()) || holidays.has(day);
+}
+
+/**
+ * Work out how many days a leave request consumes and whether the employee may take it.
+ * Without the sandwich rule only working days count; with it, weekly offs and holidays
+ * falling between the first and last working day of leave count too.
+ */
+async function calculateLeaveDays(agencyDatabase, agencyId, requestData) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    return await calculateLeaveDaysWithClient(client, requestData);
+  } finally {
+    client.release();
+    if (client.pool) await client.pool.end();
+  }
+}
+
+/**
+ * Leave day calculation on an open connection. With lockBalance the balance row is
+ * locked so concurrent approvals cannot both spend the same days.
+ */
+async function calculateLeaveDaysWithClient(client, requestData, lockBalance = false) {
+  const startDate = toDateString(requestData.start_date);
+  const endDate = toDateString(requestData.end_date) || startDate;
+  if (!requestData.employee_id || !requestData.leave_type_id || !startDate) {
+    throw new Error('Employee, leave type and start date are required');
+  }
+  if (endDate < startDate) {
+    throw new Error('End date cannot be before start date');
+  }
+  if (startDate.slice(0, 4) !== endDate.slice(0, 4)) {
+    throw new Error('Leave cannot span two leave years; split it into separate requests');
+  }
+
+  const year = parseInt(startDate.slice(0, 4), 10);
+  const leaveTypeResult = await client.query(
+    `SELECT id, name, max_days, is_paid FROM public.leave_types WHERE id = $1`,
+    [requestData.leave_type_id]
+  );
+  const leaveType = leaveTypeResult.rows[0];
+  if (!leaveType) {
+    throw new Error('Leave type not found');
+  }
+  const [policies, employees] = await Promise.all([
+    loadPolicies(client),
+    loadEmployees(client, requestData.employee_id),
+  ]);
+  const employee = employees[0] || { user_id: requestData.employee_id, employment_type: null, hire_date: null };
+  const policy = resolvePolicy(policies, leaveType, employee.employment_type);
+
+  const errors = [];
+  const warnings = [];
+  const isNonWorking = await loadNonWorkingDays(client, startDate, endDate);
+
+  const workingDays = [];
+  for (let day = startDate; day <= endDate; day = addDays(day, 1)) {
+    if (!isNonWorking(day)) workingDays.push(day);
+  }
+
+  let days;
+  if (workingDays.length === 0) {
+    days = 0;
+    errors.push('The selected dates fall entirely on weekly offs or holidays');
+  } else if (policy && policy.sandwich_rule) {
+    days = daysBetween(workingDays[0], workingDays[workingDays.length - 1]);
+    if (days > workingDays.length) {
+      warnings.push(`${days - workingDays.length} weekly off / holiday day(s) sandwiched in the leave are counted`);
+    }
+  } else {
+    days = workingDays.length;
+  }
+
+  if (requestData.is_half_day) {
+    if (startDate !== endDate) {
+      errors.push('Half-day leave must start and end on the same day');
+    } else if (policy && !policy.allow_half_day) {
+      errors.push(`${leaveType.name} cannot be taken as a half day`);
+    } else if (days > 0) {
+      days = 0.5;
+    }
+  }
+
+  const probationEnd = policy ? probationEndOf(employee, policy) : null;
+  if (probationEnd && startDate < probationEnd && !policy.allow_during_probation) {
+    errors.push(`${leaveType.name} is not available during probation (ends ${probationEnd})`);
+  }
+
+  let available = null;
+  let pending = 0;
+  const balanceResult = await client.query(
+    `SELECT * FROM public.leave_balances WHERE employee_id = $1 AND leave_type_id = $2 AND year = $3
+     ${lockBalance ? 'FOR UPDATE' : ''}`,
+    [requestData.employee_id, requestData.leave_type_id, year]
+  );
+  if (balanceResult.rows[0]) {
+    available = availableOf(balanceResult.rows[0]);
+    if (balanceResult.rows[0].closed_at) {
+      errors.push(`Leave year ${year} has been closed`);
+    }
+  }
+
+  if (policy) {
+    const pendingResult = await client.query(
+      `SELECT COALESCE(SUM(COALESCE(total_days, days_requested, end_date - start_date + 1)), 0) AS days
+       FROM public.leave_requests
+       WHERE COALESCE(employee_id, user_id) = $1 AND leave_type_id = $2 AND status = 'pending'
+         AND EXTRACT(YEAR FROM start_date) = $3
+         AND ($4::uuid IS NULL OR id <> $4)`,
+      [requestData.employee_id, requestData.leave_type_id, year, requestData.exclude_request_id || null]
+    );
+    pending = round2(pendingResult.rows[0].days);
+    const requestable = round2((available || 0) - pending);
+    if (days > requestable) {
+      const message = `Requested ${days} day(s) but only ${requestable} day(s) of ${leaveType.name} are available${
+        pending ? ` after ${pending} pending day(s)` : ''
+      }`;
+      if (policy.allow_negative_balance) {
+        warnings.push(`${message}; the balance will go negative`);
+      } else {
+        errors.push(message);
+      }
+    }
+  }
+
+  return {
+    days: round2(days),
+    working_days: workingDays.length,
+    available_days: available,
+    pending_days: pending,
+    policy: policy
+      ? {
+          id: policy.id,
+          name: policy.name,
+          sandwich_rule: !!policy.sandwich_rule,
+          allow_half_day: policy.allow_half_day !== false,
+          allow_negative_balance: !!policy.allow_negative_balance,
+        }
+      : null,
+    errors,
+    warnings,
+    valid: errors.length === 0,
+  };
+}
+
+/**
+ * Whether a user may approve or reject an employee's leave: HR and admins for anyone,
+ * managers for the employees they supervise, never for their own leave
+ */
+async function canDecideLeave(client, userId, employeeId) {
+  const viewable = await getViewableEmployeeIds(client, userId);
+  if (viewable === null) return true;
+  return employeeId !== userId && viewable.includes(employeeId);
+}
+
+/**
+ * Create or edit a leave request. Days are always worked out here from the employee's
+ * policy, and the request is refused when the policy or balance does not allow it.
+ * Only someone who may decide the request can save it straight as approved or rejected.
+ */
+async function saveLeaveRequest(agencyDatabase, agencyId, requestData, userId, requestId = null) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    await client.query('BEGIN');
+
+    let existing = null;
+    if (requestId) {
+      const result = await client.query('SELECT * FROM public.leave_requests WHERE id = $1 FOR UPDATE', [requestId]);
+      existing = result.rows[0];
+      if (!existing) {
+        throw new Error('Leave request not found');
+      }
+    }
+
+    const employeeId = requestData.employee_id || userId;
+    const viewable = await getViewableEmployeeIds(client, userId);
+    if (viewable && !viewable.includes(employeeId)) {
+      throw new Error('You can only request leave for yourself or your team');
+    }
+    const canDecide = await canDecideLeave(client, userId, employeeId);
+    const status = canDecide && ['approved', 'rejected'].includes(requestData.status) ? requestData.status : 'pending';
+
+    const isHalfDay = !!requestData.is_half_day && toDateString(requestData.start_date) === toDateString(requestData.end_date);
+    const calculation = await calculateLeaveDaysWithClient(
+      client,
+      {
+        employee_id: employeeId,
+        leave_type_id: requestData.leave_type_id,
+        start_date: requestData.start_date,
+        end_date: requestData.end_date,
+        is_half_day: isHalfDay,
+        exclude_request_id: requestId,
+      },
+      status === 'approved'
+    );
+    if (!calculation.valid && status !== 'rejected') {
+      throw new Error(calculation.errors.join('. '));
+    }
+
+    const reason = requestData.reason ? String(requestData.reason).trim() : null;
+    const halfDaySession = isHalfDay ? requestData.half_day_session || 'first_half' : null;
+    const approvedBy = status === 'approved' ? userId : null;
+    let saved;
+    if (existing) {
+      const result = await client.query(
+        `UPDATE public.leave_requests
+         SET employee_id = $1, user_id = $1, leave_type_id = $2, start_date = $3, end_date = $4,
+             days_requested = $5, total_days = $5, is_half_day = $6, half_day_session = $7, reason = $8,
+             status = $9,
+             approved_by = CASE WHEN $9 = 'approved' THEN COALESCE($10, approved_by) ELSE NULL END,
+             approved_at = CASE WHEN $9 = 'approved' THEN COALESCE(approved_at, NOW()) ELSE NULL END,
+             updated_at = NOW()
+         WHERE id = $11
+         RETURNING *`,
+        [employeeId, requestData.leave_type_id, requestData.start_date, requestData.end_date || requestData.start_date,
+          calculation.days, isHalfDay, halfDaySession, reason, status, approvedBy, requestId]
+      );
+      saved = result.rows[0];
+    } else {
+      const result = await client.query(
+        `INSERT INTO public.leave_requests (
+          user_id, employee_id, leave_type_id, start_date, end_date, days_requested, total_days,
+          is_half_day, half_day_session, reason, status, approved_by, approved_at, agency_id
+        ) VALUES ($1, $1, $2, $3, $4, $5, $5, $6, $7, $8, $9, $10, CASE WHEN $9 = 'approved' THEN NOW() END, $11)
+        RETURNING *`,
+        [employeeId, requestData.leave_type_id, requestData.start_date, requestData.end_date || requestData.start_date,
+          calculation.days, isHalfDay, halfDaySession, reason, status, approvedBy, agencyId]
+      );
+      saved = result.rows[0];
+    }
+
+    await client.query('COMMIT');
+    return { ...saved, calculation };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) await client.pool.end();
+  }
+}
+
+/**
+ * Approve or reject a leave request. Approval re-checks the request against the
+ * employee's current policy and balance, since both may have changed since it was raised.
+ */
+async function decideLeaveRequest(agencyDatabase, agencyId, requestId, decision, userId, rejectionReason = null) {
+  if (!['approved', 'rejected'].includes(decision)) {
+    throw new Error('Decision must be approved or rejected');
+  }
+
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    await client.query('BEGIN');
+    const result = await client.query('SELECT * FROM public.leave_requests WHERE id = $1 FOR UPDATE', [requestId]);
+    const request = result.rows[0];
+    if (!request) {
+      throw new Error('Leave request not found');
+    }
+    const employeeId = request.employee_id || request.user_id;
+    if (!(await canDecideLeave(client, userId, employeeId))) {
+      throw new Error('You can only approve or reject leave for employees you manage');
+    }
+
+    let days = request.total_days;
+    if (decision === 'approved') {
+      const calculation = await calculateLeaveDaysWithClient(
+        client,
+        {
+          employee_id: employeeId,
+          leave_type_id: request.leave_type_id,
+          start_date: request.start_date,
+          end_date: request.end_date,
+          is_half_day: request.is_half_day,
+          exclude_request_id: request.id,
+        },
+        true
+      );
+      if (!calculation.valid) {
+        throw new Error(calculation.errors.join('. '));
+      }
+      days = calculation.days;
+    }
+
+    const updated = await client.query(
+      `UPDATE public.leave_requests
+       SET status = $1, total_days = COALESCE($2, total_days),
+           approved_by = CASE WHEN $1 = 'approved' THEN $3::uuid ELSE NULL END,
+           approved_at = CASE WHEN $1 = 'approved' THEN NOW() ELSE NULL END,
+           rejection_reason = CASE WHEN $1 = 'rejected' THEN $4 ELSE NULL END,
+           updated_at = NOW()
+       WHERE id = $5
+       RETURNING *`,
+      [decision, days, userId, rejectionReason, requestId]
+    );
+
+    await client.query('COMMIT');
+    return updated.rows[0];
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) await client.pool.end();
+  }
+}
+
+async function monthlyGrossSalary(client, employeeDetailsId, asOfDate) {
+  if (!employeeDetailsId) return 0;
+  const result = await client.query(
+    `SELECT salary, base_salary, salary_frequency
+     FROM public.employee_salary_details
+     WHERE employee_id = $1 AND effective_date <= $2 AND (end_date IS NULL OR end_date >= $2)
+     ORDER BY effective_date DESC
+     LIMIT 1`,
+    [employeeDetailsId, asOfDate]
+  );
+  const row = result.rows[0];
+  if (!row) return 0;
+  const amount = parseFloat(row.salary || row.base_salary) || 0;
+  return ['annual', 'yearly'].includes(String(row.salary_frequency || '').toLowerCase()) ? amount / 12 : amount;
+}
+
+/**
+ * Close a leave year: credit the final accruals, then for every open balance carry forward
+ * up to the policy cap, encash the excess (as a pending payroll bonus) up to the encashment
+ * limit, and lapse the rest. Negative balances carry into the next year as they are.
+ */
+async function runYearEndRollover(agencyDatabase, agencyId, year, userId = null) {
+  const closingYear = parseInt(year, 10);
+  if (!closingYear) {
+    throw new Error('Year is required');
+  }
+  const yearEnd = `${closingYear}-12-31`;
+
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    await client.query('BEGIN');
+    const existing = await client.query(`SELECT id FROM public.leave_rollovers WHERE year = $1 FOR UPDATE`, [closingYear]);
+    if (existing.rows.length > 0) {
+      throw new Error(`Leave year ${closingYear} has already been rolled over`);
+    }
+
+    await runAccrualsWithClient(client, agencyId, yearEnd, userId);
+
+    const [policies, leaveTypes, employees] = await Promise.all([
+      loadPolicies(client),
+      client.query(`SELECT id, name, max_days FROM public.leave_types`).then((r) => r.rows),
+      loadEmployees(client),
+    ]);
+    const leaveTypeById = new Map(leaveTypes.map((lt) => [lt.id, lt]));
+    const employeeById = new Map(employees.map((e) => [e.user_id, e]));
+
+    const balances = await client.query(
+      `SELECT * FROM public.leave_balances WHERE year = $1 AND closed_at IS NULL FOR UPDATE`,
+      [closingYear]
+    );
+
+    const summary = {
+      year: closingYear,
+      balances_closed: 0,
+      days_carried_forward: 0,
+      days_encashed: 0,
+      encashment_amount: 0,
+      days_lapsed: 0,
+      warnings: [],
+    };
+    const salaryCache = new Map();
+
+    for (const balance of balances.rows) {
+      const leaveType = leaveTypeById.get(balance.leave_type_id);
+      const employee = employeeById.get(balance.employee_id) || { user_id: balance.employee_id, employment_type: null };
+      const policy = leaveType ? resolvePolicy(policies, leaveType, employee.employment_type) : null;
+      const available = availableOf(balance);
+      const label = `${employee.full_name || balance.employee_id} / ${leaveType ? leaveType.name : 'leave'}`;
+      let current = balance;
+
+      let carry = available;
+      let encash = 0;
+      if (available > 0) {
+        const cap = policy ? policy.carry_forward_max : 0;
+        carry = cap === null || cap === undefined ? available : Math.min(available, round2(cap));
+        const excess = round2(available - carry);
+        if (excess > 0 && policy && policy.encashment_enabled) {
+          const encashCap = policy.encashment_max_days;
+          encash = encashCap === null || encashCap === undefined ? excess : Math.min(excess, round2(encashCap));
+        }
+      }
+      carry = round2(carry);
+      encash = round2(encash);
+      const lapse = round2(available - carry - encash);
+
+      if (encash > 0) {
+        if (!salaryCache.has(balance.employee_id)) {
+          salaryCache.set(balance.employee_id, await monthlyGrossSalary(client, employee.employee_details_id, yearEnd));
+        }
+        const amount = round2((salaryCache.get(balance.employee_id) / ENCASHMENT_DAYS_PER_MONTH) * encash);
+        let adjustmentId = null;
+        if (amount > 0) {
+          const adjustment = await client.query(
+            `INSERT INTO public.payroll_adjustments (
+              agency_id, employee_id, adjustment_type, description, amount, is_taxable, status, created_by
+            ) VALUES ($1, $2, 'bonus', $3, $4, true, 'pending', $5)
+            RETURNING id`,
+            [
+              agencyId,
+              employee.employee_details_id,
+              `Leave encashment: ${encash} day(s) of ${leaveType ? leaveType.name : 'leave'} for ${closingYear}`,
+              amount,
+              userId,
+            ]
+          );
+          adjustmentId = adjustment.rows[0].id;
+          summary.encashment_amount = round2(summary.encashment_amount + amount);
+        } else {
+          summary.warnings.push(`${label}: no salary on file, encashment of ${encash} day(s) needs a manual payroll adjustment`);
+        }
+        current = await postBalanceTransaction(client, current, 'encashment', 'encashed', -encash, {
+          referenceType: adjustmentId ? 'payroll_adjustment' : null,
+          referenceId: adjustmentId,
+          notes: `Year-end encashment for ${closingYear}`,
+          userId,
+        });
+        summary.days_encashed = round2(summary.days_encashed + encash);
+      }
+
+      if (lapse > 0) {
+        current = await postBalanceTransaction(client, current, 'lapse', 'lapsed', -lapse, {
+          notes: `Year-end lapse for ${closingYear}`,
+          userId,
+        });
+        summary.days_lapsed = round2(summary.days_lapsed + lapse);
+      }
+
+      if (carry !== 0) {
+        current = await postBalanceTransaction(client, current, 'carry_forward', 'carried_forward', -carry, {
+          notes: `Carried forward to ${closingYear + 1}`,
+          userId,
+        });
+        const next = await getOrCreateBalance(client, agencyId, balance.employee_id, balance.leave_type_id, closingYear + 1);
+        await postBalanceTransaction(client, next, 'carry_forward', 'opening_balance', carry, {
+          referenceType: 'leave_balance',
+          referenceId: balance.id,
+          notes: `Carried forward from ${closingYear}`,
+          userId,
+        });
+        summary.days_carried_forward = round2(summary.days_carried_forward + carry);
+      }
+
+      await client.query(`UPDATE public.leave_balances SET closed_at = NOW(), updated_at = NOW() WHERE id = $1`, [balance.id]);
+      summary.balances_closed += 1;
+    }
+
+    const rollover = await client.query(
+      `INSERT INTO public.leave_rollovers (
+        agency_id, year, balances_closed, days_carried_forward, days_encashed,
+        encashment_amount, days_lapsed, warnings, run_by
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      RETURNING *`,
+      [
+        agencyId,
+        closingYear,
+        summary.balances_closed,
+        summary.days_carried_forward,
+        summary.days_encashed,
+        summary.encashment_amount,
+        summary.days_lapsed,
+        JSON.stringify(summary.warnings),
+        userId,
+      ]
+    );
+
+    await client.query('COMMIT');
+    return rollover.rows[0];
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) await client.pool.end();
+  }
+}
+
+/**
+ * Get year-end rollover history
+ */
+async function getLeaveRollovers(agencyDatabase, agencyId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const result = await client.query(
+      `SELECT r.*, COALESCE(p.full_name, u.email) AS run_by_name
+       FROM public.leave_rollovers r
+       LEFT JOIN public.users u ON u.id = r.run_by
+       LEFT JOIN public.profiles p ON p.user_id = r.run_by
+       ORDER BY r.year DESC`
+    );
+    return result.rows;
+  } catch (error) {
+    if (error.code === '42P01') return [];
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) await client.pool.end();
+  }
+}
+
+/**
+ * Daily leave run for one agency: in January the previous year is rolled over first
+ * (if nobody has done it by hand), then accruals are credited up to today
+ */
+async function processLeaveAccruals(agencyDatabase, agencyId) {
+  const today = toDateString(new Date());
+  const year = parseInt(today.slice(0, 4), 10);
+  let rolledOver = null;
+
+  if (today.slice(5, 7) === '01') {
+    const client = await getAgencyConnection(agencyDatabase);
+    let pendingRollover;
+    try {
+      const result = await client.query(
+        `SELECT
+           EXISTS (SELECT 1 FROM public.leave_rollovers WHERE year = $1) AS closed,
+           EXISTS (SELECT 1 FROM public.leave_balances WHERE year = $1) AS has_balances`,
+        [year - 1]
+      );
+      pendingRollover = !result.rows[0].closed && result.rows[0].has_balances;
+    } finally {
+      client.release();
+      if (client.pool) await client.pool.end();
+    }
+    if (pendingRollover) {
+      rolledOver = await runYearEndRollover(agencyDatabase, agencyId, year - 1);
+    }
+  }
+
+  const accruals = await runLeaveAccruals(agencyDatabase, agencyId, today);
+  return { ...accruals, rolledOver };
+}
+
+/**
+ * Initialize the daily leave accrual and year-end rollover job
+ */
+function initializeLeaveScheduler() {
+  cron.schedule(LEAVE_SCHEDULE, async () => {
+    try {
+      const agencies = await mainPool.query(
+        `SELECT id, database_name FROM public.agencies
+         WHERE is_active = true AND database_name IS NOT NULL`
+      );
+
+      for (const agency of agencies.rows) {
+        try {
+          const result = await processLeaveAccruals(agency.database_name, agency.id);
+          if (result.rolledOver) {
+            console.log(
+              `[Leave] Agency ${agency.id}: rolled over ${result.rolledOver.year} (${result.rolledOver.balances_closed} balance(s))`
+            );
+          }
+          if (result.credited > 0) {
+            console.log(`[Leave] Agency ${agency.id}: ${result.credited} accrual(s) credited`);
+          }
+        } catch (error) {
+          // Agencies without the HR module have no leave tables
+          if (error.code === '42P01') continue;
+          console.error(`[Leave] Accrual run failed for agency ${agency.id}:`, error.message);
+        }
+      }
+    } catch (error) {
+      console.error('[Leave] Error running leave accruals:', error);
+    }
+  });
+
+  console.log('[Leave] ✅ Scheduler initialized');
+}
+
+module.exports = {
+  ACCRUAL_FREQUENCIES,
+  getLeavePolicies,
+  saveLeavePolicy,
+  deleteLeavePolicy,
+  runLeaveAccruals,
+  getLeaveBalances,
+  getBalanceTransactions,
+  adjustLeaveBalance,
+  calculateLeaveDays,
+  saveLeaveRequest,
+  decideLeaveRequest,
+  runYearEndRollover,
+  getLeaveRollovers,
+  processLeaveAccruals,
+  initializeLeaveScheduler,
+};
@@ -0,0 +1,469 @@
+/**
+ * Opportunity Service
+ * Manages opportunities, their product/service line items and the sales forecast
+ */
+
+const { parseDatabaseUrl } = require('../utils/poolManager');
+const { Pool } = require('pg');
+const crypto = require('crypto');
+
+async function getAgencyConnection(agencyDatabase) {
+  const { host, port, user, password } = parseDatabaseUrl();
+  const agencyDbUrl = `postgresql://${user}:${password}@${host}:${port}/${agencyDatabase}`;
+  const agencyPool = new Pool({ connectionString: agencyDbUrl, max: 1 });
+  const client = await agencyPool.connect();
+  // Attach pool to client for cleanup
+  client.pool = agencyPool;
+  return client;
+}
+
+const OPPORTUNITY_STAGES = ['prospecting', 'qualification', 'proposal', 'negotiation', 'closed_won', 'closed_lost'];
+const CLOSED_STAGES = ['closed_won', 'closed_lost'];
+
+const OPPORTUNITY_SELECT = `
+  SELECT
+    o.*,
+    TO_CHAR(o.expected_close_date, 'YYYY-MM-DD') AS expected_close_date,
+    TO_CHAR(o.actual_close_date, 'YYYY-MM-DD') AS actual_close_date,
+    ROUND(COALESCE(o.expected_value, 0) * COALESCE(o.probability, 0) / 100.0, 2) AS weighted_value,
+    COALESCE(l.company_name, l.name) AS lead_name,
+    c.name AS client_name,
+    owner.email AS owner_email,
+    owner_profile.full_name AS owner_name,
+    (SELECT COUNT(*) FROM public.opportunity_line_items li WHERE li.opportunity_id = o.id) AS line_item_count
+  FROM public.opportunities o
+  LEFT JOIN public.leads l ON o.lead_id = l.id
+  LEFT JOIN public.clients c ON o.client_id = c.id
+  LEFT JOIN public.users owner ON o.owner_id = owner.id
+  LEFT JOIN public.profiles owner_profile ON o.owner_id = owner_profile.user_id
+`;
+
+function validateOpportunity(data) {
+  if (data.stage !== undefined && !OPPORTUNITY_STAGES.includes(data.stage)) {
+    throw new Error(`Invalid opportunity stage: ${data.stage}`);
+  }
+  if (data.probability !== undefined && data.probability !== null) {
+    const probability = Number(data.probability);
+    if (!Number.isFinite(probability) || probability < 0 || probability > 100) {
+      throw new Error('Probability must be between 0 and 100');
+    }
+  }
+}
+
+function normaliseLineItems(lineItems) {
+  return (lineItems || [])
+    .filter((item) => item && item.description)
+    .map((item) => {
+      const quantity = Number(item.quantity ?? 1) || 0;
+      const unitPrice = Number(item.unit_price ?? 0) || 0;
+      return {
+        item_type: item.item_type === 'product' ? 'product' : 'service',
+        product_id: item.product_id || null,
+        description: item.description,
+        quantity,
+        unit_price: unitPrice,
+        amount: Math.round(quantity * unitPrice * 100) / 100,
+      };
+    });
+}
+
+async function replaceLineItems(client, agencyId, opportunityId, lineItems) {
+  await client.query('DELETE FROM public.opportunity_line_items WHERE opportunity_id = $1', [opportunityId]);
+  for (const item of lineItems) {
+    await client.query(
+      `INSERT INTO public.opportunity_line_items (
+        id, opportunity_id, agency_id, item_type, product_id, description, quantity, unit_price, amount, created_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, NOW())`,
+      [
+        crypto.randomUUID(),
+        opportunityId,
+        agencyId,
+        item.item_type,
+        item.product_id,
+        item.description,
+        item.quantity,
+        item.unit_price,
+        item.amount,
+      ]
+    );
+  }
+}
+
+async function fetchOpportunity(client, agencyId, opportunityId) {
+  const result = await client.query(
+    `${OPPORTUNITY_SELECT} WHERE o.id = $1 AND o.agency_id = $2`,
+    [opportunityId, agencyId]
+  );
+  if (result.rows.length === 0) {
+    throw new Error('Opportunity not found');
+  }
+  const lineItems = await client.query(
+    `SELECT * FROM public.opportunity_line_items WHERE opportunity_id = $1 ORDER BY created_at`,
+    [opportunityId]
+  );
+  return { ...result.rows[0], line_items: lineItems.rows };
+}
+
+/**
+ * Get opportunities
+ */
+async function getOpportunities(agencyDatabase, agencyId, filters = {}) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    let query = `${OPPORTUNITY_SELECT} WHERE o.agency_id = $1`;
+    const params = [agencyId];
+    let paramIndex = 2;
+
+    if (filters.stage) {
+      query += ` AND o.stage = $${paramIndex}`;
+      params.push(filters.stage);
+      paramIndex++;
+    }
+
+    if (filters.owner_id) {
+      query += ` AND o.owner_id = $${paramIndex}`;
+      params.push(filters.owner_id);
+      paramIndex++;
+    }
+
+    if (filters.client_id) {
+      query += ` AND o.client_id = $${paramIndex}`;
+      params.push(filters.client_id);
+      paramIndex++;
+    }
+
+    if (filters.lead_id) {
+      query += ` AND o.lead_id = $${paramIndex}`;
+      params.push(filters.lead_id);
+      paramIndex++;
+    }
+
+    query += ' ORDER BY o.expected_close_date ASC NULLS LAST, o.created_at DESC';
+
+    const result = await client.query(query, params);
+    return result.rows;
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Get opportunity with line items
+ */
+async function getOpportunity(agencyDatabase, agencyId, opportunityId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    return await fetchOpportunity(client, agencyId, opportunityId);
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Create opportunity
+ * When line items are given and no expected value, the value is their total.
+ */
+async function createOpportunity(agencyDatabase, agencyId, userId, data) {
+  if (!data.opportunity_name) {
+    throw new Error('opportunity_name is required');
+  }
+  validateOpportunity(data);
+
+  const lineItems = normaliseLineItems(data.line_items);
+  const lineTotal = lineItems.reduce((sum, item) => sum + item.amount, 0);
+  const expectedValue = data.expected_value !== undefined && data.expected_value !== null && data.expected_value !== ''
+    ? Number(data.expected_value)
+    : (lineItems.length > 0 ? lineTotal : null);
+  const stage = data.stage || 'prospecting';
+
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    await client.query('BEGIN');
+
+    const id = crypto.randomUUID();
+    await client.query(
+      `INSERT INTO public.opportunities (
+        id, agency_id, lead_id, client_id, opportunity_name, description,
+        stage, probability, expected_value, expected_close_date, actual_close_date, currency,
+        source, owner_id, created_by, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, NOW(), NOW())`,
+      [
+        id,
+        agencyId,
+        data.lead_id || null,
+        data.client_id || null,
+        data.opportunity_name,
+        data.description || null,
+        stage,
+        data.probability || 0,
+        expectedValue,
+        data.expected_close_date || null,
+        CLOSED_STAGES.includes(stage) ? (data.actual_close_date || new Date().toISOString().slice(0, 10)) : null,
+        data.currency || 'INR',
+        data.source || null,
+        data.owner_id || userId,
+        userId,
+      ]
+    );
+
+    await replaceLineItems(client, agencyId, id, lineItems);
+
+    await client.query('COMMIT');
+    return await fetchOpportunity(client, agencyId, id);
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Update opportunity
+ * Moving into a closed stage stamps actual_close_date; reopening clears it.
+ */
+async function updateOpportunity(agencyDatabase, agencyId, opportunityId, data) {
+  validateOpportunity(data);
+
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    await client.query('BEGIN');
+
+    const existing = await client.query(
+      'SELECT stage FROM public.opportunities WHERE id = $1 AND agency_id = $2',
+      [opportunityId, agencyId]
+    );
+    if (existing.rows.length === 0) {
+      throw new Error('Opportunity not found');
+    }
+
+    const fields = [
+      'lead_id', 'client_id', 'opportunity_name', 'description', 'stage', 'probability',
+      'expected_value', 'expected_close_date', 'currency', 'source', 'owner_id',
+    ];
+    const sets = [];
+    const params = [opportunityId, agencyId];
+
+    fields.forEach((field) => {
+      if (data[field] !== undefined) {
+        params.push(data[field] === '' ? null : data[field]);
+        sets.push(`${field} = $${params.length}`);
+      }
+    });
+
+    let lineItems = null;
+    if (Array.isArray(data.line_items)) {
+      lineItems = normaliseLineItems(data.line_items);
+      if (data.expected_value === undefined && lineItems.length > 0) {
+        params.push(lineItems.reduce((sum, item) => sum + item.amount, 0));
+        sets.push(`expected_value = $${params.length}`);
+      }
+    }
+
+    if (data.stage !== undefined) {
+      const wasClosed = CLOSED_STAGES.includes(existing.rows[0].stage);
+      const isClosed = CLOSED_STAGES.includes(data.stage);
+      if (isClosed && !wasClosed) {
+        params.push(data.actual_close_date || new Date().toISOString().slice(0, 10));
+        sets.push(`actual_close_date = $${params.length}`);
+      } else if (!isClosed) {
+        sets.push('actual_close_date = NULL');
+      }
+    }
+
+    sets.push('updated_at = NOW()');
+    await client.query(
+      `UPDATE public.opportunities SET ${sets.join(', ')} WHERE id = $1 AND agency_id = $2`,
+      params
+    );
+
+    if (lineItems) {
+      await replaceLineItems(client, agencyId, opportunityId, lineItems);
+    }
+
+    await client.query('COMMIT');
+    return await fetchOpportunity(client, agencyId, opportunityId);
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Delete opportunity
+ */
+async function deleteOpportunity(agencyDatabase, agencyId, opportunityId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const result = await client.query(
+      'DELETE FROM public.opportunities WHERE id = $1 AND agency_id = $2 RETURNING id',
+      [opportunityId, agencyId]
+    );
+    if (result.rows.length === 0) {
+      throw new Error('Opportunity not found');
+    }
+    return { id: opportunityId };
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+function monthKey(date) {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+function listMonths(from, to) {
+  const months = [];
+  const cursor = new Date(from.getFullYear(), from.getMonth(), 1);
+  const end = new Date(to.getFullYear(), to.getMonth(), 1);
+  while (cursor <= end && months.length < 36) {
+    months.push(monthKey(cursor));
+    cursor.setMonth(cursor.getMonth() + 1);
+  }
+  return months;
+}
+
+function emptyBucket() {
+  return { count: 0, pipeline_value: 0, weighted_value: 0, won_value: 0 };
+}
+
+function addToBucket(bucket, opportunity) {
+  const value = Number(opportunity.expected_value || 0);
+  if (opportunity.stage === 'closed_won') {
+    bucket.won_value += value;
+  } else {
+    bucket.count += 1;
+    bucket.pipeline_value += value;
+    bucket.weighted_value += value * Number(opportunity.probability || 0) / 100;
+  }
+}
+
+/**
+ * Aggregate opportunities into a forecast by month and owner.
+ * Open opportunities count in the month they are expected to close (weighted by
+ * probability); won ones count in the month they actually closed; lost ones are ignored.
+ */
+function buildForecast(opportunities, from, to) {
+  const months = listMonths(from, to);
+  const byMonth = new Map(months.map((month) => [month, { month, ...emptyBucket() }]));
+  const byOwner = new Map();
+  const unscheduled = emptyBucket();
+
+  opportunities.forEach((opportunity) => {
+    if (opportunity.stage === 'closed_lost') return;
+
+    const dateValue = opportunity.stage === 'closed_won'
+      ? opportunity.actual_close_date || opportunity.expected_close_date
+      : opportunity.expected_close_date;
+
+    if (!dateValue) {
+      if (opportunity.stage !== 'closed_won') addToBucket(unscheduled, opportunity);
+      return;
+    }
+
+    const month = String(dateValue).slice(0, 7);
+    if (!byMonth.has(month)) return;
+
+    addToBucket(byMonth.get(month), opportunity);
+
+    const ownerKey = opportunity.owner_id || 'unassigned';
+    if (!byOwner.has(ownerKey)) {
+      byOwner.set(ownerKey, {
+        owner_id: opportunity.owner_id || null,
+        owner_name: opportunity.owner_name || opportunity.owner_email || 'Unassigned',
+        totals: emptyBucket(),
+        months: Object.fromEntries(months.map((m) => [m, emptyBucket()])),
+      });
+    }
+    const owner = byOwner.get(ownerKey);
+    addToBucket(owner.months[month], opportunity);
+    addToBucket(owner.totals, opportunity);
+  });
+
+  const round = (bucket) => ({
+    ...bucket,
+    pipeline_value: Math.round(bucket.pipeline_value * 100) / 100,
+    weighted_value: Math.round(bucket.weighted_value * 100) / 100,
+    won_value: Math.round(bucket.won_value * 100) / 100,
+  });
+
+  const monthRows = months.map((month) => round(byMonth.get(month)));
+  const totals = monthRows.reduce((sum, row) => {
+    sum.count += row.count;
+    sum.pipeline_value += row.pipeline_value;
+    sum.weighted_value += row.weighted_value;
+    sum.won_value += row.won_value;
+    return sum;
+  }, emptyBucket());
+
+  return {
+    months,
+    by_month: monthRows,
+    by_owner: Array.from(byOwner.values())
+      .map((owner) => ({
+        ...owner,
+        totals: round(owner.totals),
+        months: Object.fromEntries(Object.entries(owner.months).map(([m, bucket]) => [m, round(bucket)])),
+      }))
+      .sort((a, b) => b.totals.weighted_value - a.totals.weighted_value),
+    totals: round(totals),
+    unscheduled: round(unscheduled),
+  };
+}
+
+/**
+ * Get forecast by month and owner
+ */
+async function getForecast(agencyDatabase, agencyId, options = {}) {
+  const now = new Date();
+  const from = options.from ? new Date(options.from) : new Date(now.getFullYear(), now.getMonth(), 1);
+  const to = options.to ? new Date(options.to) : new Date(from.getFullYear(), from.getMonth() + 5, 1);
+  if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime()) || to < from) {
+    throw new Error('Invalid forecast period');
+  }
+
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const params = [agencyId];
+    let query = `${OPPORTUNITY_SELECT} WHERE o.agency_id = $1 AND o.stage <> 'closed_lost'`;
+    if (options.owner_id) {
+      params.push(options.owner_id);
+      query += ` AND o.owner_id = $${params.length}`;
+    }
+    const result = await client.query(query, params);
+    return buildForecast(result.rows, from, to);
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+module.exports = {
+  OPPORTUNITY_STAGES,
+  buildForecast,
+  getOpportunities,
+  getOpportunity,
+  createOpportunity,
+  updateOpportunity,
+  deleteOpportunity,
+  getForecast,
+};
@@ -0,0 +1,103 @@
+/**
+ * Payroll Service
+ * Finalizes reviewed payroll runs so approval and settlement happen together
+ */
+
+const { parseDatabaseUrl } = require('../utils/poolManager');
+const { Pool } = require('pg');
+
+/**
+ * Get agency database connection
+ */
+async function getAgencyConnection(agencyDatabase) {
+  const { host, port, user, password } = parseDatabaseUrl();
+  const agencyDbUrl = `postgresql://${user}:${password}@${host}:${port}/${agencyDatabase}`;
+  const agencyPool = new Pool({ connectionString: agencyDbUrl, max: 1 });
+  const client = await agencyPool.connect();
+  client.pool = agencyPool;
+  return client;
+}
+
+/**
+ * Approve the saved run in one transaction: draft records are locked, pending adjustments
+ * and revision arrears are marked as settled by this period so the next run does not pay
+ * them again, and the period is marked approved.
+ * lines is a list of { employee_id, adjustment_ids, arrear_payroll_ids }.
+ */
+async function finalizePayrollRun(agencyDatabase, agencyId, periodId, lines, userId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    await client.query('BEGIN');
+
+    const periodResult = await client.query(
+      `SELECT id, status FROM public.payroll_periods
+       WHERE id = $1 AND (agency_id = $2 OR agency_id IS NULL)
+       FOR UPDATE`,
+      [periodId, agencyId]
+    );
+    if (periodResult.rows.length === 0) {
+      throw new Error('Payroll period not found');
+    }
+    if (['approved', 'paid'].includes(periodResult.rows[0].status)) {
+      throw new Error(`Payroll period is already ${periodResult.rows[0].status}`);
+    }
+
+    const approved = await client.query(
+      `UPDATE public.payroll SET status = 'approved', updated_at = NOW()
+       WHERE payroll_period_id = $1 AND status = 'draft'
+       RETURNING id, employee_id`,
+      [periodId]
+    );
+    if (approved.rows.length === 0) {
+      throw new Error('Save the payroll run before finalizing it');
+    }
+    const payrollByEmployee = new Map(approved.rows.map((row) => [row.employee_id, row.id]));
+
+    for (const line of lines || []) {
+      const payrollId = payrollByEmployee.get(line.employee_id);
+      if (!payrollId) continue;
+
+      const adjustmentIds = line.adjustment_ids || [];
+      if (adjustmentIds.length > 0) {
+        await client.query(
+          `UPDATE public.payroll_adjustments
+           SET status = 'applied', payroll_id = $1, payroll_period_id = $2, updated_at = NOW()
+           WHERE id = ANY($3::uuid[]) AND employee_id = $4 AND status = 'pending'`,
+          [payrollId, periodId, adjustmentIds, line.employee_id]
+        );
+      }
+
+      const arrearPayrollIds = line.arrear_payroll_ids || [];
+      if (arrearPayrollIds.length > 0) {
+        await client.query(
+          `UPDATE public.payroll SET arrears_settled_in = $1, updated_at = NOW()
+           WHERE id = ANY($2::uuid[]) AND employee_id = $3`,
+          [payrollId, arrearPayrollIds, line.employee_id]
+        );
+      }
+    }
+
+    const periodUpdate = await client.query(
+      `UPDATE public.payroll_periods
+       SET status = 'approved', finalized_at = NOW(), finalized_by = $2, updated_at = NOW()
+       WHERE id = $1
+       RETURNING *`,
+      [periodId, userId || null]
+    );
+
+    await client.query('COMMIT');
+    return { period: periodUpdate.rows[0], approved_count: approved.rows.length };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+module.exports = {
+  finalizePayrollRun,
+};
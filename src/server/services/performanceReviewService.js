@@ -0,0 +1,1422 @@
+/**
+ * Performance Review Service
+ * Review cycles over a configurable competency library and rating scale: launching a cycle hands
+ * each employee a self-assessment and their manager a review form, employees and managers ask peers
+ * for 360 feedback, department heads calibrate ratings, and closing the cycle stores the final rating
+ * next to the task and attendance metrics computed for the cycle period. Employees track goals and
+ * OKRs with progress check-ins alongside.
+ */
+
+const { parseDatabaseUrl } = require('../utils/poolManager');
+const { Pool } = require('pg');
+const { round2 } = require('../utils/numberHelper');
+const { createNotification } = require('../utils/notificationHelper');
+
+const CYCLE_TYPES = ['quarterly', 'half_yearly', 'annual'];
+const GOAL_STATUSES = ['not_started', 'on_track', 'at_risk', 'off_track', 'completed', 'cancelled'];
+
+// Roles that manage cycles and calibrate every department; department heads calibrate their own
+const REVIEW_ADMIN_ROLES = ['super_admin', 'ceo', 'cto', 'cfo', 'coo', 'admin', 'operations_manager', 'hr'];
+
+const MAX_PEER_REVIEWERS = 8;
+
+const DEFAULT_RATING_SCALE = [
+  { value: 1, label: 'Needs Improvement' },
+  { value: 2, label: 'Partially Meets Expectations' },
+  { value: 3, label: 'Meets Expectations' },
+  { value: 4, label: 'Exceeds Expectations' },
+  { value: 5, label: 'Outstanding' },
+];
+
+/**
+ * Get agency database connection
+ */
+async function getAgencyConnection(agencyDatabase) {
+  const { host, port, user, password } = parseDatabaseUrl();
+  const agencyDbUrl = `postgresql://${user}:${password}@${host}:${port}/${agencyDatabase}`;
+  const agencyPool = new Pool({ connectionString: agencyDbUrl, max: 1 });
+  const client = await agencyPool.connect();
+  // Attach pool to client for cleanup
+  client.pool = agencyPool;
+  return client;
+}
+
+const toDateString = (value) => {
+  if (!value) return null;
+  if (value instanceof Date) {
+    const local = new Date(value.getTime() - value.getTimezoneOffset() * 60000);
+    return local.toISOString().split('T')[0];
+  }
+  return String(value).split('T')[0];
+};
+
+const formatCycle = (cycle) => ({
+  ...cycle,
+  period_start: toDateString(cycle.period_start),
+  period_end: toDateString(cycle.period_end),
+  self_review_due: toDateString(cycle.self_review_due),
+  manager_review_due: toDateString(cycle.manager_review_due),
+});
+
+const numberOrNull = (value) => (value === null || value === undefined ? null : round2(value));
+
+/**
+ * The label of the scale point nearest to a rating
+ */
+const ratingLabel = (scale, rating) => {
+  if (rating === null || rating === undefined || !scale.length) return null;
+  return scale.reduce((nearest, point) =>
+    Math.abs(point.value - rating) < Math.abs(nearest.value - rating) ? point : nearest
+  ).label;
+};
+
+async function isReviewAdmin(client, userId) {
+  const result = await client.query(`SELECT role::text AS role FROM public.user_roles WHERE user_id = $1`, [userId]);
+  return result.rows.some((row) => REVIEW_ADMIN_ROLES.includes(row.role));
+}
+
+function notify(client, agencyId, userId, title, message, metadata) {
+  return createNotification(client, {
+    agency_id: agencyId,
+    user_id: userId,
+    category: 'performance',
+    title,
+    message,
+    metadata,
+    action_url: '/performance-reviews',
+  });
+}
+
+async function loadCycle(client, agencyId, cycleId, lock = false) {
+  const result = await client.query(
+    `SELECT * FROM public.performance_review_cycles WHERE id = $1 AND agency_id = $2 ${lock ? 'FOR UPDATE' : ''}`,
+    [cycleId, agencyId]
+  );
+  if (!result.rows[0]) {
+    throw new Error('Review cycle not found');
+  }
+  return result.rows[0];
+}
+
+/**
+ * Task and attendance metrics for an employee over a period, matching the Employee Performance summary
+ */
+async function computePerformanceSummary(client, employeeId, startDate, endDate) {
+  const attendance = await client.query(
+    `SELECT COALESCE(SUM(COALESCE(total_hours, hours_worked)), 0) AS total_hours,
+            COALESCE(SUM(GREATEST(COALESCE(total_hours, hours_worked, 0) - 9, 0)), 0) AS overtime_hours,
+            COUNT(*) FILTER (WHERE status IN ('present', 'late')) AS present_days,
+            COUNT(*) AS total_days
+     FROM public.attendance
+     WHERE employee_id = $1 AND date BETWEEN $2 AND $3`,
+    [employeeId, startDate, endDate]
+  );
+  const tasks = await client.query(
+    `SELECT COUNT(DISTINCT t.id) AS total_assigned,
+            COUNT(DISTINCT t.id) FILTER (WHERE t.status = 'completed') AS completed,
+            COUNT(DISTINCT t.id) FILTER (WHERE t.status = 'completed' AND t.due_date IS NOT NULL AND t.updated_at <= t.due_date) AS on_time,
+            AVG(EXTRACT(EPOCH FROM (t.updated_at - ta.assigned_at)) / 3600) FILTER (WHERE t.status = 'completed' AND ta.assigned_at IS NOT NULL) AS avg_completion_hours
+     FROM public.tasks t
+     JOIN public.task_assignments ta ON ta.task_id = t.id
+     WHERE ta.user_id = $1 AND ta.assigned_at::date BETWEEN $2::date AND $3::date`,
+    [employeeId, startDate, endDate]
+  );
+
+  const a = attendance.rows[0] || {};
+  const t = tasks.rows[0] || {};
+  const totalAssigned = Number(t.total_assigned || 0);
+  const completed = Number(t.completed || 0);
+  const totalDays = Number(a.total_days || 0);
+
+  return {
+    totalWorkHours: round2(a.total_hours),
+    tasksCompleted: completed,
+    tasksAssigned: totalAssigned,
+    completionRate: totalAssigned > 0 ? round2((completed / totalAssigned) * 100) : 0,
+    averageCompletionTime: round2(t.avg_completion_hours),
+    attendanceRate: totalDays > 0 ? round2((Number(a.present_days || 0) / totalDays) * 100) : 0,
+    overtimeHours: round2(a.overtime_hours),
+    onTimeCompletionRate: completed > 0 ? round2((Number(t.on_time || 0) / completed) * 100) : 0,
+  };
+}
+
+/**
+ * Get the competency library
+ */
+async function getCompetencies(agencyDatabase, agencyId, includeInactive = false) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const result = await client.query(
+      `SELECT * FROM public.performance_competencies
+       WHERE agency_id = $1 ${includeInactive ? '' : 'AND is_active = true'}
+       ORDER BY sort_order, name`,
+      [agencyId]
+    );
+    return result.rows;
+  } catch (error) {
+    if (error.code === '42P01') {
+      return [];
+    }
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) await client.pool.end();
+  }
+}
+
+/**
+ * Create or update a competency
+ */
+async function saveCompetency(agencyDatabase, agencyId, data, userId, competencyId = null) {
+  if (!data.name || !String(data.name).trim()) {
+    throw new Error('Competency name is required');
+  }
+
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const values = [
+      String(data.name).trim(),
+      data.description || null,
+      data.category || null,
+      parseInt(data.sort_order, 10) || 0,
+      data.is_active !== false,
+    ];
+
+    if (competencyId) {
+      const result = await client.query(
+        `UPDATE public.performance_competencies
+         SET name = $1, description = $2, category = $3, sort_order = $4, is_active = $5, updated_at = NOW()
+         WHERE id = $6 AND agency_id = $7
+         RETURNING *`,
+        [...values, competencyId, agencyId]
+      );
+      if (!result.rows[0]) {
+        throw new Error('Competency not found');
+      }
+      return result.rows[0];
+    }
+
+    const result = await client.query(
+      `INSERT INTO public.performance_competencies (name, description, category, sort_order, is_active, agency_id, created_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       RETURNING *`,
+      [...values, agencyId, userId]
+    );
+    return result.rows[0];
+  } finally {
+    client.release();
+    if (client.pool) await client.pool.end();
+  }
+}
+
+/**
+ * Get review cycles with their progress
+ */
+async function getCycles(agencyDatabase, agencyId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const result = await client.query(
+      `SELECT c.*, d.name AS department_name,
+              (SELECT COUNT(*) FROM public.performance_reviews r WHERE r.cycle_id = c.id)::int AS review_count,
+              (SELECT COUNT(*) FROM public.performance_reviews r WHERE r.cycle_id = c.id AND r.status = 'finalized')::int AS finalized_count,
+              (SELECT COUNT(*) FROM public.performance_feedback f
+               JOIN public.performance_reviews r ON r.id = f.review_id
+               WHERE r.cycle_id = c.id AND f.status <> 'declined')::int AS feedback_count,
+              (SELECT COUNT(*) FROM public.performance_feedback f
+               JOIN public.performance_reviews r ON r.id = f.review_id
+               WHERE r.cycle_id = c.id AND f.status = 'submitted')::int AS feedback_submitted
+       FROM public.performance_review_cycles c
+       LEFT JOIN public.departments d ON d.id = c.department_id
+       WHERE c.agency_id = $1
+       ORDER BY c.period_start DESC, c.created_at DESC`,
+      [agencyId]
+    );
+    return result.rows.map(formatCycle);
+  } catch (error) {
+    if (error.code === '42P01') {
+      return [];
+    }
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) await client.pool.end();
+  }
+}
+
+/**
+ * Validate a rating scale: at least two points with distinct numeric values and labels
+ */
+function normalizeRatingScale(scale) {
+  if (!Array.isArray(scale) || scale.length === 0) {
+    return DEFAULT_RATING_SCALE;
+  }
+  const points = scale.map((point) => ({
+    value: parseFloat(point.value),
+    label: String(point.label || '').trim(),
+    description: point.description || undefined,
+  }));
+  if (points.length < 2 || points.length > 10) {
+    throw new Error('A rating scale needs between 2 and 10 points');
+  }
+  if (points.some((point) => Number.isNaN(point.value) || !point.label)) {
+    throw new Error('Every rating scale point needs a value and a label');
+  }
+  if (new Set(points.map((point) => point.value)).size !== points.length) {
+    throw new Error('Rating scale values must be unique');
+  }
+  return points.sort((a, b) => a.value - b.value);
+}
+
+/**
+ * Create or update a draft review cycle. The chosen competencies are copied onto the cycle.
+ */
+async function saveCycle(agencyDatabase, agencyId, data, userId, cycleId = null) {
+  if (!data.name || !String(data.name).trim()) {
+    throw new Error('Cycle name is required');
+  }
+  if (!CYCLE_TYPES.includes(data.cycle_type)) {
+    throw new Error('Cycle type must be quarterly, half-yearly or annual');
+  }
+  if (!data.period_start || !data.period_end) {
+    throw new Error('Review period start and end dates are required');
+  }
+  if (data.period_end < data.period_start) {
+    throw new Error('Review period end must be on or after its start');
+  }
+  const competencyIds = Array.isArray(data.competency_ids) ? data.competency_ids : [];
+  if (competencyIds.length === 0) {
+    throw new Error('Choose at least one competency to review');
+  }
+  const ratingScale = normalizeRatingScale(data.rating_scale);
+
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    await client.query('BEGIN');
+
+    if (cycleId) {
+      const existing = await loadCycle(client, agencyId, cycleId, true);
+      if (existing.status !== 'draft') {
+        throw new Error('Only draft cycles can be edited');
+      }
+    }
+
+    const competencies = await client.query(
+      `SELECT id, name, description, category
+       FROM public.performance_competencies
+       WHERE agency_id = $1 AND id = ANY($2::uuid[])
+       ORDER BY sort_order, name`,
+      [agencyId, competencyIds]
+    );
+    if (competencies.rows.length !== competencyIds.length) {
+      throw new Error('One or more competencies were not found');
+    }
+
+    const values = [
+      String(data.name).trim(),
+      data.cycle_type,
+      data.period_start,
+      data.period_end,
+      data.self_review_due || null,
+      data.manager_review_due || null,
+      JSON.stringify(competencies.rows),
+      JSON.stringify(ratingScale),
+      data.include_peer_feedback !== false,
+      data.department_id || null,
+    ];
+
+    let result;
+    if (cycleId) {
+      result = await client.query(
+        `UPDATE public.performance_review_cycles
+         SET name = $1, cycle_type = $2, period_start = $3, period_end = $4, self_review_due = $5,
+             manager_review_due = $6, competencies = $7, rating_scale = $8, include_peer_feedback = $9,
+             department_id = $10, updated_at = NOW()
+         WHERE id = $11 AND agency_id = $12
+         RETURNING *`,
+        [...values, cycleId, agencyId]
+      );
+    } else {
+      result = await client.query(
+        `INSERT INTO public.performance_review_cycles (
+          name, cycle_type, period_start, period_end, self_review_due, manager_review_due,
+          competencies, rating_scale, include_peer_feedback, department_id, agency_id, created_by
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+        RETURNING *`,
+        [...values, agencyId, userId]
+      );
+    }
+
+    await client.query('COMMIT');
+    return formatCycle(result.rows[0]);
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) await client.pool.end();
+  }
+}
+
+/**
+ * Delete a draft review cycle
+ */
+async function deleteCycle(agencyDatabase, agencyId, cycleId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const cycle = await loadCycle(client, agencyId, cycleId);
+    if (cycle.status !== 'draft') {
+      throw new Error('Only draft cycles can be deleted');
+    }
+    await client.query('DELETE FROM public.performance_review_cycles WHERE id = $1', [cycleId]);
+    return { id: cycleId };
+  } finally {
+    client.release();
+    if (client.pool) await client.pool.end();
+  }
+}
+
+/**
+ * The employee's reviewing manager: their supervisor, else the manager of their department
+ */
+async function resolveReviewManager(client, employeeId) {
+  const result = await client.query(
+    `SELECT COALESCE(
+       (SELECT sup.user_id
+        FROM public.employee_details ed
+        JOIN public.employee_details sup ON sup.id = ed.supervisor_id
+        WHERE ed.user_id = $1 AND sup.user_id IS NOT NULL AND sup.user_id <> $1
+        LIMIT 1),
+       (SELECT d.manager_id
+        FROM public.team_assignments ta
+        JOIN public.departments d ON d.id = ta.department_id
+        WHERE ta.user_id = $1 AND COALESCE(ta.is_active, true) = true
+          AND d.manager_id IS NOT NULL AND d.manager_id <> $1
+        ORDER BY ta.assigned_at DESC NULLS LAST
+        LIMIT 1)
+     ) AS manager_id`,
+    [employeeId]
+  );
+  return result.rows[0] ? result.rows[0].manager_id : null;
+}
+
+/**
+ * Launch a draft cycle: create a review for every active employee (in the cycle's department, if
+ * set) with a self-assessment and, where the employee has a manager, a manager review
+ */
+async function launchCycle(agencyDatabase, agencyId, cycleId, userId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    await client.query('BEGIN');
+    const cycle = await loadCycle(client, agencyId, cycleId, true);
+    if (cycle.status !== 'draft') {
+      throw new Error(`Cycle is already ${cycle.status}`);
+    }
+
+    const employees = await client.query(
+      `SELECT DISTINCT ON (ed.user_id) ed.user_id,
+              (SELECT ta.department_id FROM public.team_assignments ta
+               WHERE ta.user_id = ed.user_id AND COALESCE(ta.is_active, true) = true
+               ORDER BY ta.assigned_at DESC NULLS LAST LIMIT 1) AS department_id
+       FROM public.employee_details ed
+       WHERE ed.user_id IS NOT NULL AND COALESCE(ed.is_active, true) = true
+         AND (ed.agency_id = $1 OR ed.agency_id IS NULL)`,
+      [agencyId]
+    );
+    const participants = employees.rows.filter(
+      (row) => !cycle.department_id || row.department_id === cycle.department_id
+    );
+    if (participants.length === 0) {
+      throw new Error('No active employees to review in this cycle');
+    }
+
+    const cycleLabel = `${cycle.name} (${toDateString(cycle.period_start)} to ${toDateString(cycle.period_end)})`;
+    const managersNotified = new Set();
+    for (const participant of participants) {
+      const managerId = await resolveReviewManager(client, participant.user_id);
+      const review = await client.query(
+        `INSERT INTO public.performance_reviews (cycle_id, employee_id, manager_id, department_id, agency_id)
+         VALUES ($1, $2, $3, $4, $5)
+         ON CONFLICT (cycle_id, employee_id) DO NOTHING
+         RETURNING id`,
+        [cycleId, participant.user_id, managerId, participant.department_id, agencyId]
+      );
+      if (!review.rows[0]) continue;
+      const reviewId = review.rows[0].id;
+
+      await client.query(
+        `INSERT INTO public.performance_feedback (review_id, reviewer_id, relationship, agency_id, requested_by)
+         VALUES ($1, $2, 'self', $3, $4)`,
+        [reviewId, participant.user_id, agencyId, userId]
+      );
+      await notify(
+        client,
+        agencyId,
+        participant.user_id,
+        'Self-assessment open',
+        `Your self-assessment for ${cycleLabel} is open${cycle.self_review_due ? `, due ${toDateString(cycle.self_review_due)}` : ''}`,
+        { cycle_id: cycleId, review_id: reviewId }
+      );
+
+      if (managerId) {
+        await client.query(
+          `INSERT INTO public.performance_feedback (review_id, reviewer_id, relationship, agency_id, requested_by)
+           VALUES ($1, $2, 'manager', $3, $4)`,
+          [reviewId, managerId, agencyId, userId]
+        );
+        if (!managersNotified.has(managerId)) {
+          managersNotified.add(managerId);
+          await notify(
+            client,
+            agencyId,
+            managerId,
+            'Team reviews open',
+            `Reviews for your team in ${cycleLabel} are open${cycle.manager_review_due ? `, due ${toDateString(cycle.manager_review_due)}` : ''}`,
+            { cycle_id: cycleId }
+          );
+        }
+      }
+    }
+
+    const result = await client.query(
+      `UPDATE public.performance_review_cycles
+       SET status = 'active', launched_at = NOW(), updated_at = NOW()
+       WHERE id = $1
+       RETURNING *`,
+      [cycleId]
+    );
+
+    await client.query('COMMIT');
+    return { ...formatCycle(result.rows[0]), review_count: participants.length };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) await client.pool.end();
+  }
+}
+
+/**
+ * Close feedback collection and open the cycle for calibration
+ */
+async function startCalibration(agencyDatabase, agencyId, cycleId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const cycle = await loadCycle(client, agencyId, cycleId);
+    if (cycle.status !== 'active') {
+      throw new Error('Only active cycles can move to calibration');
+    }
+    const result = await client.query(
+      `UPDATE public.performance_review_cycles SET status = 'calibration', updated_at = NOW() WHERE id = $1 RETURNING *`,
+      [cycleId]
+    );
+    return formatCycle(result.rows[0]);
+  } finally {
+    client.release();
+    if (client.pool) await client.pool.end();
+  }
+}
+
+/**
+ * Close a cycle in calibration: each review's final rating is its calibrated rating, else the
+ * manager's overall rating, and is stored with the performance summary for the cycle period
+ */
+async function closeCycle(agencyDatabase, agencyId, cycleId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    await client.query('BEGIN');
+    const cycle = await loadCycle(client, agencyId, cycleId, true);
+    if (cycle.status !== 'calibration') {
+      throw new Error('Move the cycle to calibration before closing it');
+    }
+
+    const reviews = await client.query(
+      `SELECT r.id, r.employee_id, r.calibrated_rating,
+              (SELECT f.overall_rating FROM public.performance_feedback f
+               WHERE f.review_id = r.id AND f.relationship = 'manager' AND f.status = 'submitted'
+               ORDER BY f.submitted_at DESC LIMIT 1) AS manager_rating
+       FROM public.performance_reviews r
+       WHERE r.cycle_id = $1 AND r.status <> 'finalized'
+       FOR UPDATE OF r`,
+      [cycleId]
+    );
+    const unrated = reviews.rows.filter((row) => row.calibrated_rating === null && row.manager_rating === null);
+    if (unrated.length > 0) {
+      throw new Error(`${unrated.length} review(s) have no manager or calibrated rating yet`);
+    }
+
+    const scale = cycle.rating_scale || [];
+    const periodStart = toDateString(cycle.period_start);
+    const periodEnd = toDateString(cycle.period_end);
+    for (const review of reviews.rows) {
+      const finalRating = round2(review.calibrated_rating !== null ? review.calibrated_rating : review.manager_rating);
+      const summary = await computePerformanceSummary(client, review.employee_id, periodStart, periodEnd);
+      await client.query(
+        `UPDATE public.performance_reviews
+         SET status = 'finalized', final_rating = $2, final_rating_label = $3, performance_summary = $4,
+             finalized_at = NOW(), updated_at = NOW()
+         WHERE id = $1`,
+        [review.id, finalRating, ratingLabel(scale, finalRating), JSON.stringify(summary)]
+      );
+      await notify(
+        client,
+        agencyId,
+        review.employee_id,
+        'Performance review finalized',
+        `Your review for ${cycle.name} has been finalized`,
+        { cycle_id: cycleId, review_id: review.id }
+      );
+    }
+
+    // Feedback nobody got round to no longer counts
+    await client.query(
+      `UPDATE public.performance_feedback f SET status = 'declined', updated_at = NOW()
+       FROM public.performance_reviews r
+       WHERE r.id = f.review_id AND r.cycle_id = $1 AND f.status = 'pending'`,
+      [cycleId]
+    );
+
+    const result = await client.query(
+      `UPDATE public.performance_review_cycles
+       SET status = 'closed', closed_at = NOW(), updated_at = NOW()
+       WHERE id = $1
+       RETURNING *`,
+      [cycleId]
+    );
+
+    await client.query('COMMIT');
+    return { cycle: formatCycle(result.rows[0]), finalized: reviews.rows.length };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) await client.pool.end();
+  }
+}
+
+/**
+ * Get the feedback forms the user has been asked to fill in, open ones first
+ */
+async function getMyFeedbackRequests(agencyDatabase, agencyId, userId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const result = await client.query(
+      `SELECT f.id, f.review_id, f.relationship, f.status, f.overall_rating, f.submitted_at, f.created_at,
+              r.employee_id, p.full_name AS employee_name, c.id AS cycle_id, c.name AS cycle_name,
+              c.status AS cycle_status,
+              CASE WHEN f.relationship = 'self' THEN c.self_review_due ELSE c.manager_review_due END AS due_date
+       FROM public.performance_feedback f
+       JOIN public.performance_reviews r ON r.id = f.review_id
+       JOIN public.performance_review_cycles c ON c.id = r.cycle_id
+       LEFT JOIN public.profiles p ON p.user_id = r.employee_id
+       WHERE f.reviewer_id = $1 AND f.agency_id = $2 AND c.status IN ('active', 'calibration')
+       ORDER BY (f.status = 'pending') DESC, due_date NULLS LAST, employee_name`,
+      [userId, agencyId]
+    );
+    return result.rows.map((row) => ({ ...row, due_date: toDateString(row.due_date) }));
+  } catch (error) {
+    if (error.code === '42P01') {
+      return [];
+    }
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) await client.pool.end();
+  }
+}
+
+/**
+ * Get the employee's goals, with the cycle they belong to
+ */
+async function loadGoals(client, agencyId, employeeId, cycleId) {
+  const params = [agencyId, employeeId];
+  let cycleCondition = '';
+  if (cycleId) {
+    params.push(cycleId);
+    cycleCondition = `AND g.cycle_id = $${params.length}`;
+  }
+  const result = await client.query(
+    `SELECT g.*, c.name AS cycle_name,
+            (SELECT MAX(ci.created_at) FROM public.performance_goal_checkins ci WHERE ci.goal_id = g.id) AS last_checkin_at
+     FROM public.performance_goals g
+     LEFT JOIN public.performance_review_cycles c ON c.id = g.cycle_id
+     WHERE g.agency_id = $1 AND g.employee_id = $2 ${cycleCondition}
+     ORDER BY (g.status IN ('completed', 'cancelled')), g.due_date NULLS LAST, g.created_at`,
+    params
+  );
+  return result.rows.map((goal) => ({ ...goal, due_date: toDateString(goal.due_date) }));
+}
+
+/**
+ * Get a feedback form for its reviewer, with the cycle's competencies and scale and the employee's
+ * goals for context
+ */
+async function getFeedbackForm(agencyDatabase, agencyId, feedbackId, userId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const result = await client.query(
+      `SELECT f.*, r.employee_id, r.cycle_id, p.full_name AS employee_name
+       FROM public.performance_feedback f
+       JOIN public.performance_reviews r ON r.id = f.review_id
+       LEFT JOIN public.profiles p ON p.user_id = r.employee_id
+       WHERE f.id = $1 AND f.agency_id = $2`,
+      [feedbackId, agencyId]
+    );
+    const feedback = result.rows[0];
+    if (!feedback) {
+      throw new Error('Feedback form not found');
+    }
+    if (feedback.reviewer_id !== userId) {
+      throw new Error('This feedback form is assigned to someone else');
+    }
+
+    const cycle = await loadCycle(client, agencyId, feedback.cycle_id);
+    // Peers rate what they have seen; goals are between the employee and their manager
+    const goals =
+      feedback.relationship === 'peer' ? [] : await loadGoals(client, agencyId, feedback.employee_id, feedback.cycle_id);
+    return { feedback, cycle: formatCycle(cycle), goals };
+  } finally {
+    client.release();
+    if (client.pool) await client.pool.end();
+  }
+}
+
+/**
+ * Submit a feedback form. Every competency and the overall rating must be on the cycle's scale.
+ * Forms can be revised until the review is calibrated.
+ */
+async function submitFeedback(agencyDatabase, agencyId, feedbackId, data, userId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    await client.query('BEGIN');
+    const result = await client.query(
+      `SELECT f.*, r.cycle_id, r.status AS review_status
+       FROM public.performance_feedback f
+       JOIN public.performance_reviews r ON r.id = f.review_id
+       WHERE f.id = $1 AND f.agency_id = $2
+       FOR UPDATE OF f`,
+      [feedbackId, agencyId]
+    );
+    const feedback = result.rows[0];
+    if (!feedback) {
+      throw new Error('Feedback form not found');
+    }
+    if (feedback.reviewer_id !== userId) {
+      throw new Error('This feedback form is assigned to someone else');
+    }
+    if (feedback.status === 'declined') {
+      throw new Error('This feedback request was declined');
+    }
+    if (feedback.review_status !== 'in_progress') {
+      throw new Error('This review has been calibrated and can no longer be changed');
+    }
+
+    const cycle = await loadCycle(client, agencyId, feedback.cycle_id);
+    if (cycle.status !== 'active') {
+      throw new Error('Feedback for this cycle is closed');
+    }
+
+    const scaleValues = (cycle.rating_scale || []).map((point) => Number(point.value));
+    const ratings = {};
+    for (const competency of cycle.competencies || []) {
+      const value = data.ratings ? parseFloat(data.ratings[competency.id]) : NaN;
+      if (!scaleValues.includes(value)) {
+        throw new Error(`Rate ${competency.name} on the cycle's rating scale`);
+      }
+      ratings[competency.id] = value;
+    }
+    const overall = parseFloat(data.overall_rating);
+    if (!scaleValues.includes(overall)) {
+      throw new Error('Choose an overall rating on the cycle\'s rating scale');
+    }
+
+    const updated = await client.query(
+      `UPDATE public.performance_feedback
+       SET ratings = $2, overall_rating = $3, strengths = $4, improvements = $5, comments = $6,
+           status = 'submitted', submitted_at = NOW(), updated_at = NOW()
+       WHERE id = $1
+       RETURNING *`,
+      [feedbackId, JSON.stringify(ratings), overall, data.strengths || null, data.improvements || null, data.comments || null]
+    );
+
+    await client.query('COMMIT');
+    return updated.rows[0];
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) await client.pool.end();
+  }
+}
+
+/**
+ * Decline a peer feedback request
+ */
+async function declineFeedback(agencyDatabase, agencyId, feedbackId, reason, userId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const result = await client.query(
+      `UPDATE public.performance_feedback
+       SET status = 'declined', comments = $4, updated_at = NOW()
+       WHERE id = $1 AND agency_id = $2 AND reviewer_id = $3 AND relationship = 'peer' AND status = 'pending'
+       RETURNING *`,
+      [feedbackId, agencyId, userId, reason || null]
+    );
+    if (!result.rows[0]) {
+      throw new Error('Only pending peer feedback requests can be declined');
+    }
+    return result.rows[0];
+  } finally {
+    client.release();
+    if (client.pool) await client.pool.end();
+  }
+}
+
+/**
+ * Ask colleagues for peer feedback on a review. The employee, their manager and HR can ask.
+ */
+async function requestPeerFeedback(agencyDatabase, agencyId, reviewId, reviewerIds, userId) {
+  const requested = [...new Set(Array.isArray(reviewerIds) ? reviewerIds : [])];
+  if (requested.length === 0) {
+    throw new Error('Choose at least one colleague');
+  }
+
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    await client.query('BEGIN');
+    const result = await client.query(
+      `SELECT r.*, p.full_name AS employee_name
+       FROM public.performance_reviews r
+       LEFT JOIN public.profiles p ON p.user_id = r.employee_id
+       WHERE r.id = $1 AND r.agency_id = $2
+       FOR UPDATE OF r`,
+      [reviewId, agencyId]
+    );
+    const review = result.rows[0];
+    if (!review) {
+      throw new Error('Review not found');
+    }
+    if (review.employee_id !== userId && review.manager_id !== userId && !(await isReviewAdmin(client, userId))) {
+      throw new Error('Only the employee, their manager or HR can ask for peer feedback');
+    }
+
+    const cycle = await loadCycle(client, agencyId, review.cycle_id);
+    if (cycle.status !== 'active') {
+      throw new Error('Feedback for this cycle is closed');
+    }
+    if (!cycle.include_peer_feedback) {
+      throw new Error('This cycle does not collect peer feedback');
+    }
+    if (requested.includes(review.employee_id)) {
+      throw new Error('Employees give their own view in the self-assessment');
+    }
+
+    const existing = await client.query(
+      `SELECT reviewer_id FROM public.performance_feedback
+       WHERE review_id = $1 AND relationship = 'peer' AND status <> 'declined'`,
+      [reviewId]
+    );
+    const existingIds = existing.rows.map((row) => row.reviewer_id);
+    const newIds = requested.filter((id) => !existingIds.includes(id));
+    if (existingIds.length + newIds.length > MAX_PEER_REVIEWERS) {
+      throw new Error(`A review can have at most ${MAX_PEER_REVIEWERS} peer reviewers`);
+    }
+
+    for (const reviewerId of newIds) {
+      await client.query(
+        `INSERT INTO public.performance_feedback (review_id, reviewer_id, relationship, agency_id, requested_by)
+         VALUES ($1, $2, 'peer', $3, $4)
+         ON CONFLICT (review_id, reviewer_id, relationship)
+         DO UPDATE SET status = 'pending', comments = NULL, requested_by = EXCLUDED.requested_by, updated_at = NOW()`,
+        [reviewId, reviewerId, agencyId, userId]
+      );
+      await notify(
+        client,
+        agencyId,
+        reviewerId,
+        'Peer feedback requested',
+        `Please share feedback on ${review.employee_name || 'a colleague'} for ${cycle.name}`,
+        { cycle_id: cycle.id, review_id: reviewId }
+      );
+    }
+
+    await client.query('COMMIT');
+    return { requested: newIds.length };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) await client.pool.end();
+  }
+}
+
+/**
+ * Get reviews. `scope` 'mine' lists the user's own reviews, 'team' the reviews they manage;
+ * HR can list any employee's.
+ */
+async function getReviews(agencyDatabase, agencyId, userId, filters = {}) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const conditions = ['r.agency_id = $1'];
+    const params = [agencyId];
+
+    if (filters.employee_id && filters.employee_id !== userId) {
+      const admin = await isReviewAdmin(client, userId);
+      params.push(filters.employee_id);
+      conditions.push(`r.employee_id = $${params.length}`);
+      if (!admin) {
+        params.push(userId);
+        conditions.push(`r.manager_id = $${params.length}`);
+      }
+    } else if (filters.scope === 'team') {
+      params.push(userId);
+      conditions.push(`r.manager_id = $${params.length}`);
+    } else {
+      params.push(userId);
+      conditions.push(`r.employee_id = $${params.length}`);
+    }
+    if (filters.cycle_id) {
+      params.push(filters.cycle_id);
+      conditions.push(`r.cycle_id = $${params.length}`);
+    }
+    if (filters.status) {
+      params.push(filters.status);
+      conditions.push(`r.status = $${params.length}`);
+    }
+
+    const result = await client.query(
+      `SELECT r.*, p.full_name AS employee_name, m.full_name AS manager_name, d.name AS department_name,
+              c.name AS cycle_name, c.cycle_type, c.period_start, c.period_end, c.status AS cycle_status,
+              (SELECT f.status FROM public.performance_feedback f WHERE f.review_id = r.id AND f.relationship = 'self' LIMIT 1) AS self_status,
+              (SELECT f.status FROM public.performance_feedback f WHERE f.review_id = r.id AND f.relationship = 'manager' LIMIT 1) AS manager_status,
+              (SELECT COUNT(*) FROM public.performance_feedback f
+               WHERE f.review_id = r.id AND f.relationship = 'peer' AND f.status <> 'declined')::int AS peer_requested,
+              (SELECT COUNT(*) FROM public.performance_feedback f
+               WHERE f.review_id = r.id AND f.relationship = 'peer' AND f.status = 'submitted')::int AS peer_submitted
+       FROM public.performance_reviews r
+       JOIN public.performance_review_cycles c ON c.id = r.cycle_id
+       LEFT JOIN public.profiles p ON p.user_id = r.employee_id
+       LEFT JOIN public.profiles m ON m.user_id = r.manager_id
+       LEFT JOIN public.departments d ON d.id = r.department_id
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY c.period_end DESC, employee_name`,
+      params
+    );
+
+    return result.rows.map((row) => ({
+      ...row,
+      period_start: toDateString(row.period_start),
+      period_end: toDateString(row.period_end),
+      final_rating: numberOrNull(row.final_rating),
+      calibrated_rating: numberOrNull(row.calibrated_rating),
+    }));
+  } catch (error) {
+    if (error.code === '42P01') {
+      return [];
+    }
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) await client.pool.end();
+  }
+}
+
+/**
+ * Get a review with its feedback. Employees see their review once it is finalized, with peer
+ * feedback unattributed; managers, department heads and HR see it throughout.
+ */
+async function getReviewDetail(agencyDatabase, agencyId, reviewId, userId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const result = await client.query(
+      `SELECT r.*, p.full_name AS employee_name, m.full_name AS manager_name, d.name AS department_name,
+              d.manager_id AS department_head_id, cb.full_name AS calibrated_by_name
+       FROM public.performance_reviews r
+       LEFT JOIN public.profiles p ON p.user_id = r.employee_id
+       LEFT JOIN public.profiles m ON m.user_id = r.manager_id
+       LEFT JOIN public.departments d ON d.id = r.department_id
+       LEFT JOIN public.profiles cb ON cb.user_id = r.calibrated_by
+       WHERE r.id = $1 AND r.agency_id = $2`,
+      [reviewId, agencyId]
+    );
+    const review = result.rows[0];
+    if (!review) {
+      throw new Error('Review not found');
+    }
+
+    const isEmployee = review.employee_id === userId;
+    const isReviewer =
+      review.manager_id === userId || review.department_head_id === userId || (await isReviewAdmin(client, userId));
+    if (!isEmployee && !isReviewer) {
+      throw new Error('You do not have access to this review');
+    }
+    if (!isReviewer && review.status !== 'finalized') {
+      throw new Error('Your review will be available once it is finalized');
+    }
+
+    const cycle = await loadCycle(client, agencyId, review.cycle_id);
+    const feedback = await client.query(
+      `SELECT f.*, p.full_name AS reviewer_name
+       FROM public.performance_feedback f
+       LEFT JOIN public.profiles p ON p.user_id = f.reviewer_id
+       WHERE f.review_id = $1
+       ORDER BY CASE f.relationship WHEN 'self' THEN 0 WHEN 'manager' THEN 1 ELSE 2 END, f.created_at`,
+      [reviewId]
+    );
+    const goals = await loadGoals(client, agencyId, review.employee_id, review.cycle_id);
+
+    const visibleFeedback = feedback.rows
+      .filter((item) => isReviewer || item.status === 'submitted')
+      .map((item) =>
+        !isReviewer && item.relationship === 'peer'
+          ? { ...item, reviewer_id: null, reviewer_name: null, requested_by: null }
+          : item
+      );
+
+    // Until the review is finalized the summary is computed live for the cycle period
+    const performanceSummary =
+      review.performance_summary ||
+      (await computePerformanceSummary(
+        client,
+        review.employee_id,
+        toDateString(cycle.period_start),
+        toDateString(cycle.period_end)
+      ));
+
+    return {
+      review: {
+        ...review,
+        final_rating: numberOrNull(review.final_rating),
+        calibrated_rating: numberOrNull(review.calibrated_rating),
+        performance_summary: performanceSummary,
+      },
+      cycle: formatCycle(cycle),
+      feedback: visibleFeedback,
+      goals,
+    };
+  } finally {
+    client.release();
+    if (client.pool) await client.pool.end();
+  }
+}
+
+/**
+ * Departments whose reviews the user calibrates, or null for every department
+ */
+async function getCalibrationScope(client, agencyId, userId) {
+  if (await isReviewAdmin(client, userId)) {
+    return null;
+  }
+  const result = await client.query(
+    `SELECT id FROM public.departments WHERE manager_id = $1 AND (agency_id = $2 OR agency_id IS NULL)`,
+    [userId, agencyId]
+  );
+  if (result.rows.length === 0) {
+    throw new Error('Calibration is open to department heads and HR');
+  }
+  return result.rows.map((row) => row.id);
+}
+
+/**
+ * Get the calibration view for a cycle: every review in scope with its self, manager and average
+ * peer ratings, the computed metrics for the period, and the rating distribution
+ */
+async function getCalibration(agencyDatabase, agencyId, cycleId, userId, filters = {}) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const cycle = await loadCycle(client, agencyId, cycleId);
+    const departments = await getCalibrationScope(client, agencyId, userId);
+
+    const conditions = ['r.cycle_id = $1'];
+    const params = [cycleId];
+    if (departments) {
+      params.push(departments);
+      conditions.push(`r.department_id = ANY($${params.length}::uuid[])`);
+    }
+    if (filters.department_id) {
+      params.push(filters.department_id);
+      conditions.push(`r.department_id = $${params.length}`);
+    }
+
+    const result = await client.query(
+      `SELECT r.id, r.employee_id, r.manager_id, r.department_id, r.status, r.calibrated_rating,
+              r.calibration_notes, r.final_rating, r.final_rating_label, r.performance_summary,
+              p.full_name AS employee_name, m.full_name AS manager_name, d.name AS department_name,
+              (SELECT f.overall_rating FROM public.performance_feedback f
+               WHERE f.review_id = r.id AND f.relationship = 'self' AND f.status = 'submitted' LIMIT 1) AS self_rating,
+              (SELECT f.overall_rating FROM public.performance_feedback f
+               WHERE f.review_id = r.id AND f.relationship = 'manager' AND f.status = 'submitted' LIMIT 1) AS manager_rating,
+              (SELECT AVG(f.overall_rating) FROM public.performance_feedback f
+               WHERE f.review_id = r.id AND f.relationship = 'peer' AND f.status = 'submitted') AS peer_rating,
+              (SELECT COUNT(*) FROM public.performance_feedback f
+               WHERE f.review_id = r.id AND f.relationship = 'peer' AND f.status = 'submitted')::int AS peer_count
+       FROM public.performance_reviews r
+       LEFT JOIN public.profiles p ON p.user_id = r.employee_id
+       LEFT JOIN public.profiles m ON m.user_id = r.manager_id
+       LEFT JOIN public.departments d ON d.id = r.department_id
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY department_name NULLS LAST, employee_name`,
+      params
+    );
+
+    const periodStart = toDateString(cycle.period_start);
+    const periodEnd = toDateString(cycle.period_end);
+    const rows = [];
+    for (const row of result.rows) {
+      rows.push({
+        ...row,
+        self_rating: numberOrNull(row.self_rating),
+        manager_rating: numberOrNull(row.manager_rating),
+        peer_rating: numberOrNull(row.peer_rating),
+        calibrated_rating: numberOrNull(row.calibrated_rating),
+        final_rating: numberOrNull(row.final_rating),
+        performance_summary:
+          row.performance_summary || (await computePerformanceSummary(client, row.employee_id, periodStart, periodEnd)),
+      });
+    }
+
+    const scale = cycle.rating_scale || [];
+    const distribution = scale.map((point) => ({
+      value: point.value,
+      label: point.label,
+      manager: rows.filter((row) => ratingLabel(scale, row.manager_rating) === point.label).length,
+      calibrated: rows.filter(
+        (row) =>
+          ratingLabel(scale, row.final_rating ?? row.calibrated_rating ?? row.manager_rating) === point.label
+      ).length,
+    }));
+
+    return { cycle: formatCycle(cycle), reviews: rows, distribution };
+  } finally {
+    client.release();
+    if (client.pool) await client.pool.end();
+  }
+}
+
+/**
+ * Set a review's calibrated rating while its cycle is in calibration. Clearing the rating puts
+ * the manager's rating back in force.
+ */
+async function calibrateReview(agencyDatabase, agencyId, reviewId, data, userId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    await client.query('BEGIN');
+    const result = await client.query(
+      `SELECT * FROM public.performance_reviews WHERE id = $1 AND agency_id = $2 FOR UPDATE`,
+      [reviewId, agencyId]
+    );
+    const review = result.rows[0];
+    if (!review) {
+      throw new Error('Review not found');
+    }
+    const departments = await getCalibrationScope(client, agencyId, userId);
+    if (departments && !departments.includes(review.department_id)) {
+      throw new Error('You can only calibrate reviews in departments you head');
+    }
+    if (review.employee_id === userId) {
+      throw new Error('You cannot calibrate your own review');
+    }
+
+    const cycle = await loadCycle(client, agencyId, review.cycle_id);
+    if (cycle.status !== 'calibration') {
+      throw new Error('Ratings can only be calibrated while the cycle is in calibration');
+    }
+
+    let rating = null;
+    if (data.calibrated_rating !== null && data.calibrated_rating !== undefined && data.calibrated_rating !== '') {
+      rating = parseFloat(data.calibrated_rating);
+      if (!(cycle.rating_scale || []).some((point) => Number(point.value) === rating)) {
+        throw new Error('Calibrated rating must be on the cycle\'s rating scale');
+      }
+    }
+    if (rating !== null && !data.calibration_notes) {
+      throw new Error('Note why the rating was calibrated');
+    }
+
+    const updated = await client.query(
+      `UPDATE public.performance_reviews
+       SET calibrated_rating = $2, calibration_notes = $3, calibrated_by = $4, calibrated_at = NOW(),
+           status = $5, updated_at = NOW()
+       WHERE id = $1
+       RETURNING *`,
+      [
+        reviewId,
+        rating,
+        rating === null ? null : data.calibration_notes,
+        rating === null ? null : userId,
+        rating === null ? 'in_progress' : 'calibrated',
+      ]
+    );
+
+    await client.query('COMMIT');
+    return updated.rows[0];
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) await client.pool.end();
+  }
+}
+
+/**
+ * Get an employee's goals. Employees see their own; their manager and HR see their team's.
+ */
+async function getGoals(agencyDatabase, agencyId, userId, filters = {}) {
+  const employeeId = filters.employee_id || userId;
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    if (employeeId !== userId) {
+      await assertCanManageGoals(client, agencyId, employeeId, userId);
+    }
+    return await loadGoals(client, agencyId, employeeId, filters.cycle_id);
+  } catch (error) {
+    if (error.code === '42P01') {
+      return [];
+    }
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) await client.pool.end();
+  }
+}
+
+async function assertCanManageGoals(client, agencyId, employeeId, userId) {
+  if (employeeId === userId) return;
+  const managerId = await resolveReviewManager(client, employeeId);
+  if (managerId !== userId && !(await isReviewAdmin(client, userId))) {
+    throw new Error('You can only manage goals for yourself or your team');
+  }
+}
+
+function normalizeKeyResults(keyResults) {
+  if (!Array.isArray(keyResults)) return [];
+  return keyResults
+    .filter((keyResult) => keyResult && String(keyResult.title || '').trim())
+    .map((keyResult) => ({
+      title: String(keyResult.title).trim(),
+      target: keyResult.target === '' || keyResult.target === undefined ? null : parseFloat(keyResult.target),
+      current: parseFloat(keyResult.current) || 0,
+      unit: keyResult.unit || null,
+    }));
+}
+
+/**
+ * Progress of an OKR from its key results, each capped at 100%
+ */
+function keyResultProgress(keyResults) {
+  const measurable = keyResults.filter((keyResult) => keyResult.target);
+  if (measurable.length === 0) return null;
+  const total = measurable.reduce(
+    (sum, keyResult) => sum + Math.min(100, Math.max(0, (keyResult.current / keyResult.target) * 100)),
+    0
+  );
+  return round2(total / measurable.length);
+}
+
+/**
+ * Create or update a goal
+ */
+async function saveGoal(agencyDatabase, agencyId, data, userId, goalId = null) {
+  if (!data.title || !String(data.title).trim()) {
+    throw new Error('Goal title is required');
+  }
+  const goalType = data.goal_type === 'okr' ? 'okr' : 'goal';
+  const keyResults = goalType === 'okr' ? normalizeKeyResults(data.key_results) : [];
+  if (goalType === 'okr' && keyResults.length === 0) {
+    throw new Error('An OKR needs at least one key result');
+  }
+
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    let employeeId = data.employee_id || userId;
+    if (goalId) {
+      const existing = await client.query(
+        `SELECT employee_id FROM public.performance_goals WHERE id = $1 AND agency_id = $2`,
+        [goalId, agencyId]
+      );
+      if (!existing.rows[0]) {
+        throw new Error('Goal not found');
+      }
+      employeeId = existing.rows[0].employee_id;
+    }
+    await assertCanManageGoals(client, agencyId, employeeId, userId);
+
+    const values = [
+      String(data.title).trim(),
+      data.description || null,
+      goalType,
+      JSON.stringify(keyResults),
+      parseFloat(data.weight) || 0,
+      data.due_date || null,
+      data.cycle_id || null,
+    ];
+
+    if (goalId) {
+      const result = await client.query(
+        `UPDATE public.performance_goals
+         SET title = $1, description = $2, goal_type = $3, key_results = $4, weight = $5, due_date = $6,
+             cycle_id = $7, progress = COALESCE($8, progress), updated_at = NOW()
+         WHERE id = $9
+         RETURNING *`,
+        [...values, keyResultProgress(keyResults), goalId]
+      );
+      return { ...result.rows[0], due_date: toDateString(result.rows[0].due_date) };
+    }
+
+    const result = await client.query(
+      `INSERT INTO public.performance_goals (
+        title, description, goal_type, key_results, weight, due_date, cycle_id, progress,
+        employee_id, agency_id, created_by
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+      RETURNING *`,
+      [...values, keyResultProgress(keyResults) || 0, employeeId, agencyId, userId]
+    );
+    return { ...result.rows[0], due_date: toDateString(result.rows[0].due_date) };
+  } finally {
+    client.release();
+    if (client.pool) await client.pool.end();
+  }
+}
+
+/**
+ * Delete a goal
+ */
+async function deleteGoal(agencyDatabase, agencyId, goalId, userId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const existing = await client.query(
+      `SELECT employee_id FROM public.performance_goals WHERE id = $1 AND agency_id = $2`,
+      [goalId, agencyId]
+    );
+    if (!existing.rows[0]) {
+      throw new Error('Goal not found');
+    }
+    await assertCanManageGoals(client, agencyId, existing.rows[0].employee_id, userId);
+    await client.query('DELETE FROM public.performance_goals WHERE id = $1', [goalId]);
+    return { id: goalId };
+  } finally {
+    client.release();
+    if (client.pool) await client.pool.end();
+  }
+}
+
+/**
+ * Record a progress check-in on a goal. For OKRs the progress follows the key results' current values.
+ */
+async function addGoalCheckin(agencyDatabase, agencyId, goalId, data, userId) {
+  if (!GOAL_STATUSES.includes(data.status)) {
+    throw new Error('Invalid goal status');
+  }
+
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    await client.query('BEGIN');
+    const result = await client.query(
+      `SELECT * FROM public.performance_goals WHERE id = $1 AND agency_id = $2 FOR UPDATE`,
+      [goalId, agencyId]
+    );
+    const goal = result.rows[0];
+    if (!goal) {
+      throw new Error('Goal not found');
+    }
+    await assertCanManageGoals(client, agencyId, goal.employee_id, userId);
+
+    let keyResults = null;
+    let progress = parseFloat(data.progress);
+    if (goal.goal_type === 'okr' && Array.isArray(data.key_results)) {
+      keyResults = (goal.key_results || []).map((keyResult, index) => ({
+        ...keyResult,
+        current:
+          data.key_results[index] !== undefined ? parseFloat(data.key_results[index].current) || 0 : keyResult.current,
+      }));
+      const computed = keyResultProgress(keyResults);
+      if (computed !== null) progress = computed;
+    }
+    if (data.status === 'completed') progress = 100;
+    if (Number.isNaN(progress) || progress < 0 || progress > 100) {
+      throw new Error('Progress must be between 0 and 100');
+    }
+
+    const checkin = await client.query(
+      `INSERT INTO public.performance_goal_checkins (goal_id, progress, status, key_results, note, agency_id, created_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       RETURNING *`,
+      [goalId, progress, data.status, keyResults ? JSON.stringify(keyResults) : null, data.note || null, agencyId, userId]
+    );
+    await client.query(
+      `UPDATE public.performance_goals
+       SET progress = $2, status = $3, key_results = COALESCE($4, key_results), updated_at = NOW()
+       WHERE id = $1`,
+      [goalId, progress, data.status, keyResults ? JSON.stringify(keyResults) : null]
+    );
+
+    await client.query('COMMIT');
+    return checkin.rows[0];
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) await client.pool.end();
+  }
+}
+
+/**
+ * Get a goal's check-ins, newest first
+ */
+async function getGoalCheckins(agencyDatabase, agencyId, goalId, userId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const goal = await client.query(
+      `SELECT employee_id FROM public.performance_goals WHERE id = $1 AND agency_id = $2`,
+      [goalId, agencyId]
+    );
+    if (!goal.rows[0]) {
+      throw new Error('Goal not found');
+    }
+    await assertCanManageGoals(client, agencyId, goal.rows[0].employee_id, userId);
+
+    const result = await client.query(
+      `SELECT ci.*, p.full_name AS created_by_name
+       FROM public.performance_goal_checkins ci
+       LEFT JOIN public.profiles p ON p.user_id = ci.created_by
+       WHERE ci.goal_id = $1
+       ORDER BY ci.created_at DESC`,
+      [goalId]
+    );
+    return result.rows;
+  } finally {
+    client.release();
+    if (client.pool) await client.pool.end();
+  }
+}
+
+module.exports = {
+  DEFAULT_RATING_SCALE,
+  getCompetencies,
+  saveCompetency,
+  getCycles,
+  saveCycle,
+  deleteCycle,
+  launchCycle,
+  startCalibration,
+  closeCycle,
+  getMyFeedbackRequests,
+  getFeedbackForm,
+  submitFeedback,
+  declineFeedback,
+  requestPeerFeedback,
+  getReviews,
+  getReviewDetail,
+  getCalibration,
+  calibrateReview,
+  getGoals,
+  saveGoal,
+  deleteGoal,
+  addGoalCheckin,
+  getGoalCheckins,
+};
@@ -6,6 +6,8 @@
 const { parseDatabaseUrl } = require('../utils/poolManager');
 const { Pool } = require('pg');
 const crypto = require('crypto');
+const currencyService = require('./currencyService');
+const vendorContractService = require('./vendorContractService');
 
 // Generate UUID v4
 function generateUUID() {
@@ -25,22 +27,30 @@ async function getAgencyConnection(agencyDatabase) {
   return client;
 }
 
+/**
+ * Next requisition number, counted on the given client so requisitions created
+ * earlier in the same transaction are included
+ */
+async function nextRequisitionNumber(client, agencyId) {
+  const year = new Date().getFullYear();
+  const result = await client.query(
+    `SELECT COUNT(*) as count 
+     FROM public.purchase_requisitions 
+     WHERE agency_id = $1 
+     AND requisition_number LIKE $2`,
+    [agencyId, `PR-${year}-%`]
+  );
+  const count = parseInt(result.rows[0].count) + 1;
+  return `PR-${year}-${String(count).padStart(5, '0')}`;
+}
+
 /**
  * Generate requisition number
  */
 async function generateRequisitionNumber(agencyDatabase, agencyId) {
   const client = await getAgencyConnection(agencyDatabase);
   try {
-    const year = new Date().getFullYear();
-    const result = await client.query(
-      `SELECT COUNT(*) as count 
-       FROM public.purchase_requisitions 
-       WHERE agency_id = $1 
-       AND requisition_number LIKE $2`,
-      [agencyId, `PR-${year}-%`]
-    );
-    const count = parseInt(result.rows[0].count) + 1;
-    return `PR-${year}-${String(count).padStart(5, '0')}`;
+    return await nextRequisitionNumber(client, agencyId);
   } finally {
     client.release();
     if (client.pool) {
@@ -49,22 +59,30 @@ async function generateRequisitionNumber(agencyDatabase, agencyId) {
   }
 }
 
+/**
+ * Next PO number, counted on the given client so orders created earlier in the
+ * same transaction are included
+ */
+async function nextPONumber(client, agencyId) {
+  const year = new Date().getFullYear();
+  const result = await client.query(
+    `SELECT COUNT(*) as count 
+     FROM public.purchase_orders 
+     WHERE agency_id = $1 
+     AND po_number LIKE $2`,
+    [agencyId, `PO-${year}-%`]
+  );
+  const count = parseInt(result.rows[0].count) + 1;
+  return `PO-${year}-${String(count).padStart(5, '0')}`;
+}
+
 /**
  * Generate PO number
  */
 async function generatePONumber(agencyDatabase, agencyId) {
   const client = await getAgencyConnection(agencyDatabase);
   try {
-    const year = new Date().getFullYear();
-    const result = await client.query(
-      `SELECT COUNT(*) as count 
-       FROM public.purchase_orders 
-       WHERE agency_id = $1 
-       AND po_number LIKE $2`,
-      [agencyId, `PO-${year}-%`]
-    );
-    const count = parseInt(result.rows[0].count) + 1;
-    return `PO-${year}-${String(count).padStart(5, '0')}`;
+    return await nextPONumber(client, agencyId);
   } finally {
     client.release();
     if (client.pool) {
@@ -97,6 +115,75 @@ async function generateGRNNumber(agencyDatabase, agencyId) {
   }
 }
 
+/**
+ * Insert a purchase requisition and its items on an open transaction
+ */
+async function insertPurchaseRequisition(client, requisitionData, userId) {
+  // Generate requisition number
+  const requisitionNumber = await nextRequisitionNumber(client, requisitionData.agency_id);
+
+  // Create requisition
+  const requisitionResult = await client.query(
+    `INSERT INTO public.purchase_requisitions (
+      id, agency_id, requisition_number, requested_by, department_id,
+      status, priority, required_date, notes, supplier_id, source, created_at, updated_at
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, NOW(), NOW())
+    RETURNING *`,
+    [
+      generateUUID(),
+      requisitionData.agency_id,
+      requisitionNumber,
+      userId,
+      requisitionData.department_id || null,
+      requisitionData.status || 'draft',
+      requisitionData.priority || 'normal',
+      requisitionData.required_date || null,
+      requisitionData.notes || null,
+      requisitionData.supplier_id || null,
+      requisitionData.source || 'manual',
+    ]
+  );
+
+  const requisition = requisitionResult.rows[0];
+  let totalAmount = 0;
+
+  // Create requisition items
+  if (requisitionData.items && requisitionData.items.length > 0) {
+    for (const item of requisitionData.items) {
+      const itemResult = await client.query(
+        `INSERT INTO public.purchase_requisition_items (
+          id, requisition_id, product_id, description, quantity,
+          unit_price, unit_of_measure, notes, warehouse_id, created_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, NOW())
+        RETURNING *`,
+        [
+          generateUUID(),
+          requisition.id,
+          item.product_id || null,
+          item.description,
+          item.quantity,
+          item.unit_price || null,
+          item.unit_of_measure || 'pcs',
+          item.notes || null,
+          item.warehouse_id || null,
+        ]
+      );
+      // Calculate total for this item (total_price is a generated column, calculate manually)
+      const itemTotal = parseFloat(item.quantity || 0) * parseFloat(item.unit_price || 0);
+      totalAmount += itemTotal;
+    }
+
+    // Update requisition total
+    await client.query(
+      'UPDATE public.purchase_requisitions SET total_amount = $1 WHERE id = $2',
+      [totalAmount, requisition.id]
+    );
+    requisition.total_amount = totalAmount;
+  }
+
+  return requisition;
+}
+
 /**
  * Create purchase requisition
  */
@@ -104,66 +191,7 @@ async function createPurchaseRequisition(agencyDatabase, requisitionData, userId
   const client = await getAgencyConnection(agencyDatabase);
   try {
     await client.query('BEGIN');
-
-    // Generate requisition number
-    const requisitionNumber = await generateRequisitionNumber(agencyDatabase, requisitionData.agency_id);
-
-    // Create requisition
-    const requisitionResult = await client.query(
-      `INSERT INTO public.purchase_requisitions (
-        id, agency_id, requisition_number, requested_by, department_id,
-        status, priority, required_date, notes, created_at, updated_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, NOW(), NOW())
-      RETURNING *`,
-      [
-        generateUUID(),
-        requisitionData.agency_id,
-        requisitionNumber,
-        userId,
-        requisitionData.department_id || null,
-        requisitionData.status || 'draft',
-        requisitionData.priority || 'normal',
-        requisitionData.required_date || null,
-        requisitionData.notes || null,
-      ]
-    );
-
-    const requisition = requisitionResult.rows[0];
-    let totalAmount = 0;
-
-    // Create requisition items
-    if (requisitionData.items && requisitionData.items.length > 0) {
-      for (const item of requisitionData.items) {
-        const itemResult = await client.query(
-          `INSERT INTO public.purchase_requisition_items (
-            id, requisition_id, product_id, description, quantity,
-            unit_price, unit_of_measure, notes, created_at
-          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW())
-          RETURNING *`,
-          [
-            generateUUID(),
-            requisition.id,
-            item.product_id || null,
-            item.description,
-            item.quantity,
-            item.unit_price || null,
-            item.unit_of_measure || 'pcs',
-            item.notes || null,
-          ]
-        );
-        // Calculate total for this item (total_price is a generated column, calculate manually)
-        const itemTotal = parseFloat(item.quantity || 0) * parseFloat(item.unit_price || 0);
-        totalAmount += itemTotal;
-      }
-
-      // Update requisition total
-      await client.query(
-        'UPDATE public.purchase_requisitions SET total_amount = $1 WHERE id = $2',
-        [totalAmount, requisition.id]
-      );
-      requisition.total_amount = totalAmount;
-    }
-
+    const requisition = await insertPurchaseRequisition(client, requisitionData, userId);
     await client.query('COMMIT');
     return requisition;
   } catch (error) {
@@ -178,88 +206,111 @@ async function createPurchaseRequisition(agencyDatabase, requisitionData, userId
 }
 
 /**
- * Create purchase order from requisition
+ * Insert a purchase order and its items on an open transaction
  */
-async function createPurchaseOrder(agencyDatabase, poData, userId) {
-  const client = await getAgencyConnection(agencyDatabase);
-  try {
-    await client.query('BEGIN');
+async function insertPurchaseOrder(client, poData, userId) {
+  // Generate PO number
+  const poNumber = await nextPONumber(client, poData.agency_id);
 
-    // Generate PO number
-    const poNumber = await generatePONumber(agencyDatabase, poData.agency_id);
-
-    // Calculate totals
-    let subtotal = 0;
-    if (poData.items && poData.items.length > 0) {
-      for (const item of poData.items) {
-        subtotal += parseFloat(item.quantity) * parseFloat(item.unit_price || 0);
-      }
+  // Calculate totals
+  let subtotal = 0;
+  if (poData.items && poData.items.length > 0) {
+    for (const item of poData.items) {
+      subtotal += parseFloat(item.quantity) * parseFloat(item.unit_price || 0);
     }
+  }
 
-    const taxAmount = poData.tax_amount || 0;
-    const shippingCost = poData.shipping_cost || 0;
-    const discountAmount = poData.discount_amount || 0;
-    const totalAmount = subtotal + taxAmount + shippingCost - discountAmount;
-
-    // Create PO
-    const poResult = await client.query(
-      `INSERT INTO public.purchase_orders (
-        id, agency_id, po_number, requisition_id, supplier_id, status,
-        order_date, expected_delivery_date, delivery_address, payment_terms,
-        currency, exchange_rate, subtotal, tax_amount, shipping_cost,
-        discount_amount, total_amount, notes, terms_conditions,
-        created_by, created_at, updated_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, NOW(), NOW())
-      RETURNING *`,
-      [
-        generateUUID(),
-        poData.agency_id,
-        poNumber,
-        poData.requisition_id || null,
-        poData.supplier_id,
-        poData.status || 'draft',
-        poData.order_date || new Date().toISOString().split('T')[0],
-        poData.expected_delivery_date || null,
-        poData.delivery_address || null,
-        poData.payment_terms || null,
-        poData.currency || 'INR',
-        poData.exchange_rate || 1,
-        subtotal,
-        taxAmount,
-        shippingCost,
-        discountAmount,
-        totalAmount,
-        poData.notes || null,
-        poData.terms_conditions || null,
-        userId,
-      ]
-    );
-
-    const po = poResult.rows[0];
-
-    // Create PO items
-    if (poData.items && poData.items.length > 0) {
-      for (const item of poData.items) {
-        await client.query(
-          `INSERT INTO public.purchase_order_items (
-            id, po_id, requisition_item_id, product_id, description,
-            quantity, unit_price, unit_of_measure, notes, created_at
-          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, NOW())`,
-          [
-            generateUUID(),
-            po.id,
-            item.requisition_item_id || null,
-            item.product_id || null,
-            item.description,
-            item.quantity,
-            item.unit_price,
-            item.unit_of_measure || 'pcs',
-            item.notes || null,
-          ]
-        );
-      }
+  const taxAmount = poData.tax_amount || 0;
+  const shippingCost = poData.shipping_cost || 0;
+  const discountAmount = poData.discount_amount || 0;
+  const totalAmount = subtotal + taxAmount + shippingCost - discountAmount;
+  const exchangeRate = parseFloat(poData.exchange_rate) || 1;
+
+  // Link the supplier's contract and enforce its price schedule
+  const contractCheck = await vendorContractService.applyContractToOrder(client, poData.agency_id, {
+    supplier_id: poData.supplier_id,
+    contract_id: poData.contract_id || null,
+    order_date: poData.order_date,
+    currency: poData.currency || 'INR',
+    exchange_rate: exchangeRate,
+    items: poData.items || [],
+    total_amount: totalAmount,
+  });
+
+  // Create PO
+  const poResult = await client.query(
+    `INSERT INTO public.purchase_orders (
+      id, agency_id, po_number, requisition_id, supplier_id, status,
+      order_date, expected_delivery_date, delivery_address, payment_terms,
+      currency, exchange_rate, subtotal, tax_amount, shipping_cost,
+      discount_amount, total_amount, base_total_amount, notes, terms_conditions,
+      created_by, source, contract_id, created_at, updated_at
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, NOW(), NOW())
+    RETURNING *`,
+    [
+      generateUUID(),
+      poData.agency_id,
+      poNumber,
+      poData.requisition_id || null,
+      poData.supplier_id,
+      poData.status || 'draft',
+      poData.order_date || new Date().toISOString().split('T')[0],
+      poData.expected_delivery_date || null,
+      poData.delivery_address || null,
+      poData.payment_terms || null,
+      poData.currency || 'INR',
+      exchangeRate,
+      subtotal,
+      taxAmount,
+      shippingCost,
+      discountAmount,
+      totalAmount,
+      Math.round(totalAmount * exchangeRate * 100) / 100,
+      poData.notes || null,
+      poData.terms_conditions || null,
+      userId,
+      poData.source || 'manual',
+      contractCheck.contract_id,
+    ]
+  );
+
+  const po = poResult.rows[0];
+
+  // Create PO items
+  if (poData.items && poData.items.length > 0) {
+    for (const item of poData.items) {
+      await client.query(
+        `INSERT INTO public.purchase_order_items (
+          id, po_id, requisition_item_id, product_id, description,
+          quantity, unit_price, unit_of_measure, notes, warehouse_id, created_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, NOW())`,
+        [
+          generateUUID(),
+          po.id,
+          item.requisition_item_id || null,
+          item.product_id || null,
+          item.description,
+          item.quantity,
+          item.unit_price,
+          item.unit_of_measure || 'pcs',
+          item.notes || null,
+          item.warehouse_id || null,
+        ]
+      );
     }
+  }
+
+  return { ...po, contract_warnings: contractCheck.warnings };
+}
 
+/**
+ * Create purchase order from requisition
+ */
+async function createPurchaseOrder(agencyDatabase, poData, userId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    await client.query('BEGIN');
+    const po = await insertPurchaseOrder(client, poData, userId);
     await client.query('COMMIT');
     return po;
   } catch (error) {
@@ -414,10 +465,12 @@ async function getPurchaseRequisitions(agencyDatabase, agencyId, filters = {}) {
       SELECT 
         pr.*,
         u.email as requested_by_email,
-        p.full_name as requested_by_name
+        p.full_name as requested_by_name,
+        s.name as supplier_name
       FROM public.purchase_requisitions pr
       LEFT JOIN public.users u ON pr.requested_by = u.id
       LEFT JOIN public.profiles p ON pr.requested_by = p.user_id
+      LEFT JOIN public.suppliers s ON pr.supplier_id = s.id
       WHERE pr.agency_id = $1
     `;
     const params = [agencyId];
@@ -461,9 +514,11 @@ async function getPurchaseOrders(agencyDatabase, agencyId, filters = {}) {
       SELECT 
         po.*,
         s.name as supplier_name,
-        s.code as supplier_code
+        s.code as supplier_code,
+        vc.contract_number
       FROM public.purchase_orders po
       LEFT JOIN public.suppliers s ON po.supplier_id = s.id
+      LEFT JOIN public.vendor_contracts vc ON po.contract_id = vc.id
       WHERE po.agency_id = $1
     `;
     const params = [agencyId];
@@ -719,9 +774,11 @@ async function getPurchaseOrderById(agencyDatabase, agencyId, poId) {
       `SELECT 
         po.*,
         s.name as supplier_name,
-        s.code as supplier_code
+        s.code as supplier_code,
+        vc.contract_number
       FROM public.purchase_orders po
       LEFT JOIN public.suppliers s ON po.supplier_id = s.id
+      LEFT JOIN public.vendor_contracts vc ON po.contract_id = vc.id
       WHERE po.id = $1 AND po.agency_id = $2`,
       [poId, agencyId]
     );
@@ -808,8 +865,8 @@ async function updatePurchaseOrder(agencyDatabase, agencyId, poId, poData, userI
         await client.query(
           `INSERT INTO public.purchase_order_items (
             id, po_id, requisition_item_id, product_id, description, quantity,
-            unit_price, unit_of_measure, notes, created_at
-          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, NOW())`,
+            unit_price, unit_of_measure, notes, warehouse_id, created_at
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, NOW())`,
           [
             generateUUID(),
             poId,
@@ -820,6 +877,7 @@ async function updatePurchaseOrder(agencyDatabase, agencyId, poId, poData, userI
             item.unit_price,
             item.unit_of_measure || 'pcs',
             item.notes || null,
+            item.warehouse_id || null,
           ]
         );
       }
@@ -840,10 +898,51 @@ async function updatePurchaseOrder(agencyDatabase, agencyId, poId, poData, userI
       );
     }
 
+    // Keep the base currency total in step with the amount and rate
+    await client.query(
+      `UPDATE public.purchase_orders
+       SET base_total_amount = ROUND(COALESCE(total_amount, 0) * COALESCE(exchange_rate, 1), 2)
+       WHERE id = $1 AND agency_id = $2`,
+      [poId, agencyId]
+    );
+
+    // Re-check the contract when the lines or the contract change
+    let contractWarnings = [];
+    if (Array.isArray(poData.items) || poData.contract_id !== undefined) {
+      const current = await client.query(
+        'SELECT * FROM public.purchase_orders WHERE id = $1 AND agency_id = $2',
+        [poId, agencyId]
+      );
+      if (current.rows.length === 0) {
+        throw new Error('Purchase order not found');
+      }
+      const order = current.rows[0];
+      const items = await client.query(
+        'SELECT product_id, description, quantity, unit_price FROM public.purchase_order_items WHERE po_id = $1',
+        [poId]
+      );
+      const contractCheck = await vendorContractService.applyContractToOrder(client, agencyId, {
+        po_id: poId,
+        supplier_id: order.supplier_id,
+        contract_id: poData.contract_id !== undefined ? poData.contract_id || null : order.contract_id,
+        order_date: order.order_date,
+        currency: order.currency,
+        exchange_rate: order.exchange_rate,
+        items: items.rows,
+        total_amount: order.total_amount,
+      });
+      contractWarnings = contractCheck.warnings;
+      await client.query(
+        'UPDATE public.purchase_orders SET contract_id = $1 WHERE id = $2',
+        [contractCheck.contract_id, poId]
+      );
+    }
+
     await client.query('COMMIT');
 
     // Return updated PO with items
-    return await getPurchaseOrderById(agencyDatabase, agencyId, poId);
+    const purchaseOrder = await getPurchaseOrderById(agencyDatabase, agencyId, poId);
+    return { ...purchaseOrder, contract_warnings: contractWarnings };
   } catch (error) {
     await client.query('ROLLBACK');
     throw error;
@@ -988,6 +1087,585 @@ async function createRfqRfp(agencyDatabase, rfqData, userId) {
   }
 }
 
+const DEFAULT_RFQ_SCORING_WEIGHTS = { price: 50, lead_time: 20, performance: 30 };
+
+/**
+ * Load an RFQ with its line items, invited suppliers and bids on an open client
+ */
+async function loadRfqDetail(client, agencyId, rfqId) {
+  const rfqResult = await client.query(
+    'SELECT * FROM public.rfq_rfp WHERE id = $1 AND agency_id = $2',
+    [rfqId, agencyId]
+  );
+  if (rfqResult.rows.length === 0) {
+    return null;
+  }
+  const rfq = rfqResult.rows[0];
+
+  const itemsResult = await client.query(
+    `SELECT ri.*, p.name as product_name, p.sku as product_sku
+     FROM public.rfq_items ri
+     LEFT JOIN public.products p ON ri.product_id = p.id
+     WHERE ri.rfq_id = $1
+     ORDER BY ri.created_at, ri.id`,
+    [rfqId]
+  );
+
+  const suppliersResult = await client.query(
+    `SELECT rs.*, s.name as supplier_name, s.code as supplier_code, s.email as supplier_email
+     FROM public.rfq_suppliers rs
+     JOIN public.suppliers s ON rs.supplier_id = s.id
+     WHERE rs.rfq_id = $1
+     ORDER BY s.name`,
+    [rfqId]
+  );
+
+  const responsesResult = await client.query(
+    `SELECT r.*, s.name as supplier_name, s.code as supplier_code
+     FROM public.rfq_responses r
+     JOIN public.suppliers s ON r.supplier_id = s.id
+     WHERE r.rfq_id = $1
+     ORDER BY s.name`,
+    [rfqId]
+  );
+
+  const responseItemsResult = await client.query(
+    `SELECT rri.*
+     FROM public.rfq_response_items rri
+     JOIN public.rfq_responses r ON rri.response_id = r.id
+     WHERE r.rfq_id = $1`,
+    [rfqId]
+  );
+
+  const itemsByResponse = {};
+  for (const row of responseItemsResult.rows) {
+    if (!itemsByResponse[row.response_id]) itemsByResponse[row.response_id] = [];
+    itemsByResponse[row.response_id].push(row);
+  }
+
+  return {
+    ...rfq,
+    scoring_weights: { ...DEFAULT_RFQ_SCORING_WEIGHTS, ...(rfq.scoring_weights || {}) },
+    items: itemsResult.rows,
+    invited_suppliers: suppliersResult.rows,
+    responses: responsesResult.rows.map((response) => ({
+      ...response,
+      attachments: response.attachments || [],
+      items: itemsByResponse[response.id] || [],
+    })),
+  };
+}
+
+/**
+ * Get a single RFQ/RFP with items, invited suppliers and bids
+ */
+async function getRfqById(agencyDatabase, agencyId, rfqId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    return await loadRfqDetail(client, agencyId, rfqId);
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Invite suppliers to bid on an RFQ; publishes a draft RFQ on first invitation
+ */
+async function inviteRfqSuppliers(agencyDatabase, agencyId, rfqId, supplierIds, userId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    await client.query('BEGIN');
+
+    const rfqResult = await client.query(
+      'SELECT status FROM public.rfq_rfp WHERE id = $1 AND agency_id = $2 FOR UPDATE',
+      [rfqId, agencyId]
+    );
+    if (rfqResult.rows.length === 0) {
+      throw new Error('RFQ not found');
+    }
+    if (['awarded', 'cancelled'].includes(rfqResult.rows[0].status)) {
+      throw new Error(`Cannot invite suppliers to a ${rfqResult.rows[0].status} RFQ`);
+    }
+
+    const ids = [...new Set((supplierIds || []).filter(Boolean))];
+    if (ids.length === 0) {
+      throw new Error('Select at least one supplier to invite');
+    }
+
+    const suppliersResult = await client.query(
+      'SELECT id FROM public.suppliers WHERE id = ANY($1::uuid[]) AND agency_id = $2',
+      [ids, agencyId]
+    );
+    if (suppliersResult.rows.length !== ids.length) {
+      throw new Error('One or more suppliers were not found');
+    }
+
+    for (const supplierId of ids) {
+      await client.query(
+        `INSERT INTO public.rfq_suppliers (id, rfq_id, supplier_id, status, invited_by, invited_at)
+         VALUES ($1, $2, $3, 'invited', $4, NOW())
+         ON CONFLICT (rfq_id, supplier_id) DO NOTHING`,
+        [generateUUID(), rfqId, supplierId, userId]
+      );
+    }
+
+    if (rfqResult.rows[0].status === 'draft') {
+      await client.query(
+        `UPDATE public.rfq_rfp
+         SET status = 'published', published_date = COALESCE(published_date, CURRENT_DATE), updated_at = NOW()
+         WHERE id = $1`,
+        [rfqId]
+      );
+    }
+
+    await client.query('COMMIT');
+    return await loadRfqDetail(client, agencyId, rfqId);
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Record or replace a supplier's bid on an RFQ
+ * Quantities default to the RFQ line quantity; lines without a price are treated as not quoted.
+ */
+async function saveRfqResponse(agencyDatabase, agencyId, rfqId, responseData, userId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    await client.query('BEGIN');
+
+    const rfq = await loadRfqDetail(client, agencyId, rfqId);
+    if (!rfq) {
+      throw new Error('RFQ not found');
+    }
+    if (['awarded', 'cancelled'].includes(rfq.status)) {
+      throw new Error(`Cannot record bids on a ${rfq.status} RFQ`);
+    }
+    if (!responseData.supplier_id) {
+      throw new Error('Supplier is required');
+    }
+
+    const rfqItems = new Map(rfq.items.map((item) => [item.id, item]));
+    const lines = (responseData.items || []).filter(
+      (line) => line.unit_price !== undefined && line.unit_price !== null && line.unit_price !== ''
+    );
+    if (lines.length === 0) {
+      throw new Error('Enter a price for at least one RFQ line');
+    }
+
+    let totalAmount = 0;
+    for (const line of lines) {
+      const rfqItem = rfqItems.get(line.rfq_item_id);
+      if (!rfqItem) {
+        throw new Error('Bid line does not belong to this RFQ');
+      }
+      if (parseFloat(line.unit_price) < 0) {
+        throw new Error(`Unit price cannot be negative for ${rfqItem.description}`);
+      }
+      line.quantity = parseFloat(line.quantity) || parseFloat(rfqItem.quantity);
+      totalAmount += line.quantity * parseFloat(line.unit_price);
+    }
+
+    // Bids arriving from uninvited suppliers are accepted and the supplier is added to the invite list
+    await client.query(
+      `INSERT INTO public.rfq_suppliers (id, rfq_id, supplier_id, status, invited_by, invited_at)
+       VALUES ($1, $2, $3, 'responded', $4, NOW())
+       ON CONFLICT (rfq_id, supplier_id) DO UPDATE SET status = 'responded'`,
+      [generateUUID(), rfqId, responseData.supplier_id, userId]
+    );
+
+    const responseResult = await client.query(
+      `INSERT INTO public.rfq_responses (
+        id, rfq_id, supplier_id, status, total_amount, validity_days, lead_time_days,
+        delivery_terms, payment_terms, notes, attachments, submitted_at, created_at, updated_at
+      ) VALUES ($1, $2, $3, 'submitted', $4, $5, $6, $7, $8, $9, $10, COALESCE($11, NOW()), NOW(), NOW())
+      ON CONFLICT (rfq_id, supplier_id) DO UPDATE SET
+        status = 'submitted',
+        total_amount = EXCLUDED.total_amount,
+        validity_days = EXCLUDED.validity_days,
+        lead_time_days = EXCLUDED.lead_time_days,
+        delivery_terms = EXCLUDED.delivery_terms,
+        payment_terms = EXCLUDED.payment_terms,
+        notes = EXCLUDED.notes,
+        attachments = EXCLUDED.attachments,
+        submitted_at = EXCLUDED.submitted_at,
+        updated_at = NOW()
+      RETURNING *`,
+      [
+        generateUUID(),
+        rfqId,
+        responseData.supplier_id,
+        Math.round(totalAmount * 100) / 100,
+        responseData.validity_days || null,
+        responseData.lead_time_days ?? null,
+        responseData.delivery_terms || null,
+        responseData.payment_terms || null,
+        responseData.notes || null,
+        JSON.stringify(responseData.attachments || []),
+        responseData.submitted_at || null,
+      ]
+    );
+    const response = responseResult.rows[0];
+
+    await client.query('DELETE FROM public.rfq_response_items WHERE response_id = $1', [response.id]);
+    for (const line of lines) {
+      await client.query(
+        `INSERT INTO public.rfq_response_items (
+          id, response_id, rfq_item_id, unit_price, quantity, delivery_days, notes, created_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, NOW())`,
+        [
+          generateUUID(),
+          response.id,
+          line.rfq_item_id,
+          line.unit_price,
+          line.quantity,
+          line.delivery_days ?? null,
+          line.notes || null,
+        ]
+      );
+    }
+
+    await client.query('COMMIT');
+    return response;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Normalize scoring weights so they are non-negative and fall back to the defaults when all zero
+ */
+function normalizeRfqWeights(weights = {}) {
+  const result = {};
+  for (const key of Object.keys(DEFAULT_RFQ_SCORING_WEIGHTS)) {
+    const value = parseFloat(weights[key]);
+    result[key] = Number.isFinite(value) && value >= 0 ? value : DEFAULT_RFQ_SCORING_WEIGHTS[key];
+  }
+  const total = result.price + result.lead_time + result.performance;
+  return total > 0 ? result : { ...DEFAULT_RFQ_SCORING_WEIGHTS };
+}
+
+/**
+ * Build the bid comparison matrix for an RFQ with weighted supplier scores
+ *
+ * Each criterion is scored 0-100 against the best bid:
+ * - price: lowest unit price / bid unit price per line, averaged over all RFQ lines (unquoted lines score 0)
+ * - lead_time: shortest quoted lead time / bid lead time
+ * - performance: latest vendor performance overall rating out of 5; unrated suppliers score a neutral 50
+ */
+async function getRfqComparison(agencyDatabase, agencyId, rfqId, weightsOverride = null) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const rfq = await loadRfqDetail(client, agencyId, rfqId);
+    if (!rfq) {
+      throw new Error('RFQ not found');
+    }
+
+    const weights = normalizeRfqWeights(weightsOverride || rfq.scoring_weights);
+    const supplierIds = rfq.responses.map((response) => response.supplier_id);
+
+    const performanceBySupplier = {};
+    if (supplierIds.length > 0) {
+      const performanceResult = await client.query(
+        `SELECT DISTINCT ON (supplier_id)
+           supplier_id, overall_rating, on_time_delivery_rate, quality_rating, period_end
+         FROM public.vendor_performance
+         WHERE agency_id = $1 AND supplier_id = ANY($2::uuid[])
+         ORDER BY supplier_id, period_end DESC`,
+        [agencyId, supplierIds]
+      );
+      for (const row of performanceResult.rows) {
+        performanceBySupplier[row.supplier_id] = row;
+      }
+    }
+
+    // Lowest unit price per RFQ line across all bids
+    const lowestPrice = {};
+    for (const response of rfq.responses) {
+      for (const line of response.items) {
+        const price = parseFloat(line.unit_price);
+        if (lowestPrice[line.rfq_item_id] === undefined || price < lowestPrice[line.rfq_item_id]) {
+          lowestPrice[line.rfq_item_id] = price;
+        }
+      }
+    }
+
+    const leadTimeOf = (response) => {
+      if (response.lead_time_days !== null && response.lead_time_days !== undefined) {
+        return parseInt(response.lead_time_days);
+      }
+      const days = response.items
+        .map((line) => line.delivery_days)
+        .filter((value) => value !== null && value !== undefined)
+        .map((value) => parseInt(value));
+      return days.length > 0 ? Math.max(...days) : null;
+    };
+
+    const leadTimes = rfq.responses.map(leadTimeOf).filter((value) => value !== null);
+    const shortestLeadTime = leadTimes.length > 0 ? Math.min(...leadTimes) : null;
+    const weightTotal = weights.price + weights.lead_time + weights.performance;
+    const round = (value) => Math.round(value * 100) / 100;
+
+    const suppliers = rfq.responses.map((response) => {
+      const linesByItem = {};
+      for (const line of response.items) {
+        linesByItem[line.rfq_item_id] = line;
+      }
+
+      let priceRatioSum = 0;
+      let quotedTotal = 0;
+      for (const item of rfq.items) {
+        const line = linesByItem[item.id];
+        if (!line) continue;
+        const price = parseFloat(line.unit_price);
+        priceRatioSum += price > 0 ? lowestPrice[item.id] / price : 1;
+        quotedTotal += price * parseFloat(item.quantity);
+      }
+      const priceScore = rfq.items.length > 0 ? (priceRatioSum / rfq.items.length) * 100 : 0;
+
+      const leadTime = leadTimeOf(response);
+      let leadTimeScore = 0;
+      if (leadTime !== null) {
+        leadTimeScore = leadTime > 0 ? (shortestLeadTime / leadTime) * 100 : 100;
+      }
+
+      const performance = performanceBySupplier[response.supplier_id] || null;
+      const performanceScore = performance && performance.overall_rating !== null
+        ? (parseFloat(performance.overall_rating) / 5) * 100
+        : 50;
+
+      const totalScore = (
+        priceScore * weights.price +
+        leadTimeScore * weights.lead_time +
+        performanceScore * weights.performance
+      ) / weightTotal;
+
+      return {
+        response_id: response.id,
+        supplier_id: response.supplier_id,
+        supplier_name: response.supplier_name,
+        status: response.status,
+        quoted_total: round(quotedTotal),
+        lines_quoted: Object.keys(linesByItem).length,
+        lead_time_days: leadTime,
+        payment_terms: response.payment_terms,
+        delivery_terms: response.delivery_terms,
+        validity_days: response.validity_days,
+        attachments: response.attachments,
+        performance_rating: performance ? parseFloat(performance.overall_rating) : null,
+        on_time_delivery_rate: performance && performance.on_time_delivery_rate !== null
+          ? parseFloat(performance.on_time_delivery_rate)
+          : null,
+        price_score: round(priceScore),
+        lead_time_score: round(leadTimeScore),
+        performance_score: round(performanceScore),
+        total_score: round(totalScore),
+        rank: 0,
+      };
+    });
+
+    suppliers.sort((a, b) => b.total_score - a.total_score);
+    suppliers.forEach((supplier, index) => {
+      supplier.rank = index + 1;
+    });
+
+    const items = rfq.items.map((item) => ({
+      rfq_item_id: item.id,
+      product_id: item.product_id,
+      description: item.description,
+      quantity: parseFloat(item.quantity),
+      unit_of_measure: item.unit_of_measure,
+      lowest_unit_price: lowestPrice[item.id] ?? null,
+      bids: rfq.responses
+        .map((response) => {
+          const line = response.items.find((responseLine) => responseLine.rfq_item_id === item.id);
+          if (!line) return null;
+          return {
+            response_id: response.id,
+            supplier_id: response.supplier_id,
+            unit_price: parseFloat(line.unit_price),
+            line_total: round(parseFloat(line.unit_price) * parseFloat(item.quantity)),
+            delivery_days: line.delivery_days,
+            is_lowest: parseFloat(line.unit_price) === lowestPrice[item.id],
+            is_awarded: line.is_awarded,
+            po_id: line.po_id,
+          };
+        })
+        .filter(Boolean),
+    }));
+
+    return {
+      rfq_id: rfq.id,
+      rfq_number: rfq.rfq_number,
+      status: rfq.status,
+      currency: rfq.currency,
+      weights,
+      suppliers,
+      items,
+    };
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Award RFQ lines to winning bids and raise one draft purchase order per winning supplier
+ * awardData.awards is a list of { rfq_item_id, response_id }; lines left out are not ordered.
+ * The RFQ is locked for the whole award so it cannot be awarded twice.
+ */
+async function awardRfq(agencyDatabase, agencyId, rfqId, awardData, userId) {
+  const awards = awardData.awards || [];
+  if (awards.length === 0) {
+    throw new Error('Select a winning bid for at least one line');
+  }
+
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    await client.query('BEGIN');
+
+    const lockResult = await client.query(
+      'SELECT status FROM public.rfq_rfp WHERE id = $1 AND agency_id = $2 FOR UPDATE',
+      [rfqId, agencyId]
+    );
+    if (lockResult.rows.length === 0) {
+      throw new Error('RFQ not found');
+    }
+    if (['awarded', 'cancelled'].includes(lockResult.rows[0].status)) {
+      throw new Error(`RFQ is already ${lockResult.rows[0].status}`);
+    }
+
+    const rfq = await loadRfqDetail(client, agencyId, rfqId);
+    const itemsById = new Map(rfq.items.map((item) => [item.id, item]));
+    const responsesById = new Map(rfq.responses.map((response) => [response.id, response]));
+    const awardedItemIds = new Set();
+    const groups = new Map();
+
+    for (const award of awards) {
+      const item = itemsById.get(award.rfq_item_id);
+      const response = responsesById.get(award.response_id);
+      if (!item || !response) {
+        throw new Error('Award references a line or bid that does not belong to this RFQ');
+      }
+      if (awardedItemIds.has(item.id)) {
+        throw new Error(`Line "${item.description}" is awarded more than once`);
+      }
+      const line = response.items.find((responseLine) => responseLine.rfq_item_id === item.id);
+      if (!line) {
+        throw new Error(`${response.supplier_name} did not quote "${item.description}"`);
+      }
+      awardedItemIds.add(item.id);
+
+      if (!groups.has(response.id)) {
+        groups.set(response.id, { response, lines: [] });
+      }
+      groups.get(response.id).lines.push({ item, line });
+    }
+
+    const orderDate = new Date().toISOString().split('T')[0];
+    const { rate } = await currencyService.lookupExchangeRate(agencyDatabase, rfq.currency, orderDate);
+
+    const purchaseOrders = [];
+    const awardedLines = [];
+    for (const { response, lines } of groups.values()) {
+      let expectedDeliveryDate = null;
+      const leadTimes = lines
+        .map(({ line }) => (line.delivery_days ?? response.lead_time_days))
+        .filter((value) => value !== null && value !== undefined);
+      if (leadTimes.length > 0) {
+        const date = new Date(`${orderDate}T00:00:00Z`);
+        date.setUTCDate(date.getUTCDate() + Math.max(...leadTimes.map((value) => parseInt(value))));
+        expectedDeliveryDate = date.toISOString().split('T')[0];
+      }
+
+      const po = await insertPurchaseOrder(
+        client,
+        {
+          agency_id: agencyId,
+          supplier_id: response.supplier_id,
+          status: 'draft',
+          order_date: orderDate,
+          expected_delivery_date: expectedDeliveryDate,
+          delivery_address: awardData.delivery_address || null,
+          payment_terms: response.payment_terms || null,
+          currency: rfq.currency,
+          exchange_rate: rate,
+          notes: `Awarded from ${rfq.rfq_number}: ${rfq.title}`,
+          terms_conditions: rfq.terms_conditions || null,
+          source: 'rfq',
+          items: lines.map(({ item, line }) => ({
+            product_id: item.product_id,
+            description: item.description,
+            quantity: item.quantity,
+            unit_price: line.unit_price,
+            unit_of_measure: item.unit_of_measure,
+            notes: line.notes || null,
+          })),
+        },
+        userId
+      );
+      purchaseOrders.push({ ...po, supplier_name: response.supplier_name });
+      for (const { line } of lines) {
+        awardedLines.push({ id: line.id, po_id: po.id });
+      }
+    }
+
+    for (const awarded of awardedLines) {
+      await client.query(
+        'UPDATE public.rfq_response_items SET is_awarded = true, po_id = $2 WHERE id = $1',
+        [awarded.id, awarded.po_id]
+      );
+    }
+    await client.query(
+      `UPDATE public.rfq_responses
+       SET status = CASE WHEN id = ANY($2::uuid[]) THEN 'accepted' ELSE 'rejected' END,
+           reviewed_by = $3, reviewed_at = NOW(), updated_at = NOW()
+       WHERE rfq_id = $1`,
+      [rfqId, [...groups.keys()], userId]
+    );
+    await client.query(
+      `UPDATE public.rfq_rfp
+       SET status = 'awarded', awarded_at = NOW(), awarded_by = $2,
+           scoring_weights = COALESCE($3::jsonb, scoring_weights), updated_at = NOW()
+       WHERE id = $1`,
+      [rfqId, userId, awardData.weights ? JSON.stringify(normalizeRfqWeights(awardData.weights)) : null]
+    );
+    await client.query('COMMIT');
+
+    return {
+      rfq_id: rfqId,
+      purchase_orders: purchaseOrders,
+      awarded_lines: awardedLines.length,
+      unawarded_lines: rfq.items.length - awardedLines.length,
+    };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
 /**
  * Get vendor contracts
  */
@@ -999,10 +1677,16 @@ async function getVendorContracts(agencyDatabase, agencyId, filters = {}) {
         vc.*,
         s.name as supplier_name,
         s.code as supplier_code,
-        u.email as signed_by_email
+        u.email as signed_by_email,
+        COALESCE(NULLIF(op.full_name, ''), ou.email) as owner_name,
+        usage.consumed_value,
+        usage.po_count
       FROM public.vendor_contracts vc
       LEFT JOIN public.suppliers s ON vc.supplier_id = s.id
       LEFT JOIN public.users u ON vc.signed_by = u.id
+      LEFT JOIN public.users ou ON vc.owner_id = ou.id
+      LEFT JOIN public.profiles op ON vc.owner_id = op.user_id
+      LEFT JOIN LATERAL (${vendorContractService.CONSUMED_VALUE_SQL}) usage ON true
       WHERE vc.agency_id = $1
     `;
     const params = [agencyId];
@@ -1065,10 +1749,16 @@ async function getVendorContractById(agencyDatabase, agencyId, contractId) {
         vc.*,
         s.name as supplier_name,
         s.code as supplier_code,
-        u.email as signed_by_email
+        u.email as signed_by_email,
+        COALESCE(NULLIF(op.full_name, ''), ou.email) as owner_name,
+        usage.consumed_value,
+        usage.po_count
       FROM public.vendor_contracts vc
       LEFT JOIN public.suppliers s ON vc.supplier_id = s.id
       LEFT JOIN public.users u ON vc.signed_by = u.id
+      LEFT JOIN public.users ou ON vc.owner_id = ou.id
+      LEFT JOIN public.profiles op ON vc.owner_id = op.user_id
+      LEFT JOIN LATERAL (${vendorContractService.CONSUMED_VALUE_SQL}) usage ON true
       WHERE vc.id = $1 AND vc.agency_id = $2`,
       [contractId, agencyId]
     );
@@ -1111,8 +1801,9 @@ async function createVendorContract(agencyDatabase, contractData, userId) {
       `INSERT INTO public.vendor_contracts (
         agency_id, supplier_id, contract_number, title, contract_type,
         start_date, end_date, value, currency, terms_conditions,
-        renewal_terms, status, signed_by, signed_date, document_url, notes
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)
+        renewal_terms, status, signed_by, signed_date, document_url, notes,
+        renewal_type, renewal_term_months, reminder_days, owner_id
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20)
       RETURNING *`,
       [
         contractData.agency_id,
@@ -1131,6 +1822,12 @@ async function createVendorContract(agencyDatabase, contractData, userId) {
         contractData.signed_date || null,
         contractData.document_url || null,
         contractData.notes || null,
+        vendorContractService.RENEWAL_TYPES.includes(contractData.renewal_type) ? contractData.renewal_type : 'manual',
+        parseInt(contractData.renewal_term_months, 10) || null,
+        Array.isArray(contractData.reminder_days) && contractData.reminder_days.length > 0
+          ? contractData.reminder_days.map((day) => parseInt(day, 10)).filter((day) => day >= 0)
+          : null,
+        contractData.owner_id || userId,
       ]
     );
 
@@ -1184,6 +1881,8 @@ async function updateVendorContract(agencyDatabase, agencyId, contractId, contra
     if (contractData.end_date !== undefined) {
       updateFields.push(`end_date = $${paramIndex++}`);
       values.push(contractData.end_date);
+      // A new end date restarts the renewal reminders
+      updateFields.push('last_reminder_days = NULL');
     }
     if (contractData.value !== undefined) {
       updateFields.push(`value = $${paramIndex++}`);
@@ -1221,6 +1920,29 @@ async function updateVendorContract(agencyDatabase, agencyId, contractId, contra
       updateFields.push(`notes = $${paramIndex++}`);
       values.push(contractData.notes);
     }
+    if (contractData.renewal_type !== undefined) {
+      if (!vendorContractService.RENEWAL_TYPES.includes(contractData.renewal_type)) {
+        throw new Error('Renewal type must be manual or auto');
+      }
+      updateFields.push(`renewal_type = $${paramIndex++}`);
+      values.push(contractData.renewal_type);
+    }
+    if (contractData.renewal_term_months !== undefined) {
+      updateFields.push(`renewal_term_months = $${paramIndex++}`);
+      values.push(parseInt(contractData.renewal_term_months, 10) || null);
+    }
+    if (contractData.reminder_days !== undefined) {
+      updateFields.push(`reminder_days = $${paramIndex++}`);
+      values.push(
+        Array.isArray(contractData.reminder_days) && contractData.reminder_days.length > 0
+          ? contractData.reminder_days.map((day) => parseInt(day, 10)).filter((day) => day >= 0)
+          : null
+      );
+    }
+    if (contractData.owner_id !== undefined) {
+      updateFields.push(`owner_id = $${paramIndex++}`);
+      values.push(contractData.owner_id || null);
+    }
 
     if (updateFields.length === 0) {
       return await getVendorContractById(agencyDatabase, agencyId, contractId);
@@ -1731,7 +2453,9 @@ async function getProcurementReports(agencyDatabase, agencyId, filters = {}) {
 
 module.exports = {
   createPurchaseRequisition,
+  insertPurchaseRequisition,
   createPurchaseOrder,
+  insertPurchaseOrder,
   createGoodsReceipt,
   getPurchaseRequisitions,
   getPurchaseOrders,
@@ -1748,6 +2472,11 @@ module.exports = {
   getRfqRfp,
   createRfqRfp,
   generateRfqNumber,
+  getRfqById,
+  inviteRfqSuppliers,
+  saveRfqResponse,
+  getRfqComparison,
+  awardRfq,
   getVendorContracts,
   getVendorContractById,
   createVendorContract,
@@ -0,0 +1,548 @@
+/**
+ * Replenishment Service
+ * Turns stock below reorder point into draft purchase requisitions or purchase orders,
+ * grouped by supplier, either on demand or on the schedule set in inventory settings
+ */
+
+const { parseDatabaseUrl } = require('../utils/poolManager');
+const { Pool } = require('pg');
+const cron = require('node-cron');
+const { pool: mainPool } = require('../config/database');
+const procurementService = require('./procurementService');
+
+// Runs once a day; weekly schedules only fire on their configured weekday
+const REPLENISHMENT_SCHEDULE = process.env.REPLENISHMENT_SCHEDULE || '0 6 * * *';
+
+const DEFAULT_CONSUMPTION_DAYS = 30;
+const DEFAULT_LEAD_TIME_DAYS = 7;
+
+// Purchase order statuses whose unreceived quantity is still on its way
+const OPEN_PO_STATUSES = ['draft', 'sent', 'acknowledged', 'partial'];
+// Requisitions that may still become purchase orders
+const OPEN_REQUISITION_STATUSES = ['draft', 'pending', 'approved'];
+
+/**
+ * Get agency database connection
+ */
+async function getAgencyConnection(agencyDatabase) {
+  const { host, port, user, password } = parseDatabaseUrl();
+  const agencyDbUrl = `postgresql://${user}:${password}@${host}:${port}/${agencyDatabase}`;
+  const agencyPool = new Pool({ connectionString: agencyDbUrl, max: 1 });
+  const client = await agencyPool.connect();
+  // Attach pool to client for cleanup
+  client.pool = agencyPool;
+  return client;
+}
+
+/**
+ * Read the replenishment keys from the agency's inventory settings
+ */
+async function getReplenishmentSettings(client, agencyId) {
+  const result = await client.query(
+    `SELECT settings, created_by FROM public.module_settings
+     WHERE agency_id = $1 AND module = 'inventory'`,
+    [agencyId]
+  );
+  const settings = result.rows[0]?.settings || {};
+  return {
+    auto_reorder_enabled: settings.auto_reorder_enabled === true,
+    frequency: settings.replenishment_frequency === 'weekly' ? 'weekly' : 'daily',
+    day_of_week: Number.isInteger(settings.replenishment_day_of_week) ? settings.replenishment_day_of_week : 1,
+    output_type: settings.replenishment_output === 'purchase_order' ? 'purchase_order' : 'requisition',
+    consumption_days: parseInt(settings.replenishment_consumption_days) || DEFAULT_CONSUMPTION_DAYS,
+    lead_time_days: parseInt(settings.default_lead_time_days) || DEFAULT_LEAD_TIME_DAYS,
+    created_by: result.rows[0]?.created_by || null,
+  };
+}
+
+/**
+ * Work out how much to order for one stock record.
+ * Stock is topped up to max_stock when one is set; otherwise to the reorder point
+ * plus the larger of the reorder quantity and expected demand over the lead time.
+ * Open purchase orders and requisitions count towards the stock position.
+ */
+function calculateProposedQuantity(row, consumptionDays, defaultLeadTime) {
+  const available = parseFloat(row.available_quantity) || 0;
+  const reorderPoint = parseFloat(row.reorder_point) || 0;
+  const reorderQuantity = parseFloat(row.reorder_quantity) || 0;
+  const maxStock = parseFloat(row.max_stock) || 0;
+  const onOrder = parseFloat(row.on_order_quantity) || 0;
+  const consumed = parseFloat(row.consumed_quantity) || 0;
+
+  const dailyUsage = consumed / consumptionDays;
+  const leadTime = row.lead_time_days !== null && row.lead_time_days !== undefined
+    ? parseInt(row.lead_time_days)
+    : defaultLeadTime;
+  const leadTimeDemand = dailyUsage * leadTime;
+  const position = available + onOrder;
+
+  let target;
+  let basis;
+  if (maxStock > 0) {
+    target = maxStock;
+    basis = 'max_stock';
+  } else if (reorderQuantity >= leadTimeDemand) {
+    target = reorderPoint + reorderQuantity;
+    basis = 'reorder_quantity';
+  } else {
+    target = reorderPoint + leadTimeDemand;
+    basis = 'consumption';
+  }
+
+  // Open orders already lift the position back over the reorder point
+  const quantity = position > reorderPoint ? 0 : Math.ceil(target - position);
+
+  return {
+    proposed_quantity: Math.max(quantity, 0),
+    basis,
+    daily_usage: Math.round(dailyUsage * 100) / 100,
+    lead_time_days: leadTime,
+    stock_position: position,
+  };
+}
+
+/**
+ * Build a replenishment proposal from stock at or below reorder point
+ */
+async function getReplenishmentProposal(agencyDatabase, agencyId, options = {}) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const settings = await getReplenishmentSettings(client, agencyId);
+    const consumptionDays = parseInt(options.consumption_days) || settings.consumption_days;
+    const defaultLeadTime = parseInt(options.lead_time_days) || settings.lead_time_days;
+
+    let query = `
+      SELECT
+        i.id as inventory_id,
+        i.product_id,
+        i.variant_id,
+        i.warehouse_id,
+        i.quantity,
+        i.available_quantity,
+        i.reorder_point,
+        i.reorder_quantity,
+        i.max_stock,
+        i.average_cost,
+        i.last_cost,
+        p.sku,
+        p.name as product_name,
+        p.unit_of_measure,
+        p.lead_time_days,
+        w.code as warehouse_code,
+        w.name as warehouse_name,
+        COALESCE(p.preferred_supplier_id, last_po.supplier_id) as supplier_id,
+        s.name as supplier_name,
+        (p.preferred_supplier_id IS NOT NULL) as is_preferred_supplier,
+        last_po.unit_price as last_purchase_price,
+        COALESCE(consumption.quantity, 0) as consumed_quantity,
+        COALESCE(open_po.quantity, 0) + COALESCE(open_pr.quantity, 0) as on_order_quantity
+      FROM public.inventory i
+      JOIN public.products p ON i.product_id = p.id
+      JOIN public.warehouses w ON i.warehouse_id = w.id
+      LEFT JOIN LATERAL (
+        SELECT po.supplier_id, poi.unit_price
+        FROM public.purchase_order_items poi
+        JOIN public.purchase_orders po ON poi.po_id = po.id
+        WHERE po.agency_id = i.agency_id AND poi.product_id = i.product_id AND po.status <> 'cancelled'
+        ORDER BY po.order_date DESC, po.created_at DESC
+        LIMIT 1
+      ) last_po ON true
+      LEFT JOIN public.suppliers s ON s.id = COALESCE(p.preferred_supplier_id, last_po.supplier_id)
+      LEFT JOIN LATERAL (
+        SELECT SUM(ABS(it.quantity)) as quantity
+        FROM public.inventory_transactions it
+        WHERE it.inventory_id = i.id
+          AND it.transaction_type = 'OUT'
+          AND COALESCE(it.reference_type, '') <> 'TRANSFER'
+          AND it.created_at >= NOW() - make_interval(days => $2)
+      ) consumption ON true
+      LEFT JOIN LATERAL (
+        SELECT SUM(GREATEST(poi.quantity - COALESCE(poi.received_quantity, 0), 0)) as quantity
+        FROM public.purchase_order_items poi
+        JOIN public.purchase_orders po ON poi.po_id = po.id
+        WHERE po.agency_id = i.agency_id
+          AND poi.product_id = i.product_id
+          AND po.status = ANY($3)
+          AND (
+            poi.warehouse_id = i.warehouse_id
+            -- Items without a delivery warehouse count once, against the product's primary stock row
+            OR (poi.warehouse_id IS NULL AND i.id = (
+              SELECT i2.id
+              FROM public.inventory i2
+              JOIN public.warehouses w2 ON i2.warehouse_id = w2.id
+              WHERE i2.agency_id = i.agency_id AND i2.product_id = i.product_id
+              ORDER BY w2.is_primary DESC NULLS LAST, w2.code, i2.id
+              LIMIT 1
+            ))
+          )
+      ) open_po ON true
+      LEFT JOIN LATERAL (
+        SELECT SUM(pri.quantity) as quantity
+        FROM public.purchase_requisition_items pri
+        JOIN public.purchase_requisitions pr ON pri.requisition_id = pr.id
+        WHERE pr.agency_id = i.agency_id
+          AND pri.product_id = i.product_id
+          AND pr.status = ANY($4)
+          AND pri.warehouse_id = i.warehouse_id
+          AND NOT EXISTS (
+            SELECT 1 FROM public.purchase_order_items poi WHERE poi.requisition_item_id = pri.id
+          )
+      ) open_pr ON true
+      WHERE i.agency_id = $1
+        AND i.reorder_point > 0
+        AND i.available_quantity <= i.reorder_point
+        AND p.is_active = true
+    `;
+    const params = [agencyId, consumptionDays, OPEN_PO_STATUSES, OPEN_REQUISITION_STATUSES];
+    let paramIndex = 5;
+
+    if (options.warehouse_id) {
+      query += ` AND i.warehouse_id = $${paramIndex}`;
+      params.push(options.warehouse_id);
+      paramIndex++;
+    }
+
+    query += ' ORDER BY s.name NULLS LAST, p.name, w.code';
+
+    const result = await client.query(query, params);
+
+    const groups = new Map();
+    for (const row of result.rows) {
+      const calculation = calculateProposedQuantity(row, consumptionDays, defaultLeadTime);
+      if (calculation.proposed_quantity <= 0) continue;
+
+      const unitPrice = parseFloat(row.last_purchase_price) || parseFloat(row.last_cost) || parseFloat(row.average_cost) || 0;
+      const line = {
+        inventory_id: row.inventory_id,
+        product_id: row.product_id,
+        variant_id: row.variant_id,
+        warehouse_id: row.warehouse_id,
+        warehouse_code: row.warehouse_code,
+        warehouse_name: row.warehouse_name,
+        sku: row.sku,
+        product_name: row.product_name,
+        unit_of_measure: row.unit_of_measure || 'pcs',
+        supplier_id: row.supplier_id,
+        is_preferred_supplier: row.is_preferred_supplier,
+        available_quantity: parseFloat(row.available_quantity) || 0,
+        reorder_point: parseFloat(row.reorder_point) || 0,
+        reorder_quantity: parseFloat(row.reorder_quantity) || 0,
+        max_stock: row.max_stock !== null ? parseFloat(row.max_stock) : null,
+        on_order_quantity: parseFloat(row.on_order_quantity) || 0,
+        consumed_quantity: parseFloat(row.consumed_quantity) || 0,
+        ...calculation,
+        unit_price: unitPrice,
+        line_total: Math.round(calculation.proposed_quantity * unitPrice * 100) / 100,
+      };
+
+      const key = row.supplier_id || 'unassigned';
+      if (!groups.has(key)) {
+        groups.set(key, {
+          supplier_id: row.supplier_id,
+          supplier_name: row.supplier_name || null,
+          lines: [],
+          total_amount: 0,
+        });
+      }
+      const group = groups.get(key);
+      group.lines.push(line);
+      group.total_amount = Math.round((group.total_amount + line.line_total) * 100) / 100;
+    }
+
+    return {
+      generated_at: new Date().toISOString(),
+      consumption_days: consumptionDays,
+      default_lead_time_days: defaultLeadTime,
+      groups: Array.from(groups.values()),
+    };
+  } catch (error) {
+    if (error.code === '42P01' || error.message.includes('does not exist')) {
+      console.warn(`[Replenishment] Table not found, returning empty proposal: ${error.message}`);
+      return {
+        generated_at: new Date().toISOString(),
+        consumption_days: DEFAULT_CONSUMPTION_DAYS,
+        default_lead_time_days: DEFAULT_LEAD_TIME_DAYS,
+        groups: [],
+      };
+    }
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Convert proposal lines into draft requisitions (one per supplier) or draft
+ * purchase orders (one per supplier and delivery warehouse)
+ */
+async function createReplenishmentDocuments(agencyDatabase, agencyId, data, userId) {
+  const outputType = data.output_type === 'purchase_order' ? 'purchase_order' : 'requisition';
+  const lines = (data.lines || []).filter((line) => parseFloat(line.quantity) > 0);
+
+  if (lines.length === 0) {
+    throw new Error('Select at least one line with a quantity to order');
+  }
+
+  const skipped = [];
+  const groups = new Map();
+  for (const line of lines) {
+    if (!line.product_id || !line.warehouse_id) {
+      throw new Error('Each replenishment line needs a product and warehouse');
+    }
+    if (outputType === 'purchase_order' && !line.supplier_id) {
+      skipped.push({ product_id: line.product_id, warehouse_id: line.warehouse_id, reason: 'No supplier' });
+      continue;
+    }
+    const key = outputType === 'purchase_order'
+      ? `${line.supplier_id}:${line.warehouse_id}`
+      : line.supplier_id || 'unassigned';
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key).push(line);
+  }
+
+  if (groups.size === 0) {
+    throw new Error('Purchase orders need a supplier; assign suppliers or raise requisitions instead');
+  }
+
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    // Every document and the run record are written together, so a failure leaves no partial run behind
+    await client.query('BEGIN');
+
+    const warehouseIds = [...new Set(lines.map((line) => line.warehouse_id))];
+    const warehouses = await client.query(
+      `SELECT id, code, name, address, city, state, postal_code
+       FROM public.warehouses WHERE agency_id = $1 AND id = ANY($2)`,
+      [agencyId, warehouseIds]
+    );
+    const warehouseById = new Map(warehouses.rows.map((w) => [w.id, w]));
+
+    const toItem = (line) => {
+      const warehouse = warehouseById.get(line.warehouse_id);
+      return {
+        product_id: line.product_id,
+        description: line.description || line.product_name || 'Replenishment',
+        quantity: parseFloat(line.quantity),
+        unit_price: parseFloat(line.unit_price) || 0,
+        unit_of_measure: line.unit_of_measure || 'pcs',
+        warehouse_id: line.warehouse_id,
+        notes: warehouse ? `Deliver to ${warehouse.code} - ${warehouse.name}` : null,
+      };
+    };
+
+    const requisitions = [];
+    const purchaseOrders = [];
+    const trigger = data.trigger_type === 'scheduled' ? 'Scheduled' : 'Manual';
+
+    for (const groupLines of groups.values()) {
+      const supplierId = groupLines[0].supplier_id || null;
+      // Anything already out of stock makes the whole document urgent
+      const priority = groupLines.some((line) => parseFloat(line.available_quantity) <= 0) ? 'high' : 'normal';
+
+      if (outputType === 'requisition') {
+        requisitions.push(await procurementService.insertPurchaseRequisition(
+          client,
+          {
+            agency_id: agencyId,
+            supplier_id: supplierId,
+            source: 'replenishment',
+            status: 'draft',
+            priority,
+            notes: `${trigger} replenishment from reorder points`,
+            items: groupLines.map(toItem),
+          },
+          userId
+        ));
+      } else {
+        const warehouse = warehouseById.get(groupLines[0].warehouse_id);
+        const deliveryAddress = warehouse
+          ? [warehouse.name, warehouse.address, warehouse.city, warehouse.state, warehouse.postal_code].filter(Boolean).join(', ')
+          : null;
+        const supplier = await client.query(
+          'SELECT payment_terms FROM public.suppliers WHERE id = $1 AND agency_id = $2',
+          [supplierId, agencyId]
+        );
+        purchaseOrders.push(await procurementService.insertPurchaseOrder(
+          client,
+          {
+            agency_id: agencyId,
+            supplier_id: supplierId,
+            source: 'replenishment',
+            status: 'draft',
+            delivery_address: deliveryAddress,
+            payment_terms: supplier.rows[0]?.payment_terms || null,
+            notes: `${trigger} replenishment from reorder points`,
+            items: groupLines.map(toItem),
+          },
+          userId
+        ));
+      }
+    }
+
+    const documents = [...requisitions, ...purchaseOrders];
+    const totalAmount = documents.reduce((sum, doc) => sum + (parseFloat(doc.total_amount) || 0), 0);
+
+    const runResult = await client.query(
+      `INSERT INTO public.replenishment_runs (
+        agency_id, trigger_type, output_type, requisition_ids, purchase_order_ids,
+        line_count, total_amount, skipped_lines, created_by
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8::jsonb, $9)
+      RETURNING *`,
+      [
+        agencyId,
+        data.trigger_type === 'scheduled' ? 'scheduled' : 'manual',
+        outputType,
+        requisitions.map((r) => r.id),
+        purchaseOrders.map((po) => po.id),
+        lines.length - skipped.length,
+        Math.round(totalAmount * 100) / 100,
+        JSON.stringify(skipped),
+        userId,
+      ]
+    );
+
+    await client.query('COMMIT');
+    return {
+      run: runResult.rows[0],
+      requisitions,
+      purchase_orders: purchaseOrders,
+      skipped_lines: skipped,
+    };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Get recent replenishment runs
+ */
+async function getReplenishmentRuns(agencyDatabase, agencyId, filters = {}) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const result = await client.query(
+      `SELECT
+        rr.*,
+        p.full_name as created_by_name,
+        (SELECT COALESCE(array_agg(requisition_number ORDER BY requisition_number), '{}')
+         FROM public.purchase_requisitions WHERE id = ANY(rr.requisition_ids)) as requisition_numbers,
+        (SELECT COALESCE(array_agg(po_number ORDER BY po_number), '{}')
+         FROM public.purchase_orders WHERE id = ANY(rr.purchase_order_ids)) as po_numbers
+      FROM public.replenishment_runs rr
+      LEFT JOIN public.profiles p ON rr.created_by = p.user_id
+      WHERE rr.agency_id = $1
+      ORDER BY rr.created_at DESC
+      LIMIT $2`,
+      [agencyId, parseInt(filters.limit) || 20]
+    );
+    return result.rows;
+  } catch (error) {
+    if (error.code === '42P01' || error.message.includes('does not exist')) {
+      return [];
+    }
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Run the scheduled replenishment for one agency if it is due today
+ */
+async function runScheduledReplenishmentForAgency(agencyDatabase, agencyId, now = new Date()) {
+  const client = await getAgencyConnection(agencyDatabase);
+  let settings;
+  try {
+    settings = await getReplenishmentSettings(client, agencyId);
+    if (!settings.auto_reorder_enabled) return null;
+    if (settings.frequency === 'weekly' && now.getDay() !== settings.day_of_week) return null;
+
+    // Guard against a second run on the same day, e.g. after a restart
+    const alreadyRun = await client.query(
+      `SELECT 1 FROM public.replenishment_runs
+       WHERE agency_id = $1 AND trigger_type = 'scheduled' AND created_at::date = CURRENT_DATE
+       LIMIT 1`,
+      [agencyId]
+    );
+    if (alreadyRun.rows.length > 0) return null;
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+
+  if (!settings.created_by) {
+    console.warn(`[Replenishment] No settings owner for agency ${agencyId}, skipping scheduled run`);
+    return null;
+  }
+
+  const proposal = await getReplenishmentProposal(agencyDatabase, agencyId);
+  const lines = proposal.groups.flatMap((group) =>
+    group.lines.map((line) => ({
+      ...line,
+      quantity: line.proposed_quantity,
+      description: `${line.sku} - ${line.product_name}`,
+    }))
+  );
+  if (lines.length === 0) return null;
+
+  return createReplenishmentDocuments(
+    agencyDatabase,
+    agencyId,
+    { output_type: settings.output_type, lines, trigger_type: 'scheduled' },
+    settings.created_by
+  );
+}
+
+/**
+ * Initialize the scheduled replenishment job across all active agencies
+ */
+function initializeReplenishmentScheduler() {
+  cron.schedule(REPLENISHMENT_SCHEDULE, async () => {
+    try {
+      const agencies = await mainPool.query(
+        `SELECT id, database_name FROM public.agencies
+         WHERE is_active = true AND database_name IS NOT NULL`
+      );
+
+      for (const agency of agencies.rows) {
+        try {
+          const result = await runScheduledReplenishmentForAgency(agency.database_name, agency.id);
+          if (result) {
+            console.log(
+              `[Replenishment] Agency ${agency.id}: ${result.requisitions.length} requisition(s), ${result.purchase_orders.length} purchase order(s) drafted`
+            );
+          }
+        } catch (error) {
+          // Agencies without the inventory or procurement modules have no tables to read
+          if (error.code === '42P01') continue;
+          console.error(`[Replenishment] Scheduled run failed for agency ${agency.id}:`, error.message);
+        }
+      }
+    } catch (error) {
+      console.error('[Replenishment] Error running scheduled replenishment:', error);
+    }
+  });
+
+  console.log('[Replenishment] ✅ Scheduler initialized');
+}
+
+module.exports = {
+  getReplenishmentProposal,
+  createReplenishmentDocuments,
+  getReplenishmentRuns,
+  runScheduledReplenishmentForAgency,
+  initializeReplenishmentScheduler,
+};
@@ -4,9 +4,26 @@
  * SECURITY: All queries use parameterized queries to prevent SQL injection
  */
 
+const fs = require('fs').promises;
+const path = require('path');
+const PDFDocument = require('pdfkit');
+const ExcelJS = require('exceljs');
 const { getAgencyPool } = require('../utils/poolManager');
 const { quoteIdentifier, validateIdentifier, validateJoinCondition } = require('../utils/securityUtils');
 
+const STORAGE_BASE_PATH = process.env.FILE_STORAGE_PATH || path.join(__dirname, '../../storage');
+const REPORTS_BUCKET = 'reports';
+
+const MIME_TYPES = {
+  pdf: 'application/pdf',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  csv: 'text/csv',
+  json: 'application/json',
+};
+
+// Column names that hold money values get currency formatting and a total
+const CURRENCY_COLUMN_PATTERN = /(amount|cost|price|value|total|balance|revenue|expense|salary|budget|paid|due)/i;
+
 /**
  * Build and execute custom report query
  * SECURE VERSION: Uses parameterized queries and validates all identifiers
@@ -224,36 +241,469 @@ async function buildReport(agencyDatabase, reportConfig) {
   }
 }
 
+/**
+ * Load agency branding used in report headers
+ */
+async function getReportBranding(agencyDatabase) {
+  const branding = {
+    agencyName: 'BuildFlow',
+    primaryColor: '#1f2937',
+    address: '',
+    currency: 'INR',
+  };
+
+  try {
+    const pool = getAgencyPool(agencyDatabase);
+    const result = await pool.query('SELECT * FROM public.agency_settings ORDER BY created_at ASC LIMIT 1');
+    const settings = result.rows[0];
+    if (settings) {
+      branding.agencyName = settings.agency_name || branding.agencyName;
+      if (/^#[0-9a-f]{6}$/i.test(settings.primary_color || '')) {
+        branding.primaryColor = settings.primary_color;
+      }
+      branding.address = [
+        settings.address_street,
+        settings.address_city,
+        settings.address_state,
+        settings.address_zip,
+        settings.address_country,
+      ].filter(Boolean).join(', ');
+      branding.currency = settings.default_currency || settings.currency || branding.currency;
+    }
+  } catch (error) {
+    console.warn('[Report Builder] Could not load agency branding:', error.message);
+  }
+
+  return branding;
+}
+
+function humanizeKey(key) {
+  return String(key)
+    .replace(/_/g, ' ')
+    .replace(/\b\w/g, (c) => c.toUpperCase());
+}
+
+function isNumericString(value) {
+  return typeof value === 'string' && /^-?(0|[1-9]\d*)(\.\d+)?$/.test(value.trim());
+}
+
+/**
+ * Work out column types from the data so numbers and dates are rendered as such.
+ * pg returns NUMERIC columns as strings, so numeric-looking strings count as numbers.
+ */
+function resolveColumns(reportData, columns) {
+  const keys = columns && columns.length > 0
+    ? columns.map((col) => (typeof col === 'string' ? { key: col } : col))
+    : Object.keys(reportData[0] || {}).map((key) => ({ key }));
+
+  return keys.map((col) => {
+    const values = reportData
+      .map((row) => row[col.key])
+      .filter((value) => value !== null && value !== undefined && value !== '');
+
+    let type = col.type;
+    if (!type) {
+      if (values.length === 0) {
+        type = 'text';
+      } else if (values.every((v) => v instanceof Date)) {
+        type = 'date';
+      } else if (values.every((v) => typeof v === 'boolean')) {
+        type = 'boolean';
+      } else if (values.every((v) => typeof v === 'number' || isNumericString(v))) {
+        type = CURRENCY_COLUMN_PATTERN.test(col.key) ? 'currency' : 'number';
+      } else {
+        type = 'text';
+      }
+    }
+
+    return {
+      key: col.key,
+      label: col.label || humanizeKey(col.key),
+      type,
+      total: col.total !== undefined ? col.total : type === 'currency',
+    };
+  });
+}
+
+function toCellValue(value, type) {
+  if (value === null || value === undefined || value === '') return null;
+  switch (type) {
+    case 'number':
+    case 'currency':
+      return Number(value);
+    case 'date':
+      return value instanceof Date ? value : new Date(value);
+    case 'boolean':
+      return Boolean(value);
+    default:
+      return typeof value === 'object' && !(value instanceof Date) ? JSON.stringify(value) : String(value);
+  }
+}
+
+function formatDisplayValue(value, type, currency) {
+  const cellValue = toCellValue(value, type);
+  if (cellValue === null) return '';
+  switch (type) {
+    case 'currency':
+      return `${currency} ${cellValue.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+    case 'number':
+      return cellValue.toLocaleString('en-IN', { maximumFractionDigits: 4 });
+    case 'date':
+      return isNaN(cellValue.getTime()) ? String(value) : cellValue.toISOString().split('T')[0];
+    case 'boolean':
+      return cellValue ? 'Yes' : 'No';
+    default:
+      return cellValue instanceof Date ? cellValue.toISOString() : cellValue;
+  }
+}
+
+function calculateTotals(reportData, columns) {
+  const totals = {};
+  for (const col of columns) {
+    if (!col.total) continue;
+    totals[col.key] = reportData.reduce((sum, row) => sum + (Number(row[col.key]) || 0), 0);
+  }
+  return totals;
+}
+
+function buildFileName(title, extension) {
+  const slug = String(title || 'report')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '') || 'report';
+  return `${slug}_${new Date().toISOString().replace(/[:.]/g, '-')}.${extension}`;
+}
+
+/**
+ * Render a paginated PDF with agency branding, a repeating table header,
+ * page numbers and a totals row
+ */
+function renderPdf(reportData, columns, totals, branding, options) {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: 'A4',
+      layout: columns.length > 6 ? 'landscape' : 'portrait',
+      margin: 40,
+      bufferPages: true,
+      info: { Title: options.title, Author: branding.agencyName },
+    });
+
+    const chunks = [];
+    doc.on('data', (chunk) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    const left = doc.page.margins.left;
+    const usableWidth = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+    const bottomLimit = doc.page.height - doc.page.margins.bottom - 20;
+    const colWidth = usableWidth / Math.max(columns.length, 1);
+    const rowHeight = 18;
+    const fontSize = columns.length > 10 ? 6 : 8;
+    const generatedAt = new Date().toLocaleString('en-IN');
+
+    const drawPageHeader = () => {
+      doc.rect(0, 0, doc.page.width, 6).fill(branding.primaryColor);
+      doc.fillColor('#111827').font('Helvetica-Bold').fontSize(14)
+        .text(branding.agencyName, left, 20, { width: usableWidth * 0.6 });
+      if (branding.address) {
+        doc.font('Helvetica').fontSize(8).fillColor('#6b7280')
+          .text(branding.address, left, 38, { width: usableWidth * 0.6 });
+      }
+      doc.font('Helvetica-Bold').fontSize(12).fillColor('#111827')
+        .text(options.title, left + usableWidth * 0.6, 20, { width: usableWidth * 0.4, align: 'right' });
+      doc.font('Helvetica').fontSize(8).fillColor('#6b7280')
+        .text(`Generated ${generatedAt}`, left + usableWidth * 0.6, 38, { width: usableWidth * 0.4, align: 'right' });
+      return 60;
+    };
+
+    const drawTableHeader = (y) => {
+      doc.rect(left, y, usableWidth, rowHeight).fill(branding.primaryColor);
+      doc.font('Helvetica-Bold').fontSize(fontSize).fillColor('#ffffff');
+      columns.forEach((col, index) => {
+        doc.text(col.label, left + index * colWidth + 4, y + 5, {
+          width: colWidth - 8,
+          height: rowHeight - 6,
+          ellipsis: true,
+          lineBreak: false,
+          align: col.type === 'number' || col.type === 'currency' ? 'right' : 'left',
+        });
+      });
+      return y + rowHeight;
+    };
+
+    const drawRow = (values, y, { bold = false, shaded = false } = {}) => {
+      if (shaded) {
+        doc.rect(left, y, usableWidth, rowHeight).fill('#f3f4f6');
+      }
+      doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(fontSize).fillColor('#111827');
+      columns.forEach((col, index) => {
+        doc.text(String(values[index] ?? ''), left + index * colWidth + 4, y + 5, {
+          width: colWidth - 8,
+          height: rowHeight - 6,
+          ellipsis: true,
+          lineBreak: false,
+          align: col.type === 'number' || col.type === 'currency' ? 'right' : 'left',
+        });
+      });
+      return y + rowHeight;
+    };
+
+    let y = drawTableHeader(drawPageHeader());
+
+    if (reportData.length === 0) {
+      doc.font('Helvetica').fontSize(10).fillColor('#6b7280')
+        .text('No records found for this report.', left, y + 10);
+    }
+
+    reportData.forEach((row, rowIndex) => {
+      if (y + rowHeight > bottomLimit) {
+        doc.addPage();
+        y = drawTableHeader(drawPageHeader());
+      }
+      y = drawRow(
+        columns.map((col) => formatDisplayValue(row[col.key], col.type, branding.currency)),
+        y,
+        { shaded: rowIndex % 2 === 1 }
+      );
+    });
+
+    if (Object.keys(totals).length > 0 && reportData.length > 0) {
+      if (y + rowHeight > bottomLimit) {
+        doc.addPage();
+        y = drawTableHeader(drawPageHeader());
+      }
+      doc.moveTo(left, y).lineTo(left + usableWidth, y).strokeColor(branding.primaryColor).stroke();
+      drawRow(
+        columns.map((col, index) => {
+          if (totals[col.key] !== undefined) return formatDisplayValue(totals[col.key], col.type, branding.currency);
+          return index === 0 ? 'Total' : '';
+        }),
+        y,
+        { bold: true }
+      );
+    }
+
+    // Footer with page numbers, drawn once all pages exist
+    const range = doc.bufferedPageRange();
+    for (let i = range.start; i < range.start + range.count; i++) {
+      doc.switchToPage(i);
+      doc.font('Helvetica').fontSize(8).fillColor('#6b7280').text(
+        `${options.title} | ${reportData.length} records | Page ${i - range.start + 1} of ${range.count}`,
+        left,
+        doc.page.height - doc.page.margins.bottom - 10,
+        { width: usableWidth, align: 'center', lineBreak: false }
+      );
+    }
+
+    doc.end();
+  });
+}
+
+function excelNumberFormat(type, currency) {
+  switch (type) {
+    case 'currency':
+      return `"${currency}" #,##0.00`;
+    case 'number':
+      return '#,##0.##';
+    case 'date':
+      return 'yyyy-mm-dd';
+    default:
+      return undefined;
+  }
+}
+
+function addDataSheet(workbook, sheetName, rows, columns, branding) {
+  const sheet = workbook.addWorksheet(sheetName.substring(0, 31), {
+    views: [{ state: 'frozen', ySplit: 1 }],
+  });
+
+  sheet.columns = columns.map((col) => ({
+    header: col.label,
+    key: col.key,
+    width: Math.min(Math.max(col.label.length + 4, 12), 40),
+    style: { numFmt: excelNumberFormat(col.type, branding.currency) },
+  }));
+
+  const headerRow = sheet.getRow(1);
+  headerRow.font = { bold: true, color: { argb: 'FFFFFFFF' } };
+  headerRow.fill = {
+    type: 'pattern',
+    pattern: 'solid',
+    fgColor: { argb: `FF${branding.primaryColor.replace('#', '').toUpperCase()}` },
+  };
+
+  for (const row of rows) {
+    const values = {};
+    for (const col of columns) {
+      values[col.key] = toCellValue(row[col.key], col.type);
+    }
+    sheet.addRow(values);
+  }
+
+  // Totals use formulas so they stay correct if the user edits the sheet
+  const totalColumns = columns.filter((col) => col.total);
+  if (rows.length > 0 && totalColumns.length > 0) {
+    const lastDataRow = rows.length + 1;
+    const totalsRow = sheet.addRow({});
+    columns.forEach((col, index) => {
+      const cell = totalsRow.getCell(index + 1);
+      if (col.total) {
+        const letter = sheet.getColumn(index + 1).letter;
+        cell.value = { formula: `SUM(${letter}2:${letter}${lastDataRow})` };
+        cell.numFmt = excelNumberFormat(col.type, branding.currency);
+      } else if (index === 0) {
+        cell.value = 'Total';
+      }
+    });
+    totalsRow.font = { bold: true };
+  }
+
+  sheet.autoFilter = { from: { row: 1, column: 1 }, to: { row: 1, column: columns.length } };
+  return sheet;
+}
+
+/**
+ * Render an .xlsx workbook with a summary sheet, the full data sheet and,
+ * when sheetBy is given, one additional sheet per distinct value of that column
+ */
+async function renderExcel(reportData, columns, totals, branding, options) {
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = branding.agencyName;
+  workbook.created = new Date();
+
+  const summary = workbook.addWorksheet('Summary');
+  summary.columns = [{ width: 28 }, { width: 40 }];
+  summary.addRow([branding.agencyName]).font = { bold: true, size: 14 };
+  if (branding.address) summary.addRow([branding.address]);
+  summary.addRow([]);
+  summary.addRow(['Report', options.title]);
+  summary.addRow(['Generated At', new Date()]).getCell(2).numFmt = 'yyyy-mm-dd hh:mm';
+  summary.addRow(['Records', reportData.length]);
+  for (const col of columns) {
+    if (totals[col.key] === undefined) continue;
+    summary.addRow([`Total ${col.label}`, totals[col.key]])
+      .getCell(2).numFmt = excelNumberFormat(col.type, branding.currency);
+  }
+
+  addDataSheet(workbook, 'Data', reportData, columns, branding);
+
+  if (options.sheetBy && columns.some((col) => col.key === options.sheetBy)) {
+    const groups = new Map();
+    for (const row of reportData) {
+      const groupKey = String(row[options.sheetBy] ?? 'Unassigned');
+      if (!groups.has(groupKey)) groups.set(groupKey, []);
+      groups.get(groupKey).push(row);
+    }
+    const usedNames = new Set(['Summary', 'Data']);
+    for (const [groupKey, rows] of groups) {
+      // Excel forbids []:*?/\ in sheet names and requires them to be unique
+      let name = groupKey.replace(/[[\]:*?/\\]/g, ' ').substring(0, 28) || 'Group';
+      let suffix = 2;
+      while (usedNames.has(name)) name = `${name.substring(0, 26)} ${suffix++}`;
+      usedNames.add(name);
+      addDataSheet(workbook, name, rows, columns, branding);
+    }
+  }
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+function escapeCsvValue(value) {
+  if (value === null || value === undefined) return '';
+  const str = value instanceof Date ? value.toISOString() : String(value);
+  return /[",\n\r]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+}
+
 /**
  * Generate report in specified format
+ * options: { title, columns: [{ key, label, type, total }], sheetBy }
+ * Returns { format, data, mimeType, fileName, size } where data is a Buffer for pdf/xlsx
  */
-async function generateReportFile(agencyDatabase, reportData, format = 'json') {
-  // In production, use libraries like:
-  // - PDF: pdfkit, puppeteer
-  // - Excel: exceljs, xlsx
-  // - CSV: csv-stringify
-  
+async function generateReportFile(agencyDatabase, reportData, format = 'json', options = {}) {
+  const rows = Array.isArray(reportData) ? reportData : [];
+  const title = options.title || 'Report';
+
   switch (format) {
     case 'pdf':
-      // Generate PDF (would use pdfkit or puppeteer)
-      return { format: 'pdf', data: 'PDF binary data' };
     case 'excel':
-      // Generate Excel (would use exceljs)
-      return { format: 'xlsx', data: 'Excel binary data' };
-    case 'csv':
-      // Generate CSV
-      const headers = Object.keys(reportData[0] || {});
+    case 'xlsx': {
+      const branding = await getReportBranding(agencyDatabase);
+      const columns = resolveColumns(rows, options.columns);
+      const totals = calculateTotals(rows, columns);
+      const isPdf = format === 'pdf';
+      const data = isPdf
+        ? await renderPdf(rows, columns, totals, branding, { ...options, title })
+        : await renderExcel(rows, columns, totals, branding, { ...options, title });
+      const extension = isPdf ? 'pdf' : 'xlsx';
+      return {
+        format: extension,
+        data,
+        mimeType: MIME_TYPES[extension],
+        fileName: buildFileName(title, extension),
+        size: data.length,
+      };
+    }
+    case 'csv': {
+      const columns = resolveColumns(rows, options.columns);
       const csv = [
-        headers.join(','),
-        ...reportData.map(row => headers.map(h => row[h]).join(','))
+        columns.map((col) => escapeCsvValue(col.label)).join(','),
+        ...rows.map((row) => columns.map((col) => escapeCsvValue(row[col.key])).join(',')),
       ].join('\n');
-      return { format: 'csv', data: csv };
-    default:
-      return { format: 'json', data: JSON.stringify(reportData, null, 2) };
+      return {
+        format: 'csv',
+        data: csv,
+        mimeType: MIME_TYPES.csv,
+        fileName: buildFileName(title, 'csv'),
+        size: Buffer.byteLength(csv),
+      };
+    }
+    default: {
+      const json = JSON.stringify(rows, null, 2);
+      return {
+        format: 'json',
+        data: json,
+        mimeType: MIME_TYPES.json,
+        fileName: buildFileName(title, 'json'),
+        size: Buffer.byteLength(json),
+      };
+    }
+  }
+}
+
+/**
+ * Persist a generated report file to disk storage
+ * Returns the storage path relative to the storage root (e.g. reports/<agency_db>/<file>)
+ */
+async function saveReportFile(agencyDatabase, file) {
+  const relativePath = path.join(REPORTS_BUCKET, validateIdentifier(agencyDatabase), file.fileName);
+  const fullPath = path.join(STORAGE_BASE_PATH, relativePath);
+  await fs.mkdir(path.dirname(fullPath), { recursive: true });
+  await fs.writeFile(fullPath, file.data);
+  return relativePath;
+}
+
+/**
+ * Read a previously saved report file
+ */
+async function readReportFile(relativePath) {
+  const storageBase = path.resolve(STORAGE_BASE_PATH, REPORTS_BUCKET);
+  const fullPath = path.resolve(STORAGE_BASE_PATH, String(relativePath || ''));
+  // Anything outside the reports bucket (including sibling folders sharing its prefix) is refused
+  const withinBucket = path.relative(storageBase, fullPath);
+  if (!withinBucket || withinBucket.startsWith('..') || path.isAbsolute(withinBucket)) {
+    throw new Error('Invalid report file path');
   }
+  return fs.readFile(fullPath);
+}
+
+function getMimeType(format) {
+  return MIME_TYPES[format === 'excel' ? 'xlsx' : format] || 'application/octet-stream';
 }
 
 module.exports = {
   buildReport,
   generateReportFile,
+  saveReportFile,
+  readReportFile,
+  getMimeType,
 };
@@ -111,9 +111,9 @@ async function createIssue(agencyDatabase, issueData, userId) {
     const result = await client.query(
       `INSERT INTO public.project_issues (
         id, project_id, agency_id, issue_title, description,
-        priority, status, issue_type, assigned_to, reported_by,
+        priority, severity, status, issue_type, assigned_to, reported_by,
         due_date, created_at, updated_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, NOW(), NOW())
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, NOW(), NOW())
       RETURNING *`,
       [
         generateUUID(),
@@ -122,6 +122,7 @@ async function createIssue(agencyDatabase, issueData, userId) {
         issueData.issue_title,
         issueData.description || null,
         issueData.priority || 'medium',
+        issueData.severity || 'medium',
         issueData.status || 'open',
         issueData.issue_type || null,
         issueData.assigned_to || null,
@@ -173,6 +174,12 @@ async function getIssues(agencyDatabase, projectId, filters = {}) {
       paramIndex++;
     }
 
+    if (filters.severity) {
+      query += ` AND i.severity = $${paramIndex}`;
+      params.push(filters.severity);
+      paramIndex++;
+    }
+
     query += ` ORDER BY 
       CASE i.priority
         WHEN 'critical' THEN 1
@@ -201,8 +208,9 @@ async function createMilestone(agencyDatabase, milestoneData, userId) {
     const result = await client.query(
       `INSERT INTO public.project_milestones (
         id, project_id, agency_id, name, description,
-        target_date, status, is_critical, created_by, created_at, updated_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, NOW(), NOW())
+        target_date, status, is_critical, billing_amount, billing_percentage,
+        invoice_trigger, created_by, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, NOW(), NOW())
       RETURNING *`,
       [
         generateUUID(),
@@ -213,6 +221,9 @@ async function createMilestone(agencyDatabase, milestoneData, userId) {
         milestoneData.target_date,
         milestoneData.status || 'pending',
         milestoneData.is_critical || false,
+        milestoneData.billing_amount || null,
+        milestoneData.billing_percentage || null,
+        milestoneData.invoice_trigger || 'none',
         userId,
       ]
     );
@@ -225,10 +236,482 @@ async function createMilestone(agencyDatabase, milestoneData, userId) {
   }
 }
 
+/**
+ * Build a SET clause from the allowed fields present in data
+ */
+function buildUpdate(data, allowedFields, startIndex = 1) {
+  const sets = [];
+  const params = [];
+  for (const field of allowedFields) {
+    if (data[field] !== undefined) {
+      sets.push(`${field} = $${startIndex + params.length}`);
+      params.push(data[field] === '' ? null : data[field]);
+    }
+  }
+  return { sets, params };
+}
+
+/**
+ * Update project risk
+ */
+async function updateRisk(agencyDatabase, projectId, riskId, riskData) {
+  const { sets, params } = buildUpdate(riskData, [
+    'risk_title', 'description', 'category', 'probability', 'impact',
+    'status', 'mitigation_plan', 'owner_id', 'identified_date',
+  ]);
+
+  // Closing or mitigating a risk stamps the resolution date; reopening clears it
+  if (riskData.status !== undefined) {
+    sets.push(['mitigated', 'closed'].includes(riskData.status)
+      ? 'resolved_date = COALESCE(resolved_date, CURRENT_DATE)'
+      : 'resolved_date = NULL');
+  }
+  if (sets.length === 0) {
+    throw new Error('No fields to update');
+  }
+
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const result = await client.query(
+      `UPDATE public.project_risks SET ${sets.join(', ')}, updated_at = NOW()
+       WHERE id = $${params.length + 1} AND project_id = $${params.length + 2}
+       RETURNING *`,
+      [...params, riskId, projectId]
+    );
+    if (result.rows.length === 0) {
+      throw new Error('Risk not found');
+    }
+    return result.rows[0];
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Delete project risk
+ */
+async function deleteRisk(agencyDatabase, projectId, riskId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const result = await client.query(
+      'DELETE FROM public.project_risks WHERE id = $1 AND project_id = $2 RETURNING id',
+      [riskId, projectId]
+    );
+    if (result.rows.length === 0) {
+      throw new Error('Risk not found');
+    }
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Update project issue, tracking who resolved it and when
+ */
+async function updateIssue(agencyDatabase, projectId, issueId, issueData, userId) {
+  const { sets, params } = buildUpdate(issueData, [
+    'issue_title', 'description', 'priority', 'severity', 'status',
+    'issue_type', 'assigned_to', 'due_date', 'resolution_notes',
+  ]);
+
+  if (issueData.status !== undefined) {
+    if (['resolved', 'closed'].includes(issueData.status)) {
+      sets.push('resolved_date = COALESCE(resolved_date, CURRENT_DATE)');
+      sets.push(`resolved_by = COALESCE(resolved_by, $${params.length + 1})`);
+      params.push(userId);
+    } else {
+      sets.push('resolved_date = NULL', 'resolved_by = NULL');
+    }
+  }
+  if (sets.length === 0) {
+    throw new Error('No fields to update');
+  }
+
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const result = await client.query(
+      `UPDATE public.project_issues SET ${sets.join(', ')}, updated_at = NOW()
+       WHERE id = $${params.length + 1} AND project_id = $${params.length + 2}
+       RETURNING *`,
+      [...params, issueId, projectId]
+    );
+    if (result.rows.length === 0) {
+      throw new Error('Issue not found');
+    }
+    return result.rows[0];
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Delete project issue
+ */
+async function deleteIssue(agencyDatabase, projectId, issueId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const result = await client.query(
+      'DELETE FROM public.project_issues WHERE id = $1 AND project_id = $2 RETURNING id',
+      [issueId, projectId]
+    );
+    if (result.rows.length === 0) {
+      throw new Error('Issue not found');
+    }
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Get milestones for a project with their invoice status
+ */
+async function getMilestones(agencyDatabase, projectId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const result = await client.query(
+      `SELECT 
+        m.*,
+        TO_CHAR(m.target_date, 'YYYY-MM-DD') AS target_date,
+        TO_CHAR(m.completion_date, 'YYYY-MM-DD') AS completion_date,
+        inv.invoice_number,
+        inv.status AS invoice_status,
+        inv.total_amount AS invoice_amount
+      FROM public.project_milestones m
+      LEFT JOIN public.invoices inv ON m.invoice_id = inv.id
+      WHERE m.project_id = $1
+      ORDER BY m.target_date ASC`,
+      [projectId]
+    );
+    return result.rows;
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Raise a draft invoice for a billable milestone.
+ * The amount is the milestone's fixed amount, or its percentage of the project budget.
+ * Tax is left at zero on the draft so finance can apply the right GST rate before sending.
+ */
+async function raiseMilestoneInvoiceWithClient(client, milestone, userId) {
+  if (milestone.invoice_id) {
+    throw new Error('This milestone has already been invoiced');
+  }
+
+  const projectResult = await client.query(
+    'SELECT id, name, client_id, budget FROM public.projects WHERE id = $1',
+    [milestone.project_id]
+  );
+  const project = projectResult.rows[0];
+  if (!project || !project.client_id) {
+    throw new Error('The project has no client to invoice');
+  }
+
+  const amount = milestone.billing_amount !== null && milestone.billing_amount !== undefined
+    ? parseFloat(milestone.billing_amount)
+    : ((parseFloat(project.budget) || 0) * (parseFloat(milestone.billing_percentage) || 0)) / 100;
+  if (!(amount > 0)) {
+    throw new Error('Set a billing amount or percentage on the milestone before invoicing');
+  }
+  const roundedAmount = Math.round(amount * 100) / 100;
+
+  const invoiceId = generateUUID();
+  const invoiceNumber = `INV-${new Date().getFullYear()}-${String(Date.now()).slice(-6)}`;
+  const issueDate = new Date();
+  const dueDate = new Date(issueDate.getTime() + 30 * 24 * 60 * 60 * 1000);
+
+  await client.query(
+    `INSERT INTO public.invoices (
+      id, invoice_number, client_id, title, description, status,
+      issue_date, due_date, subtotal, tax_rate, discount, total_amount,
+      notes, agency_id, created_by, created_at, updated_at
+    ) VALUES ($1, $2, $3, $4, $5, 'draft', $6, $7, $8, 0, 0, $8, $9, $10, $11, NOW(), NOW())`,
+    [
+      invoiceId,
+      invoiceNumber,
+      project.client_id,
+      `${project.name} — ${milestone.name}`,
+      milestone.description || null,
+      issueDate.toISOString().split('T')[0],
+      dueDate.toISOString().split('T')[0],
+      roundedAmount,
+      `Raised from project milestone "${milestone.name}"`,
+      milestone.agency_id,
+      userId,
+    ]
+  );
+
+  await client.query(
+    `INSERT INTO public.invoice_line_items (
+      id, invoice_id, item_type, item_name, description, quantity,
+      unit_price, taxable_value, gst_rate, line_total, sort_order
+    ) VALUES ($1, $2, 'service', $3, $4, 1, $5, $5, 0, $5, 0)`,
+    [generateUUID(), invoiceId, milestone.name, `Milestone for project ${project.name}`, roundedAmount]
+  );
+
+  const updated = await client.query(
+    `UPDATE public.project_milestones SET invoice_id = $1, invoiced_at = NOW(), updated_at = NOW()
+     WHERE id = $2 RETURNING *`,
+    [invoiceId, milestone.id]
+  );
+  return { milestone: updated.rows[0], invoice: { id: invoiceId, invoice_number: invoiceNumber, total_amount: roundedAmount } };
+}
+
+/**
+ * Update project milestone.
+ * Completing a milestone with an on-completion invoice trigger raises its draft invoice.
+ */
+async function updateMilestone(agencyDatabase, projectId, milestoneId, milestoneData, userId) {
+  const { sets, params } = buildUpdate(milestoneData, [
+    'name', 'description', 'target_date', 'status', 'is_critical',
+    'billing_amount', 'billing_percentage', 'invoice_trigger',
+  ]);
+
+  if (milestoneData.status !== undefined) {
+    sets.push(milestoneData.status === 'completed'
+      ? `completion_date = COALESCE($${params.length + 1}::date, completion_date, CURRENT_DATE)`
+      : 'completion_date = NULL');
+    if (milestoneData.status === 'completed') params.push(milestoneData.completion_date || null);
+  }
+  if (sets.length === 0) {
+    throw new Error('No fields to update');
+  }
+
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    await client.query('BEGIN');
+
+    const result = await client.query(
+      `UPDATE public.project_milestones SET ${sets.join(', ')}, updated_at = NOW()
+       WHERE id = $${params.length + 1} AND project_id = $${params.length + 2}
+       RETURNING *`,
+      [...params, milestoneId, projectId]
+    );
+    if (result.rows.length === 0) {
+      throw new Error('Milestone not found');
+    }
+
+    let milestone = result.rows[0];
+    let invoice = null;
+    if (milestone.status === 'completed' && milestone.invoice_trigger === 'on_completion' && !milestone.invoice_id) {
+      ({ milestone, invoice } = await raiseMilestoneInvoiceWithClient(client, milestone, userId));
+    }
+
+    await client.query('COMMIT');
+    return { ...milestone, invoice };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Raise the draft invoice for a milestone on demand
+ */
+async function invoiceMilestone(agencyDatabase, projectId, milestoneId, userId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    await client.query('BEGIN');
+
+    const result = await client.query(
+      'SELECT * FROM public.project_milestones WHERE id = $1 AND project_id = $2 FOR UPDATE',
+      [milestoneId, projectId]
+    );
+    if (result.rows.length === 0) {
+      throw new Error('Milestone not found');
+    }
+
+    const raised = await raiseMilestoneInvoiceWithClient(client, result.rows[0], userId);
+
+    await client.query('COMMIT');
+    return raised;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Delete project milestone
+ */
+async function deleteMilestone(agencyDatabase, projectId, milestoneId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const result = await client.query(
+      'DELETE FROM public.project_milestones WHERE id = $1 AND project_id = $2 RETURNING id',
+      [milestoneId, projectId]
+    );
+    if (result.rows.length === 0) {
+      throw new Error('Milestone not found');
+    }
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Project health summary across risks, issues, milestones, schedule and budget.
+ * Overall status is off_track when any red flag is raised, at_risk on amber flags.
+ */
+async function getProjectHealth(agencyDatabase, projectId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const [projectResult, riskResult, issueResult, milestoneResult, taskResult] = await Promise.all([
+      client.query(
+        'SELECT budget, actual_cost, progress, TO_CHAR(end_date, \'YYYY-MM-DD\') AS end_date FROM public.projects WHERE id = $1',
+        [projectId]
+      ),
+      client.query(
+        `SELECT probability, impact, risk_score, status
+         FROM public.project_risks WHERE project_id = $1`,
+        [projectId]
+      ),
+      client.query(
+        `SELECT
+          COUNT(*) FILTER (WHERE status NOT IN ('resolved', 'closed'))::int AS open,
+          COUNT(*) FILTER (WHERE status NOT IN ('resolved', 'closed') AND severity IN ('high', 'critical'))::int AS severe,
+          COUNT(*) FILTER (WHERE status NOT IN ('resolved', 'closed') AND due_date < CURRENT_DATE)::int AS overdue,
+          COUNT(*) FILTER (WHERE status IN ('resolved', 'closed'))::int AS resolved
+         FROM public.project_issues WHERE project_id = $1`,
+        [projectId]
+      ),
+      client.query(
+        `SELECT
+          m.id, m.name, TO_CHAR(m.target_date, 'YYYY-MM-DD') AS target_date, m.status, m.is_critical,
+          m.invoice_trigger, m.invoice_id, m.billing_amount, m.billing_percentage,
+          inv.total_amount AS invoice_amount
+         FROM public.project_milestones m
+         LEFT JOIN public.invoices inv ON m.invoice_id = inv.id
+         WHERE m.project_id = $1
+         ORDER BY m.target_date ASC`,
+        [projectId]
+      ),
+      client.query(
+        `SELECT
+          COUNT(*)::int AS total,
+          COUNT(*) FILTER (WHERE status = 'completed')::int AS completed,
+          COUNT(*) FILTER (WHERE status NOT IN ('completed', 'cancelled') AND due_date < CURRENT_DATE)::int AS overdue,
+          COUNT(*) FILTER (WHERE status = 'blocked')::int AS blocked
+         FROM public.tasks WHERE project_id = $1`,
+        [projectId]
+      ),
+    ]);
+
+    const project = projectResult.rows[0];
+    if (!project) {
+      throw new Error('Project not found');
+    }
+
+    const openRisks = riskResult.rows.filter((r) => !['closed', 'mitigated'].includes(r.status));
+    const heatMap = {};
+    for (const risk of openRisks) {
+      const key = `${risk.probability}_${risk.impact}`;
+      heatMap[key] = (heatMap[key] || 0) + 1;
+    }
+
+    const today = new Date().toISOString().split('T')[0];
+    const milestones = milestoneResult.rows;
+    const overdueMilestones = milestones.filter((m) => m.status !== 'completed' && m.target_date < today);
+    const nextMilestone = milestones.find((m) => m.status !== 'completed') || null;
+    const budget = parseFloat(project.budget) || 0;
+    const billableValue = (m) => (m.billing_amount !== null
+      ? parseFloat(m.billing_amount)
+      : (budget * (parseFloat(m.billing_percentage) || 0)) / 100);
+    const billable = milestones.filter((m) => m.invoice_trigger === 'on_completion');
+
+    const risks = {
+      open: openRisks.length,
+      high: openRisks.filter((r) => r.risk_score >= 6).length,
+      heat_map: heatMap,
+    };
+    const issues = issueResult.rows[0];
+    const tasks = taskResult.rows[0];
+    const actualCost = parseFloat(project.actual_cost) || 0;
+    const budgetUtilization = budget > 0 ? Math.round((actualCost / budget) * 10000) / 100 : null;
+
+    const flags = [];
+    if (risks.high > 0) flags.push({ level: risks.high > 2 ? 'red' : 'amber', message: `${risks.high} high-exposure risk(s) open` });
+    if (issues.severe > 0) flags.push({ level: 'red', message: `${issues.severe} high or critical issue(s) open` });
+    if (issues.overdue > 0) flags.push({ level: 'amber', message: `${issues.overdue} issue(s) past due` });
+    if (overdueMilestones.some((m) => m.is_critical)) flags.push({ level: 'red', message: 'Critical milestone overdue' });
+    else if (overdueMilestones.length > 0) flags.push({ level: 'amber', message: `${overdueMilestones.length} milestone(s) overdue` });
+    if (tasks.overdue > 0) flags.push({ level: 'amber', message: `${tasks.overdue} task(s) overdue` });
+    if (budgetUtilization !== null && budgetUtilization > 100) flags.push({ level: 'red', message: 'Project is over budget' });
+    else if (budgetUtilization !== null && budgetUtilization > 90) flags.push({ level: 'amber', message: 'Budget more than 90% used' });
+
+    const status = flags.some((f) => f.level === 'red')
+      ? 'off_track'
+      : flags.length > 0 ? 'at_risk' : 'on_track';
+
+    return {
+      status,
+      flags,
+      risks,
+      issues,
+      milestones: {
+        total: milestones.length,
+        completed: milestones.filter((m) => m.status === 'completed').length,
+        overdue: overdueMilestones.length,
+        next: nextMilestone ? { id: nextMilestone.id, name: nextMilestone.name, target_date: nextMilestone.target_date } : null,
+        invoiced_amount: billable.filter((m) => m.invoice_id).reduce((sum, m) => sum + (parseFloat(m.invoice_amount) || 0), 0),
+        uninvoiced_amount: billable.filter((m) => !m.invoice_id).reduce((sum, m) => sum + billableValue(m), 0),
+      },
+      tasks,
+      budget: {
+        budget,
+        actual_cost: actualCost,
+        utilization: budgetUtilization,
+      },
+    };
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
 module.exports = {
   createRisk,
   getRisks,
+  updateRisk,
+  deleteRisk,
   createIssue,
   getIssues,
+  updateIssue,
+  deleteIssue,
   createMilestone,
+  getMilestones,
+  updateMilestone,
+  invoiceMilestone,
+  deleteMilestone,
+  getProjectHealth,
 };
@@ -141,8 +141,8 @@ async function executeScheduledReport(agencyDatabase, scheduleId) {
     const executionResult = await client.query(
       `INSERT INTO public.report_executions (
         id, agency_id, report_id, schedule_id, execution_type,
-        status, parameters, started_at
-      ) VALUES ($1, $2, $3, $4, 'scheduled', 'running', $5, NOW())
+        status, parameters, name, report_type, format, generated_by, started_at
+      ) VALUES ($1, $2, $3, $4, 'scheduled', 'running', $5, $6, $7, $8, $9, NOW())
       RETURNING *`,
       [
         generateUUID(),
@@ -150,6 +150,10 @@ async function executeScheduledReport(agencyDatabase, scheduleId) {
         schedule.report_template_id,
         scheduleId,
         schedule.filters,
+        schedule.schedule_name,
+        template.report_type || 'custom',
+        schedule.format,
+        schedule.created_by,
       ]
     );
 
@@ -166,17 +170,27 @@ async function executeScheduledReport(agencyDatabase, scheduleId) {
       const file = await reportBuilderService.generateReportFile(
         agencyDatabase,
         reportData,
-        schedule.format
+        schedule.format,
+        {
+          title: schedule.schedule_name || template.name,
+          columns: template.query_config?.columns
+            ?.map((col) => ({ key: col.alias || col.column })),
+        }
       );
+      const filePath = await reportBuilderService.saveReportFile(agencyDatabase, file);
 
       // Update execution
       await client.query(
         `UPDATE public.report_executions 
-         SET status = 'completed', result_data = $1, file_path = $2, completed_at = NOW()
-         WHERE id = $3`,
+         SET status = 'completed', result_data = $1, file_path = $2, file_name = $3,
+             file_size = $4, mime_type = $5, generated_at = NOW(), completed_at = NOW()
+         WHERE id = $6`,
         [
           JSON.stringify(reportData),
-          file.path || null,
+          filePath,
+          file.fileName,
+          file.size,
+          file.mimeType,
           execution.id
         ]
       );
@@ -194,7 +208,7 @@ async function executeScheduledReport(agencyDatabase, scheduleId) {
       // await sendReportEmail(schedule.recipients, file, schedule.schedule_name);
 
       await client.query('COMMIT');
-      return { execution, reportData, file };
+      return { execution, reportData, file: { ...file, path: filePath } };
     } catch (error) {
       // Update execution with error
       await client.query(
@@ -593,6 +607,113 @@ async function deleteReportExport(agencyDatabase, agencyId, exportId) {
   }
 }
 
+/**
+ * Record a manually generated report file as an export
+ */
+async function recordReportExport(agencyDatabase, exportData) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const filePath = await reportBuilderService.saveReportFile(agencyDatabase, exportData.file);
+    const result = await client.query(
+      `INSERT INTO public.report_executions (
+        id, agency_id, report_id, execution_type, status, parameters,
+        name, report_type, format, file_path, file_name, file_size, mime_type,
+        generated_by, generated_at, started_at, completed_at
+      ) VALUES ($1, $2, $3, 'manual', 'completed', $4, $5, $6, $7, $8, $9, $10, $11, $12, NOW(), NOW(), NOW())
+      RETURNING *`,
+      [
+        generateUUID(),
+        exportData.agency_id,
+        exportData.report_id || null,
+        exportData.parameters ? JSON.stringify(exportData.parameters) : null,
+        exportData.name,
+        exportData.report_type || 'custom',
+        exportData.format,
+        filePath,
+        exportData.file.fileName,
+        exportData.file.size,
+        exportData.file.mimeType,
+        exportData.generated_by || null,
+      ]
+    );
+    return result.rows[0];
+  } catch (error) {
+    console.error('[Scheduled Report Service] Error recording export:', error);
+    throw error;
+  } finally {
+    if (client) {
+      try {
+        client.release();
+      } catch (err) {
+        console.error('[Scheduled Report Service] Error releasing client:', err);
+      }
+    }
+    if (client && client.pool) {
+      try {
+        await client.pool.end();
+      } catch (err) {
+        console.error('[Scheduled Report Service] Error ending pool:', err);
+      }
+    }
+  }
+}
+
+/**
+ * Load the stored file for a report export and count the download.
+ * Returns null when the export or its stored file does not exist.
+ */
+async function getReportExportFile(agencyDatabase, agencyId, exportId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const result = await client.query(
+      'SELECT * FROM public.report_executions WHERE id = $1 AND agency_id = $2',
+      [exportId, agencyId]
+    );
+
+    if (result.rows.length === 0 || !result.rows[0].file_path) {
+      return null;
+    }
+
+    const exportItem = result.rows[0];
+    let data;
+    try {
+      data = await reportBuilderService.readReportFile(exportItem.file_path);
+    } catch (error) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+
+    await client.query(
+      'UPDATE public.report_executions SET download_count = COALESCE(download_count, 0) + 1 WHERE id = $1',
+      [exportId]
+    );
+
+    return {
+      data,
+      fileName: exportItem.file_name || exportItem.file_path.split(/[\\/]/).pop(),
+      mimeType: exportItem.mime_type || reportBuilderService.getMimeType(exportItem.format),
+    };
+  } catch (error) {
+    console.error('[Scheduled Report Service] Error loading export file:', error);
+    throw error;
+  } finally {
+    if (client) {
+      try {
+        client.release();
+      } catch (err) {
+        console.error('[Scheduled Report Service] Error releasing client:', err);
+      }
+    }
+    if (client && client.pool) {
+      try {
+        await client.pool.end();
+      } catch (err) {
+        console.error('[Scheduled Report Service] Error ending pool:', err);
+      }
+    }
+  }
+}
+
 module.exports = {
   createReportSchedule,
   getReportSchedules,
@@ -605,4 +726,6 @@ module.exports = {
   calculateNextRun,
   getReportExports,
   deleteReportExport,
+  recordReportExport,
+  getReportExportFile,
 };
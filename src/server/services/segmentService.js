@@ -0,0 +1,461 @@
+/**
+ * Segment Service
+ * Dynamic lead/client segments evaluated from saved filter criteria, and
+ * email campaigns sent to a segment's members
+ */
+
+const { parseDatabaseUrl } = require('../utils/poolManager');
+const { Pool } = require('pg');
+const crypto = require('crypto');
+const emailService = require('./emailService');
+
+async function getAgencyConnection(agencyDatabase) {
+  const { host, port, user, password } = parseDatabaseUrl();
+  const agencyDbUrl = `postgresql://${user}:${password}@${host}:${port}/${agencyDatabase}`;
+  const agencyPool = new Pool({ connectionString: agencyDbUrl, max: 1 });
+  const client = await agencyPool.connect();
+  // Attach pool to client for cleanup
+  client.pool = agencyPool;
+  return client;
+}
+
+const ENTITY_TYPES = ['lead', 'client'];
+const PREVIEW_LIMIT = 200;
+
+function asList(value) {
+  if (value === undefined || value === null || value === '') return [];
+  return (Array.isArray(value) ? value : [value]).filter((v) => v !== '' && v !== null && v !== undefined);
+}
+
+function asNumber(value) {
+  if (value === undefined || value === null || value === '') return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+/**
+ * Build the member query for a segment's criteria.
+ * Only known criteria keys are translated to SQL; everything is parameterised.
+ *
+ * Lead criteria: statuses, stages, priorities, source_ids, assigned_to, industries,
+ *   tags (any of), min_value, max_value, min_score, max_score, created_after, created_before
+ * Client criteria: statuses, industries, cities, states, countries,
+ *   min_invoiced, max_invoiced, created_after, created_before
+ */
+function buildSegmentQuery(entityType, criteria, agencyId) {
+  if (!ENTITY_TYPES.includes(entityType)) {
+    throw new Error(`Invalid segment entity type: ${entityType}`);
+  }
+
+  const c = criteria || {};
+  const params = [agencyId];
+  const conditions = [];
+  const add = (sql, value) => {
+    params.push(value);
+    conditions.push(sql.replace('?', `$${params.length}`));
+  };
+
+  if (entityType === 'lead') {
+    if (asList(c.statuses).length) add('l.status = ANY(?::text[])', asList(c.statuses));
+    if (asList(c.stages).length) add('COALESCE(l.stage, l.status) = ANY(?::text[])', asList(c.stages));
+    if (asList(c.priorities).length) add('l.priority = ANY(?::text[])', asList(c.priorities));
+    if (asList(c.source_ids).length) add('COALESCE(l.lead_source_id, l.source_id) = ANY(?::uuid[])', asList(c.source_ids));
+    if (asList(c.assigned_to).length) add('l.assigned_to = ANY(?::uuid[])', asList(c.assigned_to));
+    if (asList(c.industries).length) add('l.industry = ANY(?::text[])', asList(c.industries));
+    if (asList(c.tags).length) add('l.tags && ?::text[]', asList(c.tags));
+    if (asNumber(c.min_value) !== null) add('COALESCE(l.estimated_value, l.value, 0) >= ?', asNumber(c.min_value));
+    if (asNumber(c.max_value) !== null) add('COALESCE(l.estimated_value, l.value, 0) <= ?', asNumber(c.max_value));
+    if (asNumber(c.min_score) !== null) add('COALESCE(ls.score, 0) >= ?', asNumber(c.min_score));
+    if (asNumber(c.max_score) !== null) add('COALESCE(ls.score, 0) <= ?', asNumber(c.max_score));
+    if (c.created_after) add('l.created_at >= ?::date', c.created_after);
+    if (c.created_before) add('l.created_at < (?::date + 1)', c.created_before);
+
+    return {
+      text: `
+        SELECT l.id, l.company_name AS name, l.contact_name, l.email, l.phone,
+               COALESCE(l.stage, l.status) AS status, COALESCE(l.estimated_value, l.value, 0) AS value,
+               ls.score
+        FROM public.leads l
+        LEFT JOIN public.lead_scores ls ON ls.lead_id = l.id
+        WHERE l.agency_id = $1
+          AND COALESCE(l.status, '') <> 'archived'
+          ${conditions.map((condition) => `AND ${condition}`).join('\n          ')}
+        ORDER BY l.company_name`,
+      params,
+    };
+  }
+
+  if (asList(c.statuses).length) add('cl.status = ANY(?::text[])', asList(c.statuses));
+  if (asList(c.industries).length) add('cl.industry = ANY(?::text[])', asList(c.industries));
+  if (asList(c.cities).length) add('cl.city = ANY(?::text[])', asList(c.cities));
+  if (asList(c.states).length) add('cl.state = ANY(?::text[])', asList(c.states));
+  if (asList(c.countries).length) add('cl.country = ANY(?::text[])', asList(c.countries));
+  if (asNumber(c.min_invoiced) !== null) add('COALESCE(inv.total_invoiced, 0) >= ?', asNumber(c.min_invoiced));
+  if (asNumber(c.max_invoiced) !== null) add('COALESCE(inv.total_invoiced, 0) <= ?', asNumber(c.max_invoiced));
+  if (c.created_after) add('cl.created_at >= ?::date', c.created_after);
+  if (c.created_before) add('cl.created_at < (?::date + 1)', c.created_before);
+
+  return {
+    text: `
+      SELECT cl.id, cl.name, cl.contact_person AS contact_name, COALESCE(cl.contact_email, cl.email) AS email,
+             COALESCE(cl.contact_phone, cl.phone) AS phone, cl.status, COALESCE(inv.total_invoiced, 0) AS value,
+             NULL::integer AS score
+      FROM public.clients cl
+      LEFT JOIN (
+        SELECT client_id, SUM(total_amount) AS total_invoiced
+        FROM public.invoices
+        WHERE agency_id = $1 AND status <> 'cancelled'
+        GROUP BY client_id
+      ) inv ON inv.client_id = cl.id
+      WHERE cl.agency_id = $1
+        AND COALESCE(cl.is_active, true) = true
+        ${conditions.map((condition) => `AND ${condition}`).join('\n        ')}
+      ORDER BY cl.name`,
+    params,
+  };
+}
+
+async function fetchSegment(client, agencyId, segmentId) {
+  const result = await client.query(
+    `SELECT *, COALESCE(entity_type, 'client') AS entity_type
+     FROM public.customer_segments WHERE id = $1 AND agency_id = $2`,
+    [segmentId, agencyId]
+  );
+  if (result.rows.length === 0) {
+    throw new Error('Segment not found');
+  }
+  return result.rows[0];
+}
+
+/**
+ * Evaluate a segment's members and store the refreshed count.
+ * Client segments also refresh client_segment_assignments.
+ */
+async function evaluateSegment(client, agencyId, segment) {
+  const { text, params } = buildSegmentQuery(segment.entity_type, segment.criteria, agencyId);
+  const result = await client.query(text, params);
+  const members = result.rows;
+
+  await client.query(
+    `UPDATE public.customer_segments SET client_count = $1, last_evaluated_at = NOW() WHERE id = $2`,
+    [members.length, segment.id]
+  );
+
+  if (segment.entity_type === 'client') {
+    await client.query('DELETE FROM public.client_segment_assignments WHERE segment_id = $1', [segment.id]);
+    if (members.length > 0) {
+      await client.query(
+        `INSERT INTO public.client_segment_assignments (id, client_id, segment_id, assigned_at)
+         SELECT uuid_generate_v4(), member_id, $1, NOW() FROM UNNEST($2::uuid[]) AS member_id
+         ON CONFLICT (client_id, segment_id) DO NOTHING`,
+        [segment.id, members.map((member) => member.id)]
+      );
+    }
+  }
+
+  return members;
+}
+
+function validateSegment(data) {
+  if (data.entity_type !== undefined && !ENTITY_TYPES.includes(data.entity_type)) {
+    throw new Error(`Invalid segment entity type: ${data.entity_type}`);
+  }
+  if (data.criteria !== undefined && (typeof data.criteria !== 'object' || Array.isArray(data.criteria))) {
+    throw new Error('Segment criteria must be an object');
+  }
+}
+
+/**
+ * Get segments
+ */
+async function getSegments(agencyDatabase, agencyId, filters = {}) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const params = [agencyId];
+    let query = `
+      SELECT *, COALESCE(entity_type, 'client') AS entity_type
+      FROM public.customer_segments
+      WHERE agency_id = $1`;
+    if (filters.entity_type) {
+      params.push(filters.entity_type);
+      query += ` AND COALESCE(entity_type, 'client') = $${params.length}`;
+    }
+    query += ' ORDER BY segment_name';
+    const result = await client.query(query, params);
+    return result.rows;
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Create segment
+ */
+async function createSegment(agencyDatabase, agencyId, userId, data) {
+  if (!data.segment_name) {
+    throw new Error('segment_name is required');
+  }
+  validateSegment(data);
+
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const result = await client.query(
+      `INSERT INTO public.customer_segments (
+        id, agency_id, segment_name, description, criteria, entity_type, created_by, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, NOW(), NOW())
+      RETURNING *`,
+      [
+        crypto.randomUUID(),
+        agencyId,
+        data.segment_name,
+        data.description || null,
+        JSON.stringify(data.criteria || {}),
+        data.entity_type || 'client',
+        userId,
+      ]
+    );
+    const segment = result.rows[0];
+    const members = await evaluateSegment(client, agencyId, segment);
+    return { ...segment, client_count: members.length };
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Update segment
+ */
+async function updateSegment(agencyDatabase, agencyId, segmentId, data) {
+  validateSegment(data);
+
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const result = await client.query(
+      `UPDATE public.customer_segments SET
+        segment_name = COALESCE($3, segment_name),
+        description = COALESCE($4, description),
+        criteria = COALESCE($5, criteria),
+        entity_type = COALESCE($6, entity_type),
+        updated_at = NOW()
+      WHERE id = $1 AND agency_id = $2
+      RETURNING *`,
+      [
+        segmentId,
+        agencyId,
+        data.segment_name ?? null,
+        data.description ?? null,
+        data.criteria !== undefined ? JSON.stringify(data.criteria) : null,
+        data.entity_type ?? null,
+      ]
+    );
+    if (result.rows.length === 0) {
+      throw new Error('Segment not found');
+    }
+    const segment = await fetchSegment(client, agencyId, segmentId);
+    const members = await evaluateSegment(client, agencyId, segment);
+    return { ...segment, client_count: members.length };
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Delete segment
+ */
+async function deleteSegment(agencyDatabase, agencyId, segmentId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const result = await client.query(
+      'DELETE FROM public.customer_segments WHERE id = $1 AND agency_id = $2 RETURNING id',
+      [segmentId, agencyId]
+    );
+    if (result.rows.length === 0) {
+      throw new Error('Segment not found');
+    }
+    return { id: segmentId };
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Get segment members (re-evaluated from the current criteria)
+ */
+async function getSegmentMembers(agencyDatabase, agencyId, segmentId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const segment = await fetchSegment(client, agencyId, segmentId);
+    const members = await evaluateSegment(client, agencyId, segment);
+    return { segment: { ...segment, client_count: members.length }, members };
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Preview members for unsaved criteria
+ */
+async function previewSegment(agencyDatabase, agencyId, entityType, criteria) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const { text, params } = buildSegmentQuery(entityType, criteria, agencyId);
+    const result = await client.query(text, params);
+    return { count: result.rows.length, members: result.rows.slice(0, PREVIEW_LIMIT) };
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+function escapeHtml(value) {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Supports {{name}} and {{contact_name}} placeholders
+function personalise(template, member) {
+  return template
+    .replace(/\{\{\s*name\s*\}\}/g, escapeHtml(member.name))
+    .replace(/\{\{\s*contact_name\s*\}\}/g, escapeHtml(member.contact_name || member.name));
+}
+
+/**
+ * Send an email campaign to every segment member with an email address.
+ * Each send is recorded in email_tracking against the lead/client.
+ */
+async function sendSegmentCampaign(agencyDatabase, agencyId, userId, segmentId, data) {
+  if (!data.subject || !data.body) {
+    throw new Error('subject and body are required');
+  }
+
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const segment = await fetchSegment(client, agencyId, segmentId);
+    const members = (await evaluateSegment(client, agencyId, segment)).filter((member) => member.email);
+    if (members.length === 0) {
+      throw new Error('No segment members have an email address');
+    }
+
+    const campaignId = crypto.randomUUID();
+    await client.query(
+      `INSERT INTO public.crm_email_campaigns (
+        id, agency_id, segment_id, subject, body, status, recipient_count, created_by, created_at
+      ) VALUES ($1, $2, $3, $4, $5, 'sending', $6, $7, NOW())`,
+      [campaignId, agencyId, segmentId, data.subject, data.body, members.length, userId]
+    );
+
+    let sentCount = 0;
+    let failedCount = 0;
+    const fromEmail = data.from || null;
+
+    for (const member of members) {
+      const html = personalise(data.body, member).replace(/\n/g, '<br />');
+      const result = await emailService.sendEmail(
+        member.email,
+        personalise(data.subject, member),
+        html,
+        null,
+        [],
+        fromEmail ? { from: fromEmail } : {}
+      );
+
+      if (result.success) sentCount++;
+      else failedCount++;
+
+      await client.query(
+        `INSERT INTO public.email_tracking (
+          id, agency_id, related_type, related_id, email_to, email_from, subject, body,
+          status, sent_at, tracking_id, campaign_id, created_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, NOW(), $10, $11, NOW())`,
+        [
+          crypto.randomUUID(),
+          agencyId,
+          segment.entity_type,
+          member.id,
+          member.email,
+          fromEmail || process.env.SMTP_FROM || 'noreply@buildflow.com',
+          data.subject,
+          html,
+          result.success ? 'sent' : 'failed',
+          crypto.randomUUID(),
+          campaignId,
+        ]
+      );
+    }
+
+    const status = failedCount === 0 ? 'sent' : (sentCount === 0 ? 'failed' : 'partially_sent');
+    const campaign = await client.query(
+      `UPDATE public.crm_email_campaigns
+       SET status = $2, sent_count = $3, failed_count = $4, sent_at = NOW()
+       WHERE id = $1
+       RETURNING *`,
+      [campaignId, status, sentCount, failedCount]
+    );
+    return campaign.rows[0];
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Get email campaigns
+ */
+async function getCampaigns(agencyDatabase, agencyId, segmentId = null) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const params = [agencyId];
+    let query = `
+      SELECT ec.*, s.segment_name
+      FROM public.crm_email_campaigns ec
+      LEFT JOIN public.customer_segments s ON s.id = ec.segment_id
+      WHERE ec.agency_id = $1`;
+    if (segmentId) {
+      params.push(segmentId);
+      query += ` AND ec.segment_id = $${params.length}`;
+    }
+    query += ' ORDER BY ec.created_at DESC';
+    const result = await client.query(query, params);
+    return result.rows;
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+module.exports = {
+  ENTITY_TYPES,
+  buildSegmentQuery,
+  getSegments,
+  createSegment,
+  updateSegment,
+  deleteSegment,
+  getSegmentMembers,
+  previewSegment,
+  sendSegmentCampaign,
+  getCampaigns,
+};
@@ -23,9 +23,17 @@ async function getInventorySettings(agencyDatabase, agencyId) {
       return {
         default_valuation_method: 'weighted_average',
         auto_reorder_enabled: false,
+        replenishment_frequency: 'daily',
+        replenishment_day_of_week: 1,
+        replenishment_output: 'requisition',
+        replenishment_consumption_days: 30,
+        default_lead_time_days: 7,
         low_stock_alert_enabled: true,
         low_stock_threshold_percentage: 20,
         default_unit_of_measure: 'pcs',
+        reservation_expiry_days: 30,
+        abc_class_a_percent: 80,
+        abc_class_b_percent: 95,
         enable_serial_tracking: false,
         enable_batch_tracking: false,
         require_serial_on_sale: false,
@@ -45,9 +53,17 @@ async function getInventorySettings(agencyDatabase, agencyId) {
       return {
         default_valuation_method: 'weighted_average',
         auto_reorder_enabled: false,
+        replenishment_frequency: 'daily',
+        replenishment_day_of_week: 1,
+        replenishment_output: 'requisition',
+        replenishment_consumption_days: 30,
+        default_lead_time_days: 7,
         low_stock_alert_enabled: true,
         low_stock_threshold_percentage: 20,
         default_unit_of_measure: 'pcs',
+        reservation_expiry_days: 30,
+        abc_class_a_percent: 80,
+        abc_class_b_percent: 95,
         enable_serial_tracking: false,
         enable_batch_tracking: false,
         require_serial_on_sale: false,
@@ -159,6 +175,12 @@ async function getProcurementSettings(agencyDatabase, agencyId) {
         notify_on_po_approved: true,
         notify_on_grn_received: true,
         notify_on_payment_due: true,
+        match_price_tolerance_percent: 2,
+        match_quantity_tolerance_percent: 0,
+        auto_approve_matched_invoices: false,
+        contract_reminder_days: '90,30,7',
+        contract_price_enforcement: 'block',
+        contract_price_tolerance_percent: 0,
       };
     }
 
@@ -177,6 +199,12 @@ async function getProcurementSettings(agencyDatabase, agencyId) {
         notify_on_po_approved: true,
         notify_on_grn_received: true,
         notify_on_payment_due: true,
+        match_price_tolerance_percent: 2,
+        match_quantity_tolerance_percent: 0,
+        auto_approve_matched_invoices: false,
+        contract_reminder_days: '90,30,7',
+        contract_price_enforcement: 'block',
+        contract_price_tolerance_percent: 0,
       };
     }
     throw error;
@@ -277,8 +305,11 @@ async function getAssetSettings(agencyDatabase, agencyId) {
         auto_post_depreciation: false,
         depreciation_rounding: 2,
         allow_manual_depreciation: true,
+        depreciation_expense_account_code: '',
+        accumulated_depreciation_account_code: '',
         auto_schedule_maintenance: false,
         maintenance_reminder_days: 30,
+        maintenance_escalation_days: 3,
         require_maintenance_approval: false,
         track_maintenance_costs: true,
         require_location_assignment: false,
@@ -292,6 +323,7 @@ async function getAssetSettings(agencyDatabase, agencyId) {
         notify_upcoming_maintenance: true,
         notify_disposal_requests: true,
         notify_depreciation_posted: false,
+        notify_overdue_returns: true,
         sync_with_accounting: false,
         accounting_integration: '',
         auto_create_journal_entries: false,
@@ -313,8 +345,11 @@ async function getAssetSettings(agencyDatabase, agencyId) {
         auto_post_depreciation: false,
         depreciation_rounding: 2,
         allow_manual_depreciation: true,
+        depreciation_expense_account_code: '',
+        accumulated_depreciation_account_code: '',
         auto_schedule_maintenance: false,
         maintenance_reminder_days: 30,
+        maintenance_escalation_days: 3,
         require_maintenance_approval: false,
         track_maintenance_costs: true,
         require_location_assignment: false,
@@ -328,6 +363,7 @@ async function getAssetSettings(agencyDatabase, agencyId) {
         notify_upcoming_maintenance: true,
         notify_disposal_requests: true,
         notify_depreciation_posted: false,
+        notify_overdue_returns: true,
         sync_with_accounting: false,
         accounting_integration: '',
         auto_create_journal_entries: false,
@@ -0,0 +1,866 @@
+/**
+ * Shift Service
+ * Shift definitions, rotation patterns and the weekly roster, and shift-aware clock-in/clock-out:
+ * late-in, early-out and overtime are measured against the employee's rostered shift.
+ * Shift times are wall-clock times in the agency's timezone; night shifts end the next day.
+ */
+
+const { parseDatabaseUrl } = require('../utils/poolManager');
+const { Pool } = require('pg');
+const { round2 } = require('../utils/numberHelper');
+
+// How long before a shift starts an employee may clock in for it
+const EARLY_CLOCK_IN_HOURS = 4;
+
+// Without a rostered or default shift, a standard day is 9 hours (the previous fixed rule)
+const STANDARD_DAY_HOURS = 9;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/;
+
+/**
+ * Get agency database connection
+ */
+async function getAgencyConnection(agencyDatabase) {
+  const { host, port, user, password } = parseDatabaseUrl();
+  const agencyDbUrl = `postgresql://${user}:${password}@${host}:${port}/${agencyDatabase}`;
+  const agencyPool = new Pool({ connectionString: agencyDbUrl, max: 1 });
+  const client = await agencyPool.connect();
+  // Attach pool to client for cleanup
+  client.pool = agencyPool;
+  return client;
+}
+
+const toDateString = (value) => {
+  if (!value) return null;
+  if (value instanceof Date) {
+    const local = new Date(value.getTime() - value.getTimezoneOffset() * 60000);
+    return local.toISOString().split('T')[0];
+  }
+  return String(value).split('T')[0];
+};
+
+const addDays = (value, days) => {
+  const date = new Date(`${toDateString(value)}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().split('T')[0];
+};
+
+const daysBetween = (from, to) =>
+  Math.round((new Date(`${toDateString(to)}T00:00:00Z`) - new Date(`${toDateString(from)}T00:00:00Z`)) / 86400000);
+
+const minutesBetween = (from, to) => Math.round((new Date(to).getTime() - new Date(from).getTime()) / 60000);
+
+/**
+ * Scheduled start/end of a shift on a date, as timestamps in the agency timezone.
+ * `dateSql` is the SQL expression for the shift date; `tzParam` the placeholder holding the timezone.
+ */
+const shiftWindowSql = (dateSql, tzParam) => `
+  (${dateSql} + s.start_time) AT TIME ZONE ${tzParam} AS scheduled_start,
+  (${dateSql} + s.end_time + CASE WHEN s.end_time <= s.start_time THEN INTERVAL '1 day' ELSE INTERVAL '0 days' END)
+    AT TIME ZONE ${tzParam} AS scheduled_end`;
+
+/**
+ * The agency's timezone, falling back to the database timezone when unset or invalid
+ */
+async function getAgencyTimezone(client) {
+  try {
+    const result = await client.query(
+      `SELECT COALESCE(
+         (SELECT timezone FROM public.agency_settings
+          WHERE timezone IN (SELECT name FROM pg_timezone_names) LIMIT 1),
+         current_setting('TimeZone')
+       ) AS tz`
+    );
+    return result.rows[0].tz;
+  } catch (error) {
+    if (error.code !== '42P01') throw error;
+    const result = await client.query(`SELECT current_setting('TimeZone') AS tz`);
+    return result.rows[0].tz;
+  }
+}
+
+function validateShift(shiftData) {
+  if (!shiftData.name || !String(shiftData.name).trim()) {
+    throw new Error('Shift name is required');
+  }
+  if (!TIME_PATTERN.test(shiftData.start_time || '') || !TIME_PATTERN.test(shiftData.end_time || '')) {
+    throw new Error('Shift start and end times must be in HH:MM format');
+  }
+  if (shiftData.start_time.slice(0, 5) === shiftData.end_time.slice(0, 5)) {
+    throw new Error('Shift start and end times cannot be the same');
+  }
+  for (const field of ['break_minutes', 'grace_minutes', 'early_exit_grace_minutes', 'overtime_threshold_minutes']) {
+    if (shiftData[field] !== undefined && shiftData[field] !== null && parseInt(shiftData[field], 10) < 0) {
+      throw new Error(`${field.replace(/_/g, ' ')} cannot be negative`);
+    }
+  }
+}
+
+/**
+ * Get shifts
+ */
+async function getShifts(agencyDatabase, agencyId, filters = {}) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const result = await client.query(
+      `SELECT s.*, (s.end_time <= s.start_time) AS is_night_shift
+       FROM public.shifts s
+       ${filters.is_active !== undefined ? 'WHERE s.is_active = $1' : ''}
+       ORDER BY s.start_time, s.name`,
+      filters.is_active !== undefined ? [filters.is_active === true || filters.is_active === 'true'] : []
+    );
+    return result.rows;
+  } catch (error) {
+    if (error.code === '42P01') return [];
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) await client.pool.end();
+  }
+}
+
+/**
+ * Create or update a shift
+ */
+async function saveShift(agencyDatabase, agencyId, shiftData, userId, shiftId = null) {
+  validateShift(shiftData);
+
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    await client.query('BEGIN');
+
+    // Only one shift can be the fallback for employees without a roster entry
+    if (shiftData.is_default) {
+      await client.query(
+        `UPDATE public.shifts SET is_default = false, updated_at = NOW()
+         WHERE is_default = true AND ($1::uuid IS NULL OR id <> $1)`,
+        [shiftId]
+      );
+    }
+
+    const values = [
+      String(shiftData.name).trim(),
+      shiftData.code || null,
+      shiftData.start_time,
+      shiftData.end_time,
+      parseInt(shiftData.break_minutes, 10) || 0,
+      parseInt(shiftData.grace_minutes, 10) || 0,
+      parseInt(shiftData.early_exit_grace_minutes, 10) || 0,
+      parseInt(shiftData.overtime_threshold_minutes, 10) || 0,
+      shiftData.color || '#3b82f6',
+      !!shiftData.is_default,
+      shiftData.is_active !== false,
+    ];
+
+    let result;
+    if (shiftId) {
+      result = await client.query(
+        `UPDATE public.shifts
+         SET name = $1, code = $2, start_time = $3, end_time = $4, break_minutes = $5,
+             grace_minutes = $6, early_exit_grace_minutes = $7, overtime_threshold_minutes = $8,
+             color = $9, is_default = $10, is_active = $11, updated_at = NOW()
+         WHERE id = $12
+         RETURNING *, (end_time <= start_time) AS is_night_shift`,
+        [...values, shiftId]
+      );
+      if (result.rows.length === 0) {
+        throw new Error('Shift not found');
+      }
+    } else {
+      result = await client.query(
+        `INSERT INTO public.shifts (
+          name, code, start_time, end_time, break_minutes, grace_minutes,
+          early_exit_grace_minutes, overtime_threshold_minutes, color, is_default, is_active,
+          agency_id, created_by
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+        RETURNING *, (end_time <= start_time) AS is_night_shift`,
+        [...values, agencyId, userId]
+      );
+    }
+
+    await client.query('COMMIT');
+    return result.rows[0];
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) await client.pool.end();
+  }
+}
+
+/**
+ * Delete a shift. Shifts already rostered or recorded on attendance are deactivated instead.
+ */
+async function deleteShift(agencyDatabase, agencyId, shiftId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const usage = await client.query(
+      `SELECT
+         EXISTS (SELECT 1 FROM public.shift_assignments WHERE shift_id = $1) AS rostered,
+         EXISTS (SELECT 1 FROM public.attendance WHERE shift_id = $1) AS attended`,
+      [shiftId]
+    );
+    if (usage.rows[0].rostered || usage.rows[0].attended) {
+      const result = await client.query(
+        `UPDATE public.shifts SET is_active = false, is_default = false, updated_at = NOW()
+         WHERE id = $1 RETURNING id`,
+        [shiftId]
+      );
+      if (result.rows.length === 0) {
+        throw new Error('Shift not found');
+      }
+      return { id: shiftId, deactivated: true };
+    }
+
+    const result = await client.query(`DELETE FROM public.shifts WHERE id = $1 RETURNING id`, [shiftId]);
+    if (result.rows.length === 0) {
+      throw new Error('Shift not found');
+    }
+    return { id: shiftId, deactivated: false };
+  } finally {
+    client.release();
+    if (client.pool) await client.pool.end();
+  }
+}
+
+/**
+ * Get shift rotations
+ */
+async function getRotations(agencyDatabase, agencyId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const result = await client.query(`SELECT * FROM public.shift_rotations ORDER BY name`);
+    return result.rows;
+  } catch (error) {
+    if (error.code === '42P01') return [];
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) await client.pool.end();
+  }
+}
+
+/**
+ * Create or update a shift rotation
+ */
+async function saveRotation(agencyDatabase, agencyId, rotationData, userId, rotationId = null) {
+  if (!rotationData.name || !String(rotationData.name).trim()) {
+    throw new Error('Rotation name is required');
+  }
+  const pattern = Array.isArray(rotationData.pattern) ? rotationData.pattern.map((id) => id || null) : [];
+  if (pattern.length === 0) {
+    throw new Error('A rotation needs at least one day in its pattern');
+  }
+  if (!pattern.some(Boolean)) {
+    throw new Error('A rotation needs at least one working day');
+  }
+
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const shiftIds = [...new Set(pattern.filter(Boolean))];
+    const shifts = await client.query(`SELECT id FROM public.shifts WHERE id = ANY($1::uuid[]) AND is_active = true`, [shiftIds]);
+    if (shifts.rows.length !== shiftIds.length) {
+      throw new Error('Rotation pattern references an unknown or inactive shift');
+    }
+
+    const values = [
+      String(rotationData.name).trim(),
+      rotationData.description || null,
+      JSON.stringify(pattern),
+      rotationData.is_active !== false,
+    ];
+
+    let result;
+    if (rotationId) {
+      result = await client.query(
+        `UPDATE public.shift_rotations
+         SET name = $1, description = $2, pattern = $3, is_active = $4, updated_at = NOW()
+         WHERE id = $5
+         RETURNING *`,
+        [...values, rotationId]
+      );
+      if (result.rows.length === 0) {
+        throw new Error('Shift rotation not found');
+      }
+    } else {
+      result = await client.query(
+        `INSERT INTO public.shift_rotations (name, description, pattern, is_active, agency_id, created_by)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         RETURNING *`,
+        [...values, agencyId, userId]
+      );
+    }
+    return result.rows[0];
+  } finally {
+    client.release();
+    if (client.pool) await client.pool.end();
+  }
+}
+
+/**
+ * Delete a shift rotation. Roster entries it generated are kept.
+ */
+async function deleteRotation(agencyDatabase, agencyId, rotationId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const result = await client.query(`DELETE FROM public.shift_rotations WHERE id = $1 RETURNING id`, [rotationId]);
+    if (result.rows.length === 0) {
+      throw new Error('Shift rotation not found');
+    }
+    return { id: rotationId };
+  } finally {
+    client.release();
+    if (client.pool) await client.pool.end();
+  }
+}
+
+async function loadRosterEmployees(client, departmentId) {
+  const result = await client.query(
+    `SELECT ed.user_id,
+            COALESCE(p.full_name, TRIM(CONCAT(ed.first_name, ' ', ed.last_name))) AS full_name,
+            ta.department_id, d.name AS department_name
+     FROM public.employee_details ed
+     LEFT JOIN public.profiles p ON p.user_id = ed.user_id
+     LEFT JOIN LATERAL (
+       SELECT department_id FROM public.team_assignments
+       WHERE user_id = ed.user_id AND COALESCE(is_active, true) = true
+       ORDER BY assigned_at DESC NULLS LAST
+       LIMIT 1
+     ) ta ON true
+     LEFT JOIN public.departments d ON d.id = ta.department_id
+     WHERE ed.user_id IS NOT NULL
+       AND COALESCE(ed.is_active, true) = true
+       AND ($1::uuid IS NULL OR ta.department_id = $1)
+     ORDER BY full_name`,
+    [departmentId || null]
+  );
+  return result.rows;
+}
+
+/**
+ * Get the roster for a date range (a week by default): employees, their shift assignments,
+ * and attendance already recorded against them
+ */
+async function getRoster(agencyDatabase, agencyId, filters = {}) {
+  const startDate = toDateString(filters.start_date) || toDateString(new Date());
+  const endDate = toDateString(filters.end_date) || addDays(startDate, 6);
+  if (endDate < startDate) {
+    throw new Error('End date cannot be before start date');
+  }
+  if (daysBetween(startDate, endDate) > 41) {
+    throw new Error('A roster can cover at most 6 weeks');
+  }
+
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const employees = await loadRosterEmployees(client, filters.department_id);
+    const employeeIds = employees.map((employee) => employee.user_id);
+
+    const assignments = await client.query(
+      `SELECT sa.*, s.name AS shift_name, s.code AS shift_code, s.color AS shift_color,
+              s.start_time, s.end_time, (s.end_time <= s.start_time) AS is_night_shift,
+              r.name AS rotation_name
+       FROM public.shift_assignments sa
+       LEFT JOIN public.shifts s ON s.id = sa.shift_id
+       LEFT JOIN public.shift_rotations r ON r.id = sa.rotation_id
+       WHERE sa.employee_id = ANY($1::uuid[]) AND sa.shift_date BETWEEN $2 AND $3
+       ORDER BY sa.shift_date`,
+      [employeeIds, startDate, endDate]
+    );
+
+    const attendance = await client.query(
+      `SELECT id, COALESCE(employee_id, user_id) AS employee_id, date, check_in_time, check_out_time,
+              status, total_hours, overtime_hours, late_minutes, early_out_minutes, shift_id
+       FROM public.attendance
+       WHERE COALESCE(employee_id, user_id) = ANY($1::uuid[]) AND date BETWEEN $2 AND $3`,
+      [employeeIds, startDate, endDate]
+    );
+
+    return {
+      start_date: startDate,
+      end_date: endDate,
+      employees,
+      assignments: assignments.rows.map((row) => ({ ...row, shift_date: toDateString(row.shift_date) })),
+      attendance: attendance.rows.map((row) => ({ ...row, date: toDateString(row.date) })),
+    };
+  } finally {
+    client.release();
+    if (client.pool) await client.pool.end();
+  }
+}
+
+/**
+ * Save roster changes. Each entry sets an employee's shift for a date (shift_id null for a day off),
+ * or removes the entry when `clear` is set.
+ */
+async function saveRosterAssignments(agencyDatabase, agencyId, entries, userId) {
+  if (!Array.isArray(entries) || entries.length === 0) {
+    throw new Error('No roster changes to save');
+  }
+
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    await client.query('BEGIN');
+
+    const shiftIds = [...new Set(entries.filter((entry) => !entry.clear && entry.shift_id).map((entry) => entry.shift_id))];
+    if (shiftIds.length > 0) {
+      const shifts = await client.query(
+        `SELECT id FROM public.shifts WHERE id = ANY($1::uuid[]) AND is_active = true`,
+        [shiftIds]
+      );
+      if (shifts.rows.length !== shiftIds.length) {
+        throw new Error('Cannot roster an unknown or inactive shift');
+      }
+    }
+
+    let saved = 0;
+    let cleared = 0;
+    for (const entry of entries) {
+      const shiftDate = toDateString(entry.shift_date);
+      if (!entry.employee_id || !shiftDate) {
+        throw new Error('Each roster entry needs an employee and a date');
+      }
+
+      if (entry.clear) {
+        const result = await client.query(
+          `DELETE FROM public.shift_assignments WHERE employee_id = $1 AND shift_date = $2`,
+          [entry.employee_id, shiftDate]
+        );
+        cleared += result.rowCount;
+        continue;
+      }
+
+      await client.query(
+        `INSERT INTO public.shift_assignments (
+          agency_id, employee_id, shift_date, shift_id, department_id, notes, created_by
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+        ON CONFLICT (employee_id, shift_date) DO UPDATE
+        SET shift_id = EXCLUDED.shift_id,
+            department_id = COALESCE(EXCLUDED.department_id, shift_assignments.department_id),
+            notes = EXCLUDED.notes,
+            rotation_id = NULL,
+            updated_at = NOW()`,
+        [agencyId, entry.employee_id, shiftDate, entry.shift_id || null, entry.department_id || null, entry.notes || null, userId]
+      );
+      saved += 1;
+    }
+
+    await client.query('COMMIT');
+    return { saved, cleared };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) await client.pool.end();
+  }
+}
+
+/**
+ * Copy one week's roster onto another week, overwriting entries already there
+ */
+async function copyRosterWeek(agencyDatabase, agencyId, copyData, userId) {
+  const fromStart = toDateString(copyData.from_start_date);
+  const toStart = toDateString(copyData.to_start_date);
+  if (!fromStart || !toStart) {
+    throw new Error('Source and target week start dates are required');
+  }
+  if (fromStart === toStart) {
+    throw new Error('Source and target weeks must differ');
+  }
+
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    await client.query('BEGIN');
+    const employees = await loadRosterEmployees(client, copyData.department_id);
+    const result = await client.query(
+      `INSERT INTO public.shift_assignments (
+        agency_id, employee_id, shift_date, shift_id, department_id, notes, created_by
+      )
+      SELECT $1, sa.employee_id, sa.shift_date + ($4::date - $3::date), sa.shift_id, sa.department_id, sa.notes, $5
+      FROM public.shift_assignments sa
+      LEFT JOIN public.shifts s ON s.id = sa.shift_id
+      WHERE sa.employee_id = ANY($2::uuid[])
+        AND sa.shift_date BETWEEN $3::date AND $3::date + 6
+        AND (sa.shift_id IS NULL OR s.is_active = true)
+      ON CONFLICT (employee_id, shift_date) DO UPDATE
+      SET shift_id = EXCLUDED.shift_id,
+          department_id = EXCLUDED.department_id,
+          notes = EXCLUDED.notes,
+          rotation_id = NULL,
+          updated_at = NOW()`,
+      [agencyId, employees.map((employee) => employee.user_id), fromStart, toStart, userId]
+    );
+    await client.query('COMMIT');
+    return { copied: result.rowCount };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) await client.pool.end();
+  }
+}
+
+/**
+ * Roster employees onto a rotation for a date range. `offset` shifts where in the
+ * pattern each employee starts, so teams on the same rotation can be staggered.
+ */
+async function applyRotation(agencyDatabase, agencyId, rotationData, userId) {
+  const startDate = toDateString(rotationData.start_date);
+  const endDate = toDateString(rotationData.end_date);
+  const employeeIds = Array.isArray(rotationData.employee_ids) ? rotationData.employee_ids : [];
+  if (!rotationData.rotation_id || !startDate || !endDate) {
+    throw new Error('Rotation, start date and end date are required');
+  }
+  if (employeeIds.length === 0) {
+    throw new Error('Select at least one employee');
+  }
+  if (endDate < startDate) {
+    throw new Error('End date cannot be before start date');
+  }
+  if (daysBetween(startDate, endDate) > 366) {
+    throw new Error('A rotation can be applied for at most one year at a time');
+  }
+
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    await client.query('BEGIN');
+    const rotationResult = await client.query(
+      `SELECT * FROM public.shift_rotations WHERE id = $1 AND is_active = true`,
+      [rotationData.rotation_id]
+    );
+    const rotation = rotationResult.rows[0];
+    if (!rotation) {
+      throw new Error('Shift rotation not found or inactive');
+    }
+    const pattern = Array.isArray(rotation.pattern) ? rotation.pattern : [];
+    if (pattern.length === 0) {
+      throw new Error('Shift rotation has an empty pattern');
+    }
+    const offset = ((parseInt(rotationData.offset, 10) || 0) % pattern.length + pattern.length) % pattern.length;
+
+    let saved = 0;
+    for (const employeeId of employeeIds) {
+      for (let day = 0; day <= daysBetween(startDate, endDate); day += 1) {
+        const shiftId = pattern[(day + offset) % pattern.length] || null;
+        await client.query(
+          `INSERT INTO public.shift_assignments (
+            agency_id, employee_id, shift_date, shift_id, department_id, rotation_id, created_by
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+          ON CONFLICT (employee_id, shift_date) DO UPDATE
+          SET shift_id = EXCLUDED.shift_id,
+              department_id = COALESCE(EXCLUDED.department_id, shift_assignments.department_id),
+              rotation_id = EXCLUDED.rotation_id,
+              updated_at = NOW()`,
+          [agencyId, employeeId, addDays(startDate, day), shiftId, rotationData.department_id || null, rotation.id, userId]
+        );
+        saved += 1;
+      }
+    }
+
+    await client.query('COMMIT');
+    return { saved };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) await client.pool.end();
+  }
+}
+
+const toResolvedShift = (row, isOffDay = false) => ({
+  shift_date: toDateString(row.shift_date),
+  assignment_id: row.assignment_id || null,
+  shift: row.shift_id
+    ? {
+        id: row.shift_id,
+        name: row.name,
+        code: row.code,
+        start_time: row.start_time,
+        end_time: row.end_time,
+        break_minutes: parseInt(row.break_minutes, 10) || 0,
+        grace_minutes: parseInt(row.grace_minutes, 10) || 0,
+        early_exit_grace_minutes: parseInt(row.early_exit_grace_minutes, 10) || 0,
+        overtime_threshold_minutes: parseInt(row.overtime_threshold_minutes, 10) || 0,
+      }
+    : null,
+  scheduled_start: row.shift_id ? row.scheduled_start : null,
+  scheduled_end: row.shift_id ? row.scheduled_end : null,
+  is_off_day: isOffDay,
+});
+
+async function resolveDefaultShift(client, timezone, shiftDate) {
+  const fallback = await client.query(
+    `SELECT NULL::uuid AS assignment_id, $2::date AS shift_date, s.id AS shift_id, s.*, ${shiftWindowSql('$2::date', '$1')}
+     FROM public.shifts s
+     WHERE s.is_default = true AND s.is_active = true
+     LIMIT 1`,
+    [timezone, shiftDate]
+  );
+  if (fallback.rows[0]) return toResolvedShift(fallback.rows[0]);
+
+  return { shift_date: shiftDate, assignment_id: null, shift: null, scheduled_start: null, scheduled_end: null, is_off_day: false };
+}
+
+/**
+ * Find the shift an employee is working at a moment. A roster entry from yesterday still
+ * applies while its night shift runs; otherwise today's entry, then the default shift.
+ * Returns { shift_date, assignment_id, shift, scheduled_start, scheduled_end, is_off_day }.
+ */
+async function resolveShift(client, employeeId, timezone, at = new Date()) {
+  const todayResult = await client.query(`SELECT ($1::timestamptz AT TIME ZONE $2)::date AS today`, [at, timezone]);
+  const today = toDateString(todayResult.rows[0].today);
+
+  const rostered = await client.query(
+    `SELECT sa.id AS assignment_id, sa.shift_date, sa.shift_id, s.*, ${shiftWindowSql('sa.shift_date', '$2')}
+     FROM public.shift_assignments sa
+     LEFT JOIN public.shifts s ON s.id = sa.shift_id
+     WHERE sa.employee_id = $1 AND sa.shift_date BETWEEN $3::date - 1 AND $3::date
+     ORDER BY sa.shift_date DESC`,
+    [employeeId, timezone, today]
+  );
+
+  const now = new Date(at).getTime();
+  const inWindow = rostered.rows.find(
+    (row) =>
+      row.shift_id &&
+      now >= new Date(row.scheduled_start).getTime() - EARLY_CLOCK_IN_HOURS * 3600000 &&
+      now <= new Date(row.scheduled_end).getTime()
+  );
+  if (inWindow) return toResolvedShift(inWindow);
+
+  const todayEntry = rostered.rows.find((row) => toDateString(row.shift_date) === today);
+  if (todayEntry) return toResolvedShift(todayEntry, !todayEntry.shift_id);
+
+  return resolveDefaultShift(client, timezone, today);
+}
+
+/**
+ * Find the shift an employee was rostered on for a date: the roster entry, else the default shift
+ */
+async function resolveShiftForDate(client, employeeId, timezone, shiftDate) {
+  const rostered = await client.query(
+    `SELECT sa.id AS assignment_id, sa.shift_date, sa.shift_id, s.*, ${shiftWindowSql('sa.shift_date', '$2')}
+     FROM public.shift_assignments sa
+     LEFT JOIN public.shifts s ON s.id = sa.shift_id
+     WHERE sa.employee_id = $1 AND sa.shift_date = $3`,
+    [employeeId, timezone, shiftDate]
+  );
+  if (rostered.rows[0]) return toResolvedShift(rostered.rows[0], !rostered.rows[0].shift_id);
+
+  return resolveDefaultShift(client, timezone, shiftDate);
+}
+
+/**
+ * Measure a completed day against its shift. Hours worked exclude the shift break; leaving before
+ * the shift end (beyond its grace) is an early-out, and time past the shift end counts as overtime
+ * once it reaches the shift's threshold. Every hour on a rostered day off is overtime, and without
+ * a shift anything past a standard day is.
+ */
+function computeAttendanceMetrics(checkInTime, checkOutTime, resolved) {
+  const grossMinutes = Math.max(0, minutesBetween(checkInTime, checkOutTime));
+  const shift = resolved && resolved.scheduled_start && resolved.scheduled_end ? resolved.shift : null;
+
+  let workedMinutes = grossMinutes;
+  let lateMinutes = 0;
+  let overtimeMinutes = 0;
+  let earlyOutMinutes = 0;
+  let halfDayMinutes = 4 * 60;
+
+  if (shift) {
+    const scheduledMinutes = Math.max(0, minutesBetween(resolved.scheduled_start, resolved.scheduled_end) - shift.break_minutes);
+    // A break is only taken on a day that ran past half the shift
+    if (grossMinutes > scheduledMinutes / 2) {
+      workedMinutes = Math.max(0, grossMinutes - shift.break_minutes);
+    }
+    halfDayMinutes = scheduledMinutes / 2;
+
+    const minutesLate = minutesBetween(resolved.scheduled_start, checkInTime);
+    if (minutesLate > shift.grace_minutes) {
+      lateMinutes = minutesLate;
+    }
+    const minutesEarly = minutesBetween(checkOutTime, resolved.scheduled_end);
+    if (minutesEarly > shift.early_exit_grace_minutes) {
+      earlyOutMinutes = minutesEarly;
+    }
+    const minutesPastEnd = minutesBetween(resolved.scheduled_end, checkOutTime);
+    if (minutesPastEnd > 0 && minutesPastEnd >= shift.overtime_threshold_minutes) {
+      overtimeMinutes = minutesPastEnd;
+    }
+  } else if (resolved && resolved.is_off_day) {
+    overtimeMinutes = workedMinutes;
+  } else if (workedMinutes > STANDARD_DAY_HOURS * 60) {
+    overtimeMinutes = workedMinutes - STANDARD_DAY_HOURS * 60;
+  }
+
+  return {
+    total_hours: round2(workedMinutes / 60),
+    overtime_hours: round2(overtimeMinutes / 60),
+    late_minutes: lateMinutes,
+    early_out_minutes: earlyOutMinutes,
+    is_half_day: !(resolved && resolved.is_off_day) && workedMinutes < halfDayMinutes,
+  };
+}
+
+/**
+ * Get the shift an employee is working now (or next today), for display before clocking in
+ */
+async function getCurrentShift(agencyDatabase, agencyId, employeeId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const timezone = await getAgencyTimezone(client);
+    return await resolveShift(client, employeeId, timezone);
+  } finally {
+    client.release();
+    if (client.pool) await client.pool.end();
+  }
+}
+
+/**
+ * Clock in against the rostered shift. Arriving after the shift start plus its grace period is late.
+ */
+async function clockIn(agencyDatabase, agencyId, employeeId, clockData = {}) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const timezone = await getAgencyTimezone(client);
+    const now = new Date();
+    const resolved = await resolveShift(client, employeeId, timezone, now);
+
+    const open = await client.query(
+      `SELECT id FROM public.attendance
+       WHERE COALESCE(employee_id, user_id) = $1 AND check_in_time IS NOT NULL AND check_out_time IS NULL
+         AND check_in_time > NOW() - INTERVAL '24 hours'`,
+      [employeeId]
+    );
+    if (open.rows.length > 0) {
+      throw new Error('Already clocked in; clock out first');
+    }
+    const existing = await client.query(
+      `SELECT id FROM public.attendance WHERE COALESCE(employee_id, user_id) = $1 AND date = $2 AND check_in_time IS NOT NULL`,
+      [employeeId, resolved.shift_date]
+    );
+    if (existing.rows.length > 0) {
+      throw new Error(resolved.shift ? 'Already clocked in for this shift' : 'Already clocked in today');
+    }
+
+    let lateMinutes = 0;
+    let status = 'present';
+    if (resolved.shift) {
+      const minutesLate = minutesBetween(resolved.scheduled_start, now);
+      if (minutesLate > resolved.shift.grace_minutes) {
+        lateMinutes = minutesLate;
+        status = 'late';
+      }
+    }
+
+    const result = await client.query(
+      `INSERT INTO public.attendance (
+        user_id, employee_id, date, check_in_time, status, location, agency_id, notes,
+        shift_assignment_id, shift_id, scheduled_start, scheduled_end, late_minutes, early_out_minutes
+      ) VALUES ($1, $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, 0)
+      ON CONFLICT (user_id, date) DO UPDATE
+      SET check_in_time = EXCLUDED.check_in_time,
+          status = EXCLUDED.status,
+          location = EXCLUDED.location,
+          notes = COALESCE(EXCLUDED.notes, attendance.notes),
+          shift_assignment_id = EXCLUDED.shift_assignment_id,
+          shift_id = EXCLUDED.shift_id,
+          scheduled_start = EXCLUDED.scheduled_start,
+          scheduled_end = EXCLUDED.scheduled_end,
+          late_minutes = EXCLUDED.late_minutes,
+          updated_at = NOW()
+      RETURNING *`,
+      [
+        employeeId,
+        resolved.shift_date,
+        now,
+        status,
+        clockData.location || null,
+        agencyId,
+        resolved.is_off_day ? 'Worked on a rostered day off' : null,
+        resolved.assignment_id,
+        resolved.shift ? resolved.shift.id : null,
+        resolved.scheduled_start,
+        resolved.scheduled_end,
+        lateMinutes,
+      ]
+    );
+
+    return { ...result.rows[0], date: toDateString(result.rows[0].date), shift: resolved.shift, is_off_day: resolved.is_off_day };
+  } finally {
+    client.release();
+    if (client.pool) await client.pool.end();
+  }
+}
+
+/**
+ * Clock out of the open attendance record, measuring the day against the shift it was clocked in for
+ */
+async function clockOut(agencyDatabase, agencyId, employeeId, clockData = {}) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const openResult = await client.query(
+      `SELECT a.*, s.name, s.code, s.start_time, s.end_time, s.break_minutes, s.grace_minutes,
+              s.early_exit_grace_minutes, s.overtime_threshold_minutes
+       FROM public.attendance a
+       LEFT JOIN public.shifts s ON s.id = a.shift_id
+       WHERE COALESCE(a.employee_id, a.user_id) = $1 AND a.check_in_time IS NOT NULL AND a.check_out_time IS NULL
+       ORDER BY a.check_in_time DESC
+       LIMIT 1`,
+      [employeeId]
+    );
+    const record = openResult.rows[0];
+    if (!record) {
+      throw new Error('Not clocked in');
+    }
+
+    const now = new Date();
+    const isOffDay = !!record.shift_assignment_id && !record.shift_id;
+    const metrics = computeAttendanceMetrics(
+      record.check_in_time,
+      now,
+      toResolvedShift({ ...record, shift_date: record.date, assignment_id: record.shift_assignment_id }, isOffDay)
+    );
+    const status = metrics.is_half_day ? 'half_day' : record.status;
+    const location =
+      record.location && clockData.location
+        ? `In: ${record.location} | Out: ${clockData.location}`
+        : clockData.location || record.location;
+
+    const result = await client.query(
+      `UPDATE public.attendance
+       SET check_out_time = $2, hours_worked = $3, total_hours = $3, overtime_hours = $4,
+           early_out_minutes = $5, status = $6, location = $7, updated_at = NOW()
+       WHERE id = $1
+       RETURNING *`,
+      [record.id, now, metrics.total_hours, metrics.overtime_hours, metrics.early_out_minutes, status, location]
+    );
+
+    return { ...result.rows[0], date: toDateString(result.rows[0].date), is_off_day: isOffDay };
+  } finally {
+    client.release();
+    if (client.pool) await client.pool.end();
+  }
+}
+
+module.exports = {
+  getShifts,
+  saveShift,
+  deleteShift,
+  getRotations,
+  saveRotation,
+  deleteRotation,
+  getRoster,
+  saveRosterAssignments,
+  copyRosterWeek,
+  applyRotation,
+  getCurrentShift,
+  clockIn,
+  clockOut,
+  getAgencyTimezone,
+  resolveShiftForDate,
+  computeAttendanceMetrics,
+};
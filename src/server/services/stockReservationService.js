@@ -0,0 +1,612 @@
+/**
+ * Stock Reservation Service
+ * Holds stock for projects, tasks and accepted quotations, issues it to the project
+ * (costing it to the linked job), and releases holds that expire or lose their source
+ */
+
+const { parseDatabaseUrl } = require('../utils/poolManager');
+const { Pool } = require('pg');
+const { round2 } = require('../utils/numberHelper');
+const cron = require('node-cron');
+const { pool: mainPool } = require('../config/database');
+const { recordInventoryTransaction } = require('./inventoryService');
+
+// Lapsed reservations are swept every hour
+const RESERVATION_RELEASE_SCHEDULE = process.env.RESERVATION_RELEASE_SCHEDULE || '15 * * * *';
+
+const DEFAULT_EXPIRY_DAYS = 30;
+
+const REFERENCE_TYPES = ['project', 'task', 'quotation'];
+// Sources in these statuses no longer need their stock
+const CLOSED_PROJECT_STATUSES = ['cancelled'];
+const CLOSED_TASK_STATUSES = ['cancelled'];
+const CLOSED_QUOTATION_STATUSES = ['rejected', 'expired', 'cancelled'];
+
+/**
+ * Get agency database connection
+ */
+async function getAgencyConnection(agencyDatabase) {
+  const { host, port, user, password } = parseDatabaseUrl();
+  const agencyDbUrl = `postgresql://${user}:${password}@${host}:${port}/${agencyDatabase}`;
+  const agencyPool = new Pool({ connectionString: agencyDbUrl, max: 1 });
+  const client = await agencyPool.connect();
+  // Attach pool to client for cleanup
+  client.pool = agencyPool;
+  return client;
+}
+
+const openQuantity = (reservation) =>
+  round2(
+    parseFloat(reservation.quantity) -
+      (parseFloat(reservation.issued_quantity) || 0) -
+      (parseFloat(reservation.released_quantity) || 0)
+  );
+
+async function getExpiryDays(client, agencyId) {
+  const result = await client.query(
+    `SELECT settings->>'reservation_expiry_days' AS days FROM public.module_settings
+     WHERE agency_id = $1 AND module = 'inventory'`,
+    [agencyId]
+  );
+  const days = parseInt(result.rows[0]?.days);
+  return Number.isFinite(days) && days >= 0 ? days : DEFAULT_EXPIRY_DAYS;
+}
+
+async function generateReservationNumber(client, agencyId) {
+  const year = new Date().getFullYear();
+  const result = await client.query(
+    `SELECT COUNT(*) as count
+     FROM public.inventory_reservations
+     WHERE agency_id = $1
+     AND reservation_number LIKE $2`,
+    [agencyId, `RES-${year}-%`]
+  );
+  const count = parseInt(result.rows[0].count) + 1;
+  return `RES-${year}-${String(count).padStart(5, '0')}`;
+}
+
+const RESERVATION_SELECT = `
+  SELECT
+    r.*,
+    p.name as product_name,
+    p.sku as product_sku,
+    w.name as warehouse_name,
+    pr.name as project_name,
+    pr.status as project_status,
+    t.title as task_title,
+    COALESCE(q.quotation_number, q.quote_number) as quotation_number,
+    q.title as quotation_title,
+    q.status as quotation_status,
+    j.name as job_name,
+    j.job_number
+  FROM public.inventory_reservations r
+  LEFT JOIN public.products p ON r.product_id = p.id
+  LEFT JOIN public.warehouses w ON r.warehouse_id = w.id
+  LEFT JOIN public.projects pr ON r.project_id = pr.id
+  LEFT JOIN public.tasks t ON r.task_id = t.id
+  LEFT JOIN public.quotations q ON r.quotation_id = q.id
+  LEFT JOIN public.jobs j ON r.job_id = j.id
+`;
+
+async function loadReservation(client, agencyId, reservationId) {
+  const result = await client.query(
+    `${RESERVATION_SELECT} WHERE r.id = $1 AND r.agency_id = $2`,
+    [reservationId, agencyId]
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * Give back the open quantity of a reservation and close it
+ */
+async function releaseOpenQuantity(client, reservation, status, reason) {
+  const remaining = openQuantity(reservation);
+  await client.query(
+    `UPDATE public.inventory_reservations
+     SET released_quantity = released_quantity + $2, status = $3, release_reason = $4, released_at = NOW()
+     WHERE id = $1`,
+    [reservation.id, Math.max(remaining, 0), status, reason || null]
+  );
+  if (remaining > 0) {
+    await client.query(
+      `UPDATE public.inventory
+       SET reserved_quantity = GREATEST(reserved_quantity - $2, 0), updated_at = NOW()
+       WHERE id = $1`,
+      [reservation.inventory_id, remaining]
+    );
+  }
+  return remaining;
+}
+
+/**
+ * Get stock reservations
+ */
+async function getReservations(agencyDatabase, agencyId, filters = {}) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    let query = `${RESERVATION_SELECT} WHERE r.agency_id = $1`;
+    const params = [agencyId];
+    let paramIndex = 2;
+
+    for (const column of ['status', 'inventory_id', 'product_id', 'warehouse_id', 'project_id', 'quotation_id', 'job_id', 'reference_type']) {
+      if (filters[column]) {
+        query += ` AND r.${column} = $${paramIndex}`;
+        params.push(filters[column]);
+        paramIndex++;
+      }
+    }
+
+    query += ' ORDER BY r.created_at DESC';
+
+    const result = await client.query(query, params);
+    return result.rows;
+  } catch (error) {
+    if (error.code === '42P01' || error.message.includes('does not exist')) {
+      return [];
+    }
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Projects, open tasks, accepted quotations and jobs that stock can be reserved or costed against
+ */
+async function getReservationTargets(agencyDatabase, agencyId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const projects = await client.query(
+      `SELECT id, name, project_code, status FROM public.projects
+       WHERE agency_id = $1 AND status NOT IN ('completed', 'cancelled')
+       ORDER BY name`,
+      [agencyId]
+    );
+    const tasks = await client.query(
+      `SELECT t.id, t.title, t.project_id, t.status FROM public.tasks t
+       JOIN public.projects p ON t.project_id = p.id
+       WHERE p.agency_id = $1 AND p.status NOT IN ('completed', 'cancelled')
+         AND t.status NOT IN ('completed', 'cancelled')
+       ORDER BY t.title`,
+      [agencyId]
+    );
+    const quotations = await client.query(
+      `SELECT id, COALESCE(quotation_number, quote_number) as quotation_number, title, status
+       FROM public.quotations
+       WHERE agency_id = $1 AND status = 'accepted'
+       ORDER BY created_at DESC`,
+      [agencyId]
+    );
+    const jobs = await client.query(
+      `SELECT id, job_number, name, status FROM public.jobs
+       WHERE agency_id = $1 AND COALESCE(status, 'planning') NOT IN ('completed', 'cancelled')
+       ORDER BY name`,
+      [agencyId]
+    );
+    return {
+      projects: projects.rows,
+      tasks: tasks.rows,
+      quotations: quotations.rows,
+      jobs: jobs.rows,
+    };
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Work out project/task/quotation for a new reservation from its reference
+ */
+async function resolveReference(client, agencyId, data) {
+  const referenceType = data.reference_type;
+  if (!REFERENCE_TYPES.includes(referenceType)) {
+    throw new Error('Reservations must reference a project, task or quotation');
+  }
+
+  if (referenceType === 'quotation') {
+    const quotation = await client.query(
+      'SELECT id, status FROM public.quotations WHERE id = $1 AND agency_id = $2',
+      [data.quotation_id, agencyId]
+    );
+    if (quotation.rows.length === 0) {
+      throw new Error('Quotation not found');
+    }
+    if (quotation.rows[0].status !== 'accepted') {
+      throw new Error('Stock can only be reserved against an accepted quotation');
+    }
+    return { project_id: data.project_id || null, task_id: null, quotation_id: quotation.rows[0].id };
+  }
+
+  let projectId = data.project_id;
+  let taskId = null;
+  if (referenceType === 'task') {
+    const task = await client.query(
+      `SELECT t.id, t.project_id, t.status FROM public.tasks t
+       JOIN public.projects p ON t.project_id = p.id
+       WHERE t.id = $1 AND p.agency_id = $2`,
+      [data.task_id, agencyId]
+    );
+    if (task.rows.length === 0) {
+      throw new Error('Task not found');
+    }
+    if (CLOSED_TASK_STATUSES.includes(task.rows[0].status) || task.rows[0].status === 'completed') {
+      throw new Error(`Task is ${task.rows[0].status}`);
+    }
+    taskId = task.rows[0].id;
+    projectId = task.rows[0].project_id;
+  }
+
+  const project = await client.query(
+    'SELECT id, status FROM public.projects WHERE id = $1 AND agency_id = $2',
+    [projectId, agencyId]
+  );
+  if (project.rows.length === 0) {
+    throw new Error('Project not found');
+  }
+  if (['completed', 'cancelled'].includes(project.rows[0].status)) {
+    throw new Error(`Project is ${project.rows[0].status}`);
+  }
+  return { project_id: project.rows[0].id, task_id: taskId, quotation_id: null };
+}
+
+/**
+ * Reserve stock from one inventory record against a project, task or accepted quotation
+ */
+async function createReservation(agencyDatabase, agencyId, reservationData, userId) {
+  const quantity = round2(reservationData.quantity);
+  if (!(quantity > 0)) {
+    throw new Error('Reservation quantity must be greater than zero');
+  }
+
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    await client.query('BEGIN');
+
+    const inventoryResult = reservationData.inventory_id
+      ? await client.query(
+          'SELECT * FROM public.inventory WHERE id = $1 AND agency_id = $2 FOR UPDATE',
+          [reservationData.inventory_id, agencyId]
+        )
+      : await client.query(
+          `SELECT * FROM public.inventory
+           WHERE agency_id = $1 AND product_id = $2 AND warehouse_id = $3
+             AND COALESCE(variant_id, '00000000-0000-0000-0000-000000000000'::uuid) = COALESCE($4, '00000000-0000-0000-0000-000000000000'::uuid)
+           FOR UPDATE`,
+          [agencyId, reservationData.product_id, reservationData.warehouse_id, reservationData.variant_id || null]
+        );
+    const inventory = inventoryResult.rows[0];
+    if (!inventory) {
+      throw new Error('No stock of this product in the selected warehouse');
+    }
+
+    const available = round2(parseFloat(inventory.quantity) - (parseFloat(inventory.reserved_quantity) || 0));
+    if (quantity > available) {
+      throw new Error(`Only ${available} available to reserve`);
+    }
+
+    const reference = await resolveReference(client, agencyId, reservationData);
+
+    let expiresAt = reservationData.expires_at || null;
+    if (!expiresAt) {
+      const days = await getExpiryDays(client, agencyId);
+      if (days > 0) {
+        const expiry = new Date();
+        expiry.setUTCDate(expiry.getUTCDate() + days);
+        expiresAt = expiry.toISOString().split('T')[0];
+      }
+    }
+
+    const result = await client.query(
+      `INSERT INTO public.inventory_reservations (
+        id, agency_id, reservation_number, inventory_id, product_id, warehouse_id,
+        reference_type, project_id, task_id, quotation_id, job_id,
+        quantity, expires_at, notes, reserved_by, created_at, updated_at
+      ) VALUES (uuid_generate_v4(), $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, NOW(), NOW())
+      RETURNING id`,
+      [
+        agencyId,
+        await generateReservationNumber(client, agencyId),
+        inventory.id,
+        inventory.product_id,
+        inventory.warehouse_id,
+        reservationData.reference_type,
+        reference.project_id,
+        reference.task_id,
+        reference.quotation_id,
+        reservationData.job_id || null,
+        quantity,
+        expiresAt,
+        reservationData.notes || null,
+        userId,
+      ]
+    );
+
+    await client.query(
+      `UPDATE public.inventory
+       SET reserved_quantity = COALESCE(reserved_quantity, 0) + $2, updated_at = NOW()
+       WHERE id = $1`,
+      [inventory.id, quantity]
+    );
+
+    await client.query('COMMIT');
+    return await loadReservation(client, agencyId, result.rows[0].id);
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Release (cancel) the open quantity of a reservation
+ */
+async function releaseReservation(agencyDatabase, agencyId, reservationId, reason) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    await client.query('BEGIN');
+
+    const locked = await client.query(
+      'SELECT * FROM public.inventory_reservations WHERE id = $1 AND agency_id = $2 FOR UPDATE',
+      [reservationId, agencyId]
+    );
+    const reservation = locked.rows[0];
+    if (!reservation) {
+      throw new Error('Reservation not found');
+    }
+    if (reservation.status !== 'active') {
+      throw new Error(`Reservation is already ${reservation.status}`);
+    }
+
+    await releaseOpenQuantity(client, reservation, 'released', reason || 'Released manually');
+
+    await client.query('COMMIT');
+    return await loadReservation(client, agencyId, reservationId);
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Issue reserved stock to the project. The outbound movement is costed by the stock
+ * record's valuation method; the cost is kept on the reservation for project financials
+ * and, when a job is linked, added to the job's cost items as materials.
+ * Quotation reservations need the project they are issued to.
+ */
+async function issueReservation(agencyDatabase, agencyId, reservationId, issueData, userId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    await client.query('BEGIN');
+
+    const locked = await client.query(
+      'SELECT * FROM public.inventory_reservations WHERE id = $1 AND agency_id = $2 FOR UPDATE',
+      [reservationId, agencyId]
+    );
+    const reservation = locked.rows[0];
+    if (!reservation) {
+      throw new Error('Reservation not found');
+    }
+    if (reservation.status !== 'active') {
+      throw new Error(`Reservation is already ${reservation.status}`);
+    }
+
+    const remaining = openQuantity(reservation);
+    const quantity = issueData.quantity !== undefined && issueData.quantity !== null && issueData.quantity !== ''
+      ? round2(issueData.quantity)
+      : remaining;
+    if (!(quantity > 0) || quantity > remaining) {
+      throw new Error(`Issue quantity must be between 0 and the ${remaining} still reserved`);
+    }
+
+    let projectId = reservation.project_id;
+    if (!projectId) {
+      if (!issueData.project_id) {
+        throw new Error('Choose the project this quotation stock is issued to');
+      }
+      const project = await client.query(
+        `SELECT id FROM public.projects
+         WHERE id = $1 AND agency_id = $2 AND status NOT IN ('completed', 'cancelled')`,
+        [issueData.project_id, agencyId]
+      );
+      if (project.rows.length === 0) {
+        throw new Error('Project not found or already closed');
+      }
+      projectId = project.rows[0].id;
+    }
+
+    const inventoryResult = await client.query(
+      'SELECT * FROM public.inventory WHERE id = $1 FOR UPDATE',
+      [reservation.inventory_id]
+    );
+    const inventory = inventoryResult.rows[0];
+
+    // Lift the hold first so the outbound movement may take the reserved units
+    await client.query(
+      `UPDATE public.inventory
+       SET reserved_quantity = GREATEST(reserved_quantity - $2, 0)
+       WHERE id = $1`,
+      [inventory.id, quantity]
+    );
+
+    const transaction = await recordInventoryTransaction(
+      client,
+      {
+        agency_id: agencyId,
+        product_id: inventory.product_id,
+        variant_id: inventory.variant_id,
+        warehouse_id: inventory.warehouse_id,
+        transaction_type: 'OUT',
+        quantity,
+        reference_type: 'RESERVATION',
+        reference_id: reservation.id,
+        notes: issueData.notes || `Issued to project against ${reservation.reservation_number}`,
+      },
+      userId
+    );
+    const cost = round2(transaction.cost_of_goods);
+
+    const fullyUsed = round2(parseFloat(reservation.issued_quantity) + quantity + parseFloat(reservation.released_quantity))
+      >= round2(reservation.quantity);
+    await client.query(
+      `UPDATE public.inventory_reservations
+       SET issued_quantity = issued_quantity + $2, issued_cost = issued_cost + $3,
+           project_id = $4, status = $5
+       WHERE id = $1`,
+      [reservation.id, quantity, cost, projectId, fullyUsed ? 'issued' : 'active']
+    );
+
+    if (reservation.job_id) {
+      const product = await client.query('SELECT name, sku FROM public.products WHERE id = $1', [inventory.product_id]);
+      await client.query(
+        `INSERT INTO public.job_cost_items (job_id, item_name, category, quantity, unit_cost, total_cost, description)
+         VALUES ($1, $2, 'materials', $3, $4, $5, $6)`,
+        [
+          reservation.job_id,
+          product.rows[0] ? `${product.rows[0].name} (${product.rows[0].sku})` : 'Stock issue',
+          quantity,
+          round2(cost / quantity),
+          cost,
+          `Issued from stock against ${reservation.reservation_number}`,
+        ]
+      );
+      await client.query(
+        `UPDATE public.jobs
+         SET actual_cost = (SELECT COALESCE(SUM(total_cost), 0) FROM public.job_cost_items WHERE job_id = $1),
+             updated_at = NOW()
+         WHERE id = $1`,
+        [reservation.job_id]
+      );
+    }
+
+    await client.query('COMMIT');
+    return {
+      reservation: await loadReservation(client, agencyId, reservation.id),
+      transaction,
+    };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Release active reservations that have passed their expiry date, or whose project,
+ * task or quotation has been cancelled, rejected or has expired
+ */
+async function releaseLapsedReservations(agencyDatabase, agencyId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    await client.query('BEGIN');
+
+    const lapsed = await client.query(
+      `SELECT r.*,
+        CASE
+          WHEN pr.status = ANY($2::text[]) THEN 'Project ' || pr.status
+          WHEN t.status = ANY($3::text[]) THEN 'Task ' || t.status
+          WHEN r.project_id IS NULL AND q.status = ANY($4::text[]) THEN 'Quotation ' || q.status
+          ELSE 'Expired on ' || to_char(r.expires_at, 'YYYY-MM-DD')
+        END as lapse_reason,
+        r.expires_at < CURRENT_DATE as is_expired
+      FROM public.inventory_reservations r
+      LEFT JOIN public.projects pr ON r.project_id = pr.id
+      LEFT JOIN public.tasks t ON r.task_id = t.id
+      LEFT JOIN public.quotations q ON r.quotation_id = q.id
+      WHERE r.agency_id = $1 AND r.status = 'active'
+        AND (
+          pr.status = ANY($2::text[])
+          OR t.status = ANY($3::text[])
+          OR (r.project_id IS NULL AND q.status = ANY($4::text[]))
+          OR r.expires_at < CURRENT_DATE
+        )
+      FOR UPDATE OF r`,
+      [agencyId, CLOSED_PROJECT_STATUSES, CLOSED_TASK_STATUSES, CLOSED_QUOTATION_STATUSES]
+    );
+
+    let expired = 0;
+    let cancelled = 0;
+    for (const reservation of lapsed.rows) {
+      // A closed source wins over expiry when both apply
+      if (reservation.is_expired && reservation.lapse_reason.startsWith('Expired')) {
+        await releaseOpenQuantity(client, reservation, 'expired', reservation.lapse_reason);
+        expired++;
+      } else {
+        await releaseOpenQuantity(client, reservation, 'cancelled', reservation.lapse_reason);
+        cancelled++;
+      }
+    }
+
+    await client.query('COMMIT');
+    return { expired, cancelled };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Initialize the reservation release sweep across all active agencies
+ */
+function initializeReservationScheduler() {
+  cron.schedule(RESERVATION_RELEASE_SCHEDULE, async () => {
+    try {
+      const agencies = await mainPool.query(
+        `SELECT id, database_name FROM public.agencies
+         WHERE is_active = true AND database_name IS NOT NULL`
+      );
+
+      for (const agency of agencies.rows) {
+        try {
+          const result = await releaseLapsedReservations(agency.database_name, agency.id);
+          if (result.expired + result.cancelled > 0) {
+            console.log(
+              `[Reservations] Agency ${agency.id}: ${result.expired} expired, ${result.cancelled} cancelled with their source`
+            );
+          }
+        } catch (error) {
+          // Agencies without the inventory module have no reservations table
+          if (error.code === '42P01') continue;
+          console.error(`[Reservations] Release sweep failed for agency ${agency.id}:`, error.message);
+        }
+      }
+    } catch (error) {
+      console.error('[Reservations] Error running reservation release sweep:', error);
+    }
+  });
+
+  console.log('[Reservations] ✅ Scheduler initialized');
+}
+
+module.exports = {
+  getReservations,
+  getReservationTargets,
+  createReservation,
+  releaseReservation,
+  issueReservation,
+  releaseLapsedReservations,
+  initializeReservationScheduler,
+};
@@ -0,0 +1,912 @@
+/**
+ * Stock Take Service
+ * Full and ABC cycle counts per warehouse/zone: frozen count sheets, blind counting
+ * with barcode/serial scanning, variance review and a single adjustment posting
+ */
+
+const { parseDatabaseUrl } = require('../utils/poolManager');
+const { Pool } = require('pg');
+const { round2 } = require('../utils/numberHelper');
+const { recordInventoryTransaction } = require('./inventoryService');
+
+const COUNT_TYPES = ['full', 'cycle'];
+const ABC_CLASSES = ['A', 'B', 'C'];
+// Share of trailing-year issue value covered by class A, then A + B
+const DEFAULT_ABC_A_PERCENT = 80;
+const DEFAULT_ABC_B_PERCENT = 95;
+const ABC_LOOKBACK_DAYS = 365;
+
+// Serials still expected on the shelf
+const ON_HAND_SERIAL_STATUSES = ['available', 'reserved'];
+
+/**
+ * Get agency database connection
+ */
+async function getAgencyConnection(agencyDatabase) {
+  const { host, port, user, password } = parseDatabaseUrl();
+  const agencyDbUrl = `postgresql://${user}:${password}@${host}:${port}/${agencyDatabase}`;
+  const agencyPool = new Pool({ connectionString: agencyDbUrl, max: 1 });
+  const client = await agencyPool.connect();
+  // Attach pool to client for cleanup
+  client.pool = agencyPool;
+  return client;
+}
+
+async function generateSessionNumber(client, agencyId) {
+  const year = new Date().getFullYear();
+  const result = await client.query(
+    `SELECT COUNT(*) as count
+     FROM public.stock_take_sessions
+     WHERE agency_id = $1
+     AND session_number LIKE $2`,
+    [agencyId, `STK-${year}-%`]
+  );
+  const count = parseInt(result.rows[0].count) + 1;
+  return `STK-${year}-${String(count).padStart(5, '0')}`;
+}
+
+async function getAbcThresholds(client, agencyId) {
+  const result = await client.query(
+    `SELECT settings->>'abc_class_a_percent' AS a, settings->>'abc_class_b_percent' AS b
+     FROM public.module_settings
+     WHERE agency_id = $1 AND module = 'inventory'`,
+    [agencyId]
+  );
+  const a = parseFloat(result.rows[0]?.a);
+  const b = parseFloat(result.rows[0]?.b);
+  const classA = Number.isFinite(a) && a > 0 && a < 100 ? a : DEFAULT_ABC_A_PERCENT;
+  const classB = Number.isFinite(b) && b > classA && b <= 100 ? b : Math.max(DEFAULT_ABC_B_PERCENT, classA);
+  return { classA, classB };
+}
+
+/**
+ * Classify the warehouse's stock records by trailing-year issue value (Pareto ABC)
+ * Records with no issues in the period are class C
+ */
+async function classifyAbc(client, agencyId, warehouseId) {
+  const { classA, classB } = await getAbcThresholds(client, agencyId);
+  const usage = await client.query(
+    `SELECT i.id,
+            COALESCE(SUM(COALESCE(t.cost_of_goods, t.quantity * COALESCE(t.unit_cost, 0))), 0) AS usage_value
+     FROM public.inventory i
+     LEFT JOIN public.inventory_transactions t
+       ON t.inventory_id = i.id
+      AND t.transaction_type = 'OUT'
+      AND t.created_at >= NOW() - ($3 || ' days')::interval
+     WHERE i.agency_id = $1 AND i.warehouse_id = $2
+     GROUP BY i.id
+     ORDER BY usage_value DESC`,
+    [agencyId, warehouseId, String(ABC_LOOKBACK_DAYS)]
+  );
+
+  const total = usage.rows.reduce((sum, row) => sum + (parseFloat(row.usage_value) || 0), 0);
+  const classes = new Map();
+  let cumulative = 0;
+  for (const row of usage.rows) {
+    const value = parseFloat(row.usage_value) || 0;
+    if (total <= 0 || value <= 0) {
+      classes.set(row.id, 'C');
+      continue;
+    }
+    // A record belongs to the class its cumulative share starts in
+    const share = (cumulative / total) * 100;
+    classes.set(row.id, share < classA ? 'A' : share < classB ? 'B' : 'C');
+    cumulative += value;
+  }
+  return classes;
+}
+
+const SESSION_SELECT = `
+  SELECT
+    s.*,
+    w.name as warehouse_name,
+    w.code as warehouse_code,
+    (SELECT COUNT(*) FROM public.stock_take_lines l WHERE l.session_id = s.id AND l.counted_quantity IS NOT NULL)::int as counted_lines
+  FROM public.stock_take_sessions s
+  LEFT JOIN public.warehouses w ON s.warehouse_id = w.id
+`;
+
+const LINE_SELECT = `
+  SELECT
+    l.*,
+    p.name as product_name,
+    p.sku as product_sku,
+    p.barcode as product_barcode,
+    p.track_by,
+    p.unit_of_measure,
+    i.zone,
+    i.quantity as current_quantity
+  FROM public.stock_take_lines l
+  JOIN public.products p ON l.product_id = p.id
+  JOIN public.inventory i ON l.inventory_id = i.id
+`;
+
+const serialDiscrepancies = (line) => {
+  const expected = line.expected_serials || [];
+  const scanned = line.scanned_serials || [];
+  return {
+    missing_serials: expected.filter((serial) => !scanned.includes(serial)),
+    unexpected_serials: scanned.filter((serial) => !expected.includes(serial)),
+  };
+};
+
+/**
+ * Shape a line for the client; blind sheets hide what the system expects while counting
+ */
+function presentLine(line, blind) {
+  if (blind) {
+    return {
+      ...line,
+      expected_quantity: null,
+      expected_serials: null,
+      current_quantity: null,
+      unit_cost: null,
+      variance_quantity: null,
+      variance_value: null,
+    };
+  }
+  return { ...line, ...serialDiscrepancies(line) };
+}
+
+async function loadSession(client, agencyId, sessionId, { forUpdate = false } = {}) {
+  if (forUpdate) {
+    const locked = await client.query(
+      'SELECT id FROM public.stock_take_sessions WHERE id = $1 AND agency_id = $2 FOR UPDATE',
+      [sessionId, agencyId]
+    );
+    if (locked.rows.length === 0) {
+      throw new Error('Stock take not found');
+    }
+  }
+  const result = await client.query(`${SESSION_SELECT} WHERE s.id = $1 AND s.agency_id = $2`, [sessionId, agencyId]);
+  if (result.rows.length === 0) {
+    throw new Error('Stock take not found');
+  }
+  return result.rows[0];
+}
+
+function assertStatus(session, allowed, action) {
+  if (!allowed.includes(session.status)) {
+    throw new Error(`Cannot ${action} a stock take that is ${session.status}`);
+  }
+}
+
+async function loadSessionWithLines(client, agencyId, sessionId) {
+  const session = await loadSession(client, agencyId, sessionId);
+  const lines = await client.query(
+    `${LINE_SELECT} WHERE l.session_id = $1 ORDER BY i.zone NULLS LAST, p.name`,
+    [sessionId]
+  );
+  const blind = session.blind_count && session.status === 'counting';
+  return { ...session, lines: lines.rows.map((line) => presentLine(line, blind)) };
+}
+
+/**
+ * Get stock take sessions
+ */
+async function getStockTakes(agencyDatabase, agencyId, filters = {}) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    let query = `${SESSION_SELECT} WHERE s.agency_id = $1`;
+    const params = [agencyId];
+    let paramIndex = 2;
+
+    for (const column of ['status', 'warehouse_id', 'count_type']) {
+      if (filters[column]) {
+        query += ` AND s.${column} = $${paramIndex}`;
+        params.push(filters[column]);
+        paramIndex++;
+      }
+    }
+
+    query += ' ORDER BY s.created_at DESC';
+
+    const result = await client.query(query, params);
+    return result.rows;
+  } catch (error) {
+    if (error.code === '42P01' || error.message.includes('does not exist')) {
+      return [];
+    }
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Get a stock take with its count sheet
+ */
+async function getStockTakeById(agencyDatabase, agencyId, sessionId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    return await loadSessionWithLines(client, agencyId, sessionId);
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Zones in use in a warehouse, and how its stock records split across ABC classes
+ */
+async function getStockTakeScope(agencyDatabase, agencyId, warehouseId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const zones = await client.query(
+      `SELECT zone, COUNT(*)::int as records
+       FROM public.inventory
+       WHERE agency_id = $1 AND warehouse_id = $2 AND zone IS NOT NULL AND zone <> ''
+       GROUP BY zone
+       ORDER BY zone`,
+      [agencyId, warehouseId]
+    );
+
+    const classes = await classifyAbc(client, agencyId, warehouseId);
+    const abcCounts = { A: 0, B: 0, C: 0 };
+    for (const abcClass of classes.values()) {
+      abcCounts[abcClass]++;
+    }
+
+    return { zones: zones.rows, abc_counts: abcCounts };
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Start a stock take, freezing expected quantities, serials and unit costs into its count sheet
+ */
+async function createStockTake(agencyDatabase, agencyId, sessionData, userId) {
+  const countType = sessionData.count_type || 'full';
+  if (!COUNT_TYPES.includes(countType)) {
+    throw new Error('Count type must be full or cycle');
+  }
+  const abcClasses = (sessionData.abc_classes || []).map((value) => String(value).toUpperCase());
+  if (countType === 'cycle' && (abcClasses.length === 0 || abcClasses.some((value) => !ABC_CLASSES.includes(value)))) {
+    throw new Error('Select the ABC classes to count (A, B and/or C)');
+  }
+  if (!sessionData.warehouse_id) {
+    throw new Error('Warehouse is required');
+  }
+
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    await client.query('BEGIN');
+
+    const warehouse = await client.query(
+      'SELECT id FROM public.warehouses WHERE id = $1 AND agency_id = $2',
+      [sessionData.warehouse_id, agencyId]
+    );
+    if (warehouse.rows.length === 0) {
+      throw new Error('Warehouse not found');
+    }
+
+    const zone = sessionData.zone ? String(sessionData.zone).trim() : null;
+    const params = [agencyId, sessionData.warehouse_id];
+    let query = `
+      SELECT i.*, p.track_by
+      FROM public.inventory i
+      JOIN public.products p ON i.product_id = p.id
+      WHERE i.agency_id = $1 AND i.warehouse_id = $2 AND COALESCE(p.is_active, true) = true
+    `;
+    if (zone) {
+      query += ' AND i.zone = $3';
+      params.push(zone);
+    }
+    // Lock the records so the frozen quantity matches what was on hand at this instant
+    query += ' FOR UPDATE OF i';
+    const inventory = await client.query(query, params);
+
+    const classes = await classifyAbc(client, agencyId, sessionData.warehouse_id);
+    const records = inventory.rows.filter(
+      (record) => countType === 'full' || abcClasses.includes(classes.get(record.id) || 'C')
+    );
+    if (records.length === 0) {
+      throw new Error('No stock records match this count');
+    }
+
+    const sessionResult = await client.query(
+      `INSERT INTO public.stock_take_sessions (
+        id, agency_id, session_number, warehouse_id, zone, count_type, abc_classes,
+        blind_count, status, notes, total_lines, created_by, created_at, updated_at
+      ) VALUES (uuid_generate_v4(), $1, $2, $3, $4, $5, $6, $7, 'counting', $8, $9, $10, NOW(), NOW())
+      RETURNING id`,
+      [
+        agencyId,
+        await generateSessionNumber(client, agencyId),
+        sessionData.warehouse_id,
+        zone,
+        countType,
+        countType === 'cycle' ? abcClasses : null,
+        sessionData.blind_count !== false,
+        sessionData.notes || null,
+        records.length,
+        userId,
+      ]
+    );
+    const sessionId = sessionResult.rows[0].id;
+
+    for (const record of records) {
+      let expectedSerials = null;
+      if (record.track_by === 'serial') {
+        const serials = await client.query(
+          `SELECT serial_number FROM public.serial_numbers
+           WHERE agency_id = $1 AND product_id = $2 AND warehouse_id = $3 AND status = ANY($4)
+           ORDER BY serial_number`,
+          [agencyId, record.product_id, record.warehouse_id, ON_HAND_SERIAL_STATUSES]
+        );
+        expectedSerials = serials.rows.map((row) => row.serial_number);
+      }
+
+      await client.query(
+        `INSERT INTO public.stock_take_lines (
+          id, agency_id, session_id, inventory_id, product_id, variant_id, abc_class,
+          expected_quantity, expected_serials, unit_cost, created_at, updated_at
+        ) VALUES (uuid_generate_v4(), $1, $2, $3, $4, $5, $6, $7, $8, $9, NOW(), NOW())`,
+        [
+          agencyId,
+          sessionId,
+          record.id,
+          record.product_id,
+          record.variant_id || null,
+          classes.get(record.id) || 'C',
+          parseFloat(record.quantity) || 0,
+          expectedSerials,
+          parseFloat(record.average_cost) || 0,
+        ]
+      );
+    }
+
+    await client.query('COMMIT');
+    return await loadSessionWithLines(client, agencyId, sessionId);
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Enter counted quantities on the sheet
+ * counts: [{ line_id, counted_quantity, notes }]; a blank quantity clears the count
+ */
+async function recordCounts(agencyDatabase, agencyId, sessionId, counts, userId) {
+  if (!Array.isArray(counts) || counts.length === 0) {
+    throw new Error('No counts provided');
+  }
+
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    await client.query('BEGIN');
+    const session = await loadSession(client, agencyId, sessionId, { forUpdate: true });
+    assertStatus(session, ['counting'], 'record counts on');
+
+    for (const count of counts) {
+      const cleared = count.counted_quantity === null || count.counted_quantity === undefined || count.counted_quantity === '';
+      const quantity = cleared ? null : round2(count.counted_quantity);
+      if (!cleared && !(quantity >= 0)) {
+        throw new Error('Counted quantity cannot be negative');
+      }
+
+      const result = await client.query(
+        `UPDATE public.stock_take_lines
+         SET counted_quantity = $3,
+             scanned_serials = CASE WHEN $3::numeric IS NULL THEN NULL ELSE scanned_serials END,
+             notes = COALESCE($4, notes),
+             counted_by = $5,
+             counted_at = NOW()
+         WHERE id = $1 AND session_id = $2`,
+        [count.line_id, sessionId, quantity, count.notes || null, userId]
+      );
+      if (result.rowCount === 0) {
+        throw new Error('Count sheet line not found');
+      }
+    }
+
+    await client.query('COMMIT');
+    return await loadSessionWithLines(client, agencyId, sessionId);
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Count one scan from a barcode wedge: a serial number counts that unit,
+ * a product barcode or SKU adds the given quantity (default 1)
+ */
+async function scanCode(agencyDatabase, agencyId, sessionId, scanData, userId) {
+  const code = String(scanData?.code || '').trim();
+  if (!code) {
+    throw new Error('Scan a barcode or serial number');
+  }
+  const quantity = scanData.quantity === undefined || scanData.quantity === null || scanData.quantity === ''
+    ? 1
+    : round2(scanData.quantity);
+  if (!(quantity > 0)) {
+    throw new Error('Scanned quantity must be greater than zero');
+  }
+
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    await client.query('BEGIN');
+    const session = await loadSession(client, agencyId, sessionId, { forUpdate: true });
+    assertStatus(session, ['counting'], 'scan into');
+
+    const serial = await client.query(
+      'SELECT product_id, serial_number FROM public.serial_numbers WHERE agency_id = $1 AND serial_number = $2',
+      [agencyId, code]
+    );
+
+    let productId;
+    let matched;
+    if (serial.rows.length > 0) {
+      productId = serial.rows[0].product_id;
+      matched = 'serial';
+    } else {
+      const product = await client.query(
+        `SELECT id, name, track_by FROM public.products
+         WHERE agency_id = $1 AND (barcode = $2 OR sku = $2)
+         ORDER BY (barcode = $2) DESC
+         LIMIT 1`,
+        [agencyId, code]
+      );
+      if (product.rows.length === 0) {
+        throw new Error(`No product or serial number matches ${code}`);
+      }
+      if (product.rows[0].track_by === 'serial') {
+        throw new Error(`${product.rows[0].name} is serial-tracked: scan each unit's serial number`);
+      }
+      productId = product.rows[0].id;
+      matched = 'barcode';
+    }
+
+    const lineResult = await client.query(
+      `SELECT * FROM public.stock_take_lines
+       WHERE session_id = $1 AND product_id = $2
+       ORDER BY variant_id NULLS FIRST
+       LIMIT 1
+       FOR UPDATE`,
+      [sessionId, productId]
+    );
+    const line = lineResult.rows[0];
+    if (!line) {
+      throw new Error(`${code} is not on this count sheet`);
+    }
+
+    if (matched === 'serial') {
+      if ((line.scanned_serials || []).includes(code)) {
+        throw new Error(`Serial ${code} has already been counted`);
+      }
+      await client.query(
+        `UPDATE public.stock_take_lines
+         SET scanned_serials = array_append(COALESCE(scanned_serials, ARRAY[]::text[]), $2),
+             counted_quantity = COALESCE(counted_quantity, 0) + 1,
+             counted_by = $3,
+             counted_at = NOW()
+         WHERE id = $1`,
+        [line.id, code, userId]
+      );
+    } else {
+      await client.query(
+        `UPDATE public.stock_take_lines
+         SET counted_quantity = COALESCE(counted_quantity, 0) + $2,
+             counted_by = $3,
+             counted_at = NOW()
+         WHERE id = $1`,
+        [line.id, quantity, userId]
+      );
+    }
+
+    await client.query('COMMIT');
+    const updated = await client.query(`${LINE_SELECT} WHERE l.id = $1`, [line.id]);
+    return {
+      matched,
+      line: presentLine(updated.rows[0], session.blind_count),
+    };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Close counting and compute variances for review
+ * Lines without a variance are accepted straight away
+ */
+async function submitStockTake(agencyDatabase, agencyId, sessionId, options = {}, userId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    await client.query('BEGIN');
+    const session = await loadSession(client, agencyId, sessionId, { forUpdate: true });
+    assertStatus(session, ['counting'], 'submit');
+
+    const uncounted = await client.query(
+      'SELECT COUNT(*)::int as count FROM public.stock_take_lines WHERE session_id = $1 AND counted_quantity IS NULL',
+      [sessionId]
+    );
+    if (uncounted.rows[0].count > 0) {
+      if (!options.zero_uncounted) {
+        throw new Error(`${uncounted.rows[0].count} line(s) have not been counted`);
+      }
+      await client.query(
+        `UPDATE public.stock_take_lines
+         SET counted_quantity = 0, counted_by = $2, counted_at = NOW()
+         WHERE session_id = $1 AND counted_quantity IS NULL`,
+        [sessionId, userId]
+      );
+    }
+
+    await client.query(
+      `UPDATE public.stock_take_lines
+       SET variance_quantity = counted_quantity - expected_quantity,
+           variance_value = ROUND((counted_quantity - expected_quantity) * unit_cost, 2)
+       WHERE session_id = $1`,
+      [sessionId]
+    );
+
+    const lines = await client.query('SELECT * FROM public.stock_take_lines WHERE session_id = $1', [sessionId]);
+    let varianceLines = 0;
+    let varianceValue = 0;
+    for (const line of lines.rows) {
+      const { missing_serials: missing, unexpected_serials: unexpected } = serialDiscrepancies(line);
+      const hasVariance = parseFloat(line.variance_quantity) !== 0 || missing.length > 0 || unexpected.length > 0;
+      if (hasVariance) {
+        varianceLines++;
+        varianceValue += parseFloat(line.variance_value) || 0;
+      }
+      await client.query(
+        'UPDATE public.stock_take_lines SET review_status = $2 WHERE id = $1',
+        [line.id, hasVariance ? 'pending' : 'accepted']
+      );
+    }
+
+    await client.query(
+      `UPDATE public.stock_take_sessions
+       SET status = 'review', variance_lines = $2, variance_value = $3,
+           submitted_by = $4, submitted_at = NOW()
+       WHERE id = $1`,
+      [sessionId, varianceLines, round2(varianceValue), userId]
+    );
+
+    await client.query('COMMIT');
+    return await loadSessionWithLines(client, agencyId, sessionId);
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Accept or reject variance lines; rejected lines are left unadjusted when the count posts
+ * reviews: [{ line_id, review_status, notes }]
+ */
+async function reviewLines(agencyDatabase, agencyId, sessionId, reviews) {
+  if (!Array.isArray(reviews) || reviews.length === 0) {
+    throw new Error('No reviews provided');
+  }
+
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    await client.query('BEGIN');
+    const session = await loadSession(client, agencyId, sessionId, { forUpdate: true });
+    assertStatus(session, ['review'], 'review');
+
+    for (const review of reviews) {
+      if (!['accepted', 'rejected', 'pending'].includes(review.review_status)) {
+        throw new Error('Review status must be accepted, rejected or pending');
+      }
+      const result = await client.query(
+        `UPDATE public.stock_take_lines
+         SET review_status = $3, notes = COALESCE($4, notes)
+         WHERE id = $1 AND session_id = $2`,
+        [review.line_id, sessionId, review.review_status, review.notes || null]
+      );
+      if (result.rowCount === 0) {
+        throw new Error('Count sheet line not found');
+      }
+    }
+
+    await client.query('COMMIT');
+    return await loadSessionWithLines(client, agencyId, sessionId);
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Approve the reviewed count; variance lines still pending are accepted
+ */
+async function approveStockTake(agencyDatabase, agencyId, sessionId, userId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    await client.query('BEGIN');
+    const session = await loadSession(client, agencyId, sessionId, { forUpdate: true });
+    assertStatus(session, ['review'], 'approve');
+
+    await client.query(
+      `UPDATE public.stock_take_lines SET review_status = 'accepted'
+       WHERE session_id = $1 AND review_status = 'pending'`,
+      [sessionId]
+    );
+    await client.query(
+      `UPDATE public.stock_take_sessions
+       SET status = 'approved', approved_by = $2, approved_at = NOW()
+       WHERE id = $1`,
+      [sessionId, userId]
+    );
+
+    await client.query('COMMIT');
+    return await loadSessionWithLines(client, agencyId, sessionId);
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Post an approved count: one ADJUSTMENT per accepted variance line, applied to current
+ * stock so movements since the sheet was frozen are kept, plus serial status corrections
+ */
+async function postStockTake(agencyDatabase, agencyId, sessionId, userId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    await client.query('BEGIN');
+    const session = await loadSession(client, agencyId, sessionId, { forUpdate: true });
+    assertStatus(session, ['approved'], 'post');
+
+    const lines = await client.query(
+      `${LINE_SELECT} WHERE l.session_id = $1 AND l.review_status = 'accepted'`,
+      [sessionId]
+    );
+
+    let postedValue = 0;
+    for (const line of lines.rows) {
+      const variance = round2(line.variance_quantity);
+      const { missing_serials: missing, unexpected_serials: unexpected } = serialDiscrepancies(line);
+
+      if (variance !== 0) {
+        const inventory = await client.query(
+          'SELECT * FROM public.inventory WHERE id = $1 FOR UPDATE',
+          [line.inventory_id]
+        );
+        const current = parseFloat(inventory.rows[0].quantity) || 0;
+        const target = round2(current + variance);
+        if (target < 0) {
+          throw new Error(
+            `Cannot post ${line.product_sku}: only ${current} left in stock against a counted shortfall of ${-variance}`
+          );
+        }
+
+        const transaction = await recordInventoryTransaction(
+          client,
+          {
+            agency_id: agencyId,
+            product_id: line.product_id,
+            variant_id: line.variant_id,
+            warehouse_id: inventory.rows[0].warehouse_id,
+            transaction_type: 'ADJUSTMENT',
+            quantity: target,
+            unit_cost: variance > 0 ? line.unit_cost : undefined,
+            reference_type: 'STOCK_TAKE',
+            reference_id: sessionId,
+            notes: `Stock take ${session.session_number}: counted ${line.counted_quantity}, expected ${line.expected_quantity}`,
+          },
+          userId
+        );
+
+        // Shortfalls are valued at the cost of the layers written off, gains at the frozen cost
+        const value = variance < 0
+          ? -round2(transaction.cost_of_goods)
+          : round2(variance * (parseFloat(transaction.unit_cost) || 0));
+        postedValue += value;
+
+        await client.query(
+          `UPDATE public.stock_take_lines
+           SET adjustment_transaction_id = $2, posted_variance_value = $3
+           WHERE id = $1`,
+          [line.id, transaction.id, value]
+        );
+      } else {
+        await client.query('UPDATE public.stock_take_lines SET posted_variance_value = 0 WHERE id = $1', [line.id]);
+      }
+
+      if (missing.length > 0) {
+        await client.query(
+          `UPDATE public.serial_numbers SET status = 'missing', updated_at = NOW()
+           WHERE agency_id = $1 AND product_id = $3 AND serial_number = ANY($2)`,
+          [agencyId, missing, line.product_id]
+        );
+      }
+      if (unexpected.length > 0) {
+        await client.query(
+          `UPDATE public.serial_numbers
+           SET warehouse_id = $3, inventory_id = $4, status = 'available', updated_at = NOW()
+           WHERE agency_id = $1 AND product_id = $5 AND serial_number = ANY($2)`,
+          [agencyId, unexpected, session.warehouse_id, line.inventory_id, line.product_id]
+        );
+      }
+    }
+
+    await client.query(
+      `UPDATE public.stock_take_sessions
+       SET status = 'posted', variance_value = $2, posted_by = $3, posted_at = NOW()
+       WHERE id = $1`,
+      [sessionId, round2(postedValue), userId]
+    );
+
+    await client.query('COMMIT');
+    return await loadSessionWithLines(client, agencyId, sessionId);
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Cancel a stock take that has not been posted
+ */
+async function cancelStockTake(agencyDatabase, agencyId, sessionId, reason) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    await client.query('BEGIN');
+    const session = await loadSession(client, agencyId, sessionId, { forUpdate: true });
+    assertStatus(session, ['counting', 'review', 'approved'], 'cancel');
+
+    await client.query(
+      `UPDATE public.stock_take_sessions
+       SET status = 'cancelled',
+           notes = CASE WHEN $2::text IS NULL THEN notes ELSE CONCAT_WS(E'\\n', notes, 'Cancelled: ' || $2) END
+       WHERE id = $1`,
+      [sessionId, reason || null]
+    );
+
+    await client.query('COMMIT');
+    return await loadSessionWithLines(client, agencyId, sessionId);
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Variance valuation report: gains, losses and net value by line and ABC class
+ * Posted counts report what was actually written to stock
+ */
+async function getVarianceReport(agencyDatabase, agencyId, sessionId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const session = await loadSession(client, agencyId, sessionId);
+    if (session.status === 'counting') {
+      throw new Error('Variances are available once counting is submitted');
+    }
+
+    const result = await client.query(
+      `${LINE_SELECT} WHERE l.session_id = $1 ORDER BY ABS(COALESCE(l.posted_variance_value, l.variance_value, 0)) DESC, p.name`,
+      [sessionId]
+    );
+
+    const totals = {
+      counted_lines: result.rows.length,
+      variance_lines: 0,
+      gain_quantity: 0,
+      loss_quantity: 0,
+      gain_value: 0,
+      loss_value: 0,
+      net_value: 0,
+    };
+    const byClass = {};
+    const lines = [];
+
+    for (const row of result.rows) {
+      const line = presentLine(row, false);
+      const quantity = parseFloat(line.variance_quantity) || 0;
+      const value = session.status === 'posted' && line.posted_variance_value !== null
+        ? parseFloat(line.posted_variance_value) || 0
+        : parseFloat(line.variance_value) || 0;
+      if (quantity === 0 && line.missing_serials.length === 0 && line.unexpected_serials.length === 0) {
+        continue;
+      }
+
+      const counted = line.review_status !== 'rejected';
+      lines.push({ ...line, report_value: round2(value) });
+      if (!counted) continue;
+
+      totals.variance_lines++;
+      if (quantity > 0) {
+        totals.gain_quantity += quantity;
+        totals.gain_value += value;
+      } else {
+        totals.loss_quantity += -quantity;
+        totals.loss_value += -value;
+      }
+      totals.net_value += value;
+
+      const abcClass = line.abc_class || 'C';
+      byClass[abcClass] = byClass[abcClass] || { abc_class: abcClass, lines: 0, net_value: 0 };
+      byClass[abcClass].lines++;
+      byClass[abcClass].net_value += value;
+    }
+
+    for (const key of ['gain_quantity', 'loss_quantity', 'gain_value', 'loss_value', 'net_value']) {
+      totals[key] = round2(totals[key]);
+    }
+
+    return {
+      session,
+      totals,
+      by_class: Object.values(byClass)
+        .map((entry) => ({ ...entry, net_value: round2(entry.net_value) }))
+        .sort((a, b) => a.abc_class.localeCompare(b.abc_class)),
+      lines,
+    };
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+module.exports = {
+  getStockTakes,
+  getStockTakeById,
+  getStockTakeScope,
+  createStockTake,
+  recordCounts,
+  scanCode,
+  submitStockTake,
+  reviewLines,
+  approveStockTake,
+  postStockTake,
+  cancelStockTake,
+  getVarianceReport,
+};
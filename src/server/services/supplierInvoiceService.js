@@ -0,0 +1,816 @@
+/**
+ * Supplier Invoice Service
+ * Records supplier bills against purchase orders and goods receipts, runs the
+ * three-way match, and posts approved bills to accounts payable and input GST
+ */
+
+const { parseDatabaseUrl } = require('../utils/poolManager');
+const { Pool } = require('pg');
+const { round2 } = require('../utils/numberHelper');
+const { findOrCreateAccount } = require('../utils/accountingHelper');
+const { getRateForDate } = require('./currencyService');
+const { generateEntryNumber, insertJournalEntry } = require('./fxAccountingService');
+
+/**
+ * Get agency database connection
+ */
+async function getAgencyConnection(agencyDatabase) {
+  const { host, port, user, password } = parseDatabaseUrl();
+  const agencyDbUrl = `postgresql://${user}:${password}@${host}:${port}/${agencyDatabase}`;
+  const agencyPool = new Pool({ connectionString: agencyDbUrl, max: 1 });
+  const client = await agencyPool.connect();
+  // Attach pool to client for cleanup
+  client.pool = agencyPool;
+  return client;
+}
+
+// Bills in these statuses no longer hold received quantity
+const INACTIVE_BILL_STATUSES = ['cancelled', 'disputed'];
+
+// Accounts created on first use when the chart of accounts has no match
+const AP_ACCOUNTS = {
+  payable: { account_code: '2100', account_name: 'Accounts Payable', account_type: 'liability', pattern: '%accounts payable%' },
+  inventory: { account_code: '1300', account_name: 'Inventory', account_type: 'asset', pattern: '%inventory%' },
+  purchases: { account_code: '5100', account_name: 'Purchases', account_type: 'expense', pattern: '%purchase%' },
+  input_gst: { account_code: '1410', account_name: 'Input GST Credit', account_type: 'asset', pattern: '%input%gst%' },
+};
+
+function getApAccount(client, agencyId, key) {
+  return findOrCreateAccount(client, agencyId, AP_ACCOUNTS[key], 'Created automatically for supplier invoice postings');
+}
+
+/**
+ * Read the matching keys from the agency's procurement settings
+ */
+async function getMatchSettings(client, agencyId) {
+  const result = await client.query(
+    `SELECT settings FROM public.module_settings
+     WHERE agency_id = $1 AND module = 'procurement'`,
+    [agencyId]
+  );
+  const settings = result.rows[0]?.settings || {};
+  const priceTolerance = parseFloat(settings.match_price_tolerance_percent);
+  const quantityTolerance = parseFloat(settings.match_quantity_tolerance_percent);
+  return {
+    price_tolerance_percent: Number.isFinite(priceTolerance) && priceTolerance >= 0 ? priceTolerance : 2,
+    quantity_tolerance_percent: Number.isFinite(quantityTolerance) && quantityTolerance >= 0 ? quantityTolerance : 0,
+    auto_approve: settings.auto_approve_matched_invoices === true,
+  };
+}
+
+/**
+ * Intra-state when the agency GSTIN and supplier GSTIN share a state code,
+ * inter-state when both are known and differ
+ */
+async function resolveSupplyType(client, agencyId, supplier) {
+  const settings = await client.query(
+    `SELECT gstin FROM public.gst_settings WHERE agency_id = $1 AND COALESCE(is_active, true) = true LIMIT 1`,
+    [agencyId]
+  );
+  const agencyState = settings.rows[0]?.gstin?.slice(0, 2);
+  const supplierState = supplier.tax_id && /^\d{2}/.test(supplier.tax_id) ? supplier.tax_id.slice(0, 2) : null;
+  if (agencyState && supplierState && agencyState !== supplierState) {
+    return 'inter_state';
+  }
+  return 'intra_state';
+}
+
+async function generateBillNumber(client, agencyId) {
+  const year = new Date().getFullYear();
+  const result = await client.query(
+    `SELECT COUNT(*) as count
+     FROM public.vendor_invoices
+     WHERE agency_id = $1
+     AND invoice_number LIKE $2`,
+    [agencyId, `BILL-${year}-%`]
+  );
+  const count = parseInt(result.rows[0].count) + 1;
+  return `BILL-${year}-${String(count).padStart(5, '0')}`;
+}
+
+/**
+ * Validate the header against the PO/GRN and supplier, then insert the bill lines.
+ * Returns the computed header amounts.
+ */
+async function writeInvoiceLines(client, invoiceId, items) {
+  let subtotal = 0;
+  let taxAmount = 0;
+  for (const item of items) {
+    const quantity = parseFloat(item.quantity);
+    const unitPrice = parseFloat(item.unit_price);
+    if (!item.description || !(quantity > 0) || !(unitPrice >= 0)) {
+      throw new Error('Each invoice line needs a description, a positive quantity and a unit price');
+    }
+    const gstRate = parseFloat(item.gst_rate) || 0;
+    const lineTax = round2(quantity * unitPrice * gstRate / 100);
+    subtotal += quantity * unitPrice;
+    taxAmount += lineTax;
+
+    await client.query(
+      `INSERT INTO public.vendor_invoice_items (
+        id, vendor_invoice_id, po_item_id, product_id, description, hsn_sac_code,
+        quantity, unit_price, gst_rate, tax_amount, created_at
+      ) VALUES (uuid_generate_v4(), $1, $2, $3, $4, $5, $6, $7, $8, $9, NOW())`,
+      [
+        invoiceId,
+        item.po_item_id || null,
+        item.product_id || null,
+        item.description,
+        item.hsn_sac_code || null,
+        quantity,
+        unitPrice,
+        gstRate,
+        lineTax,
+      ]
+    );
+  }
+  return { subtotal: round2(subtotal), tax_amount: round2(taxAmount) };
+}
+
+async function loadInvoiceContext(client, agencyId, data) {
+  const supplierResult = await client.query(
+    'SELECT * FROM public.suppliers WHERE id = $1 AND agency_id = $2',
+    [data.supplier_id, agencyId]
+  );
+  if (supplierResult.rows.length === 0) {
+    throw new Error('Supplier not found');
+  }
+  const supplier = supplierResult.rows[0];
+
+  let po = null;
+  if (data.po_id) {
+    const poResult = await client.query(
+      'SELECT * FROM public.purchase_orders WHERE id = $1 AND agency_id = $2',
+      [data.po_id, agencyId]
+    );
+    po = poResult.rows[0];
+    if (!po) {
+      throw new Error('Purchase order not found');
+    }
+    if (po.supplier_id !== supplier.id) {
+      throw new Error(`Purchase order ${po.po_number} belongs to a different supplier`);
+    }
+  }
+
+  if (data.grn_id) {
+    const grnResult = await client.query(
+      'SELECT po_id FROM public.goods_receipts WHERE id = $1 AND agency_id = $2',
+      [data.grn_id, agencyId]
+    );
+    if (grnResult.rows.length === 0) {
+      throw new Error('Goods receipt not found');
+    }
+    if (!po || grnResult.rows[0].po_id !== po.id) {
+      throw new Error('Goods receipt does not belong to the selected purchase order');
+    }
+  }
+
+  return { supplier, po };
+}
+
+/**
+ * Three-way match of every bill line against its PO line and the accepted goods receipt quantity.
+ * A line is an exception when it is not on the PO, bills more than was received and not yet billed,
+ * or is priced above the PO price, beyond the configured tolerances.
+ */
+async function runMatch(client, agencyId, invoiceId) {
+  const settings = await getMatchSettings(client, agencyId);
+  const invoiceResult = await client.query('SELECT * FROM public.vendor_invoices WHERE id = $1', [invoiceId]);
+  const invoice = invoiceResult.rows[0];
+
+  const itemsResult = await client.query(
+    `SELECT vii.*, poi.po_id as line_po_id, poi.unit_price as po_price
+     FROM public.vendor_invoice_items vii
+     LEFT JOIN public.purchase_order_items poi ON vii.po_item_id = poi.id
+     WHERE vii.vendor_invoice_id = $1`,
+    [invoiceId]
+  );
+
+  let exceptionLines = 0;
+  for (const item of itemsResult.rows) {
+    const notes = [];
+    let received = null;
+    let billedElsewhere = null;
+    const poPrice = item.po_price !== null ? parseFloat(item.po_price) : null;
+
+    if (!invoice.po_id) {
+      notes.push('No purchase order linked to this invoice');
+    } else if (!item.po_item_id) {
+      notes.push('Line is not on the purchase order');
+    } else if (item.line_po_id !== invoice.po_id) {
+      notes.push('Line belongs to a different purchase order');
+    } else {
+      const receivedResult = await client.query(
+        `SELECT COALESCE(SUM(gi.accepted_quantity), 0) as quantity
+         FROM public.grn_items gi
+         JOIN public.goods_receipts gr ON gi.grn_id = gr.id
+         WHERE gi.po_item_id = $1 AND COALESCE(gr.status, 'pending') <> 'rejected'
+           AND ($2::uuid IS NULL OR gr.id = $2)`,
+        [item.po_item_id, invoice.grn_id]
+      );
+      received = parseFloat(receivedResult.rows[0].quantity) || 0;
+
+      const billedResult = await client.query(
+        `SELECT COALESCE(SUM(vii.quantity), 0) as quantity
+         FROM public.vendor_invoice_items vii
+         JOIN public.vendor_invoices vi ON vii.vendor_invoice_id = vi.id
+         WHERE vii.po_item_id = $1 AND vi.id <> $2
+           AND COALESCE(vi.status, 'pending') <> ALL($3::text[])
+           AND ($4::uuid IS NULL OR vi.grn_id = $4)`,
+        [item.po_item_id, invoiceId, INACTIVE_BILL_STATUSES, invoice.grn_id]
+      );
+      billedElsewhere = parseFloat(billedResult.rows[0].quantity) || 0;
+
+      const quantity = parseFloat(item.quantity);
+      const available = Math.max(received - billedElsewhere, 0);
+      const quantityLimit = available * (1 + settings.quantity_tolerance_percent / 100);
+      if (quantity > quantityLimit + 0.0001) {
+        notes.push(
+          available > 0
+            ? `Billed ${quantity} but only ${available} received and not yet billed`
+            : `Billed ${quantity} but nothing received is left to bill`
+        );
+      }
+
+      const price = parseFloat(item.unit_price);
+      const priceLimit = poPrice * (1 + settings.price_tolerance_percent / 100);
+      if (price > priceLimit + 0.005) {
+        const variance = poPrice > 0 ? round2(((price - poPrice) / poPrice) * 100) : 100;
+        notes.push(`Unit price ${price} is ${variance}% above the PO price ${poPrice}`);
+      }
+    }
+
+    if (notes.length > 0) exceptionLines++;
+    await client.query(
+      `UPDATE public.vendor_invoice_items
+       SET match_status = $2, match_notes = $3, po_unit_price = $4,
+           received_quantity = $5, previously_billed_quantity = $6
+       WHERE id = $1`,
+      [item.id, notes.length > 0 ? 'exception' : 'matched', notes, poPrice, received, billedElsewhere]
+    );
+  }
+
+  const matchStatus = exceptionLines > 0 || itemsResult.rows.length === 0 ? 'exception' : 'matched';
+  await client.query(
+    `UPDATE public.vendor_invoices
+     SET match_status = $2, match_summary = $3, matched_at = NOW(), updated_at = NOW()
+     WHERE id = $1`,
+    [
+      invoiceId,
+      matchStatus,
+      JSON.stringify({
+        lines: itemsResult.rows.length,
+        exception_lines: exceptionLines,
+        price_tolerance_percent: settings.price_tolerance_percent,
+        quantity_tolerance_percent: settings.quantity_tolerance_percent,
+      }),
+    ]
+  );
+
+  return { match_status: matchStatus, auto_approve: settings.auto_approve };
+}
+
+/**
+ * Get supplier invoices
+ */
+async function getSupplierInvoices(agencyDatabase, agencyId, filters = {}) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    let query = `
+      SELECT
+        vi.*,
+        s.name as supplier_name,
+        po.po_number,
+        gr.grn_number
+      FROM public.vendor_invoices vi
+      LEFT JOIN public.suppliers s ON vi.supplier_id = s.id
+      LEFT JOIN public.purchase_orders po ON vi.po_id = po.id
+      LEFT JOIN public.goods_receipts gr ON vi.grn_id = gr.id
+      WHERE vi.agency_id = $1
+    `;
+    const params = [agencyId];
+    let paramIndex = 2;
+
+    if (filters.status) {
+      query += ` AND vi.status = $${paramIndex}`;
+      params.push(filters.status);
+      paramIndex++;
+    }
+
+    if (filters.match_status) {
+      query += ` AND vi.match_status = $${paramIndex}`;
+      params.push(filters.match_status);
+      paramIndex++;
+    }
+
+    if (filters.supplier_id) {
+      query += ` AND vi.supplier_id = $${paramIndex}`;
+      params.push(filters.supplier_id);
+      paramIndex++;
+    }
+
+    query += ' ORDER BY vi.invoice_date DESC, vi.created_at DESC';
+
+    const result = await client.query(query, params);
+    return result.rows;
+  } catch (error) {
+    if (error.code === '42P01' || error.message.includes('does not exist')) {
+      return [];
+    }
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+async function loadInvoice(client, agencyId, invoiceId) {
+  const result = await client.query(
+    `SELECT
+      vi.*,
+      s.name as supplier_name,
+      s.tax_id as supplier_gstin,
+      po.po_number,
+      gr.grn_number,
+      je.entry_number as journal_entry_number
+    FROM public.vendor_invoices vi
+    LEFT JOIN public.suppliers s ON vi.supplier_id = s.id
+    LEFT JOIN public.purchase_orders po ON vi.po_id = po.id
+    LEFT JOIN public.goods_receipts gr ON vi.grn_id = gr.id
+    LEFT JOIN public.journal_entries je ON vi.journal_entry_id = je.id
+    WHERE vi.id = $1 AND vi.agency_id = $2`,
+    [invoiceId, agencyId]
+  );
+  if (result.rows.length === 0) {
+    return null;
+  }
+
+  const itemsResult = await client.query(
+    `SELECT vii.*, poi.quantity as po_quantity
+     FROM public.vendor_invoice_items vii
+     LEFT JOIN public.purchase_order_items poi ON vii.po_item_id = poi.id
+     WHERE vii.vendor_invoice_id = $1
+     ORDER BY vii.created_at, vii.id`,
+    [invoiceId]
+  );
+
+  return { ...result.rows[0], items: itemsResult.rows };
+}
+
+/**
+ * Get a supplier invoice with its lines and match results
+ */
+async function getSupplierInvoiceById(agencyDatabase, agencyId, invoiceId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    return await loadInvoice(client, agencyId, invoiceId);
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Record a supplier invoice and match it; fully matched bills are approved
+ * straight away when the procurement settings allow it
+ */
+async function createSupplierInvoice(agencyDatabase, agencyId, invoiceData, userId) {
+  if (!invoiceData.supplier_id || !invoiceData.supplier_invoice_number || !invoiceData.invoice_date) {
+    throw new Error('Supplier, supplier invoice number and invoice date are required');
+  }
+  if (!Array.isArray(invoiceData.items) || invoiceData.items.length === 0) {
+    throw new Error('Add at least one invoice line');
+  }
+
+  const client = await getAgencyConnection(agencyDatabase);
+  let invoiceId;
+  let matchResult;
+  try {
+    await client.query('BEGIN');
+
+    const { supplier, po } = await loadInvoiceContext(client, agencyId, invoiceData);
+
+    const duplicate = await client.query(
+      `SELECT invoice_number FROM public.vendor_invoices
+       WHERE supplier_id = $1 AND supplier_invoice_number = $2 AND status <> 'cancelled'`,
+      [supplier.id, invoiceData.supplier_invoice_number]
+    );
+    if (duplicate.rows.length > 0) {
+      throw new Error(
+        `Invoice ${invoiceData.supplier_invoice_number} from ${supplier.name} is already recorded as ${duplicate.rows[0].invoice_number}`
+      );
+    }
+
+    const currency = invoiceData.currency || po?.currency || 'INR';
+    const { rate } = await getRateForDate(client, currency, invoiceData.invoice_date);
+    const supplyType = invoiceData.supply_type || await resolveSupplyType(client, agencyId, supplier);
+
+    const invoiceResult = await client.query(
+      `INSERT INTO public.vendor_invoices (
+        id, agency_id, supplier_id, invoice_number, supplier_invoice_number, po_id, grn_id,
+        invoice_date, due_date, currency, exchange_rate, supply_type, place_of_supply,
+        status, notes, document_url, created_by, created_at, updated_at
+      ) VALUES (uuid_generate_v4(), $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, 'pending', $13, $14, $15, NOW(), NOW())
+      RETURNING id`,
+      [
+        agencyId,
+        supplier.id,
+        await generateBillNumber(client, agencyId),
+        invoiceData.supplier_invoice_number,
+        po?.id || null,
+        invoiceData.grn_id || null,
+        invoiceData.invoice_date,
+        invoiceData.due_date || null,
+        currency,
+        rate,
+        supplyType,
+        invoiceData.place_of_supply || supplier.state || null,
+        invoiceData.notes || null,
+        invoiceData.document_url || null,
+        userId,
+      ]
+    );
+    invoiceId = invoiceResult.rows[0].id;
+
+    const totals = await writeInvoiceLines(client, invoiceId, invoiceData.items);
+    const total = round2(totals.subtotal + totals.tax_amount);
+    await client.query(
+      `UPDATE public.vendor_invoices
+       SET subtotal = $2, tax_amount = $3, total_amount = $4, base_total_amount = $5
+       WHERE id = $1`,
+      [invoiceId, totals.subtotal, totals.tax_amount, total, round2(total * rate)]
+    );
+
+    matchResult = await runMatch(client, agencyId, invoiceId);
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+
+  if (matchResult.match_status === 'matched' && matchResult.auto_approve) {
+    return approveSupplierInvoice(agencyDatabase, agencyId, invoiceId, {}, userId);
+  }
+  return getSupplierInvoiceById(agencyDatabase, agencyId, invoiceId);
+}
+
+/**
+ * Replace the lines of a pending invoice and match it again
+ */
+async function updateSupplierInvoice(agencyDatabase, agencyId, invoiceId, invoiceData) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    await client.query('BEGIN');
+
+    const existing = await loadInvoice(client, agencyId, invoiceId);
+    if (!existing) {
+      throw new Error('Supplier invoice not found');
+    }
+    if (existing.status !== 'pending') {
+      throw new Error(`Only pending invoices can be edited; this one is ${existing.status}`);
+    }
+
+    const merged = { ...existing, ...invoiceData };
+    await loadInvoiceContext(client, agencyId, merged);
+
+    if (Array.isArray(invoiceData.items)) {
+      if (invoiceData.items.length === 0) {
+        throw new Error('Add at least one invoice line');
+      }
+      await client.query('DELETE FROM public.vendor_invoice_items WHERE vendor_invoice_id = $1', [invoiceId]);
+      const totals = await writeInvoiceLines(client, invoiceId, invoiceData.items);
+      merged.subtotal = totals.subtotal;
+      merged.tax_amount = totals.tax_amount;
+    }
+
+    // The stored rate belongs to the stored date and currency; a change to either needs the rate for the new pair
+    const currency = merged.currency || 'INR';
+    const dateCheck = await client.query(
+      `SELECT TO_CHAR($2::date, 'YYYY-MM-DD') AS invoice_date,
+              ($2::date IS DISTINCT FROM invoice_date OR $3::text IS DISTINCT FROM currency) AS rate_changed
+       FROM public.vendor_invoices
+       WHERE id = $1`,
+      [invoiceId, merged.invoice_date, currency]
+    );
+    let exchangeRate = parseFloat(existing.exchange_rate) || 1;
+    if (dateCheck.rows[0].rate_changed) {
+      const { rate } = await getRateForDate(client, currency, dateCheck.rows[0].invoice_date);
+      exchangeRate = rate;
+    }
+
+    const total = round2(parseFloat(merged.subtotal) + parseFloat(merged.tax_amount));
+    await client.query(
+      `UPDATE public.vendor_invoices
+       SET supplier_invoice_number = $2, po_id = $3, grn_id = $4, invoice_date = $5, due_date = $6,
+           supply_type = $7, place_of_supply = $8, notes = $9, subtotal = $10, tax_amount = $11,
+           total_amount = $12, base_total_amount = $13, currency = $14, exchange_rate = $15, updated_at = NOW()
+       WHERE id = $1`,
+      [
+        invoiceId,
+        merged.supplier_invoice_number,
+        merged.po_id || null,
+        merged.grn_id || null,
+        merged.invoice_date,
+        merged.due_date || null,
+        merged.supply_type,
+        merged.place_of_supply || null,
+        merged.notes || null,
+        merged.subtotal,
+        merged.tax_amount,
+        total,
+        round2(total * exchangeRate),
+        currency,
+        exchangeRate,
+      ]
+    );
+
+    await runMatch(client, agencyId, invoiceId);
+
+    await client.query('COMMIT');
+    return await loadInvoice(client, agencyId, invoiceId);
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Re-run the match, e.g. after more goods have been received against the PO
+ */
+async function rematchSupplierInvoice(agencyDatabase, agencyId, invoiceId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    await client.query('BEGIN');
+    const existing = await loadInvoice(client, agencyId, invoiceId);
+    if (!existing) {
+      throw new Error('Supplier invoice not found');
+    }
+    if (existing.status !== 'pending') {
+      throw new Error(`Only pending invoices can be matched again; this one is ${existing.status}`);
+    }
+    await runMatch(client, agencyId, invoiceId);
+    await client.query('COMMIT');
+    return await loadInvoice(client, agencyId, invoiceId);
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Approve a bill: post the payable journal entry and the purchase GST transactions.
+ * Bills with match exceptions need an override reason.
+ *
+ * Stock lines are debited to inventory and other lines to purchases, both at the
+ * taxable value; input GST is debited separately and the total is credited to payables.
+ */
+async function approveSupplierInvoice(agencyDatabase, agencyId, invoiceId, approvalData, userId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    await client.query('BEGIN');
+
+    const invoice = await loadInvoice(client, agencyId, invoiceId);
+    if (!invoice) {
+      throw new Error('Supplier invoice not found');
+    }
+    if (invoice.status !== 'pending') {
+      throw new Error(`Invoice is already ${invoice.status}`);
+    }
+    const overrideReason = (approvalData.override_reason || '').trim();
+    if (invoice.match_status !== 'matched' && !overrideReason) {
+      throw new Error('This invoice has match exceptions; give a reason to approve it anyway');
+    }
+
+    const rate = parseFloat(invoice.exchange_rate) || 1;
+    const currency = invoice.currency;
+    const reference = `${invoice.invoice_number} / ${invoice.supplier_invoice_number || ''}`.trim();
+    const description = `Supplier invoice ${invoice.supplier_invoice_number || invoice.invoice_number} from ${invoice.supplier_name}`;
+
+    let inventoryValue = 0;
+    let purchasesValue = 0;
+    for (const item of invoice.items) {
+      const value = parseFloat(item.taxable_value) || 0;
+      if (item.product_id) {
+        inventoryValue += value;
+      } else {
+        purchasesValue += value;
+      }
+    }
+    const taxAmount = parseFloat(invoice.tax_amount) || 0;
+    const totalAmount = parseFloat(invoice.total_amount) || 0;
+
+    const lines = [];
+    if (inventoryValue > 0) {
+      lines.push({
+        account_id: await getApAccount(client, agencyId, 'inventory'),
+        description: `${description} - stock`,
+        debit: inventoryValue * rate,
+        credit: 0,
+      });
+    }
+    if (purchasesValue > 0) {
+      lines.push({
+        account_id: await getApAccount(client, agencyId, 'purchases'),
+        description: `${description} - purchases`,
+        debit: purchasesValue * rate,
+        credit: 0,
+      });
+    }
+    if (taxAmount > 0) {
+      lines.push({
+        account_id: await getApAccount(client, agencyId, 'input_gst'),
+        description: `${description} - input GST`,
+        debit: taxAmount * rate,
+        credit: 0,
+      });
+    }
+    // Credit is the rounded sum of the debits so the entry always balances
+    const creditTotal = lines.reduce((sum, line) => sum + round2(line.debit), 0);
+    lines.push({
+      account_id: await getApAccount(client, agencyId, 'payable'),
+      description,
+      debit: 0,
+      credit: creditTotal,
+      currency,
+      exchange_rate: rate,
+      foreign_amount: totalAmount,
+    });
+
+    const journalEntry = await insertJournalEntry(
+      client,
+      agencyId,
+      {
+        entry_number: generateEntryNumber('AP'),
+        entry_date: invoice.invoice_date,
+        description,
+        reference,
+        source_type: 'vendor_invoice',
+        source_id: invoice.id,
+      },
+      lines,
+      userId
+    );
+
+    // Input GST, one purchase transaction per taxed line, in base currency
+    await client.query('DELETE FROM public.gst_transactions WHERE agency_id = $1 AND vendor_invoice_id = $2', [agencyId, invoice.id]);
+    let gstPosted = false;
+    for (const item of invoice.items) {
+      const gstRate = parseFloat(item.gst_rate) || 0;
+      if (gstRate <= 0) continue;
+      const taxable = round2(parseFloat(item.taxable_value) * rate);
+      const tax = round2(parseFloat(item.tax_amount) * rate);
+      const intraState = invoice.supply_type !== 'inter_state';
+      const halfTax = round2(tax / 2);
+      await client.query(
+        `INSERT INTO public.gst_transactions (
+          agency_id, vendor_invoice_id, transaction_type, invoice_number, invoice_date,
+          customer_gstin, customer_name, place_of_supply, hsn_sac_code, description,
+          quantity, unit_price, taxable_value, cgst_rate, sgst_rate, igst_rate,
+          cgst_amount, sgst_amount, igst_amount, total_amount
+        ) VALUES ($1, $2, 'purchase', $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19)`,
+        [
+          agencyId,
+          invoice.id,
+          invoice.supplier_invoice_number || invoice.invoice_number,
+          invoice.invoice_date,
+          invoice.supplier_gstin || null,
+          invoice.supplier_name,
+          invoice.place_of_supply || null,
+          item.hsn_sac_code || null,
+          item.description,
+          item.quantity,
+          round2(parseFloat(item.unit_price) * rate),
+          taxable,
+          intraState ? gstRate / 2 : 0,
+          intraState ? gstRate / 2 : 0,
+          intraState ? 0 : gstRate,
+          intraState ? halfTax : 0,
+          intraState ? round2(tax - halfTax) : 0,
+          intraState ? 0 : tax,
+          round2(taxable + tax),
+        ]
+      );
+      gstPosted = true;
+    }
+
+    await client.query(
+      `UPDATE public.vendor_invoices
+       SET status = 'approved', approved_by = $2, approved_at = NOW(), override_reason = $3,
+           journal_entry_id = $4, gst_posted_at = $5, updated_at = NOW()
+       WHERE id = $1`,
+      [invoice.id, userId, overrideReason || null, journalEntry.id, gstPosted ? new Date() : null]
+    );
+
+    await client.query('COMMIT');
+    return await loadInvoice(client, agencyId, invoice.id);
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Dispute a pending invoice, taking it out of the exception queue and releasing its quantities
+ */
+async function disputeSupplierInvoice(agencyDatabase, agencyId, invoiceId, reason) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const result = await client.query(
+      `UPDATE public.vendor_invoices
+       SET status = 'disputed',
+           notes = CASE WHEN $3::text IS NULL THEN notes ELSE CONCAT_WS(E'\\n', notes, 'Disputed: ' || $3::text) END,
+           updated_at = NOW()
+       WHERE id = $1 AND agency_id = $2 AND status = 'pending'
+       RETURNING id`,
+      [invoiceId, agencyId, reason || null]
+    );
+    if (result.rows.length === 0) {
+      throw new Error('Only pending invoices can be disputed');
+    }
+    return await loadInvoice(client, agencyId, invoiceId);
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Billing position of a purchase order: ordered, accepted and already billed per line.
+ * Used to prefill a new bill with what has been received but not yet billed.
+ */
+async function getPurchaseOrderBillingLines(agencyDatabase, agencyId, poId, grnId = null) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const result = await client.query(
+      `SELECT
+        poi.id as po_item_id,
+        poi.product_id,
+        poi.description,
+        poi.quantity as ordered_quantity,
+        poi.unit_price,
+        COALESCE((
+          SELECT SUM(gi.accepted_quantity)
+          FROM public.grn_items gi
+          JOIN public.goods_receipts gr ON gi.grn_id = gr.id
+          WHERE gi.po_item_id = poi.id AND COALESCE(gr.status, 'pending') <> 'rejected'
+            AND ($3::uuid IS NULL OR gr.id = $3)
+        ), 0) as received_quantity,
+        COALESCE((
+          SELECT SUM(vii.quantity)
+          FROM public.vendor_invoice_items vii
+          JOIN public.vendor_invoices vi ON vii.vendor_invoice_id = vi.id
+          WHERE vii.po_item_id = poi.id AND COALESCE(vi.status, 'pending') <> ALL($4::text[])
+            AND ($3::uuid IS NULL OR vi.grn_id = $3)
+        ), 0) as billed_quantity
+      FROM public.purchase_order_items poi
+      JOIN public.purchase_orders po ON poi.po_id = po.id
+      WHERE po.id = $1 AND po.agency_id = $2
+      ORDER BY poi.created_at, poi.id`,
+      [poId, agencyId, grnId, INACTIVE_BILL_STATUSES]
+    );
+    return result.rows;
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+module.exports = {
+  getSupplierInvoices,
+  getSupplierInvoiceById,
+  createSupplierInvoice,
+  updateSupplierInvoice,
+  rematchSupplierInvoice,
+  approveSupplierInvoice,
+  disputeSupplierInvoice,
+  getPurchaseOrderBillingLines,
+};
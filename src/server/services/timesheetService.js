@@ -0,0 +1,885 @@
+/**
+ * Timesheet Service
+ * Weekly timesheets over task time entries: the Monday-to-Sunday grid per employee, submission
+ * that locks the week and routes it to the employee's manager, reminders for weeks not yet
+ * submitted, and draft client invoices raised from approved billable hours.
+ */
+
+const { parseDatabaseUrl } = require('../utils/poolManager');
+const { Pool } = require('pg');
+const { round2 } = require('../utils/numberHelper');
+const { createNotification } = require('../utils/notificationHelper');
+const cron = require('node-cron');
+const { pool: mainPool } = require('../config/database');
+const workflowService = require('./workflowService');
+
+const ENTITY_TYPE = 'timesheet';
+
+// Missing timesheets for the previous week are chased at 09:00 Monday to Wednesday
+const TIMESHEET_REMINDER_SCHEDULE = process.env.TIMESHEET_REMINDER_SCHEDULE || '0 9 * * 1-3';
+// An employee is reminded about a week at most once in this many hours
+const REMINDER_INTERVAL_HOURS = 20;
+
+const LOCKED_STATUSES = ['submitted', 'approved'];
+
+/**
+ * Get agency database connection
+ */
+async function getAgencyConnection(agencyDatabase) {
+  const { host, port, user, password } = parseDatabaseUrl();
+  const agencyDbUrl = `postgresql://${user}:${password}@${host}:${port}/${agencyDatabase}`;
+  const agencyPool = new Pool({ connectionString: agencyDbUrl, max: 1 });
+  const client = await agencyPool.connect();
+  // Attach pool to client for cleanup
+  client.pool = agencyPool;
+  return client;
+}
+
+const toDateString = (value) => {
+  if (!value) return null;
+  if (value instanceof Date) {
+    const local = new Date(value.getTime() - value.getTimezoneOffset() * 60000);
+    return local.toISOString().split('T')[0];
+  }
+  return String(value).split('T')[0];
+};
+
+const addDays = (value, days) => {
+  const date = new Date(`${toDateString(value)}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().split('T')[0];
+};
+
+/**
+ * The Monday of the week a date falls in
+ */
+const startOfWeek = (value) => {
+  const dateString = toDateString(value || new Date());
+  const date = new Date(`${dateString}T00:00:00Z`);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error('Invalid week date');
+  }
+  return addDays(dateString, -((date.getUTCDay() + 6) % 7));
+};
+
+const weekDates = (weekStart) => Array.from({ length: 7 }, (_, index) => addDays(weekStart, index));
+
+/**
+ * Create the employee's timesheet for a week if it does not exist and refresh its totals
+ * from the week's time entries
+ */
+async function upsertTimesheet(client, agencyId, employeeId, weekStart) {
+  const result = await client.query(
+    `INSERT INTO public.timesheets (agency_id, employee_id, week_start, week_end, total_hours, billable_hours)
+     SELECT $1, $2, $3::date, $3::date + 6,
+            COALESCE(SUM(tt.hours_logged), 0),
+            COALESCE(SUM(tt.hours_logged) FILTER (WHERE tt.billable), 0)
+     FROM public.task_time_tracking tt
+     WHERE tt.user_id = $2 AND tt.date BETWEEN $3::date AND $3::date + 6
+     ON CONFLICT (employee_id, week_start) DO UPDATE
+     SET total_hours = EXCLUDED.total_hours, billable_hours = EXCLUDED.billable_hours, updated_at = NOW()
+     RETURNING *`,
+    [agencyId, employeeId, weekStart]
+  );
+  return result.rows[0];
+}
+
+/**
+ * Load an employee's week: the timesheet, one grid row per task and billable flag, and the
+ * open tasks the employee can add rows for
+ */
+async function loadWeek(client, agencyId, employeeId, weekStart) {
+  const weekEnd = addDays(weekStart, 6);
+
+  const timesheetResult = await client.query(
+    `SELECT ts.*, p.full_name AS employee_name, d.full_name AS decided_by_name,
+            (SELECT string_agg(ap.full_name, ', ')
+             FROM public.workflow_approvals wa
+             JOIN public.profiles ap ON ap.user_id = wa.approver_id
+             WHERE wa.instance_id = ts.workflow_instance_id AND wa.status = 'pending') AS pending_with
+     FROM public.timesheets ts
+     LEFT JOIN public.profiles p ON p.user_id = ts.employee_id
+     LEFT JOIN public.profiles d ON d.user_id = ts.decided_by
+     WHERE ts.employee_id = $1 AND ts.week_start = $2`,
+    [employeeId, weekStart]
+  );
+
+  const entries = await client.query(
+    `SELECT tt.task_id, tt.date, tt.hours_logged, COALESCE(tt.billable, true) AS billable, tt.invoice_id,
+            t.title AS task_title, t.project_id, pr.name AS project_name
+     FROM public.task_time_tracking tt
+     JOIN public.tasks t ON t.id = tt.task_id
+     LEFT JOIN public.projects pr ON pr.id = t.project_id
+     WHERE tt.user_id = $1 AND tt.date BETWEEN $2 AND $3
+     ORDER BY pr.name NULLS LAST, t.title`,
+    [employeeId, weekStart, weekEnd]
+  );
+
+  const rowsByKey = new Map();
+  for (const entry of entries.rows) {
+    const key = `${entry.task_id}|${entry.billable}`;
+    if (!rowsByKey.has(key)) {
+      rowsByKey.set(key, {
+        task_id: entry.task_id,
+        task_title: entry.task_title,
+        project_id: entry.project_id,
+        project_name: entry.project_name,
+        billable: entry.billable,
+        hours: {},
+        invoiced: false,
+      });
+    }
+    const row = rowsByKey.get(key);
+    const date = toDateString(entry.date);
+    row.hours[date] = round2((row.hours[date] || 0) + parseFloat(entry.hours_logged));
+    row.invoiced = row.invoiced || !!entry.invoice_id;
+  }
+
+  const tasks = await client.query(
+    `SELECT t.id AS task_id, t.title AS task_title, t.project_id, pr.name AS project_name
+     FROM public.tasks t
+     LEFT JOIN public.projects pr ON pr.id = t.project_id
+     WHERE t.agency_id = $2
+       AND (t.assignee_id = $1 OR EXISTS (
+         SELECT 1 FROM public.task_assignments ta WHERE ta.task_id = t.id AND ta.user_id = $1
+       ))
+       AND t.status NOT IN ('completed', 'cancelled')
+       AND (pr.id IS NULL OR pr.status NOT IN ('completed', 'cancelled'))
+     ORDER BY pr.name NULLS LAST, t.title`,
+    [employeeId, agencyId]
+  );
+
+  const timesheet = timesheetResult.rows[0] || null;
+  return {
+    employee_id: employeeId,
+    week_start: weekStart,
+    week_end: weekEnd,
+    dates: weekDates(weekStart),
+    timesheet: timesheet
+      ? { ...timesheet, week_start: toDateString(timesheet.week_start), week_end: toDateString(timesheet.week_end) }
+      : null,
+    locked: !!timesheet && LOCKED_STATUSES.includes(timesheet.status),
+    rows: Array.from(rowsByKey.values()),
+    tasks: tasks.rows,
+  };
+}
+
+/**
+ * Get an employee's timesheet grid for the week containing a date
+ */
+async function getTimesheetWeek(agencyDatabase, agencyId, employeeId, weekOf) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    return await loadWeek(client, agencyId, employeeId, startOfWeek(weekOf));
+  } finally {
+    client.release();
+    if (client.pool) await client.pool.end();
+  }
+}
+
+/**
+ * Get a submitted timesheet's grid. Only the employee and the approvers of the timesheet can see it.
+ */
+async function getTimesheetDetail(agencyDatabase, agencyId, timesheetId, userId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const result = await client.query(
+      `SELECT ts.employee_id, ts.week_start,
+              EXISTS (
+                SELECT 1 FROM public.workflow_approvals wa
+                WHERE wa.instance_id = ts.workflow_instance_id AND (wa.approver_id = $3 OR wa.delegated_to = $3)
+              ) AS is_approver
+       FROM public.timesheets ts
+       WHERE ts.id = $1 AND ts.agency_id = $2`,
+      [timesheetId, agencyId, userId]
+    );
+    const timesheet = result.rows[0];
+    if (!timesheet) {
+      throw new Error('Timesheet not found');
+    }
+    if (timesheet.employee_id !== userId && !timesheet.is_approver) {
+      throw new Error('You do not have access to this timesheet');
+    }
+    return await loadWeek(client, agencyId, timesheet.employee_id, toDateString(timesheet.week_start));
+  } finally {
+    client.release();
+    if (client.pool) await client.pool.end();
+  }
+}
+
+/**
+ * Change the hours on one time entry, keeping its duration and any end time in step
+ */
+async function setEntryHours(client, entryId, hours) {
+  const minutes = Math.round(hours * 60);
+  await client.query(
+    `UPDATE public.task_time_tracking
+     SET hours_logged = $2, duration_minutes = $3,
+         end_time = CASE WHEN end_time IS NULL THEN NULL ELSE start_time + make_interval(mins => $3) END,
+         updated_at = NOW()
+     WHERE id = $1`,
+    [entryId, hours, minutes]
+  );
+}
+
+/**
+ * Save the employee's grid for a week. A cell is the task, day and billable flag; when its total
+ * changes only the difference is written, so existing entries keep their ids, start times,
+ * descriptions and rates.
+ */
+async function saveTimesheetWeek(agencyDatabase, agencyId, employeeId, weekOf, rows) {
+  const weekStart = startOfWeek(weekOf);
+  const dates = weekDates(weekStart);
+
+  const desired = new Map();
+  const dayTotals = {};
+  for (const row of Array.isArray(rows) ? rows : []) {
+    if (!row.task_id) {
+      throw new Error('Each timesheet row needs a task');
+    }
+    const billable = row.billable !== false;
+    for (const [date, value] of Object.entries(row.hours || {})) {
+      if (!dates.includes(date)) {
+        throw new Error(`${date} is not in the week of ${weekStart}`);
+      }
+      const hours = round2(value);
+      if (hours < 0 || hours > 24) {
+        throw new Error('Hours must be between 0 and 24');
+      }
+      if (hours > 0) {
+        const key = `${row.task_id}|${billable}|${date}`;
+        desired.set(key, round2((desired.get(key) || 0) + hours));
+        dayTotals[date] = (dayTotals[date] || 0) + hours;
+      }
+    }
+  }
+  const overbooked = Object.keys(dayTotals).find((date) => dayTotals[date] > 24);
+  if (overbooked) {
+    throw new Error(`More than 24 hours entered for ${overbooked}`);
+  }
+
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    await client.query('BEGIN');
+
+    const timesheetResult = await client.query(
+      'SELECT status FROM public.timesheets WHERE employee_id = $1 AND week_start = $2 FOR UPDATE',
+      [employeeId, weekStart]
+    );
+    if (timesheetResult.rows[0] && LOCKED_STATUSES.includes(timesheetResult.rows[0].status)) {
+      throw new Error('This week has been submitted and is locked');
+    }
+
+    const taskIds = [...new Set([...desired.keys()].map((key) => key.split('|')[0]))];
+    if (taskIds.length > 0) {
+      const tasks = await client.query(
+        'SELECT id FROM public.tasks WHERE id = ANY($1::uuid[]) AND agency_id = $2',
+        [taskIds, agencyId]
+      );
+      if (tasks.rows.length !== taskIds.length) {
+        throw new Error('Task not found');
+      }
+    }
+
+    const existing = await client.query(
+      `SELECT id, task_id, date, hours_logged, COALESCE(billable, true) AS billable, invoice_id
+       FROM public.task_time_tracking
+       WHERE user_id = $1 AND date BETWEEN $2 AND $3
+       ORDER BY created_at
+       FOR UPDATE`,
+      [employeeId, weekStart, dates[6]]
+    );
+    const cells = new Map();
+    for (const entry of existing.rows) {
+      const key = `${entry.task_id}|${entry.billable}|${toDateString(entry.date)}`;
+      if (!cells.has(key)) cells.set(key, []);
+      cells.get(key).push(entry);
+    }
+
+    const touchedTasks = new Set();
+    for (const key of new Set([...cells.keys(), ...desired.keys()])) {
+      const [taskId, billable, date] = key.split('|');
+      const current = cells.get(key) || [];
+      const currentHours = round2(current.reduce((sum, entry) => sum + parseFloat(entry.hours_logged), 0));
+      const hours = desired.get(key) || 0;
+      if (currentHours === hours) continue;
+
+      if (current.some((entry) => entry.invoice_id)) {
+        throw new Error(`Time on ${date} has already been invoiced and cannot be changed`);
+      }
+      if (hours > currentHours) {
+        // Extra time goes onto the cell's latest entry, or a new entry when the cell is empty
+        const latest = current[current.length - 1];
+        if (latest) {
+          await setEntryHours(client, latest.id, round2(parseFloat(latest.hours_logged) + hours - currentHours));
+        } else {
+          await client.query(
+            `INSERT INTO public.task_time_tracking (
+              task_id, user_id, date, hours_logged, start_time, duration_minutes, billable, agency_id
+            ) VALUES ($1, $2, $3, $4, $3::date::timestamptz, $5, $6, $7)`,
+            [taskId, employeeId, date, hours, Math.round(hours * 60), billable === 'true', agencyId]
+          );
+        }
+      } else {
+        // Reduced time comes off the newest entries first; entries brought to zero are removed
+        let excess = round2(currentHours - hours);
+        for (const entry of [...current].reverse()) {
+          if (excess <= 0) break;
+          const entryHours = parseFloat(entry.hours_logged);
+          if (entryHours <= excess) {
+            await client.query('DELETE FROM public.task_time_tracking WHERE id = $1', [entry.id]);
+            excess = round2(excess - entryHours);
+          } else {
+            await setEntryHours(client, entry.id, round2(entryHours - excess));
+            excess = 0;
+          }
+        }
+      }
+      touchedTasks.add(taskId);
+    }
+
+    if (touchedTasks.size > 0) {
+      await client.query(
+        `UPDATE public.tasks t
+         SET actual_hours = (SELECT COALESCE(SUM(hours_logged), 0) FROM public.task_time_tracking WHERE task_id = t.id),
+             updated_at = NOW()
+         WHERE t.id = ANY($1::uuid[])`,
+        [[...touchedTasks]]
+      );
+    }
+    await upsertTimesheet(client, agencyId, employeeId, weekStart);
+
+    await client.query('COMMIT');
+    return await loadWeek(client, agencyId, employeeId, weekStart);
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) await client.pool.end();
+  }
+}
+
+/**
+ * Submit a week for approval. The week's time is locked until the manager rejects it
+ * or the employee recalls it.
+ */
+async function submitTimesheet(agencyDatabase, agencyId, employeeId, weekOf, notes) {
+  const weekStart = startOfWeek(weekOf);
+  if (weekStart > startOfWeek(new Date())) {
+    throw new Error('A timesheet cannot be submitted for a future week');
+  }
+
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    await client.query('BEGIN');
+
+    await upsertTimesheet(client, agencyId, employeeId, weekStart);
+    const timesheetResult = await client.query(
+      'SELECT * FROM public.timesheets WHERE employee_id = $1 AND week_start = $2 FOR UPDATE',
+      [employeeId, weekStart]
+    );
+    const timesheet = timesheetResult.rows[0];
+    if (LOCKED_STATUSES.includes(timesheet.status)) {
+      throw new Error(`Timesheet is already ${timesheet.status}`);
+    }
+    if (!(parseFloat(timesheet.total_hours) > 0)) {
+      throw new Error('Log time before submitting the timesheet');
+    }
+
+    await client.query(
+      `UPDATE public.task_time_tracking SET timesheet_id = $1
+       WHERE user_id = $2 AND date BETWEEN $3 AND $4`,
+      [timesheet.id, employeeId, weekStart, addDays(weekStart, 6)]
+    );
+
+    const summary = await client.query(
+      `SELECT p.full_name,
+              (SELECT string_agg(DISTINCT pr.name, ', ')
+               FROM public.task_time_tracking tt
+               JOIN public.tasks t ON t.id = tt.task_id
+               JOIN public.projects pr ON pr.id = t.project_id
+               WHERE tt.timesheet_id = $2) AS projects
+       FROM public.profiles p WHERE p.user_id = $1`,
+      [employeeId, timesheet.id]
+    );
+    const workflowId = await workflowService.ensureSystemApprovalWorkflow(
+      client,
+      agencyId,
+      { entity_type: ENTITY_TYPE, name: 'Timesheet Approval', description: 'Manager approval for weekly timesheets' },
+      employeeId
+    );
+    const instance = await workflowService.startApprovalWorkflow(
+      client,
+      {
+        agency_id: agencyId,
+        workflow_id: workflowId,
+        entity_type: ENTITY_TYPE,
+        entity_id: timesheet.id,
+        // Shown to approvers alongside the request
+        metadata: {
+          employee_id: employeeId,
+          employee_name: summary.rows[0] ? summary.rows[0].full_name : null,
+          week_start: weekStart,
+          week_end: addDays(weekStart, 6),
+          total_hours: round2(timesheet.total_hours),
+          billable_hours: round2(timesheet.billable_hours),
+          projects: summary.rows[0] ? summary.rows[0].projects : null,
+          notes: notes || null,
+        },
+      },
+      employeeId
+    );
+
+    await client.query(
+      `UPDATE public.timesheets
+       SET status = 'submitted', submitted_at = NOW(), notes = $2, workflow_instance_id = $3,
+           decided_by = NULL, decided_at = NULL, decision_comments = NULL, updated_at = NOW()
+       WHERE id = $1`,
+      [timesheet.id, notes || null, instance.id]
+    );
+
+    await client.query('COMMIT');
+    return await loadWeek(client, agencyId, employeeId, weekStart);
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) await client.pool.end();
+  }
+}
+
+/**
+ * Recall a submitted timesheet that has not been decided yet, unlocking the week
+ */
+async function recallTimesheet(agencyDatabase, agencyId, timesheetId, userId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  let timesheet;
+  try {
+    const result = await client.query('SELECT * FROM public.timesheets WHERE id = $1 AND agency_id = $2', [
+      timesheetId,
+      agencyId,
+    ]);
+    timesheet = result.rows[0];
+  } finally {
+    client.release();
+    if (client.pool) await client.pool.end();
+  }
+
+  if (!timesheet) {
+    throw new Error('Timesheet not found');
+  }
+  if (timesheet.employee_id !== userId) {
+    throw new Error('Only the employee who submitted the timesheet can recall it');
+  }
+  if (timesheet.status !== 'submitted') {
+    throw new Error(`Timesheet is ${timesheet.status} and cannot be recalled`);
+  }
+
+  // Cancelling the workflow instance returns the timesheet to draft through the completion handler
+  await workflowService.cancelWorkflowInstance(
+    agencyDatabase,
+    agencyId,
+    timesheet.workflow_instance_id,
+    userId,
+    'Recalled by employee'
+  );
+  return getTimesheetWeek(agencyDatabase, agencyId, userId, timesheet.week_start);
+}
+
+/**
+ * Get timesheets, newest week first. `awaiting_me` limits the list to timesheets waiting on the
+ * user's approval, each with the approval the user acts on.
+ */
+async function getTimesheets(agencyDatabase, agencyId, userId, filters = {}) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const conditions = ['ts.agency_id = $1'];
+    const params = [agencyId, userId];
+
+    if (filters.employee_id) {
+      params.push(filters.employee_id);
+      conditions.push(`ts.employee_id = $${params.length}`);
+    }
+    if (filters.status) {
+      params.push(filters.status);
+      conditions.push(`ts.status = $${params.length}`);
+    }
+    if (filters.week_start) {
+      params.push(startOfWeek(filters.week_start));
+      conditions.push(`ts.week_start = $${params.length}`);
+    }
+
+    const result = await client.query(
+      `SELECT * FROM (
+         SELECT ts.*, p.full_name AS employee_name, d.full_name AS decided_by_name,
+                (SELECT wa.id FROM public.workflow_approvals wa
+                 WHERE wa.instance_id = ts.workflow_instance_id AND wa.status = 'pending'
+                   AND (wa.approver_id = $2 OR wa.delegated_to = $2)
+                 LIMIT 1) AS my_approval_id
+         FROM public.timesheets ts
+         LEFT JOIN public.profiles p ON p.user_id = ts.employee_id
+         LEFT JOIN public.profiles d ON d.user_id = ts.decided_by
+         WHERE ${conditions.join(' AND ')}
+       ) timesheets
+       ${filters.awaiting_me ? 'WHERE my_approval_id IS NOT NULL' : ''}
+       ORDER BY week_start DESC, employee_name`,
+      params
+    );
+    return result.rows.map((row) => ({
+      ...row,
+      week_start: toDateString(row.week_start),
+      week_end: toDateString(row.week_end),
+    }));
+  } catch (error) {
+    if (error.code === '42P01') {
+      return [];
+    }
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) await client.pool.end();
+  }
+}
+
+/**
+ * Completion handler for the timesheet approval workflow. A rejected week is unlocked for
+ * corrections; a recalled one goes back to draft.
+ */
+async function handleWorkflowCompletion(client, { instance, outcome, userId, comments }) {
+  const result = await client.query(
+    `SELECT id FROM public.timesheets WHERE id = $1 AND status = 'submitted' FOR UPDATE`,
+    [instance.entity_id]
+  );
+  if (!result.rows[0]) {
+    return;
+  }
+
+  if (outcome === 'cancelled') {
+    await client.query(
+      `UPDATE public.timesheets
+       SET status = 'draft', submitted_at = NULL, workflow_instance_id = NULL, updated_at = NOW()
+       WHERE id = $1`,
+      [instance.entity_id]
+    );
+    return;
+  }
+
+  await client.query(
+    `UPDATE public.timesheets
+     SET status = $2, decided_by = $3, decided_at = NOW(), decision_comments = $4, updated_at = NOW()
+     WHERE id = $1`,
+    [instance.entity_id, outcome, userId, comments]
+  );
+}
+
+/**
+ * Approved, billable, not yet invoiced time on a project's tasks. The rate is the entry's own
+ * hourly rate, else the employee's rate on the project team for that date.
+ */
+async function loadBillableEntries(client, projectId, startDate, endDate, lock = false) {
+  const result = await client.query(
+    `SELECT tt.id, tt.date, tt.hours_logged, tt.user_id, p.full_name AS employee_name,
+            COALESCE(tt.hourly_rate, (
+              SELECT r.hourly_rate FROM public.project_resources r
+              WHERE r.project_id = t.project_id AND r.resource_type = 'employee' AND r.resource_id = tt.user_id
+                AND (r.start_date IS NULL OR r.start_date <= tt.date)
+                AND (r.end_date IS NULL OR r.end_date >= tt.date)
+              ORDER BY r.start_date DESC NULLS LAST
+              LIMIT 1
+            )) AS hourly_rate
+     FROM public.task_time_tracking tt
+     JOIN public.tasks t ON t.id = tt.task_id
+     JOIN public.timesheets ts ON ts.employee_id = tt.user_id
+       AND tt.date BETWEEN ts.week_start AND ts.week_end AND ts.status = 'approved'
+     LEFT JOIN public.profiles p ON p.user_id = tt.user_id
+     WHERE t.project_id = $1 AND COALESCE(tt.billable, true) = true AND tt.invoice_id IS NULL
+       AND tt.date BETWEEN $2 AND $3
+     ORDER BY p.full_name, tt.date
+     ${lock ? 'FOR UPDATE OF tt' : ''}`,
+    [projectId, startDate, endDate]
+  );
+  return result.rows;
+}
+
+/**
+ * Group billable entries into invoice lines, one per employee and rate
+ */
+function groupBillableLines(entries) {
+  const lines = new Map();
+  for (const entry of entries) {
+    const rate = entry.hourly_rate === null ? null : round2(entry.hourly_rate);
+    const key = `${entry.user_id}|${rate}`;
+    if (!lines.has(key)) {
+      lines.set(key, {
+        employee_id: entry.user_id,
+        employee_name: entry.employee_name || 'Employee',
+        hourly_rate: rate,
+        hours: 0,
+        amount: 0,
+        entry_ids: [],
+      });
+    }
+    const line = lines.get(key);
+    line.hours = round2(line.hours + parseFloat(entry.hours_logged));
+    line.amount = rate === null ? 0 : round2(line.hours * rate);
+    line.entry_ids.push(entry.id);
+  }
+  return Array.from(lines.values());
+}
+
+const validateBillingPeriod = (billingData) => {
+  if (!billingData.project_id) {
+    throw new Error('Project is required');
+  }
+  const startDate = toDateString(billingData.start_date);
+  const endDate = toDateString(billingData.end_date);
+  if (!startDate || !endDate) {
+    throw new Error('Start and end dates are required');
+  }
+  if (startDate > endDate) {
+    throw new Error('Start date must be on or before the end date');
+  }
+  return { projectId: billingData.project_id, startDate, endDate };
+};
+
+/**
+ * Preview what an invoice for a project and period would bill, including approved time
+ * that is missing a rate and billable time still waiting on timesheet approval
+ */
+async function getBillableSummary(agencyDatabase, agencyId, billingData) {
+  const { projectId, startDate, endDate } = validateBillingPeriod(billingData);
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const lines = groupBillableLines(await loadBillableEntries(client, projectId, startDate, endDate));
+
+    const unapproved = await client.query(
+      `SELECT COALESCE(SUM(tt.hours_logged), 0) AS hours
+       FROM public.task_time_tracking tt
+       JOIN public.tasks t ON t.id = tt.task_id
+       WHERE t.project_id = $1 AND COALESCE(tt.billable, true) = true AND tt.invoice_id IS NULL
+         AND tt.date BETWEEN $2 AND $3
+         AND NOT EXISTS (
+           SELECT 1 FROM public.timesheets ts
+           WHERE ts.employee_id = tt.user_id AND tt.date BETWEEN ts.week_start AND ts.week_end AND ts.status = 'approved'
+         )`,
+      [projectId, startDate, endDate]
+    );
+
+    return {
+      project_id: projectId,
+      start_date: startDate,
+      end_date: endDate,
+      lines: lines.map(({ entry_ids, ...line }) => ({ ...line, entries: entry_ids.length })),
+      total_hours: round2(lines.reduce((sum, line) => sum + line.hours, 0)),
+      total_amount: round2(lines.reduce((sum, line) => sum + line.amount, 0)),
+      missing_rates: lines.filter((line) => line.hourly_rate === null).map((line) => line.employee_name),
+      unapproved_hours: round2(unapproved.rows[0].hours),
+    };
+  } finally {
+    client.release();
+    if (client.pool) await client.pool.end();
+  }
+}
+
+/**
+ * Raise a draft client invoice from a project's approved billable hours in a period, one line
+ * per employee and rate. The billed entries are linked to the invoice so they are not billed twice.
+ * Tax is left at zero on the draft so finance can apply the right GST rate before sending.
+ */
+async function createInvoiceDraft(agencyDatabase, agencyId, billingData, userId) {
+  const { projectId, startDate, endDate } = validateBillingPeriod(billingData);
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    await client.query('BEGIN');
+
+    const projectResult = await client.query(
+      'SELECT id, name, client_id FROM public.projects WHERE id = $1 AND agency_id = $2',
+      [projectId, agencyId]
+    );
+    const project = projectResult.rows[0];
+    if (!project) {
+      throw new Error('Project not found');
+    }
+    if (!project.client_id) {
+      throw new Error('The project has no client to invoice');
+    }
+
+    const lines = groupBillableLines(await loadBillableEntries(client, projectId, startDate, endDate, true));
+    if (lines.length === 0) {
+      throw new Error('There are no approved billable hours to invoice for this period');
+    }
+    const missingRates = lines.filter((line) => line.hourly_rate === null).map((line) => line.employee_name);
+    if (missingRates.length > 0) {
+      throw new Error(`No hourly rate for ${missingRates.join(', ')}; set it on the project team or the time entries`);
+    }
+
+    const subtotal = round2(lines.reduce((sum, line) => sum + line.amount, 0));
+    const invoiceNumber = `INV-${new Date().getFullYear()}-${String(Date.now()).slice(-6)}`;
+    const issueDate = new Date();
+    const dueDate = new Date(issueDate.getTime() + 30 * 24 * 60 * 60 * 1000);
+
+    const invoiceResult = await client.query(
+      `INSERT INTO public.invoices (
+        invoice_number, client_id, title, description, status,
+        issue_date, due_date, subtotal, tax_rate, discount, total_amount,
+        notes, agency_id, created_by, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, 'draft', $5, $6, $7, 0, 0, $7, $8, $9, $10, NOW(), NOW())
+      RETURNING id`,
+      [
+        invoiceNumber,
+        project.client_id,
+        `${project.name} — time ${startDate} to ${endDate}`,
+        `Approved billable hours for ${project.name}`,
+        issueDate.toISOString().split('T')[0],
+        dueDate.toISOString().split('T')[0],
+        subtotal,
+        'Raised from approved timesheets',
+        agencyId,
+        userId,
+      ]
+    );
+    const invoiceId = invoiceResult.rows[0].id;
+
+    for (const [index, line] of lines.entries()) {
+      await client.query(
+        `INSERT INTO public.invoice_line_items (
+          invoice_id, item_type, item_name, description, quantity,
+          unit_price, taxable_value, gst_rate, line_total, sort_order
+        ) VALUES ($1, 'service', $2, $3, $4, $5, $6, 0, $6, $7)`,
+        [
+          invoiceId,
+          `Professional services — ${line.employee_name}`,
+          `${line.hours} hours at ${line.hourly_rate}/hour, ${startDate} to ${endDate}`,
+          line.hours,
+          line.hourly_rate,
+          line.amount,
+          index,
+        ]
+      );
+      await client.query(
+        `UPDATE public.task_time_tracking SET invoice_id = $1, invoiced_at = NOW()
+         WHERE id = ANY($2::uuid[])`,
+        [invoiceId, line.entry_ids]
+      );
+    }
+
+    await client.query('COMMIT');
+    return {
+      invoice: { id: invoiceId, invoice_number: invoiceNumber, total_amount: subtotal },
+      hours: round2(lines.reduce((sum, line) => sum + line.hours, 0)),
+      entries: lines.reduce((sum, line) => sum + line.entry_ids.length, 0),
+    };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) await client.pool.end();
+  }
+}
+
+/**
+ * Remind employees working on open tasks who have not submitted last week's timesheet
+ */
+async function sendMissingTimesheetReminders(agencyDatabase, agencyId) {
+  const weekStart = addDays(startOfWeek(new Date()), -7);
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const missing = await client.query(
+      `SELECT DISTINCT ed.user_id
+       FROM public.employee_details ed
+       WHERE ed.user_id IS NOT NULL AND COALESCE(ed.is_active, true) = true
+         AND (ed.agency_id = $1 OR ed.agency_id IS NULL)
+         AND EXISTS (
+           SELECT 1 FROM public.tasks t
+           WHERE t.agency_id = $1 AND t.status NOT IN ('completed', 'cancelled')
+             AND (t.assignee_id = ed.user_id OR EXISTS (
+               SELECT 1 FROM public.task_assignments ta WHERE ta.task_id = t.id AND ta.user_id = ed.user_id
+             ))
+         )
+         AND NOT EXISTS (
+           SELECT 1 FROM public.timesheets ts
+           WHERE ts.employee_id = ed.user_id AND ts.week_start = $2
+             AND (ts.status IN ('submitted', 'approved')
+                  OR ts.last_reminded_at > NOW() - ($3 || ' hours')::interval)
+         )`,
+      [agencyId, weekStart, String(REMINDER_INTERVAL_HOURS)]
+    );
+
+    const weekLabel = new Date(`${weekStart}T00:00:00Z`).toLocaleDateString('en-IN', { timeZone: 'UTC' });
+    let reminded = 0;
+    for (const { user_id: employeeId } of missing.rows) {
+      const timesheet = await upsertTimesheet(client, agencyId, employeeId, weekStart);
+      await createNotification(client, {
+        agency_id: agencyId,
+        user_id: employeeId,
+        category: 'timesheets',
+        title: timesheet.status === 'rejected' ? 'Timesheet needs correction' : 'Timesheet not submitted',
+        message: timesheet.status === 'rejected'
+          ? `Your timesheet for the week of ${weekLabel} was rejected; please correct and resubmit it`
+          : `Please submit your timesheet for the week of ${weekLabel}`,
+        metadata: { timesheet_id: timesheet.id, week_start: weekStart },
+        priority: timesheet.reminder_count >= 2 ? 'high' : 'normal',
+        action_url: '/timesheets',
+      });
+      await client.query(
+        `UPDATE public.timesheets SET reminder_count = reminder_count + 1, last_reminded_at = NOW() WHERE id = $1`,
+        [timesheet.id]
+      );
+      reminded++;
+    }
+
+    return { reminded, week_start: weekStart };
+  } finally {
+    client.release();
+    if (client.pool) await client.pool.end();
+  }
+}
+
+/**
+ * Initialize the missing timesheet reminders across all active agencies
+ */
+function initializeTimesheetScheduler() {
+  cron.schedule(TIMESHEET_REMINDER_SCHEDULE, async () => {
+    try {
+      const agencies = await mainPool.query(
+        `SELECT id, database_name FROM public.agencies
+         WHERE is_active = true AND database_name IS NOT NULL`
+      );
+
+      for (const agency of agencies.rows) {
+        try {
+          const result = await sendMissingTimesheetReminders(agency.database_name, agency.id);
+          if (result.reminded > 0) {
+            console.log(`[Timesheets] Agency ${agency.id}: ${result.reminded} missing timesheet reminder(s) sent`);
+          }
+        } catch (error) {
+          // Agencies created before timesheets have no timesheets table yet
+          if (error.code === '42P01') continue;
+          console.error(`[Timesheets] Reminder run failed for agency ${agency.id}:`, error.message);
+        }
+      }
+    } catch (error) {
+      console.error('[Timesheets] Error running missing timesheet reminders:', error);
+    }
+  });
+
+  console.log('[Timesheets] ✅ Scheduler initialized');
+}
+
+workflowService.registerCompletionHandler(ENTITY_TYPE, handleWorkflowCompletion);
+
+module.exports = {
+  getTimesheetWeek,
+  getTimesheetDetail,
+  saveTimesheetWeek,
+  submitTimesheet,
+  recallTimesheet,
+  getTimesheets,
+  getBillableSummary,
+  createInvoiceDraft,
+  sendMissingTimesheetReminders,
+  initializeTimesheetScheduler,
+};
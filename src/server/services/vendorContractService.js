@@ -0,0 +1,702 @@
+/**
+ * Vendor Contract Service
+ * Contract lifecycle on top of vendor_contracts: renewal reminders, auto and manual
+ * renewal, value consumed by purchase orders, and price-schedule enforcement on POs
+ */
+
+const { parseDatabaseUrl } = require('../utils/poolManager');
+const { Pool } = require('pg');
+const { round2 } = require('../utils/numberHelper');
+const { createNotification } = require('../utils/notificationHelper');
+const { resolveCurrencyCode, getBaseCurrency, getRateForDate } = require('./currencyService');
+const cron = require('node-cron');
+const { pool: mainPool } = require('../config/database');
+
+// Renewal reminders, auto-renewals and expiries run daily at 07:00
+const CONTRACT_SCHEDULE = process.env.CONTRACT_LIFECYCLE_SCHEDULE || '0 7 * * *';
+
+const RENEWAL_TYPES = ['manual', 'auto'];
+const PRICE_ENFORCEMENT_MODES = ['block', 'warn', 'off'];
+
+/**
+ * Get agency database connection
+ */
+async function getAgencyConnection(agencyDatabase) {
+  const { host, port, user, password } = parseDatabaseUrl();
+  const agencyDbUrl = `postgresql://${user}:${password}@${host}:${port}/${agencyDatabase}`;
+  const agencyPool = new Pool({ connectionString: agencyDbUrl, max: 1 });
+  const client = await agencyPool.connect();
+  // Attach pool to client for cleanup
+  client.pool = agencyPool;
+  return client;
+}
+
+const toDateString = (value) => {
+  if (!value) return null;
+  if (value instanceof Date) {
+    const local = new Date(value.getTime() - value.getTimezoneOffset() * 60000);
+    return local.toISOString().split('T')[0];
+  }
+  return String(value).split('T')[0];
+};
+
+function addMonths(dateString, months) {
+  const [year, month, day] = dateString.split('-').map(Number);
+  const target = new Date(Date.UTC(year, month - 1 + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(day, lastDay));
+  return target.toISOString().split('T')[0];
+}
+
+function daysBetween(fromDate, toDate) {
+  return Math.round((Date.parse(`${toDate}T00:00:00Z`) - Date.parse(`${fromDate}T00:00:00Z`)) / 86400000);
+}
+
+function parseReminderDays(value) {
+  const list = Array.isArray(value) ? value : String(value || '').split(',');
+  return [...new Set(list.map((day) => parseInt(day, 10)).filter((day) => Number.isFinite(day) && day >= 0))]
+    .sort((a, b) => b - a);
+}
+
+/**
+ * Read the contract keys from the agency's procurement settings
+ */
+async function getContractSettings(client, agencyId) {
+  const result = await client.query(
+    `SELECT settings FROM public.module_settings
+     WHERE agency_id = $1 AND module = 'procurement'`,
+    [agencyId]
+  );
+  const settings = result.rows[0]?.settings || {};
+  const reminderDays = parseReminderDays(settings.contract_reminder_days);
+  const tolerance = parseFloat(settings.contract_price_tolerance_percent);
+  return {
+    reminder_days: reminderDays.length > 0 ? reminderDays : [90, 30, 7],
+    price_enforcement: PRICE_ENFORCEMENT_MODES.includes(settings.contract_price_enforcement)
+      ? settings.contract_price_enforcement
+      : 'block',
+    price_tolerance_percent: Number.isFinite(tolerance) && tolerance >= 0 ? tolerance : 0,
+  };
+}
+
+function notify(client, agencyId, userId, title, message, metadata, priority) {
+  return createNotification(client, {
+    agency_id: agencyId,
+    user_id: userId,
+    category: 'procurement',
+    title,
+    message,
+    metadata,
+    priority,
+    action_url: '/procurement/vendor-contracts',
+  });
+}
+
+// A purchase order's total in its contract's currency (po and vc in scope): as ordered when
+// the currencies match, otherwise the PO's base amount divided by the contract currency's
+// rate on the order date
+const PO_CONTRACT_AMOUNT_SQL = `
+  CASE WHEN po.currency = vc.currency THEN po.total_amount
+       ELSE COALESCE(po.base_total_amount, po.total_amount * COALESCE(po.exchange_rate, 1)) / COALESCE(
+         (SELECT er.rate FROM public.exchange_rates er
+          WHERE er.currency_code = vc.currency AND er.rate_date <= po.order_date
+          ORDER BY er.rate_date DESC LIMIT 1),
+         (SELECT 1 / NULLIF(c.exchange_rate, 0) FROM public.currencies c WHERE c.code = vc.currency),
+         1)
+  END
+`;
+
+// Value consumed by purchase orders issued under the contract, in the contract currency
+const CONSUMED_VALUE_SQL = `
+  SELECT
+    COALESCE(ROUND(SUM(${PO_CONTRACT_AMOUNT_SQL}), 2), 0) as consumed_value,
+    COUNT(po.id) as po_count
+  FROM public.purchase_orders po
+  WHERE po.contract_id = vc.id AND po.status <> 'cancelled'
+`;
+
+async function loadContract(client, agencyId, contractId) {
+  const result = await client.query(
+    `SELECT vc.*, s.name as supplier_name, usage.consumed_value, usage.po_count
+     FROM public.vendor_contracts vc
+     LEFT JOIN public.suppliers s ON vc.supplier_id = s.id
+     LEFT JOIN LATERAL (${CONSUMED_VALUE_SQL}) usage ON true
+     WHERE vc.id = $1 AND vc.agency_id = $2`,
+    [contractId, agencyId]
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * Get the price schedule of a contract
+ */
+async function getContractPrices(agencyDatabase, agencyId, contractId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const result = await client.query(
+      `SELECT cp.*, p.name as product_name, p.sku as product_sku
+       FROM public.vendor_contract_prices cp
+       JOIN public.vendor_contracts vc ON cp.contract_id = vc.id
+       LEFT JOIN public.products p ON cp.product_id = p.id
+       WHERE cp.contract_id = $1 AND vc.agency_id = $2
+       ORDER BY cp.description, cp.min_quantity`,
+      [contractId, agencyId]
+    );
+    return result.rows;
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Replace the price schedule of a contract
+ */
+async function saveContractPrices(agencyDatabase, agencyId, contractId, lines = []) {
+  for (const line of lines) {
+    const unitPrice = parseFloat(line.unit_price);
+    if (!line.description || !(unitPrice >= 0)) {
+      throw new Error('Each price line needs a description and a unit price');
+    }
+  }
+
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    await client.query('BEGIN');
+
+    const contract = await client.query(
+      'SELECT id FROM public.vendor_contracts WHERE id = $1 AND agency_id = $2 FOR UPDATE',
+      [contractId, agencyId]
+    );
+    if (contract.rows.length === 0) {
+      throw new Error('Vendor contract not found');
+    }
+
+    await client.query('DELETE FROM public.vendor_contract_prices WHERE contract_id = $1', [contractId]);
+    for (const line of lines) {
+      await client.query(
+        `INSERT INTO public.vendor_contract_prices (
+          contract_id, product_id, description, unit_price, unit_of_measure, min_quantity, notes
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+        [
+          contractId,
+          line.product_id || null,
+          line.description,
+          round2(line.unit_price),
+          line.unit_of_measure || null,
+          parseFloat(line.min_quantity) || 0,
+          line.notes || null,
+        ]
+      );
+    }
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+
+  return getContractPrices(agencyDatabase, agencyId, contractId);
+}
+
+/**
+ * Purchase orders issued under a contract
+ */
+async function getContractPurchaseOrders(agencyDatabase, agencyId, contractId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const result = await client.query(
+      `SELECT id, po_number, status, order_date, currency, total_amount, base_total_amount
+       FROM public.purchase_orders
+       WHERE contract_id = $1 AND agency_id = $2
+       ORDER BY order_date DESC, created_at DESC`,
+      [contractId, agencyId]
+    );
+    return result.rows;
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Renewal history of a contract
+ */
+async function getContractRenewals(agencyDatabase, agencyId, contractId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const result = await client.query(
+      `SELECT r.*, COALESCE(NULLIF(p.full_name, ''), u.email) as renewed_by_name
+       FROM public.vendor_contract_renewals r
+       LEFT JOIN public.users u ON r.renewed_by = u.id
+       LEFT JOIN public.profiles p ON r.renewed_by = p.user_id
+       WHERE r.contract_id = $1 AND r.agency_id = $2
+       ORDER BY r.created_at DESC`,
+      [contractId, agencyId]
+    );
+    return result.rows;
+  } catch (error) {
+    if (error.code === '42P01') {
+      return [];
+    }
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Extend a contract to a new end date. Shared by manual renewal and the scheduler.
+ */
+async function extendContract(client, agencyId, contract, newEndDate, renewalType, options = {}) {
+  const newValue = options.new_value !== undefined && options.new_value !== null && options.new_value !== ''
+    ? round2(options.new_value)
+    : contract.value;
+
+  await client.query(
+    `UPDATE public.vendor_contracts SET
+      end_date = $2, value = $3, status = 'active', renewal_count = COALESCE(renewal_count, 0) + 1,
+      last_reminder_days = NULL, updated_at = NOW()
+    WHERE id = $1`,
+    [contract.id, newEndDate, newValue]
+  );
+
+  await client.query(
+    `INSERT INTO public.vendor_contract_renewals (
+      agency_id, contract_id, renewal_type, previous_end_date, new_end_date,
+      previous_value, new_value, notes, renewed_by
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+    [
+      agencyId,
+      contract.id,
+      renewalType,
+      toDateString(contract.end_date),
+      newEndDate,
+      contract.value,
+      newValue,
+      options.notes || null,
+      options.userId || null,
+    ]
+  );
+}
+
+/**
+ * Renew a contract by hand, either to a new end date or by a number of months
+ */
+async function renewContract(agencyDatabase, agencyId, contractId, renewalData, userId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    await client.query('BEGIN');
+
+    const locked = await client.query(
+      'SELECT * FROM public.vendor_contracts WHERE id = $1 AND agency_id = $2 FOR UPDATE',
+      [contractId, agencyId]
+    );
+    const contract = locked.rows[0];
+    if (!contract) {
+      throw new Error('Vendor contract not found');
+    }
+    if (contract.status === 'terminated') {
+      throw new Error('Terminated contracts cannot be renewed');
+    }
+
+    const currentEnd = toDateString(contract.end_date);
+    const months = parseInt(renewalData.term_months, 10);
+    let newEndDate = renewalData.new_end_date ? toDateString(renewalData.new_end_date) : null;
+    if (!newEndDate && months > 0) {
+      newEndDate = addMonths(currentEnd || toDateString(new Date()), months);
+    }
+    if (!newEndDate) {
+      throw new Error('Enter the new end date or the renewal term in months');
+    }
+    if (currentEnd && newEndDate <= currentEnd) {
+      throw new Error('The new end date must be after the current end date');
+    }
+
+    await extendContract(client, agencyId, contract, newEndDate, 'manual', {
+      new_value: renewalData.new_value,
+      notes: renewalData.notes,
+      userId,
+    });
+
+    await client.query('COMMIT');
+    return await loadContract(client, agencyId, contractId);
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Active contracts ending within `days`, plus those already past their end date,
+ * with the value consumed so far
+ */
+async function getExpiringContracts(agencyDatabase, agencyId, days = 90) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const result = await client.query(
+      `SELECT vc.*, s.name as supplier_name, usage.consumed_value, usage.po_count,
+        (vc.end_date - CURRENT_DATE) as days_remaining
+       FROM public.vendor_contracts vc
+       LEFT JOIN public.suppliers s ON vc.supplier_id = s.id
+       LEFT JOIN LATERAL (${CONSUMED_VALUE_SQL}) usage ON true
+       WHERE vc.agency_id = $1 AND vc.status = 'active'
+         AND vc.end_date IS NOT NULL
+         AND vc.end_date <= CURRENT_DATE + ($2 || ' days')::interval
+       ORDER BY vc.end_date ASC`,
+      [agencyId, String(parseInt(days, 10) || 90)]
+    );
+    return result.rows;
+  } catch (error) {
+    if (error.code === '42P01' || error.code === '42703') {
+      return [];
+    }
+    throw error;
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Find the contract governing a purchase order: the one named on the PO, else the
+ * supplier's active contract in effect on the order date (price-scheduled ones first)
+ */
+async function findContractForOrder(client, agencyId, orderData) {
+  const orderDate = toDateString(orderData.order_date) || toDateString(new Date());
+
+  if (orderData.contract_id) {
+    const contract = await loadContract(client, agencyId, orderData.contract_id);
+    if (!contract) {
+      throw new Error('Vendor contract not found');
+    }
+    if (contract.supplier_id !== orderData.supplier_id) {
+      throw new Error(`Contract ${contract.contract_number} belongs to a different supplier`);
+    }
+    const starts = toDateString(contract.start_date);
+    const ends = toDateString(contract.end_date);
+    // Orders dated within the term stay valid after the contract has since expired
+    if (!['active', 'expired'].includes(contract.status) || orderDate < starts || (ends && orderDate > ends)) {
+      throw new Error(`Contract ${contract.contract_number} is not in effect on ${orderDate}`);
+    }
+    return contract;
+  }
+
+  if (!orderData.supplier_id) return null;
+
+  const result = await client.query(
+    `SELECT vc.id
+     FROM public.vendor_contracts vc
+     WHERE vc.agency_id = $1 AND vc.supplier_id = $2 AND vc.status = 'active'
+       AND vc.start_date <= $3 AND (vc.end_date IS NULL OR vc.end_date >= $3)
+     ORDER BY EXISTS (SELECT 1 FROM public.vendor_contract_prices cp WHERE cp.contract_id = vc.id) DESC,
+       vc.end_date ASC NULLS LAST
+     LIMIT 1`,
+    [agencyId, orderData.supplier_id, orderDate]
+  );
+  return result.rows[0] ? loadContract(client, agencyId, result.rows[0].id) : null;
+}
+
+/**
+ * Factor converting amounts in the order's currency into the contract currency through
+ * base currency, using the order's own exchange rate when it carries one
+ */
+async function getOrderToContractRate(client, contract, orderData, orderDate) {
+  const contractCurrency = resolveCurrencyCode(contract.currency);
+  const orderCurrency = resolveCurrencyCode(orderData.currency) || contractCurrency;
+  if (!contractCurrency || orderCurrency === contractCurrency) return 1;
+
+  const baseCurrency = await getBaseCurrency(client);
+  const orderRate = parseFloat(orderData.exchange_rate) > 0
+    ? parseFloat(orderData.exchange_rate)
+    : (await getRateForDate(client, orderCurrency, orderDate, baseCurrency)).rate;
+  const contractRate = (await getRateForDate(client, contractCurrency, orderDate, baseCurrency)).rate;
+  return orderRate / contractRate;
+}
+
+/**
+ * Check a purchase order against its contract. Lines are matched to the price schedule
+ * by product, or by description for lines without a product; the tier with the highest
+ * minimum quantity the line reaches applies. Prices and the order total are converted into
+ * the contract currency before comparing. Returns the contract, lines priced above it and
+ * warnings, without writing anything.
+ */
+async function evaluateOrderAgainstContract(client, agencyId, orderData) {
+  const contract = await findContractForOrder(client, agencyId, orderData);
+  if (!contract) {
+    return { contract: null, violations: [], warnings: [], enforcement: 'off' };
+  }
+
+  const settings = await getContractSettings(client, agencyId);
+  const orderDate = toDateString(orderData.order_date) || toDateString(new Date());
+  const conversion = await getOrderToContractRate(client, contract, orderData, orderDate);
+  const prices = await client.query(
+    'SELECT * FROM public.vendor_contract_prices WHERE contract_id = $1',
+    [contract.id]
+  );
+
+  const violations = [];
+  for (const item of orderData.items || []) {
+    const quantity = parseFloat(item.quantity) || 0;
+    const unitPrice = round2((parseFloat(item.unit_price) || 0) * conversion);
+    const description = String(item.description || '').trim().toLowerCase();
+    const tier = prices.rows
+      .filter((line) =>
+        item.product_id
+          ? line.product_id === item.product_id
+          : !line.product_id && line.description.trim().toLowerCase() === description
+      )
+      .filter((line) => quantity >= parseFloat(line.min_quantity || 0))
+      .sort((a, b) => parseFloat(b.min_quantity || 0) - parseFloat(a.min_quantity || 0))[0];
+    if (!tier) continue;
+
+    const ceiling = parseFloat(tier.unit_price) * (1 + settings.price_tolerance_percent / 100);
+    if (unitPrice > round2(ceiling)) {
+      violations.push({
+        description: item.description,
+        product_id: item.product_id || null,
+        quantity,
+        unit_price: unitPrice,
+        contract_price: parseFloat(tier.unit_price),
+      });
+    }
+  }
+
+  const warnings = [];
+  if (contract.value !== null && contract.value !== undefined) {
+    let consumed = parseFloat(contract.consumed_value) || 0;
+    if (orderData.po_id) {
+      const current = await client.query(
+        `SELECT ROUND(${PO_CONTRACT_AMOUNT_SQL}, 2) as amount
+         FROM public.purchase_orders po
+         JOIN public.vendor_contracts vc ON po.contract_id = vc.id
+         WHERE po.id = $1 AND po.contract_id = $2 AND po.status <> 'cancelled'`,
+        [orderData.po_id, contract.id]
+      );
+      consumed -= parseFloat(current.rows[0]?.amount) || 0;
+    }
+    const remaining = round2(parseFloat(contract.value) - consumed);
+    const orderTotal = round2((parseFloat(orderData.total_amount) || 0) * conversion);
+    if (orderTotal > remaining) {
+      warnings.push(
+        `This order takes contract ${contract.contract_number} over its value (${remaining.toFixed(2)} ${contract.currency} remaining)`
+      );
+    }
+  }
+
+  if (violations.length > 0 && settings.price_enforcement === 'warn') {
+    for (const violation of violations) {
+      warnings.push(
+        `${violation.description} is priced at ${violation.unit_price.toFixed(2)} ${contract.currency}, above the contract price of ${violation.contract_price.toFixed(2)}`
+      );
+    }
+  }
+
+  return {
+    contract,
+    violations: settings.price_enforcement === 'off' ? [] : violations,
+    warnings,
+    enforcement: settings.price_enforcement,
+  };
+}
+
+/**
+ * Resolve the contract for a purchase order being saved and enforce its price schedule.
+ * Throws when prices exceed the contract and enforcement is set to block.
+ */
+async function applyContractToOrder(client, agencyId, orderData) {
+  const result = await evaluateOrderAgainstContract(client, agencyId, orderData);
+  if (result.enforcement === 'block' && result.violations.length > 0) {
+    const lines = result.violations
+      .map((v) => `${v.description} at ${v.unit_price.toFixed(2)} (contract ${v.contract_price.toFixed(2)})`)
+      .join('; ');
+    throw new Error(`Prices exceed contract ${result.contract.contract_number} (${result.contract.currency}): ${lines}`);
+  }
+  return {
+    contract_id: result.contract ? result.contract.id : null,
+    warnings: result.warnings,
+  };
+}
+
+/**
+ * Preview the contract check for a purchase order before saving it
+ */
+async function checkPurchaseOrderAgainstContract(agencyDatabase, agencyId, orderData) {
+  const client = await getAgencyConnection(agencyDatabase);
+  try {
+    const result = await evaluateOrderAgainstContract(client, agencyId, orderData);
+    return {
+      contract: result.contract,
+      violations: result.violations,
+      warnings: result.warnings,
+      enforcement: result.enforcement,
+    };
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Lifecycle step for one active contract: renew or expire it once lapsed, otherwise send
+ * the reminder for the nearest lead time not yet sent. Returns the summary key it counts
+ * towards, or null when nothing was due.
+ */
+async function applyContractLifecycle(client, agencyId, contract, settings, today) {
+  const endDate = toDateString(contract.end_date);
+  const daysRemaining = daysBetween(today, endDate);
+  const recipient = contract.owner_id || contract.signed_by;
+  const label = `${contract.contract_number} ${contract.title}${contract.supplier_name ? ` (${contract.supplier_name})` : ''}`;
+  const metadata = { contract_id: contract.id };
+
+  if (daysRemaining < 0) {
+    const months = parseInt(contract.renewal_term_months, 10);
+    if (contract.renewal_type === 'auto' && months > 0) {
+      let newEndDate = addMonths(endDate, months);
+      while (newEndDate < today) {
+        newEndDate = addMonths(newEndDate, months);
+      }
+      await extendContract(client, agencyId, contract, newEndDate, 'auto', {
+        notes: `Renewed automatically for ${months} month(s)`,
+      });
+      await notify(client, agencyId, recipient, 'Contract auto-renewed',
+        `${label} renewed automatically until ${newEndDate}`, metadata, 'normal');
+      return 'renewed';
+    }
+    await client.query(
+      `UPDATE public.vendor_contracts SET status = 'expired', updated_at = NOW() WHERE id = $1`,
+      [contract.id]
+    );
+    await notify(client, agencyId, recipient, 'Contract expired',
+      `${label} expired on ${endDate}`, metadata, 'high');
+    return 'expired';
+  }
+
+  const leads = parseReminderDays(contract.reminder_days);
+  const dueLead = (leads.length > 0 ? leads : settings.reminder_days)
+    .filter((lead) => daysRemaining <= lead)
+    .sort((a, b) => a - b)[0];
+  if (dueLead === undefined) return null;
+  if (contract.last_reminder_days !== null && contract.last_reminder_days <= dueLead) return null;
+
+  const message = contract.renewal_type === 'auto' && parseInt(contract.renewal_term_months, 10) > 0
+    ? `${label} ends on ${endDate} and renews automatically for ${contract.renewal_term_months} month(s) unless terminated`
+    : `${label} ends on ${endDate} (${daysRemaining} day(s)); renew it or let it expire`;
+  await notify(client, agencyId, recipient, 'Contract renewal due', message, metadata,
+    daysRemaining <= 7 ? 'high' : 'normal');
+  await client.query(
+    'UPDATE public.vendor_contracts SET last_reminder_days = $2 WHERE id = $1',
+    [contract.id, dueLead]
+  );
+  return 'reminded';
+}
+
+/**
+ * Daily lifecycle pass: reminders at each configured lead time, auto-renewal of lapsed
+ * auto-renew contracts, and expiry of lapsed manual ones. Each contract is handled in its
+ * own transaction; a failure is logged and counted, and the pass moves on.
+ */
+async function processContractLifecycle(agencyDatabase, agencyId) {
+  const client = await getAgencyConnection(agencyDatabase);
+  const summary = { reminded: 0, renewed: 0, expired: 0, failed: 0 };
+  try {
+    const settings = await getContractSettings(client, agencyId);
+    const today = toDateString(new Date());
+    const contracts = await client.query(
+      `SELECT vc.*, s.name as supplier_name
+       FROM public.vendor_contracts vc
+       LEFT JOIN public.suppliers s ON vc.supplier_id = s.id
+       WHERE vc.agency_id = $1 AND vc.status = 'active' AND vc.end_date IS NOT NULL`,
+      [agencyId]
+    );
+
+    for (const contract of contracts.rows) {
+      await client.query('BEGIN');
+      try {
+        const outcome = await applyContractLifecycle(client, agencyId, contract, settings, today);
+        await client.query('COMMIT');
+        if (outcome) summary[outcome]++;
+      } catch (error) {
+        await client.query('ROLLBACK');
+        console.error(`[Vendor Contracts] Lifecycle step failed for contract ${contract.contract_number}:`, error.message);
+        summary.failed++;
+      }
+    }
+
+    return summary;
+  } finally {
+    client.release();
+    if (client.pool) {
+      await client.pool.end();
+    }
+  }
+}
+
+/**
+ * Initialize the contract lifecycle run across all active agencies
+ */
+function initializeContractScheduler() {
+  cron.schedule(CONTRACT_SCHEDULE, async () => {
+    try {
+      const agencies = await mainPool.query(
+        `SELECT id, database_name FROM public.agencies
+         WHERE is_active = true AND database_name IS NOT NULL`
+      );
+
+      for (const agency of agencies.rows) {
+        try {
+          const result = await processContractLifecycle(agency.database_name, agency.id);
+          if (result.reminded + result.renewed + result.expired + result.failed > 0) {
+            console.log(
+              `[Vendor Contracts] Agency ${agency.id}: ${result.reminded} reminder(s), ${result.renewed} renewed, ${result.expired} expired, ${result.failed} failed`
+            );
+          }
+        } catch (error) {
+          // Agencies without the procurement module have no contract tables
+          if (error.code === '42P01') continue;
+          console.error(`[Vendor Contracts] Lifecycle run failed for agency ${agency.id}:`, error.message);
+        }
+      }
+    } catch (error) {
+      console.error('[Vendor Contracts] Error running contract lifecycle:', error);
+    }
+  });
+
+  console.log('[Vendor Contracts] ✅ Scheduler initialized');
+}
+
+module.exports = {
+  RENEWAL_TYPES,
+  CONSUMED_VALUE_SQL,
+  getContractPrices,
+  saveContractPrices,
+  getContractPurchaseOrders,
+  getContractRenewals,
+  renewContract,
+  getExpiringContracts,
+  applyContractToOrder,
+  checkPurchaseOrderAgainstContract,
+  processContractLifecycle,
+  initializeContractScheduler,
+};
@@ -904,6 +904,7 @@ async function updateWorkflowInstance(agencyDatabase, agencyId, instanceId, inst
 async function cancelWorkflowInstance(agencyDatabase, agencyId, instanceId, userId, reason) {
   const client = await getAgencyConnection(agencyDatabase);
   try {
+    await client.query('BEGIN');
     const result = await client.query(
       `UPDATE public.workflow_instances 
        SET status = 'cancelled',
@@ -920,8 +921,17 @@ async function cancelWorkflowInstance(agencyDatabase, agencyId, instanceId, user
       throw new Error('Workflow instance not found');
     }
 
+    await client.query(
+      `UPDATE public.workflow_approvals SET status = 'skipped', updated_at = NOW()
+       WHERE instance_id = $1 AND status = 'pending'`,
+      [instanceId]
+    );
+    await runCompletionHandler(client, result.rows[0], 'cancelled', userId, reason);
+
+    await client.query('COMMIT');
     return result.rows[0];
   } catch (error) {
+    await client.query('ROLLBACK');
     console.error('[Workflow Service] Error cancelling workflow instance:', error);
     throw error;
   } finally {
@@ -942,6 +952,177 @@ async function cancelWorkflowInstance(agencyDatabase, agencyId, instanceId, user
   }
 }
 
+// Entity modules register what happens to their record when its approval workflow finishes
+const completionHandlers = new Map();
+
+/**
+ * Register a handler run inside the approval transaction when a workflow instance for the
+ * entity type is approved, rejected or cancelled: handler(client, { instance, outcome, userId, comments })
+ */
+function registerCompletionHandler(entityType, handler) {
+  completionHandlers.set(entityType, handler);
+}
+
+async function runCompletionHandler(client, instance, outcome, userId, comments) {
+  const handler = completionHandlers.get(instance.entity_type);
+  if (handler) {
+    await handler(client, { instance, outcome, userId, comments: comments || null });
+  }
+}
+
+/**
+ * Resolve the users who approve a step. A 'manager' step goes to the requester's supervisor,
+ * then their department manager, then HR.
+ */
+async function resolveStepApprovers(client, step, instance) {
+  const requesterId = (instance.metadata && instance.metadata.employee_id) || instance.started_by;
+  let approvers = [];
+
+  if (step.approver_type === 'role' && step.approver_role) {
+    const result = await client.query(
+      `SELECT DISTINCT user_id FROM public.user_roles WHERE role::text = $1 AND (agency_id = $2 OR agency_id IS NULL)`,
+      [step.approver_role, instance.agency_id]
+    );
+    approvers = result.rows.map((row) => row.user_id);
+  } else if (step.approver_type === 'department' && step.approver_department_id) {
+    const result = await client.query(
+      `SELECT manager_id FROM public.departments WHERE id = $1 AND manager_id IS NOT NULL`,
+      [step.approver_department_id]
+    );
+    approvers = result.rows.map((row) => row.manager_id);
+  } else if (step.approver_type === 'manager') {
+    const supervisor = await client.query(
+      `SELECT sup.user_id
+       FROM public.employee_details ed
+       JOIN public.employee_details sup ON sup.id = ed.supervisor_id
+       WHERE ed.user_id = $1 AND sup.user_id IS NOT NULL`,
+      [requesterId]
+    );
+    approvers = supervisor.rows.map((row) => row.user_id);
+
+    if (approvers.filter((id) => id !== requesterId).length === 0) {
+      const departmentManager = await client.query(
+        `SELECT d.manager_id
+         FROM public.team_assignments ta
+         JOIN public.departments d ON d.id = ta.department_id
+         WHERE ta.user_id = $1 AND COALESCE(ta.is_active, true) = true AND d.manager_id IS NOT NULL
+         ORDER BY ta.assigned_at DESC NULLS LAST
+         LIMIT 1`,
+        [requesterId]
+      );
+      approvers = departmentManager.rows.map((row) => row.manager_id);
+    }
+
+    if (approvers.filter((id) => id !== requesterId).length === 0) {
+      const hr = await client.query(
+        `SELECT DISTINCT user_id FROM public.user_roles WHERE role::text = 'hr' AND (agency_id = $1 OR agency_id IS NULL)`,
+        [instance.agency_id]
+      );
+      approvers = hr.rows.map((row) => row.user_id);
+    }
+  } else if (step.approver_id) {
+    approvers = [step.approver_id];
+  }
+
+  // Nobody approves their own request
+  return [...new Set(approvers)].filter((id) => id && id !== requesterId);
+}
+
+/**
+ * Create the pending approvals for a step of an instance. Returns the approver ids.
+ */
+async function createStepApprovals(client, instance, stepNumber) {
+  const stepResult = await client.query(
+    'SELECT * FROM public.workflow_steps WHERE workflow_id = $1 AND step_number = $2',
+    [instance.workflow_id, stepNumber]
+  );
+  const step = stepResult.rows[0];
+  if (!step) {
+    return [];
+  }
+
+  const approvers = await resolveStepApprovers(client, step, instance);
+  for (const approverId of approvers) {
+    await client.query(
+      `INSERT INTO public.workflow_approvals (
+        id, agency_id, instance_id, step_id, step_number, approver_id, status, timeout_at, created_at, updated_at
+      ) VALUES (
+        $1, $2, $3, $4, $5, $6, 'pending',
+        CASE WHEN $7::int IS NULL THEN NULL ELSE NOW() + make_interval(hours => $7::int) END,
+        NOW(), NOW()
+      )
+      ON CONFLICT (instance_id, step_id, approver_id) DO NOTHING`,
+      [generateUUID(), instance.agency_id, instance.id, step.id, step.step_number, approverId, step.timeout_hours]
+    );
+  }
+  return approvers;
+}
+
+/**
+ * Find the active approval workflow for an entity type, creating a single-step manager approval
+ * the first time one is needed. A workflow that has been switched off stops new requests.
+ */
+async function ensureSystemApprovalWorkflow(client, agencyId, definition, userId) {
+  const existing = await client.query(
+    `SELECT id, is_active FROM public.workflows
+     WHERE agency_id = $1 AND entity_type = $2
+     ORDER BY is_active DESC, version DESC
+     LIMIT 1`,
+    [agencyId, definition.entity_type]
+  );
+  if (existing.rows[0]) {
+    if (!existing.rows[0].is_active) {
+      throw new Error(`The ${definition.name} workflow is switched off`);
+    }
+    return existing.rows[0].id;
+  }
+
+  const workflow = await client.query(
+    `INSERT INTO public.workflows (
+      id, agency_id, name, description, workflow_type, entity_type, trigger_event, is_active, is_system, created_by
+    ) VALUES ($1, $2, $3, $4, 'approval', $5, 'created', true, true, $6)
+    RETURNING id`,
+    [generateUUID(), agencyId, definition.name, definition.description || null, definition.entity_type, userId]
+  );
+  await client.query(
+    `INSERT INTO public.workflow_steps (id, workflow_id, step_number, step_name, step_type, approver_type)
+     VALUES ($1, $2, 1, 'Manager approval', 'approval', 'manager')`,
+    [generateUUID(), workflow.rows[0].id]
+  );
+  return workflow.rows[0].id;
+}
+
+/**
+ * Start an approval workflow for an entity on an existing client (so it can share the caller's
+ * transaction) and route it to the first step's approvers
+ */
+async function startApprovalWorkflow(client, instanceData, userId) {
+  const result = await client.query(
+    `INSERT INTO public.workflow_instances (
+      id, agency_id, workflow_id, entity_type, entity_id,
+      status, current_step_number, started_by, started_at,
+      metadata, created_at, updated_at
+    ) VALUES ($1, $2, $3, $4, $5, 'pending', 1, $6, NOW(), $7, NOW(), NOW())
+    RETURNING *`,
+    [
+      generateUUID(),
+      instanceData.agency_id,
+      instanceData.workflow_id,
+      instanceData.entity_type,
+      instanceData.entity_id,
+      userId,
+      JSON.stringify(instanceData.metadata || {}),
+    ]
+  );
+  const instance = result.rows[0];
+
+  const approvers = await createStepApprovals(client, instance, 1);
+  if (approvers.length === 0) {
+    throw new Error('No approver could be found for this request');
+  }
+  return { ...instance, approver_ids: approvers };
+}
+
 /**
  * Update a workflow approval
  */
@@ -1002,7 +1183,20 @@ async function updateWorkflowApproval(agencyDatabase, agencyId, approvalId, appr
          WHERE id = $3 AND agency_id = $4`,
         [userId, approvalData.comments || null, instance.id, agencyId]
       );
+      await client.query(
+        `UPDATE public.workflow_approvals SET status = 'skipped', updated_at = NOW()
+         WHERE instance_id = $1 AND status = 'pending'`,
+        [instance.id]
+      );
+      await runCompletionHandler(client, instance, 'rejected', userId, approvalData.comments);
     } else if (approvalData.status === 'approved') {
+      // Other approvers on the same step no longer need to act
+      await client.query(
+        `UPDATE public.workflow_approvals SET status = 'skipped', updated_at = NOW()
+         WHERE instance_id = $1 AND step_number = $2 AND status = 'pending'`,
+        [instance.id, approval.step_number]
+      );
+
       // Check if this is the last step
       const stepsResult = await client.query(
         'SELECT MAX(step_number) as max_step FROM public.workflow_steps WHERE workflow_id = $1',
@@ -1021,6 +1215,7 @@ async function updateWorkflowApproval(agencyDatabase, agencyId, approvalId, appr
            WHERE id = $2 AND agency_id = $3`,
           [userId, instance.id, agencyId]
         );
+        await runCompletionHandler(client, instance, 'approved', userId, approvalData.comments);
       } else {
         // Move to next step
         await client.query(
@@ -1030,6 +1225,7 @@ async function updateWorkflowApproval(agencyDatabase, agencyId, approvalId, appr
            WHERE id = $2 AND agency_id = $3`,
           [instance.current_step_number + 1, instance.id, agencyId]
         );
+        await createStepApprovals(client, instance, instance.current_step_number + 1);
       }
     }
 
@@ -1405,6 +1601,9 @@ module.exports = {
   getAllPendingApprovals,
   updateWorkflowApproval,
   createWorkflowInstance,
+  ensureSystemApprovalWorkflow,
+  startApprovalWorkflow,
+  registerCompletionHandler,
   updateWorkflowInstance,
   cancelWorkflowInstance,
   getAutomationRules,
@@ -0,0 +1,64 @@
+/**
+ * Accounting Helper Utilities
+ * Shared lookups against the chart of accounts for services that post journal entries
+ */
+
+// How many codes after the default are tried when the default code is already taken
+const ACCOUNT_CODE_ATTEMPTS = 100;
+
+/**
+ * Find the agency's active account matching a name pattern, or create it on first use
+ *
+ * account_code is unique across the whole table, so a taken default code is never
+ * reused: the next free code after it is used instead, e.g. 2101 when 2100 is taken.
+ *
+ * @param {Client} client - Database client
+ * @param {string} agencyId - Agency ID
+ * @param {Object} account - { account_code, account_name, account_type, pattern, exclude_pattern? }
+ * @param {string} description - Description stored on a created account
+ * @returns {Promise<string>} Account ID
+ */
+async function findOrCreateAccount(client, agencyId, account, description) {
+  const params = [agencyId, account.account_type, account.pattern];
+  if (account.exclude_pattern) params.push(account.exclude_pattern);
+  const existing = await client.query(
+    `SELECT id FROM public.chart_of_accounts
+     WHERE agency_id = $1 AND LOWER(account_type) = $2 AND account_name ILIKE $3
+       ${account.exclude_pattern ? 'AND account_name NOT ILIKE $4' : ''}
+       AND COALESCE(is_active, true) = true
+     ORDER BY account_code
+     LIMIT 1`,
+    params
+  );
+  if (existing.rows.length > 0) return existing.rows[0].id;
+
+  const baseCode = parseInt(account.account_code, 10);
+  const candidates = Array.from({ length: ACCOUNT_CODE_ATTEMPTS }, (_, offset) => String(baseCode + offset));
+  const taken = await client.query(
+    'SELECT account_code FROM public.chart_of_accounts WHERE account_code = ANY($1)',
+    [candidates]
+  );
+  const takenCodes = new Set(taken.rows.map((row) => row.account_code));
+  const accountCode = candidates.find((code) => !takenCodes.has(code));
+  if (!accountCode) {
+    throw new Error(
+      `No free account code found from ${account.account_code} for ${account.account_name}; add the account to the chart of accounts`
+    );
+  }
+
+  const created = await client.query(
+    `INSERT INTO public.chart_of_accounts (account_code, account_name, account_type, description, agency_id)
+     VALUES ($1, $2, $3, $4, $5)
+     ON CONFLICT (account_code) DO NOTHING
+     RETURNING id`,
+    [accountCode, account.account_name, account.account_type, description, agencyId]
+  );
+  if (created.rows.length === 0) {
+    throw new Error(`Account code ${accountCode} was taken while creating ${account.account_name}; please retry`);
+  }
+  return created.rows[0].id;
+}
+
+module.exports = {
+  findOrCreateAccount,
+};
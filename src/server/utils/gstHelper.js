@@ -0,0 +1,97 @@
+/**
+ * GST Helper Utilities
+ * Server-side GST split for sales invoices, matching src/utils/gstCalculations.ts
+ */
+
+const { round2 } = require('./numberHelper');
+
+/**
+ * Get the two-digit state code from a GSTIN (e.g. "27AAAAA0000A1Z5" -> "27")
+ * @param {string|null} gstin - GSTIN
+ * @returns {string|null} State code
+ */
+function getStateCodeFromGstin(gstin) {
+  if (!gstin) return null;
+  const code = String(gstin).trim().substring(0, 2);
+  return /^\d{2}$/.test(code) ? code : null;
+}
+
+/**
+ * Supplies within the supplier's own state attract CGST + SGST, all others IGST.
+ * Without a known place of supply the supply is treated as intra-state.
+ * @param {string|null} supplierStateCode - State code of the agency's GSTIN
+ * @param {string|null} placeOfSupply - State code of the place of supply
+ * @returns {'intra_state'|'inter_state'} Supply type
+ */
+function determineSupplyType(supplierStateCode, placeOfSupply) {
+  if (!supplierStateCode || !placeOfSupply) return 'intra_state';
+  return supplierStateCode === placeOfSupply ? 'intra_state' : 'inter_state';
+}
+
+function splitTax(taxableValue, rate, supplyType) {
+  let cgstAmount = 0;
+  let sgstAmount = 0;
+  let igstAmount = 0;
+  if (supplyType === 'inter_state') {
+    igstAmount = round2(taxableValue * rate / 100);
+  } else {
+    cgstAmount = round2(taxableValue * (rate / 2) / 100);
+    sgstAmount = round2(taxableValue * (rate / 2) / 100);
+  }
+
+  const taxAmount = round2(cgstAmount + sgstAmount + igstAmount);
+  return {
+    taxable_value: taxableValue,
+    cgst_amount: cgstAmount,
+    sgst_amount: sgstAmount,
+    igst_amount: igstAmount,
+    tax_amount: taxAmount,
+    line_total: round2(taxableValue + taxAmount),
+  };
+}
+
+function lineTaxableValue(line) {
+  const gross = (parseFloat(line.quantity) || 0) * (parseFloat(line.unit_price) || 0);
+  return round2(gross - gross * ((parseFloat(line.discount_percentage) || 0) / 100));
+}
+
+/**
+ * Calculate every line of an invoice with an invoice-level discount. The discount is
+ * spread across lines in proportion to their taxable value (the last line takes the
+ * rounding remainder) so GST is charged on the discounted value.
+ * @param {Array} lines - [{ quantity, unit_price, discount_percentage, gst_rate }]
+ * @param {'intra_state'|'inter_state'} supplyType - Supply type
+ * @param {number} discount - Invoice-level discount
+ * @returns {Object} { lines, summary } where summary.subtotal is before the invoice discount
+ */
+function calculateInvoiceTax(lines, supplyType, discount = 0) {
+  const taxableValues = lines.map(lineTaxableValue);
+  const subtotal = round2(taxableValues.reduce((sum, value) => sum + value, 0));
+  const invoiceDiscount = subtotal > 0 ? Math.min(Math.max(parseFloat(discount) || 0, 0), subtotal) : 0;
+
+  let allocated = 0;
+  const results = lines.map((line, index) => {
+    const share = index === lines.length - 1
+      ? round2(invoiceDiscount - allocated)
+      : round2(invoiceDiscount * taxableValues[index] / subtotal);
+    allocated = round2(allocated + share);
+    return splitTax(round2(taxableValues[index] - share), parseFloat(line.gst_rate) || 0, supplyType);
+  });
+
+  const summary = results.reduce((total, result) => ({
+    ...total,
+    cgst_amount: round2(total.cgst_amount + result.cgst_amount),
+    sgst_amount: round2(total.sgst_amount + result.sgst_amount),
+    igst_amount: round2(total.igst_amount + result.igst_amount),
+    tax_amount: round2(total.tax_amount + result.tax_amount),
+    total_amount: round2(total.total_amount + result.line_total),
+  }), { subtotal, discount: invoiceDiscount, cgst_amount: 0, sgst_amount: 0, igst_amount: 0, tax_amount: 0, total_amount: 0 });
+
+  return { lines: results, summary };
+}
+
+module.exports = {
+  getStateCodeFromGstin,
+  determineSupplyType,
+  calculateInvoiceTax,
+};
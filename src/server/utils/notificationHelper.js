@@ -0,0 +1,43 @@
+/**
+ * Notification Helper Utilities
+ * In-app notifications raised by services alongside their own writes
+ */
+
+const { withSavepoint } = require('./transactionHelper');
+
+/**
+ * Create an in-app notification for a user. A notification is never worth losing the
+ * caller's work over: a failed insert is logged and rolled back to a savepoint, so an
+ * open transaction carries on and can still commit.
+ *
+ * @param {Client} client - Database client, inside a transaction or not
+ * @param {Object} notification - { agency_id, user_id, category, title, message, metadata?, priority?, action_url? }
+ * @returns {Promise<boolean>} Whether the notification was created
+ */
+async function createNotification(client, notification) {
+  if (!notification.user_id) return false;
+  try {
+    await withSavepoint(client, (c) => c.query(
+      `INSERT INTO public.notifications (user_id, type, category, title, message, metadata, priority, action_url, agency_id)
+       VALUES ($1, 'in_app', $2, $3, $4, $5, $6, $7, $8)`,
+      [
+        notification.user_id,
+        notification.category,
+        notification.title,
+        notification.message,
+        JSON.stringify(notification.metadata || {}),
+        notification.priority || 'normal',
+        notification.action_url || null,
+        notification.agency_id,
+      ]
+    ));
+    return true;
+  } catch (error) {
+    console.warn(`[Notifications] Could not create ${notification.category} notification:`, error.message);
+    return false;
+  }
+}
+
+module.exports = {
+  createNotification,
+};
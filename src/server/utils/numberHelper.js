@@ -0,0 +1,15 @@
+/**
+ * Number Helper Utilities
+ * Rounding shared by services that store money, hours and quantities
+ */
+
+/**
+ * Round to two decimal places; empty or non-numeric values count as 0
+ * @param {number|string} value - Number or numeric string, e.g. a NUMERIC column value
+ * @returns {number} Rounded number
+ */
+const round2 = (value) => Math.round((parseFloat(value) || 0) * 100) / 100;
+
+module.exports = {
+  round2,
+};
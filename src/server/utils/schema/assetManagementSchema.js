@@ -5,7 +5,12 @@
  * - assets: Fixed asset master data
  * - asset_categories: Asset categorization
  * - asset_depreciation: Depreciation calculations and records
+ * - asset_depreciation_runs: Monthly depreciation batches and their journal entries
  * - asset_maintenance: Maintenance schedules and history
+ * - asset_maintenance_plans: Preventive maintenance plans that generate recurring work orders
+ * - asset_maintenance_plan_parts: Parts each planned job is expected to use
+ * - asset_maintenance_parts: Parts issued from inventory to a work order
+ * - asset_custody: Check-out/check-in ledger of who held each asset and when
  * - asset_disposals: Asset disposal management
  * - asset_locations: Asset location tracking
  * 
@@ -149,6 +154,18 @@ async function ensureAssetsTable(client) {
     CREATE INDEX IF NOT EXISTS idx_assets_department_id ON public.assets(department_id);
   `);
 
+  // Depreciation start (defaults to the purchase date) and usage for units-of-production
+  try {
+    await client.query(`
+      ALTER TABLE public.assets
+        ADD COLUMN IF NOT EXISTS depreciation_start_date DATE,
+        ADD COLUMN IF NOT EXISTS total_units DECIMAL(15,2),
+        ADD COLUMN IF NOT EXISTS units_used DECIMAL(15,2) DEFAULT 0
+    `);
+  } catch (error) {
+    console.warn('[SQL] Warning adding depreciation columns to assets:', error.message);
+  }
+
   // Create updated_at trigger
   await client.query(`
     DROP TRIGGER IF EXISTS update_assets_updated_at ON public.assets;
@@ -203,6 +220,20 @@ async function ensureAssetDepreciationTable(client) {
     CREATE INDEX IF NOT EXISTS idx_asset_depreciation_period ON public.asset_depreciation(period_start, period_end);
   `);
 
+  // Link records to the batch that generated them
+  try {
+    await client.query(`
+      ALTER TABLE public.asset_depreciation
+        ADD COLUMN IF NOT EXISTS run_id UUID,
+        ADD COLUMN IF NOT EXISTS units_consumed DECIMAL(15,2)
+    `);
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_asset_depreciation_run_id ON public.asset_depreciation(run_id);
+    `);
+  } catch (error) {
+    console.warn('[SQL] Warning adding run columns to asset_depreciation:', error.message);
+  }
+
   // Create updated_at trigger
   await client.query(`
     DROP TRIGGER IF EXISTS update_asset_depreciation_updated_at ON public.asset_depreciation;
@@ -213,6 +244,51 @@ async function ensureAssetDepreciationTable(client) {
   `);
 }
 
+/**
+ * Ensure asset_depreciation_runs table exists
+ */
+async function ensureAssetDepreciationRunsTable(client) {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS public.asset_depreciation_runs (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      agency_id UUID NOT NULL,
+      run_number VARCHAR(100) UNIQUE NOT NULL,
+      period_start DATE NOT NULL,
+      period_end DATE NOT NULL,
+      status VARCHAR(50) DEFAULT 'posted', -- posted
+      trigger_type VARCHAR(50) DEFAULT 'manual', -- manual, scheduled
+      asset_count INTEGER DEFAULT 0,
+      skipped_count INTEGER DEFAULT 0,
+      total_amount DECIMAL(15,2) DEFAULT 0,
+      journal_entry_id UUID,
+      notes TEXT,
+      run_by UUID REFERENCES public.users(id),
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    );
+  `);
+
+  // A period can have supplementary runs for assets the first run did not cover
+  await client.query(`
+    ALTER TABLE public.asset_depreciation_runs DROP CONSTRAINT IF EXISTS asset_depreciation_runs_agency_id_period_start_key;
+  `);
+
+  // Add indexes
+  await client.query(`
+    CREATE INDEX IF NOT EXISTS idx_asset_depreciation_runs_agency_id ON public.asset_depreciation_runs(agency_id);
+    CREATE INDEX IF NOT EXISTS idx_asset_depreciation_runs_period ON public.asset_depreciation_runs(period_start);
+  `);
+
+  // Create updated_at trigger
+  await client.query(`
+    DROP TRIGGER IF EXISTS update_asset_depreciation_runs_updated_at ON public.asset_depreciation_runs;
+    CREATE TRIGGER update_asset_depreciation_runs_updated_at
+      BEFORE UPDATE ON public.asset_depreciation_runs
+      FOR EACH ROW
+      EXECUTE FUNCTION public.update_updated_at_column();
+  `);
+}
+
 /**
  * Ensure asset_maintenance table exists
  */
@@ -245,6 +321,24 @@ async function ensureAssetMaintenanceTable(client) {
     );
   `);
 
+  // Work orders generated from plans, their assignee, escalation and the meter reading at completion
+  try {
+    await client.query(`
+      ALTER TABLE public.asset_maintenance
+        ADD COLUMN IF NOT EXISTS plan_id UUID,
+        ADD COLUMN IF NOT EXISTS assigned_to UUID,
+        ADD COLUMN IF NOT EXISTS usage_reading DECIMAL(15,2),
+        ADD COLUMN IF NOT EXISTS parts_cost DECIMAL(15,2) DEFAULT 0,
+        ADD COLUMN IF NOT EXISTS escalation_level INTEGER DEFAULT 0,
+        ADD COLUMN IF NOT EXISTS escalated_at TIMESTAMP WITH TIME ZONE
+    `);
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_asset_maintenance_plan_id ON public.asset_maintenance(plan_id);
+    `);
+  } catch (error) {
+    console.warn('[SQL] Warning adding plan columns to asset_maintenance:', error.message);
+  }
+
   // Add indexes
   await client.query(`
     CREATE INDEX IF NOT EXISTS idx_asset_maintenance_agency_id ON public.asset_maintenance(agency_id);
@@ -265,6 +359,162 @@ async function ensureAssetMaintenanceTable(client) {
   `);
 }
 
+/**
+ * Ensure asset_maintenance_plans and asset_maintenance_plan_parts tables exist
+ */
+async function ensureAssetMaintenancePlansTable(client) {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS public.asset_maintenance_plans (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      agency_id UUID NOT NULL,
+      asset_id UUID REFERENCES public.assets(id) ON DELETE CASCADE,
+      category_id UUID REFERENCES public.asset_categories(id) ON DELETE CASCADE,
+      title VARCHAR(255) NOT NULL,
+      description TEXT,
+      trigger_type VARCHAR(50) NOT NULL DEFAULT 'interval', -- interval, usage, calendar
+      interval_days INTEGER,
+      usage_interval DECIMAL(15,2),
+      calendar_frequency VARCHAR(50), -- monthly, quarterly, semi_annual, yearly
+      calendar_day INTEGER, -- day of month, 1-31
+      calendar_month INTEGER, -- first month of the cycle, 1-12
+      start_date DATE NOT NULL DEFAULT CURRENT_DATE,
+      lead_days INTEGER, -- falls back to maintenance_reminder_days in asset settings
+      priority VARCHAR(20) DEFAULT 'normal',
+      estimated_hours DECIMAL(10,2),
+      assigned_to UUID REFERENCES public.users(id),
+      vendor_id UUID REFERENCES public.suppliers(id),
+      is_active BOOLEAN DEFAULT true,
+      last_generated_at TIMESTAMP WITH TIME ZONE,
+      created_by UUID REFERENCES public.users(id),
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      CHECK (asset_id IS NOT NULL OR category_id IS NOT NULL)
+    );
+  `);
+
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS public.asset_maintenance_plan_parts (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      agency_id UUID NOT NULL,
+      plan_id UUID NOT NULL REFERENCES public.asset_maintenance_plans(id) ON DELETE CASCADE,
+      product_id UUID NOT NULL REFERENCES public.products(id),
+      variant_id UUID,
+      quantity DECIMAL(15,4) NOT NULL,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    );
+  `);
+
+  // Meter reading of each asset when it came under a usage plan, counted from until its first completion
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS public.asset_maintenance_plan_baselines (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      plan_id UUID NOT NULL REFERENCES public.asset_maintenance_plans(id) ON DELETE CASCADE,
+      asset_id UUID NOT NULL REFERENCES public.assets(id) ON DELETE CASCADE,
+      usage_reading DECIMAL(15,2) NOT NULL DEFAULT 0,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      UNIQUE(plan_id, asset_id)
+    );
+  `);
+
+  // Add indexes
+  await client.query(`
+    CREATE INDEX IF NOT EXISTS idx_asset_maintenance_plans_agency_id ON public.asset_maintenance_plans(agency_id);
+    CREATE INDEX IF NOT EXISTS idx_asset_maintenance_plans_asset_id ON public.asset_maintenance_plans(asset_id);
+    CREATE INDEX IF NOT EXISTS idx_asset_maintenance_plans_category_id ON public.asset_maintenance_plans(category_id);
+    CREATE INDEX IF NOT EXISTS idx_asset_maintenance_plans_is_active ON public.asset_maintenance_plans(is_active);
+    CREATE INDEX IF NOT EXISTS idx_asset_maintenance_plan_parts_plan_id ON public.asset_maintenance_plan_parts(plan_id);
+  `);
+
+  // Create updated_at trigger
+  await client.query(`
+    DROP TRIGGER IF EXISTS update_asset_maintenance_plans_updated_at ON public.asset_maintenance_plans;
+    CREATE TRIGGER update_asset_maintenance_plans_updated_at
+      BEFORE UPDATE ON public.asset_maintenance_plans
+      FOR EACH ROW
+      EXECUTE FUNCTION public.update_updated_at_column();
+  `);
+}
+
+/**
+ * Ensure asset_maintenance_parts table exists
+ */
+async function ensureAssetMaintenancePartsTable(client) {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS public.asset_maintenance_parts (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      agency_id UUID NOT NULL,
+      maintenance_id UUID NOT NULL REFERENCES public.asset_maintenance(id) ON DELETE CASCADE,
+      product_id UUID NOT NULL REFERENCES public.products(id),
+      variant_id UUID,
+      warehouse_id UUID NOT NULL REFERENCES public.warehouses(id),
+      quantity DECIMAL(15,4) NOT NULL,
+      unit_cost DECIMAL(15,4) DEFAULT 0,
+      total_cost DECIMAL(15,2) DEFAULT 0,
+      transaction_id UUID REFERENCES public.inventory_transactions(id),
+      created_by UUID REFERENCES public.users(id),
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    );
+  `);
+
+  await client.query(`
+    CREATE INDEX IF NOT EXISTS idx_asset_maintenance_parts_maintenance_id ON public.asset_maintenance_parts(maintenance_id);
+  `);
+}
+
+/**
+ * Ensure asset_custody table exists
+ */
+async function ensureAssetCustodyTable(client) {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS public.asset_custody (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      agency_id UUID NOT NULL,
+      asset_id UUID NOT NULL REFERENCES public.assets(id) ON DELETE CASCADE,
+      custody_number VARCHAR(100) NOT NULL,
+      custodian_type VARCHAR(50) NOT NULL, -- employee, project, location
+      custodian_user_id UUID REFERENCES public.users(id),
+      project_id UUID,
+      location_id UUID REFERENCES public.asset_locations(id),
+      status VARCHAR(50) NOT NULL DEFAULT 'checked_out', -- checked_out, returned
+      checked_out_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+      checked_out_by UUID REFERENCES public.users(id),
+      expected_return_date DATE,
+      checkout_condition VARCHAR(50),
+      checkout_notes TEXT,
+      checked_in_at TIMESTAMP WITH TIME ZONE,
+      checked_in_by UUID REFERENCES public.users(id),
+      return_condition VARCHAR(50),
+      return_notes TEXT,
+      -- Check-in photos; file_storage paths in the asset-custody bucket
+      attachments JSONB DEFAULT '[]'::jsonb,
+      reminder_count INTEGER DEFAULT 0,
+      last_reminded_at TIMESTAMP WITH TIME ZONE,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      CHECK (custodian_type IN ('employee', 'project', 'location'))
+    );
+  `);
+
+  // Add indexes; an asset can only be checked out once at a time
+  await client.query(`
+    CREATE INDEX IF NOT EXISTS idx_asset_custody_agency_id ON public.asset_custody(agency_id);
+    CREATE INDEX IF NOT EXISTS idx_asset_custody_asset_id ON public.asset_custody(asset_id);
+    CREATE INDEX IF NOT EXISTS idx_asset_custody_custodian_user_id ON public.asset_custody(custodian_user_id);
+    CREATE INDEX IF NOT EXISTS idx_asset_custody_status ON public.asset_custody(status);
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_asset_custody_open_asset
+      ON public.asset_custody(asset_id) WHERE status = 'checked_out';
+  `);
+
+  // Create updated_at trigger
+  await client.query(`
+    DROP TRIGGER IF EXISTS update_asset_custody_updated_at ON public.asset_custody;
+    CREATE TRIGGER update_asset_custody_updated_at
+      BEFORE UPDATE ON public.asset_custody
+      FOR EACH ROW
+      EXECUTE FUNCTION public.update_updated_at_column();
+  `);
+}
+
 /**
  * Ensure asset_disposals table exists
  */
@@ -341,8 +591,14 @@ async function ensureAssetManagementSchema(client) {
     await ensureAssetLocationsTable(client);
     await ensureAssetsTable(client);
     await ensureAssetDepreciationTable(client);
+    await ensureAssetDepreciationRunsTable(client);
     await ensureAssetMaintenanceTable(client);
     await ensureAssetDisposalsTable(client);
+
+    // Plans and parts reference products, warehouses and inventory transactions
+    await ensureAssetMaintenancePlansTable(client);
+    await ensureAssetMaintenancePartsTable(client);
+    await ensureAssetCustodyTable(client);
     
     console.log('[SQL] ✅ Asset management schema ensured');
   } catch (error) {
@@ -357,7 +613,11 @@ module.exports = {
   ensureAssetLocationsTable,
   ensureAssetsTable,
   ensureAssetDepreciationTable,
+  ensureAssetDepreciationRunsTable,
   ensureAssetMaintenanceTable,
+  ensureAssetMaintenancePlansTable,
+  ensureAssetMaintenancePartsTable,
+  ensureAssetCustodyTable,
   ensureAssetDisposalsTable,
 };
 
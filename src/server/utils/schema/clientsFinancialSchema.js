@@ -4,6 +4,7 @@
  * Manages:
  * - clients: Client/customer records
  * - invoices: Invoice records with payment tracking
+ * - invoice_line_items: Invoice line items with HSN/SAC and GST split
  * - quotations: Quotation records
  * - quotation_templates: Reusable quotation templates
  * - quotation_line_items: Quotation line item details
@@ -136,6 +137,121 @@ async function ensureInvoicesTable(client) {
       CREATE INDEX IF NOT EXISTS idx_invoices_created_at ON public.invoices(created_at);
     END $$;
   `);
+
+  // Ensure GST split columns exist on invoices
+  try {
+    await client.query(`
+      DO $$ 
+      BEGIN
+        IF NOT EXISTS (
+          SELECT 1 FROM information_schema.columns 
+          WHERE table_schema = 'public' 
+          AND table_name = 'invoices' 
+          AND column_name = 'place_of_supply'
+        ) THEN
+          ALTER TABLE public.invoices ADD COLUMN place_of_supply TEXT;
+        END IF;
+
+        IF NOT EXISTS (
+          SELECT 1 FROM information_schema.columns 
+          WHERE table_schema = 'public' 
+          AND table_name = 'invoices' 
+          AND column_name = 'supply_type'
+        ) THEN
+          ALTER TABLE public.invoices ADD COLUMN supply_type TEXT DEFAULT 'intra_state';
+        END IF;
+
+        IF NOT EXISTS (
+          SELECT 1 FROM information_schema.columns 
+          WHERE table_schema = 'public' 
+          AND table_name = 'invoices' 
+          AND column_name = 'tax_amount'
+        ) THEN
+          ALTER TABLE public.invoices ADD COLUMN tax_amount NUMERIC(15, 2) DEFAULT 0;
+        END IF;
+
+        IF NOT EXISTS (
+          SELECT 1 FROM information_schema.columns 
+          WHERE table_schema = 'public' 
+          AND table_name = 'invoices' 
+          AND column_name = 'cgst_amount'
+        ) THEN
+          ALTER TABLE public.invoices ADD COLUMN cgst_amount NUMERIC(15, 2) DEFAULT 0;
+        END IF;
+
+        IF NOT EXISTS (
+          SELECT 1 FROM information_schema.columns 
+          WHERE table_schema = 'public' 
+          AND table_name = 'invoices' 
+          AND column_name = 'sgst_amount'
+        ) THEN
+          ALTER TABLE public.invoices ADD COLUMN sgst_amount NUMERIC(15, 2) DEFAULT 0;
+        END IF;
+
+        IF NOT EXISTS (
+          SELECT 1 FROM information_schema.columns 
+          WHERE table_schema = 'public' 
+          AND table_name = 'invoices' 
+          AND column_name = 'igst_amount'
+        ) THEN
+          ALTER TABLE public.invoices ADD COLUMN igst_amount NUMERIC(15, 2) DEFAULT 0;
+        END IF;
+
+        IF NOT EXISTS (
+          SELECT 1 FROM information_schema.columns 
+          WHERE table_schema = 'public' 
+          AND table_name = 'invoices' 
+          AND column_name = 'gst_posted_at'
+        ) THEN
+          ALTER TABLE public.invoices ADD COLUMN gst_posted_at TIMESTAMP WITH TIME ZONE;
+        END IF;
+      END $$;
+    `);
+  } catch (error) {
+    console.warn('[SQL] Warning: Could not add GST columns to invoices:', error.message);
+  }
+
+  // Transaction currency; exchange_rate is base currency units per unit of currency
+  try {
+    await client.query(`
+      ALTER TABLE public.invoices ADD COLUMN IF NOT EXISTS currency VARCHAR(3) DEFAULT 'INR';
+      ALTER TABLE public.invoices ADD COLUMN IF NOT EXISTS exchange_rate NUMERIC(18, 8) DEFAULT 1;
+      ALTER TABLE public.invoices ADD COLUMN IF NOT EXISTS base_total_amount NUMERIC(15, 2);
+    `);
+  } catch (error) {
+    console.warn('[SQL] Warning: Could not add currency columns to invoices:', error.message);
+  }
+}
+
+/**
+ * Ensure invoice_line_items table exists
+ * Line items carry their own HSN/SAC code and GST rate so each invoice can be
+ * split into CGST/SGST (intra-state) or IGST (inter-state) per line.
+ */
+async function ensureInvoiceLineItemsTable(client) {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS public.invoice_line_items (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      invoice_id UUID NOT NULL REFERENCES public.invoices(id) ON DELETE CASCADE,
+      item_type TEXT DEFAULT 'service' CHECK (item_type IN ('product', 'service')),
+      product_id UUID,
+      item_name TEXT NOT NULL,
+      description TEXT,
+      hsn_sac_code TEXT,
+      quantity NUMERIC(10, 2) DEFAULT 1,
+      unit_price NUMERIC(15, 2) DEFAULT 0,
+      discount_percentage NUMERIC(5, 2) DEFAULT 0,
+      taxable_value NUMERIC(15, 2) DEFAULT 0,
+      gst_rate NUMERIC(5, 2) DEFAULT 18,
+      cgst_amount NUMERIC(15, 2) DEFAULT 0,
+      sgst_amount NUMERIC(15, 2) DEFAULT 0,
+      igst_amount NUMERIC(15, 2) DEFAULT 0,
+      line_total NUMERIC(15, 2) DEFAULT 0,
+      sort_order INTEGER DEFAULT 0,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    );
+  `);
 }
 
 /**
@@ -235,6 +351,16 @@ async function ensureQuotationsTable(client) {
   } catch (error) {
     console.warn('[SQL] Warning: Could not add multi-tenant/additional columns to quotations:', error.message);
   }
+
+  try {
+    await client.query(`
+      ALTER TABLE public.quotations ADD COLUMN IF NOT EXISTS currency VARCHAR(3) DEFAULT 'INR';
+      ALTER TABLE public.quotations ADD COLUMN IF NOT EXISTS exchange_rate NUMERIC(18, 8) DEFAULT 1;
+      ALTER TABLE public.quotations ADD COLUMN IF NOT EXISTS base_total_amount NUMERIC(15, 2);
+    `);
+  } catch (error) {
+    console.warn('[SQL] Warning: Could not add currency columns to quotations:', error.message);
+  }
 }
 
 /**
@@ -442,6 +568,17 @@ async function ensureJournalEntriesTable(client) {
   } catch (error) {
     console.warn('[SQL] Warning: Could not add multi-tenant/total columns to journal_entries:', error.message);
   }
+
+  // Links system-generated entries (invoice payments, FX revaluations) back to their document
+  try {
+    await client.query(`
+      ALTER TABLE public.journal_entries ADD COLUMN IF NOT EXISTS source_type TEXT;
+      ALTER TABLE public.journal_entries ADD COLUMN IF NOT EXISTS source_id UUID;
+      CREATE INDEX IF NOT EXISTS idx_journal_entries_source ON public.journal_entries(source_type, source_id);
+    `);
+  } catch (error) {
+    console.warn('[SQL] Warning: Could not add source columns to journal_entries:', error.message);
+  }
 }
 
 /**
@@ -513,6 +650,29 @@ async function ensureJournalEntryLinesTable(client) {
   } catch (error) {
     console.warn('[SQL] Warning: Could not ensure line_number on journal_entry_lines:', error.message);
   }
+
+  // Cost allocation dimensions used for department and project budget actuals
+  try {
+    await client.query(`
+      ALTER TABLE public.journal_entry_lines ADD COLUMN IF NOT EXISTS department_id UUID;
+      ALTER TABLE public.journal_entry_lines ADD COLUMN IF NOT EXISTS project_id UUID;
+      CREATE INDEX IF NOT EXISTS idx_journal_entry_lines_department_id ON public.journal_entry_lines(department_id);
+      CREATE INDEX IF NOT EXISTS idx_journal_entry_lines_project_id ON public.journal_entry_lines(project_id);
+    `);
+  } catch (error) {
+    console.warn('[SQL] Warning: Could not add allocation columns to journal_entry_lines:', error.message);
+  }
+
+  // Debit and credit stay in base currency; these keep the transaction currency amount alongside
+  try {
+    await client.query(`
+      ALTER TABLE public.journal_entry_lines ADD COLUMN IF NOT EXISTS currency VARCHAR(3);
+      ALTER TABLE public.journal_entry_lines ADD COLUMN IF NOT EXISTS exchange_rate NUMERIC(18, 8);
+      ALTER TABLE public.journal_entry_lines ADD COLUMN IF NOT EXISTS foreign_amount NUMERIC(15, 2);
+    `);
+  } catch (error) {
+    console.warn('[SQL] Warning: Could not add currency columns to journal_entry_lines:', error.message);
+  }
 }
 
 /**
@@ -607,6 +767,7 @@ async function ensureClientsFinancialSchema(client) {
   // Create tables in dependency order
   await ensureClientsTable(client);
   await ensureInvoicesTable(client);
+  await ensureInvoiceLineItemsTable(client);
   await ensureQuotationTemplatesTable(client); // Must be before quotations (FK dependency)
   await ensureQuotationsTable(client);
   await ensureQuotationLineItemsTable(client);
@@ -624,6 +785,7 @@ module.exports = {
   ensureClientsFinancialSchema,
   ensureClientsTable,
   ensureInvoicesTable,
+  ensureInvoiceLineItemsTable,
   ensureQuotationsTable,
   ensureQuotationTemplatesTable,
   ensureQuotationLineItemsTable,
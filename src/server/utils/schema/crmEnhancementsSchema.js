@@ -2,10 +2,14 @@
  * Advanced CRM Schema Enhancements
  * 
  * Adds:
+ * - leads.stage_changed_at: When a lead last changed status or pipeline stage
  * - lead_scores: Lead scoring system
+ * - lead_scoring_rules: Agency-defined weighted scoring rules
  * - opportunities: Opportunity tracking
+ * - opportunity_line_items: Products/services quoted on an opportunity
  * - email_tracking: Email integration tracking
  * - customer_segments: Customer segmentation
+ * - crm_email_campaigns: Emails sent to a segment
  */
 
 /**
@@ -33,6 +37,70 @@ async function ensureLeadScoresTable(client) {
   `);
 }
 
+/**
+ * Track when a lead last changed status or pipeline stage, for the time-in-stage factor.
+ * Existing leads start from their last update, the best record available.
+ */
+async function ensureLeadStageTracking(client) {
+  await client.query('ALTER TABLE public.leads ADD COLUMN IF NOT EXISTS stage_changed_at TIMESTAMP WITH TIME ZONE');
+  await client.query(`
+    UPDATE public.leads SET stage_changed_at = COALESCE(updated_at, created_at, NOW())
+    WHERE stage_changed_at IS NULL
+  `);
+
+  await client.query(`
+    CREATE OR REPLACE FUNCTION public.track_lead_stage_change()
+    RETURNS TRIGGER AS $$
+    BEGIN
+      IF TG_OP = 'INSERT' THEN
+        NEW.stage_changed_at := COALESCE(NEW.stage_changed_at, NOW());
+      ELSIF NEW.status IS DISTINCT FROM OLD.status
+        OR NEW.stage IS DISTINCT FROM OLD.stage
+        OR NEW.pipeline_stage IS DISTINCT FROM OLD.pipeline_stage
+      THEN
+        NEW.stage_changed_at := NOW();
+      END IF;
+      RETURN NEW;
+    END;
+    $$ LANGUAGE plpgsql;
+  `);
+
+  await client.query(`
+    DROP TRIGGER IF EXISTS track_lead_stage_change_trigger ON public.leads;
+    CREATE TRIGGER track_lead_stage_change_trigger
+      BEFORE INSERT OR UPDATE ON public.leads
+      FOR EACH ROW
+      EXECUTE FUNCTION public.track_lead_stage_change();
+  `);
+}
+
+/**
+ * Ensure lead_scoring_rules table exists
+ * Each rule scores one factor (0-100% of its weight); a lead's score is the
+ * weighted total normalised to 0-100.
+ */
+async function ensureLeadScoringRulesTable(client) {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS public.lead_scoring_rules (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      agency_id UUID NOT NULL,
+      rule_name VARCHAR(255) NOT NULL,
+      factor VARCHAR(50) NOT NULL, -- source, estimated_value, activity_recency, activity_frequency, stage_age, email_engagement
+      weight INTEGER NOT NULL DEFAULT 10,
+      config JSONB DEFAULT '{}'::jsonb,
+      is_active BOOLEAN DEFAULT true,
+      created_by UUID REFERENCES public.users(id),
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    );
+  `);
+
+  // Add indexes
+  await client.query(`
+    CREATE INDEX IF NOT EXISTS idx_lead_scoring_rules_agency_id ON public.lead_scoring_rules(agency_id);
+  `);
+}
+
 /**
  * Ensure opportunities table exists
  */
@@ -69,6 +137,32 @@ async function ensureOpportunitiesTable(client) {
   `);
 }
 
+/**
+ * Ensure opportunity_line_items table exists
+ * product_id is not a foreign key because inventory tables are created after CRM.
+ */
+async function ensureOpportunityLineItemsTable(client) {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS public.opportunity_line_items (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      opportunity_id UUID NOT NULL REFERENCES public.opportunities(id) ON DELETE CASCADE,
+      agency_id UUID NOT NULL,
+      item_type VARCHAR(20) DEFAULT 'service', -- product, service
+      product_id UUID,
+      description TEXT NOT NULL,
+      quantity DECIMAL(15,2) DEFAULT 1,
+      unit_price DECIMAL(15,2) DEFAULT 0,
+      amount DECIMAL(15,2) DEFAULT 0,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    );
+  `);
+
+  // Add indexes
+  await client.query(`
+    CREATE INDEX IF NOT EXISTS idx_opportunity_line_items_opportunity_id ON public.opportunity_line_items(opportunity_id);
+  `);
+}
+
 /**
  * Ensure email_tracking table exists
  */
@@ -101,6 +195,14 @@ async function ensureEmailTrackingTable(client) {
     CREATE INDEX IF NOT EXISTS idx_email_tracking_tracking_id ON public.email_tracking(tracking_id);
     CREATE INDEX IF NOT EXISTS idx_email_tracking_status ON public.email_tracking(status);
   `);
+
+  try {
+    await client.query(`
+      ALTER TABLE public.email_tracking ADD COLUMN IF NOT EXISTS campaign_id UUID;
+    `);
+  } catch (error) {
+    console.warn('[SQL] Warning: Could not add campaign_id to email_tracking:', error.message);
+  }
 }
 
 /**
@@ -125,6 +227,16 @@ async function ensureCustomerSegmentsTable(client) {
   await client.query(`
     CREATE INDEX IF NOT EXISTS idx_customer_segments_agency_id ON public.customer_segments(agency_id);
   `);
+
+  // Segments are dynamic: members are re-evaluated from criteria for leads or clients
+  try {
+    await client.query(`
+      ALTER TABLE public.customer_segments ADD COLUMN IF NOT EXISTS entity_type VARCHAR(20) DEFAULT 'client';
+      ALTER TABLE public.customer_segments ADD COLUMN IF NOT EXISTS last_evaluated_at TIMESTAMP WITH TIME ZONE;
+    `);
+  } catch (error) {
+    console.warn('[SQL] Warning: Could not add dynamic segment columns to customer_segments:', error.message);
+  }
 }
 
 /**
@@ -148,6 +260,34 @@ async function ensureClientSegmentAssignmentsTable(client) {
   `);
 }
 
+/**
+ * Ensure crm_email_campaigns table exists
+ */
+async function ensureCrmEmailCampaignsTable(client) {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS public.crm_email_campaigns (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      agency_id UUID NOT NULL,
+      segment_id UUID REFERENCES public.customer_segments(id) ON DELETE SET NULL,
+      subject TEXT NOT NULL,
+      body TEXT NOT NULL,
+      status VARCHAR(50) DEFAULT 'sending', -- sending, sent, partially_sent, failed
+      recipient_count INTEGER DEFAULT 0,
+      sent_count INTEGER DEFAULT 0,
+      failed_count INTEGER DEFAULT 0,
+      sent_at TIMESTAMP WITH TIME ZONE,
+      created_by UUID REFERENCES public.users(id),
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    );
+  `);
+
+  // Add indexes
+  await client.query(`
+    CREATE INDEX IF NOT EXISTS idx_crm_email_campaigns_agency_id ON public.crm_email_campaigns(agency_id);
+    CREATE INDEX IF NOT EXISTS idx_crm_email_campaigns_segment_id ON public.crm_email_campaigns(segment_id);
+  `);
+}
+
 /**
  * Ensure all CRM enhancement tables
  */
@@ -155,11 +295,15 @@ async function ensureCrmEnhancementsSchema(client) {
   console.log('[SQL] Ensuring advanced CRM schema...');
   
   try {
+    await ensureLeadStageTracking(client);
     await ensureLeadScoresTable(client);
+    await ensureLeadScoringRulesTable(client);
     await ensureOpportunitiesTable(client);
+    await ensureOpportunityLineItemsTable(client);
     await ensureEmailTrackingTable(client);
     await ensureCustomerSegmentsTable(client);
     await ensureClientSegmentAssignmentsTable(client);
+    await ensureCrmEmailCampaignsTable(client);
     
     console.log('[SQL] ✅ Advanced CRM schema ensured');
   } catch (error) {
@@ -170,9 +314,13 @@ async function ensureCrmEnhancementsSchema(client) {
 
 module.exports = {
   ensureCrmEnhancementsSchema,
+  ensureLeadStageTracking,
   ensureLeadScoresTable,
+  ensureLeadScoringRulesTable,
   ensureOpportunitiesTable,
+  ensureOpportunityLineItemsTable,
   ensureEmailTrackingTable,
   ensureCustomerSegmentsTable,
   ensureClientSegmentAssignmentsTable,
+  ensureCrmEmailCampaignsTable,
 };
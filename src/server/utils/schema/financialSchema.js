@@ -3,11 +3,15 @@
  * 
  * Adds:
  * - currencies: Currency and exchange rate management
+ * - exchange_rates: Dated rates entered manually, imported from CSV or fetched
+ * - fx_revaluations: Period-end revaluations of open foreign currency balances
  * - bank_accounts: Bank account management
  * - bank_transactions: Bank transaction records
  * - bank_reconciliations: Bank reconciliation records
+ * - bank_reconciliation_matches: Statement lines matched to journal entries
  * - budgets: Budget planning and tracking
  * - budget_items: Budget line items
+ * - budget_alerts: Utilisation threshold alerts raised against budgets
  */
 
 /**
@@ -53,6 +57,15 @@ async function ensureCurrenciesTable(client) {
     `);
   }
 
+  // Four decimal places lose most of the precision of rates like 0.0095
+  try {
+    await client.query(`
+      ALTER TABLE public.currencies ALTER COLUMN exchange_rate TYPE DECIMAL(18,8);
+    `);
+  } catch (error) {
+    console.warn('[SQL] Warning: Could not widen currencies.exchange_rate:', error.message);
+  }
+
   // Create updated_at trigger
   await client.query(`
     DROP TRIGGER IF EXISTS update_currencies_updated_at ON public.currencies;
@@ -63,6 +76,72 @@ async function ensureCurrenciesTable(client) {
   `);
 }
 
+/**
+ * Ensure exchange_rates table exists
+ * rate is the number of base currency units one unit of currency_code buys on rate_date,
+ * the same direction documents store their exchange_rate in
+ */
+async function ensureExchangeRatesTable(client) {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS public.exchange_rates (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      currency_code VARCHAR(3) NOT NULL,
+      rate_date DATE NOT NULL,
+      rate DECIMAL(18,8) NOT NULL,
+      source VARCHAR(20) DEFAULT 'manual', -- manual, csv, api
+      created_by UUID REFERENCES public.users(id),
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      UNIQUE(currency_code, rate_date)
+    );
+  `);
+
+  // Add indexes
+  await client.query(`
+    CREATE INDEX IF NOT EXISTS idx_exchange_rates_currency_date ON public.exchange_rates(currency_code, rate_date DESC);
+  `);
+
+  // Create updated_at trigger
+  await client.query(`
+    DROP TRIGGER IF EXISTS update_exchange_rates_updated_at ON public.exchange_rates;
+    CREATE TRIGGER update_exchange_rates_updated_at
+      BEFORE UPDATE ON public.exchange_rates
+      FOR EACH ROW
+      EXECUTE FUNCTION public.update_updated_at_column();
+  `);
+}
+
+/**
+ * Ensure fx_revaluations table exists
+ * Each run posts an unrealized gain/loss entry at period end and its reversal the next day
+ */
+async function ensureFxRevaluationsTable(client) {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS public.fx_revaluations (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      agency_id UUID NOT NULL,
+      revaluation_date DATE NOT NULL,
+      base_currency VARCHAR(3) NOT NULL,
+      rates JSONB DEFAULT '{}'::jsonb,
+      receivables_gain_loss DECIMAL(15,2) DEFAULT 0,
+      payables_gain_loss DECIMAL(15,2) DEFAULT 0,
+      total_gain_loss DECIMAL(15,2) DEFAULT 0,
+      details JSONB DEFAULT '[]'::jsonb,
+      journal_entry_id UUID REFERENCES public.journal_entries(id) ON DELETE SET NULL,
+      reversal_entry_id UUID REFERENCES public.journal_entries(id) ON DELETE SET NULL,
+      status VARCHAR(20) DEFAULT 'posted', -- posted, cancelled
+      created_by UUID REFERENCES public.users(id),
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    );
+  `);
+
+  // Add indexes
+  await client.query(`
+    CREATE INDEX IF NOT EXISTS idx_fx_revaluations_agency_id ON public.fx_revaluations(agency_id);
+    CREATE INDEX IF NOT EXISTS idx_fx_revaluations_date ON public.fx_revaluations(revaluation_date);
+  `);
+}
+
 /**
  * Ensure bank_accounts table exists
  */
@@ -94,6 +173,15 @@ async function ensureBankAccountsTable(client) {
     CREATE INDEX IF NOT EXISTS idx_bank_accounts_agency_id ON public.bank_accounts(agency_id);
     CREATE INDEX IF NOT EXISTS idx_bank_accounts_is_active ON public.bank_accounts(is_active);
   `);
+
+  // Link to the ledger account that mirrors this bank account
+  try {
+    await client.query(`
+      ALTER TABLE public.bank_accounts ADD COLUMN IF NOT EXISTS gl_account_id UUID REFERENCES public.chart_of_accounts(id) ON DELETE SET NULL;
+    `);
+  } catch (error) {
+    console.warn('[SQL] Warning: Could not add gl_account_id to bank_accounts:', error.message);
+  }
 }
 
 /**
@@ -126,6 +214,18 @@ async function ensureBankTransactionsTable(client) {
     CREATE INDEX IF NOT EXISTS idx_bank_transactions_date ON public.bank_transactions(transaction_date);
     CREATE INDEX IF NOT EXISTS idx_bank_transactions_reconciled ON public.bank_transactions(reconciled);
   `);
+
+  // Statement import metadata (external_id is the bank's own id, e.g. OFX FITID, used to skip duplicates)
+  try {
+    await client.query(`
+      ALTER TABLE public.bank_transactions ADD COLUMN IF NOT EXISTS external_id VARCHAR(255);
+      ALTER TABLE public.bank_transactions ADD COLUMN IF NOT EXISTS import_batch_id UUID;
+      ALTER TABLE public.bank_transactions ADD COLUMN IF NOT EXISTS statement_format VARCHAR(20);
+      CREATE INDEX IF NOT EXISTS idx_bank_transactions_external_id ON public.bank_transactions(bank_account_id, external_id);
+    `);
+  } catch (error) {
+    console.warn('[SQL] Warning: Could not add import columns to bank_transactions:', error.message);
+  }
 }
 
 /**
@@ -156,6 +256,53 @@ async function ensureBankReconciliationsTable(client) {
     CREATE INDEX IF NOT EXISTS idx_bank_reconciliations_bank_account_id ON public.bank_reconciliations(bank_account_id);
     CREATE INDEX IF NOT EXISTS idx_bank_reconciliations_date ON public.bank_reconciliations(reconciliation_date);
   `);
+
+  // Reconciliation report figures captured when the reconciliation is saved
+  try {
+    await client.query(`
+      ALTER TABLE public.bank_reconciliations ADD COLUMN IF NOT EXISTS period_start DATE;
+      ALTER TABLE public.bank_reconciliations ADD COLUMN IF NOT EXISTS period_end DATE;
+      ALTER TABLE public.bank_reconciliations ADD COLUMN IF NOT EXISTS adjusted_bank_balance DECIMAL(15,2);
+      ALTER TABLE public.bank_reconciliations ADD COLUMN IF NOT EXISTS adjusted_book_balance DECIMAL(15,2);
+      ALTER TABLE public.bank_reconciliations ADD COLUMN IF NOT EXISTS unexplained_difference DECIMAL(15,2);
+      ALTER TABLE public.bank_reconciliations ADD COLUMN IF NOT EXISTS report_data JSONB;
+    `);
+  } catch (error) {
+    console.warn('[SQL] Warning: Could not add report columns to bank_reconciliations:', error.message);
+  }
+}
+
+/**
+ * Ensure bank_reconciliation_matches table exists
+ * A match group links one statement line to several journal entries (split),
+ * several statement lines to one journal entry (many_to_one), or one to one.
+ */
+async function ensureBankReconciliationMatchesTable(client) {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS public.bank_reconciliation_matches (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      agency_id UUID NOT NULL,
+      bank_account_id UUID NOT NULL REFERENCES public.bank_accounts(id) ON DELETE CASCADE,
+      match_group_id UUID NOT NULL,
+      bank_transaction_id UUID NOT NULL REFERENCES public.bank_transactions(id) ON DELETE CASCADE,
+      journal_entry_id UUID NOT NULL REFERENCES public.journal_entries(id) ON DELETE CASCADE,
+      matched_amount DECIMAL(15,2) NOT NULL,
+      match_type VARCHAR(20) DEFAULT 'one_to_one', -- one_to_one, split, many_to_one
+      confidence DECIMAL(5,2),
+      reconciliation_id UUID REFERENCES public.bank_reconciliations(id) ON DELETE SET NULL,
+      matched_by UUID REFERENCES public.users(id),
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    );
+  `);
+
+  // Add indexes
+  await client.query(`
+    CREATE INDEX IF NOT EXISTS idx_bank_reconciliation_matches_agency_id ON public.bank_reconciliation_matches(agency_id);
+    CREATE INDEX IF NOT EXISTS idx_bank_reconciliation_matches_bank_account_id ON public.bank_reconciliation_matches(bank_account_id);
+    CREATE INDEX IF NOT EXISTS idx_bank_reconciliation_matches_group ON public.bank_reconciliation_matches(match_group_id);
+    CREATE INDEX IF NOT EXISTS idx_bank_reconciliation_matches_bank_transaction ON public.bank_reconciliation_matches(bank_transaction_id);
+    CREATE INDEX IF NOT EXISTS idx_bank_reconciliation_matches_journal_entry ON public.bank_reconciliation_matches(journal_entry_id);
+  `);
 }
 
 /**
@@ -194,6 +341,17 @@ async function ensureBudgetsTable(client) {
     CREATE INDEX IF NOT EXISTS idx_budgets_project_id ON public.budgets(project_id);
     CREATE INDEX IF NOT EXISTS idx_budgets_status ON public.budgets(status);
   `);
+
+  // Alert thresholds (percent of budget) and roll-forward lineage
+  try {
+    await client.query(`
+      ALTER TABLE public.budgets ADD COLUMN IF NOT EXISTS alert_thresholds JSONB DEFAULT '[80, 100]'::jsonb;
+      ALTER TABLE public.budgets ADD COLUMN IF NOT EXISTS rolled_from_budget_id UUID REFERENCES public.budgets(id) ON DELETE SET NULL;
+      CREATE INDEX IF NOT EXISTS idx_budgets_rolled_from ON public.budgets(rolled_from_budget_id);
+    `);
+  } catch (error) {
+    console.warn('[SQL] Warning: Could not add alert columns to budgets:', error.message);
+  }
 }
 
 /**
@@ -221,6 +379,47 @@ async function ensureBudgetItemsTable(client) {
     CREATE INDEX IF NOT EXISTS idx_budget_items_budget_id ON public.budget_items(budget_id);
     CREATE INDEX IF NOT EXISTS idx_budget_items_account_id ON public.budget_items(account_id);
   `);
+
+  // Optional sub-period per line (e.g. monthly phasing); NULL means the whole budget period
+  try {
+    await client.query(`
+      ALTER TABLE public.budget_items ADD COLUMN IF NOT EXISTS period_start DATE;
+      ALTER TABLE public.budget_items ADD COLUMN IF NOT EXISTS period_end DATE;
+    `);
+  } catch (error) {
+    console.warn('[SQL] Warning: Could not add period columns to budget_items:', error.message);
+  }
+}
+
+/**
+ * Ensure budget_alerts table exists
+ * One row per budget (or budget line) per threshold crossed
+ */
+async function ensureBudgetAlertsTable(client) {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS public.budget_alerts (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      agency_id UUID NOT NULL,
+      budget_id UUID NOT NULL REFERENCES public.budgets(id) ON DELETE CASCADE,
+      budget_item_id UUID REFERENCES public.budget_items(id) ON DELETE CASCADE,
+      threshold DECIMAL(5,2) NOT NULL,
+      utilization_percentage DECIMAL(7,2) NOT NULL,
+      budgeted_amount DECIMAL(15,2) NOT NULL,
+      actual_amount DECIMAL(15,2) NOT NULL,
+      message TEXT,
+      acknowledged BOOLEAN DEFAULT FALSE,
+      acknowledged_by UUID REFERENCES public.users(id),
+      acknowledged_at TIMESTAMP WITH TIME ZONE,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    );
+  `);
+
+  // Add indexes
+  await client.query(`
+    CREATE INDEX IF NOT EXISTS idx_budget_alerts_agency_id ON public.budget_alerts(agency_id);
+    CREATE INDEX IF NOT EXISTS idx_budget_alerts_budget_id ON public.budget_alerts(budget_id);
+    CREATE INDEX IF NOT EXISTS idx_budget_alerts_acknowledged ON public.budget_alerts(acknowledged);
+  `);
 }
 
 /**
@@ -231,11 +430,15 @@ async function ensureFinancialSchema(client) {
   
   try {
     await ensureCurrenciesTable(client);
+    await ensureExchangeRatesTable(client);
+    await ensureFxRevaluationsTable(client);
     await ensureBankAccountsTable(client);
     await ensureBankTransactionsTable(client);
     await ensureBankReconciliationsTable(client);
+    await ensureBankReconciliationMatchesTable(client);
     await ensureBudgetsTable(client);
     await ensureBudgetItemsTable(client);
+    await ensureBudgetAlertsTable(client);
     
     console.log('[SQL] ✅ Financial enhancements schema ensured');
   } catch (error) {
@@ -247,9 +450,13 @@ async function ensureFinancialSchema(client) {
 module.exports = {
   ensureFinancialSchema,
   ensureCurrenciesTable,
+  ensureExchangeRatesTable,
+  ensureFxRevaluationsTable,
   ensureBankAccountsTable,
   ensureBankTransactionsTable,
   ensureBankReconciliationsTable,
+  ensureBankReconciliationMatchesTable,
   ensureBudgetsTable,
   ensureBudgetItemsTable,
+  ensureBudgetAlertsTable,
 };
@@ -194,6 +194,28 @@ async function ensureGstTransactionsTable(client) {
     CREATE INDEX IF NOT EXISTS idx_gst_transactions_invoice_number ON public.gst_transactions(invoice_number);
     CREATE INDEX IF NOT EXISTS idx_gst_transactions_created_at ON public.gst_transactions(created_at);
   `);
+
+  // Link transactions posted from invoices back to their source invoice
+  try {
+    await client.query(`
+      DO $$
+      BEGIN
+        IF NOT EXISTS (
+          SELECT 1 FROM information_schema.columns
+          WHERE table_schema = 'public'
+          AND table_name = 'gst_transactions'
+          AND column_name = 'invoice_id'
+        ) THEN
+          ALTER TABLE public.gst_transactions ADD COLUMN invoice_id UUID REFERENCES public.invoices(id) ON DELETE SET NULL;
+        END IF;
+      END $$;
+    `);
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_gst_transactions_invoice_id ON public.gst_transactions(invoice_id);
+    `);
+  } catch (error) {
+    console.warn('[SQL] Warning: Could not add invoice_id to gst_transactions:', error.message);
+  }
 }
 
 /**
@@ -6,8 +6,25 @@
  * - attendance: Daily attendance tracking
  * - leave_types: Leave category definitions
  * - leave_requests: Leave request records
+ * - leave_policies: Accrual, probation, carry-forward and encashment rules per leave type and employee group
+ * - leave_balances: Yearly leave balance per employee and leave type
+ * - leave_balance_transactions: Audit trail of every balance change
+ * - leave_rollovers: Year-end rollover runs
+ * - shifts: Shift definitions (hours, breaks, grace periods, night shifts)
+ * - shift_rotations: Repeating day-by-day shift patterns
+ * - shift_assignments: Roster of the shift each employee works on each date
+ * - attendance_regularizations: Employee requests to correct attendance, approved through workflows
+ * - performance_competencies: Competencies employees are rated on in reviews
+ * - performance_review_cycles: Quarterly, half-yearly and annual review cycles with their rating scale
+ * - performance_reviews: One review per employee per cycle, with calibrated final rating
+ * - performance_feedback: Self, manager and peer (360) feedback forms on a review
+ * - performance_goals: Employee goals and OKRs with their key results
+ * - performance_goal_checkins: Progress check-ins against a goal
  * - payroll_periods: Pay period management
  * - payroll: Employee payroll records
+ * - salary_structures: Salary component templates (basic, HRA, allowances)
+ * - payroll_statutory_settings: PF/ESI/professional tax/TDS rates and slabs
+ * - payroll_adjustments: Arrears, one-off bonuses and deductions for a payroll run
  * - employee_salary_details: Salary and compensation data
  * - employee_files: Employee document storage
  * 
@@ -447,6 +464,514 @@ async function ensureLeaveRequestsTable(client) {
   `);
 }
 
+/**
+ * Ensure leave_policies table exists
+ * A policy with no employment_type applies to every employee without a more specific policy
+ */
+async function ensureLeavePoliciesTable(client) {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS public.leave_policies (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      agency_id UUID,
+      leave_type_id UUID NOT NULL REFERENCES public.leave_types(id) ON DELETE CASCADE,
+      name TEXT NOT NULL,
+      employment_type TEXT,
+      annual_entitlement NUMERIC(6, 2) NOT NULL DEFAULT 0,
+      accrual_frequency TEXT DEFAULT 'monthly' CHECK (accrual_frequency IN ('monthly', 'quarterly', 'yearly')),
+      prorate_joiners BOOLEAN DEFAULT true,
+      probation_months INTEGER DEFAULT 0,
+      accrue_during_probation BOOLEAN DEFAULT true,
+      allow_during_probation BOOLEAN DEFAULT false,
+      carry_forward_max NUMERIC(6, 2) DEFAULT 0,
+      encashment_enabled BOOLEAN DEFAULT false,
+      encashment_max_days NUMERIC(6, 2),
+      allow_negative_balance BOOLEAN DEFAULT false,
+      sandwich_rule BOOLEAN DEFAULT false,
+      allow_half_day BOOLEAN DEFAULT true,
+      is_active BOOLEAN DEFAULT true,
+      created_by UUID REFERENCES public.users(id),
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    );
+  `);
+  await client.query(`
+    CREATE INDEX IF NOT EXISTS idx_leave_policies_leave_type ON public.leave_policies(leave_type_id);
+  `);
+}
+
+/**
+ * Ensure leave_balances table exists
+ * Available days = opening_balance + accrued + adjusted - used - encashed - lapsed - carried_forward
+ */
+async function ensureLeaveBalancesTable(client) {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS public.leave_balances (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      agency_id UUID,
+      employee_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+      leave_type_id UUID NOT NULL REFERENCES public.leave_types(id) ON DELETE CASCADE,
+      year INTEGER NOT NULL,
+      opening_balance NUMERIC(6, 2) NOT NULL DEFAULT 0,
+      accrued NUMERIC(6, 2) NOT NULL DEFAULT 0,
+      adjusted NUMERIC(6, 2) NOT NULL DEFAULT 0,
+      used NUMERIC(6, 2) NOT NULL DEFAULT 0,
+      encashed NUMERIC(6, 2) NOT NULL DEFAULT 0,
+      lapsed NUMERIC(6, 2) NOT NULL DEFAULT 0,
+      carried_forward NUMERIC(6, 2) NOT NULL DEFAULT 0,
+      accrued_through DATE,
+      closed_at TIMESTAMP WITH TIME ZONE,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      UNIQUE(employee_id, leave_type_id, year)
+    );
+  `);
+}
+
+/**
+ * Ensure leave_balance_transactions table exists
+ * Every change to a leave balance (accrual, leave taken, carry-forward, lapse, encashment, adjustment)
+ */
+async function ensureLeaveBalanceTransactionsTable(client) {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS public.leave_balance_transactions (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      agency_id UUID,
+      balance_id UUID NOT NULL REFERENCES public.leave_balances(id) ON DELETE CASCADE,
+      employee_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+      leave_type_id UUID NOT NULL REFERENCES public.leave_types(id) ON DELETE CASCADE,
+      year INTEGER NOT NULL,
+      transaction_type TEXT NOT NULL CHECK (transaction_type IN (
+        'accrual', 'leave_taken', 'leave_reversed', 'carry_forward', 'lapse', 'encashment', 'adjustment'
+      )),
+      days NUMERIC(6, 2) NOT NULL,
+      balance_after NUMERIC(6, 2),
+      reference_type TEXT,
+      reference_id UUID,
+      notes TEXT,
+      created_by UUID REFERENCES public.users(id),
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    );
+  `);
+  await client.query(`
+    CREATE INDEX IF NOT EXISTS idx_leave_balance_transactions_employee ON public.leave_balance_transactions(employee_id, year);
+    CREATE INDEX IF NOT EXISTS idx_leave_balance_transactions_balance ON public.leave_balance_transactions(balance_id);
+  `);
+}
+
+/**
+ * Ensure leave_rollovers table exists
+ */
+async function ensureLeaveRolloversTable(client) {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS public.leave_rollovers (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      agency_id UUID,
+      year INTEGER NOT NULL UNIQUE,
+      balances_closed INTEGER DEFAULT 0,
+      days_carried_forward NUMERIC(10, 2) DEFAULT 0,
+      days_encashed NUMERIC(10, 2) DEFAULT 0,
+      encashment_amount NUMERIC(15, 2) DEFAULT 0,
+      days_lapsed NUMERIC(10, 2) DEFAULT 0,
+      warnings JSONB DEFAULT '[]'::jsonb,
+      run_by UUID REFERENCES public.users(id),
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    );
+  `);
+}
+
+/**
+ * Keep leave balances in step with leave requests: approving a request records the days
+ * taken, and un-approving, editing or deleting an approved request reverses them.
+ * Balances of a closed leave year are never changed.
+ */
+async function ensureLeaveBalanceUsageTrigger(client) {
+  try {
+    await client.query(`
+      ALTER TABLE public.leave_requests ADD COLUMN IF NOT EXISTS total_days NUMERIC(5, 2);
+      ALTER TABLE public.leave_requests ADD COLUMN IF NOT EXISTS is_half_day BOOLEAN DEFAULT false;
+      ALTER TABLE public.leave_requests ADD COLUMN IF NOT EXISTS half_day_session TEXT;
+    `);
+  } catch (error) {
+    console.warn('[SQL] Warning: Could not add day columns to leave_requests:', error.message);
+  }
+
+  await client.query(`
+    CREATE OR REPLACE FUNCTION public.post_leave_balance_usage(
+      p_request public.leave_requests, p_transaction_type TEXT, p_sign INTEGER
+    ) RETURNS VOID AS $$
+    DECLARE
+      v_employee_id UUID := COALESCE(p_request.employee_id, p_request.user_id);
+      v_year INTEGER := EXTRACT(YEAR FROM p_request.start_date)::INTEGER;
+      v_days NUMERIC := COALESCE(p_request.total_days, p_request.days_requested, p_request.end_date - p_request.start_date + 1);
+      v_balance public.leave_balances%ROWTYPE;
+    BEGIN
+      IF v_employee_id IS NULL OR p_request.leave_type_id IS NULL THEN
+        RETURN;
+      END IF;
+
+      INSERT INTO public.leave_balances (agency_id, employee_id, leave_type_id, year)
+      VALUES (p_request.agency_id, v_employee_id, p_request.leave_type_id, v_year)
+      ON CONFLICT (employee_id, leave_type_id, year) DO NOTHING;
+
+      -- A closed year has been rolled over; its used days can no longer change
+      IF EXISTS (
+        SELECT 1 FROM public.leave_balances
+        WHERE employee_id = v_employee_id AND leave_type_id = p_request.leave_type_id AND year = v_year
+          AND closed_at IS NOT NULL
+      ) THEN
+        RAISE EXCEPTION 'Leave year % has been closed', v_year;
+      END IF;
+
+      UPDATE public.leave_balances
+      SET used = used - p_sign * v_days, updated_at = NOW()
+      WHERE employee_id = v_employee_id AND leave_type_id = p_request.leave_type_id AND year = v_year
+      RETURNING * INTO v_balance;
+
+      INSERT INTO public.leave_balance_transactions (
+        agency_id, balance_id, employee_id, leave_type_id, year, transaction_type, days,
+        balance_after, reference_type, reference_id, created_by
+      ) VALUES (
+        v_balance.agency_id, v_balance.id, v_employee_id, p_request.leave_type_id, v_year, p_transaction_type,
+        p_sign * v_days,
+        v_balance.opening_balance + v_balance.accrued + v_balance.adjusted - v_balance.used
+          - v_balance.encashed - v_balance.lapsed - v_balance.carried_forward,
+        'leave_request', p_request.id, p_request.approved_by
+      );
+    END;
+    $$ LANGUAGE plpgsql;
+  `);
+
+  await client.query(`
+    CREATE OR REPLACE FUNCTION public.sync_leave_balance_usage()
+    RETURNS TRIGGER AS $$
+    BEGIN
+      IF TG_OP IN ('UPDATE', 'DELETE') AND OLD.status = 'approved' THEN
+        -- Nothing that affects the balance changed
+        IF TG_OP = 'UPDATE' AND NEW.status = 'approved'
+          AND NEW.leave_type_id IS NOT DISTINCT FROM OLD.leave_type_id
+          AND COALESCE(NEW.employee_id, NEW.user_id) IS NOT DISTINCT FROM COALESCE(OLD.employee_id, OLD.user_id)
+          AND NEW.start_date = OLD.start_date
+          AND COALESCE(NEW.total_days, NEW.days_requested) IS NOT DISTINCT FROM COALESCE(OLD.total_days, OLD.days_requested)
+        THEN
+          RETURN NEW;
+        END IF;
+        PERFORM public.post_leave_balance_usage(OLD, 'leave_reversed', 1);
+      END IF;
+
+      IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.status = 'approved' THEN
+        PERFORM public.post_leave_balance_usage(NEW, 'leave_taken', -1);
+      END IF;
+
+      RETURN COALESCE(NEW, OLD);
+    END;
+    $$ LANGUAGE plpgsql;
+  `);
+
+  await client.query(`
+    DROP TRIGGER IF EXISTS sync_leave_balance_usage_trigger ON public.leave_requests;
+    CREATE TRIGGER sync_leave_balance_usage_trigger
+      AFTER INSERT OR UPDATE OR DELETE ON public.leave_requests
+      FOR EACH ROW
+      EXECUTE FUNCTION public.sync_leave_balance_usage();
+  `);
+}
+
+/**
+ * Ensure shifts table exists
+ * A shift whose end_time is not after its start_time runs past midnight into the next day
+ */
+async function ensureShiftsTable(client) {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS public.shifts (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      agency_id UUID,
+      name TEXT NOT NULL,
+      code TEXT,
+      start_time TIME NOT NULL,
+      end_time TIME NOT NULL,
+      break_minutes INTEGER DEFAULT 60,
+      grace_minutes INTEGER DEFAULT 10,
+      early_exit_grace_minutes INTEGER DEFAULT 10,
+      overtime_threshold_minutes INTEGER DEFAULT 30,
+      color TEXT DEFAULT '#3b82f6',
+      is_default BOOLEAN DEFAULT false,
+      is_active BOOLEAN DEFAULT true,
+      created_by UUID REFERENCES public.users(id),
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    );
+  `);
+}
+
+/**
+ * Ensure shift_rotations table exists
+ * pattern holds one entry per day of the cycle: a shift id, or null for a day off
+ */
+async function ensureShiftRotationsTable(client) {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS public.shift_rotations (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      agency_id UUID,
+      name TEXT NOT NULL,
+      description TEXT,
+      pattern JSONB NOT NULL DEFAULT '[]'::jsonb,
+      is_active BOOLEAN DEFAULT true,
+      created_by UUID REFERENCES public.users(id),
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    );
+  `);
+}
+
+/**
+ * Ensure shift_assignments table exists
+ * One roster entry per employee per date; a null shift_id is a rostered day off
+ */
+async function ensureShiftAssignmentsTable(client) {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS public.shift_assignments (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      agency_id UUID,
+      employee_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+      shift_date DATE NOT NULL,
+      shift_id UUID REFERENCES public.shifts(id) ON DELETE CASCADE,
+      department_id UUID,
+      rotation_id UUID REFERENCES public.shift_rotations(id) ON DELETE SET NULL,
+      notes TEXT,
+      created_by UUID REFERENCES public.users(id),
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      UNIQUE(employee_id, shift_date)
+    );
+  `);
+  await client.query(`
+    CREATE INDEX IF NOT EXISTS idx_shift_assignments_date ON public.shift_assignments(shift_date);
+  `);
+
+  // Attendance is measured against the rostered shift
+  try {
+    await client.query(`
+      ALTER TABLE public.attendance ADD COLUMN IF NOT EXISTS shift_assignment_id UUID REFERENCES public.shift_assignments(id) ON DELETE SET NULL;
+      ALTER TABLE public.attendance ADD COLUMN IF NOT EXISTS shift_id UUID REFERENCES public.shifts(id) ON DELETE SET NULL;
+      ALTER TABLE public.attendance ADD COLUMN IF NOT EXISTS scheduled_start TIMESTAMP WITH TIME ZONE;
+      ALTER TABLE public.attendance ADD COLUMN IF NOT EXISTS scheduled_end TIMESTAMP WITH TIME ZONE;
+      ALTER TABLE public.attendance ADD COLUMN IF NOT EXISTS late_minutes INTEGER DEFAULT 0;
+      ALTER TABLE public.attendance ADD COLUMN IF NOT EXISTS early_out_minutes INTEGER DEFAULT 0;
+    `);
+  } catch (error) {
+    console.warn('[SQL] Warning: Could not add shift columns to attendance:', error.message);
+  }
+}
+
+/**
+ * Ensure attendance_regularizations table exists
+ * The original punch is copied onto the request when it is applied, so corrections stay auditable
+ */
+async function ensureAttendanceRegularizationsTable(client) {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS public.attendance_regularizations (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      agency_id UUID,
+      employee_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+      attendance_date DATE NOT NULL,
+      request_type TEXT NOT NULL CHECK (request_type IN ('missed_punch', 'on_duty', 'work_from_home')),
+      requested_check_in TIMESTAMP WITH TIME ZONE,
+      requested_check_out TIMESTAMP WITH TIME ZONE,
+      reason TEXT NOT NULL,
+      evidence JSONB DEFAULT '[]'::jsonb,
+      status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled')),
+      workflow_instance_id UUID,
+      attendance_id UUID REFERENCES public.attendance(id) ON DELETE SET NULL,
+      original_check_in TIMESTAMP WITH TIME ZONE,
+      original_check_out TIMESTAMP WITH TIME ZONE,
+      original_status TEXT,
+      original_total_hours NUMERIC(6,2),
+      decided_by UUID REFERENCES public.users(id),
+      decided_at TIMESTAMP WITH TIME ZONE,
+      decision_comments TEXT,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    );
+  `);
+  await client.query(`
+    CREATE INDEX IF NOT EXISTS idx_attendance_regularizations_employee ON public.attendance_regularizations(employee_id, attendance_date);
+    CREATE INDEX IF NOT EXISTS idx_attendance_regularizations_status ON public.attendance_regularizations(status);
+  `);
+
+  try {
+    await client.query(`
+      ALTER TABLE public.attendance ADD COLUMN IF NOT EXISTS regularization_id UUID REFERENCES public.attendance_regularizations(id) ON DELETE SET NULL;
+    `);
+  } catch (error) {
+    console.warn('[SQL] Warning: Could not add regularization_id to attendance:', error.message);
+  }
+}
+
+/**
+ * Ensure performance_competencies table exists
+ */
+async function ensurePerformanceCompetenciesTable(client) {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS public.performance_competencies (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      agency_id UUID,
+      name TEXT NOT NULL,
+      description TEXT,
+      category TEXT,
+      sort_order INTEGER DEFAULT 0,
+      is_active BOOLEAN DEFAULT true,
+      created_by UUID REFERENCES public.users(id),
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    );
+  `);
+}
+
+/**
+ * Ensure performance_review_cycles table exists
+ * competencies and rating_scale are copied onto the cycle when it is created, so later edits to the
+ * competency library do not change forms already handed out
+ */
+async function ensurePerformanceReviewCyclesTable(client) {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS public.performance_review_cycles (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      agency_id UUID,
+      name TEXT NOT NULL,
+      cycle_type TEXT NOT NULL DEFAULT 'quarterly' CHECK (cycle_type IN ('quarterly', 'half_yearly', 'annual')),
+      period_start DATE NOT NULL,
+      period_end DATE NOT NULL,
+      self_review_due DATE,
+      manager_review_due DATE,
+      competencies JSONB NOT NULL DEFAULT '[]'::jsonb,
+      rating_scale JSONB NOT NULL DEFAULT '[]'::jsonb,
+      include_peer_feedback BOOLEAN DEFAULT true,
+      department_id UUID REFERENCES public.departments(id) ON DELETE SET NULL,
+      status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'active', 'calibration', 'closed')),
+      launched_at TIMESTAMP WITH TIME ZONE,
+      closed_at TIMESTAMP WITH TIME ZONE,
+      created_by UUID REFERENCES public.users(id),
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      CHECK (period_end >= period_start)
+    );
+  `);
+}
+
+/**
+ * Ensure performance_reviews table exists
+ * performance_summary holds the task and attendance metrics for the cycle period, computed when the
+ * review is finalized, next to the final rating
+ */
+async function ensurePerformanceReviewsTable(client) {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS public.performance_reviews (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      agency_id UUID,
+      cycle_id UUID NOT NULL REFERENCES public.performance_review_cycles(id) ON DELETE CASCADE,
+      employee_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+      manager_id UUID REFERENCES public.users(id) ON DELETE SET NULL,
+      department_id UUID REFERENCES public.departments(id) ON DELETE SET NULL,
+      status TEXT NOT NULL DEFAULT 'in_progress' CHECK (status IN ('in_progress', 'calibrated', 'finalized')),
+      calibrated_rating NUMERIC(4,2),
+      calibration_notes TEXT,
+      calibrated_by UUID REFERENCES public.users(id),
+      calibrated_at TIMESTAMP WITH TIME ZONE,
+      final_rating NUMERIC(4,2),
+      final_rating_label TEXT,
+      performance_summary JSONB,
+      finalized_at TIMESTAMP WITH TIME ZONE,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      UNIQUE(cycle_id, employee_id)
+    );
+  `);
+  await client.query(`
+    CREATE INDEX IF NOT EXISTS idx_performance_reviews_employee ON public.performance_reviews(employee_id);
+  `);
+}
+
+/**
+ * Ensure performance_feedback table exists
+ * ratings maps competency id to the score given on the cycle's rating scale
+ */
+async function ensurePerformanceFeedbackTable(client) {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS public.performance_feedback (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      agency_id UUID,
+      review_id UUID NOT NULL REFERENCES public.performance_reviews(id) ON DELETE CASCADE,
+      reviewer_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+      relationship TEXT NOT NULL CHECK (relationship IN ('self', 'manager', 'peer')),
+      status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'submitted', 'declined')),
+      ratings JSONB NOT NULL DEFAULT '{}'::jsonb,
+      overall_rating NUMERIC(4,2),
+      strengths TEXT,
+      improvements TEXT,
+      comments TEXT,
+      requested_by UUID REFERENCES public.users(id),
+      submitted_at TIMESTAMP WITH TIME ZONE,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      UNIQUE(review_id, reviewer_id, relationship)
+    );
+  `);
+  await client.query(`
+    CREATE INDEX IF NOT EXISTS idx_performance_feedback_reviewer ON public.performance_feedback(reviewer_id, status);
+  `);
+}
+
+/**
+ * Ensure performance_goals table exists
+ * key_results is a list of { title, target, current, unit } for OKR-style goals
+ */
+async function ensurePerformanceGoalsTable(client) {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS public.performance_goals (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      agency_id UUID,
+      employee_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+      cycle_id UUID REFERENCES public.performance_review_cycles(id) ON DELETE SET NULL,
+      title TEXT NOT NULL,
+      description TEXT,
+      goal_type TEXT NOT NULL DEFAULT 'goal' CHECK (goal_type IN ('goal', 'okr')),
+      key_results JSONB NOT NULL DEFAULT '[]'::jsonb,
+      weight NUMERIC(5,2) DEFAULT 0,
+      progress NUMERIC(5,2) DEFAULT 0 CHECK (progress BETWEEN 0 AND 100),
+      status TEXT NOT NULL DEFAULT 'not_started' CHECK (status IN ('not_started', 'on_track', 'at_risk', 'off_track', 'completed', 'cancelled')),
+      due_date DATE,
+      created_by UUID REFERENCES public.users(id),
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    );
+  `);
+  await client.query(`
+    CREATE INDEX IF NOT EXISTS idx_performance_goals_employee ON public.performance_goals(employee_id, cycle_id);
+  `);
+}
+
+/**
+ * Ensure performance_goal_checkins table exists
+ */
+async function ensurePerformanceGoalCheckinsTable(client) {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS public.performance_goal_checkins (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      agency_id UUID,
+      goal_id UUID NOT NULL REFERENCES public.performance_goals(id) ON DELETE CASCADE,
+      progress NUMERIC(5,2) NOT NULL CHECK (progress BETWEEN 0 AND 100),
+      status TEXT NOT NULL,
+      key_results JSONB,
+      note TEXT,
+      created_by UUID REFERENCES public.users(id),
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    );
+  `);
+  await client.query(`
+    CREATE INDEX IF NOT EXISTS idx_performance_goal_checkins_goal ON public.performance_goal_checkins(goal_id, created_at);
+  `);
+}
+
 /**
  * Ensure payroll_periods table exists
  */
@@ -464,6 +989,19 @@ async function ensurePayrollPeriodsTable(client) {
       updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
     );
   `);
+
+  // The payroll screens save the period as "name" and treat the pay date as optional
+  try {
+    await client.query('ALTER TABLE public.payroll_periods ADD COLUMN IF NOT EXISTS name TEXT');
+    await client.query('ALTER TABLE public.payroll_periods ADD COLUMN IF NOT EXISTS agency_id UUID');
+    await client.query('ALTER TABLE public.payroll_periods ADD COLUMN IF NOT EXISTS finalized_at TIMESTAMP WITH TIME ZONE');
+    await client.query('ALTER TABLE public.payroll_periods ADD COLUMN IF NOT EXISTS finalized_by UUID REFERENCES public.users(id)');
+    await client.query('ALTER TABLE public.payroll_periods ALTER COLUMN period_name DROP NOT NULL');
+    await client.query('ALTER TABLE public.payroll_periods ALTER COLUMN pay_date DROP NOT NULL');
+    await client.query('UPDATE public.payroll_periods SET name = period_name WHERE name IS NULL AND period_name IS NOT NULL');
+  } catch (error) {
+    console.warn('[SQL] Warning updating payroll_periods columns:', error.message);
+  }
 }
 
 /**
@@ -491,6 +1029,123 @@ async function ensurePayrollTable(client) {
       updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
     );
   `);
+
+  // Statutory breakdown written by the payroll run
+  try {
+    await client.query(`
+      ALTER TABLE public.payroll
+        ADD COLUMN IF NOT EXISTS agency_id UUID,
+        ADD COLUMN IF NOT EXISTS hours_worked NUMERIC(10, 2) DEFAULT 0,
+        ADD COLUMN IF NOT EXISTS salary_structure_id UUID,
+        ADD COLUMN IF NOT EXISTS salary_detail_id UUID,
+        ADD COLUMN IF NOT EXISTS monthly_gross NUMERIC(15, 2) DEFAULT 0,
+        ADD COLUMN IF NOT EXISTS working_days NUMERIC(6, 2) DEFAULT 0,
+        ADD COLUMN IF NOT EXISTS paid_days NUMERIC(6, 2) DEFAULT 0,
+        ADD COLUMN IF NOT EXISTS lop_days NUMERIC(6, 2) DEFAULT 0,
+        ADD COLUMN IF NOT EXISTS lop_amount NUMERIC(15, 2) DEFAULT 0,
+        ADD COLUMN IF NOT EXISTS arrears NUMERIC(15, 2) DEFAULT 0,
+        ADD COLUMN IF NOT EXISTS bonus NUMERIC(15, 2) DEFAULT 0,
+        ADD COLUMN IF NOT EXISTS pf_employee NUMERIC(15, 2) DEFAULT 0,
+        ADD COLUMN IF NOT EXISTS pf_employer NUMERIC(15, 2) DEFAULT 0,
+        ADD COLUMN IF NOT EXISTS esi_employee NUMERIC(15, 2) DEFAULT 0,
+        ADD COLUMN IF NOT EXISTS esi_employer NUMERIC(15, 2) DEFAULT 0,
+        ADD COLUMN IF NOT EXISTS professional_tax NUMERIC(15, 2) DEFAULT 0,
+        ADD COLUMN IF NOT EXISTS tds NUMERIC(15, 2) DEFAULT 0,
+        ADD COLUMN IF NOT EXISTS other_deductions NUMERIC(15, 2) DEFAULT 0,
+        ADD COLUMN IF NOT EXISTS earnings JSONB DEFAULT '[]'::jsonb,
+        ADD COLUMN IF NOT EXISTS arrears_settled_in UUID
+    `);
+    await client.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_payroll_period_employee_unique
+      ON public.payroll(payroll_period_id, employee_id)
+      WHERE payroll_period_id IS NOT NULL AND employee_id IS NOT NULL
+    `);
+  } catch (error) {
+    console.warn('[SQL] Warning adding payroll breakdown columns:', error.message);
+  }
+}
+
+/**
+ * Ensure salary_structures table exists
+ * components: [{ code, name, calculation: fixed|percent_of_gross|percent_of_basic|balance, value, pf_applicable, taxable }]
+ */
+async function ensureSalaryStructuresTable(client) {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS public.salary_structures (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      agency_id UUID,
+      name TEXT NOT NULL,
+      description TEXT,
+      components JSONB NOT NULL DEFAULT '[]'::jsonb,
+      is_active BOOLEAN DEFAULT true,
+      created_by UUID REFERENCES public.users(id),
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    );
+  `);
+  await client.query(`
+    CREATE INDEX IF NOT EXISTS idx_salary_structures_agency_id ON public.salary_structures(agency_id);
+  `);
+}
+
+/**
+ * Ensure payroll_statutory_settings table exists (one row per agency)
+ */
+async function ensurePayrollStatutorySettingsTable(client) {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS public.payroll_statutory_settings (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      agency_id UUID UNIQUE,
+      pf_enabled BOOLEAN DEFAULT true,
+      pf_employee_rate NUMERIC(6, 3) DEFAULT 12,
+      pf_employer_rate NUMERIC(6, 3) DEFAULT 12,
+      pf_wage_ceiling NUMERIC(15, 2) DEFAULT 15000,
+      pf_restrict_to_ceiling BOOLEAN DEFAULT true,
+      esi_enabled BOOLEAN DEFAULT true,
+      esi_employee_rate NUMERIC(6, 3) DEFAULT 0.75,
+      esi_employer_rate NUMERIC(6, 3) DEFAULT 3.25,
+      esi_wage_limit NUMERIC(15, 2) DEFAULT 21000,
+      pt_enabled BOOLEAN DEFAULT true,
+      pt_slabs JSONB DEFAULT '[]'::jsonb,
+      tds_enabled BOOLEAN DEFAULT true,
+      tds_slabs JSONB DEFAULT '[]'::jsonb,
+      tds_standard_deduction NUMERIC(15, 2) DEFAULT 75000,
+      tds_rebate_limit NUMERIC(15, 2) DEFAULT 1200000,
+      tds_rebate_max NUMERIC(15, 2) DEFAULT 60000,
+      tds_cess_rate NUMERIC(6, 3) DEFAULT 4,
+      overtime_multiplier NUMERIC(6, 2) DEFAULT 1.5,
+      weekly_offs JSONB DEFAULT '[0, 6]'::jsonb,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    );
+  `);
+}
+
+/**
+ * Ensure payroll_adjustments table exists
+ * Pending adjustments are picked up by the next payroll run for the employee
+ */
+async function ensurePayrollAdjustmentsTable(client) {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS public.payroll_adjustments (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      agency_id UUID,
+      employee_id UUID NOT NULL REFERENCES public.employee_details(id) ON DELETE CASCADE,
+      payroll_period_id UUID REFERENCES public.payroll_periods(id) ON DELETE SET NULL,
+      adjustment_type TEXT NOT NULL CHECK (adjustment_type IN ('arrear', 'bonus', 'deduction')),
+      description TEXT,
+      amount NUMERIC(15, 2) NOT NULL DEFAULT 0,
+      is_taxable BOOLEAN DEFAULT true,
+      status TEXT DEFAULT 'pending' CHECK (status IN ('pending', 'applied')),
+      payroll_id UUID REFERENCES public.payroll(id) ON DELETE SET NULL,
+      created_by UUID REFERENCES public.users(id),
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    );
+  `);
+  await client.query(`
+    CREATE INDEX IF NOT EXISTS idx_payroll_adjustments_employee ON public.payroll_adjustments(employee_id, status);
+  `);
 }
 
 /**
@@ -555,6 +1210,12 @@ async function ensureEmployeeSalaryDetailsTable(client) {
     END $$;
   `);
 
+  try {
+    await client.query('ALTER TABLE public.employee_salary_details ADD COLUMN IF NOT EXISTS salary_structure_id UUID REFERENCES public.salary_structures(id) ON DELETE SET NULL');
+  } catch (error) {
+    console.warn('[SQL] Warning adding salary_structure_id to employee_salary_details:', error.message);
+  }
+
   // Create trigger for sync_employee_salary function (after table exists)
   await client.query(`
     DROP TRIGGER IF EXISTS sync_employee_salary_trigger ON public.employee_salary_details;
@@ -596,8 +1257,26 @@ async function ensureHrSchema(client) {
   await ensureAttendanceTable(client);
   await ensureLeaveTypesTable(client);
   await ensureLeaveRequestsTable(client);
+  await ensureLeavePoliciesTable(client);
+  await ensureLeaveBalancesTable(client);
+  await ensureLeaveBalanceTransactionsTable(client);
+  await ensureLeaveRolloversTable(client);
+  await ensureLeaveBalanceUsageTrigger(client);
+  await ensureShiftsTable(client);
+  await ensureShiftRotationsTable(client);
+  await ensureShiftAssignmentsTable(client);
+  await ensureAttendanceRegularizationsTable(client);
+  await ensurePerformanceCompetenciesTable(client);
+  await ensurePerformanceReviewCyclesTable(client);
+  await ensurePerformanceReviewsTable(client);
+  await ensurePerformanceFeedbackTable(client);
+  await ensurePerformanceGoalsTable(client);
+  await ensurePerformanceGoalCheckinsTable(client);
   await ensurePayrollPeriodsTable(client);
   await ensurePayrollTable(client);
+  await ensureSalaryStructuresTable(client);
+  await ensurePayrollStatutorySettingsTable(client);
+  await ensurePayrollAdjustmentsTable(client);
   await ensureEmployeeSalaryDetailsTable(client);
   await ensureEmployeeFilesTable(client);
   
@@ -610,8 +1289,26 @@ module.exports = {
   ensureAttendanceTable,
   ensureLeaveTypesTable,
   ensureLeaveRequestsTable,
+  ensureLeavePoliciesTable,
+  ensureLeaveBalancesTable,
+  ensureLeaveBalanceTransactionsTable,
+  ensureLeaveRolloversTable,
+  ensureLeaveBalanceUsageTrigger,
+  ensureShiftsTable,
+  ensureShiftRotationsTable,
+  ensureShiftAssignmentsTable,
+  ensureAttendanceRegularizationsTable,
+  ensurePerformanceCompetenciesTable,
+  ensurePerformanceReviewCyclesTable,
+  ensurePerformanceReviewsTable,
+  ensurePerformanceFeedbackTable,
+  ensurePerformanceGoalsTable,
+  ensurePerformanceGoalCheckinsTable,
   ensurePayrollPeriodsTable,
   ensurePayrollTable,
+  ensureSalaryStructuresTable,
+  ensurePayrollStatutorySettingsTable,
+  ensurePayrollAdjustmentsTable,
   ensureEmployeeSalaryDetailsTable,
   ensureEmployeeFilesTable,
 };
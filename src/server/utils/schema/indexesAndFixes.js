@@ -116,6 +116,7 @@ async function ensureClientsFinancialIndexes(client) {
   await client.query(`CREATE INDEX IF NOT EXISTS idx_invoices_client_id ON public.invoices(client_id)`);
   await client.query(`CREATE INDEX IF NOT EXISTS idx_invoices_status ON public.invoices(status)`);
   await client.query(`CREATE INDEX IF NOT EXISTS idx_invoices_issue_date ON public.invoices(issue_date)`);
+  await client.query(`CREATE INDEX IF NOT EXISTS idx_invoice_line_items_invoice_id ON public.invoice_line_items(invoice_id)`);
   await client.query(`CREATE INDEX IF NOT EXISTS idx_quotations_client_id ON public.quotations(client_id)`);
   await client.query(`CREATE INDEX IF NOT EXISTS idx_quotations_status ON public.quotations(status)`);
   await client.query(`CREATE INDEX IF NOT EXISTS idx_quotation_line_items_quotation_id ON public.quotation_line_items(quotation_id)`);
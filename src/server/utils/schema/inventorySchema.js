@@ -7,6 +7,11 @@
  * - product_variants: Product variants (size, color, etc.)
  * - inventory: Stock levels per warehouse
  * - inventory_transactions: Stock movement history
+ * - inventory_cost_layers: Receipt cost layers for FIFO/FEFO/LIFO valuation
+ * - inventory_cost_layer_consumptions: Layers drawn down by each outbound movement
+ * - inventory_reservations: Stock held for projects, tasks and accepted quotations
+ * - stock_take_sessions: Physical stock-takes and cycle counts per warehouse/zone
+ * - stock_take_lines: Count sheet lines with frozen expected quantities
  * - suppliers: Supplier/vendor information
  * - purchase_orders: Purchase orders (part of procurement)
  * - goods_receipts: Goods receipt notes
@@ -215,6 +220,16 @@ async function ensureInventoryTable(client) {
     CREATE INDEX IF NOT EXISTS idx_inventory_available_quantity ON public.inventory(available_quantity);
   `);
 
+  // Storage zone within the warehouse, used to scope stock-takes
+  try {
+    await client.query(`
+      ALTER TABLE public.inventory
+        ADD COLUMN IF NOT EXISTS zone VARCHAR(100)
+    `);
+  } catch (error) {
+    console.warn('[SQL] Warning adding zone column to inventory:', error.message);
+  }
+
   // Create updated_at trigger
   await client.query(`
     DROP TRIGGER IF EXISTS update_inventory_updated_at ON public.inventory;
@@ -259,6 +274,17 @@ async function ensureInventoryTransactionsTable(client) {
     CREATE INDEX IF NOT EXISTS idx_inventory_transactions_reference ON public.inventory_transactions(reference_type, reference_id);
     CREATE INDEX IF NOT EXISTS idx_inventory_transactions_created_at ON public.inventory_transactions(created_at);
   `);
+
+  // Cost of goods issued, valued by the method in force when the movement was posted
+  try {
+    await client.query(`
+      ALTER TABLE public.inventory_transactions
+        ADD COLUMN IF NOT EXISTS cost_of_goods DECIMAL(15,2),
+        ADD COLUMN IF NOT EXISTS valuation_method VARCHAR(50)
+    `);
+  } catch (error) {
+    console.warn('[SQL] Warning adding costing columns to inventory_transactions:', error.message);
+  }
 }
 
 /**
@@ -299,6 +325,17 @@ async function ensureSuppliersTable(client) {
     CREATE INDEX IF NOT EXISTS idx_suppliers_code ON public.suppliers(code);
     CREATE INDEX IF NOT EXISTS idx_suppliers_is_active ON public.suppliers(is_active);
   `);
+
+  // Preferred supplier and lead time drive replenishment proposals
+  try {
+    await client.query(`
+      ALTER TABLE public.products
+        ADD COLUMN IF NOT EXISTS preferred_supplier_id UUID REFERENCES public.suppliers(id) ON DELETE SET NULL,
+        ADD COLUMN IF NOT EXISTS lead_time_days INTEGER
+    `);
+  } catch (error) {
+    console.warn('[SQL] Warning adding replenishment columns to products:', error.message);
+  }
 }
 
 /**
@@ -483,6 +520,188 @@ async function ensureBatchesTable(client) {
   `);
 }
 
+/**
+ * Ensure inventory cost layer tables exist
+ * Every receipt opens a layer; outbound movements draw layers down in the order
+ * the inventory record's valuation method dictates (FIFO, FEFO or LIFO)
+ */
+async function ensureInventoryCostLayersTables(client) {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS public.inventory_cost_layers (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      agency_id UUID NOT NULL,
+      inventory_id UUID NOT NULL REFERENCES public.inventory(id) ON DELETE CASCADE,
+      source_transaction_id UUID REFERENCES public.inventory_transactions(id) ON DELETE SET NULL,
+      layer_type VARCHAR(50) DEFAULT 'receipt', -- receipt, opening, adjustment, transfer, return
+      batch_id UUID REFERENCES public.batches(id) ON DELETE SET NULL,
+      batch_number VARCHAR(255),
+      expiry_date DATE,
+      received_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+      original_quantity DECIMAL(10,2) NOT NULL,
+      remaining_quantity DECIMAL(10,2) NOT NULL,
+      unit_cost DECIMAL(15,4) NOT NULL DEFAULT 0,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    );
+  `);
+
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS public.inventory_cost_layer_consumptions (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      agency_id UUID NOT NULL,
+      transaction_id UUID NOT NULL REFERENCES public.inventory_transactions(id) ON DELETE CASCADE,
+      layer_id UUID NOT NULL REFERENCES public.inventory_cost_layers(id) ON DELETE CASCADE,
+      quantity DECIMAL(10,2) NOT NULL,
+      unit_cost DECIMAL(15,4) NOT NULL,
+      total_cost DECIMAL(15,2) NOT NULL,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    );
+  `);
+
+  await client.query(`
+    CREATE INDEX IF NOT EXISTS idx_inventory_cost_layers_open ON public.inventory_cost_layers(inventory_id, received_at) WHERE remaining_quantity > 0;
+    CREATE INDEX IF NOT EXISTS idx_inventory_cost_layers_batch ON public.inventory_cost_layers(batch_id);
+    CREATE INDEX IF NOT EXISTS idx_inventory_cost_layer_consumptions_transaction ON public.inventory_cost_layer_consumptions(transaction_id);
+    CREATE INDEX IF NOT EXISTS idx_inventory_cost_layer_consumptions_layer ON public.inventory_cost_layer_consumptions(layer_id);
+  `);
+}
+
+/**
+ * Ensure inventory_reservations table exists
+ * Open quantity (quantity - issued - released) of active reservations is what
+ * inventory.reserved_quantity holds for the stock record
+ */
+async function ensureInventoryReservationsTable(client) {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS public.inventory_reservations (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      agency_id UUID NOT NULL,
+      reservation_number VARCHAR(50) NOT NULL,
+      inventory_id UUID NOT NULL REFERENCES public.inventory(id) ON DELETE CASCADE,
+      product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+      warehouse_id UUID NOT NULL REFERENCES public.warehouses(id) ON DELETE CASCADE,
+      reference_type VARCHAR(20) NOT NULL, -- project, task, quotation
+      project_id UUID REFERENCES public.projects(id) ON DELETE SET NULL,
+      task_id UUID REFERENCES public.tasks(id) ON DELETE SET NULL,
+      quotation_id UUID REFERENCES public.quotations(id) ON DELETE SET NULL,
+      job_id UUID REFERENCES public.jobs(id) ON DELETE SET NULL,
+      quantity DECIMAL(10,2) NOT NULL CHECK (quantity > 0),
+      issued_quantity DECIMAL(10,2) NOT NULL DEFAULT 0,
+      released_quantity DECIMAL(10,2) NOT NULL DEFAULT 0,
+      issued_cost DECIMAL(15,2) NOT NULL DEFAULT 0,
+      status VARCHAR(20) NOT NULL DEFAULT 'active', -- active, issued, released, expired, cancelled
+      expires_at DATE,
+      notes TEXT,
+      release_reason TEXT,
+      reserved_by UUID REFERENCES public.users(id),
+      released_at TIMESTAMP WITH TIME ZONE,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      UNIQUE(agency_id, reservation_number)
+    );
+  `);
+
+  await client.query(`
+    CREATE INDEX IF NOT EXISTS idx_inventory_reservations_agency_status ON public.inventory_reservations(agency_id, status);
+    CREATE INDEX IF NOT EXISTS idx_inventory_reservations_inventory ON public.inventory_reservations(inventory_id) WHERE status = 'active';
+    CREATE INDEX IF NOT EXISTS idx_inventory_reservations_project ON public.inventory_reservations(project_id);
+    CREATE INDEX IF NOT EXISTS idx_inventory_reservations_quotation ON public.inventory_reservations(quotation_id);
+    CREATE INDEX IF NOT EXISTS idx_inventory_reservations_job ON public.inventory_reservations(job_id);
+    CREATE INDEX IF NOT EXISTS idx_inventory_reservations_expires ON public.inventory_reservations(expires_at) WHERE status = 'active';
+  `);
+
+  await client.query(`
+    DROP TRIGGER IF EXISTS update_inventory_reservations_updated_at ON public.inventory_reservations;
+    CREATE TRIGGER update_inventory_reservations_updated_at
+      BEFORE UPDATE ON public.inventory_reservations
+      FOR EACH ROW
+      EXECUTE FUNCTION public.update_updated_at_column();
+  `);
+}
+
+/**
+ * Ensure stock-take tables exist
+ * Lines freeze the expected quantity and unit cost when the sheet is generated;
+ * posting adjusts stock by the counted variance, not to the counted quantity
+ */
+async function ensureStockTakeTables(client) {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS public.stock_take_sessions (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      agency_id UUID NOT NULL,
+      session_number VARCHAR(50) NOT NULL,
+      warehouse_id UUID NOT NULL REFERENCES public.warehouses(id) ON DELETE CASCADE,
+      zone VARCHAR(100),
+      count_type VARCHAR(20) NOT NULL DEFAULT 'full', -- full, cycle
+      abc_classes TEXT[],
+      blind_count BOOLEAN NOT NULL DEFAULT true,
+      status VARCHAR(20) NOT NULL DEFAULT 'counting', -- counting, review, approved, posted, cancelled
+      notes TEXT,
+      total_lines INTEGER NOT NULL DEFAULT 0,
+      variance_lines INTEGER NOT NULL DEFAULT 0,
+      variance_value DECIMAL(15,2) NOT NULL DEFAULT 0,
+      created_by UUID REFERENCES public.users(id),
+      submitted_by UUID REFERENCES public.users(id),
+      submitted_at TIMESTAMP WITH TIME ZONE,
+      approved_by UUID REFERENCES public.users(id),
+      approved_at TIMESTAMP WITH TIME ZONE,
+      posted_by UUID REFERENCES public.users(id),
+      posted_at TIMESTAMP WITH TIME ZONE,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      UNIQUE(agency_id, session_number)
+    );
+  `);
+
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS public.stock_take_lines (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      agency_id UUID NOT NULL,
+      session_id UUID NOT NULL REFERENCES public.stock_take_sessions(id) ON DELETE CASCADE,
+      inventory_id UUID NOT NULL REFERENCES public.inventory(id) ON DELETE CASCADE,
+      product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+      variant_id UUID REFERENCES public.product_variants(id) ON DELETE CASCADE,
+      abc_class CHAR(1),
+      expected_quantity DECIMAL(10,2) NOT NULL DEFAULT 0,
+      expected_serials TEXT[],
+      unit_cost DECIMAL(15,2) NOT NULL DEFAULT 0,
+      counted_quantity DECIMAL(10,2),
+      scanned_serials TEXT[],
+      variance_quantity DECIMAL(10,2),
+      variance_value DECIMAL(15,2),
+      review_status VARCHAR(20) NOT NULL DEFAULT 'pending', -- pending, accepted, rejected
+      adjustment_transaction_id UUID REFERENCES public.inventory_transactions(id) ON DELETE SET NULL,
+      posted_variance_value DECIMAL(15,2),
+      notes TEXT,
+      counted_by UUID REFERENCES public.users(id),
+      counted_at TIMESTAMP WITH TIME ZONE,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      UNIQUE(session_id, inventory_id)
+    );
+  `);
+
+  await client.query(`
+    CREATE INDEX IF NOT EXISTS idx_stock_take_sessions_agency_status ON public.stock_take_sessions(agency_id, status);
+    CREATE INDEX IF NOT EXISTS idx_stock_take_sessions_warehouse ON public.stock_take_sessions(warehouse_id);
+    CREATE INDEX IF NOT EXISTS idx_stock_take_lines_session ON public.stock_take_lines(session_id);
+    CREATE INDEX IF NOT EXISTS idx_stock_take_lines_inventory ON public.stock_take_lines(inventory_id);
+  `);
+
+  await client.query(`
+    DROP TRIGGER IF EXISTS update_stock_take_sessions_updated_at ON public.stock_take_sessions;
+    CREATE TRIGGER update_stock_take_sessions_updated_at
+      BEFORE UPDATE ON public.stock_take_sessions
+      FOR EACH ROW
+      EXECUTE FUNCTION public.update_updated_at_column();
+
+    DROP TRIGGER IF EXISTS update_stock_take_lines_updated_at ON public.stock_take_lines;
+    CREATE TRIGGER update_stock_take_lines_updated_at
+      BEFORE UPDATE ON public.stock_take_lines
+      FOR EACH ROW
+      EXECUTE FUNCTION public.update_updated_at_column();
+  `);
+}
+
 /**
  * Ensure all inventory management tables
  */
@@ -501,6 +720,9 @@ async function ensureInventorySchema(client) {
     await ensureBomItemsTable(client);
     await ensureSerialNumbersTable(client);
     await ensureBatchesTable(client);
+    await ensureInventoryCostLayersTables(client);
+    await ensureInventoryReservationsTable(client);
+    await ensureStockTakeTables(client);
     
     console.log('[SQL] ✅ Inventory management schema ensured');
   } catch (error) {
@@ -522,4 +744,7 @@ module.exports = {
   ensureBomItemsTable,
   ensureSerialNumbersTable,
   ensureBatchesTable,
+  ensureInventoryCostLayersTables,
+  ensureInventoryReservationsTable,
+  ensureStockTakeTables,
 };
@@ -9,7 +9,13 @@
  * - goods_receipts: Goods receipt notes
  * - grn_items: GRN line items
  * - rfq_rfp: Request for quotation/proposal
+ * - rfq_suppliers: Suppliers invited to bid on an RFQ
  * - rfq_responses: Vendor responses to RFQ
+ * - vendor_invoices: Supplier bills matched against POs and goods receipts
+ * - vendor_invoice_items: Supplier bill lines with three-way match results
+ * - replenishment_runs: Requisitions and POs raised from reorder points
+ * - vendor_contract_prices: Contracted price schedule enforced on purchase orders
+ * - vendor_contract_renewals: Renewal history of vendor contracts
  * 
  * Dependencies:
  * - Requires update_updated_at_column() function
@@ -49,6 +55,17 @@ async function ensurePurchaseRequisitionsTable(client) {
     CREATE INDEX IF NOT EXISTS idx_purchase_requisitions_status ON public.purchase_requisitions(status);
   `);
 
+  // Suggested supplier and origin, so replenishment drafts can be told apart from manual requests
+  try {
+    await client.query(`
+      ALTER TABLE public.purchase_requisitions
+        ADD COLUMN IF NOT EXISTS supplier_id UUID REFERENCES public.suppliers(id) ON DELETE SET NULL,
+        ADD COLUMN IF NOT EXISTS source VARCHAR(50) DEFAULT 'manual'
+    `);
+  } catch (error) {
+    console.warn('[SQL] Warning adding replenishment columns to purchase_requisitions:', error.message);
+  }
+
   // Create updated_at trigger
   await client.query(`
     DROP TRIGGER IF EXISTS update_purchase_requisitions_updated_at ON public.purchase_requisitions;
@@ -83,6 +100,16 @@ async function ensurePurchaseRequisitionItemsTable(client) {
     CREATE INDEX IF NOT EXISTS idx_purchase_requisition_items_requisition_id ON public.purchase_requisition_items(requisition_id);
     CREATE INDEX IF NOT EXISTS idx_purchase_requisition_items_product_id ON public.purchase_requisition_items(product_id);
   `);
+
+  // Destination warehouse, used to net open requests off that warehouse's shortage
+  try {
+    await client.query(`
+      ALTER TABLE public.purchase_requisition_items
+        ADD COLUMN IF NOT EXISTS warehouse_id UUID REFERENCES public.warehouses(id) ON DELETE SET NULL
+    `);
+  } catch (error) {
+    console.warn('[SQL] Warning adding warehouse_id to purchase_requisition_items:', error.message);
+  }
 }
 
 /**
@@ -127,6 +154,24 @@ async function ensurePurchaseOrdersTable(client) {
     CREATE INDEX IF NOT EXISTS idx_purchase_orders_requisition_id ON public.purchase_orders(requisition_id);
   `);
 
+  // exchange_rate is base currency units per unit of currency; widen it for low-value currencies
+  try {
+    await client.query(`
+      ALTER TABLE public.purchase_orders ALTER COLUMN exchange_rate TYPE DECIMAL(18,8);
+      ALTER TABLE public.purchase_orders ADD COLUMN IF NOT EXISTS base_total_amount DECIMAL(15,2);
+    `);
+  } catch (error) {
+    console.warn('[SQL] Warning: Could not add base currency columns to purchase_orders:', error.message);
+  }
+
+  try {
+    await client.query(`
+      ALTER TABLE public.purchase_orders ADD COLUMN IF NOT EXISTS source VARCHAR(50) DEFAULT 'manual'
+    `);
+  } catch (error) {
+    console.warn('[SQL] Warning adding source to purchase_orders:', error.message);
+  }
+
   // Create updated_at trigger
   await client.query(`
     DROP TRIGGER IF EXISTS update_purchase_orders_updated_at ON public.purchase_orders;
@@ -163,6 +208,15 @@ async function ensurePurchaseOrderItemsTable(client) {
     CREATE INDEX IF NOT EXISTS idx_purchase_order_items_po_id ON public.purchase_order_items(po_id);
     CREATE INDEX IF NOT EXISTS idx_purchase_order_items_product_id ON public.purchase_order_items(product_id);
   `);
+
+  try {
+    await client.query(`
+      ALTER TABLE public.purchase_order_items
+        ADD COLUMN IF NOT EXISTS warehouse_id UUID REFERENCES public.warehouses(id) ON DELETE SET NULL
+    `);
+  } catch (error) {
+    console.warn('[SQL] Warning adding warehouse_id to purchase_order_items:', error.message);
+  }
 }
 
 /**
@@ -271,6 +325,18 @@ async function ensureRfqRfpTable(client) {
     CREATE INDEX IF NOT EXISTS idx_rfq_rfp_rfq_number ON public.rfq_rfp(rfq_number);
     CREATE INDEX IF NOT EXISTS idx_rfq_rfp_status ON public.rfq_rfp(status);
   `);
+
+  // Scoring weights used by the bid comparison, and who awarded the RFQ
+  try {
+    await client.query(`
+      ALTER TABLE public.rfq_rfp
+        ADD COLUMN IF NOT EXISTS scoring_weights JSONB DEFAULT '{"price": 50, "lead_time": 20, "performance": 30}'::jsonb,
+        ADD COLUMN IF NOT EXISTS awarded_at TIMESTAMP WITH TIME ZONE,
+        ADD COLUMN IF NOT EXISTS awarded_by UUID REFERENCES public.users(id)
+    `);
+  } catch (error) {
+    console.warn('[SQL] Warning adding award columns to rfq_rfp:', error.message);
+  }
 }
 
 /**
@@ -297,6 +363,29 @@ async function ensureRfqItemsTable(client) {
   `);
 }
 
+/**
+ * Ensure rfq_suppliers table exists
+ */
+async function ensureRfqSuppliersTable(client) {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS public.rfq_suppliers (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      rfq_id UUID NOT NULL REFERENCES public.rfq_rfp(id) ON DELETE CASCADE,
+      supplier_id UUID NOT NULL REFERENCES public.suppliers(id),
+      status VARCHAR(50) DEFAULT 'invited', -- invited, responded, declined
+      invited_by UUID REFERENCES public.users(id),
+      invited_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      UNIQUE(rfq_id, supplier_id)
+    );
+  `);
+
+  // Add indexes
+  await client.query(`
+    CREATE INDEX IF NOT EXISTS idx_rfq_suppliers_rfq_id ON public.rfq_suppliers(rfq_id);
+    CREATE INDEX IF NOT EXISTS idx_rfq_suppliers_supplier_id ON public.rfq_suppliers(supplier_id);
+  `);
+}
+
 /**
  * Ensure rfq_responses table exists
  */
@@ -327,6 +416,17 @@ async function ensureRfqResponsesTable(client) {
     CREATE INDEX IF NOT EXISTS idx_rfq_responses_supplier_id ON public.rfq_responses(supplier_id);
     CREATE INDEX IF NOT EXISTS idx_rfq_responses_status ON public.rfq_responses(status);
   `);
+
+  // Quoted lead time and supporting documents; attachments are file_storage paths in the rfq-bids bucket
+  try {
+    await client.query(`
+      ALTER TABLE public.rfq_responses
+        ADD COLUMN IF NOT EXISTS lead_time_days INTEGER,
+        ADD COLUMN IF NOT EXISTS attachments JSONB DEFAULT '[]'::jsonb
+    `);
+  } catch (error) {
+    console.warn('[SQL] Warning adding bid columns to rfq_responses:', error.message);
+  }
 }
 
 /**
@@ -352,6 +452,17 @@ async function ensureRfqResponseItemsTable(client) {
     CREATE INDEX IF NOT EXISTS idx_rfq_response_items_response_id ON public.rfq_response_items(response_id);
     CREATE INDEX IF NOT EXISTS idx_rfq_response_items_rfq_item_id ON public.rfq_response_items(rfq_item_id);
   `);
+
+  // Award state per quoted line, linked to the purchase order raised for it
+  try {
+    await client.query(`
+      ALTER TABLE public.rfq_response_items
+        ADD COLUMN IF NOT EXISTS is_awarded BOOLEAN DEFAULT false,
+        ADD COLUMN IF NOT EXISTS po_id UUID REFERENCES public.purchase_orders(id) ON DELETE SET NULL
+    `);
+  } catch (error) {
+    console.warn('[SQL] Warning adding award columns to rfq_response_items:', error.message);
+  }
 }
 
 /**
@@ -419,6 +530,84 @@ async function ensureVendorContractsTable(client) {
     CREATE INDEX IF NOT EXISTS idx_vendor_contracts_status ON public.vendor_contracts(status);
     CREATE INDEX IF NOT EXISTS idx_vendor_contracts_end_date ON public.vendor_contracts(end_date);
   `);
+
+  // Renewal handling: auto contracts extend by renewal_term_months on expiry, manual ones
+  // expire. reminder_days overrides the procurement setting; last_reminder_days is the
+  // smallest lead time already notified for the current term.
+  try {
+    await client.query(`
+      ALTER TABLE public.vendor_contracts
+        ADD COLUMN IF NOT EXISTS renewal_type VARCHAR(20) DEFAULT 'manual', -- manual, auto
+        ADD COLUMN IF NOT EXISTS renewal_term_months INTEGER,
+        ADD COLUMN IF NOT EXISTS reminder_days INTEGER[],
+        ADD COLUMN IF NOT EXISTS last_reminder_days INTEGER,
+        ADD COLUMN IF NOT EXISTS renewal_count INTEGER DEFAULT 0,
+        ADD COLUMN IF NOT EXISTS owner_id UUID REFERENCES public.users(id);
+    `);
+  } catch (error) {
+    console.warn('[SQL] Warning adding renewal columns to vendor_contracts:', error.message);
+  }
+
+  // Purchase orders issued under a contract consume its value (contracts are created after POs)
+  try {
+    await client.query(`
+      ALTER TABLE public.purchase_orders
+        ADD COLUMN IF NOT EXISTS contract_id UUID REFERENCES public.vendor_contracts(id) ON DELETE SET NULL;
+      CREATE INDEX IF NOT EXISTS idx_purchase_orders_contract_id ON public.purchase_orders(contract_id);
+    `);
+  } catch (error) {
+    console.warn('[SQL] Warning adding contract_id to purchase_orders:', error.message);
+  }
+}
+
+/**
+ * Ensure vendor_contract_prices table exists
+ * Lines match PO items by product, or by description when the line has no product
+ */
+async function ensureVendorContractPricesTable(client) {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS public.vendor_contract_prices (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      contract_id UUID NOT NULL REFERENCES public.vendor_contracts(id) ON DELETE CASCADE,
+      product_id UUID REFERENCES public.products(id) ON DELETE CASCADE,
+      description TEXT NOT NULL,
+      unit_price DECIMAL(15,2) NOT NULL,
+      unit_of_measure VARCHAR(50),
+      min_quantity DECIMAL(10,2) DEFAULT 0,
+      notes TEXT,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    );
+  `);
+
+  await client.query(`
+    CREATE INDEX IF NOT EXISTS idx_vendor_contract_prices_contract_id ON public.vendor_contract_prices(contract_id);
+    CREATE INDEX IF NOT EXISTS idx_vendor_contract_prices_product_id ON public.vendor_contract_prices(product_id);
+  `);
+}
+
+/**
+ * Ensure vendor_contract_renewals table exists
+ */
+async function ensureVendorContractRenewalsTable(client) {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS public.vendor_contract_renewals (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      agency_id UUID NOT NULL,
+      contract_id UUID NOT NULL REFERENCES public.vendor_contracts(id) ON DELETE CASCADE,
+      renewal_type VARCHAR(20) NOT NULL, -- manual, auto
+      previous_end_date DATE,
+      new_end_date DATE NOT NULL,
+      previous_value DECIMAL(15,2),
+      new_value DECIMAL(15,2),
+      notes TEXT,
+      renewed_by UUID REFERENCES public.users(id),
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    );
+  `);
+
+  await client.query(`
+    CREATE INDEX IF NOT EXISTS idx_vendor_contract_renewals_contract_id ON public.vendor_contract_renewals(contract_id, created_at DESC);
+  `);
 }
 
 /**
@@ -498,6 +687,118 @@ async function ensureVendorInvoicesTable(client) {
     CREATE INDEX IF NOT EXISTS idx_vendor_invoices_status ON public.vendor_invoices(status);
     CREATE INDEX IF NOT EXISTS idx_vendor_invoices_payment_status ON public.vendor_invoices(payment_status);
   `);
+
+  try {
+    await client.query(`
+      ALTER TABLE public.vendor_invoices ADD COLUMN IF NOT EXISTS exchange_rate DECIMAL(18,8) DEFAULT 1;
+      ALTER TABLE public.vendor_invoices ADD COLUMN IF NOT EXISTS base_total_amount DECIMAL(15,2);
+    `);
+  } catch (error) {
+    console.warn('[SQL] Warning: Could not add currency columns to vendor_invoices:', error.message);
+  }
+
+  // invoice_number is the internal bill number; the supplier's own number is kept separately
+  try {
+    await client.query(`
+      ALTER TABLE public.vendor_invoices
+        ADD COLUMN IF NOT EXISTS supplier_invoice_number VARCHAR(100),
+        ADD COLUMN IF NOT EXISTS grn_id UUID REFERENCES public.goods_receipts(id) ON DELETE SET NULL,
+        ADD COLUMN IF NOT EXISTS supply_type VARCHAR(20) DEFAULT 'intra_state', -- intra_state, inter_state
+        ADD COLUMN IF NOT EXISTS place_of_supply VARCHAR(100),
+        ADD COLUMN IF NOT EXISTS match_status VARCHAR(50) DEFAULT 'unmatched', -- unmatched, matched, exception
+        ADD COLUMN IF NOT EXISTS match_summary JSONB DEFAULT '{}'::jsonb,
+        ADD COLUMN IF NOT EXISTS matched_at TIMESTAMP WITH TIME ZONE,
+        ADD COLUMN IF NOT EXISTS override_reason TEXT,
+        ADD COLUMN IF NOT EXISTS journal_entry_id UUID REFERENCES public.journal_entries(id) ON DELETE SET NULL,
+        ADD COLUMN IF NOT EXISTS gst_posted_at TIMESTAMP WITH TIME ZONE;
+      CREATE INDEX IF NOT EXISTS idx_vendor_invoices_grn_id ON public.vendor_invoices(grn_id);
+      CREATE INDEX IF NOT EXISTS idx_vendor_invoices_match_status ON public.vendor_invoices(match_status);
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_vendor_invoices_supplier_number
+        ON public.vendor_invoices(supplier_id, supplier_invoice_number)
+        WHERE supplier_invoice_number IS NOT NULL AND status <> 'cancelled';
+    `);
+  } catch (error) {
+    console.warn('[SQL] Warning adding matching columns to vendor_invoices:', error.message);
+  }
+
+  // Purchase GST posted from an approved bill points back at it (gst schema is created first)
+  try {
+    await client.query(`
+      ALTER TABLE public.gst_transactions
+        ADD COLUMN IF NOT EXISTS vendor_invoice_id UUID REFERENCES public.vendor_invoices(id) ON DELETE SET NULL;
+      CREATE INDEX IF NOT EXISTS idx_gst_transactions_vendor_invoice_id ON public.gst_transactions(vendor_invoice_id);
+    `);
+  } catch (error) {
+    console.warn('[SQL] Warning adding vendor_invoice_id to gst_transactions:', error.message);
+  }
+
+  // Create updated_at trigger
+  await client.query(`
+    DROP TRIGGER IF EXISTS update_vendor_invoices_updated_at ON public.vendor_invoices;
+    CREATE TRIGGER update_vendor_invoices_updated_at
+      BEFORE UPDATE ON public.vendor_invoices
+      FOR EACH ROW
+      EXECUTE FUNCTION public.update_updated_at_column();
+  `);
+}
+
+/**
+ * Ensure vendor_invoice_items table exists
+ */
+async function ensureVendorInvoiceItemsTable(client) {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS public.vendor_invoice_items (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      vendor_invoice_id UUID NOT NULL REFERENCES public.vendor_invoices(id) ON DELETE CASCADE,
+      po_item_id UUID REFERENCES public.purchase_order_items(id) ON DELETE SET NULL,
+      product_id UUID REFERENCES public.products(id),
+      description TEXT NOT NULL,
+      hsn_sac_code VARCHAR(20),
+      quantity DECIMAL(10,2) NOT NULL,
+      unit_price DECIMAL(15,2) NOT NULL,
+      taxable_value DECIMAL(15,2) GENERATED ALWAYS AS (quantity * unit_price) STORED,
+      gst_rate DECIMAL(5,2) DEFAULT 0,
+      tax_amount DECIMAL(15,2) DEFAULT 0,
+      match_status VARCHAR(50) DEFAULT 'unmatched', -- unmatched, matched, exception
+      match_notes TEXT[] DEFAULT '{}',
+      po_unit_price DECIMAL(15,2),
+      received_quantity DECIMAL(10,2),
+      previously_billed_quantity DECIMAL(10,2),
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    );
+  `);
+
+  // Add indexes
+  await client.query(`
+    CREATE INDEX IF NOT EXISTS idx_vendor_invoice_items_invoice_id ON public.vendor_invoice_items(vendor_invoice_id);
+    CREATE INDEX IF NOT EXISTS idx_vendor_invoice_items_po_item_id ON public.vendor_invoice_items(po_item_id);
+  `);
+}
+
+/**
+ * Ensure replenishment_runs table exists
+ * One row per conversion of a replenishment proposal, manual or scheduled
+ */
+async function ensureReplenishmentRunsTable(client) {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS public.replenishment_runs (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      agency_id UUID NOT NULL,
+      trigger_type VARCHAR(20) NOT NULL DEFAULT 'manual', -- manual, scheduled
+      output_type VARCHAR(50) NOT NULL, -- requisition, purchase_order
+      requisition_ids UUID[] DEFAULT '{}',
+      purchase_order_ids UUID[] DEFAULT '{}',
+      line_count INTEGER DEFAULT 0,
+      total_amount DECIMAL(15,2) DEFAULT 0,
+      skipped_lines JSONB DEFAULT '[]'::jsonb,
+      created_by UUID REFERENCES public.users(id),
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    );
+  `);
+
+  await client.query(`
+    CREATE INDEX IF NOT EXISTS idx_replenishment_runs_agency_created ON public.replenishment_runs(agency_id, created_at DESC);
+  `);
 }
 
 /**
@@ -529,12 +830,17 @@ async function ensureProcurementSchema(client) {
     await ensureGrnItemsTable(client);
     await ensureRfqRfpTable(client);
     await ensureRfqItemsTable(client);
+    await ensureRfqSuppliersTable(client);
     await ensureRfqResponsesTable(client);
     await ensureRfqResponseItemsTable(client);
     await ensureVendorContactsTable(client);
     await ensureVendorContractsTable(client);
+    await ensureVendorContractPricesTable(client);
+    await ensureVendorContractRenewalsTable(client);
     await ensureVendorPerformanceTable(client);
     await ensureVendorInvoicesTable(client);
+    await ensureVendorInvoiceItemsTable(client);
+    await ensureReplenishmentRunsTable(client);
     
     console.log('[SQL] ✅ Procurement management schema ensured');
   } catch (error) {
@@ -553,10 +859,15 @@ module.exports = {
   ensureGrnItemsTable,
   ensureRfqRfpTable,
   ensureRfqItemsTable,
+  ensureRfqSuppliersTable,
   ensureRfqResponsesTable,
   ensureRfqResponseItemsTable,
   ensureVendorContactsTable,
   ensureVendorContractsTable,
+  ensureVendorContractPricesTable,
+  ensureVendorContractRenewalsTable,
   ensureVendorPerformanceTable,
   ensureVendorInvoicesTable,
+  ensureVendorInvoiceItemsTable,
+  ensureReplenishmentRunsTable,
 };
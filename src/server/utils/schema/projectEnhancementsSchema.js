@@ -7,6 +7,7 @@
  * - project_issues: Issue tracking
  * - project_dependencies: Task dependencies for Gantt
  * - project_resources: Resource allocation
+ * - timesheets: Weekly timesheets submitted for approval, locking the week's time entries
  */
 
 /**
@@ -36,6 +37,19 @@ async function ensureProjectMilestonesTable(client) {
     CREATE INDEX IF NOT EXISTS idx_project_milestones_agency_id ON public.project_milestones(agency_id);
     CREATE INDEX IF NOT EXISTS idx_project_milestones_target_date ON public.project_milestones(target_date);
   `);
+
+  // Invoicing trigger: completing a billable milestone raises a draft invoice
+  try {
+    await client.query(`
+      ALTER TABLE public.project_milestones ADD COLUMN IF NOT EXISTS billing_amount NUMERIC(15, 2);
+      ALTER TABLE public.project_milestones ADD COLUMN IF NOT EXISTS billing_percentage NUMERIC(5, 2);
+      ALTER TABLE public.project_milestones ADD COLUMN IF NOT EXISTS invoice_trigger VARCHAR(30) DEFAULT 'none'; -- none, on_completion
+      ALTER TABLE public.project_milestones ADD COLUMN IF NOT EXISTS invoice_id UUID REFERENCES public.invoices(id) ON DELETE SET NULL;
+      ALTER TABLE public.project_milestones ADD COLUMN IF NOT EXISTS invoiced_at TIMESTAMP WITH TIME ZONE;
+    `);
+  } catch (error) {
+    console.warn('[SQL] Warning: Could not add invoicing columns to project_milestones:', error.message);
+  }
 }
 
 /**
@@ -118,6 +132,15 @@ async function ensureProjectIssuesTable(client) {
     CREATE INDEX IF NOT EXISTS idx_project_issues_priority ON public.project_issues(priority);
     CREATE INDEX IF NOT EXISTS idx_project_issues_assigned_to ON public.project_issues(assigned_to);
   `);
+
+  try {
+    await client.query(`
+      ALTER TABLE public.project_issues ADD COLUMN IF NOT EXISTS severity VARCHAR(20) DEFAULT 'medium'; -- low, medium, high, critical
+      ALTER TABLE public.project_issues ADD COLUMN IF NOT EXISTS resolved_by UUID REFERENCES public.users(id);
+    `);
+  } catch (error) {
+    console.warn('[SQL] Warning: Could not add severity columns to project_issues:', error.message);
+  }
 }
 
 /**
@@ -176,6 +199,113 @@ async function ensureProjectResourcesTable(client) {
   `);
 }
 
+/**
+ * Ensure timesheets table exists
+ * A submitted or approved week locks its task_time_tracking rows; approved billable
+ * entries are linked to the invoice they were billed on
+ */
+async function ensureTimesheetsTable(client) {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS public.timesheets (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      agency_id UUID NOT NULL,
+      employee_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+      week_start DATE NOT NULL, -- Monday
+      week_end DATE NOT NULL,
+      status VARCHAR(20) NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'submitted', 'approved', 'rejected')),
+      total_hours DECIMAL(10,2) DEFAULT 0,
+      billable_hours DECIMAL(10,2) DEFAULT 0,
+      notes TEXT,
+      submitted_at TIMESTAMP WITH TIME ZONE,
+      workflow_instance_id UUID,
+      decided_by UUID REFERENCES public.users(id),
+      decided_at TIMESTAMP WITH TIME ZONE,
+      decision_comments TEXT,
+      reminder_count INTEGER DEFAULT 0,
+      last_reminded_at TIMESTAMP WITH TIME ZONE,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      UNIQUE(employee_id, week_start)
+    );
+  `);
+
+  // Add indexes
+  await client.query(`
+    CREATE INDEX IF NOT EXISTS idx_timesheets_agency_id ON public.timesheets(agency_id);
+    CREATE INDEX IF NOT EXISTS idx_timesheets_week_start ON public.timesheets(week_start);
+    CREATE INDEX IF NOT EXISTS idx_timesheets_status ON public.timesheets(status);
+  `);
+
+  try {
+    await client.query(`
+      ALTER TABLE public.task_time_tracking ADD COLUMN IF NOT EXISTS timesheet_id UUID REFERENCES public.timesheets(id) ON DELETE SET NULL;
+      ALTER TABLE public.task_time_tracking ADD COLUMN IF NOT EXISTS invoice_id UUID REFERENCES public.invoices(id) ON DELETE SET NULL;
+      ALTER TABLE public.task_time_tracking ADD COLUMN IF NOT EXISTS invoiced_at TIMESTAMP WITH TIME ZONE;
+      CREATE INDEX IF NOT EXISTS idx_task_time_tracking_invoice_id ON public.task_time_tracking(invoice_id);
+    `);
+  } catch (error) {
+    console.warn('[SQL] Warning: Could not add timesheet columns to task_time_tracking:', error.message);
+  }
+
+  // Time in a submitted or approved week cannot be added, changed or removed. Linking entries
+  // to their timesheet or invoice is still allowed, as is the cascade when a task is deleted.
+  await client.query(`
+    CREATE OR REPLACE FUNCTION public.prevent_locked_timesheet_changes()
+    RETURNS TRIGGER AS $$
+    BEGIN
+      IF TG_OP = 'UPDATE'
+        AND NEW.task_id = OLD.task_id AND NEW.user_id = OLD.user_id AND NEW.date = OLD.date
+        AND NEW.hours_logged = OLD.hours_logged
+        AND NEW.billable IS NOT DISTINCT FROM OLD.billable
+        AND NEW.hourly_rate IS NOT DISTINCT FROM OLD.hourly_rate THEN
+        RETURN NEW;
+      END IF;
+
+      IF TG_OP IN ('UPDATE', 'DELETE') THEN
+        IF TG_OP = 'DELETE' AND NOT EXISTS (SELECT 1 FROM public.tasks WHERE id = OLD.task_id) THEN
+          RETURN OLD;
+        END IF;
+        IF EXISTS (
+          SELECT 1 FROM public.timesheets t
+          WHERE t.employee_id = OLD.user_id AND OLD.date BETWEEN t.week_start AND t.week_end
+            AND t.status IN ('submitted', 'approved')
+        ) THEN
+          RAISE EXCEPTION 'Time for % is locked: the timesheet for that week has been submitted', OLD.date;
+        END IF;
+      END IF;
+
+      IF TG_OP IN ('INSERT', 'UPDATE') THEN
+        IF EXISTS (
+          SELECT 1 FROM public.timesheets t
+          WHERE t.employee_id = NEW.user_id AND NEW.date BETWEEN t.week_start AND t.week_end
+            AND t.status IN ('submitted', 'approved')
+        ) THEN
+          RAISE EXCEPTION 'Time for % is locked: the timesheet for that week has been submitted', NEW.date;
+        END IF;
+        RETURN NEW;
+      END IF;
+
+      RETURN OLD;
+    END;
+    $$ LANGUAGE plpgsql;
+
+    DROP TRIGGER IF EXISTS lock_submitted_timesheet_entries ON public.task_time_tracking;
+    CREATE TRIGGER lock_submitted_timesheet_entries
+      BEFORE INSERT OR UPDATE OR DELETE ON public.task_time_tracking
+      FOR EACH ROW
+      EXECUTE FUNCTION public.prevent_locked_timesheet_changes();
+  `);
+
+  // Create updated_at trigger
+  await client.query(`
+    DROP TRIGGER IF EXISTS update_timesheets_updated_at ON public.timesheets;
+    CREATE TRIGGER update_timesheets_updated_at
+      BEFORE UPDATE ON public.timesheets
+      FOR EACH ROW
+      EXECUTE FUNCTION public.update_updated_at_column();
+  `);
+}
+
 /**
  * Ensure all project enhancement tables
  */
@@ -188,6 +318,7 @@ async function ensureProjectEnhancementsSchema(client) {
     await ensureProjectIssuesTable(client);
     await ensureProjectDependenciesTable(client);
     await ensureProjectResourcesTable(client);
+    await ensureTimesheetsTable(client);
     
     console.log('[SQL] ✅ Advanced project management schema ensured');
   } catch (error) {
@@ -203,4 +334,5 @@ module.exports = {
   ensureProjectIssuesTable,
   ensureProjectDependenciesTable,
   ensureProjectResourcesTable,
+  ensureTimesheetsTable,
 };
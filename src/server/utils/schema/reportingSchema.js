@@ -240,6 +240,25 @@ async function ensureReportExecutionsTable(client) {
     );
   `);
 
+  // Export metadata used by the report exports listing and downloads
+  await client.query(`
+    DO $$
+    BEGIN
+      ALTER TABLE public.report_executions ADD COLUMN IF NOT EXISTS name VARCHAR(255);
+      ALTER TABLE public.report_executions ADD COLUMN IF NOT EXISTS report_type VARCHAR(100);
+      ALTER TABLE public.report_executions ADD COLUMN IF NOT EXISTS format VARCHAR(20);
+      ALTER TABLE public.report_executions ADD COLUMN IF NOT EXISTS file_name TEXT;
+      ALTER TABLE public.report_executions ADD COLUMN IF NOT EXISTS mime_type VARCHAR(100);
+      ALTER TABLE public.report_executions ADD COLUMN IF NOT EXISTS generated_by UUID REFERENCES public.users(id);
+      ALTER TABLE public.report_executions ADD COLUMN IF NOT EXISTS generated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+      ALTER TABLE public.report_executions ADD COLUMN IF NOT EXISTS download_count INTEGER DEFAULT 0;
+      ALTER TABLE public.report_executions ADD COLUMN IF NOT EXISTS expires_at TIMESTAMP WITH TIME ZONE;
+    EXCEPTION
+      WHEN OTHERS THEN
+        RAISE NOTICE 'Error adding columns to report_executions table: %', SQLERRM;
+    END $$;
+  `);
+
   // Add indexes
   await client.query(`
     CREATE INDEX IF NOT EXISTS idx_report_executions_agency_id ON public.report_executions(agency_id);
@@ -247,6 +266,7 @@ async function ensureReportExecutionsTable(client) {
     CREATE INDEX IF NOT EXISTS idx_report_executions_schedule_id ON public.report_executions(schedule_id);
     CREATE INDEX IF NOT EXISTS idx_report_executions_status ON public.report_executions(status);
     CREATE INDEX IF NOT EXISTS idx_report_executions_created_at ON public.report_executions(created_at);
+    CREATE INDEX IF NOT EXISTS idx_report_executions_generated_at ON public.report_executions(generated_at);
   `);
 }
 
@@ -342,7 +342,7 @@ async function createAgencySchema(client) {
     console.log('[SQL] Step 18.5.5/22: Ensuring Slack integration schema...');
     await ensureSlackIntegrationSchema(client);
 
-    // Step 18.6: Asset Management (depends on suppliers, users, departments)
+    // Step 18.6: Asset Management (depends on suppliers, users, departments, inventory)
     console.log('[SQL] Step 18.6/22: Ensuring asset management schema...');
     await ensureAssetManagementSchema(client);
 
@@ -367,7 +367,7 @@ async function createAgencySchema(client) {
     // Step 20: Updated_at triggers for all tables with updated_at column
     console.log('[SQL] Step 20/22: Ensuring updated_at triggers...');
     const tablesWithUpdatedAt = [
-      'chart_of_accounts', 'quotations', 'quotation_templates', 'quotation_line_items',
+      'chart_of_accounts', 'quotations', 'quotation_templates', 'quotation_line_items', 'invoice_line_items',
       'tasks', 'task_assignments', 'task_comments', 'task_time_tracking',
       'leave_types', 'leave_requests', 'payroll_periods', 'payroll',
       'employee_salary_details', 'employee_files',
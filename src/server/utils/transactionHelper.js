@@ -106,9 +106,50 @@ async function withTransactionRetry(poolOrClient, callback, options = {}) {
   throw lastError;
 }
 
+/**
+ * Run an optional step whose failure must not abort the surrounding transaction
+ * Inside a transaction the step runs under a savepoint that is rolled back if it throws;
+ * on a connection in autocommit mode, where savepoints are not allowed, it runs as is.
+ * The step's error is rethrown either way.
+ *
+ * @param {Client} client - Database client
+ * @param {Function} callback - Async function that receives the client
+ * @returns {Promise<any>} Result from callback function
+ *
+ * @example
+ * try {
+ *   await withSavepoint(client, (c) => c.query('INSERT INTO notifications ...'));
+ * } catch (error) {
+ *   console.warn('Notification skipped:', error.message);
+ * }
+ */
+async function withSavepoint(client, callback) {
+  let inTransaction = true;
+  try {
+    await client.query('SAVEPOINT optional_step');
+  } catch (error) {
+    // no_active_sql_transaction
+    if (error.code !== '25P01') throw error;
+    inTransaction = false;
+  }
+
+  try {
+    const result = await callback(client);
+    if (inTransaction) await client.query('RELEASE SAVEPOINT optional_step');
+    return result;
+  } catch (error) {
+    if (inTransaction) {
+      await client.query('ROLLBACK TO SAVEPOINT optional_step');
+      await client.query('RELEASE SAVEPOINT optional_step');
+    }
+    throw error;
+  }
+}
+
 module.exports = {
   withTransaction,
   executeInTransaction,
   withTransactionRetry,
+  withSavepoint,
 };
 
@@ -29,6 +29,11 @@ export interface Asset {
   department_id?: string;
   assigned_to?: string;
   assigned_to_email?: string;
+  custody_id?: string | null;
+  custody_number?: string | null;
+  custodian_type?: CustodianType | null;
+  custodian_label?: string | null;
+  custody_expected_return_date?: string | null;
   purchase_date?: string;
   purchase_cost: number;
   current_value: number;
@@ -36,6 +41,9 @@ export interface Asset {
   useful_life_years?: number;
   depreciation_method?: string;
   depreciation_rate?: number;
+  depreciation_start_date?: string;
+  total_units?: number;
+  units_used?: number;
   status: 'active' | 'maintenance' | 'disposed' | 'written_off';
   condition_status?: 'excellent' | 'good' | 'fair' | 'poor';
   serial_number?: string;
@@ -112,11 +120,189 @@ export interface MaintenanceRecord {
   next_maintenance_date?: string;
   performed_by?: string;
   performed_by_email?: string;
+  plan_id?: string | null;
+  plan_title?: string | null;
+  assigned_to?: string | null;
+  assigned_to_name?: string | null;
+  usage_reading?: number | null;
+  parts_cost?: number;
+  escalation_level?: number;
+  escalated_at?: string | null;
   created_by?: string;
   created_at: string;
   updated_at: string;
 }
 
+export type MaintenanceTriggerType = 'interval' | 'usage' | 'calendar';
+export type MaintenanceCalendarFrequency = 'monthly' | 'quarterly' | 'semi_annual' | 'yearly';
+
+export interface MaintenancePlanPart {
+  id?: string;
+  product_id: string;
+  variant_id?: string | null;
+  quantity: number;
+  product_name?: string;
+  sku?: string;
+}
+
+export interface MaintenancePlanAsset {
+  asset_id: string;
+  asset_number: string;
+  name: string;
+  last_completed_date: string | null;
+  next_due_date: string | null;
+  due_usage: number | null;
+  current_usage: number | null;
+  open_order_id: string | null;
+  open_order_status: MaintenanceRecord['status'] | null;
+}
+
+export interface MaintenancePlan {
+  id: string;
+  agency_id: string;
+  asset_id: string | null;
+  asset_number?: string | null;
+  asset_name?: string | null;
+  category_id: string | null;
+  category_name?: string | null;
+  title: string;
+  description?: string | null;
+  trigger_type: MaintenanceTriggerType;
+  interval_days: number | null;
+  usage_interval: number | null;
+  calendar_frequency: MaintenanceCalendarFrequency | null;
+  calendar_day: number | null;
+  calendar_month: number | null;
+  start_date: string;
+  lead_days: number | null;
+  priority: MaintenanceRecord['priority'];
+  estimated_hours: number | null;
+  assigned_to: string | null;
+  assigned_to_name?: string | null;
+  vendor_id: string | null;
+  vendor_name?: string | null;
+  is_active: boolean;
+  last_generated_at: string | null;
+  open_orders: number;
+  last_completed_date: string | null;
+  parts: MaintenancePlanPart[];
+  assets?: MaintenancePlanAsset[];
+  created_by?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface MaintenancePlanInput {
+  title: string;
+  description?: string;
+  asset_id?: string | null;
+  category_id?: string | null;
+  trigger_type: MaintenanceTriggerType;
+  interval_days?: number | null;
+  usage_interval?: number | null;
+  calendar_frequency?: MaintenanceCalendarFrequency | null;
+  calendar_day?: number | null;
+  calendar_month?: number | null;
+  start_date?: string;
+  lead_days?: number | null;
+  priority?: MaintenanceRecord['priority'];
+  estimated_hours?: number | null;
+  assigned_to?: string | null;
+  vendor_id?: string | null;
+  is_active?: boolean;
+  parts?: MaintenancePlanPart[];
+}
+
+export interface WorkOrderPart {
+  id: string;
+  maintenance_id: string;
+  product_id: string;
+  product_name: string;
+  sku?: string;
+  variant_id: string | null;
+  warehouse_id: string;
+  warehouse_name?: string;
+  quantity: number;
+  unit_cost: number;
+  total_cost: number;
+  created_at: string;
+}
+
+export interface WorkOrderCompletion {
+  completed_date?: string;
+  labor_hours?: number | null;
+  labor_cost?: number;
+  usage_reading?: number | null;
+  notes?: string;
+  parts?: Array<{
+    product_id: string;
+    variant_id?: string | null;
+    warehouse_id: string;
+    quantity: number;
+  }>;
+}
+
+export type CustodianType = 'employee' | 'project' | 'location';
+export type AssetCondition = 'excellent' | 'good' | 'fair' | 'poor';
+
+export interface AssetCustodyAttachment {
+  file_name: string;
+  file_path: string;
+  file_type?: string;
+  file_size?: number;
+}
+
+export interface AssetCustodyRecord {
+  id: string;
+  agency_id: string;
+  asset_id: string;
+  asset_number?: string;
+  asset_name?: string;
+  custody_number: string;
+  custodian_type: CustodianType;
+  custodian_user_id?: string | null;
+  custodian_name?: string | null;
+  custodian_email?: string | null;
+  project_id?: string | null;
+  project_name?: string | null;
+  location_id?: string | null;
+  location_name?: string | null;
+  status: 'checked_out' | 'returned';
+  checked_out_at: string;
+  checked_out_by?: string | null;
+  checked_out_by_name?: string | null;
+  expected_return_date?: string | null;
+  checkout_condition?: AssetCondition | null;
+  checkout_notes?: string | null;
+  checked_in_at?: string | null;
+  checked_in_by?: string | null;
+  checked_in_by_name?: string | null;
+  return_condition?: AssetCondition | null;
+  return_notes?: string | null;
+  attachments: AssetCustodyAttachment[];
+  reminder_count: number;
+  last_reminded_at?: string | null;
+  is_overdue: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AssetCheckOutInput {
+  custodian_type: CustodianType;
+  custodian_user_id?: string;
+  project_id?: string;
+  location_id?: string;
+  expected_return_date?: string;
+  checkout_condition?: AssetCondition;
+  checkout_notes?: string;
+}
+
+export interface AssetCheckInInput {
+  return_condition?: AssetCondition;
+  return_notes?: string;
+  attachments?: AssetCustodyAttachment[];
+}
+
 export interface DepreciationRecord {
   id: string;
   agency_id: string;
@@ -136,10 +322,102 @@ export interface DepreciationRecord {
   posted_by?: string;
   posted_by_email?: string;
   notes?: string;
+  run_id?: string;
+  units_consumed?: number;
   created_at: string;
   updated_at: string;
 }
 
+export type DepreciationMethod = DepreciationRecord['depreciation_method'];
+
+export interface DepreciationSchedulePeriod {
+  period_start: string;
+  period_end: string;
+  depreciation_amount: number;
+  accumulated_depreciation: number;
+  book_value: number;
+  status: 'posted' | 'recorded' | 'projected';
+  depreciation_id: string | null;
+  run_id: string | null;
+}
+
+export interface DepreciationSchedule {
+  asset: {
+    id: string;
+    asset_number: string;
+    name: string;
+    status: Asset['status'];
+    purchase_cost: number;
+    residual_value: number;
+    current_value: number;
+    method: DepreciationMethod;
+    useful_life_years: number | null;
+    start_date: string | null;
+    life_end_date: string | null;
+    disposal_date: string | null;
+    total_units: number | null;
+    units_used: number;
+    accumulated_depreciation: number;
+    book_value: number;
+  };
+  unschedulable_reason: string | null;
+  periods: DepreciationSchedulePeriod[];
+}
+
+export interface DepreciationRunLine {
+  asset_id: string;
+  asset_number: string;
+  name: string;
+  period_start: string;
+  period_end: string;
+  method: DepreciationMethod;
+  depreciation_amount: number;
+  units_consumed: number | null;
+  days: number;
+  pro_rated: boolean;
+  accumulated_depreciation: number;
+  book_value: number;
+}
+
+export interface DepreciationRunSkip {
+  asset_id: string;
+  asset_number: string;
+  name: string;
+  reason: string;
+}
+
+export interface DepreciationRunPreview {
+  period_start: string;
+  period_end: string;
+  existing_run_number: string | null;
+  lines: DepreciationRunLine[];
+  skipped: DepreciationRunSkip[];
+  asset_count: number;
+  total_amount: number;
+}
+
+export interface DepreciationRun {
+  id: string;
+  agency_id: string;
+  run_number: string;
+  period_start: string;
+  period_end: string;
+  status: 'posted';
+  trigger_type: 'manual' | 'scheduled';
+  asset_count: number;
+  skipped_count: number;
+  total_amount: number;
+  journal_entry_id?: string;
+  journal_entry_number?: string;
+  notes?: string;
+  run_by?: string;
+  run_by_email?: string;
+  created_at: string;
+  updated_at: string;
+  lines?: DepreciationRunLine[];
+  skipped?: DepreciationRunSkip[];
+}
+
 /**
  * Get all assets
  */
@@ -611,6 +889,109 @@ export async function deleteDepreciation(depreciationId: string): Promise<void>
   }
 }
 
+/**
+ * Get the depreciation schedule and book value over time for an asset
+ */
+export async function getDepreciationSchedule(assetId: string): Promise<DepreciationSchedule> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/assets/${assetId}/depreciation-schedule`, {
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch depreciation schedule' }));
+    throw new Error(error.error || 'Failed to fetch depreciation schedule');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Get all depreciation runs
+ */
+export async function getDepreciationRuns(): Promise<DepreciationRun[]> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/assets/depreciation/runs`, {
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch depreciation runs' }));
+    throw new Error(error.error || 'Failed to fetch depreciation runs');
+  }
+
+  const result = await response.json();
+  return result.data || [];
+}
+
+/**
+ * Preview the depreciation a run would post for a period (YYYY-MM)
+ */
+export async function previewDepreciationRun(period: string): Promise<DepreciationRunPreview> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/assets/depreciation/runs/preview?period=${encodeURIComponent(period)}`, {
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to preview depreciation run' }));
+    throw new Error(error.error || 'Failed to preview depreciation run');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Run and post depreciation for all assets for a period (YYYY-MM)
+ */
+export async function runDepreciation(period: string, notes?: string): Promise<DepreciationRun> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/assets/depreciation/runs`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+    body: JSON.stringify({ period, notes }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to run depreciation' }));
+    throw new Error(error.error || 'Failed to run depreciation');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
 /**
  * Get all maintenance records (with optional filters)
  */
@@ -619,6 +1000,7 @@ export async function getAllMaintenance(filters?: {
   status?: string;
   maintenance_type?: string;
   priority?: string;
+  plan_id?: string;
   search?: string;
 }): Promise<MaintenanceRecord[]> {
   const token = getAuthToken();
@@ -631,6 +1013,7 @@ export async function getAllMaintenance(filters?: {
   if (filters?.status) queryParams.append('status', filters.status);
   if (filters?.maintenance_type) queryParams.append('maintenance_type', filters.maintenance_type);
   if (filters?.priority) queryParams.append('priority', filters.priority);
+  if (filters?.plan_id) queryParams.append('plan_id', filters.plan_id);
   if (filters?.search) queryParams.append('search', filters.search);
 
   const response = await fetch(`${API_BASE}/api/assets/maintenance?${queryParams.toString()}`, {
@@ -753,6 +1136,368 @@ export async function deleteMaintenance(maintenanceId: string): Promise<void> {
   }
 }
 
+/**
+ * Complete a work order, issuing the parts used from inventory
+ */
+export async function completeWorkOrder(maintenanceId: string, completion: WorkOrderCompletion): Promise<MaintenanceRecord> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/assets/maintenance/${maintenanceId}/complete`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+    body: JSON.stringify(completion),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to complete work order' }));
+    throw new Error(error.error || 'Failed to complete work order');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Get the parts issued to a work order
+ */
+export async function getWorkOrderParts(maintenanceId: string): Promise<WorkOrderPart[]> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/assets/maintenance/${maintenanceId}/parts`, {
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch work order parts' }));
+    throw new Error(error.error || 'Failed to fetch work order parts');
+  }
+
+  const result = await response.json();
+  return result.data || [];
+}
+
+/**
+ * Get preventive maintenance plans
+ */
+export async function getMaintenancePlans(filters?: {
+  asset_id?: string;
+  is_active?: boolean;
+}): Promise<MaintenancePlan[]> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const queryParams = new URLSearchParams();
+  if (filters?.asset_id) queryParams.append('asset_id', filters.asset_id);
+  if (filters?.is_active !== undefined) queryParams.append('is_active', String(filters.is_active));
+
+  const response = await fetch(`${API_BASE}/api/assets/maintenance-plans?${queryParams.toString()}`, {
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch maintenance plans' }));
+    throw new Error(error.error || 'Failed to fetch maintenance plans');
+  }
+
+  const result = await response.json();
+  return result.data || [];
+}
+
+/**
+ * Get a maintenance plan with the next due date of each asset it covers
+ */
+export async function getMaintenancePlan(planId: string): Promise<MaintenancePlan> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/assets/maintenance-plans/${planId}`, {
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch maintenance plan' }));
+    throw new Error(error.error || 'Failed to fetch maintenance plan');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Create a maintenance plan
+ */
+export async function createMaintenancePlan(planData: MaintenancePlanInput): Promise<MaintenancePlan> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/assets/maintenance-plans`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+    body: JSON.stringify(planData),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to create maintenance plan' }));
+    throw new Error(error.error || 'Failed to create maintenance plan');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Update a maintenance plan
+ */
+export async function updateMaintenancePlan(planId: string, planData: Partial<MaintenancePlanInput>): Promise<MaintenancePlan> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/assets/maintenance-plans/${planId}`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+    body: JSON.stringify(planData),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to update maintenance plan' }));
+    throw new Error(error.error || 'Failed to update maintenance plan');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Delete a maintenance plan
+ */
+export async function deleteMaintenancePlan(planId: string): Promise<void> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/assets/maintenance-plans/${planId}`, {
+    method: 'DELETE',
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to delete maintenance plan' }));
+    throw new Error(error.error || 'Failed to delete maintenance plan');
+  }
+}
+
+/**
+ * Raise work orders for plans due within their lead time
+ */
+export async function generateMaintenanceWorkOrders(planId?: string): Promise<{
+  created: number;
+  work_orders: Array<{ id: string; plan_id: string; asset_id: string; due_date: string }>;
+}> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/assets/maintenance-plans/generate`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+    body: JSON.stringify({ plan_id: planId }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to generate work orders' }));
+    throw new Error(error.error || 'Failed to generate work orders');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Get custody records
+ */
+export async function getCustodyRecords(filters?: {
+  asset_id?: string;
+  status?: AssetCustodyRecord['status'];
+  custodian_user_id?: string;
+  overdue?: boolean;
+}): Promise<AssetCustodyRecord[]> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const queryParams = new URLSearchParams();
+  if (filters?.asset_id) queryParams.append('asset_id', filters.asset_id);
+  if (filters?.status) queryParams.append('status', filters.status);
+  if (filters?.custodian_user_id) queryParams.append('custodian_user_id', filters.custodian_user_id);
+  if (filters?.overdue) queryParams.append('overdue', 'true');
+
+  const response = await fetch(`${API_BASE}/api/assets/custody?${queryParams.toString()}`, {
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch custody records' }));
+    throw new Error(error.error || 'Failed to fetch custody records');
+  }
+
+  const result = await response.json();
+  return result.data || [];
+}
+
+/**
+ * Get the custody timeline of an asset, newest first
+ */
+export async function getAssetCustodyTimeline(assetId: string): Promise<AssetCustodyRecord[]> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/assets/${assetId}/custody`, {
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch custody timeline' }));
+    throw new Error(error.error || 'Failed to fetch custody timeline');
+  }
+
+  const result = await response.json();
+  return result.data || [];
+}
+
+/**
+ * Get the assets an employee has not returned
+ */
+export async function getUnreturnedAssets(userId: string): Promise<AssetCustodyRecord[]> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/assets/custody/employees/${userId}/unreturned`, {
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch unreturned assets' }));
+    throw new Error(error.error || 'Failed to fetch unreturned assets');
+  }
+
+  const result = await response.json();
+  return result.data || [];
+}
+
+/**
+ * Check an asset out to an employee, project or location
+ */
+export async function checkOutAsset(assetId: string, checkout: AssetCheckOutInput): Promise<AssetCustodyRecord> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/assets/${assetId}/check-out`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+    body: JSON.stringify(checkout),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to check out asset' }));
+    throw new Error(error.error || 'Failed to check out asset');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Check an asset back in
+ */
+export async function checkInAsset(custodyId: string, checkin: AssetCheckInInput): Promise<AssetCustodyRecord> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/assets/custody/${custodyId}/check-in`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+    body: JSON.stringify(checkin),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to check in asset' }));
+    throw new Error(error.error || 'Failed to check in asset');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
 export interface DisposalRecord {
   id: string;
   agency_id: string;
@@ -968,6 +1713,7 @@ export interface AssetReports {
     total_purchase_cost?: number;
     total_current_value?: number;
     total_depreciation?: number;
+    total_maintenance_cost?: number;
   };
   assets_by_status: Array<{
     status: string;
@@ -992,6 +1738,22 @@ export interface AssetReports {
     maintenance_type: string;
     count: number;
     total_cost: number;
+    parts_cost: number;
+    labor_hours: number;
+  }>;
+  maintenance_reliability: Array<{
+    id: string;
+    asset_number: string;
+    name: string;
+    failures: number;
+    planned_jobs: number;
+    days_in_service: number;
+    mtbf_days: number | null;
+    mttr_hours: number | null;
+    preventive_cost: number;
+    corrective_cost: number;
+    parts_cost: number;
+    total_cost: number;
   }>;
   top_assets: Array<{
     id: string;
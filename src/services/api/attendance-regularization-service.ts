@@ -0,0 +1,155 @@
+/**
+ * Attendance Regularization Service
+ * Frontend API client for employee requests to correct missed punches, on-duty and work-from-home days
+ */
+
+import { getApiBaseUrl } from '@/config/api';
+
+const API_BASE = getApiBaseUrl();
+
+// Storage bucket for documents supporting a regularization request
+export const ATTENDANCE_EVIDENCE_BUCKET = 'attendance-evidence';
+
+export type RegularizationType = 'missed_punch' | 'on_duty' | 'work_from_home';
+
+export type RegularizationStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
+
+export const REGULARIZATION_TYPE_LABELS: Record<RegularizationType, string> = {
+  missed_punch: 'Missed punch',
+  on_duty: 'On duty',
+  work_from_home: 'Work from home',
+};
+
+export interface RegularizationEvidence {
+  file_name: string;
+  file_path: string;
+  file_type: string;
+  file_size: number;
+}
+
+export interface AttendanceRegularization {
+  id: string;
+  employee_id: string;
+  employee_name?: string | null;
+  attendance_date: string;
+  request_type: RegularizationType;
+  requested_check_in: string | null;
+  requested_check_out: string | null;
+  reason: string;
+  evidence: RegularizationEvidence[];
+  status: RegularizationStatus;
+  workflow_instance_id: string | null;
+  attendance_id: string | null;
+  // The punch the approved request replaced
+  original_check_in: string | null;
+  original_check_out: string | null;
+  original_status: string | null;
+  original_total_hours: number | null;
+  current_check_in?: string | null;
+  current_check_out?: string | null;
+  // Approvers the request is waiting on
+  pending_with?: string | null;
+  decided_by_name?: string | null;
+  decided_at: string | null;
+  decision_comments: string | null;
+  created_at: string;
+}
+
+export interface RegularizationInput {
+  attendance_date: string;
+  request_type: RegularizationType;
+  requested_check_in?: string | null;
+  requested_check_out?: string | null;
+  reason: string;
+  evidence: RegularizationEvidence[];
+}
+
+/**
+ * Get authentication token from localStorage
+ */
+function getAuthToken(): string | null {
+  return localStorage.getItem('auth_token');
+}
+
+/**
+ * Get the current user's regularization requests
+ */
+export async function getMyRegularizations(status?: RegularizationStatus): Promise<AttendanceRegularization[]> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const params = new URLSearchParams();
+  if (status) params.append('status', status);
+
+  const response = await fetch(`${API_BASE}/api/hr/attendance/regularizations?${params.toString()}`, {
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch regularization requests' }));
+    throw new Error(error.error || 'Failed to fetch regularization requests');
+  }
+
+  const result = await response.json();
+  return result.data || [];
+}
+
+/**
+ * Raise a regularization request; it is sent to the employee's manager for approval
+ */
+export async function createRegularization(input: RegularizationInput): Promise<AttendanceRegularization> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/hr/attendance/regularizations`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+    body: JSON.stringify(input),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to submit regularization request' }));
+    throw new Error(error.error || error.message || 'Failed to submit regularization request');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Withdraw a pending regularization request
+ */
+export async function cancelRegularization(regularizationId: string): Promise<AttendanceRegularization> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/hr/attendance/regularizations/${regularizationId}/cancel`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to cancel regularization request' }));
+    throw new Error(error.error || error.message || 'Failed to cancel regularization request');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
@@ -9,6 +9,7 @@ import {
   rawQueryOne
 } from './postgresql-service';
 import { generateUUID } from '@/lib/uuid';
+import { clockInToShift, clockOutOfShift, type ShiftAttendanceRecord } from './shift-service';
 
 export interface AttendanceRecord {
   id: string;
@@ -22,6 +23,11 @@ export interface AttendanceRecord {
   status: 'present' | 'absent' | 'late' | 'half_day' | 'on_leave';
   notes: string | null;
   agency_id: string;
+  shift_id?: string | null;
+  scheduled_start?: string | null;
+  scheduled_end?: string | null;
+  late_minutes?: number | null;
+  early_out_minutes?: number | null;
   created_at: string;
   updated_at?: string;
 }
@@ -241,81 +247,16 @@ export async function deleteAttendance(id: string): Promise<number> {
   return deleteRecord('attendance', { id });
 }
 
-// Clock in helper
-export async function clockIn(
-  employeeId: string,
-  agencyId: string,
-  location?: string
-): Promise<AttendanceRecord> {
-  const today = new Date().toISOString().split('T')[0];
-  
-  // Check if already clocked in today
-  const existing = await getTodayAttendance(employeeId);
-  if (existing && existing.check_in_time) {
-    throw new Error('Already clocked in today');
-  }
-
-  // Determine if late (after 9:30 AM)
-  const now = new Date();
-  const lateThreshold = new Date();
-  lateThreshold.setHours(9, 30, 0, 0);
-  
-  const isLate = now > lateThreshold;
-
-  return createAttendance({
-    employee_id: employeeId,
-    date: today,
-    check_in_time: now.toISOString(),
-    location,
-    status: isLate ? 'late' : 'present',
-    agency_id: agencyId
-  });
+// Clock in helper - the server clocks in the signed-in employee and marks late
+// arrival against their rostered shift
+export async function clockIn(location?: string): Promise<ShiftAttendanceRecord> {
+  return clockInToShift({ location });
 }
 
-// Clock out helper
-export async function clockOut(
-  employeeId: string,
-  location?: string
-): Promise<AttendanceRecord> {
-  const today = await getTodayAttendance(employeeId);
-  
-  if (!today) {
-    throw new Error('No clock-in record found for today');
-  }
-  
-  if (!today.check_in_time) {
-    throw new Error('Not clocked in today');
-  }
-  
-  if (today.check_out_time) {
-    throw new Error('Already clocked out today');
-  }
-
-  const now = new Date();
-  const checkIn = new Date(today.check_in_time);
-  
-  // Calculate hours worked
-  const diffMs = now.getTime() - checkIn.getTime();
-  const totalHours = Math.round((diffMs / (1000 * 60 * 60)) * 100) / 100;
-  
-  // Calculate overtime (anything over 9 hours)
-  const overtimeHours = totalHours > 9 ? Math.round((totalHours - 9) * 100) / 100 : 0;
-  
-  // Determine if half day (less than 4 hours)
-  const isHalfDay = totalHours < 4;
-  
-  // Update location to include both in and out
-  const locationString = today.location && location
-    ? `In: ${today.location} | Out: ${location}`
-    : location || today.location;
-
-  return updateAttendance(today.id, {
-    check_out_time: now.toISOString(),
-    total_hours: totalHours,
-    overtime_hours: overtimeHours,
-    location: locationString,
-    status: isHalfDay ? 'half_day' : today.status
-  });
+// Clock out helper - hours, early-out and overtime are measured against the rostered
+// shift, falling back to a 9 hour day when none is rostered
+export async function clockOut(location?: string): Promise<ShiftAttendanceRecord> {
+  return clockOutOfShift({ location });
 }
 
 // Get team attendance for a date (for managers/HR)
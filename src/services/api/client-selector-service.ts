@@ -30,6 +30,9 @@ export interface ClientOption {
   status: string;
   industry: string | null;
   payment_terms: string | null;
+  state?: string | null;
+  billing_state?: string | null;
+  tax_id?: string | null;
   is_active: boolean;
 }
 
@@ -161,6 +164,9 @@ export async function getClientsForSelection(
       status: client.status || 'active',
       industry: client.industry,
       payment_terms: client.payment_terms,
+      state: client.state,
+      billing_state: client.billing_state,
+      tax_id: client.tax_id,
       is_active: client.is_active !== false
     }));
 
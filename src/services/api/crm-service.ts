@@ -5,6 +5,9 @@
 
 import { selectRecords, selectOne, insertRecord, updateRecord, deleteRecord, queryMany } from './postgresql-service';
 import { getAgencyId } from '@/utils/agencyUtils';
+import { getApiBaseUrl } from '@/config/api';
+
+const API_BASE = getApiBaseUrl();
 
 export interface Lead {
   id: string;
@@ -29,6 +32,174 @@ export interface Lead {
   created_at: string;
   updated_at: string;
   agency_id: string;
+  score?: number | null;
+  score_breakdown?: LeadScoreBreakdownItem[] | null;
+}
+
+export type LeadScoringFactor =
+  | 'source'
+  | 'estimated_value'
+  | 'activity_recency'
+  | 'activity_frequency'
+  | 'stage_age'
+  | 'email_engagement';
+
+export interface LeadScoreBreakdownItem {
+  rule_id: string | null;
+  rule_name: string;
+  factor: LeadScoringFactor;
+  weight: number;
+  points: number;
+  max_points: number;
+  detail: string;
+}
+
+export interface LeadScore {
+  lead_id: string;
+  score: number;
+  score_breakdown: LeadScoreBreakdownItem[] | null;
+  last_calculated_at: string;
+}
+
+export interface LeadScoringRuleConfig {
+  scores?: Record<string, number>;
+  default_score?: number;
+  bands?: { min: number; score: number }[];
+  [setting: string]: unknown;
+}
+
+export interface LeadScoringRule {
+  id: string;
+  rule_name: string;
+  factor: LeadScoringFactor;
+  weight: number;
+  config: LeadScoringRuleConfig;
+  is_active: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type OpportunityStage =
+  | 'prospecting'
+  | 'qualification'
+  | 'proposal'
+  | 'negotiation'
+  | 'closed_won'
+  | 'closed_lost';
+
+export interface OpportunityLineItem {
+  id?: string;
+  item_type: 'product' | 'service';
+  product_id?: string | null;
+  description: string;
+  quantity: number;
+  unit_price: number;
+  amount?: number;
+}
+
+export interface Opportunity {
+  id: string;
+  opportunity_name: string;
+  description: string | null;
+  lead_id: string | null;
+  client_id: string | null;
+  stage: OpportunityStage;
+  probability: number;
+  expected_value: number | string | null;
+  weighted_value: number | string;
+  expected_close_date: string | null;
+  actual_close_date: string | null;
+  currency: string;
+  source: string | null;
+  owner_id: string | null;
+  owner_name?: string | null;
+  owner_email?: string | null;
+  lead_name?: string | null;
+  client_name?: string | null;
+  line_item_count?: number | string;
+  line_items?: OpportunityLineItem[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ForecastBucket {
+  count: number;
+  pipeline_value: number;
+  weighted_value: number;
+  won_value: number;
+}
+
+export interface OpportunityForecast {
+  months: string[];
+  by_month: (ForecastBucket & { month: string })[];
+  by_owner: {
+    owner_id: string | null;
+    owner_name: string;
+    totals: ForecastBucket;
+    months: Record<string, ForecastBucket>;
+  }[];
+  totals: ForecastBucket;
+  unscheduled: ForecastBucket;
+}
+
+export type SegmentEntityType = 'lead' | 'client';
+
+export interface SegmentCriteria {
+  statuses?: string[];
+  stages?: string[];
+  priorities?: string[];
+  source_ids?: string[];
+  assigned_to?: string[];
+  industries?: string[];
+  tags?: string[];
+  cities?: string[];
+  states?: string[];
+  countries?: string[];
+  min_value?: number;
+  max_value?: number;
+  min_score?: number;
+  max_score?: number;
+  min_invoiced?: number;
+  max_invoiced?: number;
+  created_after?: string;
+  created_before?: string;
+}
+
+export interface CustomerSegment {
+  id: string;
+  segment_name: string;
+  description: string | null;
+  entity_type: SegmentEntityType;
+  criteria: SegmentCriteria;
+  client_count: number;
+  last_evaluated_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SegmentMember {
+  id: string;
+  name: string;
+  contact_name: string | null;
+  email: string | null;
+  phone: string | null;
+  status: string | null;
+  value: number | string;
+  score: number | null;
+}
+
+export interface SegmentCampaign {
+  id: string;
+  segment_id: string | null;
+  segment_name?: string | null;
+  subject: string;
+  body: string;
+  status: 'sending' | 'sent' | 'partially_sent' | 'failed';
+  recipient_count: number;
+  sent_count: number;
+  failed_count: number;
+  sent_at: string | null;
+  created_at: string;
 }
 
 export interface PipelineStage {
@@ -75,6 +246,34 @@ class CRMService {
     return await getAgencyId(profile, userId);
   }
 
+  /**
+   * Call the advanced CRM API (/api/crm)
+   */
+  private async request<T>(path: string, options: { method?: string; body?: unknown } = {}, fallbackError: string): Promise<T> {
+    const token = localStorage.getItem('auth_token');
+    if (!token) {
+      throw new Error('Authentication required');
+    }
+
+    const response = await fetch(`${API_BASE}/api/crm${path}`, {
+      method: options.method || 'GET',
+      headers: {
+        ...(options.body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+        'Authorization': `Bearer ${token}`,
+        'X-Agency-Database': localStorage.getItem('agency_database') || '',
+      },
+      ...(options.body !== undefined ? { body: JSON.stringify(options.body) } : {}),
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: fallbackError }));
+      throw new Error(error.error || fallbackError);
+    }
+
+    const result = await response.json();
+    return result.data;
+  }
+
   /**
    * Fetch all leads with optional filters
    */
@@ -473,6 +672,224 @@ class CRMService {
     };
   }
 
+  /**
+   * Get scores for all leads (stale scores are recalculated server-side)
+   */
+  async getLeadScores(): Promise<LeadScore[]> {
+    return await this.request<LeadScore[]>('/leads/scores', {}, 'Failed to fetch lead scores');
+  }
+
+  /**
+   * Get a lead's score and breakdown
+   */
+  async getLeadScore(leadId: string): Promise<LeadScore> {
+    return await this.request<LeadScore>(`/leads/${leadId}/score`, {}, 'Failed to fetch lead score');
+  }
+
+  /**
+   * Force recalculation of a lead's score
+   */
+  async calculateLeadScore(leadId: string): Promise<LeadScore> {
+    const result = await this.request<{ lead_id: string; score: number; breakdown: LeadScoreBreakdownItem[]; last_calculated_at: string }>(
+      `/leads/${leadId}/score`,
+      { method: 'POST' },
+      'Failed to calculate lead score'
+    );
+    return {
+      lead_id: result.lead_id,
+      score: result.score,
+      score_breakdown: result.breakdown,
+      last_calculated_at: result.last_calculated_at,
+    };
+  }
+
+  /**
+   * Force recalculation of all lead scores
+   */
+  async recalculateLeadScores(): Promise<LeadScore[]> {
+    return await this.request<LeadScore[]>('/leads/scores/recalculate', { method: 'POST' }, 'Failed to recalculate lead scores');
+  }
+
+  /**
+   * Merge current scores into a list of leads
+   */
+  async attachLeadScores(leads: Lead[]): Promise<Lead[]> {
+    const scores = await this.getLeadScores();
+    const scoreMap = new Map(scores.map((score) => [score.lead_id, score]));
+    return leads.map((lead) => {
+      const score = scoreMap.get(lead.id);
+      return score ? { ...lead, score: score.score, score_breakdown: score.score_breakdown } : lead;
+    });
+  }
+
+  /**
+   * Get lead scoring rules
+   */
+  async getScoringRules(): Promise<LeadScoringRule[]> {
+    return await this.request<LeadScoringRule[]>('/scoring-rules', {}, 'Failed to fetch scoring rules');
+  }
+
+  /**
+   * Create or update a lead scoring rule
+   */
+  async saveScoringRule(rule: Partial<LeadScoringRule>): Promise<LeadScoringRule> {
+    if (rule.id) {
+      return await this.request<LeadScoringRule>(
+        `/scoring-rules/${rule.id}`,
+        { method: 'PUT', body: rule },
+        'Failed to update scoring rule'
+      );
+    }
+    return await this.request<LeadScoringRule>('/scoring-rules', { method: 'POST', body: rule }, 'Failed to create scoring rule');
+  }
+
+  /**
+   * Delete a lead scoring rule
+   */
+  async deleteScoringRule(ruleId: string): Promise<void> {
+    await this.request<void>(`/scoring-rules/${ruleId}`, { method: 'DELETE' }, 'Failed to delete scoring rule');
+  }
+
+  /**
+   * Get opportunities
+   */
+  async getOpportunities(filters: { stage?: string; owner_id?: string; client_id?: string; lead_id?: string } = {}): Promise<Opportunity[]> {
+    const params = new URLSearchParams();
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value) params.append(key, value);
+    });
+    const query = params.toString();
+    return await this.request<Opportunity[]>(`/opportunities${query ? `?${query}` : ''}`, {}, 'Failed to fetch opportunities');
+  }
+
+  /**
+   * Get opportunity with line items
+   */
+  async getOpportunity(opportunityId: string): Promise<Opportunity> {
+    return await this.request<Opportunity>(`/opportunities/${opportunityId}`, {}, 'Failed to fetch opportunity');
+  }
+
+  /**
+   * Create or update an opportunity
+   */
+  async saveOpportunity(opportunity: Partial<Opportunity> & { line_items?: OpportunityLineItem[] }): Promise<Opportunity> {
+    if (opportunity.id) {
+      return await this.request<Opportunity>(
+        `/opportunities/${opportunity.id}`,
+        { method: 'PUT', body: opportunity },
+        'Failed to update opportunity'
+      );
+    }
+    return await this.request<Opportunity>('/opportunities', { method: 'POST', body: opportunity }, 'Failed to create opportunity');
+  }
+
+  /**
+   * Delete an opportunity
+   */
+  async deleteOpportunity(opportunityId: string): Promise<void> {
+    await this.request<void>(`/opportunities/${opportunityId}`, { method: 'DELETE' }, 'Failed to delete opportunity');
+  }
+
+  /**
+   * Get weighted forecast by month and owner
+   */
+  async getOpportunityForecast(options: { from?: string; to?: string; owner_id?: string } = {}): Promise<OpportunityForecast> {
+    const params = new URLSearchParams();
+    Object.entries(options).forEach(([key, value]) => {
+      if (value) params.append(key, value);
+    });
+    const query = params.toString();
+    return await this.request<OpportunityForecast>(
+      `/opportunities/forecast${query ? `?${query}` : ''}`,
+      {},
+      'Failed to fetch forecast'
+    );
+  }
+
+  /**
+   * Get saved segments
+   */
+  async getSegments(entityType?: SegmentEntityType): Promise<CustomerSegment[]> {
+    return await this.request<CustomerSegment[]>(
+      `/segments${entityType ? `?entity_type=${entityType}` : ''}`,
+      {},
+      'Failed to fetch segments'
+    );
+  }
+
+  /**
+   * Create or update a segment
+   */
+  async saveSegment(segment: Partial<CustomerSegment>): Promise<CustomerSegment> {
+    if (segment.id) {
+      return await this.request<CustomerSegment>(`/segments/${segment.id}`, { method: 'PUT', body: segment }, 'Failed to update segment');
+    }
+    return await this.request<CustomerSegment>('/segments', { method: 'POST', body: segment }, 'Failed to create segment');
+  }
+
+  /**
+   * Delete a segment
+   */
+  async deleteSegment(segmentId: string): Promise<void> {
+    await this.request<void>(`/segments/${segmentId}`, { method: 'DELETE' }, 'Failed to delete segment');
+  }
+
+  /**
+   * Preview members for unsaved segment criteria
+   */
+  async previewSegment(entityType: SegmentEntityType, criteria: SegmentCriteria): Promise<{ count: number; members: SegmentMember[] }> {
+    return await this.request<{ count: number; members: SegmentMember[] }>(
+      '/segments/preview',
+      { method: 'POST', body: { entity_type: entityType, criteria } },
+      'Failed to preview segment'
+    );
+  }
+
+  /**
+   * Get a segment's current members
+   */
+  async getSegmentMembers(segmentId: string): Promise<{ segment: CustomerSegment; members: SegmentMember[] }> {
+    return await this.request<{ segment: CustomerSegment; members: SegmentMember[] }>(
+      `/segments/${segmentId}/members`,
+      {},
+      'Failed to fetch segment members'
+    );
+  }
+
+  /**
+   * Apply the same update to every lead in a lead segment
+   */
+  async bulkUpdateSegmentLeads(
+    segmentId: string,
+    updates: Partial<Lead>,
+    profile: unknown,
+    userId: string | null
+  ): Promise<Lead[]> {
+    const { segment, members } = await this.getSegmentMembers(segmentId);
+    if (segment.entity_type !== 'lead') {
+      throw new Error('Bulk lead updates need a lead segment');
+    }
+    return await this.bulkUpdateLeads(members.map((member) => member.id), updates, profile, userId);
+  }
+
+  /**
+   * Send an email campaign to a segment
+   */
+  async sendSegmentCampaign(segmentId: string, campaign: { subject: string; body: string }): Promise<SegmentCampaign> {
+    return await this.request<SegmentCampaign>(
+      `/segments/${segmentId}/campaigns`,
+      { method: 'POST', body: campaign },
+      'Failed to send campaign'
+    );
+  }
+
+  /**
+   * Get campaigns sent to a segment
+   */
+  async getSegmentCampaigns(segmentId: string): Promise<SegmentCampaign[]> {
+    return await this.request<SegmentCampaign[]>(`/segments/${segmentId}/campaigns`, {}, 'Failed to fetch campaigns');
+  }
+
   /**
    * Get leads by stage
    */
@@ -0,0 +1,1259 @@
+/**
+ * Financial Management Service
+ * Frontend API client for currencies and exchange rates, invoice line items,
+ * FX accounting, bank accounts, bank reconciliation and budgets
+ */
+
+import { getApiBaseUrl } from '@/config/api';
+
+const API_BASE = getApiBaseUrl();
+
+export type StatementFormat = 'auto' | 'csv' | 'ofx' | 'mt940';
+export type ExchangeRateSource = 'manual' | 'csv' | 'api' | 'base' | 'currency_table';
+
+export interface Currency {
+  id: string;
+  code: string;
+  name: string;
+  symbol?: string | null;
+  /** Units of this currency per unit of base currency */
+  exchange_rate: number;
+  is_base: boolean;
+  /** Latest dated rate: base currency units per unit of this currency */
+  latest_rate?: number | null;
+  latest_rate_date?: string | null;
+  latest_rate_source?: ExchangeRateSource | null;
+  updated_at: string;
+}
+
+export interface ExchangeRate {
+  id: string;
+  currency_code: string;
+  rate_date: string;
+  /** Base currency units per unit of currency_code */
+  rate: number;
+  source: ExchangeRateSource;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ExchangeRateLookup {
+  currency_code: string;
+  base_currency: string;
+  rate: number;
+  rate_date: string;
+  source: ExchangeRateSource;
+}
+
+export interface ExchangeRateImportResult {
+  imported: ExchangeRate[];
+  errors: { line: number; error: string }[];
+}
+
+export interface InvoiceLineItemInput {
+  item_type: 'product' | 'service';
+  product_id?: string | null;
+  item_name: string;
+  description?: string | null;
+  hsn_sac_code?: string | null;
+  quantity: number;
+  unit_price: number;
+  discount_percentage: number;
+  gst_rate: number;
+}
+
+/**
+ * Invoice header and lines; the server works out the GST split and totals
+ */
+export interface InvoiceInput {
+  invoice_number?: string;
+  client_id: string | null;
+  title: string;
+  description?: string | null;
+  status: string;
+  issue_date: string;
+  due_date?: string | null;
+  notes?: string | null;
+  place_of_supply?: string | null;
+  currency?: string | null;
+  exchange_rate: number;
+  discount: number;
+  lines: InvoiceLineItemInput[];
+}
+
+export interface InvoiceSaveResult {
+  invoice: Record<string, unknown>;
+  line_items: Record<string, unknown>[];
+  gst_transactions: Record<string, unknown>[];
+}
+
+export interface InvoicePaymentInput {
+  invoice_id: string;
+  payment_date: string;
+  /** In the invoice currency */
+  amount: number;
+  /** Defaults to the rate on the payment date */
+  exchange_rate?: number | null;
+  payment_method?: string;
+  reference_number?: string;
+  notes?: string;
+  account_id?: string | null;
+}
+
+export interface InvoicePaymentResult {
+  journal_entry_id: string;
+  entry_number: string;
+  currency: string;
+  base_currency: string;
+  amount: number;
+  exchange_rate: number;
+  invoice_exchange_rate: number;
+  base_amount: number;
+  realized_gain_loss: number;
+  invoice_status: string;
+  amount_paid: number;
+  balance_due: number;
+}
+
+export interface FxRevaluationLine {
+  document_type: 'invoice' | 'vendor_invoice';
+  document_id: string;
+  document_number: string;
+  document_date: string;
+  currency: string;
+  outstanding: number;
+  booked_rate: number;
+  closing_rate: number;
+  carrying_amount: number;
+  revalued_amount: number;
+  gain_loss: number;
+}
+
+export interface FxRevaluationPreview {
+  revaluation_date: string;
+  base_currency: string;
+  rates: Record<string, number>;
+  missing_rates: string[];
+  receivables: FxRevaluationLine[];
+  payables: FxRevaluationLine[];
+  receivables_gain_loss: number;
+  payables_gain_loss: number;
+  total_gain_loss: number;
+}
+
+export interface FxRevaluation {
+  id: string;
+  revaluation_date: string;
+  base_currency: string;
+  rates: Record<string, number>;
+  receivables_gain_loss: number;
+  payables_gain_loss: number;
+  total_gain_loss: number;
+  details: FxRevaluationLine[];
+  status: 'posted' | 'cancelled';
+  journal_entry_id?: string | null;
+  reversal_entry_id?: string | null;
+  journal_entry_number?: string | null;
+  reversal_entry_number?: string | null;
+  created_by_email?: string | null;
+  created_at: string;
+}
+export type MatchType = 'one_to_one' | 'split' | 'many_to_one';
+
+export interface BankAccount {
+  id: string;
+  agency_id: string;
+  account_name: string;
+  account_number?: string;
+  bank_name: string;
+  branch_name?: string;
+  ifsc_code?: string;
+  swift_code?: string;
+  account_type?: string;
+  currency: string;
+  opening_balance: number;
+  current_balance: number;
+  is_active: boolean;
+  is_primary: boolean;
+  gl_account_id?: string | null;
+  gl_account_code?: string;
+  gl_account_name?: string;
+  unreconciled_count?: number;
+  last_reconciled_date?: string | null;
+  notes?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface BankTransaction {
+  id: string;
+  bank_account_id: string;
+  transaction_date: string;
+  transaction_type: 'debit' | 'credit';
+  amount: number;
+  balance_after?: number | null;
+  description?: string;
+  reference_number?: string | null;
+  reconciled: boolean;
+  reconciliation_id?: string | null;
+  external_id?: string | null;
+  statement_format?: string | null;
+  created_at: string;
+}
+
+export interface StatementImportResult {
+  transactions: BankTransaction[];
+  skipped_count: number;
+  format: string;
+}
+
+export interface MatchTransaction {
+  id: string;
+  transaction_date: string;
+  transaction_type: 'debit' | 'credit';
+  amount: number;
+  open_amount: number;
+  description?: string;
+  reference_number?: string | null;
+}
+
+export interface MatchEntry {
+  id: string;
+  /** Supplier payments are not in the ledger yet and are posted when matched */
+  source: 'journal_entry' | 'vendor_payment';
+  entry_number?: string;
+  entry_date: string;
+  description?: string;
+  reference?: string;
+  /** Signed movement on the bank ledger account: positive is money in */
+  amount: number;
+  open_amount: number;
+}
+
+export interface MatchSuggestion {
+  match_type: MatchType;
+  confidence: number;
+  amount: number;
+  transactions: MatchTransaction[];
+  entries: MatchEntry[];
+}
+
+export interface MatchSuggestionsResult {
+  suggestions: MatchSuggestion[];
+  open_transactions: MatchTransaction[];
+  open_entries: MatchEntry[];
+}
+
+export interface BankReconciliationMatch {
+  id: string;
+  match_group_id: string;
+  bank_transaction_id: string;
+  journal_entry_id: string;
+  matched_amount: number;
+  match_type: MatchType;
+  confidence?: number | null;
+  reconciliation_id?: string | null;
+  transaction_date: string;
+  transaction_type: 'debit' | 'credit';
+  transaction_amount: number;
+  transaction_description?: string;
+  reference_number?: string | null;
+  reconciled: boolean;
+  entry_number?: string;
+  entry_date: string;
+  entry_description?: string;
+  entry_reference?: string;
+  created_at: string;
+}
+
+export interface ReconciliationReport {
+  bank_account: BankAccount;
+  statement_date: string;
+  period_start: string | null;
+  statement_balance: number;
+  book_balance: number;
+  deposits_in_transit: MatchEntry[];
+  outstanding_payments: MatchEntry[];
+  unrecorded_receipts: MatchTransaction[];
+  unrecorded_charges: MatchTransaction[];
+  total_deposits_in_transit: number;
+  total_outstanding_payments: number;
+  total_unrecorded_receipts: number;
+  total_unrecorded_charges: number;
+  adjusted_bank_balance: number;
+  adjusted_book_balance: number;
+  unexplained_difference: number;
+  match_count: number;
+  matched_total: number;
+}
+
+export interface BankReconciliation {
+  id: string;
+  bank_account_id: string;
+  reconciliation_date: string;
+  period_start?: string | null;
+  statement_balance: number;
+  book_balance: number;
+  difference: number;
+  adjusted_bank_balance?: number | null;
+  adjusted_book_balance?: number | null;
+  unexplained_difference?: number | null;
+  status: 'pending' | 'reconciled' | 'adjusted';
+  notes?: string | null;
+  reconciled_by?: string | null;
+  reconciled_by_email?: string | null;
+  reconciled_at?: string | null;
+  reconciled_transaction_count?: number;
+  created_at: string;
+}
+
+export type BudgetStatus = 'draft' | 'approved' | 'active' | 'closed';
+export type BudgetStatusIndicator = 'within_budget' | 'near_limit' | 'over_budget';
+export type BudgetRollForwardBasis = 'budget' | 'actual';
+
+export interface BudgetItem {
+  id: string;
+  budget_id: string;
+  account_id?: string | null;
+  account_code?: string | null;
+  account_name?: string | null;
+  account_type?: string | null;
+  category?: string | null;
+  description?: string | null;
+  period_start?: string | null;
+  period_end?: string | null;
+  budgeted_amount: number;
+  actual_amount: number;
+  variance: number;
+  utilization_percentage: number;
+  status_indicator: BudgetStatusIndicator;
+}
+
+export interface Budget {
+  id: string;
+  agency_id: string;
+  budget_name: string;
+  budget_type?: string | null;
+  fiscal_year?: string | null;
+  period_start: string;
+  period_end: string;
+  department_id?: string | null;
+  department_name?: string | null;
+  project_id?: string | null;
+  project_name?: string | null;
+  total_budget: number;
+  actual_amount: number;
+  remaining: number;
+  variance: number;
+  utilization_percentage: number;
+  status_indicator: BudgetStatusIndicator;
+  status: BudgetStatus;
+  alert_thresholds: number[];
+  rolled_from_budget_id?: string | null;
+  notes?: string | null;
+  approved_at?: string | null;
+  created_at: string;
+  updated_at: string;
+  items: BudgetItem[];
+}
+
+export interface BudgetItemInput {
+  account_id?: string | null;
+  category?: string | null;
+  description?: string | null;
+  period_start?: string | null;
+  period_end?: string | null;
+  budgeted_amount: number;
+}
+
+export interface BudgetInput {
+  budget_name: string;
+  budget_type?: string;
+  fiscal_year?: string;
+  period_start: string;
+  period_end: string;
+  department_id?: string | null;
+  project_id?: string | null;
+  total_budget?: number;
+  status?: BudgetStatus;
+  alert_thresholds?: number[];
+  notes?: string;
+  items?: BudgetItemInput[];
+}
+
+export interface BudgetAlert {
+  id: string;
+  budget_id: string;
+  budget_item_id?: string | null;
+  budget_name: string;
+  fiscal_year?: string | null;
+  item_category?: string | null;
+  item_description?: string | null;
+  account_code?: string | null;
+  account_name?: string | null;
+  threshold: number;
+  utilization_percentage: number;
+  budgeted_amount: number;
+  actual_amount: number;
+  message?: string | null;
+  acknowledged: boolean;
+  created_at: string;
+}
+
+export interface BudgetRollForwardResult {
+  created: Budget[];
+  skipped: { id: string; budget_name: string; reason: string }[];
+}
+
+/**
+ * Helper to get auth token
+ */
+function getAuthToken(): string | null {
+  return localStorage.getItem('auth_token');
+}
+
+function getHeaders(token: string, withBody = false): Record<string, string> {
+  return {
+    ...(withBody ? { 'Content-Type': 'application/json' } : {}),
+    'Authorization': `Bearer ${token}`,
+    'X-Agency-Database': localStorage.getItem('agency_database') || '',
+  };
+}
+
+/**
+ * Get currencies with their latest rates
+ */
+export async function getCurrencies(): Promise<Currency[]> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/financial/currencies`, {
+    headers: getHeaders(token),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch currencies' }));
+    throw new Error(error.error || 'Failed to fetch currencies');
+  }
+
+  const result = await response.json();
+  return result.data || [];
+}
+
+/**
+ * Get dated exchange rates
+ */
+export async function getExchangeRates(filters?: {
+  currency_code?: string;
+  from?: string;
+  to?: string;
+}): Promise<ExchangeRate[]> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const params = new URLSearchParams();
+  if (filters?.currency_code) params.append('currency_code', filters.currency_code);
+  if (filters?.from) params.append('from', filters.from);
+  if (filters?.to) params.append('to', filters.to);
+
+  const response = await fetch(`${API_BASE}/api/financial/exchange-rates?${params.toString()}`, {
+    headers: getHeaders(token),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch exchange rates' }));
+    throw new Error(error.error || 'Failed to fetch exchange rates');
+  }
+
+  const result = await response.json();
+  return result.data || [];
+}
+
+/**
+ * Get the rate that applies to a currency on a date
+ */
+export async function lookupExchangeRate(currencyCode: string, date: string): Promise<ExchangeRateLookup> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const params = new URLSearchParams({ currency_code: currencyCode, date });
+  const response = await fetch(`${API_BASE}/api/financial/exchange-rates/lookup?${params.toString()}`, {
+    headers: getHeaders(token),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to look up exchange rate' }));
+    throw new Error(error.error || 'Failed to look up exchange rate');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Enter a rate manually
+ */
+export async function saveExchangeRate(rateData: {
+  currency_code: string;
+  rate_date: string;
+  rate: number;
+}): Promise<ExchangeRate> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/financial/exchange-rates`, {
+    method: 'POST',
+    headers: getHeaders(token, true),
+    body: JSON.stringify(rateData),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to save exchange rate' }));
+    throw new Error(error.error || 'Failed to save exchange rate');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Import rates from CSV content
+ */
+export async function importExchangeRates(content: string): Promise<ExchangeRateImportResult> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/financial/exchange-rates/import`, {
+    method: 'POST',
+    headers: getHeaders(token, true),
+    body: JSON.stringify({ content }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to import exchange rates' }));
+    throw new Error(error.error || 'Failed to import exchange rates');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Delete a dated rate
+ */
+export async function deleteExchangeRate(rateId: string): Promise<void> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/financial/exchange-rates/${rateId}`, {
+    method: 'DELETE',
+    headers: getHeaders(token),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to delete exchange rate' }));
+    throw new Error(error.error || 'Failed to delete exchange rate');
+  }
+}
+
+/**
+ * Create or update an invoice with its line items, posting GST for issued invoices
+ */
+export async function saveInvoice(invoiceId: string | null, invoice: InvoiceInput): Promise<InvoiceSaveResult> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const url = invoiceId
+    ? `${API_BASE}/api/financial/invoices/${invoiceId}`
+    : `${API_BASE}/api/financial/invoices`;
+  const response = await fetch(url, {
+    method: invoiceId ? 'PUT' : 'POST',
+    headers: getHeaders(token, true),
+    body: JSON.stringify(invoice),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to save invoice' }));
+    throw new Error(error.error || 'Failed to save invoice');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Record or update an invoice payment, posting realized FX gain/loss for foreign currency invoices
+ */
+export async function saveInvoicePayment(
+  payment: InvoicePaymentInput,
+  journalEntryId?: string | null
+): Promise<InvoicePaymentResult> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const url = journalEntryId
+    ? `${API_BASE}/api/financial/invoice-payments/${journalEntryId}`
+    : `${API_BASE}/api/financial/invoice-payments`;
+  const response = await fetch(url, {
+    method: journalEntryId ? 'PUT' : 'POST',
+    headers: getHeaders(token, true),
+    body: JSON.stringify(payment),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to record payment' }));
+    throw new Error(error.error || 'Failed to record payment');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Delete an invoice payment and recalculate the invoice status
+ */
+export async function deleteInvoicePayment(journalEntryId: string): Promise<{ invoice_status: string | null }> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/financial/invoice-payments/${journalEntryId}`, {
+    method: 'DELETE',
+    headers: getHeaders(token),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to delete payment' }));
+    throw new Error(error.error || 'Failed to delete payment');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Get posted and cancelled FX revaluations
+ */
+export async function getFxRevaluations(): Promise<FxRevaluation[]> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/financial/fx-revaluations`, {
+    headers: getHeaders(token),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch revaluations' }));
+    throw new Error(error.error || 'Failed to fetch revaluations');
+  }
+
+  const result = await response.json();
+  return result.data || [];
+}
+
+/**
+ * Preview unrealized gain/loss on open foreign currency balances
+ */
+export async function previewFxRevaluation(options: {
+  revaluation_date: string;
+  rates?: Record<string, number>;
+}): Promise<FxRevaluationPreview> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/financial/fx-revaluations/preview`, {
+    method: 'POST',
+    headers: getHeaders(token, true),
+    body: JSON.stringify(options),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to preview revaluation' }));
+    throw new Error(error.error || 'Failed to preview revaluation');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Post a period-end revaluation and its next-day reversal
+ */
+export async function runFxRevaluation(options: {
+  revaluation_date: string;
+  rates?: Record<string, number>;
+}): Promise<FxRevaluationPreview & { id: string }> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/financial/fx-revaluations`, {
+    method: 'POST',
+    headers: getHeaders(token, true),
+    body: JSON.stringify(options),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to post revaluation' }));
+    throw new Error(error.error || 'Failed to post revaluation');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Cancel a revaluation and remove its journal entries
+ */
+export async function cancelFxRevaluation(revaluationId: string): Promise<void> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/financial/fx-revaluations/${revaluationId}`, {
+    method: 'DELETE',
+    headers: getHeaders(token),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to cancel revaluation' }));
+    throw new Error(error.error || 'Failed to cancel revaluation');
+  }
+}
+
+/**
+ * Get bank accounts
+ */
+export async function getBankAccounts(): Promise<BankAccount[]> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/financial/bank-accounts`, {
+    headers: getHeaders(token),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch bank accounts' }));
+    throw new Error(error.error || 'Failed to fetch bank accounts');
+  }
+
+  const result = await response.json();
+  return result.data || [];
+}
+
+/**
+ * Create bank account
+ */
+export async function createBankAccount(accountData: Partial<BankAccount>): Promise<BankAccount> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/financial/bank-accounts`, {
+    method: 'POST',
+    headers: getHeaders(token, true),
+    body: JSON.stringify(accountData),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to create bank account' }));
+    throw new Error(error.error || 'Failed to create bank account');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Update bank account
+ */
+export async function updateBankAccount(bankAccountId: string, accountData: Partial<BankAccount>): Promise<BankAccount> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/financial/bank-accounts/${bankAccountId}`, {
+    method: 'PUT',
+    headers: getHeaders(token, true),
+    body: JSON.stringify(accountData),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to update bank account' }));
+    throw new Error(error.error || 'Failed to update bank account');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Import a bank statement file (CSV, OFX or MT940)
+ */
+export async function importBankStatement(
+  bankAccountId: string,
+  content: string,
+  format: StatementFormat = 'auto'
+): Promise<StatementImportResult> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/financial/bank-reconciliation/import`, {
+    method: 'POST',
+    headers: getHeaders(token, true),
+    body: JSON.stringify({ bank_account_id: bankAccountId, content, format }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to import bank statement' }));
+    throw new Error(error.error || 'Failed to import bank statement');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Get unreconciled bank transactions
+ */
+export async function getUnreconciledTransactions(
+  bankAccountId: string,
+  startDate: string,
+  endDate: string
+): Promise<BankTransaction[]> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const params = new URLSearchParams({ bank_account_id: bankAccountId, start_date: startDate, end_date: endDate });
+  const response = await fetch(`${API_BASE}/api/financial/bank-reconciliation/unreconciled?${params.toString()}`, {
+    headers: getHeaders(token),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch unreconciled transactions' }));
+    throw new Error(error.error || 'Failed to fetch unreconciled transactions');
+  }
+
+  const result = await response.json();
+  return result.data || [];
+}
+
+/**
+ * Get suggested matches between statement lines and journal entries
+ */
+export async function getMatchSuggestions(
+  bankAccountId: string,
+  startDate?: string,
+  endDate?: string
+): Promise<MatchSuggestionsResult> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const params = new URLSearchParams({ bank_account_id: bankAccountId });
+  if (startDate) params.append('start_date', startDate);
+  if (endDate) params.append('end_date', endDate);
+
+  const response = await fetch(`${API_BASE}/api/financial/bank-reconciliation/suggestions?${params.toString()}`, {
+    headers: getHeaders(token),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch match suggestions' }));
+    throw new Error(error.error || 'Failed to fetch match suggestions');
+  }
+
+  const result = await response.json();
+  return result.data || { suggestions: [], open_transactions: [], open_entries: [] };
+}
+
+/**
+ * Get matched statement lines
+ */
+export async function getReconciliationMatches(bankAccountId: string): Promise<BankReconciliationMatch[]> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const params = new URLSearchParams({ bank_account_id: bankAccountId });
+  const response = await fetch(`${API_BASE}/api/financial/bank-reconciliation/matches?${params.toString()}`, {
+    headers: getHeaders(token),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch matches' }));
+    throw new Error(error.error || 'Failed to fetch matches');
+  }
+
+  const result = await response.json();
+  return result.data || [];
+}
+
+/**
+ * Match statement lines to journal entries (one-to-one, split or many-to-one)
+ */
+export async function createReconciliationMatch(matchData: {
+  bank_account_id: string;
+  bank_transaction_ids: string[];
+  journal_entry_ids: string[];
+  vendor_payment_ids?: string[];
+  confidence?: number;
+}): Promise<{ match_group_id: string; match_type: MatchType }> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/financial/bank-reconciliation/matches`, {
+    method: 'POST',
+    headers: getHeaders(token, true),
+    body: JSON.stringify(matchData),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to match transactions' }));
+    throw new Error(error.error || 'Failed to match transactions');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Remove a match
+ */
+export async function deleteReconciliationMatch(matchGroupId: string): Promise<void> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/financial/bank-reconciliation/matches/${matchGroupId}`, {
+    method: 'DELETE',
+    headers: getHeaders(token),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to remove match' }));
+    throw new Error(error.error || 'Failed to remove match');
+  }
+}
+
+/**
+ * Get the reconciliation report as at a statement date
+ */
+export async function getReconciliationReport(
+  bankAccountId: string,
+  statementDate: string,
+  statementBalance?: number,
+  startDate?: string
+): Promise<ReconciliationReport> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const params = new URLSearchParams({ bank_account_id: bankAccountId, statement_date: statementDate });
+  if (statementBalance !== undefined) params.append('statement_balance', String(statementBalance));
+  if (startDate) params.append('start_date', startDate);
+
+  const response = await fetch(`${API_BASE}/api/financial/bank-reconciliation/report?${params.toString()}`, {
+    headers: getHeaders(token),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch reconciliation report' }));
+    throw new Error(error.error || 'Failed to fetch reconciliation report');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Save a reconciliation, marking matched statement lines as reconciled
+ */
+export async function reconcileBankAccount(reconciliationData: {
+  bank_account_id: string;
+  reconciliation_date: string;
+  period_start?: string;
+  statement_balance: number;
+  status: 'pending' | 'reconciled';
+  notes?: string;
+}): Promise<BankReconciliation> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/financial/bank-reconciliation/reconcile`, {
+    method: 'POST',
+    headers: getHeaders(token, true),
+    body: JSON.stringify(reconciliationData),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to save reconciliation' }));
+    throw new Error(error.error || 'Failed to save reconciliation');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Get past reconciliations for a bank account
+ */
+export async function getReconciliationHistory(bankAccountId: string): Promise<BankReconciliation[]> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const params = new URLSearchParams({ bank_account_id: bankAccountId });
+  const response = await fetch(`${API_BASE}/api/financial/bank-reconciliation/history?${params.toString()}`, {
+    headers: getHeaders(token),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch reconciliation history' }));
+    throw new Error(error.error || 'Failed to fetch reconciliation history');
+  }
+
+  const result = await response.json();
+  return result.data || [];
+}
+
+/**
+ * Get budgets with budget-vs-actual variance
+ */
+export async function getBudgets(filters?: {
+  fiscal_year?: string;
+  status?: BudgetStatus;
+  department_id?: string;
+  project_id?: string;
+}): Promise<Budget[]> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const params = new URLSearchParams();
+  if (filters?.fiscal_year) params.append('fiscal_year', filters.fiscal_year);
+  if (filters?.status) params.append('status', filters.status);
+  if (filters?.department_id) params.append('department_id', filters.department_id);
+  if (filters?.project_id) params.append('project_id', filters.project_id);
+
+  const response = await fetch(`${API_BASE}/api/financial/budgets?${params.toString()}`, {
+    headers: getHeaders(token),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch budgets' }));
+    throw new Error(error.error || 'Failed to fetch budgets');
+  }
+
+  const result = await response.json();
+  return result.data || [];
+}
+
+/**
+ * Get a budget with its lines
+ */
+export async function getBudget(budgetId: string): Promise<Budget> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/financial/budgets/${budgetId}`, {
+    headers: getHeaders(token),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch budget' }));
+    throw new Error(error.error || 'Failed to fetch budget');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Create budget
+ */
+export async function createBudget(budgetData: BudgetInput): Promise<Budget> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/financial/budgets`, {
+    method: 'POST',
+    headers: getHeaders(token, true),
+    body: JSON.stringify(budgetData),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to create budget' }));
+    throw new Error(error.error || 'Failed to create budget');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Update budget (passing items replaces all budget lines)
+ */
+export async function updateBudget(budgetId: string, budgetData: Partial<BudgetInput>): Promise<Budget> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/financial/budgets/${budgetId}`, {
+    method: 'PUT',
+    headers: getHeaders(token, true),
+    body: JSON.stringify(budgetData),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to update budget' }));
+    throw new Error(error.error || 'Failed to update budget');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Delete a draft budget
+ */
+export async function deleteBudget(budgetId: string): Promise<void> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/financial/budgets/${budgetId}`, {
+    method: 'DELETE',
+    headers: getHeaders(token),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to delete budget' }));
+    throw new Error(error.error || 'Failed to delete budget');
+  }
+}
+
+/**
+ * Get budget threshold alerts
+ */
+export async function getBudgetAlerts(includeAcknowledged = false): Promise<BudgetAlert[]> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const params = new URLSearchParams();
+  if (includeAcknowledged) params.append('include_acknowledged', 'true');
+
+  const response = await fetch(`${API_BASE}/api/financial/budgets/alerts?${params.toString()}`, {
+    headers: getHeaders(token),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch budget alerts' }));
+    throw new Error(error.error || 'Failed to fetch budget alerts');
+  }
+
+  const result = await response.json();
+  return result.data || [];
+}
+
+/**
+ * Acknowledge a budget alert
+ */
+export async function acknowledgeBudgetAlert(alertId: string): Promise<BudgetAlert> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/financial/budgets/alerts/${alertId}/acknowledge`, {
+    method: 'POST',
+    headers: getHeaders(token),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to acknowledge alert' }));
+    throw new Error(error.error || 'Failed to acknowledge alert');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Roll budgets forward into the next fiscal year
+ */
+export async function rollForwardBudgets(options: {
+  from_fiscal_year?: string;
+  to_fiscal_year?: string;
+  budget_ids?: string[];
+  basis?: BudgetRollForwardBasis;
+  adjustment_percentage?: number;
+}): Promise<BudgetRollForwardResult> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/financial/budgets/roll-forward`, {
+    method: 'POST',
+    headers: getHeaders(token, true),
+    body: JSON.stringify(options),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to roll forward budgets' }));
+    throw new Error(error.error || 'Failed to roll forward budgets');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
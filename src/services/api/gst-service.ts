@@ -38,6 +38,7 @@ export interface GSTReturn {
 export interface GSTTransaction {
   id?: string;
   agency_id?: string;
+  invoice_id?: string | null;
   transaction_type: 'sale' | 'purchase' | 'credit_note' | 'debit_note';
   invoice_number: string;
   invoice_date: string; // date
@@ -43,10 +43,15 @@ export interface Product {
   is_active: boolean;
   is_trackable: boolean;
   track_by: 'serial' | 'batch' | 'none';
+  preferred_supplier_id?: string | null;
+  /** Days from order to receipt; falls back to the inventory default lead time */
+  lead_time_days?: number | null;
   created_at: string;
   updated_at: string;
 }
 
+export type ValuationMethod = 'FIFO' | 'FEFO' | 'LIFO' | 'weighted_average';
+
 export interface InventoryLevel {
   id: string;
   product_id: string;
@@ -66,6 +71,7 @@ export interface InventoryLevel {
   product_sku: string;
   warehouse_name: string;
   warehouse_code: string;
+  zone?: string | null;
 }
 
 export interface InventoryTransaction {
@@ -85,73 +91,871 @@ export interface InventoryTransaction {
   expiry_date?: string;
   notes?: string;
   created_by?: string;
+  /** Cost of goods issued by outbound movements, valued by the record's method */
+  cost_of_goods?: number | null;
+  valuation_method?: ValuationMethod;
+  created_at: string;
+}
+
+/**
+ * Get authentication token from localStorage
+ */
+function getAuthToken(): string | null {
+  return localStorage.getItem('auth_token');
+}
+
+/**
+ * Get warehouses
+ */
+export async function getWarehouses(): Promise<Warehouse[]> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  try {
+    const response = await fetch(`${API_BASE}/api/inventory/warehouses`, {
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'X-Agency-Database': localStorage.getItem('agency_database') || '',
+      },
+    });
+
+    if (!response.ok) {
+      if (response.status === 0 || response.status >= 500) {
+        throw new Error('Unable to reach the API server. Please check your connection and try again.');
+      }
+      const error = await response.json().catch(() => ({ error: 'Failed to fetch warehouses' }));
+      throw new Error(error.error || 'Failed to fetch warehouses');
+    }
+
+    const result = await response.json();
+    return result.data || [];
+  } catch (error: any) {
+    if (error.message.includes('Failed to fetch') || error.message.includes('NetworkError')) {
+      throw new Error('Unable to reach the API server. Please check your connection and try again.');
+    }
+    throw error;
+  }
+}
+
+/**
+ * Create warehouse
+ */
+export async function createWarehouse(warehouseData: Partial<Warehouse>): Promise<Warehouse> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/inventory/warehouses`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+    body: JSON.stringify(warehouseData),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to create warehouse' }));
+    throw new Error(error.error || 'Failed to create warehouse');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Get products
+ */
+export async function getProducts(filters?: {
+  category_id?: string;
+  is_active?: boolean;
+  search?: string;
+  limit?: number;
+}): Promise<Product[]> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  try {
+    const queryParams = new URLSearchParams();
+    if (filters?.category_id) queryParams.append('category_id', filters.category_id);
+    if (filters?.is_active !== undefined) queryParams.append('is_active', String(filters.is_active));
+    if (filters?.search) queryParams.append('search', filters.search);
+    if (filters?.limit) queryParams.append('limit', String(filters.limit));
+
+    const response = await fetch(`${API_BASE}/api/inventory/products?${queryParams}`, {
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'X-Agency-Database': localStorage.getItem('agency_database') || '',
+      },
+    });
+
+    if (!response.ok) {
+      if (response.status === 0 || response.status >= 500) {
+        throw new Error('Unable to reach the API server. Please check your connection and try again.');
+      }
+      const error = await response.json().catch(() => ({ error: 'Failed to fetch products' }));
+      throw new Error(error.error || 'Failed to fetch products');
+    }
+
+    const result = await response.json();
+    return result.data || [];
+  } catch (error: any) {
+    if (error.message.includes('Failed to fetch') || error.message.includes('NetworkError')) {
+      throw new Error('Unable to reach the API server. Please check your connection and try again.');
+    }
+    throw error;
+  }
+}
+
+/**
+ * Create product
+ */
+export async function createProduct(productData: Partial<Product>): Promise<Product> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/inventory/products`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+    body: JSON.stringify(productData),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to create product' }));
+    throw new Error(error.error || 'Failed to create product');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Get inventory levels for a product
+ */
+export async function getInventoryLevels(productId: string, variantId?: string): Promise<InventoryLevel[]> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const queryParams = new URLSearchParams();
+  if (variantId) queryParams.append('variant_id', variantId);
+
+  const response = await fetch(`${API_BASE}/api/inventory/products/${productId}/levels?${queryParams}`, {
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch inventory levels' }));
+    throw new Error(error.error || 'Failed to fetch inventory levels');
+  }
+
+  const result = await response.json();
+  return result.data || [];
+}
+
+/**
+ * Create inventory transaction
+ */
+export async function createInventoryTransaction(transactionData: Partial<InventoryTransaction>): Promise<InventoryTransaction> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/inventory/transactions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+    body: JSON.stringify(transactionData),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to create transaction' }));
+    throw new Error(error.error || 'Failed to create transaction');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Get low stock alerts
+ */
+export async function getLowStockAlerts(): Promise<InventoryLevel[]> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/inventory/alerts/low-stock`, {
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch alerts' }));
+    throw new Error(error.error || 'Failed to fetch alerts');
+  }
+
+  const result = await response.json();
+  return result.data || [];
+}
+
+export type ReplenishmentOutput = 'requisition' | 'purchase_order';
+
+export interface ReplenishmentLine {
+  inventory_id: string;
+  product_id: string;
+  variant_id?: string | null;
+  warehouse_id: string;
+  warehouse_code: string;
+  warehouse_name: string;
+  sku: string;
+  product_name: string;
+  unit_of_measure: string;
+  supplier_id: string | null;
+  is_preferred_supplier: boolean;
+  available_quantity: number;
+  reorder_point: number;
+  reorder_quantity: number;
+  max_stock: number | null;
+  on_order_quantity: number;
+  consumed_quantity: number;
+  daily_usage: number;
+  lead_time_days: number;
+  stock_position: number;
+  basis: 'max_stock' | 'reorder_quantity' | 'consumption';
+  proposed_quantity: number;
+  unit_price: number;
+  line_total: number;
+}
+
+export interface ReplenishmentGroup {
+  supplier_id: string | null;
+  supplier_name: string | null;
+  lines: ReplenishmentLine[];
+  total_amount: number;
+}
+
+export interface ReplenishmentProposal {
+  generated_at: string;
+  consumption_days: number;
+  default_lead_time_days: number;
+  groups: ReplenishmentGroup[];
+}
+
+export interface ReplenishmentOrderLine {
+  product_id: string;
+  warehouse_id: string;
+  supplier_id: string | null;
+  quantity: number;
+  unit_price: number;
+  description: string;
+  unit_of_measure: string;
+  available_quantity: number;
+}
+
+export interface ReplenishmentRun {
+  id: string;
+  trigger_type: 'manual' | 'scheduled';
+  output_type: ReplenishmentOutput;
+  requisition_ids: string[];
+  purchase_order_ids: string[];
+  requisition_numbers: string[];
+  po_numbers: string[];
+  line_count: number;
+  total_amount: number;
+  skipped_lines: { product_id: string; warehouse_id: string; reason: string }[];
+  created_by?: string;
+  created_by_name?: string;
   created_at: string;
 }
 
+export interface ReplenishmentResult {
+  run: ReplenishmentRun;
+  requisitions: { id: string; requisition_number: string }[];
+  purchase_orders: { id: string; po_number: string }[];
+  skipped_lines: ReplenishmentRun['skipped_lines'];
+}
+
+/**
+ * Get a replenishment proposal for low-stock items
+ */
+export async function getReplenishmentProposal(filters?: {
+  warehouse_id?: string;
+  consumption_days?: number;
+  lead_time_days?: number;
+}): Promise<ReplenishmentProposal> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const params = new URLSearchParams();
+  if (filters?.warehouse_id) params.append('warehouse_id', filters.warehouse_id);
+  if (filters?.consumption_days) params.append('consumption_days', String(filters.consumption_days));
+  if (filters?.lead_time_days) params.append('lead_time_days', String(filters.lead_time_days));
+
+  const response = await fetch(`${API_BASE}/api/inventory/replenishment/proposal?${params.toString()}`, {
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch replenishment proposal' }));
+    throw new Error(error.error || 'Failed to fetch replenishment proposal');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Convert replenishment lines into draft requisitions or purchase orders
+ */
+export async function createReplenishmentOrders(
+  outputType: ReplenishmentOutput,
+  lines: ReplenishmentOrderLine[]
+): Promise<ReplenishmentResult> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/inventory/replenishment/orders`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+    body: JSON.stringify({ output_type: outputType, lines }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to create replenishment orders' }));
+    throw new Error(error.error || 'Failed to create replenishment orders');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Get recent replenishment runs
+ */
+export async function getReplenishmentRuns(limit = 20): Promise<ReplenishmentRun[]> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/inventory/replenishment/runs?limit=${limit}`, {
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch replenishment runs' }));
+    throw new Error(error.error || 'Failed to fetch replenishment runs');
+  }
+
+  const result = await response.json();
+  return result.data || [];
+}
+
+export type ReservationReferenceType = 'project' | 'task' | 'quotation';
+export type ReservationStatus = 'active' | 'issued' | 'released' | 'expired' | 'cancelled';
+
+export interface StockReservation {
+  id: string;
+  agency_id: string;
+  reservation_number: string;
+  inventory_id: string;
+  product_id: string;
+  warehouse_id: string;
+  reference_type: ReservationReferenceType;
+  project_id?: string | null;
+  task_id?: string | null;
+  quotation_id?: string | null;
+  job_id?: string | null;
+  quantity: number;
+  issued_quantity: number;
+  released_quantity: number;
+  issued_cost: number;
+  status: ReservationStatus;
+  expires_at?: string | null;
+  notes?: string | null;
+  release_reason?: string | null;
+  released_at?: string | null;
+  created_at: string;
+  product_name?: string;
+  product_sku?: string;
+  warehouse_name?: string;
+  project_name?: string | null;
+  task_title?: string | null;
+  quotation_number?: string | null;
+  quotation_title?: string | null;
+  job_name?: string | null;
+  job_number?: string | null;
+}
+
+export interface ReservationTargets {
+  projects: Array<{ id: string; name: string; project_code?: string | null; status: string }>;
+  tasks: Array<{ id: string; title: string; project_id: string; status: string }>;
+  quotations: Array<{ id: string; quotation_number?: string | null; title: string; status: string }>;
+  jobs: Array<{ id: string; job_number?: string | null; name: string; status?: string | null }>;
+}
+
+export interface ReservationInput {
+  inventory_id: string;
+  reference_type: ReservationReferenceType;
+  project_id?: string;
+  task_id?: string;
+  quotation_id?: string;
+  job_id?: string;
+  quantity: number;
+  expires_at?: string;
+  notes?: string;
+}
+
+/**
+ * Get stock reservations
+ */
+export async function getStockReservations(filters?: {
+  status?: ReservationStatus;
+  inventory_id?: string;
+  product_id?: string;
+  project_id?: string;
+  quotation_id?: string;
+}): Promise<StockReservation[]> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const queryParams = new URLSearchParams();
+  if (filters?.status) queryParams.append('status', filters.status);
+  if (filters?.inventory_id) queryParams.append('inventory_id', filters.inventory_id);
+  if (filters?.product_id) queryParams.append('product_id', filters.product_id);
+  if (filters?.project_id) queryParams.append('project_id', filters.project_id);
+  if (filters?.quotation_id) queryParams.append('quotation_id', filters.quotation_id);
+
+  const response = await fetch(`${API_BASE}/api/inventory/reservations?${queryParams}`, {
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch reservations' }));
+    throw new Error(error.error || 'Failed to fetch reservations');
+  }
+
+  const result = await response.json();
+  return result.data || [];
+}
+
+/**
+ * Projects, tasks, accepted quotations and jobs stock can be reserved against
+ */
+export async function getReservationTargets(): Promise<ReservationTargets> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/inventory/reservations/targets`, {
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch reservation targets' }));
+    throw new Error(error.error || 'Failed to fetch reservation targets');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Reserve stock against a project, task or accepted quotation
+ */
+export async function createStockReservation(reservationData: ReservationInput): Promise<StockReservation> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/inventory/reservations`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+    body: JSON.stringify(reservationData),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to reserve stock' }));
+    throw new Error(error.error || 'Failed to reserve stock');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Issue reserved stock to its project
+ */
+export async function issueStockReservation(
+  reservationId: string,
+  issueData: { quantity?: number; project_id?: string; notes?: string }
+): Promise<{ reservation: StockReservation; transaction: InventoryTransaction }> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/inventory/reservations/${reservationId}/issue`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+    body: JSON.stringify(issueData),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to issue reserved stock' }));
+    throw new Error(error.error || 'Failed to issue reserved stock');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Release what is still reserved
+ */
+export async function releaseStockReservation(reservationId: string, reason?: string): Promise<StockReservation> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/inventory/reservations/${reservationId}/release`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+    body: JSON.stringify({ reason }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to release reservation' }));
+    throw new Error(error.error || 'Failed to release reservation');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+export type StockTakeStatus = 'counting' | 'review' | 'approved' | 'posted' | 'cancelled';
+export type StockTakeCountType = 'full' | 'cycle';
+export type AbcClass = 'A' | 'B' | 'C';
+
+export interface StockTake {
+  id: string;
+  agency_id: string;
+  session_number: string;
+  warehouse_id: string;
+  warehouse_name?: string;
+  warehouse_code?: string;
+  zone?: string | null;
+  count_type: StockTakeCountType;
+  abc_classes?: AbcClass[] | null;
+  blind_count: boolean;
+  status: StockTakeStatus;
+  notes?: string | null;
+  total_lines: number;
+  counted_lines: number;
+  variance_lines: number;
+  variance_value: number;
+  submitted_at?: string | null;
+  approved_at?: string | null;
+  posted_at?: string | null;
+  created_at: string;
+  lines?: StockTakeLine[];
+}
+
+/**
+ * Expected quantities, serials and costs are null while a blind count is in progress
+ */
+export interface StockTakeLine {
+  id: string;
+  session_id: string;
+  inventory_id: string;
+  product_id: string;
+  variant_id?: string | null;
+  product_name: string;
+  product_sku: string;
+  product_barcode?: string | null;
+  track_by?: string | null;
+  unit_of_measure?: string | null;
+  zone?: string | null;
+  abc_class: AbcClass;
+  expected_quantity: number | null;
+  expected_serials?: string[] | null;
+  current_quantity: number | null;
+  unit_cost: number | null;
+  counted_quantity: number | null;
+  scanned_serials?: string[] | null;
+  variance_quantity: number | null;
+  variance_value: number | null;
+  missing_serials?: string[];
+  unexpected_serials?: string[];
+  review_status: 'pending' | 'accepted' | 'rejected';
+  adjustment_transaction_id?: string | null;
+  posted_variance_value?: number | null;
+  notes?: string | null;
+  counted_at?: string | null;
+}
+
+export interface StockTakeScope {
+  zones: Array<{ zone: string; records: number }>;
+  abc_counts: Record<AbcClass, number>;
+}
+
+export interface StockTakeInput {
+  warehouse_id: string;
+  zone?: string;
+  count_type: StockTakeCountType;
+  abc_classes?: AbcClass[];
+  blind_count: boolean;
+  notes?: string;
+}
+
+export interface StockTakeVarianceReport {
+  session: StockTake;
+  totals: {
+    counted_lines: number;
+    variance_lines: number;
+    gain_quantity: number;
+    loss_quantity: number;
+    gain_value: number;
+    loss_value: number;
+    net_value: number;
+  };
+  by_class: Array<{ abc_class: AbcClass; lines: number; net_value: number }>;
+  lines: Array<StockTakeLine & { report_value: number }>;
+}
+
+/**
+ * Get stock take sessions
+ */
+export async function getStockTakes(filters?: {
+  status?: StockTakeStatus;
+  warehouse_id?: string;
+  count_type?: StockTakeCountType;
+}): Promise<StockTake[]> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const queryParams = new URLSearchParams();
+  if (filters?.status) queryParams.append('status', filters.status);
+  if (filters?.warehouse_id) queryParams.append('warehouse_id', filters.warehouse_id);
+  if (filters?.count_type) queryParams.append('count_type', filters.count_type);
+
+  const response = await fetch(`${API_BASE}/api/inventory/stock-takes?${queryParams}`, {
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch stock takes' }));
+    throw new Error(error.error || 'Failed to fetch stock takes');
+  }
+
+  const result = await response.json();
+  return result.data || [];
+}
+
+/**
+ * Get a stock take with its count sheet
+ */
+export async function getStockTakeById(sessionId: string): Promise<StockTake> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/inventory/stock-takes/${sessionId}`, {
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch stock take' }));
+    throw new Error(error.error || 'Failed to fetch stock take');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
 /**
- * Get authentication token from localStorage
+ * Zones and ABC class counts available for a new stock take
  */
-function getAuthToken(): string | null {
-  return localStorage.getItem('auth_token');
+export async function getStockTakeScope(warehouseId: string): Promise<StockTakeScope> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/inventory/stock-takes/scope/${warehouseId}`, {
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch stock take scope' }));
+    throw new Error(error.error || 'Failed to fetch stock take scope');
+  }
+
+  const result = await response.json();
+  return result.data;
 }
 
 /**
- * Get warehouses
+ * Start a stock take and freeze its count sheet
  */
-export async function getWarehouses(): Promise<Warehouse[]> {
+export async function createStockTake(stockTakeData: StockTakeInput): Promise<StockTake> {
   const token = getAuthToken();
   if (!token) {
     throw new Error('Authentication required');
   }
 
-  try {
-    const response = await fetch(`${API_BASE}/api/inventory/warehouses`, {
-      headers: {
-        'Authorization': `Bearer ${token}`,
-        'X-Agency-Database': localStorage.getItem('agency_database') || '',
-      },
-    });
+  const response = await fetch(`${API_BASE}/api/inventory/stock-takes`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+    body: JSON.stringify(stockTakeData),
+  });
 
-    if (!response.ok) {
-      if (response.status === 0 || response.status >= 500) {
-        throw new Error('Unable to reach the API server. Please check your connection and try again.');
-      }
-      const error = await response.json().catch(() => ({ error: 'Failed to fetch warehouses' }));
-      throw new Error(error.error || 'Failed to fetch warehouses');
-    }
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to start stock take' }));
+    throw new Error(error.error || 'Failed to start stock take');
+  }
 
-    const result = await response.json();
-    return result.data || [];
-  } catch (error: any) {
-    if (error.message.includes('Failed to fetch') || error.message.includes('NetworkError')) {
-      throw new Error('Unable to reach the API server. Please check your connection and try again.');
-    }
-    throw error;
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Enter counted quantities (null clears a count)
+ */
+export async function recordStockTakeCounts(
+  sessionId: string,
+  counts: Array<{ line_id: string; counted_quantity: number | null; notes?: string }>
+): Promise<StockTake> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/inventory/stock-takes/${sessionId}/counts`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+    body: JSON.stringify({ counts }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to save counts' }));
+    throw new Error(error.error || 'Failed to save counts');
   }
+
+  const result = await response.json();
+  return result.data;
 }
 
 /**
- * Create warehouse
+ * Count a scanned barcode/SKU or serial number
  */
-export async function createWarehouse(warehouseData: Partial<Warehouse>): Promise<Warehouse> {
+export async function scanStockTakeCode(
+  sessionId: string,
+  code: string,
+  quantity?: number
+): Promise<{ matched: 'serial' | 'barcode'; line: StockTakeLine }> {
   const token = getAuthToken();
   if (!token) {
     throw new Error('Authentication required');
   }
 
-  const response = await fetch(`${API_BASE}/api/inventory/warehouses`, {
+  const response = await fetch(`${API_BASE}/api/inventory/stock-takes/${sessionId}/scan`, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
       'Authorization': `Bearer ${token}`,
       'X-Agency-Database': localStorage.getItem('agency_database') || '',
     },
-    body: JSON.stringify(warehouseData),
+    body: JSON.stringify({ code, quantity }),
   });
 
   if (!response.ok) {
-    const error = await response.json().catch(() => ({ error: 'Failed to create warehouse' }));
-    throw new Error(error.error || 'Failed to create warehouse');
+    const error = await response.json().catch(() => ({ error: 'Failed to record scan' }));
+    throw new Error(error.error || 'Failed to record scan');
   }
 
   const result = await response.json();
@@ -159,73 +963,85 @@ export async function createWarehouse(warehouseData: Partial<Warehouse>): Promis
 }
 
 /**
- * Get products
+ * Close counting and compute variances
  */
-export async function getProducts(filters?: {
-  category_id?: string;
-  is_active?: boolean;
-  search?: string;
-  limit?: number;
-}): Promise<Product[]> {
+export async function submitStockTake(sessionId: string, zeroUncounted = false): Promise<StockTake> {
   const token = getAuthToken();
   if (!token) {
     throw new Error('Authentication required');
   }
 
-  try {
-    const queryParams = new URLSearchParams();
-    if (filters?.category_id) queryParams.append('category_id', filters.category_id);
-    if (filters?.is_active !== undefined) queryParams.append('is_active', String(filters.is_active));
-    if (filters?.search) queryParams.append('search', filters.search);
-    if (filters?.limit) queryParams.append('limit', String(filters.limit));
+  const response = await fetch(`${API_BASE}/api/inventory/stock-takes/${sessionId}/submit`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+    body: JSON.stringify({ zero_uncounted: zeroUncounted }),
+  });
 
-    const response = await fetch(`${API_BASE}/api/inventory/products?${queryParams}`, {
-      headers: {
-        'Authorization': `Bearer ${token}`,
-        'X-Agency-Database': localStorage.getItem('agency_database') || '',
-      },
-    });
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to submit stock take' }));
+    throw new Error(error.error || 'Failed to submit stock take');
+  }
 
-    if (!response.ok) {
-      if (response.status === 0 || response.status >= 500) {
-        throw new Error('Unable to reach the API server. Please check your connection and try again.');
-      }
-      const error = await response.json().catch(() => ({ error: 'Failed to fetch products' }));
-      throw new Error(error.error || 'Failed to fetch products');
-    }
+  const result = await response.json();
+  return result.data;
+}
 
-    const result = await response.json();
-    return result.data || [];
-  } catch (error: any) {
-    if (error.message.includes('Failed to fetch') || error.message.includes('NetworkError')) {
-      throw new Error('Unable to reach the API server. Please check your connection and try again.');
-    }
-    throw error;
+/**
+ * Accept or reject variance lines
+ */
+export async function reviewStockTakeLines(
+  sessionId: string,
+  reviews: Array<{ line_id: string; review_status: 'pending' | 'accepted' | 'rejected'; notes?: string }>
+): Promise<StockTake> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/inventory/stock-takes/${sessionId}/review`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+    body: JSON.stringify({ reviews }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to save review' }));
+    throw new Error(error.error || 'Failed to save review');
   }
+
+  const result = await response.json();
+  return result.data;
 }
 
 /**
- * Create product
+ * Approve a reviewed stock take
  */
-export async function createProduct(productData: Partial<Product>): Promise<Product> {
+export async function approveStockTake(sessionId: string): Promise<StockTake> {
   const token = getAuthToken();
   if (!token) {
     throw new Error('Authentication required');
   }
 
-  const response = await fetch(`${API_BASE}/api/inventory/products`, {
+  const response = await fetch(`${API_BASE}/api/inventory/stock-takes/${sessionId}/approve`, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
       'Authorization': `Bearer ${token}`,
       'X-Agency-Database': localStorage.getItem('agency_database') || '',
     },
-    body: JSON.stringify(productData),
   });
 
   if (!response.ok) {
-    const error = await response.json().catch(() => ({ error: 'Failed to create product' }));
-    throw new Error(error.error || 'Failed to create product');
+    const error = await response.json().catch(() => ({ error: 'Failed to approve stock take' }));
+    throw new Error(error.error || 'Failed to approve stock take');
   }
 
   const result = await response.json();
@@ -233,55 +1049,54 @@ export async function createProduct(productData: Partial<Product>): Promise<Prod
 }
 
 /**
- * Get inventory levels for a product
+ * Post approved variances as inventory adjustments
  */
-export async function getInventoryLevels(productId: string, variantId?: string): Promise<InventoryLevel[]> {
+export async function postStockTake(sessionId: string): Promise<StockTake> {
   const token = getAuthToken();
   if (!token) {
     throw new Error('Authentication required');
   }
 
-  const queryParams = new URLSearchParams();
-  if (variantId) queryParams.append('variant_id', variantId);
-
-  const response = await fetch(`${API_BASE}/api/inventory/products/${productId}/levels?${queryParams}`, {
+  const response = await fetch(`${API_BASE}/api/inventory/stock-takes/${sessionId}/post`, {
+    method: 'POST',
     headers: {
+      'Content-Type': 'application/json',
       'Authorization': `Bearer ${token}`,
       'X-Agency-Database': localStorage.getItem('agency_database') || '',
     },
   });
 
   if (!response.ok) {
-    const error = await response.json().catch(() => ({ error: 'Failed to fetch inventory levels' }));
-    throw new Error(error.error || 'Failed to fetch inventory levels');
+    const error = await response.json().catch(() => ({ error: 'Failed to post stock take' }));
+    throw new Error(error.error || 'Failed to post stock take');
   }
 
   const result = await response.json();
-  return result.data || [];
+  return result.data;
 }
 
 /**
- * Create inventory transaction
+ * Cancel a stock take that has not been posted
  */
-export async function createInventoryTransaction(transactionData: Partial<InventoryTransaction>): Promise<InventoryTransaction> {
+export async function cancelStockTake(sessionId: string, reason?: string): Promise<StockTake> {
   const token = getAuthToken();
   if (!token) {
     throw new Error('Authentication required');
   }
 
-  const response = await fetch(`${API_BASE}/api/inventory/transactions`, {
+  const response = await fetch(`${API_BASE}/api/inventory/stock-takes/${sessionId}/cancel`, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
       'Authorization': `Bearer ${token}`,
       'X-Agency-Database': localStorage.getItem('agency_database') || '',
     },
-    body: JSON.stringify(transactionData),
+    body: JSON.stringify({ reason }),
   });
 
   if (!response.ok) {
-    const error = await response.json().catch(() => ({ error: 'Failed to create transaction' }));
-    throw new Error(error.error || 'Failed to create transaction');
+    const error = await response.json().catch(() => ({ error: 'Failed to cancel stock take' }));
+    throw new Error(error.error || 'Failed to cancel stock take');
   }
 
   const result = await response.json();
@@ -289,28 +1104,29 @@ export async function createInventoryTransaction(transactionData: Partial<Invent
 }
 
 /**
- * Get low stock alerts
+ * Variance valuation report for a submitted stock take
  */
-export async function getLowStockAlerts(): Promise<InventoryLevel[]> {
+export async function getStockTakeVarianceReport(sessionId: string): Promise<StockTakeVarianceReport> {
   const token = getAuthToken();
   if (!token) {
     throw new Error('Authentication required');
   }
 
-  const response = await fetch(`${API_BASE}/api/inventory/alerts/low-stock`, {
+  const response = await fetch(`${API_BASE}/api/inventory/stock-takes/${sessionId}/variance-report`, {
     headers: {
+      'Content-Type': 'application/json',
       'Authorization': `Bearer ${token}`,
       'X-Agency-Database': localStorage.getItem('agency_database') || '',
     },
   });
 
   if (!response.ok) {
-    const error = await response.json().catch(() => ({ error: 'Failed to fetch alerts' }));
-    throw new Error(error.error || 'Failed to fetch alerts');
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch variance report' }));
+    throw new Error(error.error || 'Failed to fetch variance report');
   }
 
   const result = await response.json();
-  return result.data || [];
+  return result.data;
 }
 
 /**
@@ -934,15 +1750,38 @@ export interface StockValueReportItem {
   warehouse_id: string;
   warehouse_code: string;
   warehouse_name: string;
+  inventory_id: string;
+  valuation_method: ValuationMethod;
   quantity: number;
   available_quantity: number;
   average_cost: number;
   last_cost: number;
+  layer_count: number;
+  layer_quantity: number;
+  earliest_expiry?: string | null;
   stock_value: number;
   reorder_point: number;
   is_low_stock: boolean;
 }
 
+export interface CostLayer {
+  id: string;
+  inventory_id: string;
+  source_transaction_id?: string | null;
+  layer_type: 'receipt' | 'opening' | 'adjustment' | 'transfer' | 'return';
+  batch_id?: string | null;
+  batch_number?: string | null;
+  expiry_date?: string | null;
+  received_at: string;
+  original_quantity: number;
+  remaining_quantity: number;
+  issued_quantity: number;
+  unit_cost: number;
+  remaining_value: number;
+  source_reference_type?: string | null;
+  source_reference_id?: string | null;
+}
+
 export interface MovementReportItem {
   date: string;
   transaction_type: string;
@@ -1034,6 +1873,88 @@ export async function getStockValueReport(filters?: {
   return result.data || [];
 }
 
+/**
+ * Get the cost layers behind a stock record
+ */
+export async function getCostLayers(inventoryId: string, includeClosed = false): Promise<CostLayer[]> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const query = includeClosed ? '?include_closed=true' : '';
+  const response = await fetch(`${API_BASE}/api/inventory/reports/stock-value/${inventoryId}/layers${query}`, {
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch cost layers' }));
+    throw new Error(error.error || 'Failed to fetch cost layers');
+  }
+
+  const result = await response.json();
+  return result.data || [];
+}
+
+/**
+ * Change the valuation method of a stock record
+ */
+export async function updateValuationMethod(inventoryId: string, valuationMethod: ValuationMethod): Promise<InventoryLevel> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/inventory/levels/${inventoryId}/valuation-method`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+    body: JSON.stringify({ valuation_method: valuationMethod }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to update valuation method' }));
+    throw new Error(error.error || 'Failed to update valuation method');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Set the storage zone of a stock record
+ */
+export async function updateInventoryZone(inventoryId: string, zone: string | null): Promise<InventoryLevel> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/inventory/levels/${inventoryId}/zone`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+    body: JSON.stringify({ zone }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to update zone' }));
+    throw new Error(error.error || 'Failed to update zone');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
 /**
  * Get movement report
  */
@@ -0,0 +1,510 @@
+/**
+ * Leave Service
+ * Frontend API client for leave policies, leave requests, accruals, balances and year-end rollover
+ */
+
+import { getApiBaseUrl } from '@/config/api';
+
+const API_BASE = getApiBaseUrl();
+
+export type AccrualFrequency = 'monthly' | 'quarterly' | 'yearly';
+
+// Employment types policies can be scoped to, as stored on employee_details
+export const EMPLOYMENT_TYPE_LABELS: Record<string, string> = {
+  full_time: 'Full Time',
+  part_time: 'Part Time',
+  contract: 'Contract',
+  intern: 'Intern',
+};
+
+export interface LeavePolicy {
+  id: string;
+  leave_type_id: string;
+  leave_type_name?: string;
+  name: string;
+  // null applies to every employee without a more specific policy
+  employment_type: string | null;
+  annual_entitlement: number;
+  accrual_frequency: AccrualFrequency;
+  prorate_joiners: boolean;
+  probation_months: number;
+  accrue_during_probation: boolean;
+  allow_during_probation: boolean;
+  // null means unlimited carry-forward
+  carry_forward_max: number | null;
+  encashment_enabled: boolean;
+  encashment_max_days: number | null;
+  allow_negative_balance: boolean;
+  sandwich_rule: boolean;
+  allow_half_day: boolean;
+  is_active: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type LeavePolicyInput = Omit<LeavePolicy, 'id' | 'leave_type_name' | 'created_at' | 'updated_at'>;
+
+export interface LeaveBalance {
+  id: string;
+  employee_id: string;
+  employee_name?: string;
+  leave_type_id: string;
+  leave_type_name: string;
+  year: number;
+  opening_balance: number;
+  accrued: number;
+  adjusted: number;
+  used: number;
+  encashed: number;
+  lapsed: number;
+  carried_forward: number;
+  accrued_through?: string | null;
+  closed_at?: string | null;
+  available_days: number;
+  allocated_days: number;
+  used_days: number;
+  pending_days: number;
+  // Available less days already in pending requests
+  remaining_days: number;
+}
+
+export type LeaveBalanceTransactionType =
+  | 'accrual'
+  | 'leave_taken'
+  | 'leave_reversed'
+  | 'carry_forward'
+  | 'lapse'
+  | 'encashment'
+  | 'adjustment';
+
+export interface LeaveBalanceTransaction {
+  id: string;
+  balance_id: string;
+  employee_id: string;
+  leave_type_id: string;
+  leave_type_name?: string;
+  year: number;
+  transaction_type: LeaveBalanceTransactionType;
+  days: number;
+  balance_after: number | null;
+  reference_type?: string | null;
+  reference_id?: string | null;
+  notes?: string | null;
+  created_by_name?: string | null;
+  created_at: string;
+}
+
+export interface LeaveDayCalculation {
+  days: number;
+  working_days: number;
+  available_days: number | null;
+  pending_days: number;
+  policy: {
+    id: string | null;
+    name: string;
+    sandwich_rule: boolean;
+    allow_half_day: boolean;
+    allow_negative_balance: boolean;
+  } | null;
+  errors: string[];
+  warnings: string[];
+  valid: boolean;
+}
+
+export interface LeaveDayCalculationInput {
+  employee_id?: string;
+  leave_type_id: string;
+  start_date: string;
+  end_date: string;
+  is_half_day?: boolean;
+  exclude_request_id?: string;
+}
+
+export interface LeaveRequestInput {
+  employee_id?: string;
+  leave_type_id: string;
+  start_date: string;
+  end_date: string;
+  is_half_day?: boolean;
+  half_day_session?: 'first_half' | 'second_half' | null;
+  reason: string;
+  status?: string;
+}
+
+export interface SavedLeaveRequest {
+  id: string;
+  employee_id: string;
+  leave_type_id: string;
+  start_date: string;
+  end_date: string;
+  total_days: number;
+  is_half_day: boolean;
+  half_day_session: 'first_half' | 'second_half' | null;
+  reason: string | null;
+  status: string;
+  approved_by: string | null;
+  approved_at: string | null;
+  rejection_reason: string | null;
+}
+
+export interface LeaveRollover {
+  id: string;
+  year: number;
+  balances_closed: number;
+  days_carried_forward: number;
+  days_encashed: number;
+  encashment_amount: number;
+  days_lapsed: number;
+  warnings: string[];
+  run_by_name?: string | null;
+  created_at: string;
+}
+
+/**
+ * Get authentication token from localStorage
+ */
+function getAuthToken(): string | null {
+  return localStorage.getItem('auth_token');
+}
+
+/**
+ * Get leave policies
+ */
+export async function getLeavePolicies(): Promise<LeavePolicy[]> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/hr/leave/policies`, {
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch leave policies' }));
+    throw new Error(error.error || 'Failed to fetch leave policies');
+  }
+
+  const result = await response.json();
+  return result.data || [];
+}
+
+/**
+ * Create a leave policy, or update it when an id is given
+ */
+export async function saveLeavePolicy(policy: LeavePolicyInput, policyId?: string): Promise<LeavePolicy> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/hr/leave/policies${policyId ? `/${policyId}` : ''}`, {
+    method: policyId ? 'PUT' : 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+    body: JSON.stringify(policy),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to save leave policy' }));
+    throw new Error(error.error || error.message || 'Failed to save leave policy');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Delete a leave policy
+ */
+export async function deleteLeavePolicy(policyId: string): Promise<void> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/hr/leave/policies/${policyId}`, {
+    method: 'DELETE',
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to delete leave policy' }));
+    throw new Error(error.error || error.message || 'Failed to delete leave policy');
+  }
+}
+
+/**
+ * Get leave balances for a year, optionally for one employee
+ */
+export async function getLeaveBalances(filters?: { employee_id?: string; year?: number }): Promise<LeaveBalance[]> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const params = new URLSearchParams();
+  if (filters?.employee_id) params.append('employee_id', filters.employee_id);
+  if (filters?.year) params.append('year', String(filters.year));
+
+  const response = await fetch(`${API_BASE}/api/hr/leave/balances?${params.toString()}`, {
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch leave balances' }));
+    throw new Error(error.error || 'Failed to fetch leave balances');
+  }
+
+  const result = await response.json();
+  return result.data || [];
+}
+
+/**
+ * Get the ledger of leave balance changes
+ */
+export async function getLeaveBalanceTransactions(filters?: {
+  employee_id?: string;
+  leave_type_id?: string;
+  year?: number;
+}): Promise<LeaveBalanceTransaction[]> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const params = new URLSearchParams();
+  if (filters?.employee_id) params.append('employee_id', filters.employee_id);
+  if (filters?.leave_type_id) params.append('leave_type_id', filters.leave_type_id);
+  if (filters?.year) params.append('year', String(filters.year));
+
+  const response = await fetch(`${API_BASE}/api/hr/leave/balances/transactions?${params.toString()}`, {
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch balance history' }));
+    throw new Error(error.error || 'Failed to fetch balance history');
+  }
+
+  const result = await response.json();
+  return result.data || [];
+}
+
+/**
+ * Manually credit (positive days) or debit (negative days) a leave balance
+ */
+export async function adjustLeaveBalance(adjustment: {
+  employee_id: string;
+  leave_type_id: string;
+  year: number;
+  days: number;
+  notes: string;
+}): Promise<LeaveBalance> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/hr/leave/balances/adjust`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+    body: JSON.stringify(adjustment),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to adjust leave balance' }));
+    throw new Error(error.error || error.message || 'Failed to adjust leave balance');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Calculate the days a leave request consumes and validate it against policy and balance
+ */
+export async function calculateLeaveDays(input: LeaveDayCalculationInput): Promise<LeaveDayCalculation> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/hr/leave/calculate`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+    body: JSON.stringify(input),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to calculate leave days' }));
+    throw new Error(error.error || error.message || 'Failed to calculate leave days');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Create or update a leave request; the server works out the days and enforces the leave policy
+ */
+export async function saveLeaveRequest(request: LeaveRequestInput, requestId?: string): Promise<SavedLeaveRequest> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/hr/leave/requests${requestId ? `/${requestId}` : ''}`, {
+    method: requestId ? 'PUT' : 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+    body: JSON.stringify(request),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to save leave request' }));
+    throw new Error(error.error || error.message || 'Failed to save leave request');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Approve or reject a leave request
+ */
+export async function decideLeaveRequest(
+  requestId: string,
+  decision: 'approve' | 'reject',
+  rejectionReason?: string
+): Promise<SavedLeaveRequest> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/hr/leave/requests/${requestId}/${decision}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+    body: JSON.stringify({ rejection_reason: rejectionReason }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: `Failed to ${decision} leave request` }));
+    throw new Error(error.error || error.message || `Failed to ${decision} leave request`);
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Credit leave accruals up to a date (defaults to today)
+ */
+export async function runLeaveAccruals(asOfDate?: string): Promise<{ employees: number; credited: number }> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/hr/leave/accruals/run`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+    body: JSON.stringify({ as_of_date: asOfDate }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to run leave accruals' }));
+    throw new Error(error.error || error.message || 'Failed to run leave accruals');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Get year-end rollover history
+ */
+export async function getLeaveRollovers(): Promise<LeaveRollover[]> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/hr/leave/rollovers`, {
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch rollover history' }));
+    throw new Error(error.error || 'Failed to fetch rollover history');
+  }
+
+  const result = await response.json();
+  return result.data || [];
+}
+
+/**
+ * Close a leave year: carry forward, encash and lapse unused days
+ */
+export async function runYearEndRollover(year: number): Promise<LeaveRollover> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/hr/leave/rollovers`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+    body: JSON.stringify({ year }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to run year-end rollover' }));
+    throw new Error(error.error || error.message || 'Failed to run year-end rollover');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
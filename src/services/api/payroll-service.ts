@@ -0,0 +1,634 @@
+// Payroll Service - salary structures, statutory settings, adjustments and bulk payroll runs
+import {
+  selectRecords,
+  selectOne,
+  insertRecord,
+  updateRecord,
+  deleteRecord,
+  rawQuery,
+} from './postgresql-service';
+import { getAttendanceRecords } from './attendance-service';
+import { getApiBaseUrl } from '@/config/api';
+import {
+  SalaryComponent,
+  StatutorySettings,
+  PayrollBreakdown,
+  PayDays,
+  DEFAULT_STATUTORY_SETTINGS,
+  calculatePayroll,
+  calculatePayDays,
+  calculateArrear,
+  getWorkingDates,
+  roundMoney,
+} from '@/utils/payrollCalculations';
+
+const API_BASE = getApiBaseUrl();
+
+export interface SalaryStructure {
+  id: string;
+  agency_id: string | null;
+  name: string;
+  description: string | null;
+  components: SalaryComponent[];
+  is_active: boolean;
+  created_at: string;
+}
+
+export interface PayrollAdjustment {
+  id: string;
+  employee_id: string;
+  payroll_period_id: string | null;
+  adjustment_type: 'arrear' | 'bonus' | 'deduction';
+  description: string | null;
+  amount: number;
+  is_taxable: boolean;
+  status: 'pending' | 'applied';
+  payroll_id: string | null;
+  created_at: string;
+  employee_name?: string;
+}
+
+export interface PayrollPeriod {
+  id: string;
+  name?: string | null;
+  period_name?: string | null;
+  start_date: string;
+  end_date: string;
+  pay_date?: string | null;
+  status: string;
+}
+
+export interface SalaryRevision {
+  id: string;
+  employee_id: string;
+  salary: number;
+  base_salary: number | null;
+  salary_frequency: string | null;
+  effective_date: string;
+  end_date: string | null;
+  salary_structure_id: string | null;
+}
+
+export interface PayrollEmployee {
+  id: string;
+  user_id: string;
+  employee_code: string | null;
+  full_name: string;
+}
+
+/**
+ * One employee's line in a payroll run, editable during review
+ */
+export interface PayrollRunLine extends PayrollBreakdown {
+  employee_id: string;
+  employee_name: string;
+  employee_code: string | null;
+  salary_detail_id: string | null;
+  salary_structure_id: string | null;
+  days: PayDays;
+  /** Pending adjustments folded into this line */
+  adjustment_ids: string[];
+  /** Earlier payroll rows whose revision arrears this line settles */
+  arrear_payroll_ids: string[];
+  non_taxable_adjustments: number;
+  included: boolean;
+  warnings: string[];
+}
+
+const toNumber = (value: unknown): number => {
+  const n = Number(value);
+  return Number.isFinite(n) ? n : 0;
+};
+
+const parseJson = <T>(value: unknown, fallback: T): T => {
+  if (value == null) return fallback;
+  if (typeof value === 'string') {
+    try {
+      return JSON.parse(value) as T;
+    } catch {
+      return fallback;
+    }
+  }
+  return value as T;
+};
+
+export const getPeriodName = (period: Pick<PayrollPeriod, 'name' | 'period_name'>): string =>
+  period.name || period.period_name || 'Unnamed period';
+
+// ---------------------------------------------------------------------------
+// Salary structures
+// ---------------------------------------------------------------------------
+
+export async function getSalaryStructures(activeOnly = false): Promise<SalaryStructure[]> {
+  const rows = await selectRecords<SalaryStructure>('salary_structures', {
+    where: activeOnly ? { is_active: true } : {},
+    orderBy: 'name ASC',
+  });
+  return rows.map((row) => ({ ...row, components: parseJson<SalaryComponent[]>(row.components, []) }));
+}
+
+export async function saveSalaryStructure(
+  structure: Pick<SalaryStructure, 'name' | 'description' | 'components' | 'is_active'> & { id?: string },
+  agencyId: string | null,
+  userId?: string
+): Promise<SalaryStructure> {
+  if (!structure.name.trim()) throw new Error('Structure name is required');
+  if (structure.components.length === 0) throw new Error('Add at least one component');
+  if (structure.components.filter((c) => c.calculation === 'balance').length > 1) {
+    throw new Error('Only one component can take the balance');
+  }
+
+  const data = {
+    name: structure.name.trim(),
+    description: structure.description || null,
+    components: JSON.stringify(structure.components),
+    is_active: structure.is_active,
+    updated_at: new Date().toISOString(),
+  };
+
+  if (structure.id) {
+    return updateRecord<SalaryStructure>('salary_structures', data, { id: structure.id });
+  }
+  return insertRecord<SalaryStructure>('salary_structures', { ...data, agency_id: agencyId, created_by: userId || null });
+}
+
+export async function deleteSalaryStructure(id: string): Promise<void> {
+  const inUse = await rawQuery<{ count: string }>(
+    'SELECT COUNT(*) AS count FROM public.employee_salary_details WHERE salary_structure_id = $1',
+    [id]
+  );
+  if (toNumber(inUse[0]?.count) > 0) {
+    throw new Error('This structure is assigned to employees. Deactivate it instead.');
+  }
+  await deleteRecord('salary_structures', { id });
+}
+
+// ---------------------------------------------------------------------------
+// Employee salary revisions
+// ---------------------------------------------------------------------------
+
+/**
+ * Monthly gross from a salary detail row; annual figures are spread over 12 months
+ */
+export const getMonthlyGross = (detail: Pick<SalaryRevision, 'salary' | 'base_salary' | 'salary_frequency'>): number => {
+  const amount = toNumber(detail.salary) || toNumber(detail.base_salary);
+  const frequency = (detail.salary_frequency || 'monthly').toLowerCase();
+  return frequency === 'annual' || frequency === 'yearly' ? amount / 12 : amount;
+};
+
+/**
+ * Record a salary revision. The current row is closed the day before the new effective date,
+ * so payroll already approved at the old rate after that date produces arrears on the next run.
+ */
+export async function reviseEmployeeSalary(input: {
+  employee_id: string;
+  agency_id: string | null;
+  monthly_gross: number;
+  salary_structure_id: string | null;
+  effective_date: string;
+}): Promise<SalaryRevision> {
+  if (input.monthly_gross <= 0) throw new Error('Monthly gross must be greater than zero');
+
+  const previous = await rawQuery<SalaryRevision & Record<string, unknown>>(
+    `SELECT * FROM public.employee_salary_details
+     WHERE employee_id = $1 AND effective_date <= $2 AND (end_date IS NULL OR end_date >= $2)
+     ORDER BY effective_date DESC LIMIT 1`,
+    [input.employee_id, input.effective_date]
+  );
+  const current = previous[0];
+
+  if (current && String(current.effective_date).slice(0, 10) === input.effective_date) {
+    return updateRecord<SalaryRevision>(
+      'employee_salary_details',
+      {
+        salary: input.monthly_gross,
+        base_salary: input.monthly_gross,
+        salary_frequency: 'monthly',
+        salary_structure_id: input.salary_structure_id,
+        updated_at: new Date().toISOString(),
+      },
+      { id: current.id }
+    );
+  }
+
+  if (current) {
+    const dayBefore = new Date(`${input.effective_date}T00:00:00Z`);
+    dayBefore.setUTCDate(dayBefore.getUTCDate() - 1);
+    await updateRecord('employee_salary_details', {
+      end_date: dayBefore.toISOString().split('T')[0],
+      updated_at: new Date().toISOString(),
+    }, { id: current.id });
+  }
+
+  // Bank and currency details carry over to the new row
+  return insertRecord<SalaryRevision>('employee_salary_details', {
+    employee_id: input.employee_id,
+    agency_id: input.agency_id,
+    salary: input.monthly_gross,
+    base_salary: input.monthly_gross,
+    salary_frequency: 'monthly',
+    pay_frequency: 'monthly',
+    currency: current?.currency || 'INR',
+    bank_name: current?.bank_name || null,
+    bank_account_number: current?.bank_account_number || null,
+    bank_routing_number: current?.bank_routing_number || null,
+    salary_structure_id: input.salary_structure_id,
+    effective_date: input.effective_date,
+  });
+}
+
+export async function getPayrollEmployees(): Promise<PayrollEmployee[]> {
+  return rawQuery<PayrollEmployee>(
+    `SELECT ed.id, ed.user_id, ed.employee_id AS employee_code,
+            COALESCE(NULLIF(TRIM(p.full_name), ''), TRIM(ed.first_name || ' ' || ed.last_name)) AS full_name
+     FROM public.employee_details ed
+     LEFT JOIN public.profiles p ON p.user_id = ed.user_id
+     WHERE ed.is_active = true
+     ORDER BY full_name`
+  );
+}
+
+export interface EmployeeSalarySummary extends PayrollEmployee {
+  salary_detail_id: string | null;
+  monthly_gross: number;
+  salary_structure_id: string | null;
+  effective_date: string | null;
+}
+
+/**
+ * Active employees with the salary in force today
+ */
+export async function getEmployeeSalaries(): Promise<EmployeeSalarySummary[]> {
+  const today = new Date().toISOString().split('T')[0];
+  const [employees, salaries] = await Promise.all([
+    getPayrollEmployees(),
+    rawQuery<SalaryRevision>(
+      `SELECT * FROM public.employee_salary_details
+       WHERE effective_date <= $1 AND (end_date IS NULL OR end_date >= $1)
+       ORDER BY effective_date DESC`,
+      [today]
+    ),
+  ]);
+  return employees.map((employee) => {
+    const salary = salaries.find((row) => row.employee_id === employee.id);
+    return {
+      ...employee,
+      salary_detail_id: salary?.id || null,
+      monthly_gross: salary ? roundMoney(getMonthlyGross(salary)) : 0,
+      salary_structure_id: salary?.salary_structure_id || null,
+      effective_date: salary ? String(salary.effective_date).slice(0, 10) : null,
+    };
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Statutory settings
+// ---------------------------------------------------------------------------
+
+export async function getStatutorySettings(): Promise<StatutorySettings & { id?: string }> {
+  const rows = await selectRecords<Record<string, unknown>>('payroll_statutory_settings', { limit: 1 });
+  const row = rows[0];
+  if (!row) return { ...DEFAULT_STATUTORY_SETTINGS };
+
+  const settings = { ...DEFAULT_STATUTORY_SETTINGS, id: row.id as string };
+  for (const key of Object.keys(DEFAULT_STATUTORY_SETTINGS) as (keyof StatutorySettings)[]) {
+    const value = row[key];
+    if (value == null) continue;
+    const fallback = DEFAULT_STATUTORY_SETTINGS[key];
+    if (Array.isArray(fallback)) {
+      const parsed = parseJson<unknown[]>(value, []);
+      // Empty slab lists fall back to the defaults rather than switching the tax off
+      Object.assign(settings, { [key]: parsed.length > 0 ? parsed : fallback });
+    } else if (typeof fallback === 'boolean') {
+      Object.assign(settings, { [key]: !!value });
+    } else {
+      Object.assign(settings, { [key]: toNumber(value) });
+    }
+  }
+  return settings;
+}
+
+export async function saveStatutorySettings(settings: StatutorySettings, agencyId: string | null): Promise<void> {
+  const existing = await selectRecords<{ id: string }>('payroll_statutory_settings', { limit: 1 });
+  const data = {
+    ...settings,
+    pt_slabs: JSON.stringify(settings.pt_slabs),
+    tds_slabs: JSON.stringify(settings.tds_slabs),
+    weekly_offs: JSON.stringify(settings.weekly_offs),
+    updated_at: new Date().toISOString(),
+  };
+  if ('id' in data) delete (data as { id?: string }).id;
+
+  if (existing[0]) {
+    await updateRecord('payroll_statutory_settings', data, { id: existing[0].id });
+  } else {
+    await insertRecord('payroll_statutory_settings', { ...data, agency_id: agencyId });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Adjustments (arrears, bonuses, one-off deductions)
+// ---------------------------------------------------------------------------
+
+export async function getPayrollAdjustments(status?: PayrollAdjustment['status']): Promise<PayrollAdjustment[]> {
+  return rawQuery<PayrollAdjustment>(
+    `SELECT pa.*,
+            COALESCE(NULLIF(TRIM(p.full_name), ''), TRIM(ed.first_name || ' ' || ed.last_name)) AS employee_name
+     FROM public.payroll_adjustments pa
+     JOIN public.employee_details ed ON ed.id = pa.employee_id
+     LEFT JOIN public.profiles p ON p.user_id = ed.user_id
+     ${status ? 'WHERE pa.status = $1' : ''}
+     ORDER BY pa.created_at DESC`,
+    status ? [status] : []
+  );
+}
+
+export async function createPayrollAdjustment(
+  adjustment: Pick<PayrollAdjustment, 'employee_id' | 'payroll_period_id' | 'adjustment_type' | 'description' | 'amount' | 'is_taxable'>,
+  agencyId: string | null,
+  userId?: string
+): Promise<PayrollAdjustment> {
+  if (!(adjustment.amount > 0)) throw new Error('Amount must be greater than zero');
+  return insertRecord<PayrollAdjustment>('payroll_adjustments', {
+    ...adjustment,
+    agency_id: agencyId,
+    status: 'pending',
+    created_by: userId || null,
+  });
+}
+
+export async function deletePayrollAdjustment(id: string): Promise<void> {
+  const adjustment = await selectOne<PayrollAdjustment>('payroll_adjustments', { id });
+  if (adjustment?.status === 'applied') {
+    throw new Error('Applied adjustments are part of a finalized payroll and cannot be deleted');
+  }
+  await deleteRecord('payroll_adjustments', { id });
+}
+
+// ---------------------------------------------------------------------------
+// Payroll run
+// ---------------------------------------------------------------------------
+
+interface PastPayrollRow {
+  id: string;
+  employee_id: string;
+  salary_detail_id: string | null;
+  monthly_gross: number;
+  working_days: number;
+  paid_days: number;
+  start_date: string;
+}
+
+/**
+ * Calculate payroll for every active employee in a period.
+ * Employees whose payroll for the period is already approved or paid are left out,
+ * unless a single employee is asked for (recalculating one record from the payroll form).
+ */
+export async function buildPayrollRun(period: PayrollPeriod, employeeId?: string): Promise<PayrollRunLine[]> {
+  const startDate = period.start_date.split('T')[0];
+  const endDate = period.end_date.split('T')[0];
+
+  const [employees, settings, structures, salaryRows, holidays, attendance, leaves, adjustments, existing, pastRows] =
+    await Promise.all([
+      getPayrollEmployees(),
+      getStatutorySettings(),
+      getSalaryStructures(),
+      rawQuery<SalaryRevision>(
+        `SELECT * FROM public.employee_salary_details
+         WHERE effective_date <= $1 AND (end_date IS NULL OR end_date >= $2)
+         ORDER BY effective_date DESC`,
+        [endDate, startDate]
+      ),
+      rawQuery<{ holiday_date: string }>(
+        'SELECT COALESCE(holiday_date, date)::text AS holiday_date FROM public.holidays WHERE COALESCE(holiday_date, date) BETWEEN $1 AND $2',
+        [startDate, endDate]
+      ),
+      getAttendanceRecords({ start_date: startDate, end_date: endDate }),
+      rawQuery<{ user_id: string; start_date: string; end_date: string; is_paid: boolean }>(
+        `SELECT COALESCE(lr.employee_id, lr.user_id) AS user_id, lr.start_date::text, lr.end_date::text,
+                COALESCE(lt.is_paid, true) AS is_paid
+         FROM public.leave_requests lr
+         LEFT JOIN public.leave_types lt ON lt.id = lr.leave_type_id
+         WHERE lr.status = 'approved' AND lr.start_date <= $2 AND lr.end_date >= $1`,
+        [startDate, endDate]
+      ),
+      getPayrollAdjustments('pending'),
+      selectRecords<{ employee_id: string; status: string }>('payroll', { where: { payroll_period_id: period.id } }),
+      rawQuery<PastPayrollRow>(
+        `SELECT pr.id, pr.employee_id, pr.salary_detail_id, pr.monthly_gross, pr.working_days, pr.paid_days,
+                pp.start_date::text
+         FROM public.payroll pr
+         JOIN public.payroll_periods pp ON pp.id = pr.payroll_period_id
+         WHERE pr.status IN ('approved', 'paid') AND pr.arrears_settled_in IS NULL
+           AND pp.start_date < $1 AND pr.monthly_gross > 0`,
+        [startDate]
+      ),
+    ]);
+
+  const locked = new Set(existing.filter((r) => r.status === 'approved' || r.status === 'paid').map((r) => r.employee_id));
+  const structureMap = new Map(structures.map((s) => [s.id, s]));
+  const workingDates = getWorkingDates(startDate, endDate, settings.weekly_offs, holidays.map((h) => h.holiday_date));
+
+  const lines: PayrollRunLine[] = [];
+  for (const employee of employees) {
+    if (employeeId ? employee.id !== employeeId : locked.has(employee.id)) continue;
+
+    const warnings: string[] = [];
+    // Rows are newest first, so the first match is the salary in force at the end of the period
+    const salary = salaryRows.find((row) => row.employee_id === employee.id);
+    if (!salary) warnings.push('No salary on file');
+    const monthlyGross = salary ? getMonthlyGross(salary) : 0;
+
+    const structure = salary?.salary_structure_id ? structureMap.get(salary.salary_structure_id) : undefined;
+    if (salary && !structure) warnings.push('No salary structure assigned, default split used');
+
+    const days = calculatePayDays(
+      workingDates,
+      attendance.filter((a) => a.employee_id === employee.user_id),
+      leaves.filter((l) => l.user_id === employee.user_id)
+    );
+    if (!attendance.some((a) => a.employee_id === employee.user_id)) {
+      warnings.push('No attendance marked in this period');
+    }
+
+    const employeeAdjustments = adjustments.filter(
+      (a) => a.employee_id === employee.id && (!a.payroll_period_id || a.payroll_period_id === period.id)
+    );
+    const sumOf = (type: PayrollAdjustment['adjustment_type']) =>
+      employeeAdjustments.filter((a) => a.adjustment_type === type).reduce((sum, a) => sum + toNumber(a.amount), 0);
+
+    // Revision arrears for earlier periods paid at the old rate
+    const arrearRows = salary
+      ? pastRows.filter(
+          (row) =>
+            row.employee_id === employee.id &&
+            row.salary_detail_id !== salary.id &&
+            row.start_date.slice(0, 10) >= String(salary.effective_date).slice(0, 10)
+        )
+      : [];
+    const revisionArrears = arrearRows.reduce(
+      (sum, row) => sum + calculateArrear(toNumber(row.monthly_gross), monthlyGross, toNumber(row.paid_days), toNumber(row.working_days)),
+      0
+    );
+
+    const nonTaxable = employeeAdjustments
+      .filter((a) => !a.is_taxable && a.adjustment_type !== 'deduction')
+      .reduce((sum, a) => sum + toNumber(a.amount), 0);
+
+    const breakdown = calculatePayroll({
+      monthlyGross,
+      components: structure?.components || [],
+      settings,
+      days,
+      arrears: sumOf('arrear') + revisionArrears,
+      bonus: sumOf('bonus'),
+      nonTaxableAdjustments: nonTaxable,
+      otherDeductions: sumOf('deduction'),
+    });
+
+    lines.push({
+      ...breakdown,
+      employee_id: employee.id,
+      employee_name: employee.full_name,
+      employee_code: employee.employee_code,
+      salary_detail_id: salary?.id || null,
+      salary_structure_id: structure?.id || null,
+      days,
+      adjustment_ids: employeeAdjustments.map((a) => a.id),
+      arrear_payroll_ids: arrearRows.map((row) => row.id),
+      non_taxable_adjustments: nonTaxable,
+      included: monthlyGross > 0,
+      warnings,
+    });
+  }
+
+  return lines;
+}
+
+/**
+ * Recalculate a line after the reviewer edits its bonus or other deductions
+ */
+export function recalculateRunLine(
+  line: PayrollRunLine,
+  changes: { bonus?: number; other_deductions?: number },
+  settings: StatutorySettings,
+  components: SalaryComponent[]
+): PayrollRunLine {
+  const breakdown = calculatePayroll({
+    monthlyGross: line.monthly_gross,
+    components,
+    settings,
+    days: line.days,
+    arrears: line.arrears,
+    bonus: changes.bonus ?? line.bonus,
+    nonTaxableAdjustments: line.non_taxable_adjustments,
+    otherDeductions: changes.other_deductions ?? line.other_deductions,
+  });
+  return { ...line, ...breakdown };
+}
+
+const toPayrollRow = (line: PayrollRunLine, period: PayrollPeriod, agencyId: string | null, userId?: string) => ({
+  employee_id: line.employee_id,
+  payroll_period_id: period.id,
+  agency_id: agencyId,
+  salary_detail_id: line.salary_detail_id,
+  salary_structure_id: line.salary_structure_id,
+  monthly_gross: line.monthly_gross,
+  base_salary: line.base_salary,
+  allowances: line.allowances,
+  earnings: JSON.stringify(line.earnings),
+  working_days: line.days.working_days,
+  paid_days: line.days.paid_days,
+  lop_days: line.days.lop_days,
+  lop_amount: line.lop_amount,
+  hours_worked: line.days.hours_worked,
+  overtime_hours: line.days.overtime_hours,
+  overtime_pay: line.overtime_pay,
+  arrears: line.arrears,
+  bonus: line.bonus,
+  gross_salary: line.gross_salary,
+  pf_employee: line.pf_employee,
+  pf_employer: line.pf_employer,
+  esi_employee: line.esi_employee,
+  esi_employer: line.esi_employer,
+  professional_tax: line.professional_tax,
+  tds: line.tds,
+  tax_amount: line.tds,
+  other_deductions: line.other_deductions,
+  deductions: line.deductions,
+  net_salary: line.net_salary,
+  status: 'draft',
+  created_by: userId || null,
+});
+
+/**
+ * Save the reviewed run as draft payroll records, replacing earlier drafts for the period
+ */
+export async function savePayrollRun(
+  period: PayrollPeriod,
+  lines: PayrollRunLine[],
+  agencyId: string | null,
+  userId?: string
+): Promise<number> {
+  const included = lines.filter((line) => line.included);
+  if (included.length === 0) throw new Error('Select at least one employee to include');
+
+  await rawQuery(
+    "DELETE FROM public.payroll WHERE payroll_period_id = $1 AND status = 'draft' AND employee_id = ANY($2::uuid[])",
+    [period.id, lines.map((line) => line.employee_id)]
+  );
+  for (const line of included) {
+    await insertRecord('payroll', toPayrollRow(line, period, agencyId, userId));
+  }
+  await updateRecord('payroll_periods', { status: 'processing', updated_at: new Date().toISOString() }, { id: period.id });
+  return included.length;
+}
+
+/**
+ * Approve the saved run on the server in one transaction: draft records are locked, pending
+ * adjustments and revision arrears are marked as settled by this period so the next run does
+ * not pay them again
+ */
+export async function finalizePayrollRun(period: PayrollPeriod, lines: PayrollRunLine[]): Promise<number> {
+  const token = localStorage.getItem('auth_token');
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/hr/payroll/periods/${period.id}/finalize`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+    body: JSON.stringify({
+      lines: lines.map((line) => ({
+        employee_id: line.employee_id,
+        adjustment_ids: line.adjustment_ids,
+        arrear_payroll_ids: line.arrear_payroll_ids,
+      })),
+    }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to finalize payroll' }));
+    throw new Error(error.error || error.message || 'Failed to finalize payroll');
+  }
+
+  const result = await response.json();
+  return result.data.approved_count;
+}
+
+export const summarizeRun = (lines: PayrollRunLine[]) => {
+  const included = lines.filter((line) => line.included);
+  const total = (key: keyof PayrollBreakdown) => roundMoney(included.reduce((sum, line) => sum + toNumber(line[key]), 0));
+  return {
+    employees: included.length,
+    gross: total('gross_salary'),
+    deductions: total('deductions'),
+    tds: total('tds'),
+    net: total('net_salary'),
+    employerCost: roundMoney(total('gross_salary') + total('pf_employer') + total('esi_employer')),
+  };
+};
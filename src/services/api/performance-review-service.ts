@@ -0,0 +1,872 @@
+/**
+ * Performance Review Service
+ * Frontend API client for review cycles, competencies, self/manager/peer feedback, calibration and goals
+ */
+
+import { getApiBaseUrl } from '@/config/api';
+import type { PerformanceSummary } from './performance-service';
+
+const API_BASE = getApiBaseUrl();
+
+export type ReviewCycleType = 'quarterly' | 'half_yearly' | 'annual';
+export type ReviewCycleStatus = 'draft' | 'active' | 'calibration' | 'closed';
+export type ReviewStatus = 'in_progress' | 'calibrated' | 'finalized';
+export type FeedbackRelationship = 'self' | 'manager' | 'peer';
+export type FeedbackStatus = 'pending' | 'submitted' | 'declined';
+export type GoalStatus = 'not_started' | 'on_track' | 'at_risk' | 'off_track' | 'completed' | 'cancelled';
+
+export const CYCLE_TYPE_LABELS: Record<ReviewCycleType, string> = {
+  quarterly: 'Quarterly',
+  half_yearly: 'Half-yearly',
+  annual: 'Annual',
+};
+
+export const RELATIONSHIP_LABELS: Record<FeedbackRelationship, string> = {
+  self: 'Self-assessment',
+  manager: 'Manager review',
+  peer: 'Peer feedback',
+};
+
+export const GOAL_STATUS_LABELS: Record<GoalStatus, string> = {
+  not_started: 'Not Started',
+  on_track: 'On Track',
+  at_risk: 'At Risk',
+  off_track: 'Off Track',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+};
+
+export interface RatingScalePoint {
+  value: number;
+  label: string;
+  description?: string;
+}
+
+export const DEFAULT_RATING_SCALE: RatingScalePoint[] = [
+  { value: 1, label: 'Needs Improvement' },
+  { value: 2, label: 'Partially Meets Expectations' },
+  { value: 3, label: 'Meets Expectations' },
+  { value: 4, label: 'Exceeds Expectations' },
+  { value: 5, label: 'Outstanding' },
+];
+
+export interface Competency {
+  id: string;
+  name: string;
+  description: string | null;
+  category: string | null;
+  sort_order?: number;
+  is_active?: boolean;
+}
+
+export interface ReviewCycle {
+  id: string;
+  name: string;
+  cycle_type: ReviewCycleType;
+  period_start: string;
+  period_end: string;
+  self_review_due: string | null;
+  manager_review_due: string | null;
+  // Copied from the competency library when the cycle was saved
+  competencies: Competency[];
+  rating_scale: RatingScalePoint[];
+  include_peer_feedback: boolean;
+  department_id: string | null;
+  department_name?: string | null;
+  status: ReviewCycleStatus;
+  launched_at: string | null;
+  closed_at: string | null;
+  review_count?: number;
+  finalized_count?: number;
+  feedback_count?: number;
+  feedback_submitted?: number;
+}
+
+export interface ReviewCycleInput {
+  name: string;
+  cycle_type: ReviewCycleType;
+  period_start: string;
+  period_end: string;
+  self_review_due?: string | null;
+  manager_review_due?: string | null;
+  competency_ids: string[];
+  rating_scale: RatingScalePoint[];
+  include_peer_feedback: boolean;
+  department_id?: string | null;
+}
+
+export interface FeedbackRequest {
+  id: string;
+  review_id: string;
+  relationship: FeedbackRelationship;
+  status: FeedbackStatus;
+  overall_rating: number | null;
+  submitted_at: string | null;
+  employee_id: string;
+  employee_name: string | null;
+  cycle_id: string;
+  cycle_name: string;
+  cycle_status: ReviewCycleStatus;
+  due_date: string | null;
+}
+
+export interface Feedback {
+  id: string;
+  review_id: string;
+  reviewer_id: string | null;
+  reviewer_name?: string | null;
+  relationship: FeedbackRelationship;
+  status: FeedbackStatus;
+  // Score per competency id
+  ratings: Record<string, number>;
+  overall_rating: number | null;
+  strengths: string | null;
+  improvements: string | null;
+  comments: string | null;
+  submitted_at: string | null;
+}
+
+export interface FeedbackInput {
+  ratings: Record<string, number>;
+  overall_rating: number;
+  strengths?: string;
+  improvements?: string;
+  comments?: string;
+}
+
+export interface KeyResult {
+  title: string;
+  target: number | null;
+  current: number;
+  unit?: string | null;
+}
+
+export interface Goal {
+  id: string;
+  employee_id: string;
+  cycle_id: string | null;
+  cycle_name?: string | null;
+  title: string;
+  description: string | null;
+  goal_type: 'goal' | 'okr';
+  key_results: KeyResult[];
+  weight: number;
+  progress: number;
+  status: GoalStatus;
+  due_date: string | null;
+  last_checkin_at?: string | null;
+}
+
+export interface GoalInput {
+  employee_id?: string;
+  cycle_id?: string | null;
+  title: string;
+  description?: string;
+  goal_type: 'goal' | 'okr';
+  key_results?: KeyResult[];
+  weight?: number;
+  due_date?: string | null;
+}
+
+export interface GoalCheckin {
+  id: string;
+  goal_id: string;
+  progress: number;
+  status: GoalStatus;
+  key_results: KeyResult[] | null;
+  note: string | null;
+  created_by_name?: string | null;
+  created_at: string;
+}
+
+export interface FeedbackForm {
+  feedback: Feedback & { employee_id: string; employee_name: string | null; cycle_id: string };
+  cycle: ReviewCycle;
+  goals: Goal[];
+}
+
+export interface PerformanceReview {
+  id: string;
+  cycle_id: string;
+  cycle_name?: string;
+  cycle_type?: ReviewCycleType;
+  cycle_status?: ReviewCycleStatus;
+  period_start?: string;
+  period_end?: string;
+  employee_id: string;
+  employee_name: string | null;
+  manager_id: string | null;
+  manager_name: string | null;
+  department_id: string | null;
+  department_name: string | null;
+  status: ReviewStatus;
+  calibrated_rating: number | null;
+  calibration_notes: string | null;
+  calibrated_by_name?: string | null;
+  final_rating: number | null;
+  final_rating_label: string | null;
+  // Task and attendance metrics for the cycle period, stored when the review is finalized
+  performance_summary: PerformanceSummary | null;
+  finalized_at: string | null;
+  self_status?: FeedbackStatus | null;
+  manager_status?: FeedbackStatus | null;
+  peer_requested?: number;
+  peer_submitted?: number;
+}
+
+export interface ReviewDetail {
+  review: PerformanceReview;
+  cycle: ReviewCycle;
+  feedback: Feedback[];
+  goals: Goal[];
+}
+
+export interface CalibrationRow {
+  id: string;
+  employee_id: string;
+  employee_name: string | null;
+  manager_name: string | null;
+  department_id: string | null;
+  department_name: string | null;
+  status: ReviewStatus;
+  self_rating: number | null;
+  manager_rating: number | null;
+  peer_rating: number | null;
+  peer_count: number;
+  calibrated_rating: number | null;
+  calibration_notes: string | null;
+  final_rating: number | null;
+  final_rating_label: string | null;
+  performance_summary: PerformanceSummary;
+}
+
+export interface Calibration {
+  cycle: ReviewCycle;
+  reviews: CalibrationRow[];
+  distribution: Array<{ value: number; label: string; manager: number; calibrated: number }>;
+}
+
+/**
+ * Get authentication token from localStorage
+ */
+function getAuthToken(): string | null {
+  return localStorage.getItem('auth_token');
+}
+
+/**
+ * Get the competency library
+ */
+export async function getCompetencies(includeInactive = false): Promise<Competency[]> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const params = new URLSearchParams();
+  if (includeInactive) params.append('include_inactive', 'true');
+
+  const response = await fetch(`${API_BASE}/api/hr/performance/competencies?${params.toString()}`, {
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch competencies' }));
+    throw new Error(error.error || error.message || 'Failed to fetch competencies');
+  }
+
+  const result = await response.json();
+  return result.data || [];
+}
+
+/**
+ * Create or update a competency
+ */
+export async function saveCompetency(competency: Partial<Competency> & { name: string }): Promise<Competency> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const url = competency.id
+    ? `${API_BASE}/api/hr/performance/competencies/${competency.id}`
+    : `${API_BASE}/api/hr/performance/competencies`;
+
+  const response = await fetch(url, {
+    method: competency.id ? 'PUT' : 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+    body: JSON.stringify(competency),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to save competency' }));
+    throw new Error(error.error || error.message || 'Failed to save competency');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Get review cycles with their progress
+ */
+export async function getReviewCycles(): Promise<ReviewCycle[]> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/hr/performance/cycles`, {
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch review cycles' }));
+    throw new Error(error.error || error.message || 'Failed to fetch review cycles');
+  }
+
+  const result = await response.json();
+  return result.data || [];
+}
+
+/**
+ * Create or update a draft review cycle
+ */
+export async function saveReviewCycle(cycle: ReviewCycleInput, cycleId?: string): Promise<ReviewCycle> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const url = cycleId
+    ? `${API_BASE}/api/hr/performance/cycles/${cycleId}`
+    : `${API_BASE}/api/hr/performance/cycles`;
+
+  const response = await fetch(url, {
+    method: cycleId ? 'PUT' : 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+    body: JSON.stringify(cycle),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to save review cycle' }));
+    throw new Error(error.error || error.message || 'Failed to save review cycle');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Delete a draft review cycle
+ */
+export async function deleteReviewCycle(cycleId: string): Promise<void> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/hr/performance/cycles/${cycleId}`, {
+    method: 'DELETE',
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to delete review cycle' }));
+    throw new Error(error.error || error.message || 'Failed to delete review cycle');
+  }
+}
+
+/**
+ * Launch a draft cycle, opening self-assessments and manager reviews
+ */
+export async function launchReviewCycle(cycleId: string): Promise<ReviewCycle> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/hr/performance/cycles/${cycleId}/launch`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+    body: JSON.stringify({}),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to launch review cycle' }));
+    throw new Error(error.error || error.message || 'Failed to launch review cycle');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Close feedback collection and open a cycle for calibration
+ */
+export async function startCycleCalibration(cycleId: string): Promise<ReviewCycle> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/hr/performance/cycles/${cycleId}/calibration`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+    body: JSON.stringify({}),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to start calibration' }));
+    throw new Error(error.error || error.message || 'Failed to start calibration');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Close a cycle, finalizing every review with its rating and performance summary
+ */
+export async function closeReviewCycle(cycleId: string): Promise<{ cycle: ReviewCycle; finalized: number }> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/hr/performance/cycles/${cycleId}/close`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+    body: JSON.stringify({}),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to close review cycle' }));
+    throw new Error(error.error || error.message || 'Failed to close review cycle');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Get the calibration view for a cycle
+ */
+export async function getCalibration(cycleId: string, departmentId?: string): Promise<Calibration> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const params = new URLSearchParams();
+  if (departmentId) params.append('department_id', departmentId);
+
+  const response = await fetch(`${API_BASE}/api/hr/performance/cycles/${cycleId}/calibration?${params.toString()}`, {
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch calibration' }));
+    throw new Error(error.error || error.message || 'Failed to fetch calibration');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Set or clear a review's calibrated rating
+ */
+export async function calibrateReview(
+  reviewId: string,
+  calibration: { calibrated_rating: number | null; calibration_notes?: string }
+): Promise<PerformanceReview> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/hr/performance/reviews/${reviewId}/calibrate`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+    body: JSON.stringify(calibration),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to calibrate review' }));
+    throw new Error(error.error || error.message || 'Failed to calibrate review');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Get the feedback forms the current user has been asked to fill in
+ */
+export async function getMyFeedbackRequests(): Promise<FeedbackRequest[]> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/hr/performance/feedback`, {
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch feedback requests' }));
+    throw new Error(error.error || error.message || 'Failed to fetch feedback requests');
+  }
+
+  const result = await response.json();
+  return result.data || [];
+}
+
+/**
+ * Get a feedback form with the cycle's competencies and rating scale
+ */
+export async function getFeedbackForm(feedbackId: string): Promise<FeedbackForm> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/hr/performance/feedback/${feedbackId}`, {
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch feedback form' }));
+    throw new Error(error.error || error.message || 'Failed to fetch feedback form');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Submit a self, manager or peer feedback form
+ */
+export async function submitFeedback(feedbackId: string, feedback: FeedbackInput): Promise<Feedback> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/hr/performance/feedback/${feedbackId}/submit`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+    body: JSON.stringify(feedback),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to submit feedback' }));
+    throw new Error(error.error || error.message || 'Failed to submit feedback');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Decline a peer feedback request
+ */
+export async function declineFeedback(feedbackId: string, reason?: string): Promise<Feedback> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/hr/performance/feedback/${feedbackId}/decline`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+    body: JSON.stringify({ reason }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to decline feedback request' }));
+    throw new Error(error.error || error.message || 'Failed to decline feedback request');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Get the current user's reviews, their team's (scope 'team') or an employee's
+ */
+export async function getReviews(filters?: {
+  scope?: 'mine' | 'team';
+  employee_id?: string;
+  cycle_id?: string;
+  status?: ReviewStatus;
+}): Promise<PerformanceReview[]> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const params = new URLSearchParams();
+  if (filters?.scope) params.append('scope', filters.scope);
+  if (filters?.employee_id) params.append('employee_id', filters.employee_id);
+  if (filters?.cycle_id) params.append('cycle_id', filters.cycle_id);
+  if (filters?.status) params.append('status', filters.status);
+
+  const response = await fetch(`${API_BASE}/api/hr/performance/reviews?${params.toString()}`, {
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch reviews' }));
+    throw new Error(error.error || error.message || 'Failed to fetch reviews');
+  }
+
+  const result = await response.json();
+  return result.data || [];
+}
+
+/**
+ * Get a review with its feedback, goals and performance summary
+ */
+export async function getReviewDetail(reviewId: string): Promise<ReviewDetail> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/hr/performance/reviews/${reviewId}`, {
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch review' }));
+    throw new Error(error.error || error.message || 'Failed to fetch review');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Ask colleagues for peer feedback on a review
+ */
+export async function requestPeerFeedback(reviewId: string, reviewerIds: string[]): Promise<{ requested: number }> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/hr/performance/reviews/${reviewId}/peers`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+    body: JSON.stringify({ reviewer_ids: reviewerIds }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to request peer feedback' }));
+    throw new Error(error.error || error.message || 'Failed to request peer feedback');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Get the current user's goals, or a team member's
+ */
+export async function getGoals(filters?: { employee_id?: string; cycle_id?: string }): Promise<Goal[]> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const params = new URLSearchParams();
+  if (filters?.employee_id) params.append('employee_id', filters.employee_id);
+  if (filters?.cycle_id) params.append('cycle_id', filters.cycle_id);
+
+  const response = await fetch(`${API_BASE}/api/hr/performance/goals?${params.toString()}`, {
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch goals' }));
+    throw new Error(error.error || error.message || 'Failed to fetch goals');
+  }
+
+  const result = await response.json();
+  return result.data || [];
+}
+
+/**
+ * Create or update a goal or OKR
+ */
+export async function saveGoal(goal: GoalInput, goalId?: string): Promise<Goal> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const url = goalId
+    ? `${API_BASE}/api/hr/performance/goals/${goalId}`
+    : `${API_BASE}/api/hr/performance/goals`;
+
+  const response = await fetch(url, {
+    method: goalId ? 'PUT' : 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+    body: JSON.stringify(goal),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to save goal' }));
+    throw new Error(error.error || error.message || 'Failed to save goal');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Delete a goal
+ */
+export async function deleteGoal(goalId: string): Promise<void> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/hr/performance/goals/${goalId}`, {
+    method: 'DELETE',
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to delete goal' }));
+    throw new Error(error.error || error.message || 'Failed to delete goal');
+  }
+}
+
+/**
+ * Get a goal's progress check-ins
+ */
+export async function getGoalCheckins(goalId: string): Promise<GoalCheckin[]> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/hr/performance/goals/${goalId}/checkins`, {
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch check-ins' }));
+    throw new Error(error.error || error.message || 'Failed to fetch check-ins');
+  }
+
+  const result = await response.json();
+  return result.data || [];
+}
+
+/**
+ * Record a progress check-in on a goal. For OKRs, key_results carries each key result's current value.
+ */
+export async function addGoalCheckin(
+  goalId: string,
+  checkin: { progress: number; status: GoalStatus; note?: string; key_results?: Array<{ current: number }> }
+): Promise<GoalCheckin> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/hr/performance/goals/${goalId}/checkins`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+    body: JSON.stringify(checkin),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to record check-in' }));
+    throw new Error(error.error || error.message || 'Failed to record check-in');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
@@ -38,6 +38,7 @@ export interface PurchaseOrder {
   payment_terms?: string;
   currency: string;
   exchange_rate: number;
+  base_total_amount?: number | null;
   subtotal: number;
   tax_amount: number;
   shipping_cost: number;
@@ -52,6 +53,10 @@ export interface PurchaseOrder {
   updated_at: string;
   supplier_name?: string;
   supplier_code?: string;
+  contract_id?: string | null;
+  contract_number?: string | null;
+  // Returned on create/update when the order runs over its contract
+  contract_warnings?: string[];
 }
 
 export interface GoodsReceipt {
@@ -504,7 +509,9 @@ export async function getRfqRfp(filters?: {
 /**
  * Create RFQ/RFP
  */
-export async function createRfqRfp(rfqData: Partial<RfqRfp>): Promise<RfqRfp> {
+export async function createRfqRfp(
+  rfqData: Partial<RfqRfp> & { items?: Array<Omit<RfqItem, 'id' | 'rfq_id'>> }
+): Promise<RfqRfp> {
   const token = getAuthToken();
   if (!token) {
     throw new Error('Authentication required');
@@ -529,6 +536,572 @@ export async function createRfqRfp(rfqData: Partial<RfqRfp>): Promise<RfqRfp> {
   return result.data;
 }
 
+export interface RfqItem {
+  id: string;
+  rfq_id: string;
+  product_id?: string;
+  product_name?: string;
+  product_sku?: string;
+  description: string;
+  quantity: number;
+  unit_of_measure: string;
+  specifications?: string;
+}
+
+export interface RfqInvitedSupplier {
+  id: string;
+  rfq_id: string;
+  supplier_id: string;
+  supplier_name: string;
+  supplier_code?: string;
+  supplier_email?: string;
+  status: 'invited' | 'responded' | 'declined';
+  invited_at: string;
+}
+
+export interface RfqBidAttachment {
+  file_name: string;
+  file_path: string;
+  file_type?: string;
+  file_size?: number;
+}
+
+export interface RfqResponseItem {
+  id: string;
+  response_id: string;
+  rfq_item_id: string;
+  unit_price: number;
+  quantity: number;
+  total_price: number;
+  delivery_days?: number | null;
+  notes?: string;
+  is_awarded: boolean;
+  po_id?: string | null;
+}
+
+export interface RfqResponse {
+  id: string;
+  rfq_id: string;
+  supplier_id: string;
+  supplier_name: string;
+  supplier_code?: string;
+  status: 'submitted' | 'under_review' | 'accepted' | 'rejected';
+  total_amount: number;
+  validity_days?: number | null;
+  lead_time_days?: number | null;
+  delivery_terms?: string;
+  payment_terms?: string;
+  notes?: string;
+  attachments: RfqBidAttachment[];
+  submitted_at: string;
+  items: RfqResponseItem[];
+}
+
+export interface RfqScoringWeights {
+  price: number;
+  lead_time: number;
+  performance: number;
+}
+
+export interface RfqDetail extends RfqRfp {
+  scoring_weights: RfqScoringWeights;
+  awarded_at?: string;
+  items: RfqItem[];
+  invited_suppliers: RfqInvitedSupplier[];
+  responses: RfqResponse[];
+}
+
+export interface RfqBidInput {
+  supplier_id: string;
+  validity_days?: number | null;
+  lead_time_days?: number | null;
+  delivery_terms?: string;
+  payment_terms?: string;
+  notes?: string;
+  attachments?: RfqBidAttachment[];
+  items: Array<{
+    rfq_item_id: string;
+    unit_price: number | string;
+    quantity?: number;
+    delivery_days?: number | null;
+    notes?: string;
+  }>;
+}
+
+export interface RfqSupplierScore {
+  response_id: string;
+  supplier_id: string;
+  supplier_name: string;
+  status: RfqResponse['status'];
+  quoted_total: number;
+  lines_quoted: number;
+  lead_time_days: number | null;
+  payment_terms?: string;
+  delivery_terms?: string;
+  validity_days?: number | null;
+  attachments: RfqBidAttachment[];
+  performance_rating: number | null;
+  on_time_delivery_rate: number | null;
+  price_score: number;
+  lead_time_score: number;
+  performance_score: number;
+  total_score: number;
+  rank: number;
+}
+
+export interface RfqComparisonBid {
+  response_id: string;
+  supplier_id: string;
+  unit_price: number;
+  line_total: number;
+  delivery_days?: number | null;
+  is_lowest: boolean;
+  is_awarded: boolean;
+  po_id?: string | null;
+}
+
+export interface RfqComparisonItem {
+  rfq_item_id: string;
+  product_id?: string;
+  description: string;
+  quantity: number;
+  unit_of_measure: string;
+  lowest_unit_price: number | null;
+  bids: RfqComparisonBid[];
+}
+
+export interface RfqComparison {
+  rfq_id: string;
+  rfq_number: string;
+  status: string;
+  currency: string;
+  weights: RfqScoringWeights;
+  suppliers: RfqSupplierScore[];
+  items: RfqComparisonItem[];
+}
+
+export interface RfqAwardResult {
+  rfq_id: string;
+  purchase_orders: Array<PurchaseOrder & { supplier_name: string }>;
+  awarded_lines: number;
+  unawarded_lines: number;
+}
+
+/**
+ * Get a single RFQ/RFP with line items, invited suppliers and bids
+ */
+export async function getRfqById(rfqId: string): Promise<RfqDetail> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/procurement/rfq/${rfqId}`, {
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch RFQ' }));
+    throw new Error(error.error || 'Failed to fetch RFQ');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Invite suppliers to bid on an RFQ
+ */
+export async function inviteRfqSuppliers(rfqId: string, supplierIds: string[]): Promise<RfqDetail> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/procurement/rfq/${rfqId}/suppliers`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+    body: JSON.stringify({ supplier_ids: supplierIds }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to invite suppliers' }));
+    throw new Error(error.error || 'Failed to invite suppliers');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Record or replace a supplier's bid on an RFQ
+ */
+export async function saveRfqBid(rfqId: string, bid: RfqBidInput): Promise<RfqResponse> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/procurement/rfq/${rfqId}/responses`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+    body: JSON.stringify(bid),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to save bid' }));
+    throw new Error(error.error || 'Failed to save bid');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Get the bid comparison matrix with weighted supplier scores
+ */
+export async function getRfqComparison(rfqId: string, weights?: RfqScoringWeights): Promise<RfqComparison> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const queryParams = new URLSearchParams();
+  if (weights) {
+    queryParams.append('price', String(weights.price));
+    queryParams.append('lead_time', String(weights.lead_time));
+    queryParams.append('performance', String(weights.performance));
+  }
+
+  const response = await fetch(`${API_BASE}/api/procurement/rfq/${rfqId}/comparison?${queryParams}`, {
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch bid comparison' }));
+    throw new Error(error.error || 'Failed to fetch bid comparison');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Award RFQ lines to winning bids; one draft purchase order is raised per winning supplier
+ */
+export async function awardRfq(
+  rfqId: string,
+  awardData: {
+    awards: Array<{ rfq_item_id: string; response_id: string }>;
+    weights?: RfqScoringWeights;
+    delivery_address?: string;
+  }
+): Promise<RfqAwardResult> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/procurement/rfq/${rfqId}/award`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+    body: JSON.stringify(awardData),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to award RFQ' }));
+    throw new Error(error.error || 'Failed to award RFQ');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+export interface SupplierInvoiceItem {
+  id: string;
+  vendor_invoice_id: string;
+  po_item_id?: string | null;
+  product_id?: string | null;
+  description: string;
+  hsn_sac_code?: string | null;
+  quantity: number;
+  unit_price: number;
+  taxable_value: number;
+  gst_rate: number;
+  tax_amount: number;
+  match_status: 'pending' | 'matched' | 'exception';
+  match_notes: string[] | null;
+  po_unit_price?: number | null;
+  po_quantity?: number | null;
+  received_quantity?: number | null;
+  previously_billed_quantity?: number | null;
+}
+
+export interface SupplierInvoice {
+  id: string;
+  agency_id: string;
+  supplier_id: string;
+  invoice_number: string;
+  supplier_invoice_number?: string | null;
+  po_id?: string | null;
+  grn_id?: string | null;
+  invoice_date: string;
+  due_date?: string | null;
+  subtotal: number;
+  tax_amount: number;
+  total_amount: number;
+  currency: string;
+  exchange_rate: number;
+  base_total_amount?: number | null;
+  supply_type: 'intra_state' | 'inter_state';
+  place_of_supply?: string | null;
+  status: 'pending' | 'approved' | 'paid' | 'disputed' | 'cancelled';
+  payment_status: 'unpaid' | 'partial' | 'paid';
+  match_status: 'unmatched' | 'matched' | 'exception';
+  match_summary?: {
+    lines?: number;
+    exception_lines?: number;
+    price_tolerance_percent?: number;
+    quantity_tolerance_percent?: number;
+  } | null;
+  matched_at?: string | null;
+  override_reason?: string | null;
+  journal_entry_id?: string | null;
+  journal_entry_number?: string | null;
+  gst_posted_at?: string | null;
+  notes?: string | null;
+  approved_by?: string | null;
+  approved_at?: string | null;
+  created_at: string;
+  updated_at: string;
+  supplier_name?: string;
+  supplier_gstin?: string | null;
+  po_number?: string | null;
+  grn_number?: string | null;
+  items?: SupplierInvoiceItem[];
+}
+
+export interface SupplierInvoiceInput {
+  supplier_id: string;
+  supplier_invoice_number: string;
+  po_id?: string | null;
+  grn_id?: string | null;
+  invoice_date: string;
+  due_date?: string | null;
+  currency?: string;
+  supply_type?: 'intra_state' | 'inter_state';
+  place_of_supply?: string;
+  notes?: string;
+  items: Array<{
+    po_item_id?: string | null;
+    product_id?: string | null;
+    description: string;
+    hsn_sac_code?: string;
+    quantity: number;
+    unit_price: number;
+    gst_rate: number;
+  }>;
+}
+
+export interface PurchaseOrderBillingLine {
+  po_item_id: string;
+  product_id?: string | null;
+  description: string;
+  ordered_quantity: number;
+  unit_price: number;
+  received_quantity: number;
+  billed_quantity: number;
+}
+
+/**
+ * Get supplier invoices
+ */
+export async function getSupplierInvoices(filters?: {
+  status?: string;
+  match_status?: string;
+  supplier_id?: string;
+}): Promise<SupplierInvoice[]> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const queryParams = new URLSearchParams();
+  if (filters?.status) queryParams.append('status', filters.status);
+  if (filters?.match_status) queryParams.append('match_status', filters.match_status);
+  if (filters?.supplier_id) queryParams.append('supplier_id', filters.supplier_id);
+
+  const response = await fetch(`${API_BASE}/api/procurement/supplier-invoices?${queryParams}`, {
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch supplier invoices' }));
+    throw new Error(error.error || 'Failed to fetch supplier invoices');
+  }
+
+  const result = await response.json();
+  return result.data || [];
+}
+
+/**
+ * Get a supplier invoice with its lines and match results
+ */
+export async function getSupplierInvoiceById(invoiceId: string): Promise<SupplierInvoice> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/procurement/supplier-invoices/${invoiceId}`, {
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch supplier invoice' }));
+    throw new Error(error.error || 'Failed to fetch supplier invoice');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Ordered, received and already billed quantities per PO line, for prefilling a bill
+ */
+export async function getPurchaseOrderBillingLines(poId: string, grnId?: string): Promise<PurchaseOrderBillingLine[]> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const queryParams = new URLSearchParams();
+  if (grnId) queryParams.append('grn_id', grnId);
+
+  const response = await fetch(`${API_BASE}/api/procurement/supplier-invoices/po-lines/${poId}?${queryParams}`, {
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch purchase order lines' }));
+    throw new Error(error.error || 'Failed to fetch purchase order lines');
+  }
+
+  const result = await response.json();
+  return result.data || [];
+}
+
+/**
+ * Record a supplier invoice; the three-way match runs on save
+ */
+export async function createSupplierInvoice(invoiceData: SupplierInvoiceInput): Promise<SupplierInvoice> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/procurement/supplier-invoices`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+    body: JSON.stringify(invoiceData),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to record supplier invoice' }));
+    throw new Error(error.error || 'Failed to record supplier invoice');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+async function postSupplierInvoiceAction(
+  invoiceId: string,
+  action: 'rematch' | 'approve' | 'dispute',
+  body: Record<string, unknown>,
+  fallbackError: string
+): Promise<SupplierInvoice> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/procurement/supplier-invoices/${invoiceId}/${action}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: fallbackError }));
+    throw new Error(error.error || fallbackError);
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Re-run the three-way match for a pending invoice
+ */
+export async function rematchSupplierInvoice(invoiceId: string): Promise<SupplierInvoice> {
+  return postSupplierInvoiceAction(invoiceId, 'rematch', {}, 'Failed to match supplier invoice');
+}
+
+/**
+ * Approve a supplier invoice; exceptions need an override reason
+ */
+export async function approveSupplierInvoice(invoiceId: string, overrideReason?: string): Promise<SupplierInvoice> {
+  return postSupplierInvoiceAction(
+    invoiceId,
+    'approve',
+    { override_reason: overrideReason },
+    'Failed to approve supplier invoice'
+  );
+}
+
+/**
+ * Dispute a pending supplier invoice
+ */
+export async function disputeSupplierInvoice(invoiceId: string, reason?: string): Promise<SupplierInvoice> {
+  return postSupplierInvoiceAction(invoiceId, 'dispute', { reason }, 'Failed to dispute supplier invoice');
+}
+
 export interface VendorContract {
   id: string;
   agency_id: string;
@@ -550,10 +1123,67 @@ export interface VendorContract {
   signed_date?: string;
   document_url?: string;
   notes?: string;
+  renewal_type?: 'manual' | 'auto';
+  renewal_term_months?: number | null;
+  reminder_days?: number[] | null;
+  last_reminder_days?: number | null;
+  renewal_count?: number;
+  owner_id?: string | null;
+  owner_name?: string | null;
+  consumed_value?: number | string;
+  po_count?: number | string;
+  days_remaining?: number;
   created_at: string;
   updated_at: string;
 }
 
+export interface VendorContractPrice {
+  id?: string;
+  contract_id?: string;
+  product_id?: string | null;
+  product_name?: string | null;
+  product_sku?: string | null;
+  description: string;
+  unit_price: number;
+  unit_of_measure?: string | null;
+  min_quantity: number;
+  notes?: string | null;
+}
+
+export interface VendorContractRenewal {
+  id: string;
+  contract_id: string;
+  renewal_type: 'manual' | 'auto';
+  previous_end_date?: string | null;
+  new_end_date: string;
+  previous_value?: number | null;
+  new_value?: number | null;
+  notes?: string | null;
+  renewed_by?: string | null;
+  renewed_by_name?: string | null;
+  created_at: string;
+}
+
+export interface VendorContractRenewInput {
+  new_end_date?: string;
+  term_months?: number;
+  new_value?: number;
+  notes?: string;
+}
+
+export interface ContractCheckResult {
+  contract: VendorContract | null;
+  violations: {
+    description: string;
+    product_id: string | null;
+    quantity: number;
+    unit_price: number;
+    contract_price: number;
+  }[];
+  warnings: string[];
+  enforcement: 'block' | 'warn' | 'off';
+}
+
 export interface VendorPerformance {
   id: string;
   agency_id: string;
@@ -720,6 +1350,210 @@ export async function deleteVendorContract(contractId: string): Promise<void> {
   }
 }
 
+/**
+ * Get active contracts ending within the given number of days
+ */
+export async function getExpiringVendorContracts(days = 90): Promise<VendorContract[]> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/procurement/vendor-contracts/expiring?days=${days}`, {
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch expiring contracts' }));
+    throw new Error(error.error || 'Failed to fetch expiring contracts');
+  }
+
+  const result = await response.json();
+  return result.data || [];
+}
+
+/**
+ * Get the price schedule of a vendor contract
+ */
+export async function getVendorContractPrices(contractId: string): Promise<VendorContractPrice[]> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/procurement/vendor-contracts/${contractId}/prices`, {
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch price schedule' }));
+    throw new Error(error.error || 'Failed to fetch price schedule');
+  }
+
+  const result = await response.json();
+  return result.data || [];
+}
+
+/**
+ * Replace the price schedule of a vendor contract
+ */
+export async function saveVendorContractPrices(
+  contractId: string,
+  lines: VendorContractPrice[]
+): Promise<VendorContractPrice[]> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/procurement/vendor-contracts/${contractId}/prices`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+    body: JSON.stringify({ lines }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to save price schedule' }));
+    throw new Error(error.error || error.message || 'Failed to save price schedule');
+  }
+
+  const result = await response.json();
+  return result.data || [];
+}
+
+/**
+ * Get purchase orders issued under a vendor contract
+ */
+export async function getVendorContractPurchaseOrders(contractId: string): Promise<PurchaseOrder[]> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/procurement/vendor-contracts/${contractId}/purchase-orders`, {
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch contract purchase orders' }));
+    throw new Error(error.error || 'Failed to fetch contract purchase orders');
+  }
+
+  const result = await response.json();
+  return result.data || [];
+}
+
+/**
+ * Get the renewal history of a vendor contract
+ */
+export async function getVendorContractRenewals(contractId: string): Promise<VendorContractRenewal[]> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/procurement/vendor-contracts/${contractId}/renewals`, {
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch renewal history' }));
+    throw new Error(error.error || 'Failed to fetch renewal history');
+  }
+
+  const result = await response.json();
+  return result.data || [];
+}
+
+/**
+ * Renew a vendor contract by hand
+ */
+export async function renewVendorContract(
+  contractId: string,
+  renewal: VendorContractRenewInput
+): Promise<VendorContract> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/procurement/vendor-contracts/${contractId}/renew`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+    body: JSON.stringify(renewal),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to renew contract' }));
+    throw new Error(error.error || error.message || 'Failed to renew contract');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Check purchase order lines against the supplier's contract before saving
+ */
+export async function checkPurchaseOrderContract(orderData: {
+  supplier_id: string;
+  contract_id?: string | null;
+  order_date?: string;
+  currency?: string;
+  exchange_rate?: number;
+  items: Array<{
+    product_id?: string | null;
+    description: string;
+    quantity: number;
+    unit_price: number;
+  }>;
+  total_amount?: number;
+  po_id?: string;
+}): Promise<ContractCheckResult> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/procurement/purchase-orders/contract-check`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+    body: JSON.stringify(orderData),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to check contract prices' }));
+    throw new Error(error.error || error.message || 'Failed to check contract prices');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
 /**
  * Get vendor performance records
  */
@@ -0,0 +1,653 @@
+/**
+ * Project Enhancements Service
+ * Frontend API client for task-level Gantt scheduling, risk/issue registers,
+ * milestones and project health
+ */
+
+import { getApiBaseUrl } from '@/config/api';
+
+const API_BASE = getApiBaseUrl();
+
+export type DependencyType = 'finish_to_start' | 'start_to_start' | 'finish_to_finish' | 'start_to_finish';
+
+export interface GanttTaskSchedule {
+  start_date: string;
+  finish_date: string;
+  duration_days: number;
+  late_start: string;
+  late_finish: string;
+  total_slack: number;
+  is_critical: boolean;
+}
+
+export interface GanttTask {
+  id: string;
+  name: string;
+  description?: string | null;
+  status: string;
+  priority?: string | null;
+  start_date: string | null;
+  due_date: string | null;
+  estimated_hours?: number | string | null;
+  actual_hours?: number | string | null;
+  progress_percentage: number | null;
+  assignee_id?: string | null;
+  project_id: string;
+  schedule?: GanttTaskSchedule;
+}
+
+export interface TaskDependency {
+  id: string;
+  predecessor_task_id: string;
+  successor_task_id: string;
+  dependency_type: DependencyType;
+  lag_days: number;
+}
+
+export interface GanttMilestone {
+  id: string;
+  name: string;
+  target_date: string | null;
+  status: string;
+  is_critical: boolean;
+}
+
+export interface GanttData {
+  tasks: GanttTask[];
+  dependencies: TaskDependency[];
+  milestones: GanttMilestone[];
+  critical_path: string[];
+  project_start: string | null;
+  project_finish: string | null;
+}
+
+export interface ShiftedTask {
+  id: string;
+  start_date: string;
+  due_date: string;
+  shifted_days: number;
+}
+
+export interface TaskDependencyInput {
+  predecessor_task_id: string;
+  successor_task_id: string;
+  dependency_type: DependencyType;
+  lag_days?: number;
+}
+
+export interface TaskRescheduleResult {
+  task: { id: string; start_date: string; due_date: string };
+  shifted_tasks: ShiftedTask[];
+}
+
+export type RiskLevel = 'low' | 'medium' | 'high';
+export type RiskStatus = 'open' | 'mitigated' | 'closed' | 'accepted';
+export type IssueSeverity = 'low' | 'medium' | 'high' | 'critical';
+export type IssueStatus = 'open' | 'in_progress' | 'resolved' | 'closed';
+export type MilestoneStatus = 'pending' | 'in_progress' | 'completed' | 'delayed';
+export type MilestoneInvoiceTrigger = 'none' | 'on_completion';
+export type ProjectHealthStatus = 'on_track' | 'at_risk' | 'off_track';
+
+export interface ProjectRisk {
+  id: string;
+  project_id: string;
+  risk_title: string;
+  description: string | null;
+  category: string | null;
+  probability: RiskLevel;
+  impact: RiskLevel;
+  risk_score: number;
+  status: RiskStatus;
+  mitigation_plan: string | null;
+  owner_id: string | null;
+  owner_name?: string | null;
+  owner_email?: string | null;
+  identified_date: string | null;
+  resolved_date: string | null;
+  created_at: string;
+}
+
+export interface ProjectRiskInput {
+  risk_title?: string;
+  description?: string | null;
+  category?: string | null;
+  probability?: RiskLevel;
+  impact?: RiskLevel;
+  status?: RiskStatus;
+  mitigation_plan?: string | null;
+  owner_id?: string | null;
+}
+
+export interface ProjectIssue {
+  id: string;
+  project_id: string;
+  issue_title: string;
+  description: string | null;
+  priority: IssueSeverity;
+  severity: IssueSeverity;
+  status: IssueStatus;
+  issue_type: string | null;
+  assigned_to: string | null;
+  assignee_name?: string | null;
+  reported_by: string | null;
+  reporter_name?: string | null;
+  due_date: string | null;
+  resolved_date: string | null;
+  resolution_notes: string | null;
+  created_at: string;
+}
+
+export interface ProjectIssueInput {
+  issue_title?: string;
+  description?: string | null;
+  priority?: IssueSeverity;
+  severity?: IssueSeverity;
+  status?: IssueStatus;
+  issue_type?: string | null;
+  assigned_to?: string | null;
+  due_date?: string | null;
+  resolution_notes?: string | null;
+}
+
+export interface ProjectMilestone {
+  id: string;
+  project_id: string;
+  name: string;
+  description: string | null;
+  target_date: string;
+  status: MilestoneStatus;
+  completion_date: string | null;
+  is_critical: boolean;
+  billing_amount: number | string | null;
+  billing_percentage: number | string | null;
+  invoice_trigger: MilestoneInvoiceTrigger | null;
+  invoice_id: string | null;
+  invoiced_at: string | null;
+  invoice_number?: string | null;
+  invoice_status?: string | null;
+  invoice_amount?: number | string | null;
+}
+
+export interface ProjectMilestoneInput {
+  name?: string;
+  description?: string | null;
+  target_date?: string;
+  status?: MilestoneStatus;
+  is_critical?: boolean;
+  billing_amount?: number | null;
+  billing_percentage?: number | null;
+  invoice_trigger?: MilestoneInvoiceTrigger;
+}
+
+export interface MilestoneInvoiceResult {
+  milestone: ProjectMilestone;
+  invoice: { id: string; invoice_number: string; total_amount: number };
+}
+
+export interface ProjectHealthFlag {
+  level: 'amber' | 'red';
+  message: string;
+}
+
+export interface ProjectHealth {
+  status: ProjectHealthStatus;
+  flags: ProjectHealthFlag[];
+  risks: {
+    open: number;
+    high: number;
+    heat_map: Record<string, number>;
+  };
+  issues: {
+    open: number;
+    severe: number;
+    overdue: number;
+    resolved: number;
+  };
+  milestones: {
+    total: number;
+    completed: number;
+    overdue: number;
+    next: { id: string; name: string; target_date: string } | null;
+    invoiced_amount: number;
+    uninvoiced_amount: number;
+  };
+  tasks: {
+    total: number;
+    completed: number;
+    overdue: number;
+    blocked: number;
+  };
+  budget: {
+    budget: number;
+    actual_cost: number;
+    utilization: number | null;
+  };
+}
+
+function getAuthToken(): string | null {
+  return localStorage.getItem('auth_token');
+}
+
+function getHeaders(token: string, withBody = false): Record<string, string> {
+  return {
+    ...(withBody ? { 'Content-Type': 'application/json' } : {}),
+    'Authorization': `Bearer ${token}`,
+    'X-Agency-Database': localStorage.getItem('agency_database') || '',
+  };
+}
+
+/**
+ * Get task-level Gantt data for a project
+ */
+export async function getProjectGantt(projectId: string): Promise<GanttData> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/projects/${projectId}/gantt`, {
+    headers: getHeaders(token),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch Gantt data' }));
+    throw new Error(error.error || 'Failed to fetch Gantt data');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Create task dependency
+ */
+export async function createTaskDependency(
+  projectId: string,
+  dependencyData: TaskDependencyInput
+): Promise<TaskDependency & { shifted_tasks: ShiftedTask[] }> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/projects/${projectId}/dependencies`, {
+    method: 'POST',
+    headers: getHeaders(token, true),
+    body: JSON.stringify(dependencyData),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to create dependency' }));
+    throw new Error(error.error || 'Failed to create dependency');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Delete task dependency
+ */
+export async function deleteTaskDependency(projectId: string, dependencyId: string): Promise<void> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/projects/${projectId}/dependencies/${dependencyId}`, {
+    method: 'DELETE',
+    headers: getHeaders(token),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to delete dependency' }));
+    throw new Error(error.error || 'Failed to delete dependency');
+  }
+}
+
+/**
+ * Move or resize a task; dependent tasks are shifted by the server
+ */
+export async function rescheduleGanttTask(
+  projectId: string,
+  taskId: string,
+  scheduleData: { start_date: string; due_date: string }
+): Promise<TaskRescheduleResult> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/projects/${projectId}/gantt/tasks/${taskId}/schedule`, {
+    method: 'PUT',
+    headers: getHeaders(token, true),
+    body: JSON.stringify(scheduleData),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to reschedule task' }));
+    throw new Error(error.error || 'Failed to reschedule task');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Get risk register for a project
+ */
+export async function getProjectRisks(projectId: string): Promise<ProjectRisk[]> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/projects/${projectId}/risks`, {
+    headers: getHeaders(token),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch risks' }));
+    throw new Error(error.error || 'Failed to fetch risks');
+  }
+
+  const result = await response.json();
+  return result.data || [];
+}
+
+/**
+ * Create project risk
+ */
+export async function createProjectRisk(projectId: string, riskData: ProjectRiskInput): Promise<ProjectRisk> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/projects/${projectId}/risks`, {
+    method: 'POST',
+    headers: getHeaders(token, true),
+    body: JSON.stringify(riskData),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to create risk' }));
+    throw new Error(error.error || 'Failed to create risk');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Update project risk
+ */
+export async function updateProjectRisk(projectId: string, riskId: string, riskData: ProjectRiskInput): Promise<ProjectRisk> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/projects/${projectId}/risks/${riskId}`, {
+    method: 'PUT',
+    headers: getHeaders(token, true),
+    body: JSON.stringify(riskData),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to update risk' }));
+    throw new Error(error.error || 'Failed to update risk');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Delete project risk
+ */
+export async function deleteProjectRisk(projectId: string, riskId: string): Promise<void> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/projects/${projectId}/risks/${riskId}`, {
+    method: 'DELETE',
+    headers: getHeaders(token),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to delete risk' }));
+    throw new Error(error.error || 'Failed to delete risk');
+  }
+}
+
+/**
+ * Get issue log for a project
+ */
+export async function getProjectIssues(projectId: string): Promise<ProjectIssue[]> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/projects/${projectId}/issues`, {
+    headers: getHeaders(token),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch issues' }));
+    throw new Error(error.error || 'Failed to fetch issues');
+  }
+
+  const result = await response.json();
+  return result.data || [];
+}
+
+/**
+ * Create project issue
+ */
+export async function createProjectIssue(projectId: string, issueData: ProjectIssueInput): Promise<ProjectIssue> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/projects/${projectId}/issues`, {
+    method: 'POST',
+    headers: getHeaders(token, true),
+    body: JSON.stringify(issueData),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to create issue' }));
+    throw new Error(error.error || 'Failed to create issue');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Update project issue
+ */
+export async function updateProjectIssue(projectId: string, issueId: string, issueData: ProjectIssueInput): Promise<ProjectIssue> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/projects/${projectId}/issues/${issueId}`, {
+    method: 'PUT',
+    headers: getHeaders(token, true),
+    body: JSON.stringify(issueData),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to update issue' }));
+    throw new Error(error.error || 'Failed to update issue');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Delete project issue
+ */
+export async function deleteProjectIssue(projectId: string, issueId: string): Promise<void> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/projects/${projectId}/issues/${issueId}`, {
+    method: 'DELETE',
+    headers: getHeaders(token),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to delete issue' }));
+    throw new Error(error.error || 'Failed to delete issue');
+  }
+}
+
+/**
+ * Get milestones for a project
+ */
+export async function getProjectMilestones(projectId: string): Promise<ProjectMilestone[]> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/projects/${projectId}/milestones`, {
+    headers: getHeaders(token),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch milestones' }));
+    throw new Error(error.error || 'Failed to fetch milestones');
+  }
+
+  const result = await response.json();
+  return result.data || [];
+}
+
+/**
+ * Create project milestone
+ */
+export async function createProjectMilestone(projectId: string, milestoneData: ProjectMilestoneInput): Promise<ProjectMilestone> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/projects/${projectId}/milestones`, {
+    method: 'POST',
+    headers: getHeaders(token, true),
+    body: JSON.stringify(milestoneData),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to create milestone' }));
+    throw new Error(error.error || 'Failed to create milestone');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Update project milestone; completing a billable milestone returns the raised invoice
+ */
+export async function updateProjectMilestone(
+  projectId: string,
+  milestoneId: string,
+  milestoneData: ProjectMilestoneInput
+): Promise<ProjectMilestone & { invoice: MilestoneInvoiceResult['invoice'] | null }> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/projects/${projectId}/milestones/${milestoneId}`, {
+    method: 'PUT',
+    headers: getHeaders(token, true),
+    body: JSON.stringify(milestoneData),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to update milestone' }));
+    throw new Error(error.error || 'Failed to update milestone');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Raise the draft invoice for a milestone
+ */
+export async function invoiceProjectMilestone(projectId: string, milestoneId: string): Promise<MilestoneInvoiceResult> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/projects/${projectId}/milestones/${milestoneId}/invoice`, {
+    method: 'POST',
+    headers: getHeaders(token),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to raise milestone invoice' }));
+    throw new Error(error.error || 'Failed to raise milestone invoice');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Delete project milestone
+ */
+export async function deleteProjectMilestone(projectId: string, milestoneId: string): Promise<void> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/projects/${projectId}/milestones/${milestoneId}`, {
+    method: 'DELETE',
+    headers: getHeaders(token),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to delete milestone' }));
+    throw new Error(error.error || 'Failed to delete milestone');
+  }
+}
+
+/**
+ * Get project health summary
+ */
+export async function getProjectHealth(projectId: string): Promise<ProjectHealth> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/projects/${projectId}/health`, {
+    headers: getHeaders(token),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch project health' }));
+    throw new Error(error.error || 'Failed to fetch project health');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
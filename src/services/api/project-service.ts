@@ -869,7 +869,8 @@ class ProjectService {
       totalInvoiced: 0,
       totalPaid: 0,
       outstanding: 0,
-      invoiceCount: 0
+      invoiceCount: 0,
+      materialCost: 0
     };
 
     if (project.client_id) {
@@ -892,6 +893,7 @@ class ProjectService {
         }, 0);
 
         financials = {
+          ...financials,
           totalInvoiced,
           totalPaid,
           outstanding: totalInvoiced - totalPaid,
@@ -902,6 +904,43 @@ class ProjectService {
       }
     }
 
+    // Material cost from stock issued against the project's reservations
+    try {
+      const reservations = await selectRecords<{
+        status: string;
+        quantity: string | number;
+        issued_quantity: string | number;
+        released_quantity: string | number;
+        issued_cost: string | number;
+      }>('inventory_reservations', {
+        filters: [
+          { column: 'agency_id', operator: 'eq', value: agencyId },
+          { column: 'project_id', operator: 'eq', value: id }
+        ]
+      });
+
+      financials.materialCost = reservations.reduce((sum, res) => {
+        return sum + (parseFloat(String(res.issued_cost)) || 0);
+      }, 0);
+      financials.reservedMaterialQuantity = reservations
+        .filter((res) => res.status === 'active')
+        .reduce((sum, res) => {
+          return (
+            sum +
+            (parseFloat(String(res.quantity)) || 0) -
+            (parseFloat(String(res.issued_quantity)) || 0) -
+            (parseFloat(String(res.released_quantity)) || 0)
+          );
+        }, 0);
+      financials.reservationCount = reservations.length;
+    } catch (error) {
+      console.error('Error fetching project material cost:', error);
+    }
+
+    // Project cost is the recorded actual cost plus materials issued to the project
+    financials.totalCost = (parseFloat(String(project.actual_cost)) || 0) + financials.materialCost;
+    financials.profit = financials.totalPaid - financials.totalCost;
+
     return {
       ...project,
       financials
@@ -20,6 +20,13 @@ const getStorageItem = (key: string): string | null => {
   }
 };
 
+// Read the file name from a Content-Disposition header
+const getFileNameFromResponse = (response: Response, fallback: string): string => {
+  const disposition = response.headers.get('Content-Disposition') || '';
+  const match = disposition.match(/filename="?([^";]+)"?/);
+  return match ? match[1] : fallback;
+};
+
 export interface MonthlyReportData {
   revenue: number;
   expenses: number;
@@ -127,6 +134,7 @@ export interface ReportExport {
   file_path?: string;
   file_name?: string;
   file_size?: number;
+  mime_type?: string;
   status: 'pending' | 'processing' | 'completed' | 'failed';
   generated_by?: string;
   generated_by_email?: string;
@@ -1003,6 +1011,53 @@ export class ReportService extends BaseApiService {
     return result.data || [];
   }
 
+  /**
+   * Export custom report as a PDF, Excel or CSV file
+   */
+  static async exportCustomReport(
+    module: 'inventory' | 'procurement' | 'assets' | 'financial',
+    format: 'pdf' | 'excel' | 'csv',
+    options: {
+      filters?: Record<string, unknown>;
+      columns?: string[];
+      columnLabels?: { key: string; label: string }[];
+      orderBy?: string;
+      title?: string;
+      sheetBy?: string;
+    } = {}
+  ): Promise<{ blob: Blob; fileName: string }> {
+    const token = localStorage.getItem('auth_token');
+    if (!token) {
+      throw new Error('Authentication required');
+    }
+
+    const API_BASE = getApiBaseUrl();
+
+    const response = await fetch(`${API_BASE}/api/reports/custom`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+        'X-Agency-Database': localStorage.getItem('agency_database') || '',
+      },
+      body: JSON.stringify({
+        module,
+        format,
+        ...options,
+      }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: 'Failed to export custom report' }));
+      throw new Error(error.error || 'Failed to export custom report');
+    }
+
+    return {
+      blob: await response.blob(),
+      fileName: getFileNameFromResponse(response, `${module}_report.${format === 'excel' ? 'xlsx' : format}`),
+    };
+  }
+
   /**
    * Get scheduled reports
    */
@@ -1208,6 +1263,36 @@ export class ReportService extends BaseApiService {
     }, {});
   }
 
+  /**
+   * Download the stored file of a report export
+   */
+  static async downloadReportExport(exportId: string): Promise<{ blob: Blob; fileName: string }> {
+    const API_BASE = getApiBaseUrl();
+    const token = getStorageItem('auth_token');
+    if (!token) {
+      throw new Error('Authentication required');
+    }
+
+    const agencyDatabase = getStorageItem('agency_database') || '';
+
+    const response = await fetch(`${API_BASE}/api/reports/exports/${exportId}/download`, {
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'X-Agency-Database': agencyDatabase,
+      },
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: 'Failed to download report export' }));
+      throw new Error(error.error || 'Failed to download report export');
+    }
+
+    return {
+      blob: await response.blob(),
+      fileName: getFileNameFromResponse(response, `report_${exportId}`),
+    };
+  }
+
   /**
    * Delete report export
    */
@@ -0,0 +1,512 @@
+/**
+ * Shift Service
+ * Frontend API client for shifts, rotations, weekly rosters and shift-aware clock-in/clock-out
+ */
+
+import { getApiBaseUrl } from '@/config/api';
+
+const API_BASE = getApiBaseUrl();
+
+export interface Shift {
+  id: string;
+  name: string;
+  code: string | null;
+  // Wall-clock times (HH:MM:SS) in the agency timezone
+  start_time: string;
+  end_time: string;
+  break_minutes: number;
+  grace_minutes: number;
+  early_exit_grace_minutes: number;
+  overtime_threshold_minutes: number;
+  color: string;
+  is_default: boolean;
+  is_active: boolean;
+  // Ends the day after it starts
+  is_night_shift?: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type ShiftInput = Omit<Shift, 'id' | 'is_night_shift' | 'created_at' | 'updated_at'>;
+
+export interface ShiftRotation {
+  id: string;
+  name: string;
+  description: string | null;
+  // One entry per day of the cycle: a shift id, or null for a day off
+  pattern: (string | null)[];
+  is_active: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type ShiftRotationInput = Omit<ShiftRotation, 'id' | 'created_at' | 'updated_at'>;
+
+export interface RosterEmployee {
+  user_id: string;
+  full_name: string;
+  department_id: string | null;
+  department_name: string | null;
+}
+
+export interface ShiftAssignment {
+  id: string;
+  employee_id: string;
+  shift_date: string;
+  // null is a rostered day off
+  shift_id: string | null;
+  shift_name?: string | null;
+  shift_code?: string | null;
+  shift_color?: string | null;
+  start_time?: string | null;
+  end_time?: string | null;
+  is_night_shift?: boolean | null;
+  department_id?: string | null;
+  rotation_id?: string | null;
+  rotation_name?: string | null;
+  notes?: string | null;
+}
+
+export interface RosterAttendance {
+  id: string;
+  employee_id: string;
+  date: string;
+  check_in_time: string | null;
+  check_out_time: string | null;
+  status: string;
+  total_hours: number | null;
+  overtime_hours: number | null;
+  late_minutes: number | null;
+  early_out_minutes: number | null;
+  shift_id: string | null;
+}
+
+export interface Roster {
+  start_date: string;
+  end_date: string;
+  employees: RosterEmployee[];
+  assignments: ShiftAssignment[];
+  attendance: RosterAttendance[];
+}
+
+export interface RosterChange {
+  employee_id: string;
+  shift_date: string;
+  shift_id?: string | null;
+  department_id?: string | null;
+  notes?: string | null;
+  // Remove the roster entry instead of setting it
+  clear?: boolean;
+}
+
+export interface CurrentShift {
+  shift_date: string;
+  assignment_id: string | null;
+  shift: Pick<
+    Shift,
+    | 'id'
+    | 'name'
+    | 'code'
+    | 'start_time'
+    | 'end_time'
+    | 'break_minutes'
+    | 'grace_minutes'
+    | 'early_exit_grace_minutes'
+    | 'overtime_threshold_minutes'
+  > | null;
+  scheduled_start: string | null;
+  scheduled_end: string | null;
+  is_off_day: boolean;
+}
+
+export interface ShiftAttendanceRecord {
+  id: string;
+  user_id: string;
+  employee_id: string;
+  date: string;
+  check_in_time: string | null;
+  check_out_time: string | null;
+  hours_worked: number | null;
+  total_hours: number | null;
+  overtime_hours: number | null;
+  location: string | null;
+  status: string;
+  notes: string | null;
+  shift_assignment_id: string | null;
+  shift_id: string | null;
+  scheduled_start: string | null;
+  scheduled_end: string | null;
+  late_minutes: number;
+  early_out_minutes: number;
+  is_off_day?: boolean;
+  agency_id?: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+/**
+ * Get authentication token from localStorage
+ */
+function getAuthToken(): string | null {
+  return localStorage.getItem('auth_token');
+}
+
+/**
+ * Get shift definitions
+ */
+export async function getShifts(filters?: { is_active?: boolean }): Promise<Shift[]> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const params = new URLSearchParams();
+  if (filters?.is_active !== undefined) params.append('is_active', String(filters.is_active));
+
+  const response = await fetch(`${API_BASE}/api/hr/shifts?${params.toString()}`, {
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch shifts' }));
+    throw new Error(error.error || 'Failed to fetch shifts');
+  }
+
+  const result = await response.json();
+  return result.data || [];
+}
+
+/**
+ * Create a shift, or update it when an id is given
+ */
+export async function saveShift(shift: ShiftInput, shiftId?: string): Promise<Shift> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/hr/shifts${shiftId ? `/${shiftId}` : ''}`, {
+    method: shiftId ? 'PUT' : 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+    body: JSON.stringify(shift),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to save shift' }));
+    throw new Error(error.error || error.message || 'Failed to save shift');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Delete a shift; shifts already rostered are deactivated instead
+ */
+export async function deleteShift(shiftId: string): Promise<{ id: string; deactivated: boolean }> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/hr/shifts/${shiftId}`, {
+    method: 'DELETE',
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to delete shift' }));
+    throw new Error(error.error || error.message || 'Failed to delete shift');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Get shift rotation patterns
+ */
+export async function getShiftRotations(): Promise<ShiftRotation[]> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/hr/shifts/rotations`, {
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch shift rotations' }));
+    throw new Error(error.error || 'Failed to fetch shift rotations');
+  }
+
+  const result = await response.json();
+  return result.data || [];
+}
+
+/**
+ * Create a shift rotation, or update it when an id is given
+ */
+export async function saveShiftRotation(rotation: ShiftRotationInput, rotationId?: string): Promise<ShiftRotation> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/hr/shifts/rotations${rotationId ? `/${rotationId}` : ''}`, {
+    method: rotationId ? 'PUT' : 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+    body: JSON.stringify(rotation),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to save shift rotation' }));
+    throw new Error(error.error || error.message || 'Failed to save shift rotation');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Delete a shift rotation
+ */
+export async function deleteShiftRotation(rotationId: string): Promise<void> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/hr/shifts/rotations/${rotationId}`, {
+    method: 'DELETE',
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to delete shift rotation' }));
+    throw new Error(error.error || error.message || 'Failed to delete shift rotation');
+  }
+}
+
+/**
+ * Roster employees onto a rotation for a date range
+ */
+export async function applyShiftRotation(
+  rotationId: string,
+  input: { employee_ids: string[]; start_date: string; end_date: string; offset?: number; department_id?: string | null }
+): Promise<{ saved: number }> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/hr/shifts/rotations/${rotationId}/apply`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+    body: JSON.stringify(input),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to apply shift rotation' }));
+    throw new Error(error.error || error.message || 'Failed to apply shift rotation');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Get the roster for a week, optionally for one department
+ */
+export async function getRoster(filters: { start_date: string; end_date?: string; department_id?: string }): Promise<Roster> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const params = new URLSearchParams();
+  params.append('start_date', filters.start_date);
+  if (filters.end_date) params.append('end_date', filters.end_date);
+  if (filters.department_id) params.append('department_id', filters.department_id);
+
+  const response = await fetch(`${API_BASE}/api/hr/shifts/roster?${params.toString()}`, {
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch roster' }));
+    throw new Error(error.error || 'Failed to fetch roster');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Save roster changes
+ */
+export async function saveRoster(assignments: RosterChange[]): Promise<{ saved: number; cleared: number }> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/hr/shifts/roster`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+    body: JSON.stringify({ assignments }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to save roster' }));
+    throw new Error(error.error || error.message || 'Failed to save roster');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Copy one week's roster onto another week
+ */
+export async function copyRosterWeek(input: {
+  from_start_date: string;
+  to_start_date: string;
+  department_id?: string;
+}): Promise<{ copied: number }> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/hr/shifts/roster/copy`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+    body: JSON.stringify(input),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to copy roster' }));
+    throw new Error(error.error || error.message || 'Failed to copy roster');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Get the shift the signed-in employee is working now
+ */
+export async function getCurrentShift(): Promise<CurrentShift> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/hr/attendance/current-shift`, {
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch current shift' }));
+    throw new Error(error.error || 'Failed to fetch current shift');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Clock the signed-in employee in against their rostered shift
+ */
+export async function clockInToShift(input?: { location?: string | null }): Promise<ShiftAttendanceRecord> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/hr/attendance/clock-in`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+    body: JSON.stringify(input || {}),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to clock in' }));
+    throw new Error(error.error || error.message || 'Failed to clock in');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Clock the signed-in employee out; hours, early-out and overtime are measured against the shift
+ */
+export async function clockOutOfShift(input?: { location?: string | null }): Promise<ShiftAttendanceRecord> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/hr/attendance/clock-out`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+    body: JSON.stringify(input || {}),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to clock out' }));
+    throw new Error(error.error || error.message || 'Failed to clock out');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
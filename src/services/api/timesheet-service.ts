@@ -0,0 +1,350 @@
+/**
+ * Timesheet Service
+ * Frontend API client for weekly timesheets, their approval and invoicing approved billable hours
+ */
+
+import { getApiBaseUrl } from '@/config/api';
+
+const API_BASE = getApiBaseUrl();
+
+export type TimesheetStatus = 'draft' | 'submitted' | 'approved' | 'rejected';
+
+export interface Timesheet {
+  id: string;
+  employee_id: string;
+  employee_name?: string | null;
+  week_start: string;
+  week_end: string;
+  status: TimesheetStatus;
+  total_hours: number;
+  billable_hours: number;
+  notes: string | null;
+  submitted_at: string | null;
+  workflow_instance_id: string | null;
+  decided_by_name?: string | null;
+  decided_at: string | null;
+  decision_comments: string | null;
+  // Approvers the timesheet is waiting on
+  pending_with?: string | null;
+  // The pending approval the current user can act on
+  my_approval_id?: string | null;
+}
+
+export interface TimesheetRow {
+  task_id: string;
+  task_title: string;
+  project_id: string | null;
+  project_name: string | null;
+  billable: boolean;
+  // Hours by date (YYYY-MM-DD)
+  hours: Record<string, number>;
+  invoiced?: boolean;
+}
+
+export interface TimesheetTaskOption {
+  task_id: string;
+  task_title: string;
+  project_id: string | null;
+  project_name: string | null;
+}
+
+export interface TimesheetWeek {
+  employee_id: string;
+  week_start: string;
+  week_end: string;
+  dates: string[];
+  timesheet: Timesheet | null;
+  // Submitted and approved weeks cannot be edited
+  locked: boolean;
+  rows: TimesheetRow[];
+  tasks: TimesheetTaskOption[];
+}
+
+export interface BillableLine {
+  employee_id: string;
+  employee_name: string;
+  hourly_rate: number | null;
+  hours: number;
+  amount: number;
+  entries: number;
+}
+
+export interface BillableSummary {
+  project_id: string;
+  start_date: string;
+  end_date: string;
+  lines: BillableLine[];
+  total_hours: number;
+  total_amount: number;
+  missing_rates: string[];
+  // Billable time in the period whose timesheet is not approved yet
+  unapproved_hours: number;
+}
+
+export interface TimesheetInvoiceResult {
+  invoice: { id: string; invoice_number: string; total_amount: number };
+  hours: number;
+  entries: number;
+}
+
+/**
+ * Get authentication token from localStorage
+ */
+function getAuthToken(): string | null {
+  return localStorage.getItem('auth_token');
+}
+
+/**
+ * Get the current user's timesheet for the week containing a date (defaults to this week)
+ */
+export async function getTimesheetWeek(weekOf?: string): Promise<TimesheetWeek> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const params = new URLSearchParams();
+  if (weekOf) params.append('week_of', weekOf);
+
+  const response = await fetch(`${API_BASE}/api/timesheets/week?${params.toString()}`, {
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch timesheet' }));
+    throw new Error(error.error || 'Failed to fetch timesheet');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Save the current user's timesheet grid for a week
+ */
+export async function saveTimesheetWeek(weekOf: string, rows: TimesheetRow[]): Promise<TimesheetWeek> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/timesheets/week`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+    body: JSON.stringify({
+      week_of: weekOf,
+      rows: rows.map((row) => ({ task_id: row.task_id, billable: row.billable, hours: row.hours })),
+    }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to save timesheet' }));
+    throw new Error(error.error || error.message || 'Failed to save timesheet');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Submit the current user's week for approval
+ */
+export async function submitTimesheet(weekOf: string, notes?: string): Promise<TimesheetWeek> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/timesheets/week/submit`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+    body: JSON.stringify({ week_of: weekOf, notes }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to submit timesheet' }));
+    throw new Error(error.error || error.message || 'Failed to submit timesheet');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Recall a submitted timesheet before it is decided
+ */
+export async function recallTimesheet(timesheetId: string): Promise<TimesheetWeek> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/timesheets/${timesheetId}/recall`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to recall timesheet' }));
+    throw new Error(error.error || error.message || 'Failed to recall timesheet');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Get the current user's timesheets
+ */
+export async function getMyTimesheets(status?: TimesheetStatus): Promise<Timesheet[]> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const params = new URLSearchParams();
+  if (status) params.append('status', status);
+
+  const response = await fetch(`${API_BASE}/api/timesheets?${params.toString()}`, {
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch timesheets' }));
+    throw new Error(error.error || 'Failed to fetch timesheets');
+  }
+
+  const result = await response.json();
+  return result.data || [];
+}
+
+/**
+ * Get timesheets waiting on the current user's approval
+ */
+export async function getTimesheetsAwaitingApproval(): Promise<Timesheet[]> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/timesheets/approvals`, {
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch timesheet approvals' }));
+    throw new Error(error.error || 'Failed to fetch timesheet approvals');
+  }
+
+  const result = await response.json();
+  return result.data || [];
+}
+
+/**
+ * Get a timesheet's grid (for its employee and approvers)
+ */
+export async function getTimesheetDetail(timesheetId: string): Promise<TimesheetWeek> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/timesheets/${timesheetId}`, {
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch timesheet' }));
+    throw new Error(error.error || 'Failed to fetch timesheet');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Preview approved billable hours for a project and period
+ */
+export async function getBillableSummary(filters: {
+  project_id: string;
+  start_date: string;
+  end_date: string;
+}): Promise<BillableSummary> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const params = new URLSearchParams(filters);
+
+  const response = await fetch(`${API_BASE}/api/timesheets/billing/summary?${params.toString()}`, {
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch billable hours' }));
+    throw new Error(error.error || error.message || 'Failed to fetch billable hours');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Raise a draft client invoice from a project's approved billable hours in a period
+ */
+export async function createTimesheetInvoiceDraft(billing: {
+  project_id: string;
+  start_date: string;
+  end_date: string;
+}): Promise<TimesheetInvoiceResult> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(`${API_BASE}/api/timesheets/billing/invoice-drafts`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+      'X-Agency-Database': localStorage.getItem('agency_database') || '',
+    },
+    body: JSON.stringify(billing),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to create invoice draft' }));
+    throw new Error(error.error || error.message || 'Failed to create invoice draft');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
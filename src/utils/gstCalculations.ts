@@ -0,0 +1,217 @@
+/**
+ * GST calculation helpers
+ * Determines place of supply and splits line-level GST into CGST/SGST or IGST
+ */
+
+export type SupplyType = 'intra_state' | 'inter_state';
+
+export interface IndianState {
+  code: string;
+  name: string;
+}
+
+/**
+ * GST state codes as used in the first two digits of a GSTIN
+ */
+export const INDIAN_STATES: IndianState[] = [
+  { code: '01', name: 'Jammu and Kashmir' },
+  { code: '02', name: 'Himachal Pradesh' },
+  { code: '03', name: 'Punjab' },
+  { code: '04', name: 'Chandigarh' },
+  { code: '05', name: 'Uttarakhand' },
+  { code: '06', name: 'Haryana' },
+  { code: '07', name: 'Delhi' },
+  { code: '08', name: 'Rajasthan' },
+  { code: '09', name: 'Uttar Pradesh' },
+  { code: '10', name: 'Bihar' },
+  { code: '11', name: 'Sikkim' },
+  { code: '12', name: 'Arunachal Pradesh' },
+  { code: '13', name: 'Nagaland' },
+  { code: '14', name: 'Manipur' },
+  { code: '15', name: 'Mizoram' },
+  { code: '16', name: 'Tripura' },
+  { code: '17', name: 'Meghalaya' },
+  { code: '18', name: 'Assam' },
+  { code: '19', name: 'West Bengal' },
+  { code: '20', name: 'Jharkhand' },
+  { code: '21', name: 'Odisha' },
+  { code: '22', name: 'Chhattisgarh' },
+  { code: '23', name: 'Madhya Pradesh' },
+  { code: '24', name: 'Gujarat' },
+  { code: '26', name: 'Dadra and Nagar Haveli and Daman and Diu' },
+  { code: '27', name: 'Maharashtra' },
+  { code: '29', name: 'Karnataka' },
+  { code: '30', name: 'Goa' },
+  { code: '31', name: 'Lakshadweep' },
+  { code: '32', name: 'Kerala' },
+  { code: '33', name: 'Tamil Nadu' },
+  { code: '34', name: 'Puducherry' },
+  { code: '35', name: 'Andaman and Nicobar Islands' },
+  { code: '36', name: 'Telangana' },
+  { code: '37', name: 'Andhra Pradesh' },
+  { code: '38', name: 'Ladakh' },
+  { code: '97', name: 'Other Territory' },
+];
+
+export const GST_RATES = [0, 0.25, 3, 5, 12, 18, 28];
+
+export interface GSTLineInput {
+  quantity: number;
+  unit_price: number;
+  discount_percentage?: number;
+  gst_rate: number;
+}
+
+export interface GSTLineResult {
+  taxable_value: number;
+  cgst_amount: number;
+  sgst_amount: number;
+  igst_amount: number;
+  tax_amount: number;
+  line_total: number;
+}
+
+export interface GSTInvoiceSummary {
+  subtotal: number;
+  discount: number;
+  cgst_amount: number;
+  sgst_amount: number;
+  igst_amount: number;
+  tax_amount: number;
+  total_amount: number;
+}
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Get the two-digit state code from a GSTIN (e.g. "27AAAAA0000A1Z5" -> "27")
+ */
+export function getStateCodeFromGstin(gstin?: string | null): string | null {
+  if (!gstin) return null;
+  const code = gstin.trim().substring(0, 2);
+  return /^\d{2}$/.test(code) ? code : null;
+}
+
+/**
+ * Resolve a state name or code to its GST state code
+ */
+export function getStateCode(state?: string | null): string | null {
+  if (!state) return null;
+  const value = state.trim().toLowerCase();
+  if (!value) return null;
+  const match = INDIAN_STATES.find(s => s.code === value || s.name.toLowerCase() === value);
+  return match ? match.code : null;
+}
+
+export function getStateName(code?: string | null): string {
+  return INDIAN_STATES.find(s => s.code === code)?.name || '';
+}
+
+/**
+ * Work out the client's place of supply: the client's GSTIN wins,
+ * then the billing state, then the registered state
+ */
+export function resolvePlaceOfSupply(client?: {
+  tax_id?: string | null;
+  billing_state?: string | null;
+  state?: string | null;
+} | null): string | null {
+  if (!client) return null;
+  return (
+    getStateCodeFromGstin(client.tax_id) ||
+    getStateCode(client.billing_state) ||
+    getStateCode(client.state)
+  );
+}
+
+/**
+ * Supplies within the supplier's own state attract CGST + SGST, all others IGST.
+ * Without a known place of supply the supply is treated as intra-state.
+ */
+export function determineSupplyType(
+  supplierStateCode: string | null,
+  placeOfSupply: string | null
+): SupplyType {
+  if (!supplierStateCode || !placeOfSupply) return 'intra_state';
+  return supplierStateCode === placeOfSupply ? 'intra_state' : 'inter_state';
+}
+
+/**
+ * Split GST on a taxable value into CGST + SGST or IGST
+ */
+function splitTax(taxableValue: number, rate: number, supplyType: SupplyType): GSTLineResult {
+  let cgstAmount = 0;
+  let sgstAmount = 0;
+  let igstAmount = 0;
+  if (supplyType === 'inter_state') {
+    igstAmount = round2(taxableValue * rate / 100);
+  } else {
+    cgstAmount = round2(taxableValue * (rate / 2) / 100);
+    sgstAmount = round2(taxableValue * (rate / 2) / 100);
+  }
+
+  const taxAmount = round2(cgstAmount + sgstAmount + igstAmount);
+  return {
+    taxable_value: taxableValue,
+    cgst_amount: cgstAmount,
+    sgst_amount: sgstAmount,
+    igst_amount: igstAmount,
+    tax_amount: taxAmount,
+    line_total: round2(taxableValue + taxAmount),
+  };
+}
+
+/**
+ * Calculate the taxable value and GST split for a single line
+ */
+export function calculateLineTax(line: GSTLineInput, supplyType: SupplyType): GSTLineResult {
+  const quantity = Number(line.quantity) || 0;
+  const unitPrice = Number(line.unit_price) || 0;
+  const discountPct = Number(line.discount_percentage) || 0;
+
+  const gross = quantity * unitPrice;
+  return splitTax(round2(gross - gross * (discountPct / 100)), Number(line.gst_rate) || 0, supplyType);
+}
+
+/**
+ * Calculate every line of an invoice with an invoice-level discount.
+ * The discount is spread across lines in proportion to their taxable value
+ * (the last line takes the rounding remainder) so GST is charged on the
+ * discounted value. The summary subtotal is before the invoice discount.
+ */
+export function calculateInvoiceTax(
+  lines: GSTLineInput[],
+  supplyType: SupplyType,
+  discount = 0
+): { lines: GSTLineResult[]; summary: GSTInvoiceSummary } {
+  const taxableValues = lines.map(line => calculateLineTax(line, supplyType).taxable_value);
+  const subtotal = round2(taxableValues.reduce((sum, value) => sum + value, 0));
+  const invoiceDiscount = subtotal > 0 ? Math.min(Math.max(Number(discount) || 0, 0), subtotal) : 0;
+
+  let allocated = 0;
+  const results = lines.map((line, index) => {
+    const share = index === lines.length - 1
+      ? round2(invoiceDiscount - allocated)
+      : round2(invoiceDiscount * taxableValues[index] / subtotal);
+    allocated = round2(allocated + share);
+    return splitTax(round2(taxableValues[index] - share), Number(line.gst_rate) || 0, supplyType);
+  });
+
+  const summary = results.reduce<GSTInvoiceSummary>((total, result) => ({
+    ...total,
+    cgst_amount: round2(total.cgst_amount + result.cgst_amount),
+    sgst_amount: round2(total.sgst_amount + result.sgst_amount),
+    igst_amount: round2(total.igst_amount + result.igst_amount),
+    tax_amount: round2(total.tax_amount + result.tax_amount),
+    total_amount: round2(total.total_amount + result.line_total),
+  }), { subtotal, discount: invoiceDiscount, cgst_amount: 0, sgst_amount: 0, igst_amount: 0, tax_amount: 0, total_amount: 0 });
+
+  return { lines: results, summary };
+}
+
+/**
+ * Sum the GST split across all invoice lines
+ */
+export function summarizeInvoiceTax(lines: GSTLineInput[], supplyType: SupplyType, discount = 0): GSTInvoiceSummary {
+  return calculateInvoiceTax(lines, supplyType, discount).summary;
+}
@@ -0,0 +1,401 @@
+/**
+ * Payroll calculation helpers
+ * Splits a monthly gross into salary structure components, prorates for loss of pay
+ * and computes PF, ESI, professional tax and TDS from the agency's statutory settings
+ */
+
+export type ComponentCalculation = 'fixed' | 'percent_of_gross' | 'percent_of_basic' | 'balance';
+
+export interface SalaryComponent {
+  code: string;
+  name: string;
+  calculation: ComponentCalculation;
+  /** Amount for fixed components, percentage for the percent_of_* ones, ignored for balance */
+  value: number;
+  /** Counts towards PF wages (basic and DA usually do) */
+  pf_applicable: boolean;
+}
+
+export interface TaxSlab {
+  /** Lower bound of the slab, inclusive */
+  from: number;
+  /** Upper bound of the slab; null for the top slab */
+  to: number | null;
+  /** Percentage for TDS slabs, monthly amount for professional tax slabs */
+  rate: number;
+}
+
+export interface StatutorySettings {
+  pf_enabled: boolean;
+  pf_employee_rate: number;
+  pf_employer_rate: number;
+  pf_wage_ceiling: number;
+  pf_restrict_to_ceiling: boolean;
+  esi_enabled: boolean;
+  esi_employee_rate: number;
+  esi_employer_rate: number;
+  esi_wage_limit: number;
+  pt_enabled: boolean;
+  pt_slabs: TaxSlab[];
+  tds_enabled: boolean;
+  tds_slabs: TaxSlab[];
+  tds_standard_deduction: number;
+  tds_rebate_limit: number;
+  tds_rebate_max: number;
+  tds_cess_rate: number;
+  overtime_multiplier: number;
+  /** Days of the week (0 = Sunday) that are not working days */
+  weekly_offs: number[];
+}
+
+/**
+ * Default components for employees without an assigned structure
+ */
+export const DEFAULT_SALARY_COMPONENTS: SalaryComponent[] = [
+  { code: 'BASIC', name: 'Basic', calculation: 'percent_of_gross', value: 50, pf_applicable: true },
+  { code: 'HRA', name: 'House Rent Allowance', calculation: 'percent_of_basic', value: 40, pf_applicable: false },
+  { code: 'SPECIAL', name: 'Special Allowance', calculation: 'balance', value: 0, pf_applicable: false },
+];
+
+/**
+ * Defaults follow the current EPF/ESIC rates, Karnataka professional tax and the new income tax regime
+ */
+export const DEFAULT_STATUTORY_SETTINGS: StatutorySettings = {
+  pf_enabled: true,
+  pf_employee_rate: 12,
+  pf_employer_rate: 12,
+  pf_wage_ceiling: 15000,
+  pf_restrict_to_ceiling: true,
+  esi_enabled: true,
+  esi_employee_rate: 0.75,
+  esi_employer_rate: 3.25,
+  esi_wage_limit: 21000,
+  pt_enabled: true,
+  pt_slabs: [
+    { from: 0, to: 24999, rate: 0 },
+    { from: 25000, to: null, rate: 200 },
+  ],
+  tds_enabled: true,
+  tds_slabs: [
+    { from: 0, to: 400000, rate: 0 },
+    { from: 400000, to: 800000, rate: 5 },
+    { from: 800000, to: 1200000, rate: 10 },
+    { from: 1200000, to: 1600000, rate: 15 },
+    { from: 1600000, to: 2000000, rate: 20 },
+    { from: 2000000, to: 2400000, rate: 25 },
+    { from: 2400000, to: null, rate: 30 },
+  ],
+  tds_standard_deduction: 75000,
+  tds_rebate_limit: 1200000,
+  tds_rebate_max: 60000,
+  tds_cess_rate: 4,
+  overtime_multiplier: 1.5,
+  weekly_offs: [0, 6],
+};
+
+export interface ComponentAmount {
+  code: string;
+  name: string;
+  /** Full-month amount from the structure */
+  monthly: number;
+  /** Amount after loss of pay proration */
+  earned: number;
+  pf_applicable: boolean;
+}
+
+// Overtime threshold for attendance without a recorded figure; matches the attendance
+// module's rule for days without a rostered shift
+export const STANDARD_DAY_HOURS = 9;
+
+export interface AttendanceDay {
+  date: string;
+  status: string;
+  overtime_hours?: number | null;
+  total_hours?: number | null;
+}
+
+export interface LeaveSpan {
+  start_date: string;
+  end_date: string;
+  is_paid: boolean;
+}
+
+export interface PayDays {
+  working_days: number;
+  lop_days: number;
+  paid_days: number;
+  hours_worked: number;
+  overtime_hours: number;
+}
+
+export interface PayrollInput {
+  monthlyGross: number;
+  components: SalaryComponent[];
+  settings: StatutorySettings;
+  days: PayDays;
+  /** Pending adjustments for the period */
+  arrears?: number;
+  bonus?: number;
+  /** Bonus and arrears that are not taxable (e.g. reimbursements) */
+  nonTaxableAdjustments?: number;
+  otherDeductions?: number;
+}
+
+export interface PayrollBreakdown {
+  earnings: ComponentAmount[];
+  monthly_gross: number;
+  base_salary: number;
+  allowances: number;
+  lop_amount: number;
+  overtime_pay: number;
+  arrears: number;
+  bonus: number;
+  gross_salary: number;
+  pf_employee: number;
+  pf_employer: number;
+  esi_employee: number;
+  esi_employer: number;
+  professional_tax: number;
+  tds: number;
+  other_deductions: number;
+  deductions: number;
+  net_salary: number;
+}
+
+export const roundMoney = (amount: number): number => Math.round((amount + Number.EPSILON) * 100) / 100;
+
+const toNumber = (value: unknown): number => {
+  const n = Number(value);
+  return Number.isFinite(n) ? n : 0;
+};
+
+/**
+ * Split a monthly gross into structure components.
+ * Fixed and percentage components are applied in order; a balance component takes what is left.
+ */
+export function splitSalaryComponents(monthlyGross: number, components: SalaryComponent[]): ComponentAmount[] {
+  const gross = toNumber(monthlyGross);
+  const list = components.length > 0 ? components : DEFAULT_SALARY_COMPONENTS;
+  const basicComponent = list.find((c) => c.code.toUpperCase() === 'BASIC');
+
+  const basic = !basicComponent
+    ? 0
+    : basicComponent.calculation === 'fixed'
+      ? toNumber(basicComponent.value)
+      : basicComponent.calculation === 'percent_of_gross'
+        ? (gross * toNumber(basicComponent.value)) / 100
+        : 0;
+
+  const amounts: ComponentAmount[] = list.map((component) => {
+    let monthly = 0;
+    if (component === basicComponent) {
+      monthly = basic;
+    } else if (component.calculation === 'fixed') {
+      monthly = toNumber(component.value);
+    } else if (component.calculation === 'percent_of_gross') {
+      monthly = (gross * toNumber(component.value)) / 100;
+    } else if (component.calculation === 'percent_of_basic') {
+      monthly = (basic * toNumber(component.value)) / 100;
+    }
+    return { code: component.code, name: component.name, monthly: roundMoney(monthly), earned: 0, pf_applicable: !!component.pf_applicable };
+  });
+
+  const allocated = amounts.reduce((sum, a, i) => (list[i].calculation === 'balance' ? sum : sum + a.monthly), 0);
+  const balanceIndex = list.findIndex((c) => c.calculation === 'balance');
+  if (balanceIndex >= 0) {
+    amounts[balanceIndex].monthly = roundMoney(Math.max(0, gross - allocated));
+  }
+
+  return amounts;
+}
+
+const toDate = (value: string): Date => new Date(`${value.slice(0, 10)}T00:00:00`);
+const dateKey = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+/**
+ * Working days in a period, excluding weekly offs and holidays
+ */
+export function getWorkingDates(startDate: string, endDate: string, weeklyOffs: number[], holidays: string[] = []): string[] {
+  const holidaySet = new Set(holidays.map((h) => h.slice(0, 10)));
+  const dates: string[] = [];
+  const end = toDate(endDate);
+  for (let d = toDate(startDate); d <= end; d.setDate(d.getDate() + 1)) {
+    const key = dateKey(d);
+    if (!weeklyOffs.includes(d.getDay()) && !holidaySet.has(key)) {
+      dates.push(key);
+    }
+  }
+  return dates;
+}
+
+/**
+ * Loss of pay days from attendance and approved leave.
+ * Absent days count in full and half days as 0.5; days covered by paid leave are not LOP,
+ * days covered by unpaid leave are LOP whether or not attendance was marked.
+ */
+export function calculatePayDays(
+  workingDates: string[],
+  attendance: AttendanceDay[],
+  leaves: LeaveSpan[]
+): PayDays {
+  const working = new Set(workingDates);
+  const paidLeave = new Set<string>();
+  const unpaidLeave = new Set<string>();
+
+  for (const leave of leaves) {
+    const end = toDate(leave.end_date);
+    for (let d = toDate(leave.start_date); d <= end; d.setDate(d.getDate() + 1)) {
+      const key = dateKey(d);
+      if (!working.has(key)) continue;
+      (leave.is_paid ? paidLeave : unpaidLeave).add(key);
+    }
+  }
+
+  let lop = unpaidLeave.size;
+  let hoursWorked = 0;
+  let overtimeHours = 0;
+
+  for (const day of attendance) {
+    const key = day.date.slice(0, 10);
+    const hours = toNumber(day.total_hours);
+    hoursWorked += hours;
+    // Clock-out records carry shift-based overtime; older manual records fall back to the standard day
+    overtimeHours += day.overtime_hours != null
+      ? toNumber(day.overtime_hours)
+      : Math.max(0, hours - STANDARD_DAY_HOURS);
+    if (!working.has(key) || paidLeave.has(key) || unpaidLeave.has(key)) continue;
+    if (day.status === 'absent') lop += 1;
+    else if (day.status === 'half_day') lop += 0.5;
+  }
+
+  const workingDays = workingDates.length;
+  const lopDays = Math.min(lop, workingDays);
+  return {
+    working_days: workingDays,
+    lop_days: lopDays,
+    paid_days: workingDays - lopDays,
+    hours_worked: roundMoney(hoursWorked),
+    overtime_hours: roundMoney(overtimeHours),
+  };
+}
+
+/**
+ * Tax on an amount using progressive percentage slabs
+ */
+export function calculateSlabTax(amount: number, slabs: TaxSlab[]): number {
+  let tax = 0;
+  for (const slab of slabs) {
+    if (amount <= slab.from) continue;
+    const upper = slab.to === null ? amount : Math.min(amount, slab.to);
+    tax += ((upper - slab.from) * toNumber(slab.rate)) / 100;
+  }
+  return tax;
+}
+
+/**
+ * Annual income tax with standard deduction, rebate and cess
+ */
+export function calculateAnnualTax(annualIncome: number, settings: StatutorySettings): number {
+  const taxable = Math.max(0, annualIncome - toNumber(settings.tds_standard_deduction));
+  let tax = calculateSlabTax(taxable, settings.tds_slabs);
+  if (taxable <= toNumber(settings.tds_rebate_limit)) {
+    tax = Math.max(0, tax - toNumber(settings.tds_rebate_max));
+  }
+  return tax * (1 + toNumber(settings.tds_cess_rate) / 100);
+}
+
+/**
+ * Monthly professional tax from the slab the gross falls in; slab rates are flat amounts
+ */
+export function calculateProfessionalTax(gross: number, slabs: TaxSlab[]): number {
+  // The highest slab the gross has reached, so gaps between slab bounds cannot drop the tax
+  const slab = [...slabs].sort((a, b) => b.from - a.from).find((s) => gross >= s.from);
+  return slab ? toNumber(slab.rate) : 0;
+}
+
+/**
+ * Full payroll breakdown for one employee for one period
+ */
+export function calculatePayroll(input: PayrollInput): PayrollBreakdown {
+  const { settings, days } = input;
+  const monthlyGross = toNumber(input.monthlyGross);
+  const ratio = days.working_days > 0 ? days.paid_days / days.working_days : 1;
+
+  const earnings = splitSalaryComponents(monthlyGross, input.components).map((c) => ({
+    ...c,
+    earned: roundMoney(c.monthly * ratio),
+  }));
+
+  const earnedTotal = earnings.reduce((sum, c) => sum + c.earned, 0);
+  const basicEarned = earnings.find((c) => c.code.toUpperCase() === 'BASIC')?.earned ?? earnedTotal;
+  const lopAmount = roundMoney(monthlyGross - earnedTotal);
+
+  // Overtime at the hourly rate of a 160 hour month
+  const overtimePay = roundMoney(days.overtime_hours * (monthlyGross / 160) * toNumber(settings.overtime_multiplier));
+  const arrears = roundMoney(toNumber(input.arrears));
+  const bonus = roundMoney(toNumber(input.bonus));
+  const grossSalary = roundMoney(earnedTotal + overtimePay + arrears + bonus);
+
+  let pfEmployee = 0;
+  let pfEmployer = 0;
+  if (settings.pf_enabled) {
+    const pfWages = earnings.filter((c) => c.pf_applicable).reduce((sum, c) => sum + c.earned, 0);
+    const base = settings.pf_restrict_to_ceiling ? Math.min(pfWages, toNumber(settings.pf_wage_ceiling)) : pfWages;
+    pfEmployee = Math.round((base * toNumber(settings.pf_employee_rate)) / 100);
+    pfEmployer = Math.round((base * toNumber(settings.pf_employer_rate)) / 100);
+  }
+
+  // ESI coverage is decided on the full monthly wage; contributions are rounded up
+  let esiEmployee = 0;
+  let esiEmployer = 0;
+  if (settings.esi_enabled && monthlyGross <= toNumber(settings.esi_wage_limit)) {
+    const esiWages = grossSalary - bonus;
+    esiEmployee = Math.ceil((esiWages * toNumber(settings.esi_employee_rate)) / 100);
+    esiEmployer = Math.ceil((esiWages * toNumber(settings.esi_employer_rate)) / 100);
+  }
+
+  const professionalTax = settings.pt_enabled ? calculateProfessionalTax(grossSalary, settings.pt_slabs) : 0;
+
+  // TDS: annualised regular salary spread over 12 months, plus the marginal tax on one-off amounts
+  let tds = 0;
+  if (settings.tds_enabled) {
+    const annualRegular = monthlyGross * 12;
+    const regularTax = calculateAnnualTax(annualRegular, settings);
+    const oneOff = Math.max(0, arrears + bonus - toNumber(input.nonTaxableAdjustments));
+    const oneOffTax = oneOff > 0 ? calculateAnnualTax(annualRegular + oneOff, settings) - regularTax : 0;
+    tds = Math.round(regularTax / 12 + oneOffTax);
+  }
+
+  const otherDeductions = roundMoney(toNumber(input.otherDeductions));
+  const deductions = roundMoney(pfEmployee + esiEmployee + professionalTax + otherDeductions);
+
+  return {
+    earnings,
+    monthly_gross: roundMoney(monthlyGross),
+    base_salary: roundMoney(basicEarned),
+    allowances: roundMoney(earnedTotal - basicEarned),
+    lop_amount: lopAmount,
+    overtime_pay: overtimePay,
+    arrears,
+    bonus,
+    gross_salary: grossSalary,
+    pf_employee: pfEmployee,
+    pf_employer: pfEmployer,
+    esi_employee: esiEmployee,
+    esi_employer: esiEmployer,
+    professional_tax: professionalTax,
+    tds,
+    other_deductions: otherDeductions,
+    deductions,
+    net_salary: roundMoney(grossSalary - deductions - tds),
+  };
+}
+
+/**
+ * Arrears owed for a past period after a retrospective salary revision
+ */
+export function calculateArrear(oldMonthlyGross: number, newMonthlyGross: number, paidDays: number, workingDays: number): number {
+  if (workingDays <= 0) return 0;
+  return roundMoney(Math.max(0, newMonthlyGross - oldMonthlyGross) * (paidDays / workingDays));
+}
@@ -27,7 +27,9 @@ export const ROLE_PAGES: Record<AppRole, PageConfig[]> = {
     { path: '/documents', title: 'Documents', icon: 'FileText', exists: true, category: 'management' },
     { path: '/messages', title: 'Messages', icon: 'Mail', exists: true, category: 'management' },
     { path: '/attendance', title: 'Attendance', icon: 'Clock', exists: true, category: 'hr' },
+    { path: '/shift-roster', title: 'Shift Roster', icon: 'Clock', exists: true, category: 'hr' },
     { path: '/leave-requests', title: 'Leave Requests', icon: 'ClipboardList', exists: true, category: 'hr' },
+    { path: '/leave-policies', title: 'Leave Policies', icon: 'CalendarDays', exists: true, category: 'hr' },
     { path: '/employee-performance', title: 'Employee Performance', icon: 'TrendingUp', exists: true, category: 'hr' },
     { path: '/calendar', title: 'Calendar', icon: 'Calendar', exists: true, category: 'hr' },
     { path: '/holiday-management', title: 'Holiday Management', icon: 'CalendarDays', exists: true, category: 'hr' },
@@ -38,6 +40,7 @@ export const ROLE_PAGES: Record<AppRole, PageConfig[]> = {
     { path: '/receipts', title: 'Receipts', icon: 'Receipt', exists: true, category: 'finance' },
     { path: '/ledger', title: 'Ledger', icon: 'BookOpen', exists: true, category: 'finance' },
     { path: '/gst-compliance', title: 'GST Compliance', icon: 'FileBarChart', exists: true, category: 'finance' },
+    { path: '/budgets', title: 'Budgets', icon: 'Target', exists: true, category: 'finance' },
     { path: '/reimbursements', title: 'Reimbursements', icon: 'DollarSign', exists: true, category: 'finance' },
     { path: '/quotations', title: 'Quotations', icon: 'FileCheck', exists: true, category: 'finance' },
     { path: '/projects', title: 'Projects', icon: 'Briefcase', exists: true, category: 'projects' },
@@ -49,6 +52,7 @@ export const ROLE_PAGES: Record<AppRole, PageConfig[]> = {
     { path: '/inventory/serial-batch', title: 'Serial & Batch Tracking', icon: 'Hash', exists: true, category: 'inventory' },
     { path: '/inventory/warehouses', title: 'Warehouses', icon: 'Warehouse', exists: true, category: 'inventory' },
     { path: '/inventory/stock-levels', title: 'Stock Levels', icon: 'TrendingUp', exists: true, category: 'inventory' },
+    { path: '/inventory/stock-takes', title: 'Stock Takes', icon: 'ClipboardList', exists: true, category: 'inventory' },
     { path: '/inventory/transfers', title: 'Transfers', icon: 'ArrowRightLeft', exists: true, category: 'inventory' },
     { path: '/inventory/adjustments', title: 'Adjustments', icon: 'Edit', exists: true, category: 'inventory' },
     { path: '/inventory/reports', title: 'Inventory Reports', icon: 'BarChart3', exists: true, category: 'reports' },
@@ -58,6 +62,7 @@ export const ROLE_PAGES: Record<AppRole, PageConfig[]> = {
     { path: '/procurement/purchase-orders', title: 'Purchase Orders', icon: 'ShoppingBag', exists: true, category: 'procurement' },
     { path: '/procurement/requisitions', title: 'Requisitions', icon: 'FileText', exists: true, category: 'procurement' },
     { path: '/procurement/goods-receipts', title: 'Goods Receipts', icon: 'PackageCheck', exists: true, category: 'procurement' },
+    { path: '/procurement/supplier-invoices', title: 'Supplier Invoices', icon: 'Receipt', exists: true, category: 'procurement' },
     { path: '/procurement/rfq', title: 'RFQ/RFP', icon: 'FileSearch', exists: true, category: 'procurement' },
     { path: '/procurement/vendor-contracts', title: 'Vendor Contracts', icon: 'FileText', exists: true, category: 'procurement' },
     { path: '/procurement/vendor-performance', title: 'Vendor Performance', icon: 'TrendingUp', exists: true, category: 'procurement' },
@@ -67,6 +72,8 @@ export const ROLE_PAGES: Record<AppRole, PageConfig[]> = {
     { path: '/assets/categories', title: 'Asset Categories', icon: 'FolderTree', exists: true, category: 'assets' },
     { path: '/assets/locations', title: 'Asset Locations', icon: 'MapPin', exists: true, category: 'assets' },
     { path: '/assets/maintenance', title: 'Asset Maintenance', icon: 'Wrench', exists: true, category: 'assets' },
+    { path: '/assets/maintenance-plans', title: 'Maintenance Plans', icon: 'CalendarDays', exists: true, category: 'assets' },
+    { path: '/assets/custody', title: 'Asset Custody', icon: 'ClipboardList', exists: true, category: 'assets' },
     { path: '/assets/depreciation', title: 'Asset Depreciation', icon: 'TrendingDown', exists: true, category: 'assets' },
     { path: '/assets/disposals', title: 'Asset Disposals', icon: 'Trash2', exists: true, category: 'assets' },
     { path: '/assets/reports', title: 'Asset Reports', icon: 'BarChart3', exists: true, category: 'reports' },
@@ -135,6 +142,7 @@ export const ROLE_PAGES: Record<AppRole, PageConfig[]> = {
     { path: '/receipts', title: 'Receipts', icon: 'Receipt', exists: true, category: 'finance' },
     { path: '/ledger', title: 'Ledger', icon: 'BookOpen', exists: true, category: 'finance' },
     { path: '/gst-compliance', title: 'GST Compliance', icon: 'FileText', exists: true, category: 'finance' },
+    { path: '/budgets', title: 'Budgets', icon: 'Target', exists: true, category: 'finance' },
     { path: '/reports', title: 'Financial Reports', icon: 'ChartLine', exists: true, category: 'reports' },
     { path: '/centralized-reports', title: 'Centralized Reports', icon: 'ChartLine', exists: true, category: 'reports' },
     { path: '/analytics', title: 'Analytics', icon: 'BarChart3', exists: true, category: 'reports' },
@@ -168,7 +176,9 @@ export const ROLE_PAGES: Record<AppRole, PageConfig[]> = {
     { path: '/clients', title: 'Clients', icon: 'Handshake', exists: true, category: 'management' },
     { path: '/crm', title: 'CRM', icon: 'Users2', exists: true, category: 'management' },
     { path: '/attendance', title: 'Attendance', icon: 'Clock', exists: true, category: 'hr' },
+    { path: '/shift-roster', title: 'Shift Roster', icon: 'Clock', exists: true, category: 'hr' },
     { path: '/leave-requests', title: 'Leave Requests', icon: 'ClipboardList', exists: true, category: 'hr' },
+    { path: '/leave-policies', title: 'Leave Policies', icon: 'CalendarDays', exists: true, category: 'hr' },
     { path: '/calendar', title: 'Calendar', icon: 'Calendar', exists: true, category: 'hr' },
     { path: '/holiday-management', title: 'Holiday Management', icon: 'CalendarDays', exists: true, category: 'hr' },
     { path: '/financial-management', title: 'Financial Management', icon: 'Calculator', exists: true, category: 'finance' },
@@ -178,6 +188,7 @@ export const ROLE_PAGES: Record<AppRole, PageConfig[]> = {
     { path: '/receipts', title: 'Receipts', icon: 'Receipt', exists: true, category: 'finance' },
     { path: '/ledger', title: 'Ledger', icon: 'BookOpen', exists: true, category: 'finance' },
     { path: '/gst-compliance', title: 'GST Compliance', icon: 'FileBarChart', exists: true, category: 'finance' },
+    { path: '/budgets', title: 'Budgets', icon: 'Target', exists: true, category: 'finance' },
     { path: '/reimbursements', title: 'Reimbursements', icon: 'DollarSign', exists: true, category: 'finance' },
     { path: '/quotations', title: 'Quotations', icon: 'FileCheck', exists: true, category: 'finance' },
     { path: '/jobs', title: 'Job Costing', icon: 'Target', exists: true, category: 'projects' },
@@ -189,6 +200,7 @@ export const ROLE_PAGES: Record<AppRole, PageConfig[]> = {
     { path: '/inventory/serial-batch', title: 'Serial & Batch Tracking', icon: 'Hash', exists: true, category: 'inventory' },
     { path: '/inventory/warehouses', title: 'Warehouses', icon: 'Warehouse', exists: true, category: 'inventory' },
     { path: '/inventory/stock-levels', title: 'Stock Levels', icon: 'TrendingUp', exists: true, category: 'inventory' },
+    { path: '/inventory/stock-takes', title: 'Stock Takes', icon: 'ClipboardList', exists: true, category: 'inventory' },
     { path: '/inventory/transfers', title: 'Transfers', icon: 'ArrowRightLeft', exists: true, category: 'inventory' },
     { path: '/inventory/adjustments', title: 'Adjustments', icon: 'Edit', exists: true, category: 'inventory' },
     { path: '/inventory/reports', title: 'Inventory Reports', icon: 'BarChart3', exists: true, category: 'reports' },
@@ -198,6 +210,7 @@ export const ROLE_PAGES: Record<AppRole, PageConfig[]> = {
     { path: '/procurement/purchase-orders', title: 'Purchase Orders', icon: 'ShoppingBag', exists: true, category: 'procurement' },
     { path: '/procurement/requisitions', title: 'Requisitions', icon: 'FileText', exists: true, category: 'procurement' },
     { path: '/procurement/goods-receipts', title: 'Goods Receipts', icon: 'PackageCheck', exists: true, category: 'procurement' },
+    { path: '/procurement/supplier-invoices', title: 'Supplier Invoices', icon: 'Receipt', exists: true, category: 'procurement' },
     { path: '/procurement/rfq', title: 'RFQ/RFP', icon: 'FileSearch', exists: true, category: 'procurement' },
     { path: '/procurement/vendor-contracts', title: 'Vendor Contracts', icon: 'FileText', exists: true, category: 'procurement' },
     { path: '/procurement/vendor-performance', title: 'Vendor Performance', icon: 'TrendingUp', exists: true, category: 'procurement' },
@@ -207,6 +220,8 @@ export const ROLE_PAGES: Record<AppRole, PageConfig[]> = {
     { path: '/assets/categories', title: 'Asset Categories', icon: 'FolderTree', exists: true, category: 'assets' },
     { path: '/assets/locations', title: 'Asset Locations', icon: 'MapPin', exists: true, category: 'assets' },
     { path: '/assets/maintenance', title: 'Asset Maintenance', icon: 'Wrench', exists: true, category: 'assets' },
+    { path: '/assets/maintenance-plans', title: 'Maintenance Plans', icon: 'CalendarDays', exists: true, category: 'assets' },
+    { path: '/assets/custody', title: 'Asset Custody', icon: 'ClipboardList', exists: true, category: 'assets' },
     { path: '/assets/depreciation', title: 'Asset Depreciation', icon: 'TrendingDown', exists: true, category: 'assets' },
     { path: '/assets/disposals', title: 'Asset Disposals', icon: 'Trash2', exists: true, category: 'assets' },
     { path: '/assets/reports', title: 'Asset Reports', icon: 'BarChart3', exists: true, category: 'reports' },
@@ -229,6 +244,8 @@ export const ROLE_PAGES: Record<AppRole, PageConfig[]> = {
     { path: '/centralized-reports', title: 'Centralized Reports', icon: 'FileBarChart', exists: true, category: 'reports' },
     { path: '/my-profile', title: 'My Profile', icon: 'User', exists: true, category: 'personal' },
     { path: '/my-attendance', title: 'My Attendance', icon: 'Clock', exists: true, category: 'personal' },
+    { path: '/timesheets', title: 'Timesheets', icon: 'Clock', exists: true, category: 'personal' },
+    { path: '/performance-reviews', title: 'Performance Reviews', icon: 'TrendingUp', exists: true, category: 'personal' },
     { path: '/my-leave', title: 'My Leave', icon: 'Calendar', exists: true, category: 'personal' },
     { path: '/settings', title: 'Settings', icon: 'Settings', exists: true, category: 'settings' },
     { path: '/page-requests', title: 'Page Requests', icon: 'FileText', exists: true, category: 'settings' },
@@ -245,6 +262,8 @@ export const ROLE_PAGES: Record<AppRole, PageConfig[]> = {
     { path: '/reports', title: 'Reports', icon: 'ChartLine', exists: true, category: 'reports' },
     { path: '/my-profile', title: 'My Profile', icon: 'User', exists: true, category: 'personal' },
     { path: '/my-attendance', title: 'My Attendance', icon: 'Clock', exists: true, category: 'personal' },
+    { path: '/timesheets', title: 'Timesheets', icon: 'Clock', exists: true, category: 'personal' },
+    { path: '/performance-reviews', title: 'Performance Reviews', icon: 'TrendingUp', exists: true, category: 'personal' },
     { path: '/my-leave', title: 'My Leave', icon: 'Calendar', exists: true, category: 'personal' },
     { path: '/settings', title: 'Settings', icon: 'Settings', exists: true, category: 'settings' },
     { path: '/page-requests', title: 'Page Requests', icon: 'FileText', exists: true, category: 'settings' },
@@ -262,6 +281,8 @@ export const ROLE_PAGES: Record<AppRole, PageConfig[]> = {
     { path: '/reports', title: 'Department Reports', icon: 'ChartLine', exists: true, category: 'reports' },
     { path: '/my-profile', title: 'My Profile', icon: 'User', exists: true, category: 'personal' },
     { path: '/my-attendance', title: 'My Attendance', icon: 'Clock', exists: true, category: 'personal' },
+    { path: '/timesheets', title: 'Timesheets', icon: 'Clock', exists: true, category: 'personal' },
+    { path: '/performance-reviews', title: 'Performance Reviews', icon: 'TrendingUp', exists: true, category: 'personal' },
     { path: '/my-leave', title: 'My Leave', icon: 'Calendar', exists: true, category: 'personal' },
     { path: '/settings', title: 'Settings', icon: 'Settings', exists: true, category: 'settings' },
     { path: '/page-requests', title: 'Page Requests', icon: 'FileText', exists: true, category: 'settings' },
@@ -276,6 +297,8 @@ export const ROLE_PAGES: Record<AppRole, PageConfig[]> = {
     { path: '/projects', title: 'Projects', icon: 'Building', exists: true, category: 'projects' },
     { path: '/my-profile', title: 'My Profile', icon: 'User', exists: true, category: 'personal' },
     { path: '/my-attendance', title: 'My Attendance', icon: 'Clock', exists: true, category: 'personal' },
+    { path: '/timesheets', title: 'Timesheets', icon: 'Clock', exists: true, category: 'personal' },
+    { path: '/performance-reviews', title: 'Performance Reviews', icon: 'TrendingUp', exists: true, category: 'personal' },
     { path: '/my-leave', title: 'My Leave', icon: 'Calendar', exists: true, category: 'personal' },
     { path: '/settings', title: 'Settings', icon: 'Settings', exists: true, category: 'settings' },
     { path: '/page-requests', title: 'Page Requests', icon: 'FileText', exists: true, category: 'settings' },
@@ -292,6 +315,8 @@ export const ROLE_PAGES: Record<AppRole, PageConfig[]> = {
     { path: '/reports', title: 'Project Reports', icon: 'ChartLine', exists: true, category: 'reports' },
     { path: '/my-profile', title: 'My Profile', icon: 'User', exists: true, category: 'personal' },
     { path: '/my-attendance', title: 'My Attendance', icon: 'Clock', exists: true, category: 'personal' },
+    { path: '/timesheets', title: 'Timesheets', icon: 'Clock', exists: true, category: 'personal' },
+    { path: '/performance-reviews', title: 'Performance Reviews', icon: 'TrendingUp', exists: true, category: 'personal' },
     { path: '/my-leave', title: 'My Leave', icon: 'Calendar', exists: true, category: 'personal' },
     { path: '/settings', title: 'Settings', icon: 'Settings', exists: true, category: 'settings' },
     { path: '/page-requests', title: 'Page Requests', icon: 'FileText', exists: true, category: 'settings' },
@@ -308,13 +333,17 @@ export const ROLE_PAGES: Record<AppRole, PageConfig[]> = {
     { path: '/department-management', title: 'Department Management', icon: 'Building2', exists: true, category: 'management' },
     { path: '/crm', title: 'CRM', icon: 'Users2', exists: true, category: 'management' },
     { path: '/attendance', title: 'Attendance', icon: 'Clock', exists: true, category: 'hr' },
+    { path: '/shift-roster', title: 'Shift Roster', icon: 'Clock', exists: true, category: 'hr' },
     { path: '/leave-requests', title: 'Leave Requests', icon: 'ClipboardList', exists: true, category: 'hr' },
+    { path: '/leave-policies', title: 'Leave Policies', icon: 'CalendarDays', exists: true, category: 'hr' },
     { path: '/role-requests', title: 'Role Requests', icon: 'UserCog', exists: true, category: 'hr' },
     { path: '/reimbursements', title: 'Reimbursements', icon: 'DollarSign', exists: true, category: 'finance' },
     { path: '/reports', title: 'HR Reports', icon: 'ChartLine', exists: true, category: 'reports' },
     { path: '/permissions', title: 'Permissions', icon: 'Settings2', exists: true, category: 'settings' },
     { path: '/my-profile', title: 'My Profile', icon: 'User', exists: true, category: 'personal' },
     { path: '/my-attendance', title: 'My Attendance', icon: 'Clock', exists: true, category: 'personal' },
+    { path: '/timesheets', title: 'Timesheets', icon: 'Clock', exists: true, category: 'personal' },
+    { path: '/performance-reviews', title: 'Performance Reviews', icon: 'TrendingUp', exists: true, category: 'personal' },
     { path: '/my-leave', title: 'My Leave', icon: 'Calendar', exists: true, category: 'personal' },
     { path: '/settings', title: 'Settings', icon: 'Settings', exists: true, category: 'settings' },
     { path: '/page-requests', title: 'Page Requests', icon: 'FileText', exists: true, category: 'settings' },
@@ -334,9 +363,12 @@ export const ROLE_PAGES: Record<AppRole, PageConfig[]> = {
     { path: '/financial-management', title: 'Financial Management', icon: 'Calculator', exists: true, category: 'finance' },
     { path: '/ledger', title: 'Ledger', icon: 'BookOpen', exists: true, category: 'finance' },
     { path: '/gst-compliance', title: 'GST Compliance', icon: 'FileText', exists: true, category: 'finance' },
+    { path: '/budgets', title: 'Budgets', icon: 'Target', exists: true, category: 'finance' },
     { path: '/reports', title: 'Financial Reports', icon: 'ChartLine', exists: true, category: 'reports' },
     { path: '/my-profile', title: 'My Profile', icon: 'User', exists: true, category: 'personal' },
     { path: '/my-attendance', title: 'My Attendance', icon: 'Clock', exists: true, category: 'personal' },
+    { path: '/timesheets', title: 'Timesheets', icon: 'Clock', exists: true, category: 'personal' },
+    { path: '/performance-reviews', title: 'Performance Reviews', icon: 'TrendingUp', exists: true, category: 'personal' },
     { path: '/my-leave', title: 'My Leave', icon: 'Calendar', exists: true, category: 'personal' },
     { path: '/settings', title: 'Settings', icon: 'Settings', exists: true, category: 'settings' },
     { path: '/page-requests', title: 'Page Requests', icon: 'FileText', exists: true, category: 'settings' },
@@ -353,6 +385,8 @@ export const ROLE_PAGES: Record<AppRole, PageConfig[]> = {
     { path: '/reports', title: 'Sales Reports', icon: 'ChartLine', exists: true, category: 'reports' },
     { path: '/my-profile', title: 'My Profile', icon: 'User', exists: true, category: 'personal' },
     { path: '/my-attendance', title: 'My Attendance', icon: 'Clock', exists: true, category: 'personal' },
+    { path: '/timesheets', title: 'Timesheets', icon: 'Clock', exists: true, category: 'personal' },
+    { path: '/performance-reviews', title: 'Performance Reviews', icon: 'TrendingUp', exists: true, category: 'personal' },
     { path: '/my-leave', title: 'My Leave', icon: 'Calendar', exists: true, category: 'personal' },
     { path: '/settings', title: 'Settings', icon: 'Settings', exists: true, category: 'settings' },
     { path: '/page-requests', title: 'Page Requests', icon: 'FileText', exists: true, category: 'settings' },
@@ -369,6 +403,8 @@ export const ROLE_PAGES: Record<AppRole, PageConfig[]> = {
     { path: '/analytics', title: 'Analytics', icon: 'BarChart3', exists: true, category: 'reports' },
     { path: '/my-profile', title: 'My Profile', icon: 'User', exists: true, category: 'personal' },
     { path: '/my-attendance', title: 'My Attendance', icon: 'Clock', exists: true, category: 'personal' },
+    { path: '/timesheets', title: 'Timesheets', icon: 'Clock', exists: true, category: 'personal' },
+    { path: '/performance-reviews', title: 'Performance Reviews', icon: 'TrendingUp', exists: true, category: 'personal' },
     { path: '/my-leave', title: 'My Leave', icon: 'Calendar', exists: true, category: 'personal' },
     { path: '/settings', title: 'Settings', icon: 'Settings', exists: true, category: 'settings' },
     { path: '/page-requests', title: 'Page Requests', icon: 'FileText', exists: true, category: 'settings' },
@@ -382,6 +418,8 @@ export const ROLE_PAGES: Record<AppRole, PageConfig[]> = {
     { path: '/reports', title: 'QA Reports', icon: 'ChartLine', exists: true, category: 'reports' },
     { path: '/my-profile', title: 'My Profile', icon: 'User', exists: true, category: 'personal' },
     { path: '/my-attendance', title: 'My Attendance', icon: 'Clock', exists: true, category: 'personal' },
+    { path: '/timesheets', title: 'Timesheets', icon: 'Clock', exists: true, category: 'personal' },
+    { path: '/performance-reviews', title: 'Performance Reviews', icon: 'TrendingUp', exists: true, category: 'personal' },
     { path: '/my-leave', title: 'My Leave', icon: 'Calendar', exists: true, category: 'personal' },
     { path: '/settings', title: 'Settings', icon: 'Settings', exists: true, category: 'settings' },
     { path: '/page-requests', title: 'Page Requests', icon: 'FileText', exists: true, category: 'settings' },
@@ -394,6 +432,8 @@ export const ROLE_PAGES: Record<AppRole, PageConfig[]> = {
     { path: '/reports', title: 'IT Reports', icon: 'ChartLine', exists: true, category: 'reports' },
     { path: '/my-profile', title: 'My Profile', icon: 'User', exists: true, category: 'personal' },
     { path: '/my-attendance', title: 'My Attendance', icon: 'Clock', exists: true, category: 'personal' },
+    { path: '/timesheets', title: 'Timesheets', icon: 'Clock', exists: true, category: 'personal' },
+    { path: '/performance-reviews', title: 'Performance Reviews', icon: 'TrendingUp', exists: true, category: 'personal' },
     { path: '/my-leave', title: 'My Leave', icon: 'Calendar', exists: true, category: 'personal' },
     { path: '/settings', title: 'Settings', icon: 'Settings', exists: true, category: 'settings' },
     { path: '/page-requests', title: 'Page Requests', icon: 'FileText', exists: true, category: 'settings' },
@@ -407,6 +447,8 @@ export const ROLE_PAGES: Record<AppRole, PageConfig[]> = {
     { path: '/reports', title: 'Legal Reports', icon: 'ChartLine', exists: true, category: 'reports' },
     { path: '/my-profile', title: 'My Profile', icon: 'User', exists: true, category: 'personal' },
     { path: '/my-attendance', title: 'My Attendance', icon: 'Clock', exists: true, category: 'personal' },
+    { path: '/timesheets', title: 'Timesheets', icon: 'Clock', exists: true, category: 'personal' },
+    { path: '/performance-reviews', title: 'Performance Reviews', icon: 'TrendingUp', exists: true, category: 'personal' },
     { path: '/my-leave', title: 'My Leave', icon: 'Calendar', exists: true, category: 'personal' },
     { path: '/settings', title: 'Settings', icon: 'Settings', exists: true, category: 'settings' },
     { path: '/page-requests', title: 'Page Requests', icon: 'FileText', exists: true, category: 'settings' },
@@ -421,6 +463,8 @@ export const ROLE_PAGES: Record<AppRole, PageConfig[]> = {
     { path: '/analytics', title: 'Analytics', icon: 'BarChart3', exists: true, category: 'reports' },
     { path: '/my-profile', title: 'My Profile', icon: 'User', exists: true, category: 'personal' },
     { path: '/my-attendance', title: 'My Attendance', icon: 'Clock', exists: true, category: 'personal' },
+    { path: '/timesheets', title: 'Timesheets', icon: 'Clock', exists: true, category: 'personal' },
+    { path: '/performance-reviews', title: 'Performance Reviews', icon: 'TrendingUp', exists: true, category: 'personal' },
     { path: '/my-leave', title: 'My Leave', icon: 'Calendar', exists: true, category: 'personal' },
     { path: '/settings', title: 'Settings', icon: 'Settings', exists: true, category: 'settings' },
     { path: '/page-requests', title: 'Page Requests', icon: 'FileText', exists: true, category: 'settings' },
@@ -436,6 +480,8 @@ export const ROLE_PAGES: Record<AppRole, PageConfig[]> = {
     { path: '/reports', title: 'Customer Reports', icon: 'ChartLine', exists: true, category: 'reports' },
     { path: '/my-profile', title: 'My Profile', icon: 'User', exists: true, category: 'personal' },
     { path: '/my-attendance', title: 'My Attendance', icon: 'Clock', exists: true, category: 'personal' },
+    { path: '/timesheets', title: 'Timesheets', icon: 'Clock', exists: true, category: 'personal' },
+    { path: '/performance-reviews', title: 'Performance Reviews', icon: 'TrendingUp', exists: true, category: 'personal' },
     { path: '/my-leave', title: 'My Leave', icon: 'Calendar', exists: true, category: 'personal' },
     { path: '/settings', title: 'Settings', icon: 'Settings', exists: true, category: 'settings' },
     { path: '/page-requests', title: 'Page Requests', icon: 'FileText', exists: true, category: 'settings' },
@@ -449,6 +495,8 @@ export const ROLE_PAGES: Record<AppRole, PageConfig[]> = {
     { path: '/my-projects', title: 'My Projects', icon: 'Briefcase', exists: true, category: 'projects' },
     { path: '/my-profile', title: 'My Profile', icon: 'User', exists: true, category: 'personal' },
     { path: '/my-attendance', title: 'My Attendance', icon: 'Clock', exists: true, category: 'personal' },
+    { path: '/timesheets', title: 'Timesheets', icon: 'Clock', exists: true, category: 'personal' },
+    { path: '/performance-reviews', title: 'Performance Reviews', icon: 'TrendingUp', exists: true, category: 'personal' },
     { path: '/my-leave', title: 'My Leave', icon: 'Calendar', exists: true, category: 'personal' },
     { path: '/reimbursements', title: 'My Reimbursements', icon: 'DollarSign', exists: true, category: 'personal' },
     { path: '/settings', title: 'Settings', icon: 'Settings', exists: true, category: 'settings' },
@@ -463,6 +511,8 @@ export const ROLE_PAGES: Record<AppRole, PageConfig[]> = {
     { path: '/my-projects', title: 'My Projects', icon: 'Briefcase', exists: true, category: 'projects' },
     { path: '/my-profile', title: 'My Profile', icon: 'User', exists: true, category: 'personal' },
     { path: '/my-attendance', title: 'My Attendance', icon: 'Clock', exists: true, category: 'personal' },
+    { path: '/timesheets', title: 'Timesheets', icon: 'Clock', exists: true, category: 'personal' },
+    { path: '/performance-reviews', title: 'Performance Reviews', icon: 'TrendingUp', exists: true, category: 'personal' },
     { path: '/settings', title: 'Settings', icon: 'Settings', exists: true, category: 'settings' },
     { path: '/page-requests', title: 'Page Requests', icon: 'FileText', exists: true, category: 'settings' },
   ],
@@ -475,6 +525,8 @@ export const ROLE_PAGES: Record<AppRole, PageConfig[]> = {
     { path: '/my-projects', title: 'My Projects', icon: 'Briefcase', exists: true, category: 'projects' },
     { path: '/my-profile', title: 'My Profile', icon: 'User', exists: true, category: 'personal' },
     { path: '/my-attendance', title: 'My Attendance', icon: 'Clock', exists: true, category: 'personal' },
+    { path: '/timesheets', title: 'Timesheets', icon: 'Clock', exists: true, category: 'personal' },
+    { path: '/performance-reviews', title: 'Performance Reviews', icon: 'TrendingUp', exists: true, category: 'personal' },
     { path: '/settings', title: 'Settings', icon: 'Settings', exists: true, category: 'settings' },
     { path: '/page-requests', title: 'Page Requests', icon: 'FileText', exists: true, category: 'settings' },
   ],
@@ -152,6 +152,18 @@ export const ROUTE_PERMISSIONS: Record<string, RoutePermission> = {
     allowHigherRoles: true,
     description: 'Leave request management (HR)'
   },
+  '/shift-roster': {
+    path: '/shift-roster',
+    requiredRoles: ['hr'],
+    allowHigherRoles: true,
+    description: 'Shifts, rotations and weekly rosters (HR)'
+  },
+  '/leave-policies': {
+    path: '/leave-policies',
+    requiredRoles: ['hr'],
+    allowHigherRoles: true,
+    description: 'Leave accrual policies, balances and year-end rollover (HR)'
+  },
   '/holiday-management': { 
     path: '/holiday-management', 
     requiredRoles: ['hr'], 
@@ -220,6 +232,12 @@ export const ROUTE_PERMISSIONS: Record<string, RoutePermission> = {
     allowHigherRoles: true,
     description: 'GST compliance management'
   },
+  '/budgets': { 
+    path: '/budgets', 
+    requiredRoles: ['admin', 'finance_manager', 'cfo'], 
+    allowHigherRoles: true,
+    description: 'Budgets and budget-vs-actual variance'
+  },
   '/quotations': { 
     path: '/quotations', 
     requiredRoles: [], 
@@ -252,6 +270,18 @@ export const ROUTE_PERMISSIONS: Record<string, RoutePermission> = {
     allowHigherRoles: false,
     description: 'Personal attendance view'
   },
+  '/timesheets': {
+    path: '/timesheets',
+    requiredRoles: [],
+    allowHigherRoles: false,
+    description: 'Weekly timesheets, approvals and billable hour invoicing'
+  },
+  '/performance-reviews': {
+    path: '/performance-reviews',
+    requiredRoles: [],
+    allowHigherRoles: false,
+    description: 'Review cycles, goals, self/manager/peer feedback and calibration'
+  },
   '/my-leave': { 
     path: '/my-leave', 
     requiredRoles: [], 
@@ -478,6 +508,12 @@ export const ROUTE_PERMISSIONS: Record<string, RoutePermission> = {
     allowHigherRoles: true,
     description: 'Stock levels and inventory tracking'
   },
+  '/inventory/stock-takes': {
+    path: '/inventory/stock-takes',
+    requiredRoles: ['admin'],
+    allowHigherRoles: true,
+    description: 'Physical stock-takes and cycle counts'
+  },
   '/inventory/transfers': {
     path: '/inventory/transfers',
     requiredRoles: ['admin'],
@@ -514,6 +550,12 @@ export const ROUTE_PERMISSIONS: Record<string, RoutePermission> = {
     allowHigherRoles: true,
     description: 'Goods receipt note (GRN) management'
   },
+  '/procurement/supplier-invoices': {
+    path: '/procurement/supplier-invoices',
+    requiredRoles: ['admin'],
+    allowHigherRoles: true,
+    description: 'Supplier invoices with three-way matching'
+  },
   '/procurement/rfq': {
     path: '/procurement/rfq',
     requiredRoles: ['admin'],
@@ -568,6 +610,18 @@ export const ROUTE_PERMISSIONS: Record<string, RoutePermission> = {
     allowHigherRoles: true,
     description: 'Asset maintenance tracking'
   },
+  '/assets/maintenance-plans': {
+    path: '/assets/maintenance-plans',
+    requiredRoles: ['admin'],
+    allowHigherRoles: true,
+    description: 'Preventive maintenance plans'
+  },
+  '/assets/custody': {
+    path: '/assets/custody',
+    requiredRoles: ['admin'],
+    allowHigherRoles: true,
+    description: 'Asset custody check-out and check-in'
+  },
   '/assets/depreciation': {
     path: '/assets/depreciation',
     requiredRoles: ['admin'],